@@ -48,12 +48,20 @@ export default function OrdersTable({ orders }: { orders: OrderRow[] }) {
                   variant={
                     o.status === "Delivered"
                       ? "default"
-                      : o.status === "Processing"
+                      : o.status === "Processing" || o.status === "ReadyForPickup"
                       ? "outline"
+                      : o.status === "PartiallyShipped" || o.status === "PartiallyDelivered"
+                      ? "secondary"
                       : "destructive"
                   }
                 >
-                  {o.status}
+                  {o.status === "ReadyForPickup"
+                    ? "Ready for pickup"
+                    : o.status === "PartiallyShipped"
+                    ? "Partially shipped"
+                    : o.status === "PartiallyDelivered"
+                    ? "Partially delivered"
+                    : o.status}
                 </Badge>
               </TableCell>
               <TableCell className="px-6 py-3 text-right">
@@ -10,7 +10,20 @@ import { Truck } from "lucide-react";
 
 // Local mirrors of Prisma enums for client-side types
 type Currency = "NGN" | "USD" | "EUR" | "GBP";
-type OrderStatus = "Processing" | "Shipped" | "Delivered" | "Cancelled";
+type OrderStatus =
+  | "Processing"
+  | "ReadyForPickup"
+  | "PartiallyShipped"
+  | "Shipped"
+  | "PartiallyDelivered"
+  | "Delivered"
+  | "Cancelled";
+
+const STATUS_LABELS: Partial<Record<OrderStatus, string>> = {
+  ReadyForPickup: "Ready for pickup",
+  PartiallyShipped: "Partially shipped",
+  PartiallyDelivered: "Partially delivered",
+};
 type OrderChannel = "ONLINE" | "OFFLINE";
 
 export interface OrderDetailProps {
@@ -36,6 +49,15 @@ export interface OrderDetailProps {
       sizeModFee: number;
     }[];
     deliveryFee: number;
+    /** Store pickup orders: where to collect and where the hand-over is at. */
+    pickup?: {
+      locationName: string;
+      address: string;
+      openingHours: string;
+      prepTimeHours: number;
+      readyAt: string | null;
+      collectedAt: string | null;
+    } | null;
   };
 }
 
@@ -51,6 +73,7 @@ export default function OrderDetail({ order }: OrderDetailProps) {
     billingAddress,
     items,
     deliveryFee,
+    pickup,
   } = order;
 
   const subtotal = items.reduce((sum, i) => sum + i.lineTotal, 0);
@@ -77,7 +100,9 @@ export default function OrderDetail({ order }: OrderDetailProps) {
           </CardTitle>
           <div className="flex items-center gap-4 text-sm text-gray-700">
             <span>{new Date(createdAt).toLocaleString()}</span>
-            <Badge variant={badgeVariant}>{status}</Badge>
+            <Badge variant={badgeVariant}>
+              {STATUS_LABELS[status] ?? status}
+            </Badge>
             {channel === "OFFLINE" && (
               <Truck
                 aria-label="Offline sale"
@@ -173,16 +198,32 @@ export default function OrderDetail({ order }: OrderDetailProps) {
           </CardContent>
         </Card>
 
-        {/* Shipping & Billing */}
+        {/* Shipping (or pickup) & Billing */}
         <Card>
           <CardHeader>
-            <CardTitle>Shipping & Billing</CardTitle>
+            <CardTitle>{pickup ? "Pickup & Billing" : "Shipping & Billing"}</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4 text-sm">
-            <div>
-              <h4 className="font-medium">Shipping Address</h4>
-              <p className="text-gray-700">{deliveryAddress}</p>
-            </div>
+            {pickup ? (
+              <div>
+                <h4 className="font-medium">Collect From</h4>
+                <p className="text-gray-700">{pickup.locationName}</p>
+                <p className="text-gray-700">{pickup.address}</p>
+                <p className="text-gray-500">Opening hours: {pickup.openingHours}</p>
+                <p className="mt-1 text-gray-700">
+                  {pickup.collectedAt
+                    ? `Collected on ${new Date(pickup.collectedAt).toLocaleString()}`
+                    : pickup.readyAt
+                    ? "Ready — bring the collection code we emailed you."
+                    : `Usually ready within ${pickup.prepTimeHours} hours. We'll email your collection code.`}
+                </p>
+              </div>
+            ) : (
+              <div>
+                <h4 className="font-medium">Shipping Address</h4>
+                <p className="text-gray-700">{deliveryAddress}</p>
+              </div>
+            )}
             <div>
               <h4 className="font-medium">Billing Address</h4>
               <p className="text-gray-700">{billingAddress}</p>
@@ -0,0 +1,328 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { ImagePlus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+
+// Local mirrors of Prisma enums for client-side types
+type ReturnStatus = "Requested" | "Approved" | "Rejected" | "LabelCreated" | "Received" | "Completed";
+type ReturnType = "Refund" | "Exchange";
+
+export interface ReturnsSectionProps {
+  orderId: string;
+  ineligibleReason: string | null;
+  items: {
+    id: string;
+    name: string;
+    image: string;
+    color: string;
+    size: string;
+    returnable: number;
+    exchangeOptions: { id: string; size: string }[];
+  }[];
+  requests: {
+    id: string;
+    status: ReturnStatus;
+    createdAt: string;
+    staffNote: string | null;
+    labelTrackingUrl: string | null;
+    replacementOrderId: string | null;
+    items: {
+      id: string;
+      name: string;
+      variant: string;
+      quantity: number;
+      type: ReturnType;
+      exchangeSize: string | null;
+    }[];
+  }[];
+}
+
+interface LineState {
+  quantity: number;
+  type: ReturnType;
+  reason: string;
+  photos: string[];
+  exchangeVariantId: string;
+}
+
+const MAX_PHOTOS = 5;
+
+const STATUS_LABELS: Record<ReturnStatus, string> = {
+  Requested: "Awaiting review",
+  Approved: "Approved",
+  Rejected: "Declined",
+  LabelCreated: "Pickup booked",
+  Received: "Received",
+  Completed: "Completed",
+};
+
+export default function ReturnsSection({
+  orderId,
+  ineligibleReason,
+  items,
+  requests,
+}: ReturnsSectionProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [lines, setLines] = useState<Record<string, LineState>>({});
+  const [note, setNote] = useState("");
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const returnableItems = items.filter((i) => i.returnable > 0);
+  const canRequest = !ineligibleReason && returnableItems.length > 0;
+
+  const lineFor = (id: string): LineState =>
+    lines[id] ?? { quantity: 0, type: "Refund", reason: "", photos: [], exchangeVariantId: "" };
+  const updateLine = (id: string, patch: Partial<LineState>) =>
+    setLines((all) => ({ ...all, [id]: { ...lineFor(id), ...patch } }));
+
+  async function addPhoto(itemId: string, file: File) {
+    setUploading(itemId);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/upload", { method: "POST", body: form });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Upload failed");
+      updateLine(itemId, { photos: [...lineFor(itemId).photos, json.data.secure_url as string] });
+    } catch (err: any) {
+      toast.error(err.message || "Upload failed");
+    } finally {
+      setUploading(null);
+    }
+  }
+
+  async function submit() {
+    const selected = Object.entries(lines)
+      .filter(([, l]) => l.quantity > 0)
+      .map(([orderItemId, l]) => ({
+        orderItemId,
+        quantity: l.quantity,
+        type: l.type,
+        reason: l.reason,
+        photos: l.photos,
+        exchangeVariantId: l.type === "Exchange" ? l.exchangeVariantId : null,
+      }));
+    if (selected.length === 0) {
+      toast.error("Select at least one item to return.");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/account/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId, note: note.trim() || undefined, items: selected }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Could not submit your request");
+      toast.success("Return requested — we'll email you once it's reviewed.");
+      setOpen(false);
+      setLines({});
+      setNote("");
+      router.refresh();
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (requests.length === 0 && !canRequest) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle>Returns &amp; Exchanges</CardTitle>
+        {canRequest && !open && (
+          <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+            Return or exchange items
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        {requests.length > 0 && (
+          <ul className="space-y-4">
+            {requests.map((r) => (
+              <li key={r.id} className="border rounded p-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-gray-600">
+                    Requested {new Date(r.createdAt).toLocaleDateString()}
+                  </span>
+                  <Badge variant={r.status === "Rejected" ? "secondary" : "outline"}>
+                    {STATUS_LABELS[r.status]}
+                  </Badge>
+                </div>
+                <ul className="text-gray-700">
+                  {r.items.map((it) => (
+                    <li key={it.id}>
+                      {it.quantity} × {it.name} ({it.variant}) —{" "}
+                      {it.type === "Exchange" ? `exchange for size ${it.exchangeSize ?? "—"}` : "refund"}
+                    </li>
+                  ))}
+                </ul>
+                {r.staffNote && <p className="text-gray-600">Note from us: {r.staffNote}</p>}
+                {r.labelTrackingUrl && (
+                  <a href={r.labelTrackingUrl} target="_blank" rel="noreferrer" className="underline">
+                    Track your return pickup
+                  </a>
+                )}
+                {r.replacementOrderId && (
+                  <p>
+                    Replacement order:{" "}
+                    <a href={`/account/orders/${r.replacementOrderId}`} className="underline font-mono">
+                      {r.replacementOrderId}
+                    </a>
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!canRequest && ineligibleReason && (
+          <p className="text-gray-500">{ineligibleReason}.</p>
+        )}
+
+        {open && (
+          <div className="space-y-4">
+            {returnableItems.map((i) => {
+              const l = lineFor(i.id);
+              return (
+                <div key={i.id} className="border rounded p-3 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium">{i.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {i.color}, {i.size} · up to {i.returnable}
+                      </p>
+                    </div>
+                    <select
+                      value={l.quantity}
+                      onChange={(e) => updateLine(i.id, { quantity: Number(e.target.value) })}
+                      className="border rounded px-2 py-1"
+                      aria-label={`Quantity of ${i.name} to return`}
+                    >
+                      {Array.from({ length: i.returnable + 1 }, (_, n) => (
+                        <option key={n} value={n}>
+                          {n === 0 ? "Keep" : n}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {l.quantity > 0 && (
+                    <div className="space-y-3">
+                      <div className="flex flex-wrap gap-4">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            checked={l.type === "Refund"}
+                            onChange={() => updateLine(i.id, { type: "Refund" })}
+                          />
+                          Refund
+                        </label>
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            checked={l.type === "Exchange"}
+                            disabled={i.exchangeOptions.length === 0}
+                            onChange={() => updateLine(i.id, { type: "Exchange" })}
+                          />
+                          Exchange for another size
+                          {i.exchangeOptions.length === 0 && (
+                            <span className="text-xs text-gray-400">(none in stock)</span>
+                          )}
+                        </label>
+                        {l.type === "Exchange" && (
+                          <select
+                            value={l.exchangeVariantId}
+                            onChange={(e) => updateLine(i.id, { exchangeVariantId: e.target.value })}
+                            className="border rounded px-2 py-1"
+                          >
+                            <option value="">Choose size</option>
+                            {i.exchangeOptions.map((o) => (
+                              <option key={o.id} value={o.id}>
+                                {o.size}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+
+                      <Textarea
+                        value={l.reason}
+                        onChange={(e) => updateLine(i.id, { reason: e.target.value })}
+                        placeholder="What's wrong with it? (e.g. too small, damaged, not as pictured)"
+                        maxLength={500}
+                      />
+
+                      <div className="flex flex-wrap items-center gap-2">
+                        {l.photos.map((url) => (
+                          <div key={url} className="relative w-16 h-16">
+                            <img src={url} alt="Return photo" className="w-16 h-16 object-cover rounded" />
+                            <button
+                              type="button"
+                              onClick={() =>
+                                updateLine(i.id, { photos: l.photos.filter((p) => p !== url) })
+                              }
+                              className="absolute -top-2 -right-2 bg-white border rounded-full p-0.5"
+                              aria-label="Remove photo"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+                        ))}
+                        {l.photos.length < MAX_PHOTOS && (
+                          <label className="w-16 h-16 border border-dashed rounded flex items-center justify-center cursor-pointer text-gray-500 hover:bg-gray-50">
+                            <ImagePlus className="w-5 h-5" />
+                            <input
+                              type="file"
+                              accept="image/*"
+                              className="hidden"
+                              disabled={uploading === i.id}
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = "";
+                                if (file) addPhoto(i.id, file);
+                              }}
+                            />
+                          </label>
+                        )}
+                        {uploading === i.id && <span className="text-xs text-gray-500">Uploading…</span>}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Anything else we should know? (optional)"
+              maxLength={1000}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setOpen(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button onClick={submit} disabled={submitting || uploading !== null}>
+                {submitting ? "Submitting…" : "Submit request"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
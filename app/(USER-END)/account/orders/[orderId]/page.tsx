@@ -6,10 +6,22 @@ import { redirect } from "next/navigation";
 
 import { prisma } from "@/lib/db";
 import OrderDetail from "./OrderDetail";
+import ReturnsSection from "./ReturnsSection";
+import TrackingTimeline from "@/components/TrackingTimeline";
 import { authOptions } from "@/lib/authOptions";
+import { returnableQuantities, returnIneligibility } from "@/lib/returns";
+import { getTrackingTimelines } from "@/lib/shipmentTracking";
+import { formatPickupAddress } from "@/lib/pickup";
 
 // Local mirrors of Prisma enums for typing the view-model
-type OrderStatus = "Processing" | "Shipped" | "Delivered" | "Cancelled";
+type OrderStatus =
+  | "Processing"
+  | "ReadyForPickup"
+  | "PartiallyShipped"
+  | "Shipped"
+  | "PartiallyDelivered"
+  | "Delivered"
+  | "Cancelled";
 type OrderChannel = "ONLINE" | "OFFLINE";
 type Currency = "NGN" | "USD" | "EUR" | "GBP";
 
@@ -37,6 +49,7 @@ export default async function OrderPage({
           lineTotal: true,
           hasSizeMod: true,
           sizeModFee: true,
+          variant: { select: { id: true, productId: true, color: true } },
         },
       },
       customer: {
@@ -47,6 +60,7 @@ export default async function OrderPage({
           id: true,
         },
       },
+      pickup: { include: { location: true } },
     },
   });
 
@@ -76,8 +90,63 @@ export default async function OrderPage({
     })),
     // TODO: wire actual delivery fee from order.deliveryFee if available
     deliveryFee: order.deliveryFee ?? 0,
+    pickup: order.pickup
+      ? {
+          locationName: order.pickup.location.name,
+          address: formatPickupAddress(order.pickup.location),
+          openingHours: order.pickup.location.openingHours,
+          prepTimeHours: order.pickup.location.prepTimeHours,
+          readyAt: order.pickup.readyAt?.toISOString() ?? null,
+          collectedAt: order.pickup.collectedAt?.toISOString() ?? null,
+        }
+      : null,
   };
 
+  // Returns & exchanges (own orders only)
+  const isOwnOrder = !!order.customerId && order.customerId === session.user.id;
+  const [returns, returnable, siblings] = isOwnOrder
+    ? await Promise.all([
+        prisma.returnRequest.findMany({
+          where: { orderId: order.id },
+          orderBy: { createdAt: "desc" },
+          include: {
+            items: {
+              include: {
+                orderItem: { select: { name: true, color: true, size: true } },
+                exchangeVariant: { select: { size: true } },
+              },
+            },
+          },
+        }),
+        returnableQuantities(prisma, order.id),
+        prisma.variant.findMany({
+          where: { productId: { in: order.items.map((i) => i.variant.productId) } },
+          select: { id: true, productId: true, color: true, size: true, stock: true },
+          orderBy: { size: "asc" },
+        }),
+      ])
+    : [[], new Map<string, number>(), []];
+
+  const timelines = await getTrackingTimelines(order.id);
+
+  const returnItems = order.items.map((i) => ({
+    id: i.id,
+    name: i.name,
+    image: i.image ?? "",
+    color: i.color,
+    size: i.size,
+    returnable: returnable.get(i.id) ?? 0,
+    exchangeOptions: siblings
+      .filter(
+        (v) =>
+          v.productId === i.variant.productId &&
+          v.color === i.variant.color &&
+          v.id !== i.variant.id &&
+          v.stock > 0
+      )
+      .map((v) => ({ id: v.id, size: v.size })),
+  }));
+
   return (
     <section className="px-4 py-8 max-w-4xl mx-auto space-y-6">
       <nav className="text-sm text-gray-600 mb-4 flex items-center gap-2">
@@ -96,6 +165,32 @@ export default async function OrderPage({
         <span className="font-medium">#{detail.id}</span>
       </nav>
       <OrderDetail order={detail} />
+      {timelines.map((t) => (
+        <TrackingTimeline key={t.shipmentId} timeline={t} />
+      ))}
+      {isOwnOrder && (
+        <ReturnsSection
+          orderId={order.id}
+          ineligibleReason={returnIneligibility(order)}
+          items={returnItems}
+          requests={returns.map((r) => ({
+            id: r.id,
+            status: r.status,
+            createdAt: r.createdAt.toISOString(),
+            staffNote: r.staffNote,
+            labelTrackingUrl: r.labelTrackingUrl,
+            replacementOrderId: r.replacementOrderId,
+            items: r.items.map((it) => ({
+              id: it.id,
+              name: it.orderItem.name,
+              variant: [it.orderItem.color, it.orderItem.size].filter(Boolean).join(" / "),
+              quantity: it.quantity,
+              type: it.type,
+              exchangeSize: it.exchangeVariant?.size ?? null,
+            })),
+          }))}
+        />
+      )}
     </section>
   );
 }
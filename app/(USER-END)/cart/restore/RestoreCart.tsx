@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { useCartStore, type CartItem } from "@/lib/store/cartStore";
+
+/** Adds a reminder email's lines to the local cart, then opens checkout. */
+export default function RestoreCart({ items }: { items: CartItem[] }) {
+  const router = useRouter();
+  const done = useRef(false);
+
+  useEffect(() => {
+    if (done.current) return;
+    done.current = true;
+
+    const { items: current, addToCart } = useCartStore.getState();
+    for (const item of items) {
+      // addToCart adds to a matching line; top it up to the saved quantity instead
+      const existing = current.find(
+        (ci) =>
+          ci.product.id === item.product.id &&
+          ci.color === item.color &&
+          ci.size === item.size &&
+          ci.hasSizeMod === item.hasSizeMod &&
+          JSON.stringify(ci.customMods ?? null) === JSON.stringify(item.customMods ?? null)
+      );
+      const missing = item.quantity - (existing?.quantity ?? 0);
+      if (missing > 0) addToCart({ ...item, quantity: missing });
+    }
+    toast.success("Your bag has been restored");
+    router.replace("/checkout");
+  }, [items, router]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center text-sm text-gray-600">
+      Restoring your bag…
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Header } from "@/components/shared/header";
+import Footer from "@/components/shared/footer";
+import { prismaReady } from "@/lib/db";
+import { restoreAbandonedCart } from "@/lib/abandonedCarts";
+import RestoreCart from "./RestoreCart";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Your bag",
+  robots: { index: false },
+};
+
+export default async function RestoreCartPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  await prismaReady;
+  const cart = token ? await restoreAbandonedCart(token) : null;
+  const ordered = cart?.status === "Converted" || cart?.status === "Recovered";
+
+  if (cart && !ordered && cart.items.length > 0) {
+    return <RestoreCart items={cart.items} />;
+  }
+
+  return (
+    <section className="flex min-h-screen flex-col">
+      <Header />
+
+      <main className="flex-1 px-5 py-16 md:px-10 lg:px-40 my-20">
+        <div className="mx-auto max-w-xl text-center space-y-4">
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">
+            {!cart ? "Link not recognised" : ordered ? "You've already ordered" : "These items are gone"}
+          </h1>
+          <p className="text-sm text-gray-700">
+            {!cart
+              ? "This link is invalid. Your bag may still be saved on the device you shopped on."
+              : ordered
+                ? "Thanks — we've already received your order for this bag."
+                : "Sorry, the items in this bag are no longer available."}
+          </p>
+          <Link href="/all-products" className="inline-block text-sm font-medium underline">
+            Continue shopping
+          </Link>
+        </div>
+      </main>
+
+      <Footer />
+    </section>
+  );
+}
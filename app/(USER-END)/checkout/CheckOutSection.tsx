@@ -15,6 +15,10 @@
  *   - Delivery Fee in Order Summary uses the converted fee in the selected currency
  *   - Paystack is always charged in NGN using FX conversion of the total
  *   - Paystack gateway fees are added on top of the order total and shown transparently
+ *   - discount codes are priced by /api/promotions/validate and re-checked by the order route
+ *   - the amount charged comes from a signed /api/checkout/quote
+ *   - the cart is held via /api/checkout/reservations while the Paystack popup is open
+ *   - store pickup (from /api/pickup-locations) replaces courier rates when chosen
  */
 
 import React, {
@@ -41,7 +45,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { FaArrowLeftLong } from "react-icons/fa6";
-import { useCartStore, CartItem } from "@/lib/store/cartStore";
+import { useCartStore, CartItem, cartItemUnitPrice } from "@/lib/store/cartStore";
 import { useCurrency } from "@/lib/context/currencyContext";
 import type { Currency } from "@/lib/context/currencyContext";
 import { formatAmount } from "@/lib/formatCurrency";
@@ -64,8 +68,8 @@ import {
   type Currency as FxCurrency,
 } from "@/lib/fx";
 
-const PaystackButton = dynamic(
-  () => import("react-paystack").then((m) => m.PaystackButton),
+const PaystackConsumer = dynamic(
+  () => import("react-paystack").then((m) => m.PaystackConsumer),
   { ssr: false }
 );
 
@@ -120,32 +124,6 @@ function buildPhonePlaceholder(dialCode: string): string {
   return "local number without country code";
 }
 
-/** Derive per-unit price from product fields for current currency */
-function unitPriceFromProduct(product: any, currency: Currency): number {
-  if (product?.prices && typeof product.prices === "object") {
-    const v = product.prices[currency];
-    if (typeof v === "number") return v;
-  }
-  const map: Record<Currency, keyof any> = {
-    NGN: "priceNGN",
-    USD: "priceUSD",
-    EUR: "priceEUR",
-    GBP: "priceGBP",
-  };
-  const field = map[currency];
-  const val = product?.[field];
-  if (typeof val === "number") return val;
-
-  const anyPrice =
-    product?.priceNGN ??
-    product?.priceUSD ??
-    product?.priceEUR ??
-    product?.priceGBP;
-  if (typeof anyPrice === "number") return anyPrice;
-
-  return 0;
-}
-
 /**
  * Compute Paystack gateway fee in NGN (major units) for a given NGN amount.
  * - Local: 1.5% + ₦100 (₦100 waived for amounts < ₦2500), capped at ₦2000
@@ -245,10 +223,7 @@ export default function CheckoutSection({ user }: Props) {
     let weight = 0;
 
     for (const it of items) {
-      const unitBase =
-        unitPriceFromProduct(it.product as any, currencyCode) ||
-        it.price ||
-        0;
+      const unitBase = cartItemUnitPrice(it, currencyCode);
       const unitSizeFee = it.hasSizeMod
         ? +(unitBase * 0.05).toFixed(2)
         : 0;
@@ -375,10 +350,7 @@ export default function CheckoutSection({ user }: Props) {
   const packageItems = useMemo(
     () =>
       items.map((it) => {
-        const unitBase =
-          unitPriceFromProduct(it.product as any, currencyCode) ||
-          it.price ||
-          0;
+        const unitBase = cartItemUnitPrice(it, currencyCode);
         const unitSizeFee = it.hasSizeMod
           ? +(unitBase * 0.05).toFixed(2)
           : 0;
@@ -482,6 +454,8 @@ export default function CheckoutSection({ user }: Props) {
     currency: "NGN" | "USD" | "EUR" | "GBP"; // same as currencyCode at selection time
     originalFee: number;
     originalCurrency: "NGN" | "USD" | "EUR" | "GBP";
+    /** Server signature over the original fee; required by the quote endpoint */
+    signature: string | null;
     courierName: string;
     eta?: string | null;
     raw?: any;
@@ -490,11 +464,136 @@ export default function CheckoutSection({ user }: Props) {
   const [selectedShipRate, setSelectedShipRate] =
     useState<SelectedShipRate | null>(null);
 
+  // ───────────── Store pickup ─────────────
+  // Only offered when the store has an active pickup option with open
+  // locations. Pickup is free unless the server quote says otherwise.
+  type PickupLocationOption = {
+    id: string;
+    name: string;
+    address: string;
+    city: string | null;
+    state: string | null;
+    country: string;
+    phone: string | null;
+    openingHours: string;
+    prepTimeHours: number;
+    instructions: string | null;
+  };
+  type PickupOffer = {
+    deliveryOption: { id: string; name: string } | null;
+    locations: PickupLocationOption[];
+  };
+  const [pickupOffer, setPickupOffer] = useState<PickupOffer | null>(null);
+  const [deliveryMode, setDeliveryMode] = useState<"delivery" | "pickup">(
+    "delivery"
+  );
+  const [selectedPickupId, setSelectedPickupId] = useState<string | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/pickup-locations")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((json: PickupOffer | null) => {
+        if (!cancelled && json?.deliveryOption && json.locations?.length) {
+          setPickupOffer(json);
+        }
+      })
+      .catch(() => null);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isPickup = deliveryMode === "pickup" && !!pickupOffer?.deliveryOption;
+  const selectedPickup = isPickup
+    ? pickupOffer?.locations.find((l) => l.id === selectedPickupId) ?? null
+    : null;
+
+  const chooseDeliveryMode = (mode: "delivery" | "pickup") => {
+    setDeliveryMode(mode);
+    setSelectedShipRate(null);
+    setSelectedPickupId(
+      mode === "pickup" && pickupOffer?.locations.length === 1
+        ? pickupOffer.locations[0].id
+        : null
+    );
+  };
+
   // Converted shipping fee used in summary
-  const shipFee = selectedShipRate?.fee ?? 0;
+  const shipFee = isPickup ? 0 : selectedShipRate?.fee ?? 0;
+
+  // ───────────── Discount code ─────────────
+  type AppliedPromo = {
+    code: string;
+    description: string | null;
+    itemsDiscount: number;
+    shippingDiscount: number;
+    discountAmount: number;
+  };
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const [promoLoading, setPromoLoading] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
+
+  const validatePromo = useCallback(
+    async (code: string, silent = false) => {
+      if (!code.trim() || items.length === 0) return;
+      try {
+        setPromoLoading(true);
+        setPromoError(null);
+        const resp = await fetch("/api/promotions/validate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            code,
+            currency: currencyCode,
+            deliveryFee: shipFee,
+            email,
+            items: items.map((it) => ({
+              productId: it.product.id,
+              color: it.color,
+              size: it.size,
+              quantity: it.quantity,
+              hasSizeMod: !!it.hasSizeMod,
+            })),
+          }),
+        });
+        const json = await resp.json();
+        if (!resp.ok || !json?.valid) {
+          throw new Error(json?.error || "This discount code is not valid.");
+        }
+        setAppliedPromo({
+          code: json.promotion.code,
+          description: json.promotion.description ?? null,
+          itemsDiscount: Number(json.promotion.itemsDiscount) || 0,
+          shippingDiscount: Number(json.promotion.shippingDiscount) || 0,
+          discountAmount: Number(json.promotion.discountAmount) || 0,
+        });
+        if (!silent) toast.success("Discount applied.");
+      } catch (e: any) {
+        setAppliedPromo(null);
+        setPromoError(e?.message || "This discount code is not valid.");
+        if (!silent) toast.error(e?.message || "This discount code is not valid.");
+      } finally {
+        setPromoLoading(false);
+      }
+    },
+    [items, currencyCode, shipFee, email]
+  );
+
+  // Re-price an applied code whenever the cart or delivery fee changes
+  // (e.g. free-shipping codes depend on the selected courier).
+  const appliedCode = appliedPromo?.code;
+  useEffect(() => {
+    if (appliedCode) validatePromo(appliedCode, true);
+  }, [appliedCode, validatePromo]);
 
-  // Total before applying Paystack transaction charge (items + size mods + shipping)
-  const totalBeforeGateway = baseTotal + shipFee;
+  const discountAmount = appliedPromo?.discountAmount ?? 0;
+
+  // Total before applying Paystack transaction charge (items + size mods + shipping − discount)
+  const totalBeforeGateway = Math.max(baseTotal + shipFee - discountAmount, 0);
 
   // Same total expressed in NGN for Paystack charging
   const totalBeforeGatewayInNaira = useMemo(() => {
@@ -544,15 +643,144 @@ export default function CheckoutSection({ user }: Props) {
     }
   }, [paystackFeeInNaira, currencyCode, fxTable]);
 
+  // Local estimate, shown until the server quote arrives
+  const estimatedTotal = totalBeforeGateway + paystackFeeDisplay;
+
+  const [hasAttemptedPayment, setHasAttemptedPayment] = useState(false);
+  const [customerEmailForModal, setCustomerEmailForModal] =
+    useState<string>("");
+  const [lastPaymentReference, setLastPaymentReference] = useState<
+    string | null
+  >(null);
+  const [orderCreatingFromReference, setOrderCreatingFromReference] =
+    useState(false);
+  // Quote the successful payment was charged against (kept for retries)
+  const [lastQuoteId, setLastQuoteId] = useState<string>("");
+
+  // ───────────── Server quote ─────────────
+  // The server re-prices the cart, delivery, discount and gateway fee and signs
+  // the result. Paystack is charged the quoted NGN amount and the order route
+  // only accepts an order that matches the quote.
+  type QuoteSummary = {
+    quoteId: string;
+    expiresAt: string;
+    itemsSubtotal: number;
+    sizeModTotal: number;
+    deliveryFee: number;
+    discountAmount: number;
+    totalBeforeGateway: number;
+    paystackFeeInNaira: number;
+    totalInNaira: number;
+    total: number;
+  };
+  const [quote, setQuote] = useState<QuoteSummary | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [quoteRefresh, setQuoteRefresh] = useState(0);
+
+  useEffect(() => {
+    if (items.length === 0) {
+      setQuote(null);
+      return;
+    }
+    let cancelled = false;
+    setQuote(null);
+    setQuoteError(null);
+    const timer = setTimeout(async () => {
+      try {
+        setQuoteLoading(true);
+        const resp = await fetch("/api/checkout/quote", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            currency: currencyCode,
+            countryIso2: country?.iso2 ?? null,
+            email,
+            discountCode: appliedCode ?? null,
+            items: items.map((it) => ({
+              productId: it.product.id,
+              color: it.color || "N/A",
+              size: it.size || "N/A",
+              quantity: it.quantity,
+              hasSizeMod: !!it.hasSizeMod,
+            })),
+            deliveryOptionId: selectedPickup
+              ? pickupOffer?.deliveryOption?.id
+              : undefined,
+            pickupLocationId: selectedPickup?.id,
+            shipbubble: !isPickup && selectedShipRate
+              ? {
+                  requestToken: selectedShipRate.requestToken,
+                  serviceCode: selectedShipRate.serviceCode,
+                  courierId: selectedShipRate.courierId || null,
+                  fee: selectedShipRate.originalFee,
+                  currency: selectedShipRate.originalCurrency,
+                  signature: selectedShipRate.signature,
+                }
+              : null,
+          }),
+        });
+        const json = await resp.json();
+        if (cancelled) return;
+        if (!resp.ok) {
+          throw new Error(json?.error || "Could not price your order.");
+        }
+        setQuote(json as QuoteSummary);
+      } catch (e: any) {
+        if (!cancelled) setQuoteError(e?.message || "Could not price your order.");
+      } finally {
+        if (!cancelled) setQuoteLoading(false);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [items, currencyCode, country?.iso2, email, appliedCode, selectedShipRate, isPickup, selectedPickup, pickupOffer, quoteRefresh]);
+
+  // ───────────── Abandoned cart snapshot ─────────────
+  // Once the shopper has typed a valid email, save the cart so reminder
+  // emails can bring them back if they leave without paying.
+  useEffect(() => {
+    const to = email.trim();
+    if (items.length === 0 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to)) return;
+    const timer = setTimeout(() => {
+      void fetch("/api/checkout/abandoned-cart", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email: to,
+          currency: currencyCode,
+          items: items.slice(0, 50).map((it) => ({
+            productId: it.product.id,
+            color: it.color,
+            size: it.size,
+            quantity: Math.min(it.quantity, 99),
+            hasSizeMod: !!it.hasSizeMod,
+            customMods: it.customMods ?? null,
+          })),
+        }),
+      }).catch(() => null);
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [items, currencyCode, email]);
+
+  // Re-quote shortly before the current one expires
+  useEffect(() => {
+    if (!quote || lastPaymentReference) return;
+    const ms = new Date(quote.expiresAt).getTime() - Date.now() - 60_000;
+    const timer = setTimeout(() => setQuoteRefresh((n) => n + 1), Math.max(ms, 0));
+    return () => clearTimeout(timer);
+  }, [quote, lastPaymentReference]);
+
   // Final totals:
   // - `total` is what we show in the selected currency (items + shipping + Paystack fee)
-  // - `totalInNaira` is what we actually charge via Paystack in NGN
-  const total = totalBeforeGateway + paystackFeeDisplay;
-
-  const totalInNaira = useMemo(
-    () => totalBeforeGatewayInNaira + (paystackFeeInNaira || 0),
-    [totalBeforeGatewayInNaira, paystackFeeInNaira]
-  );
+  // - `totalInNaira` is what we actually charge via Paystack in NGN (quoted only)
+  const total = quote?.total ?? estimatedTotal;
+  const totalInNaira = quote?.totalInNaira ?? 0;
+  const gatewayFeeDisplay = quote
+    ? Math.max(quote.total - quote.totalBeforeGateway, 0)
+    : paystackFeeDisplay;
 
   // Checkout hook
   const { isProcessing, error, result, createOrder, reset } = useCheckout();
@@ -566,7 +794,9 @@ export default function CheckoutSection({ user }: Props) {
     city.trim() !== "" &&
     !!country?.iso2 &&
     !!state &&
-    !!selectedShipRate;
+    (isPickup ? !!selectedPickup : !!selectedShipRate) &&
+    !!quote &&
+    !quoteLoading;
 
   // Paystack
   const paystackPublicKey = process.env.NEXT_PUBLIC_PAYSTACK_KEY || "";
@@ -594,6 +824,53 @@ export default function CheckoutSection({ user }: Props) {
     [paystackReference, email, amountInLowestDenomination, paystackPublicKey]
   );
 
+  // Stock hold for the popup's reference, so the last unit can't be sold twice
+  const [reserving, setReserving] = useState(false);
+  const holdToken = useRef<{ reference: string; token: string } | null>(null);
+  const reserveCart = async (): Promise<boolean> => {
+    try {
+      setReserving(true);
+      const resp = await fetch("/api/checkout/reservations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reference: paystackReference,
+          token:
+            holdToken.current?.reference === paystackReference
+              ? holdToken.current.token
+              : undefined,
+          items: items.map((it) => ({
+            productId: it.product.id,
+            color: it.color || "N/A",
+            size: it.size || "N/A",
+            quantity: it.quantity,
+          })),
+        }),
+      });
+      const json = await resp.json().catch(() => ({}));
+      if (!resp.ok) {
+        throw new Error(json?.error || "Some items are no longer available.");
+      }
+      holdToken.current = { reference: paystackReference, token: json.token };
+      return true;
+    } catch (e: any) {
+      toast.error(e?.message || "Some items are no longer available.");
+      return false;
+    } finally {
+      setReserving(false);
+    }
+  };
+  const releaseCart = (reference: string) => {
+    const hold = holdToken.current;
+    if (hold?.reference !== reference) return;
+    holdToken.current = null;
+    fetch(
+      `/api/checkout/reservations?reference=${encodeURIComponent(reference)}` +
+        `&token=${encodeURIComponent(hold.token)}`,
+      { method: "DELETE" }
+    ).catch(() => {});
+  };
+
   // Full delivery address persisted on order
   const deliveryAddressForOrder = singleLineAddress;
 
@@ -617,10 +894,7 @@ export default function CheckoutSection({ user }: Props) {
       const cm = (it as any).customMods as
         | Record<string, string | number>
         | undefined;
-      const unitBase =
-        unitPriceFromProduct(it.product as any, currencyCode) ||
-        it.price ||
-        0;
+      const unitBase = cartItemUnitPrice(it, currencyCode);
       return {
         productId: it.product.id,
         color: it.color || "N/A",
@@ -635,6 +909,9 @@ export default function CheckoutSection({ user }: Props) {
   }, [items, currencyCode]);
 
   const buildShipbubbleShipping = () => {
+    if (selectedPickup) {
+      return { source: "pickup", pickupLocationId: selectedPickup.id };
+    }
     if (!selectedShipRate) return undefined;
     return {
       source: "shipbubble",
@@ -674,15 +951,6 @@ export default function CheckoutSection({ user }: Props) {
     };
   };
 
-  const [hasAttemptedPayment, setHasAttemptedPayment] = useState(false);
-  const [customerEmailForModal, setCustomerEmailForModal] =
-    useState<string>("");
-  const [lastPaymentReference, setLastPaymentReference] = useState<
-    string | null
-  >(null);
-  const [orderCreatingFromReference, setOrderCreatingFromReference] =
-    useState(false);
-
   const handlePaystackSuccess = async (reference: any) => {
     try {
       setHasAttemptedPayment(true);
@@ -697,12 +965,14 @@ export default function CheckoutSection({ user }: Props) {
         toast.error("Could not determine payment reference.");
         return;
       }
-      if (!selectedShipRate) {
+      if (isPickup ? !selectedPickup : !selectedShipRate) {
         toast.error("Select a delivery option to continue.");
         return;
       }
 
+      const paidQuoteId = quote?.quoteId ?? "";
       setLastPaymentReference(refString);
+      setLastQuoteId(paidQuoteId);
       setOrderCreatingFromReference(true);
 
       const cartItems = buildCartItemsPayload();
@@ -712,12 +982,9 @@ export default function CheckoutSection({ user }: Props) {
         customer: customerPayload,
         paymentMethod: "Paystack",
         currency: currencyCode,
-        deliveryFee: selectedShipRate.fee,
         timestamp: new Date().toISOString(),
-        deliveryOptionId: undefined,
         paymentReference: refString,
-        totalInNaira, // NGN total used for Paystack charge (items + shipping + gateway fee)
-        paystackFeeInNaira,
+        quoteId: paidQuoteId,
         shipping: buildShipbubbleShipping(),
       });
 
@@ -745,7 +1012,7 @@ export default function CheckoutSection({ user }: Props) {
     setHasAttemptedPayment(true);
     if (!lastPaymentReference) return;
     if (isProcessing || orderCreatingFromReference) return;
-    if (!selectedShipRate) {
+    if (isPickup ? !selectedPickup : !selectedShipRate) {
       toast.error("Select a delivery option to continue.");
       return;
     }
@@ -759,12 +1026,9 @@ export default function CheckoutSection({ user }: Props) {
         customer: customerPayload,
         paymentMethod: "Paystack",
         currency: currencyCode,
-        deliveryFee: selectedShipRate.fee,
         timestamp: new Date().toISOString(),
-        deliveryOptionId: undefined,
         paymentReference: lastPaymentReference,
-        totalInNaira,
-        paystackFeeInNaira,
+        quoteId: lastQuoteId,
         shipping: buildShipbubbleShipping(),
       });
 
@@ -1032,7 +1296,7 @@ export default function CheckoutSection({ user }: Props) {
               </div>
 
               {/* Manual fetch button for Shipbubble rates */}
-              <div className="mt-4">
+              <div className={`mt-4 ${isPickup ? "hidden" : ""}`}>
                 <Button
                   onClick={getRates}
                   disabled={!formReadyForRates || ratesLoading}
@@ -1101,7 +1365,71 @@ export default function CheckoutSection({ user }: Props) {
                 Delivery Option
               </h2>
 
-              {boxUsed && (
+              {pickupOffer?.deliveryOption && (
+                <div className="mb-4 inline-flex rounded-full border border-gray-200 p-1 text-sm">
+                  {(["delivery", "pickup"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => chooseDeliveryMode(mode)}
+                      className={`rounded-full px-4 py-1.5 ${
+                        deliveryMode === mode
+                          ? "bg-brand text-white"
+                          : "text-gray-700 hover:text-brand"
+                      }`}
+                    >
+                      {mode === "delivery" ? "Delivery" : "Store pickup"}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {isPickup && pickupOffer && (
+                <div className="grid gap-4">
+                  {pickupOffer.locations.map((l) => {
+                    const isSelected = selectedPickupId === l.id;
+                    return (
+                      <label
+                        key={l.id}
+                        className={`border rounded-lg p-4 flex justify-between items-start cursor-pointer ${
+                          isSelected ? "ring-2 ring-brand" : ""
+                        }`}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium">{l.name}</div>
+                          <div className="text-xs text-gray-600">
+                            {[l.address, l.city, l.state, l.country]
+                              .filter(Boolean)
+                              .join(", ")}
+                          </div>
+                          <div className="text-xs text-gray-600 mt-1">
+                            {l.openingHours}
+                            {l.prepTimeHours > 0 &&
+                              ` · Ready in about ${l.prepTimeHours} hour${
+                                l.prepTimeHours === 1 ? "" : "s"
+                              }`}
+                          </div>
+                          <div className="text-sm mt-1">Fee: Free</div>
+                        </div>
+                        <input
+                          type="radio"
+                          name="pickupLocation"
+                          checked={isSelected}
+                          onChange={() => setSelectedPickupId(l.id)}
+                          aria-label={`Collect from ${l.name}`}
+                          className="ml-2"
+                        />
+                      </label>
+                    );
+                  })}
+                  <p className="text-xs text-gray-500">
+                    We&apos;ll email you a collection code when your order is
+                    ready. Bring it with you to collect.
+                  </p>
+                </div>
+              )}
+
+              {!isPickup && boxUsed && (
                 <div className="mb-4 text-sm text-gray-700 rounded-md border border-gray-200 bg-gray-50 px-4 py-3">
                   <span className="font-medium">Estimated package:</span>{" "}
                   {boxUsed.name} — {boxUsed.length}×{boxUsed.width}×
@@ -1115,7 +1443,8 @@ export default function CheckoutSection({ user }: Props) {
                 </p>
               )}
 
-              {!ratesLoading &&
+              {!isPickup &&
+                !ratesLoading &&
                 Array.isArray(sbRates) &&
                 sbRates.length > 0 && (
                   <div className="grid gap-4">
@@ -1218,6 +1547,7 @@ export default function CheckoutSection({ user }: Props) {
                                   originalFee,
                                   originalCurrency:
                                     originalCurrency as SelectedShipRate["originalCurrency"],
+                                  signature: r.signature ?? null,
                                   courierName: r.courierName,
                                   eta: r.eta,
                                   raw: r.raw,
@@ -1234,13 +1564,14 @@ export default function CheckoutSection({ user }: Props) {
                   </div>
                 )}
 
-              {ratesLoading && (
+              {!isPickup && ratesLoading && (
                 <p className="text-sm text-gray-500">
                   Fetching live rates…
                 </p>
               )}
 
-              {!ratesLoading &&
+              {!isPickup &&
+                !ratesLoading &&
                 Array.isArray(sbRates) &&
                 sbRates.length === 0 &&
                 requestToken == null && (
@@ -1264,10 +1595,7 @@ export default function CheckoutSection({ user }: Props) {
                         ((unitWeight * item.quantity) || 0).toFixed(3)
                       );
 
-                      const unitBase =
-                        unitPriceFromProduct(item.product as any, currencyCode) ||
-                        item.price ||
-                        0;
+                      const unitBase = cartItemUnitPrice(item, currencyCode);
                       const unitSizeFee = item.hasSizeMod
                         ? +(unitBase * 0.05).toFixed(2)
                         : 0;
@@ -1333,22 +1661,90 @@ export default function CheckoutSection({ user }: Props) {
               <h2 className="text-lg font-semibold mb-4">
                 Order Summary
               </h2>
+
+              <div className="mb-4">
+                <Label htmlFor="discountCode" className="mb-2 block">
+                  Discount code
+                </Label>
+                {appliedPromo ? (
+                  <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm">
+                    <div>
+                      <span className="font-medium text-green-800">
+                        {appliedPromo.code}
+                      </span>
+                      {appliedPromo.description && (
+                        <p className="text-xs text-green-700">
+                          {appliedPromo.description}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="text-gray-600"
+                      disabled={isProcessing || orderCreatingFromReference}
+                      onClick={() => {
+                        setAppliedPromo(null);
+                        setPromoInput("");
+                        setPromoError(null);
+                      }}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      id="discountCode"
+                      value={promoInput}
+                      placeholder="Enter code"
+                      onChange={(e) =>
+                        setPromoInput(e.currentTarget.value.toUpperCase())
+                      }
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={!promoInput.trim() || promoLoading}
+                      onClick={() => validatePromo(promoInput)}
+                    >
+                      {promoLoading ? "Checking…" : "Apply"}
+                    </Button>
+                  </div>
+                )}
+                {promoError && (
+                  <p className="mt-1 text-xs text-red-600">{promoError}</p>
+                )}
+              </div>
               <div className="space-y-2 text-sm flex-1">
                 <div className="flex justify-between">
                   <span>Items Subtotal:</span>
-                  <span>{formatAmount(itemsSubtotal, currencyCode)}</span>
+                  <span>
+                    {formatAmount(quote?.itemsSubtotal ?? itemsSubtotal, currencyCode)}
+                  </span>
                 </div>
                 <div className="flex justify-between">
                   <span>Size Mods:</span>
-                  <span>{formatAmount(sizeModTotal, currencyCode)}</span>
+                  <span>
+                    {formatAmount(quote?.sizeModTotal ?? sizeModTotal, currencyCode)}
+                  </span>
                 </div>
                 <div className="flex justify-between">
                   <span>Delivery Fee:</span>
-                  <span>{formatAmount(shipFee, currencyCode)}</span>
+                  <span>
+                    {formatAmount(quote?.deliveryFee ?? shipFee, currencyCode)}
+                  </span>
                 </div>
+                {appliedPromo && discountAmount > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Discount ({appliedPromo.code}):</span>
+                    <span>
+                      −{formatAmount(quote?.discountAmount ?? discountAmount, currencyCode)}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>Paystack Transaction Fee:</span>
-                  <span>{formatAmount(paystackFeeDisplay, currencyCode)}</span>
+                  <span>{formatAmount(gatewayFeeDisplay, currencyCode)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Total Weight:</span>
@@ -1361,32 +1757,53 @@ export default function CheckoutSection({ user }: Props) {
               </div>
 
               <div className="mt-6">
+                {quoteError && (
+                  <p className="mb-2 text-center text-xs text-red-600">
+                    {quoteError}
+                  </p>
+                )}
                 {!isPaymentReady ? (
                   <Button disabled className="w-full py-3 rounded-full">
-                    Complete required fields
+                    {quoteLoading ? "Updating total…" : "Complete required fields"}
                   </Button>
                 ) : (
                   <div className="space-y-2">
-                    <PaystackButton
+                    <PaystackConsumer
                       {...paystackConfig}
-                      text={
-                        isProcessing || orderCreatingFromReference
-                          ? "Finalizing order..."
-                          : `Pay ${formatAmount(total, currencyCode)}`
+                      // typed as () => void, but Paystack passes the transaction
+                      onSuccess={(reference?: any) =>
+                        handlePaystackSuccess(reference)
                       }
-                      onSuccess={handlePaystackSuccess}
                       onClose={() => {
                         setHasAttemptedPayment(true);
+                        releaseCart(paystackConfig.reference);
                         toast.error(
                           "Payment cancelled. Please try again."
                         );
                       }}
-                      className="w-full py-3 rounded-full bg-brand text-white font-medium disabled:opacity-60"
-                      disabled={paymentDisabled || !paystackPublicKey}
-                    />
+                    >
+                      {({ initializePayment }) => (
+                        <button
+                          type="button"
+                          className="w-full py-3 rounded-full bg-brand text-white font-medium disabled:opacity-60"
+                          disabled={
+                            paymentDisabled || reserving || !paystackPublicKey
+                          }
+                          onClick={async () => {
+                            if (await reserveCart()) initializePayment();
+                          }}
+                        >
+                          {isProcessing || orderCreatingFromReference
+                            ? "Finalizing order..."
+                            : reserving
+                            ? "Reserving items..."
+                            : `Pay ${formatAmount(total, currencyCode)}`}
+                        </button>
+                      )}
+                    </PaystackConsumer>
 
                     <p className="mt-1 text-center text-xs text-gray-500">
-                      You’ll be charged approximately{" "}
+                      You’ll be charged{" "}
                       {formatAmount(totalInNaira, "NGN")} (₦) via Paystack,
                       including transaction fees.
                     </p>
@@ -0,0 +1,48 @@
+import React from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Header } from "@/components/shared/header";
+import Footer from "@/components/shared/footer";
+import { prismaReady } from "@/lib/db";
+import { unsubscribeFromLaunch } from "@/lib/launchNotifications";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Launch alerts",
+  robots: { index: false },
+};
+
+export default async function LaunchAlertUnsubscribePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  await prismaReady;
+  const ok = token ? await unsubscribeFromLaunch(token) : false;
+
+  return (
+    <section className="flex min-h-screen flex-col">
+      <Header />
+
+      <main className="flex-1 px-5 py-16 md:px-10 lg:px-40 my-20">
+        <div className="mx-auto max-w-xl text-center space-y-4">
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">
+            {ok ? "You've been unsubscribed" : "Link not recognised"}
+          </h1>
+          <p className="text-sm text-gray-700">
+            {ok
+              ? "We won't email you when this item launches. You can sign up again from the product page before the launch."
+              : "This unsubscribe link is invalid. If you keep receiving alerts, contact our support team."}
+          </p>
+          <Link href="/all-products" className="inline-block text-sm font-medium underline">
+            Continue shopping
+          </Link>
+        </div>
+      </main>
+
+      <Footer />
+    </section>
+  );
+}
@@ -19,6 +19,8 @@ import Header from "@/components/shared/header";
 import Footer from "@/components/shared/footer";
 import ReviewSection from "@/components/ReviewSection";
 import ProductDetailHero from "@/components/ProductDetailsHero";
+import ComingSoonHero from "@/components/ComingSoonHero";
+import { productAvailability } from "@/lib/productSchedule";
 import {
   Accordion,
   AccordionItem,
@@ -49,7 +51,7 @@ export async function generateMetadata({
   const { id } = await params;
 
   const product = await getProductById(id);
-  if (!product) {
+  if (!product || productAvailability(product.schedule) === "ended") {
     return {
       title: "Product not found | Marobi",
       description: "This Marobi piece is no longer available.",
@@ -123,9 +125,14 @@ export default async function ProductPage({
 }) {
   const { id } = await params;
 
-  const product: Product | null = await getProductById(id);
+  const product = await getProductById(id);
   if (!product) return notFound();
 
+  // Scheduled drops: hidden once ended, countdown page until they open
+  const availability = productAvailability(product.schedule);
+  if (availability === "ended") return notFound();
+  const comingSoon = availability === "coming_soon";
+
   const category = await getCategoryBySlug(product.category);
   const categoryName = category?.name ?? product.category;
 
@@ -172,11 +179,20 @@ export default async function ProductPage({
         </Breadcrumb>
 
         {/* Hero & Details */}
-        <ProductDetailHero
-          product={product}
-          user={user}
-          categoryName={categoryName}
-        />
+        {comingSoon ? (
+          <ComingSoonHero
+            product={product}
+            publishAt={new Date(product.schedule.publishAt!).toISOString()}
+            user={user}
+            categoryName={categoryName}
+          />
+        ) : (
+          <ProductDetailHero
+            product={product}
+            user={user}
+            categoryName={categoryName}
+          />
+        )}
 
         {/* — Separator — */}
         <hr className="my-8 border-gray-200 dark:border-gray-700" />
@@ -0,0 +1,105 @@
+import React from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { headers } from "next/headers";
+import { Header } from "@/components/shared/header";
+import Footer from "@/components/shared/footer";
+import TrackingTimeline from "@/components/TrackingTimeline";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { prismaReady } from "@/lib/db";
+import { rateLimit } from "@/lib/rateLimiter";
+import { findTrackableOrder, getTrackingTimelines } from "@/lib/shipmentTracking";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Track your order",
+  robots: { index: false },
+};
+
+export default async function TrackOrderPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ orderId: string }>;
+  searchParams: Promise<{ email?: string }>;
+}) {
+  const { orderId } = await params;
+  const { email = "" } = await searchParams;
+  await prismaReady;
+
+  let error: string | null = null;
+  let order: Awaited<ReturnType<typeof findTrackableOrder>> = null;
+
+  if (email.trim()) {
+    const xff = (await headers()).get("x-forwarded-for") ?? "";
+    const ip = xff.split(",")[0]?.trim() || "unknown";
+    if (!rateLimit(`track:${ip}`).ok) {
+      error = "Too many attempts. Please wait a minute and try again.";
+    } else {
+      order = await findTrackableOrder(orderId, email);
+      if (!order) error = "We couldn't find an order with that ID and email.";
+    }
+  }
+
+  const timelines = order ? await getTrackingTimelines(order.id) : [];
+
+  return (
+    <section className="flex min-h-screen flex-col">
+      <Header />
+
+      <main className="flex-1 px-5 py-16 md:px-10 lg:px-40 my-20">
+        <div className="mx-auto max-w-2xl space-y-6">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold tracking-tight text-gray-900">Track your order</h1>
+            <p className="text-sm text-gray-700">
+              Order <span className="font-mono">{orderId}</span>
+            </p>
+          </div>
+
+          {order ? (
+            <>
+              <p className="text-sm text-gray-700">
+                Placed {order.createdAt.toLocaleDateString()} · Status:{" "}
+                <strong>{order.status}</strong>
+              </p>
+              {timelines.length > 0 ? (
+                timelines.map((t) => <TrackingTimeline key={t.shipmentId} timeline={t} />)
+              ) : (
+                <p className="text-sm text-gray-600">
+                  Your order hasn&apos;t been handed to a courier yet. We&apos;ll email you once
+                  it ships.
+                </p>
+              )}
+            </>
+          ) : (
+            <form method="GET" className="space-y-3">
+              <label htmlFor="email" className="block text-sm font-medium text-gray-900">
+                Email used at checkout
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id="email"
+                  name="email"
+                  type="email"
+                  required
+                  defaultValue={email}
+                  placeholder="you@example.com"
+                />
+                <Button type="submit">Track</Button>
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </form>
+          )}
+
+          <Link href="/all-products" className="inline-block text-sm font-medium underline">
+            Continue shopping
+          </Link>
+        </div>
+      </main>
+
+      <Footer />
+    </section>
+  );
+}
@@ -0,0 +1,253 @@
+// app/admin/abandoned-carts/page.tsx
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getAdminSession } from "@/lib/getAdminSession";
+import { can } from "@/lib/permissions";
+import { formatAmount } from "@/lib/formatCurrency";
+import {
+  ABANDONED_CART_STATUSES,
+  abandonedCartReport,
+  parseAbandonedCartFilters,
+  type AbandonedCartLine,
+} from "@/lib/abandonedCarts";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = {
+  status?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Open: "bg-blue-100 text-blue-800",
+  Converted: "bg-gray-100 text-gray-700",
+  Recovered: "bg-green-100 text-green-800",
+  Unsubscribed: "bg-amber-100 text-amber-800",
+  Expired: "bg-gray-100 text-gray-500",
+};
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="border rounded bg-white p-4">
+      <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+      <div className="text-2xl font-bold mt-1">{value}</div>
+      {hint && <div className="text-xs text-gray-500 mt-1">{hint}</div>}
+    </div>
+  );
+}
+
+export default async function AbandonedCartsPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const session = await getAdminSession();
+  if (!session || !session.user?.email || session.user.role === "customer") {
+    const cb = encodeURIComponent("/admin/abandoned-carts");
+    return redirect(`/admin-login?callbackUrl=${cb}`);
+  }
+  if (!can(session.user.role, "promotions.manage")) redirect("/admin");
+
+  const sp = await searchParams;
+  const { summary, byStep, rows, total, page, pageSize } = await abandonedCartReport(
+    parseAbandonedCartFilters(sp),
+    { page: Number(sp.page) || 1 }
+  );
+  const pages = Math.max(Math.ceil(total / pageSize), 1);
+
+  const query = (extra: Record<string, string | number>) => {
+    const qs = new URLSearchParams();
+    for (const [k, v] of Object.entries({ ...sp, ...extra })) {
+      if (v !== undefined && v !== "") qs.set(k, String(v));
+    }
+    return qs.toString();
+  };
+
+  return (
+    <div className="px-6 md:px-10 lg:px-16 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Abandoned Carts</h1>
+        <p className="text-sm text-gray-600">
+          Checkouts left without paying, the reminder emails they were sent and
+          the orders those reminders won back.
+        </p>
+      </div>
+
+      <form method="get" className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 items-end text-sm">
+        <label className="space-y-1">
+          <span className="block text-gray-600">Status</span>
+          <select name="status" defaultValue={sp.status ?? ""} className="w-full border rounded px-2 py-2">
+            <option value="">Any</option>
+            {ABANDONED_CART_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-gray-600">Captured from</span>
+          <input type="date" name="from" defaultValue={sp.from ?? ""} className="w-full border rounded px-2 py-2" />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-gray-600">Captured to</span>
+          <input type="date" name="to" defaultValue={sp.to ?? ""} className="w-full border rounded px-2 py-2" />
+        </label>
+        <div className="flex gap-2">
+          <button type="submit" className="px-3 py-2 rounded bg-gray-900 text-white">
+            Filter
+          </button>
+          <Link href="/admin/abandoned-carts" className="px-3 py-2 rounded border hover:bg-gray-50">
+            Reset
+          </Link>
+        </div>
+      </form>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <Stat label="Carts captured" value={String(summary.captured)} hint={`${summary.counts.Open} still open`} />
+        <Stat label="Reminded" value={String(summary.reminded)} hint={`${summary.counts.Unsubscribed} unsubscribed`} />
+        <Stat
+          label="Recovered"
+          value={String(summary.counts.Recovered)}
+          hint={`${(summary.recoveryRate * 100).toFixed(1)}% of reminded · ${summary.counts.Converted} ordered unprompted`}
+        />
+        <Stat label="Recovered revenue" value={formatAmount(summary.recoveredRevenueNGN, "NGN")} />
+      </div>
+
+      {byStep.length > 0 && (
+        <div className="border rounded bg-white overflow-auto">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="text-left p-3 border-b">Recovered after</th>
+                <th className="text-right p-3 border-b">Carts</th>
+                <th className="text-right p-3 border-b">Revenue</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byStep.map((s) => (
+                <tr key={s.step} className="odd:bg-gray-50">
+                  <td className="p-3 border-b">
+                    {s.step} reminder{s.step === 1 ? "" : "s"}
+                  </td>
+                  <td className="p-3 border-b text-right">{s.carts}</td>
+                  <td className="p-3 border-b text-right">{formatAmount(s.revenueNGN, "NGN")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="border rounded bg-white overflow-auto">
+        {rows.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500">No abandoned carts.</div>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="text-left p-3 border-b">Captured</th>
+                <th className="text-left p-3 border-b">Shopper</th>
+                <th className="text-left p-3 border-b">Items</th>
+                <th className="text-right p-3 border-b">Subtotal</th>
+                <th className="text-left p-3 border-b">Status</th>
+                <th className="text-right p-3 border-b">Reminders</th>
+                <th className="text-left p-3 border-b">Order</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => {
+                const lines = (r.items ?? []) as unknown as AbandonedCartLine[];
+                return (
+                  <tr key={r.id} className="odd:bg-gray-50 align-top">
+                    <td className="p-3 border-b whitespace-nowrap">
+                      {r.createdAt.toLocaleString()}
+                      <span className="block text-xs text-gray-500">
+                        Last activity {r.activityAt.toLocaleString()}
+                      </span>
+                    </td>
+                    <td className="p-3 border-b">
+                      {r.customer ? (
+                        <Link href={`/admin/customers/${r.customer.id}`} className="underline">
+                          {r.customer.firstName} {r.customer.lastName}
+                        </Link>
+                      ) : (
+                        "Guest"
+                      )}
+                      <span className="block text-xs text-gray-500 break-all">{r.email}</span>
+                    </td>
+                    <td className="p-3 border-b">
+                      <ul className="space-y-0.5">
+                        {lines.map((l, i) => (
+                          <li key={i}>
+                            {l.quantity} × {l.name}
+                            {(l.color || l.size) && (
+                              <span className="text-xs text-gray-500">
+                                {" "}({[l.color, l.size].filter(Boolean).join(" / ")})
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="p-3 border-b text-right whitespace-nowrap">
+                      {formatAmount(r.subtotal, r.currency)}
+                    </td>
+                    <td className="p-3 border-b">
+                      <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[r.status] ?? ""}`}>
+                        {r.status}
+                      </span>
+                      {r.restoredAt && <span className="block text-xs text-gray-500 mt-1">Link opened</span>}
+                    </td>
+                    <td className="p-3 border-b text-right">
+                      {r.remindersSent}
+                      {r.lastRemindedAt && (
+                        <span className="block text-xs text-gray-500 whitespace-nowrap">
+                          {r.lastRemindedAt.toLocaleDateString()}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-3 border-b whitespace-nowrap">
+                      {r.orderId ? (
+                        <>
+                          {r.orderId}
+                          {r.orderTotalNGN != null && (
+                            <span className="block text-xs text-gray-500">
+                              {formatAmount(r.orderTotalNGN, "NGN")}
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          {total} cart{total === 1 ? "" : "s"} · page {page} of {pages}
+        </span>
+        <div className="flex gap-2">
+          {page > 1 && (
+            <Link href={`/admin/abandoned-carts?${query({ page: page - 1 })}`} className="px-3 py-1.5 rounded border hover:bg-gray-50">
+              Previous
+            </Link>
+          )}
+          {page < pages && (
+            <Link href={`/admin/abandoned-carts?${query({ page: page + 1 })}`} className="px-3 py-1.5 rounded border hover:bg-gray-50">
+              Next
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+// app/admin/audit-log/page.tsx
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/db";
+import { getAdminSession } from "@/lib/getAdminSession";
+import { can } from "@/lib/permissions";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  listAuditLogs,
+  parseAuditFilters,
+} from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = {
+  staffId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+};
+
+const fmt = (v: unknown) =>
+  v == null || v === "" ? "—" : typeof v === "string" ? v : JSON.stringify(v);
+
+function ChangeList({ before, after }: { before: unknown; after: unknown }) {
+  const b = (before ?? {}) as Record<string, unknown>;
+  const a = (after ?? {}) as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(b), ...Object.keys(a)])];
+  if (keys.length === 0) return <span className="text-gray-400">—</span>;
+  return (
+    <ul className="space-y-1">
+      {keys.map((k) => (
+        <li key={k} className="break-all">
+          <span className="font-medium">{k}:</span>{" "}
+          {k in b && <span className="text-red-700 line-through">{fmt(b[k])}</span>}
+          {k in b && k in a && " → "}
+          {k in a && <span className="text-green-700">{fmt(a[k])}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const session = await getAdminSession();
+  if (!session || !session.user?.email || session.user.role === "customer") {
+    const cb = encodeURIComponent("/admin/audit-log");
+    return redirect(`/admin-login?callbackUrl=${cb}`);
+  }
+  if (!can(session.user.role, "audit.view")) redirect("/admin");
+
+  const sp = await searchParams;
+  const filters = parseAuditFilters(sp);
+  const [{ rows, total, page, pageSize }, staff] = await Promise.all([
+    listAuditLogs(filters, { page: Number(sp.page) || 1 }),
+    prisma.staff.findMany({
+      select: { id: true, firstName: true, lastName: true },
+      orderBy: [{ firstName: "asc" }, { lastName: "asc" }],
+    }),
+  ]);
+  const pages = Math.max(Math.ceil(total / pageSize), 1);
+
+  const query = (extra: Record<string, string | number>) => {
+    const qs = new URLSearchParams();
+    for (const [k, v] of Object.entries({ ...sp, ...extra })) {
+      if (v !== undefined && v !== "") qs.set(k, String(v));
+    }
+    return qs.toString();
+  };
+
+  return (
+    <div className="px-6 md:px-10 lg:px-16 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Audit Log</h1>
+          <p className="text-sm text-gray-600">
+            Who changed what across orders, products, categories, staff,
+            reviews, reconciliation and store settings.
+          </p>
+        </div>
+        <a
+          href={`/api/admin/audit-logs?${query({ format: "csv", page: "" })}`}
+          className="px-3 py-1.5 rounded border text-sm hover:bg-gray-50"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      <form method="get" className="grid gap-3 sm:grid-cols-3 lg:grid-cols-7 items-end text-sm">
+        <label className="space-y-1">
+          <span className="block text-gray-600">Staff</span>
+          <select name="staffId" defaultValue={sp.staffId ?? ""} className="w-full border rounded px-2 py-2">
+            <option value="">Anyone</option>
+            {staff.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.firstName} {s.lastName}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-gray-600">Action</span>
+          <select name="action" defaultValue={sp.action ?? ""} className="w-full border rounded px-2 py-2">
+            <option value="">Any</option>
+            {AUDIT_ACTIONS.map((a) => (
+              <option key={a} value={a}>
+                {a}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-gray-600">Entity</span>
+          <select name="entityType" defaultValue={sp.entityType ?? ""} className="w-full border rounded px-2 py-2">
+            <option value="">Any</option>
+            {AUDIT_ENTITY_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-gray-600">Entity ID</span>
+          <input
+            name="entityId"
+            defaultValue={sp.entityId ?? ""}
+            placeholder="e.g. M-ORD-001"
+            className="w-full border rounded px-2 py-2"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-gray-600">From</span>
+          <input type="date" name="from" defaultValue={sp.from ?? ""} className="w-full border rounded px-2 py-2" />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-gray-600">To</span>
+          <input type="date" name="to" defaultValue={sp.to ?? ""} className="w-full border rounded px-2 py-2" />
+        </label>
+        <div className="flex gap-2">
+          <button type="submit" className="px-3 py-2 rounded bg-gray-900 text-white">
+            Filter
+          </button>
+          <Link href="/admin/audit-log" className="px-3 py-2 rounded border hover:bg-gray-50">
+            Reset
+          </Link>
+        </div>
+      </form>
+
+      <div className="border rounded bg-white overflow-auto">
+        {rows.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500">No matching activity.</div>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="text-left p-3 border-b">Date</th>
+                <th className="text-left p-3 border-b">Staff</th>
+                <th className="text-left p-3 border-b">Action</th>
+                <th className="text-left p-3 border-b">Entity</th>
+                <th className="text-left p-3 border-b">Changes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.id} className="odd:bg-gray-50 align-top">
+                  <td className="p-3 border-b whitespace-nowrap">{r.createdAt.toLocaleString()}</td>
+                  <td className="p-3 border-b">
+                    {r.staff ? `${r.staff.firstName} ${r.staff.lastName}` : "—"}
+                    {r.staff && <span className="block text-xs text-gray-500">{r.staff.email}</span>}
+                  </td>
+                  <td className="p-3 border-b">{r.action}</td>
+                  <td className="p-3 border-b">
+                    {r.entityType}
+                    <span className="block text-xs text-gray-500 break-all">{r.entityId}</span>
+                  </td>
+                  <td className="p-3 border-b max-w-xl">
+                    <ChangeList before={r.before} after={r.after} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          {total} entr{total === 1 ? "y" : "ies"} · page {page} of {pages}
+        </span>
+        <div className="flex gap-2">
+          {page > 1 && (
+            <Link href={`/admin/audit-log?${query({ page: page - 1 })}`} className="px-3 py-1.5 rounded border hover:bg-gray-50">
+              Previous
+            </Link>
+          )}
+          {page < pages && (
+            <Link href={`/admin/audit-log?${query({ page: page + 1 })}`} className="px-3 py-1.5 rounded border hover:bg-gray-50">
+              Next
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
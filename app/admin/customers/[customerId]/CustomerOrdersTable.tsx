@@ -43,7 +43,22 @@ import { AdminCustomerOrder } from "@/types/admin";
 
 // Local mirrors of Prisma enums for client-side types
 type Currency = "NGN" | "USD" | "EUR" | "GBP";
-type OrderStatus = "Processing" | "Shipped" | "Delivered" | "Cancelled";
+type OrderStatus =
+  | "Processing"
+  | "ReadyForPickup"
+  | "PartiallyShipped"
+  | "Shipped"
+  | "PartiallyDelivered"
+  | "Delivered"
+  | "Cancelled";
+
+const STATUS_LABELS: Partial<Record<OrderStatus, string>> = {
+  ReadyForPickup: "Ready for pickup",
+  PartiallyShipped: "Partially shipped",
+  PartiallyDelivered: "Partially delivered",
+};
+/** Set from the order's parcels only, so staff cannot pick them. */
+const DERIVED_STATUSES: OrderStatus[] = ["PartiallyShipped", "PartiallyDelivered"];
 
 type Props = { initialData: AdminCustomerOrder[] };
 
@@ -252,15 +267,21 @@ export default function CustomerOrdersTable({ initialData }: Props) {
           const color =
             s === "Processing"
               ? "bg-blue-100 text-blue-800"
-              : s === "Shipped"
+              : s === "ReadyForPickup"
+              ? "bg-purple-100 text-purple-800"
+              : s === "Shipped" || s === "PartiallyShipped"
               ? "bg-yellow-100 text-yellow-800"
+              : s === "PartiallyDelivered"
+              ? "bg-teal-100 text-teal-800"
               : s === "Delivered"
               ? "bg-green-100 text-green-800"
               : s === "Cancelled"
               ? "bg-red-100 text-red-800"
               : "bg-gray-100 text-gray-800";
           return (
-            <span className={`px-2 py-0.5 rounded-full ${color}`}>{s}</span>
+            <span className={`px-2 py-0.5 rounded-full ${color}`}>
+              {STATUS_LABELS[s] ?? s}
+            </span>
           );
         },
       },
@@ -303,11 +324,23 @@ export default function CustomerOrdersTable({ initialData }: Props) {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {(
-                  ["Processing", "Shipped", "Delivered", "Cancelled"] as OrderStatus[]
+                {/* Ready for pickup is set from the orders page, which sends the code */}
+                {(row.original.status === "ReadyForPickup"
+                  ? (["Processing", "ReadyForPickup", "Cancelled"] as OrderStatus[])
+                  : ([
+                      ...(DERIVED_STATUSES.includes(row.original.status) ? [row.original.status] : []),
+                      "Processing",
+                      "Shipped",
+                      "Delivered",
+                      "Cancelled",
+                    ] as OrderStatus[])
                 ).map((s) => (
-                  <SelectItem key={s} value={s}>
-                    {s}
+                  <SelectItem
+                    key={s}
+                    value={s}
+                    disabled={s === "ReadyForPickup" || DERIVED_STATUSES.includes(s)}
+                  >
+                    {STATUS_LABELS[s] ?? s}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -351,10 +384,18 @@ export default function CustomerOrdersTable({ initialData }: Props) {
             <SelectContent>
               <SelectItem value="All">All Statuses</SelectItem>
               {(
-                ["Processing", "Shipped", "Delivered", "Cancelled"] as OrderStatus[]
+                [
+                  "Processing",
+                  "ReadyForPickup",
+                  "PartiallyShipped",
+                  "Shipped",
+                  "PartiallyDelivered",
+                  "Delivered",
+                  "Cancelled",
+                ] as OrderStatus[]
               ).map((st) => (
                 <SelectItem key={st} value={st}>
-                  {st}
+                  {STATUS_LABELS[st] ?? st}
                 </SelectItem>
               ))}
             </SelectContent>
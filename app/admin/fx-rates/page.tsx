@@ -0,0 +1,154 @@
+// app/admin/fx-rates/page.tsx
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getAdminSession } from "@/lib/getAdminSession";
+import { can } from "@/lib/permissions";
+import { PRICE_CURRENCIES } from "@/lib/variantPricing";
+import { listFxSnapshots, parseFxSnapshotFilters } from "@/lib/fxRates";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = {
+  base?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+};
+
+const rate = (v: unknown) =>
+  typeof v === "number" && Number.isFinite(v)
+    ? v.toLocaleString(undefined, { maximumSignificantDigits: 6 })
+    : "—";
+
+export default async function FxRatesPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const session = await getAdminSession();
+  if (!session || !session.user?.email || session.user.role === "customer") {
+    const cb = encodeURIComponent("/admin/fx-rates");
+    return redirect(`/admin-login?callbackUrl=${cb}`);
+  }
+  if (!can(session.user.role, "payments.reconcile")) redirect("/admin");
+
+  const sp = await searchParams;
+  const { rows, total, page, pageSize } = await listFxSnapshots(parseFxSnapshotFilters(sp), {
+    page: Number(sp.page) || 1,
+  });
+  const pages = Math.max(Math.ceil(total / pageSize), 1);
+
+  const query = (extra: Record<string, string | number>) => {
+    const qs = new URLSearchParams();
+    for (const [k, v] of Object.entries({ ...sp, ...extra })) {
+      if (v !== undefined && v !== "") qs.set(k, String(v));
+    }
+    return qs.toString();
+  };
+
+  return (
+    <div className="px-6 md:px-10 lg:px-16 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">FX Rate History</h1>
+        <p className="text-sm text-gray-600">
+          Every exchange-rate fetch, as stored. Orders keep the snapshot and
+          rate to NGN they were priced with.
+        </p>
+      </div>
+
+      <form method="get" className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 items-end text-sm">
+        <label className="space-y-1">
+          <span className="block text-gray-600">Base</span>
+          <select name="base" defaultValue={sp.base ?? ""} className="w-full border rounded px-2 py-2">
+            <option value="">Any</option>
+            {PRICE_CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-gray-600">From</span>
+          <input type="date" name="from" defaultValue={sp.from ?? ""} className="w-full border rounded px-2 py-2" />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-gray-600">To</span>
+          <input type="date" name="to" defaultValue={sp.to ?? ""} className="w-full border rounded px-2 py-2" />
+        </label>
+        <div className="flex gap-2">
+          <button type="submit" className="px-3 py-2 rounded bg-gray-900 text-white">
+            Filter
+          </button>
+          <Link href="/admin/fx-rates" className="px-3 py-2 rounded border hover:bg-gray-50">
+            Reset
+          </Link>
+        </div>
+      </form>
+
+      <div className="border rounded bg-white overflow-auto">
+        {rows.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500">No stored rates.</div>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="text-left p-3 border-b">Fetched</th>
+                <th className="text-left p-3 border-b">Base</th>
+                {PRICE_CURRENCIES.map((c) => (
+                  <th key={c} className="text-right p-3 border-b">
+                    {c}
+                  </th>
+                ))}
+                <th className="text-left p-3 border-b">Provider updated</th>
+                <th className="text-right p-3 border-b">Orders</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => {
+                const rates = (r.rates ?? {}) as Record<string, number>;
+                return (
+                  <tr key={r.id} className="odd:bg-gray-50 align-top">
+                    <td className="p-3 border-b whitespace-nowrap">
+                      {r.fetchedAt.toLocaleString()}
+                      <span className="block text-xs text-gray-500 break-all">{r.id}</span>
+                    </td>
+                    <td className="p-3 border-b">{r.base}</td>
+                    {PRICE_CURRENCIES.map((c) => (
+                      <td key={c} className="p-3 border-b text-right tabular-nums">
+                        {rate(rates[c])}
+                      </td>
+                    ))}
+                    <td className="p-3 border-b whitespace-nowrap">
+                      {r.providerUpdatedAt.toLocaleString()}
+                      <span className="block text-xs text-gray-500">{r.source}</span>
+                    </td>
+                    <td className="p-3 border-b text-right">{r._count.orders}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          {total} snapshot{total === 1 ? "" : "s"} · page {page} of {pages}
+        </span>
+        <div className="flex gap-2">
+          {page > 1 && (
+            <Link href={`/admin/fx-rates?${query({ page: page - 1 })}`} className="px-3 py-1.5 rounded border hover:bg-gray-50">
+              Previous
+            </Link>
+          )}
+          {page < pages && (
+            <Link href={`/admin/fx-rates?${query({ page: page + 1 })}`} className="px-3 py-1.5 rounded border hover:bg-gray-50">
+              Next
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -13,5 +13,5 @@ export default async function AdminLayout({
   if (!session || !session.user?.role || session.user.role === "customer") {
     redirect("/admin-login");
   }
-  return <AdminShell>{children}</AdminShell>;
+  return <AdminShell role={session.user.role}>{children}</AdminShell>;
 }
@@ -31,9 +31,10 @@ import {
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Trash2, PlusCircle, Loader2 } from "lucide-react";
+import { Trash2, PlusCircle, Loader2, Camera } from "lucide-react";
 import toast from "react-hot-toast";
 import { useCountryState } from "@/lib/hooks/useCheckoutForm";
+import CameraScanner, { cameraScanSupported } from "@/components/admin/CameraScanner";
 
 /* ────────────────────────────────────────────────────────────────
    Currency (client mirror)
@@ -49,9 +50,14 @@ enum Currency {
    Types
    ──────────────────────────────────────────────────────────────── */
 interface DBVariant {
+  id?: string;
   color: string;
   size: string;
   stock: number;
+  sku?: string | null;
+  barcode?: string | null;
+  /** NGN override for this variant; null means the product price applies */
+  priceNGN?: number | null;
 }
 
 interface DBProduct {
@@ -117,8 +123,10 @@ interface DeliveryOption {
 
 type PaymentMethod = "Cash" | "Transfer" | "Card";
 
-interface Props {
-  staffId: string;
+interface AppliedPromo {
+  code: string;
+  description: string | null;
+  discountAmount: number;
 }
 
 interface CustomerSearchResult {
@@ -165,9 +173,13 @@ function unique(values: string[]) {
 
 function normalizeVariant(v: DBVariant): DBVariant {
   return {
+    id: v.id,
     color: (v.color || "").trim() || "N/A",
     size: (v.size || "").trim() || "N/A",
     stock: typeof v.stock === "number" ? v.stock : 0,
+    sku: v.sku ?? null,
+    barcode: v.barcode ?? null,
+    priceNGN: v.priceNGN ?? null,
   };
 }
 
@@ -508,11 +520,14 @@ const DeliverySelector: React.FC<DeliverySelectorProps> = ({
 /* ────────────────────────────────────────────────────────────────
    MAIN COMPONENT
    ──────────────────────────────────────────────────────────────── */
-export default function OfflineSaleForm({ staffId }: Props) {
+export default function OfflineSaleForm() {
   const [step, setStep] = useState(1);
   const [items, setItems] = useState<LineItem[]>([]);
   const [productSearch, setProductSearch] = useState<Record<string, DBProduct[]>>({});
   const [searchingProductRowId, setSearchingProductRowId] = useState<string | null>(null);
+  const [scanCode, setScanCode] = useState("");
+  const [scanning, setScanning] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
 
   const [mode, setMode] = useState<"existing" | "guest">("existing");
   const [existingCustomerId, setExistingCustomerId] = useState("");
@@ -550,12 +565,19 @@ export default function OfflineSaleForm({ staffId }: Props) {
     paymentMethod: PaymentMethod;
     deliveryOption?: string;
     deliveryFee?: number;
+    discountCode?: string;
+    discountAmount?: number;
   } | null>(null);
 
   const [deliveryOption, setDeliveryOption] = useState<DeliveryOption | null>(null);
   const [deliveryFee, setDeliveryFee] = useState<number>(0);
   const [deliveryDetails, setDeliveryDetails] = useState<string>("");
 
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const [promoLoading, setPromoLoading] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
+
   const [sbRates, setSbRates] = useState<ShipbubbleRate[]>([]);
   const [sbRequestToken, setSbRequestToken] = useState<string | null>(null);
   const [sbLoading, setSbLoading] = useState(false);
@@ -644,15 +666,22 @@ const canSubmit =
     300
   );
 
-  function selectProduct(rowId: string, product: DBProduct) {
+  /**
+   * Row fields for a chosen product. `pick` preselects a color/size (from a
+   * scanned SKU or barcode); otherwise only "N/A"-only options are preselected.
+   */
+  function productRowFields(
+    product: DBProduct,
+    pick?: { color: string; size: string }
+  ): Omit<LineItem, "id"> {
     const normalizedVariants = (product.variants || []).map(normalizeVariant);
 
     const colors = unique(normalizedVariants.map((v) => v.color));
     const allSizes = unique(normalizedVariants.map((v) => v.size));
 
     // Auto-set ONLY when the only option is N/A (meaning: conceptually "no option")
-    const autoColor = colors.length === 1 && colors[0] === "N/A" ? "N/A" : "";
-    const autoSize = allSizes.length === 1 && allSizes[0] === "N/A" ? "N/A" : "";
+    const autoColor = pick?.color ?? (colors.length === 1 && colors[0] === "N/A" ? "N/A" : "");
+    const autoSize = pick?.size ?? (allSizes.length === 1 && allSizes[0] === "N/A" ? "N/A" : "");
 
     const initialSizeOptions = autoColor ? sizesForColor(normalizedVariants, autoColor) : [];
 
@@ -661,43 +690,92 @@ const canSubmit =
         ? stockFor(normalizedVariants, autoColor, autoSize)
         : 0;
 
+    return {
+      productId: product.id,
+      productName: product.name,
+      variants: normalizedVariants,
+
+      colorOptions: colors,
+      sizeOptions: initialSizeOptions,
+
+      color: autoColor,
+      size: autoSize,
+
+      maxQty: initialMaxQty,
+      quantity: 1,
+
+      hasSizeMod: false,
+      supportsSizeMod: !!product.sizeMods,
+      customSize: {},
+
+      productImages: product.images || [],
+      prices: {
+        NGN: product.priceNGN ?? 0,
+        USD: product.priceUSD ?? 0,
+        EUR: product.priceEUR ?? 0,
+        GBP: product.priceGBP ?? 0,
+      },
+    };
+  }
+
+  function selectProduct(rowId: string, product: DBProduct) {
     setItems((prev) =>
-      prev.map((i) =>
-        i.id === rowId
-          ? {
-              ...i,
-              productId: product.id,
-              productName: product.name,
-              variants: normalizedVariants,
-
-              colorOptions: colors,
-              sizeOptions: initialSizeOptions,
-
-              color: autoColor,
-              size: autoSize,
-
-              maxQty: initialMaxQty,
-              quantity: 1,
-
-              hasSizeMod: false,
-              supportsSizeMod: !!product.sizeMods,
-              customSize: {},
-
-              productImages: product.images || [],
-              prices: {
-                NGN: product.priceNGN ?? 0,
-                USD: product.priceUSD ?? 0,
-                EUR: product.priceEUR ?? 0,
-                GBP: product.priceGBP ?? 0,
-              },
-            }
-          : i
-      )
+      prev.map((i) => (i.id === rowId ? { ...i, ...productRowFields(product) } : i))
     );
 
     setProductSearch((p) => ({ ...p, [rowId]: [] }));
   }
 
+  /* ────────────────────────────────────────────────────────────────
+     Scan / enter SKU or barcode
+     (keyboard-wedge scanners type the label code and press Enter)
+     ──────────────────────────────────────────────────────────────── */
+  async function addByCode(raw: string) {
+    const code = raw.trim();
+    if (code.length < 2) return;
+
+    setScanning(true);
+    const res = await fetch(`/api/admin/variants/lookup?code=${encodeURIComponent(code)}`).catch(
+      () => null
+    );
+    const data: { variantId?: string; product?: DBProduct; error?: string } = res
+      ? await res.json().catch(() => ({}))
+      : {};
+    setScanning(false);
+
+    const product = res?.ok ? data.product : undefined;
+    const variant = product?.variants
+      .map(normalizeVariant)
+      .find((v) => v.id === data.variantId);
+
+    if (!product || !variant) {
+      toast.error(data.error || `No product with SKU or barcode "${code}"`);
+      return;
+    }
+    if (variant.stock <= 0) {
+      toast.error(`${product.name} (${variant.color} / ${variant.size}) is out of stock`);
+      return;
+    }
+
+    // Scanning the same variant again adds one more unit to its row
+    const existing = items.find(
+      (i) => i.productId === product.id && i.color === variant.color && i.size === variant.size
+    );
+    if (existing && existing.quantity >= variant.stock) {
+      toast.error(`Only ${variant.stock} of ${product.name} in stock`);
+    } else if (existing) {
+      setItems((prev) =>
+        prev.map((i) => (i.id === existing.id ? { ...i, quantity: i.quantity + 1 } : i))
+      );
+    } else {
+      setItems((prev) => [
+        ...prev,
+        { id: uuid(), ...productRowFields(product, { color: variant.color, size: variant.size }) },
+      ]);
+    }
+    setScanCode("");
+  }
+
   /**
    * ✅ Production-safe: one setItems() update per change.
    * No nested updates. No side-effect updates inside updater.
@@ -814,7 +892,10 @@ const canSubmit =
   /* ────────────────────────────────────────────────────────────────
      Pricing helpers
      ──────────────────────────────────────────────────────────────── */
-  const getUnitPrice = (item: LineItem) => item.prices.NGN;
+  // Variant NGN override (per-variant pricing) wins over the product price
+  const getUnitPrice = (item: LineItem) =>
+    item.variants.find((v) => v.color === item.color && v.size === item.size)?.priceNGN ??
+    item.prices.NGN;
 
   const computeSizeModFee = (item: LineItem) => {
     if (!item.hasSizeMod) return 0;
@@ -831,7 +912,8 @@ const canSubmit =
   }, 0);
 
   const sizeModsTotal = items.reduce((sum, item) => sum + computeSizeModFee(item), 0);
-  const orderTotal = itemsSubtotal + sizeModsTotal + (deliveryFee || 0);
+  const discountAmount = appliedPromo?.discountAmount ?? 0;
+  const orderTotal = Math.max(itemsSubtotal + sizeModsTotal + (deliveryFee || 0) - discountAmount, 0);
 
   const deliveryLabel = deliveryOption
     ? deliveryOption.id === "__pickup__" ||
@@ -843,6 +925,63 @@ const canSubmit =
       : deliveryOption.name
     : "Not set";
 
+  /* ────────────────────────────────────────────────────────────────
+     Discount code (priced server-side, re-checked on submit)
+     ──────────────────────────────────────────────────────────────── */
+  const customerEmail = mode === "existing" ? selectedCustomer?.email ?? "" : guest.email;
+
+  const validatePromo = useCallback(
+    async (code: string, silent = false) => {
+      const validItems = items.filter((i) => i.productId && i.quantity > 0);
+      if (!code.trim() || validItems.length === 0) return;
+      try {
+        setPromoLoading(true);
+        setPromoError(null);
+        const res = await fetch("/api/promotions/validate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            code,
+            currency,
+            deliveryFee: deliveryFee || 0,
+            email: customerEmail || undefined,
+            items: validItems.map((i) => ({
+              productId: i.productId,
+              color: i.color,
+              size: i.size,
+              quantity: i.quantity,
+              hasSizeMod: i.hasSizeMod,
+            })),
+          }),
+        });
+        const data = await res.json();
+        if (!res.ok || !data?.valid) {
+          throw new Error(data?.error || "Invalid discount code");
+        }
+        setAppliedPromo({
+          code: data.promotion.code,
+          description: data.promotion.description ?? null,
+          discountAmount: Number(data.promotion.discountAmount) || 0,
+        });
+        if (!silent) toast.success("Discount applied");
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Invalid discount code";
+        setAppliedPromo(null);
+        setPromoError(msg);
+        if (!silent) toast.error(msg);
+      } finally {
+        setPromoLoading(false);
+      }
+    },
+    [items, currency, deliveryFee, customerEmail]
+  );
+
+  // Keep an applied code priced against the current basket / delivery fee
+  const appliedCode = appliedPromo?.code;
+  useEffect(() => {
+    if (appliedCode) validatePromo(appliedCode, true);
+  }, [appliedCode, validatePromo]);
+
   /* ────────────────────────────────────────────────────────────────
      Guest phone helpers
      ──────────────────────────────────────────────────────────────── */
@@ -1024,7 +1163,6 @@ useEffect(() => {
               },
         paymentMethod,
         currency: "NGN",
-        staffId,
         timestamp: new Date().toISOString(),
         deliveryOptionId: isPickup || isShipbubbleSelected ? undefined : deliveryOption?.id,
         deliveryFee: isPickup ? 0 : deliveryFee,
@@ -1051,7 +1189,7 @@ useEffect(() => {
       note: deliveryDetails || null,
     }
   : deliveryDetails || undefined,
-
+        discountCode: appliedPromo?.code,
       };
 
       const res = await fetch("/api/offline-sales", {
@@ -1073,6 +1211,8 @@ useEffect(() => {
         paymentMethod,
         deliveryOption: deliveryLabel,
         deliveryFee: isPickup ? 0 : deliveryFee,
+        discountCode: appliedPromo?.code,
+        discountAmount: appliedPromo?.discountAmount,
       });
 
       // reset
@@ -1089,6 +1229,9 @@ useEffect(() => {
       setSelectedSbRate(null);
       setSbRequestToken(null);
       setSbError(null);
+      setAppliedPromo(null);
+      setPromoInput("");
+      setPromoError(null);
       setStep(1);
     } catch (err) {
       console.error(err);
@@ -1135,6 +1278,12 @@ useEffect(() => {
             <p className="text-sm">
               <strong>Payment:</strong> {successSummary.paymentMethod}
             </p>
+            {successSummary.discountCode && (
+              <p className="text-sm">
+                <strong>Discount:</strong> {successSummary.discountCode} • −
+                <span className="font-mono">{(successSummary.discountAmount ?? 0).toFixed(2)}</span>
+              </p>
+            )}
             {successSummary.deliveryOption && (
               <p className="text-sm">
                 <strong>Delivery:</strong> {successSummary.deliveryOption}{" "}
@@ -1191,6 +1340,19 @@ useEffect(() => {
               )}
             </span>
 
+            {appliedPromo && (
+              <>
+                <span className="h-4 w-px bg-slate-300" />
+
+                <span className="text-slate-600">
+                  Discount: <span className="font-medium">{appliedPromo.code}</span> •{" "}
+                  <span className="font-mono text-green-700">
+                    −{currencySymbol}{discountAmount.toLocaleString()}
+                  </span>
+                </span>
+              </>
+            )}
+
             <span className="h-4 w-px bg-slate-300" />
 
             <span className="text-slate-600">
@@ -1202,6 +1364,40 @@ useEffect(() => {
         {/* STEP 1: PRODUCTS */}
         {step === 1 && (
           <div className="space-y-6">
+            <div className="flex items-center gap-2 max-w-md">
+              <Input
+                placeholder="Scan / enter SKU or barcode"
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addByCode(scanCode);
+                  }
+                }}
+                disabled={loading || scanning}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                aria-label="Scan with camera"
+                disabled={loading || scanning}
+                onClick={() => {
+                  if (cameraScanSupported()) setCameraOpen(true);
+                  else toast.error("Camera scanning isn't supported in this browser. Use a scanner or type the code.");
+                }}
+              >
+                <Camera className="h-4 w-4" />
+              </Button>
+              {scanning && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+            </div>
+            <CameraScanner
+              open={cameraOpen}
+              onClose={() => setCameraOpen(false)}
+              onDetected={addByCode}
+            />
+
             {items.length === 0 && (
               <div className="border border-dashed border-gray-300 rounded-xl py-12 flex flex-col items-center justify-center gap-4 bg-white">
                 <div className="text-lg font-semibold">
@@ -1760,6 +1956,52 @@ useEffect(() => {
                 <div className="text-xs font-semibold mb-1">Currency</div>
                 <Input value="NGN" disabled className="bg-slate-50" />
               </div>
+
+              <div className="flex flex-col md:col-span-2">
+                <div className="text-xs font-semibold mb-1">Discount Code</div>
+                {appliedPromo ? (
+                  <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm">
+                    <span>
+                      <span className="font-medium text-green-800">{appliedPromo.code}</span>
+                      {appliedPromo.description && (
+                        <span className="text-xs text-green-700"> — {appliedPromo.description}</span>
+                      )}
+                      <span className="ml-2 font-mono text-green-800">
+                        −{currencySymbol}{discountAmount.toLocaleString()}
+                      </span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={loading}
+                      onClick={() => {
+                        setAppliedPromo(null);
+                        setPromoInput("");
+                        setPromoError(null);
+                      }}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                      placeholder="Optional"
+                      disabled={loading}
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={!promoInput.trim() || promoLoading || loading}
+                      onClick={() => validatePromo(promoInput)}
+                    >
+                      {promoLoading ? "Checking…" : "Apply"}
+                    </Button>
+                  </div>
+                )}
+                {promoError && <p className="mt-1 text-xs text-red-600">{promoError}</p>}
+              </div>
             </section>
 
             <DeliverySelector
@@ -21,7 +21,7 @@ export default async function LogOfflineSalePage() {
   return (
     <div className="p-8 max-w-6xl mx-auto">
       <h1 className="text-4xl font-extrabold mb-8">Log Offline Sale</h1>
-      <OfflineSaleForm staffId={staff.id} />
+      <OfflineSaleForm />
     </div>
   );
 }
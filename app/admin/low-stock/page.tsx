@@ -0,0 +1,119 @@
+// app/admin/low-stock/page.tsx
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getAdminSession } from "@/lib/getAdminSession";
+import { listLowStock, VELOCITY_WINDOW_DAYS } from "@/lib/lowStock";
+
+export const dynamic = "force-dynamic";
+
+const WINDOWS = [7, 30, 90];
+
+export default async function LowStockPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ days?: string }>;
+}) {
+  const session = await getAdminSession();
+  if (!session || !session.user?.email || session.user.role === "customer") {
+    const cb = encodeURIComponent("/admin/low-stock");
+    return redirect(`/admin-login?callbackUrl=${cb}`);
+  }
+
+  const { days: rawDays } = await searchParams;
+  const days = WINDOWS.includes(Number(rawDays)) ? Number(rawDays) : VELOCITY_WINDOW_DAYS;
+  const rows = await listLowStock(days);
+
+  return (
+    <div className="px-6 md:px-10 lg:px-16 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Low Stock</h1>
+          <p className="text-sm text-gray-600">
+            Variants at or below their reorder threshold. Thresholds and stock
+            adjustments live on each product&apos;s Inventory tab.
+          </p>
+        </div>
+        <div className="flex gap-1 text-sm">
+          {WINDOWS.map((w) => (
+            <Link
+              key={w}
+              href={`/admin/low-stock?days=${w}`}
+              className={`px-3 py-1.5 rounded border ${
+                w === days ? "bg-gray-900 text-white border-gray-900" : "hover:bg-gray-50"
+              }`}
+            >
+              {w} days
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      <div className="border rounded bg-white overflow-auto">
+        {rows.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500">
+            Nothing is running low right now.
+          </div>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="text-left p-3 border-b">Product</th>
+                <th className="text-left p-3 border-b">Variant</th>
+                <th className="text-right p-3 border-b">Stock</th>
+                <th className="text-right p-3 border-b">Threshold</th>
+                <th className="text-right p-3 border-b">Sold ({days}d)</th>
+                <th className="text-right p-3 border-b">Per Day</th>
+                <th className="text-right p-3 border-b">Days Left</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.variantId} className="odd:bg-gray-50">
+                  <td className="p-3 border-b">
+                    <Link
+                      href={`/admin/product-management/${r.productId}`}
+                      className="flex items-center gap-3 hover:underline"
+                    >
+                      {r.image ? (
+                        <img
+                          src={r.image}
+                          alt={r.productName}
+                          className="h-10 w-10 rounded object-cover border"
+                        />
+                      ) : (
+                        <div className="h-10 w-10 rounded bg-gray-100 border" />
+                      )}
+                      <span>
+                        <span className="font-medium">{r.productName}</span>
+                        <span className="block text-xs text-gray-500">{r.productId}</span>
+                      </span>
+                    </Link>
+                  </td>
+                  <td className="p-3 border-b">
+                    {[r.color, r.size].filter(Boolean).join(" / ") || "—"}
+                  </td>
+                  <td
+                    className={`p-3 border-b text-right font-semibold ${
+                      r.stock <= 0 ? "text-red-700" : "text-amber-700"
+                    }`}
+                  >
+                    {r.stock}
+                  </td>
+                  <td className="p-3 border-b text-right">
+                    {r.threshold}
+                    {r.thresholdSource === "product" && (
+                      <span className="block text-[10px] text-gray-400">product default</span>
+                    )}
+                  </td>
+                  <td className="p-3 border-b text-right">{r.soldInWindow}</td>
+                  <td className="p-3 border-b text-right">{r.dailyVelocity}</td>
+                  <td className="p-3 border-b text-right">{r.daysOfCover ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { prisma } from "@/lib/db";
 import OrderInventoryClient from "./OrderInventoryClient";
 import EmptyState from "@/components/admin/EmptyState";
 import type { OrderRow } from "@/types/orders";
+import { resolveUnitPrice } from "@/lib/variantPricing";
+import { describePickup, isPickupOrder } from "@/lib/pickup";
 
 /* ──────────────────────────────────────────────────────────────────────────
    Helpers
@@ -169,17 +171,21 @@ async function fetchOrders(): Promise<OrderRow[]> {
         select: {
           id: true,
           name: true,
+          sku: true,
           image: true,
           category: true,
           color: true,
           size: true,
           quantity: true,
           lineTotal: true,
+          unitPrice: true,
+          compareAtPrice: true,
           hasSizeMod: true,
           sizeModFee: true,
           customSize: true,
           variant: {
             select: {
+              priceNGN: true,
               product: {
                 select: {
                   priceNGN: true,
@@ -193,16 +199,32 @@ async function fetchOrders(): Promise<OrderRow[]> {
         },
       },
       offlineSale: true,
-      deliveryOption: { select: { id: true, name: true, provider: true } },
+      deliveryOption: { select: { id: true, name: true, provider: true, pricingMode: true } },
+      pickup: {
+        select: { readyAt: true, collectedAt: true, location: { select: { name: true } } },
+      },
+      refunds: {
+        where: { status: { not: "Failed" } },
+        select: {
+          amount: true,
+          items: { select: { orderItemId: true, quantity: true } },
+        },
+      },
 
       // ⬇️ NEW: pull shipment fields used by the UI helpers
-      shipment: {
+      shipments: {
+        orderBy: { createdAt: "asc" },
         select: {
+          id: true,
           provider: true,
           status: true,
           externalOrderId: true,
           trackingUrl: true,
+          trackingNumber: true,
+          labelUrl: true,
           courierName: true,
+          createdAt: true,
+          items: { select: { orderItemId: true, quantity: true } },
         },
       },
     },
@@ -251,33 +273,52 @@ async function fetchOrders(): Promise<OrderRow[]> {
       return sum + base + sizeFeeNGN;
     }, 0);
 
+    const refundedQty = new Map<string, number>();
+    for (const r of o.refunds) {
+      for (const ri of r.items) {
+        refundedQty.set(ri.orderItemId, (refundedQty.get(ri.orderItemId) ?? 0) + ri.quantity);
+      }
+    }
+
     const products = o.items.map((it) => ({
       id: it.id,
       name: it.name,
+      sku: it.sku,
       image: it.image ?? "",
       category: it.category,
       color: it.color,
       size: it.size,
       quantity: it.quantity,
       lineTotal: it.lineTotal,
-      priceNGN: it.variant?.product.priceNGN ?? 0,
+      unitPrice: it.unitPrice,
+      compareAtPrice: it.compareAtPrice,
+      priceNGN: it.variant ? resolveUnitPrice(it.variant.product, it.variant, "NGN") : 0,
       hasSizeMod: it.hasSizeMod,
       sizeModFee: it.sizeModFee,
       customSize: normalizeCustomSize(it.customSize),
+      refundedQuantity: refundedQty.get(it.id) ?? 0,
     }));
 
-    // Prefer courier name from Shipment row; fallback to deliveryDetails
-    const courierFromShipment = o.shipment?.courierName || null;
-    const derivedCourier =
-      courierFromShipment || extractCourierName((o as any).deliveryDetails);
+    // Prefer courier name from the latest live Shipment; fallback to deliveryDetails
+    const isPickup = isPickupOrder(o);
+    const liveShipments = o.shipments.filter(
+      (s) => s.status !== "CANCELLED" && s.status !== "FAILED"
+    );
+    const latestShipment = liveShipments[liveShipments.length - 1];
+    const courierFromShipment = latestShipment?.courierName || null;
+    const derivedCourier = isPickup
+      ? null
+      : courierFromShipment || extractCourierName((o as any).deliveryDetails);
 
     const deliveryOption: OrderRow["deliveryOption"] = o.deliveryOption
       ? {
           id: o.deliveryOption.id,
           name: o.deliveryOption.name,
-          provider: o.deliveryOption.provider ?? null,
-          type: "COURIER",
+          provider: isPickup ? null : (o.deliveryOption.provider ?? null),
+          type: isPickup ? "PICKUP" : "COURIER",
         }
+      : isPickup
+      ? { id: "pickup", name: "In-person Pickup", provider: null, type: "PICKUP" }
       : derivedCourier
       ? {
           id: "shipbubble",
@@ -300,15 +341,38 @@ async function fetchOrders(): Promise<OrderRow[]> {
       channel: o.channel as any,
       deliveryOption,
       deliveryFee: o.deliveryFee ?? 0,
-      deliveryDetails: humanizeDeliveryDetails(
-        (o as any).deliveryDetails,
-        deliveryOption ?? undefined
-      ),
-
-      // ✅ UI helpers derived from Shipment relation
-      hasShipbubbleLabel: !!o.shipment?.externalOrderId,
-      shipbubbleOrderId: o.shipment?.externalOrderId ?? null,
-      shipbubbleTrackingUrl: o.shipment?.trackingUrl ?? null,
+      deliveryDetails: isPickup
+        ? describePickup(o.deliveryDetails, o.pickup)
+        : humanizeDeliveryDetails(
+            (o as any).deliveryDetails,
+            deliveryOption ?? undefined
+          ),
+      pickup: o.pickup
+        ? {
+            locationName: o.pickup.location.name,
+            readyAt: o.pickup.readyAt?.toISOString() ?? null,
+            collectedAt: o.pickup.collectedAt?.toISOString() ?? null,
+          }
+        : null,
+      discountCode: o.discountCode,
+      discountAmount: o.discountAmount,
+      refundStatus: o.refundStatus,
+      refundedAmount: o.refunds.reduce((sum, r) => sum + r.amount, 0),
+
+      // ✅ UI helpers derived from the Shipment relation
+      hasShipbubbleLabel: liveShipments.some((s) => !!s.externalOrderId),
+      shipbubbleOrderId: latestShipment?.externalOrderId ?? null,
+      shipbubbleTrackingUrl: latestShipment?.trackingUrl ?? null,
+      shipments: o.shipments.map((s) => ({
+        id: s.id,
+        status: s.status,
+        courierName: s.courierName,
+        trackingNumber: s.trackingNumber,
+        trackingUrl: s.trackingUrl,
+        labelUrl: s.labelUrl,
+        createdAt: s.createdAt.toISOString(),
+        items: s.items,
+      })),
     };
   });
 }
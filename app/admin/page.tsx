@@ -2,6 +2,7 @@ export const dynamic = "force-dynamic";
 
 import AdminDashboardClient from "@/components/admin/AdminDashboardClient";
 import { prisma } from "@/lib/db";
+import { describePickup, isPickupOrder } from "@/lib/pickup";
 import type { OrderRow } from "@/types/orders";
 
 /* ──────────────────────────────────────────────────────────────────────────
@@ -51,19 +52,10 @@ function normalizeAddress(o: {
   return "—";
 }
 
-function isPickupText(raw: unknown): boolean {
-  if (typeof raw !== "string") return false;
-  const t = raw.trim().toLowerCase();
-  return t.startsWith("pickup") || t.includes("in-person pickup") || t.includes("walk-in");
-}
-
 /** Extract courierName from deliveryDetails in a defensive way. */
 function extractCourierName(raw: unknown): string | null {
   if (!raw) return null;
 
-  // ✅ Don't ever treat pickup markers as a courier
-  if (isPickupText(raw)) return null;
-
   let obj: any = raw;
   if (typeof raw === "string") {
     try {
@@ -109,25 +101,11 @@ function extractWeightKg(obj: Record<string, any>): string | null {
   return hasKg ? asStr : `${n}kg`;
 }
 
-/**
- * Summarize delivery details for the table (Courier • Weight • ETA).
- * Also handles pickup cleanly.
- */
+/** Summarize delivery details for the table (Courier • Weight • ETA). */
 function humanizeDeliveryDetails(
   raw: unknown,
   deliveryOption?: { name?: string | null }
 ): string {
-  // ✅ Pickup: keep it human + optional note
-  if (isPickupText(raw)) {
-    const s = String(raw).trim();
-    const pickupLabel = "In-person Pickup";
-
-    // If it looks like "PICKUP: something", show "In-person Pickup • Note: something"
-    const parts = s.split(":");
-    const note = parts.length > 1 ? parts.slice(1).join(":").trim() : "";
-    return note ? `${pickupLabel} • Note: ${note}` : pickupLabel;
-  }
-
   const derivedCourier = extractCourierName(raw);
   const baseLabel = (derivedCourier || deliveryOption?.name || "—").trim();
 
@@ -201,6 +179,8 @@ async function fetchRecentOrders(): Promise<OrderRow[]> {
           size: true,
           quantity: true,
           lineTotal: true,
+          unitPrice: true,
+          compareAtPrice: true,
           hasSizeMod: true,
           sizeModFee: true,
           customSize: true,
@@ -219,7 +199,17 @@ async function fetchRecentOrders(): Promise<OrderRow[]> {
         },
       },
       offlineSale: true,
-      deliveryOption: { select: { id: true, name: true, provider: true } },
+      deliveryOption: { select: { id: true, name: true, provider: true, pricingMode: true } },
+      pickup: {
+        select: { readyAt: true, collectedAt: true, location: { select: { name: true } } },
+      },
+      refunds: {
+        where: { status: { not: "Failed" } },
+        select: {
+          amount: true,
+          items: { select: { orderItemId: true, quantity: true } },
+        },
+      },
     },
   });
 
@@ -258,6 +248,13 @@ async function fetchRecentOrders(): Promise<OrderRow[]> {
       return sum + base + sizeFeeNGN;
     }, 0);
 
+    const refundedQty = new Map<string, number>();
+    for (const r of o.refunds) {
+      for (const ri of r.items) {
+        refundedQty.set(ri.orderItemId, (refundedQty.get(ri.orderItemId) ?? 0) + ri.quantity);
+      }
+    }
+
     const products = o.items.map((it) => ({
       id: it.id,
       name: it.name,
@@ -267,31 +264,33 @@ async function fetchRecentOrders(): Promise<OrderRow[]> {
       size: it.size,
       quantity: it.quantity,
       lineTotal: it.lineTotal,
+      unitPrice: it.unitPrice,
+      compareAtPrice: it.compareAtPrice,
       priceNGN: it.variant?.product.priceNGN ?? 0,
       hasSizeMod: it.hasSizeMod,
       sizeModFee: it.sizeModFee,
       customSize: normalizeCustomSize(it.customSize),
+      refundedQuantity: refundedQty.get(it.id) ?? 0,
     }));
 
     // ✅ Prefer courier from deliveryDetails only when it's NOT pickup.
-    const derivedCourier = extractCourierName(o.deliveryDetails as any);
-
-    const isPickup =
-      (o.deliveryOption?.name?.toLowerCase?.() ?? "").includes("pickup") ||
-      isPickupText(o.deliveryDetails as any);
+    const isPickup = isPickupOrder(o);
+    const derivedCourier = isPickup ? null : extractCourierName(o.deliveryDetails as any);
 
     const deliveryOption: OrderRow["deliveryOption"] =
       o.deliveryOption
         ? {
             id: o.deliveryOption.id,
             name:
-              (isPickup ? "In-person Pickup" : o.deliveryOption.name)?.trim() ||
+              o.deliveryOption.name?.trim() ||
               o.deliveryOption.provider?.trim() ||
               "—",
             // ✅ pickup should never look like shipbubble on the client
             provider: isPickup ? null : (o.deliveryOption.provider ?? null),
-            type: "COURIER",
+            type: isPickup ? "PICKUP" : "COURIER",
           }
+        : isPickup
+        ? { id: "pickup", name: "In-person Pickup", provider: null, type: "PICKUP" }
         : derivedCourier
         ? {
             id: "shipbubble",
@@ -314,7 +313,20 @@ async function fetchRecentOrders(): Promise<OrderRow[]> {
       channel: o.channel,
       deliveryOption,
       deliveryFee: o.deliveryFee ?? 0,
-      deliveryDetails: humanizeDeliveryDetails(o.deliveryDetails, deliveryOption ?? undefined),
+      deliveryDetails: isPickup
+        ? describePickup(o.deliveryDetails, o.pickup)
+        : humanizeDeliveryDetails(o.deliveryDetails, deliveryOption ?? undefined),
+      pickup: o.pickup
+        ? {
+            locationName: o.pickup.location.name,
+            readyAt: o.pickup.readyAt?.toISOString() ?? null,
+            collectedAt: o.pickup.collectedAt?.toISOString() ?? null,
+          }
+        : null,
+      discountCode: o.discountCode,
+      discountAmount: o.discountAmount,
+      refundStatus: o.refundStatus,
+      refundedAmount: o.refunds.reduce((sum, r) => sum + r.amount, 0),
     };
   });
 }
@@ -0,0 +1,180 @@
+// app/admin/product-management/BulkEditDialog.tsx
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogFooter,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+export type BulkEditKind = "category" | "price" | "stock";
+
+const CURRENCIES = ["NGN", "USD", "EUR", "GBP"] as const;
+
+interface Props {
+  kind: BulkEditKind | null;
+  count: number;
+  categories: { slug: string; name: string }[];
+  busy: boolean;
+  onClose: () => void;
+  /** Receives the `action` body for POST /api/admin/products/bulk. */
+  onSubmit: (action: Record<string, unknown>) => void;
+}
+
+const TITLES: Record<BulkEditKind, string> = {
+  category: "Move to category",
+  price: "Change prices",
+  stock: "Change stock",
+};
+
+export default function BulkEditDialog({
+  kind,
+  count,
+  categories,
+  busy,
+  onClose,
+  onSubmit,
+}: Props) {
+  const [categorySlug, setCategorySlug] = useState("");
+  const [priceMode, setPriceMode] = useState<"percent" | "fixed">("percent");
+  const [priceChanges, setPriceChanges] = useState<Record<string, string>>({});
+  const [stockMode, setStockMode] = useState<"adjust" | "set">("adjust");
+  const [quantity, setQuantity] = useState("");
+
+  function submit() {
+    if (kind === "category") {
+      onSubmit({ type: "category", categorySlug });
+    } else if (kind === "price") {
+      const changes: Record<string, number> = {};
+      for (const c of CURRENCIES) {
+        const n = Number(priceChanges[c]);
+        if (priceChanges[c]?.trim() && Number.isFinite(n) && n !== 0) changes[c] = n;
+      }
+      onSubmit({ type: "price", mode: priceMode, changes });
+    } else if (kind === "stock") {
+      onSubmit({ type: "stock", mode: stockMode, quantity: Number(quantity) });
+    }
+  }
+
+  const valid =
+    kind === "category"
+      ? !!categorySlug
+      : kind === "price"
+      ? CURRENCIES.some((c) => Number(priceChanges[c]) && Number.isFinite(Number(priceChanges[c])))
+      : quantity.trim() !== "" && Number.isInteger(Number(quantity));
+
+  return (
+    <Dialog open={!!kind} onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{kind ? TITLES[kind] : ""}</DialogTitle>
+          <DialogDescription>
+            Applies to {count} selected product{count === 1 ? "" : "s"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {kind === "category" && (
+          <select
+            value={categorySlug}
+            onChange={(e) => setCategorySlug(e.target.value)}
+            className="w-full border rounded px-2 py-2 text-sm"
+          >
+            <option value="">Choose a category</option>
+            {categories.map((c) => (
+              <option key={c.slug} value={c.slug}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {kind === "price" && (
+          <div className="space-y-3 text-sm">
+            <div className="flex gap-4">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={priceMode === "percent"}
+                  onChange={() => setPriceMode("percent")}
+                />
+                By percentage
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={priceMode === "fixed"}
+                  onChange={() => setPriceMode("fixed")}
+                />
+                By fixed amount
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {CURRENCIES.map((c) => (
+                <label key={c} className="space-y-1">
+                  <span className="block text-gray-600">
+                    {c} {priceMode === "percent" ? "(%)" : ""}
+                  </span>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={priceChanges[c] ?? ""}
+                    onChange={(e) => setPriceChanges((p) => ({ ...p, [c]: e.target.value }))}
+                    placeholder={priceMode === "percent" ? "e.g. 10 or -15" : "e.g. 500 or -500"}
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">Leave a currency blank to keep its price.</p>
+          </div>
+        )}
+
+        {kind === "stock" && (
+          <div className="space-y-3 text-sm">
+            <div className="flex gap-4">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={stockMode === "adjust"}
+                  onChange={() => setStockMode("adjust")}
+                />
+                Add / remove
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={stockMode === "set"}
+                  onChange={() => setStockMode("set")}
+                />
+                Set to
+              </label>
+            </div>
+            <Input
+              type="number"
+              step={1}
+              min={stockMode === "set" ? 0 : undefined}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder={stockMode === "adjust" ? "e.g. 5 or -2" : "e.g. 10"}
+            />
+            <p className="text-xs text-gray-500">Applies to every variant of each product.</p>
+          </div>
+        )}
+
+        <DialogFooter className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={busy || !valid}>
+            {busy ? "Applying…" : "Apply"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
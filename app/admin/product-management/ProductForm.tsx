@@ -3,7 +3,7 @@
 "use client";
 
 import { useState, useEffect, useMemo, ChangeEvent } from "react";
-import type { ProductPayload, ColorSizeStocks } from "@/types/product";
+import type { ProductPayload, ColorSizeStocks, PriceRounding } from "@/types/product";
 import type { Category } from "@/lib/categories";
 import {
   Card,
@@ -29,6 +29,53 @@ import toast from "react-hot-toast";
 import Image from "next/image";
 
 const CONVENTIONAL_SIZES = ["S", "M", "L", "XL", "R", "B"] as const;
+const CURRENCIES = ["NGN", "USD", "EUR", "GBP"] as const;
+
+const ROUNDING_LABELS: Record<PriceRounding, string> = {
+  None: "Exact (2 dp)",
+  Whole: "Nearest whole unit",
+  NinetyNine: "Up to .99",
+  NearestFive: "Nearest 5",
+};
+
+/** "store" follows the store-wide rule, "custom" derives with its own rule, "manual" opts out. */
+type PricingMode = "store" | "custom" | "manual";
+
+/** ISO timestamp → value for a datetime-local input (browser's time zone). */
+function toLocalInput(iso?: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return "";
+  const p = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}T${p(d.getHours())}:${p(d.getMinutes())}`;
+}
+
+/** datetime-local value → ISO timestamp, or null when blank. */
+const fromLocalInput = (v: string) => (v ? new Date(v).toISOString() : null);
+
+type AmountInputs = Partial<Record<(typeof CURRENCIES)[number], string>>;
+
+/** Amount inputs → numbers, keeping only currencies filled in with a value > 0. */
+function positiveAmounts(raw: AmountInputs | undefined) {
+  const out: Partial<Record<(typeof CURRENCIES)[number], number>> = {};
+  for (const cur of CURRENCIES) {
+    const n = parseFloat(raw?.[cur] ?? "");
+    if (Number.isFinite(n) && n > 0) out[cur] = n;
+  }
+  return out;
+}
+
+/** Amounts from the payload → input values. */
+const amountInputs = (amounts: Partial<Record<string, number>> | undefined): AmountInputs =>
+  Object.fromEntries(Object.entries(amounts ?? {}).map(([cur, v]) => [cur, String(v)]));
+
+/** Form state for one variant's optional SKU / barcode / price / compare-at overrides. */
+type VariantDetailInput = {
+  sku: string;
+  barcode: string;
+  prices: AmountInputs;
+  compareAt: AmountInputs;
+};
 
 type VariantSalesSnapshot = {
   color: string;
@@ -81,10 +128,30 @@ export default function ProductForm({
         : "",
   });
 
+  // Compare-at ("was") prices; blank = not on sale in that currency
+  const [compareAt, setCompareAt] = useState<AmountInputs>(() =>
+    amountInputs(initialProduct?.compareAt)
+  );
+
+  // FX pricing: USD / EUR / GBP derived from NGN on re-price
+  const initialRule = initialProduct?.pricingRule ?? null;
+  const [pricingMode, setPricingMode] = useState<PricingMode>(
+    !initialRule ? "store" : initialRule.enabled ? "custom" : "manual"
+  );
+  const [markupPercent, setMarkupPercent] = useState(
+    initialRule?.enabled ? String(initialRule.markupPercent) : "0"
+  );
+  const [rounding, setRounding] = useState<PriceRounding>(
+    initialRule?.enabled ? initialRule.rounding : "None"
+  );
+
   // Status: allow "" initially for placeholder, then require selection
   const [status, setStatus] = useState<ProductPayload["status"] | "">(
     initialProduct?.status ?? ""
   );
+  // Drop schedule (datetime-local values; blank = not scheduled)
+  const [publishAt, setPublishAt] = useState(toLocalInput(initialProduct?.publishAt));
+  const [unpublishAt, setUnpublishAt] = useState(toLocalInput(initialProduct?.unpublishAt));
 
   const [sizeMods, setSizeMods] = useState(initialProduct?.sizeMods ?? false);
   const initialHasColors = (initialProduct?.colors?.length ?? 0) > 0;
@@ -205,6 +272,22 @@ export default function ProductForm({
     {}
   );
 
+  // Optional per-variant SKU / barcode / price / compare-at overrides, keyed `color|||size`
+  const [variantDetails, setVariantDetails] = useState<
+    Record<string, VariantDetailInput>
+  >(() => {
+    const out: Record<string, VariantDetailInput> = {};
+    for (const d of initialProduct?.variantDetails ?? []) {
+      out[`${d.color}|||${d.size}`] = {
+        sku: d.sku ?? "",
+        barcode: d.barcode ?? "",
+        prices: amountInputs(d.prices),
+        compareAt: amountInputs(d.compareAt),
+      };
+    }
+    return out;
+  });
+
   const [images, setImages] = useState<string[]>(initialProduct?.images ?? []);
   const [saving, setSaving] = useState(false);
 
@@ -222,6 +305,19 @@ export default function ProductForm({
     [customSizes]
   );
 
+  // Every color/size the current matrix can produce (size "" when none)
+  const variantCombos = useMemo(() => {
+    const sizes = [
+      ...CONVENTIONAL_SIZES.filter((s) => sizeEnabled[s]),
+      ...activeCustomSizes,
+    ];
+    const colorList = trimmedColors.length ? trimmedColors : [""];
+    const sizeList = sizes.length ? sizes : [""];
+    return colorList.flatMap((color) =>
+      sizeList.map((size) => ({ color, size, key: `${color}|||${size}` }))
+    );
+  }, [trimmedColors, sizeEnabled, activeCustomSizes]);
+
   const anySizeEnabled = useMemo(
     () =>
       CONVENTIONAL_SIZES.some((s) => sizeEnabled[s]) ||
@@ -232,7 +328,12 @@ export default function ProductForm({
   const isFormValid = useMemo(() => {
     // Basic required fields
     if (!name.trim() || !category || !description.trim() || !status) return false;
+    if (publishAt && unpublishAt && new Date(unpublishAt) <= new Date(publishAt)) return false;
     if (!weight || isNaN(Number(weight)) || Number(weight) <= 0) return false;
+    if (pricingMode === "custom") {
+      const markup = Number(markupPercent);
+      if (markupPercent.trim() === "" || isNaN(markup) || markup < -90 || markup > 1000) return false;
+    }
 
     // Pricing: all currencies must be >= 1
     for (const cur of ["NGN", "USD", "EUR", "GBP"] as const) {
@@ -311,6 +412,10 @@ export default function ProductForm({
     category,
     description,
     status,
+    publishAt,
+    unpublishAt,
+    pricingMode,
+    markupPercent,
     price,
     hasColors,
     trimmedColors,
@@ -606,7 +711,16 @@ export default function ProductForm({
         EUR: parseFloat(price.EUR),
         GBP: parseFloat(price.GBP),
       },
+      compareAt: positiveAmounts(compareAt),
+      pricingRule:
+        pricingMode === "store"
+          ? null
+          : pricingMode === "manual"
+          ? { enabled: false, markupPercent: 0, rounding: "None" }
+          : { enabled: true, markupPercent: Number(markupPercent), rounding },
       status: status as ProductPayload["status"],
+      publishAt: fromLocalInput(publishAt),
+      unpublishAt: fromLocalInput(unpublishAt),
       sizeMods,
       colors: hasColors ? trimmedColorList : [],
       sizeStocks: sizeStocksPayload,
@@ -617,6 +731,17 @@ export default function ProductForm({
       ...(hasColors && Object.keys(colorSizeStocksPayload).length
         ? { colorSizeStocks: colorSizeStocksPayload }
         : {}),
+      variantDetails: variantCombos.map(({ color, size, key }) => {
+        const d = variantDetails[key];
+        return {
+          color,
+          size,
+          sku: d?.sku.trim() || null,
+          barcode: d?.barcode.trim() || null,
+          prices: positiveAmounts(d?.prices),
+          compareAt: positiveAmounts(d?.compareAt),
+        };
+      }),
     };
 
     try {
@@ -699,6 +824,39 @@ export default function ProductForm({
           </Select>
         </div>
 
+        {/* Schedule */}
+        <div className="md:col-span-2 flex flex-col space-y-1">
+          <Label>Schedule (optional)</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="space-y-1 text-sm">
+              <span className="block text-gray-600">Publish at</span>
+              <Input
+                type="datetime-local"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+                disabled={saving}
+              />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="block text-gray-600">Unpublish at</span>
+              <Input
+                type="datetime-local"
+                value={unpublishAt}
+                onChange={(e) => setUnpublishAt(e.target.value)}
+                disabled={saving}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            Applies while the status is Published. Before &quot;Publish at&quot; the product
+            page shows a countdown with a launch sign-up and the product is hidden from
+            listings, search and checkout; after &quot;Unpublish at&quot; it is hidden again.
+          </p>
+          {publishAt && unpublishAt && new Date(unpublishAt) <= new Date(publishAt) && (
+            <p className="text-xs text-red-600">Unpublish time must be after the publish time.</p>
+          )}
+        </div>
+
         <div className="flex items-center space-x-2">
           <Switch
             checked={sizeMods}
@@ -1255,6 +1413,198 @@ export default function ProductForm({
           </div>
         ))}
 
+        <div className="md:col-span-2 space-y-2">
+          <Label>Compare-at prices (optional)</Label>
+          <p className="text-xs text-gray-500">
+            The original price. When it is higher than the price above, the
+            storefront shows it struck through with a sale badge.
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CURRENCIES.map((cur) => (
+              <div key={cur} className="flex flex-col space-y-1">
+                <Label className="text-xs text-gray-600">{cur} was</Label>
+                <Input
+                  type="number"
+                  placeholder="—"
+                  min={0}
+                  step="any"
+                  value={compareAt[cur] ?? ""}
+                  onChange={(e) =>
+                    setCompareAt((c) => ({ ...c, [cur]: e.target.value }))
+                  }
+                  disabled={saving}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="md:col-span-2 space-y-2">
+          <Label>FX pricing</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="space-y-1 text-sm">
+              <span className="block text-gray-600">Rule</span>
+              <Select
+                value={pricingMode}
+                onValueChange={(v) => setPricingMode(v as PricingMode)}
+                disabled={saving}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="store">Store default</SelectItem>
+                  <SelectItem value="custom">Own rule</SelectItem>
+                  <SelectItem value="manual">Manual prices</SelectItem>
+                </SelectContent>
+              </Select>
+            </label>
+            {pricingMode === "custom" && (
+              <>
+                <label className="space-y-1 text-sm">
+                  <span className="block text-gray-600">Markup %</span>
+                  <Input
+                    type="number"
+                    step="any"
+                    min={-90}
+                    max={1000}
+                    value={markupPercent}
+                    onChange={(e) => setMarkupPercent(e.target.value)}
+                    disabled={saving}
+                  />
+                </label>
+                <label className="space-y-1 text-sm">
+                  <span className="block text-gray-600">Rounding</span>
+                  <Select
+                    value={rounding}
+                    onValueChange={(v) => setRounding(v as PriceRounding)}
+                    disabled={saving}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROUNDING_LABELS) as PriceRounding[]).map((r) => (
+                        <SelectItem key={r} value={r}>
+                          {ROUNDING_LABELS[r]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </label>
+              </>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {pricingMode === "manual"
+              ? "USD, EUR and GBP prices stay exactly as typed above."
+              : "NGN is the master price: USD, EUR and GBP (and compare-at prices) are recalculated from it at the next re-price under Store Settings → FX Pricing."}
+          </p>
+        </div>
+
+        {variantCombos.length > 0 && (
+          <div className="md:col-span-2 space-y-2">
+            <Label>Variant details (optional)</Label>
+            <p className="text-xs text-gray-500">
+              SKU and barcode must be unique across the catalogue. Leave a price
+              or compare-at price blank to use the product one above.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600">
+                    <th className="py-1 pr-2 font-medium">Variant</th>
+                    <th className="py-1 pr-2 font-medium">SKU</th>
+                    <th className="py-1 pr-2 font-medium">Barcode</th>
+                    {CURRENCIES.map((cur) => (
+                      <th key={cur} className="py-1 pr-2 font-medium">
+                        {cur}
+                      </th>
+                    ))}
+                    {CURRENCIES.map((cur) => (
+                      <th key={`was-${cur}`} className="py-1 pr-2 font-medium">
+                        {cur} was
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {variantCombos.map(({ color, size, key }) => {
+                    const d = variantDetails[key] ?? {
+                      sku: "",
+                      barcode: "",
+                      prices: {},
+                      compareAt: {},
+                    };
+                    const update = (patch: Partial<VariantDetailInput>) =>
+                      setVariantDetails((prev) => ({
+                        ...prev,
+                        [key]: { ...d, ...patch },
+                      }));
+                    return (
+                      <tr key={key} className="border-t">
+                        <td className="py-1 pr-2 whitespace-nowrap">
+                          {[color, size].filter(Boolean).join(" / ") || "Default"}
+                        </td>
+                        <td className="py-1 pr-2">
+                          <Input
+                            value={d.sku}
+                            maxLength={64}
+                            onChange={(e) => update({ sku: e.target.value })}
+                            disabled={saving}
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <Input
+                            value={d.barcode}
+                            maxLength={64}
+                            onChange={(e) => update({ barcode: e.target.value })}
+                            disabled={saving}
+                          />
+                        </td>
+                        {CURRENCIES.map((cur) => (
+                          <td key={cur} className="py-1 pr-2 min-w-[90px]">
+                            <Input
+                              type="number"
+                              min={0}
+                              step="any"
+                              placeholder={price[cur] || "—"}
+                              value={d.prices[cur] ?? ""}
+                              onChange={(e) =>
+                                update({
+                                  prices: { ...d.prices, [cur]: e.target.value },
+                                })
+                              }
+                              disabled={saving}
+                            />
+                          </td>
+                        ))}
+                        {CURRENCIES.map((cur) => (
+                          <td key={`was-${cur}`} className="py-1 pr-2 min-w-[90px]">
+                            <Input
+                              type="number"
+                              min={0}
+                              step="any"
+                              placeholder={compareAt[cur] || "—"}
+                              value={d.compareAt[cur] ?? ""}
+                              onChange={(e) =>
+                                update({
+                                  compareAt: { ...d.compareAt, [cur]: e.target.value },
+                                })
+                              }
+                              disabled={saving}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         <div className="md:col-span-2">
           <Label>Images *</Label>
           <div className="grid grid-cols-4 gap-4 mt-2">
@@ -56,6 +56,8 @@ import {
   Eye,
 } from "lucide-react";
 import Image from "next/image";
+import BulkEditDialog, { type BulkEditKind } from "./BulkEditDialog";
+import { productAvailability } from "@/lib/productSchedule";
 
 export type AdminProduct = {
   id: string;
@@ -66,14 +68,29 @@ export type AdminProduct = {
   stockCount: number;
   stockTotal: number;
   status: "Draft" | "Published" | "Archived";
+  publishAt: Date | null;
+  unpublishAt: Date | null;
   createdAt: Date;
 };
 
 interface Props {
   initialData: AdminProduct[];
-  categories: string[];
+  categories: { slug: string; name: string }[];
 }
 
+type BulkResult = {
+  updated: number;
+  unchanged: number;
+  skipped: { id: string; name: string | null; reason: string }[];
+  products: {
+    id: string;
+    status: AdminProduct["status"];
+    category: string;
+    price: AdminProduct["price"];
+    stockTotal: number;
+  }[];
+};
+
 export default function ProductsTable({
   initialData,
   categories,
@@ -96,6 +113,8 @@ export default function ProductsTable({
   // dialog state
   const [pendingDelete, setPendingDelete] = useState<string[]>([]);
   const [deleteOpen, setDeleteOpen] = useState(false);
+  const [bulkEdit, setBulkEdit] = useState<BulkEditKind | null>(null);
+  const [bulkBusy, setBulkBusy] = useState(false);
 
   // 1) Columns ────────────────────────────────────────────────────
   const columns = useMemo<ColumnDef<AdminProduct>[]>(() => [
@@ -151,17 +170,37 @@ export default function ProductsTable({
       header: "Status",
       cell: ({ row }) => {
         const s = row.original.status;
+        const availability = productAvailability(row.original);
         const badge =
-          s === "Published"
+          availability === "coming_soon"
+            ? "bg-blue-100 text-blue-800"
+            : availability === "ended"
+            ? "bg-gray-200 text-gray-700"
+            : s === "Published"
             ? "bg-green-100 text-green-800"
             : s === "Draft"
             ? "bg-yellow-100 text-yellow-800"
             : "bg-gray-200 text-gray-700";
+        const label =
+          availability === "coming_soon"
+            ? "Scheduled"
+            : availability === "ended"
+            ? "Ended"
+            : s;
+        const { publishAt, unpublishAt } = row.original;
         return (
           <span
             className={`px-2 py-0.5 rounded-full text-xs ${badge}`}
+            title={
+              [
+                publishAt && `Publishes ${new Date(publishAt).toLocaleString()}`,
+                unpublishAt && `Unpublishes ${new Date(unpublishAt).toLocaleString()}`,
+              ]
+                .filter(Boolean)
+                .join(" · ") || undefined
+            }
           >
-            {s}
+            {label}
           </span>
         );
       },
@@ -326,6 +365,57 @@ export default function ProductsTable({
     table.resetRowSelection();
   }
 
+  // 6) Status / category / price / stock changes in one server-side batch
+  // QR label sheet (PDF) for every variant of the selected products
+  function printLabels(copies: "one" | "stock") {
+    const params = new URLSearchParams({ ids: selectedIds.join(","), copies });
+    window.open(`/api/admin/products/labels?${params}`, "_blank");
+  }
+
+  async function runBulkAction(action: Record<string, unknown>) {
+    setBulkBusy(true);
+    const res = await fetch("/api/admin/products/bulk", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids: selectedIds, action }),
+    }).catch(() => null);
+    const json = res ? await res.json().catch(() => ({})) : {};
+    setBulkBusy(false);
+    if (!res?.ok) {
+      toast.error(json.error || "Bulk update failed");
+      return;
+    }
+    const result = json as BulkResult;
+
+    const fresh = new Map(result.products.map((p) => [p.id, p]));
+    setData((d) =>
+      d.map((p) => {
+        const f = fresh.get(p.id);
+        return f
+          ? {
+              ...p,
+              status: f.status,
+              category: f.category,
+              price: f.price,
+              stockCount: f.stockTotal,
+              stockTotal: f.stockTotal,
+            }
+          : p;
+      })
+    );
+
+    toast.success(
+      `Updated ${result.updated}` +
+        (result.unchanged ? `, ${result.unchanged} already up to date` : "") +
+        (result.skipped.length ? `, skipped ${result.skipped.length}` : "")
+    );
+    for (const s of result.skipped) {
+      toast.error(`${s.name ?? s.id}: ${s.reason}`, { duration: 6000 });
+    }
+    setBulkEdit(null);
+    table.resetRowSelection();
+  }
+
   const anySelected = selectedIds.length > 0;
 
   return (
@@ -343,6 +433,39 @@ export default function ProductsTable({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                disabled={bulkBusy}
+                onSelect={() => runBulkAction({ type: "status", status: "Published" })}
+              >
+                Publish
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                disabled={bulkBusy}
+                onSelect={() => runBulkAction({ type: "status", status: "Draft" })}
+              >
+                Unpublish (Draft)
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                disabled={bulkBusy}
+                onSelect={() => runBulkAction({ type: "status", status: "Archived" })}
+              >
+                Archive
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setBulkEdit("category")}>
+                Move to Category…
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setBulkEdit("price")}>
+                Change Prices…
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setBulkEdit("stock")}>
+                Change Stock…
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => printLabels("one")}>
+                Print Labels
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => printLabels("stock")}>
+                Print Labels (one per unit)
+              </DropdownMenuItem>
               <DropdownMenuItem
                 onSelect={() => {
                   setPendingDelete(selectedIds);
@@ -372,8 +495,8 @@ export default function ProductsTable({
             <SelectContent>
               <SelectItem value="All">All Categories</SelectItem>
               {categories.map((c) => (
-                <SelectItem key={c} value={c}>
-                  {c}
+                <SelectItem key={c.slug} value={c.name}>
+                  {c.name}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -498,6 +621,17 @@ export default function ProductsTable({
         </select>
       </div>
 
+      {/* Bulk category / price / stock */}
+      <BulkEditDialog
+        key={bulkEdit ?? "closed"}
+        kind={bulkEdit}
+        count={selectedIds.length}
+        categories={categories}
+        busy={bulkBusy}
+        onClose={() => setBulkEdit(null)}
+        onSubmit={runBulkAction}
+      />
+
       {/* Delete Confirmation */}
       <Dialog open={deleteOpen} onOpenChange={setDeleteOpen}>
         <DialogContent className="sm:max-w-md">
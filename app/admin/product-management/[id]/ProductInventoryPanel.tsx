@@ -0,0 +1,375 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { RefreshCcw, SlidersHorizontal } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+interface VariantOption {
+  id: string;
+  color: string;
+  size: string;
+  stock: number;
+  lowStockThreshold: number | null;
+}
+
+interface Movement {
+  id: string;
+  variantId: string;
+  delta: number;
+  reason: "Sale" | "Cancel" | "Restock" | "Adjustment" | "Return";
+  balance: number;
+  orderId: string | null;
+  note: string | null;
+  createdAt: string;
+  variant: { color: string; size: string };
+  staff: { firstName: string; lastName: string } | null;
+}
+
+const REASON_STYLES: Record<Movement["reason"], string> = {
+  Sale: "bg-blue-100 text-blue-800",
+  Cancel: "bg-gray-100 text-gray-800",
+  Restock: "bg-green-100 text-green-800",
+  Adjustment: "bg-yellow-100 text-yellow-800",
+  Return: "bg-purple-100 text-purple-800",
+};
+
+const variantLabel = (v: { color: string; size: string }) =>
+  [v.color, v.size].filter(Boolean).join(" / ") || "Default";
+
+export default function ProductInventoryPanel({
+  productId,
+  variants,
+  lowStockThreshold,
+}: {
+  productId: string;
+  variants: VariantOption[];
+  lowStockThreshold: number;
+}) {
+  const router = useRouter();
+  const [variantId, setVariantId] = useState<string>("ALL");
+  const [rows, setRows] = useState<Movement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Adjustment dialog state
+  const [adjustOpen, setAdjustOpen] = useState(false);
+  const [adjustVariant, setAdjustVariant] = useState<string>(variants[0]?.id ?? "");
+  const [delta, setDelta] = useState("");
+  const [reason, setReason] = useState<"Adjustment" | "Restock" | "Return">("Adjustment");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Low-stock thresholds ("" = use the product default)
+  const [defaultThreshold, setDefaultThreshold] = useState(String(lowStockThreshold));
+  const [variantThresholds, setVariantThresholds] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      variants.map((v) => [v.id, v.lowStockThreshold == null ? "" : String(v.lowStockThreshold)])
+    )
+  );
+  const [savingThresholds, setSavingThresholds] = useState(false);
+
+  async function saveThresholds() {
+    const parse = (v: string) => (v.trim() === "" ? null : Number(v));
+    const productDefault = Number(defaultThreshold);
+    const overrides = variants.map((v) => ({
+      id: v.id,
+      lowStockThreshold: parse(variantThresholds[v.id] ?? ""),
+    }));
+    const valid = (n: number | null) => n === null || (Number.isInteger(n) && n >= 0);
+    if (!Number.isInteger(productDefault) || productDefault < 0 || !overrides.every((o) => valid(o.lowStockThreshold))) {
+      toast.error("Thresholds must be whole numbers of 0 or more.");
+      return;
+    }
+    setSavingThresholds(true);
+    try {
+      const res = await fetch(`/api/admin/products/${productId}/inventory`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lowStockThreshold: productDefault, variants: overrides }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Could not save thresholds");
+      toast.success("Thresholds saved.");
+      router.refresh();
+    } catch (e: any) {
+      toast.error(e?.message || "Could not save thresholds");
+    } finally {
+      setSavingThresholds(false);
+    }
+  }
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const qs = variantId === "ALL" ? "" : `?variantId=${encodeURIComponent(variantId)}`;
+      const res = await fetch(`/api/admin/products/${productId}/inventory${qs}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Failed to load history");
+      setRows(json);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, variantId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function submitAdjustment() {
+    const n = Number(delta);
+    if (!Number.isInteger(n) || n === 0) {
+      toast.error("Enter a non-zero whole number (use − to remove stock).");
+      return;
+    }
+    if (!note.trim()) {
+      toast.error("Add a reason for the adjustment.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/products/${productId}/inventory`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ variantId: adjustVariant, delta: n, reason, note }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Adjustment failed");
+      toast.success(`Stock updated (now ${json.stock}).`);
+      setAdjustOpen(false);
+      setDelta("");
+      setNote("");
+      load();
+      router.refresh();
+    } catch (e: any) {
+      toast.error(e?.message || "Adjustment failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="p-6 border rounded bg-white space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h2 className="text-lg font-semibold">Stock History</h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={variantId}
+            onChange={(e) => setVariantId(e.target.value)}
+            className="border rounded px-3 py-2 text-sm"
+          >
+            <option value="ALL">All variants</option>
+            {variants.map((v) => (
+              <option key={v.id} value={v.id}>
+                {variantLabel(v)} ({v.stock})
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => load()}
+            disabled={loading}
+            className="flex items-center gap-1"
+          >
+            <RefreshCcw className="h-4 w-4" />
+            Refresh
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => {
+              if (variantId !== "ALL") setAdjustVariant(variantId);
+              setAdjustOpen(true);
+            }}
+            disabled={variants.length === 0}
+            className="flex items-center gap-1"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+            Adjust Stock
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded p-4 space-y-3">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h3 className="text-sm font-semibold">Low-stock thresholds</h3>
+            <p className="text-xs text-gray-500">
+              Variants at or below their threshold appear in Low Stock and the
+              daily digest. Leave a variant empty to use the product default.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-gray-600" htmlFor="default-threshold">
+              Product default
+            </label>
+            <Input
+              id="default-threshold"
+              type="number"
+              min={0}
+              step={1}
+              className="w-24"
+              value={defaultThreshold}
+              onChange={(e) => setDefaultThreshold(e.target.value)}
+            />
+            <Button size="sm" onClick={saveThresholds} disabled={savingThresholds}>
+              {savingThresholds ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+        {variants.length > 0 && (
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {variants.map((v) => (
+              <div key={v.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  {variantLabel(v)}{" "}
+                  <span className="text-xs text-gray-500">({v.stock} in stock)</span>
+                </span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={1}
+                  className="w-20"
+                  placeholder={defaultThreshold}
+                  value={variantThresholds[v.id] ?? ""}
+                  onChange={(e) =>
+                    setVariantThresholds((prev) => ({ ...prev, [v.id]: e.target.value }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="border rounded overflow-auto">
+        {loading ? (
+          <div className="p-6 text-sm text-gray-500">Loading…</div>
+        ) : error ? (
+          <div className="p-6 text-sm text-red-600">{error}</div>
+        ) : rows.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500">No stock movements recorded yet.</div>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="text-left p-2 border-b">Date</th>
+                <th className="text-left p-2 border-b">Variant</th>
+                <th className="text-left p-2 border-b">Reason</th>
+                <th className="text-right p-2 border-b">Change</th>
+                <th className="text-right p-2 border-b">Balance</th>
+                <th className="text-left p-2 border-b">Reference</th>
+                <th className="text-left p-2 border-b">Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((m) => (
+                <tr key={m.id} className="odd:bg-gray-50">
+                  <td className="p-2 border-b whitespace-nowrap">
+                    {new Date(m.createdAt).toLocaleString()}
+                  </td>
+                  <td className="p-2 border-b">{variantLabel(m.variant)}</td>
+                  <td className="p-2 border-b">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-semibold ${REASON_STYLES[m.reason]}`}
+                    >
+                      {m.reason}
+                    </span>
+                  </td>
+                  <td
+                    className={`p-2 border-b text-right font-medium ${
+                      m.delta > 0 ? "text-green-700" : "text-red-700"
+                    }`}
+                  >
+                    {m.delta > 0 ? `+${m.delta}` : m.delta}
+                  </td>
+                  <td className="p-2 border-b text-right">{m.balance}</td>
+                  <td className="p-2 border-b">
+                    {m.orderId ?? "—"}
+                    {m.staff && (
+                      <div className="text-xs text-gray-500">
+                        {m.staff.firstName} {m.staff.lastName}
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-2 border-b text-gray-600">{m.note ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Dialog open={adjustOpen} onOpenChange={(open) => !saving && setAdjustOpen(open)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Adjust Stock</DialogTitle>
+            <DialogDescription>
+              Add or remove units with a reason. The change is logged in the
+              stock history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <select
+              value={adjustVariant}
+              onChange={(e) => setAdjustVariant(e.target.value)}
+              className="w-full border rounded px-3 py-2 text-sm"
+            >
+              {variants.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {variantLabel(v)} — {v.stock} in stock
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                step={1}
+                placeholder="e.g. 5 or -2"
+                value={delta}
+                onChange={(e) => setDelta(e.target.value)}
+              />
+              <select
+                value={reason}
+                onChange={(e) => setReason(e.target.value as typeof reason)}
+                className="border rounded px-3 py-2 text-sm"
+              >
+                <option value="Adjustment">Adjustment</option>
+                <option value="Restock">Restock</option>
+                <option value="Return">Return</option>
+              </select>
+            </div>
+            <Textarea
+              placeholder="Reason (e.g. stock count correction, damaged item)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" disabled={saving} onClick={() => setAdjustOpen(false)}>
+              Cancel
+            </Button>
+            <Button disabled={saving} onClick={submitAdjustment}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import ProductReviewsPanel from "./ProductReviewsPanel";
+import ProductInventoryPanel from "./ProductInventoryPanel";
 import { Button } from "@/components/ui/button";
 
 interface ProductBasics {
@@ -23,6 +24,7 @@ interface ProductBasics {
   status: "Draft" | "Published" | "Archived";
   sizeMods: boolean;
   videoUrl: string | null;
+  lowStockThreshold: number;
   variants: {
     id: string;
     color: string;
@@ -31,6 +33,7 @@ interface ProductBasics {
     sold: number;       // total sold
     total: number;      // total ever = sold + remaining
     weight: number | null;
+    lowStockThreshold: number | null;
     createdAt: Date;
   }[];
   wishlistCount: number;
@@ -41,7 +44,9 @@ export default function ProductTabsClient({
 }: {
   product: ProductBasics;
 }) {
-  const [tab, setTab] = useState<"overview" | "reviews">("overview");
+  const [tab, setTab] = useState<"overview" | "inventory" | "reviews">(
+    "overview"
+  );
 
   return (
     <div className="space-y-6">
@@ -51,6 +56,11 @@ export default function ProductTabsClient({
           active={tab === "overview"}
           onClick={() => setTab("overview")}
         />
+        <TabButton
+          label="Inventory"
+          active={tab === "inventory"}
+          onClick={() => setTab("inventory")}
+        />
         <TabButton
           label="Reviews"
           active={tab === "reviews"}
@@ -59,6 +69,13 @@ export default function ProductTabsClient({
       </div>
 
       {tab === "overview" && <OverviewSection product={product} />}
+      {tab === "inventory" && (
+        <ProductInventoryPanel
+          productId={product.id}
+          variants={product.variants}
+          lowStockThreshold={product.lowStockThreshold}
+        />
+      )}
       {tab === "reviews" && (
         <div>
           <ProductReviewsPanel productId={product.id} />
@@ -251,6 +268,7 @@ function OverviewSection({ product }: { product: ProductBasics }) {
             Next Steps
           </h2>
           <ul className="space-y-1 list-disc pl-4 text-sm text-gray-600">
+            <li>Switch to Inventory to see stock history or adjust stock.</li>
             <li>Switch to Reviews to manage feedback.</li>
             <li>Edit product via “Edit Product” above.</li>
             <li>Add more images or description to increase sales.</li>
@@ -6,6 +6,7 @@ import { prisma } from "@/lib/db";
 import { getAllCategories } from "@/lib/categories";
 import { notFound } from "next/navigation";
 import type { ProductPayload, ColorSizeStocks } from "@/types/product";
+import { compareAtPrices, variantPriceOverrides } from "@/lib/variantPricing";
 
 const CONVENTIONAL_SIZES = ["S", "M", "L", "XL", "R", "B"] as const;
 
@@ -35,11 +36,34 @@ async function loadProductPayload(id: string): Promise<EditProductData | null> {
       priceUSD: true,
       priceEUR: true,
       priceGBP: true,
+      compareAtNGN: true,
+      compareAtUSD: true,
+      compareAtEUR: true,
+      compareAtGBP: true,
       status: true,
+      publishAt: true,
+      unpublishAt: true,
+      pricingRule: { select: { enabled: true, markupPercent: true, rounding: true } },
       sizeMods: true,
       videoUrl: true,
       variants: {
-        select: { id: true, color: true, size: true, stock: true, weight: true },
+        select: {
+          id: true,
+          color: true,
+          size: true,
+          stock: true,
+          weight: true,
+          sku: true,
+          barcode: true,
+          priceNGN: true,
+          priceUSD: true,
+          priceEUR: true,
+          priceGBP: true,
+          compareAtNGN: true,
+          compareAtUSD: true,
+          compareAtEUR: true,
+          compareAtGBP: true,
+        },
         orderBy: [{ color: "asc" }, { size: "asc" }],
       },
     },
@@ -56,7 +80,14 @@ async function loadProductPayload(id: string): Promise<EditProductData | null> {
           variantId: { in: variantIds },
           order: {
             status: {
-              in: ["Processing", "Shipped", "Delivered"],
+              in: [
+                "Processing",
+                "ReadyForPickup",
+                "PartiallyShipped",
+                "Shipped",
+                "PartiallyDelivered",
+                "Delivered",
+              ],
             },
           },
         },
@@ -149,7 +180,11 @@ async function loadProductPayload(id: string): Promise<EditProductData | null> {
       EUR: product.priceEUR ?? 0,
       GBP: product.priceGBP ?? 0,
     },
+    compareAt: compareAtPrices(product),
     status: product.status,
+    publishAt: product.publishAt?.toISOString() ?? null,
+    unpublishAt: product.unpublishAt?.toISOString() ?? null,
+    pricingRule: product.pricingRule,
     sizeMods: product.sizeMods,
     colors: distinctColors,
     sizeStocks,
@@ -159,6 +194,14 @@ async function loadProductPayload(id: string): Promise<EditProductData | null> {
     ...(hasColors && Object.keys(colorSizeStocks).length
       ? { colorSizeStocks }
       : {}),
+    variantDetails: product.variants.map((v) => ({
+      color: (v.color || "").trim(),
+      size: (v.size || "").trim(),
+      sku: v.sku,
+      barcode: v.barcode,
+      prices: variantPriceOverrides(v),
+      compareAt: compareAtPrices(v),
+    })),
   };
 
   return { product: payload, variantSales };
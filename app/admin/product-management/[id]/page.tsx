@@ -24,6 +24,7 @@ interface ProductBasics {
   status: "Draft" | "Published" | "Archived";
   sizeMods: boolean;
   videoUrl: string | null;
+  lowStockThreshold: number;
   variants: {
     id: string;
     color: string;
@@ -32,6 +33,7 @@ interface ProductBasics {
     sold: number;       // total sold (derived from orders)
     total: number;      // total ever = sold + remaining
     weight: number | null;
+    lowStockThreshold: number | null;
     createdAt: Date;
   }[];
   wishlistCount: number;
@@ -61,6 +63,7 @@ async function getProductBasics(id: string): Promise<ProductBasics | null> {
       status: true,
       sizeMods: true,
       videoUrl: true,
+      lowStockThreshold: true,
       variants: {
         select: {
           id: true,
@@ -68,6 +71,7 @@ async function getProductBasics(id: string): Promise<ProductBasics | null> {
           size: true,
           stock: true,
           weight: true,
+          lowStockThreshold: true,
           createdAt: true,
         },
       },
@@ -88,7 +92,14 @@ async function getProductBasics(id: string): Promise<ProductBasics | null> {
       variant: { productId: id },
       order: {
         status: {
-          in: ["Processing", "Shipped", "Delivered"], // count only non-cancelled
+          in: [
+            "Processing",
+            "ReadyForPickup",
+            "PartiallyShipped",
+            "Shipped",
+            "PartiallyDelivered",
+            "Delivered",
+          ], // count only non-cancelled
         },
       },
     },
@@ -121,6 +132,7 @@ async function getProductBasics(id: string): Promise<ProductBasics | null> {
     status: row.status,
     sizeMods: row.sizeMods,
     videoUrl: row.videoUrl,
+    lowStockThreshold: row.lowStockThreshold,
     variants: row.variants.map((v) => {
       const sold = soldMap.get(v.id) ?? 0;
       const remaining = v.stock;
@@ -133,6 +145,7 @@ async function getProductBasics(id: string): Promise<ProductBasics | null> {
         sold,
         total,
         weight: v.weight,
+        lowStockThreshold: v.lowStockThreshold,
         createdAt: v.createdAt,
       };
     }),
@@ -4,6 +4,7 @@ import { prisma } from "@/lib/db";
 import { getAllCategories } from "@/lib/categories";
 import AddNewProductButton from "@/components/admin/AddNewProductButton";
 import EmptyState from "@/components/admin/EmptyState";
+import ProductCsvTools from "@/components/admin/ProductCsvTools";
 import ProductsTable, { AdminProduct } from "./ProductsTable";
 
 async function getProductsForTable(): Promise<AdminProduct[]> {
@@ -21,6 +22,8 @@ async function getProductsForTable(): Promise<AdminProduct[]> {
       priceEUR: true,
       priceGBP: true,
       status: true,
+      publishAt: true,
+      unpublishAt: true,
       variants: { select: { stock: true } },
       averageRating: true,
       ratingCount: true,
@@ -44,6 +47,8 @@ async function getProductsForTable(): Promise<AdminProduct[]> {
       stockCount: totalStock,
       stockTotal: totalStock,
       status: p.status,
+      publishAt: p.publishAt,
+      unpublishAt: p.unpublishAt,
       averageRating: p.averageRating,
       ratingCount: p.ratingCount,
       createdAt: p.createdAt,
@@ -54,11 +59,12 @@ async function getProductsForTable(): Promise<AdminProduct[]> {
 export default async function ProductsManagementPage() {
   const products = await getProductsForTable();
   const categories = await getAllCategories();
-  const categoryNames = categories.map((c) => c.name);
+  const categoryOptions = categories.map((c) => ({ slug: c.slug, name: c.name }));
 
   return (
     <div className="py-6 px-3 space-y-8">
-      <div className="flex justify-end">
+      <div className="flex flex-col md:flex-row justify-end gap-2">
+        <ProductCsvTools />
         <AddNewProductButton />
       </div>
 
@@ -72,7 +78,7 @@ export default async function ProductsManagementPage() {
       ) : (
         <ProductsTable
           initialData={products}
-          categories={categoryNames}
+          categories={categoryOptions}
         />
       )}
     </div>
@@ -0,0 +1,594 @@
+// app/admin/promotions/PromotionsClient.tsx
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { Pencil, Trash2, Plus } from "lucide-react";
+import toast from "react-hot-toast";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+
+/* ---------------------------------------------------------------- */
+/*                               Types                              */
+/* ---------------------------------------------------------------- */
+
+const CURRENCIES = ["NGN", "USD", "EUR", "GBP"] as const;
+type Currency = (typeof CURRENCIES)[number];
+type PerCurrency = Record<Currency, number | null>;
+
+type PromotionType = "PERCENTAGE" | "FIXED_AMOUNT" | "FREE_SHIPPING" | "BUY_X_GET_Y";
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  PERCENTAGE: "Percentage off",
+  FIXED_AMOUNT: "Fixed amount off",
+  FREE_SHIPPING: "Free shipping",
+  BUY_X_GET_Y: "Buy X get Y free",
+};
+
+export type PromotionRow = {
+  id: string;
+  code: string;
+  description: string;
+  type: PromotionType;
+  percentOff: number | null;
+  amountOff: PerCurrency;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  productIds: string[];
+  categorySlugs: string[];
+  minSpend: PerCurrency;
+  usageLimit: number | null;
+  usageCount: number;
+  perCustomerLimit: number | null;
+  startsAt: string | null; // ISO
+  endsAt: string | null; // ISO
+  active: boolean;
+  redemptions: number;
+};
+
+type FormState = {
+  code: string;
+  description: string;
+  type: PromotionType;
+  percentOff: string;
+  amountOff: Record<Currency, string>;
+  buyQuantity: string;
+  getQuantity: string;
+  productIds: string; // comma separated
+  categorySlugs: string[];
+  minSpend: Record<Currency, string>;
+  usageLimit: string;
+  perCustomerLimit: string;
+  startsAt: string; // datetime-local
+  endsAt: string; // datetime-local
+  active: boolean;
+};
+
+const emptyPerCurrency = (): Record<Currency, string> => ({ NGN: "", USD: "", EUR: "", GBP: "" });
+
+const EMPTY_FORM: FormState = {
+  code: "",
+  description: "",
+  type: "PERCENTAGE",
+  percentOff: "",
+  amountOff: emptyPerCurrency(),
+  buyQuantity: "",
+  getQuantity: "",
+  productIds: "",
+  categorySlugs: [],
+  minSpend: emptyPerCurrency(),
+  usageLimit: "",
+  perCustomerLimit: "",
+  startsAt: "",
+  endsAt: "",
+  active: true,
+};
+
+/* ---------------------------------------------------------------- */
+/*                              Helpers                             */
+/* ---------------------------------------------------------------- */
+
+const str = (n: number | null | undefined) => (n === null || n === undefined ? "" : String(n));
+const num = (s: string) => (s.trim() === "" ? null : Number(s));
+
+/** ISO → value for <input type="datetime-local"> (local time) */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const off = d.getTimezoneOffset() * 60_000;
+  return new Date(d.getTime() - off).toISOString().slice(0, 16);
+}
+
+function rowToForm(p: PromotionRow): FormState {
+  return {
+    code: p.code,
+    description: p.description,
+    type: p.type,
+    percentOff: str(p.percentOff),
+    amountOff: {
+      NGN: str(p.amountOff.NGN), USD: str(p.amountOff.USD),
+      EUR: str(p.amountOff.EUR), GBP: str(p.amountOff.GBP),
+    },
+    buyQuantity: str(p.buyQuantity),
+    getQuantity: str(p.getQuantity),
+    productIds: p.productIds.join(", "),
+    categorySlugs: p.categorySlugs,
+    minSpend: {
+      NGN: str(p.minSpend.NGN), USD: str(p.minSpend.USD),
+      EUR: str(p.minSpend.EUR), GBP: str(p.minSpend.GBP),
+    },
+    usageLimit: str(p.usageLimit),
+    perCustomerLimit: str(p.perCustomerLimit),
+    startsAt: toLocalInput(p.startsAt),
+    endsAt: toLocalInput(p.endsAt),
+    active: p.active,
+  };
+}
+
+function formToPayload(f: FormState) {
+  const perCurrency = (r: Record<Currency, string>) =>
+    Object.fromEntries(CURRENCIES.map((c) => [c, num(r[c])]));
+  return {
+    code: f.code.trim().toUpperCase(),
+    description: f.description.trim() || null,
+    type: f.type,
+    percentOff: num(f.percentOff),
+    amountOff: perCurrency(f.amountOff),
+    buyQuantity: num(f.buyQuantity),
+    getQuantity: num(f.getQuantity),
+    productIds: f.productIds.split(",").map((s) => s.trim()).filter(Boolean),
+    categorySlugs: f.categorySlugs,
+    minSpend: perCurrency(f.minSpend),
+    usageLimit: num(f.usageLimit),
+    perCustomerLimit: num(f.perCustomerLimit),
+    startsAt: f.startsAt ? new Date(f.startsAt).toISOString() : null,
+    endsAt: f.endsAt ? new Date(f.endsAt).toISOString() : null,
+    active: f.active,
+  };
+}
+
+function describeValue(p: PromotionRow): string {
+  switch (p.type) {
+    case "PERCENTAGE":
+      return `${p.percentOff ?? 0}% off`;
+    case "FIXED_AMOUNT":
+      return CURRENCIES.filter((c) => p.amountOff[c] !== null)
+        .map((c) => `${c} ${p.amountOff[c]!.toLocaleString()}`)
+        .join(" / ");
+    case "FREE_SHIPPING":
+      return "Free delivery";
+    case "BUY_X_GET_Y":
+      return `Buy ${p.buyQuantity ?? 0} get ${p.getQuantity ?? 0}`;
+  }
+}
+
+function describeWindow(p: PromotionRow): string {
+  const fmt = (iso: string) => new Date(iso).toLocaleDateString();
+  if (!p.startsAt && !p.endsAt) return "Always";
+  if (p.startsAt && p.endsAt) return `${fmt(p.startsAt)} – ${fmt(p.endsAt)}`;
+  return p.startsAt ? `From ${fmt(p.startsAt)}` : `Until ${fmt(p.endsAt!)}`;
+}
+
+/** Flatten zod `flatten()` output into a single toast-friendly line. */
+function errorMessage(err: any, fallback: string): string {
+  if (typeof err === "string") return err;
+  const fieldErrors = err?.fieldErrors as Record<string, string[]> | undefined;
+  const first = fieldErrors && Object.values(fieldErrors).flat()[0];
+  return first || err?.formErrors?.[0] || fallback;
+}
+
+/* ---------------------------------------------------------------- */
+/*                             Component                            */
+/* ---------------------------------------------------------------- */
+
+export default function PromotionsClient({
+  promotions: initial,
+  categories,
+}: {
+  promotions: PromotionRow[];
+  categories: { slug: string; name: string }[];
+}) {
+  const router = useRouter();
+  const [rows, setRows] = useState<PromotionRow[]>(initial);
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const set = <K extends keyof FormState>(k: K, v: FormState[K]) =>
+    setForm((f) => ({ ...f, [k]: v }));
+
+  function openCreate() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setOpen(true);
+  }
+
+  function openEdit(p: PromotionRow) {
+    setEditingId(p.id);
+    setForm(rowToForm(p));
+    setOpen(true);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const res = await fetch(
+        editingId ? `/api/admin/promotions/${editingId}` : "/api/admin/promotions",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(formToPayload(form)),
+        }
+      );
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(errorMessage(json?.error, "Failed to save promotion."));
+        return;
+      }
+      toast.success(editingId ? "Promotion updated." : "Promotion created.");
+      setOpen(false);
+      router.refresh();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(p: PromotionRow, next: boolean) {
+    setRows((rs) => rs.map((r) => (r.id === p.id ? { ...r, active: next } : r)));
+    setPendingId(p.id);
+    const res = await fetch(`/api/admin/promotions/${p.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ active: next }),
+    });
+    setPendingId(null);
+    if (!res.ok) {
+      setRows((rs) => rs.map((r) => (r.id === p.id ? { ...r, active: !next } : r)));
+      toast.error("Failed to update status.");
+      return;
+    }
+    toast.success(`${p.code} ${next ? "activated" : "deactivated"}.`);
+  }
+
+  async function handleDelete(p: PromotionRow) {
+    if (!confirm(`Delete “${p.code}”? This cannot be undone.`)) return;
+    const res = await fetch(`/api/admin/promotions/${p.id}`, { method: "DELETE" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      toast.error(json?.error || "Failed to delete promotion.");
+      return;
+    }
+    setRows((rs) => rs.filter((r) => r.id !== p.id));
+    toast.success("Promotion deleted.");
+  }
+
+  // keep local rows in sync after router.refresh()
+  useEffect(() => setRows(initial), [initial]);
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-2">
+        <h1 className="text-3xl md:text-4xl font-extrabold tracking-tight">Promotions</h1>
+        <p className="text-muted-foreground">
+          Discount codes for online checkout and offline sales.
+        </p>
+      </header>
+
+      <Button size="lg" className="rounded-full px-5" onClick={openCreate}>
+        <Plus className="mr-2 h-4 w-4" /> New Promotion
+      </Button>
+
+      <div className="overflow-hidden rounded-xl border bg-background shadow-sm">
+        <div className="overflow-x-auto px-4 md:px-6">
+          <Table className="min-w-[980px]">
+            <TableHeader>
+              <TableRow className="bg-muted/40">
+                <TableHead>Code</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead className="text-center">Used</TableHead>
+                <TableHead>Window</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right pr-2 md:pr-6">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+
+            <TableBody>
+              {rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="py-10 text-center text-sm text-muted-foreground">
+                    No promotions yet.
+                  </TableCell>
+                </TableRow>
+              )}
+              {rows.map((p) => (
+                <TableRow key={p.id} className="hover:bg-muted/30">
+                  <TableCell>
+                    <div className="font-mono font-semibold">{p.code}</div>
+                    {p.description && (
+                      <p className="text-xs text-muted-foreground line-clamp-1">{p.description}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{TYPE_LABELS[p.type]}</TableCell>
+                  <TableCell className="text-sm">{describeValue(p)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {p.productIds.length === 0 && p.categorySlugs.length === 0
+                      ? "Whole cart"
+                      : [
+                          p.categorySlugs.length ? `${p.categorySlugs.length} categories` : "",
+                          p.productIds.length ? `${p.productIds.length} products` : "",
+                        ]
+                          .filter(Boolean)
+                          .join(", ")}
+                  </TableCell>
+                  <TableCell className="text-center tabular-nums">
+                    {p.usageCount}
+                    {p.usageLimit !== null ? ` / ${p.usageLimit}` : ""}
+                  </TableCell>
+                  <TableCell className="text-sm">{describeWindow(p)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={p.active}
+                      disabled={pendingId === p.id}
+                      onCheckedChange={(v) => handleToggle(p, v)}
+                      aria-label={`Toggle ${p.code}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right pr-2 md:pr-6">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" className="rounded-full" onClick={() => openEdit(p)}>
+                        <Pencil className="mr-2 h-4 w-4" /> Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        className="rounded-full"
+                        disabled={p.redemptions > 0}
+                        title={p.redemptions > 0 ? "Used codes can only be deactivated" : undefined}
+                        onClick={() => handleDelete(p)}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" /> Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Separator />
+        <div className="px-6 py-4 text-xs text-muted-foreground">
+          Total: {rows.length} {rows.length === 1 ? "promotion" : "promotions"}
+        </div>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Promotion" : "New Promotion"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="promo-code">Code</Label>
+              <Input
+                id="promo-code"
+                value={form.code}
+                onChange={(e) => set("code", e.target.value.toUpperCase())}
+                placeholder="e.g. SUMMER20"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(v) => set("type", v as PromotionType)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TYPE_LABELS) as PromotionType[]).map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {TYPE_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="promo-desc">Description (shown to customers)</Label>
+              <Input
+                id="promo-desc"
+                value={form.description}
+                onChange={(e) => set("description", e.target.value)}
+              />
+            </div>
+
+            {form.type === "PERCENTAGE" && (
+              <div className="space-y-1">
+                <Label htmlFor="promo-pct">Percent off</Label>
+                <Input
+                  id="promo-pct"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={form.percentOff}
+                  onChange={(e) => set("percentOff", e.target.value)}
+                />
+              </div>
+            )}
+
+            {form.type === "FIXED_AMOUNT" && (
+              <div className="space-y-1 md:col-span-2">
+                <Label>Amount off (per currency — leave blank to disable a currency)</Label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {CURRENCIES.map((c) => (
+                    <Input
+                      key={c}
+                      type="number"
+                      min={0}
+                      placeholder={c}
+                      value={form.amountOff[c]}
+                      onChange={(e) => set("amountOff", { ...form.amountOff, [c]: e.target.value })}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {form.type === "BUY_X_GET_Y" && (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="promo-buy">Buy quantity</Label>
+                  <Input
+                    id="promo-buy"
+                    type="number"
+                    min={1}
+                    value={form.buyQuantity}
+                    onChange={(e) => set("buyQuantity", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="promo-get">Get free quantity</Label>
+                  <Input
+                    id="promo-get"
+                    type="number"
+                    min={1}
+                    value={form.getQuantity}
+                    onChange={(e) => set("getQuantity", e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="space-y-1 md:col-span-2">
+              <Label>Minimum spend (per currency, optional)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {CURRENCIES.map((c) => (
+                  <Input
+                    key={c}
+                    type="number"
+                    min={0}
+                    placeholder={c}
+                    value={form.minSpend[c]}
+                    onChange={(e) => set("minSpend", { ...form.minSpend, [c]: e.target.value })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1 md:col-span-2">
+              <Label>Categories (none selected = all)</Label>
+              <div className="flex flex-wrap gap-2">
+                {categories.map((c) => {
+                  const on = form.categorySlugs.includes(c.slug);
+                  return (
+                    <button
+                      key={c.slug}
+                      type="button"
+                      onClick={() =>
+                        set(
+                          "categorySlugs",
+                          on
+                            ? form.categorySlugs.filter((s) => s !== c.slug)
+                            : [...form.categorySlugs, c.slug]
+                        )
+                      }
+                      className={`rounded-full border px-3 py-1 text-xs transition ${
+                        on ? "bg-brand text-white border-brand" : "hover:bg-muted"
+                      }`}
+                    >
+                      {c.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="promo-products">Product IDs (comma separated, optional)</Label>
+              <Input
+                id="promo-products"
+                value={form.productIds}
+                onChange={(e) => set("productIds", e.target.value)}
+                placeholder="M-PROD-001, M-PROD-014"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="promo-limit">Total usage limit</Label>
+              <Input
+                id="promo-limit"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={form.usageLimit}
+                onChange={(e) => set("usageLimit", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promo-per-customer">Uses per customer</Label>
+              <Input
+                id="promo-per-customer"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={form.perCustomerLimit}
+                onChange={(e) => set("perCustomerLimit", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="promo-start">Starts</Label>
+              <Input
+                id="promo-start"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => set("startsAt", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promo-end">Ends</Label>
+              <Input
+                id="promo-end"
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => set("endsAt", e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center gap-2 md:col-span-2">
+              <Switch checked={form.active} onCheckedChange={(v) => set("active", v)} id="promo-active" />
+              <Label htmlFor="promo-active">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form.code.trim()}>
+              {saving ? "Saving…" : editingId ? "Save Changes" : "Create Promotion"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+}
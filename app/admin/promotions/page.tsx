@@ -0,0 +1,63 @@
+// app/admin/promotions/page.tsx
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/db";
+import { getAdminSession } from "@/lib/getAdminSession";
+import PromotionsClient, { PromotionRow } from "./PromotionsClient";
+
+export const dynamic = "force-dynamic";
+
+export default async function PromotionsPage() {
+  const session = await getAdminSession();
+  if (!session || !session.user?.email || session.user.role === "customer") {
+    const cb = encodeURIComponent("/admin/promotions");
+    return redirect(`/admin-login?callbackUrl=${cb}`);
+  }
+
+  const [promos, categories] = await Promise.all([
+    prisma.promotion.findMany({
+      orderBy: { createdAt: "desc" },
+      include: { _count: { select: { redemptions: true } } },
+    }),
+    prisma.category.findMany({
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+      select: { slug: true, name: true },
+    }),
+  ]);
+
+  const rows: PromotionRow[] = promos.map((p) => ({
+    id: p.id,
+    code: p.code,
+    description: p.description ?? "",
+    type: p.type,
+    percentOff: p.percentOff,
+    amountOff: {
+      NGN: p.amountOffNGN,
+      USD: p.amountOffUSD,
+      EUR: p.amountOffEUR,
+      GBP: p.amountOffGBP,
+    },
+    buyQuantity: p.buyQuantity,
+    getQuantity: p.getQuantity,
+    productIds: p.productIds,
+    categorySlugs: p.categorySlugs,
+    minSpend: {
+      NGN: p.minSpendNGN,
+      USD: p.minSpendUSD,
+      EUR: p.minSpendEUR,
+      GBP: p.minSpendGBP,
+    },
+    usageLimit: p.usageLimit,
+    usageCount: p.usageCount,
+    perCustomerLimit: p.perCustomerLimit,
+    startsAt: p.startsAt ? p.startsAt.toISOString() : null,
+    endsAt: p.endsAt ? p.endsAt.toISOString() : null,
+    active: p.active,
+    redemptions: p._count.redemptions,
+  }));
+
+  return (
+    <div className="px-6 md:px-10 lg:px-16 py-8">
+      <PromotionsClient promotions={rows} categories={categories} />
+    </div>
+  );
+}
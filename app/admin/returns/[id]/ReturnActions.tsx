@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+type ReturnStatus = "Requested" | "Approved" | "Rejected" | "LabelCreated" | "Received" | "Completed";
+
+export default function ReturnActions({
+  id,
+  status,
+  canRefund,
+  hasRefundLines,
+  items,
+}: {
+  id: string;
+  status: ReturnStatus;
+  canRefund: boolean;
+  hasRefundLines: boolean;
+  items: { id: string; name: string; variant: string; quantity: number }[];
+}) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState("");
+  const [received, setReceived] = useState<Record<string, { qty: string; restock: boolean }>>(() =>
+    Object.fromEntries(items.map((i) => [i.id, { qty: String(i.quantity), restock: true }]))
+  );
+
+  async function post(path: string, body: unknown, success: string) {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/returns/${id}/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body ?? {}),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Request failed");
+      toast.success(success);
+      router.refresh();
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (status === "Rejected" || status === "Completed") return null;
+
+  return (
+    <div className="border rounded bg-white p-4 space-y-4 text-sm">
+      <h2 className="font-semibold">Next step</h2>
+
+      {status === "Requested" && (
+        <div className="space-y-3">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note to the customer (required when rejecting)"
+            maxLength={1000}
+          />
+          <div className="flex gap-2">
+            <Button
+              disabled={busy}
+              onClick={() => post("review", { approve: true, note }, "Return approved")}
+            >
+              Approve
+            </Button>
+            <Button
+              variant="outline"
+              disabled={busy || !note.trim()}
+              onClick={() => post("review", { approve: false, note }, "Return rejected")}
+            >
+              Reject
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {status === "Approved" && (
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            variant="outline"
+            disabled={busy}
+            onClick={() => post("label", {}, "Return pickup booked")}
+          >
+            Create Shipbubble return label
+          </Button>
+          <span className="text-gray-500">Optional — skip if the customer drops the parcel off.</span>
+        </div>
+      )}
+
+      {(status === "Approved" || status === "LabelCreated") && (
+        <div className="space-y-3">
+          <p className="text-gray-600">Inspect the parcel and record what arrived.</p>
+          {items.map((i) => (
+            <div key={i.id} className="flex flex-wrap items-center gap-3">
+              <span className="flex-1 min-w-48">
+                {i.name} <span className="text-gray-500">({i.variant})</span>
+              </span>
+              <label className="flex items-center gap-2">
+                Received
+                <Input
+                  type="number"
+                  min={0}
+                  max={i.quantity}
+                  value={received[i.id]?.qty ?? "0"}
+                  onChange={(e) =>
+                    setReceived((r) => ({ ...r, [i.id]: { ...r[i.id], qty: e.target.value } }))
+                  }
+                  className="w-20"
+                />
+                / {i.quantity}
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={received[i.id]?.restock ?? false}
+                  onChange={(e) =>
+                    setReceived((r) => ({ ...r, [i.id]: { ...r[i.id], restock: e.target.checked } }))
+                  }
+                />
+                Resellable — restock
+              </label>
+            </div>
+          ))}
+          <Button
+            disabled={busy}
+            onClick={() =>
+              post(
+                "receive",
+                {
+                  items: items.map((i) => ({
+                    id: i.id,
+                    receivedQty: Number(received[i.id]?.qty ?? 0),
+                    restock: received[i.id]?.restock ?? false,
+                  })),
+                },
+                "Return received"
+              )
+            }
+          >
+            Mark as received
+          </Button>
+        </div>
+      )}
+
+      {status === "Received" && (
+        <div className="space-y-2">
+          <p className="text-gray-600">
+            Refunds the received refund lines and creates a replacement order for the received exchange lines.
+          </p>
+          {hasRefundLines && !canRefund && (
+            <p className="text-red-600">You need refund permission to complete this return.</p>
+          )}
+          <Button
+            disabled={busy || (hasRefundLines && !canRefund)}
+            onClick={() => post("resolve", {}, "Return completed")}
+          >
+            Complete return
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
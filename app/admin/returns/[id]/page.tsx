@@ -0,0 +1,142 @@
+// app/admin/returns/[id]/page.tsx
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { getAdminSession } from "@/lib/getAdminSession";
+import { can } from "@/lib/permissions";
+import { getReturnRequest, ReturnError } from "@/lib/returns";
+import ReturnActions from "./ReturnActions";
+
+export const dynamic = "force-dynamic";
+
+export default async function ReturnDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const session = await getAdminSession();
+  if (!session || !session.user?.email || session.user.role === "customer") {
+    const cb = encodeURIComponent(`/admin/returns/${id}`);
+    return redirect(`/admin-login?callbackUrl=${cb}`);
+  }
+  if (!can(session.user.role, "returns.manage")) redirect("/admin");
+
+  const rma = await getReturnRequest(id).catch((err) => {
+    if (err instanceof ReturnError && err.statusCode === 404) notFound();
+    throw err;
+  });
+
+  const customer = rma.order.customer
+    ? `${rma.order.customer.firstName} ${rma.order.customer.lastName} · ${rma.order.customer.email}`
+    : (() => {
+        const gi = (rma.order.guestInfo ?? {}) as { firstName?: string; lastName?: string; email?: string };
+        return `${gi.firstName ?? ""} ${gi.lastName ?? ""} · ${gi.email ?? "—"} (guest)`;
+      })();
+
+  return (
+    <div className="px-6 md:px-10 lg:px-16 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Link href="/admin/returns" className="text-sm text-gray-600 hover:underline">
+            ← Returns
+          </Link>
+          <h1 className="text-2xl font-bold">
+            Return for order <span className="font-mono">{rma.orderId}</span>
+          </h1>
+          <p className="text-sm text-gray-600">
+            {customer} · requested {rma.createdAt.toLocaleString()}
+          </p>
+        </div>
+        <span className="px-3 py-1.5 rounded border text-sm font-medium">{rma.status}</span>
+      </div>
+
+      <div className="border rounded bg-white divide-y">
+        {rma.items.map((it) => (
+          <div key={it.id} className="p-4 space-y-2 text-sm">
+            <div className="flex flex-wrap justify-between gap-2">
+              <p className="font-medium">
+                {it.quantity} × {it.orderItem.name}{" "}
+                <span className="text-gray-500">
+                  ({[it.orderItem.color, it.orderItem.size].filter(Boolean).join(" / ")})
+                </span>
+              </p>
+              <p>
+                {it.type === "Exchange"
+                  ? `Exchange for size ${it.exchangeVariant?.size ?? "—"} (${it.exchangeVariant?.stock ?? 0} in stock)`
+                  : "Refund"}
+              </p>
+            </div>
+            <p className="text-gray-700">“{it.reason}”</p>
+            {it.photos.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {it.photos.map((url) => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer">
+                    <img src={url} alt="Customer photo" className="w-20 h-20 object-cover rounded border" />
+                  </a>
+                ))}
+              </div>
+            )}
+            {it.receivedQty != null && (
+              <p className="text-gray-600">
+                Received {it.receivedQty} · {it.restocked ? "restocked" : "not restocked"}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 text-sm">
+        <div className="border rounded bg-white p-4 space-y-1">
+          <h2 className="font-semibold">Notes</h2>
+          <p>Customer: {rma.note || "—"}</p>
+          <p>Staff: {rma.staffNote || "—"}</p>
+          {rma.reviewedBy && (
+            <p className="text-gray-500">
+              Reviewed by {rma.reviewedBy.firstName} {rma.reviewedBy.lastName}
+              {rma.reviewedAt && ` on ${rma.reviewedAt.toLocaleString()}`}
+            </p>
+          )}
+        </div>
+        <div className="border rounded bg-white p-4 space-y-1">
+          <h2 className="font-semibold">Logistics &amp; outcome</h2>
+          <p>
+            Return label:{" "}
+            {rma.labelCourierName
+              ? `${rma.labelCourierName}${rma.labelTrackingNumber ? ` · ${rma.labelTrackingNumber}` : ""}`
+              : "—"}
+            {rma.labelTrackingUrl && (
+              <>
+                {" "}
+                <a href={rma.labelTrackingUrl} target="_blank" rel="noreferrer" className="underline">
+                  Track
+                </a>
+              </>
+            )}
+          </p>
+          <p>Received: {rma.receivedAt ? rma.receivedAt.toLocaleString() : "—"}</p>
+          <p>
+            Refund:{" "}
+            {rma.refund ? `${rma.refund.currency} ${rma.refund.amount.toFixed(2)} (${rma.refund.status})` : "—"}
+          </p>
+          <p>
+            Replacement order:{" "}
+            {rma.replacementOrderId ? <span className="font-mono">{rma.replacementOrderId}</span> : "—"}
+          </p>
+        </div>
+      </div>
+
+      <ReturnActions
+        id={rma.id}
+        status={rma.status}
+        canRefund={can(session.user.role, "orders.refund")}
+        hasRefundLines={rma.items.some((i) => i.type === "Refund" && (i.receivedQty ?? 0) > 0)}
+        items={rma.items.map((it) => ({
+          id: it.id,
+          name: it.orderItem.name,
+          variant: [it.orderItem.color, it.orderItem.size].filter(Boolean).join(" / "),
+          quantity: it.quantity,
+        }))}
+      />
+    </div>
+  );
+}
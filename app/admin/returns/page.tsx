@@ -0,0 +1,100 @@
+// app/admin/returns/page.tsx
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getAdminSession } from "@/lib/getAdminSession";
+import { can } from "@/lib/permissions";
+import { listReturnRequests, RETURN_STATUSES } from "@/lib/returns";
+import type { ReturnStatus } from "@/lib/generated/prisma-client/client";
+
+export const dynamic = "force-dynamic";
+
+export default async function ReturnsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string }>;
+}) {
+  const session = await getAdminSession();
+  if (!session || !session.user?.email || session.user.role === "customer") {
+    const cb = encodeURIComponent("/admin/returns");
+    return redirect(`/admin-login?callbackUrl=${cb}`);
+  }
+  if (!can(session.user.role, "returns.manage")) redirect("/admin");
+
+  const { status: rawStatus } = await searchParams;
+  const status = RETURN_STATUSES.includes(rawStatus as ReturnStatus)
+    ? (rawStatus as ReturnStatus)
+    : undefined;
+  const rows = await listReturnRequests(status);
+
+  const customerName = (o: (typeof rows)[number]["order"]) => {
+    if (o.customer) return `${o.customer.firstName} ${o.customer.lastName}`;
+    const gi = (o.guestInfo ?? {}) as { firstName?: string; lastName?: string };
+    return `${gi.firstName ?? ""} ${gi.lastName ?? ""}`.trim() || "Guest";
+  };
+
+  return (
+    <div className="px-6 md:px-10 lg:px-16 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Returns &amp; Exchanges</h1>
+        <p className="text-sm text-gray-600">
+          Customer return and size-exchange requests, from review through to refund or replacement.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        {[undefined, ...RETURN_STATUSES].map((s) => (
+          <Link
+            key={s ?? "all"}
+            href={s ? `/admin/returns?status=${s}` : "/admin/returns"}
+            className={`px-3 py-1.5 rounded border ${
+              s === status ? "bg-gray-900 text-white" : "hover:bg-gray-50"
+            }`}
+          >
+            {s ?? "All"}
+          </Link>
+        ))}
+      </div>
+
+      <div className="border rounded bg-white overflow-auto">
+        {rows.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500">No return requests.</div>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="text-left p-3 border-b">Requested</th>
+                <th className="text-left p-3 border-b">Order</th>
+                <th className="text-left p-3 border-b">Customer</th>
+                <th className="text-left p-3 border-b">Items</th>
+                <th className="text-left p-3 border-b">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.id} className="odd:bg-gray-50">
+                  <td className="p-3 border-b whitespace-nowrap">
+                    <Link href={`/admin/returns/${r.id}`} className="underline">
+                      {r.createdAt.toLocaleString()}
+                    </Link>
+                  </td>
+                  <td className="p-3 border-b font-mono">{r.order.id}</td>
+                  <td className="p-3 border-b">
+                    {customerName(r.order)}
+                    {r.order.customer && (
+                      <span className="block text-xs text-gray-500">{r.order.customer.email}</span>
+                    )}
+                  </td>
+                  <td className="p-3 border-b">
+                    {r.items.reduce((s, i) => s + i.quantity, 0)} ·{" "}
+                    {[...new Set(r.items.map((i) => i.type))].join(" & ")}
+                  </td>
+                  <td className="p-3 border-b">{r.status}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
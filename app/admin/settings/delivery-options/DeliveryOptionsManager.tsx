@@ -0,0 +1,615 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Trash2, Plus, Loader2, Save } from "lucide-react";
+import toast from "react-hot-toast";
+import BackButton from "@/components/BackButton";
+
+/* ---------------------------------------------------------------- */
+/*                               Types                              */
+/* ---------------------------------------------------------------- */
+
+const CURRENCIES = ["NGN", "USD", "EUR", "GBP"] as const;
+type Currency = (typeof CURRENCIES)[number];
+/** Input values per currency; "" means not set. */
+type Money = Record<Currency, string>;
+
+type PricingMode = "FIXED" | "EXTERNAL" | "PICKUP";
+
+const MODE_LABELS: Record<PricingMode, string> = {
+  FIXED: "Fixed price (zones)",
+  EXTERNAL: "Live carrier rate",
+  PICKUP: "Store pickup",
+};
+
+interface BandForm {
+  maxWeightKg: string;
+  fee: Money;
+}
+
+interface ZoneForm {
+  name: string;
+  countries: string; // comma-separated ISO2
+  states: string; // comma-separated, empty = whole country
+  fee: Money;
+  freeOver: Money;
+  active: boolean;
+  weightBands: BandForm[];
+}
+
+interface OptionForm {
+  id: string;
+  name: string;
+  provider: string;
+  carrier: "" | "SHIPBUBBLE" | "FAKE";
+  pricingMode: PricingMode;
+  baseFee: string;
+  baseCurrency: "" | Currency;
+  active: boolean;
+  orderCount: number;
+  zones: ZoneForm[];
+}
+
+const EMPTY_MONEY: Money = { NGN: "", USD: "", EUR: "", GBP: "" };
+
+const EMPTY_ZONE: ZoneForm = {
+  name: "",
+  countries: "NG",
+  states: "",
+  fee: EMPTY_MONEY,
+  freeOver: EMPTY_MONEY,
+  active: true,
+  weightBands: [],
+};
+
+const EMPTY_OPTION: OptionForm = {
+  id: "new",
+  name: "",
+  provider: "",
+  carrier: "",
+  pricingMode: "FIXED",
+  baseFee: "",
+  baseCurrency: "NGN",
+  active: true,
+  orderCount: 0,
+  zones: [],
+};
+
+/* ---------------------------------------------------------------- */
+/*                              Helpers                             */
+/* ---------------------------------------------------------------- */
+
+const str = (n: number | null | undefined) => (n == null ? "" : String(n));
+const num = (s: string) => (s.trim() === "" ? null : Number(s));
+const list = (s: string) =>
+  s
+    .split(",")
+    .map((x) => x.trim())
+    .filter(Boolean);
+
+function moneyFrom(row: any, prefix: "fee" | "freeOver"): Money {
+  return {
+    NGN: str(row[`${prefix}NGN`]),
+    USD: str(row[`${prefix}USD`]),
+    EUR: str(row[`${prefix}EUR`]),
+    GBP: str(row[`${prefix}GBP`]),
+  };
+}
+
+function moneyPayload(m: Money) {
+  return { NGN: num(m.NGN), USD: num(m.USD), EUR: num(m.EUR), GBP: num(m.GBP) };
+}
+
+/** API rows carry per-currency columns and nulls; the inputs want strings. */
+function toForm(json: any): OptionForm {
+  return {
+    id: json.id,
+    name: json.name,
+    provider: json.provider ?? "",
+    carrier: json.carrier ?? "",
+    pricingMode: json.pricingMode,
+    baseFee: str(json.baseFee),
+    baseCurrency: json.baseCurrency ?? "",
+    active: json.active,
+    orderCount: json.orderCount ?? 0,
+    zones: (json.zones ?? []).map((z: any) => ({
+      name: z.name,
+      countries: z.countries.join(", "),
+      states: z.states.join(", "),
+      fee: moneyFrom(z, "fee"),
+      freeOver: moneyFrom(z, "freeOver"),
+      active: z.active,
+      weightBands: (z.weightBands ?? []).map((b: any) => ({
+        maxWeightKg: str(b.maxWeightKg),
+        fee: moneyFrom(b, "fee"),
+      })),
+    })),
+  };
+}
+
+function toPayload(o: OptionForm) {
+  return {
+    name: o.name,
+    provider: o.provider || null,
+    carrier: o.carrier || null,
+    pricingMode: o.pricingMode,
+    baseFee: num(o.baseFee),
+    baseCurrency: o.baseCurrency || null,
+    active: o.active,
+    zones:
+      o.pricingMode === "FIXED"
+        ? o.zones.map((z) => ({
+            name: z.name,
+            countries: list(z.countries),
+            states: list(z.states),
+            fee: moneyPayload(z.fee),
+            freeOver: moneyPayload(z.freeOver),
+            active: z.active,
+            weightBands: z.weightBands.map((b) => ({
+              maxWeightKg: Number(b.maxWeightKg),
+              fee: moneyPayload(b.fee),
+            })),
+          }))
+        : [],
+  };
+}
+
+/** Flatten zod `flatten()` output into a single toast-friendly line. */
+function errorMessage(err: any, fallback: string): string {
+  if (typeof err === "string") return err;
+  const fieldErrors = err?.fieldErrors as Record<string, string[]> | undefined;
+  const first = fieldErrors && Object.values(fieldErrors).flat()[0];
+  return first || err?.formErrors?.[0] || fallback;
+}
+
+/* ---------------------------------------------------------------- */
+/*                            Sub-editors                           */
+/* ---------------------------------------------------------------- */
+
+function MoneyInputs({
+  label,
+  value,
+  onChange,
+  required,
+}: {
+  label: string;
+  value: Money;
+  onChange: (v: Money) => void;
+  required?: boolean;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-gray-600">{label}</Label>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {CURRENCIES.map((c) => (
+          <Input
+            key={c}
+            type="number"
+            min={0}
+            step="0.01"
+            value={value[c]}
+            placeholder={c === "NGN" && required ? "NGN *" : c}
+            onChange={(e) => onChange({ ...value, [c]: e.target.value })}
+            className="border-gray-300 focus:border-brand focus:ring-brand"
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ZoneEditor({
+  zone,
+  onChange,
+  onRemove,
+}: {
+  zone: ZoneForm;
+  onChange: (z: ZoneForm) => void;
+  onRemove: () => void;
+}) {
+  const set = (patch: Partial<ZoneForm>) => onChange({ ...zone, ...patch });
+  const setBand = (i: number, patch: Partial<BandForm>) =>
+    set({ weightBands: zone.weightBands.map((b, j) => (j === i ? { ...b, ...patch } : b)) });
+
+  return (
+    <div className="rounded-md border border-gray-200 bg-gray-50 p-4 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Input
+          value={zone.name}
+          placeholder="Zone name, e.g. Lagos"
+          onChange={(e) => set({ name: e.target.value })}
+          className="max-w-xs border-gray-300 focus:border-brand focus:ring-brand"
+        />
+        <div className="flex items-center gap-3">
+          <Label className="text-sm text-gray-700">Active</Label>
+          <Switch checked={zone.active} onCheckedChange={(v) => set({ active: v })} />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-red-600 hover:text-brand"
+            onClick={onRemove}
+            aria-label={`Remove ${zone.name || "zone"}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Countries (ISO2, comma-separated) *</Label>
+          <Input
+            value={zone.countries}
+            placeholder="NG, GH"
+            onChange={(e) => set({ countries: e.target.value })}
+            className="border-gray-300 focus:border-brand focus:ring-brand"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">States (blank = whole country)</Label>
+          <Input
+            value={zone.states}
+            placeholder="Lagos, Ogun"
+            onChange={(e) => set({ states: e.target.value })}
+            className="border-gray-300 focus:border-brand focus:ring-brand"
+          />
+        </div>
+      </div>
+
+      <MoneyInputs label="Fee (other currencies fall back to NGN, converted)" value={zone.fee} onChange={(fee) => set({ fee })} required />
+      <MoneyInputs label="Free shipping when items subtotal reaches" value={zone.freeOver} onChange={(freeOver) => set({ freeOver })} />
+
+      <div className="space-y-2">
+        <Label className="text-xs text-gray-600">Weight bands (lightest matching band replaces the fee)</Label>
+        {zone.weightBands.map((b, i) => (
+          <div key={i} className="flex items-end gap-2">
+            <div className="w-28 space-y-1">
+              <span className="text-xs text-gray-500">Up to (kg)</span>
+              <Input
+                type="number"
+                min={0}
+                step="0.1"
+                value={b.maxWeightKg}
+                onChange={(e) => setBand(i, { maxWeightKg: e.target.value })}
+                className="border-gray-300 focus:border-brand focus:ring-brand"
+              />
+            </div>
+            <div className="flex-1">
+              <MoneyInputs label="" value={b.fee} onChange={(fee) => setBand(i, { fee })} required />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-red-600 hover:text-brand"
+              onClick={() => set({ weightBands: zone.weightBands.filter((_, j) => j !== i) })}
+              aria-label="Remove weight band"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => set({ weightBands: [...zone.weightBands, { maxWeightKg: "", fee: EMPTY_MONEY }] })}
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Add weight band
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function OptionFields({
+  value,
+  onChange,
+}: {
+  value: OptionForm;
+  onChange: (patch: Partial<OptionForm>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Name *</Label>
+          <Input
+            value={value.name}
+            placeholder="Standard delivery"
+            onChange={(e) => onChange({ name: e.target.value })}
+            className="border-gray-300 focus:border-brand focus:ring-brand"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Provider</Label>
+          <Input
+            value={value.provider}
+            placeholder="LocalCourier"
+            onChange={(e) => onChange({ provider: e.target.value })}
+            className="border-gray-300 focus:border-brand focus:ring-brand"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Pricing</Label>
+          <Select
+            value={value.pricingMode}
+            onValueChange={(v) => onChange({ pricingMode: v as PricingMode })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MODE_LABELS) as PricingMode[]).map((m) => (
+                <SelectItem key={m} value={m}>
+                  {MODE_LABELS[m]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Label carrier</Label>
+          <Select
+            value={value.carrier || "DEFAULT"}
+            onValueChange={(v) => onChange({ carrier: v === "DEFAULT" ? "" : (v as OptionForm["carrier"]) })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="DEFAULT">Store default</SelectItem>
+              <SelectItem value="SHIPBUBBLE">Shipbubble</SelectItem>
+              <SelectItem value="FAKE">Test carrier</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {value.pricingMode !== "EXTERNAL" && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">
+                Base fee{value.pricingMode === "FIXED" ? " (used when there are no zones)" : ""}
+              </Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={value.baseFee}
+                onChange={(e) => onChange({ baseFee: e.target.value })}
+                className="border-gray-300 focus:border-brand focus:ring-brand"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Base fee currency</Label>
+              <Select
+                value={value.baseCurrency || "NGN"}
+                onValueChange={(v) => onChange({ baseCurrency: v as Currency })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((c) => (
+                    <SelectItem key={c} value={c}>
+                      {c}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </div>
+
+      {value.pricingMode === "PICKUP" && (
+        <p className="text-xs text-gray-600">
+          Pickup addresses and opening hours are managed under{" "}
+          <Link href="/admin/settings/pickup-locations" className="underline hover:text-brand">
+            Pickup Locations
+          </Link>
+          .
+        </p>
+      )}
+
+      {value.pricingMode === "FIXED" && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-800">Shipping zones</h3>
+          {value.zones.length === 0 && (
+            <p className="text-xs text-gray-500">No zones — the base fee applies everywhere.</p>
+          )}
+          {value.zones.map((z, i) => (
+            <ZoneEditor
+              key={i}
+              zone={z}
+              onChange={(zone) => onChange({ zones: value.zones.map((x, j) => (j === i ? zone : x)) })}
+              onRemove={() => onChange({ zones: value.zones.filter((_, j) => j !== i) })}
+            />
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-gray-300 text-gray-800 hover:border-brand hover:text-brand"
+            onClick={() => onChange({ zones: [...value.zones, EMPTY_ZONE] })}
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Add zone
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ---------------------------------------------------------------- */
+/*                             Component                            */
+/* ---------------------------------------------------------------- */
+
+export default function DeliveryOptionsManager({
+  initialOptions,
+}: {
+  initialOptions: any[];
+}) {
+  const [options, setOptions] = useState<OptionForm[]>(() => initialOptions.map(toForm));
+  const [draft, setDraft] = useState<OptionForm | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const updateLocal = (id: string, patch: Partial<OptionForm>) =>
+    setOptions((all) => all.map((o) => (o.id === id ? { ...o, ...patch } : o)));
+
+  async function createOption() {
+    if (!draft || busyId) return;
+    setBusyId("new");
+    try {
+      const res = await fetch("/api/store-settings/delivery-options", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(draft)),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(errorMessage(json?.error, "Failed to add delivery option"));
+      setOptions((all) => [...all, toForm(json)]);
+      setDraft(null);
+      toast.success("Delivery option added");
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function saveOption(o: OptionForm, body?: { active: boolean }) {
+    if (busyId) return;
+    setBusyId(o.id);
+    try {
+      const res = await fetch(`/api/store-settings/delivery-options/${o.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body ?? toPayload(o)),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(errorMessage(json?.error, "Failed to save delivery option"));
+      updateLocal(o.id, body ?? toForm(json));
+      toast.success(`${o.name} saved`);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function deleteOption(o: OptionForm) {
+    if (busyId || !confirm(`Delete ${o.name}?`)) return;
+    setBusyId(o.id);
+    try {
+      const res = await fetch(`/api/store-settings/delivery-options/${o.id}`, { method: "DELETE" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to delete delivery option");
+      setOptions((all) => all.filter((x) => x.id !== o.id));
+      toast.success(`${o.name} deleted`);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <BackButton />
+
+      {options.length === 0 && !draft && (
+        <div className="text-center py-12 text-gray-600">
+          <p className="mb-4">No delivery options yet — checkout only offers live carrier rates.</p>
+        </div>
+      )}
+
+      {options.map((o) => (
+        <div key={o.id} className="border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="font-semibold text-gray-900">{o.name || "Untitled option"}</h2>
+              <p className="text-xs text-gray-500">
+                {MODE_LABELS[o.pricingMode]} ·{" "}
+                {o.orderCount > 0 ? `${o.orderCount} order(s)` : "No orders yet"}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Label htmlFor={`active-${o.id}`} className="text-sm text-gray-700">
+                Active
+              </Label>
+              <Switch
+                id={`active-${o.id}`}
+                checked={o.active}
+                disabled={busyId === o.id}
+                onCheckedChange={(v) => saveOption(o, { active: v })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-red-600 hover:text-brand"
+                disabled={busyId === o.id}
+                onClick={() => deleteOption(o)}
+                aria-label={`Delete ${o.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <OptionFields value={o} onChange={(patch) => updateLocal(o.id, patch)} />
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => saveOption(o)}
+              disabled={busyId === o.id || !o.name.trim()}
+              className="bg-brand text-white hover:bg-brand/90 disabled:opacity-50 flex items-center"
+            >
+              {busyId === o.id ? (
+                <Loader2 className="animate-spin h-4 w-4 mr-2" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {draft ? (
+        <div className="border border-dashed border-gray-300 rounded-lg p-4 space-y-4">
+          <h2 className="font-semibold text-gray-900">New delivery option</h2>
+          <OptionFields value={draft} onChange={(patch) => setDraft((d) => (d ? { ...d, ...patch } : d))} />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={busyId === "new"}>
+              Cancel
+            </Button>
+            <Button
+              onClick={createOption}
+              disabled={!draft.name.trim() || busyId === "new"}
+              className="bg-brand text-white hover:bg-brand/90 disabled:opacity-50 flex items-center"
+            >
+              {busyId === "new" && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+              Add Option
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          className="border-gray-300 text-gray-800 hover:border-brand hover:text-brand"
+          onClick={() => setDraft(EMPTY_OPTION)}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Delivery Option
+        </Button>
+      )}
+    </div>
+  );
+}
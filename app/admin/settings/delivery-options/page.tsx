@@ -0,0 +1,33 @@
+// app/admin/settings/delivery-options/page.tsx
+export const dynamic = "force-dynamic";
+
+import { prisma } from "@/lib/db";
+import { DELIVERY_OPTION_ZONES_INCLUDE } from "@/lib/shipping/zones";
+import DeliveryOptionsManager from "./DeliveryOptionsManager";
+
+export default async function DeliveryOptionsPage() {
+  const options = await prisma.deliveryOption.findMany({
+    orderBy: { createdAt: "asc" },
+    include: { ...DELIVERY_OPTION_ZONES_INCLUDE, _count: { select: { orders: true } } },
+  });
+
+  const initialOptions = options.map(({ _count, createdAt, updatedAt, metadata, ...o }) => ({
+    ...o,
+    orderCount: _count.orders,
+  }));
+
+  return (
+    <div className="bg-gray-50 min-h-screen p-6 sm:p-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Delivery Options</h1>
+      <p className="text-sm text-gray-600 max-w-2xl mb-6">
+        Fixed-price options charge by shipping zone: the zone covering the customer&apos;s
+        country (and state, if listed) sets the fee, weight bands override it for lighter
+        carts and the free-shipping threshold waives it. Options without zones charge their
+        base fee everywhere. Live-rate options are priced by the carrier at checkout.
+      </p>
+      <div className="max-w-6xl mx-auto bg-white rounded-lg shadow p-6">
+        <DeliveryOptionsManager initialOptions={initialOptions} />
+      </div>
+    </div>
+  );
+}
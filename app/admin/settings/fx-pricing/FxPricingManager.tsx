@@ -0,0 +1,324 @@
+"use client";
+
+import React, { useState } from "react";
+import toast from "react-hot-toast";
+import { Loader2 } from "lucide-react";
+import BackButton from "@/components/BackButton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import type { PriceRounding } from "@/types/product";
+
+type DerivedCurrency = "USD" | "EUR" | "GBP";
+
+interface StoreRule {
+  enabled: boolean;
+  markupPercent: number;
+  rounding: PriceRounding;
+  autoReprice: boolean;
+}
+
+interface Run {
+  id: string;
+  createdAt: string;
+  scheduled: boolean;
+  rates: Record<DerivedCurrency, number>;
+  productCount: number;
+  changeCount: number;
+  staffName: string | null;
+}
+
+interface Preview {
+  rates: Record<DerivedCurrency, number>;
+  unchanged: number;
+  products: {
+    id: string;
+    name: string;
+    rule: "product" | "store";
+    changes: {
+      variantId: string | null;
+      variant: string | null;
+      field: "price" | "compareAt";
+      currency: DerivedCurrency;
+      oldPrice: number | null;
+      newPrice: number | null;
+    }[];
+  }[];
+}
+
+const ROUNDING_LABELS: Record<PriceRounding, string> = {
+  None: "Exact (2 dp)",
+  Whole: "Nearest whole unit",
+  NinetyNine: "Up to .99",
+  NearestFive: "Nearest 5",
+};
+
+const money = (n: number | null) =>
+  n == null ? "—" : n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** "1 USD = ₦1,530.12" style line from NGN-based rates. */
+const rateLine = (rates: Record<DerivedCurrency, number>) =>
+  (Object.keys(rates) as DerivedCurrency[])
+    .map((c) => `1 ${c} = ₦${(1 / rates[c]).toLocaleString(undefined, { maximumFractionDigits: 2 })}`)
+    .join(" · ");
+
+export default function FxPricingManager({
+  initialRule,
+  initialRuns,
+}: {
+  initialRule: StoreRule;
+  initialRuns: Run[];
+}) {
+  const [rule, setRule] = useState(initialRule);
+  const [markup, setMarkup] = useState(String(initialRule.markupPercent));
+  const [runs, setRuns] = useState(initialRuns);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const markupValue = Number(markup);
+  const markupValid = markup.trim() !== "" && !isNaN(markupValue) && markupValue >= -90 && markupValue <= 1000;
+
+  async function saveRule() {
+    if (!markupValid || saving) return;
+    setSaving(true);
+    const res = await fetch("/api/admin/pricing", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...rule, markupPercent: markupValue }),
+    }).catch(() => null);
+    const data = await res?.json().catch(() => null);
+    setSaving(false);
+    if (!res?.ok) {
+      toast.error(data?.error || "Could not save the pricing rule");
+      return;
+    }
+    setRule(data.rule);
+    setPreview(null);
+    toast.success("Pricing rule saved");
+  }
+
+  async function loadPreview() {
+    setPreviewing(true);
+    const res = await fetch("/api/admin/pricing/preview", { cache: "no-store" }).catch(() => null);
+    const data = await res?.json().catch(() => null);
+    setPreviewing(false);
+    if (!res?.ok) {
+      toast.error(data?.error || "Could not build the preview");
+      return;
+    }
+    setPreview(data);
+  }
+
+  async function applyReprice() {
+    if (!preview || applying) return;
+    if (!confirm(`Re-price ${preview.products.length} product(s) at today's rates?`)) return;
+    setApplying(true);
+    const res = await fetch("/api/admin/pricing/apply", { method: "POST" }).catch(() => null);
+    const data = await res?.json().catch(() => null);
+    setApplying(false);
+    if (!res?.ok) {
+      toast.error(data?.error || "Re-price failed");
+      return;
+    }
+    toast.success(`Re-priced ${data.products} product(s), ${data.changes} price(s) changed`);
+    setPreview(null);
+    const fresh = await fetch("/api/admin/pricing", { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : null))
+      .catch(() => null);
+    if (fresh) setRuns(fresh.runs);
+  }
+
+  return (
+    <div className="space-y-8">
+      <BackButton />
+
+      {/* Store-wide rule */}
+      <section className="space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Store-wide rule</h2>
+          <p className="text-sm text-gray-500">
+            NGN is the master price. USD, EUR and GBP prices (and compare-at prices) are
+            derived from it at the live exchange rate, plus markup, then rounded. Products
+            with their own rule, or set to manual prices, follow that instead.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={rule.enabled}
+              onCheckedChange={(v) => setRule((r) => ({ ...r, enabled: v }))}
+              disabled={saving}
+            />
+            Derive prices from NGN
+          </label>
+          <div className="space-y-1">
+            <Label>Markup %</Label>
+            <Input
+              type="number"
+              step="any"
+              min={-90}
+              max={1000}
+              value={markup}
+              onChange={(e) => setMarkup(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Rounding</Label>
+            <Select
+              value={rule.rounding}
+              onValueChange={(v) => setRule((r) => ({ ...r, rounding: v as PriceRounding }))}
+              disabled={saving}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ROUNDING_LABELS) as PriceRounding[]).map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {ROUNDING_LABELS[r]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={rule.autoReprice}
+              onCheckedChange={(v) => setRule((r) => ({ ...r, autoReprice: v }))}
+              disabled={saving}
+            />
+            Re-price automatically (scheduled job)
+          </label>
+        </div>
+        {!markupValid && (
+          <p className="text-xs text-red-600">Markup must be between -90% and 1000%.</p>
+        )}
+        <Button onClick={saveRule} disabled={!markupValid || saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save rule
+        </Button>
+      </section>
+
+      {/* Preview & apply */}
+      <section className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">Re-price</h2>
+            <p className="text-sm text-gray-500">
+              Preview every auto-priced product at today&apos;s rates before applying.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadPreview} disabled={previewing || applying}>
+              {previewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Preview
+            </Button>
+            <Button
+              onClick={applyReprice}
+              disabled={!preview || preview.products.length === 0 || applying}
+            >
+              {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply re-price
+            </Button>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">{rateLine(preview.rates)}</p>
+            <p className="text-sm">
+              {preview.products.length} product(s) would change; {preview.unchanged} already
+              up to date.
+            </p>
+            {preview.products.length > 0 && (
+              <div className="overflow-x-auto border rounded">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Product</th>
+                      <th className="px-3 py-2 font-medium">Price</th>
+                      <th className="px-3 py-2 font-medium">Currency</th>
+                      <th className="px-3 py-2 font-medium text-right">Old</th>
+                      <th className="px-3 py-2 font-medium text-right">New</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.products.flatMap((p) =>
+                      p.changes.map((c, i) => (
+                        <tr key={`${p.id}-${c.variantId ?? ""}-${c.field}-${c.currency}`} className="border-t">
+                          <td className="px-3 py-1.5">
+                            {i === 0 && (
+                              <>
+                                <span className="font-medium">{p.name}</span>
+                                <span className="ml-2 text-xs text-gray-500">
+                                  {p.id} · {p.rule === "product" ? "own rule" : "store rule"}
+                                </span>
+                              </>
+                            )}
+                          </td>
+                          <td className="px-3 py-1.5 text-gray-600">
+                            {c.variant ?? "Product"} {c.field === "compareAt" ? "(compare-at)" : ""}
+                          </td>
+                          <td className="px-3 py-1.5">{c.currency}</td>
+                          <td className="px-3 py-1.5 text-right text-gray-500">{money(c.oldPrice)}</td>
+                          <td className="px-3 py-1.5 text-right font-medium">{money(c.newPrice)}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      {/* History */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Recent re-prices</h2>
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500">No re-prices yet.</p>
+        ) : (
+          <div className="overflow-x-auto border rounded">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-3 py-2 font-medium">When</th>
+                  <th className="px-3 py-2 font-medium">By</th>
+                  <th className="px-3 py-2 font-medium text-right">Products</th>
+                  <th className="px-3 py-2 font-medium text-right">Prices changed</th>
+                  <th className="px-3 py-2 font-medium">Rates</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((r) => (
+                  <tr key={r.id} className="border-t">
+                    <td className="px-3 py-1.5 whitespace-nowrap">
+                      {new Date(r.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-1.5">{r.scheduled ? "Scheduled" : r.staffName ?? "—"}</td>
+                    <td className="px-3 py-1.5 text-right">{r.productCount}</td>
+                    <td className="px-3 py-1.5 text-right">{r.changeCount}</td>
+                    <td className="px-3 py-1.5 text-xs text-gray-500">{rateLine(r.rates)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { getStorePricingRule, listRepriceRuns } from "@/lib/fxPricing";
+import FxPricingManager from "./FxPricingManager";
+
+export const dynamic = "force-dynamic";
+
+export default async function FxPricingPage() {
+  const [rule, runs] = await Promise.all([getStorePricingRule(), listRepriceRuns()]);
+
+  return (
+    <div className="bg-gray-50 min-h-screen p-6 sm:p-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">FX Pricing</h1>
+      <div className="max-w-6xl mx-auto bg-white rounded-lg shadow p-6">
+        <FxPricingManager initialRule={rule} initialRuns={runs} />
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import Link from "next/link";
 import { redirect } from "next/navigation";
 import { getAdminSession } from "@/lib/getAdminSession";
 import { Card, CardContent, CardTitle } from "@/components/ui/card";
-import { ImageIcon, Ruler } from "lucide-react";
+import { ImageIcon, Ruler, ArrowLeftRight, Store, Truck } from "lucide-react";
 
 type CardConfig = {
   href: string;
@@ -50,6 +50,39 @@ export default async function StoreSettingsPage() {
       accentBgHover: "group-hover:bg-teal-100",
       accentTextHover: "group-hover:text-teal-600",
     },
+    {
+      href: "/admin/settings/fx-pricing",
+      title: "FX Pricing",
+      description: "Derive USD, EUR & GBP prices from NGN and re-price",
+      Icon: ArrowLeftRight,
+      accentBg: "bg-amber-50",
+      accentText: "text-amber-500",
+      accentStripe: "bg-amber-500",
+      accentBgHover: "group-hover:bg-amber-100",
+      accentTextHover: "group-hover:text-amber-600",
+    },
+    {
+      href: "/admin/settings/pickup-locations",
+      title: "Pickup Locations",
+      description: "Stores customers can collect orders from: address, hours & prep time",
+      Icon: Store,
+      accentBg: "bg-sky-50",
+      accentText: "text-sky-500",
+      accentStripe: "bg-sky-500",
+      accentBgHover: "group-hover:bg-sky-100",
+      accentTextHover: "group-hover:text-sky-600",
+    },
+    {
+      href: "/admin/settings/delivery-options",
+      title: "Delivery Options",
+      description: "Courier options, shipping zones, weight bands & free-shipping thresholds",
+      Icon: Truck,
+      accentBg: "bg-emerald-50",
+      accentText: "text-emerald-500",
+      accentStripe: "bg-emerald-500",
+      accentBgHover: "group-hover:bg-emerald-100",
+      accentTextHover: "group-hover:text-emerald-600",
+    },
   ];
 
   return (
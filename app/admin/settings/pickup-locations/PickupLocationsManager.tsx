@@ -0,0 +1,279 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Trash2, Plus, Loader2, Save } from "lucide-react";
+import toast from "react-hot-toast";
+import BackButton from "@/components/BackButton";
+
+export interface PickupLocationRow {
+  id: string;
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+  country: string;
+  phone: string;
+  openingHours: string;
+  prepTimeHours: number;
+  instructions: string;
+  active: boolean;
+  awaitingCollection: number;
+}
+
+type Draft = Omit<PickupLocationRow, "id" | "awaitingCollection">;
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  address: "",
+  city: "",
+  state: "",
+  country: "Nigeria",
+  phone: "",
+  openingHours: "Mon–Sat 10:00–18:00",
+  prepTimeHours: 24,
+  instructions: "",
+  active: true,
+};
+
+/** API rows carry nulls for empty optional fields; the inputs want strings. */
+function toRow(json: any): PickupLocationRow {
+  return {
+    ...json,
+    city: json.city ?? "",
+    state: json.state ?? "",
+    phone: json.phone ?? "",
+    instructions: json.instructions ?? "",
+    awaitingCollection: json.awaitingCollection ?? 0,
+  };
+}
+
+function isValid(d: Draft) {
+  return !!(d.name.trim() && d.address.trim() && d.openingHours.trim() && d.country.trim());
+}
+
+function LocationFields({
+  value,
+  onChange,
+}: {
+  value: Draft;
+  onChange: (patch: Partial<Draft>) => void;
+}) {
+  const text = (key: keyof Draft, label: string, placeholder = "") => (
+    <div className="space-y-1">
+      <Label className="text-xs text-gray-600">{label}</Label>
+      <Input
+        value={String(value[key] ?? "")}
+        placeholder={placeholder}
+        onChange={(e) => onChange({ [key]: e.target.value })}
+        className="border-gray-300 focus:border-brand focus:ring-brand"
+      />
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {text("name", "Name *", "Marobi Lekki Store")}
+      {text("address", "Street address *", "12 Admiralty Way")}
+      {text("city", "City", "Lekki")}
+      {text("state", "State", "Lagos")}
+      {text("country", "Country *")}
+      {text("phone", "Phone", "+234 …")}
+      {text("openingHours", "Opening hours *", "Mon–Sat 10:00–18:00")}
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-600">Prep time (hours)</Label>
+        <Input
+          type="number"
+          min={0}
+          value={value.prepTimeHours}
+          onChange={(e) => onChange({ prepTimeHours: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+          className="border-gray-300 focus:border-brand focus:ring-brand"
+        />
+      </div>
+      <div className="space-y-1 md:col-span-2">
+        <Label className="text-xs text-gray-600">Collection instructions</Label>
+        <Textarea
+          value={value.instructions}
+          placeholder="Ask at the front desk; bring a photo ID."
+          onChange={(e) => onChange({ instructions: e.target.value })}
+          className="border-gray-300 focus:border-brand focus:ring-brand"
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function PickupLocationsManager({
+  initialLocations,
+}: {
+  initialLocations: PickupLocationRow[];
+}) {
+  const [locations, setLocations] = useState<PickupLocationRow[]>(initialLocations);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [adding, setAdding] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const updateLocal = (id: string, patch: Partial<PickupLocationRow>) =>
+    setLocations((all) => all.map((l) => (l.id === id ? { ...l, ...patch } : l)));
+
+  async function createLocation() {
+    if (!isValid(draft) || busyId) return;
+    setBusyId("new");
+    try {
+      const res = await fetch("/api/store-settings/pickup-locations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to add location");
+      setLocations((all) => [...all, toRow(json)].sort((a, b) => a.name.localeCompare(b.name)));
+      setDraft(EMPTY_DRAFT);
+      setAdding(false);
+      toast.success("Pickup location added");
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function saveLocation(l: PickupLocationRow, patch?: Partial<Draft>) {
+    if (busyId) return;
+    const { id, awaitingCollection: _count, ...fields } = { ...l, ...patch };
+    if (!isValid(fields)) {
+      toast.error("Name, address, country and opening hours are required");
+      return;
+    }
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/store-settings/pickup-locations/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch ?? fields),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to save location");
+      if (patch) updateLocal(id, patch);
+      toast.success(`${fields.name} saved`);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function deleteLocation(l: PickupLocationRow) {
+    if (busyId || !confirm(`Delete ${l.name}?`)) return;
+    setBusyId(l.id);
+    try {
+      const res = await fetch(`/api/store-settings/pickup-locations/${l.id}`, { method: "DELETE" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to delete location");
+      setLocations((all) => all.filter((x) => x.id !== l.id));
+      toast.success(`${l.name} deleted`);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <BackButton />
+
+      {locations.length === 0 && !adding && (
+        <div className="text-center py-12 text-gray-600">
+          <p className="mb-4">No pickup locations yet — pickup is hidden at checkout.</p>
+        </div>
+      )}
+
+      {locations.map((l) => (
+        <div key={l.id} className="border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="font-semibold text-gray-900">{l.name || "Untitled location"}</h2>
+              <p className="text-xs text-gray-500">
+                {l.awaitingCollection > 0
+                  ? `${l.awaitingCollection} order(s) awaiting collection`
+                  : "No orders awaiting collection"}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Label htmlFor={`active-${l.id}`} className="text-sm text-gray-700">
+                Active
+              </Label>
+              <Switch
+                id={`active-${l.id}`}
+                checked={l.active}
+                disabled={busyId === l.id}
+                onCheckedChange={(v) => saveLocation(l, { active: v })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-red-600 hover:text-brand"
+                disabled={busyId === l.id}
+                onClick={() => deleteLocation(l)}
+                aria-label={`Delete ${l.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <LocationFields value={l} onChange={(patch) => updateLocal(l.id, patch)} />
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => saveLocation(l)}
+              disabled={busyId === l.id || !isValid(l)}
+              className="bg-brand text-white hover:bg-brand/90 disabled:opacity-50 flex items-center"
+            >
+              {busyId === l.id ? (
+                <Loader2 className="animate-spin h-4 w-4 mr-2" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {adding ? (
+        <div className="border border-dashed border-gray-300 rounded-lg p-4 space-y-4">
+          <h2 className="font-semibold text-gray-900">New pickup location</h2>
+          <LocationFields value={draft} onChange={(patch) => setDraft((d) => ({ ...d, ...patch }))} />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setAdding(false)} disabled={busyId === "new"}>
+              Cancel
+            </Button>
+            <Button
+              onClick={createLocation}
+              disabled={!isValid(draft) || busyId === "new"}
+              className="bg-brand text-white hover:bg-brand/90 disabled:opacity-50 flex items-center"
+            >
+              {busyId === "new" && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+              Add Location
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          className="border-gray-300 text-gray-800 hover:border-brand hover:text-brand"
+          onClick={() => setAdding(true)}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Pickup Location
+        </Button>
+      )}
+    </div>
+  );
+}
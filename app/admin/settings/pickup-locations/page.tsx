@@ -0,0 +1,53 @@
+// app/admin/settings/pickup-locations/page.tsx
+export const dynamic = "force-dynamic";
+
+import { prisma } from "@/lib/db";
+import PickupLocationsManager from "./PickupLocationsManager";
+
+export default async function PickupLocationsPage() {
+  const [locations, option] = await Promise.all([
+    prisma.pickupLocation.findMany({
+      orderBy: { name: "asc" },
+      include: { _count: { select: { pickups: { where: { collectedAt: null } } } } },
+    }),
+    prisma.deliveryOption.findFirst({
+      where: { pricingMode: "PICKUP" },
+      orderBy: { createdAt: "asc" },
+      select: { name: true, active: true },
+    }),
+  ]);
+
+  const initialLocations = locations.map((l) => ({
+    id: l.id,
+    name: l.name,
+    address: l.address,
+    city: l.city ?? "",
+    state: l.state ?? "",
+    country: l.country,
+    phone: l.phone ?? "",
+    openingHours: l.openingHours,
+    prepTimeHours: l.prepTimeHours,
+    instructions: l.instructions ?? "",
+    active: l.active,
+    awaitingCollection: l._count.pickups,
+  }));
+
+  return (
+    <div className="bg-gray-50 min-h-screen p-6 sm:p-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Pickup Locations</h1>
+      <p className="text-sm text-gray-600 max-w-2xl mb-6">
+        Customers can choose one of the active locations at checkout and collect their order
+        with the code we email when you mark it ready.
+        {option && !option.active && (
+          <span className="block mt-1 text-amber-700">
+            The “{option.name}” delivery option is switched off, so pickup is not offered at
+            checkout right now.
+          </span>
+        )}
+      </p>
+      <div className="max-w-6xl mx-auto bg-white rounded-lg shadow p-6">
+        <PickupLocationsManager initialLocations={initialLocations} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+// app/api/account/cart/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { getCustomerSession } from "@/lib/getCustomerSession";
+import { CartError, CartSyncInput, loadCart, syncCart } from "@/lib/cart";
+
+/** The signed-in customer's cart, revalidated, with `notices` for anything that changed. */
+export async function GET() {
+  await prismaReady;
+
+  const session = await getCustomerSession();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await loadCart(session.user.id as string));
+  } catch (err) {
+    console.error("[account/cart] GET error:", err);
+    return NextResponse.json({ error: "Could not load your cart" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT `{ mode: "replace" | "merge", currency, items: [{ productId, color, size, quantity, hasSizeMod, customMods? }] }`
+ * Saves the client cart ("merge" folds a guest cart in on sign-in) and
+ * returns the revalidated cart.
+ */
+export async function PUT(req: NextRequest) {
+  await prismaReady;
+
+  const session = await getCustomerSession();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const parsed = CartSyncInput.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid cart" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await syncCart(session.user.id as string, parsed.data));
+  } catch (err) {
+    if (err instanceof CartError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[account/cart] PUT error:", err);
+    return NextResponse.json({ error: "Could not save your cart" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+// app/api/account/returns/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { getCustomerSession } from "@/lib/getCustomerSession";
+import { createReturnRequest, ReturnError, type ReturnItemInput } from "@/lib/returns";
+
+/**
+ * POST `{ orderId, note?, items: [{ orderItemId, quantity, type, reason, photos?, exchangeVariantId? }] }`
+ * Opens a return / size-exchange request for the signed-in customer's order.
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const session = await getCustomerSession();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object" || typeof body.orderId !== "string") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const items: ReturnItemInput[] = Array.isArray(body.items)
+    ? body.items
+        .filter((l: any) => l && typeof l.orderItemId === "string")
+        .map((l: any) => ({
+          orderItemId: l.orderItemId,
+          quantity: Number(l.quantity),
+          type: l.type,
+          reason: typeof l.reason === "string" ? l.reason : "",
+          photos: Array.isArray(l.photos) ? l.photos.filter((p: unknown) => typeof p === "string") : [],
+          exchangeVariantId: typeof l.exchangeVariantId === "string" ? l.exchangeVariantId : null,
+        }))
+    : [];
+
+  try {
+    const request = await createReturnRequest({
+      orderId: body.orderId,
+      customerId: session.user.id as string,
+      items,
+      note: typeof body.note === "string" ? body.note : null,
+    });
+    return NextResponse.json(request, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof ReturnError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[account/returns] POST error:", err);
+    return NextResponse.json({ error: "Could not submit your return request" }, { status: 500 });
+  }
+}
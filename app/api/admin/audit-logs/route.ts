@@ -0,0 +1,34 @@
+// app/api/admin/audit-logs/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { auditLogsToCsv, listAuditLogs, parseAuditFilters } from "@/lib/audit";
+
+/**
+ * GET ?staffId&action&entityType&entityId&from&to&page&pageSize
+ * Add `format=csv` to download every matching row instead of one page.
+ */
+export const GET = withPermission("audit.view", async (req: NextRequest) => {
+  await prismaReady;
+  const params = req.nextUrl.searchParams;
+  const filters = parseAuditFilters(Object.fromEntries(params));
+
+  if (params.get("format") === "csv") {
+    const csv = await auditLogsToCsv(filters);
+    const stamp = new Date().toISOString().slice(0, 10);
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-log-${stamp}.csv"`,
+      },
+    });
+  }
+
+  const result = await listAuditLogs(filters, {
+    page: Number(params.get("page")) || 1,
+    pageSize: Number(params.get("pageSize")) || 50,
+  });
+  return NextResponse.json(result);
+});
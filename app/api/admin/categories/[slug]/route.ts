@@ -3,6 +3,8 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { revalidatePath } from "next/cache";
 import { getAdminSession } from "@/lib/getAdminSession";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 import { slugify } from "@/lib/slugify";
 
 
@@ -19,11 +21,10 @@ async function ensureAdmin() {
 }
 
 /** Load one category by slug (used by edit form) */
-export async function GET(
+export const GET = withPermission("products.manage", async (
   _req: Request,
  context: { params: Promise<{ slug: string }> }
-) {
-
+) => {
   const { slug: slugify } = await context.params;
 
 
@@ -36,14 +37,14 @@ export async function GET(
   });
   if (!c) return NextResponse.json({ message: "Not found" }, { status: 404 });
   return NextResponse.json(c);
-}
+});
 
 /** Update/toggle */
-export async function PATCH(
+export const PATCH = withPermission("products.manage", async (
   req: Request,
- context: { params: Promise<{ slug: string }> }
-) {
-
+ context: { params: Promise<{ slug: string }> },
+  session
+) => {
     const { slug } = await context.params;
   const ok = await ensureAdmin();
   if (!ok) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
@@ -66,10 +67,18 @@ export async function PATCH(
   }
 
   try {
-    const updated = await prisma.category.update({
-      where: { slug: currentSlug },
-      data,
-      select: { slug: true },
+    const updated = await prisma.$transaction(async (tx) => {
+      const before = await tx.category.findUniqueOrThrow({ where: { slug: currentSlug } });
+      const after = await tx.category.update({ where: { slug: currentSlug }, data });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Update",
+        entityType: "Category",
+        entityId: after.slug,
+        before,
+        after,
+      });
+      return { slug: after.slug };
     });
     revalidatePath("/admin/categories");
     return NextResponse.json(updated);
@@ -88,20 +97,30 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+});
 
 /** Delete category (blocked by FK if products exist) */
-export async function DELETE(
+export const DELETE = withPermission("products.manage", async (
   _req: Request,
-   context: { params: Promise<{ slug: string }> }
-) {
+   context: { params: Promise<{ slug: string }> },
+  session
+) => {
    const { slug: slugify } = await context.params;
   const ok = await ensureAdmin();
   if (!ok) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
 
   const slug = decodeURIComponent(slugify);
   try {
-    await prisma.category.delete({ where: { slug } });
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.category.delete({ where: { slug } });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Delete",
+        entityType: "Category",
+        entityId: slug,
+        before,
+      });
+    });
     revalidatePath("/admin/categories");
     return NextResponse.json({ ok: true });
   } catch (err: any) {
@@ -114,4 +133,4 @@ export async function DELETE(
       { status: 409 }
     );
   }
-}
+});
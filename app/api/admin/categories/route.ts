@@ -1,18 +1,14 @@
 // app/api/admin/categories/route.ts
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getAdminSession } from "@/lib/getAdminSession";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 import { revalidatePath } from "next/cache";
 import { slugify } from "@/lib/slugify";
 
 /** Create a category */
-export async function POST(req: Request) {
+export const POST = withPermission("products.manage", async (req: Request, _context: unknown, session) => {
   try {
-    const session = await getAdminSession();
-    if (!session || !session.user?.email || session.user.role === "customer") {
-      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
-    }
-
     const body = await req.json().catch(() => ({}));
     const name = String(body?.name || "").trim();
     const slugInput = String(body?.slug || "");
@@ -37,9 +33,18 @@ export async function POST(req: Request) {
       return NextResponse.json({ message: "Slug is required." }, { status: 400 });
     }
 
-    const created = await prisma.category.create({
-      data: { slug, name, description, bannerImage, isActive, sortOrder },
-      select: { slug: true },
+    const created = await prisma.$transaction(async (tx) => {
+      const category = await tx.category.create({
+        data: { slug, name, description, bannerImage, isActive, sortOrder },
+      });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Create",
+        entityType: "Category",
+        entityId: category.slug,
+        after: category,
+      });
+      return { slug: category.slug };
     });
 
     revalidatePath("/admin/categories");
@@ -57,4 +62,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,15 @@
 // app/api/customers/[id]/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
 
 /** Ensure Prisma runs on the Node runtime */
 export const runtime = "nodejs";
 
-export async function DELETE(
+export const DELETE = withPermission("customers.manage", async (
   _req: NextRequest,
     context: { params: Promise<{ id: string }> }
-) {
+) => {
   await prismaReady;
 
   const { id } = await context.params;
@@ -50,4 +51,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,18 @@
+// app/api/admin/low-stock/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { listLowStock, VELOCITY_WINDOW_DAYS } from "@/lib/lowStock";
+
+/** GET ?days=… — variants under their low-stock threshold with sales velocity. */
+export const GET = withPermission("products.manage", async (req: NextRequest) => {
+  await prismaReady;
+  const days = Math.min(
+    Math.max(Number(req.nextUrl.searchParams.get("days")) || VELOCITY_WINDOW_DAYS, 1),
+    365
+  );
+  const rows = await listLowStock(days);
+  return NextResponse.json({ days, rows });
+});
@@ -0,0 +1,35 @@
+// app/api/admin/orders/[id]/pickup/collect/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { collectPickup, PickupError } from "@/lib/pickup";
+
+/** POST: `{ code }` — verify the customer's collection code and hand the order over. */
+export const POST = withPermission("orders.fulfil", async (
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+  const body = await req.json().catch(() => ({}));
+
+  const code = typeof body?.code === "string" ? body.code.trim() : "";
+  if (!/^\d{6}$/.test(code.replace(/\s+/g, ""))) {
+    return NextResponse.json({ error: "Enter the 6-digit collection code" }, { status: 400 });
+  }
+
+  try {
+    const result = await collectPickup(id, code, session.user.id as string);
+    return NextResponse.json({ success: true, status: "Delivered", ...result });
+  } catch (err: any) {
+    if (err instanceof PickupError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[pickup/collect] POST error:", err);
+    return NextResponse.json({ error: "Failed to verify collection code" }, { status: 500 });
+  }
+});
@@ -0,0 +1,32 @@
+// app/api/admin/orders/[id]/pickup/ready/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { markReadyForPickup, PickupError } from "@/lib/pickup";
+
+/**
+ * POST: mark a store pickup order ready and email the customer a collection
+ * code. Posting again issues a new code (the old one stops working).
+ */
+export const POST = withPermission("orders.fulfil", async (
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+
+  try {
+    const result = await markReadyForPickup(id, session.user.id as string);
+    return NextResponse.json({ success: true, status: "ReadyForPickup", ...result });
+  } catch (err: any) {
+    if (err instanceof PickupError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[pickup/ready] POST error:", err);
+    return NextResponse.json({ error: "Failed to mark order ready for pickup" }, { status: 500 });
+  }
+});
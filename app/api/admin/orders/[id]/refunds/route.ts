@@ -0,0 +1,72 @@
+// app/api/admin/orders/[id]/refunds/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { createOrderRefund, RefundError, type RefundLineInput } from "@/lib/refunds";
+
+/** GET: refund history for an order (newest first). */
+export const GET = withPermission("orders.view", async (
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+
+  const refunds = await prisma.orderRefund.findMany({
+    where: { orderId: id },
+    orderBy: { createdAt: "desc" },
+    include: {
+      items: true,
+      staff: { select: { firstName: true, lastName: true } },
+    },
+  });
+  return NextResponse.json(refunds);
+});
+
+/**
+ * POST: `{ full?: boolean, items?: [{ orderItemId, quantity, restock }], reason? }`
+ * With `full`, `items` only carries the per-line restock flags.
+ */
+export const POST = withPermission("orders.refund", async (
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+  const body = await req.json().catch(() => ({}));
+
+  const lines: RefundLineInput[] = Array.isArray(body?.items)
+    ? body.items
+        .filter((l: any) => l && typeof l.orderItemId === "string")
+        .map((l: any) => ({
+          orderItemId: l.orderItemId,
+          quantity: Number(l.quantity),
+          restock: !!l.restock,
+        }))
+    : [];
+  const reason =
+    typeof body?.reason === "string" && body.reason.trim()
+      ? body.reason.trim().slice(0, 500)
+      : null;
+
+  try {
+    const refund = await createOrderRefund({
+      orderId: id,
+      full: body?.full === true,
+      lines: body?.full === true ? lines : lines.filter((l) => l.quantity > 0),
+      reason,
+      staffId: session.user.id as string,
+    });
+    return NextResponse.json(refund, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof RefundError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[refunds] POST error:", err);
+    return NextResponse.json({ error: "Failed to refund order" }, { status: 500 });
+  }
+});
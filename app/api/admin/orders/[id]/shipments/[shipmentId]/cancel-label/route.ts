@@ -0,0 +1,30 @@
+// app/api/admin/orders/[id]/shipments/[shipmentId]/cancel-label/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { cancelShipment, FulfilmentError } from "@/lib/fulfilment";
+import { CarrierError } from "@/lib/shipping/carriers";
+
+/** POST: void one parcel's label; its items can then be packed again. */
+export const POST = withPermission("orders.fulfil", async (
+  _req: NextRequest,
+  context: { params: Promise<{ id: string; shipmentId: string }> },
+  session
+) => {
+  await prismaReady;
+  const { id, shipmentId } = await context.params;
+
+  try {
+    await cancelShipment(id, shipmentId, session.user.id as string);
+    return NextResponse.json({ success: true });
+  } catch (err: any) {
+    if (err instanceof FulfilmentError || err instanceof CarrierError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[shipments/cancel-label] POST error:", err);
+    return NextResponse.json({ error: err?.message || "Failed to cancel label" }, { status: 500 });
+  }
+});
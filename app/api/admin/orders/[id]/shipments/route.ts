@@ -0,0 +1,71 @@
+// app/api/admin/orders/[id]/shipments/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import {
+  createShipment,
+  FulfilmentError,
+  listOrderShipments,
+  refreshOrderShipments,
+  ShipmentPayload,
+} from "@/lib/fulfilment";
+import { CarrierError } from "@/lib/shipping/carriers";
+
+/**
+ * GET: the order's parcels and what is left to pack. With ?refresh=1 the
+ * carrier is polled first (the dashboard does this on a timer); an
+ * unreachable carrier only marks the answer `degraded`.
+ */
+export const GET = withPermission("orders.view", async (
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+
+  try {
+    let degraded = false;
+    if (req.nextUrl.searchParams.get("refresh") === "1") {
+      degraded = !(await refreshOrderShipments(id).catch((err) => {
+        console.error("[shipments] refresh error:", err);
+        return false;
+      }));
+    }
+    return NextResponse.json({ ...(await listOrderShipments(id)), degraded });
+  } catch (err: any) {
+    if (err instanceof FulfilmentError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[shipments] GET error:", err);
+    return NextResponse.json({ error: "Failed to load shipments" }, { status: 500 });
+  }
+});
+
+/** POST { items: [{ orderItemId, quantity }] }: pack a parcel and buy its label. */
+export const POST = withPermission("orders.fulfil", async (
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+
+  const parsed = ShipmentPayload.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const shipment = await createShipment(id, parsed.data.items, session.user.id as string);
+    return NextResponse.json({ success: true, shipment }, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof FulfilmentError || err instanceof CarrierError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[shipments] POST error:", err);
+    return NextResponse.json({ error: err?.message || "Failed to create shipment" }, { status: 500 });
+  }
+});
@@ -1,30 +1,42 @@
 // app/api/admin/orphans/[reference]/resolve/route.ts
 export const runtime = "nodejs";
 import { NextResponse } from "next/server";
-import { getAdminSession } from "@/lib/getAdminSession";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 import prisma, { prismaReady } from "@/lib/db";
 
-export async function POST(
+export const POST = withPermission("payments.reconcile", async (
   _req: Request,
-  context: { params: Promise<{ reference: string }> }
-) {
+  context: { params: Promise<{ reference: string }> },
+  session
+) => {
   try {
     await prismaReady;
 
         const { reference } = await context.params;
 
-    const session = await getAdminSession();
-    if (!session?.user || session.user.role === "customer") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    await prisma.orphanPayment.update({
-      where: { reference: reference },
-      data: {
-        reconciled: true,
-        reconciledAt: new Date(),
-        resolutionNote: "Marked resolved by admin",
-      },
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.orphanPayment.findUniqueOrThrow({
+        where: { reference: reference },
+        select: { reconciled: true, reconciledAt: true, resolutionNote: true },
+      });
+      const after = await tx.orphanPayment.update({
+        where: { reference: reference },
+        data: {
+          reconciled: true,
+          reconciledAt: new Date(),
+          resolutionNote: "Marked resolved by admin",
+        },
+        select: { reconciled: true, reconciledAt: true, resolutionNote: true },
+      });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Resolve",
+        entityType: "OrphanPayment",
+        entityId: reference,
+        before,
+        after,
+      });
     });
 
     return NextResponse.json({ success: true }, { status: 200 });
@@ -35,4 +47,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
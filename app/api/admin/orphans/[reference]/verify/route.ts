@@ -1,20 +1,15 @@
 // app/api/admin/orphans/[reference]/verify/route.ts
 export const runtime = "nodejs";
 import { NextResponse } from "next/server";
-import { getAdminSession } from "@/lib/getAdminSession";
+import { withPermission } from "@/lib/withPermission";
 import { verifyTransaction } from "@/lib/paystack";
 
-export async function GET(
+export const GET = withPermission("payments.reconcile", async (
   _req: Request,
   context: { params: Promise<{ reference: string }> }
-) {
-
+) => {
         const { reference } = await context.params;
   try {
-    const session = await getAdminSession();
-    if (!session?.user || session.user.role === "customer") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
 
     const tx = await verifyTransaction(reference);
 
@@ -26,4 +21,4 @@ export async function GET(
       { status: 400 }
     );
   }
-}
+});
@@ -2,33 +2,14 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/authOptions";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
 import { verifyTransaction, PaystackError } from "@/lib/paystack";
 
-export async function POST(req: Request) {
+export const POST = withPermission("payments.reconcile", async (req: Request) => {
   try {
     await prismaReady;
 
-    // --- Auth: only staff/admin, similar to /api/admin/me ---
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
-
-    const staff = await prisma.staff.findUnique({
-      where: { email: session.user.email },
-      select: { id: true, access: true },
-    });
-
-    if (!staff) {
-      return NextResponse.json({ error: "Staff not found" }, { status: 404 });
-    }
-
-    // You can tighten this to only SuperAdmin / OrderAdmin if you like
-    // if (!["SuperAdmin", "OrderAdmin"].includes(staff.access)) { ... }
-
     const body = await req.json().catch(() => ({}));
     const reference = String(body.reference || "").trim();
 
@@ -86,4 +67,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,17 +1,12 @@
 // app/api/admin/orphans/route.ts
 export const runtime = "nodejs";
 import { NextResponse } from "next/server";
-import { getAdminSession } from "@/lib/getAdminSession";
+import { withPermission } from "@/lib/withPermission";
 import prisma, { prismaReady } from "@/lib/db";
 
-export async function GET() {
+export const GET = withPermission("payments.reconcile", async () => {
   try {
     await prismaReady;
-    const session = await getAdminSession();
-
-    if (!session?.user || session.user.role === "customer") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
 
     const orphans = await prisma.orphanPayment.findMany({
       where: {
@@ -30,4 +25,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,26 @@
+// app/api/admin/pricing/apply/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { FxPricingError, applyReprice } from "@/lib/fxPricing";
+
+/** Re-price every auto-priced product at today's rates and record the run */
+export const POST = withPermission("products.manage", async (
+  _req: NextRequest,
+  _context: unknown,
+  session
+) => {
+  await prismaReady;
+  try {
+    const result = await applyReprice({ staffId: session.user.id as string });
+    return NextResponse.json(result);
+  } catch (err) {
+    if (err instanceof FxPricingError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[admin/pricing/apply] POST error:", err);
+    return NextResponse.json({ error: "Re-price failed" }, { status: 500 });
+  }
+});
@@ -0,0 +1,21 @@
+// app/api/admin/pricing/preview/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { FxPricingError, planReprice } from "@/lib/fxPricing";
+
+/** Dry run: old vs new prices for every auto-priced product at today's rates */
+export const GET = withPermission("products.manage", async () => {
+  await prismaReady;
+  try {
+    return NextResponse.json(await planReprice());
+  } catch (err) {
+    if (err instanceof FxPricingError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[admin/pricing/preview] GET error:", err);
+    return NextResponse.json({ error: "Could not build the preview" }, { status: 500 });
+  }
+});
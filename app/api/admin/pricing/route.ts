@@ -0,0 +1,43 @@
+// app/api/admin/pricing/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import {
+  StorePricingRuleInput,
+  getStorePricingRule,
+  listRepriceRuns,
+  saveStorePricingRule,
+} from "@/lib/fxPricing";
+
+/** Store-wide FX pricing rule plus recent re-price runs */
+export const GET = withPermission("products.manage", async () => {
+  await prismaReady;
+  const [rule, runs] = await Promise.all([getStorePricingRule(), listRepriceRuns()]);
+  return NextResponse.json({ rule, runs });
+});
+
+/** Save the store-wide rule `{ enabled, markupPercent, rounding, autoReprice }` */
+export const PUT = withPermission("products.manage", async (
+  req: NextRequest,
+  _context: unknown,
+  session
+) => {
+  await prismaReady;
+  const parsed = StorePricingRuleInput.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid pricing rule" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rule = await saveStorePricingRule(parsed.data, session.user.id as string);
+    return NextResponse.json({ rule });
+  } catch (err) {
+    console.error("[admin/pricing] PUT error:", err);
+    return NextResponse.json({ error: "Could not save the pricing rule" }, { status: 500 });
+  }
+});
@@ -0,0 +1,159 @@
+// app/api/admin/products/[productId]/inventory/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { adjustStock, InventoryError } from "@/lib/inventory";
+import { flushStockNotifications } from "@/lib/stockNotifications";
+
+const MANUAL_REASONS = ["Adjustment", "Restock", "Return"] as const;
+type ManualReason = (typeof MANUAL_REASONS)[number];
+
+/** GET ?variantId=…&limit=… — stock movements for this product's variants (newest first). */
+export const GET = withPermission("products.manage", async (
+  req: NextRequest,
+  context: { params: Promise<{ productId: string }> }
+) => {
+  await prismaReady;
+  const { productId } = await context.params;
+  const variantId = req.nextUrl.searchParams.get("variantId") || undefined;
+  const limit = Math.min(
+    Math.max(Number(req.nextUrl.searchParams.get("limit")) || 100, 1),
+    500
+  );
+
+  const movements = await prisma.inventoryMovement.findMany({
+    where: { variant: { productId }, ...(variantId && { variantId }) },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    include: {
+      variant: { select: { color: true, size: true } },
+      staff: { select: { firstName: true, lastName: true } },
+    },
+  });
+  return NextResponse.json(movements);
+});
+
+/** POST `{ variantId, delta, reason?, note }` — manual stock correction. */
+export const POST = withPermission("products.manage", async (
+  req: NextRequest,
+  context: { params: Promise<{ productId: string }> },
+  session
+) => {
+  await prismaReady;
+  const { productId } = await context.params;
+  const body = await req.json().catch(() => ({}));
+
+  const delta = Number(body?.delta);
+  if (!Number.isInteger(delta) || delta === 0) {
+    return NextResponse.json(
+      { error: "delta must be a non-zero whole number" },
+      { status: 400 }
+    );
+  }
+  const reason: ManualReason = MANUAL_REASONS.includes(body?.reason)
+    ? body.reason
+    : "Adjustment";
+  const note = typeof body?.note === "string" ? body.note.trim().slice(0, 500) : "";
+  if (!note) {
+    return NextResponse.json(
+      { error: "A reason note is required" },
+      { status: 400 }
+    );
+  }
+
+  const variant = await prisma.variant.findFirst({
+    where: { id: String(body?.variantId ?? ""), productId },
+    select: { id: true },
+  });
+  if (!variant) {
+    return NextResponse.json({ error: "Variant not found" }, { status: 404 });
+  }
+
+  try {
+    const balance = await prisma.$transaction((tx) =>
+      adjustStock(tx, {
+        variantId: variant.id,
+        delta,
+        // negative restocks/returns are still just corrections
+        reason: delta < 0 ? "Adjustment" : reason,
+        staffId: session.user.id as string,
+        note,
+      })
+    );
+    if (balance > 0 && delta > 0) {
+      try {
+        await flushStockNotifications([variant.id]);
+      } catch (notifyErr) {
+        console.warn("[inventory] back-in-stock emails failed:", notifyErr);
+      }
+    }
+    return NextResponse.json({ variantId: variant.id, stock: balance }, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof InventoryError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[inventory] POST error:", err);
+    return NextResponse.json({ error: "Failed to adjust stock" }, { status: 500 });
+  }
+});
+
+/**
+ * PATCH `{ lowStockThreshold?, variants?: [{ id, lowStockThreshold: number | null }] }`
+ * Product default and per-variant overrides (null = use the product default).
+ */
+export const PATCH = withPermission("products.manage", async (
+  req: NextRequest,
+  context: { params: Promise<{ productId: string }> }
+) => {
+  await prismaReady;
+  const { productId } = await context.params;
+  const body = await req.json().catch(() => ({}));
+
+  const isThreshold = (v: unknown): v is number =>
+    typeof v === "number" && Number.isInteger(v) && v >= 0 && v <= 100_000;
+
+  if (body?.lowStockThreshold !== undefined && !isThreshold(body.lowStockThreshold)) {
+    return NextResponse.json(
+      { error: "lowStockThreshold must be a whole number ≥ 0" },
+      { status: 400 }
+    );
+  }
+  const variantUpdates: { id: string; lowStockThreshold: number | null }[] = [];
+  for (const v of Array.isArray(body?.variants) ? body.variants : []) {
+    if (typeof v?.id !== "string") continue;
+    if (v.lowStockThreshold !== null && !isThreshold(v.lowStockThreshold)) {
+      return NextResponse.json(
+        { error: "Variant thresholds must be whole numbers ≥ 0 or empty" },
+        { status: 400 }
+      );
+    }
+    variantUpdates.push({ id: v.id, lowStockThreshold: v.lowStockThreshold });
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      if (body?.lowStockThreshold !== undefined) {
+        await tx.product.update({
+          where: { id: productId },
+          data: { lowStockThreshold: body.lowStockThreshold },
+        });
+      }
+      for (const v of variantUpdates) {
+        await tx.variant.updateMany({
+          where: { id: v.id, productId },
+          data: { lowStockThreshold: v.lowStockThreshold },
+        });
+      }
+    });
+    return NextResponse.json({ success: true });
+  } catch (err: any) {
+    if (err?.code === "P2025") {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    console.error("[inventory] PATCH error:", err);
+    return NextResponse.json({ error: "Failed to save thresholds" }, { status: 500 });
+  }
+});
@@ -1,6 +1,7 @@
 // app/api/products/[productId]/reviews/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
 
 /** Ensure Node runtime for consistent server APIs */
 export const runtime = "nodejs";
@@ -13,10 +14,10 @@ function parsePositiveInt(value: string | null, fallback: number, max: number) {
   return Math.min(n, max);
 }
 
-export async function GET(
+export const GET = withPermission("reviews.moderate", async (
   req: NextRequest,
   context: { params: Promise<{ productId: string }> }
-) {
+) => {
   try {
     await prismaReady;
 
@@ -123,4 +124,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
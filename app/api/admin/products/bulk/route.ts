@@ -0,0 +1,43 @@
+// app/api/admin/products/bulk/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { BulkProductRequest, ProductBulkError, runBulkProductAction } from "@/lib/productBulk";
+
+/**
+ * POST `{ ids: string[], action }`
+ * Applies one status / category / price / stock action to every product and
+ * returns `{ updated, unchanged, skipped, products }`.
+ */
+export const POST = withPermission("products.manage", async (
+  req: NextRequest,
+  _context: unknown,
+  session
+) => {
+  await prismaReady;
+
+  const parsed = BulkProductRequest.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await runBulkProductAction(
+      parsed.data.ids,
+      parsed.data.action,
+      session.user.id as string
+    );
+    return NextResponse.json(result);
+  } catch (err: any) {
+    if (err instanceof ProductBulkError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[products/bulk] POST error:", err);
+    return NextResponse.json({ error: "Bulk update failed" }, { status: 500 });
+  }
+});
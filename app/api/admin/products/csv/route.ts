@@ -0,0 +1,56 @@
+// app/api/admin/products/csv/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import {
+  applyProductImport,
+  planProductImport,
+  ProductImportError,
+  productsToCsv,
+} from "@/lib/productCsv";
+
+/** GET: download the whole catalogue (one row per variant). */
+export const GET = withPermission("products.manage", async () => {
+  await prismaReady;
+  const csv = await productsToCsv();
+  const stamp = new Date().toISOString().slice(0, 10);
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="products-${stamp}.csv"`,
+    },
+  });
+});
+
+/**
+ * POST `{ csv: string, commit?: boolean }`
+ * Without `commit`, returns the dry-run plan; with it, writes the import.
+ */
+export const POST = withPermission("products.manage", async (
+  req: NextRequest,
+  _context: unknown,
+  session
+) => {
+  await prismaReady;
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body.csv !== "string" || !body.csv.trim()) {
+    return NextResponse.json({ error: "Upload a CSV file" }, { status: 400 });
+  }
+
+  try {
+    if (body.commit === true) {
+      const result = await applyProductImport(body.csv, session.user.id as string);
+      return NextResponse.json(result);
+    }
+    return NextResponse.json(await planProductImport(body.csv));
+  } catch (err: any) {
+    if (err instanceof ProductImportError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[products/csv] POST error:", err);
+    return NextResponse.json({ error: "Import failed" }, { status: 500 });
+  }
+});
@@ -0,0 +1,40 @@
+// app/api/admin/products/labels/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { loadVariantLabels, VariantLabelError } from "@/lib/variantLabels";
+import { generateVariantLabelsPDF } from "@/lib/pdf/labels";
+
+/**
+ * GET `?ids=a,b,c&copies=one|stock`
+ * A4 PDF of QR labels for every variant of the given products: one label per
+ * variant, or one per unit in stock with `copies=stock`.
+ */
+export const GET = withPermission("products.manage", async (req: NextRequest) => {
+  await prismaReady;
+
+  const params = req.nextUrl.searchParams;
+  const ids = (params.get("ids") ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+  const copies = params.get("copies") === "stock" ? "stock" : "one";
+
+  try {
+    const labels = await loadVariantLabels(ids, copies);
+    const pdf = await generateVariantLabelsPDF(labels);
+    const stamp = new Date().toISOString().slice(0, 10);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="labels-${stamp}.pdf"`,
+      },
+    });
+  } catch (err: any) {
+    if (err instanceof VariantLabelError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[products/labels] GET error:", err);
+    return NextResponse.json({ error: "Failed to generate labels" }, { status: 500 });
+  }
+});
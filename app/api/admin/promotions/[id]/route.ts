@@ -0,0 +1,78 @@
+// app/api/admin/promotions/[id]/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { PromotionPayload, toPromotionData } from "@/lib/promotions";
+
+/**
+ * PATCH: either `{ active }` (quick toggle) or a full promotion payload.
+ */
+export const PATCH = withPermission("promotions.manage", async (
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+  const body = await req.json().catch(() => ({}));
+
+  let data: Record<string, unknown>;
+  if (Object.keys(body).length === 1 && typeof body.active === "boolean") {
+    data = { active: body.active };
+  } else {
+    const parsed = PromotionPayload.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+    }
+    data = toPromotionData(parsed.data);
+  }
+
+  try {
+    const updated = await prisma.promotion.update({ where: { id }, data });
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    if (err?.code === "P2025") {
+      return NextResponse.json({ error: "Promotion not found" }, { status: 404 });
+    }
+    if (err?.code === "P2002") {
+      return NextResponse.json(
+        { error: "A promotion with this code already exists." },
+        { status: 409 }
+      );
+    }
+    console.error("[admin/promotions] update failed:", err);
+    return NextResponse.json({ error: "Could not update promotion" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE: only unused promotions can be removed; used ones should be
+ * deactivated so order history keeps its link.
+ */
+export const DELETE = withPermission("promotions.manage", async (
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+
+  const used = await prisma.promotionRedemption.count({ where: { promotionId: id } });
+  if (used > 0) {
+    return NextResponse.json(
+      { error: "This code has been used on orders. Deactivate it instead." },
+      { status: 409 }
+    );
+  }
+
+  try {
+    await prisma.promotion.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (err: any) {
+    if (err?.code === "P2025") {
+      return NextResponse.json({ error: "Promotion not found" }, { status: 404 });
+    }
+    console.error("[admin/promotions] delete failed:", err);
+    return NextResponse.json({ error: "Could not delete promotion" }, { status: 500 });
+  }
+});
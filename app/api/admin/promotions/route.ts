@@ -0,0 +1,43 @@
+// app/api/admin/promotions/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { PromotionPayload, toPromotionData } from "@/lib/promotions";
+
+/** List all promotions (newest first) with redemption counts */
+export const GET = withPermission("promotions.manage", async () => {
+  await prismaReady;
+  const data = await prisma.promotion.findMany({
+    orderBy: { createdAt: "desc" },
+    include: { _count: { select: { redemptions: true } } },
+  });
+  return NextResponse.json({ data });
+});
+
+/** Create a promotion / discount code */
+export const POST = withPermission("promotions.manage", async (req: NextRequest) => {
+  await prismaReady;
+  const json = await req.json().catch(() => ({}));
+  const parsed = PromotionPayload.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const created = await prisma.promotion.create({
+      data: toPromotionData(parsed.data),
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (err: any) {
+    if (err?.code === "P2002") {
+      return NextResponse.json(
+        { error: "A promotion with this code already exists." },
+        { status: 409 }
+      );
+    }
+    console.error("[admin/promotions] create failed:", err);
+    return NextResponse.json({ error: "Could not create promotion" }, { status: 500 });
+  }
+});
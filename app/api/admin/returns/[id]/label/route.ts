@@ -0,0 +1,29 @@
+// app/api/admin/returns/[id]/label/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { createReturnLabel, ReturnError } from "@/lib/returns";
+
+/** POST: book a Shipbubble pickup from the customer back to the store. */
+export const POST = withPermission("returns.manage", async (
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+
+  try {
+    const rma = await createReturnLabel(id, session.user.id as string);
+    return NextResponse.json(rma);
+  } catch (err: any) {
+    if (err instanceof ReturnError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[returns] label error:", err);
+    return NextResponse.json({ error: "Failed to create return label" }, { status: 500 });
+  }
+});
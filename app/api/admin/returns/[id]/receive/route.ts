@@ -0,0 +1,40 @@
+// app/api/admin/returns/[id]/receive/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { receiveReturn, ReturnError, type ReceivedItemInput } from "@/lib/returns";
+
+/** POST `{ items: [{ id, receivedQty, restock }] }` — lines left out count as not received. */
+export const POST = withPermission("returns.manage", async (
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+  const body = await req.json().catch(() => ({}));
+
+  const items: ReceivedItemInput[] = Array.isArray(body?.items)
+    ? body.items
+        .filter((l: any) => l && typeof l.id === "string")
+        .map((l: any) => ({
+          id: l.id,
+          receivedQty: Number(l.receivedQty),
+          restock: !!l.restock,
+        }))
+    : [];
+
+  try {
+    const rma = await receiveReturn(id, { items, staffId: session.user.id as string });
+    return NextResponse.json(rma);
+  } catch (err: any) {
+    if (err instanceof ReturnError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[returns] receive error:", err);
+    return NextResponse.json({ error: "Failed to receive return" }, { status: 500 });
+  }
+});
@@ -0,0 +1,36 @@
+// app/api/admin/returns/[id]/resolve/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { can } from "@/lib/permissions";
+import { resolveReturn, ReturnError } from "@/lib/returns";
+
+/**
+ * POST: refund the received Refund lines and create the replacement order
+ * for received Exchange lines. Refunds additionally need orders.refund.
+ */
+export const POST = withPermission("returns.manage", async (
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+
+  try {
+    const rma = await resolveReturn(id, {
+      staffId: session.user.id as string,
+      canRefund: can(session.user.role, "orders.refund"),
+    });
+    return NextResponse.json(rma);
+  } catch (err: any) {
+    if (err instanceof ReturnError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[returns] resolve error:", err);
+    return NextResponse.json({ error: "Failed to complete return" }, { status: 500 });
+  }
+});
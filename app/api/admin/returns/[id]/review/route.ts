@@ -0,0 +1,34 @@
+// app/api/admin/returns/[id]/review/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { reviewReturnRequest, ReturnError } from "@/lib/returns";
+
+/** POST `{ approve: boolean, note? }` — a note is required when rejecting. */
+export const POST = withPermission("returns.manage", async (
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+  const { id } = await context.params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const rma = await reviewReturnRequest(id, {
+      approve: body?.approve === true,
+      note: typeof body?.note === "string" ? body.note : null,
+      staffId: session.user.id as string,
+    });
+    return NextResponse.json(rma);
+  } catch (err: any) {
+    if (err instanceof ReturnError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[returns] review error:", err);
+    return NextResponse.json({ error: "Failed to review return" }, { status: 500 });
+  }
+});
@@ -1,14 +1,17 @@
 // app/api/reviews/[reviewId]/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 
 /** Ensure consistent Node runtime */
 export const runtime = "nodejs";
 
-export async function DELETE(
+export const DELETE = withPermission("reviews.moderate", async (
   _req: NextRequest,
-  context: { params: Promise<{ reviewId: string }> }
-) {
+  context: { params: Promise<{ reviewId: string }> },
+  session
+) => {
   try {
     await prismaReady;
 
@@ -20,6 +23,8 @@ export async function DELETE(
       select: {
         id: true,
         rating: true,
+        body: true,
+        customerId: true,
         productId: true,
         product: {
           select: {
@@ -53,17 +58,24 @@ export async function DELETE(
       newAverage = 0;
     }
 
-    // 3) Transaction: delete review + update product
-    await prisma.$transaction([
-      prisma.review.delete({ where: { id: reviewId } }),
-      prisma.product.update({
+    // 3) Transaction: delete review + update product + audit
+    await prisma.$transaction(async (tx) => {
+      await tx.review.delete({ where: { id: reviewId } });
+      await tx.product.update({
         where: { id: productId },
         data: {
           averageRating: newAverage,
           ratingCount: newCount,
         },
-      }),
-    ]);
+      });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Delete",
+        entityType: "Review",
+        entityId: reviewId,
+        before: { productId, customerId: review.customerId, rating, body: review.body },
+      });
+    });
 
     return NextResponse.json({
       success: true,
@@ -81,4 +93,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,28 @@
+// app/api/admin/variants/lookup/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { findVariantByCode } from "@/lib/variantLabels";
+
+/**
+ * GET `?code=…`
+ * Resolves a scanned label (SKU, barcode or variant id) to
+ * `{ variantId, product }`, with the product in the search-products shape.
+ */
+export const GET = withPermission("sales.log", async (req: NextRequest) => {
+  await prismaReady;
+
+  const code = req.nextUrl.searchParams.get("code") ?? "";
+  try {
+    const found = await findVariantByCode(code);
+    if (!found) {
+      return NextResponse.json({ error: `No variant with code "${code.trim()}"` }, { status: 404 });
+    }
+    return NextResponse.json(found);
+  } catch (err) {
+    console.error("[variants/lookup] GET error:", err);
+    return NextResponse.json({ error: "Lookup failed" }, { status: 500 });
+  }
+});
@@ -0,0 +1,57 @@
+// app/api/checkout/abandoned-cart/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prismaReady } from "@/lib/db";
+import { authOptions } from "@/lib/authOptions";
+import { rateLimit } from "@/lib/rateLimiter";
+import { CartSyncInput } from "@/lib/cart";
+import { AbandonedCartError, captureAbandonedCart } from "@/lib/abandonedCarts";
+
+/**
+ * POST { email, currency, items: [{ productId, color, size, quantity, hasSizeMod, customMods? }] }
+ * Checkout snapshot for abandoned cart reminders, sent once the shopper has
+ * entered a valid email. Signed-in customers must use their account email.
+ * Responds `{ captured }`.
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const xff = req.headers.get("x-forwarded-for") ?? "";
+  const ip = xff.split(",")[0].trim() || "unknown";
+  if (!rateLimit(`abandoned-cart:${ip}`).ok) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = CartSyncInput.omit({ mode: true }).safeParse(body);
+  if (!parsed.success || typeof body?.email !== "string") {
+    return NextResponse.json({ error: "Invalid cart" }, { status: 400 });
+  }
+
+  // Signed-in shoppers can only capture for their own address; guests are
+  // also limited per address so nobody can flood someone else's inbox
+  const email = body.email.trim().toLowerCase();
+  const session = await getServerSession(authOptions);
+  const customerId = session?.user?.role === "customer" ? (session.user.id as string) : null;
+  if (customerId) {
+    if (email !== (session!.user.email ?? "").toLowerCase()) {
+      return NextResponse.json({ error: "Email does not match your account" }, { status: 403 });
+    }
+  } else if (!rateLimit(`abandoned-cart:${email}`).ok) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429 });
+  }
+
+  try {
+    const cart = await captureAbandonedCart({ ...parsed.data, email, customerId });
+    return NextResponse.json({ captured: !!cart });
+  } catch (err) {
+    if (err instanceof AbandonedCartError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[checkout/abandoned-cart] capture failed:", err);
+    return NextResponse.json({ error: "Could not save your cart" }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+// app/api/checkout/quote/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import type { Currency } from "@/lib/generated/prisma-client/client";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/authOptions";
+import { PromotionError } from "@/lib/promotions";
+import {
+  buildCheckoutQuote,
+  signQuote,
+  quoteSummary,
+  QuoteError,
+  type QuoteItemInput,
+} from "@/lib/checkoutQuote";
+
+const ALLOWED_CURRENCIES = ["NGN", "USD", "EUR", "GBP"] as const;
+
+/**
+ * POST /api/checkout/quote
+ * Body: { currency, items[], countryIso2?, state?, deliveryOptionId?, pickupLocationId?, shipbubble?, discountCode?, email? }
+ *
+ * Recomputes the full checkout total server-side and returns a signed,
+ * short-lived `quoteId`. Paystack must be charged exactly `totalInNaira`.
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const body = await req.json().catch(() => ({}));
+  const currency = String(body?.currency ?? "").toUpperCase();
+  if (!ALLOWED_CURRENCIES.includes(currency as Currency)) {
+    return NextResponse.json({ error: "Invalid currency" }, { status: 400 });
+  }
+
+  const items: QuoteItemInput[] = Array.isArray(body?.items)
+    ? body.items.map((i: any) => ({
+        productId: String(i?.productId ?? ""),
+        color: i?.color ? String(i.color) : undefined,
+        size: i?.size ? String(i.size) : undefined,
+        quantity: Number(i?.quantity),
+        hasSizeMod: !!i?.hasSizeMod,
+      }))
+    : [];
+
+  const session = await getServerSession(authOptions);
+  const customerId =
+    session?.user?.role === "customer" ? (session.user.id as string) : null;
+
+  try {
+    const quote = await buildCheckoutQuote({
+      currency: currency as Currency,
+      items,
+      countryIso2: typeof body?.countryIso2 === "string" ? body.countryIso2 : null,
+      state: typeof body?.state === "string" ? body.state : null,
+      deliveryOptionId:
+        typeof body?.deliveryOptionId === "string" ? body.deliveryOptionId : null,
+      pickupLocationId:
+        typeof body?.pickupLocationId === "string" ? body.pickupLocationId : null,
+      shipbubble: body?.shipbubble ?? null,
+      discountCode: typeof body?.discountCode === "string" ? body.discountCode : null,
+      email: typeof body?.email === "string" ? body.email : null,
+      customerId,
+    });
+    return NextResponse.json(quoteSummary(quote, signQuote(quote)));
+  } catch (err: any) {
+    if (err instanceof QuoteError || err instanceof PromotionError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("[checkout/quote] failed:", err);
+    return NextResponse.json({ error: "Could not price checkout" }, { status: 500 });
+  }
+}
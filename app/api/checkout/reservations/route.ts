@@ -0,0 +1,85 @@
+// app/api/checkout/reservations/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { rateLimit } from "@/lib/rateLimiter";
+import {
+  reserveStock,
+  releaseReservation,
+  ReservationError,
+  type ReservationItemInput,
+} from "@/lib/stockReservations";
+
+function clientIp(req: NextRequest): string {
+  const xff = req.headers.get("x-forwarded-for") ?? "";
+  return xff.split(",")[0].trim() || "unknown";
+}
+
+/**
+ * POST /api/checkout/reservations
+ * Body: { reference, token?, items: [{ productId, color?, size?, quantity }] }
+ *
+ * Holds the cart for the Paystack `reference` while the payment popup is
+ * open and responds with a `token`. Calling again with the same reference
+ * and token replaces the hold.
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  if (!rateLimit(`reservations:${clientIp(req)}`).ok) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const reference = typeof body?.reference === "string" ? body.reference.trim() : "";
+  const items: ReservationItemInput[] = Array.isArray(body?.items)
+    ? body.items.map((i: any) => ({
+        productId: String(i?.productId ?? ""),
+        color: i?.color ? String(i.color) : undefined,
+        size: i?.size ? String(i.size) : undefined,
+        quantity: Number(i?.quantity),
+      }))
+    : [];
+
+  try {
+    const token = typeof body?.token === "string" ? body.token : null;
+    const hold = await reserveStock(reference, items, token);
+    return NextResponse.json(
+      { reference: hold.reference, expiresAt: hold.expiresAt.toISOString(), token: hold.token },
+      { status: 201 }
+    );
+  } catch (err: any) {
+    if (err instanceof ReservationError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[checkout/reservations] POST failed:", err);
+    return NextResponse.json({ error: "Could not reserve stock" }, { status: 500 });
+  }
+}
+
+/** DELETE /api/checkout/reservations?reference=…&token=… — release a hold early. */
+export async function DELETE(req: NextRequest) {
+  await prismaReady;
+
+  if (!rateLimit(`reservations:${clientIp(req)}`).ok) {
+    return NextResponse.json({ error: "Too many requests" }, { status: 429 });
+  }
+
+  const reference = req.nextUrl.searchParams.get("reference")?.trim();
+  if (!reference) {
+    return NextResponse.json({ error: "Missing reference" }, { status: 400 });
+  }
+
+  try {
+    const released = await releaseReservation(reference, req.nextUrl.searchParams.get("token"));
+    return NextResponse.json({ released });
+  } catch (err) {
+    if (err instanceof ReservationError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[checkout/reservations] DELETE failed:", err);
+    return NextResponse.json({ error: "Could not release stock" }, { status: 500 });
+  }
+}
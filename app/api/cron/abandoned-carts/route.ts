@@ -0,0 +1,30 @@
+// app/api/cron/abandoned-carts/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { isAuthorizedCron } from "@/lib/cronAuth";
+import { sendAbandonedCartReminders } from "@/lib/abandonedCarts";
+
+/** Sweep: expire stale checkout snapshots and send due cart reminder emails. */
+async function run(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  await prismaReady;
+  try {
+    const summary = await sendAbandonedCartReminders();
+    return NextResponse.json({ summary });
+  } catch (err: any) {
+    console.error("[cron/abandoned-carts] failed:", err);
+    return NextResponse.json(
+      { error: "Sweep failed", detail: err?.message || String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,30 @@
+// app/api/cron/low-stock-digest/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { isAuthorizedCron } from "@/lib/cronAuth";
+import { sendLowStockDigest } from "@/lib/lowStock";
+
+/** Daily job: email the low-stock list to ProductAdmin staff. */
+async function run(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  await prismaReady;
+  try {
+    const summary = await sendLowStockDigest();
+    return NextResponse.json({ summary });
+  } catch (err: any) {
+    console.error("[cron/low-stock-digest] failed:", err);
+    return NextResponse.json(
+      { error: "Digest failed", detail: err?.message || String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = run;
+export const POST = run;
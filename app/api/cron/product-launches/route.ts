@@ -0,0 +1,30 @@
+// app/api/cron/product-launches/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { isAuthorizedCron } from "@/lib/cronAuth";
+import { flushLaunchNotifications } from "@/lib/launchNotifications";
+
+/** Sweep: drops whose publishAt has passed → launch emails to their sign-ups. */
+async function run(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  await prismaReady;
+  try {
+    const summary = await flushLaunchNotifications();
+    return NextResponse.json({ summary });
+  } catch (err: any) {
+    console.error("[cron/product-launches] failed:", err);
+    return NextResponse.json(
+      { error: "Sweep failed", detail: err?.message || String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = run;
+export const POST = run;
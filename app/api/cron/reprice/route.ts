@@ -0,0 +1,30 @@
+// app/api/cron/reprice/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { isAuthorizedCron } from "@/lib/cronAuth";
+import { applyReprice } from "@/lib/fxPricing";
+
+/** Scheduled re-price; a no-op unless the store-wide rule has autoReprice on. */
+async function run(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  await prismaReady;
+  try {
+    const summary = await applyReprice({ staffId: null, scheduled: true });
+    return NextResponse.json({ summary });
+  } catch (err: any) {
+    console.error("[cron/reprice] failed:", err);
+    return NextResponse.json(
+      { error: "Re-price failed", detail: err?.message || String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,30 @@
+// app/api/cron/stock-notifications/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { isAuthorizedCron } from "@/lib/cronAuth";
+import { flushStockNotifications } from "@/lib/stockNotifications";
+
+/** Sweep: send back-in-stock emails missed or failed at restock time. */
+async function run(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  await prismaReady;
+  try {
+    const summary = await flushStockNotifications();
+    return NextResponse.json({ summary });
+  } catch (err: any) {
+    console.error("[cron/stock-notifications] failed:", err);
+    return NextResponse.json(
+      { error: "Sweep failed", detail: err?.message || String(err) },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = run;
+export const POST = run;
@@ -3,16 +3,23 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { Currency, DeliveryPricingMode, ShipmentProvider } from "@/lib/generated/prisma-client/client";
+import { DELIVERY_OPTION_ZONES_INCLUDE, resolveDeliveryFee } from "@/lib/shipping/zones";
 
 /**
  * GET /api/delivery-options
  * Query params:
  *  - active: "true"|"1" | "false"|"0"
- *  - pricingMode: "FIXED" | "EXTERNAL"
+ *  - pricingMode: "FIXED" | "EXTERNAL" | "PICKUP"
  *  - provider: string
+ *  - carrier: "SHIPBUBBLE" | "FAKE" (the carrier labels are bought from)
  *  - country: string (filters by metadata.countries if present)
+ *  - countryIso2 + currency: resolve each FIXED option's fee through its
+ *    shipping zones (optional: state, weightKg, subtotal). Options whose
+ *    zones don't cover the destination are left out.
  *
- * NOTE: `type` is no longer supported (PICKUP removed; model has no `type` field).
+ * NOTE: `type` is no longer supported; store pickup is `pricingMode=PICKUP`
+ * (its locations come from GET /api/pickup-locations).
  */
 export async function GET(req: NextRequest) {
   try {
@@ -20,9 +27,12 @@ export async function GET(req: NextRequest) {
 
     const url = new URL(req.url);
     const activeParam = url.searchParams.get("active");
-    const pricingModeParam = url.searchParams.get("pricingMode"); // FIXED | EXTERNAL
+    const pricingModeParam = url.searchParams.get("pricingMode"); // FIXED | EXTERNAL | PICKUP
     const providerParam = url.searchParams.get("provider");
+    const carrierParam = url.searchParams.get("carrier");
     const countryParam = url.searchParams.get("country");
+    const countryIso2Param = url.searchParams.get("countryIso2");
+    const currencyParam = url.searchParams.get("currency")?.toUpperCase() ?? null;
     const legacyTypeParam = url.searchParams.get("type"); // no longer supported
 
     // Hard fail if legacy `type` is provided to avoid silent confusion
@@ -48,9 +58,9 @@ export async function GET(req: NextRequest) {
 
     if (pricingModeParam) {
       const pm = pricingModeParam.toUpperCase();
-      if (pm !== "FIXED" && pm !== "EXTERNAL") {
+      if (!(pm in DeliveryPricingMode)) {
         return NextResponse.json(
-          { error: "Invalid `pricingMode`; must be FIXED or EXTERNAL" },
+          { error: "Invalid `pricingMode`; must be FIXED, EXTERNAL or PICKUP" },
           { status: 400 }
         );
       }
@@ -61,9 +71,28 @@ export async function GET(req: NextRequest) {
       where.provider = providerParam;
     }
 
+    if (carrierParam) {
+      const c = carrierParam.toUpperCase();
+      if (!(c in ShipmentProvider)) {
+        return NextResponse.json(
+          { error: `Invalid \`carrier\`; must be one of ${Object.keys(ShipmentProvider).join(", ")}` },
+          { status: 400 }
+        );
+      }
+      where.carrier = c;
+    }
+
+    if (currencyParam && !(currencyParam in Currency)) {
+      return NextResponse.json(
+        { error: `Invalid \`currency\`; must be one of ${Object.keys(Currency).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
     let options = await prisma.deliveryOption.findMany({
       where,
       orderBy: { createdAt: "desc" },
+      include: DELIVERY_OPTION_ZONES_INCLUDE,
     });
 
     // Optional country filter via metadata.countries: string[]
@@ -79,16 +108,42 @@ export async function GET(req: NextRequest) {
       });
     }
 
+    // Zone-resolved fee, when the destination and currency are known
+    const destination =
+      countryIso2Param && currencyParam
+        ? {
+            countryIso2: countryIso2Param,
+            state: url.searchParams.get("state"),
+            currency: currencyParam as Currency,
+            weightKg: Number(url.searchParams.get("weightKg")) || 0,
+            subtotal: Number(url.searchParams.get("subtotal")) || 0,
+          }
+        : null;
+    const resolved = new Map(
+      options.map((o) => [
+        o.id,
+        destination && o.pricingMode === "FIXED" ? resolveDeliveryFee(o, destination) : undefined,
+      ])
+    );
+    if (destination) {
+      options = options.filter((o) => resolved.get(o.id) !== null);
+    }
+
     // Shape response explicitly
     const result = options.map((o) => ({
       id: o.id,
       name: o.name,
       provider: o.provider,                 // e.g., "LocalCourier", "DHL", "FedEx"
-      pricingMode: o.pricingMode,           // "FIXED" | "EXTERNAL"
-      baseFee: o.baseFee,                   // present only for FIXED
+      carrier: o.carrier,                   // "SHIPBUBBLE" | "FAKE" | null (store default)
+      pricingMode: o.pricingMode,           // "FIXED" | "EXTERNAL" | "PICKUP"
+      baseFee: o.baseFee,                   // FIXED and PICKUP (usually 0)
       baseCurrency: o.baseCurrency,         // optional, pairs with baseFee
       active: o.active,
-      metadata: o.metadata,                 // zones, countries, external IDs, etc.
+      metadata: o.metadata,                 // countries, external IDs, etc.
+      fee: resolved.get(o.id)?.fee ?? null, // zone-resolved (FIXED + destination only)
+      feeCurrency: resolved.get(o.id)?.currency ?? null,
+      freeShipping: resolved.get(o.id)?.freeShipping ?? false,
+      zoneName: resolved.get(o.id)?.zoneName ?? null,
       createdAt: o.createdAt,
       updatedAt: o.updatedAt,
     }));
@@ -1,18 +1,9 @@
 // app/api/fx/_utils.ts
 
-type OpenERApi = {
-  result: "success" | "error";
-  time_last_update_unix: number;
-  time_next_update_unix: number;
-  base_code: string;
-  rates: Record<string, number>;
-};
+import type { OpenERApi } from "@/lib/fxRates";
 
-// Simple in-memory cache (per region)
-const mem = new Map<string, { at: number; ttl: number; data: OpenERApi }>();
-
-// 30 minutes default; clamp to provider's nextUpdate
-const DEFAULT_TTL = 30 * 60 * 1000;
+// Fetching, caching, snapshots and provider fallback live in lib/fxRates
+export { fetchOpenErLatest } from "@/lib/fxRates";
 
 export function ok(data: any, ttlMs?: number) {
   const headers = new Headers({
@@ -30,32 +21,6 @@ export function bad(msg: string, code = 400) {
   });
 }
 
-export async function fetchOpenErLatest(base: string): Promise<OpenERApi> {
-  const key = `latest:${base.toUpperCase()}`;
-  const now = Date.now();
-
-  const hit = mem.get(key);
-  if (hit && now - hit.at < hit.ttl) {
-    return hit.data;
-  }
-
-  const url = `https://open.er-api.com/v6/latest/${encodeURIComponent(base)}`;
-  const res = await fetch(url, { cache: "no-store", next: { revalidate: 0 } });
-  if (!res.ok) {
-    // serve stale if we have it
-    if (hit) return hit.data;
-    throw new Error(`open.er-api.com ${res.status}`);
-  }
-  const json = (await res.json()) as OpenERApi;
-  if (json.result !== "success") throw new Error("FX provider returned error");
-
-  const providerNext = Math.max(0, (json.time_next_update_unix * 1000) - now);
-  const ttl = Math.min(DEFAULT_TTL, providerNext || DEFAULT_TTL);
-
-  mem.set(key, { at: now, ttl, data: json });
-  return json;
-}
-
 export function pickRates(
   data: OpenERApi,
   symbolsCsv?: string
@@ -33,6 +33,8 @@ export async function GET(req: Request) {
       nextUpdate: data.time_next_update_unix,
       ttlSeconds,
       source: "open.er-api.com",
+      // true = provider unreachable; these are the last stored rates
+      stale: data.stale,
     });
   } catch (e: any) {
     return bad(e?.message || "FX upstream failed", 503);
@@ -24,6 +24,8 @@ export async function GET(req: Request) {
       ttlSeconds,
       rates,
       source: "open.er-api.com",
+      // true = provider unreachable; these are the last stored rates
+      stale: data.stale,
     });
   } catch (e: any) {
     return bad(e?.message || "FX upstream failed", 503);
@@ -37,6 +37,8 @@ export async function GET(req: Request) {
       ttlSeconds,
       quotes,
       source: "open.er-api.com",
+      // true = provider unreachable; these are the last stored rates
+      stale: data.stale,
     });
   } catch (e: any) {
     return bad(e?.message || "FX upstream failed", 503);
@@ -0,0 +1,44 @@
+// app/api/launch-notifications/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prismaReady } from "@/lib/db";
+import { authOptions } from "@/lib/authOptions";
+import { subscribeToLaunch, LaunchNotificationError } from "@/lib/launchNotifications";
+
+/**
+ * POST { productId, email? }
+ * "Notify me when it launches" on a coming-soon product. Signed-in customers
+ * may omit `email`; their account is linked to the sign-up.
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const session = await getServerSession(authOptions);
+  const customer =
+    session?.user?.role === "customer" && session.user.id
+      ? { id: session.user.id as string, email: session.user.email ?? "" }
+      : null;
+
+  try {
+    const notification = await subscribeToLaunch({
+      productId: String(body.productId ?? ""),
+      email: String(body.email || customer?.email || ""),
+      customerId: customer?.id ?? null,
+    });
+    return NextResponse.json({ notification }, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof LaunchNotificationError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[launch-notifications] subscribe failed:", err);
+    return NextResponse.json({ error: "Could not save your request" }, { status: 500 });
+  }
+}
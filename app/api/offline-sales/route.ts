@@ -3,6 +3,7 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
 import {
   Prisma,
   Currency as CurrencyEnum,
@@ -10,6 +11,19 @@ import {
   OrderStatus,
 } from "@/lib/generated/prisma-client/client";
 import { sendGenericEmail } from "@/lib/mail";
+import {
+  resolvePromotion,
+  redeemPromotion,
+  promotionSnapshot,
+  netItemsNGN,
+  PromotionError,
+  type PromotionLine,
+} from "@/lib/promotions";
+import { adjustStock } from "@/lib/inventory";
+import { heldQuantities } from "@/lib/stockReservations";
+import { resolveCompareAt, resolveUnitPrice } from "@/lib/variantPricing";
+import { rateToNGN } from "@/lib/fxRates";
+import { closeAbandonedCarts } from "@/lib/abandonedCarts";
 
 /* ────────────────────────────────────────────────────────────
    Types
@@ -177,30 +191,32 @@ function normalizeShipbubbleDeliveryDetails(dd: unknown): unknown {
 /* ────────────────────────────────────────────────────────────
    POST /api/offline-sales
    ──────────────────────────────────────────────────────────── */
-export async function POST(req: NextRequest) {
+export const POST = withPermission("sales.log", async (req: NextRequest, _context: unknown, session) => {
   try {
     await prismaReady;
 
+    const staffId = session.user.id;
+
     const {
       items,
       customer,
       paymentMethod,
       currency,
-      staffId,
       timestamp,
       deliveryOptionId,
       deliveryFee: incomingDeliveryFee,
       deliveryDetails,
+      discountCode,
     }: {
       items: IncomingItem[];
       customer?: IncomingCustomer;
       paymentMethod: string;
       currency: string;
-      staffId: string;
       timestamp?: string | number | Date;
       deliveryOptionId?: string;
       deliveryFee?: number;
       deliveryDetails?: unknown;
+      discountCode?: string;
     } = await req.json();
 
     // ── Basic validations
@@ -213,12 +229,6 @@ export async function POST(req: NextRequest) {
         { status: 400 }
       );
     }
-    if (!staffId || typeof staffId !== "string") {
-      return NextResponse.json(
-        { error: "staffId is required" },
-        { status: 400 }
-      );
-    }
     if (!CURRENCIES.includes(currency as CurrencyCode)) {
       return NextResponse.json(
         { error: "Invalid or missing currency" },
@@ -334,6 +344,12 @@ export async function POST(req: NextRequest) {
       // so you should ensure you have at least one Shipbubble deliveryOption in DB.
     }
 
+    // Rate to NGN on the day, for finance (a sale is never blocked by FX)
+    const fx = await rateToNGN(currencyEnum).catch((err) => {
+      console.warn("[offline-sales] FX rate unavailable:", err);
+      return null;
+    });
+
     // Normalize JSON input for Prisma storage
     const deliveryDetailsInput = toPrismaJson(normalizedDeliveryDetails);
 
@@ -379,9 +395,16 @@ export async function POST(req: NextRequest) {
           );
         }
 
+        // stock left after active checkout holds, shared by lines of one variant
+        const held = await heldQuantities(tx, variants.map((v) => v.id));
+        const available = new Map(
+          variants.map((v) => [v.id, v.stock - (held.get(v.id) ?? 0)])
+        );
+
         let totalAmount = 0; // in selected currency
         let totalNGN = 0; // mirror in NGN
         const itemsCreateData: any[] = [];
+        const promotionLines: PromotionLine[] = [];
 
         for (const raw of items) {
           const vKey = keyOf(raw.productId, raw.color, raw.size);
@@ -390,32 +413,13 @@ export async function POST(req: NextRequest) {
             throw new Error(
               `Variant not found: ${raw.productId} ${raw.color}/${raw.size}`
             );
-          if (variant.stock < raw.quantity)
+          const left = available.get(variant.id) ?? 0;
+          if (left < raw.quantity)
             throw new Error(`Insufficient stock for ${variant.product.name}`);
+          available.set(variant.id, left - raw.quantity);
 
-          // decrement stock
-          await tx.variant.update({
-            where: { id: variant.id },
-            data: { stock: { decrement: raw.quantity } },
-          });
-
-          // unit price in selected currency
-          let unitPrice = 0;
-          switch (currencyEnum) {
-            case "USD":
-              unitPrice = variant.product.priceUSD ?? 0;
-              break;
-            case "EUR":
-              unitPrice = variant.product.priceEUR ?? 0;
-              break;
-            case "GBP":
-              unitPrice = variant.product.priceGBP ?? 0;
-              break;
-            case "NGN":
-            default:
-              unitPrice = variant.product.priceNGN ?? 0;
-              break;
-          }
+          // unit price in selected currency (variant override, else product)
+          const unitPrice = resolveUnitPrice(variant.product, variant, currencyEnum);
 
           // size mod (5%) only if product allows and user requested
           let lineTotal = unitPrice * raw.quantity;
@@ -427,18 +431,27 @@ export async function POST(req: NextRequest) {
           if (applicableSizeMod) lineTotal += sizeModFee;
 
           totalAmount += lineTotal;
-          const ngnUnit = variant.product.priceNGN ?? 0;
+          promotionLines.push({
+            productId: variant.productId,
+            categorySlug: variant.product.categorySlug,
+            quantity: raw.quantity,
+            lineTotal,
+          });
+          const ngnUnit = resolveUnitPrice(variant.product, variant, "NGN");
           totalNGN += ngnUnit * raw.quantity;
 
           const orderItem: any = {
             variantId: variant.id,
             name: variant.product.name,
+            sku: variant.sku,
             image: Array.isArray(variant.product.images)
               ? variant.product.images[0] ?? null
               : null,
             category: variant.product.categorySlug,
             quantity: raw.quantity,
             currency: currencyEnum,
+            unitPrice,
+            compareAtPrice: resolveCompareAt(variant.product, variant, currencyEnum),
             lineTotal,
             color: variant.color || "N/A",
             size: variant.size || "N/A",
@@ -457,6 +470,19 @@ export async function POST(req: NextRequest) {
             ? incomingDeliveryFee
             : deliveryOptionRecord?.baseFee ?? 0;
 
+        // discount code (same rules as online checkout)
+        const promotion =
+          discountCode && discountCode.trim()
+            ? await resolvePromotion(tx, {
+                code: discountCode,
+                currency: currencyEnum,
+                lines: promotionLines,
+                deliveryFee: resolvedDeliveryFee,
+                customerId,
+                email: existingCustomer?.email ?? guestInfo?.email,
+              })
+            : null;
+
         // ── Reserve the next sequential serial and format the branded ID
         const nextSerial = await tx.orderSerial.create({ data: {} });
         const orderId = formatOrderIdFromSerial(nextSerial.id);
@@ -467,13 +493,26 @@ export async function POST(req: NextRequest) {
           );
         }
 
+        // decrement stock (logged against the new order)
+        for (const line of itemsCreateData) {
+          await adjustStock(tx, {
+            variantId: line.variantId,
+            delta: -line.quantity,
+            reason: "Sale",
+            orderId,
+            staffId,
+          });
+        }
+
         const createdOrder = await tx.order.create({
           data: {
             id: orderId,
             status: OrderStatus.Processing,
             currency: currencyEnum,
-            totalAmount, // items only
-            totalNGN: Math.round(totalNGN),
+            totalAmount, // items only, before discount
+            totalNGN: netItemsNGN(totalNGN, totalAmount, promotion?.itemsDiscount),
+            fxRateToNGN: fx?.rate ?? null,
+            fxSnapshotId: fx?.snapshotId ?? null,
             paymentMethod,
             createdAt: timestamp ? new Date(timestamp) : new Date(),
             ...(customerId ? { customerId } : {}),
@@ -495,6 +534,14 @@ export async function POST(req: NextRequest) {
             ...(deliveryDetailsInput !== undefined
               ? { deliveryDetails: deliveryDetailsInput }
               : {}),
+            ...(promotion
+              ? {
+                  promotionId: promotion.promotionId,
+                  discountCode: promotion.code,
+                  discountAmount: promotion.discountAmount,
+                  discountDetails: promotionSnapshot(promotion),
+                }
+              : {}),
           },
           include: {
             items: true,
@@ -503,6 +550,16 @@ export async function POST(req: NextRequest) {
           },
         });
 
+        if (promotion) {
+          await redeemPromotion(tx, {
+            promotion,
+            orderId: createdOrder.id,
+            customerId,
+            email: existingCustomer?.email ?? guestInfo?.email ?? "",
+            currency: currencyEnum,
+          });
+        }
+
         await tx.offlineSale.create({
           data: {
             orderId: createdOrder.id,
@@ -527,16 +584,24 @@ export async function POST(req: NextRequest) {
       name = `${guestInfo.firstName} ${guestInfo.lastName}`;
     }
 
+    // In-store purchase also ends any online cart reminders for this shopper
+    try {
+      await closeAbandonedCarts([to], { id: order.id, totalNGN: order.totalNGN });
+    } catch (err) {
+      console.warn("[offline-sales] Failed to close abandoned carts", err);
+    }
+
     if (to && name) {
       const receiptStatus = await prisma.receiptEmailStatus.findUnique({
         where: { orderId: order.id },
       });
 
       try {
-        // ✅ VAT REMOVED: totals are now Subtotal + Delivery only
+        // ✅ VAT REMOVED: totals are now Subtotal + Delivery − Discount
         const subtotal = +order.totalAmount.toFixed(2);
         const deliveryCharge = order.deliveryFee ?? 0;
-        const grandTotal = +(subtotal + deliveryCharge).toFixed(2);
+        const discount = order.discountAmount ?? 0;
+        const grandTotal = +(subtotal + deliveryCharge - discount).toFixed(2);
 
         const sym =
           order.currency === "NGN"
@@ -668,6 +733,13 @@ export async function POST(req: NextRequest) {
             <div style="margin-top:24px;font-family:monospace">
               <p style="margin:6px 0">Subtotal: <strong>${sym}${subtotal.toLocaleString()}</strong></p>
               <p style="margin:6px 0">Delivery: <strong>${sym}${deliveryCharge.toLocaleString()}</strong></p>
+              ${
+                discount > 0
+                  ? `<p style="margin:6px 0">Discount${
+                      order.discountCode ? ` (${order.discountCode})` : ""
+                    }: <strong>−${sym}${discount.toLocaleString()}</strong></p>`
+                  : ""
+              }
               <p style="margin:6px 0">Grand Total: <strong>${sym}${grandTotal.toLocaleString()}</strong></p>
             </div>
 
@@ -736,10 +808,11 @@ export async function POST(req: NextRequest) {
   } catch (err: any) {
     console.error("Offline-sale POST error:", err);
     const msg =
-      typeof err?.message === "string" && err.message.startsWith("Insufficient")
+      err instanceof PromotionError ||
+      (typeof err?.message === "string" && err.message.startsWith("Insufficient"))
         ? err.message
         : "Internal Server Error";
     const status = msg === "Internal Server Error" ? 500 : 400;
     return NextResponse.json({ error: msg }, { status });
   }
-}
+});
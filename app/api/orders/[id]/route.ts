@@ -5,15 +5,21 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
 import { OrderStatus } from "@/lib/generated/prisma-client/client";
 import { sendStatusEmail } from "@/lib/mail";
+import { adjustStock } from "@/lib/inventory";
+import { flushStockNotifications } from "@/lib/stockNotifications";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 
-// Keep this in sync with your Prisma enum
+// Keep this in sync with your Prisma enum. ReadyForPickup is only set by
+// /api/admin/orders/[id]/pickup/ready, which issues the collection code.
 const ALLOWED_STATUSES = ["Processing", "Shipped", "Delivered", "Cancelled"] as const;
 type AllowedStatus = (typeof ALLOWED_STATUSES)[number];
 
-export async function PATCH(
+export const PATCH = withPermission("orders.fulfil", async (
   req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
   await prismaReady;
 
   const { id: orderId } = await context.params;
@@ -34,11 +40,22 @@ export async function PATCH(
           select: {
             variantId: true,
             quantity: true,
+            // units already back on the shelf via refunds and returns
+            refundItems: {
+              where: { restock: true, refund: { status: { not: "Failed" } } },
+              select: { quantity: true },
+            },
+            returnItems: {
+              where: { restocked: true },
+              select: { receivedQty: true },
+            },
           },
         },
         customer: {
           select: { firstName: true, lastName: true, email: true },
         },
+        pickup: { select: { collectedAt: true } },
+        shipments: { select: { status: true } },
       },
     });
 
@@ -49,6 +66,38 @@ export async function PATCH(
     const currentStatus = existing.status;
     const nextStatus = status as OrderStatus;
 
+    // Store pickup orders are handed over with the customer's code
+    if (
+      existing.pickup &&
+      !existing.pickup.collectedAt &&
+      (nextStatus === OrderStatus.Shipped || nextStatus === OrderStatus.Delivered)
+    ) {
+      return NextResponse.json(
+        { error: "Pickup orders are completed by verifying the collection code" },
+        { status: 409 }
+      );
+    }
+
+    // Parcel orders take their status from their shipments (lib/fulfilment)
+    if (
+      existing.shipments.length > 0 &&
+      (nextStatus === OrderStatus.Shipped || nextStatus === OrderStatus.Delivered)
+    ) {
+      return NextResponse.json(
+        { error: "This order's status follows its shipments" },
+        { status: 409 }
+      );
+    }
+    if (
+      nextStatus === OrderStatus.Cancelled &&
+      existing.shipments.some((s) => s.status !== "CANCELLED" && s.status !== "FAILED")
+    ) {
+      return NextResponse.json(
+        { error: "Orders with shipments in progress or delivered can't be cancelled" },
+        { status: 409 }
+      );
+    }
+
     // If no change, don't touch stock
     if (currentStatus === nextStatus) {
       return NextResponse.json({ success: true, order: existing });
@@ -62,27 +111,50 @@ export async function PATCH(
       currentStatus === OrderStatus.Cancelled &&
       nextStatus !== OrderStatus.Cancelled;
 
+    const staffId = session.user.id;
+
     // 2) Transaction: adjust variant stock if crossing Cancelled boundary,
     //    then update status
     const updated = await prisma.$transaction(async (tx) => {
       if (goingToCancelled || leavingCancelled) {
         for (const item of existing.items) {
+          const restocked =
+            item.refundItems.reduce((sum, r) => sum + r.quantity, 0) +
+            item.returnItems.reduce((sum, r) => sum + (r.receivedQty ?? 0), 0);
+          const outstanding = Math.max(item.quantity - restocked, 0);
+
           if (goingToCancelled) {
-            // Cancel → put stock back
-            await tx.variant.update({
-              where: { id: item.variantId },
-              data: { stock: { increment: item.quantity } },
+            // Cancel → put back what is still out
+            await adjustStock(tx, {
+              variantId: item.variantId,
+              delta: outstanding,
+              reason: "Cancel",
+              orderId,
+              staffId,
             });
           } else if (leavingCancelled) {
-            // Un-cancel → take stock out again
-            await tx.variant.update({
-              where: { id: item.variantId },
-              data: { stock: { decrement: item.quantity } },
+            // Un-cancel → take the same units out again
+            await adjustStock(tx, {
+              variantId: item.variantId,
+              delta: -outstanding,
+              reason: "Sale",
+              orderId,
+              staffId,
+              note: "Order un-cancelled",
             });
           }
         }
       }
 
+      await recordAudit(tx, {
+        staffId,
+        action: "StatusChange",
+        entityType: "Order",
+        entityId: orderId,
+        before: { status: currentStatus },
+        after: { status: nextStatus },
+      });
+
       return tx.order.update({
         where: { id: orderId },
         data: { status: nextStatus },
@@ -96,6 +168,15 @@ export async function PATCH(
       });
     });
 
+    // Cancelled stock may bring sold-out variants back (best-effort)
+    if (goingToCancelled) {
+      try {
+        await flushStockNotifications(existing.items.map((i) => i.variantId));
+      } catch (notifyErr) {
+        console.warn(`⚠️ Back-in-stock emails failed after cancelling ${orderId}:`, notifyErr);
+      }
+    }
+
     // 3) Derive recipient (registered customer or guestInfo)
     let to: string | undefined;
     let name: string | undefined;
@@ -139,4 +220,4 @@ export async function PATCH(
     console.error("Error updating order status:", err);
     return NextResponse.json({ error: "Could not update status" }, { status: 500 });
   }
-}
+});
@@ -10,9 +10,33 @@ import {
   OrderStatus,
 } from "@/lib/generated/prisma-client/client";
 import { sendReceiptEmailWithRetry } from "@/lib/mail";
+import { formatPickupAddress } from "@/lib/pickup";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/authOptions";
 import { verifyTransaction, PaystackError } from "@/lib/paystack";
+import {
+  resolvePromotion,
+  redeemPromotion,
+  promotionSnapshot,
+  netItemsNGN,
+  PromotionError,
+  type PromotionLine,
+  type PromotionResult,
+} from "@/lib/promotions";
+import {
+  verifyQuote,
+  quoteMatchesCart,
+  quoteLineKey,
+  QuoteError,
+  type CheckoutQuote,
+} from "@/lib/checkoutQuote";
+import {
+  convertReservation,
+  heldQuantities,
+  ReservationError,
+} from "@/lib/stockReservations";
+import { resolveCompareAt, resolveUnitPrice } from "@/lib/variantPricing";
+import { closeAbandonedCarts } from "@/lib/abandonedCarts";
 import type {
   CartItemPayload,
   CustomerPayload,
@@ -25,6 +49,29 @@ function toLowest(amount: number): number {
   return Math.round(amount * 100);
 }
 
+/** Keep a verified-but-unusable payment for reconciliation/refund. */
+async function recordOrphan(reference: string, paystackTx: any, note: string) {
+  try {
+    await prisma.orphanPayment.upsert({
+      where: { reference },
+      create: {
+        reference,
+        amount: paystackTx?.amount ?? 0,
+        currency: paystackTx?.currency ?? "NGN",
+        payload: (paystackTx ?? {}) as any,
+        reconciled: false,
+        resolutionNote: note,
+      },
+      update: {
+        payload: (paystackTx ?? {}) as any,
+        resolutionNote: `Updated: ${note}`,
+      },
+    });
+  } catch {
+    // swallow
+  }
+}
+
 type ShipbubbleShippingPayload = {
   requestToken: string;
   serviceCode: string;
@@ -41,23 +88,17 @@ interface OnlineOrderPayload {
   paymentMethod: string;
   currency: string;
   timestamp?: string;
-  deliveryFee?: number;
-  deliveryOptionId?: string | null;
   paymentReference: string;
   /**
-   * Total that was actually charged via Paystack in NGN (major units),
-   * i.e. what the frontend shows as "≈ ₦X via Paystack".
-   * This includes the Paystack gateway fee.
-   */
-  totalInNaira?: number;
-  /**
-   * Paystack transaction fee (gateway charge) that was included in totalInNaira,
-   * in NGN (major units).
+   * Signed quote from POST /api/checkout/quote. Delivery fee, discount,
+   * FX and the Paystack amount all come from here, never from the client.
    */
-  paystackFeeInNaira?: number;
+  quoteId: string;
   shipping?: {
-    source?: "shipbubble" | string;
+    source?: "shipbubble" | "pickup" | string;
     shipbubble?: ShipbubbleShippingPayload;
+    /** Store pickup: the PickupLocation chosen at checkout. */
+    pickupLocationId?: string;
   };
 }
 
@@ -70,6 +111,7 @@ export async function POST(req: NextRequest) {
   await prismaReady;
 
   let requestPaymentReference: string | undefined;
+  let verifiedPaystackTx: any;
 
   try {
     const payload: OnlineOrderPayload = await req.json();
@@ -79,12 +121,9 @@ export async function POST(req: NextRequest) {
       paymentMethod,
       currency,
       timestamp,
-      deliveryFee = 0,
-      deliveryOptionId,
       paymentReference,
       shipping,
-      totalInNaira,
-      paystackFeeInNaira,
+      quoteId,
     } = payload;
 
     requestPaymentReference = paymentReference;
@@ -124,6 +163,8 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: msg }, { status: 400 });
     }
 
+    verifiedPaystackTx = paystackTx;
+
     const paystackCurrency = String(paystackTx.currency).toUpperCase();
     // We only require that Paystack uses a supported currency.
     // The "display currency" for the order is the user's selected currency,
@@ -137,27 +178,6 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const isShipbubbleFlow =
-      shipping?.source === "shipbubble" && !!shipping?.shipbubble;
-
-    if (deliveryOptionId && !isShipbubbleFlow) {
-      const deliveryOpt = await prisma.deliveryOption.findUnique({
-        where: { id: deliveryOptionId },
-      });
-      if (!deliveryOpt) {
-        return NextResponse.json(
-          { error: "Invalid deliveryOptionId provided" },
-          { status: 400 }
-        );
-      }
-      if (!deliveryOpt.active) {
-        return NextResponse.json(
-          { error: "Delivery option is not active" },
-          { status: 400 }
-        );
-      }
-    }
-
     const existingOrder = await prisma.order.findUnique({
       where: { paymentReference },
       include: {
@@ -210,7 +230,7 @@ export async function POST(req: NextRequest) {
             order: fullOrder,
             recipient: recipientForExisting,
             currency: normalizedCurrency,
-            deliveryFee: typeof deliveryFee === "number" ? deliveryFee : 0,
+            deliveryFee: fullOrder.deliveryFee ?? 0,
           });
         }
       } catch (err) {
@@ -232,10 +252,68 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Signed quote: must be valid when the payment was made and cover this cart
+    let quote: CheckoutQuote;
+    try {
+      const paidAt = paystackTx.paid_at ? new Date(paystackTx.paid_at) : new Date();
+      quote = verifyQuote(quoteId, paidAt);
+      if (quote.currency !== normalizedCurrency) {
+        throw new QuoteError("Checkout quote currency does not match the order");
+      }
+      if (!quoteMatchesCart(quote, items)) {
+        throw new QuoteError("Cart changed after the checkout quote was issued");
+      }
+      const sb = shipping?.shipbubble;
+      if (
+        quote.delivery.kind === "shipbubble" &&
+        (!sb ||
+          sb.requestToken !== quote.delivery.requestToken ||
+          sb.serviceCode !== quote.delivery.serviceCode)
+      ) {
+        throw new QuoteError("Delivery option changed after the checkout quote was issued");
+      }
+      if (
+        quote.delivery.kind === "pickup" &&
+        shipping?.pickupLocationId !== quote.delivery.pickupLocationId
+      ) {
+        throw new QuoteError("Pickup location changed after the checkout quote was issued");
+      }
+    } catch (err: any) {
+      if (!(err instanceof QuoteError)) throw err;
+      await recordOrphan(paymentReference, paystackTx, `Quote rejected: ${err.message}`);
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+
+    // Paystack must have charged exactly the quoted NGN amount
+    const expectedLowest = toLowest(quote.totalInNaira);
+    if (paystackTx.amount !== expectedLowest) {
+      const note = `Amount mismatch: quote ${quote.id} expected ${expectedLowest}, got ${paystackTx.amount}`;
+      await recordOrphan(paymentReference, paystackTx, note);
+      return NextResponse.json(
+        { error: `Payment amount does not match checkout quote: expected ${expectedLowest}, got ${paystackTx.amount}` },
+        { status: 400 }
+      );
+    }
+
+    const isShipbubbleFlow = quote.delivery.kind === "shipbubble";
+    const deliveryOptionId =
+      quote.delivery.kind === "fixed" || quote.delivery.kind === "pickup"
+        ? quote.delivery.deliveryOptionId
+        : null;
+    const pickupLocation =
+      quote.delivery.kind === "pickup"
+        ? await prisma.pickupLocation.findUnique({
+            where: { id: quote.delivery.pickupLocationId },
+          })
+        : null;
+    const deliveryFee = quote.deliveryFee;
+    const quoteLines = new Map(quote.lines.map((l) => [quoteLineKey(l), l]));
+
     let itemsSubtotal = 0;
     let totalNGN = 0;
     let aggregatedWeight = 0;
     const itemsCreateData: any[] = [];
+    const promotionLines: PromotionLine[] = [];
 
     for (const i of items) {
       const where: Record<string, any> = { productId: i.productId };
@@ -254,37 +332,35 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      if (variant.stock < i.quantity) {
+      // Early check against everyone else's holds; this payment's own hold
+      // is converted inside the transaction below.
+      const othersHeld = await heldQuantities(prisma, [variant.id], {
+        excludeReference: paymentReference,
+      });
+      if (variant.stock - (othersHeld.get(variant.id) ?? 0) < i.quantity) {
+        await recordOrphan(
+          paymentReference,
+          paystackTx,
+          `Insufficient stock for ${variant.product.name}`
+        );
         return NextResponse.json(
           { error: `Insufficient stock for ${variant.product.name}` },
-          { status: 400 }
+          { status: 409 }
         );
       }
 
-      let unitPrice = 0;
-      switch (normalizedCurrency) {
-        case "USD":
-          unitPrice = variant.product.priceUSD ?? 0;
-          break;
-        case "EUR":
-          unitPrice = variant.product.priceEUR ?? 0;
-          break;
-        case "GBP":
-          unitPrice = variant.product.priceGBP ?? 0;
-          break;
-        case "NGN":
-        default:
-          unitPrice = variant.product.priceNGN ?? 0;
-          break;
-      }
-
-      let lineTotal = unitPrice * i.quantity;
-      if (i.hasSizeMod && i.sizeModFee) {
-        lineTotal += i.sizeModFee * i.quantity;
-      }
+      // Price exactly as quoted (and paid), not from the current catalogue
+      const quoted = quoteLines.get(quoteLineKey(i))!;
+      const lineTotal = +((quoted.unitPrice + quoted.sizeModFee) * i.quantity).toFixed(2);
       itemsSubtotal += lineTotal;
+      promotionLines.push({
+        productId: variant.productId,
+        categorySlug: variant.product.categorySlug,
+        quantity: i.quantity,
+        lineTotal,
+      });
 
-      const ngnUnitPrice = variant.product.priceNGN ?? 0;
+      const ngnUnitPrice = resolveUnitPrice(variant.product, variant, "NGN");
       totalNGN += ngnUnitPrice * i.quantity;
 
       const unitWeight =
@@ -301,15 +377,18 @@ export async function POST(req: NextRequest) {
       itemsCreateData.push({
         variantId: variant.id,
         name: variant.product.name,
+        sku: variant.sku,
         image: variant.product.images[0] ?? null,
         category: variant.product.categorySlug,
         quantity: i.quantity,
         currency: normalizedCurrency as CurrencyEnum,
+        unitPrice: quoted.unitPrice,
+        compareAtPrice: resolveCompareAt(variant.product, variant, normalizedCurrency as CurrencyEnum),
         lineTotal,
         color: variant.color || "N/A",
         size: variant.size || "N/A",
-        hasSizeMod: !!i.hasSizeMod,
-        sizeModFee: i.sizeModFee ?? 0,
+        hasSizeMod: quoted.hasSizeMod,
+        sizeModFee: quoted.sizeModFee,
         customSize: {
           ...(customMeasurements ?? {}),
           unitWeight,
@@ -318,86 +397,6 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    const orderTotal =
-      itemsSubtotal + (typeof deliveryFee === "number" ? deliveryFee : 0);
-
-    /**
-     * For amount verification:
-     * - If frontend sent totalInNaira, we trust that as the NGN amount charged
-     *   (items + delivery + Paystack gateway fee) and compare to Paystack's amount.
-     * - Otherwise, fall back to old behaviour (orderTotal in selected currency).
-     */
-    let expectedLowest: number;
-    if (
-      typeof totalInNaira === "number" &&
-      Number.isFinite(totalInNaira) &&
-      totalInNaira >= 0
-    ) {
-      expectedLowest = toLowest(totalInNaira);
-    } else {
-      expectedLowest = toLowest(orderTotal);
-    }
-
-    // The user must not underpay.
-    // If the user paid LESS than expected, stop and store orphan.
-    if (paystackTx.amount < expectedLowest) {
-      try {
-        await prisma.orphanPayment.upsert({
-          where: { reference: paymentReference },
-          create: {
-            reference: paymentReference,
-            amount: paystackTx.amount,
-            currency: paystackTx.currency,
-            payload: paystackTx as any,
-            reconciled: false,
-            resolutionNote: `Underpayment: expected ${expectedLowest}, got ${paystackTx.amount}`,
-          },
-          update: {
-            payload: paystackTx as any,
-            amount: paystackTx.amount,
-            currency: paystackTx.currency,
-            resolutionNote: `Updated: underpayment: expected ${expectedLowest}, got ${paystackTx.amount}`,
-          },
-        });
-      } catch {
-        // swallow
-      }
-
-      return NextResponse.json(
-        {
-          error: `Payment underpaid: expected ${expectedLowest}, got ${paystackTx.amount}`,
-        },
-        { status: 400 }
-      );
-    }
-
-    // If user paid MORE than expected, allow order creation,
-    // but log this mismatch for admin/reconciliation.
-    if (paystackTx.amount > expectedLowest) {
-      try {
-        await prisma.orphanPayment.upsert({
-          where: { reference: paymentReference },
-          create: {
-            reference: paymentReference,
-            amount: paystackTx.amount,
-            currency: paystackTx.currency,
-            payload: paystackTx as any,
-            reconciled: false,
-            resolutionNote: `Overpayment: expected ${expectedLowest}, got ${paystackTx.amount}`,
-          },
-          update: {
-            payload: paystackTx as any,
-            amount: paystackTx.amount,
-            currency: paystackTx.currency,
-            resolutionNote: `Updated: overpayment: expected ${expectedLowest}, got ${paystackTx.amount}`,
-          },
-        });
-      } catch {
-        // swallow
-      }
-    }
-    // If equal → no orphan entry, just continue normally.
-
     const session = await getServerSession(authOptions);
     let customerId: string | null = null;
     let existingCustomer:
@@ -475,82 +474,96 @@ export async function POST(req: NextRequest) {
       };
     }
 
+    // Per-customer code limits only trust the signed-in customer, never a body id
+    const redeemerId = session?.user?.id ? customerId : null;
+    const redeemerEmail = (redeemerId && existingCustomer?.email) || customer.email;
+
+    // Discount code: re-validated for redemption and must still price as quoted.
+    // Payment has already been taken at this point, so a rejected code is kept
+    // as an orphan payment for reconciliation/refund.
+    let promotion: PromotionResult | null = null;
+    if (quote.discountCode) {
+      try {
+        promotion = await resolvePromotion(prisma, {
+          code: quote.discountCode,
+          currency: normalizedCurrency as CurrencyEnum,
+          lines: promotionLines,
+          deliveryFee,
+          customerId: redeemerId,
+          email: redeemerEmail,
+        });
+        if (Math.abs(promotion.discountAmount - quote.discountAmount) > 0.01) {
+          throw new PromotionError("This discount code no longer applies as quoted");
+        }
+      } catch (err: any) {
+        if (!(err instanceof PromotionError)) throw err;
+        await recordOrphan(
+          paymentReference,
+          paystackTx,
+          `Discount code rejected (${quote.discountCode}): ${err.message}`
+        );
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+    }
+
     const deliveryDetailsData: any = {
       aggregatedWeight: parseFloat(aggregatedWeight.toFixed(3)),
       deliveryOptionId: deliveryOptionId ?? null,
-      payment: {},
+      payment: {
+        quoteId: quote.id,
+        totalInNaira: quote.totalInNaira,
+        paystackFeeInNaira: quote.paystackFeeInNaira,
+        fxRateToNGN: quote.fxRateToNGN,
+      },
     };
 
-    if (
-      typeof totalInNaira === "number" &&
-      Number.isFinite(totalInNaira)
-    ) {
-      deliveryDetailsData.payment.totalInNaira = totalInNaira;
-    }
-
-    if (
-      typeof paystackFeeInNaira === "number" &&
-      Number.isFinite(paystackFeeInNaira)
-    ) {
-      deliveryDetailsData.payment.paystackFeeInNaira = paystackFeeInNaira;
-    }
-
-    if (Object.keys(deliveryDetailsData.payment).length === 0) {
-      delete deliveryDetailsData.payment;
-    }
-
     if (isShipbubbleFlow) {
       deliveryDetailsData.shipbubble = {
         requestToken: shipping!.shipbubble!.requestToken,
         serviceCode: shipping!.shipbubble!.serviceCode,
         courierId: shipping!.shipbubble!.courierId || null,
-        fee:
-          typeof shipping!.shipbubble!.fee === "number"
-            ? shipping!.shipbubble!.fee
-            : deliveryFee,
-        currency: shipping!.shipbubble!.currency || normalizedCurrency,
+        fee: deliveryFee,
+        currency: normalizedCurrency,
         courierName: shipping!.shipbubble!.courierName || null,
         meta: shipping!.shipbubble!.meta || null,
       };
     }
 
+    if (pickupLocation) {
+      deliveryDetailsData.pickup = {
+        locationId: pickupLocation.id,
+        name: pickupLocation.name,
+        address: formatPickupAddress(pickupLocation),
+        openingHours: pickupLocation.openingHours,
+        prepTimeHours: pickupLocation.prepTimeHours,
+      };
+    }
+
     const { order } = await prisma.$transaction(
       async (tx) => {
-        for (const i of items) {
-          const where: Record<string, any> = { productId: i.productId };
-          if (i.color && i.color !== "N/A") where.color = i.color;
-          if (i.size && i.size !== "N/A") where.size = i.size;
-
-          const variant = await tx.variant.findFirst({
-            where,
-            include: { product: true },
-          });
-          if (!variant) {
-            throw new Error(
-              `Variant not found during transaction: ${i.productId} ${i.color}/${i.size}`
-            );
-          }
-          if (variant.stock < i.quantity) {
-            throw new Error(
-              `Insufficient stock during transaction for ${variant.product.name}`
-            );
-          }
-
-          await tx.variant.update({
-            where: { id: variant.id },
-            data: { stock: { decrement: i.quantity } },
-          });
-        }
-
         const serial = await tx.orderSerial.create({ data: {} });
         const newOrderId = formatOrderIdFromSerial(serial.id);
 
+        // Convert the checkout hold (if any) and take the stock
+        await convertReservation(
+          tx,
+          paymentReference,
+          newOrderId,
+          itemsCreateData.map((d) => ({
+            variantId: d.variantId,
+            quantity: d.quantity,
+            name: d.name,
+          }))
+        );
+
         const orderData: any = {
           id: newOrderId,
           status: OrderStatus.Processing,
           currency: normalizedCurrency as CurrencyEnum,
-          totalAmount: itemsSubtotal,
-          totalNGN: Math.round(totalNGN),
+          totalAmount: itemsSubtotal, // items only, before discount
+          totalNGN: netItemsNGN(totalNGN, itemsSubtotal, promotion?.itemsDiscount),
+          fxRateToNGN: quote.fxRateToNGN,
+          fxSnapshotId: quote.fxSnapshotId ?? null,
           paymentMethod,
           paymentReference,
           paymentProviderId: String(paystackTx.id),
@@ -558,12 +571,21 @@ export async function POST(req: NextRequest) {
           createdAt: timestamp ? new Date(timestamp) : new Date(),
           items: { create: itemsCreateData },
           channel: OrderChannel.ONLINE,
-          deliveryFee: typeof deliveryFee === "number" ? deliveryFee : 0,
+          deliveryFee,
           deliveryDetails: deliveryDetailsData,
+          ...(promotion && {
+            promotion: { connect: { id: promotion.promotionId } },
+            discountCode: promotion.code,
+            discountAmount: promotion.discountAmount,
+            discountDetails: promotionSnapshot(promotion),
+          }),
           ...(deliveryOptionId &&
             !isShipbubbleFlow && {
               deliveryOption: { connect: { id: deliveryOptionId } },
             }),
+          ...(pickupLocation && {
+            pickup: { create: { location: { connect: { id: pickupLocation.id } } } },
+          }),
         };
 
         if (customerId) {
@@ -580,6 +602,16 @@ export async function POST(req: NextRequest) {
           },
         });
 
+        if (promotion) {
+          await redeemPromotion(tx, {
+            promotion,
+            orderId: createdOrder.id,
+            customerId: redeemerId,
+            email: redeemerEmail,
+            currency: normalizedCurrency as CurrencyEnum,
+          });
+        }
+
         return { order: createdOrder };
       },
       { timeout: 15_000 }
@@ -622,12 +654,22 @@ export async function POST(req: NextRequest) {
           billingAddress: customer.billingAddress,
         };
 
+    // Stop cart reminders for this shopper (credits a reminded cart as recovered)
+    try {
+      await closeAbandonedCarts([recipient.email, customer.email], {
+        id: order.id,
+        totalNGN: order.totalNGN,
+      });
+    } catch (err) {
+      console.warn("[orders/online] Failed to close abandoned carts", err);
+    }
+
     try {
       await sendReceiptEmailWithRetry({
         order,
         recipient,
         currency: normalizedCurrency,
-        deliveryFee: typeof deliveryFee === "number" ? deliveryFee : 0,
+        deliveryFee,
       });
     } catch (err) {
       console.warn(
@@ -645,6 +687,22 @@ export async function POST(req: NextRequest) {
       { status: 201 }
     );
   } catch (err: any) {
+    // Code was valid at pricing time but lost a race for its last use.
+    if (err instanceof PromotionError && requestPaymentReference) {
+      await recordOrphan(
+        requestPaymentReference,
+        verifiedPaystackTx,
+        `Discount code rejected: ${err.message}`
+      );
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+
+    // Hold expired and the stock went to someone else while paying.
+    if (err instanceof ReservationError && requestPaymentReference) {
+      await recordOrphan(requestPaymentReference, verifiedPaystackTx, err.message);
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+
     if (err?.code === "P2002" && Array.isArray(err?.meta?.target)) {
       if ((err.meta.target as string[]).includes("paymentReference")) {
         try {
@@ -8,6 +8,7 @@ import {
   validateWebhookSignature,
   verifyTransaction,
 } from "@/lib/paystack";
+import { applyRefundWebhook } from "@/lib/refunds";
 
 /** Safe JSON parse (never throws) */
 function safeParse(str: string) {
@@ -38,8 +39,24 @@ export async function POST(req: NextRequest) {
   }
 
   const event = body?.event as string | undefined;
-  const data = body?.data as { reference?: string } | undefined;
-  if (!data?.reference) {
+  const data = body?.data as
+    | {
+        reference?: string;
+        id?: number | string;
+        transaction_reference?: string;
+        refund_reference?: string | null;
+        amount?: number | string;
+        status?: string;
+        gateway_response?: string;
+      }
+    | undefined;
+  const isRefundEvent = event === "refund.processed" || event === "refund.failed";
+
+  // Refund events identify the original charge via `transaction_reference`
+  const reference = isRefundEvent
+    ? data?.transaction_reference ?? data?.reference
+    : data?.reference;
+  if (!reference) {
     return NextResponse.json(
       { error: "Missing reference in webhook payload" },
       { status: 400 }
@@ -47,7 +64,11 @@ export async function POST(req: NextRequest) {
   }
 
   // 4) Dedupe: persist the webhook event (unique on eventId)
-  const eventId = (body?.id as string | undefined) || `${event}:${data.reference}`;
+  const eventId =
+    (body?.id as string | undefined) ||
+    (isRefundEvent
+      ? `${event}:${reference}:${data?.id ?? data?.refund_reference ?? data?.amount}`
+      : `${event}:${reference}`);
   try {
     await prisma.webhookEvent.create({
       data: {
@@ -72,7 +93,28 @@ export async function POST(req: NextRequest) {
     // Non-fatal: continue to try processing
   }
 
-  // 5) We only handle charge.success for now; acknowledge others
+  // 5) Refund outcome: move the matching OrderRefund out of Pending
+  if (isRefundEvent) {
+    try {
+      const amount = Number(data?.amount);
+      const matched = await applyRefundWebhook({
+        providerRefundId: data?.id != null ? String(data.id) : null,
+        transactionReference: reference,
+        amountLowest: Number.isFinite(amount) ? amount : null,
+        processed: event === "refund.processed",
+        failureReason: data?.gateway_response ?? data?.status ?? null,
+      });
+      return NextResponse.json(
+        { ok: true, message: matched ? `Processed ${event}` : "No matching refund" },
+        { status: 200 }
+      );
+    } catch (err: any) {
+      console.error(`Error handling ${event} webhook:`, err);
+      return NextResponse.json({ error: "Refund update failed" }, { status: 500 });
+    }
+  }
+
+  // 6) Other than refunds we only handle charge.success; acknowledge others
   if (event !== "charge.success") {
     return NextResponse.json(
       { ok: true, message: "Event ignored" },
@@ -80,21 +122,21 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  // 6) For charge.success: verify the transaction, reconcile or flag orphan
+  // 7) For charge.success: verify the transaction, reconcile or flag orphan
   try {
-    const tx = await verifyTransaction(data.reference); // throws on invalid
+    const tx = await verifyTransaction(reference); // throws on invalid
 
     const existingOrder = await prisma.order.findUnique({
-      where: { paymentReference: data.reference },
+      where: { paymentReference: reference },
       include: { customer: true },
     });
 
     if (!existingOrder) {
       // Orphan payment recorded for later reconciliation/refund
       await prisma.orphanPayment.upsert({
-        where: { reference: data.reference },
+        where: { reference },
         create: {
-          reference: data.reference,
+          reference,
           amount: tx.amount,
           currency: tx.currency,
           payload: tx as any,
@@ -116,8 +158,8 @@ export async function POST(req: NextRequest) {
 
     // Patch order payment fields if needed
     const updates: Record<string, any> = {};
-    if (existingOrder.paymentReference !== data.reference) {
-      updates.paymentReference = data.reference;
+    if (existingOrder.paymentReference !== reference) {
+      updates.paymentReference = reference;
     }
     const txIdStr = tx?.id != null ? String(tx.id) : null;
     if (txIdStr && existingOrder.paymentProviderId !== txIdStr) {
@@ -136,7 +178,7 @@ export async function POST(req: NextRequest) {
 
     // Mark any orphans for this reference as reconciled
     await prisma.orphanPayment.updateMany({
-      where: { reference: data.reference },
+      where: { reference },
       data: {
         reconciled: true,
         reconciledAt: new Date(),
@@ -0,0 +1,21 @@
+// app/api/pickup-locations/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { prismaReady } from "@/lib/db";
+import { getPickupOffer } from "@/lib/pickup";
+
+/**
+ * GET /api/pickup-locations
+ * The store pickup delivery option and its open locations, for checkout.
+ * `deliveryOption` is null (and `locations` empty) when pickup is switched off.
+ */
+export async function GET() {
+  try {
+    await prismaReady;
+    return NextResponse.json(await getPickupOffer());
+  } catch (err) {
+    console.error("GET /api/pickup-locations error:", err);
+    return NextResponse.json({ error: "Failed to fetch pickup locations" }, { status: 500 });
+  }
+}
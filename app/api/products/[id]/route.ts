@@ -3,6 +3,21 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit, productSnapshot } from "@/lib/audit";
+import { setStock, recordInitialStock } from "@/lib/inventory";
+import { flushStockNotifications } from "@/lib/stockNotifications";
+import { flushLaunchNotifications } from "@/lib/launchNotifications";
+import { PricingRuleInput, saveProductPricingRule, type PricingRuleData } from "@/lib/fxPricing";
+import {
+  CompareAtPrices,
+  compareAtData,
+  ProductScheduleInput,
+  productScheduleData,
+  VariantDetails,
+  variantDetailData,
+  type VariantDetailData,
+} from "@/lib/productPayload";
 
 const PRODUCT_STATUSES = ["Draft", "Published", "Archived"] as const;
 type ProductStatus = (typeof PRODUCT_STATUSES)[number];
@@ -109,10 +124,11 @@ function jsonError(message: string, status = 400) {
 // ────────────────────────────────────────────────────────
 /** PUT /api/products/[id] */
 // ────────────────────────────────────────────────────────
-export async function PUT(
+export const PUT = withPermission("products.manage", async (
   req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
   await prismaReady;
 
   const { id: productId } = await context.params;
@@ -150,9 +166,56 @@ export async function PUT(
   const priceEUR = numOrNull(body.price?.EUR);
   const priceGBP = numOrNull(body.price?.GBP);
 
+  // Compare-at ("was") prices; when omitted, the existing ones are kept
+  let compareAt: ReturnType<typeof compareAtData> | null = null;
+  if (body.compareAt !== undefined) {
+    const parsedCompareAt = CompareAtPrices.nullable().safeParse(body.compareAt);
+    if (!parsedCompareAt.success) {
+      return jsonError(parsedCompareAt.error.issues[0]?.message ?? "Invalid compare-at prices.");
+    }
+    compareAt = compareAtData(parsedCompareAt.data);
+  }
+
+  // FX pricing rule; omitted keeps the current one, null follows the store rule
+  let pricingRule: PricingRuleData | null | undefined;
+  if (body.pricingRule !== undefined) {
+    const parsedRule = PricingRuleInput.nullable().safeParse(body.pricingRule);
+    if (!parsedRule.success) {
+      return jsonError(parsedRule.error.issues[0]?.message ?? "Invalid pricing rule.");
+    }
+    pricingRule = parsedRule.data;
+  }
+
   const rawSizeStocks = cleanSizeStocks(body.sizeStocks);
   const rawColorSizeStocks = cleanColorSizeStocks(body.colorSizeStocks);
 
+  // SKU / barcode / price overrides; when omitted, existing values are kept
+  let detailsByKey: Map<string, VariantDetailData> | null = null;
+  if (body.variantDetails !== undefined) {
+    const parsedDetails = VariantDetails.safeParse(body.variantDetails);
+    if (!parsedDetails.success) {
+      return jsonError(parsedDetails.error.issues[0]?.message ?? "Invalid variant details.");
+    }
+    detailsByKey = new Map(
+      parsedDetails.data.map((d) => [comboKey(d.color, d.size), d])
+    );
+  }
+  const detailsFor = (key: string) =>
+    detailsByKey ? variantDetailData(detailsByKey.get(key)) : {};
+
+  // Drop schedule; when both fields are omitted, the existing one is kept
+  let schedule: ReturnType<typeof productScheduleData> | null = null;
+  if (body.publishAt !== undefined || body.unpublishAt !== undefined) {
+    const parsedSchedule = ProductScheduleInput.safeParse({
+      publishAt: body.publishAt,
+      unpublishAt: body.unpublishAt,
+    });
+    if (!parsedSchedule.success) {
+      return jsonError(parsedSchedule.error.issues[0]?.message ?? "Invalid schedule.");
+    }
+    schedule = productScheduleData(parsedSchedule.data);
+  }
+
   const weight = safePositiveFloat(body.weight); // default variant weight
   if (body.status === "Published" && weight == null) {
     return jsonError("Weight is required to publish.");
@@ -234,14 +297,13 @@ export async function PUT(
     );
   }
 
+  const staffId = session.user.id;
+
   try {
     // 1) transaction
     await prisma.$transaction(async (tx) => {
-      const exists = await tx.product.findUnique({
-        where: { id: productId },
-        select: { id: true },
-      });
-      if (!exists) throw new Error("NOT_FOUND");
+      const before = await productSnapshot(tx, productId);
+      if (!before) throw new Error("NOT_FOUND");
 
       // update main record
       await tx.product.update({
@@ -255,8 +317,10 @@ export async function PUT(
           priceUSD,
           priceEUR,
           priceGBP,
+          ...compareAt,
           sizeMods,
           status: body.status as ProductStatus,
+          ...schedule,
           videoUrl,
         },
       });
@@ -275,24 +339,34 @@ export async function PUT(
         const key = comboKey(desired.color, desired.size);
         if (existingMap.has(key)) {
           const ev = existingMap.get(key)!;
-          await tx.variant.update({
-            where: { id: ev.id },
-            data: {
-              stock: desired.stock,
-              ...(desired.weight !== undefined ? { weight: desired.weight } : {}),
-            },
+          if (desired.weight !== undefined || detailsByKey) {
+            await tx.variant.update({
+              where: { id: ev.id },
+              data: {
+                ...(desired.weight !== undefined ? { weight: desired.weight } : {}),
+                ...detailsFor(key),
+              },
+            });
+          }
+          await setStock(tx, {
+            variantId: ev.id,
+            stock: desired.stock,
+            staffId,
+            note: "Product edit",
           });
           existingMap.delete(key);
         } else {
-          await tx.variant.create({
+          const created = await tx.variant.create({
             data: {
               productId,
               color: desired.color,
               size: desired.size,
               stock: desired.stock,
               ...(desired.weight !== undefined ? { weight: desired.weight } : {}),
+              ...detailsFor(key),
             },
           });
+          await recordInitialStock(tx, created, staffId);
         }
       }
 
@@ -300,6 +374,19 @@ export async function PUT(
       for (const stale of existingMap.values()) {
         await tx.variant.delete({ where: { id: stale.id } });
       }
+
+      if (pricingRule !== undefined) {
+        await saveProductPricingRule(tx, productId, pricingRule);
+      }
+
+      await recordAudit(tx, {
+        staffId,
+        action: "Update",
+        entityType: "Product",
+        entityId: productId,
+        before,
+        after: await productSnapshot(tx, productId),
+      });
     });
 
     // 2) fresh read
@@ -319,13 +406,29 @@ export async function PUT(
         status: true,
         videoUrl: true,
         variants: {
-          select: { color: true, size: true, stock: true, weight: true },
+          select: { id: true, color: true, size: true, stock: true, weight: true },
           orderBy: [{ color: "asc" }, { size: "asc" }],
         },
       },
     });
     if (!updated) return jsonError("Product not found after update", 404);
 
+    // 3) restocked variants → back-in-stock emails (best-effort)
+    try {
+      await flushStockNotifications(
+        updated.variants.filter((v) => v.stock > 0).map((v) => v.id)
+      );
+    } catch (notifyErr) {
+      console.warn("[products] back-in-stock emails failed:", notifyErr);
+    }
+
+    // 4) drop went live with this edit → launch emails (best-effort)
+    try {
+      await flushLaunchNotifications([productId]);
+    } catch (notifyErr) {
+      console.warn("[products] launch emails failed:", notifyErr);
+    }
+
     return NextResponse.json({
       success: true,
       product: {
@@ -335,24 +438,38 @@ export async function PUT(
     });
   } catch (err: any) {
     if (err?.message === "NOT_FOUND") return jsonError("Product not found.", 404);
+    if (err?.code === "P2002") {
+      return jsonError("A SKU or barcode is already used by another variant.", 409);
+    }
     console.error("PUT /api/products/[id] error:", err);
     return jsonError("Update failed", 500);
   }
-}
+});
 
 // ────────────────────────────────────────────────────────
 /** DELETE /api/products/[id] */
 // ────────────────────────────────────────────────────────
-export async function DELETE(
+export const DELETE = withPermission("products.manage", async (
   _req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
   await prismaReady;
 
   const { id: productId } = await context.params;
   try {
-    await prisma.variant.deleteMany({ where: { productId } });
-    await prisma.product.delete({ where: { id: productId } });
+    await prisma.$transaction(async (tx) => {
+      const before = await productSnapshot(tx, productId);
+      await tx.variant.deleteMany({ where: { productId } });
+      await tx.product.delete({ where: { id: productId } });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Delete",
+        entityType: "Product",
+        entityId: productId,
+        before,
+      });
+    });
     return NextResponse.json({ success: true });
   } catch (err: any) {
     console.error("DELETE /api/products/[id] error:", err);
@@ -373,4 +490,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
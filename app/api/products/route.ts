@@ -3,35 +3,18 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
-import { z } from "zod";
-
-/* ────────────────────────────────────────────────────────────
-   Validation schema for incoming product payloads
-   ──────────────────────────────────────────────────────────── */
-const ProductPayload = z.object({
-  id: z.string().optional(), // accepted but ignored
-  name: z.string().min(1, "Product name is required"),
-  category: z.string().min(1, "Category (slug) is required"),
-  description: z.string().optional().nullable(),
-  price: z.object({
-    NGN: z.number(),
-    USD: z.number(),
-    EUR: z.number(),
-    GBP: z.number(),
-  }),
-  status: z.enum(["Draft", "Published", "Archived"]),
-  sizeMods: z.boolean(),
-  colors: z.array(z.string()),
-  sizeStocks: z.record(z.string(), z.string()), // { "S": "10", "M": "5" } – used when NO colors or as fallback
-  customSizes: z.array(z.string()), // accepted for future use
-  images: z.array(z.string()),
-  videoUrl: z.string().url().optional().nullable(),
-  weight: z.number().min(0.0001, "Weight must be > 0"),
-  // Optional: per-color, per-size stock matrix
-  colorSizeStocks: z
-    .record(z.string(), z.record(z.string(), z.string()))
-    .optional(),
-});
+import { heldQuantities } from "@/lib/stockReservations";
+import { recordInitialStock } from "@/lib/inventory";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit, productSnapshot } from "@/lib/audit";
+import { saveProductPricingRule } from "@/lib/fxPricing";
+import {
+  ProductPayload,
+  compareAtData,
+  productScheduleData,
+  variantDetailData,
+} from "@/lib/productPayload";
+import { liveProductWhere } from "@/lib/productSchedule";
 
 /* ────────────────────────────────────────────────────────────
    Formatter: sequential numeric -> branded product ID
@@ -42,14 +25,14 @@ function formatProductIdFromSerial(serial: bigint | number): string {
 }
 
 /* ────────────────────────────────────────────────────────────
-   GET /api/products — Published only
+   GET /api/products — live only (Published and within schedule)
    ──────────────────────────────────────────────────────────── */
 export async function GET(_req: NextRequest) {
   try {
     await prismaReady;
 
     const products = await prisma.product.findMany({
-      where: { status: "Published" },
+      where: liveProductWhere(),
       select: {
         id: true,
         name: true,
@@ -65,6 +48,7 @@ export async function GET(_req: NextRequest) {
         categorySlug: true,
         variants: {
           select: {
+            id: true,
             color: true,
             size: true,
             stock: true,
@@ -75,6 +59,12 @@ export async function GET(_req: NextRequest) {
       orderBy: { name: "asc" },
     });
 
+    // Stock held by open checkouts isn't available to other shoppers
+    const held = await heldQuantities(
+      prisma,
+      products.flatMap((p) => p.variants.map((v) => v.id))
+    );
+
     const shaped = products.map((p) => ({
       id: p.id,
       name: p.name,
@@ -93,7 +83,7 @@ export async function GET(_req: NextRequest) {
       variants: p.variants.map((v) => ({
         color: v.color,
         size: v.size,
-        inStock: v.stock,
+        inStock: Math.max(v.stock - (held.get(v.id) ?? 0), 0),
         weight: v.weight ?? null,
       })),
     }));
@@ -116,7 +106,7 @@ export async function GET(_req: NextRequest) {
 /* ────────────────────────────────────────────────────────────
    POST /api/products — Create with sequential M-PROD-xxx
    ──────────────────────────────────────────────────────────── */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("products.manage", async (request: NextRequest, _context: unknown, session) => {
   try {
     await prismaReady;
 
@@ -134,6 +124,7 @@ export async function POST(request: NextRequest) {
       category: slug,
       description,
       price,
+      compareAt,
       status,
       sizeMods,
       colors,
@@ -143,7 +134,14 @@ export async function POST(request: NextRequest) {
       videoUrl,
       weight,
       colorSizeStocks,
+      variantDetails,
+      pricingRule,
     } = parsed.data;
+    const schedule = productScheduleData(parsed.data);
+
+    const detailsByKey = new Map(
+      (variantDetails ?? []).map((d) => [`${d.color}|||${d.size}`, d])
+    );
 
     const trimmedColors = colors.map((c) => c.trim()).filter(Boolean);
     const sizes = Object.keys(sizeStocks);
@@ -232,6 +230,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const staffId = session.user.id;
+
     // Create product under a single transaction with sequential ID reservation
     const created = await prisma.$transaction(async (tx) => {
       // 1) Reserve next serial atomically
@@ -249,8 +249,10 @@ export async function POST(request: NextRequest) {
           priceUSD: price.USD,
           priceEUR: price.EUR,
           priceGBP: price.GBP,
+          ...compareAtData(compareAt),
           sizeMods,
           status,
+          ...schedule,
           videoUrl: videoUrl ?? null,
           category: { connect: { slug } },
           variants: variants.length
@@ -260,6 +262,7 @@ export async function POST(request: NextRequest) {
                   size: v.size,
                   stock: v.stock,
                   weight: v.weight,
+                  ...variantDetailData(detailsByKey.get(`${v.color}|||${v.size}`)),
                 })),
               }
             : undefined,
@@ -279,6 +282,7 @@ export async function POST(request: NextRequest) {
           categorySlug: true,
           variants: {
             select: {
+              id: true,
               color: true,
               size: true,
               stock: true,
@@ -288,6 +292,21 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      // 3) Opening balances for the inventory ledger
+      for (const v of product.variants) {
+        await recordInitialStock(tx, v, staffId);
+      }
+
+      if (pricingRule) await saveProductPricingRule(tx, product.id, pricingRule);
+
+      await recordAudit(tx, {
+        staffId,
+        action: "Create",
+        entityType: "Product",
+        entityId: product.id,
+        after: await productSnapshot(tx, product.id),
+      });
+
       return product;
     });
 
@@ -315,11 +334,17 @@ export async function POST(request: NextRequest) {
     };
 
     return NextResponse.json(shaped, { status: 201 });
-  } catch (err) {
+  } catch (err: any) {
+    if (err?.code === "P2002") {
+      return NextResponse.json(
+        { error: "A SKU or barcode is already used by another variant" },
+        { status: 409 }
+      );
+    }
     console.error("POST /api/products error:", err);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,122 @@
+// app/api/promotions/validate/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import type { Currency } from "@/lib/generated/prisma-client/client";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/authOptions";
+import {
+  resolvePromotion,
+  PromotionError,
+  type PromotionLine,
+} from "@/lib/promotions";
+import { resolveUnitPrice } from "@/lib/variantPricing";
+
+const ALLOWED_CURRENCIES = ["NGN", "USD", "EUR", "GBP"] as const;
+
+type IncomingItem = {
+  productId: string;
+  color?: string;
+  size?: string;
+  quantity: number;
+  hasSizeMod?: boolean;
+};
+
+/**
+ * POST /api/promotions/validate
+ * Body: { code, currency, items[], deliveryFee?, email? }
+ *
+ * Prices the cart from the DB (never from client prices) and returns the
+ * discount the order routes will apply for the same input.
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const body = await req.json().catch(() => ({}));
+  const code = String(body?.code ?? "");
+  const currency = String(body?.currency ?? "").toUpperCase();
+  const items: IncomingItem[] = Array.isArray(body?.items) ? body.items : [];
+  const deliveryFee = Number(body?.deliveryFee ?? 0) || 0;
+
+  if (!ALLOWED_CURRENCIES.includes(currency as Currency)) {
+    return NextResponse.json({ error: "Invalid currency" }, { status: 400 });
+  }
+  if (items.length === 0) {
+    return NextResponse.json({ error: "No items provided" }, { status: 400 });
+  }
+
+  const productIds = Array.from(new Set(items.map((i) => String(i.productId))));
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    select: {
+      id: true,
+      categorySlug: true,
+      sizeMods: true,
+      priceNGN: true,
+      priceUSD: true,
+      priceEUR: true,
+      priceGBP: true,
+      variants: {
+        select: {
+          color: true,
+          size: true,
+          priceNGN: true,
+          priceUSD: true,
+          priceEUR: true,
+          priceGBP: true,
+        },
+      },
+    },
+  });
+  const byId = new Map(products.map((p) => [p.id, p]));
+
+  const lines: PromotionLine[] = [];
+  for (const it of items) {
+    const p = byId.get(String(it.productId));
+    const qty = Number(it.quantity) || 0;
+    if (!p || qty <= 0) continue;
+    const variant = p.variants.find(
+      (v) =>
+        (!it.color || it.color === "N/A" || v.color === it.color) &&
+        (!it.size || it.size === "N/A" || v.size === it.size)
+    );
+    const unit = resolveUnitPrice(p, variant, currency as Currency);
+    const base = unit * qty;
+    const sizeMod = it.hasSizeMod && p.sizeMods ? +(base * 0.05).toFixed(2) : 0;
+    lines.push({
+      productId: p.id,
+      categorySlug: p.categorySlug,
+      quantity: qty,
+      lineTotal: base + sizeMod,
+    });
+  }
+
+  const session = await getServerSession(authOptions);
+  const customerId =
+    session?.user?.role === "customer" ? (session.user.id as string) : null;
+
+  try {
+    const promotion = await resolvePromotion(prisma, {
+      code,
+      currency: currency as Currency,
+      lines,
+      deliveryFee,
+      customerId,
+      email: typeof body?.email === "string" ? body.email : null,
+    });
+    return NextResponse.json({ valid: true, promotion });
+  } catch (err: any) {
+    if (err instanceof PromotionError) {
+      return NextResponse.json(
+        { valid: false, error: err.message },
+        { status: 400 }
+      );
+    }
+    console.error("[promotions/validate] failed:", err);
+    return NextResponse.json(
+      { error: "Could not validate discount code" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,9 +2,10 @@
 export const dynamic = "force-dynamic";
 
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
 import { NextRequest, NextResponse } from "next/server";
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(["customers.view", "sales.log"], async (req: NextRequest) => {
   await prismaReady;
 
   try {
@@ -50,4 +51,4 @@ export async function GET(req: NextRequest) {
     console.error("GET /api/customers/search error:", err);
     return NextResponse.json({ error: "Search failed" }, { status: 500 });
   }
-}
+});
@@ -21,6 +21,7 @@ export async function GET(req: NextRequest) {
         OR: [
           { id:   { contains: q, mode: "insensitive" } },
           { name: { contains: q, mode: "insensitive" } },
+          { variants: { some: { OR: [{ sku: q }, { barcode: q }] } } },
         ],
       },
       select: {
@@ -31,6 +32,9 @@ export async function GET(req: NextRequest) {
             color: true,
             size:  true,
             stock: true,
+            sku:   true,
+            barcode: true,
+            priceNGN: true,
           },
         },
         sizeMods: true,
@@ -3,9 +3,10 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { liveProductWhere } from "@/lib/productSchedule";
 
 /**
- * Search endpoint for published products by name or category (name/slug).
+ * Search endpoint for live (published, in-schedule) products by name or category (name/slug).
  * Query: ?query=...   (case-insensitive, partial)
  */
 export async function GET(req: NextRequest) {
@@ -22,7 +23,7 @@ export async function GET(req: NextRequest) {
 
     const products = await prisma.product.findMany({
       where: {
-        status: "Published",
+        ...liveProductWhere(),
         OR: [
           // product name
           { name: { contains: q, mode: "insensitive" } },
@@ -0,0 +1,50 @@
+// app/api/shipping/rates/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import { CarrierError, defaultCarrier, getCarrier } from "@/lib/shipping/carriers";
+import { parseRateRequest, RateRequestError, toRatesResponse } from "@/lib/shipping/rates";
+
+/**
+ * POST /api/shipping/rates
+ * Same body and response as /api/shipping/shipbubble/rates, plus an optional
+ * `deliveryOptionId`: rates come from that option's carrier, or the store
+ * default carrier when it has none.
+ */
+export async function POST(req: Request) {
+  try {
+    await prismaReady;
+    const body = await req.json();
+    const request = parseRateRequest(body);
+
+    let carrier = defaultCarrier();
+    if (body?.deliveryOptionId) {
+      const opt = await prisma.deliveryOption.findUnique({
+        where: { id: String(body.deliveryOptionId) },
+        select: { active: true, carrier: true },
+      });
+      if (!opt?.active) {
+        return NextResponse.json({ error: "Delivery option not available" }, { status: 404 });
+      }
+      if (opt.carrier) carrier = getCarrier(opt.carrier);
+    }
+
+    const quote = await carrier.getRates(request);
+    return NextResponse.json(toRatesResponse(carrier, quote), { status: 200 });
+  } catch (err: any) {
+    if (err instanceof RateRequestError || err instanceof CarrierError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+
+    console.error("Shipping rates error:", {
+      message: err?.message,
+      httpStatus: err?.httpStatus,
+      stack: err?.stack,
+    });
+    return NextResponse.json(
+      { error: err?.shipbubble?.message || err?.message || "Shipping rates failed" },
+      { status: 502 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ export const dynamic = "force-dynamic";
 
 import { NextResponse } from "next/server";
 import { createShipmentLabelExact } from "@/lib/shipping/shipbubble";
+import { withPermission } from "@/lib/withPermission";
 
 /**
  * IMPORTANT:
@@ -33,7 +34,7 @@ const usedRequestTokens = new Set<string>();
  *   isCodLabel?: boolean;
  * }
  */
-export async function POST(req: Request) {
+export const POST = withPermission("orders.fulfil", async (req: Request) => {
   let trimmedToken: string | null = null;
 
   try {
@@ -139,4 +140,4 @@ export async function POST(req: Request) {
       { status: 400 }
     );
   }
-}
+});
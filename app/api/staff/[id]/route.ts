@@ -4,12 +4,15 @@ export const dynamic = "force-dynamic";
 import { NextRequest, NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 import { JobRole, UserRole } from "@/lib/generated/prisma-client/client";
 
-export async function PUT(
+export const PUT = withPermission("staff.manage", async (
   req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+  context: { params: Promise<{ id: string }> },
+  session
+) => {
   await prismaReady;
   const { id } = await context.params;
 
@@ -80,51 +83,66 @@ export async function PUT(
   }
 
   try {
-    const updated = await prisma.staff.update({
-      where: { id },
-      data: {
-        firstName: String(firstName).trim(),
-        middleName: middleName?.toString().trim() || "",
-        lastName: String(lastName).trim(),
-        email: String(email).trim().toLowerCase(),
-        emailPersonal: emailPersonal ? String(emailPersonal).trim() : null,
-        phone: String(phone).trim(),
-        address: address ? String(address).trim() : null,
-        jobRoles: validJobRoles,
-        access: access as UserRole,
-        // Dates: set to null if explicit falsy provided, otherwise let undefined skip update
-        dateOfBirth:
-          dateOfBirth === undefined
-            ? undefined
-            : dateOfBirth
-            ? new Date(dateOfBirth)
-            : null,
-        dateOfEmployment:
-          dateOfEmployment === undefined
-            ? undefined
-            : dateOfEmployment
-            ? new Date(dateOfEmployment)
-            : null,
-        dateOfResignation:
-          dateOfResignation === undefined
-            ? undefined
-            : dateOfResignation
-            ? new Date(dateOfResignation)
-            : null,
-        guarantorName: guarantorName ? String(guarantorName).trim() : null,
-        guarantorAddress: guarantorAddress ? String(guarantorAddress).trim() : null,
-        guarantorPhone: guarantorPhone ? String(guarantorPhone).trim() : null,
-        ...(passwordHash ? { passwordHash } : {}),
-      },
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        jobRoles: true,
-        access: true,
-        email: true,
-        phone: true,
-      },
+    const updated = await prisma.$transaction(async (tx) => {
+      const before = await tx.staff.findUniqueOrThrow({ where: { id } });
+      const staff = await tx.staff.update({
+        where: { id },
+        data: {
+          firstName: String(firstName).trim(),
+          middleName: middleName?.toString().trim() || "",
+          lastName: String(lastName).trim(),
+          email: String(email).trim().toLowerCase(),
+          emailPersonal: emailPersonal ? String(emailPersonal).trim() : null,
+          phone: String(phone).trim(),
+          address: address ? String(address).trim() : null,
+          jobRoles: validJobRoles,
+          access: access as UserRole,
+          // Dates: set to null if explicit falsy provided, otherwise let undefined skip update
+          dateOfBirth:
+            dateOfBirth === undefined
+              ? undefined
+              : dateOfBirth
+              ? new Date(dateOfBirth)
+              : null,
+          dateOfEmployment:
+            dateOfEmployment === undefined
+              ? undefined
+              : dateOfEmployment
+              ? new Date(dateOfEmployment)
+              : null,
+          dateOfResignation:
+            dateOfResignation === undefined
+              ? undefined
+              : dateOfResignation
+              ? new Date(dateOfResignation)
+              : null,
+          guarantorName: guarantorName ? String(guarantorName).trim() : null,
+          guarantorAddress: guarantorAddress ? String(guarantorAddress).trim() : null,
+          guarantorPhone: guarantorPhone ? String(guarantorPhone).trim() : null,
+          ...(passwordHash ? { passwordHash } : {}),
+        },
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          jobRoles: true,
+          access: true,
+          email: true,
+          phone: true,
+        },
+      });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Update",
+        entityType: "Staff",
+        entityId: id,
+        before,
+        after: {
+          ...(await tx.staff.findUniqueOrThrow({ where: { id } })),
+          ...(passwordHash && { passwordChanged: true }),
+        },
+      });
+      return staff;
     });
 
     return NextResponse.json({ success: true, staff: updated });
@@ -138,4 +156,4 @@ export async function PUT(
     }
     return NextResponse.json({ error: "Failed to update staff" }, { status: 500 });
   }
-}
+});
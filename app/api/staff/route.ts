@@ -4,6 +4,8 @@ export const dynamic = "force-dynamic";
 import { NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 import { JobRole, UserRole } from "@/lib/generated/prisma-client/client";
 
 /** Generate a readable/strong password if requested */
@@ -15,7 +17,7 @@ function randomPassword(len = 12) {
   ).join("");
 }
 
-export async function POST(req: Request) {
+export const POST = withPermission("staff.manage", async (req: Request, _context: unknown, session) => {
   await prismaReady;
 
   // Parse JSON
@@ -119,18 +121,25 @@ export async function POST(req: Request) {
   } as const;
 
   try {
-    const created = await prisma.staff.create({
-      data,
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        jobRoles: true,
-        access: true,
-        email: true,
-        phone: true,
-        createdAt: true,
-      },
+    const created = await prisma.$transaction(async (tx) => {
+      const { passwordHash: _hash, ...staff } = await tx.staff.create({ data });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Create",
+        entityType: "Staff",
+        entityId: staff.id,
+        after: staff,
+      });
+      return {
+        id: staff.id,
+        firstName: staff.firstName,
+        lastName: staff.lastName,
+        jobRoles: staff.jobRoles,
+        access: staff.access,
+        email: staff.email,
+        phone: staff.phone,
+        createdAt: staff.createdAt,
+      };
     });
 
     return NextResponse.json(
@@ -152,4 +161,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
+});
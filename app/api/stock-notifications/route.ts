@@ -0,0 +1,46 @@
+// app/api/stock-notifications/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { prismaReady } from "@/lib/db";
+import { authOptions } from "@/lib/authOptions";
+import { subscribeToRestock, StockNotificationError } from "@/lib/stockNotifications";
+
+/**
+ * POST { productId, color, size, email? }
+ * "Notify me when back in stock". Signed-in customers are always notified at
+ * their account email; `email` is only read for guests.
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const session = await getServerSession(authOptions);
+  const customer =
+    session?.user?.role === "customer" && session.user.id
+      ? { id: session.user.id as string, email: session.user.email ?? "" }
+      : null;
+
+  try {
+    const notification = await subscribeToRestock({
+      productId: String(body.productId ?? ""),
+      color: typeof body.color === "string" ? body.color : "",
+      size: typeof body.size === "string" ? body.size : "",
+      email: customer ? customer.email : String(body.email || ""),
+      customerId: customer?.id ?? null,
+    });
+    return NextResponse.json({ notification }, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof StockNotificationError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("[stock-notifications] subscribe failed:", err);
+    return NextResponse.json({ error: "Could not save your request" }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+// app/api/store-settings/delivery-options/[id]/route.ts
+import { NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
+import {
+  DELIVERY_OPTION_ZONES_INCLUDE,
+  DeliveryOptionPayload,
+  deliveryOptionSnapshot,
+  toDeliveryOptionData,
+  toZonesCreate,
+} from "@/lib/shipping/zones";
+
+/**
+ * PATCH: either `{ active }` (quick toggle) or a full option payload, whose
+ * zones replace the saved ones.
+ */
+export const PATCH = withPermission("settings.manage", async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const toggle = Object.keys(body ?? {}).length === 1 && typeof body.active === "boolean";
+  const parsed = toggle ? null : DeliveryOptionPayload.safeParse(body);
+  if (parsed && !parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const before = await prisma.deliveryOption.findUnique({
+    where: { id },
+    include: DELIVERY_OPTION_ZONES_INCLUDE,
+  });
+  if (!before) {
+    return NextResponse.json({ error: `Delivery option "${id}" not found` }, { status: 404 });
+  }
+
+  try {
+    const option = await prisma.$transaction(async (tx) => {
+      if (parsed) {
+        await tx.shippingZone.deleteMany({ where: { deliveryOptionId: id } });
+      }
+      const after = await tx.deliveryOption.update({
+        where: { id },
+        data: parsed
+          ? { ...toDeliveryOptionData(parsed.data), zones: { create: toZonesCreate(parsed.data) } }
+          : { active: body.active },
+        include: { ...DELIVERY_OPTION_ZONES_INCLUDE, _count: { select: { orders: true } } },
+      });
+      const { _count, ...rest } = after;
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Update",
+        entityType: "DeliveryOption",
+        entityId: id,
+        before: deliveryOptionSnapshot(before),
+        after: deliveryOptionSnapshot(rest),
+      });
+      return { ...rest, orderCount: _count.orders };
+    });
+    return NextResponse.json(option);
+  } catch (err: any) {
+    console.error("Failed to update delivery option", err);
+    return NextResponse.json({ error: "Error updating delivery option" }, { status: 500 });
+  }
+});
+
+// DELETE: only options no order was placed with; deactivate the rest
+export const DELETE = withPermission("settings.manage", async (
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+
+  const { id } = await params;
+
+  const used = await prisma.order.count({ where: { deliveryOptionId: id } });
+  if (used > 0) {
+    return NextResponse.json(
+      { error: "Orders use this delivery option. Deactivate it instead." },
+      { status: 409 }
+    );
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.deliveryOption.findUnique({
+        where: { id },
+        include: DELIVERY_OPTION_ZONES_INCLUDE,
+      });
+      await tx.deliveryOption.delete({ where: { id } });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Delete",
+        entityType: "DeliveryOption",
+        entityId: id,
+        before: before ? deliveryOptionSnapshot(before) : null,
+      });
+    });
+    return NextResponse.json({ success: true });
+  } catch (err: any) {
+    console.error("Failed to delete delivery option", err);
+    if (err?.code === "P2025") {
+      return NextResponse.json(
+        { error: `Delivery option "${id}" not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ error: "Error deleting delivery option" }, { status: 500 });
+  }
+});
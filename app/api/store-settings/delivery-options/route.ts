@@ -0,0 +1,64 @@
+// app/api/store-settings/delivery-options/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
+import {
+  DELIVERY_OPTION_ZONES_INCLUDE,
+  DeliveryOptionPayload,
+  deliveryOptionSnapshot,
+  toDeliveryOptionData,
+  toZonesCreate,
+} from "@/lib/shipping/zones";
+
+// GET: every delivery option (inactive included) with its zones and order count
+export const GET = withPermission("settings.manage", async () => {
+  await prismaReady;
+
+  const options = await prisma.deliveryOption.findMany({
+    orderBy: { createdAt: "asc" },
+    include: { ...DELIVERY_OPTION_ZONES_INCLUDE, _count: { select: { orders: true } } },
+  });
+
+  return NextResponse.json(
+    options.map(({ _count, ...o }) => ({ ...o, orderCount: _count.orders }))
+  );
+});
+
+// POST: create an option with its zones
+export const POST = withPermission("settings.manage", async (req: Request, _context: unknown, session) => {
+  await prismaReady;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = DeliveryOptionPayload.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const option = await prisma.$transaction(async (tx) => {
+      const created = await tx.deliveryOption.create({
+        data: {
+          ...toDeliveryOptionData(parsed.data),
+          zones: { create: toZonesCreate(parsed.data) },
+        },
+        include: DELIVERY_OPTION_ZONES_INCLUDE,
+      });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Create",
+        entityType: "DeliveryOption",
+        entityId: created.id,
+        after: deliveryOptionSnapshot(created),
+      });
+      return created;
+    });
+
+    return NextResponse.json({ ...option, orderCount: 0 }, { status: 201 });
+  } catch (err: any) {
+    console.error("Failed to create delivery option", err);
+    return NextResponse.json({ error: "Error creating delivery option" }, { status: 500 });
+  }
+});
@@ -1,11 +1,14 @@
 // app/api/store-settings/hero-slides/[id]/route.ts
 import { NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 
-export async function DELETE(
+export const DELETE = withPermission("settings.manage", async (
   _req: Request,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
   await prismaReady;
 
   const { id } = await params;
@@ -18,7 +21,16 @@ export async function DELETE(
   }
 
   try {
-    await prisma.heroSlide.delete({ where: { id } });
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.heroSlide.delete({ where: { id } });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Delete",
+        entityType: "HeroSlide",
+        entityId: id,
+        before,
+      });
+    });
     return NextResponse.json({ success: true });
   } catch (err: any) {
     console.error("Failed to delete hero slide", err);
@@ -33,4 +45,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
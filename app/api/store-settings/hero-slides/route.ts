@@ -3,6 +3,8 @@ export const dynamic = "force-dynamic";
 
 import { NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 
 type IncomingSlide = {
   id?: string;
@@ -26,7 +28,7 @@ export async function GET() {
 }
 
 // PUT: treat payload as full snapshot of all slides
-export async function PUT(req: Request) {
+export const PUT = withPermission("settings.manage", async (req: Request, _context: unknown, session) => {
   await prismaReady;
 
   let body: any;
@@ -83,9 +85,9 @@ export async function PUT(req: Request) {
     .map((s, idx) => ({ ...s, order: idx }));
 
   await prisma.$transaction(async (tx) => {
-    // Get existing IDs
+    // Get existing slides (ids + audit snapshot)
     const existing = await tx.heroSlide.findMany({
-      select: { id: true },
+      orderBy: { order: "asc" },
     });
     const existingIds = new Set(existing.map((s) => s.id));
 
@@ -132,6 +134,15 @@ export async function PUT(req: Request) {
         });
       }
     }
+
+    await recordAudit(tx, {
+      staffId: session.user.id,
+      action: "Update",
+      entityType: "HeroSlide",
+      entityId: "hero-slider",
+      before: { slides: existing },
+      after: { slides: await tx.heroSlide.findMany({ orderBy: { order: "asc" } }) },
+    });
   });
 
   const finalSlides = await prisma.heroSlide.findMany({
@@ -143,4 +154,4 @@ export async function PUT(req: Request) {
     updated: finalSlides.length,
     slides: finalSlides,
   });
-}
+});
@@ -0,0 +1,89 @@
+// app/api/store-settings/pickup-locations/[id]/route.ts
+import { NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
+import { parsePickupLocationInput, PickupError } from "@/lib/pickup";
+
+// PATCH: update any subset of a location's fields (incl. `active`)
+export const PATCH = withPermission("settings.manage", async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  try {
+    const data = parsePickupLocationInput(body, true);
+    const location = await prisma.$transaction(async (tx) => {
+      const before = await tx.pickupLocation.findUnique({ where: { id } });
+      if (!before) throw new PickupError(`Pickup location "${id}" not found`, 404);
+
+      const after = await tx.pickupLocation.update({ where: { id }, data });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Update",
+        entityType: "PickupLocation",
+        entityId: id,
+        before,
+        after,
+      });
+      return after;
+    });
+    return NextResponse.json(location);
+  } catch (err: any) {
+    if (err instanceof PickupError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("Failed to update pickup location", err);
+    return NextResponse.json({ error: "Error updating pickup location" }, { status: 500 });
+  }
+});
+
+// DELETE: only locations no order was ever collected from; deactivate the rest
+export const DELETE = withPermission("settings.manage", async (
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  await prismaReady;
+
+  const { id } = await params;
+
+  const used = await prisma.orderPickup.count({ where: { locationId: id } });
+  if (used > 0) {
+    return NextResponse.json(
+      { error: "Orders use this location. Deactivate it instead." },
+      { status: 409 }
+    );
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.pickupLocation.delete({ where: { id } });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Delete",
+        entityType: "PickupLocation",
+        entityId: id,
+        before,
+      });
+    });
+    return NextResponse.json({ success: true });
+  } catch (err: any) {
+    console.error("Failed to delete pickup location", err);
+    if (err?.code === "P2025") {
+      return NextResponse.json(
+        { error: `Pickup location "${id}" not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ error: "Error deleting pickup location" }, { status: 500 });
+  }
+});
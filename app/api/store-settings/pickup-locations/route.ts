@@ -0,0 +1,59 @@
+// app/api/store-settings/pickup-locations/route.ts
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma-client/client";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
+import { ensurePickupOption, parsePickupLocationInput, PickupError } from "@/lib/pickup";
+
+// GET: every location (inactive included) with its uncollected order count
+export const GET = withPermission("settings.manage", async () => {
+  await prismaReady;
+
+  const locations = await prisma.pickupLocation.findMany({
+    orderBy: { name: "asc" },
+    include: { _count: { select: { pickups: { where: { collectedAt: null } } } } },
+  });
+
+  return NextResponse.json(
+    locations.map(({ _count, ...l }) => ({ ...l, awaitingCollection: _count.pickups }))
+  );
+});
+
+// POST: create a location (and the store pickup delivery option, first time)
+export const POST = withPermission("settings.manage", async (req: Request, _context: unknown, session) => {
+  await prismaReady;
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  try {
+    // A full (non-partial) parse guarantees name, address and openingHours
+    const data = parsePickupLocationInput(body) as Prisma.PickupLocationCreateInput;
+
+    await ensurePickupOption();
+    const location = await prisma.$transaction(async (tx) => {
+      const created = await tx.pickupLocation.create({ data });
+      await recordAudit(tx, {
+        staffId: session.user.id,
+        action: "Create",
+        entityType: "PickupLocation",
+        entityId: created.id,
+        after: created,
+      });
+      return created;
+    });
+
+    return NextResponse.json({ ...location, awaitingCollection: 0 }, { status: 201 });
+  } catch (err: any) {
+    if (err instanceof PickupError) {
+      return NextResponse.json({ error: err.message }, { status: err.statusCode });
+    }
+    console.error("Failed to create pickup location", err);
+    return NextResponse.json({ error: "Error creating pickup location" }, { status: 500 });
+  }
+});
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/lib/db";
+import { withPermission } from "@/lib/withPermission";
+import { recordAudit } from "@/lib/audit";
 
 type SimpleRow = {
   id?: string;
@@ -44,7 +46,7 @@ export async function GET() {
   }
 }
 
-export async function PUT(req: Request) {
+export const PUT = withPermission("settings.manage", async (req: Request, _context: unknown, session) => {
   await prismaReady;
   try {
     const { id, rows }: { id: string; rows: SimpleRow[] } = await req.json();
@@ -72,6 +74,14 @@ export async function PUT(req: Request) {
 
     const keepIds = cleaned.map((r) => r.id).filter(Boolean) as string[];
 
+    const rowsFor = (chartId: string) =>
+      prisma.sizeChartRow.findMany({
+        where: { chartId },
+        orderBy: { order: "asc" },
+        select: { order: true, bodySize: true, productSize: true, code: true },
+      });
+    const before = await rowsFor(chart.id);
+
     await prisma.$transaction([
       prisma.sizeChartRow.deleteMany({
         where: { chartId: chart.id, ...(keepIds.length ? { id: { notIn: keepIds } } : {}) },
@@ -96,9 +106,18 @@ export async function PUT(req: Request) {
       ),
     ]);
 
+    await recordAudit(prisma, {
+      staffId: session.user.id,
+      action: "Update",
+      entityType: "SizeChart",
+      entityId: chart.id,
+      before: { rows: before },
+      after: { rows: await rowsFor(chart.id) },
+    });
+
     return NextResponse.json({ success: true });
   } catch (err) {
     console.error("SIZE CHART PUT ERROR", err);
     return NextResponse.json({ message: "Failed to save size chart" }, { status: 500 });
   }
-}
+});
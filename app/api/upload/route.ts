@@ -1,19 +1,42 @@
 import { NextResponse } from "next/server";
 import cloudinary from "@/lib/cloudinary";
+import { withPermission } from "@/lib/withPermission";
+import { getCustomerSession } from "@/lib/getCustomerSession";
 
-export async function POST(req: Request) {
+const CUSTOMER_MAX_BYTES = 5 * 1024 * 1024;
+
+async function upload(req: Request, folder: string, imagesOnly = false) {
   const formData = await req.formData();
   const file = formData.get("file") as File | null;
   if (!file) {
     return NextResponse.json({ success: false, error: "No file provided" }, { status: 400 });
   }
+  if (imagesOnly && (!file.type.startsWith("image/") || file.size > CUSTOMER_MAX_BYTES)) {
+    return NextResponse.json(
+      { success: false, error: "Upload an image of up to 5 MB" },
+      { status: 400 }
+    );
+  }
   const buffer = Buffer.from(await file.arrayBuffer());
-  const upload = await new Promise<any>((resolve, reject) => {
+  const result = await new Promise<any>((resolve, reject) => {
     cloudinary.uploader
-      .upload_stream({ folder: "panthart" }, (err, result) =>
+      .upload_stream({ folder }, (err, result) =>
         err ? reject(err) : resolve(result)
       )
       .end(buffer);
   });
-  return NextResponse.json({ success: true, data: upload });
+  return NextResponse.json({ success: true, data: result });
+}
+
+const staffUpload = withPermission("media.upload", async (req: Request) => upload(req, "panthart"));
+
+/**
+ * Staff with media.upload may upload anything; signed-in customers may only
+ * upload return photos (images up to 5 MB, kept in their own folder).
+ */
+export async function POST(req: Request) {
+  if (await getCustomerSession()) {
+    return upload(req, "panthart/returns", true);
+  }
+  return staffUpload(req, undefined);
 }
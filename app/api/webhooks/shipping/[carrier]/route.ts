@@ -0,0 +1,18 @@
+// app/api/webhooks/shipping/[carrier]/route.ts
+import { NextResponse } from "next/server";
+import { findCarrier } from "@/lib/shipping/carriers";
+import { handleCarrierWebhook } from "@/lib/shipping/webhook";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ carrier: string }> }
+) {
+  const { carrier: key } = await context.params;
+  const carrier = findCarrier(key);
+  if (!carrier) {
+    return NextResponse.json({ error: "Unknown carrier" }, { status: 404 });
+  }
+  return handleCarrierWebhook(carrier, req);
+}
@@ -11,6 +11,7 @@ import NextAuthSessionProvider from "@/components/shared/SessionProvider";
 import { UserProvider } from "@/lib/context/UserContext";
 import ReactQueryProvider from "@/components/ReactQueryProvider";
 import ScrollToTop from "@/components/ScroolToTop";
+import CartSync from "@/components/shared/CartSync";
 import { cookies } from "next/headers";
 
 const montserrat = Montserrat({ subsets: ["latin"], display: "swap" });
@@ -89,6 +90,7 @@ export default async function RootLayout({ children }: { children: React.ReactNo
           <ReactQueryProvider>
             <UserProvider>
               <CurrencyProvider initialCurrency={initialCurrency}>
+                <CartSync />
                 <SizeChartProvider>{children}</SizeChartProvider>
               </CurrencyProvider>
             </UserProvider>
@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import type { Session } from "next-auth";
+import { Bell } from "lucide-react";
+import type { Product } from "@/lib/products";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { useCurrency } from "@/lib/context/currencyContext";
+import { formatAmount } from "@/lib/formatCurrency";
+
+interface Props {
+  product: Product;
+  /** ISO timestamp the drop goes live */
+  publishAt: string;
+  user: Session["user"] | null;
+  categoryName: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function remaining(ms: number) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  return {
+    days: Math.floor(s / 86_400),
+    hours: Math.floor((s % 86_400) / 3_600),
+    minutes: Math.floor((s % 3_600) / 60),
+    seconds: s % 60,
+  };
+}
+
+/** Product page for a scheduled drop: countdown plus launch sign-up. */
+const ComingSoonHero: React.FC<Props> = ({ product, publishAt, user, categoryName }) => {
+  const router = useRouter();
+  const { currency } = useCurrency();
+  const launchAt = new Date(publishAt).getTime();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick every second; reload into the live page once the drop opens
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= launchAt) {
+        clearInterval(timer);
+        router.refresh();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [launchAt, router]);
+
+  const left = remaining(launchAt - now);
+
+  // launch alerts (guests enter an email; customers use their account)
+  const isCustomer = !!user && user.role === "customer";
+  const [notifyEmail, setNotifyEmail] = useState("");
+  const [notifyLoading, setNotifyLoading] = useState(false);
+  const [notified, setNotified] = useState(false);
+
+  const requestLaunchAlert = async () => {
+    if (!isCustomer && !notifyEmail.trim()) {
+      toast.error("Enter your email address");
+      return;
+    }
+    setNotifyLoading(true);
+    try {
+      const res = await fetch("/api/launch-notifications", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          productId: product.id,
+          email: isCustomer ? undefined : notifyEmail.trim(),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Could not save your request");
+      setNotified(true);
+      toast.success("We'll email you when it launches");
+    } catch (err: any) {
+      toast.error(err?.message || "Could not save your request");
+    } finally {
+      setNotifyLoading(false);
+    }
+  };
+
+  const price = product.prices[currency];
+  const image = product.images[0];
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-2">
+      <div className="relative aspect-[4/5] w-full overflow-hidden rounded-xl bg-gray-100">
+        {image && (
+          <Image
+            src={image}
+            alt={product.name}
+            fill
+            priority
+            sizes="(max-width: 1024px) 100vw, 50vw"
+            className="object-cover"
+          />
+        )}
+        <span className="absolute left-3 top-3 rounded-full bg-black/80 px-3 py-1 text-xs font-medium text-white">
+          Coming soon
+        </span>
+      </div>
+
+      <div className="space-y-6">
+        <div className="space-y-1">
+          <p className="text-sm text-gray-500">{categoryName}</p>
+          <h1 className="text-3xl font-bold text-gray-900">{product.name}</h1>
+          {price > 0 && (
+            <p className="text-xl font-semibold text-gray-900">{formatAmount(price, currency)}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">
+            Launches{" "}
+            <span suppressHydrationWarning>
+              {new Date(publishAt).toLocaleString(undefined, {
+                dateStyle: "medium",
+                timeStyle: "short",
+              })}
+            </span>
+          </p>
+          <div className="grid grid-cols-4 gap-2 max-w-sm text-center" suppressHydrationWarning>
+            {(
+              [
+                ["Days", left.days],
+                ["Hours", left.hours],
+                ["Mins", left.minutes],
+                ["Secs", left.seconds],
+              ] as const
+            ).map(([label, value]) => (
+              <div key={label} className="rounded-lg border bg-muted/20 py-3">
+                <div className="text-2xl font-bold tabular-nums" suppressHydrationWarning>
+                  {label === "Days" ? value : pad(value)}
+                </div>
+                <div className="text-xs text-gray-500">{label}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="rounded-xl border bg-muted/20 p-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Bell className="h-4 w-4" />
+            {notified
+              ? "You're on the list — we'll email you the moment it drops."
+              : "Get an email the moment this drops."}
+          </div>
+          {!notified && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              {!isCustomer && (
+                <Input
+                  type="email"
+                  placeholder="you@example.com"
+                  value={notifyEmail}
+                  onChange={(e) => setNotifyEmail(e.target.value)}
+                />
+              )}
+              <Button
+                variant="outline"
+                onClick={requestLaunchAlert}
+                disabled={notifyLoading}
+                className={isCustomer ? "w-full" : ""}
+              >
+                {notifyLoading ? "Saving…" : "Notify me"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {product.description && (
+          <p className="whitespace-pre-line text-sm leading-relaxed text-gray-700">
+            {product.description}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComingSoonHero;
@@ -8,6 +8,7 @@ import toast from "react-hot-toast";
 import type { Session } from "next-auth";
 import type { Product } from "@/lib/products";
 import {
+  Bell,
   CheckCircle,
   Heart,
   LayoutGrid,
@@ -25,6 +26,7 @@ import { useSizeChart } from "@/lib/context/sizeChartcontext";
 import { useCartStore } from "@/lib/store/cartStore";
 import { useCurrency } from "@/lib/context/currencyContext";
 import { formatAmount } from "@/lib/formatCurrency";
+import { saleInfo } from "@/lib/variantPricing";
 import {
   Select,
   SelectContent,
@@ -170,8 +172,10 @@ const ProductDetailHero: React.FC<Props> = ({ product, user, categoryName }) =>
     setQuantity((q) => Math.min(Math.max(1, q), inStock || 1));
   }, [selectedColor, selectedSize, inStock]);
 
-  // pricing — per-currency price comes from product meta; no FX conversion
+  // pricing — per-currency price comes from product meta (or the selected
+  // variant's override); no FX conversion
   const basePrice =
+    selectedVariant?.prices?.[currency] ??
     (product as any).prices?.[currency] ??
     (Object.values((product as any).prices ?? {})[0] as number | undefined) ??
     0;
@@ -179,6 +183,12 @@ const ProductDetailHero: React.FC<Props> = ({ product, user, categoryName }) =>
   const finalPrice = +(basePrice + sizeModFee).toFixed(2);
   const currentPrice = formatAmount(finalPrice, currency);
 
+  // markdown — compare-at ("was") price for the selected variant, else the product
+  const sale = saleInfo(
+    basePrice,
+    selectedVariant?.compareAt?.[currency] ?? product.compareAt?.[currency]
+  );
+
   const unitWeight =
     typeof selectedVariant?.weight === "number" ? selectedVariant.weight : 0;
 
@@ -230,6 +240,42 @@ const ProductDetailHero: React.FC<Props> = ({ product, user, categoryName }) =>
     }
   };
 
+  // back-in-stock alerts (guests enter an email; customers use their account)
+  const isCustomer = !!user && user.role === "customer";
+  const [notifyEmail, setNotifyEmail] = useState("");
+  const [notifyLoading, setNotifyLoading] = useState(false);
+  const [notifiedKeys, setNotifiedKeys] = useState<string[]>([]);
+  const variantKey = `${selectedColor}|${selectedSize}`;
+  const alreadyNotified = notifiedKeys.includes(variantKey);
+
+  const requestStockAlert = async () => {
+    if (!isCustomer && !notifyEmail.trim()) {
+      toast.error("Enter your email address");
+      return;
+    }
+    setNotifyLoading(true);
+    try {
+      const res = await fetch("/api/stock-notifications", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          productId: product.id,
+          color: selectedColor,
+          size: selectedSize,
+          email: isCustomer ? undefined : notifyEmail.trim(),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Could not save your request");
+      setNotifiedKeys((keys) => [...keys, variantKey]);
+      toast.success("We'll email you when it's back in stock");
+    } catch (err: any) {
+      toast.error(err?.message || "Could not save your request");
+    } finally {
+      setNotifyLoading(false);
+    }
+  };
+
   // cart
   const addToCart = useCartStore((s) => s.addToCart);
 
@@ -474,7 +520,21 @@ const ProductDetailHero: React.FC<Props> = ({ product, user, categoryName }) =>
         </div>
 
         {/* Price */}
-        <div className="text-3xl font-bold text-gray-900">{currentPrice}</div>
+        <div className="flex flex-wrap items-baseline gap-3">
+          <div className={`text-3xl font-bold ${sale ? "text-red-700" : "text-gray-900"}`}>
+            {currentPrice}
+          </div>
+          {sale && (
+            <>
+              <span className="text-lg text-gray-500 line-through">
+                {formatAmount(sale.compareAt, currency)}
+              </span>
+              <span className="rounded-full bg-red-600 px-2 py-0.5 text-xs font-semibold text-white">
+                -{sale.percentOff}%
+              </span>
+            </>
+          )}
+        </div>
         <div className="text-sm text-gray-500">
           {customSizeEnabled && (
             <>
@@ -642,6 +702,41 @@ const ProductDetailHero: React.FC<Props> = ({ product, user, categoryName }) =>
           </Button>
         </div>
 
+        {/* Back-in-stock alert */}
+        {outOfStock &&
+          !!selectedVariant &&
+          (!requireColor || !!selectedColor) &&
+          (!requireSize || !!selectedSize) && (
+            <div className="mt-3 rounded-xl border bg-muted/20 p-4 space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Bell className="h-4 w-4" />
+                {alreadyNotified
+                  ? "You're on the list — we'll email you when it's back."
+                  : "Sold out in this option. Get an email when it's back in stock."}
+              </div>
+              {!alreadyNotified && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  {!isCustomer && (
+                    <Input
+                      type="email"
+                      placeholder="you@example.com"
+                      value={notifyEmail}
+                      onChange={(e) => setNotifyEmail(e.target.value)}
+                    />
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={requestStockAlert}
+                    disabled={notifyLoading}
+                    className={isCustomer ? "w-full" : ""}
+                  >
+                    {notifyLoading ? "Saving…" : "Notify me"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
         {/* Wishlist */}
         {user && user.role === "customer" && (
           <Button
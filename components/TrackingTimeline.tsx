@@ -0,0 +1,117 @@
+import React from "react";
+import { CheckCircle2, Circle, MapPin, Truck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import type { TrackingTimeline as Timeline } from "@/lib/shipmentTracking";
+
+export interface TrackingTimelineProps {
+  timeline: Timeline;
+}
+
+export default function TrackingTimeline({ timeline }: TrackingTimelineProps) {
+  const {
+    parcel,
+    items,
+    status,
+    label,
+    courierName,
+    trackingNumber,
+    trackingUrl,
+    deliveryEtaText,
+    events,
+  } = timeline;
+  const isSplit = parcel.of > 1;
+
+  const badgeVariant: "default" | "outline" | "secondary" | "destructive" =
+    status === "DELIVERED"
+      ? "default"
+      : status === "FAILED" || status === "CANCELLED"
+      ? "destructive"
+      : status === "IN_TRANSIT"
+      ? "secondary"
+      : "outline";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="w-5 h-5 text-gray-600" />
+          {isSplit ? `Parcel ${parcel.number} of ${parcel.of}` : "Tracking"}
+        </CardTitle>
+        <Badge variant={badgeVariant}>{label}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {isSplit && items.length > 0 && (
+          <p className="text-gray-700">
+            Contains:{" "}
+            {items.map((it) => `${it.name} × ${it.quantity}`).join(", ")}
+          </p>
+        )}
+
+        {(courierName || trackingNumber || deliveryEtaText) && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-gray-700">
+            {courierName && (
+              <p>
+                Courier: <strong>{courierName}</strong>
+              </p>
+            )}
+            {trackingNumber && (
+              <p>
+                Tracking no.: <span className="font-mono">{trackingNumber}</span>
+              </p>
+            )}
+            {deliveryEtaText && (
+              <p>
+                Estimated delivery: <strong>{deliveryEtaText}</strong>
+              </p>
+            )}
+          </div>
+        )}
+
+        {events.length === 0 ? (
+          <p className="text-gray-500">
+            No updates from the courier yet. Check back once your order has been picked up.
+          </p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2">
+            {events.map((e, idx) => (
+              <li key={e.id} className="ml-5 pb-5 last:pb-0">
+                <span className="absolute -left-[9px] bg-white">
+                  {idx === 0 ? (
+                    <CheckCircle2 className="w-4 h-4 text-green-600" />
+                  ) : (
+                    <Circle className="w-4 h-4 text-gray-300" />
+                  )}
+                </span>
+                <p className={idx === 0 ? "font-medium text-gray-900" : "text-gray-700"}>
+                  {e.label}
+                </p>
+                {e.description && <p className="text-gray-600">{e.description}</p>}
+                <p className="text-xs text-gray-500 flex flex-wrap items-center gap-2">
+                  <span>{new Date(e.occurredAt).toLocaleString()}</span>
+                  {e.location && (
+                    <span className="inline-flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      {e.location}
+                    </span>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {trackingUrl && (
+          <a
+            href={trackingUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-block text-sm font-medium underline"
+          >
+            View on the courier&apos;s site
+          </a>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
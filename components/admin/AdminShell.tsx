@@ -3,6 +3,12 @@
 import { ReactNode } from "react";
 import AdminSidebar from "./AdminSidebar";
 
-export default function AdminShell({ children }: { children: ReactNode }) {
-  return <AdminSidebar>{children}</AdminSidebar>;
+export default function AdminShell({
+  role,
+  children,
+}: {
+  role: string;
+  children: ReactNode;
+}) {
+  return <AdminSidebar role={role}>{children}</AdminSidebar>;
 }
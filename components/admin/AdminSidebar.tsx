@@ -15,28 +15,53 @@ import {
   User,
   Rows4,
   Recycle,
+  TicketPercent,
+  PackageMinus,
+  ScrollText,
+  Undo2,
+  ChartLine,
+  ShoppingCart,
 } from "lucide-react";
 import { BsBag } from "react-icons/bs";
 import { RiAdminLine } from "react-icons/ri";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { signOut } from "next-auth/react";
+import { can, type Capability } from "@/lib/permissions";
 
-const navItems = [
-  { name: "Dashboard",           href: "/admin",                   icon: <LayoutDashboard size={20} /> },
-  { name: "Log Offline Sale",    href: "/admin/log-sale",          icon: <NotebookPen size={20} /> },
-  { name: "Categories",          href: "/admin/categories",          icon: <Rows4 size={20} /> },
-  { name: "Products Management", href: "/admin/product-management", icon: <Boxes size={20} /> },
-  { name: "Order Inventory",     href: "/admin/order-inventory",   icon: <BsBag size={20} /> },
-  { name: "Customers",           href: "/admin/customers",         icon: <Users size={20} /> },
-  { name: "Reconciliation",      href: "/admin/reconciliation",   icon: <Recycle size={20} /> },
-  { name: "Staff & Admin",       href: "/admin/staff-admins",      icon: <RiAdminLine size={20} /> },
-  { name: "Store Settings",      href: "/admin/settings",          icon: <Settings size={20} /> },
+// `capability` omitted = every staff role (see lib/permissions.ts)
+const navItems: { name: string; href: string; icon: ReactNode; capability?: Capability }[] = [
+  { name: "Dashboard",           href: "/admin",                    icon: <LayoutDashboard size={20} /> },
+  { name: "Log Offline Sale",    href: "/admin/log-sale",           icon: <NotebookPen size={20} />,     capability: "sales.log" },
+  { name: "Categories",          href: "/admin/categories",         icon: <Rows4 size={20} />,           capability: "products.manage" },
+  { name: "Products Management", href: "/admin/product-management", icon: <Boxes size={20} />,           capability: "products.manage" },
+  { name: "Low Stock",           href: "/admin/low-stock",          icon: <PackageMinus size={20} />,    capability: "products.manage" },
+  { name: "Order Inventory",     href: "/admin/order-inventory",    icon: <BsBag size={20} />,           capability: "orders.view" },
+  { name: "Returns",             href: "/admin/returns",            icon: <Undo2 size={20} />,           capability: "returns.manage" },
+  { name: "Promotions",          href: "/admin/promotions",         icon: <TicketPercent size={20} />,   capability: "promotions.manage" },
+  { name: "Abandoned Carts",     href: "/admin/abandoned-carts",    icon: <ShoppingCart size={20} />,    capability: "promotions.manage" },
+  { name: "Customers",           href: "/admin/customers",          icon: <Users size={20} />,           capability: "customers.view" },
+  { name: "Reconciliation",      href: "/admin/reconciliation",     icon: <Recycle size={20} />,         capability: "payments.reconcile" },
+  { name: "FX Rates",            href: "/admin/fx-rates",           icon: <ChartLine size={20} />,       capability: "payments.reconcile" },
+  { name: "Staff & Admin",       href: "/admin/staff-admins",       icon: <RiAdminLine size={20} />,     capability: "staff.manage" },
+  { name: "Audit Log",           href: "/admin/audit-log",          icon: <ScrollText size={20} />,      capability: "audit.view" },
+  { name: "Store Settings",      href: "/admin/settings",           icon: <Settings size={20} />,        capability: "settings.manage" },
 ];
 
-export default function AdminSidebar({ children }: { children: ReactNode }) {
+export default function AdminSidebar({
+  role,
+  children,
+}: {
+  role: string;
+  children: ReactNode;
+}) {
   const [open, setOpen] = useState(false);
   const pathname = usePathname();
 
+  const visibleItems = useMemo(
+    () => navItems.filter((item) => !item.capability || can(role, item.capability)),
+    [role]
+  );
+
   const isActive = useMemo(
     () => (href: string) =>
       href === "/admin"
@@ -73,7 +98,7 @@ export default function AdminSidebar({ children }: { children: ReactNode }) {
             className="flex-1 overflow-y-auto px-6 space-y-7 mt-10"
             aria-label="Main navigation"
           >
-            {navItems.map((item) => {
+            {visibleItems.map((item) => {
               const active = isActive(item.href);
               return (
                 <Link
@@ -131,7 +156,7 @@ export default function AdminSidebar({ children }: { children: ReactNode }) {
             </div>
             <ScrollArea className="px-6 flex-1">
               <nav className="space-y-4 py-4" aria-label="Mobile navigation">
-                {navItems.map((item) => {
+                {visibleItems.map((item) => {
                   const active = isActive(item.href);
                   return (
                     <Link
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+
+// Shape-detection API (Chrome / Android); not in the TS DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorCtor = new (opts?: { formats?: string[] }) => BarcodeDetectorLike;
+
+function detectorCtor(): BarcodeDetectorCtor | null {
+  if (typeof window === "undefined") return null;
+  return ((window as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector) ?? null;
+}
+
+/** Can this browser scan with the camera at all? */
+export function cameraScanSupported(): boolean {
+  return !!detectorCtor() && !!navigator.mediaDevices?.getUserMedia;
+}
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  /** Called once with the first code read; the dialog closes itself. */
+  onDetected: (code: string) => void;
+}
+
+/** Rear-camera QR / barcode reader for the log-sale form. */
+export default function CameraScanner({ open, onClose, onDetected }: Props) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Latest callbacks, so a parent re-render does not restart the camera
+  const handlers = useRef({ onDetected, onClose });
+  useEffect(() => {
+    handlers.current = { onDetected, onClose };
+  }, [onDetected, onClose]);
+
+  useEffect(() => {
+    if (!open) return;
+    const Detector = detectorCtor();
+    if (!Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+    const detector = new Detector({ formats: ["qr_code", "code_128", "ean_13", "ean_8", "upc_a"] });
+
+    const stop = () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+
+    const tick = async () => {
+      if (stopped || !videoRef.current) return;
+      const found = await detector.detect(videoRef.current).catch(() => []);
+      const code = found[0]?.rawValue?.trim();
+      if (code) {
+        stop();
+        handlers.current.onDetected(code);
+        handlers.current.onClose();
+        return;
+      }
+      timer = setTimeout(tick, 250);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (s) => {
+        stream = s;
+        if (stopped || !videoRef.current) return stop();
+        videoRef.current.srcObject = s;
+        await videoRef.current.play().catch(() => undefined);
+        tick();
+      })
+      .catch(() => setError("Could not open the camera. Check the browser's camera permission."));
+
+    return stop;
+  }, [open]);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(o) => {
+        if (!o) {
+          setError(null);
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Scan label</DialogTitle>
+          <DialogDescription>Point the camera at the QR code on the label.</DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <video ref={videoRef} className="w-full rounded bg-black aspect-[4/3]" muted playsInline />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
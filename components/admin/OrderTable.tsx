@@ -46,18 +46,33 @@ import {
   Eye,
   PackagePlus,
   PackageX,
+  Undo2,
+  Mail,
+  KeyRound,
 } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import toast from "react-hot-toast";
 import Papa from "papaparse";
-import type { OrderRow } from "@/types/orders";
+import type { OrderRow, OrderShipmentRow } from "@/types/orders";
 import { renderReceiptHTML, renderPackingSlipHTML } from "@/lib/receipt/html";
 
 /* ========= Local enum mirrors (no Prisma on client) ========= */
-type OrderStatus = "Processing" | "Shipped" | "Delivered" | "Cancelled";
+type OrderStatus =
+  | "Processing"
+  | "ReadyForPickup"
+  | "PartiallyShipped"
+  | "Shipped"
+  | "PartiallyDelivered"
+  | "Delivered"
+  | "Cancelled";
 type Currency = "NGN" | "USD" | "EUR" | "GBP";
 type OrderChannel = "ONLINE" | "OFFLINE";
 
+type RefundLineState = { quantity: number; restock: boolean };
+
 /* ========================= helpers ========================= */
 function tryParseJSON<T = any>(s: unknown): T | null {
   if (typeof s !== "string") return null;
@@ -195,32 +210,41 @@ function DisplayDeliveryDetails({
   return <span>{human}</span>;
 }
 
-/** Detect offline "In-person pickup" so we can hide Shipbubble label buttons */
-function isInPersonPickupOrder(order: OrderRow): boolean {
-  // 1) deliveryDetails string cases from your offline-sales route ("PICKUP" / "PICKUP: ...")
-  const dd = (order as any).deliveryDetails as string | null | undefined;
-  if (typeof dd === "string") {
-    const t = dd.trim().toLowerCase();
-    if (t.startsWith("pickup")) return true;
-    if (t.includes("in-person pickup")) return true;
-    if (t.includes("walk-in")) return true;
-  }
+function currencySymbol(c: string): string {
+  return c === "NGN" ? "₦" : c === "USD" ? "$" : c === "EUR" ? "€" : "£";
+}
 
-  // 2) delivery option name includes pickup
-  const optName = order.deliveryOption?.name?.toLowerCase?.() ?? "";
-  if (optName.includes("pickup")) return true;
-
-  // 3) If deliveryDetails is JSON string/object and contains pickup-ish fields
-  const obj = tryParseJSON<any>(dd);
-  if (obj && typeof obj === "object") {
-    const source = String(obj?.source ?? "").toLowerCase();
-    const method = String(obj?.method ?? obj?.type ?? "").toLowerCase();
-    const note = String(obj?.note ?? "").toLowerCase();
-    if (source.includes("pickup") || method.includes("pickup") || note.includes("pickup"))
-      return true;
-  }
+/** Paid total still refundable (items + delivery − discount − refunds so far). */
+function refundableBalance(o: OrderRow): number {
+  const paid = o.totalAmount + (o.deliveryFee ?? 0) - (o.discountAmount ?? 0);
+  return Math.max(+(paid - (o.refundedAmount ?? 0)).toFixed(2), 0);
+}
+
+/** API errors are a string or a flattened zod error. */
+function errorMessage(err: any, fallback: string): string {
+  if (typeof err === "string") return err;
+  const fieldErrors = err?.fieldErrors as Record<string, string[]> | undefined;
+  const first = fieldErrors && Object.values(fieldErrors).flat()[0];
+  return first || err?.formErrors?.[0] || fallback;
+}
 
-  return false;
+const isLiveShipment = (s: OrderShipmentRow) =>
+  s.status !== "CANCELLED" && s.status !== "FAILED";
+
+/** Quantity of each line not refunded and not yet in a live parcel (the server re-checks). */
+function unshippedQuantities(o: OrderRow): Map<string, number> {
+  const packed = new Map<string, number>();
+  for (const s of (o.shipments ?? []).filter(isLiveShipment)) {
+    for (const it of s.items) {
+      packed.set(it.orderItemId, (packed.get(it.orderItemId) ?? 0) + it.quantity);
+    }
+  }
+  return new Map(
+    o.products.map((p) => [
+      p.id,
+      Math.max(0, p.quantity - (p.refundedQuantity ?? 0) - (packed.get(p.id) ?? 0)),
+    ])
+  );
 }
 
 /* ========================= component ========================= */
@@ -239,7 +263,38 @@ const STATUS_OPTIONS: OrderStatus[] = [
   "Delivered",
   "Cancelled",
 ];
+/** Store pickup orders are never shipped; they wait for collection instead. */
+const PICKUP_STATUS_OPTIONS: OrderStatus[] = [
+  "Processing",
+  "ReadyForPickup",
+  "Delivered",
+  "Cancelled",
+];
+const FILTER_STATUS_OPTIONS: OrderStatus[] = [
+  "Processing",
+  "ReadyForPickup",
+  "PartiallyShipped",
+  "Shipped",
+  "PartiallyDelivered",
+  "Delivered",
+  "Cancelled",
+];
+/** Set from the order's parcels only, so staff cannot pick them. */
+const DERIVED_STATUSES: OrderStatus[] = ["PartiallyShipped", "PartiallyDelivered"];
+const STATUS_LABELS: Partial<Record<OrderStatus, string>> = {
+  ReadyForPickup: "Ready for pickup",
+  PartiallyShipped: "Partially shipped",
+  PartiallyDelivered: "Partially delivered",
+};
 const CURRENCY_OPTIONS: Currency[] = ["NGN", "USD", "EUR", "GBP"];
+const SHIPMENT_STATUS_LABELS: Record<OrderShipmentRow["status"], string> = {
+  REQUESTED: "Requested",
+  LABEL_CREATED: "Label created",
+  IN_TRANSIT: "In transit",
+  DELIVERED: "Delivered",
+  CANCELLED: "Cancelled",
+  FAILED: "Failed",
+};
 
 export default function OrderTable({
   data: initialData,
@@ -259,26 +314,60 @@ export default function OrderTable({
   const [receiptOrder, setReceiptOrder] = useState<OrderRow | null>(null);
   const [receiptOpen, setReceiptOpen] = useState(false);
 
+  // refund dialog
+  const [refundOrder, setRefundOrder] = useState<OrderRow | null>(null);
+  const [refundFull, setRefundFull] = useState(false);
+  const [refundLines, setRefundLines] = useState<Record<string, RefundLineState>>({});
+  const [refundReason, setRefundReason] = useState("");
+  const [refundBusy, setRefundBusy] = useState(false);
+
+  // Parcels & labels
+  const [shipOrderId, setShipOrderId] = useState<string | null>(null);
+  const [shipLines, setShipLines] = useState<Record<string, number>>({});
+
+  // Store pickup hand-over
+  const [collectOrder, setCollectOrder] = useState<OrderRow | null>(null);
+  const [collectCode, setCollectCode] = useState("");
+  const [collectBusy, setCollectBusy] = useState(false);
+
   function openReceiptModal(order: OrderRow) {
     setReceiptOrder(order);
     setReceiptOpen(true);
   }
 
-  function toRenderPayload(o: OrderRow) {
-    const courierName = o.deliveryOption?.name || undefined;
+  /** With `parcel`, the slip lists only that parcel's items and quantities. */
+  function toRenderPayload(
+    o: OrderRow,
+    parcel?: { shipment: OrderShipmentRow; number: number; of: number }
+  ) {
+    const courierName =
+      parcel?.shipment.courierName || o.deliveryOption?.name || undefined;
     const human = humanizeOnClient((o as any).deliveryDetails);
     const summary = stripLeadingName(human, courierName);
+    const inParcel = parcel
+      ? new Map(parcel.shipment.items.map((it) => [it.orderItemId, it.quantity]))
+      : null;
+    const products = inParcel
+      ? o.products
+          .filter((p) => inParcel.has(p.id))
+          .map((p) => ({ ...p, quantity: inParcel.get(p.id)! }))
+      : o.products;
     return {
       order: {
         id: o.id,
         createdAt: o.createdAt,
         paymentMethod: o.paymentMethod,
         totalAmount: o.totalAmount,
-        items: o.products.map((p) => ({
+        discountCode: o.discountCode ?? null,
+        discountAmount: o.discountAmount ?? 0,
+        items: products.map((p) => ({
           name: p.name,
+          sku: p.sku,
           image: p.image,
           quantity: p.quantity,
           lineTotal: p.lineTotal,
+          unitPrice: p.unitPrice,
+          compareAtPrice: p.compareAtPrice,
           color: p.color,
           size: p.size,
           hasSizeMod: p.hasSizeMod,
@@ -297,11 +386,20 @@ export default function OrderTable({
       currency: o.currency as any,
       deliveryFee: o.deliveryFee ?? 0,
       shipping: { courierName, summary: summary || undefined },
+      parcel: parcel && {
+        number: parcel.number,
+        of: parcel.of,
+        trackingNumber: parcel.shipment.trackingNumber,
+      },
     };
   }
 
-  async function handleStatusChange(id: string, newStatus: OrderStatus) {
+  async function handleStatusChange(id: string, newStatus: OrderStatus, order?: OrderRow) {
     if (updatingIds.has(id)) return;
+    // Pickup orders move to ready / delivered through the collection code flow
+    if (order?.pickup && newStatus === "ReadyForPickup") return handleMarkReady(order);
+    if (order?.pickup && newStatus === "Delivered") return openCollectModal(order);
+
     setUpdatingIds((s) => new Set(s).add(id));
     try {
       const res = await fetch(`/api/orders/${id}`, {
@@ -325,106 +423,284 @@ export default function OrderTable({
     }
   }
 
-  async function handlePrint(order: OrderRow) {
-    const { default: printJS } = await import("print-js");
-    const html = renderPackingSlipHTML(toRenderPayload(order));
-    printJS({ printable: html, type: "raw-html", scanStyles: false });
+  async function handleMarkReady(order: OrderRow) {
+    if (updatingIds.has(order.id)) return;
+    setUpdatingIds((s) => new Set(s).add(order.id));
+    try {
+      const res = await fetch(`/api/admin/orders/${order.id}/pickup/ready`, { method: "POST" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to mark order ready");
+      setData((d) =>
+        d.map((o) =>
+          o.id === order.id
+            ? {
+                ...o,
+                status: "ReadyForPickup",
+                pickup: o.pickup && { ...o.pickup, readyAt: json.readyAt },
+              }
+            : o
+        )
+      );
+      if (json.emailed) {
+        toast.success(`Collection code sent to ${json.email}`);
+      } else {
+        toast.error(`Order is ready, but the code email to ${json.email} failed. Try resending.`);
+      }
+    } catch (err: any) {
+      toast.error("❌ " + err.message);
+    } finally {
+      setUpdatingIds((s) => {
+        const copy = new Set(s);
+        copy.delete(order.id);
+        return copy;
+      });
+    }
   }
 
-  async function refreshHasLabel(id: string) {
+  function openCollectModal(order: OrderRow) {
+    if (order.status !== "ReadyForPickup") {
+      toast.error("Mark the order ready for pickup first.");
+      return;
+    }
+    setCollectOrder(order);
+    setCollectCode("");
+  }
+
+  async function handleCollect() {
+    if (!collectOrder || collectBusy) return;
+    setCollectBusy(true);
     try {
-      const res = await fetch(`/api/admin/orders/${id}/shipbubble/status`, {
-        method: "GET",
-        cache: "no-store",
+      const res = await fetch(`/api/admin/orders/${collectOrder.id}/pickup/collect`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: collectCode }),
       });
-      if (!res.ok) return;
-      const j = await res.json();
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Code could not be verified");
       setData((d) =>
         d.map((o) =>
-          o.id === id ? { ...o, hasShipbubbleLabel: !!j.hasLabel } : o
+          o.id === collectOrder.id
+            ? {
+                ...o,
+                status: "Delivered",
+                pickup: o.pickup && { ...o.pickup, collectedAt: json.collectedAt },
+              }
+            : o
         )
       );
-    } catch {
-      /* ignore */
+      toast.success(`Order ${collectOrder.id} handed over`);
+      setCollectOrder(null);
+    } catch (err: any) {
+      toast.error("❌ " + err.message);
+    } finally {
+      setCollectBusy(false);
     }
   }
 
-  async function handleCreateShipmentLabel(order: OrderRow) {
-    if (labelBusyIds.has(order.id)) return;
-    setLabelBusyIds((s) => new Set(s).add(order.id));
+  function openRefundModal(order: OrderRow) {
+    setRefundOrder(order);
+    setRefundFull(false);
+    setRefundReason("");
+    setRefundLines(
+      Object.fromEntries(
+        order.products.map((p) => [p.id, { quantity: 0, restock: true }])
+      )
+    );
+  }
+
+  // Estimate only — the server recomputes (incl. discount proration)
+  const refundEstimate = useMemo(() => {
+    if (!refundOrder) return 0;
+    const balance = refundableBalance(refundOrder);
+    if (refundFull) return balance;
+    const sum = refundOrder.products.reduce((s, p) => {
+      const qty = refundLines[p.id]?.quantity ?? 0;
+      return s + (p.lineTotal / p.quantity) * qty;
+    }, 0);
+    return Math.min(+sum.toFixed(2), balance);
+  }, [refundOrder, refundFull, refundLines]);
+
+  async function handleRefund() {
+    if (!refundOrder || refundBusy) return;
+    const items = refundOrder.products
+      .map((p) => ({
+        orderItemId: p.id,
+        quantity: refundFull
+          ? p.quantity - (p.refundedQuantity ?? 0)
+          : refundLines[p.id]?.quantity ?? 0,
+        restock: refundLines[p.id]?.restock ?? false,
+      }))
+      .filter((l) => refundFull || l.quantity > 0);
+
+    if (!refundFull && items.length === 0) {
+      toast.error("Select at least one item to refund.");
+      return;
+    }
+
+    setRefundBusy(true);
     try {
-      const res = await fetch(
-        `/api/admin/orders/${order.id}/shipbubble/create-label`,
-        { method: "POST" }
-      );
+      const res = await fetch(`/api/admin/orders/${refundOrder.id}/refunds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          full: refundFull,
+          items,
+          reason: refundReason.trim() || undefined,
+        }),
+      });
       const json = await res.json();
-      if (!res.ok || !json.success)
-        throw new Error(json.error || "Failed to create shipment label");
+      if (!res.ok) throw new Error(json.error || "Refund failed");
 
+      const refunded = new Map<string, number>(
+        (json.items ?? []).map((it: any) => [it.orderItemId, it.quantity])
+      );
       setData((d) =>
         d.map((o) =>
-          o.id === order.id
+          o.id === refundOrder.id
             ? {
                 ...o,
-                hasShipbubbleLabel: true as any,
-                shipbubbleOrderId:
-                  json.shipbubbleOrderId ?? (o as any).shipbubbleOrderId,
-                shipbubbleTrackingUrl:
-                  json.trackingUrl ?? (o as any).shipbubbleTrackingUrl,
+                refundStatus: json.status,
+                refundedAmount: (o.refundedAmount ?? 0) + json.amount,
+                products: o.products.map((p) => ({
+                  ...p,
+                  refundedQuantity: (p.refundedQuantity ?? 0) + (refunded.get(p.id) ?? 0),
+                })),
               }
             : o
         )
       );
-      toast.success("Shipment label created");
-      await refreshHasLabel(order.id);
+      toast.success(
+        json.status === "Pending"
+          ? `Refund of ${currencySymbol(json.currency)}${json.amount.toLocaleString()} sent to Paystack`
+          : `Refund of ${currencySymbol(json.currency)}${json.amount.toLocaleString()} recorded`
+      );
+      setRefundOrder(null);
     } catch (err: any) {
-      toast.error("❌ " + (err?.message || "Unable to create shipment label."));
+      toast.error("❌ " + (err?.message || "Unable to refund order."));
     } finally {
-      setLabelBusyIds((s) => {
-        const copy = new Set(s);
-        copy.delete(order.id);
-        return copy;
-      });
+      setRefundBusy(false);
     }
   }
 
-  async function handleCancelShipmentLabel(order: OrderRow) {
-    if (labelBusyIds.has(order.id)) return;
-    setLabelBusyIds((s) => new Set(s).add(order.id));
+  async function handlePrint(order: OrderRow) {
+    const { default: printJS } = await import("print-js");
+    const html = renderPackingSlipHTML(toRenderPayload(order));
+    printJS({ printable: html, type: "raw-html", scanStyles: false });
+  }
+
+  /** Re-read an order's parcels; with `poll`, the carrier is asked for updates first. */
+  async function refreshShipments(id: string, poll = true) {
     try {
       const res = await fetch(
-        `/api/admin/orders/${order.id}/shipbubble/cancel-label`,
-        { method: "POST" }
+        `/api/admin/orders/${id}/shipments${poll ? "?refresh=1" : ""}`,
+        { method: "GET", cache: "no-store" }
       );
-      const json = await res.json();
-      if (!res.ok || !json.success)
-        throw new Error(json.error || "Failed to cancel shipment label");
-
+      if (!res.ok) return;
+      const j = await res.json();
+      const shipments: OrderShipmentRow[] = j.shipments ?? [];
+      const latest = shipments.filter(isLiveShipment).pop();
       setData((d) =>
         d.map((o) =>
-          o.id === order.id
+          o.id === id
             ? {
                 ...o,
-                hasShipbubbleLabel: false as any,
-                shipbubbleOrderId: null as any,
-                shipbubbleTrackingUrl: null as any,
+                status: j.orderStatus ?? o.status,
+                shipments,
+                hasShipbubbleLabel: !!j.hasLabel,
+                shipbubbleOrderId: (latest as any)?.externalOrderId ?? null,
+                shipbubbleTrackingUrl: latest?.trackingUrl ?? null,
               }
             : o
         )
       );
-      toast.success("Shipment label cancelled");
-      await refreshHasLabel(order.id);
+    } catch {
+      /* ignore */
+    }
+  }
+
+  function setLabelBusy(id: string, busy: boolean) {
+    setLabelBusyIds((s) => {
+      const copy = new Set(s);
+      if (busy) copy.add(id);
+      else copy.delete(id);
+      return copy;
+    });
+  }
+
+  const shipOrder = shipOrderId ? data.find((o) => o.id === shipOrderId) ?? null : null;
+
+  function openShipmentsModal(order: OrderRow) {
+    setShipOrderId(order.id);
+    setShipLines(Object.fromEntries(unshippedQuantities(order)));
+  }
+
+  async function handleCreateShipment(order: OrderRow) {
+    if (labelBusyIds.has(order.id)) return;
+    const items = Object.entries(shipLines)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+    if (items.length === 0) {
+      toast.error("Pick at least one item for the parcel");
+      return;
+    }
+
+    setLabelBusy(order.id, true);
+    try {
+      const res = await fetch(`/api/admin/orders/${order.id}/shipments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(errorMessage(json.error, "Failed to create shipment label"));
+      }
+      toast.success("Parcel label created");
+      await refreshShipments(order.id, false);
+      setShipLines({});
+    } catch (err: any) {
+      toast.error("❌ " + (err?.message || "Unable to create shipment label."));
+    } finally {
+      setLabelBusy(order.id, false);
+    }
+  }
+
+  async function handleCancelShipment(order: OrderRow, shipment: OrderShipmentRow) {
+    if (labelBusyIds.has(order.id)) return;
+    if (!confirm("Cancel this parcel's label? Its items can then be packed again.")) return;
+
+    setLabelBusy(order.id, true);
+    try {
+      const res = await fetch(
+        `/api/admin/orders/${order.id}/shipments/${shipment.id}/cancel-label`,
+        { method: "POST" }
+      );
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        throw new Error(json.error || "Failed to cancel shipment label");
+      }
+      toast.success("Parcel label cancelled");
+      await refreshShipments(order.id, false);
     } catch (err: any) {
       toast.error("❌ " + (err?.message || "Unable to cancel shipment label."));
     } finally {
-      setLabelBusyIds((s) => {
-        const copy = new Set(s);
-        copy.delete(order.id);
-        return copy;
-      });
+      setLabelBusy(order.id, false);
     }
   }
 
+  async function handlePrintParcel(order: OrderRow, shipment: OrderShipmentRow) {
+    const parcels = (order.shipments ?? []).filter(isLiveShipment);
+    const { default: printJS } = await import("print-js");
+    const html = renderPackingSlipHTML(
+      toRenderPayload(order, {
+        shipment,
+        number: parcels.indexOf(shipment) + 1,
+        of: parcels.length,
+      })
+    );
+    printJS({ printable: html, type: "raw-html", scanStyles: false });
+  }
+
   const filtered = useMemo(() => {
     return data.filter((o) => {
       if (showSearch && search) {
@@ -453,7 +729,7 @@ export default function OrderTable({
     async function tick() {
       try {
         const ids = filtered.slice(0, 50).map((o) => o.id);
-        await Promise.all(ids.map((id) => refreshHasLabel(id)));
+        await Promise.all(ids.map((id) => refreshShipments(id)));
       } catch {
         /* ignore */
       }
@@ -576,19 +852,39 @@ export default function OrderTable({
           const color =
             s === "Processing"
               ? "bg-blue-100 text-blue-800"
-              : s === "Shipped"
+              : s === "ReadyForPickup"
+              ? "bg-purple-100 text-purple-800"
+              : s === "Shipped" || s === "PartiallyShipped"
               ? "bg-yellow-100 text-yellow-800"
+              : s === "PartiallyDelivered"
+              ? "bg-teal-100 text-teal-800"
               : s === "Delivered"
               ? "bg-green-100 text-green-800"
               : s === "Cancelled"
               ? "bg-red-100 text-red-800"
               : "";
+          const refund = row.original.refundStatus;
           return (
-            <span
-              className={`px-2 py-0.5 rounded-full text-sm font-medium ${color}`}
-            >
-              {s}
-            </span>
+            <div className="flex flex-col items-start gap-1">
+              <span
+                className={`px-2 py-0.5 rounded-full text-sm font-medium ${color}`}
+              >
+                {STATUS_LABELS[s] ?? s}
+              </span>
+              {refund && (
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    refund === "Completed"
+                      ? "bg-purple-100 text-purple-800"
+                      : refund === "Pending"
+                      ? "bg-orange-100 text-orange-800"
+                      : "bg-red-100 text-red-800"
+                  }`}
+                >
+                  Refund {refund.toLowerCase()}
+                </span>
+              )}
+            </div>
           );
         },
       },
@@ -685,11 +981,17 @@ export default function OrderTable({
           const isShipbubbleOrder =
             (order.deliveryOption?.provider || "").toLowerCase() === "shipbubble";
 
-          // ✅ NEW: if OFFLINE + pickup → hide label buttons
-          const isPickup = order.channel === "OFFLINE" && isInPersonPickupOrder(order);
+          // Pickup orders (store pickup or walk-in) never get a label
+          const isPickup = order.deliveryOption?.type === "PICKUP";
           const showShipbubbleButtons = isShipbubbleOrder && !isPickup;
+          const awaitingCollection =
+            !!order.pickup && !order.pickup.collectedAt && order.status !== "Cancelled";
 
           const hasLabel = !!(order as any).hasShipbubbleLabel;
+          const unshipped =
+            order.status === "Cancelled"
+              ? 0
+              : [...unshippedQuantities(order).values()].reduce((a, b) => a + b, 0);
 
           return (
             <div className="flex items-center space-x-2">
@@ -705,16 +1007,19 @@ export default function OrderTable({
 
               <Select
                 value={order.status}
-                onValueChange={(v) => handleStatusChange(order.id, v as OrderStatus)}
+                onValueChange={(v) => handleStatusChange(order.id, v as OrderStatus, order)}
                 disabled={isUpdatingStatus}
               >
                 <SelectTrigger className="h-8 px-2 w-[120px]">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {STATUS_OPTIONS.map((s2) => (
-                    <SelectItem key={s2} value={s2}>
-                      {s2}
+                  {[
+                    ...(DERIVED_STATUSES.includes(order.status) ? [order.status] : []),
+                    ...(order.pickup ? PICKUP_STATUS_OPTIONS : STATUS_OPTIONS),
+                  ].map((s2) => (
+                    <SelectItem key={s2} value={s2} disabled={DERIVED_STATUSES.includes(s2)}>
+                      {STATUS_LABELS[s2] ?? s2}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -724,45 +1029,78 @@ export default function OrderTable({
                 <RefreshCcw className="animate-spin h-4 w-4 text-gray-600" />
               )}
 
-              {/* ✅ Only render Shipbubble label controls when applicable */}
-              {showShipbubbleButtons && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => openRefundModal(order)}
+                className="text-gray-600 hover:text-gray-900"
+                title={
+                  order.refundStatus === "Pending"
+                    ? "A refund is still pending"
+                    : refundableBalance(order) <= 0
+                    ? "Order fully refunded"
+                    : "Refund order"
+                }
+                disabled={
+                  order.refundStatus === "Pending" || refundableBalance(order) <= 0
+                }
+                aria-label="Refund order"
+              >
+                <Undo2 className="h-5 w-5" />
+              </Button>
+
+              {awaitingCollection && (
                 <>
-                  {/* Create Label — emerald */}
                   <Button
-                    variant={hasLabel ? "outline" : "default"}
+                    variant="ghost"
                     size="icon"
-                    className={
-                      hasLabel
-                        ? "text-gray-500"
-                        : "bg-emerald-600 hover:bg-emerald-700 text-white"
-                    }
+                    className="text-gray-600 hover:text-gray-900"
                     title={
-                      hasLabel
-                        ? "Shipment label already created"
-                        : "Create Shipbubble shipment label"
+                      order.pickup?.readyAt
+                        ? "Send a new collection code"
+                        : "Mark ready for pickup and email the collection code"
                     }
-                    disabled={hasLabel || isLabelBusy}
-                    onClick={() => handleCreateShipmentLabel(order)}
-                    aria-label="Create shipment label"
+                    disabled={isUpdatingStatus}
+                    onClick={() => handleMarkReady(order)}
+                    aria-label="Send collection code"
                   >
-                    <PackagePlus className="h-5 w-5" />
+                    <Mail className="h-5 w-5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-gray-600 hover:text-gray-900"
+                    title="Verify collection code and hand over"
+                    disabled={isUpdatingStatus || order.status !== "ReadyForPickup"}
+                    onClick={() => openCollectModal(order)}
+                    aria-label="Verify collection code"
+                  >
+                    <KeyRound className="h-5 w-5" />
                   </Button>
+                </>
+              )}
 
-                  {/* Cancel Label — destructive red */}
+              {/* ✅ Only render Shipbubble parcel controls when applicable */}
+              {showShipbubbleButtons && (
+                <>
                   <Button
-                    variant="destructive"
+                    variant={hasLabel && unshipped === 0 ? "outline" : "default"}
                     size="icon"
                     className={
-                      hasLabel && !isLabelBusy
-                        ? "bg-red-600 hover:bg-red-700 text-white"
-                        : "bg-red-300 text-white opacity-60"
+                      hasLabel && unshipped === 0
+                        ? "text-gray-600"
+                        : "bg-emerald-600 hover:bg-emerald-700 text-white"
                     }
-                    title={hasLabel ? "Cancel Shipbubble shipment label" : "No shipment label to cancel"}
-                    disabled={!hasLabel || isLabelBusy}
-                    onClick={() => handleCancelShipmentLabel(order)}
-                    aria-label="Cancel shipment label"
+                    title={
+                      unshipped > 0
+                        ? `Parcels & labels — ${unshipped} item(s) not yet packed`
+                        : "Parcels & labels"
+                    }
+                    disabled={isLabelBusy}
+                    onClick={() => openShipmentsModal(order)}
+                    aria-label="Manage parcels and shipment labels"
                   >
-                    <PackageX className="h-5 w-5" />
+                    <PackagePlus className="h-5 w-5" />
                   </Button>
 
                   {isLabelBusy && (
@@ -815,9 +1153,9 @@ export default function OrderTable({
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="All">All Statuses</SelectItem>
-                    {STATUS_OPTIONS.map((st) => (
+                    {FILTER_STATUS_OPTIONS.map((st) => (
                       <SelectItem key={st} value={st}>
-                        {st}
+                        {STATUS_LABELS[st] ?? st}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -997,6 +1335,317 @@ export default function OrderTable({
           </DialogContent>
         </Dialog>
       )}
+
+      {refundOrder && (
+        <Dialog open onOpenChange={(o) => !o && !refundBusy && setRefundOrder(null)}>
+          <DialogContent className="w-[96vw] max-w-[640px]">
+            <DialogHeader>
+              <DialogTitle>Refund — {refundOrder.id}</DialogTitle>
+              <DialogDescription>
+                {refundOrder.channel === "ONLINE"
+                  ? "The refund is sent to Paystack and completes once Paystack confirms it."
+                  : "Offline sale: record the refund here and return the money in person."}{" "}
+                Refundable balance:{" "}
+                <strong>
+                  {currencySymbol(refundOrder.currency)}
+                  {refundableBalance(refundOrder).toLocaleString()}
+                </strong>
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="refund-full"
+                checked={refundFull}
+                onCheckedChange={(v) => setRefundFull(v === true)}
+              />
+              <Label htmlFor="refund-full">
+                Refund entire order (remaining items + delivery)
+              </Label>
+            </div>
+
+            <div className="border rounded-lg divide-y">
+              {refundOrder.products.map((p) => {
+                const remaining = p.quantity - (p.refundedQuantity ?? 0);
+                const line = refundLines[p.id] ?? { quantity: 0, restock: true };
+                return (
+                  <div key={p.id} className="flex items-center gap-3 p-3">
+                    <img
+                      src={p.image || "/placeholder.png"}
+                      alt={p.name}
+                      className="h-10 w-10 rounded-md object-cover border"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">{p.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {p.color} / {p.size} • {remaining} of {p.quantity} refundable
+                      </div>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={remaining}
+                      className="w-20 h-8"
+                      disabled={refundFull || remaining === 0}
+                      value={refundFull ? remaining : line.quantity}
+                      onChange={(e) => {
+                        const q = Math.max(
+                          0,
+                          Math.min(remaining, Math.floor(Number(e.target.value) || 0))
+                        );
+                        setRefundLines((ls) => ({ ...ls, [p.id]: { ...line, quantity: q } }));
+                      }}
+                      aria-label={`Refund quantity for ${p.name}`}
+                    />
+                    <label className="flex items-center gap-1 text-xs text-gray-600">
+                      <Checkbox
+                        checked={line.restock}
+                        disabled={remaining === 0 || refundOrder.status === "Cancelled"}
+                        onCheckedChange={(v) =>
+                          setRefundLines((ls) => ({
+                            ...ls,
+                            [p.id]: { ...line, restock: v === true },
+                          }))
+                        }
+                      />
+                      Restock
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+            {refundOrder.status === "Cancelled" && (
+              <p className="text-xs text-gray-500">
+                Cancelled orders were already restocked, so lines are not restocked again.
+              </p>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="refund-reason">Reason (shown on the credit note)</Label>
+              <Textarea
+                id="refund-reason"
+                rows={2}
+                value={refundReason}
+                onChange={(e) => setRefundReason(e.target.value)}
+              />
+            </div>
+
+            <DialogFooter className="items-center sm:justify-between">
+              <span className="text-sm">
+                Refund: <strong>{currencySymbol(refundOrder.currency)}{refundEstimate.toLocaleString()}</strong>
+              </span>
+              <div className="space-x-2">
+                <Button variant="outline" onClick={() => setRefundOrder(null)} disabled={refundBusy}>
+                  Close
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={handleRefund}
+                  disabled={refundBusy || refundEstimate <= 0}
+                >
+                  {refundBusy ? "Refunding…" : "Refund"}
+                </Button>
+              </div>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {shipOrder && (
+        <Dialog open onOpenChange={(o) => !o && !labelBusyIds.has(shipOrder.id) && setShipOrderId(null)}>
+          <DialogContent className="w-[96vw] max-w-[720px]">
+            <DialogHeader>
+              <DialogTitle>Parcels — {shipOrder.id}</DialogTitle>
+              <DialogDescription>
+                Each parcel gets its own label and tracking. Pack everything at once, or ship
+                part of the order now and the rest (e.g. size-mod items) later.
+              </DialogDescription>
+            </DialogHeader>
+
+            {(shipOrder.shipments ?? []).length > 0 && (
+              <div className="border rounded-lg divide-y">
+                {(shipOrder.shipments ?? []).map((sh) => {
+                  const live = isLiveShipment(sh);
+                  const parcels = (shipOrder.shipments ?? []).filter(isLiveShipment);
+                  return (
+                    <div key={sh.id} className={`p-3 space-y-1 ${live ? "" : "opacity-60"}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-sm font-medium">
+                          {live
+                            ? `Parcel ${parcels.indexOf(sh) + 1} of ${parcels.length}`
+                            : "Cancelled parcel"}
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            {SHIPMENT_STATUS_LABELS[sh.status] ?? sh.status}
+                            {sh.courierName ? ` • ${sh.courierName}` : ""}
+                          </span>
+                        </div>
+                        {live && (
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-gray-600 hover:text-gray-900"
+                              onClick={() => handlePrintParcel(shipOrder, sh)}
+                              aria-label="Print parcel packing slip"
+                              title="Print packing slip for this parcel"
+                            >
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-red-600 hover:text-red-700"
+                              disabled={
+                                labelBusyIds.has(shipOrder.id) || sh.status === "DELIVERED"
+                              }
+                              onClick={() => handleCancelShipment(shipOrder, sh)}
+                              aria-label="Cancel parcel label"
+                              title="Cancel this parcel's label"
+                            >
+                              <PackageX className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {sh.items
+                          .map((it) => {
+                            const p = shipOrder.products.find((x) => x.id === it.orderItemId);
+                            return `${p?.name ?? "Item"}${p ? ` (${p.color} / ${p.size})` : ""} × ${it.quantity}`;
+                          })
+                          .join(", ")}
+                      </div>
+                      {(sh.trackingNumber || sh.trackingUrl || sh.labelUrl) && (
+                        <div className="flex flex-wrap gap-3 text-xs">
+                          {sh.trackingNumber && (
+                            <span>
+                              Tracking: <span className="font-mono">{sh.trackingNumber}</span>
+                            </span>
+                          )}
+                          {sh.trackingUrl && (
+                            <a href={sh.trackingUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                              Track
+                            </a>
+                          )}
+                          {sh.labelUrl && (
+                            <a href={sh.labelUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                              Label
+                            </a>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {shipOrder.status !== "Cancelled" &&
+              [...unshippedQuantities(shipOrder).values()].some((q) => q > 0) && (
+                <>
+                  <div className="text-sm font-medium">New parcel</div>
+                  <div className="border rounded-lg divide-y">
+                    {shipOrder.products.map((p) => {
+                      const left = unshippedQuantities(shipOrder).get(p.id) ?? 0;
+                      if (left === 0) return null;
+                      return (
+                        <div key={p.id} className="flex items-center gap-3 p-3">
+                          <img
+                            src={p.image || "/placeholder.png"}
+                            alt={p.name}
+                            className="h-10 w-10 rounded-md object-cover border"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <div className="text-sm font-medium truncate">{p.name}</div>
+                            <div className="text-xs text-gray-500">
+                              {p.color} / {p.size}
+                              {p.hasSizeMod ? " • Size mod" : ""} • {left} not yet packed
+                            </div>
+                          </div>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={left}
+                            className="w-20 h-8"
+                            value={shipLines[p.id] ?? 0}
+                            onChange={(e) => {
+                              const q = Math.max(
+                                0,
+                                Math.min(left, Math.floor(Number(e.target.value) || 0))
+                              );
+                              setShipLines((ls) => ({ ...ls, [p.id]: q }));
+                            }}
+                            aria-label={`Parcel quantity for ${p.name}`}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+
+            <DialogFooter className="space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => setShipOrderId(null)}
+                disabled={labelBusyIds.has(shipOrder.id)}
+              >
+                Close
+              </Button>
+              {shipOrder.status !== "Cancelled" &&
+                [...unshippedQuantities(shipOrder).values()].some((q) => q > 0) && (
+                  <Button
+                    className="bg-emerald-600 hover:bg-emerald-700 text-white"
+                    onClick={() => handleCreateShipment(shipOrder)}
+                    disabled={
+                      labelBusyIds.has(shipOrder.id) ||
+                      !Object.values(shipLines).some((q) => q > 0)
+                    }
+                  >
+                    {labelBusyIds.has(shipOrder.id) ? "Creating label…" : "Create parcel label"}
+                  </Button>
+                )}
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {collectOrder && (
+        <Dialog open onOpenChange={(o) => !o && !collectBusy && setCollectOrder(null)}>
+          <DialogContent className="w-[96vw] max-w-[440px]">
+            <DialogHeader>
+              <DialogTitle>Hand over — {collectOrder.id}</DialogTitle>
+              <DialogDescription>
+                Ask {collectOrder.customer.name || "the customer"} for the 6-digit collection code
+                from their email{collectOrder.pickup ? ` (${collectOrder.pickup.locationName})` : ""}.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-1">
+              <Label htmlFor="collect-code">Collection code</Label>
+              <Input
+                id="collect-code"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                value={collectCode}
+                onChange={(e) => setCollectCode(e.target.value.replace(/\D/g, ""))}
+                onKeyDown={(e) => e.key === "Enter" && collectCode.length === 6 && handleCollect()}
+                className="text-center text-lg tracking-[0.4em]"
+              />
+            </div>
+
+            <DialogFooter className="space-x-2">
+              <Button variant="outline" onClick={() => setCollectOrder(null)} disabled={collectBusy}>
+                Close
+              </Button>
+              <Button onClick={handleCollect} disabled={collectBusy || collectCode.length !== 6}>
+                {collectBusy ? "Verifying…" : "Verify & hand over"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
     </>
   );
 }
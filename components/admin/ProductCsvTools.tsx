@@ -0,0 +1,205 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { Download, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+
+// Mirrors ImportPlan in lib/productCsv.ts
+interface RowError {
+  row: number;
+  message: string;
+}
+interface PlannedProduct {
+  id: string | null;
+  name: string;
+  action: "create" | "update" | "unchanged";
+  rows: number[];
+  variantCount: number;
+  changes: { field: string; before: unknown; after: unknown }[];
+  errors: RowError[];
+}
+interface ImportPlan {
+  products: PlannedProduct[];
+  errors: RowError[];
+  summary: { create: number; update: number; unchanged: number; errors: number };
+}
+
+const fmt = (v: unknown) =>
+  v == null || v === "" ? "—" : typeof v === "string" ? v : JSON.stringify(v);
+
+export default function ProductCsvTools() {
+  const router = useRouter();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  async function post(body: { csv: string; commit?: boolean }) {
+    const res = await fetch("/api/admin/products/csv", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error || "Import failed");
+    return json;
+  }
+
+  async function onFile(file: File) {
+    if (!/\.(csv|txt)$/i.test(file.name)) {
+      toast.error("Save the sheet as CSV first (File → Save As → CSV UTF-8).");
+      return;
+    }
+    setChecking(true);
+    try {
+      const text = await file.text();
+      const result: ImportPlan = await post({ csv: text });
+      setCsv(text);
+      setFileName(file.name);
+      setPlan(result);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  async function commit() {
+    if (!csv) return;
+    setImporting(true);
+    try {
+      const r = await post({ csv, commit: true });
+      toast.success(`Imported: ${r.created} created, ${r.updated} updated, ${r.unchanged} unchanged`);
+      setPlan(null);
+      setCsv(null);
+      router.refresh();
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  const changed = plan?.products.filter((p) => p.action !== "unchanged" || p.errors.length > 0) ?? [];
+  const pending = plan ? plan.summary.create + plan.summary.update : 0;
+
+  return (
+    <>
+      <div className="flex flex-col md:flex-row gap-2">
+        <a href="/api/admin/products/csv" className="w-full md:w-auto">
+          <Button variant="outline" className="w-full md:w-auto">
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+        </a>
+        <Button
+          variant="outline"
+          className="w-full md:w-auto"
+          disabled={checking}
+          onClick={() => fileInput.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          {checking ? "Checking…" : "Import CSV"}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) onFile(file);
+          }}
+        />
+      </div>
+
+      <Dialog open={!!plan} onOpenChange={(open) => !open && !importing && setPlan(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review import</DialogTitle>
+            <DialogDescription>
+              {fileName} · {plan?.summary.create ?? 0} to create, {plan?.summary.update ?? 0} to
+              update, {plan?.summary.unchanged ?? 0} unchanged
+              {plan && plan.summary.errors > 0 && `, ${plan.summary.errors} error(s)`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {plan && plan.summary.errors > 0 && (
+            <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              <p className="font-medium mb-1">Fix these rows and upload the file again:</p>
+              <ul className="space-y-0.5">
+                {plan.errors.map((e, i) => (
+                  <li key={i}>
+                    {e.row > 0 ? `Row ${e.row}: ` : ""}
+                    {e.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {changed.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing to change — the file matches the catalogue.</p>
+          ) : (
+            <ul className="space-y-3 text-sm">
+              {changed.map((p) => (
+                <li key={p.id ?? `new-${p.rows[0]}`} className="border rounded p-3 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {p.name || "(no name)"}{" "}
+                      <span className="font-mono text-xs text-gray-500">{p.id ?? "new"}</span>
+                    </span>
+                    <span className="flex items-center gap-2 text-xs text-gray-500">
+                      rows {p.rows.join(", ")} · {p.variantCount} variant(s)
+                      <Badge variant={p.errors.length ? "destructive" : "outline"}>
+                        {p.errors.length ? "error" : p.action}
+                      </Badge>
+                    </span>
+                  </div>
+                  {p.action === "update" && p.changes.length > 0 && (
+                    <ul className="space-y-1">
+                      {p.changes.map((c) => (
+                        <li key={c.field} className="break-all">
+                          <span className="font-medium">{c.field}:</span>{" "}
+                          <span className="text-red-700 line-through">{fmt(c.before)}</span>
+                          {" → "}
+                          <span className="text-green-700">{fmt(c.after)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setPlan(null)} disabled={importing}>
+              Cancel
+            </Button>
+            <Button
+              onClick={commit}
+              disabled={importing || !plan || plan.summary.errors > 0 || pending === 0}
+            >
+              {importing ? "Importing…" : `Import ${pending} product(s)`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -12,11 +12,13 @@ import { Checkbox } from "@/components/ui/checkbox";
 import type { CheckedState } from "@radix-ui/react-checkbox";
 import { Product } from "@/lib/products";
 import { Currency, useCurrency } from "@/lib/context/currencyContext";
+import { productOnSale } from "@/lib/variantPricing";
 
 export interface Filters {
   priceRange: [number, number];
   colors: string[];
   sizes: string[];
+  onSale: boolean;
 }
 
 interface SidebarProps {
@@ -70,9 +72,16 @@ export default function FilterSidebar({ products, onChange }: SidebarProps) {
     [products]
   );
 
+  // Products with a markdown in the current currency
+  const saleCount = useMemo(
+    () => (products ?? []).filter((p) => productOnSale(p, currency)).length,
+    [products, currency]
+  );
+
   const [priceRange, setPriceRange] = useState<[number, number]>([min, max]);
   const [selColors, setSelColors] = useState<string[]>([]);
   const [selSizes, setSelSizes] = useState<string[]>([]);
+  const [saleOnly, setSaleOnly] = useState(false);
 
   // Reset slider when span changes
   useEffect(() => {
@@ -85,14 +94,16 @@ export default function FilterSidebar({ products, onChange }: SidebarProps) {
       priceRange,
       colors: selColors,
       sizes: selSizes,
+      onSale: saleOnly,
     });
-  }, [priceRange, selColors, selSizes, onChange]);
+  }, [priceRange, selColors, selSizes, saleOnly, onChange]);
 
   // Reset all
   const handleReset = useCallback(() => {
     setPriceRange([min, max]);
     setSelColors([]);
     setSelSizes([]);
+    setSaleOnly(false);
   }, [min, max]);
 
   return (
@@ -117,6 +128,22 @@ export default function FilterSidebar({ products, onChange }: SidebarProps) {
         defaultValue={[]}
         className="space-y-3"
       >
+        {/* SALE */}
+        <AccordionItem value="sale">
+          <AccordionTrigger className="text-sm">Sale</AccordionTrigger>
+          <AccordionContent>
+            <label className="inline-flex items-center gap-2 cursor-pointer">
+              <Checkbox
+                checked={saleOnly}
+                onCheckedChange={(checked: CheckedState) => setSaleOnly(checked === true)}
+              />
+              <span className="text-sm text-muted-foreground">
+                On sale only ({saleCount})
+              </span>
+            </label>
+          </AccordionContent>
+        </AccordionItem>
+
         {/* PRICE */}
         <AccordionItem value="price">
           <AccordionTrigger className="text-sm">
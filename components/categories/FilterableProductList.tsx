@@ -5,6 +5,7 @@ import FilterSidebar, { Filters } from "./FilterSidebar";
 import ProductGrid from "./ProductGrid";
 import { Product } from "@/lib/products";
 import { useCurrency } from "@/lib/context/currencyContext";
+import { productOnSale } from "@/lib/variantPricing";
 import { Card } from "@/components/ui/card";
 
 interface Props {
@@ -17,6 +18,7 @@ const DEFAULT_FILTERS: Filters = {
   priceRange: [0, Infinity],
   colors: [],
   sizes: [],
+  onSale: false,
 };
 
 export default function FilterableProductList({
@@ -41,6 +43,11 @@ export default function FilterableProductList({
         return false;
       }
 
+      // SALE
+      if (filters.onSale && !productOnSale(p, currency)) {
+        return false;
+      }
+
       // COLOR
       if (
         filters.colors.length &&
@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useSession } from "next-auth/react";
+import toast from "react-hot-toast";
+import { useCartStore, type CartItem } from "@/lib/store/cartStore";
+import { useCurrency } from "@/lib/context/currencyContext";
+import { formatAmount } from "@/lib/formatCurrency";
+import type { CartNotice, CartView } from "@/lib/cart";
+
+// Debounce for pushing local cart edits to the server
+const PUSH_DELAY_MS = 800;
+
+function noticeText(n: CartNotice): string {
+  const label = [n.color, n.size].filter(Boolean).join(" / ");
+  const name = label ? `${n.name} (${label})` : n.name;
+  switch (n.kind) {
+    case "removed":
+      return n.reason === "sold_out"
+        ? `${name} sold out and was removed from your cart`
+        : `${name} is no longer available and was removed from your cart`;
+    case "quantity":
+      return `Only ${n.to} of ${name} left — quantity updated`;
+    case "price":
+      return `${name} is now ${formatAmount(n.to, n.currency)} (was ${formatAmount(n.from, n.currency)})`;
+  }
+}
+
+function showNotices(notices: CartNotice[]) {
+  if (notices.length === 0) return;
+  const lines = notices.slice(0, 3).map(noticeText);
+  if (notices.length > 3) lines.push(`…and ${notices.length - 3} more change(s)`);
+  toast(lines.join("\n"), { icon: "🛒", duration: 6000 });
+}
+
+const toLines = (items: CartItem[]) =>
+  items.slice(0, 50).map((i) => ({
+    productId: i.product.id,
+    color: i.color,
+    size: i.size,
+    quantity: Math.min(i.quantity, 99),
+    hasSizeMod: Boolean(i.hasSizeMod),
+    customMods: i.customMods ?? null,
+  }));
+
+async function request(method: "GET" | "PUT", body?: unknown): Promise<CartView | null> {
+  const res = await fetch("/api/account/cart", {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  }).catch(() => null);
+  if (!res?.ok) return null;
+  return ((await res.json().catch(() => null)) as CartView | null) ?? null;
+}
+
+/**
+ * Keeps the local cart and the signed-in customer's server cart in step:
+ * a guest cart is merged in on sign-in, a cart already tied to the account
+ * is reloaded from the server (picking up other devices), and later edits
+ * are pushed back. Signing out empties the account's cart on this device.
+ */
+export default function CartSync() {
+  const { data: session, status } = useSession();
+  const { currency } = useCurrency();
+  const customerId =
+    status === "authenticated" && session?.user?.role === "customer" ? session.user.id : null;
+
+  // customer the local store is known to mirror (set once the first load lands)
+  const readyFor = useRef<string | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // true while a server cart is being written into the store (not an edit)
+  const applying = useRef(false);
+
+  // first load / merge for this customer, and sign-out
+  useEffect(() => {
+    if (status === "loading") return;
+    const store = useCartStore.getState();
+
+    if (!customerId) {
+      readyFor.current = null;
+      if (status === "unauthenticated" && store.syncedCustomerId) {
+        store.replaceFromServer([], null);
+      }
+      return;
+    }
+
+    let cancelled = false;
+    const merging = store.syncedCustomerId !== customerId;
+    const load = merging
+      ? request("PUT", { mode: "merge", currency, items: toLines(store.items) })
+      : request("GET");
+
+    load.then((cart) => {
+      if (cancelled || !cart) return;
+      applying.current = true;
+      useCartStore.getState().replaceFromServer(cart.items, customerId);
+      applying.current = false;
+      readyFor.current = customerId;
+      showNotices(cart.notices);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // currency is read once here; later changes go through the push effect
+  }, [customerId, status]);
+
+  // push local edits (and currency changes) once the first load is in
+  useEffect(() => {
+    if (!customerId) return;
+
+    const push = () => {
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = setTimeout(() => {
+        if (readyFor.current !== customerId) return;
+        const { items } = useCartStore.getState();
+        void request("PUT", { mode: "replace", currency, items: toLines(items) });
+      }, PUSH_DELAY_MS);
+    };
+
+    if (readyFor.current === customerId) push();
+    const unsubscribe = useCartStore.subscribe((state, prev) => {
+      if (applying.current || state.syncedCustomerId !== customerId) return;
+      if (state.items !== prev.items) push();
+    });
+    return () => {
+      unsubscribe();
+      if (timer.current) clearTimeout(timer.current);
+    };
+  }, [customerId, currency]);
+
+  return null;
+}
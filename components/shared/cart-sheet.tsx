@@ -12,7 +12,7 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { useCartStore, CartItem } from "@/lib/store/cartStore";
+import { useCartStore, CartItem, cartItemUnitPrice, cartItemSale } from "@/lib/store/cartStore";
 import { BsBag } from "react-icons/bs";
 import { useCurrency } from "@/lib/context/currencyContext";
 import type { Currency } from "@/lib/context/currencyContext";
@@ -27,33 +27,6 @@ const CUSTOM_LABELS: Record<string, string> = {
   length: "Length",
 };
 
-// Derive price from product fields for a given currency
-function unitPriceFromProduct(product: any, currency: Currency): number {
-  // Case 1: mapped object like { NGN: 1000, USD: 2, ... }
-  if (product?.prices && typeof product.prices === "object") {
-    const v = product.prices[currency];
-    if (typeof v === "number") return v;
-  }
-  // Case 2: prisma fields (priceNGN, priceUSD, ...)
-  const map: Record<Currency, keyof any> = {
-    NGN: "priceNGN",
-    USD: "priceUSD",
-    EUR: "priceEUR",
-    GBP: "priceGBP",
-  };
-  const field = map[currency];
-  const val = product?.[field];
-  if (typeof val === "number") return val;
-
-  // Fallback: pick any numeric price on product
-  const anyPrice =
-    product?.priceNGN ?? product?.priceUSD ?? product?.priceEUR ?? product?.priceGBP;
-  if (typeof anyPrice === "number") return anyPrice;
-
-  // Last resort: use stored item price
-  return 0;
-}
-
 export function CartSheet({ tone = "dark" }: { tone?: "light" | "dark" }) {
   const router = useRouter();
   const [mounted, setMounted] = useState(false);
@@ -71,7 +44,7 @@ export function CartSheet({ tone = "dark" }: { tone?: "light" | "dark" }) {
   // Compute sheet total based on *derived* unit prices in current currency
   const derivedTotal = useMemo(() => {
     return items.reduce((sum, it) => {
-      const base = unitPriceFromProduct(it.product as any, currencyCode) || it.price || 0;
+      const base = cartItemUnitPrice(it, currencyCode);
       const sizeFee = it.hasSizeMod ? +(base * 0.05).toFixed(2) : 0;
       const unitFinal = base + sizeFee;
       return sum + unitFinal * it.quantity;
@@ -210,15 +183,15 @@ function CartBody({
             color,
             size,
             customMods,
-            price,
             hasSizeMod,
             unitWeight = 0,
           } = item;
 
           // derive current currency unit price
-          const base = unitPriceFromProduct(product as any, currency) || price || 0;
+          const base = cartItemUnitPrice(item, currency);
           const sizeModFee = hasSizeMod ? +(base * 0.05).toFixed(2) : 0;
           const formattedUnit = formatAmount(base, currency);
+          const sale = cartItemSale(item, currency);
 
           const variant = product.variants.find(
             (v: any) => v.color === color && v.size === size
@@ -270,7 +243,20 @@ function CartBody({
                   </Link>
 
                   <div className="flex items-center justify-between mt-1">
-                    <span className="text-xs text-gray-600">{formattedUnit} each</span>
+                    <span className="text-xs text-gray-600">
+                      {formattedUnit} each
+                      {sale && (
+                        <>
+                          {" "}
+                          <span className="line-through text-gray-400">
+                            {formatAmount(sale.compareAt, currency)}
+                          </span>{" "}
+                          <span className="rounded bg-red-600 px-1 text-[10px] font-semibold text-white">
+                            -{sale.percentOff}%
+                          </span>
+                        </>
+                      )}
+                    </span>
 
                     <QuantityControl
                       item={item}
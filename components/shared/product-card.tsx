@@ -6,6 +6,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useCurrency } from "@/lib/context/currencyContext";
 import { formatAmount } from "@/lib/formatCurrency";
 import type { Product } from "@/lib/products";
+import { productOnSale, saleInfo } from "@/lib/variantPricing";
 
 interface ProductCardProps {
   product: Product;
@@ -22,6 +23,10 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
   const rawPrice = (product.prices as any)[currency] ?? 0;
   const formattedPrice = formatAmount(rawPrice, currency);
 
+  // Markdown: product-level "was" price, or a badge when only some variants are reduced
+  const sale = saleInfo(rawPrice, product.compareAt?.[currency]);
+  const onSale = !!sale || productOnSale(product, currency);
+
   // Slightly richer alt text without guessing extra fields
   const altText = imgUrl
     ? `${product.name} — Marobi womenswear`
@@ -63,6 +68,12 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
             <span className="text-xs">No Image</span>
           </div>
         )}
+
+        {onSale && (
+          <span className="absolute left-2 top-2 rounded-full bg-red-600 px-2 py-0.5 text-xs font-semibold text-white">
+            {sale ? `-${sale.percentOff}%` : "Sale"}
+          </span>
+        )}
       </div>
 
       <h2
@@ -73,7 +84,16 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
       </h2>
 
       <div className="mt-1 text-sm font-semibold text-gray-800">
-        {formattedPrice}
+        {sale ? (
+          <>
+            <span className="text-red-700">{formattedPrice}</span>{" "}
+            <span className="font-normal text-gray-500 line-through">
+              {formatAmount(sale.compareAt, currency)}
+            </span>
+          </>
+        ) : (
+          formattedPrice
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,432 @@
+// lib/abandonedCarts.ts
+// Abandoned cart recovery: checkout snapshots, reminder emails and the recovered-revenue report.
+
+import crypto from "crypto";
+import { prisma } from "@/lib/db";
+import type { AbandonedCartStatus, Prisma } from "@/lib/generated/prisma-client/client";
+import { sendAbandonedCartEmail } from "@/lib/mail";
+import { buildCartItems, type CartLineData } from "@/lib/cart";
+import type { CartItem as StoreCartItem } from "@/lib/store/cartStore";
+import type { PriceCurrency } from "@/lib/variantPricing";
+import { formatAmount } from "@/lib/formatCurrency";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class AbandonedCartError extends HttpError {
+  name = "AbandonedCartError";
+}
+
+export const ABANDONED_CART_STATUSES = [
+  "Open",
+  "Converted",
+  "Recovered",
+  "Unsubscribed",
+  "Expired",
+] as const satisfies readonly AbandonedCartStatus[];
+
+/** A snapshot line: the cart line plus what the shopper saw. */
+export interface AbandonedCartLine extends CartLineData {
+  name: string;
+  image: string | null;
+  /** Unit price incl. size-mod fee, in the snapshot currency. */
+  price: number;
+}
+
+export interface CaptureInput {
+  email: string;
+  currency: PriceCurrency;
+  items: CartLineData[];
+  customerId?: string | null;
+}
+
+export interface AbandonedCartFilters {
+  status?: AbandonedCartStatus;
+  from?: Date;
+  to?: Date;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_REMINDER_HOURS = [1, 24, 72];
+const MIN_REMINDER_GAP = 6 * HOUR_MS;
+const EXPIRE_AFTER_DAYS = 14;
+const REMINDER_BATCH_SIZE = 50;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Hours after last activity for each reminder step (1–3 steps). */
+function reminderHours(): number[] {
+  const parsed = (process.env.ABANDONED_CART_REMINDER_HOURS ?? "")
+    .split(",")
+    .map((h) => Number(h.trim()))
+    .filter((h) => Number.isFinite(h) && h > 0)
+    .sort((a, b) => a - b)
+    .slice(0, 3);
+  return parsed.length > 0 ? parsed : DEFAULT_REMINDER_HOURS;
+}
+
+function getSecret(): string {
+  const secret = process.env.ABANDONED_CART_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("Missing ABANDONED_CART_SECRET in environment");
+  return secret;
+}
+
+function sign(id: string): string {
+  return crypto.createHmac("sha256", getSecret()).update(`abandoned-cart:${id}`).digest("base64url");
+}
+
+/** `<id>.<hmac>` for reminder links. */
+export function abandonedCartToken(id: string): string {
+  return `${id}.${sign(id)}`;
+}
+
+/** Cart id from a reminder-link token, or null when the signature is wrong. */
+function verifyToken(token: string): string | null {
+  const [id, sig] = (token || "").split(".");
+  if (!id || !sig) return null;
+  const a = Buffer.from(sig);
+  const b = Buffer.from(sign(id));
+  return a.length === b.length && crypto.timingSafeEqual(a, b) ? id : null;
+}
+
+function snapshotLines(items: StoreCartItem[]): AbandonedCartLine[] {
+  return items.map((i) => ({
+    productId: i.product.id,
+    color: i.color,
+    size: i.size,
+    quantity: i.quantity,
+    hasSizeMod: i.hasSizeMod,
+    customMods: i.customMods ?? null,
+    name: i.product.name,
+    image: i.product.images[0] ?? null,
+    price: i.price,
+  }));
+}
+
+/** First order for `email` placed at or after `since` (account or guest email, any case). */
+async function orderForEmail(email: string, since: Date) {
+  const [order] = await prisma.$queryRaw<{ id: string; totalNGN: number }[]>`
+    SELECT o."id", o."totalNGN"
+    FROM "Order" o
+    LEFT JOIN "Customer" c ON c."id" = o."customerId"
+    WHERE o."createdAt" >= ${since}
+      AND (lower(c."email") = lower(${email}) OR lower(o."guestInfo"->>'email') = lower(${email}))
+    ORDER BY o."createdAt" ASC
+    LIMIT 1`;
+  return order ?? null;
+}
+
+type OpenCart = { id: string; email: string; currency: PriceCurrency; items: Prisma.JsonValue; remindersSent: number; createdAt: Date };
+
+async function closeWithOrder(
+  cart: Pick<OpenCart, "id" | "remindersSent">,
+  order: { id: string; totalNGN: number } | null,
+  now = new Date()
+) {
+  await prisma.abandonedCart.update({
+    where: { id: cart.id },
+    data: {
+      status: cart.remindersSent > 0 ? "Recovered" : "Converted",
+      closedAt: now,
+      ...(order && { orderId: order.id, orderTotalNGN: order.totalNGN }),
+    },
+  });
+}
+
+/** One reminder for a due cart (or close it if it ordered / can't be sold). */
+async function remind(
+  cart: OpenCart,
+  step: number,
+  baseUrl: string
+): Promise<"sent" | "converted" | "expired"> {
+  const order = await orderForEmail(cart.email, cart.createdAt);
+  if (order) {
+    const credited = await prisma.abandonedCart.count({ where: { orderId: order.id } });
+    await closeWithOrder(cart, credited > 0 ? null : order);
+    return "converted";
+  }
+
+  const items = await buildCartItems(cart.items as unknown as AbandonedCartLine[], cart.currency);
+  if (items.length === 0) {
+    await prisma.abandonedCart.update({
+      where: { id: cart.id },
+      data: { status: "Expired", closedAt: new Date() },
+    });
+    return "expired";
+  }
+
+  const token = abandonedCartToken(cart.id);
+  await sendAbandonedCartEmail({
+    to: cart.email,
+    step,
+    items: items.map((i) => ({
+      name: i.product.name,
+      variant: [i.color, i.size].filter(Boolean).join(" / ") || undefined,
+      quantity: i.quantity,
+      price: formatAmount(i.price * i.quantity, cart.currency),
+      image: i.product.images[0] ?? null,
+    })),
+    subtotal: formatAmount(round2(items.reduce((s, i) => s + i.price * i.quantity, 0)), cart.currency),
+    restoreUrl: `${baseUrl}/cart/restore?token=${encodeURIComponent(token)}`,
+    unsubscribeUrl: `${baseUrl}/cart/unsubscribe?token=${encodeURIComponent(token)}`,
+  });
+  await prisma.abandonedCart.update({
+    where: { id: cart.id },
+    data: { remindersSent: { increment: 1 }, lastRemindedAt: new Date() },
+  });
+  return "sent";
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Store (or refresh) the checkout snapshot for `email`. Null when nothing was stored. */
+export async function captureAbandonedCart(input: CaptureInput) {
+  const email = (input.email || "").trim().toLowerCase();
+  if (!EMAIL_RE.test(email)) {
+    throw new AbandonedCartError("Enter a valid email address");
+  }
+
+  const optedOut = await prisma.abandonedCart.count({ where: { email, status: "Unsubscribed" } });
+  if (optedOut > 0) return null;
+
+  const items = await buildCartItems(input.items, input.currency);
+  if (items.length === 0) return null;
+
+  const data = {
+    currency: input.currency,
+    items: snapshotLines(items) as unknown as Prisma.InputJsonValue,
+    subtotal: round2(items.reduce((s, i) => s + i.price * i.quantity, 0)),
+    activityAt: new Date(),
+    ...(input.customerId && { customerId: input.customerId }),
+  };
+
+  const open = await prisma.abandonedCart.findFirst({
+    where: { email, status: "Open" },
+    orderBy: { activityAt: "desc" },
+    select: { id: true },
+  });
+  return open
+    ? prisma.abandonedCart.update({ where: { id: open.id }, data, select: { id: true } })
+    : prisma.abandonedCart.create({ data: { ...data, email }, select: { id: true } });
+}
+
+/**
+ * Close the Open snapshots for any of `emails` now that `order` exists.
+ * Returns how many were closed.
+ */
+export async function closeAbandonedCarts(
+  emails: (string | null | undefined)[],
+  order: { id: string; totalNGN: number }
+): Promise<number> {
+  const list = [...new Set(emails.map((e) => (e || "").trim().toLowerCase()).filter(Boolean))];
+  if (list.length === 0) return 0;
+
+  const open = await prisma.abandonedCart.findMany({
+    where: { email: { in: list }, status: "Open" },
+    orderBy: { activityAt: "desc" },
+    select: { id: true, remindersSent: true },
+  });
+  const now = new Date();
+  for (let i = 0; i < open.length; i++) {
+    await closeWithOrder(open[i], i === 0 ? order : null, now);
+  }
+  return open.length;
+}
+
+/**
+ * Cron sweep: expire stale snapshots, then send every reminder step that is
+ * due. Never throws for individual send failures.
+ */
+export async function sendAbandonedCartReminders(
+  now = new Date()
+): Promise<{ sent: number; failed: number; converted: number; expired: number }> {
+  const hours = reminderHours();
+  const baseUrl = process.env.NEXTAUTH_URL ?? "http://localhost:3000";
+
+  const { count: stale } = await prisma.abandonedCart.updateMany({
+    where: {
+      status: "Open",
+      activityAt: { lt: new Date(now.getTime() - EXPIRE_AFTER_DAYS * 24 * HOUR_MS) },
+    },
+    data: { status: "Expired", closedAt: now },
+  });
+
+  const failedIds: string[] = [];
+  const totals = { sent: 0, failed: 0, converted: 0, expired: stale };
+
+  for (;;) {
+    const batch = await prisma.abandonedCart.findMany({
+      where: {
+        status: "Open",
+        ...(failedIds.length > 0 && { id: { notIn: failedIds } }),
+        OR: hours.map((h, step) => ({
+          remindersSent: step,
+          activityAt: { lte: new Date(now.getTime() - h * HOUR_MS) },
+        })),
+        AND: [
+          {
+            OR: [
+              { lastRemindedAt: null },
+              { lastRemindedAt: { lte: new Date(now.getTime() - MIN_REMINDER_GAP) } },
+            ],
+          },
+        ],
+      },
+      orderBy: { activityAt: "asc" },
+      take: REMINDER_BATCH_SIZE,
+      select: { id: true, email: true, currency: true, items: true, remindersSent: true, createdAt: true },
+    });
+    if (batch.length === 0) break;
+
+    const results = await Promise.allSettled(
+      batch.map((cart) => remind(cart, cart.remindersSent + 1, baseUrl))
+    );
+    results.forEach((r, i) => {
+      if (r.status === "fulfilled") {
+        totals[r.value === "sent" ? "sent" : r.value]++;
+      } else {
+        failedIds.push(batch[i].id);
+        console.warn(`[abandonedCarts] reminder to ${batch[i].email} failed:`, r.reason);
+      }
+    });
+    if (batch.length < REMINDER_BATCH_SIZE) break;
+  }
+
+  totals.failed = failedIds.length;
+  return totals;
+}
+
+/**
+ * Cart lines for a reminder link, re-priced for today (null for a bad or
+ * unknown token). The first use is recorded as `restoredAt`.
+ */
+export async function restoreAbandonedCart(token: string): Promise<{
+  status: AbandonedCartStatus;
+  currency: PriceCurrency;
+  items: StoreCartItem[];
+} | null> {
+  const id = verifyToken(token);
+  if (!id) return null;
+  const cart = await prisma.abandonedCart.findUnique({
+    where: { id },
+    select: { id: true, status: true, currency: true, items: true, restoredAt: true },
+  });
+  if (!cart) return null;
+
+  const items = await buildCartItems(cart.items as unknown as AbandonedCartLine[], cart.currency);
+  if (!cart.restoredAt) {
+    await prisma.abandonedCart.update({ where: { id: cart.id }, data: { restoredAt: new Date() } });
+  }
+  return { status: cart.status, currency: cart.currency, items };
+}
+
+/** Opt out via a reminder link. Returns false for bad or unknown tokens. */
+export async function unsubscribeAbandonedCart(token: string): Promise<boolean> {
+  const id = verifyToken(token);
+  if (!id) return false;
+  const { count } = await prisma.abandonedCart.updateMany({
+    where: { id, status: "Open" },
+    data: { status: "Unsubscribed", closedAt: new Date() },
+  });
+  if (count > 0) return true;
+  return (await prisma.abandonedCart.count({ where: { id } })) > 0;
+}
+
+export function parseAbandonedCartFilters(q: Record<string, string | undefined>): AbandonedCartFilters {
+  const date = (v?: string, endOfDay = false) => {
+    if (!v) return undefined;
+    const d = new Date(/^\d{4}-\d{2}-\d{2}$/.test(v) && endOfDay ? `${v}T23:59:59.999Z` : v);
+    return Number.isNaN(d.getTime()) ? undefined : d;
+  };
+  return {
+    status: ABANDONED_CART_STATUSES.includes(q.status as AbandonedCartStatus)
+      ? (q.status as AbandonedCartStatus)
+      : undefined,
+    from: date(q.from),
+    to: date(q.to, true),
+  };
+}
+
+/**
+ * Recovery report for snapshots captured in the filter window: funnel
+ * counts, recovered revenue (NGN) overall and by the step that won the
+ * order back, plus a newest-first page of snapshots.
+ */
+export async function abandonedCartReport(
+  filters: AbandonedCartFilters,
+  opts: { page?: number; pageSize?: number } = {}
+) {
+  const pageSize = Math.min(Math.max(opts.pageSize ?? 50, 1), 200);
+  const page = Math.max(opts.page ?? 1, 1);
+  const window: Prisma.AbandonedCartWhereInput = {
+    ...((filters.from || filters.to) && {
+      createdAt: { ...(filters.from && { gte: filters.from }), ...(filters.to && { lte: filters.to }) },
+    }),
+  };
+  const where: Prisma.AbandonedCartWhereInput = {
+    ...window,
+    ...(filters.status && { status: filters.status }),
+  };
+
+  const [byStatus, reminded, byStep, total, rows] = await Promise.all([
+    prisma.abandonedCart.groupBy({
+      by: ["status"],
+      where: window,
+      _count: { _all: true },
+      _sum: { orderTotalNGN: true },
+    }),
+    prisma.abandonedCart.count({ where: { ...window, remindersSent: { gt: 0 } } }),
+    prisma.abandonedCart.groupBy({
+      by: ["remindersSent"],
+      where: { ...window, status: "Recovered" },
+      _count: { _all: true },
+      _sum: { orderTotalNGN: true },
+      orderBy: { remindersSent: "asc" },
+    }),
+    prisma.abandonedCart.count({ where }),
+    prisma.abandonedCart.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      include: { customer: { select: { id: true, firstName: true, lastName: true } } },
+    }),
+  ]);
+
+  const counts = Object.fromEntries(ABANDONED_CART_STATUSES.map((s) => [s, 0])) as Record<AbandonedCartStatus, number>;
+  let recoveredRevenueNGN = 0;
+  for (const g of byStatus) {
+    counts[g.status] = g._count._all;
+    if (g.status === "Recovered") recoveredRevenueNGN = g._sum.orderTotalNGN ?? 0;
+  }
+  const captured = ABANDONED_CART_STATUSES.reduce((s, k) => s + counts[k], 0);
+
+  return {
+    summary: {
+      captured,
+      reminded,
+      counts,
+      recoveredRevenueNGN,
+      /** Recovered ÷ reminded, 0–1. */
+      recoveryRate: reminded > 0 ? counts.Recovered / reminded : 0,
+    },
+    byStep: byStep.map((g) => ({
+      step: g.remindersSent,
+      carts: g._count._all,
+      revenueNGN: g._sum.orderTotalNGN ?? 0,
+    })),
+    total,
+    page,
+    pageSize,
+    rows,
+  };
+}
@@ -0,0 +1,280 @@
+// lib/audit.ts
+// Who-did-what trail for staff actions in the admin.
+
+import { prisma } from "@/lib/db";
+import type { AuditAction, Prisma } from "@/lib/generated/prisma-client/client";
+import { compareAtPrices, variantPriceOverrides } from "@/lib/variantPricing";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export const AUDIT_ENTITY_TYPES = [
+  "Order",
+  "Product",
+  "Category",
+  "Staff",
+  "Review",
+  "OrphanPayment",
+  "HeroSlide",
+  "SizeChart",
+  "ReturnRequest",
+  "PricingRule",
+  "PickupLocation",
+  "DeliveryOption",
+  "Shipment",
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ACTIONS: AuditAction[] = ["Create", "Update", "Delete", "StatusChange", "Resolve"];
+
+export interface AuditEntry {
+  staffId?: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditLogFilters {
+  staffId?: string;
+  action?: AuditAction;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+const OMITTED_KEYS = new Set([
+  "passwordHash",
+  "password",
+  "resetToken",
+  "resetTokenExpiry",
+  "codeHash",
+  "createdAt",
+  "updatedAt",
+]);
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+/** JSON-safe copy without secrets or timestamps (Dates → ISO strings). */
+function snapshot(obj: Record<string, unknown> | null | undefined) {
+  if (!obj) return null;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(obj)) {
+    if (OMITTED_KEYS.has(k) || v === undefined) continue;
+    out[k] = JSON.parse(JSON.stringify(v ?? null));
+  }
+  return out;
+}
+
+/** Keep only keys whose value differs between the two snapshots. */
+function changedFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const b: Record<string, unknown> = {};
+  const a: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)) {
+      b[key] = before[key] ?? null;
+      a[key] = after[key] ?? null;
+    }
+  }
+  return { before: b, after: a };
+}
+
+function filtersWhere(f: AuditLogFilters): Prisma.AuditLogWhereInput {
+  return {
+    ...(f.staffId && { staffId: f.staffId }),
+    ...(f.action && { action: f.action }),
+    ...(f.entityType && { entityType: f.entityType }),
+    ...(f.entityId && { entityId: { contains: f.entityId, mode: "insensitive" } }),
+    ...((f.from || f.to) && {
+      createdAt: { ...(f.from && { gte: f.from }), ...(f.to && { lte: f.to }) },
+    }),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Snapshots                                 */
+/* -------------------------------------------------------------------------- */
+
+export const PRODUCT_SNAPSHOT_SELECT = {
+  name: true,
+  categorySlug: true,
+  description: true,
+  images: true,
+  priceNGN: true,
+  priceUSD: true,
+  priceEUR: true,
+  priceGBP: true,
+  compareAtNGN: true,
+  compareAtUSD: true,
+  compareAtEUR: true,
+  compareAtGBP: true,
+  sizeMods: true,
+  status: true,
+  publishAt: true,
+  unpublishAt: true,
+  videoUrl: true,
+  pricingRule: { select: { enabled: true, markupPercent: true, rounding: true } },
+  variants: {
+    select: {
+      color: true,
+      size: true,
+      stock: true,
+      weight: true,
+      sku: true,
+      barcode: true,
+      priceNGN: true,
+      priceUSD: true,
+      priceEUR: true,
+      priceGBP: true,
+      compareAtNGN: true,
+      compareAtUSD: true,
+      compareAtEUR: true,
+      compareAtGBP: true,
+    },
+    orderBy: [{ color: "asc" }, { size: "asc" }],
+  },
+} satisfies Prisma.ProductSelect;
+
+type VariantSnapshotInput = Omit<
+  Prisma.VariantGetPayload<{ select: typeof PRODUCT_SNAPSHOT_SELECT.variants.select }>,
+  "color" | "size"
+>;
+
+export const variantLabel = (v: { color: string; size: string }) =>
+  [v.color, v.size].filter(Boolean).join(" / ") || "Default";
+
+/** Stock and weight, plus SKU, barcode, price and compare-at overrides only when set. */
+export function variantSnapshot(v: VariantSnapshotInput) {
+  const prices = variantPriceOverrides(v);
+  const compareAt = compareAtPrices(v);
+  return {
+    stock: v.stock,
+    weight: v.weight,
+    ...(v.sku && { sku: v.sku }),
+    ...(v.barcode && { barcode: v.barcode }),
+    ...(Object.keys(prices).length > 0 && { prices }),
+    ...(Object.keys(compareAt).length > 0 && { compareAt }),
+  };
+}
+
+/** Audit view of a product: editable fields plus "color / size" → variant. */
+export function toProductSnapshot(
+  p: Prisma.ProductGetPayload<{ select: typeof PRODUCT_SNAPSHOT_SELECT }>
+) {
+  const { variants, ...fields } = p;
+  return {
+    ...fields,
+    variants: Object.fromEntries(variants.map((v) => [variantLabel(v), variantSnapshot(v)])),
+  };
+}
+
+export async function productSnapshot(db: Db, productId: string) {
+  const p = await db.product.findUnique({
+    where: { id: productId },
+    select: PRODUCT_SNAPSHOT_SELECT,
+  });
+  return p ? toProductSnapshot(p) : null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Write one audit row. Returns null when an update changed nothing. */
+export async function recordAudit(db: Db, entry: AuditEntry) {
+  let before = snapshot(entry.before);
+  let after = snapshot(entry.after);
+
+  if (entry.action !== "Create" && entry.action !== "Delete" && before && after) {
+    ({ before, after } = changedFields(before, after));
+    if (Object.keys(after).length === 0) return null;
+  }
+
+  return db.auditLog.create({
+    data: {
+      staffId: entry.staffId ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      before: entry.action !== "Create" && before ? (before as Prisma.InputJsonValue) : undefined,
+      after: entry.action !== "Delete" && after ? (after as Prisma.InputJsonValue) : undefined,
+    },
+  });
+}
+
+/** Filters from query-string values; unknown actions and bad dates are dropped. */
+export function parseAuditFilters(q: Record<string, string | undefined>): AuditLogFilters {
+  const date = (v?: string, endOfDay = false) => {
+    if (!v) return undefined;
+    const d = new Date(/^\d{4}-\d{2}-\d{2}$/.test(v) && endOfDay ? `${v}T23:59:59.999Z` : v);
+    return Number.isNaN(d.getTime()) ? undefined : d;
+  };
+  return {
+    staffId: q.staffId || undefined,
+    action: AUDIT_ACTIONS.includes(q.action as AuditAction) ? (q.action as AuditAction) : undefined,
+    entityType: q.entityType || undefined,
+    entityId: q.entityId?.trim() || undefined,
+    from: date(q.from),
+    to: date(q.to, true),
+  };
+}
+
+/** Newest-first page of audit rows with the acting staff member. */
+export async function listAuditLogs(
+  filters: AuditLogFilters,
+  opts: { page?: number; pageSize?: number } = {}
+) {
+  const pageSize = Math.min(Math.max(opts.pageSize ?? 50, 1), 200);
+  const page = Math.max(opts.page ?? 1, 1);
+  const where = filtersWhere(filters);
+
+  const [total, rows] = await Promise.all([
+    prisma.auditLog.count({ where }),
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      include: { staff: { select: { id: true, firstName: true, lastName: true, email: true } } },
+    }),
+  ]);
+  return { total, page, pageSize, rows };
+}
+
+/** All matching rows as CSV (capped at `limit`, newest first). */
+export async function auditLogsToCsv(filters: AuditLogFilters, limit = 10_000) {
+  const rows = await prisma.auditLog.findMany({
+    where: filtersWhere(filters),
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    include: { staff: { select: { firstName: true, lastName: true, email: true } } },
+  });
+
+  const cell = (v: unknown) => {
+    const s = v == null ? "" : typeof v === "string" ? v : JSON.stringify(v);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  const header = ["Date", "Staff", "Staff Email", "Action", "Entity Type", "Entity ID", "Before", "After"];
+  const lines = rows.map((r) =>
+    [
+      r.createdAt.toISOString(),
+      r.staff ? `${r.staff.firstName} ${r.staff.lastName}` : "",
+      r.staff?.email ?? "",
+      r.action,
+      r.entityType,
+      r.entityId,
+      r.before,
+      r.after,
+    ]
+      .map(cell)
+      .join(",")
+  );
+  return [header.join(","), ...lines].join("\n");
+}
@@ -0,0 +1,278 @@
+// lib/cart.ts
+// Server-side carts for signed-in customers, so a cart follows them across devices.
+
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma-client/client";
+import { getLiveProductsByIds, type Product } from "@/lib/products";
+import { PRICE_CURRENCIES, variantUnitPrice, type PriceCurrency } from "@/lib/variantPricing";
+import { SIZE_MOD_RATE } from "@/lib/checkoutQuote";
+import type { CartItem as StoreCartItem } from "@/lib/store/cartStore";
+import { MAX_CART_LINES, MAX_LINE_QUANTITY } from "@/lib/stockReservations";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class CartError extends HttpError {
+  name = "CartError";
+}
+
+export const CartLineInput = z.object({
+  productId: z.string().min(1),
+  color: z.string().default(""),
+  size: z.string().default(""),
+  quantity: z.number().int().min(1).max(MAX_LINE_QUANTITY),
+  hasSizeMod: z.boolean().default(false),
+  customMods: z.record(z.string(), z.union([z.string(), z.number()])).nullish(),
+});
+
+export const CartSyncInput = z.object({
+  mode: z.enum(["replace", "merge"]).default("replace"),
+  currency: z.enum(PRICE_CURRENCIES).default("NGN"),
+  items: z.array(CartLineInput).max(MAX_CART_LINES, `A cart holds at most ${MAX_CART_LINES} lines`),
+});
+
+export type CartLineData = z.infer<typeof CartLineInput>;
+export type CartSyncData = z.infer<typeof CartSyncInput>;
+
+/** A correction made while revalidating a stored cart. */
+export type CartNotice = {
+  productId: string;
+  name: string;
+  color: string;
+  size: string;
+} & (
+  | { kind: "removed"; reason: "unavailable" | "sold_out" }
+  | { kind: "quantity"; from: number; to: number }
+  | { kind: "price"; currency: PriceCurrency; from: number; to: number }
+);
+
+export interface CartView {
+  currency: PriceCurrency;
+  /** Lines in the client store's shape, with fresh product data. */
+  items: StoreCartItem[];
+  notices: CartNotice[];
+  updatedAt: string | null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type Mods = Record<string, string | number>;
+
+function normalizeMods(mods: Mods | null | undefined): Mods | null {
+  if (!mods) return null;
+  const keys = Object.keys(mods).sort();
+  if (keys.length === 0) return null;
+  return Object.fromEntries(keys.map((k) => [k, mods[k]]));
+}
+
+function lineKey(line: Pick<CartLineData, "productId" | "color" | "size" | "hasSizeMod" | "customMods">): string {
+  const mods = normalizeMods(line.customMods);
+  return [line.productId, line.color, line.size, line.hasSizeMod ? "1" : "0", mods ? JSON.stringify(mods) : ""].join("|");
+}
+
+/** Merge duplicate client lines (same key) by summing their quantities. */
+function collapseLines(lines: CartLineData[]): Map<string, CartLineData> {
+  const byKey = new Map<string, CartLineData>();
+  for (const line of lines) {
+    const key = lineKey(line);
+    const prev = byKey.get(key);
+    byKey.set(key, prev
+      ? { ...prev, quantity: Math.min(prev.quantity + line.quantity, MAX_LINE_QUANTITY) }
+      : line);
+  }
+  return byKey;
+}
+
+function lineData(line: CartLineData, currency: PriceCurrency) {
+  return {
+    productId: line.productId,
+    color: line.color,
+    size: line.size,
+    quantity: line.quantity,
+    hasSizeMod: line.hasSizeMod,
+    customMods: (normalizeMods(line.customMods) ?? undefined) as Prisma.InputJsonValue | undefined,
+    currency,
+  };
+}
+
+/**
+ * A line as the client store holds it, priced in `currency` from the live
+ * catalogue (quantity left for the caller), or why it can't be sold.
+ */
+function priceLine(
+  product: Product | undefined,
+  line: { color: string; size: string; hasSizeMod: boolean; customMods?: unknown },
+  currency: PriceCurrency
+): { item: StoreCartItem; stock: number; unitPrice: number } | { reason: "unavailable" | "sold_out" } {
+  const variant = product?.variants.find((v) => v.color === line.color && v.size === line.size);
+  const unitPrice = product ? variantUnitPrice(product, line.color, line.size, currency) ?? 0 : 0;
+  if (!product || !variant || unitPrice <= 0) return { reason: "unavailable" };
+  if (variant.inStock <= 0) return { reason: "sold_out" };
+
+  const sizeModFee = line.hasSizeMod ? round2(unitPrice * SIZE_MOD_RATE) : 0;
+  return {
+    stock: variant.inStock,
+    unitPrice,
+    item: {
+      product,
+      quantity: 0,
+      color: line.color,
+      size: line.size,
+      price: round2(unitPrice + sizeModFee),
+      currency,
+      hasSizeMod: line.hasSizeMod,
+      sizeModFee,
+      customMods: (line.customMods as Mods | null) ?? undefined,
+      unitWeight: variant.weight ?? 0,
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Client-store lines for `lines` at today's prices in `currency`, quantities
+ * capped at stock; lines that can no longer be sold are left out.
+ */
+export async function buildCartItems(lines: CartLineData[], currency: PriceCurrency): Promise<StoreCartItem[]> {
+  const products = new Map(
+    (await getLiveProductsByIds([...new Set(lines.map((l) => l.productId))])).map((p) => [p.id, p])
+  );
+  const items: StoreCartItem[] = [];
+  for (const line of collapseLines(lines).values()) {
+    const priced = priceLine(products.get(line.productId), line, currency);
+    if ("reason" in priced) continue;
+    items.push({ ...priced.item, quantity: Math.min(line.quantity, priced.stock) });
+  }
+  return items;
+}
+
+/** The customer's cart, revalidated against the catalogue (empty when none is stored). */
+export async function loadCart(customerId: string): Promise<CartView> {
+  const cart = await prisma.cart.findUnique({
+    where: { customerId },
+    include: {
+      items: {
+        orderBy: { addedAt: "asc" },
+        include: { product: { select: { name: true } } },
+      },
+    },
+  });
+  if (!cart) return { currency: "NGN", items: [], notices: [], updatedAt: null };
+
+  const products = new Map(
+    (await getLiveProductsByIds([...new Set(cart.items.map((i) => i.productId))])).map((p) => [p.id, p])
+  );
+
+  const notices: CartNotice[] = [];
+  const removeIds: string[] = [];
+  const updates: { id: string; data: { quantity?: number; unitPrice?: number } }[] = [];
+  const items: StoreCartItem[] = [];
+
+  for (const line of cart.items) {
+    const ref = { productId: line.productId, name: line.product.name, color: line.color, size: line.size };
+    const priced = priceLine(products.get(line.productId), line, line.currency);
+    if ("reason" in priced) {
+      notices.push({ ...ref, kind: "removed", reason: priced.reason });
+      removeIds.push(line.id);
+      continue;
+    }
+
+    const data: { quantity?: number; unitPrice?: number } = {};
+    if (line.quantity > priced.stock) {
+      notices.push({ ...ref, kind: "quantity", from: line.quantity, to: priced.stock });
+      data.quantity = priced.stock;
+    }
+    if (Math.abs(line.unitPrice - priced.unitPrice) >= 0.005) {
+      // a fresh line carries unitPrice 0 until its first read; that's not a change
+      if (line.unitPrice > 0) {
+        notices.push({ ...ref, kind: "price", currency: line.currency, from: line.unitPrice, to: priced.unitPrice });
+      }
+      data.unitPrice = priced.unitPrice;
+    }
+    if (Object.keys(data).length > 0) updates.push({ id: line.id, data });
+
+    items.push({ ...priced.item, quantity: data.quantity ?? line.quantity });
+  }
+
+  if (removeIds.length > 0 || updates.length > 0) {
+    await prisma.$transaction([
+      prisma.cartItem.deleteMany({ where: { id: { in: removeIds } } }),
+      ...updates.map((u) => prisma.cartItem.update({ where: { id: u.id }, data: u.data })),
+    ]);
+  }
+
+  return {
+    currency: cart.currency,
+    items,
+    notices,
+    updatedAt: cart.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Write the client's lines to the customer's cart ("replace" or "merge", see
+ * Rules) and return the revalidated result.
+ */
+export async function syncCart(customerId: string, input: CartSyncData): Promise<CartView> {
+  const incoming = collapseLines(input.items);
+
+  await prisma.$transaction(async (tx) => {
+    const cart = await tx.cart.upsert({
+      where: { customerId },
+      create: { customerId, currency: input.currency },
+      update: { currency: input.currency },
+      select: { id: true, items: { select: { id: true, lineKey: true, quantity: true } } },
+    });
+    const stored = new Map(cart.items.map((i) => [i.lineKey, i]));
+
+    // Switching currency re-prices every line on the next read, silently
+    await tx.cartItem.updateMany({
+      where: { cartId: cart.id, currency: { not: input.currency } },
+      data: { currency: input.currency, unitPrice: 0 },
+    });
+
+    if (input.mode === "replace") {
+      const stale = cart.items.filter((i) => !incoming.has(i.lineKey)).map((i) => i.id);
+      if (stale.length > 0) await tx.cartItem.deleteMany({ where: { id: { in: stale } } });
+    } else if (new Set([...stored.keys(), ...incoming.keys()]).size > MAX_CART_LINES) {
+      throw new CartError(`A cart holds at most ${MAX_CART_LINES} lines`);
+    }
+
+    const known = new Set(
+      (
+        await tx.product.findMany({
+          where: { id: { in: [...new Set([...incoming.values()].map((l) => l.productId))] } },
+          select: { id: true },
+        })
+      ).map((p) => p.id)
+    );
+
+    for (const [key, line] of incoming) {
+      if (!known.has(line.productId)) continue; // deleted product: nothing to keep
+      const existing = stored.get(key);
+      const quantity =
+        input.mode === "merge" && existing ? Math.max(existing.quantity, line.quantity) : line.quantity;
+      if (existing) {
+        if (existing.quantity !== quantity) {
+          await tx.cartItem.update({ where: { id: existing.id }, data: { quantity } });
+        }
+      } else {
+        await tx.cartItem.create({
+          data: { ...lineData(line, input.currency), quantity, cartId: cart.id, lineKey: key, unitPrice: 0 },
+        });
+      }
+    }
+  });
+
+  return loadCart(customerId);
+}
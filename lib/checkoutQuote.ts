@@ -0,0 +1,412 @@
+// lib/checkoutQuote.ts
+// Server-side checkout pricing and the signed quotes online orders are paid against.
+
+import crypto from "crypto";
+import { prisma } from "@/lib/db";
+import type { Currency } from "@/lib/generated/prisma-client/client";
+import { fetchOpenErLatest, rateToNGN } from "@/lib/fxRates";
+import {
+  resolvePromotion,
+  normalizePromoCode,
+  type PromotionLine,
+  type PromotionResult,
+} from "@/lib/promotions";
+import { resolveUnitPrice } from "@/lib/variantPricing";
+import { productAvailability } from "@/lib/productSchedule";
+import { DELIVERY_OPTION_ZONES_INCLUDE, resolveDeliveryFee } from "@/lib/shipping/zones";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class QuoteError extends HttpError {
+  name = "QuoteError";
+}
+
+/** How long a quote can be paid against. */
+export const QUOTE_TTL_MS = 30 * 60 * 1000;
+
+/** Size-mod surcharge, as a share of the unit price. */
+export const SIZE_MOD_RATE = 0.05;
+
+export interface QuoteItemInput {
+  productId: string;
+  color?: string;
+  size?: string;
+  quantity: number;
+  hasSizeMod?: boolean;
+}
+
+export interface SignedShippingRate {
+  requestToken: string;
+  serviceCode: string;
+  courierId: string | null;
+  fee: number;
+  currency: string;
+  signature: string;
+}
+
+export interface QuoteLine {
+  productId: string;
+  variantId: string;
+  color: string;
+  size: string;
+  quantity: number;
+  hasSizeMod: boolean;
+  unitPrice: number;
+  /** Per-unit size-mod fee in the order currency. */
+  sizeModFee: number;
+  lineTotal: number;
+}
+
+export interface CheckoutQuote {
+  id: string;
+  expiresAt: number;
+  currency: Currency;
+  email: string | null;
+  lines: QuoteLine[];
+  itemsSubtotal: number;
+  sizeModTotal: number;
+  delivery:
+    | { kind: "fixed"; deliveryOptionId: string }
+    | { kind: "pickup"; deliveryOptionId: string; pickupLocationId: string }
+    | { kind: "shipbubble"; requestToken: string; serviceCode: string; courierId: string | null }
+    | { kind: "none" };
+  /** Delivery fee in the order currency. */
+  deliveryFee: number;
+  discountCode: string | null;
+  discountAmount: number;
+  /** 1 unit of `currency` in NGN at quote time. */
+  fxRateToNGN: number;
+  /** FxRateSnapshot that rate came from (null for NGN or when not stored). */
+  fxSnapshotId?: string | null;
+  /** Items + delivery − discount, in the order currency. */
+  totalBeforeGateway: number;
+  paystackFeeInNaira: number;
+  /** What Paystack must be charged, in NGN (major units). */
+  totalInNaira: number;
+  /** totalBeforeGateway + the Paystack fee, shown in the order currency. */
+  total: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function getSecret(): string {
+  const secret = process.env.CHECKOUT_QUOTE_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("Missing CHECKOUT_QUOTE_SECRET in environment");
+  return secret;
+}
+
+function hmac(data: string): string {
+  return crypto.createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
+async function rateBetween(from: string, to: string): Promise<number> {
+  if (from === to) return 1;
+  const data = await fetchOpenErLatest(from);
+  const rate = data.rates?.[to];
+  if (rate == null || !Number.isFinite(rate)) {
+    throw new QuoteError(`Currency conversion ${from}→${to} is unavailable`);
+  }
+  return rate;
+}
+
+/**
+ * Paystack gateway fee in NGN (major units) for a given NGN amount.
+ * - Local: 1.5% + ₦100 (₦100 waived under ₦2500), capped at ₦2000
+ * - International: 3.9% + ₦100, no cap
+ */
+export function computePaystackFeeInNaira(amountNGN: number, isLocal: boolean): number {
+  if (!Number.isFinite(amountNGN) || amountNGN <= 0) return 0;
+  if (isLocal) {
+    let fee = amountNGN * 0.015;
+    if (amountNGN >= 2500) fee += 100;
+    return Math.round(Math.min(fee, 2000));
+  }
+  return Math.round(amountNGN * 0.039 + 100);
+}
+
+/** Stable key for matching cart lines between the quote and the order. */
+export function quoteLineKey(i: { productId: string; color?: string; size?: string }): string {
+  return [i.productId, i.color || "N/A", i.size || "N/A"].join("|");
+}
+
+/** True when `items` is exactly the cart the quote was priced for. */
+export function quoteMatchesCart(
+  quote: CheckoutQuote,
+  items: { productId: string; color?: string; size?: string; quantity: number }[]
+): boolean {
+  const want = new Map<string, number>();
+  for (const l of quote.lines) {
+    want.set(quoteLineKey(l), (want.get(quoteLineKey(l)) ?? 0) + l.quantity);
+  }
+  const got = new Map<string, number>();
+  for (const i of items) {
+    got.set(quoteLineKey(i), (got.get(quoteLineKey(i)) ?? 0) + Number(i.quantity));
+  }
+  if (want.size !== got.size) return false;
+  for (const [k, q] of want) if (got.get(k) !== q) return false;
+  return true;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             Shipping rate signing                          */
+/* -------------------------------------------------------------------------- */
+
+function shippingRatePayload(r: Omit<SignedShippingRate, "signature">): string {
+  return JSON.stringify([r.requestToken, r.serviceCode, r.courierId ?? "", r.fee, r.currency]);
+}
+
+export function signShippingRate(r: Omit<SignedShippingRate, "signature">): string {
+  return hmac(`rate:${shippingRatePayload(r)}`);
+}
+
+function verifyShippingRate(r: SignedShippingRate): boolean {
+  if (!r?.signature) return false;
+  return safeEqual(signShippingRate(r), r.signature);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Build a quote                              */
+/* -------------------------------------------------------------------------- */
+
+export async function buildCheckoutQuote({
+  currency,
+  items,
+  countryIso2,
+  state,
+  deliveryOptionId,
+  pickupLocationId,
+  shipbubble,
+  discountCode,
+  email,
+  customerId,
+}: {
+  currency: Currency;
+  items: QuoteItemInput[];
+  countryIso2?: string | null;
+  /** Destination state; picks a state-specific shipping zone. */
+  state?: string | null;
+  deliveryOptionId?: string | null;
+  /** Required when deliveryOptionId is the store pickup option. */
+  pickupLocationId?: string | null;
+  shipbubble?: SignedShippingRate | null;
+  discountCode?: string | null;
+  email?: string | null;
+  customerId?: string | null;
+}): Promise<CheckoutQuote> {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new QuoteError("No items provided");
+  }
+
+  // 1) Items — priced from the catalogue
+  const lines: QuoteLine[] = [];
+  const promotionLines: PromotionLine[] = [];
+  let weightKg = 0;
+  for (const i of items) {
+    const quantity = Number(i.quantity);
+    if (!i?.productId || !Number.isInteger(quantity) || quantity < 1) {
+      throw new QuoteError("Invalid cart item");
+    }
+    const where: Record<string, any> = { productId: i.productId };
+    if (i.color && i.color !== "N/A") where.color = i.color;
+    if (i.size && i.size !== "N/A") where.size = i.size;
+
+    const variant = await prisma.variant.findFirst({ where, include: { product: true } });
+    if (!variant) {
+      throw new QuoteError(`Variant not found: ${i.productId} ${i.color}/${i.size}`);
+    }
+    // Coming-soon drops and ended or unpublished products can't be bought
+    if (productAvailability(variant.product) !== "live") {
+      throw new QuoteError(`${variant.product.name} is not available to buy right now`);
+    }
+    if (variant.stock < quantity) {
+      throw new QuoteError(`Insufficient stock for ${variant.product.name}`);
+    }
+
+    const unitPrice = resolveUnitPrice(variant.product, variant, currency);
+    const hasSizeMod = !!i.hasSizeMod && !!variant.product.sizeMods;
+    const sizeModFee = hasSizeMod ? round2(unitPrice * SIZE_MOD_RATE) : 0;
+    const lineTotal = round2((unitPrice + sizeModFee) * quantity);
+
+    lines.push({
+      productId: i.productId,
+      variantId: variant.id,
+      color: i.color || "N/A",
+      size: i.size || "N/A",
+      quantity,
+      hasSizeMod,
+      unitPrice,
+      sizeModFee,
+      lineTotal,
+    });
+    weightKg += (variant.weight ?? 0) * quantity;
+    promotionLines.push({
+      productId: variant.productId,
+      categorySlug: variant.product.categorySlug,
+      quantity,
+      lineTotal,
+    });
+  }
+  const itemsSubtotal = round2(lines.reduce((s, l) => s + l.lineTotal, 0));
+  const sizeModTotal = round2(lines.reduce((s, l) => s + l.sizeModFee * l.quantity, 0));
+
+  // 2) Delivery — FIXED option (priced by zone), store pickup or a signed Shipbubble rate
+  let delivery: CheckoutQuote["delivery"] = { kind: "none" };
+  let deliveryFee = 0;
+  if (shipbubble) {
+    if (!verifyShippingRate(shipbubble)) {
+      throw new QuoteError("Delivery rate could not be verified. Please fetch rates again.");
+    }
+    const fee = Number(shipbubble.fee) || 0;
+    deliveryFee = round2(fee * (await rateBetween(shipbubble.currency.toUpperCase(), currency)));
+    delivery = {
+      kind: "shipbubble",
+      requestToken: shipbubble.requestToken,
+      serviceCode: shipbubble.serviceCode,
+      courierId: shipbubble.courierId ?? null,
+    };
+  } else if (deliveryOptionId) {
+    const opt = await prisma.deliveryOption.findUnique({
+      where: { id: deliveryOptionId },
+      include: DELIVERY_OPTION_ZONES_INCLUDE,
+    });
+    if (!opt || !opt.active) throw new QuoteError("Delivery option is not available");
+    if (opt.pricingMode === "EXTERNAL") {
+      throw new QuoteError("This delivery option needs a live rate");
+    }
+    if (opt.pricingMode === "FIXED") {
+      const resolved = resolveDeliveryFee(opt, {
+        countryIso2,
+        state,
+        currency,
+        weightKg,
+        subtotal: itemsSubtotal,
+      });
+      if (!resolved) throw new QuoteError(`${opt.name} does not deliver to this address`);
+      deliveryFee = round2(resolved.fee * (await rateBetween(resolved.currency, currency)));
+    } else {
+      const fee = opt.baseFee ?? 0;
+      deliveryFee = round2(fee * (await rateBetween(opt.baseCurrency ?? "NGN", currency)));
+    }
+    if (opt.pricingMode === "PICKUP") {
+      const location = pickupLocationId
+        ? await prisma.pickupLocation.findUnique({ where: { id: pickupLocationId } })
+        : null;
+      if (!location || !location.active) {
+        throw new QuoteError("Choose an open pickup location");
+      }
+      delivery = { kind: "pickup", deliveryOptionId: opt.id, pickupLocationId: location.id };
+    } else {
+      delivery = { kind: "fixed", deliveryOptionId: opt.id };
+    }
+  }
+
+  // 3) Discount
+  let promotion: PromotionResult | null = null;
+  const code = normalizePromoCode(discountCode);
+  if (code) {
+    promotion = await resolvePromotion(prisma, {
+      code,
+      currency,
+      lines: promotionLines,
+      deliveryFee,
+      customerId: customerId ?? null,
+      email: email ?? null,
+    });
+  }
+  const discountAmount = promotion?.discountAmount ?? 0;
+
+  // 4) FX + Paystack fee (Paystack always charges NGN)
+  const { rate: fxRateToNGN, snapshotId: fxSnapshotId } = await rateToNGN(currency).catch(() => {
+    throw new QuoteError(`Currency conversion ${currency}→NGN is unavailable`);
+  });
+  const totalBeforeGateway = round2(Math.max(itemsSubtotal + deliveryFee - discountAmount, 0));
+  const totalBeforeGatewayInNaira = round2(totalBeforeGateway * fxRateToNGN);
+  const isLocal = (countryIso2 || "").toUpperCase() === "NG" && currency === "NGN";
+  const paystackFeeInNaira = computePaystackFeeInNaira(totalBeforeGatewayInNaira, isLocal);
+  const totalInNaira = round2(totalBeforeGatewayInNaira + paystackFeeInNaira);
+
+  return {
+    id: crypto.randomUUID(),
+    expiresAt: Date.now() + QUOTE_TTL_MS,
+    currency,
+    email: email ? email.trim().toLowerCase() : null,
+    lines,
+    itemsSubtotal,
+    sizeModTotal,
+    delivery,
+    deliveryFee,
+    discountCode: promotion?.code ?? null,
+    discountAmount,
+    fxRateToNGN,
+    fxSnapshotId,
+    totalBeforeGateway,
+    paystackFeeInNaira,
+    totalInNaira,
+    total: round2(totalBeforeGateway + paystackFeeInNaira / fxRateToNGN),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Sign / verify quotes                          */
+/* -------------------------------------------------------------------------- */
+
+export function signQuote(quote: CheckoutQuote): string {
+  const body = Buffer.from(JSON.stringify(quote)).toString("base64url");
+  return `${body}.${hmac(`quote:${body}`)}`;
+}
+
+/**
+ * Verify a quote token. `at` is the moment the quote must still be valid —
+ * pass the Paystack `paid_at` so a retry after expiry still works for a
+ * payment made in time.
+ */
+export function verifyQuote(token: unknown, at: Date = new Date()): CheckoutQuote {
+  if (typeof token !== "string" || !token.includes(".")) {
+    throw new QuoteError("Missing checkout quote");
+  }
+  const [body, sig] = token.split(".", 2);
+  if (!sig || !safeEqual(hmac(`quote:${body}`), sig)) {
+    throw new QuoteError("Invalid checkout quote");
+  }
+  let quote: CheckoutQuote;
+  try {
+    quote = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    throw new QuoteError("Invalid checkout quote");
+  }
+  if (!Number.isFinite(quote.expiresAt) || at.getTime() > quote.expiresAt) {
+    throw new QuoteError("Checkout quote has expired");
+  }
+  return quote;
+}
+
+/** Public, client-facing view of a quote (no internal ids). */
+export function quoteSummary(quote: CheckoutQuote, quoteId: string) {
+  return {
+    quoteId,
+    expiresAt: new Date(quote.expiresAt).toISOString(),
+    currency: quote.currency,
+    itemsSubtotal: quote.itemsSubtotal,
+    sizeModTotal: quote.sizeModTotal,
+    deliveryFee: quote.deliveryFee,
+    discountCode: quote.discountCode,
+    discountAmount: quote.discountAmount,
+    totalBeforeGateway: quote.totalBeforeGateway,
+    paystackFeeInNaira: quote.paystackFeeInNaira,
+    totalInNaira: quote.totalInNaira,
+    total: quote.total,
+  };
+}
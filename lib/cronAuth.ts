@@ -0,0 +1,16 @@
+// lib/cronAuth.ts
+import type { NextRequest } from "next/server";
+
+const CRON_SECRET = process.env.CRON_SECRET || "";
+
+/**
+ * Guard for scheduled jobs under /api/cron. Accepts the shared secret as
+ * `x-cron-secret` or as a Bearer token (what Vercel Cron sends).
+ * If CRON_SECRET is not configured, every request is rejected.
+ */
+export function isAuthorizedCron(req: NextRequest): boolean {
+  if (!CRON_SECRET) return false;
+  const header = req.headers.get("x-cron-secret") || "";
+  const bearer = (req.headers.get("authorization") || "").replace(/^Bearer\s+/i, "");
+  return header === CRON_SECRET || bearer === CRON_SECRET;
+}
@@ -0,0 +1,666 @@
+// lib/fulfilment.ts
+// Split fulfilment: an order ships as one or more parcels and Order.status follows them.
+
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import {
+  Currency,
+  OrderStatus,
+  Prisma,
+  ShipmentStatus,
+} from "@/lib/generated/prisma-client/client";
+import { recordAudit } from "@/lib/audit";
+import { isPickupOrder } from "@/lib/pickup";
+import {
+  carrierForOrder,
+  getCarrier,
+  type CarrierRate,
+  type ParcelItem,
+  type ShippingCarrier,
+} from "@/lib/shipping/carriers";
+import { notifyShipmentStatus, recordShipmentEvents } from "@/lib/shipmentTracking";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class FulfilmentError extends HttpError {
+  name = "FulfilmentError";
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface ParcelLine {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface ShipmentSummary {
+  id: string;
+  status: ShipmentStatus;
+  provider: string;
+  externalOrderId: string | null;
+  courierName: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  labelUrl: string | null;
+  createdAt: string;
+  items: ParcelLine[];
+}
+
+export const ShipmentPayload = z.object({
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().min(1),
+        quantity: z.number().int().min(0),
+      })
+    )
+    .min(1, "Pick at least one item for the parcel"),
+});
+
+export interface OrderShipments {
+  /** Order.status, which follows the parcels. */
+  orderStatus: OrderStatus;
+  shipments: ShipmentSummary[];
+  /** Quantity of each order line not yet in a live parcel. */
+  remaining: ParcelLine[];
+  /** True while any live parcel has a carrier label. */
+  hasLabel: boolean;
+}
+
+/** Parcels that hold their items; the rest can be re-shipped. */
+const DEAD_STATUSES: ShipmentStatus[] = [ShipmentStatus.CANCELLED, ShipmentStatus.FAILED];
+
+const SHIPPED_STATUSES: ShipmentStatus[] = [ShipmentStatus.IN_TRANSIT, ShipmentStatus.DELIVERED];
+
+const CURRENCIES = Object.values(Currency);
+
+/** Variants without a weight ship as this (same default as checkout rates). */
+const DEFAULT_ITEM_WEIGHT_KG = 0.5;
+
+const SHIPMENT_SUMMARY_SELECT = {
+  id: true,
+  status: true,
+  provider: true,
+  externalOrderId: true,
+  courierName: true,
+  trackingNumber: true,
+  trackingUrl: true,
+  labelUrl: true,
+  createdAt: true,
+  items: { select: { orderItemId: true, quantity: true } },
+} satisfies Prisma.ShipmentSelect;
+
+/* -------------------------------------------------------------------------- */
+/*                                    Helpers                                 */
+/* -------------------------------------------------------------------------- */
+
+const isLive = (s: { status: ShipmentStatus }) => !DEAD_STATUSES.includes(s.status);
+
+function safeParse(s: unknown) {
+  if (typeof s !== "string") return s ?? {};
+  try {
+    return JSON.parse(s);
+  } catch {
+    return {};
+  }
+}
+
+function pickFirstString(...vals: unknown[]) {
+  for (const v of vals) {
+    if (typeof v === "string" && v.trim()) return v.trim();
+    if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  }
+  return null;
+}
+
+/** The checkout rate saved on deliveryDetails, under any of its historic keys. */
+function extractRateFields(dd: any, key: string) {
+  const carrierDd = dd?.[key];
+  const requestToken = pickFirstString(
+    dd?.requestToken,
+    dd?.request_token,
+    dd?.quote?.quoteId,
+    carrierDd?.requestToken,
+    carrierDd?.request_token,
+    dd?.rate?.requestToken,
+    dd?.rate?.request_token,
+    dd?.raw?.request_token,
+    dd?.rate?.raw?.request_token
+  );
+
+  const serviceCode = pickFirstString(
+    dd?.serviceCode,
+    dd?.service_code,
+    dd?.quote?.serviceCode,
+    carrierDd?.serviceCode,
+    carrierDd?.service_code,
+    dd?.rate?.serviceCode,
+    dd?.rate?.service_code,
+    dd?.raw?.service_code,
+    dd?.rate?.raw?.service_code
+  );
+
+  const courierId = pickFirstString(
+    dd?.courierId,
+    dd?.courier_id,
+    dd?.courierCode,
+    dd?.courier_code,
+
+    carrierDd?.courierId,
+    carrierDd?.courier_id,
+    carrierDd?.courierCode,
+    carrierDd?.courier_code,
+
+    dd?.rate?.courierId,
+    dd?.rate?.courier_id,
+    dd?.rate?.courierCode,
+    dd?.rate?.courier_code,
+
+    dd?.raw?.courier_id,
+    dd?.raw?.courierId,
+    dd?.raw?.courierCode,
+    dd?.rate?.raw?.courier_id
+  );
+
+  const courierName = pickFirstString(
+    dd?.courierName,
+    carrierDd?.courierName,
+    dd?.rate?.courierName,
+    dd?.raw?.courier_name
+  );
+
+  return { requestToken, serviceCode, courierId, courierName };
+}
+
+/** Sum quantities per order line. */
+function tally(lines: ParcelLine[]): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const l of lines) m.set(l.orderItemId, (m.get(l.orderItemId) ?? 0) + l.quantity);
+  return m;
+}
+
+/** What each order line still needs to ship: ordered − refunded (never below 0). */
+function wantedQuantities(order: {
+  items: { id: string; quantity: number }[];
+  refunds: { items: ParcelLine[] }[];
+}): Map<string, number> {
+  const refunded = tally(order.refunds.flatMap((r) => r.items));
+  return new Map(
+    order.items.map((it) => [it.id, Math.max(0, it.quantity - (refunded.get(it.id) ?? 0))])
+  );
+}
+
+function remainingQuantities(
+  wanted: Map<string, number>,
+  shipments: { status: ShipmentStatus; items: ParcelLine[] }[]
+): ParcelLine[] {
+  const packed = tally(shipments.filter(isLive).flatMap((s) => s.items));
+  return [...wanted].map(([orderItemId, qty]) => ({
+    orderItemId,
+    quantity: Math.max(0, qty - (packed.get(orderItemId) ?? 0)),
+  }));
+}
+
+function toSummary(s: Prisma.ShipmentGetPayload<{ select: typeof SHIPMENT_SUMMARY_SELECT }>) {
+  return { ...s, createdAt: s.createdAt.toISOString() } satisfies ShipmentSummary;
+}
+
+/** Validate requested lines against what is left; merges repeated lines. */
+function checkLines(lines: ParcelLine[], remaining: ParcelLine[]): ParcelLine[] {
+  const left = new Map(remaining.map((l) => [l.orderItemId, l.quantity]));
+  const merged = [...tally(lines)]
+    .filter(([, qty]) => qty > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+  if (merged.length === 0) throw new FulfilmentError("Pick at least one item for the parcel");
+  for (const l of merged) {
+    if (!left.has(l.orderItemId)) {
+      throw new FulfilmentError("Parcel items must belong to this order");
+    }
+    if (l.quantity > left.get(l.orderItemId)!) {
+      throw new FulfilmentError("Parcel has more of an item than is left to ship", 409);
+    }
+  }
+  return merged;
+}
+
+/**
+ * The shipped-to party, rebuilt from what checkout saved: the carrier's
+ * validated destination first, then the guest or account address.
+ */
+function destinationOf(order: {
+  deliveryDetails: unknown;
+  guestInfo: unknown;
+  customer: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string;
+    deliveryAddress: string | null;
+    state: string | null;
+    country: string | null;
+  } | null;
+}, detailsKey: string) {
+  const dd = safeParse(order.deliveryDetails) as any;
+  const gi = (order.guestInfo && typeof order.guestInfo === "object" ? order.guestInfo : {}) as any;
+  const c = order.customer;
+
+  const address = pickFirstString(
+    dd?.[detailsKey]?.meta?.destination?.address,
+    gi.deliveryAddress,
+    c?.deliveryAddress
+  );
+  if (!address) throw new FulfilmentError("Order has no delivery address to rate the parcel to", 422);
+
+  return {
+    name: (c ? `${c.firstName} ${c.lastName}` : `${gi.firstName ?? ""} ${gi.lastName ?? ""}`).trim(),
+    email: c?.email ?? gi.email ?? "",
+    phone: c?.phone ?? gi.phone ?? "",
+    address,
+    state: pickFirstString(gi.state, c?.state) ?? undefined,
+    country: pickFirstString(gi.country, c?.country) ?? undefined,
+  };
+}
+
+/** Checkout courier + service, else the checkout courier, else the cheapest. */
+function pickRate(
+  rates: CarrierRate[],
+  wanted: { courierId: string | null; serviceCode: string | null }
+): CarrierRate | null {
+  const sameCourier = rates.filter((r) => wanted.courierId && r.courierId === wanted.courierId);
+  return (
+    sameCourier.find((r) => r.serviceCode === wanted.serviceCode) ??
+    sameCourier[0] ??
+    [...rates].sort((a, b) => a.fee - b.fee)[0] ??
+    null
+  );
+}
+
+const FULFILMENT_ORDER_SELECT = {
+  id: true,
+  status: true,
+  currency: true,
+  deliveryDetails: true,
+  guestInfo: true,
+  customer: {
+    select: {
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+      deliveryAddress: true,
+      state: true,
+      country: true,
+    },
+  },
+  deliveryOption: { select: { carrier: true, pricingMode: true } },
+  pickup: { select: { id: true } },
+  items: {
+    select: {
+      id: true,
+      name: true,
+      quantity: true,
+      lineTotal: true,
+      unitPrice: true,
+      variant: { select: { weight: true } },
+    },
+  },
+  refunds: {
+    where: { status: { not: "Failed" } },
+    select: { items: { select: { orderItemId: true, quantity: true } } },
+  },
+  shipments: {
+    orderBy: { createdAt: "asc" },
+    select: SHIPMENT_SUMMARY_SELECT,
+  },
+} satisfies Prisma.OrderSelect;
+
+async function loadOrder(orderId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: FULFILMENT_ORDER_SELECT,
+  });
+  if (!order) throw new FulfilmentError("Order not found", 404);
+  return order;
+}
+
+/** Quote a parcel on its own and pick the rate to buy. */
+async function rateParcel(
+  carrier: ShippingCarrier,
+  order: Awaited<ReturnType<typeof loadOrder>>,
+  items: ParcelItem[],
+  weightKg: number,
+  checkout: { courierId: string | null; serviceCode: string | null }
+) {
+  const quote = await carrier.getRates({
+    destination: destinationOf(order, carrier.detailsKey),
+    items,
+    totalWeightKg: weightKg,
+    totalValue: items.reduce((sum, i) => sum + i.unitAmount * i.quantity, 0),
+    pickupDaysFromNow: 1,
+  });
+  const picked = pickRate(quote.rates, checkout);
+  return {
+    requestToken: quote.requestToken,
+    serviceCode: picked?.serviceCode ?? null,
+    courierId: picked?.courierId ?? null,
+    courierName: picked?.courierName ?? null,
+    fee: picked?.fee ?? null,
+    currency: (CURRENCIES as string[]).includes(picked?.currency ?? "")
+      ? (picked!.currency as Currency)
+      : null,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Public API                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Recompute Order.status from its parcels. Returns the status the order is
+ * left with. Orders without parcels keep whatever status staff set.
+ */
+export async function syncOrderFulfilmentStatus(db: Db, orderId: string): Promise<OrderStatus | null> {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    select: {
+      status: true,
+      deliveryDetails: true,
+      deliveryOption: { select: { pricingMode: true } },
+      pickup: { select: { id: true } },
+      items: { select: { id: true, quantity: true } },
+      refunds: {
+        where: { status: { not: "Failed" } },
+        select: { items: { select: { orderItemId: true, quantity: true } } },
+      },
+      shipments: { select: { status: true, items: { select: { orderItemId: true, quantity: true } } } },
+    },
+  });
+  if (!order) return null;
+  if (order.status === OrderStatus.Cancelled || isPickupOrder(order) || !order.shipments.length) {
+    return order.status;
+  }
+
+  const wanted = [...wantedQuantities(order)].filter(([, qty]) => qty > 0);
+  const live = order.shipments.filter(isLive);
+  const covered = (statuses: ShipmentStatus[]) =>
+    tally(live.filter((s) => statuses.includes(s.status)).flatMap((s) => s.items));
+
+  const delivered = covered([ShipmentStatus.DELIVERED]);
+  const shipped = covered(SHIPPED_STATUSES);
+  const all = (m: Map<string, number>) =>
+    wanted.length > 0 && wanted.every(([id, qty]) => (m.get(id) ?? 0) >= qty);
+
+  const next = all(delivered)
+    ? OrderStatus.Delivered
+    : delivered.size > 0
+    ? OrderStatus.PartiallyDelivered
+    : all(shipped)
+    ? OrderStatus.Shipped
+    : shipped.size > 0
+    ? OrderStatus.PartiallyShipped
+    : OrderStatus.Processing;
+
+  if (next !== order.status) {
+    await db.order.update({ where: { id: orderId }, data: { status: next } });
+  }
+  return next;
+}
+
+/** An order's parcels (oldest first) and what is still left to pack. */
+export async function listOrderShipments(orderId: string): Promise<OrderShipments> {
+  const order = await loadOrder(orderId);
+  const shipments = order.shipments.map(toSummary);
+  return {
+    orderStatus: order.status,
+    shipments,
+    remaining: remainingQuantities(wantedQuantities(order), order.shipments),
+    hasLabel: shipments.some((s) => isLive(s) && !!s.externalOrderId),
+  };
+}
+
+/**
+ * Buy a label for a parcel holding `lines` and record it. The label is
+ * cancelled again if another parcel took the same items in the meantime.
+ */
+export async function createShipment(
+  orderId: string,
+  lines: ParcelLine[],
+  staffId: string
+): Promise<ShipmentSummary> {
+  const order = await loadOrder(orderId);
+  if (order.status === OrderStatus.Cancelled) {
+    throw new FulfilmentError("Cancelled orders cannot be shipped", 409);
+  }
+  if (isPickupOrder(order)) {
+    throw new FulfilmentError("Store pickup orders are collected, not shipped", 409);
+  }
+
+  const remaining = remainingQuantities(wantedQuantities(order), order.shipments);
+  const parcel = checkLines(lines, remaining);
+  const isWholeRemainder = remaining
+    .filter((r) => r.quantity > 0)
+    .every((r) => parcel.some((p) => p.orderItemId === r.orderItemId && p.quantity === r.quantity));
+
+  const carrier = carrierForOrder({
+    shipments: order.shipments.filter(isLive),
+    deliveryOption: order.deliveryOption,
+  });
+  const checkout = extractRateFields(safeParse(order.deliveryDetails), carrier.detailsKey);
+
+  // The checkout token was quoted for the whole order, so it only fits the
+  // first parcel when that parcel is everything.
+  const firstAndWhole = isWholeRemainder && !order.shipments.some(isLive);
+  const itemsById = new Map(order.items.map((it) => [it.id, it]));
+  const parcelItems: ParcelItem[] = parcel.map((p) => {
+    const it = itemsById.get(p.orderItemId)!;
+    return {
+      name: it.name,
+      description: it.name,
+      unitWeightKg: it.variant.weight || DEFAULT_ITEM_WEIGHT_KG,
+      unitAmount: it.unitPrice ?? it.lineTotal / it.quantity,
+      quantity: p.quantity,
+    };
+  });
+  const weightKg = parcelItems.reduce((sum, i) => sum + i.unitWeightKg * i.quantity, 0);
+
+  let rate: {
+    requestToken: string | null;
+    serviceCode: string | null;
+    courierId: string | null;
+    courierName: string | null;
+    fee: number | null;
+    currency: Currency | null;
+  };
+  if (firstAndWhole && checkout.requestToken && checkout.serviceCode && checkout.courierId) {
+    rate = { ...checkout, fee: null, currency: null };
+  } else {
+    rate = await rateParcel(carrier, order, parcelItems, weightKg, checkout);
+  }
+  if (!rate.requestToken || !rate.serviceCode || !rate.courierId) {
+    throw new FulfilmentError(`${carrier.name} did not return a rate for this parcel`, 422);
+  }
+
+  const label = await carrier.createLabel({
+    orderId: order.id,
+    requestToken: rate.requestToken,
+    serviceCode: rate.serviceCode,
+    courierId: rate.courierId,
+  });
+
+  try {
+    const shipment = await prisma.$transaction(async (tx) => {
+      const taken = await tx.shipmentItem.findMany({
+        where: {
+          orderItemId: { in: parcel.map((p) => p.orderItemId) },
+          shipment: { status: { notIn: DEAD_STATUSES } },
+        },
+        select: { orderItemId: true, quantity: true },
+      });
+      const packed = tally(taken);
+      const wanted = wantedQuantities(order);
+      if (parcel.some((p) => (packed.get(p.orderItemId) ?? 0) + p.quantity > (wanted.get(p.orderItemId) ?? 0))) {
+        throw new FulfilmentError("These items were packed in another parcel meanwhile; refresh and retry", 409);
+      }
+
+      const created = await tx.shipment.create({
+        data: {
+          orderId: order.id,
+          provider: carrier.provider,
+          status: ShipmentStatus.LABEL_CREATED,
+          externalOrderId: label.externalOrderId,
+          requestToken: rate.requestToken,
+          serviceCode: rate.serviceCode,
+          courierId: rate.courierId,
+          courierName: rate.courierName,
+          currency: rate.currency,
+          amount: rate.fee ?? undefined,
+          labelUrl: label.labelUrl,
+          trackingUrl: label.trackingUrl,
+          trackingNumber: label.trackingNumber,
+          weightKg,
+          rawResponse: label.raw as any,
+          items: { create: parcel },
+        },
+        select: SHIPMENT_SUMMARY_SELECT,
+      });
+
+      await recordAudit(tx, {
+        staffId,
+        action: "Create",
+        entityType: "Shipment",
+        entityId: created.id,
+        after: {
+          orderId: order.id,
+          provider: created.provider,
+          externalOrderId: created.externalOrderId,
+          courierName: created.courierName,
+          items: parcel,
+        },
+      });
+      return created;
+    });
+    return toSummary(shipment);
+  } catch (err) {
+    if (label.externalOrderId) {
+      await carrier.cancelLabel(label.externalOrderId).catch((cancelErr) =>
+        console.error(`[fulfilment] could not void label ${label.externalOrderId}:`, cancelErr)
+      );
+    }
+    throw err;
+  }
+}
+
+/** Void a parcel's label; its items become available for a new parcel. */
+export async function cancelShipment(orderId: string, shipmentId: string, staffId: string) {
+  const shipment = await prisma.shipment.findFirst({
+    where: { id: shipmentId, orderId },
+    select: { id: true, provider: true, status: true, externalOrderId: true },
+  });
+  if (!shipment) throw new FulfilmentError("Shipment not found", 404);
+  if (!isLive(shipment)) throw new FulfilmentError("This parcel is already cancelled", 409);
+  if (shipment.status === ShipmentStatus.DELIVERED) {
+    throw new FulfilmentError("Delivered parcels cannot be cancelled", 409);
+  }
+
+  if (shipment.externalOrderId) {
+    await getCarrier(shipment.provider).cancelLabel(shipment.externalOrderId);
+  }
+
+  const now = new Date();
+  await prisma.$transaction(async (tx) => {
+    await tx.shipment.update({
+      where: { id: shipment.id },
+      data: {
+        status: ShipmentStatus.CANCELLED,
+        cancelledAt: now,
+        cancelReason: "Cancelled by staff",
+        rawCancel: { at: now.toISOString() },
+        trackingUrl: null,
+        trackingNumber: null,
+      },
+    });
+    await recordAudit(tx, {
+      staffId,
+      action: "StatusChange",
+      entityType: "Shipment",
+      entityId: shipment.id,
+      before: { status: shipment.status },
+      after: { status: ShipmentStatus.CANCELLED },
+    });
+    await syncOrderFulfilmentStatus(tx, orderId);
+  });
+}
+
+/**
+ * Poll the carrier for every parcel still on its way and apply what it
+ * reports. Returns false when some carrier could not be reached; the stored
+ * state is then all callers get for those parcels.
+ */
+export async function refreshOrderShipments(orderId: string): Promise<boolean> {
+  const shipments = await prisma.shipment.findMany({
+    where: {
+      orderId,
+      externalOrderId: { not: null },
+      status: { notIn: [...DEAD_STATUSES, ShipmentStatus.DELIVERED] },
+    },
+    select: {
+      id: true,
+      orderId: true,
+      provider: true,
+      externalOrderId: true,
+      status: true,
+      trackingUrl: true,
+      trackingNumber: true,
+    },
+  });
+
+  const results = await Promise.all(shipments.map(refreshShipment));
+  return results.every(Boolean);
+}
+
+/** Poll one parcel; false when the carrier is unreachable. */
+async function refreshShipment(shipment: {
+  id: string;
+  orderId: string;
+  provider: Parameters<typeof getCarrier>[0];
+  externalOrderId: string | null;
+  status: ShipmentStatus;
+  trackingUrl: string | null;
+  trackingNumber: string | null;
+}): Promise<boolean> {
+  if (!shipment.externalOrderId) return true;
+
+  let remote;
+  try {
+    // One fast attempt: this runs on the admin dashboard's polling loop.
+    remote = await getCarrier(shipment.provider).track(shipment.externalOrderId, {
+      timeoutMs: 5000,
+      retry: 1,
+    });
+  } catch {
+    return false;
+  }
+  if (!remote) return true;
+
+  if (remote.status !== shipment.status || remote.trackingUrl !== shipment.trackingUrl) {
+    await prisma.shipment.update({
+      where: { id: shipment.id },
+      data: {
+        status: remote.status,
+        trackingUrl: remote.trackingUrl,
+        trackingNumber: remote.trackingNumber ?? shipment.trackingNumber ?? null,
+      },
+    });
+  }
+
+  await recordShipmentEvents(shipment.id, remote.updates, "poll");
+  if (remote.status !== shipment.status) {
+    await syncOrderFulfilmentStatus(prisma, shipment.orderId);
+  }
+  await notifyShipmentStatus(shipment.id, shipment.status, remote.status);
+  return true;
+}
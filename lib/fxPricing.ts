@@ -0,0 +1,372 @@
+// lib/fxPricing.ts
+// FX-derived USD / EUR / GBP prices from the NGN master price.
+
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { fetchOpenErLatest } from "@/lib/fxRates";
+import { recordAudit, productSnapshot, variantLabel } from "@/lib/audit";
+import type { PriceRounding, Prisma } from "@/lib/generated/prisma-client/client";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class FxPricingError extends HttpError {
+  name = "FxPricingError";
+}
+
+export const PRICE_ROUNDINGS = ["None", "Whole", "NinetyNine", "NearestFive"] as const satisfies readonly PriceRounding[];
+
+/** Currencies derived from NGN. */
+export const DERIVED_CURRENCIES = ["USD", "EUR", "GBP"] as const;
+type DerivedCurrency = (typeof DERIVED_CURRENCIES)[number];
+
+/** Units of each currency per 1 NGN. */
+export type NgnRates = Record<DerivedCurrency, number>;
+
+/** Rule for one product (ProductForm "FX pricing"). */
+export const PricingRuleInput = z.object({
+  enabled: z.boolean(),
+  markupPercent: z
+    .number()
+    .min(-90, "Markup must be at least -90%")
+    .max(1000, "Markup must be at most 1000%"),
+  rounding: z.enum(PRICE_ROUNDINGS),
+});
+
+/** Store-wide rule; autoReprice lets the scheduled job apply it. */
+export const StorePricingRuleInput = PricingRuleInput.extend({
+  autoReprice: z.boolean(),
+});
+
+export type PricingRuleData = z.infer<typeof PricingRuleInput>;
+export type StorePricingRuleData = z.infer<typeof StorePricingRuleInput>;
+
+type PriceField = "price" | "compareAt";
+
+export interface RepriceChange {
+  variantId: string | null;
+  /** "color / size" for variant overrides, null for the product price. */
+  variant: string | null;
+  field: PriceField;
+  currency: DerivedCurrency;
+  oldPrice: number | null;
+  newPrice: number | null;
+}
+
+export interface RepriceProduct {
+  id: string;
+  name: string;
+  rule: "product" | "store";
+  changes: RepriceChange[];
+}
+
+export interface RepricePreview {
+  rates: NgnRates;
+  products: RepriceProduct[];
+  /** Auto-priced products already at their derived prices. */
+  unchanged: number;
+}
+
+const DEFAULT_STORE_RULE: StorePricingRuleData = {
+  enabled: false,
+  markupPercent: 0,
+  rounding: "None",
+  autoReprice: false,
+};
+
+const PRICING_SELECT = {
+  id: true,
+  name: true,
+  priceNGN: true,
+  priceUSD: true,
+  priceEUR: true,
+  priceGBP: true,
+  compareAtNGN: true,
+  compareAtUSD: true,
+  compareAtEUR: true,
+  compareAtGBP: true,
+  pricingRule: { select: { enabled: true, markupPercent: true, rounding: true } },
+  variants: {
+    select: {
+      id: true,
+      color: true,
+      size: true,
+      priceNGN: true,
+      priceUSD: true,
+      priceEUR: true,
+      priceGBP: true,
+      compareAtNGN: true,
+      compareAtUSD: true,
+      compareAtEUR: true,
+      compareAtGBP: true,
+    },
+    orderBy: [{ color: "asc" }, { size: "asc" }],
+  },
+} satisfies Prisma.ProductSelect;
+
+type PricedRow = {
+  [K in `${PriceField}${"NGN" | DerivedCurrency}`]: number | null;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Apply a psychological rounding to a converted amount. */
+export function roundPrice(amount: number, rounding: PriceRounding): number {
+  switch (rounding) {
+    case "Whole":
+      return Math.max(1, Math.round(amount));
+    case "NinetyNine":
+      return round2(Math.ceil(round2(amount) + 0.01) - 0.01);
+    case "NearestFive":
+      return Math.max(5, Math.round(amount / 5) * 5);
+    default:
+      return round2(amount);
+  }
+}
+
+/** NGN amount → `currency` under `rule`; null stays null. */
+export function derivePrice(
+  ngn: number | null,
+  rate: number,
+  rule: Pick<PricingRuleData, "markupPercent" | "rounding">
+): number | null {
+  if (ngn == null) return null;
+  return roundPrice(ngn * rate * (1 + rule.markupPercent / 100), rule.rounding);
+}
+
+const samePrice = (a: number | null, b: number | null) =>
+  a == null || b == null ? a === b : Math.abs(a - b) < 0.005;
+
+/** Changes needed to bring one row (product or variant) in line with NGN. */
+function rowChanges(
+  row: PricedRow,
+  rates: NgnRates,
+  rule: PricingRuleData,
+  opts: { keepBlankPrice: boolean }
+): Omit<RepriceChange, "variantId" | "variant">[] {
+  const out: Omit<RepriceChange, "variantId" | "variant">[] = [];
+  for (const field of ["price", "compareAt"] as const) {
+    const ngn = row[`${field}NGN`];
+    // A product without an NGN price is left for the editor to fix
+    if (field === "price" && ngn == null && opts.keepBlankPrice) continue;
+    for (const currency of DERIVED_CURRENCIES) {
+      const oldPrice = row[`${field}${currency}`];
+      const newPrice = derivePrice(ngn, rates[currency], rule);
+      if (!samePrice(oldPrice, newPrice)) out.push({ field, currency, oldPrice, newPrice });
+    }
+  }
+  return out;
+}
+
+async function storeRuleRow() {
+  return prisma.pricingRule.findFirst({ where: { productId: null } });
+}
+
+/** Every auto-priced product whose derived prices differ from the stored ones. */
+async function buildPlan(rates: NgnRates): Promise<RepricePreview> {
+  const store = await storeRuleRow();
+  const products = await prisma.product.findMany({
+    where: store?.enabled
+      ? { OR: [{ pricingRule: null }, { pricingRule: { enabled: true } }] }
+      : { pricingRule: { enabled: true } },
+    select: PRICING_SELECT,
+    orderBy: { name: "asc" },
+  });
+
+  const planned: RepriceProduct[] = [];
+  for (const p of products) {
+    const rule = p.pricingRule ?? store!;
+    const changes: RepriceChange[] = [
+      ...rowChanges(p, rates, rule, { keepBlankPrice: true }).map((c) => ({
+        ...c,
+        variantId: null,
+        variant: null,
+      })),
+      ...p.variants.flatMap((v) =>
+        rowChanges(v, rates, rule, { keepBlankPrice: false }).map((c) => ({
+          ...c,
+          variantId: v.id,
+          variant: variantLabel(v),
+        }))
+      ),
+    ];
+    if (changes.length > 0) {
+      planned.push({ id: p.id, name: p.name, rule: p.pricingRule ? "product" : "store", changes });
+    }
+  }
+
+  return { rates, products: planned, unchanged: products.length - planned.length };
+}
+
+/** Column updates for the changes on one row. */
+function changeData(changes: RepriceChange[]) {
+  return Object.fromEntries(changes.map((c) => [`${c.field}${c.currency}`, c.newPrice]));
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Live NGN → USD / EUR / GBP rates. */
+export async function loadNgnRates(): Promise<NgnRates> {
+  const data = await fetchOpenErLatest("NGN").catch(() => null);
+  const rates = {} as NgnRates;
+  for (const c of DERIVED_CURRENCIES) {
+    const rate = data?.rates?.[c];
+    if (rate == null || !Number.isFinite(rate) || rate <= 0) {
+      throw new FxPricingError("Exchange rates are unavailable right now", 503);
+    }
+    rates[c] = rate;
+  }
+  return rates;
+}
+
+/** The store-wide rule (defaults when never saved). */
+export async function getStorePricingRule(): Promise<StorePricingRuleData> {
+  const row = await storeRuleRow();
+  if (!row) return DEFAULT_STORE_RULE;
+  const { enabled, markupPercent, rounding, autoReprice } = row;
+  return { enabled, markupPercent, rounding, autoReprice };
+}
+
+/** Save the store-wide rule (audited). */
+export async function saveStorePricingRule(input: StorePricingRuleData, staffId: string) {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.pricingRule.findFirst({ where: { productId: null } });
+    const saved = existing
+      ? await tx.pricingRule.update({ where: { id: existing.id }, data: input })
+      : await tx.pricingRule.create({ data: { ...input, productId: null } });
+    await recordAudit(tx, {
+      staffId,
+      action: existing ? "Update" : "Create",
+      entityType: "PricingRule",
+      entityId: saved.id,
+      before: existing,
+      after: saved,
+    });
+    const { enabled, markupPercent, rounding, autoReprice } = saved;
+    return { enabled, markupPercent, rounding, autoReprice };
+  });
+}
+
+/** Set (or, with null, remove so the store rule applies) one product's rule. */
+export async function saveProductPricingRule(
+  db: Prisma.TransactionClient,
+  productId: string,
+  input: PricingRuleData | null
+) {
+  if (!input) {
+    await db.pricingRule.deleteMany({ where: { productId } });
+    return;
+  }
+  await db.pricingRule.upsert({
+    where: { productId },
+    create: { ...input, productId },
+    update: input,
+  });
+}
+
+/** Preview: what re-pricing at today's rates would change. */
+export async function planReprice(): Promise<RepricePreview> {
+  return buildPlan(await loadNgnRates());
+}
+
+/**
+ * Re-plan with fresh rates and write it. `scheduled` runs (cron) skip unless
+ * the store-wide rule has autoReprice on. Returns the run id (null when
+ * nothing changed or the run was skipped).
+ */
+export async function applyReprice(opts: { staffId: string | null; scheduled?: boolean }) {
+  const scheduled = !!opts.scheduled;
+  if (scheduled && !(await getStorePricingRule()).autoReprice) {
+    return { runId: null, products: 0, changes: 0, skipped: true };
+  }
+
+  const plan = await buildPlan(await loadNgnRates());
+  if (plan.products.length === 0) {
+    return { runId: null, products: 0, changes: 0, skipped: false };
+  }
+
+  const run = await prisma.repriceRun.create({
+    data: { staffId: opts.staffId, scheduled, rates: plan.rates },
+    select: { id: true },
+  });
+
+  let products = 0;
+  let changes = 0;
+  for (const p of plan.products) {
+    await prisma.$transaction(async (tx) => {
+      const before = await productSnapshot(tx, p.id);
+
+      const productChanges = p.changes.filter((c) => !c.variantId);
+      if (productChanges.length > 0) {
+        await tx.product.update({ where: { id: p.id }, data: changeData(productChanges) });
+      }
+      const byVariant = new Map<string, RepriceChange[]>();
+      for (const c of p.changes) {
+        if (c.variantId) byVariant.set(c.variantId, [...(byVariant.get(c.variantId) ?? []), c]);
+      }
+      for (const [variantId, vc] of byVariant) {
+        await tx.variant.update({ where: { id: variantId }, data: changeData(vc) });
+      }
+
+      await tx.priceChange.createMany({
+        data: p.changes.map((c) => ({
+          runId: run.id,
+          productId: p.id,
+          variantId: c.variantId,
+          field: c.field,
+          currency: c.currency,
+          oldPrice: c.oldPrice,
+          newPrice: c.newPrice,
+        })),
+      });
+
+      await recordAudit(tx, {
+        staffId: opts.staffId,
+        action: "Update",
+        entityType: "Product",
+        entityId: p.id,
+        before,
+        after: await productSnapshot(tx, p.id),
+      });
+    });
+    products++;
+    changes += p.changes.length;
+  }
+
+  await prisma.repriceRun.update({ where: { id: run.id }, data: { productCount: products } });
+  return { runId: run.id, products, changes, skipped: false };
+}
+
+/** Recent re-price runs, newest first. */
+export async function listRepriceRuns(limit = 20) {
+  const runs = await prisma.repriceRun.findMany({
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    select: {
+      id: true,
+      createdAt: true,
+      scheduled: true,
+      rates: true,
+      productCount: true,
+      staff: { select: { firstName: true, lastName: true } },
+      _count: { select: { changes: true } },
+    },
+  });
+  return runs.map((r) => ({
+    id: r.id,
+    createdAt: r.createdAt.toISOString(),
+    scheduled: r.scheduled,
+    rates: r.rates as NgnRates,
+    productCount: r.productCount,
+    changeCount: r._count.changes,
+    staffName: r.staff ? `${r.staff.firstName} ${r.staff.lastName}`.trim() : null,
+  }));
+}
@@ -0,0 +1,177 @@
+// lib/fxRates.ts
+// Exchange rates from open.er-api.com, kept as FxRateSnapshot rows so conversions can be reproduced.
+
+import { prisma } from "@/lib/db";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export type OpenERApi = {
+  result: "success" | "error";
+  time_last_update_unix: number;
+  time_next_update_unix: number;
+  base_code: string;
+  rates: Record<string, number>;
+};
+
+export type FxLatest = OpenERApi & {
+  /** FxRateSnapshot these rates were stored as (null if the write failed). */
+  snapshotId: string | null;
+  /** True when served from a fallback because the provider failed. */
+  stale: boolean;
+};
+
+export const FX_SOURCE = "open.er-api.com";
+
+// Simple in-memory cache (per base)
+const mem = new Map<string, { at: number; ttl: number; data: FxLatest }>();
+
+// 30 minutes default; clamp to provider's nextUpdate
+const DEFAULT_TTL = 30 * 60 * 1000;
+
+// How long a fallback answer is reused before the provider is tried again
+const FALLBACK_TTL = 5 * 60 * 1000;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+async function recordSnapshot(data: OpenERApi): Promise<string> {
+  const row = await prisma.fxRateSnapshot.create({
+    data: {
+      base: data.base_code.toUpperCase(),
+      rates: data.rates,
+      source: FX_SOURCE,
+      providerUpdatedAt: new Date(data.time_last_update_unix * 1000),
+    },
+    select: { id: true },
+  });
+  return row.id;
+}
+
+/** Last stored rates for `base`, re-based from another base when needed. */
+async function snapshotFallback(base: string): Promise<FxLatest | null> {
+  const own = await prisma.fxRateSnapshot.findFirst({
+    where: { base },
+    orderBy: { fetchedAt: "desc" },
+  });
+  const candidates = own
+    ? [own]
+    : await prisma.fxRateSnapshot.findMany({ orderBy: { fetchedAt: "desc" }, take: 10 });
+
+  for (const snap of candidates) {
+    const stored = snap.rates as Record<string, number>;
+    const pivot = snap.base === base ? 1 : stored[base];
+    if (!pivot || !Number.isFinite(pivot)) continue;
+    const rates: Record<string, number> = {};
+    for (const [code, rate] of Object.entries(stored)) rates[code] = rate / pivot;
+    rates[base] = 1;
+    const updated = Math.floor(snap.providerUpdatedAt.getTime() / 1000);
+    return {
+      result: "success",
+      time_last_update_unix: updated,
+      time_next_update_unix: updated,
+      base_code: base,
+      rates,
+      snapshotId: snap.id,
+      stale: true,
+    };
+  }
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Latest rates for `base` (1 base = X target), cached, snapshotted, with fallback. */
+export async function fetchOpenErLatest(base: string): Promise<FxLatest> {
+  const code = base.toUpperCase();
+  const key = `latest:${code}`;
+  const now = Date.now();
+
+  const hit = mem.get(key);
+  if (hit && now - hit.at < hit.ttl) {
+    return hit.data;
+  }
+
+  const fallback = async (reason: string): Promise<FxLatest> => {
+    // serve stale if we have it, else the last stored rates
+    const stored = hit ? { ...hit.data, stale: true } : await snapshotFallback(code);
+    if (!stored) throw new Error(reason);
+    mem.set(key, { at: now, ttl: FALLBACK_TTL, data: stored });
+    return stored;
+  };
+
+  const url = `https://open.er-api.com/v6/latest/${encodeURIComponent(code)}`;
+  const res = await fetch(url, { cache: "no-store", next: { revalidate: 0 } }).catch(() => null);
+  if (!res?.ok) return fallback(`${FX_SOURCE} ${res?.status ?? "unreachable"}`);
+
+  const json = (await res.json().catch(() => null)) as OpenERApi | null;
+  if (json?.result !== "success") return fallback("FX provider returned error");
+
+  const providerNext = Math.max(0, json.time_next_update_unix * 1000 - now);
+  const ttl = Math.min(DEFAULT_TTL, providerNext || DEFAULT_TTL);
+
+  const data: FxLatest = { ...json, snapshotId: await recordSnapshot(json), stale: false };
+  mem.set(key, { at: now, ttl, data });
+  return data;
+}
+
+/** 1 unit of `currency` in NGN, with the snapshot it came from (NGN → 1, none). */
+export async function rateToNGN(currency: string): Promise<{ rate: number; snapshotId: string | null }> {
+  if (currency.toUpperCase() === "NGN") return { rate: 1, snapshotId: null };
+  const data = await fetchOpenErLatest(currency);
+  const rate = data.rates?.NGN;
+  if (rate == null || !Number.isFinite(rate)) {
+    throw new Error(`Currency conversion ${currency}→NGN is unavailable`);
+  }
+  return { rate, snapshotId: data.snapshotId };
+}
+
+export interface FxSnapshotFilters {
+  base?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export function parseFxSnapshotFilters(q: Record<string, string | undefined>): FxSnapshotFilters {
+  const date = (v?: string, endOfDay = false) => {
+    if (!v) return undefined;
+    const d = new Date(/^\d{4}-\d{2}-\d{2}$/.test(v) && endOfDay ? `${v}T23:59:59.999Z` : v);
+    return Number.isNaN(d.getTime()) ? undefined : d;
+  };
+  return {
+    base: /^[A-Za-z]{3}$/.test(q.base ?? "") ? q.base!.toUpperCase() : undefined,
+    from: date(q.from),
+    to: date(q.to, true),
+  };
+}
+
+/** Stored snapshots, newest first, with how many orders used each. */
+export async function listFxSnapshots(
+  filters: FxSnapshotFilters,
+  opts: { page?: number; pageSize?: number } = {}
+) {
+  const pageSize = Math.min(Math.max(opts.pageSize ?? 50, 1), 200);
+  const page = Math.max(opts.page ?? 1, 1);
+  const where = {
+    ...(filters.base && { base: filters.base.toUpperCase() }),
+    ...((filters.from || filters.to) && {
+      fetchedAt: { ...(filters.from && { gte: filters.from }), ...(filters.to && { lte: filters.to }) },
+    }),
+  };
+
+  const [total, rows] = await Promise.all([
+    prisma.fxRateSnapshot.count({ where }),
+    prisma.fxRateSnapshot.findMany({
+      where,
+      orderBy: { fetchedAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      include: { _count: { select: { orders: true } } },
+    }),
+  ]);
+  return { total, page, pageSize, rows };
+}
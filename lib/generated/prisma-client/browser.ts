@@ -52,6 +52,16 @@ export type Review = Prisma.ReviewModel
  * 
  */
 export type DeliveryOption = Prisma.DeliveryOptionModel
+/**
+ * Model ShippingZone
+ * 
+ */
+export type ShippingZone = Prisma.ShippingZoneModel
+/**
+ * Model ShippingWeightBand
+ * 
+ */
+export type ShippingWeightBand = Prisma.ShippingWeightBandModel
 /**
  * Model Order
  * 
@@ -62,6 +72,16 @@ export type Order = Prisma.OrderModel
  * 
  */
 export type OrderItem = Prisma.OrderItemModel
+/**
+ * Model OrderRefund
+ * 
+ */
+export type OrderRefund = Prisma.OrderRefundModel
+/**
+ * Model OrderRefundItem
+ * 
+ */
+export type OrderRefundItem = Prisma.OrderRefundItemModel
 /**
  * Model OfflineSale
  * 
@@ -72,6 +92,21 @@ export type OfflineSale = Prisma.OfflineSaleModel
  * 
  */
 export type WishlistItem = Prisma.WishlistItemModel
+/**
+ * Model Cart
+ * 
+ */
+export type Cart = Prisma.CartModel
+/**
+ * Model CartItem
+ * 
+ */
+export type CartItem = Prisma.CartItemModel
+/**
+ * Model AbandonedCart
+ * 
+ */
+export type AbandonedCart = Prisma.AbandonedCartModel
 /**
  * Model ReceiptEmailStatus
  * 
@@ -87,6 +122,41 @@ export type WebhookEvent = Prisma.WebhookEventModel
  * 
  */
 export type OrphanPayment = Prisma.OrphanPaymentModel
+/**
+ * Model StockReservation
+ * 
+ */
+export type StockReservation = Prisma.StockReservationModel
+/**
+ * Model InventoryMovement
+ * 
+ */
+export type InventoryMovement = Prisma.InventoryMovementModel
+/**
+ * Model StockNotification
+ * 
+ */
+export type StockNotification = Prisma.StockNotificationModel
+/**
+ * Model LaunchNotification
+ * 
+ */
+export type LaunchNotification = Prisma.LaunchNotificationModel
+/**
+ * Model AuditLog
+ * 
+ */
+export type AuditLog = Prisma.AuditLogModel
+/**
+ * Model ReturnRequest
+ * 
+ */
+export type ReturnRequest = Prisma.ReturnRequestModel
+/**
+ * Model ReturnRequestItem
+ * 
+ */
+export type ReturnRequestItem = Prisma.ReturnRequestItemModel
 /**
  * Model HeroSlide
  * 
@@ -102,11 +172,61 @@ export type SizeChart = Prisma.SizeChartModel
  * 
  */
 export type SizeChartRow = Prisma.SizeChartRowModel
+/**
+ * Model Promotion
+ * 
+ */
+export type Promotion = Prisma.PromotionModel
+/**
+ * Model PromotionRedemption
+ * 
+ */
+export type PromotionRedemption = Prisma.PromotionRedemptionModel
+/**
+ * Model PricingRule
+ * 
+ */
+export type PricingRule = Prisma.PricingRuleModel
+/**
+ * Model RepriceRun
+ * 
+ */
+export type RepriceRun = Prisma.RepriceRunModel
+/**
+ * Model PriceChange
+ * 
+ */
+export type PriceChange = Prisma.PriceChangeModel
 /**
  * Model Shipment
  * 
  */
 export type Shipment = Prisma.ShipmentModel
+/**
+ * Model ShipmentItem
+ * 
+ */
+export type ShipmentItem = Prisma.ShipmentItemModel
+/**
+ * Model PickupLocation
+ * 
+ */
+export type PickupLocation = Prisma.PickupLocationModel
+/**
+ * Model OrderPickup
+ * 
+ */
+export type OrderPickup = Prisma.OrderPickupModel
+/**
+ * Model ShipmentEvent
+ * 
+ */
+export type ShipmentEvent = Prisma.ShipmentEventModel
+/**
+ * Model FxRateSnapshot
+ * 
+ */
+export type FxRateSnapshot = Prisma.FxRateSnapshotModel
 /**
  * Model ProductSerial
  * 
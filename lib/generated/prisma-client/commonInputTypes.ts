@@ -263,6 +263,40 @@ export type FloatWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
+export type IntNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableFilter<$PrismaModel> | number | null
+}
+
+export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+}
+
+export type EnumShipmentProviderNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.ShipmentProvider | Prisma.EnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumShipmentProviderNullableFilter<$PrismaModel> | $Enums.ShipmentProvider | null
+}
+
 export type EnumDeliveryPricingModeFilter<$PrismaModel = never> = {
   equals?: $Enums.DeliveryPricingMode | Prisma.EnumDeliveryPricingModeFieldRefInput<$PrismaModel>
   in?: $Enums.DeliveryPricingMode[] | Prisma.ListEnumDeliveryPricingModeFieldRefInput<$PrismaModel>
@@ -301,6 +335,16 @@ export type JsonNullableFilterBase<$PrismaModel = never> = {
   not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
 }
 
+export type EnumShipmentProviderNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ShipmentProvider | Prisma.EnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumShipmentProviderNullableWithAggregatesFilter<$PrismaModel> | $Enums.ShipmentProvider | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumShipmentProviderNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumShipmentProviderNullableFilter<$PrismaModel>
+}
+
 export type EnumDeliveryPricingModeWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.DeliveryPricingMode | Prisma.EnumDeliveryPricingModeFieldRefInput<$PrismaModel>
   in?: $Enums.DeliveryPricingMode[] | Prisma.ListEnumDeliveryPricingModeFieldRefInput<$PrismaModel>
@@ -416,6 +460,23 @@ export type EnumRefundStatusNullableWithAggregatesFilter<$PrismaModel = never> =
   _max?: Prisma.NestedEnumRefundStatusNullableFilter<$PrismaModel>
 }
 
+export type EnumRefundStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.RefundStatus | Prisma.EnumRefundStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel> | $Enums.RefundStatus
+}
+
+export type EnumRefundStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RefundStatus | Prisma.EnumRefundStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRefundStatusWithAggregatesFilter<$PrismaModel> | $Enums.RefundStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel>
+}
+
 export type JsonFilter<$PrismaModel = never> =
 | Prisma.PatchUndefined<
     Prisma.Either<Required<JsonFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonFilterBase<$PrismaModel>>, 'path'>>,
@@ -440,6 +501,13 @@ export type JsonFilterBase<$PrismaModel = never> = {
   not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
 }
 
+export type EnumAbandonedCartStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AbandonedCartStatus | Prisma.EnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AbandonedCartStatus[] | Prisma.ListEnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AbandonedCartStatus[] | Prisma.ListEnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAbandonedCartStatusFilter<$PrismaModel> | $Enums.AbandonedCartStatus
+}
+
 export type JsonWithAggregatesFilter<$PrismaModel = never> =
 | Prisma.PatchUndefined<
     Prisma.Either<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
@@ -467,6 +535,135 @@ export type JsonWithAggregatesFilterBase<$PrismaModel = never> = {
   _max?: Prisma.NestedJsonFilter<$PrismaModel>
 }
 
+export type EnumAbandonedCartStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AbandonedCartStatus | Prisma.EnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AbandonedCartStatus[] | Prisma.ListEnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AbandonedCartStatus[] | Prisma.ListEnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAbandonedCartStatusWithAggregatesFilter<$PrismaModel> | $Enums.AbandonedCartStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAbandonedCartStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAbandonedCartStatusFilter<$PrismaModel>
+}
+
+export type EnumReservationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReservationStatus | Prisma.EnumReservationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ReservationStatus[] | Prisma.ListEnumReservationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReservationStatus[] | Prisma.ListEnumReservationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReservationStatusFilter<$PrismaModel> | $Enums.ReservationStatus
+}
+
+export type EnumReservationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReservationStatus | Prisma.EnumReservationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ReservationStatus[] | Prisma.ListEnumReservationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReservationStatus[] | Prisma.ListEnumReservationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReservationStatusWithAggregatesFilter<$PrismaModel> | $Enums.ReservationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumReservationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumReservationStatusFilter<$PrismaModel>
+}
+
+export type EnumInventoryReasonFilter<$PrismaModel = never> = {
+  equals?: $Enums.InventoryReason | Prisma.EnumInventoryReasonFieldRefInput<$PrismaModel>
+  in?: $Enums.InventoryReason[] | Prisma.ListEnumInventoryReasonFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InventoryReason[] | Prisma.ListEnumInventoryReasonFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInventoryReasonFilter<$PrismaModel> | $Enums.InventoryReason
+}
+
+export type EnumInventoryReasonWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InventoryReason | Prisma.EnumInventoryReasonFieldRefInput<$PrismaModel>
+  in?: $Enums.InventoryReason[] | Prisma.ListEnumInventoryReasonFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InventoryReason[] | Prisma.ListEnumInventoryReasonFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInventoryReasonWithAggregatesFilter<$PrismaModel> | $Enums.InventoryReason
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInventoryReasonFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInventoryReasonFilter<$PrismaModel>
+}
+
+export type EnumAuditActionFilter<$PrismaModel = never> = {
+  equals?: $Enums.AuditAction | Prisma.EnumAuditActionFieldRefInput<$PrismaModel>
+  in?: $Enums.AuditAction[] | Prisma.ListEnumAuditActionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AuditAction[] | Prisma.ListEnumAuditActionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAuditActionFilter<$PrismaModel> | $Enums.AuditAction
+}
+
+export type EnumAuditActionWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AuditAction | Prisma.EnumAuditActionFieldRefInput<$PrismaModel>
+  in?: $Enums.AuditAction[] | Prisma.ListEnumAuditActionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AuditAction[] | Prisma.ListEnumAuditActionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAuditActionWithAggregatesFilter<$PrismaModel> | $Enums.AuditAction
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAuditActionFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAuditActionFilter<$PrismaModel>
+}
+
+export type EnumReturnStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReturnStatus | Prisma.EnumReturnStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ReturnStatus[] | Prisma.ListEnumReturnStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReturnStatus[] | Prisma.ListEnumReturnStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReturnStatusFilter<$PrismaModel> | $Enums.ReturnStatus
+}
+
+export type EnumReturnStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReturnStatus | Prisma.EnumReturnStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ReturnStatus[] | Prisma.ListEnumReturnStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReturnStatus[] | Prisma.ListEnumReturnStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReturnStatusWithAggregatesFilter<$PrismaModel> | $Enums.ReturnStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumReturnStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumReturnStatusFilter<$PrismaModel>
+}
+
+export type EnumReturnTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReturnType | Prisma.EnumReturnTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.ReturnType[] | Prisma.ListEnumReturnTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReturnType[] | Prisma.ListEnumReturnTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReturnTypeFilter<$PrismaModel> | $Enums.ReturnType
+}
+
+export type EnumReturnTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReturnType | Prisma.EnumReturnTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.ReturnType[] | Prisma.ListEnumReturnTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReturnType[] | Prisma.ListEnumReturnTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReturnTypeWithAggregatesFilter<$PrismaModel> | $Enums.ReturnType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumReturnTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumReturnTypeFilter<$PrismaModel>
+}
+
+export type EnumPromotionTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.PromotionType | Prisma.EnumPromotionTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PromotionType[] | Prisma.ListEnumPromotionTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PromotionType[] | Prisma.ListEnumPromotionTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPromotionTypeFilter<$PrismaModel> | $Enums.PromotionType
+}
+
+export type EnumPromotionTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PromotionType | Prisma.EnumPromotionTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PromotionType[] | Prisma.ListEnumPromotionTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PromotionType[] | Prisma.ListEnumPromotionTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPromotionTypeWithAggregatesFilter<$PrismaModel> | $Enums.PromotionType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPromotionTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPromotionTypeFilter<$PrismaModel>
+}
+
+export type EnumPriceRoundingFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceRounding | Prisma.EnumPriceRoundingFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceRounding[] | Prisma.ListEnumPriceRoundingFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceRounding[] | Prisma.ListEnumPriceRoundingFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceRoundingFilter<$PrismaModel> | $Enums.PriceRounding
+}
+
+export type EnumPriceRoundingWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceRounding | Prisma.EnumPriceRoundingFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceRounding[] | Prisma.ListEnumPriceRoundingFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceRounding[] | Prisma.ListEnumPriceRoundingFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceRoundingWithAggregatesFilter<$PrismaModel> | $Enums.PriceRounding
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPriceRoundingFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPriceRoundingFilter<$PrismaModel>
+}
+
 export type EnumShipmentProviderFilter<$PrismaModel = never> = {
   equals?: $Enums.ShipmentProvider | Prisma.EnumShipmentProviderFieldRefInput<$PrismaModel>
   in?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel>
@@ -481,17 +678,6 @@ export type EnumShipmentStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumShipmentStatusFilter<$PrismaModel> | $Enums.ShipmentStatus
 }
 
-export type IntNullableFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntNullableFilter<$PrismaModel> | number | null
-}
-
 export type BoolNullableFilter<$PrismaModel = never> = {
   equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel> | null
   not?: Prisma.NestedBoolNullableFilter<$PrismaModel> | boolean | null
@@ -517,22 +703,6 @@ export type EnumShipmentStatusWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumShipmentStatusFilter<$PrismaModel>
 }
 
-export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
-  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
-  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
-}
-
 export type BoolNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel> | null
   not?: Prisma.NestedBoolNullableWithAggregatesFilter<$PrismaModel> | boolean | null
@@ -819,6 +989,29 @@ export type NestedFloatWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
+export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumShipmentProviderNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.ShipmentProvider | Prisma.EnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumShipmentProviderNullableFilter<$PrismaModel> | $Enums.ShipmentProvider | null
+}
+
 export type NestedEnumDeliveryPricingModeFilter<$PrismaModel = never> = {
   equals?: $Enums.DeliveryPricingMode | Prisma.EnumDeliveryPricingModeFieldRefInput<$PrismaModel>
   in?: $Enums.DeliveryPricingMode[] | Prisma.ListEnumDeliveryPricingModeFieldRefInput<$PrismaModel>
@@ -833,6 +1026,16 @@ export type NestedEnumCurrencyNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumCurrencyNullableFilter<$PrismaModel> | $Enums.Currency | null
 }
 
+export type NestedEnumShipmentProviderNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ShipmentProvider | Prisma.EnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumShipmentProviderNullableWithAggregatesFilter<$PrismaModel> | $Enums.ShipmentProvider | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumShipmentProviderNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumShipmentProviderNullableFilter<$PrismaModel>
+}
+
 export type NestedEnumDeliveryPricingModeWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.DeliveryPricingMode | Prisma.EnumDeliveryPricingModeFieldRefInput<$PrismaModel>
   in?: $Enums.DeliveryPricingMode[] | Prisma.ListEnumDeliveryPricingModeFieldRefInput<$PrismaModel>
@@ -945,6 +1148,30 @@ export type NestedEnumRefundStatusNullableWithAggregatesFilter<$PrismaModel = ne
   _max?: Prisma.NestedEnumRefundStatusNullableFilter<$PrismaModel>
 }
 
+export type NestedEnumRefundStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.RefundStatus | Prisma.EnumRefundStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel> | $Enums.RefundStatus
+}
+
+export type NestedEnumRefundStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RefundStatus | Prisma.EnumRefundStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRefundStatusWithAggregatesFilter<$PrismaModel> | $Enums.RefundStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumAbandonedCartStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AbandonedCartStatus | Prisma.EnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AbandonedCartStatus[] | Prisma.ListEnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AbandonedCartStatus[] | Prisma.ListEnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAbandonedCartStatusFilter<$PrismaModel> | $Enums.AbandonedCartStatus
+}
+
 export type NestedJsonFilter<$PrismaModel = never> =
 | Prisma.PatchUndefined<
     Prisma.Either<Required<NestedJsonFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>,
@@ -969,6 +1196,135 @@ export type NestedJsonFilterBase<$PrismaModel = never> = {
   not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
 }
 
+export type NestedEnumAbandonedCartStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AbandonedCartStatus | Prisma.EnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AbandonedCartStatus[] | Prisma.ListEnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AbandonedCartStatus[] | Prisma.ListEnumAbandonedCartStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAbandonedCartStatusWithAggregatesFilter<$PrismaModel> | $Enums.AbandonedCartStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAbandonedCartStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAbandonedCartStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumReservationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReservationStatus | Prisma.EnumReservationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ReservationStatus[] | Prisma.ListEnumReservationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReservationStatus[] | Prisma.ListEnumReservationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReservationStatusFilter<$PrismaModel> | $Enums.ReservationStatus
+}
+
+export type NestedEnumReservationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReservationStatus | Prisma.EnumReservationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ReservationStatus[] | Prisma.ListEnumReservationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReservationStatus[] | Prisma.ListEnumReservationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReservationStatusWithAggregatesFilter<$PrismaModel> | $Enums.ReservationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumReservationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumReservationStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumInventoryReasonFilter<$PrismaModel = never> = {
+  equals?: $Enums.InventoryReason | Prisma.EnumInventoryReasonFieldRefInput<$PrismaModel>
+  in?: $Enums.InventoryReason[] | Prisma.ListEnumInventoryReasonFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InventoryReason[] | Prisma.ListEnumInventoryReasonFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInventoryReasonFilter<$PrismaModel> | $Enums.InventoryReason
+}
+
+export type NestedEnumInventoryReasonWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InventoryReason | Prisma.EnumInventoryReasonFieldRefInput<$PrismaModel>
+  in?: $Enums.InventoryReason[] | Prisma.ListEnumInventoryReasonFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InventoryReason[] | Prisma.ListEnumInventoryReasonFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInventoryReasonWithAggregatesFilter<$PrismaModel> | $Enums.InventoryReason
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInventoryReasonFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInventoryReasonFilter<$PrismaModel>
+}
+
+export type NestedEnumAuditActionFilter<$PrismaModel = never> = {
+  equals?: $Enums.AuditAction | Prisma.EnumAuditActionFieldRefInput<$PrismaModel>
+  in?: $Enums.AuditAction[] | Prisma.ListEnumAuditActionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AuditAction[] | Prisma.ListEnumAuditActionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAuditActionFilter<$PrismaModel> | $Enums.AuditAction
+}
+
+export type NestedEnumAuditActionWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AuditAction | Prisma.EnumAuditActionFieldRefInput<$PrismaModel>
+  in?: $Enums.AuditAction[] | Prisma.ListEnumAuditActionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AuditAction[] | Prisma.ListEnumAuditActionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAuditActionWithAggregatesFilter<$PrismaModel> | $Enums.AuditAction
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAuditActionFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAuditActionFilter<$PrismaModel>
+}
+
+export type NestedEnumReturnStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReturnStatus | Prisma.EnumReturnStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ReturnStatus[] | Prisma.ListEnumReturnStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReturnStatus[] | Prisma.ListEnumReturnStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReturnStatusFilter<$PrismaModel> | $Enums.ReturnStatus
+}
+
+export type NestedEnumReturnStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReturnStatus | Prisma.EnumReturnStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ReturnStatus[] | Prisma.ListEnumReturnStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReturnStatus[] | Prisma.ListEnumReturnStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReturnStatusWithAggregatesFilter<$PrismaModel> | $Enums.ReturnStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumReturnStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumReturnStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumReturnTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReturnType | Prisma.EnumReturnTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.ReturnType[] | Prisma.ListEnumReturnTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReturnType[] | Prisma.ListEnumReturnTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReturnTypeFilter<$PrismaModel> | $Enums.ReturnType
+}
+
+export type NestedEnumReturnTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReturnType | Prisma.EnumReturnTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.ReturnType[] | Prisma.ListEnumReturnTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ReturnType[] | Prisma.ListEnumReturnTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumReturnTypeWithAggregatesFilter<$PrismaModel> | $Enums.ReturnType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumReturnTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumReturnTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumPromotionTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.PromotionType | Prisma.EnumPromotionTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PromotionType[] | Prisma.ListEnumPromotionTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PromotionType[] | Prisma.ListEnumPromotionTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPromotionTypeFilter<$PrismaModel> | $Enums.PromotionType
+}
+
+export type NestedEnumPromotionTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PromotionType | Prisma.EnumPromotionTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PromotionType[] | Prisma.ListEnumPromotionTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PromotionType[] | Prisma.ListEnumPromotionTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPromotionTypeWithAggregatesFilter<$PrismaModel> | $Enums.PromotionType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPromotionTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPromotionTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumPriceRoundingFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceRounding | Prisma.EnumPriceRoundingFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceRounding[] | Prisma.ListEnumPriceRoundingFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceRounding[] | Prisma.ListEnumPriceRoundingFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceRoundingFilter<$PrismaModel> | $Enums.PriceRounding
+}
+
+export type NestedEnumPriceRoundingWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceRounding | Prisma.EnumPriceRoundingFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceRounding[] | Prisma.ListEnumPriceRoundingFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceRounding[] | Prisma.ListEnumPriceRoundingFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceRoundingWithAggregatesFilter<$PrismaModel> | $Enums.PriceRounding
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPriceRoundingFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPriceRoundingFilter<$PrismaModel>
+}
+
 export type NestedEnumShipmentProviderFilter<$PrismaModel = never> = {
   equals?: $Enums.ShipmentProvider | Prisma.EnumShipmentProviderFieldRefInput<$PrismaModel>
   in?: $Enums.ShipmentProvider[] | Prisma.ListEnumShipmentProviderFieldRefInput<$PrismaModel>
@@ -1008,22 +1364,6 @@ export type NestedEnumShipmentStatusWithAggregatesFilter<$PrismaModel = never> =
   _max?: Prisma.NestedEnumShipmentStatusFilter<$PrismaModel>
 }
 
-export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
-  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
-  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
-}
-
 export type NestedBoolNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel> | null
   not?: Prisma.NestedBoolNullableWithAggregatesFilter<$PrismaModel> | boolean | null
@@ -9,8 +9,19 @@
 * 🟢 You can import this file directly.
 */
 
+export const PromotionType = {
+  PERCENTAGE: 'PERCENTAGE',
+  FIXED_AMOUNT: 'FIXED_AMOUNT',
+  FREE_SHIPPING: 'FREE_SHIPPING',
+  BUY_X_GET_Y: 'BUY_X_GET_Y'
+} as const
+
+export type PromotionType = (typeof PromotionType)[keyof typeof PromotionType]
+
+
 export const ShipmentProvider = {
-  SHIPBUBBLE: 'SHIPBUBBLE'
+  SHIPBUBBLE: 'SHIPBUBBLE',
+  FAKE: 'FAKE'
 } as const
 
 export type ShipmentProvider = (typeof ShipmentProvider)[keyof typeof ShipmentProvider]
@@ -39,7 +50,10 @@ export type ProductStatus = (typeof ProductStatus)[keyof typeof ProductStatus]
 
 export const OrderStatus = {
   Processing: 'Processing',
+  ReadyForPickup: 'ReadyForPickup',
+  PartiallyShipped: 'PartiallyShipped',
   Shipped: 'Shipped',
+  PartiallyDelivered: 'PartiallyDelivered',
   Delivered: 'Delivered',
   Cancelled: 'Cancelled'
 } as const
@@ -96,9 +110,83 @@ export const RefundStatus = {
 export type RefundStatus = (typeof RefundStatus)[keyof typeof RefundStatus]
 
 
+export const InventoryReason = {
+  Sale: 'Sale',
+  Cancel: 'Cancel',
+  Restock: 'Restock',
+  Adjustment: 'Adjustment',
+  Return: 'Return'
+} as const
+
+export type InventoryReason = (typeof InventoryReason)[keyof typeof InventoryReason]
+
+
+export const ReservationStatus = {
+  Active: 'Active',
+  Converted: 'Converted',
+  Released: 'Released',
+  Expired: 'Expired'
+} as const
+
+export type ReservationStatus = (typeof ReservationStatus)[keyof typeof ReservationStatus]
+
+
+export const AuditAction = {
+  Create: 'Create',
+  Update: 'Update',
+  Delete: 'Delete',
+  StatusChange: 'StatusChange',
+  Resolve: 'Resolve'
+} as const
+
+export type AuditAction = (typeof AuditAction)[keyof typeof AuditAction]
+
+
+export const ReturnStatus = {
+  Requested: 'Requested',
+  Approved: 'Approved',
+  Rejected: 'Rejected',
+  LabelCreated: 'LabelCreated',
+  Received: 'Received',
+  Completed: 'Completed'
+} as const
+
+export type ReturnStatus = (typeof ReturnStatus)[keyof typeof ReturnStatus]
+
+
+export const ReturnType = {
+  Refund: 'Refund',
+  Exchange: 'Exchange'
+} as const
+
+export type ReturnType = (typeof ReturnType)[keyof typeof ReturnType]
+
+
 export const DeliveryPricingMode = {
   FIXED: 'FIXED',
-  EXTERNAL: 'EXTERNAL'
+  EXTERNAL: 'EXTERNAL',
+  PICKUP: 'PICKUP'
 } as const
 
 export type DeliveryPricingMode = (typeof DeliveryPricingMode)[keyof typeof DeliveryPricingMode]
+
+
+export const AbandonedCartStatus = {
+  Open: 'Open',
+  Converted: 'Converted',
+  Recovered: 'Recovered',
+  Unsubscribed: 'Unsubscribed',
+  Expired: 'Expired'
+} as const
+
+export type AbandonedCartStatus = (typeof AbandonedCartStatus)[keyof typeof AbandonedCartStatus]
+
+
+export const PriceRounding = {
+  None: 'None',
+  Whole: 'Whole',
+  NinetyNine: 'NinetyNine',
+  NearestFive: 'NearestFive'
+} as const
+
+export type PriceRounding = (typeof PriceRounding)[keyof typeof PriceRounding]
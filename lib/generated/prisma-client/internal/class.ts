@@ -17,10 +17,10 @@ import type * as Prisma from "./prismaNamespace"
 
 const config: runtime.GetPrismaClientConfig = {
   "previewFeatures": [],
-  "clientVersion": "7.0.0",
-  "engineVersion": "0c19ccc313cf9911a90d99d2ac2eb0280c76c513",
+  "clientVersion": "7.1.0",
+  "engineVersion": "ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider   = \"prisma-client\"\n  output     = \"../lib/generated/prisma-client\"\n  engineType = \"client\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Customer {\n  id                      String         @id @default(cuid())\n  firstName               String\n  lastName                String\n  email                   String         @unique\n  phone                   String\n  passwordHash            String?\n  deliveryAddress         String?\n  billingAddress          String?\n  country                 String?\n  state                   String?\n  registeredAt            DateTime       @default(now())\n  lastLogin               DateTime?\n  emailVerified           Boolean        @default(false)\n  verificationToken       String?\n  verificationTokenExpiry DateTime?\n  resetToken              String?\n  resetTokenExpiry        DateTime?\n  orders                  Order[]\n  reviews                 Review[]\n  wishlistItems           WishlistItem[]\n}\n\nmodel Staff {\n  id                String        @id @default(cuid())\n  firstName         String\n  middleName        String?       @default(\"\")\n  lastName          String\n  email             String        @unique\n  phone             String\n  passwordHash      String\n  jobRoles          JobRole[]     @default([])\n  access            UserRole\n  createdAt         DateTime      @default(now())\n  emailVerified     Boolean       @default(true)\n  dateOfBirth       DateTime?\n  dateOfEmployment  DateTime?     @default(now())\n  dateOfResignation DateTime?\n  address           String?\n  emailPersonal     String?\n  guarantorName     String?\n  guarantorAddress  String?\n  guarantorPhone    String?\n  resetToken        String?\n  resetTokenExpiry  String?\n  lastLogin         DateTime?\n  offlineSales      OfflineSale[]\n  orders            Order[]\n}\n\nmodel Category {\n  slug        String    @id\n  name        String\n  description String?\n  bannerImage String?\n  isActive    Boolean   @default(true)\n  sortOrder   Int       @default(0)\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n  products    Product[] @relation(\"ProductToCategory\")\n\n  @@index([isActive, sortOrder])\n  @@index([name])\n}\n\nmodel Product {\n  id            String         @id @default(cuid())\n  name          String\n  description   String?\n  images        String[]       @default([])\n  categorySlug  String\n  priceNGN      Float?\n  priceUSD      Float?\n  priceEUR      Float?\n  priceGBP      Float?\n  sizeMods      Boolean        @default(false)\n  status        ProductStatus  @default(Draft)\n  videoUrl      String?\n  averageRating Float          @default(0)\n  ratingCount   Int            @default(0)\n  createdAt     DateTime       @default(now())\n  category      Category       @relation(\"ProductToCategory\", fields: [categorySlug], references: [slug])\n  reviews       Review[]\n  variants      Variant[]\n  wishlistItems WishlistItem[]\n\n  @@index([categorySlug])\n  @@index([status, createdAt])\n}\n\nmodel Variant {\n  id         String      @id @default(cuid())\n  productId  String\n  color      String\n  size       String\n  stock      Int\n  weight     Float?\n  createdAt  DateTime    @default(now())\n  orderItems OrderItem[]\n  product    Product     @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@unique([productId, color, size], name: \"product_color_size\")\n  @@index([productId])\n}\n\nmodel Review {\n  id         String   @id @default(cuid())\n  productId  String\n  customerId String\n  rating     Int\n  body       String\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n  customer   Customer @relation(fields: [customerId], references: [id], onDelete: Cascade)\n  product    Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@unique([productId, customerId], name: \"product_customer_unique_review\")\n  @@index([productId])\n  @@index([customerId])\n  @@index([rating])\n}\n\nmodel DeliveryOption {\n  id           String              @id @default(cuid())\n  name         String\n  provider     String?\n  pricingMode  DeliveryPricingMode @default(FIXED)\n  baseFee      Float?\n  baseCurrency Currency?\n  active       Boolean             @default(true)\n  metadata     Json?\n  createdAt    DateTime            @default(now())\n  updatedAt    DateTime            @updatedAt\n  orders       Order[]             @relation(\"OrderDeliveryOption\")\n\n  @@index([active, pricingMode])\n  @@index([provider])\n}\n\nmodel Order {\n  id                  String              @id @default(uuid())\n  status              OrderStatus         @default(Processing)\n  currency            Currency\n  totalAmount         Float\n  totalNGN            Int\n  paymentMethod       String\n  paymentReference    String?             @unique\n  paymentProviderId   String?\n  paymentVerified     Boolean             @default(false)\n  createdAt           DateTime            @default(now())\n  customerId          String?\n  guestInfo           Json?\n  staffId             String?\n  channel             OrderChannel        @default(ONLINE)\n  deliveryOptionId    String?\n  deliveryFee         Float?\n  deliveryDetails     Json?\n  refundedAt          DateTime?\n  refundReason        String?\n  refundTransactionId String?\n  refundStatus        RefundStatus?\n  offlineSale         OfflineSale?\n  customer            Customer?           @relation(fields: [customerId], references: [id])\n  deliveryOption      DeliveryOption?     @relation(\"OrderDeliveryOption\", fields: [deliveryOptionId], references: [id])\n  staff               Staff?              @relation(fields: [staffId], references: [id])\n  items               OrderItem[]\n  receiptEmailStatus  ReceiptEmailStatus?\n\n  shipment Shipment?\n\n  @@index([createdAt])\n  @@index([status, createdAt])\n  @@index([customerId, createdAt])\n  @@index([channel, createdAt])\n}\n\nmodel OrderItem {\n  id         String   @id @default(cuid())\n  orderId    String\n  variantId  String\n  name       String\n  image      String?\n  category   String\n  quantity   Int\n  currency   Currency\n  lineTotal  Float\n  color      String\n  size       String\n  hasSizeMod Boolean  @default(false)\n  sizeModFee Float    @default(0)\n  customSize Json?\n  order      Order    @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  variant    Variant  @relation(fields: [variantId], references: [id])\n\n  @@index([orderId])\n}\n\nmodel OfflineSale {\n  id        String   @id @default(uuid())\n  orderId   String   @unique\n  staffId   String\n  timestamp DateTime @default(now())\n  order     Order    @relation(fields: [orderId], references: [id])\n  staff     Staff    @relation(fields: [staffId], references: [id])\n}\n\nmodel WishlistItem {\n  id         String   @id @default(cuid())\n  customerId String\n  productId  String\n  addedAt    DateTime @default(now())\n  customer   Customer @relation(fields: [customerId], references: [id], onDelete: Cascade)\n  product    Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@unique([customerId, productId])\n}\n\nmodel ReceiptEmailStatus {\n  orderId     String    @id\n  attempts    Int       @default(0)\n  lastError   String?\n  nextRetryAt DateTime?\n  sent        Boolean   @default(false)\n  deliveryFee Float?\n  updatedAt   DateTime  @updatedAt\n  order       Order     @relation(fields: [orderId], references: [id], onDelete: Cascade)\n}\n\nmodel WebhookEvent {\n  id        String   @id @default(cuid())\n  provider  String\n  eventId   String   @unique\n  payload   Json\n  createdAt DateTime @default(now())\n\n  @@index([provider, createdAt])\n}\n\nmodel OrphanPayment {\n  id             String    @id @default(cuid())\n  reference      String    @unique\n  amount         Int\n  currency       String\n  payload        Json\n  firstSeenAt    DateTime  @default(now())\n  reconciled     Boolean   @default(false)\n  reconciledAt   DateTime?\n  resolutionNote String?\n}\n\nmodel HeroSlide {\n  id          String  @id @default(cuid())\n  imageUrl    String\n  headline    String?\n  subheadline String?\n  ctaText     String?\n  ctaUrl      String?\n  order       Int     @default(0)\n}\n\nmodel SizeChart {\n  id        String         @id @default(cuid())\n  name      String\n  updatedAt DateTime       @updatedAt\n  rows      SizeChartRow[]\n}\n\nmodel SizeChartRow {\n  id          String    @id @default(cuid())\n  order       Int       @default(0)\n  bodySize    String\n  productSize String\n  code        String\n  chart       SizeChart @relation(fields: [chartId], references: [id], onDelete: Cascade)\n  chartId     String\n\n  @@index([chartId, order])\n}\n\nenum ShipmentProvider {\n  SHIPBUBBLE\n}\n\nenum ShipmentStatus {\n  REQUESTED\n  LABEL_CREATED\n  IN_TRANSIT\n  DELIVERED\n  CANCELLED\n  FAILED\n}\n\nmodel Shipment {\n  id       String           @id @default(cuid())\n  orderId  String           @unique\n  provider ShipmentProvider\n  status   ShipmentStatus   @default(REQUESTED)\n\n  externalOrderId String?\n  requestToken    String?\n  serviceCode     String?\n  courierName     String?\n  courierId       String?\n  currency        Currency?\n  amount          Float?\n\n  labelUrl       String?\n  airwayBill     String?\n  trackingUrl    String?\n  trackingNumber String?\n\n  deliveryEtaText String?\n  pickupEtaText   String?\n\n  weightKg      Float?\n  pieces        Int?     @default(1)\n  lengthCm      Float?\n  widthCm       Float?\n  heightCm      Float?\n  boxSizeId     Int?\n  insuranceCode String?\n  isCodLabel    Boolean? @default(false)\n\n  senderAddressCode   Int?\n  receiverAddressCode Int?\n  senderAddressJson   Json?\n  receiverAddressJson Json?\n\n  rawRequest  Json?\n  rawResponse Json?\n  rawCancel   Json?\n\n  cancelledAt  DateTime?\n  cancelReason String?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  order Order @relation(fields: [orderId], references: [id], onDelete: Cascade)\n\n  @@unique([provider, externalOrderId])\n  @@index([status, createdAt])\n  @@index([provider, trackingNumber])\n}\n\nenum ProductStatus {\n  Draft\n  Published\n  Archived\n}\n\nenum OrderStatus {\n  Processing\n  Shipped\n  Delivered\n  Cancelled\n}\n\nenum Currency {\n  NGN\n  USD\n  EUR\n  GBP\n}\n\nenum OrderChannel {\n  ONLINE\n  OFFLINE\n}\n\nenum JobRole {\n  SystemAdministrator\n  DispatchCoordinator\n  OrderProcessingSpecialist\n  ProductCatalogManager\n  CustomerSupportRep\n}\n\nenum UserRole {\n  SuperAdmin\n  ProductAdmin\n  OrderAdmin\n  DispatchUser\n  SupportUser\n}\n\nenum RefundStatus {\n  Pending\n  Completed\n  Failed\n}\n\nenum DeliveryPricingMode {\n  FIXED\n  EXTERNAL\n}\n\nmodel ProductSerial {\n  id BigInt @id @default(autoincrement())\n}\n\nmodel OrderSerial {\n  id BigInt @id @default(autoincrement())\n}\n",
+  "inlineSchema": "generator client {\n  provider   = \"prisma-client\"\n  output     = \"../lib/generated/prisma-client\"\n  engineType = \"client\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Customer {\n  id                      String                @id @default(cuid())\n  firstName               String\n  lastName                String\n  email                   String                @unique\n  phone                   String\n  passwordHash            String?\n  deliveryAddress         String?\n  billingAddress          String?\n  country                 String?\n  state                   String?\n  registeredAt            DateTime              @default(now())\n  lastLogin               DateTime?\n  emailVerified           Boolean               @default(false)\n  verificationToken       String?\n  verificationTokenExpiry DateTime?\n  resetToken              String?\n  resetTokenExpiry        DateTime?\n  orders                  Order[]\n  reviews                 Review[]\n  wishlistItems           WishlistItem[]\n  promotionRedemptions    PromotionRedemption[]\n  stockNotifications      StockNotification[]\n  launchNotifications     LaunchNotification[]\n  returnRequests          ReturnRequest[]\n  cart                    Cart?\n  abandonedCarts          AbandonedCart[]\n}\n\nmodel Staff {\n  id                 String              @id @default(cuid())\n  firstName          String\n  middleName         String?             @default(\"\")\n  lastName           String\n  email              String              @unique\n  phone              String\n  passwordHash       String\n  jobRoles           JobRole[]           @default([])\n  access             UserRole\n  createdAt          DateTime            @default(now())\n  emailVerified      Boolean             @default(true)\n  dateOfBirth        DateTime?\n  dateOfEmployment   DateTime?           @default(now())\n  dateOfResignation  DateTime?\n  address            String?\n  emailPersonal      String?\n  guarantorName      String?\n  guarantorAddress   String?\n  guarantorPhone     String?\n  resetToken         String?\n  resetTokenExpiry   String?\n  lastLogin          DateTime?\n  offlineSales       OfflineSale[]\n  orders             Order[]\n  refunds            OrderRefund[]\n  inventoryMovements InventoryMovement[]\n  auditLogs          AuditLog[]\n  reviewedReturns    ReturnRequest[]\n  repriceRuns        RepriceRun[]\n  pickupHandovers    OrderPickup[]\n}\n\nmodel Category {\n  slug        String    @id\n  name        String\n  description String?\n  bannerImage String?\n  isActive    Boolean   @default(true)\n  sortOrder   Int       @default(0)\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n  products    Product[] @relation(\"ProductToCategory\")\n\n  @@index([isActive, sortOrder])\n  @@index([name])\n}\n\nmodel Product {\n  id                  String               @id @default(cuid())\n  name                String\n  description         String?\n  images              String[]             @default([])\n  categorySlug        String\n  priceNGN            Float?\n  priceUSD            Float?\n  priceEUR            Float?\n  priceGBP            Float?\n  compareAtNGN        Float?\n  compareAtUSD        Float?\n  compareAtEUR        Float?\n  compareAtGBP        Float?\n  sizeMods            Boolean              @default(false)\n  status              ProductStatus        @default(Draft)\n  publishAt           DateTime?\n  unpublishAt         DateTime?\n  videoUrl            String?\n  averageRating       Float                @default(0)\n  ratingCount         Int                  @default(0)\n  lowStockThreshold   Int                  @default(5)\n  createdAt           DateTime             @default(now())\n  category            Category             @relation(\"ProductToCategory\", fields: [categorySlug], references: [slug])\n  reviews             Review[]\n  variants            Variant[]\n  wishlistItems       WishlistItem[]\n  launchNotifications LaunchNotification[]\n  pricingRule         PricingRule?\n  cartItems           CartItem[]\n\n  @@index([categorySlug])\n  @@index([status, createdAt])\n  @@index([status, publishAt])\n}\n\nmodel Variant {\n  id                String              @id @default(cuid())\n  productId         String\n  color             String\n  size              String\n  stock             Int\n  weight            Float?\n  lowStockThreshold Int?\n  sku               String?             @unique\n  barcode           String?             @unique\n  priceNGN          Float?\n  priceUSD          Float?\n  priceEUR          Float?\n  priceGBP          Float?\n  compareAtNGN      Float?\n  compareAtUSD      Float?\n  compareAtEUR      Float?\n  compareAtGBP      Float?\n  createdAt         DateTime            @default(now())\n  orderItems        OrderItem[]\n  reservations      StockReservation[]\n  movements         InventoryMovement[]\n  notifications     StockNotification[]\n  exchangeItems     ReturnRequestItem[]\n  product           Product             @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@unique([productId, color, size], name: \"product_color_size\")\n  @@index([productId])\n}\n\nmodel Review {\n  id         String   @id @default(cuid())\n  productId  String\n  customerId String\n  rating     Int\n  body       String\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n  customer   Customer @relation(fields: [customerId], references: [id], onDelete: Cascade)\n  product    Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@unique([productId, customerId], name: \"product_customer_unique_review\")\n  @@index([productId])\n  @@index([customerId])\n  @@index([rating])\n}\n\nmodel DeliveryOption {\n  id           String              @id @default(cuid())\n  name         String\n  provider     String?\n  carrier      ShipmentProvider?\n  pricingMode  DeliveryPricingMode @default(FIXED)\n  baseFee      Float?\n  baseCurrency Currency?\n  active       Boolean             @default(true)\n  metadata     Json?\n  createdAt    DateTime            @default(now())\n  updatedAt    DateTime            @updatedAt\n  orders       Order[]             @relation(\"OrderDeliveryOption\")\n  zones        ShippingZone[]\n\n  @@index([active, pricingMode])\n  @@index([provider])\n}\n\nmodel ShippingZone {\n  id               String               @id @default(cuid())\n  deliveryOptionId String\n  name             String\n  countries        String[]             @default([])\n  states           String[]             @default([])\n  feeNGN           Float\n  feeUSD           Float?\n  feeEUR           Float?\n  feeGBP           Float?\n  freeOverNGN      Float?\n  freeOverUSD      Float?\n  freeOverEUR      Float?\n  freeOverGBP      Float?\n  active           Boolean              @default(true)\n  deliveryOption   DeliveryOption       @relation(fields: [deliveryOptionId], references: [id], onDelete: Cascade)\n  weightBands      ShippingWeightBand[]\n\n  @@index([deliveryOptionId, active])\n}\n\nmodel ShippingWeightBand {\n  id          String       @id @default(cuid())\n  zoneId      String\n  maxWeightKg Float\n  feeNGN      Float\n  feeUSD      Float?\n  feeEUR      Float?\n  feeGBP      Float?\n  zone        ShippingZone @relation(fields: [zoneId], references: [id], onDelete: Cascade)\n\n  @@unique([zoneId, maxWeightKg])\n}\n\nmodel Order {\n  id                  String               @id @default(uuid())\n  status              OrderStatus          @default(Processing)\n  currency            Currency\n  totalAmount         Float\n  totalNGN            Int\n  paymentMethod       String\n  paymentReference    String?              @unique\n  paymentProviderId   String?\n  paymentVerified     Boolean              @default(false)\n  createdAt           DateTime             @default(now())\n  customerId          String?\n  guestInfo           Json?\n  staffId             String?\n  channel             OrderChannel         @default(ONLINE)\n  deliveryOptionId    String?\n  deliveryFee         Float?\n  deliveryDetails     Json?\n  refundedAt          DateTime?\n  refundReason        String?\n  refundTransactionId String?\n  refundStatus        RefundStatus?\n  promotionId         String?\n  discountCode        String?\n  discountAmount      Float                @default(0)\n  discountDetails     Json?\n  fxRateToNGN         Float?\n  fxSnapshotId        String?\n  offlineSale         OfflineSale?\n  customer            Customer?            @relation(fields: [customerId], references: [id])\n  deliveryOption      DeliveryOption?      @relation(\"OrderDeliveryOption\", fields: [deliveryOptionId], references: [id])\n  staff               Staff?               @relation(fields: [staffId], references: [id])\n  items               OrderItem[]\n  receiptEmailStatus  ReceiptEmailStatus?\n  promotion           Promotion?           @relation(fields: [promotionId], references: [id])\n  promotionRedemption PromotionRedemption?\n  fxSnapshot          FxRateSnapshot?      @relation(fields: [fxSnapshotId], references: [id], onDelete: SetNull)\n  refunds             OrderRefund[]\n  returns             ReturnRequest[]      @relation(\"OrderReturns\")\n  replacementFor      ReturnRequest?       @relation(\"ReturnReplacement\")\n  abandonedCart       AbandonedCart?\n  pickup              OrderPickup?\n\n  shipments Shipment[]\n\n  @@index([createdAt])\n  @@index([status, createdAt])\n  @@index([customerId, createdAt])\n  @@index([channel, createdAt])\n  @@index([promotionId])\n}\n\nmodel OrderItem {\n  id             String              @id @default(cuid())\n  orderId        String\n  variantId      String\n  name           String\n  sku            String?\n  image          String?\n  category       String\n  quantity       Int\n  currency       Currency\n  lineTotal      Float\n  unitPrice      Float?\n  compareAtPrice Float?\n  color          String\n  size           String\n  hasSizeMod     Boolean             @default(false)\n  sizeModFee     Float               @default(0)\n  customSize     Json?\n  order          Order               @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  variant        Variant             @relation(fields: [variantId], references: [id])\n  refundItems    OrderRefundItem[]\n  returnItems    ReturnRequestItem[]\n  shipmentItems  ShipmentItem[]\n\n  @@index([orderId])\n}\n\nmodel OrderRefund {\n  id               String            @id @default(cuid())\n  orderId          String\n  amount           Float\n  currency         Currency\n  amountNGN        Float\n  reason           String?\n  status           RefundStatus      @default(Pending)\n  provider         String\n  providerRefundId String?           @unique\n  failureReason    String?\n  processedAt      DateTime?\n  creditNoteSentAt DateTime?\n  staffId          String?\n  createdAt        DateTime          @default(now())\n  updatedAt        DateTime          @updatedAt\n  order            Order             @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  staff            Staff?            @relation(fields: [staffId], references: [id])\n  items            OrderRefundItem[]\n  returnRequest    ReturnRequest?\n\n  @@index([orderId, createdAt])\n  @@index([status])\n}\n\nmodel OrderRefundItem {\n  id          String      @id @default(cuid())\n  refundId    String\n  orderItemId String\n  quantity    Int\n  amount      Float\n  restock     Boolean     @default(false)\n  refund      OrderRefund @relation(fields: [refundId], references: [id], onDelete: Cascade)\n  orderItem   OrderItem   @relation(fields: [orderItemId], references: [id], onDelete: Cascade)\n\n  @@index([refundId])\n  @@index([orderItemId])\n}\n\nmodel OfflineSale {\n  id        String   @id @default(uuid())\n  orderId   String   @unique\n  staffId   String\n  timestamp DateTime @default(now())\n  order     Order    @relation(fields: [orderId], references: [id])\n  staff     Staff    @relation(fields: [staffId], references: [id])\n}\n\nmodel WishlistItem {\n  id         String   @id @default(cuid())\n  customerId String\n  productId  String\n  addedAt    DateTime @default(now())\n  customer   Customer @relation(fields: [customerId], references: [id], onDelete: Cascade)\n  product    Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@unique([customerId, productId])\n}\n\nmodel Cart {\n  id         String     @id @default(cuid())\n  customerId String     @unique\n  currency   Currency   @default(NGN)\n  createdAt  DateTime   @default(now())\n  updatedAt  DateTime   @updatedAt\n  customer   Customer   @relation(fields: [customerId], references: [id], onDelete: Cascade)\n  items      CartItem[]\n}\n\nmodel CartItem {\n  id         String   @id @default(cuid())\n  cartId     String\n  productId  String\n  color      String\n  size       String\n  quantity   Int\n  hasSizeMod Boolean  @default(false)\n  sizeModFee Float    @default(0)\n  customMods Json?\n  lineKey    String\n  unitPrice  Float\n  currency   Currency\n  addedAt    DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n  cart       Cart     @relation(fields: [cartId], references: [id], onDelete: Cascade)\n  product    Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@unique([cartId, lineKey])\n  @@index([productId])\n}\n\nmodel AbandonedCart {\n  id             String              @id @default(cuid())\n  email          String\n  customerId     String?\n  currency       Currency            @default(NGN)\n  items          Json\n  subtotal       Float\n  status         AbandonedCartStatus @default(Open)\n  activityAt     DateTime            @default(now())\n  remindersSent  Int                 @default(0)\n  lastRemindedAt DateTime?\n  restoredAt     DateTime?\n  orderId        String?             @unique\n  orderTotalNGN  Int?\n  closedAt       DateTime?\n  createdAt      DateTime            @default(now())\n  customer       Customer?           @relation(fields: [customerId], references: [id], onDelete: SetNull)\n  order          Order?              @relation(fields: [orderId], references: [id], onDelete: SetNull)\n\n  @@index([status, activityAt])\n  @@index([email, status])\n  @@index([createdAt])\n}\n\nmodel ReceiptEmailStatus {\n  orderId     String    @id\n  attempts    Int       @default(0)\n  lastError   String?\n  nextRetryAt DateTime?\n  sent        Boolean   @default(false)\n  deliveryFee Float?\n  updatedAt   DateTime  @updatedAt\n  order       Order     @relation(fields: [orderId], references: [id], onDelete: Cascade)\n}\n\nmodel WebhookEvent {\n  id        String   @id @default(cuid())\n  provider  String\n  eventId   String   @unique\n  payload   Json\n  createdAt DateTime @default(now())\n\n  @@index([provider, createdAt])\n}\n\nmodel OrphanPayment {\n  id             String    @id @default(cuid())\n  reference      String    @unique\n  amount         Int\n  currency       String\n  payload        Json\n  firstSeenAt    DateTime  @default(now())\n  reconciled     Boolean   @default(false)\n  reconciledAt   DateTime?\n  resolutionNote String?\n}\n\nmodel StockReservation {\n  id        String            @id @default(cuid())\n  reference String\n  variantId String\n  quantity  Int\n  status    ReservationStatus @default(Active)\n  expiresAt DateTime\n  orderId   String?\n  createdAt DateTime          @default(now())\n  updatedAt DateTime          @updatedAt\n  variant   Variant           @relation(fields: [variantId], references: [id], onDelete: Cascade)\n\n  @@index([reference])\n  @@index([variantId, status, expiresAt])\n}\n\nmodel InventoryMovement {\n  id        String          @id @default(cuid())\n  variantId String\n  delta     Int\n  reason    InventoryReason\n  balance   Int\n  orderId   String?\n  staffId   String?\n  note      String?\n  createdAt DateTime        @default(now())\n  variant   Variant         @relation(fields: [variantId], references: [id], onDelete: Cascade)\n  staff     Staff?          @relation(fields: [staffId], references: [id])\n\n  @@index([variantId, createdAt])\n  @@index([orderId])\n}\n\nmodel StockNotification {\n  id             String    @id @default(cuid())\n  variantId      String\n  email          String\n  customerId     String?\n  token          String    @unique @default(cuid())\n  notifiedAt     DateTime?\n  unsubscribedAt DateTime?\n  createdAt      DateTime  @default(now())\n  variant        Variant   @relation(fields: [variantId], references: [id], onDelete: Cascade)\n  customer       Customer? @relation(fields: [customerId], references: [id], onDelete: SetNull)\n\n  @@unique([variantId, email])\n  @@index([variantId, notifiedAt])\n}\n\nmodel LaunchNotification {\n  id             String    @id @default(cuid())\n  productId      String\n  email          String\n  customerId     String?\n  token          String    @unique @default(cuid())\n  notifiedAt     DateTime?\n  unsubscribedAt DateTime?\n  createdAt      DateTime  @default(now())\n  product        Product   @relation(fields: [productId], references: [id], onDelete: Cascade)\n  customer       Customer? @relation(fields: [customerId], references: [id], onDelete: SetNull)\n\n  @@unique([productId, email])\n  @@index([productId, notifiedAt])\n}\n\nmodel AuditLog {\n  id         String      @id @default(cuid())\n  staffId    String?\n  action     AuditAction\n  entityType String\n  entityId   String\n  before     Json?\n  after      Json?\n  createdAt  DateTime    @default(now())\n  staff      Staff?      @relation(fields: [staffId], references: [id], onDelete: SetNull)\n\n  @@index([entityType, entityId])\n  @@index([staffId, createdAt])\n  @@index([createdAt])\n}\n\nmodel ReturnRequest {\n  id                  String              @id @default(cuid())\n  orderId             String\n  customerId          String?\n  status              ReturnStatus        @default(Requested)\n  note                String?\n  staffNote           String?\n  reviewedById        String?\n  reviewedAt          DateTime?\n  labelOrderId        String?\n  labelCourierName    String?\n  labelTrackingUrl    String?\n  labelTrackingNumber String?\n  labelResponse       Json?\n  receivedAt          DateTime?\n  refundId            String?             @unique\n  replacementOrderId  String?             @unique\n  resolvedAt          DateTime?\n  createdAt           DateTime            @default(now())\n  updatedAt           DateTime            @updatedAt\n  order               Order               @relation(\"OrderReturns\", fields: [orderId], references: [id], onDelete: Cascade)\n  customer            Customer?           @relation(fields: [customerId], references: [id], onDelete: SetNull)\n  reviewedBy          Staff?              @relation(fields: [reviewedById], references: [id], onDelete: SetNull)\n  refund              OrderRefund?        @relation(fields: [refundId], references: [id], onDelete: SetNull)\n  replacementOrder    Order?              @relation(\"ReturnReplacement\", fields: [replacementOrderId], references: [id], onDelete: SetNull)\n  items               ReturnRequestItem[]\n\n  @@index([orderId])\n  @@index([status, createdAt])\n  @@index([customerId, createdAt])\n}\n\nmodel ReturnRequestItem {\n  id                String        @id @default(cuid())\n  returnId          String\n  orderItemId       String\n  quantity          Int\n  type              ReturnType\n  reason            String\n  photos            String[]      @default([])\n  exchangeVariantId String?\n  receivedQty       Int?\n  restocked         Boolean       @default(false)\n  returnRequest     ReturnRequest @relation(fields: [returnId], references: [id], onDelete: Cascade)\n  orderItem         OrderItem     @relation(fields: [orderItemId], references: [id], onDelete: Cascade)\n  exchangeVariant   Variant?      @relation(fields: [exchangeVariantId], references: [id], onDelete: SetNull)\n\n  @@index([returnId])\n  @@index([orderItemId])\n}\n\nmodel HeroSlide {\n  id          String  @id @default(cuid())\n  imageUrl    String\n  headline    String?\n  subheadline String?\n  ctaText     String?\n  ctaUrl      String?\n  order       Int     @default(0)\n}\n\nmodel SizeChart {\n  id        String         @id @default(cuid())\n  name      String\n  updatedAt DateTime       @updatedAt\n  rows      SizeChartRow[]\n}\n\nmodel SizeChartRow {\n  id          String    @id @default(cuid())\n  order       Int       @default(0)\n  bodySize    String\n  productSize String\n  code        String\n  chart       SizeChart @relation(fields: [chartId], references: [id], onDelete: Cascade)\n  chartId     String\n\n  @@index([chartId, order])\n}\n\nmodel Promotion {\n  id               String                @id @default(cuid())\n  code             String                @unique\n  description      String?\n  type             PromotionType\n  percentOff       Float?\n  amountOffNGN     Float?\n  amountOffUSD     Float?\n  amountOffEUR     Float?\n  amountOffGBP     Float?\n  buyQuantity      Int?\n  getQuantity      Int?\n  productIds       String[]              @default([])\n  categorySlugs    String[]              @default([])\n  minSpendNGN      Float?\n  minSpendUSD      Float?\n  minSpendEUR      Float?\n  minSpendGBP      Float?\n  usageLimit       Int?\n  usageCount       Int                   @default(0)\n  perCustomerLimit Int?\n  startsAt         DateTime?\n  endsAt           DateTime?\n  active           Boolean               @default(true)\n  createdAt        DateTime              @default(now())\n  updatedAt        DateTime              @updatedAt\n  orders           Order[]\n  redemptions      PromotionRedemption[]\n\n  @@index([active, startsAt, endsAt])\n}\n\nmodel PromotionRedemption {\n  id             String    @id @default(cuid())\n  promotionId    String\n  orderId        String    @unique\n  customerId     String?\n  email          String\n  discountAmount Float\n  currency       Currency\n  createdAt      DateTime  @default(now())\n  promotion      Promotion @relation(fields: [promotionId], references: [id], onDelete: Cascade)\n  order          Order     @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  customer       Customer? @relation(fields: [customerId], references: [id])\n\n  @@index([promotionId, customerId])\n  @@index([promotionId, email])\n}\n\nmodel PricingRule {\n  id            String        @id @default(cuid())\n  productId     String?       @unique\n  enabled       Boolean       @default(true)\n  markupPercent Float         @default(0)\n  rounding      PriceRounding @default(None)\n  autoReprice   Boolean       @default(false)\n  updatedAt     DateTime      @updatedAt\n  product       Product?      @relation(fields: [productId], references: [id], onDelete: Cascade)\n}\n\nmodel RepriceRun {\n  id           String        @id @default(cuid())\n  staffId      String?\n  scheduled    Boolean       @default(false)\n  rates        Json\n  productCount Int           @default(0)\n  createdAt    DateTime      @default(now())\n  staff        Staff?        @relation(fields: [staffId], references: [id], onDelete: SetNull)\n  changes      PriceChange[]\n\n  @@index([createdAt])\n}\n\nmodel PriceChange {\n  id        String     @id @default(cuid())\n  runId     String\n  productId String\n  variantId String?\n  field     String\n  currency  Currency\n  oldPrice  Float?\n  newPrice  Float?\n  createdAt DateTime   @default(now())\n  run       RepriceRun @relation(fields: [runId], references: [id], onDelete: Cascade)\n\n  @@index([runId])\n  @@index([productId, createdAt])\n}\n\nenum PromotionType {\n  PERCENTAGE\n  FIXED_AMOUNT\n  FREE_SHIPPING\n  BUY_X_GET_Y\n}\n\nenum ShipmentProvider {\n  SHIPBUBBLE\n  FAKE\n}\n\nenum ShipmentStatus {\n  REQUESTED\n  LABEL_CREATED\n  IN_TRANSIT\n  DELIVERED\n  CANCELLED\n  FAILED\n}\n\nmodel Shipment {\n  id       String           @id @default(cuid())\n  orderId  String\n  provider ShipmentProvider\n  status   ShipmentStatus   @default(REQUESTED)\n\n  externalOrderId String?\n  requestToken    String?\n  serviceCode     String?\n  courierName     String?\n  courierId       String?\n  currency        Currency?\n  amount          Float?\n\n  labelUrl       String?\n  airwayBill     String?\n  trackingUrl    String?\n  trackingNumber String?\n\n  deliveryEtaText String?\n  pickupEtaText   String?\n\n  weightKg      Float?\n  pieces        Int?     @default(1)\n  lengthCm      Float?\n  widthCm       Float?\n  heightCm      Float?\n  boxSizeId     Int?\n  insuranceCode String?\n  isCodLabel    Boolean? @default(false)\n\n  senderAddressCode   Int?\n  receiverAddressCode Int?\n  senderAddressJson   Json?\n  receiverAddressJson Json?\n\n  rawRequest  Json?\n  rawResponse Json?\n  rawCancel   Json?\n\n  cancelledAt  DateTime?\n  cancelReason String?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  order  Order           @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  events ShipmentEvent[]\n  items  ShipmentItem[]\n\n  @@unique([provider, externalOrderId])\n  @@index([orderId])\n  @@index([status, createdAt])\n  @@index([provider, trackingNumber])\n}\n\nmodel ShipmentItem {\n  id          String    @id @default(cuid())\n  shipmentId  String\n  orderItemId String\n  quantity    Int\n  shipment    Shipment  @relation(fields: [shipmentId], references: [id], onDelete: Cascade)\n  orderItem   OrderItem @relation(fields: [orderItemId], references: [id], onDelete: Cascade)\n\n  @@unique([shipmentId, orderItemId])\n  @@index([orderItemId])\n}\n\nmodel PickupLocation {\n  id            String        @id @default(cuid())\n  name          String\n  address       String\n  city          String?\n  state         String?\n  country       String        @default(\"Nigeria\")\n  phone         String?\n  openingHours  String\n  prepTimeHours Int           @default(24)\n  instructions  String?\n  active        Boolean       @default(true)\n  createdAt     DateTime      @default(now())\n  updatedAt     DateTime      @updatedAt\n  pickups       OrderPickup[]\n\n  @@index([active])\n}\n\nmodel OrderPickup {\n  id             String         @id @default(cuid())\n  orderId        String         @unique\n  locationId     String\n  codeHash       String?\n  failedAttempts Int            @default(0)\n  readyAt        DateTime?\n  collectedAt    DateTime?\n  collectedById  String?\n  createdAt      DateTime       @default(now())\n  updatedAt      DateTime       @updatedAt\n  order          Order          @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  location       PickupLocation @relation(fields: [locationId], references: [id])\n  collectedBy    Staff?         @relation(fields: [collectedById], references: [id], onDelete: SetNull)\n\n  @@index([locationId, collectedAt])\n}\n\nmodel ShipmentEvent {\n  id             String         @id @default(cuid())\n  shipmentId     String\n  status         ShipmentStatus\n  providerStatus String\n  description    String?\n  location       String?\n  occurredAt     DateTime\n  source         String\n  createdAt      DateTime       @default(now())\n  shipment       Shipment       @relation(fields: [shipmentId], references: [id], onDelete: Cascade)\n\n  @@unique([shipmentId, providerStatus, occurredAt])\n  @@index([shipmentId, occurredAt])\n}\n\nenum ProductStatus {\n  Draft\n  Published\n  Archived\n}\n\nenum OrderStatus {\n  Processing\n  ReadyForPickup\n  PartiallyShipped\n  Shipped\n  PartiallyDelivered\n  Delivered\n  Cancelled\n}\n\nenum Currency {\n  NGN\n  USD\n  EUR\n  GBP\n}\n\nenum OrderChannel {\n  ONLINE\n  OFFLINE\n}\n\nenum JobRole {\n  SystemAdministrator\n  DispatchCoordinator\n  OrderProcessingSpecialist\n  ProductCatalogManager\n  CustomerSupportRep\n}\n\nenum UserRole {\n  SuperAdmin\n  ProductAdmin\n  OrderAdmin\n  DispatchUser\n  SupportUser\n}\n\nenum RefundStatus {\n  Pending\n  Completed\n  Failed\n}\n\nenum InventoryReason {\n  Sale\n  Cancel\n  Restock\n  Adjustment\n  Return\n}\n\nenum ReservationStatus {\n  Active\n  Converted\n  Released\n  Expired\n}\n\nenum AuditAction {\n  Create\n  Update\n  Delete\n  StatusChange\n  Resolve\n}\n\nenum ReturnStatus {\n  Requested\n  Approved\n  Rejected\n  LabelCreated\n  Received\n  Completed\n}\n\nenum ReturnType {\n  Refund\n  Exchange\n}\n\nenum DeliveryPricingMode {\n  FIXED\n  EXTERNAL\n  PICKUP\n}\n\nenum AbandonedCartStatus {\n  Open\n  Converted\n  Recovered\n  Unsubscribed\n  Expired\n}\n\nenum PriceRounding {\n  None\n  Whole\n  NinetyNine\n  NearestFive\n}\n\nmodel FxRateSnapshot {\n  id                String   @id @default(cuid())\n  base              String\n  rates             Json\n  source            String\n  providerUpdatedAt DateTime\n  fetchedAt         DateTime @default(now())\n  orders            Order[]\n\n  @@index([base, fetchedAt])\n  @@index([fetchedAt])\n}\n\nmodel ProductSerial {\n  id BigInt @id @default(autoincrement())\n}\n\nmodel OrderSerial {\n  id BigInt @id @default(autoincrement())\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Customer\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"billingAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"registeredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastLogin\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"verificationToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"verificationTokenExpiry\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resetToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resetTokenExpiry\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"CustomerToOrder\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"CustomerToReview\"},{\"name\":\"wishlistItems\",\"kind\":\"object\",\"type\":\"WishlistItem\",\"relationName\":\"CustomerToWishlistItem\"}],\"dbName\":null},\"Staff\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"middleName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"jobRoles\",\"kind\":\"enum\",\"type\":\"JobRole\"},{\"name\":\"access\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"dateOfBirth\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"dateOfEmployment\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"dateOfResignation\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailPersonal\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guarantorName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guarantorAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guarantorPhone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resetToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resetTokenExpiry\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastLogin\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"offlineSales\",\"kind\":\"object\",\"type\":\"OfflineSale\",\"relationName\":\"OfflineSaleToStaff\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToStaff\"}],\"dbName\":null},\"Category\":{\"fields\":[{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bannerImage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"sortOrder\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToCategory\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"images\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categorySlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"priceUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"priceEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"priceGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"sizeMods\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ProductStatus\"},{\"name\":\"videoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"averageRating\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"ratingCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"ProductToCategory\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ProductToReview\"},{\"name\":\"variants\",\"kind\":\"object\",\"type\":\"Variant\",\"relationName\":\"ProductToVariant\"},{\"name\":\"wishlistItems\",\"kind\":\"object\",\"type\":\"WishlistItem\",\"relationName\":\"ProductToWishlistItem\"}],\"dbName\":null},\"Variant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToVariant\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToVariant\"}],\"dbName\":null},\"Review\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToReview\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToReview\"}],\"dbName\":null},\"DeliveryOption\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pricingMode\",\"kind\":\"enum\",\"type\":\"DeliveryPricingMode\"},{\"name\":\"baseFee\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"baseCurrency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderDeliveryOption\"}],\"dbName\":null},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"totalNGN\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"paymentMethod\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentReference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentProviderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guestInfo\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"staffId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"channel\",\"kind\":\"enum\",\"type\":\"OrderChannel\"},{\"name\":\"deliveryOptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryFee\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"deliveryDetails\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"refundedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refundReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refundTransactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refundStatus\",\"kind\":\"enum\",\"type\":\"RefundStatus\"},{\"name\":\"offlineSale\",\"kind\":\"object\",\"type\":\"OfflineSale\",\"relationName\":\"OfflineSaleToOrder\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToOrder\"},{\"name\":\"deliveryOption\",\"kind\":\"object\",\"type\":\"DeliveryOption\",\"relationName\":\"OrderDeliveryOption\"},{\"name\":\"staff\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"OrderToStaff\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"receiptEmailStatus\",\"kind\":\"object\",\"type\":\"ReceiptEmailStatus\",\"relationName\":\"OrderToReceiptEmailStatus\"},{\"name\":\"shipment\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"OrderToShipment\"}],\"dbName\":null},\"OrderItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"lineTotal\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hasSizeMod\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"sizeModFee\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"customSize\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"Variant\",\"relationName\":\"OrderItemToVariant\"}],\"dbName\":null},\"OfflineSale\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"staffId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OfflineSaleToOrder\"},{\"name\":\"staff\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"OfflineSaleToStaff\"}],\"dbName\":null},\"WishlistItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToWishlistItem\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToWishlistItem\"}],\"dbName\":null},\"ReceiptEmailStatus\":{\"fields\":[{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nextRetryAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sent\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"deliveryFee\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToReceiptEmailStatus\"}],\"dbName\":null},\"WebhookEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"eventId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"OrphanPayment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"firstSeenAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reconciled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"reconciledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resolutionNote\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"HeroSlide\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"headline\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subheadline\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ctaText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ctaUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null},\"SizeChart\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"rows\",\"kind\":\"object\",\"type\":\"SizeChartRow\",\"relationName\":\"SizeChartToSizeChartRow\"}],\"dbName\":null},\"SizeChartRow\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"bodySize\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productSize\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chart\",\"kind\":\"object\",\"type\":\"SizeChart\",\"relationName\":\"SizeChartToSizeChartRow\"},{\"name\":\"chartId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Shipment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"ShipmentProvider\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ShipmentStatus\"},{\"name\":\"externalOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"courierName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"courierId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"labelUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"airwayBill\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trackingUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trackingNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryEtaText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pickupEtaText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weightKg\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"pieces\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lengthCm\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"widthCm\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"heightCm\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"boxSizeId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"insuranceCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isCodLabel\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"senderAddressCode\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"receiverAddressCode\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"senderAddressJson\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"receiverAddressJson\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"rawRequest\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"rawResponse\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"rawCancel\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"cancelledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToShipment\"}],\"dbName\":null},\"ProductSerial\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"}],\"dbName\":null},\"OrderSerial\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Customer\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"billingAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"registeredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastLogin\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"verificationToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"verificationTokenExpiry\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resetToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resetTokenExpiry\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"CustomerToOrder\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"CustomerToReview\"},{\"name\":\"wishlistItems\",\"kind\":\"object\",\"type\":\"WishlistItem\",\"relationName\":\"CustomerToWishlistItem\"},{\"name\":\"promotionRedemptions\",\"kind\":\"object\",\"type\":\"PromotionRedemption\",\"relationName\":\"CustomerToPromotionRedemption\"},{\"name\":\"stockNotifications\",\"kind\":\"object\",\"type\":\"StockNotification\",\"relationName\":\"CustomerToStockNotification\"},{\"name\":\"launchNotifications\",\"kind\":\"object\",\"type\":\"LaunchNotification\",\"relationName\":\"CustomerToLaunchNotification\"},{\"name\":\"returnRequests\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"CustomerToReturnRequest\"},{\"name\":\"cart\",\"kind\":\"object\",\"type\":\"Cart\",\"relationName\":\"CartToCustomer\"},{\"name\":\"abandonedCarts\",\"kind\":\"object\",\"type\":\"AbandonedCart\",\"relationName\":\"AbandonedCartToCustomer\"}],\"dbName\":null},\"Staff\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"middleName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"jobRoles\",\"kind\":\"enum\",\"type\":\"JobRole\"},{\"name\":\"access\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"dateOfBirth\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"dateOfEmployment\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"dateOfResignation\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailPersonal\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guarantorName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guarantorAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guarantorPhone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resetToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resetTokenExpiry\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastLogin\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"offlineSales\",\"kind\":\"object\",\"type\":\"OfflineSale\",\"relationName\":\"OfflineSaleToStaff\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToStaff\"},{\"name\":\"refunds\",\"kind\":\"object\",\"type\":\"OrderRefund\",\"relationName\":\"OrderRefundToStaff\"},{\"name\":\"inventoryMovements\",\"kind\":\"object\",\"type\":\"InventoryMovement\",\"relationName\":\"InventoryMovementToStaff\"},{\"name\":\"auditLogs\",\"kind\":\"object\",\"type\":\"AuditLog\",\"relationName\":\"AuditLogToStaff\"},{\"name\":\"reviewedReturns\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"ReturnRequestToStaff\"},{\"name\":\"repriceRuns\",\"kind\":\"object\",\"type\":\"RepriceRun\",\"relationName\":\"RepriceRunToStaff\"},{\"name\":\"pickupHandovers\",\"kind\":\"object\",\"type\":\"OrderPickup\",\"relationName\":\"OrderPickupToStaff\"}],\"dbName\":null},\"Category\":{\"fields\":[{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bannerImage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"sortOrder\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToCategory\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"images\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categorySlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"priceUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"priceEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"priceGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"compareAtNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"compareAtUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"compareAtEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"compareAtGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"sizeMods\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ProductStatus\"},{\"name\":\"publishAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"unpublishAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"videoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"averageRating\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"ratingCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lowStockThreshold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"ProductToCategory\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ProductToReview\"},{\"name\":\"variants\",\"kind\":\"object\",\"type\":\"Variant\",\"relationName\":\"ProductToVariant\"},{\"name\":\"wishlistItems\",\"kind\":\"object\",\"type\":\"WishlistItem\",\"relationName\":\"ProductToWishlistItem\"},{\"name\":\"launchNotifications\",\"kind\":\"object\",\"type\":\"LaunchNotification\",\"relationName\":\"LaunchNotificationToProduct\"},{\"name\":\"pricingRule\",\"kind\":\"object\",\"type\":\"PricingRule\",\"relationName\":\"PricingRuleToProduct\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToProduct\"}],\"dbName\":null},\"Variant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"lowStockThreshold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"barcode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"priceUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"priceEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"priceGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"compareAtNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"compareAtUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"compareAtEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"compareAtGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToVariant\"},{\"name\":\"reservations\",\"kind\":\"object\",\"type\":\"StockReservation\",\"relationName\":\"StockReservationToVariant\"},{\"name\":\"movements\",\"kind\":\"object\",\"type\":\"InventoryMovement\",\"relationName\":\"InventoryMovementToVariant\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"StockNotification\",\"relationName\":\"StockNotificationToVariant\"},{\"name\":\"exchangeItems\",\"kind\":\"object\",\"type\":\"ReturnRequestItem\",\"relationName\":\"ReturnRequestItemToVariant\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToVariant\"}],\"dbName\":null},\"Review\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToReview\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToReview\"}],\"dbName\":null},\"DeliveryOption\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"carrier\",\"kind\":\"enum\",\"type\":\"ShipmentProvider\"},{\"name\":\"pricingMode\",\"kind\":\"enum\",\"type\":\"DeliveryPricingMode\"},{\"name\":\"baseFee\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"baseCurrency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderDeliveryOption\"},{\"name\":\"zones\",\"kind\":\"object\",\"type\":\"ShippingZone\",\"relationName\":\"DeliveryOptionToShippingZone\"}],\"dbName\":null},\"ShippingZone\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryOptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"countries\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"states\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feeNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"feeUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"feeEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"feeGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"freeOverNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"freeOverUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"freeOverEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"freeOverGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"deliveryOption\",\"kind\":\"object\",\"type\":\"DeliveryOption\",\"relationName\":\"DeliveryOptionToShippingZone\"},{\"name\":\"weightBands\",\"kind\":\"object\",\"type\":\"ShippingWeightBand\",\"relationName\":\"ShippingWeightBandToShippingZone\"}],\"dbName\":null},\"ShippingWeightBand\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"zoneId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxWeightKg\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"feeNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"feeUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"feeEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"feeGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"zone\",\"kind\":\"object\",\"type\":\"ShippingZone\",\"relationName\":\"ShippingWeightBandToShippingZone\"}],\"dbName\":null},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"totalNGN\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"paymentMethod\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentReference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentProviderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guestInfo\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"staffId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"channel\",\"kind\":\"enum\",\"type\":\"OrderChannel\"},{\"name\":\"deliveryOptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryFee\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"deliveryDetails\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"refundedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refundReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refundTransactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refundStatus\",\"kind\":\"enum\",\"type\":\"RefundStatus\"},{\"name\":\"promotionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discountCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discountAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"discountDetails\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"fxRateToNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"fxSnapshotId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"offlineSale\",\"kind\":\"object\",\"type\":\"OfflineSale\",\"relationName\":\"OfflineSaleToOrder\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToOrder\"},{\"name\":\"deliveryOption\",\"kind\":\"object\",\"type\":\"DeliveryOption\",\"relationName\":\"OrderDeliveryOption\"},{\"name\":\"staff\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"OrderToStaff\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"receiptEmailStatus\",\"kind\":\"object\",\"type\":\"ReceiptEmailStatus\",\"relationName\":\"OrderToReceiptEmailStatus\"},{\"name\":\"promotion\",\"kind\":\"object\",\"type\":\"Promotion\",\"relationName\":\"OrderToPromotion\"},{\"name\":\"promotionRedemption\",\"kind\":\"object\",\"type\":\"PromotionRedemption\",\"relationName\":\"OrderToPromotionRedemption\"},{\"name\":\"fxSnapshot\",\"kind\":\"object\",\"type\":\"FxRateSnapshot\",\"relationName\":\"FxRateSnapshotToOrder\"},{\"name\":\"refunds\",\"kind\":\"object\",\"type\":\"OrderRefund\",\"relationName\":\"OrderToOrderRefund\"},{\"name\":\"returns\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"OrderReturns\"},{\"name\":\"replacementFor\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"ReturnReplacement\"},{\"name\":\"abandonedCart\",\"kind\":\"object\",\"type\":\"AbandonedCart\",\"relationName\":\"AbandonedCartToOrder\"},{\"name\":\"pickup\",\"kind\":\"object\",\"type\":\"OrderPickup\",\"relationName\":\"OrderToOrderPickup\"},{\"name\":\"shipments\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"OrderToShipment\"}],\"dbName\":null},\"OrderItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"lineTotal\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"compareAtPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hasSizeMod\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"sizeModFee\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"customSize\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"Variant\",\"relationName\":\"OrderItemToVariant\"},{\"name\":\"refundItems\",\"kind\":\"object\",\"type\":\"OrderRefundItem\",\"relationName\":\"OrderItemToOrderRefundItem\"},{\"name\":\"returnItems\",\"kind\":\"object\",\"type\":\"ReturnRequestItem\",\"relationName\":\"OrderItemToReturnRequestItem\"},{\"name\":\"shipmentItems\",\"kind\":\"object\",\"type\":\"ShipmentItem\",\"relationName\":\"OrderItemToShipmentItem\"}],\"dbName\":null},\"OrderRefund\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"amountNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"RefundStatus\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerRefundId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"failureReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"creditNoteSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"staffId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderRefund\"},{\"name\":\"staff\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"OrderRefundToStaff\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderRefundItem\",\"relationName\":\"OrderRefundToOrderRefundItem\"},{\"name\":\"returnRequest\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"OrderRefundToReturnRequest\"}],\"dbName\":null},\"OrderRefundItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refundId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"restock\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"refund\",\"kind\":\"object\",\"type\":\"OrderRefund\",\"relationName\":\"OrderRefundToOrderRefundItem\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToOrderRefundItem\"}],\"dbName\":null},\"OfflineSale\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"staffId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OfflineSaleToOrder\"},{\"name\":\"staff\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"OfflineSaleToStaff\"}],\"dbName\":null},\"WishlistItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToWishlistItem\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToWishlistItem\"}],\"dbName\":null},\"Cart\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CartToCustomer\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartToCartItem\"}],\"dbName\":null},\"CartItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cartId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"hasSizeMod\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"sizeModFee\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"customMods\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"lineKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"addedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cart\",\"kind\":\"object\",\"type\":\"Cart\",\"relationName\":\"CartToCartItem\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CartItemToProduct\"}],\"dbName\":null},\"AbandonedCart\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"items\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"subtotal\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"AbandonedCartStatus\"},{\"name\":\"activityAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"remindersSent\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastRemindedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"restoredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderTotalNGN\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"closedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"AbandonedCartToCustomer\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"AbandonedCartToOrder\"}],\"dbName\":null},\"ReceiptEmailStatus\":{\"fields\":[{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nextRetryAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sent\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"deliveryFee\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToReceiptEmailStatus\"}],\"dbName\":null},\"WebhookEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"eventId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"OrphanPayment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"firstSeenAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reconciled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"reconciledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resolutionNote\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"StockReservation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ReservationStatus\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"Variant\",\"relationName\":\"StockReservationToVariant\"}],\"dbName\":null},\"InventoryMovement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"delta\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"reason\",\"kind\":\"enum\",\"type\":\"InventoryReason\"},{\"name\":\"balance\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"staffId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"Variant\",\"relationName\":\"InventoryMovementToVariant\"},{\"name\":\"staff\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"InventoryMovementToStaff\"}],\"dbName\":null},\"StockNotification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"unsubscribedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"Variant\",\"relationName\":\"StockNotificationToVariant\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToStockNotification\"}],\"dbName\":null},\"LaunchNotification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"unsubscribedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"LaunchNotificationToProduct\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToLaunchNotification\"}],\"dbName\":null},\"AuditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"staffId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"enum\",\"type\":\"AuditAction\"},{\"name\":\"entityType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"entityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"before\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"after\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"staff\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"AuditLogToStaff\"}],\"dbName\":null},\"ReturnRequest\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ReturnStatus\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"staffNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"labelOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"labelCourierName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"labelTrackingUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"labelTrackingNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"labelResponse\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"receivedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refundId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"replacementOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resolvedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderReturns\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToReturnRequest\"},{\"name\":\"reviewedBy\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"ReturnRequestToStaff\"},{\"name\":\"refund\",\"kind\":\"object\",\"type\":\"OrderRefund\",\"relationName\":\"OrderRefundToReturnRequest\"},{\"name\":\"replacementOrder\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"ReturnReplacement\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"ReturnRequestItem\",\"relationName\":\"ReturnRequestToReturnRequestItem\"}],\"dbName\":null},\"ReturnRequestItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"returnId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"ReturnType\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"photos\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"exchangeVariantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"receivedQty\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"restocked\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"returnRequest\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"ReturnRequestToReturnRequestItem\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToReturnRequestItem\"},{\"name\":\"exchangeVariant\",\"kind\":\"object\",\"type\":\"Variant\",\"relationName\":\"ReturnRequestItemToVariant\"}],\"dbName\":null},\"HeroSlide\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"headline\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subheadline\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ctaText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ctaUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null},\"SizeChart\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"rows\",\"kind\":\"object\",\"type\":\"SizeChartRow\",\"relationName\":\"SizeChartToSizeChartRow\"}],\"dbName\":null},\"SizeChartRow\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"bodySize\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productSize\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chart\",\"kind\":\"object\",\"type\":\"SizeChart\",\"relationName\":\"SizeChartToSizeChartRow\"},{\"name\":\"chartId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Promotion\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"PromotionType\"},{\"name\":\"percentOff\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountOffNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountOffUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountOffEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountOffGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"buyQuantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"getQuantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"productIds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categorySlugs\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"minSpendNGN\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"minSpendUSD\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"minSpendEUR\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"minSpendGBP\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"usageLimit\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"usageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"perCustomerLimit\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"startsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToPromotion\"},{\"name\":\"redemptions\",\"kind\":\"object\",\"type\":\"PromotionRedemption\",\"relationName\":\"PromotionToPromotionRedemption\"}],\"dbName\":null},\"PromotionRedemption\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"promotionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discountAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"promotion\",\"kind\":\"object\",\"type\":\"Promotion\",\"relationName\":\"PromotionToPromotionRedemption\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToPromotionRedemption\"},{\"name\":\"customer\",\"kind\":\"object\",\"type\":\"Customer\",\"relationName\":\"CustomerToPromotionRedemption\"}],\"dbName\":null},\"PricingRule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"enabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"markupPercent\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"rounding\",\"kind\":\"enum\",\"type\":\"PriceRounding\"},{\"name\":\"autoReprice\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"PricingRuleToProduct\"}],\"dbName\":null},\"RepriceRun\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"staffId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scheduled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"rates\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"productCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"staff\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"RepriceRunToStaff\"},{\"name\":\"changes\",\"kind\":\"object\",\"type\":\"PriceChange\",\"relationName\":\"PriceChangeToRepriceRun\"}],\"dbName\":null},\"PriceChange\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"runId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"field\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"oldPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"newPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"run\",\"kind\":\"object\",\"type\":\"RepriceRun\",\"relationName\":\"PriceChangeToRepriceRun\"}],\"dbName\":null},\"Shipment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"ShipmentProvider\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ShipmentStatus\"},{\"name\":\"externalOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"courierName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"courierId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"enum\",\"type\":\"Currency\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"labelUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"airwayBill\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trackingUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trackingNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryEtaText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pickupEtaText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weightKg\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"pieces\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lengthCm\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"widthCm\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"heightCm\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"boxSizeId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"insuranceCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isCodLabel\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"senderAddressCode\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"receiverAddressCode\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"senderAddressJson\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"receiverAddressJson\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"rawRequest\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"rawResponse\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"rawCancel\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"cancelledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToShipment\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"ShipmentEvent\",\"relationName\":\"ShipmentToShipmentEvent\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"ShipmentItem\",\"relationName\":\"ShipmentToShipmentItem\"}],\"dbName\":null},\"ShipmentItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shipmentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"shipment\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"ShipmentToShipmentItem\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToShipmentItem\"}],\"dbName\":null},\"PickupLocation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"openingHours\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prepTimeHours\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"instructions\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"pickups\",\"kind\":\"object\",\"type\":\"OrderPickup\",\"relationName\":\"OrderPickupToPickupLocation\"}],\"dbName\":null},\"OrderPickup\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"locationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"codeHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"failedAttempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"readyAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collectedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collectedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderPickup\"},{\"name\":\"location\",\"kind\":\"object\",\"type\":\"PickupLocation\",\"relationName\":\"OrderPickupToPickupLocation\"},{\"name\":\"collectedBy\",\"kind\":\"object\",\"type\":\"Staff\",\"relationName\":\"OrderPickupToStaff\"}],\"dbName\":null},\"ShipmentEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shipmentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ShipmentStatus\"},{\"name\":\"providerStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"occurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shipment\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"ShipmentToShipmentEvent\"}],\"dbName\":null},\"FxRateSnapshot\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"base\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rates\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerUpdatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"fetchedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"FxRateSnapshotToOrder\"}],\"dbName\":null},\"ProductSerial\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"}],\"dbName\":null},\"OrderSerial\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -62,7 +62,7 @@ export interface PrismaClientConstructor {
    * const customers = await prisma.customer.findMany()
    * ```
    * 
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client).
+   * Read more in our [docs](https://pris.ly/d/client).
    */
 
   new <
@@ -84,7 +84,7 @@ export interface PrismaClientConstructor {
  * const customers = await prisma.customer.findMany()
  * ```
  * 
- * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client).
+ * Read more in our [docs](https://pris.ly/d/client).
  */
 
 export interface PrismaClient<
@@ -113,7 +113,7 @@ export interface PrismaClient<
    * const result = await prisma.$executeRaw`UPDATE User SET cool = ${true} WHERE email = ${'user@email.com'};`
    * ```
    *
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/raw-database-access).
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
    */
   $executeRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<number>;
 
@@ -125,7 +125,7 @@ export interface PrismaClient<
    * const result = await prisma.$executeRawUnsafe('UPDATE User SET cool = $1 WHERE email = $2 ;', true, 'user@email.com')
    * ```
    *
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/raw-database-access).
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
    */
   $executeRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<number>;
 
@@ -136,7 +136,7 @@ export interface PrismaClient<
    * const result = await prisma.$queryRaw`SELECT * FROM User WHERE id = ${1} OR email = ${'user@email.com'};`
    * ```
    *
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/raw-database-access).
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
    */
   $queryRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<T>;
 
@@ -148,7 +148,7 @@ export interface PrismaClient<
    * const result = await prisma.$queryRawUnsafe('SELECT * FROM User WHERE id = $1 OR email = $2;', 1, 'user@email.com')
    * ```
    *
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/raw-database-access).
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
    */
   $queryRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<T>;
 
@@ -244,6 +244,26 @@ export interface PrismaClient<
     */
   get deliveryOption(): Prisma.DeliveryOptionDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.shippingZone`: Exposes CRUD operations for the **ShippingZone** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShippingZones
+    * const shippingZones = await prisma.shippingZone.findMany()
+    * ```
+    */
+  get shippingZone(): Prisma.ShippingZoneDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shippingWeightBand`: Exposes CRUD operations for the **ShippingWeightBand** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShippingWeightBands
+    * const shippingWeightBands = await prisma.shippingWeightBand.findMany()
+    * ```
+    */
+  get shippingWeightBand(): Prisma.ShippingWeightBandDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.order`: Exposes CRUD operations for the **Order** model.
     * Example usage:
@@ -264,6 +284,26 @@ export interface PrismaClient<
     */
   get orderItem(): Prisma.OrderItemDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.orderRefund`: Exposes CRUD operations for the **OrderRefund** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OrderRefunds
+    * const orderRefunds = await prisma.orderRefund.findMany()
+    * ```
+    */
+  get orderRefund(): Prisma.OrderRefundDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.orderRefundItem`: Exposes CRUD operations for the **OrderRefundItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OrderRefundItems
+    * const orderRefundItems = await prisma.orderRefundItem.findMany()
+    * ```
+    */
+  get orderRefundItem(): Prisma.OrderRefundItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.offlineSale`: Exposes CRUD operations for the **OfflineSale** model.
     * Example usage:
@@ -284,6 +324,36 @@ export interface PrismaClient<
     */
   get wishlistItem(): Prisma.WishlistItemDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.cart`: Exposes CRUD operations for the **Cart** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Carts
+    * const carts = await prisma.cart.findMany()
+    * ```
+    */
+  get cart(): Prisma.CartDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.cartItem`: Exposes CRUD operations for the **CartItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CartItems
+    * const cartItems = await prisma.cartItem.findMany()
+    * ```
+    */
+  get cartItem(): Prisma.CartItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.abandonedCart`: Exposes CRUD operations for the **AbandonedCart** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AbandonedCarts
+    * const abandonedCarts = await prisma.abandonedCart.findMany()
+    * ```
+    */
+  get abandonedCart(): Prisma.AbandonedCartDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.receiptEmailStatus`: Exposes CRUD operations for the **ReceiptEmailStatus** model.
     * Example usage:
@@ -314,6 +384,76 @@ export interface PrismaClient<
     */
   get orphanPayment(): Prisma.OrphanPaymentDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.stockReservation`: Exposes CRUD operations for the **StockReservation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more StockReservations
+    * const stockReservations = await prisma.stockReservation.findMany()
+    * ```
+    */
+  get stockReservation(): Prisma.StockReservationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.inventoryMovement`: Exposes CRUD operations for the **InventoryMovement** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InventoryMovements
+    * const inventoryMovements = await prisma.inventoryMovement.findMany()
+    * ```
+    */
+  get inventoryMovement(): Prisma.InventoryMovementDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.stockNotification`: Exposes CRUD operations for the **StockNotification** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more StockNotifications
+    * const stockNotifications = await prisma.stockNotification.findMany()
+    * ```
+    */
+  get stockNotification(): Prisma.StockNotificationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.launchNotification`: Exposes CRUD operations for the **LaunchNotification** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more LaunchNotifications
+    * const launchNotifications = await prisma.launchNotification.findMany()
+    * ```
+    */
+  get launchNotification(): Prisma.LaunchNotificationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.auditLog`: Exposes CRUD operations for the **AuditLog** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AuditLogs
+    * const auditLogs = await prisma.auditLog.findMany()
+    * ```
+    */
+  get auditLog(): Prisma.AuditLogDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.returnRequest`: Exposes CRUD operations for the **ReturnRequest** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ReturnRequests
+    * const returnRequests = await prisma.returnRequest.findMany()
+    * ```
+    */
+  get returnRequest(): Prisma.ReturnRequestDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.returnRequestItem`: Exposes CRUD operations for the **ReturnRequestItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ReturnRequestItems
+    * const returnRequestItems = await prisma.returnRequestItem.findMany()
+    * ```
+    */
+  get returnRequestItem(): Prisma.ReturnRequestItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.heroSlide`: Exposes CRUD operations for the **HeroSlide** model.
     * Example usage:
@@ -344,6 +484,56 @@ export interface PrismaClient<
     */
   get sizeChartRow(): Prisma.SizeChartRowDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.promotion`: Exposes CRUD operations for the **Promotion** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Promotions
+    * const promotions = await prisma.promotion.findMany()
+    * ```
+    */
+  get promotion(): Prisma.PromotionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.promotionRedemption`: Exposes CRUD operations for the **PromotionRedemption** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PromotionRedemptions
+    * const promotionRedemptions = await prisma.promotionRedemption.findMany()
+    * ```
+    */
+  get promotionRedemption(): Prisma.PromotionRedemptionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.pricingRule`: Exposes CRUD operations for the **PricingRule** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PricingRules
+    * const pricingRules = await prisma.pricingRule.findMany()
+    * ```
+    */
+  get pricingRule(): Prisma.PricingRuleDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.repriceRun`: Exposes CRUD operations for the **RepriceRun** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RepriceRuns
+    * const repriceRuns = await prisma.repriceRun.findMany()
+    * ```
+    */
+  get repriceRun(): Prisma.RepriceRunDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.priceChange`: Exposes CRUD operations for the **PriceChange** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PriceChanges
+    * const priceChanges = await prisma.priceChange.findMany()
+    * ```
+    */
+  get priceChange(): Prisma.PriceChangeDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.shipment`: Exposes CRUD operations for the **Shipment** model.
     * Example usage:
@@ -354,6 +544,56 @@ export interface PrismaClient<
     */
   get shipment(): Prisma.ShipmentDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.shipmentItem`: Exposes CRUD operations for the **ShipmentItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShipmentItems
+    * const shipmentItems = await prisma.shipmentItem.findMany()
+    * ```
+    */
+  get shipmentItem(): Prisma.ShipmentItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.pickupLocation`: Exposes CRUD operations for the **PickupLocation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PickupLocations
+    * const pickupLocations = await prisma.pickupLocation.findMany()
+    * ```
+    */
+  get pickupLocation(): Prisma.PickupLocationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.orderPickup`: Exposes CRUD operations for the **OrderPickup** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OrderPickups
+    * const orderPickups = await prisma.orderPickup.findMany()
+    * ```
+    */
+  get orderPickup(): Prisma.OrderPickupDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shipmentEvent`: Exposes CRUD operations for the **ShipmentEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShipmentEvents
+    * const shipmentEvents = await prisma.shipmentEvent.findMany()
+    * ```
+    */
+  get shipmentEvent(): Prisma.ShipmentEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.fxRateSnapshot`: Exposes CRUD operations for the **FxRateSnapshot** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more FxRateSnapshots
+    * const fxRateSnapshots = await prisma.fxRateSnapshot.findMany()
+    * ```
+    */
+  get fxRateSnapshot(): Prisma.FxRateSnapshotDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.productSerial`: Exposes CRUD operations for the **ProductSerial** model.
     * Example usage:
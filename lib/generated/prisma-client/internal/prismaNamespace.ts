@@ -80,12 +80,12 @@ export type PrismaVersion = {
 }
 
 /**
- * Prisma Client JS version: 7.0.0
- * Query Engine version: 0c19ccc313cf9911a90d99d2ac2eb0280c76c513
+ * Prisma Client JS version: 7.1.0
+ * Query Engine version: ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba
  */
 export const prismaVersion: PrismaVersion = {
-  client: "7.0.0",
-  engine: "0c19ccc313cf9911a90d99d2ac2eb0280c76c513"
+  client: "7.1.0",
+  engine: "ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba"
 }
 
 /**
@@ -391,17 +391,41 @@ export const ModelName = {
   Variant: 'Variant',
   Review: 'Review',
   DeliveryOption: 'DeliveryOption',
+  ShippingZone: 'ShippingZone',
+  ShippingWeightBand: 'ShippingWeightBand',
   Order: 'Order',
   OrderItem: 'OrderItem',
+  OrderRefund: 'OrderRefund',
+  OrderRefundItem: 'OrderRefundItem',
   OfflineSale: 'OfflineSale',
   WishlistItem: 'WishlistItem',
+  Cart: 'Cart',
+  CartItem: 'CartItem',
+  AbandonedCart: 'AbandonedCart',
   ReceiptEmailStatus: 'ReceiptEmailStatus',
   WebhookEvent: 'WebhookEvent',
   OrphanPayment: 'OrphanPayment',
+  StockReservation: 'StockReservation',
+  InventoryMovement: 'InventoryMovement',
+  StockNotification: 'StockNotification',
+  LaunchNotification: 'LaunchNotification',
+  AuditLog: 'AuditLog',
+  ReturnRequest: 'ReturnRequest',
+  ReturnRequestItem: 'ReturnRequestItem',
   HeroSlide: 'HeroSlide',
   SizeChart: 'SizeChart',
   SizeChartRow: 'SizeChartRow',
+  Promotion: 'Promotion',
+  PromotionRedemption: 'PromotionRedemption',
+  PricingRule: 'PricingRule',
+  RepriceRun: 'RepriceRun',
+  PriceChange: 'PriceChange',
   Shipment: 'Shipment',
+  ShipmentItem: 'ShipmentItem',
+  PickupLocation: 'PickupLocation',
+  OrderPickup: 'OrderPickup',
+  ShipmentEvent: 'ShipmentEvent',
+  FxRateSnapshot: 'FxRateSnapshot',
   ProductSerial: 'ProductSerial',
   OrderSerial: 'OrderSerial'
 } as const
@@ -419,7 +443,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "customer" | "staff" | "category" | "product" | "variant" | "review" | "deliveryOption" | "order" | "orderItem" | "offlineSale" | "wishlistItem" | "receiptEmailStatus" | "webhookEvent" | "orphanPayment" | "heroSlide" | "sizeChart" | "sizeChartRow" | "shipment" | "productSerial" | "orderSerial"
+    modelProps: "customer" | "staff" | "category" | "product" | "variant" | "review" | "deliveryOption" | "shippingZone" | "shippingWeightBand" | "order" | "orderItem" | "orderRefund" | "orderRefundItem" | "offlineSale" | "wishlistItem" | "cart" | "cartItem" | "abandonedCart" | "receiptEmailStatus" | "webhookEvent" | "orphanPayment" | "stockReservation" | "inventoryMovement" | "stockNotification" | "launchNotification" | "auditLog" | "returnRequest" | "returnRequestItem" | "heroSlide" | "sizeChart" | "sizeChartRow" | "promotion" | "promotionRedemption" | "pricingRule" | "repriceRun" | "priceChange" | "shipment" | "shipmentItem" | "pickupLocation" | "orderPickup" | "shipmentEvent" | "fxRateSnapshot" | "productSerial" | "orderSerial"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -941,6 +965,154 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    ShippingZone: {
+      payload: Prisma.$ShippingZonePayload<ExtArgs>
+      fields: Prisma.ShippingZoneFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ShippingZoneFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ShippingZoneFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload>
+        }
+        findFirst: {
+          args: Prisma.ShippingZoneFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ShippingZoneFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload>
+        }
+        findMany: {
+          args: Prisma.ShippingZoneFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload>[]
+        }
+        create: {
+          args: Prisma.ShippingZoneCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload>
+        }
+        createMany: {
+          args: Prisma.ShippingZoneCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ShippingZoneCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload>[]
+        }
+        delete: {
+          args: Prisma.ShippingZoneDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload>
+        }
+        update: {
+          args: Prisma.ShippingZoneUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload>
+        }
+        deleteMany: {
+          args: Prisma.ShippingZoneDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ShippingZoneUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ShippingZoneUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload>[]
+        }
+        upsert: {
+          args: Prisma.ShippingZoneUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingZonePayload>
+        }
+        aggregate: {
+          args: Prisma.ShippingZoneAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShippingZone>
+        }
+        groupBy: {
+          args: Prisma.ShippingZoneGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShippingZoneGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ShippingZoneCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShippingZoneCountAggregateOutputType> | number
+        }
+      }
+    }
+    ShippingWeightBand: {
+      payload: Prisma.$ShippingWeightBandPayload<ExtArgs>
+      fields: Prisma.ShippingWeightBandFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ShippingWeightBandFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ShippingWeightBandFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload>
+        }
+        findFirst: {
+          args: Prisma.ShippingWeightBandFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ShippingWeightBandFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload>
+        }
+        findMany: {
+          args: Prisma.ShippingWeightBandFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload>[]
+        }
+        create: {
+          args: Prisma.ShippingWeightBandCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload>
+        }
+        createMany: {
+          args: Prisma.ShippingWeightBandCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ShippingWeightBandCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload>[]
+        }
+        delete: {
+          args: Prisma.ShippingWeightBandDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload>
+        }
+        update: {
+          args: Prisma.ShippingWeightBandUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload>
+        }
+        deleteMany: {
+          args: Prisma.ShippingWeightBandDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ShippingWeightBandUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ShippingWeightBandUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload>[]
+        }
+        upsert: {
+          args: Prisma.ShippingWeightBandUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShippingWeightBandPayload>
+        }
+        aggregate: {
+          args: Prisma.ShippingWeightBandAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShippingWeightBand>
+        }
+        groupBy: {
+          args: Prisma.ShippingWeightBandGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShippingWeightBandGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ShippingWeightBandCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShippingWeightBandCountAggregateOutputType> | number
+        }
+      }
+    }
     Order: {
       payload: Prisma.$OrderPayload<ExtArgs>
       fields: Prisma.OrderFieldRefs
@@ -1089,6 +1261,154 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    OrderRefund: {
+      payload: Prisma.$OrderRefundPayload<ExtArgs>
+      fields: Prisma.OrderRefundFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OrderRefundFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OrderRefundFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload>
+        }
+        findFirst: {
+          args: Prisma.OrderRefundFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OrderRefundFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload>
+        }
+        findMany: {
+          args: Prisma.OrderRefundFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload>[]
+        }
+        create: {
+          args: Prisma.OrderRefundCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload>
+        }
+        createMany: {
+          args: Prisma.OrderRefundCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.OrderRefundCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload>[]
+        }
+        delete: {
+          args: Prisma.OrderRefundDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload>
+        }
+        update: {
+          args: Prisma.OrderRefundUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload>
+        }
+        deleteMany: {
+          args: Prisma.OrderRefundDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.OrderRefundUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.OrderRefundUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload>[]
+        }
+        upsert: {
+          args: Prisma.OrderRefundUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundPayload>
+        }
+        aggregate: {
+          args: Prisma.OrderRefundAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOrderRefund>
+        }
+        groupBy: {
+          args: Prisma.OrderRefundGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrderRefundGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.OrderRefundCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrderRefundCountAggregateOutputType> | number
+        }
+      }
+    }
+    OrderRefundItem: {
+      payload: Prisma.$OrderRefundItemPayload<ExtArgs>
+      fields: Prisma.OrderRefundItemFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OrderRefundItemFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OrderRefundItemFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload>
+        }
+        findFirst: {
+          args: Prisma.OrderRefundItemFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OrderRefundItemFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload>
+        }
+        findMany: {
+          args: Prisma.OrderRefundItemFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload>[]
+        }
+        create: {
+          args: Prisma.OrderRefundItemCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload>
+        }
+        createMany: {
+          args: Prisma.OrderRefundItemCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.OrderRefundItemCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload>[]
+        }
+        delete: {
+          args: Prisma.OrderRefundItemDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload>
+        }
+        update: {
+          args: Prisma.OrderRefundItemUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload>
+        }
+        deleteMany: {
+          args: Prisma.OrderRefundItemDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.OrderRefundItemUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.OrderRefundItemUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload>[]
+        }
+        upsert: {
+          args: Prisma.OrderRefundItemUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderRefundItemPayload>
+        }
+        aggregate: {
+          args: Prisma.OrderRefundItemAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOrderRefundItem>
+        }
+        groupBy: {
+          args: Prisma.OrderRefundItemGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrderRefundItemGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.OrderRefundItemCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrderRefundItemCountAggregateOutputType> | number
+        }
+      }
+    }
     OfflineSale: {
       payload: Prisma.$OfflineSalePayload<ExtArgs>
       fields: Prisma.OfflineSaleFieldRefs
@@ -1237,521 +1557,2001 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
-    ReceiptEmailStatus: {
-      payload: Prisma.$ReceiptEmailStatusPayload<ExtArgs>
-      fields: Prisma.ReceiptEmailStatusFieldRefs
+    Cart: {
+      payload: Prisma.$CartPayload<ExtArgs>
+      fields: Prisma.CartFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ReceiptEmailStatusFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload> | null
+          args: Prisma.CartFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ReceiptEmailStatusFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+          args: Prisma.CartFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         findFirst: {
-          args: Prisma.ReceiptEmailStatusFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload> | null
+          args: Prisma.CartFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ReceiptEmailStatusFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+          args: Prisma.CartFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         findMany: {
-          args: Prisma.ReceiptEmailStatusFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>[]
+          args: Prisma.CartFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>[]
         }
         create: {
-          args: Prisma.ReceiptEmailStatusCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+          args: Prisma.CartCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         createMany: {
-          args: Prisma.ReceiptEmailStatusCreateManyArgs<ExtArgs>
+          args: Prisma.CartCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ReceiptEmailStatusCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>[]
+          args: Prisma.CartCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>[]
         }
         delete: {
-          args: Prisma.ReceiptEmailStatusDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+          args: Prisma.CartDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         update: {
-          args: Prisma.ReceiptEmailStatusUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+          args: Prisma.CartUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         deleteMany: {
-          args: Prisma.ReceiptEmailStatusDeleteManyArgs<ExtArgs>
+          args: Prisma.CartDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ReceiptEmailStatusUpdateManyArgs<ExtArgs>
+          args: Prisma.CartUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ReceiptEmailStatusUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>[]
+          args: Prisma.CartUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>[]
         }
         upsert: {
-          args: Prisma.ReceiptEmailStatusUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+          args: Prisma.CartUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         aggregate: {
-          args: Prisma.ReceiptEmailStatusAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateReceiptEmailStatus>
+          args: Prisma.CartAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCart>
         }
         groupBy: {
-          args: Prisma.ReceiptEmailStatusGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ReceiptEmailStatusGroupByOutputType>[]
+          args: Prisma.CartGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CartGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ReceiptEmailStatusCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ReceiptEmailStatusCountAggregateOutputType> | number
+          args: Prisma.CartCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CartCountAggregateOutputType> | number
         }
       }
     }
-    WebhookEvent: {
-      payload: Prisma.$WebhookEventPayload<ExtArgs>
-      fields: Prisma.WebhookEventFieldRefs
+    CartItem: {
+      payload: Prisma.$CartItemPayload<ExtArgs>
+      fields: Prisma.CartItemFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.WebhookEventFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload> | null
+          args: Prisma.CartItemFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.WebhookEventFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+          args: Prisma.CartItemFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         findFirst: {
-          args: Prisma.WebhookEventFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload> | null
+          args: Prisma.CartItemFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.WebhookEventFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+          args: Prisma.CartItemFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         findMany: {
-          args: Prisma.WebhookEventFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>[]
+          args: Prisma.CartItemFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>[]
         }
         create: {
-          args: Prisma.WebhookEventCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+          args: Prisma.CartItemCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         createMany: {
-          args: Prisma.WebhookEventCreateManyArgs<ExtArgs>
+          args: Prisma.CartItemCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.WebhookEventCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>[]
+          args: Prisma.CartItemCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>[]
         }
         delete: {
-          args: Prisma.WebhookEventDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+          args: Prisma.CartItemDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         update: {
-          args: Prisma.WebhookEventUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+          args: Prisma.CartItemUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         deleteMany: {
-          args: Prisma.WebhookEventDeleteManyArgs<ExtArgs>
+          args: Prisma.CartItemDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CartItemUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CartItemUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>[]
+        }
+        upsert: {
+          args: Prisma.CartItemUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
+        }
+        aggregate: {
+          args: Prisma.CartItemAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCartItem>
+        }
+        groupBy: {
+          args: Prisma.CartItemGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CartItemGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CartItemCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CartItemCountAggregateOutputType> | number
+        }
+      }
+    }
+    AbandonedCart: {
+      payload: Prisma.$AbandonedCartPayload<ExtArgs>
+      fields: Prisma.AbandonedCartFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AbandonedCartFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AbandonedCartFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload>
+        }
+        findFirst: {
+          args: Prisma.AbandonedCartFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AbandonedCartFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload>
+        }
+        findMany: {
+          args: Prisma.AbandonedCartFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload>[]
+        }
+        create: {
+          args: Prisma.AbandonedCartCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload>
+        }
+        createMany: {
+          args: Prisma.AbandonedCartCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AbandonedCartCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload>[]
+        }
+        delete: {
+          args: Prisma.AbandonedCartDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload>
+        }
+        update: {
+          args: Prisma.AbandonedCartUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload>
+        }
+        deleteMany: {
+          args: Prisma.AbandonedCartDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AbandonedCartUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AbandonedCartUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload>[]
+        }
+        upsert: {
+          args: Prisma.AbandonedCartUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AbandonedCartPayload>
+        }
+        aggregate: {
+          args: Prisma.AbandonedCartAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAbandonedCart>
+        }
+        groupBy: {
+          args: Prisma.AbandonedCartGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AbandonedCartGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AbandonedCartCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AbandonedCartCountAggregateOutputType> | number
+        }
+      }
+    }
+    ReceiptEmailStatus: {
+      payload: Prisma.$ReceiptEmailStatusPayload<ExtArgs>
+      fields: Prisma.ReceiptEmailStatusFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ReceiptEmailStatusFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ReceiptEmailStatusFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+        }
+        findFirst: {
+          args: Prisma.ReceiptEmailStatusFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ReceiptEmailStatusFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+        }
+        findMany: {
+          args: Prisma.ReceiptEmailStatusFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>[]
+        }
+        create: {
+          args: Prisma.ReceiptEmailStatusCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+        }
+        createMany: {
+          args: Prisma.ReceiptEmailStatusCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ReceiptEmailStatusCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>[]
+        }
+        delete: {
+          args: Prisma.ReceiptEmailStatusDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+        }
+        update: {
+          args: Prisma.ReceiptEmailStatusUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+        }
+        deleteMany: {
+          args: Prisma.ReceiptEmailStatusDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ReceiptEmailStatusUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ReceiptEmailStatusUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>[]
+        }
+        upsert: {
+          args: Prisma.ReceiptEmailStatusUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReceiptEmailStatusPayload>
+        }
+        aggregate: {
+          args: Prisma.ReceiptEmailStatusAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateReceiptEmailStatus>
+        }
+        groupBy: {
+          args: Prisma.ReceiptEmailStatusGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReceiptEmailStatusGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ReceiptEmailStatusCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReceiptEmailStatusCountAggregateOutputType> | number
+        }
+      }
+    }
+    WebhookEvent: {
+      payload: Prisma.$WebhookEventPayload<ExtArgs>
+      fields: Prisma.WebhookEventFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WebhookEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WebhookEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+        }
+        findFirst: {
+          args: Prisma.WebhookEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WebhookEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+        }
+        findMany: {
+          args: Prisma.WebhookEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>[]
+        }
+        create: {
+          args: Prisma.WebhookEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+        }
+        createMany: {
+          args: Prisma.WebhookEventCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WebhookEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>[]
+        }
+        delete: {
+          args: Prisma.WebhookEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+        }
+        update: {
+          args: Prisma.WebhookEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+        }
+        deleteMany: {
+          args: Prisma.WebhookEventDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WebhookEventUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WebhookEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>[]
+        }
+        upsert: {
+          args: Prisma.WebhookEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+        }
+        aggregate: {
+          args: Prisma.WebhookEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWebhookEvent>
+        }
+        groupBy: {
+          args: Prisma.WebhookEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WebhookEventGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WebhookEventCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WebhookEventCountAggregateOutputType> | number
+        }
+      }
+    }
+    OrphanPayment: {
+      payload: Prisma.$OrphanPaymentPayload<ExtArgs>
+      fields: Prisma.OrphanPaymentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OrphanPaymentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OrphanPaymentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+        }
+        findFirst: {
+          args: Prisma.OrphanPaymentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OrphanPaymentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+        }
+        findMany: {
+          args: Prisma.OrphanPaymentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>[]
+        }
+        create: {
+          args: Prisma.OrphanPaymentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+        }
+        createMany: {
+          args: Prisma.OrphanPaymentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.OrphanPaymentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>[]
+        }
+        delete: {
+          args: Prisma.OrphanPaymentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+        }
+        update: {
+          args: Prisma.OrphanPaymentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+        }
+        deleteMany: {
+          args: Prisma.OrphanPaymentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.OrphanPaymentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.OrphanPaymentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>[]
+        }
+        upsert: {
+          args: Prisma.OrphanPaymentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+        }
+        aggregate: {
+          args: Prisma.OrphanPaymentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOrphanPayment>
+        }
+        groupBy: {
+          args: Prisma.OrphanPaymentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrphanPaymentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.OrphanPaymentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrphanPaymentCountAggregateOutputType> | number
+        }
+      }
+    }
+    StockReservation: {
+      payload: Prisma.$StockReservationPayload<ExtArgs>
+      fields: Prisma.StockReservationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.StockReservationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.StockReservationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload>
+        }
+        findFirst: {
+          args: Prisma.StockReservationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.StockReservationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload>
+        }
+        findMany: {
+          args: Prisma.StockReservationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload>[]
+        }
+        create: {
+          args: Prisma.StockReservationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload>
+        }
+        createMany: {
+          args: Prisma.StockReservationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.StockReservationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload>[]
+        }
+        delete: {
+          args: Prisma.StockReservationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload>
+        }
+        update: {
+          args: Prisma.StockReservationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload>
+        }
+        deleteMany: {
+          args: Prisma.StockReservationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.StockReservationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.StockReservationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload>[]
+        }
+        upsert: {
+          args: Prisma.StockReservationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockReservationPayload>
+        }
+        aggregate: {
+          args: Prisma.StockReservationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateStockReservation>
+        }
+        groupBy: {
+          args: Prisma.StockReservationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StockReservationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.StockReservationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StockReservationCountAggregateOutputType> | number
+        }
+      }
+    }
+    InventoryMovement: {
+      payload: Prisma.$InventoryMovementPayload<ExtArgs>
+      fields: Prisma.InventoryMovementFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InventoryMovementFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InventoryMovementFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        findFirst: {
+          args: Prisma.InventoryMovementFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InventoryMovementFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        findMany: {
+          args: Prisma.InventoryMovementFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>[]
+        }
+        create: {
+          args: Prisma.InventoryMovementCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        createMany: {
+          args: Prisma.InventoryMovementCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InventoryMovementCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>[]
+        }
+        delete: {
+          args: Prisma.InventoryMovementDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        update: {
+          args: Prisma.InventoryMovementUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        deleteMany: {
+          args: Prisma.InventoryMovementDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InventoryMovementUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InventoryMovementUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>[]
+        }
+        upsert: {
+          args: Prisma.InventoryMovementUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        aggregate: {
+          args: Prisma.InventoryMovementAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInventoryMovement>
+        }
+        groupBy: {
+          args: Prisma.InventoryMovementGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryMovementGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InventoryMovementCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryMovementCountAggregateOutputType> | number
+        }
+      }
+    }
+    StockNotification: {
+      payload: Prisma.$StockNotificationPayload<ExtArgs>
+      fields: Prisma.StockNotificationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.StockNotificationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.StockNotificationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload>
+        }
+        findFirst: {
+          args: Prisma.StockNotificationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.StockNotificationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload>
+        }
+        findMany: {
+          args: Prisma.StockNotificationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload>[]
+        }
+        create: {
+          args: Prisma.StockNotificationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload>
+        }
+        createMany: {
+          args: Prisma.StockNotificationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.StockNotificationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload>[]
+        }
+        delete: {
+          args: Prisma.StockNotificationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload>
+        }
+        update: {
+          args: Prisma.StockNotificationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload>
+        }
+        deleteMany: {
+          args: Prisma.StockNotificationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.StockNotificationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.StockNotificationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload>[]
+        }
+        upsert: {
+          args: Prisma.StockNotificationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StockNotificationPayload>
+        }
+        aggregate: {
+          args: Prisma.StockNotificationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateStockNotification>
+        }
+        groupBy: {
+          args: Prisma.StockNotificationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StockNotificationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.StockNotificationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StockNotificationCountAggregateOutputType> | number
+        }
+      }
+    }
+    LaunchNotification: {
+      payload: Prisma.$LaunchNotificationPayload<ExtArgs>
+      fields: Prisma.LaunchNotificationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.LaunchNotificationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.LaunchNotificationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload>
+        }
+        findFirst: {
+          args: Prisma.LaunchNotificationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.LaunchNotificationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload>
+        }
+        findMany: {
+          args: Prisma.LaunchNotificationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload>[]
+        }
+        create: {
+          args: Prisma.LaunchNotificationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload>
+        }
+        createMany: {
+          args: Prisma.LaunchNotificationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.LaunchNotificationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload>[]
+        }
+        delete: {
+          args: Prisma.LaunchNotificationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload>
+        }
+        update: {
+          args: Prisma.LaunchNotificationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload>
+        }
+        deleteMany: {
+          args: Prisma.LaunchNotificationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.LaunchNotificationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.LaunchNotificationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload>[]
+        }
+        upsert: {
+          args: Prisma.LaunchNotificationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LaunchNotificationPayload>
+        }
+        aggregate: {
+          args: Prisma.LaunchNotificationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateLaunchNotification>
+        }
+        groupBy: {
+          args: Prisma.LaunchNotificationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.LaunchNotificationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.LaunchNotificationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.LaunchNotificationCountAggregateOutputType> | number
+        }
+      }
+    }
+    AuditLog: {
+      payload: Prisma.$AuditLogPayload<ExtArgs>
+      fields: Prisma.AuditLogFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AuditLogFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AuditLogFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
+        }
+        findFirst: {
+          args: Prisma.AuditLogFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AuditLogFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
+        }
+        findMany: {
+          args: Prisma.AuditLogFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>[]
+        }
+        create: {
+          args: Prisma.AuditLogCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
+        }
+        createMany: {
+          args: Prisma.AuditLogCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AuditLogCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>[]
+        }
+        delete: {
+          args: Prisma.AuditLogDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
+        }
+        update: {
+          args: Prisma.AuditLogUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
+        }
+        deleteMany: {
+          args: Prisma.AuditLogDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AuditLogUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AuditLogUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>[]
+        }
+        upsert: {
+          args: Prisma.AuditLogUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
+        }
+        aggregate: {
+          args: Prisma.AuditLogAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAuditLog>
+        }
+        groupBy: {
+          args: Prisma.AuditLogGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AuditLogGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AuditLogCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AuditLogCountAggregateOutputType> | number
+        }
+      }
+    }
+    ReturnRequest: {
+      payload: Prisma.$ReturnRequestPayload<ExtArgs>
+      fields: Prisma.ReturnRequestFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ReturnRequestFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ReturnRequestFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload>
+        }
+        findFirst: {
+          args: Prisma.ReturnRequestFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ReturnRequestFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload>
+        }
+        findMany: {
+          args: Prisma.ReturnRequestFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload>[]
+        }
+        create: {
+          args: Prisma.ReturnRequestCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload>
+        }
+        createMany: {
+          args: Prisma.ReturnRequestCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ReturnRequestCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload>[]
+        }
+        delete: {
+          args: Prisma.ReturnRequestDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload>
+        }
+        update: {
+          args: Prisma.ReturnRequestUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload>
+        }
+        deleteMany: {
+          args: Prisma.ReturnRequestDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ReturnRequestUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ReturnRequestUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload>[]
+        }
+        upsert: {
+          args: Prisma.ReturnRequestUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestPayload>
+        }
+        aggregate: {
+          args: Prisma.ReturnRequestAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateReturnRequest>
+        }
+        groupBy: {
+          args: Prisma.ReturnRequestGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReturnRequestGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ReturnRequestCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReturnRequestCountAggregateOutputType> | number
+        }
+      }
+    }
+    ReturnRequestItem: {
+      payload: Prisma.$ReturnRequestItemPayload<ExtArgs>
+      fields: Prisma.ReturnRequestItemFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ReturnRequestItemFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ReturnRequestItemFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload>
+        }
+        findFirst: {
+          args: Prisma.ReturnRequestItemFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ReturnRequestItemFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload>
+        }
+        findMany: {
+          args: Prisma.ReturnRequestItemFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload>[]
+        }
+        create: {
+          args: Prisma.ReturnRequestItemCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload>
+        }
+        createMany: {
+          args: Prisma.ReturnRequestItemCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ReturnRequestItemCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload>[]
+        }
+        delete: {
+          args: Prisma.ReturnRequestItemDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload>
+        }
+        update: {
+          args: Prisma.ReturnRequestItemUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload>
+        }
+        deleteMany: {
+          args: Prisma.ReturnRequestItemDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ReturnRequestItemUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ReturnRequestItemUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload>[]
+        }
+        upsert: {
+          args: Prisma.ReturnRequestItemUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReturnRequestItemPayload>
+        }
+        aggregate: {
+          args: Prisma.ReturnRequestItemAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateReturnRequestItem>
+        }
+        groupBy: {
+          args: Prisma.ReturnRequestItemGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReturnRequestItemGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ReturnRequestItemCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReturnRequestItemCountAggregateOutputType> | number
+        }
+      }
+    }
+    HeroSlide: {
+      payload: Prisma.$HeroSlidePayload<ExtArgs>
+      fields: Prisma.HeroSlideFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.HeroSlideFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.HeroSlideFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+        }
+        findFirst: {
+          args: Prisma.HeroSlideFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.HeroSlideFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+        }
+        findMany: {
+          args: Prisma.HeroSlideFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>[]
+        }
+        create: {
+          args: Prisma.HeroSlideCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+        }
+        createMany: {
+          args: Prisma.HeroSlideCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.HeroSlideCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>[]
+        }
+        delete: {
+          args: Prisma.HeroSlideDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+        }
+        update: {
+          args: Prisma.HeroSlideUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+        }
+        deleteMany: {
+          args: Prisma.HeroSlideDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.HeroSlideUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.HeroSlideUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>[]
+        }
+        upsert: {
+          args: Prisma.HeroSlideUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+        }
+        aggregate: {
+          args: Prisma.HeroSlideAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateHeroSlide>
+        }
+        groupBy: {
+          args: Prisma.HeroSlideGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.HeroSlideGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.HeroSlideCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.HeroSlideCountAggregateOutputType> | number
+        }
+      }
+    }
+    SizeChart: {
+      payload: Prisma.$SizeChartPayload<ExtArgs>
+      fields: Prisma.SizeChartFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SizeChartFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SizeChartFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+        }
+        findFirst: {
+          args: Prisma.SizeChartFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SizeChartFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+        }
+        findMany: {
+          args: Prisma.SizeChartFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>[]
+        }
+        create: {
+          args: Prisma.SizeChartCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+        }
+        createMany: {
+          args: Prisma.SizeChartCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SizeChartCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>[]
+        }
+        delete: {
+          args: Prisma.SizeChartDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+        }
+        update: {
+          args: Prisma.SizeChartUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+        }
+        deleteMany: {
+          args: Prisma.SizeChartDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SizeChartUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SizeChartUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>[]
+        }
+        upsert: {
+          args: Prisma.SizeChartUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+        }
+        aggregate: {
+          args: Prisma.SizeChartAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSizeChart>
+        }
+        groupBy: {
+          args: Prisma.SizeChartGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SizeChartGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SizeChartCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SizeChartCountAggregateOutputType> | number
+        }
+      }
+    }
+    SizeChartRow: {
+      payload: Prisma.$SizeChartRowPayload<ExtArgs>
+      fields: Prisma.SizeChartRowFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SizeChartRowFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SizeChartRowFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+        }
+        findFirst: {
+          args: Prisma.SizeChartRowFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SizeChartRowFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+        }
+        findMany: {
+          args: Prisma.SizeChartRowFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>[]
+        }
+        create: {
+          args: Prisma.SizeChartRowCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+        }
+        createMany: {
+          args: Prisma.SizeChartRowCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SizeChartRowCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>[]
+        }
+        delete: {
+          args: Prisma.SizeChartRowDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+        }
+        update: {
+          args: Prisma.SizeChartRowUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+        }
+        deleteMany: {
+          args: Prisma.SizeChartRowDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SizeChartRowUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SizeChartRowUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>[]
+        }
+        upsert: {
+          args: Prisma.SizeChartRowUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+        }
+        aggregate: {
+          args: Prisma.SizeChartRowAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSizeChartRow>
+        }
+        groupBy: {
+          args: Prisma.SizeChartRowGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SizeChartRowGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SizeChartRowCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SizeChartRowCountAggregateOutputType> | number
+        }
+      }
+    }
+    Promotion: {
+      payload: Prisma.$PromotionPayload<ExtArgs>
+      fields: Prisma.PromotionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PromotionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PromotionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload>
+        }
+        findFirst: {
+          args: Prisma.PromotionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PromotionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload>
+        }
+        findMany: {
+          args: Prisma.PromotionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload>[]
+        }
+        create: {
+          args: Prisma.PromotionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload>
+        }
+        createMany: {
+          args: Prisma.PromotionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PromotionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload>[]
+        }
+        delete: {
+          args: Prisma.PromotionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload>
+        }
+        update: {
+          args: Prisma.PromotionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload>
+        }
+        deleteMany: {
+          args: Prisma.PromotionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PromotionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PromotionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload>[]
+        }
+        upsert: {
+          args: Prisma.PromotionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionPayload>
+        }
+        aggregate: {
+          args: Prisma.PromotionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePromotion>
+        }
+        groupBy: {
+          args: Prisma.PromotionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PromotionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PromotionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PromotionCountAggregateOutputType> | number
+        }
+      }
+    }
+    PromotionRedemption: {
+      payload: Prisma.$PromotionRedemptionPayload<ExtArgs>
+      fields: Prisma.PromotionRedemptionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PromotionRedemptionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PromotionRedemptionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload>
+        }
+        findFirst: {
+          args: Prisma.PromotionRedemptionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PromotionRedemptionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload>
+        }
+        findMany: {
+          args: Prisma.PromotionRedemptionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload>[]
+        }
+        create: {
+          args: Prisma.PromotionRedemptionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload>
+        }
+        createMany: {
+          args: Prisma.PromotionRedemptionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PromotionRedemptionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload>[]
+        }
+        delete: {
+          args: Prisma.PromotionRedemptionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload>
+        }
+        update: {
+          args: Prisma.PromotionRedemptionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload>
+        }
+        deleteMany: {
+          args: Prisma.PromotionRedemptionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PromotionRedemptionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PromotionRedemptionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload>[]
+        }
+        upsert: {
+          args: Prisma.PromotionRedemptionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromotionRedemptionPayload>
+        }
+        aggregate: {
+          args: Prisma.PromotionRedemptionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePromotionRedemption>
+        }
+        groupBy: {
+          args: Prisma.PromotionRedemptionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PromotionRedemptionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PromotionRedemptionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PromotionRedemptionCountAggregateOutputType> | number
+        }
+      }
+    }
+    PricingRule: {
+      payload: Prisma.$PricingRulePayload<ExtArgs>
+      fields: Prisma.PricingRuleFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PricingRuleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PricingRuleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
+        }
+        findFirst: {
+          args: Prisma.PricingRuleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PricingRuleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
+        }
+        findMany: {
+          args: Prisma.PricingRuleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>[]
+        }
+        create: {
+          args: Prisma.PricingRuleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
+        }
+        createMany: {
+          args: Prisma.PricingRuleCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PricingRuleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>[]
+        }
+        delete: {
+          args: Prisma.PricingRuleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
+        }
+        update: {
+          args: Prisma.PricingRuleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
+        }
+        deleteMany: {
+          args: Prisma.PricingRuleDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PricingRuleUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PricingRuleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>[]
+        }
+        upsert: {
+          args: Prisma.PricingRuleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
+        }
+        aggregate: {
+          args: Prisma.PricingRuleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePricingRule>
+        }
+        groupBy: {
+          args: Prisma.PricingRuleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PricingRuleGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PricingRuleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PricingRuleCountAggregateOutputType> | number
+        }
+      }
+    }
+    RepriceRun: {
+      payload: Prisma.$RepriceRunPayload<ExtArgs>
+      fields: Prisma.RepriceRunFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.RepriceRunFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.RepriceRunFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload>
+        }
+        findFirst: {
+          args: Prisma.RepriceRunFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.RepriceRunFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload>
+        }
+        findMany: {
+          args: Prisma.RepriceRunFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload>[]
+        }
+        create: {
+          args: Prisma.RepriceRunCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload>
+        }
+        createMany: {
+          args: Prisma.RepriceRunCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.RepriceRunCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload>[]
+        }
+        delete: {
+          args: Prisma.RepriceRunDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload>
+        }
+        update: {
+          args: Prisma.RepriceRunUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload>
+        }
+        deleteMany: {
+          args: Prisma.RepriceRunDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.RepriceRunUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.RepriceRunUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload>[]
+        }
+        upsert: {
+          args: Prisma.RepriceRunUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RepriceRunPayload>
+        }
+        aggregate: {
+          args: Prisma.RepriceRunAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRepriceRun>
+        }
+        groupBy: {
+          args: Prisma.RepriceRunGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RepriceRunGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.RepriceRunCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RepriceRunCountAggregateOutputType> | number
+        }
+      }
+    }
+    PriceChange: {
+      payload: Prisma.$PriceChangePayload<ExtArgs>
+      fields: Prisma.PriceChangeFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PriceChangeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PriceChangeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload>
+        }
+        findFirst: {
+          args: Prisma.PriceChangeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PriceChangeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload>
+        }
+        findMany: {
+          args: Prisma.PriceChangeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload>[]
+        }
+        create: {
+          args: Prisma.PriceChangeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload>
+        }
+        createMany: {
+          args: Prisma.PriceChangeCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PriceChangeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload>[]
+        }
+        delete: {
+          args: Prisma.PriceChangeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload>
+        }
+        update: {
+          args: Prisma.PriceChangeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload>
+        }
+        deleteMany: {
+          args: Prisma.PriceChangeDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PriceChangeUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PriceChangeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload>[]
+        }
+        upsert: {
+          args: Prisma.PriceChangeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PriceChangePayload>
+        }
+        aggregate: {
+          args: Prisma.PriceChangeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePriceChange>
+        }
+        groupBy: {
+          args: Prisma.PriceChangeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PriceChangeGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PriceChangeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PriceChangeCountAggregateOutputType> | number
+        }
+      }
+    }
+    Shipment: {
+      payload: Prisma.$ShipmentPayload<ExtArgs>
+      fields: Prisma.ShipmentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ShipmentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ShipmentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+        }
+        findFirst: {
+          args: Prisma.ShipmentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ShipmentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+        }
+        findMany: {
+          args: Prisma.ShipmentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>[]
+        }
+        create: {
+          args: Prisma.ShipmentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+        }
+        createMany: {
+          args: Prisma.ShipmentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ShipmentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>[]
+        }
+        delete: {
+          args: Prisma.ShipmentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+        }
+        update: {
+          args: Prisma.ShipmentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+        }
+        deleteMany: {
+          args: Prisma.ShipmentDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.WebhookEventUpdateManyArgs<ExtArgs>
+          args: Prisma.ShipmentUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.WebhookEventUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>[]
+          args: Prisma.ShipmentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>[]
         }
         upsert: {
-          args: Prisma.WebhookEventUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$WebhookEventPayload>
+          args: Prisma.ShipmentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
         }
         aggregate: {
-          args: Prisma.WebhookEventAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateWebhookEvent>
+          args: Prisma.ShipmentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShipment>
         }
         groupBy: {
-          args: Prisma.WebhookEventGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.WebhookEventGroupByOutputType>[]
+          args: Prisma.ShipmentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShipmentGroupByOutputType>[]
         }
         count: {
-          args: Prisma.WebhookEventCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.WebhookEventCountAggregateOutputType> | number
+          args: Prisma.ShipmentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShipmentCountAggregateOutputType> | number
         }
       }
     }
-    OrphanPayment: {
-      payload: Prisma.$OrphanPaymentPayload<ExtArgs>
-      fields: Prisma.OrphanPaymentFieldRefs
+    ShipmentItem: {
+      payload: Prisma.$ShipmentItemPayload<ExtArgs>
+      fields: Prisma.ShipmentItemFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.OrphanPaymentFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload> | null
+          args: Prisma.ShipmentItemFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.OrphanPaymentFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+          args: Prisma.ShipmentItemFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload>
         }
         findFirst: {
-          args: Prisma.OrphanPaymentFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload> | null
+          args: Prisma.ShipmentItemFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.OrphanPaymentFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+          args: Prisma.ShipmentItemFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload>
         }
         findMany: {
-          args: Prisma.OrphanPaymentFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>[]
+          args: Prisma.ShipmentItemFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload>[]
         }
         create: {
-          args: Prisma.OrphanPaymentCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+          args: Prisma.ShipmentItemCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload>
         }
         createMany: {
-          args: Prisma.OrphanPaymentCreateManyArgs<ExtArgs>
+          args: Prisma.ShipmentItemCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.OrphanPaymentCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>[]
+          args: Prisma.ShipmentItemCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload>[]
         }
         delete: {
-          args: Prisma.OrphanPaymentDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+          args: Prisma.ShipmentItemDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload>
         }
         update: {
-          args: Prisma.OrphanPaymentUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+          args: Prisma.ShipmentItemUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload>
         }
         deleteMany: {
-          args: Prisma.OrphanPaymentDeleteManyArgs<ExtArgs>
+          args: Prisma.ShipmentItemDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.OrphanPaymentUpdateManyArgs<ExtArgs>
+          args: Prisma.ShipmentItemUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.OrphanPaymentUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>[]
+          args: Prisma.ShipmentItemUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload>[]
         }
         upsert: {
-          args: Prisma.OrphanPaymentUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrphanPaymentPayload>
+          args: Prisma.ShipmentItemUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentItemPayload>
         }
         aggregate: {
-          args: Prisma.OrphanPaymentAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateOrphanPayment>
+          args: Prisma.ShipmentItemAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShipmentItem>
         }
         groupBy: {
-          args: Prisma.OrphanPaymentGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.OrphanPaymentGroupByOutputType>[]
+          args: Prisma.ShipmentItemGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShipmentItemGroupByOutputType>[]
         }
         count: {
-          args: Prisma.OrphanPaymentCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.OrphanPaymentCountAggregateOutputType> | number
+          args: Prisma.ShipmentItemCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShipmentItemCountAggregateOutputType> | number
         }
       }
     }
-    HeroSlide: {
-      payload: Prisma.$HeroSlidePayload<ExtArgs>
-      fields: Prisma.HeroSlideFieldRefs
+    PickupLocation: {
+      payload: Prisma.$PickupLocationPayload<ExtArgs>
+      fields: Prisma.PickupLocationFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.HeroSlideFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload> | null
+          args: Prisma.PickupLocationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.HeroSlideFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+          args: Prisma.PickupLocationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload>
         }
         findFirst: {
-          args: Prisma.HeroSlideFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload> | null
+          args: Prisma.PickupLocationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.HeroSlideFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+          args: Prisma.PickupLocationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload>
         }
         findMany: {
-          args: Prisma.HeroSlideFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>[]
+          args: Prisma.PickupLocationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload>[]
         }
         create: {
-          args: Prisma.HeroSlideCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+          args: Prisma.PickupLocationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload>
         }
         createMany: {
-          args: Prisma.HeroSlideCreateManyArgs<ExtArgs>
+          args: Prisma.PickupLocationCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.HeroSlideCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>[]
+          args: Prisma.PickupLocationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload>[]
         }
         delete: {
-          args: Prisma.HeroSlideDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+          args: Prisma.PickupLocationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload>
         }
         update: {
-          args: Prisma.HeroSlideUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+          args: Prisma.PickupLocationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload>
         }
         deleteMany: {
-          args: Prisma.HeroSlideDeleteManyArgs<ExtArgs>
+          args: Prisma.PickupLocationDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.HeroSlideUpdateManyArgs<ExtArgs>
+          args: Prisma.PickupLocationUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.HeroSlideUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>[]
+          args: Prisma.PickupLocationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload>[]
         }
         upsert: {
-          args: Prisma.HeroSlideUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$HeroSlidePayload>
+          args: Prisma.PickupLocationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PickupLocationPayload>
         }
         aggregate: {
-          args: Prisma.HeroSlideAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateHeroSlide>
+          args: Prisma.PickupLocationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePickupLocation>
         }
         groupBy: {
-          args: Prisma.HeroSlideGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.HeroSlideGroupByOutputType>[]
+          args: Prisma.PickupLocationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PickupLocationGroupByOutputType>[]
         }
         count: {
-          args: Prisma.HeroSlideCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.HeroSlideCountAggregateOutputType> | number
+          args: Prisma.PickupLocationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PickupLocationCountAggregateOutputType> | number
         }
       }
     }
-    SizeChart: {
-      payload: Prisma.$SizeChartPayload<ExtArgs>
-      fields: Prisma.SizeChartFieldRefs
+    OrderPickup: {
+      payload: Prisma.$OrderPickupPayload<ExtArgs>
+      fields: Prisma.OrderPickupFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.SizeChartFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload> | null
+          args: Prisma.OrderPickupFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.SizeChartFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+          args: Prisma.OrderPickupFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload>
         }
         findFirst: {
-          args: Prisma.SizeChartFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload> | null
+          args: Prisma.OrderPickupFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.SizeChartFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+          args: Prisma.OrderPickupFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload>
         }
         findMany: {
-          args: Prisma.SizeChartFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>[]
+          args: Prisma.OrderPickupFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload>[]
         }
         create: {
-          args: Prisma.SizeChartCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+          args: Prisma.OrderPickupCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload>
         }
         createMany: {
-          args: Prisma.SizeChartCreateManyArgs<ExtArgs>
+          args: Prisma.OrderPickupCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.SizeChartCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>[]
+          args: Prisma.OrderPickupCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload>[]
         }
         delete: {
-          args: Prisma.SizeChartDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+          args: Prisma.OrderPickupDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload>
         }
         update: {
-          args: Prisma.SizeChartUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+          args: Prisma.OrderPickupUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload>
         }
         deleteMany: {
-          args: Prisma.SizeChartDeleteManyArgs<ExtArgs>
+          args: Prisma.OrderPickupDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.SizeChartUpdateManyArgs<ExtArgs>
+          args: Prisma.OrderPickupUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.SizeChartUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>[]
+          args: Prisma.OrderPickupUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload>[]
         }
         upsert: {
-          args: Prisma.SizeChartUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartPayload>
+          args: Prisma.OrderPickupUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPickupPayload>
         }
         aggregate: {
-          args: Prisma.SizeChartAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateSizeChart>
+          args: Prisma.OrderPickupAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOrderPickup>
         }
         groupBy: {
-          args: Prisma.SizeChartGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SizeChartGroupByOutputType>[]
+          args: Prisma.OrderPickupGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrderPickupGroupByOutputType>[]
         }
         count: {
-          args: Prisma.SizeChartCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SizeChartCountAggregateOutputType> | number
+          args: Prisma.OrderPickupCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrderPickupCountAggregateOutputType> | number
         }
       }
     }
-    SizeChartRow: {
-      payload: Prisma.$SizeChartRowPayload<ExtArgs>
-      fields: Prisma.SizeChartRowFieldRefs
+    ShipmentEvent: {
+      payload: Prisma.$ShipmentEventPayload<ExtArgs>
+      fields: Prisma.ShipmentEventFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.SizeChartRowFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload> | null
+          args: Prisma.ShipmentEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.SizeChartRowFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+          args: Prisma.ShipmentEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload>
         }
         findFirst: {
-          args: Prisma.SizeChartRowFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload> | null
+          args: Prisma.ShipmentEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.SizeChartRowFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+          args: Prisma.ShipmentEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload>
         }
         findMany: {
-          args: Prisma.SizeChartRowFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>[]
+          args: Prisma.ShipmentEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload>[]
         }
         create: {
-          args: Prisma.SizeChartRowCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+          args: Prisma.ShipmentEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload>
         }
         createMany: {
-          args: Prisma.SizeChartRowCreateManyArgs<ExtArgs>
+          args: Prisma.ShipmentEventCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.SizeChartRowCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>[]
+          args: Prisma.ShipmentEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload>[]
         }
         delete: {
-          args: Prisma.SizeChartRowDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+          args: Prisma.ShipmentEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload>
         }
         update: {
-          args: Prisma.SizeChartRowUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+          args: Prisma.ShipmentEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload>
         }
         deleteMany: {
-          args: Prisma.SizeChartRowDeleteManyArgs<ExtArgs>
+          args: Prisma.ShipmentEventDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.SizeChartRowUpdateManyArgs<ExtArgs>
+          args: Prisma.ShipmentEventUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.SizeChartRowUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>[]
+          args: Prisma.ShipmentEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload>[]
         }
         upsert: {
-          args: Prisma.SizeChartRowUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SizeChartRowPayload>
+          args: Prisma.ShipmentEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentEventPayload>
         }
         aggregate: {
-          args: Prisma.SizeChartRowAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateSizeChartRow>
+          args: Prisma.ShipmentEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShipmentEvent>
         }
         groupBy: {
-          args: Prisma.SizeChartRowGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SizeChartRowGroupByOutputType>[]
+          args: Prisma.ShipmentEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShipmentEventGroupByOutputType>[]
         }
         count: {
-          args: Prisma.SizeChartRowCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SizeChartRowCountAggregateOutputType> | number
+          args: Prisma.ShipmentEventCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShipmentEventCountAggregateOutputType> | number
         }
       }
     }
-    Shipment: {
-      payload: Prisma.$ShipmentPayload<ExtArgs>
-      fields: Prisma.ShipmentFieldRefs
+    FxRateSnapshot: {
+      payload: Prisma.$FxRateSnapshotPayload<ExtArgs>
+      fields: Prisma.FxRateSnapshotFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ShipmentFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload> | null
+          args: Prisma.FxRateSnapshotFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ShipmentFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+          args: Prisma.FxRateSnapshotFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload>
         }
         findFirst: {
-          args: Prisma.ShipmentFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload> | null
+          args: Prisma.FxRateSnapshotFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ShipmentFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+          args: Prisma.FxRateSnapshotFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload>
         }
         findMany: {
-          args: Prisma.ShipmentFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>[]
+          args: Prisma.FxRateSnapshotFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload>[]
         }
         create: {
-          args: Prisma.ShipmentCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+          args: Prisma.FxRateSnapshotCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload>
         }
         createMany: {
-          args: Prisma.ShipmentCreateManyArgs<ExtArgs>
+          args: Prisma.FxRateSnapshotCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ShipmentCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>[]
+          args: Prisma.FxRateSnapshotCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload>[]
         }
         delete: {
-          args: Prisma.ShipmentDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+          args: Prisma.FxRateSnapshotDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload>
         }
         update: {
-          args: Prisma.ShipmentUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+          args: Prisma.FxRateSnapshotUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload>
         }
         deleteMany: {
-          args: Prisma.ShipmentDeleteManyArgs<ExtArgs>
+          args: Prisma.FxRateSnapshotDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ShipmentUpdateManyArgs<ExtArgs>
+          args: Prisma.FxRateSnapshotUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ShipmentUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>[]
+          args: Prisma.FxRateSnapshotUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload>[]
         }
         upsert: {
-          args: Prisma.ShipmentUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShipmentPayload>
+          args: Prisma.FxRateSnapshotUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FxRateSnapshotPayload>
         }
         aggregate: {
-          args: Prisma.ShipmentAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateShipment>
+          args: Prisma.FxRateSnapshotAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateFxRateSnapshot>
         }
         groupBy: {
-          args: Prisma.ShipmentGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ShipmentGroupByOutputType>[]
+          args: Prisma.FxRateSnapshotGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FxRateSnapshotGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ShipmentCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ShipmentCountAggregateOutputType> | number
+          args: Prisma.FxRateSnapshotCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FxRateSnapshotCountAggregateOutputType> | number
         }
       }
     }
@@ -2017,11 +3817,18 @@ export const ProductScalarFieldEnum = {
   priceUSD: 'priceUSD',
   priceEUR: 'priceEUR',
   priceGBP: 'priceGBP',
+  compareAtNGN: 'compareAtNGN',
+  compareAtUSD: 'compareAtUSD',
+  compareAtEUR: 'compareAtEUR',
+  compareAtGBP: 'compareAtGBP',
   sizeMods: 'sizeMods',
   status: 'status',
+  publishAt: 'publishAt',
+  unpublishAt: 'unpublishAt',
   videoUrl: 'videoUrl',
   averageRating: 'averageRating',
   ratingCount: 'ratingCount',
+  lowStockThreshold: 'lowStockThreshold',
   createdAt: 'createdAt'
 } as const
 
@@ -2035,6 +3842,17 @@ export const VariantScalarFieldEnum = {
   size: 'size',
   stock: 'stock',
   weight: 'weight',
+  lowStockThreshold: 'lowStockThreshold',
+  sku: 'sku',
+  barcode: 'barcode',
+  priceNGN: 'priceNGN',
+  priceUSD: 'priceUSD',
+  priceEUR: 'priceEUR',
+  priceGBP: 'priceGBP',
+  compareAtNGN: 'compareAtNGN',
+  compareAtUSD: 'compareAtUSD',
+  compareAtEUR: 'compareAtEUR',
+  compareAtGBP: 'compareAtGBP',
   createdAt: 'createdAt'
 } as const
 
@@ -2058,6 +3876,7 @@ export const DeliveryOptionScalarFieldEnum = {
   id: 'id',
   name: 'name',
   provider: 'provider',
+  carrier: 'carrier',
   pricingMode: 'pricingMode',
   baseFee: 'baseFee',
   baseCurrency: 'baseCurrency',
@@ -2070,6 +3889,39 @@ export const DeliveryOptionScalarFieldEnum = {
 export type DeliveryOptionScalarFieldEnum = (typeof DeliveryOptionScalarFieldEnum)[keyof typeof DeliveryOptionScalarFieldEnum]
 
 
+export const ShippingZoneScalarFieldEnum = {
+  id: 'id',
+  deliveryOptionId: 'deliveryOptionId',
+  name: 'name',
+  countries: 'countries',
+  states: 'states',
+  feeNGN: 'feeNGN',
+  feeUSD: 'feeUSD',
+  feeEUR: 'feeEUR',
+  feeGBP: 'feeGBP',
+  freeOverNGN: 'freeOverNGN',
+  freeOverUSD: 'freeOverUSD',
+  freeOverEUR: 'freeOverEUR',
+  freeOverGBP: 'freeOverGBP',
+  active: 'active'
+} as const
+
+export type ShippingZoneScalarFieldEnum = (typeof ShippingZoneScalarFieldEnum)[keyof typeof ShippingZoneScalarFieldEnum]
+
+
+export const ShippingWeightBandScalarFieldEnum = {
+  id: 'id',
+  zoneId: 'zoneId',
+  maxWeightKg: 'maxWeightKg',
+  feeNGN: 'feeNGN',
+  feeUSD: 'feeUSD',
+  feeEUR: 'feeEUR',
+  feeGBP: 'feeGBP'
+} as const
+
+export type ShippingWeightBandScalarFieldEnum = (typeof ShippingWeightBandScalarFieldEnum)[keyof typeof ShippingWeightBandScalarFieldEnum]
+
+
 export const OrderScalarFieldEnum = {
   id: 'id',
   status: 'status',
@@ -2091,7 +3943,13 @@ export const OrderScalarFieldEnum = {
   refundedAt: 'refundedAt',
   refundReason: 'refundReason',
   refundTransactionId: 'refundTransactionId',
-  refundStatus: 'refundStatus'
+  refundStatus: 'refundStatus',
+  promotionId: 'promotionId',
+  discountCode: 'discountCode',
+  discountAmount: 'discountAmount',
+  discountDetails: 'discountDetails',
+  fxRateToNGN: 'fxRateToNGN',
+  fxSnapshotId: 'fxSnapshotId'
 } as const
 
 export type OrderScalarFieldEnum = (typeof OrderScalarFieldEnum)[keyof typeof OrderScalarFieldEnum]
@@ -2102,11 +3960,14 @@ export const OrderItemScalarFieldEnum = {
   orderId: 'orderId',
   variantId: 'variantId',
   name: 'name',
+  sku: 'sku',
   image: 'image',
   category: 'category',
   quantity: 'quantity',
   currency: 'currency',
   lineTotal: 'lineTotal',
+  unitPrice: 'unitPrice',
+  compareAtPrice: 'compareAtPrice',
   color: 'color',
   size: 'size',
   hasSizeMod: 'hasSizeMod',
@@ -2117,6 +3978,39 @@ export const OrderItemScalarFieldEnum = {
 export type OrderItemScalarFieldEnum = (typeof OrderItemScalarFieldEnum)[keyof typeof OrderItemScalarFieldEnum]
 
 
+export const OrderRefundScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  amount: 'amount',
+  currency: 'currency',
+  amountNGN: 'amountNGN',
+  reason: 'reason',
+  status: 'status',
+  provider: 'provider',
+  providerRefundId: 'providerRefundId',
+  failureReason: 'failureReason',
+  processedAt: 'processedAt',
+  creditNoteSentAt: 'creditNoteSentAt',
+  staffId: 'staffId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type OrderRefundScalarFieldEnum = (typeof OrderRefundScalarFieldEnum)[keyof typeof OrderRefundScalarFieldEnum]
+
+
+export const OrderRefundItemScalarFieldEnum = {
+  id: 'id',
+  refundId: 'refundId',
+  orderItemId: 'orderItemId',
+  quantity: 'quantity',
+  amount: 'amount',
+  restock: 'restock'
+} as const
+
+export type OrderRefundItemScalarFieldEnum = (typeof OrderRefundItemScalarFieldEnum)[keyof typeof OrderRefundItemScalarFieldEnum]
+
+
 export const OfflineSaleScalarFieldEnum = {
   id: 'id',
   orderId: 'orderId',
@@ -2124,17 +4018,69 @@ export const OfflineSaleScalarFieldEnum = {
   timestamp: 'timestamp'
 } as const
 
-export type OfflineSaleScalarFieldEnum = (typeof OfflineSaleScalarFieldEnum)[keyof typeof OfflineSaleScalarFieldEnum]
+export type OfflineSaleScalarFieldEnum = (typeof OfflineSaleScalarFieldEnum)[keyof typeof OfflineSaleScalarFieldEnum]
+
+
+export const WishlistItemScalarFieldEnum = {
+  id: 'id',
+  customerId: 'customerId',
+  productId: 'productId',
+  addedAt: 'addedAt'
+} as const
+
+export type WishlistItemScalarFieldEnum = (typeof WishlistItemScalarFieldEnum)[keyof typeof WishlistItemScalarFieldEnum]
+
+
+export const CartScalarFieldEnum = {
+  id: 'id',
+  customerId: 'customerId',
+  currency: 'currency',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CartScalarFieldEnum = (typeof CartScalarFieldEnum)[keyof typeof CartScalarFieldEnum]
+
+
+export const CartItemScalarFieldEnum = {
+  id: 'id',
+  cartId: 'cartId',
+  productId: 'productId',
+  color: 'color',
+  size: 'size',
+  quantity: 'quantity',
+  hasSizeMod: 'hasSizeMod',
+  sizeModFee: 'sizeModFee',
+  customMods: 'customMods',
+  lineKey: 'lineKey',
+  unitPrice: 'unitPrice',
+  currency: 'currency',
+  addedAt: 'addedAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CartItemScalarFieldEnum = (typeof CartItemScalarFieldEnum)[keyof typeof CartItemScalarFieldEnum]
 
 
-export const WishlistItemScalarFieldEnum = {
+export const AbandonedCartScalarFieldEnum = {
   id: 'id',
+  email: 'email',
   customerId: 'customerId',
-  productId: 'productId',
-  addedAt: 'addedAt'
+  currency: 'currency',
+  items: 'items',
+  subtotal: 'subtotal',
+  status: 'status',
+  activityAt: 'activityAt',
+  remindersSent: 'remindersSent',
+  lastRemindedAt: 'lastRemindedAt',
+  restoredAt: 'restoredAt',
+  orderId: 'orderId',
+  orderTotalNGN: 'orderTotalNGN',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt'
 } as const
 
-export type WishlistItemScalarFieldEnum = (typeof WishlistItemScalarFieldEnum)[keyof typeof WishlistItemScalarFieldEnum]
+export type AbandonedCartScalarFieldEnum = (typeof AbandonedCartScalarFieldEnum)[keyof typeof AbandonedCartScalarFieldEnum]
 
 
 export const ReceiptEmailStatusScalarFieldEnum = {
@@ -2176,6 +4122,119 @@ export const OrphanPaymentScalarFieldEnum = {
 export type OrphanPaymentScalarFieldEnum = (typeof OrphanPaymentScalarFieldEnum)[keyof typeof OrphanPaymentScalarFieldEnum]
 
 
+export const StockReservationScalarFieldEnum = {
+  id: 'id',
+  reference: 'reference',
+  variantId: 'variantId',
+  quantity: 'quantity',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  orderId: 'orderId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type StockReservationScalarFieldEnum = (typeof StockReservationScalarFieldEnum)[keyof typeof StockReservationScalarFieldEnum]
+
+
+export const InventoryMovementScalarFieldEnum = {
+  id: 'id',
+  variantId: 'variantId',
+  delta: 'delta',
+  reason: 'reason',
+  balance: 'balance',
+  orderId: 'orderId',
+  staffId: 'staffId',
+  note: 'note',
+  createdAt: 'createdAt'
+} as const
+
+export type InventoryMovementScalarFieldEnum = (typeof InventoryMovementScalarFieldEnum)[keyof typeof InventoryMovementScalarFieldEnum]
+
+
+export const StockNotificationScalarFieldEnum = {
+  id: 'id',
+  variantId: 'variantId',
+  email: 'email',
+  customerId: 'customerId',
+  token: 'token',
+  notifiedAt: 'notifiedAt',
+  unsubscribedAt: 'unsubscribedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type StockNotificationScalarFieldEnum = (typeof StockNotificationScalarFieldEnum)[keyof typeof StockNotificationScalarFieldEnum]
+
+
+export const LaunchNotificationScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  email: 'email',
+  customerId: 'customerId',
+  token: 'token',
+  notifiedAt: 'notifiedAt',
+  unsubscribedAt: 'unsubscribedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type LaunchNotificationScalarFieldEnum = (typeof LaunchNotificationScalarFieldEnum)[keyof typeof LaunchNotificationScalarFieldEnum]
+
+
+export const AuditLogScalarFieldEnum = {
+  id: 'id',
+  staffId: 'staffId',
+  action: 'action',
+  entityType: 'entityType',
+  entityId: 'entityId',
+  before: 'before',
+  after: 'after',
+  createdAt: 'createdAt'
+} as const
+
+export type AuditLogScalarFieldEnum = (typeof AuditLogScalarFieldEnum)[keyof typeof AuditLogScalarFieldEnum]
+
+
+export const ReturnRequestScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  customerId: 'customerId',
+  status: 'status',
+  note: 'note',
+  staffNote: 'staffNote',
+  reviewedById: 'reviewedById',
+  reviewedAt: 'reviewedAt',
+  labelOrderId: 'labelOrderId',
+  labelCourierName: 'labelCourierName',
+  labelTrackingUrl: 'labelTrackingUrl',
+  labelTrackingNumber: 'labelTrackingNumber',
+  labelResponse: 'labelResponse',
+  receivedAt: 'receivedAt',
+  refundId: 'refundId',
+  replacementOrderId: 'replacementOrderId',
+  resolvedAt: 'resolvedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ReturnRequestScalarFieldEnum = (typeof ReturnRequestScalarFieldEnum)[keyof typeof ReturnRequestScalarFieldEnum]
+
+
+export const ReturnRequestItemScalarFieldEnum = {
+  id: 'id',
+  returnId: 'returnId',
+  orderItemId: 'orderItemId',
+  quantity: 'quantity',
+  type: 'type',
+  reason: 'reason',
+  photos: 'photos',
+  exchangeVariantId: 'exchangeVariantId',
+  receivedQty: 'receivedQty',
+  restocked: 'restocked'
+} as const
+
+export type ReturnRequestItemScalarFieldEnum = (typeof ReturnRequestItemScalarFieldEnum)[keyof typeof ReturnRequestItemScalarFieldEnum]
+
+
 export const HeroSlideScalarFieldEnum = {
   id: 'id',
   imageUrl: 'imageUrl',
@@ -2210,6 +4269,91 @@ export const SizeChartRowScalarFieldEnum = {
 export type SizeChartRowScalarFieldEnum = (typeof SizeChartRowScalarFieldEnum)[keyof typeof SizeChartRowScalarFieldEnum]
 
 
+export const PromotionScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  description: 'description',
+  type: 'type',
+  percentOff: 'percentOff',
+  amountOffNGN: 'amountOffNGN',
+  amountOffUSD: 'amountOffUSD',
+  amountOffEUR: 'amountOffEUR',
+  amountOffGBP: 'amountOffGBP',
+  buyQuantity: 'buyQuantity',
+  getQuantity: 'getQuantity',
+  productIds: 'productIds',
+  categorySlugs: 'categorySlugs',
+  minSpendNGN: 'minSpendNGN',
+  minSpendUSD: 'minSpendUSD',
+  minSpendEUR: 'minSpendEUR',
+  minSpendGBP: 'minSpendGBP',
+  usageLimit: 'usageLimit',
+  usageCount: 'usageCount',
+  perCustomerLimit: 'perCustomerLimit',
+  startsAt: 'startsAt',
+  endsAt: 'endsAt',
+  active: 'active',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PromotionScalarFieldEnum = (typeof PromotionScalarFieldEnum)[keyof typeof PromotionScalarFieldEnum]
+
+
+export const PromotionRedemptionScalarFieldEnum = {
+  id: 'id',
+  promotionId: 'promotionId',
+  orderId: 'orderId',
+  customerId: 'customerId',
+  email: 'email',
+  discountAmount: 'discountAmount',
+  currency: 'currency',
+  createdAt: 'createdAt'
+} as const
+
+export type PromotionRedemptionScalarFieldEnum = (typeof PromotionRedemptionScalarFieldEnum)[keyof typeof PromotionRedemptionScalarFieldEnum]
+
+
+export const PricingRuleScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  enabled: 'enabled',
+  markupPercent: 'markupPercent',
+  rounding: 'rounding',
+  autoReprice: 'autoReprice',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PricingRuleScalarFieldEnum = (typeof PricingRuleScalarFieldEnum)[keyof typeof PricingRuleScalarFieldEnum]
+
+
+export const RepriceRunScalarFieldEnum = {
+  id: 'id',
+  staffId: 'staffId',
+  scheduled: 'scheduled',
+  rates: 'rates',
+  productCount: 'productCount',
+  createdAt: 'createdAt'
+} as const
+
+export type RepriceRunScalarFieldEnum = (typeof RepriceRunScalarFieldEnum)[keyof typeof RepriceRunScalarFieldEnum]
+
+
+export const PriceChangeScalarFieldEnum = {
+  id: 'id',
+  runId: 'runId',
+  productId: 'productId',
+  variantId: 'variantId',
+  field: 'field',
+  currency: 'currency',
+  oldPrice: 'oldPrice',
+  newPrice: 'newPrice',
+  createdAt: 'createdAt'
+} as const
+
+export type PriceChangeScalarFieldEnum = (typeof PriceChangeScalarFieldEnum)[keyof typeof PriceChangeScalarFieldEnum]
+
+
 export const ShipmentScalarFieldEnum = {
   id: 'id',
   orderId: 'orderId',
@@ -2252,6 +4396,78 @@ export const ShipmentScalarFieldEnum = {
 export type ShipmentScalarFieldEnum = (typeof ShipmentScalarFieldEnum)[keyof typeof ShipmentScalarFieldEnum]
 
 
+export const ShipmentItemScalarFieldEnum = {
+  id: 'id',
+  shipmentId: 'shipmentId',
+  orderItemId: 'orderItemId',
+  quantity: 'quantity'
+} as const
+
+export type ShipmentItemScalarFieldEnum = (typeof ShipmentItemScalarFieldEnum)[keyof typeof ShipmentItemScalarFieldEnum]
+
+
+export const PickupLocationScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  address: 'address',
+  city: 'city',
+  state: 'state',
+  country: 'country',
+  phone: 'phone',
+  openingHours: 'openingHours',
+  prepTimeHours: 'prepTimeHours',
+  instructions: 'instructions',
+  active: 'active',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PickupLocationScalarFieldEnum = (typeof PickupLocationScalarFieldEnum)[keyof typeof PickupLocationScalarFieldEnum]
+
+
+export const OrderPickupScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  locationId: 'locationId',
+  codeHash: 'codeHash',
+  failedAttempts: 'failedAttempts',
+  readyAt: 'readyAt',
+  collectedAt: 'collectedAt',
+  collectedById: 'collectedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type OrderPickupScalarFieldEnum = (typeof OrderPickupScalarFieldEnum)[keyof typeof OrderPickupScalarFieldEnum]
+
+
+export const ShipmentEventScalarFieldEnum = {
+  id: 'id',
+  shipmentId: 'shipmentId',
+  status: 'status',
+  providerStatus: 'providerStatus',
+  description: 'description',
+  location: 'location',
+  occurredAt: 'occurredAt',
+  source: 'source',
+  createdAt: 'createdAt'
+} as const
+
+export type ShipmentEventScalarFieldEnum = (typeof ShipmentEventScalarFieldEnum)[keyof typeof ShipmentEventScalarFieldEnum]
+
+
+export const FxRateSnapshotScalarFieldEnum = {
+  id: 'id',
+  base: 'base',
+  rates: 'rates',
+  source: 'source',
+  providerUpdatedAt: 'providerUpdatedAt',
+  fetchedAt: 'fetchedAt'
+} as const
+
+export type FxRateSnapshotScalarFieldEnum = (typeof FxRateSnapshotScalarFieldEnum)[keyof typeof FxRateSnapshotScalarFieldEnum]
+
+
 export const ProductSerialScalarFieldEnum = {
   id: 'id'
 } as const
@@ -2425,6 +4641,20 @@ export type ListEnumProductStatusFieldRefInput<$PrismaModel> = FieldRefInputType
     
 
 
+/**
+ * Reference to a field of type 'ShipmentProvider'
+ */
+export type EnumShipmentProviderFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ShipmentProvider'>
+    
+
+
+/**
+ * Reference to a field of type 'ShipmentProvider[]'
+ */
+export type ListEnumShipmentProviderFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ShipmentProvider[]'>
+    
+
+
 /**
  * Reference to a field of type 'DeliveryPricingMode'
  */
@@ -2510,16 +4740,114 @@ export type ListEnumRefundStatusFieldRefInput<$PrismaModel> = FieldRefInputType<
 
 
 /**
- * Reference to a field of type 'ShipmentProvider'
+ * Reference to a field of type 'AbandonedCartStatus'
  */
-export type EnumShipmentProviderFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ShipmentProvider'>
+export type EnumAbandonedCartStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AbandonedCartStatus'>
     
 
 
 /**
- * Reference to a field of type 'ShipmentProvider[]'
+ * Reference to a field of type 'AbandonedCartStatus[]'
  */
-export type ListEnumShipmentProviderFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ShipmentProvider[]'>
+export type ListEnumAbandonedCartStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AbandonedCartStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ReservationStatus'
+ */
+export type EnumReservationStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ReservationStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'ReservationStatus[]'
+ */
+export type ListEnumReservationStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ReservationStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'InventoryReason'
+ */
+export type EnumInventoryReasonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InventoryReason'>
+    
+
+
+/**
+ * Reference to a field of type 'InventoryReason[]'
+ */
+export type ListEnumInventoryReasonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InventoryReason[]'>
+    
+
+
+/**
+ * Reference to a field of type 'AuditAction'
+ */
+export type EnumAuditActionFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AuditAction'>
+    
+
+
+/**
+ * Reference to a field of type 'AuditAction[]'
+ */
+export type ListEnumAuditActionFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AuditAction[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ReturnStatus'
+ */
+export type EnumReturnStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ReturnStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'ReturnStatus[]'
+ */
+export type ListEnumReturnStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ReturnStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ReturnType'
+ */
+export type EnumReturnTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ReturnType'>
+    
+
+
+/**
+ * Reference to a field of type 'ReturnType[]'
+ */
+export type ListEnumReturnTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ReturnType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PromotionType'
+ */
+export type EnumPromotionTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PromotionType'>
+    
+
+
+/**
+ * Reference to a field of type 'PromotionType[]'
+ */
+export type ListEnumPromotionTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PromotionType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PriceRounding'
+ */
+export type EnumPriceRoundingFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PriceRounding'>
+    
+
+
+/**
+ * Reference to a field of type 'PriceRounding[]'
+ */
+export type ListEnumPriceRoundingFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PriceRounding[]'>
     
 
 
@@ -2599,7 +4927,7 @@ export type PrismaClientOptions = ({
    *  { emit: 'stdout', level: 'error' }
    * 
    * ```
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/logging#the-log-option).
+   * Read more in our [docs](https://pris.ly/d/logging).
    */
   log?: (LogLevel | LogDefinition)[]
   /**
@@ -2627,6 +4955,22 @@ export type PrismaClientOptions = ({
    * ```
    */
   omit?: GlobalOmitConfig
+  /**
+   * SQL commenter plugins that add metadata to SQL queries as comments.
+   * Comments follow the sqlcommenter format: https://google.github.io/sqlcommenter/
+   * 
+   * @example
+   * ```
+   * const prisma = new PrismaClient({
+   *   adapter,
+   *   comments: [
+   *     traceContext(),
+   *     queryInsights(),
+   *   ],
+   * })
+   * ```
+   */
+  comments?: runtime.SqlCommenterPlugin[]
 }
 export type GlobalOmitConfig = {
   customer?: Prisma.CustomerOmit
@@ -2636,17 +4980,41 @@ export type GlobalOmitConfig = {
   variant?: Prisma.VariantOmit
   review?: Prisma.ReviewOmit
   deliveryOption?: Prisma.DeliveryOptionOmit
+  shippingZone?: Prisma.ShippingZoneOmit
+  shippingWeightBand?: Prisma.ShippingWeightBandOmit
   order?: Prisma.OrderOmit
   orderItem?: Prisma.OrderItemOmit
+  orderRefund?: Prisma.OrderRefundOmit
+  orderRefundItem?: Prisma.OrderRefundItemOmit
   offlineSale?: Prisma.OfflineSaleOmit
   wishlistItem?: Prisma.WishlistItemOmit
+  cart?: Prisma.CartOmit
+  cartItem?: Prisma.CartItemOmit
+  abandonedCart?: Prisma.AbandonedCartOmit
   receiptEmailStatus?: Prisma.ReceiptEmailStatusOmit
   webhookEvent?: Prisma.WebhookEventOmit
   orphanPayment?: Prisma.OrphanPaymentOmit
+  stockReservation?: Prisma.StockReservationOmit
+  inventoryMovement?: Prisma.InventoryMovementOmit
+  stockNotification?: Prisma.StockNotificationOmit
+  launchNotification?: Prisma.LaunchNotificationOmit
+  auditLog?: Prisma.AuditLogOmit
+  returnRequest?: Prisma.ReturnRequestOmit
+  returnRequestItem?: Prisma.ReturnRequestItemOmit
   heroSlide?: Prisma.HeroSlideOmit
   sizeChart?: Prisma.SizeChartOmit
   sizeChartRow?: Prisma.SizeChartRowOmit
+  promotion?: Prisma.PromotionOmit
+  promotionRedemption?: Prisma.PromotionRedemptionOmit
+  pricingRule?: Prisma.PricingRuleOmit
+  repriceRun?: Prisma.RepriceRunOmit
+  priceChange?: Prisma.PriceChangeOmit
   shipment?: Prisma.ShipmentOmit
+  shipmentItem?: Prisma.ShipmentItemOmit
+  pickupLocation?: Prisma.PickupLocationOmit
+  orderPickup?: Prisma.OrderPickupOmit
+  shipmentEvent?: Prisma.ShipmentEventOmit
+  fxRateSnapshot?: Prisma.FxRateSnapshotOmit
   productSerial?: Prisma.ProductSerialOmit
   orderSerial?: Prisma.OrderSerialOmit
 }
@@ -58,17 +58,41 @@ export const ModelName = {
   Variant: 'Variant',
   Review: 'Review',
   DeliveryOption: 'DeliveryOption',
+  ShippingZone: 'ShippingZone',
+  ShippingWeightBand: 'ShippingWeightBand',
   Order: 'Order',
   OrderItem: 'OrderItem',
+  OrderRefund: 'OrderRefund',
+  OrderRefundItem: 'OrderRefundItem',
   OfflineSale: 'OfflineSale',
   WishlistItem: 'WishlistItem',
+  Cart: 'Cart',
+  CartItem: 'CartItem',
+  AbandonedCart: 'AbandonedCart',
   ReceiptEmailStatus: 'ReceiptEmailStatus',
   WebhookEvent: 'WebhookEvent',
   OrphanPayment: 'OrphanPayment',
+  StockReservation: 'StockReservation',
+  InventoryMovement: 'InventoryMovement',
+  StockNotification: 'StockNotification',
+  LaunchNotification: 'LaunchNotification',
+  AuditLog: 'AuditLog',
+  ReturnRequest: 'ReturnRequest',
+  ReturnRequestItem: 'ReturnRequestItem',
   HeroSlide: 'HeroSlide',
   SizeChart: 'SizeChart',
   SizeChartRow: 'SizeChartRow',
+  Promotion: 'Promotion',
+  PromotionRedemption: 'PromotionRedemption',
+  PricingRule: 'PricingRule',
+  RepriceRun: 'RepriceRun',
+  PriceChange: 'PriceChange',
   Shipment: 'Shipment',
+  ShipmentItem: 'ShipmentItem',
+  PickupLocation: 'PickupLocation',
+  OrderPickup: 'OrderPickup',
+  ShipmentEvent: 'ShipmentEvent',
+  FxRateSnapshot: 'FxRateSnapshot',
   ProductSerial: 'ProductSerial',
   OrderSerial: 'OrderSerial'
 } as const
@@ -164,11 +188,18 @@ export const ProductScalarFieldEnum = {
   priceUSD: 'priceUSD',
   priceEUR: 'priceEUR',
   priceGBP: 'priceGBP',
+  compareAtNGN: 'compareAtNGN',
+  compareAtUSD: 'compareAtUSD',
+  compareAtEUR: 'compareAtEUR',
+  compareAtGBP: 'compareAtGBP',
   sizeMods: 'sizeMods',
   status: 'status',
+  publishAt: 'publishAt',
+  unpublishAt: 'unpublishAt',
   videoUrl: 'videoUrl',
   averageRating: 'averageRating',
   ratingCount: 'ratingCount',
+  lowStockThreshold: 'lowStockThreshold',
   createdAt: 'createdAt'
 } as const
 
@@ -182,6 +213,17 @@ export const VariantScalarFieldEnum = {
   size: 'size',
   stock: 'stock',
   weight: 'weight',
+  lowStockThreshold: 'lowStockThreshold',
+  sku: 'sku',
+  barcode: 'barcode',
+  priceNGN: 'priceNGN',
+  priceUSD: 'priceUSD',
+  priceEUR: 'priceEUR',
+  priceGBP: 'priceGBP',
+  compareAtNGN: 'compareAtNGN',
+  compareAtUSD: 'compareAtUSD',
+  compareAtEUR: 'compareAtEUR',
+  compareAtGBP: 'compareAtGBP',
   createdAt: 'createdAt'
 } as const
 
@@ -205,6 +247,7 @@ export const DeliveryOptionScalarFieldEnum = {
   id: 'id',
   name: 'name',
   provider: 'provider',
+  carrier: 'carrier',
   pricingMode: 'pricingMode',
   baseFee: 'baseFee',
   baseCurrency: 'baseCurrency',
@@ -217,6 +260,39 @@ export const DeliveryOptionScalarFieldEnum = {
 export type DeliveryOptionScalarFieldEnum = (typeof DeliveryOptionScalarFieldEnum)[keyof typeof DeliveryOptionScalarFieldEnum]
 
 
+export const ShippingZoneScalarFieldEnum = {
+  id: 'id',
+  deliveryOptionId: 'deliveryOptionId',
+  name: 'name',
+  countries: 'countries',
+  states: 'states',
+  feeNGN: 'feeNGN',
+  feeUSD: 'feeUSD',
+  feeEUR: 'feeEUR',
+  feeGBP: 'feeGBP',
+  freeOverNGN: 'freeOverNGN',
+  freeOverUSD: 'freeOverUSD',
+  freeOverEUR: 'freeOverEUR',
+  freeOverGBP: 'freeOverGBP',
+  active: 'active'
+} as const
+
+export type ShippingZoneScalarFieldEnum = (typeof ShippingZoneScalarFieldEnum)[keyof typeof ShippingZoneScalarFieldEnum]
+
+
+export const ShippingWeightBandScalarFieldEnum = {
+  id: 'id',
+  zoneId: 'zoneId',
+  maxWeightKg: 'maxWeightKg',
+  feeNGN: 'feeNGN',
+  feeUSD: 'feeUSD',
+  feeEUR: 'feeEUR',
+  feeGBP: 'feeGBP'
+} as const
+
+export type ShippingWeightBandScalarFieldEnum = (typeof ShippingWeightBandScalarFieldEnum)[keyof typeof ShippingWeightBandScalarFieldEnum]
+
+
 export const OrderScalarFieldEnum = {
   id: 'id',
   status: 'status',
@@ -238,7 +314,13 @@ export const OrderScalarFieldEnum = {
   refundedAt: 'refundedAt',
   refundReason: 'refundReason',
   refundTransactionId: 'refundTransactionId',
-  refundStatus: 'refundStatus'
+  refundStatus: 'refundStatus',
+  promotionId: 'promotionId',
+  discountCode: 'discountCode',
+  discountAmount: 'discountAmount',
+  discountDetails: 'discountDetails',
+  fxRateToNGN: 'fxRateToNGN',
+  fxSnapshotId: 'fxSnapshotId'
 } as const
 
 export type OrderScalarFieldEnum = (typeof OrderScalarFieldEnum)[keyof typeof OrderScalarFieldEnum]
@@ -249,11 +331,14 @@ export const OrderItemScalarFieldEnum = {
   orderId: 'orderId',
   variantId: 'variantId',
   name: 'name',
+  sku: 'sku',
   image: 'image',
   category: 'category',
   quantity: 'quantity',
   currency: 'currency',
   lineTotal: 'lineTotal',
+  unitPrice: 'unitPrice',
+  compareAtPrice: 'compareAtPrice',
   color: 'color',
   size: 'size',
   hasSizeMod: 'hasSizeMod',
@@ -264,6 +349,39 @@ export const OrderItemScalarFieldEnum = {
 export type OrderItemScalarFieldEnum = (typeof OrderItemScalarFieldEnum)[keyof typeof OrderItemScalarFieldEnum]
 
 
+export const OrderRefundScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  amount: 'amount',
+  currency: 'currency',
+  amountNGN: 'amountNGN',
+  reason: 'reason',
+  status: 'status',
+  provider: 'provider',
+  providerRefundId: 'providerRefundId',
+  failureReason: 'failureReason',
+  processedAt: 'processedAt',
+  creditNoteSentAt: 'creditNoteSentAt',
+  staffId: 'staffId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type OrderRefundScalarFieldEnum = (typeof OrderRefundScalarFieldEnum)[keyof typeof OrderRefundScalarFieldEnum]
+
+
+export const OrderRefundItemScalarFieldEnum = {
+  id: 'id',
+  refundId: 'refundId',
+  orderItemId: 'orderItemId',
+  quantity: 'quantity',
+  amount: 'amount',
+  restock: 'restock'
+} as const
+
+export type OrderRefundItemScalarFieldEnum = (typeof OrderRefundItemScalarFieldEnum)[keyof typeof OrderRefundItemScalarFieldEnum]
+
+
 export const OfflineSaleScalarFieldEnum = {
   id: 'id',
   orderId: 'orderId',
@@ -284,6 +402,58 @@ export const WishlistItemScalarFieldEnum = {
 export type WishlistItemScalarFieldEnum = (typeof WishlistItemScalarFieldEnum)[keyof typeof WishlistItemScalarFieldEnum]
 
 
+export const CartScalarFieldEnum = {
+  id: 'id',
+  customerId: 'customerId',
+  currency: 'currency',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CartScalarFieldEnum = (typeof CartScalarFieldEnum)[keyof typeof CartScalarFieldEnum]
+
+
+export const CartItemScalarFieldEnum = {
+  id: 'id',
+  cartId: 'cartId',
+  productId: 'productId',
+  color: 'color',
+  size: 'size',
+  quantity: 'quantity',
+  hasSizeMod: 'hasSizeMod',
+  sizeModFee: 'sizeModFee',
+  customMods: 'customMods',
+  lineKey: 'lineKey',
+  unitPrice: 'unitPrice',
+  currency: 'currency',
+  addedAt: 'addedAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CartItemScalarFieldEnum = (typeof CartItemScalarFieldEnum)[keyof typeof CartItemScalarFieldEnum]
+
+
+export const AbandonedCartScalarFieldEnum = {
+  id: 'id',
+  email: 'email',
+  customerId: 'customerId',
+  currency: 'currency',
+  items: 'items',
+  subtotal: 'subtotal',
+  status: 'status',
+  activityAt: 'activityAt',
+  remindersSent: 'remindersSent',
+  lastRemindedAt: 'lastRemindedAt',
+  restoredAt: 'restoredAt',
+  orderId: 'orderId',
+  orderTotalNGN: 'orderTotalNGN',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type AbandonedCartScalarFieldEnum = (typeof AbandonedCartScalarFieldEnum)[keyof typeof AbandonedCartScalarFieldEnum]
+
+
 export const ReceiptEmailStatusScalarFieldEnum = {
   orderId: 'orderId',
   attempts: 'attempts',
@@ -323,6 +493,119 @@ export const OrphanPaymentScalarFieldEnum = {
 export type OrphanPaymentScalarFieldEnum = (typeof OrphanPaymentScalarFieldEnum)[keyof typeof OrphanPaymentScalarFieldEnum]
 
 
+export const StockReservationScalarFieldEnum = {
+  id: 'id',
+  reference: 'reference',
+  variantId: 'variantId',
+  quantity: 'quantity',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  orderId: 'orderId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type StockReservationScalarFieldEnum = (typeof StockReservationScalarFieldEnum)[keyof typeof StockReservationScalarFieldEnum]
+
+
+export const InventoryMovementScalarFieldEnum = {
+  id: 'id',
+  variantId: 'variantId',
+  delta: 'delta',
+  reason: 'reason',
+  balance: 'balance',
+  orderId: 'orderId',
+  staffId: 'staffId',
+  note: 'note',
+  createdAt: 'createdAt'
+} as const
+
+export type InventoryMovementScalarFieldEnum = (typeof InventoryMovementScalarFieldEnum)[keyof typeof InventoryMovementScalarFieldEnum]
+
+
+export const StockNotificationScalarFieldEnum = {
+  id: 'id',
+  variantId: 'variantId',
+  email: 'email',
+  customerId: 'customerId',
+  token: 'token',
+  notifiedAt: 'notifiedAt',
+  unsubscribedAt: 'unsubscribedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type StockNotificationScalarFieldEnum = (typeof StockNotificationScalarFieldEnum)[keyof typeof StockNotificationScalarFieldEnum]
+
+
+export const LaunchNotificationScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  email: 'email',
+  customerId: 'customerId',
+  token: 'token',
+  notifiedAt: 'notifiedAt',
+  unsubscribedAt: 'unsubscribedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type LaunchNotificationScalarFieldEnum = (typeof LaunchNotificationScalarFieldEnum)[keyof typeof LaunchNotificationScalarFieldEnum]
+
+
+export const AuditLogScalarFieldEnum = {
+  id: 'id',
+  staffId: 'staffId',
+  action: 'action',
+  entityType: 'entityType',
+  entityId: 'entityId',
+  before: 'before',
+  after: 'after',
+  createdAt: 'createdAt'
+} as const
+
+export type AuditLogScalarFieldEnum = (typeof AuditLogScalarFieldEnum)[keyof typeof AuditLogScalarFieldEnum]
+
+
+export const ReturnRequestScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  customerId: 'customerId',
+  status: 'status',
+  note: 'note',
+  staffNote: 'staffNote',
+  reviewedById: 'reviewedById',
+  reviewedAt: 'reviewedAt',
+  labelOrderId: 'labelOrderId',
+  labelCourierName: 'labelCourierName',
+  labelTrackingUrl: 'labelTrackingUrl',
+  labelTrackingNumber: 'labelTrackingNumber',
+  labelResponse: 'labelResponse',
+  receivedAt: 'receivedAt',
+  refundId: 'refundId',
+  replacementOrderId: 'replacementOrderId',
+  resolvedAt: 'resolvedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ReturnRequestScalarFieldEnum = (typeof ReturnRequestScalarFieldEnum)[keyof typeof ReturnRequestScalarFieldEnum]
+
+
+export const ReturnRequestItemScalarFieldEnum = {
+  id: 'id',
+  returnId: 'returnId',
+  orderItemId: 'orderItemId',
+  quantity: 'quantity',
+  type: 'type',
+  reason: 'reason',
+  photos: 'photos',
+  exchangeVariantId: 'exchangeVariantId',
+  receivedQty: 'receivedQty',
+  restocked: 'restocked'
+} as const
+
+export type ReturnRequestItemScalarFieldEnum = (typeof ReturnRequestItemScalarFieldEnum)[keyof typeof ReturnRequestItemScalarFieldEnum]
+
+
 export const HeroSlideScalarFieldEnum = {
   id: 'id',
   imageUrl: 'imageUrl',
@@ -357,6 +640,91 @@ export const SizeChartRowScalarFieldEnum = {
 export type SizeChartRowScalarFieldEnum = (typeof SizeChartRowScalarFieldEnum)[keyof typeof SizeChartRowScalarFieldEnum]
 
 
+export const PromotionScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  description: 'description',
+  type: 'type',
+  percentOff: 'percentOff',
+  amountOffNGN: 'amountOffNGN',
+  amountOffUSD: 'amountOffUSD',
+  amountOffEUR: 'amountOffEUR',
+  amountOffGBP: 'amountOffGBP',
+  buyQuantity: 'buyQuantity',
+  getQuantity: 'getQuantity',
+  productIds: 'productIds',
+  categorySlugs: 'categorySlugs',
+  minSpendNGN: 'minSpendNGN',
+  minSpendUSD: 'minSpendUSD',
+  minSpendEUR: 'minSpendEUR',
+  minSpendGBP: 'minSpendGBP',
+  usageLimit: 'usageLimit',
+  usageCount: 'usageCount',
+  perCustomerLimit: 'perCustomerLimit',
+  startsAt: 'startsAt',
+  endsAt: 'endsAt',
+  active: 'active',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PromotionScalarFieldEnum = (typeof PromotionScalarFieldEnum)[keyof typeof PromotionScalarFieldEnum]
+
+
+export const PromotionRedemptionScalarFieldEnum = {
+  id: 'id',
+  promotionId: 'promotionId',
+  orderId: 'orderId',
+  customerId: 'customerId',
+  email: 'email',
+  discountAmount: 'discountAmount',
+  currency: 'currency',
+  createdAt: 'createdAt'
+} as const
+
+export type PromotionRedemptionScalarFieldEnum = (typeof PromotionRedemptionScalarFieldEnum)[keyof typeof PromotionRedemptionScalarFieldEnum]
+
+
+export const PricingRuleScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  enabled: 'enabled',
+  markupPercent: 'markupPercent',
+  rounding: 'rounding',
+  autoReprice: 'autoReprice',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PricingRuleScalarFieldEnum = (typeof PricingRuleScalarFieldEnum)[keyof typeof PricingRuleScalarFieldEnum]
+
+
+export const RepriceRunScalarFieldEnum = {
+  id: 'id',
+  staffId: 'staffId',
+  scheduled: 'scheduled',
+  rates: 'rates',
+  productCount: 'productCount',
+  createdAt: 'createdAt'
+} as const
+
+export type RepriceRunScalarFieldEnum = (typeof RepriceRunScalarFieldEnum)[keyof typeof RepriceRunScalarFieldEnum]
+
+
+export const PriceChangeScalarFieldEnum = {
+  id: 'id',
+  runId: 'runId',
+  productId: 'productId',
+  variantId: 'variantId',
+  field: 'field',
+  currency: 'currency',
+  oldPrice: 'oldPrice',
+  newPrice: 'newPrice',
+  createdAt: 'createdAt'
+} as const
+
+export type PriceChangeScalarFieldEnum = (typeof PriceChangeScalarFieldEnum)[keyof typeof PriceChangeScalarFieldEnum]
+
+
 export const ShipmentScalarFieldEnum = {
   id: 'id',
   orderId: 'orderId',
@@ -399,6 +767,78 @@ export const ShipmentScalarFieldEnum = {
 export type ShipmentScalarFieldEnum = (typeof ShipmentScalarFieldEnum)[keyof typeof ShipmentScalarFieldEnum]
 
 
+export const ShipmentItemScalarFieldEnum = {
+  id: 'id',
+  shipmentId: 'shipmentId',
+  orderItemId: 'orderItemId',
+  quantity: 'quantity'
+} as const
+
+export type ShipmentItemScalarFieldEnum = (typeof ShipmentItemScalarFieldEnum)[keyof typeof ShipmentItemScalarFieldEnum]
+
+
+export const PickupLocationScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  address: 'address',
+  city: 'city',
+  state: 'state',
+  country: 'country',
+  phone: 'phone',
+  openingHours: 'openingHours',
+  prepTimeHours: 'prepTimeHours',
+  instructions: 'instructions',
+  active: 'active',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PickupLocationScalarFieldEnum = (typeof PickupLocationScalarFieldEnum)[keyof typeof PickupLocationScalarFieldEnum]
+
+
+export const OrderPickupScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  locationId: 'locationId',
+  codeHash: 'codeHash',
+  failedAttempts: 'failedAttempts',
+  readyAt: 'readyAt',
+  collectedAt: 'collectedAt',
+  collectedById: 'collectedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type OrderPickupScalarFieldEnum = (typeof OrderPickupScalarFieldEnum)[keyof typeof OrderPickupScalarFieldEnum]
+
+
+export const ShipmentEventScalarFieldEnum = {
+  id: 'id',
+  shipmentId: 'shipmentId',
+  status: 'status',
+  providerStatus: 'providerStatus',
+  description: 'description',
+  location: 'location',
+  occurredAt: 'occurredAt',
+  source: 'source',
+  createdAt: 'createdAt'
+} as const
+
+export type ShipmentEventScalarFieldEnum = (typeof ShipmentEventScalarFieldEnum)[keyof typeof ShipmentEventScalarFieldEnum]
+
+
+export const FxRateSnapshotScalarFieldEnum = {
+  id: 'id',
+  base: 'base',
+  rates: 'rates',
+  source: 'source',
+  providerUpdatedAt: 'providerUpdatedAt',
+  fetchedAt: 'fetchedAt'
+} as const
+
+export type FxRateSnapshotScalarFieldEnum = (typeof FxRateSnapshotScalarFieldEnum)[keyof typeof FxRateSnapshotScalarFieldEnum]
+
+
 export const ProductSerialScalarFieldEnum = {
   id: 'id'
 } as const
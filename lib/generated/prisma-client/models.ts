@@ -15,17 +15,41 @@ export type * from './models/Product'
 export type * from './models/Variant'
 export type * from './models/Review'
 export type * from './models/DeliveryOption'
+export type * from './models/ShippingZone'
+export type * from './models/ShippingWeightBand'
 export type * from './models/Order'
 export type * from './models/OrderItem'
+export type * from './models/OrderRefund'
+export type * from './models/OrderRefundItem'
 export type * from './models/OfflineSale'
 export type * from './models/WishlistItem'
+export type * from './models/Cart'
+export type * from './models/CartItem'
+export type * from './models/AbandonedCart'
 export type * from './models/ReceiptEmailStatus'
 export type * from './models/WebhookEvent'
 export type * from './models/OrphanPayment'
+export type * from './models/StockReservation'
+export type * from './models/InventoryMovement'
+export type * from './models/StockNotification'
+export type * from './models/LaunchNotification'
+export type * from './models/AuditLog'
+export type * from './models/ReturnRequest'
+export type * from './models/ReturnRequestItem'
 export type * from './models/HeroSlide'
 export type * from './models/SizeChart'
 export type * from './models/SizeChartRow'
+export type * from './models/Promotion'
+export type * from './models/PromotionRedemption'
+export type * from './models/PricingRule'
+export type * from './models/RepriceRun'
+export type * from './models/PriceChange'
 export type * from './models/Shipment'
+export type * from './models/ShipmentItem'
+export type * from './models/PickupLocation'
+export type * from './models/OrderPickup'
+export type * from './models/ShipmentEvent'
+export type * from './models/FxRateSnapshot'
 export type * from './models/ProductSerial'
 export type * from './models/OrderSerial'
 export type * from './commonInputTypes'
\ No newline at end of file
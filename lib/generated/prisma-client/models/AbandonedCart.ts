@@ -0,0 +1,1913 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `AbandonedCart` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model AbandonedCart
+ * 
+ */
+export type AbandonedCartModel = runtime.Types.Result.DefaultSelection<Prisma.$AbandonedCartPayload>
+
+export type AggregateAbandonedCart = {
+  _count: AbandonedCartCountAggregateOutputType | null
+  _avg: AbandonedCartAvgAggregateOutputType | null
+  _sum: AbandonedCartSumAggregateOutputType | null
+  _min: AbandonedCartMinAggregateOutputType | null
+  _max: AbandonedCartMaxAggregateOutputType | null
+}
+
+export type AbandonedCartAvgAggregateOutputType = {
+  subtotal: number | null
+  remindersSent: number | null
+  orderTotalNGN: number | null
+}
+
+export type AbandonedCartSumAggregateOutputType = {
+  subtotal: number | null
+  remindersSent: number | null
+  orderTotalNGN: number | null
+}
+
+export type AbandonedCartMinAggregateOutputType = {
+  id: string | null
+  email: string | null
+  customerId: string | null
+  currency: $Enums.Currency | null
+  subtotal: number | null
+  status: $Enums.AbandonedCartStatus | null
+  activityAt: Date | null
+  remindersSent: number | null
+  lastRemindedAt: Date | null
+  restoredAt: Date | null
+  orderId: string | null
+  orderTotalNGN: number | null
+  closedAt: Date | null
+  createdAt: Date | null
+}
+
+export type AbandonedCartMaxAggregateOutputType = {
+  id: string | null
+  email: string | null
+  customerId: string | null
+  currency: $Enums.Currency | null
+  subtotal: number | null
+  status: $Enums.AbandonedCartStatus | null
+  activityAt: Date | null
+  remindersSent: number | null
+  lastRemindedAt: Date | null
+  restoredAt: Date | null
+  orderId: string | null
+  orderTotalNGN: number | null
+  closedAt: Date | null
+  createdAt: Date | null
+}
+
+export type AbandonedCartCountAggregateOutputType = {
+  id: number
+  email: number
+  customerId: number
+  currency: number
+  items: number
+  subtotal: number
+  status: number
+  activityAt: number
+  remindersSent: number
+  lastRemindedAt: number
+  restoredAt: number
+  orderId: number
+  orderTotalNGN: number
+  closedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type AbandonedCartAvgAggregateInputType = {
+  subtotal?: true
+  remindersSent?: true
+  orderTotalNGN?: true
+}
+
+export type AbandonedCartSumAggregateInputType = {
+  subtotal?: true
+  remindersSent?: true
+  orderTotalNGN?: true
+}
+
+export type AbandonedCartMinAggregateInputType = {
+  id?: true
+  email?: true
+  customerId?: true
+  currency?: true
+  subtotal?: true
+  status?: true
+  activityAt?: true
+  remindersSent?: true
+  lastRemindedAt?: true
+  restoredAt?: true
+  orderId?: true
+  orderTotalNGN?: true
+  closedAt?: true
+  createdAt?: true
+}
+
+export type AbandonedCartMaxAggregateInputType = {
+  id?: true
+  email?: true
+  customerId?: true
+  currency?: true
+  subtotal?: true
+  status?: true
+  activityAt?: true
+  remindersSent?: true
+  lastRemindedAt?: true
+  restoredAt?: true
+  orderId?: true
+  orderTotalNGN?: true
+  closedAt?: true
+  createdAt?: true
+}
+
+export type AbandonedCartCountAggregateInputType = {
+  id?: true
+  email?: true
+  customerId?: true
+  currency?: true
+  items?: true
+  subtotal?: true
+  status?: true
+  activityAt?: true
+  remindersSent?: true
+  lastRemindedAt?: true
+  restoredAt?: true
+  orderId?: true
+  orderTotalNGN?: true
+  closedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type AbandonedCartAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AbandonedCart to aggregate.
+   */
+  where?: Prisma.AbandonedCartWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AbandonedCarts to fetch.
+   */
+  orderBy?: Prisma.AbandonedCartOrderByWithRelationInput | Prisma.AbandonedCartOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AbandonedCartWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AbandonedCarts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AbandonedCarts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AbandonedCarts
+  **/
+  _count?: true | AbandonedCartCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: AbandonedCartAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: AbandonedCartSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AbandonedCartMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AbandonedCartMaxAggregateInputType
+}
+
+export type GetAbandonedCartAggregateType<T extends AbandonedCartAggregateArgs> = {
+      [P in keyof T & keyof AggregateAbandonedCart]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAbandonedCart[P]>
+    : Prisma.GetScalarType<T[P], AggregateAbandonedCart[P]>
+}
+
+
+
+
+export type AbandonedCartGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AbandonedCartWhereInput
+  orderBy?: Prisma.AbandonedCartOrderByWithAggregationInput | Prisma.AbandonedCartOrderByWithAggregationInput[]
+  by: Prisma.AbandonedCartScalarFieldEnum[] | Prisma.AbandonedCartScalarFieldEnum
+  having?: Prisma.AbandonedCartScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AbandonedCartCountAggregateInputType | true
+  _avg?: AbandonedCartAvgAggregateInputType
+  _sum?: AbandonedCartSumAggregateInputType
+  _min?: AbandonedCartMinAggregateInputType
+  _max?: AbandonedCartMaxAggregateInputType
+}
+
+export type AbandonedCartGroupByOutputType = {
+  id: string
+  email: string
+  customerId: string | null
+  currency: $Enums.Currency
+  items: runtime.JsonValue
+  subtotal: number
+  status: $Enums.AbandonedCartStatus
+  activityAt: Date
+  remindersSent: number
+  lastRemindedAt: Date | null
+  restoredAt: Date | null
+  orderId: string | null
+  orderTotalNGN: number | null
+  closedAt: Date | null
+  createdAt: Date
+  _count: AbandonedCartCountAggregateOutputType | null
+  _avg: AbandonedCartAvgAggregateOutputType | null
+  _sum: AbandonedCartSumAggregateOutputType | null
+  _min: AbandonedCartMinAggregateOutputType | null
+  _max: AbandonedCartMaxAggregateOutputType | null
+}
+
+type GetAbandonedCartGroupByPayload<T extends AbandonedCartGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AbandonedCartGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AbandonedCartGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AbandonedCartGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AbandonedCartGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AbandonedCartWhereInput = {
+  AND?: Prisma.AbandonedCartWhereInput | Prisma.AbandonedCartWhereInput[]
+  OR?: Prisma.AbandonedCartWhereInput[]
+  NOT?: Prisma.AbandonedCartWhereInput | Prisma.AbandonedCartWhereInput[]
+  id?: Prisma.StringFilter<"AbandonedCart"> | string
+  email?: Prisma.StringFilter<"AbandonedCart"> | string
+  customerId?: Prisma.StringNullableFilter<"AbandonedCart"> | string | null
+  currency?: Prisma.EnumCurrencyFilter<"AbandonedCart"> | $Enums.Currency
+  items?: Prisma.JsonFilter<"AbandonedCart">
+  subtotal?: Prisma.FloatFilter<"AbandonedCart"> | number
+  status?: Prisma.EnumAbandonedCartStatusFilter<"AbandonedCart"> | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFilter<"AbandonedCart"> | Date | string
+  remindersSent?: Prisma.IntFilter<"AbandonedCart"> | number
+  lastRemindedAt?: Prisma.DateTimeNullableFilter<"AbandonedCart"> | Date | string | null
+  restoredAt?: Prisma.DateTimeNullableFilter<"AbandonedCart"> | Date | string | null
+  orderId?: Prisma.StringNullableFilter<"AbandonedCart"> | string | null
+  orderTotalNGN?: Prisma.IntNullableFilter<"AbandonedCart"> | number | null
+  closedAt?: Prisma.DateTimeNullableFilter<"AbandonedCart"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"AbandonedCart"> | Date | string
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+  order?: Prisma.XOR<Prisma.OrderNullableScalarRelationFilter, Prisma.OrderWhereInput> | null
+}
+
+export type AbandonedCartOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  items?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  activityAt?: Prisma.SortOrder
+  remindersSent?: Prisma.SortOrder
+  lastRemindedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  restoredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderTotalNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  customer?: Prisma.CustomerOrderByWithRelationInput
+  order?: Prisma.OrderOrderByWithRelationInput
+}
+
+export type AbandonedCartWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  orderId?: string
+  AND?: Prisma.AbandonedCartWhereInput | Prisma.AbandonedCartWhereInput[]
+  OR?: Prisma.AbandonedCartWhereInput[]
+  NOT?: Prisma.AbandonedCartWhereInput | Prisma.AbandonedCartWhereInput[]
+  email?: Prisma.StringFilter<"AbandonedCart"> | string
+  customerId?: Prisma.StringNullableFilter<"AbandonedCart"> | string | null
+  currency?: Prisma.EnumCurrencyFilter<"AbandonedCart"> | $Enums.Currency
+  items?: Prisma.JsonFilter<"AbandonedCart">
+  subtotal?: Prisma.FloatFilter<"AbandonedCart"> | number
+  status?: Prisma.EnumAbandonedCartStatusFilter<"AbandonedCart"> | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFilter<"AbandonedCart"> | Date | string
+  remindersSent?: Prisma.IntFilter<"AbandonedCart"> | number
+  lastRemindedAt?: Prisma.DateTimeNullableFilter<"AbandonedCart"> | Date | string | null
+  restoredAt?: Prisma.DateTimeNullableFilter<"AbandonedCart"> | Date | string | null
+  orderTotalNGN?: Prisma.IntNullableFilter<"AbandonedCart"> | number | null
+  closedAt?: Prisma.DateTimeNullableFilter<"AbandonedCart"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"AbandonedCart"> | Date | string
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+  order?: Prisma.XOR<Prisma.OrderNullableScalarRelationFilter, Prisma.OrderWhereInput> | null
+}, "id" | "orderId">
+
+export type AbandonedCartOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  items?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  activityAt?: Prisma.SortOrder
+  remindersSent?: Prisma.SortOrder
+  lastRemindedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  restoredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderTotalNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.AbandonedCartCountOrderByAggregateInput
+  _avg?: Prisma.AbandonedCartAvgOrderByAggregateInput
+  _max?: Prisma.AbandonedCartMaxOrderByAggregateInput
+  _min?: Prisma.AbandonedCartMinOrderByAggregateInput
+  _sum?: Prisma.AbandonedCartSumOrderByAggregateInput
+}
+
+export type AbandonedCartScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AbandonedCartScalarWhereWithAggregatesInput | Prisma.AbandonedCartScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AbandonedCartScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AbandonedCartScalarWhereWithAggregatesInput | Prisma.AbandonedCartScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"AbandonedCart"> | string
+  email?: Prisma.StringWithAggregatesFilter<"AbandonedCart"> | string
+  customerId?: Prisma.StringNullableWithAggregatesFilter<"AbandonedCart"> | string | null
+  currency?: Prisma.EnumCurrencyWithAggregatesFilter<"AbandonedCart"> | $Enums.Currency
+  items?: Prisma.JsonWithAggregatesFilter<"AbandonedCart">
+  subtotal?: Prisma.FloatWithAggregatesFilter<"AbandonedCart"> | number
+  status?: Prisma.EnumAbandonedCartStatusWithAggregatesFilter<"AbandonedCart"> | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeWithAggregatesFilter<"AbandonedCart"> | Date | string
+  remindersSent?: Prisma.IntWithAggregatesFilter<"AbandonedCart"> | number
+  lastRemindedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"AbandonedCart"> | Date | string | null
+  restoredAt?: Prisma.DateTimeNullableWithAggregatesFilter<"AbandonedCart"> | Date | string | null
+  orderId?: Prisma.StringNullableWithAggregatesFilter<"AbandonedCart"> | string | null
+  orderTotalNGN?: Prisma.IntNullableWithAggregatesFilter<"AbandonedCart"> | number | null
+  closedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"AbandonedCart"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"AbandonedCart"> | Date | string
+}
+
+export type AbandonedCartCreateInput = {
+  id?: string
+  email: string
+  currency?: $Enums.Currency
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal: number
+  status?: $Enums.AbandonedCartStatus
+  activityAt?: Date | string
+  remindersSent?: number
+  lastRemindedAt?: Date | string | null
+  restoredAt?: Date | string | null
+  orderTotalNGN?: number | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  customer?: Prisma.CustomerCreateNestedOneWithoutAbandonedCartsInput
+  order?: Prisma.OrderCreateNestedOneWithoutAbandonedCartInput
+}
+
+export type AbandonedCartUncheckedCreateInput = {
+  id?: string
+  email: string
+  customerId?: string | null
+  currency?: $Enums.Currency
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal: number
+  status?: $Enums.AbandonedCartStatus
+  activityAt?: Date | string
+  remindersSent?: number
+  lastRemindedAt?: Date | string | null
+  restoredAt?: Date | string | null
+  orderId?: string | null
+  orderTotalNGN?: number | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type AbandonedCartUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  status?: Prisma.EnumAbandonedCartStatusFieldUpdateOperationsInput | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  remindersSent?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRemindedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orderTotalNGN?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.CustomerUpdateOneWithoutAbandonedCartsNestedInput
+  order?: Prisma.OrderUpdateOneWithoutAbandonedCartNestedInput
+}
+
+export type AbandonedCartUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  status?: Prisma.EnumAbandonedCartStatusFieldUpdateOperationsInput | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  remindersSent?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRemindedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderTotalNGN?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AbandonedCartCreateManyInput = {
+  id?: string
+  email: string
+  customerId?: string | null
+  currency?: $Enums.Currency
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal: number
+  status?: $Enums.AbandonedCartStatus
+  activityAt?: Date | string
+  remindersSent?: number
+  lastRemindedAt?: Date | string | null
+  restoredAt?: Date | string | null
+  orderId?: string | null
+  orderTotalNGN?: number | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type AbandonedCartUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  status?: Prisma.EnumAbandonedCartStatusFieldUpdateOperationsInput | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  remindersSent?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRemindedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orderTotalNGN?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AbandonedCartUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  status?: Prisma.EnumAbandonedCartStatusFieldUpdateOperationsInput | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  remindersSent?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRemindedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderTotalNGN?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AbandonedCartListRelationFilter = {
+  every?: Prisma.AbandonedCartWhereInput
+  some?: Prisma.AbandonedCartWhereInput
+  none?: Prisma.AbandonedCartWhereInput
+}
+
+export type AbandonedCartOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type AbandonedCartNullableScalarRelationFilter = {
+  is?: Prisma.AbandonedCartWhereInput | null
+  isNot?: Prisma.AbandonedCartWhereInput | null
+}
+
+export type AbandonedCartCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  items?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  activityAt?: Prisma.SortOrder
+  remindersSent?: Prisma.SortOrder
+  lastRemindedAt?: Prisma.SortOrder
+  restoredAt?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderTotalNGN?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AbandonedCartAvgOrderByAggregateInput = {
+  subtotal?: Prisma.SortOrder
+  remindersSent?: Prisma.SortOrder
+  orderTotalNGN?: Prisma.SortOrder
+}
+
+export type AbandonedCartMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  activityAt?: Prisma.SortOrder
+  remindersSent?: Prisma.SortOrder
+  lastRemindedAt?: Prisma.SortOrder
+  restoredAt?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderTotalNGN?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AbandonedCartMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  activityAt?: Prisma.SortOrder
+  remindersSent?: Prisma.SortOrder
+  lastRemindedAt?: Prisma.SortOrder
+  restoredAt?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderTotalNGN?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AbandonedCartSumOrderByAggregateInput = {
+  subtotal?: Prisma.SortOrder
+  remindersSent?: Prisma.SortOrder
+  orderTotalNGN?: Prisma.SortOrder
+}
+
+export type AbandonedCartCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.AbandonedCartCreateWithoutCustomerInput, Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput> | Prisma.AbandonedCartCreateWithoutCustomerInput[] | Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.AbandonedCartCreateOrConnectWithoutCustomerInput | Prisma.AbandonedCartCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.AbandonedCartCreateManyCustomerInputEnvelope
+  connect?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+}
+
+export type AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.AbandonedCartCreateWithoutCustomerInput, Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput> | Prisma.AbandonedCartCreateWithoutCustomerInput[] | Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.AbandonedCartCreateOrConnectWithoutCustomerInput | Prisma.AbandonedCartCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.AbandonedCartCreateManyCustomerInputEnvelope
+  connect?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+}
+
+export type AbandonedCartUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.AbandonedCartCreateWithoutCustomerInput, Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput> | Prisma.AbandonedCartCreateWithoutCustomerInput[] | Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.AbandonedCartCreateOrConnectWithoutCustomerInput | Prisma.AbandonedCartCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.AbandonedCartUpsertWithWhereUniqueWithoutCustomerInput | Prisma.AbandonedCartUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.AbandonedCartCreateManyCustomerInputEnvelope
+  set?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+  disconnect?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+  delete?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+  connect?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+  update?: Prisma.AbandonedCartUpdateWithWhereUniqueWithoutCustomerInput | Prisma.AbandonedCartUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.AbandonedCartUpdateManyWithWhereWithoutCustomerInput | Prisma.AbandonedCartUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.AbandonedCartScalarWhereInput | Prisma.AbandonedCartScalarWhereInput[]
+}
+
+export type AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.AbandonedCartCreateWithoutCustomerInput, Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput> | Prisma.AbandonedCartCreateWithoutCustomerInput[] | Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.AbandonedCartCreateOrConnectWithoutCustomerInput | Prisma.AbandonedCartCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.AbandonedCartUpsertWithWhereUniqueWithoutCustomerInput | Prisma.AbandonedCartUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.AbandonedCartCreateManyCustomerInputEnvelope
+  set?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+  disconnect?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+  delete?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+  connect?: Prisma.AbandonedCartWhereUniqueInput | Prisma.AbandonedCartWhereUniqueInput[]
+  update?: Prisma.AbandonedCartUpdateWithWhereUniqueWithoutCustomerInput | Prisma.AbandonedCartUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.AbandonedCartUpdateManyWithWhereWithoutCustomerInput | Prisma.AbandonedCartUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.AbandonedCartScalarWhereInput | Prisma.AbandonedCartScalarWhereInput[]
+}
+
+export type AbandonedCartCreateNestedOneWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.AbandonedCartCreateWithoutOrderInput, Prisma.AbandonedCartUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.AbandonedCartCreateOrConnectWithoutOrderInput
+  connect?: Prisma.AbandonedCartWhereUniqueInput
+}
+
+export type AbandonedCartUncheckedCreateNestedOneWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.AbandonedCartCreateWithoutOrderInput, Prisma.AbandonedCartUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.AbandonedCartCreateOrConnectWithoutOrderInput
+  connect?: Prisma.AbandonedCartWhereUniqueInput
+}
+
+export type AbandonedCartUpdateOneWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.AbandonedCartCreateWithoutOrderInput, Prisma.AbandonedCartUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.AbandonedCartCreateOrConnectWithoutOrderInput
+  upsert?: Prisma.AbandonedCartUpsertWithoutOrderInput
+  disconnect?: Prisma.AbandonedCartWhereInput | boolean
+  delete?: Prisma.AbandonedCartWhereInput | boolean
+  connect?: Prisma.AbandonedCartWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AbandonedCartUpdateToOneWithWhereWithoutOrderInput, Prisma.AbandonedCartUpdateWithoutOrderInput>, Prisma.AbandonedCartUncheckedUpdateWithoutOrderInput>
+}
+
+export type AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.AbandonedCartCreateWithoutOrderInput, Prisma.AbandonedCartUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.AbandonedCartCreateOrConnectWithoutOrderInput
+  upsert?: Prisma.AbandonedCartUpsertWithoutOrderInput
+  disconnect?: Prisma.AbandonedCartWhereInput | boolean
+  delete?: Prisma.AbandonedCartWhereInput | boolean
+  connect?: Prisma.AbandonedCartWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AbandonedCartUpdateToOneWithWhereWithoutOrderInput, Prisma.AbandonedCartUpdateWithoutOrderInput>, Prisma.AbandonedCartUncheckedUpdateWithoutOrderInput>
+}
+
+export type EnumAbandonedCartStatusFieldUpdateOperationsInput = {
+  set?: $Enums.AbandonedCartStatus
+}
+
+export type AbandonedCartCreateWithoutCustomerInput = {
+  id?: string
+  email: string
+  currency?: $Enums.Currency
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal: number
+  status?: $Enums.AbandonedCartStatus
+  activityAt?: Date | string
+  remindersSent?: number
+  lastRemindedAt?: Date | string | null
+  restoredAt?: Date | string | null
+  orderTotalNGN?: number | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  order?: Prisma.OrderCreateNestedOneWithoutAbandonedCartInput
+}
+
+export type AbandonedCartUncheckedCreateWithoutCustomerInput = {
+  id?: string
+  email: string
+  currency?: $Enums.Currency
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal: number
+  status?: $Enums.AbandonedCartStatus
+  activityAt?: Date | string
+  remindersSent?: number
+  lastRemindedAt?: Date | string | null
+  restoredAt?: Date | string | null
+  orderId?: string | null
+  orderTotalNGN?: number | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type AbandonedCartCreateOrConnectWithoutCustomerInput = {
+  where: Prisma.AbandonedCartWhereUniqueInput
+  create: Prisma.XOR<Prisma.AbandonedCartCreateWithoutCustomerInput, Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput>
+}
+
+export type AbandonedCartCreateManyCustomerInputEnvelope = {
+  data: Prisma.AbandonedCartCreateManyCustomerInput | Prisma.AbandonedCartCreateManyCustomerInput[]
+  skipDuplicates?: boolean
+}
+
+export type AbandonedCartUpsertWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.AbandonedCartWhereUniqueInput
+  update: Prisma.XOR<Prisma.AbandonedCartUpdateWithoutCustomerInput, Prisma.AbandonedCartUncheckedUpdateWithoutCustomerInput>
+  create: Prisma.XOR<Prisma.AbandonedCartCreateWithoutCustomerInput, Prisma.AbandonedCartUncheckedCreateWithoutCustomerInput>
+}
+
+export type AbandonedCartUpdateWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.AbandonedCartWhereUniqueInput
+  data: Prisma.XOR<Prisma.AbandonedCartUpdateWithoutCustomerInput, Prisma.AbandonedCartUncheckedUpdateWithoutCustomerInput>
+}
+
+export type AbandonedCartUpdateManyWithWhereWithoutCustomerInput = {
+  where: Prisma.AbandonedCartScalarWhereInput
+  data: Prisma.XOR<Prisma.AbandonedCartUpdateManyMutationInput, Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerInput>
+}
+
+export type AbandonedCartScalarWhereInput = {
+  AND?: Prisma.AbandonedCartScalarWhereInput | Prisma.AbandonedCartScalarWhereInput[]
+  OR?: Prisma.AbandonedCartScalarWhereInput[]
+  NOT?: Prisma.AbandonedCartScalarWhereInput | Prisma.AbandonedCartScalarWhereInput[]
+  id?: Prisma.StringFilter<"AbandonedCart"> | string
+  email?: Prisma.StringFilter<"AbandonedCart"> | string
+  customerId?: Prisma.StringNullableFilter<"AbandonedCart"> | string | null
+  currency?: Prisma.EnumCurrencyFilter<"AbandonedCart"> | $Enums.Currency
+  items?: Prisma.JsonFilter<"AbandonedCart">
+  subtotal?: Prisma.FloatFilter<"AbandonedCart"> | number
+  status?: Prisma.EnumAbandonedCartStatusFilter<"AbandonedCart"> | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFilter<"AbandonedCart"> | Date | string
+  remindersSent?: Prisma.IntFilter<"AbandonedCart"> | number
+  lastRemindedAt?: Prisma.DateTimeNullableFilter<"AbandonedCart"> | Date | string | null
+  restoredAt?: Prisma.DateTimeNullableFilter<"AbandonedCart"> | Date | string | null
+  orderId?: Prisma.StringNullableFilter<"AbandonedCart"> | string | null
+  orderTotalNGN?: Prisma.IntNullableFilter<"AbandonedCart"> | number | null
+  closedAt?: Prisma.DateTimeNullableFilter<"AbandonedCart"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"AbandonedCart"> | Date | string
+}
+
+export type AbandonedCartCreateWithoutOrderInput = {
+  id?: string
+  email: string
+  currency?: $Enums.Currency
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal: number
+  status?: $Enums.AbandonedCartStatus
+  activityAt?: Date | string
+  remindersSent?: number
+  lastRemindedAt?: Date | string | null
+  restoredAt?: Date | string | null
+  orderTotalNGN?: number | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  customer?: Prisma.CustomerCreateNestedOneWithoutAbandonedCartsInput
+}
+
+export type AbandonedCartUncheckedCreateWithoutOrderInput = {
+  id?: string
+  email: string
+  customerId?: string | null
+  currency?: $Enums.Currency
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal: number
+  status?: $Enums.AbandonedCartStatus
+  activityAt?: Date | string
+  remindersSent?: number
+  lastRemindedAt?: Date | string | null
+  restoredAt?: Date | string | null
+  orderTotalNGN?: number | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type AbandonedCartCreateOrConnectWithoutOrderInput = {
+  where: Prisma.AbandonedCartWhereUniqueInput
+  create: Prisma.XOR<Prisma.AbandonedCartCreateWithoutOrderInput, Prisma.AbandonedCartUncheckedCreateWithoutOrderInput>
+}
+
+export type AbandonedCartUpsertWithoutOrderInput = {
+  update: Prisma.XOR<Prisma.AbandonedCartUpdateWithoutOrderInput, Prisma.AbandonedCartUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.AbandonedCartCreateWithoutOrderInput, Prisma.AbandonedCartUncheckedCreateWithoutOrderInput>
+  where?: Prisma.AbandonedCartWhereInput
+}
+
+export type AbandonedCartUpdateToOneWithWhereWithoutOrderInput = {
+  where?: Prisma.AbandonedCartWhereInput
+  data: Prisma.XOR<Prisma.AbandonedCartUpdateWithoutOrderInput, Prisma.AbandonedCartUncheckedUpdateWithoutOrderInput>
+}
+
+export type AbandonedCartUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  status?: Prisma.EnumAbandonedCartStatusFieldUpdateOperationsInput | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  remindersSent?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRemindedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orderTotalNGN?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.CustomerUpdateOneWithoutAbandonedCartsNestedInput
+}
+
+export type AbandonedCartUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  status?: Prisma.EnumAbandonedCartStatusFieldUpdateOperationsInput | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  remindersSent?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRemindedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orderTotalNGN?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AbandonedCartCreateManyCustomerInput = {
+  id?: string
+  email: string
+  currency?: $Enums.Currency
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal: number
+  status?: $Enums.AbandonedCartStatus
+  activityAt?: Date | string
+  remindersSent?: number
+  lastRemindedAt?: Date | string | null
+  restoredAt?: Date | string | null
+  orderId?: string | null
+  orderTotalNGN?: number | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type AbandonedCartUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  status?: Prisma.EnumAbandonedCartStatusFieldUpdateOperationsInput | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  remindersSent?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRemindedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orderTotalNGN?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneWithoutAbandonedCartNestedInput
+}
+
+export type AbandonedCartUncheckedUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  status?: Prisma.EnumAbandonedCartStatusFieldUpdateOperationsInput | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  remindersSent?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRemindedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderTotalNGN?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AbandonedCartUncheckedUpdateManyWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  status?: Prisma.EnumAbandonedCartStatusFieldUpdateOperationsInput | $Enums.AbandonedCartStatus
+  activityAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  remindersSent?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRemindedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderTotalNGN?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type AbandonedCartSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  email?: boolean
+  customerId?: boolean
+  currency?: boolean
+  items?: boolean
+  subtotal?: boolean
+  status?: boolean
+  activityAt?: boolean
+  remindersSent?: boolean
+  lastRemindedAt?: boolean
+  restoredAt?: boolean
+  orderId?: boolean
+  orderTotalNGN?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  customer?: boolean | Prisma.AbandonedCart$customerArgs<ExtArgs>
+  order?: boolean | Prisma.AbandonedCart$orderArgs<ExtArgs>
+}, ExtArgs["result"]["abandonedCart"]>
+
+export type AbandonedCartSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  email?: boolean
+  customerId?: boolean
+  currency?: boolean
+  items?: boolean
+  subtotal?: boolean
+  status?: boolean
+  activityAt?: boolean
+  remindersSent?: boolean
+  lastRemindedAt?: boolean
+  restoredAt?: boolean
+  orderId?: boolean
+  orderTotalNGN?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  customer?: boolean | Prisma.AbandonedCart$customerArgs<ExtArgs>
+  order?: boolean | Prisma.AbandonedCart$orderArgs<ExtArgs>
+}, ExtArgs["result"]["abandonedCart"]>
+
+export type AbandonedCartSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  email?: boolean
+  customerId?: boolean
+  currency?: boolean
+  items?: boolean
+  subtotal?: boolean
+  status?: boolean
+  activityAt?: boolean
+  remindersSent?: boolean
+  lastRemindedAt?: boolean
+  restoredAt?: boolean
+  orderId?: boolean
+  orderTotalNGN?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  customer?: boolean | Prisma.AbandonedCart$customerArgs<ExtArgs>
+  order?: boolean | Prisma.AbandonedCart$orderArgs<ExtArgs>
+}, ExtArgs["result"]["abandonedCart"]>
+
+export type AbandonedCartSelectScalar = {
+  id?: boolean
+  email?: boolean
+  customerId?: boolean
+  currency?: boolean
+  items?: boolean
+  subtotal?: boolean
+  status?: boolean
+  activityAt?: boolean
+  remindersSent?: boolean
+  lastRemindedAt?: boolean
+  restoredAt?: boolean
+  orderId?: boolean
+  orderTotalNGN?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+}
+
+export type AbandonedCartOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "customerId" | "currency" | "items" | "subtotal" | "status" | "activityAt" | "remindersSent" | "lastRemindedAt" | "restoredAt" | "orderId" | "orderTotalNGN" | "closedAt" | "createdAt", ExtArgs["result"]["abandonedCart"]>
+export type AbandonedCartInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  customer?: boolean | Prisma.AbandonedCart$customerArgs<ExtArgs>
+  order?: boolean | Prisma.AbandonedCart$orderArgs<ExtArgs>
+}
+export type AbandonedCartIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  customer?: boolean | Prisma.AbandonedCart$customerArgs<ExtArgs>
+  order?: boolean | Prisma.AbandonedCart$orderArgs<ExtArgs>
+}
+export type AbandonedCartIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  customer?: boolean | Prisma.AbandonedCart$customerArgs<ExtArgs>
+  order?: boolean | Prisma.AbandonedCart$orderArgs<ExtArgs>
+}
+
+export type $AbandonedCartPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AbandonedCart"
+  objects: {
+    customer: Prisma.$CustomerPayload<ExtArgs> | null
+    order: Prisma.$OrderPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    email: string
+    customerId: string | null
+    currency: $Enums.Currency
+    items: runtime.JsonValue
+    subtotal: number
+    status: $Enums.AbandonedCartStatus
+    activityAt: Date
+    remindersSent: number
+    lastRemindedAt: Date | null
+    restoredAt: Date | null
+    orderId: string | null
+    orderTotalNGN: number | null
+    closedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["abandonedCart"]>
+  composites: {}
+}
+
+export type AbandonedCartGetPayload<S extends boolean | null | undefined | AbandonedCartDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload, S>
+
+export type AbandonedCartCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AbandonedCartFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AbandonedCartCountAggregateInputType | true
+  }
+
+export interface AbandonedCartDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AbandonedCart'], meta: { name: 'AbandonedCart' } }
+  /**
+   * Find zero or one AbandonedCart that matches the filter.
+   * @param {AbandonedCartFindUniqueArgs} args - Arguments to find a AbandonedCart
+   * @example
+   * // Get one AbandonedCart
+   * const abandonedCart = await prisma.abandonedCart.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AbandonedCartFindUniqueArgs>(args: Prisma.SelectSubset<T, AbandonedCartFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AbandonedCartClient<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AbandonedCart that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AbandonedCartFindUniqueOrThrowArgs} args - Arguments to find a AbandonedCart
+   * @example
+   * // Get one AbandonedCart
+   * const abandonedCart = await prisma.abandonedCart.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AbandonedCartFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AbandonedCartFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AbandonedCartClient<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AbandonedCart that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AbandonedCartFindFirstArgs} args - Arguments to find a AbandonedCart
+   * @example
+   * // Get one AbandonedCart
+   * const abandonedCart = await prisma.abandonedCart.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AbandonedCartFindFirstArgs>(args?: Prisma.SelectSubset<T, AbandonedCartFindFirstArgs<ExtArgs>>): Prisma.Prisma__AbandonedCartClient<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AbandonedCart that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AbandonedCartFindFirstOrThrowArgs} args - Arguments to find a AbandonedCart
+   * @example
+   * // Get one AbandonedCart
+   * const abandonedCart = await prisma.abandonedCart.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AbandonedCartFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AbandonedCartFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AbandonedCartClient<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AbandonedCarts that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AbandonedCartFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AbandonedCarts
+   * const abandonedCarts = await prisma.abandonedCart.findMany()
+   * 
+   * // Get first 10 AbandonedCarts
+   * const abandonedCarts = await prisma.abandonedCart.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const abandonedCartWithIdOnly = await prisma.abandonedCart.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AbandonedCartFindManyArgs>(args?: Prisma.SelectSubset<T, AbandonedCartFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AbandonedCart.
+   * @param {AbandonedCartCreateArgs} args - Arguments to create a AbandonedCart.
+   * @example
+   * // Create one AbandonedCart
+   * const AbandonedCart = await prisma.abandonedCart.create({
+   *   data: {
+   *     // ... data to create a AbandonedCart
+   *   }
+   * })
+   * 
+   */
+  create<T extends AbandonedCartCreateArgs>(args: Prisma.SelectSubset<T, AbandonedCartCreateArgs<ExtArgs>>): Prisma.Prisma__AbandonedCartClient<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AbandonedCarts.
+   * @param {AbandonedCartCreateManyArgs} args - Arguments to create many AbandonedCarts.
+   * @example
+   * // Create many AbandonedCarts
+   * const abandonedCart = await prisma.abandonedCart.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AbandonedCartCreateManyArgs>(args?: Prisma.SelectSubset<T, AbandonedCartCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AbandonedCarts and returns the data saved in the database.
+   * @param {AbandonedCartCreateManyAndReturnArgs} args - Arguments to create many AbandonedCarts.
+   * @example
+   * // Create many AbandonedCarts
+   * const abandonedCart = await prisma.abandonedCart.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AbandonedCarts and only return the `id`
+   * const abandonedCartWithIdOnly = await prisma.abandonedCart.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AbandonedCartCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AbandonedCartCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AbandonedCart.
+   * @param {AbandonedCartDeleteArgs} args - Arguments to delete one AbandonedCart.
+   * @example
+   * // Delete one AbandonedCart
+   * const AbandonedCart = await prisma.abandonedCart.delete({
+   *   where: {
+   *     // ... filter to delete one AbandonedCart
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AbandonedCartDeleteArgs>(args: Prisma.SelectSubset<T, AbandonedCartDeleteArgs<ExtArgs>>): Prisma.Prisma__AbandonedCartClient<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AbandonedCart.
+   * @param {AbandonedCartUpdateArgs} args - Arguments to update one AbandonedCart.
+   * @example
+   * // Update one AbandonedCart
+   * const abandonedCart = await prisma.abandonedCart.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AbandonedCartUpdateArgs>(args: Prisma.SelectSubset<T, AbandonedCartUpdateArgs<ExtArgs>>): Prisma.Prisma__AbandonedCartClient<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AbandonedCarts.
+   * @param {AbandonedCartDeleteManyArgs} args - Arguments to filter AbandonedCarts to delete.
+   * @example
+   * // Delete a few AbandonedCarts
+   * const { count } = await prisma.abandonedCart.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AbandonedCartDeleteManyArgs>(args?: Prisma.SelectSubset<T, AbandonedCartDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AbandonedCarts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AbandonedCartUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AbandonedCarts
+   * const abandonedCart = await prisma.abandonedCart.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AbandonedCartUpdateManyArgs>(args: Prisma.SelectSubset<T, AbandonedCartUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AbandonedCarts and returns the data updated in the database.
+   * @param {AbandonedCartUpdateManyAndReturnArgs} args - Arguments to update many AbandonedCarts.
+   * @example
+   * // Update many AbandonedCarts
+   * const abandonedCart = await prisma.abandonedCart.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AbandonedCarts and only return the `id`
+   * const abandonedCartWithIdOnly = await prisma.abandonedCart.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AbandonedCartUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AbandonedCartUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AbandonedCart.
+   * @param {AbandonedCartUpsertArgs} args - Arguments to update or create a AbandonedCart.
+   * @example
+   * // Update or create a AbandonedCart
+   * const abandonedCart = await prisma.abandonedCart.upsert({
+   *   create: {
+   *     // ... data to create a AbandonedCart
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AbandonedCart we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AbandonedCartUpsertArgs>(args: Prisma.SelectSubset<T, AbandonedCartUpsertArgs<ExtArgs>>): Prisma.Prisma__AbandonedCartClient<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AbandonedCarts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AbandonedCartCountArgs} args - Arguments to filter AbandonedCarts to count.
+   * @example
+   * // Count the number of AbandonedCarts
+   * const count = await prisma.abandonedCart.count({
+   *   where: {
+   *     // ... the filter for the AbandonedCarts we want to count
+   *   }
+   * })
+  **/
+  count<T extends AbandonedCartCountArgs>(
+    args?: Prisma.Subset<T, AbandonedCartCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AbandonedCartCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AbandonedCart.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AbandonedCartAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AbandonedCartAggregateArgs>(args: Prisma.Subset<T, AbandonedCartAggregateArgs>): Prisma.PrismaPromise<GetAbandonedCartAggregateType<T>>
+
+  /**
+   * Group by AbandonedCart.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AbandonedCartGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AbandonedCartGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AbandonedCartGroupByArgs['orderBy'] }
+      : { orderBy?: AbandonedCartGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AbandonedCartGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAbandonedCartGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AbandonedCart model
+ */
+readonly fields: AbandonedCartFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AbandonedCart.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AbandonedCartClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  customer<T extends Prisma.AbandonedCart$customerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AbandonedCart$customerArgs<ExtArgs>>): Prisma.Prisma__CustomerClient<runtime.Types.Result.GetResult<Prisma.$CustomerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  order<T extends Prisma.AbandonedCart$orderArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AbandonedCart$orderArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AbandonedCart model
+ */
+export interface AbandonedCartFieldRefs {
+  readonly id: Prisma.FieldRef<"AbandonedCart", 'String'>
+  readonly email: Prisma.FieldRef<"AbandonedCart", 'String'>
+  readonly customerId: Prisma.FieldRef<"AbandonedCart", 'String'>
+  readonly currency: Prisma.FieldRef<"AbandonedCart", 'Currency'>
+  readonly items: Prisma.FieldRef<"AbandonedCart", 'Json'>
+  readonly subtotal: Prisma.FieldRef<"AbandonedCart", 'Float'>
+  readonly status: Prisma.FieldRef<"AbandonedCart", 'AbandonedCartStatus'>
+  readonly activityAt: Prisma.FieldRef<"AbandonedCart", 'DateTime'>
+  readonly remindersSent: Prisma.FieldRef<"AbandonedCart", 'Int'>
+  readonly lastRemindedAt: Prisma.FieldRef<"AbandonedCart", 'DateTime'>
+  readonly restoredAt: Prisma.FieldRef<"AbandonedCart", 'DateTime'>
+  readonly orderId: Prisma.FieldRef<"AbandonedCart", 'String'>
+  readonly orderTotalNGN: Prisma.FieldRef<"AbandonedCart", 'Int'>
+  readonly closedAt: Prisma.FieldRef<"AbandonedCart", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"AbandonedCart", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AbandonedCart findUnique
+ */
+export type AbandonedCartFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  /**
+   * Filter, which AbandonedCart to fetch.
+   */
+  where: Prisma.AbandonedCartWhereUniqueInput
+}
+
+/**
+ * AbandonedCart findUniqueOrThrow
+ */
+export type AbandonedCartFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  /**
+   * Filter, which AbandonedCart to fetch.
+   */
+  where: Prisma.AbandonedCartWhereUniqueInput
+}
+
+/**
+ * AbandonedCart findFirst
+ */
+export type AbandonedCartFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  /**
+   * Filter, which AbandonedCart to fetch.
+   */
+  where?: Prisma.AbandonedCartWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AbandonedCarts to fetch.
+   */
+  orderBy?: Prisma.AbandonedCartOrderByWithRelationInput | Prisma.AbandonedCartOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AbandonedCarts.
+   */
+  cursor?: Prisma.AbandonedCartWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AbandonedCarts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AbandonedCarts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AbandonedCarts.
+   */
+  distinct?: Prisma.AbandonedCartScalarFieldEnum | Prisma.AbandonedCartScalarFieldEnum[]
+}
+
+/**
+ * AbandonedCart findFirstOrThrow
+ */
+export type AbandonedCartFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  /**
+   * Filter, which AbandonedCart to fetch.
+   */
+  where?: Prisma.AbandonedCartWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AbandonedCarts to fetch.
+   */
+  orderBy?: Prisma.AbandonedCartOrderByWithRelationInput | Prisma.AbandonedCartOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AbandonedCarts.
+   */
+  cursor?: Prisma.AbandonedCartWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AbandonedCarts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AbandonedCarts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AbandonedCarts.
+   */
+  distinct?: Prisma.AbandonedCartScalarFieldEnum | Prisma.AbandonedCartScalarFieldEnum[]
+}
+
+/**
+ * AbandonedCart findMany
+ */
+export type AbandonedCartFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  /**
+   * Filter, which AbandonedCarts to fetch.
+   */
+  where?: Prisma.AbandonedCartWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AbandonedCarts to fetch.
+   */
+  orderBy?: Prisma.AbandonedCartOrderByWithRelationInput | Prisma.AbandonedCartOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AbandonedCarts.
+   */
+  cursor?: Prisma.AbandonedCartWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AbandonedCarts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AbandonedCarts.
+   */
+  skip?: number
+  distinct?: Prisma.AbandonedCartScalarFieldEnum | Prisma.AbandonedCartScalarFieldEnum[]
+}
+
+/**
+ * AbandonedCart create
+ */
+export type AbandonedCartCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  /**
+   * The data needed to create a AbandonedCart.
+   */
+  data: Prisma.XOR<Prisma.AbandonedCartCreateInput, Prisma.AbandonedCartUncheckedCreateInput>
+}
+
+/**
+ * AbandonedCart createMany
+ */
+export type AbandonedCartCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AbandonedCarts.
+   */
+  data: Prisma.AbandonedCartCreateManyInput | Prisma.AbandonedCartCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AbandonedCart createManyAndReturn
+ */
+export type AbandonedCartCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * The data used to create many AbandonedCarts.
+   */
+  data: Prisma.AbandonedCartCreateManyInput | Prisma.AbandonedCartCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AbandonedCart update
+ */
+export type AbandonedCartUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  /**
+   * The data needed to update a AbandonedCart.
+   */
+  data: Prisma.XOR<Prisma.AbandonedCartUpdateInput, Prisma.AbandonedCartUncheckedUpdateInput>
+  /**
+   * Choose, which AbandonedCart to update.
+   */
+  where: Prisma.AbandonedCartWhereUniqueInput
+}
+
+/**
+ * AbandonedCart updateMany
+ */
+export type AbandonedCartUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AbandonedCarts.
+   */
+  data: Prisma.XOR<Prisma.AbandonedCartUpdateManyMutationInput, Prisma.AbandonedCartUncheckedUpdateManyInput>
+  /**
+   * Filter which AbandonedCarts to update
+   */
+  where?: Prisma.AbandonedCartWhereInput
+  /**
+   * Limit how many AbandonedCarts to update.
+   */
+  limit?: number
+}
+
+/**
+ * AbandonedCart updateManyAndReturn
+ */
+export type AbandonedCartUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * The data used to update AbandonedCarts.
+   */
+  data: Prisma.XOR<Prisma.AbandonedCartUpdateManyMutationInput, Prisma.AbandonedCartUncheckedUpdateManyInput>
+  /**
+   * Filter which AbandonedCarts to update
+   */
+  where?: Prisma.AbandonedCartWhereInput
+  /**
+   * Limit how many AbandonedCarts to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AbandonedCart upsert
+ */
+export type AbandonedCartUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  /**
+   * The filter to search for the AbandonedCart to update in case it exists.
+   */
+  where: Prisma.AbandonedCartWhereUniqueInput
+  /**
+   * In case the AbandonedCart found by the `where` argument doesn't exist, create a new AbandonedCart with this data.
+   */
+  create: Prisma.XOR<Prisma.AbandonedCartCreateInput, Prisma.AbandonedCartUncheckedCreateInput>
+  /**
+   * In case the AbandonedCart was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AbandonedCartUpdateInput, Prisma.AbandonedCartUncheckedUpdateInput>
+}
+
+/**
+ * AbandonedCart delete
+ */
+export type AbandonedCartDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  /**
+   * Filter which AbandonedCart to delete.
+   */
+  where: Prisma.AbandonedCartWhereUniqueInput
+}
+
+/**
+ * AbandonedCart deleteMany
+ */
+export type AbandonedCartDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AbandonedCarts to delete
+   */
+  where?: Prisma.AbandonedCartWhereInput
+  /**
+   * Limit how many AbandonedCarts to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AbandonedCart.customer
+ */
+export type AbandonedCart$customerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Customer
+   */
+  select?: Prisma.CustomerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Customer
+   */
+  omit?: Prisma.CustomerOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomerInclude<ExtArgs> | null
+  where?: Prisma.CustomerWhereInput
+}
+
+/**
+ * AbandonedCart.order
+ */
+export type AbandonedCart$orderArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  where?: Prisma.OrderWhereInput
+}
+
+/**
+ * AbandonedCart without action
+ */
+export type AbandonedCartDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+}
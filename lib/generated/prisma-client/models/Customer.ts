@@ -281,6 +281,12 @@ export type CustomerWhereInput = {
   orders?: Prisma.OrderListRelationFilter
   reviews?: Prisma.ReviewListRelationFilter
   wishlistItems?: Prisma.WishlistItemListRelationFilter
+  promotionRedemptions?: Prisma.PromotionRedemptionListRelationFilter
+  stockNotifications?: Prisma.StockNotificationListRelationFilter
+  launchNotifications?: Prisma.LaunchNotificationListRelationFilter
+  returnRequests?: Prisma.ReturnRequestListRelationFilter
+  cart?: Prisma.XOR<Prisma.CartNullableScalarRelationFilter, Prisma.CartWhereInput> | null
+  abandonedCarts?: Prisma.AbandonedCartListRelationFilter
 }
 
 export type CustomerOrderByWithRelationInput = {
@@ -304,6 +310,12 @@ export type CustomerOrderByWithRelationInput = {
   orders?: Prisma.OrderOrderByRelationAggregateInput
   reviews?: Prisma.ReviewOrderByRelationAggregateInput
   wishlistItems?: Prisma.WishlistItemOrderByRelationAggregateInput
+  promotionRedemptions?: Prisma.PromotionRedemptionOrderByRelationAggregateInput
+  stockNotifications?: Prisma.StockNotificationOrderByRelationAggregateInput
+  launchNotifications?: Prisma.LaunchNotificationOrderByRelationAggregateInput
+  returnRequests?: Prisma.ReturnRequestOrderByRelationAggregateInput
+  cart?: Prisma.CartOrderByWithRelationInput
+  abandonedCarts?: Prisma.AbandonedCartOrderByRelationAggregateInput
 }
 
 export type CustomerWhereUniqueInput = Prisma.AtLeast<{
@@ -330,6 +342,12 @@ export type CustomerWhereUniqueInput = Prisma.AtLeast<{
   orders?: Prisma.OrderListRelationFilter
   reviews?: Prisma.ReviewListRelationFilter
   wishlistItems?: Prisma.WishlistItemListRelationFilter
+  promotionRedemptions?: Prisma.PromotionRedemptionListRelationFilter
+  stockNotifications?: Prisma.StockNotificationListRelationFilter
+  launchNotifications?: Prisma.LaunchNotificationListRelationFilter
+  returnRequests?: Prisma.ReturnRequestListRelationFilter
+  cart?: Prisma.XOR<Prisma.CartNullableScalarRelationFilter, Prisma.CartWhereInput> | null
+  abandonedCarts?: Prisma.AbandonedCartListRelationFilter
 }, "id" | "email">
 
 export type CustomerOrderByWithAggregationInput = {
@@ -399,6 +417,12 @@ export type CustomerCreateInput = {
   orders?: Prisma.OrderCreateNestedManyWithoutCustomerInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
   wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartCreateNestedManyWithoutCustomerInput
 }
 
 export type CustomerUncheckedCreateInput = {
@@ -422,6 +446,12 @@ export type CustomerUncheckedCreateInput = {
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCustomerInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
   wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput
 }
 
 export type CustomerUpdateInput = {
@@ -445,6 +475,12 @@ export type CustomerUpdateInput = {
   orders?: Prisma.OrderUpdateManyWithoutCustomerNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
   wishlistItems?: Prisma.WishlistItemUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUpdateManyWithoutCustomerNestedInput
 }
 
 export type CustomerUncheckedUpdateInput = {
@@ -468,6 +504,12 @@ export type CustomerUncheckedUpdateInput = {
   orders?: Prisma.OrderUncheckedUpdateManyWithoutCustomerNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
   wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput
 }
 
 export type CustomerCreateManyInput = {
@@ -664,6 +706,100 @@ export type CustomerUpdateOneRequiredWithoutWishlistItemsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.CustomerUpdateToOneWithWhereWithoutWishlistItemsInput, Prisma.CustomerUpdateWithoutWishlistItemsInput>, Prisma.CustomerUncheckedUpdateWithoutWishlistItemsInput>
 }
 
+export type CustomerCreateNestedOneWithoutCartInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutCartInput, Prisma.CustomerUncheckedCreateWithoutCartInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutCartInput
+  connect?: Prisma.CustomerWhereUniqueInput
+}
+
+export type CustomerUpdateOneRequiredWithoutCartNestedInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutCartInput, Prisma.CustomerUncheckedCreateWithoutCartInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutCartInput
+  upsert?: Prisma.CustomerUpsertWithoutCartInput
+  connect?: Prisma.CustomerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CustomerUpdateToOneWithWhereWithoutCartInput, Prisma.CustomerUpdateWithoutCartInput>, Prisma.CustomerUncheckedUpdateWithoutCartInput>
+}
+
+export type CustomerCreateNestedOneWithoutAbandonedCartsInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutAbandonedCartsInput, Prisma.CustomerUncheckedCreateWithoutAbandonedCartsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutAbandonedCartsInput
+  connect?: Prisma.CustomerWhereUniqueInput
+}
+
+export type CustomerUpdateOneWithoutAbandonedCartsNestedInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutAbandonedCartsInput, Prisma.CustomerUncheckedCreateWithoutAbandonedCartsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutAbandonedCartsInput
+  upsert?: Prisma.CustomerUpsertWithoutAbandonedCartsInput
+  disconnect?: Prisma.CustomerWhereInput | boolean
+  delete?: Prisma.CustomerWhereInput | boolean
+  connect?: Prisma.CustomerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CustomerUpdateToOneWithWhereWithoutAbandonedCartsInput, Prisma.CustomerUpdateWithoutAbandonedCartsInput>, Prisma.CustomerUncheckedUpdateWithoutAbandonedCartsInput>
+}
+
+export type CustomerCreateNestedOneWithoutStockNotificationsInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutStockNotificationsInput, Prisma.CustomerUncheckedCreateWithoutStockNotificationsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutStockNotificationsInput
+  connect?: Prisma.CustomerWhereUniqueInput
+}
+
+export type CustomerUpdateOneWithoutStockNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutStockNotificationsInput, Prisma.CustomerUncheckedCreateWithoutStockNotificationsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutStockNotificationsInput
+  upsert?: Prisma.CustomerUpsertWithoutStockNotificationsInput
+  disconnect?: Prisma.CustomerWhereInput | boolean
+  delete?: Prisma.CustomerWhereInput | boolean
+  connect?: Prisma.CustomerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CustomerUpdateToOneWithWhereWithoutStockNotificationsInput, Prisma.CustomerUpdateWithoutStockNotificationsInput>, Prisma.CustomerUncheckedUpdateWithoutStockNotificationsInput>
+}
+
+export type CustomerCreateNestedOneWithoutLaunchNotificationsInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutLaunchNotificationsInput, Prisma.CustomerUncheckedCreateWithoutLaunchNotificationsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutLaunchNotificationsInput
+  connect?: Prisma.CustomerWhereUniqueInput
+}
+
+export type CustomerUpdateOneWithoutLaunchNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutLaunchNotificationsInput, Prisma.CustomerUncheckedCreateWithoutLaunchNotificationsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutLaunchNotificationsInput
+  upsert?: Prisma.CustomerUpsertWithoutLaunchNotificationsInput
+  disconnect?: Prisma.CustomerWhereInput | boolean
+  delete?: Prisma.CustomerWhereInput | boolean
+  connect?: Prisma.CustomerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CustomerUpdateToOneWithWhereWithoutLaunchNotificationsInput, Prisma.CustomerUpdateWithoutLaunchNotificationsInput>, Prisma.CustomerUncheckedUpdateWithoutLaunchNotificationsInput>
+}
+
+export type CustomerCreateNestedOneWithoutReturnRequestsInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutReturnRequestsInput, Prisma.CustomerUncheckedCreateWithoutReturnRequestsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutReturnRequestsInput
+  connect?: Prisma.CustomerWhereUniqueInput
+}
+
+export type CustomerUpdateOneWithoutReturnRequestsNestedInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutReturnRequestsInput, Prisma.CustomerUncheckedCreateWithoutReturnRequestsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutReturnRequestsInput
+  upsert?: Prisma.CustomerUpsertWithoutReturnRequestsInput
+  disconnect?: Prisma.CustomerWhereInput | boolean
+  delete?: Prisma.CustomerWhereInput | boolean
+  connect?: Prisma.CustomerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CustomerUpdateToOneWithWhereWithoutReturnRequestsInput, Prisma.CustomerUpdateWithoutReturnRequestsInput>, Prisma.CustomerUncheckedUpdateWithoutReturnRequestsInput>
+}
+
+export type CustomerCreateNestedOneWithoutPromotionRedemptionsInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutPromotionRedemptionsInput, Prisma.CustomerUncheckedCreateWithoutPromotionRedemptionsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutPromotionRedemptionsInput
+  connect?: Prisma.CustomerWhereUniqueInput
+}
+
+export type CustomerUpdateOneWithoutPromotionRedemptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.CustomerCreateWithoutPromotionRedemptionsInput, Prisma.CustomerUncheckedCreateWithoutPromotionRedemptionsInput>
+  connectOrCreate?: Prisma.CustomerCreateOrConnectWithoutPromotionRedemptionsInput
+  upsert?: Prisma.CustomerUpsertWithoutPromotionRedemptionsInput
+  disconnect?: Prisma.CustomerWhereInput | boolean
+  delete?: Prisma.CustomerWhereInput | boolean
+  connect?: Prisma.CustomerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CustomerUpdateToOneWithWhereWithoutPromotionRedemptionsInput, Prisma.CustomerUpdateWithoutPromotionRedemptionsInput>, Prisma.CustomerUncheckedUpdateWithoutPromotionRedemptionsInput>
+}
+
 export type CustomerCreateWithoutReviewsInput = {
   id?: string
   firstName: string
@@ -684,9 +820,655 @@ export type CustomerCreateWithoutReviewsInput = {
   resetTokenExpiry?: Date | string | null
   orders?: Prisma.OrderCreateNestedManyWithoutCustomerInput
   wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerUncheckedCreateWithoutReviewsInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerCreateOrConnectWithoutReviewsInput = {
+  where: Prisma.CustomerWhereUniqueInput
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutReviewsInput, Prisma.CustomerUncheckedCreateWithoutReviewsInput>
+}
+
+export type CustomerUpsertWithoutReviewsInput = {
+  update: Prisma.XOR<Prisma.CustomerUpdateWithoutReviewsInput, Prisma.CustomerUncheckedUpdateWithoutReviewsInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutReviewsInput, Prisma.CustomerUncheckedCreateWithoutReviewsInput>
+  where?: Prisma.CustomerWhereInput
+}
+
+export type CustomerUpdateToOneWithWhereWithoutReviewsInput = {
+  where?: Prisma.CustomerWhereInput
+  data: Prisma.XOR<Prisma.CustomerUpdateWithoutReviewsInput, Prisma.CustomerUncheckedUpdateWithoutReviewsInput>
+}
+
+export type CustomerUpdateWithoutReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerUncheckedUpdateWithoutReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerCreateWithoutOrdersInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  reviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerUncheckedCreateWithoutOrdersInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerCreateOrConnectWithoutOrdersInput = {
+  where: Prisma.CustomerWhereUniqueInput
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutOrdersInput, Prisma.CustomerUncheckedCreateWithoutOrdersInput>
+}
+
+export type CustomerUpsertWithoutOrdersInput = {
+  update: Prisma.XOR<Prisma.CustomerUpdateWithoutOrdersInput, Prisma.CustomerUncheckedUpdateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutOrdersInput, Prisma.CustomerUncheckedCreateWithoutOrdersInput>
+  where?: Prisma.CustomerWhereInput
+}
+
+export type CustomerUpdateToOneWithWhereWithoutOrdersInput = {
+  where?: Prisma.CustomerWhereInput
+  data: Prisma.XOR<Prisma.CustomerUpdateWithoutOrdersInput, Prisma.CustomerUncheckedUpdateWithoutOrdersInput>
+}
+
+export type CustomerUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerUncheckedUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerCreateWithoutWishlistItemsInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerUncheckedCreateWithoutWishlistItemsInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerCreateOrConnectWithoutWishlistItemsInput = {
+  where: Prisma.CustomerWhereUniqueInput
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutWishlistItemsInput, Prisma.CustomerUncheckedCreateWithoutWishlistItemsInput>
+}
+
+export type CustomerUpsertWithoutWishlistItemsInput = {
+  update: Prisma.XOR<Prisma.CustomerUpdateWithoutWishlistItemsInput, Prisma.CustomerUncheckedUpdateWithoutWishlistItemsInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutWishlistItemsInput, Prisma.CustomerUncheckedCreateWithoutWishlistItemsInput>
+  where?: Prisma.CustomerWhereInput
+}
+
+export type CustomerUpdateToOneWithWhereWithoutWishlistItemsInput = {
+  where?: Prisma.CustomerWhereInput
+  data: Prisma.XOR<Prisma.CustomerUpdateWithoutWishlistItemsInput, Prisma.CustomerUncheckedUpdateWithoutWishlistItemsInput>
+}
+
+export type CustomerUpdateWithoutWishlistItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerUncheckedUpdateWithoutWishlistItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerCreateWithoutCartInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerUncheckedCreateWithoutCartInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerCreateOrConnectWithoutCartInput = {
+  where: Prisma.CustomerWhereUniqueInput
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutCartInput, Prisma.CustomerUncheckedCreateWithoutCartInput>
+}
+
+export type CustomerUpsertWithoutCartInput = {
+  update: Prisma.XOR<Prisma.CustomerUpdateWithoutCartInput, Prisma.CustomerUncheckedUpdateWithoutCartInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutCartInput, Prisma.CustomerUncheckedCreateWithoutCartInput>
+  where?: Prisma.CustomerWhereInput
+}
+
+export type CustomerUpdateToOneWithWhereWithoutCartInput = {
+  where?: Prisma.CustomerWhereInput
+  data: Prisma.XOR<Prisma.CustomerUpdateWithoutCartInput, Prisma.CustomerUncheckedUpdateWithoutCartInput>
+}
+
+export type CustomerUpdateWithoutCartInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerUncheckedUpdateWithoutCartInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerCreateWithoutAbandonedCartsInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartCreateNestedOneWithoutCustomerInput
+}
+
+export type CustomerUncheckedCreateWithoutAbandonedCartsInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutCustomerInput
+}
+
+export type CustomerCreateOrConnectWithoutAbandonedCartsInput = {
+  where: Prisma.CustomerWhereUniqueInput
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutAbandonedCartsInput, Prisma.CustomerUncheckedCreateWithoutAbandonedCartsInput>
+}
+
+export type CustomerUpsertWithoutAbandonedCartsInput = {
+  update: Prisma.XOR<Prisma.CustomerUpdateWithoutAbandonedCartsInput, Prisma.CustomerUncheckedUpdateWithoutAbandonedCartsInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutAbandonedCartsInput, Prisma.CustomerUncheckedCreateWithoutAbandonedCartsInput>
+  where?: Prisma.CustomerWhereInput
+}
+
+export type CustomerUpdateToOneWithWhereWithoutAbandonedCartsInput = {
+  where?: Prisma.CustomerWhereInput
+  data: Prisma.XOR<Prisma.CustomerUpdateWithoutAbandonedCartsInput, Prisma.CustomerUncheckedUpdateWithoutAbandonedCartsInput>
+}
+
+export type CustomerUpdateWithoutAbandonedCartsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUpdateOneWithoutCustomerNestedInput
+}
+
+export type CustomerUncheckedUpdateWithoutAbandonedCartsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutCustomerNestedInput
+}
+
+export type CustomerCreateWithoutStockNotificationsInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartCreateNestedManyWithoutCustomerInput
 }
 
-export type CustomerUncheckedCreateWithoutReviewsInput = {
+export type CustomerUncheckedCreateWithoutStockNotificationsInput = {
   id?: string
   firstName: string
   lastName: string
@@ -705,26 +1487,32 @@ export type CustomerUncheckedCreateWithoutReviewsInput = {
   resetToken?: string | null
   resetTokenExpiry?: Date | string | null
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
   wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput
 }
 
-export type CustomerCreateOrConnectWithoutReviewsInput = {
+export type CustomerCreateOrConnectWithoutStockNotificationsInput = {
   where: Prisma.CustomerWhereUniqueInput
-  create: Prisma.XOR<Prisma.CustomerCreateWithoutReviewsInput, Prisma.CustomerUncheckedCreateWithoutReviewsInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutStockNotificationsInput, Prisma.CustomerUncheckedCreateWithoutStockNotificationsInput>
 }
 
-export type CustomerUpsertWithoutReviewsInput = {
-  update: Prisma.XOR<Prisma.CustomerUpdateWithoutReviewsInput, Prisma.CustomerUncheckedUpdateWithoutReviewsInput>
-  create: Prisma.XOR<Prisma.CustomerCreateWithoutReviewsInput, Prisma.CustomerUncheckedCreateWithoutReviewsInput>
+export type CustomerUpsertWithoutStockNotificationsInput = {
+  update: Prisma.XOR<Prisma.CustomerUpdateWithoutStockNotificationsInput, Prisma.CustomerUncheckedUpdateWithoutStockNotificationsInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutStockNotificationsInput, Prisma.CustomerUncheckedCreateWithoutStockNotificationsInput>
   where?: Prisma.CustomerWhereInput
 }
 
-export type CustomerUpdateToOneWithWhereWithoutReviewsInput = {
+export type CustomerUpdateToOneWithWhereWithoutStockNotificationsInput = {
   where?: Prisma.CustomerWhereInput
-  data: Prisma.XOR<Prisma.CustomerUpdateWithoutReviewsInput, Prisma.CustomerUncheckedUpdateWithoutReviewsInput>
+  data: Prisma.XOR<Prisma.CustomerUpdateWithoutStockNotificationsInput, Prisma.CustomerUncheckedUpdateWithoutStockNotificationsInput>
 }
 
-export type CustomerUpdateWithoutReviewsInput = {
+export type CustomerUpdateWithoutStockNotificationsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -743,10 +1531,16 @@ export type CustomerUpdateWithoutReviewsInput = {
   resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   orders?: Prisma.OrderUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
   wishlistItems?: Prisma.WishlistItemUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUpdateManyWithoutCustomerNestedInput
 }
 
-export type CustomerUncheckedUpdateWithoutReviewsInput = {
+export type CustomerUncheckedUpdateWithoutStockNotificationsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -765,10 +1559,16 @@ export type CustomerUncheckedUpdateWithoutReviewsInput = {
   resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   orders?: Prisma.OrderUncheckedUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
   wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput
 }
 
-export type CustomerCreateWithoutOrdersInput = {
+export type CustomerCreateWithoutLaunchNotificationsInput = {
   id?: string
   firstName: string
   lastName: string
@@ -786,11 +1586,17 @@ export type CustomerCreateWithoutOrdersInput = {
   verificationTokenExpiry?: Date | string | null
   resetToken?: string | null
   resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderCreateNestedManyWithoutCustomerInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
   wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartCreateNestedManyWithoutCustomerInput
 }
 
-export type CustomerUncheckedCreateWithoutOrdersInput = {
+export type CustomerUncheckedCreateWithoutLaunchNotificationsInput = {
   id?: string
   firstName: string
   lastName: string
@@ -808,27 +1614,33 @@ export type CustomerUncheckedCreateWithoutOrdersInput = {
   verificationTokenExpiry?: Date | string | null
   resetToken?: string | null
   resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCustomerInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
   wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput
 }
 
-export type CustomerCreateOrConnectWithoutOrdersInput = {
+export type CustomerCreateOrConnectWithoutLaunchNotificationsInput = {
   where: Prisma.CustomerWhereUniqueInput
-  create: Prisma.XOR<Prisma.CustomerCreateWithoutOrdersInput, Prisma.CustomerUncheckedCreateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutLaunchNotificationsInput, Prisma.CustomerUncheckedCreateWithoutLaunchNotificationsInput>
 }
 
-export type CustomerUpsertWithoutOrdersInput = {
-  update: Prisma.XOR<Prisma.CustomerUpdateWithoutOrdersInput, Prisma.CustomerUncheckedUpdateWithoutOrdersInput>
-  create: Prisma.XOR<Prisma.CustomerCreateWithoutOrdersInput, Prisma.CustomerUncheckedCreateWithoutOrdersInput>
+export type CustomerUpsertWithoutLaunchNotificationsInput = {
+  update: Prisma.XOR<Prisma.CustomerUpdateWithoutLaunchNotificationsInput, Prisma.CustomerUncheckedUpdateWithoutLaunchNotificationsInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutLaunchNotificationsInput, Prisma.CustomerUncheckedCreateWithoutLaunchNotificationsInput>
   where?: Prisma.CustomerWhereInput
 }
 
-export type CustomerUpdateToOneWithWhereWithoutOrdersInput = {
+export type CustomerUpdateToOneWithWhereWithoutLaunchNotificationsInput = {
   where?: Prisma.CustomerWhereInput
-  data: Prisma.XOR<Prisma.CustomerUpdateWithoutOrdersInput, Prisma.CustomerUncheckedUpdateWithoutOrdersInput>
+  data: Prisma.XOR<Prisma.CustomerUpdateWithoutLaunchNotificationsInput, Prisma.CustomerUncheckedUpdateWithoutLaunchNotificationsInput>
 }
 
-export type CustomerUpdateWithoutOrdersInput = {
+export type CustomerUpdateWithoutLaunchNotificationsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -846,11 +1658,17 @@ export type CustomerUpdateWithoutOrdersInput = {
   verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUpdateManyWithoutCustomerNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
   wishlistItems?: Prisma.WishlistItemUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUpdateManyWithoutCustomerNestedInput
 }
 
-export type CustomerUncheckedUpdateWithoutOrdersInput = {
+export type CustomerUncheckedUpdateWithoutLaunchNotificationsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -868,11 +1686,17 @@ export type CustomerUncheckedUpdateWithoutOrdersInput = {
   verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCustomerNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
   wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput
 }
 
-export type CustomerCreateWithoutWishlistItemsInput = {
+export type CustomerCreateWithoutReturnRequestsInput = {
   id?: string
   firstName: string
   lastName: string
@@ -892,9 +1716,15 @@ export type CustomerCreateWithoutWishlistItemsInput = {
   resetTokenExpiry?: Date | string | null
   orders?: Prisma.OrderCreateNestedManyWithoutCustomerInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartCreateNestedManyWithoutCustomerInput
 }
 
-export type CustomerUncheckedCreateWithoutWishlistItemsInput = {
+export type CustomerUncheckedCreateWithoutReturnRequestsInput = {
   id?: string
   firstName: string
   lastName: string
@@ -914,25 +1744,31 @@ export type CustomerUncheckedCreateWithoutWishlistItemsInput = {
   resetTokenExpiry?: Date | string | null
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCustomerInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutCustomerInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput
 }
 
-export type CustomerCreateOrConnectWithoutWishlistItemsInput = {
+export type CustomerCreateOrConnectWithoutReturnRequestsInput = {
   where: Prisma.CustomerWhereUniqueInput
-  create: Prisma.XOR<Prisma.CustomerCreateWithoutWishlistItemsInput, Prisma.CustomerUncheckedCreateWithoutWishlistItemsInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutReturnRequestsInput, Prisma.CustomerUncheckedCreateWithoutReturnRequestsInput>
 }
 
-export type CustomerUpsertWithoutWishlistItemsInput = {
-  update: Prisma.XOR<Prisma.CustomerUpdateWithoutWishlistItemsInput, Prisma.CustomerUncheckedUpdateWithoutWishlistItemsInput>
-  create: Prisma.XOR<Prisma.CustomerCreateWithoutWishlistItemsInput, Prisma.CustomerUncheckedCreateWithoutWishlistItemsInput>
+export type CustomerUpsertWithoutReturnRequestsInput = {
+  update: Prisma.XOR<Prisma.CustomerUpdateWithoutReturnRequestsInput, Prisma.CustomerUncheckedUpdateWithoutReturnRequestsInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutReturnRequestsInput, Prisma.CustomerUncheckedCreateWithoutReturnRequestsInput>
   where?: Prisma.CustomerWhereInput
 }
 
-export type CustomerUpdateToOneWithWhereWithoutWishlistItemsInput = {
+export type CustomerUpdateToOneWithWhereWithoutReturnRequestsInput = {
   where?: Prisma.CustomerWhereInput
-  data: Prisma.XOR<Prisma.CustomerUpdateWithoutWishlistItemsInput, Prisma.CustomerUncheckedUpdateWithoutWishlistItemsInput>
+  data: Prisma.XOR<Prisma.CustomerUpdateWithoutReturnRequestsInput, Prisma.CustomerUncheckedUpdateWithoutReturnRequestsInput>
 }
 
-export type CustomerUpdateWithoutWishlistItemsInput = {
+export type CustomerUpdateWithoutReturnRequestsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -952,9 +1788,143 @@ export type CustomerUpdateWithoutWishlistItemsInput = {
   resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   orders?: Prisma.OrderUpdateManyWithoutCustomerNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUpdateManyWithoutCustomerNestedInput
 }
 
-export type CustomerUncheckedUpdateWithoutWishlistItemsInput = {
+export type CustomerUncheckedUpdateWithoutReturnRequestsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutCustomerNestedInput
+  promotionRedemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerCreateWithoutPromotionRedemptionsInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerUncheckedCreateWithoutPromotionRedemptionsInput = {
+  id?: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  passwordHash?: string | null
+  deliveryAddress?: string | null
+  billingAddress?: string | null
+  country?: string | null
+  state?: string | null
+  registeredAt?: Date | string
+  lastLogin?: Date | string | null
+  emailVerified?: boolean
+  verificationToken?: string | null
+  verificationTokenExpiry?: Date | string | null
+  resetToken?: string | null
+  resetTokenExpiry?: Date | string | null
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCustomerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutCustomerInput
+  stockNotifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutCustomerInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedCreateNestedManyWithoutCustomerInput
+}
+
+export type CustomerCreateOrConnectWithoutPromotionRedemptionsInput = {
+  where: Prisma.CustomerWhereUniqueInput
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutPromotionRedemptionsInput, Prisma.CustomerUncheckedCreateWithoutPromotionRedemptionsInput>
+}
+
+export type CustomerUpsertWithoutPromotionRedemptionsInput = {
+  update: Prisma.XOR<Prisma.CustomerUpdateWithoutPromotionRedemptionsInput, Prisma.CustomerUncheckedUpdateWithoutPromotionRedemptionsInput>
+  create: Prisma.XOR<Prisma.CustomerCreateWithoutPromotionRedemptionsInput, Prisma.CustomerUncheckedCreateWithoutPromotionRedemptionsInput>
+  where?: Prisma.CustomerWhereInput
+}
+
+export type CustomerUpdateToOneWithWhereWithoutPromotionRedemptionsInput = {
+  where?: Prisma.CustomerWhereInput
+  data: Prisma.XOR<Prisma.CustomerUpdateWithoutPromotionRedemptionsInput, Prisma.CustomerUncheckedUpdateWithoutPromotionRedemptionsInput>
+}
+
+export type CustomerUpdateWithoutPromotionRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registeredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  verificationTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUpdateManyWithoutCustomerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUpdateManyWithoutCustomerNestedInput
+}
+
+export type CustomerUncheckedUpdateWithoutPromotionRedemptionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -974,6 +1944,12 @@ export type CustomerUncheckedUpdateWithoutWishlistItemsInput = {
   resetTokenExpiry?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   orders?: Prisma.OrderUncheckedUpdateManyWithoutCustomerNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutCustomerNestedInput
+  stockNotifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutCustomerNestedInput
+  abandonedCarts?: Prisma.AbandonedCartUncheckedUpdateManyWithoutCustomerNestedInput
 }
 
 
@@ -985,12 +1961,22 @@ export type CustomerCountOutputType = {
   orders: number
   reviews: number
   wishlistItems: number
+  promotionRedemptions: number
+  stockNotifications: number
+  launchNotifications: number
+  returnRequests: number
+  abandonedCarts: number
 }
 
 export type CustomerCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   orders?: boolean | CustomerCountOutputTypeCountOrdersArgs
   reviews?: boolean | CustomerCountOutputTypeCountReviewsArgs
   wishlistItems?: boolean | CustomerCountOutputTypeCountWishlistItemsArgs
+  promotionRedemptions?: boolean | CustomerCountOutputTypeCountPromotionRedemptionsArgs
+  stockNotifications?: boolean | CustomerCountOutputTypeCountStockNotificationsArgs
+  launchNotifications?: boolean | CustomerCountOutputTypeCountLaunchNotificationsArgs
+  returnRequests?: boolean | CustomerCountOutputTypeCountReturnRequestsArgs
+  abandonedCarts?: boolean | CustomerCountOutputTypeCountAbandonedCartsArgs
 }
 
 /**
@@ -1024,6 +2010,41 @@ export type CustomerCountOutputTypeCountWishlistItemsArgs<ExtArgs extends runtim
   where?: Prisma.WishlistItemWhereInput
 }
 
+/**
+ * CustomerCountOutputType without action
+ */
+export type CustomerCountOutputTypeCountPromotionRedemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PromotionRedemptionWhereInput
+}
+
+/**
+ * CustomerCountOutputType without action
+ */
+export type CustomerCountOutputTypeCountStockNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StockNotificationWhereInput
+}
+
+/**
+ * CustomerCountOutputType without action
+ */
+export type CustomerCountOutputTypeCountLaunchNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LaunchNotificationWhereInput
+}
+
+/**
+ * CustomerCountOutputType without action
+ */
+export type CustomerCountOutputTypeCountReturnRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+/**
+ * CustomerCountOutputType without action
+ */
+export type CustomerCountOutputTypeCountAbandonedCartsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AbandonedCartWhereInput
+}
+
 
 export type CustomerSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1046,6 +2067,12 @@ export type CustomerSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   orders?: boolean | Prisma.Customer$ordersArgs<ExtArgs>
   reviews?: boolean | Prisma.Customer$reviewsArgs<ExtArgs>
   wishlistItems?: boolean | Prisma.Customer$wishlistItemsArgs<ExtArgs>
+  promotionRedemptions?: boolean | Prisma.Customer$promotionRedemptionsArgs<ExtArgs>
+  stockNotifications?: boolean | Prisma.Customer$stockNotificationsArgs<ExtArgs>
+  launchNotifications?: boolean | Prisma.Customer$launchNotificationsArgs<ExtArgs>
+  returnRequests?: boolean | Prisma.Customer$returnRequestsArgs<ExtArgs>
+  cart?: boolean | Prisma.Customer$cartArgs<ExtArgs>
+  abandonedCarts?: boolean | Prisma.Customer$abandonedCartsArgs<ExtArgs>
   _count?: boolean | Prisma.CustomerCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["customer"]>
 
@@ -1114,6 +2141,12 @@ export type CustomerInclude<ExtArgs extends runtime.Types.Extensions.InternalArg
   orders?: boolean | Prisma.Customer$ordersArgs<ExtArgs>
   reviews?: boolean | Prisma.Customer$reviewsArgs<ExtArgs>
   wishlistItems?: boolean | Prisma.Customer$wishlistItemsArgs<ExtArgs>
+  promotionRedemptions?: boolean | Prisma.Customer$promotionRedemptionsArgs<ExtArgs>
+  stockNotifications?: boolean | Prisma.Customer$stockNotificationsArgs<ExtArgs>
+  launchNotifications?: boolean | Prisma.Customer$launchNotificationsArgs<ExtArgs>
+  returnRequests?: boolean | Prisma.Customer$returnRequestsArgs<ExtArgs>
+  cart?: boolean | Prisma.Customer$cartArgs<ExtArgs>
+  abandonedCarts?: boolean | Prisma.Customer$abandonedCartsArgs<ExtArgs>
   _count?: boolean | Prisma.CustomerCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type CustomerIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -1125,6 +2158,12 @@ export type $CustomerPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     orders: Prisma.$OrderPayload<ExtArgs>[]
     reviews: Prisma.$ReviewPayload<ExtArgs>[]
     wishlistItems: Prisma.$WishlistItemPayload<ExtArgs>[]
+    promotionRedemptions: Prisma.$PromotionRedemptionPayload<ExtArgs>[]
+    stockNotifications: Prisma.$StockNotificationPayload<ExtArgs>[]
+    launchNotifications: Prisma.$LaunchNotificationPayload<ExtArgs>[]
+    returnRequests: Prisma.$ReturnRequestPayload<ExtArgs>[]
+    cart: Prisma.$CartPayload<ExtArgs> | null
+    abandonedCarts: Prisma.$AbandonedCartPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1541,6 +2580,12 @@ export interface Prisma__CustomerClient<T, Null = never, ExtArgs extends runtime
   orders<T extends Prisma.Customer$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Customer$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reviews<T extends Prisma.Customer$reviewsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Customer$reviewsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReviewPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   wishlistItems<T extends Prisma.Customer$wishlistItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Customer$wishlistItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  promotionRedemptions<T extends Prisma.Customer$promotionRedemptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Customer$promotionRedemptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  stockNotifications<T extends Prisma.Customer$stockNotificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Customer$stockNotificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  launchNotifications<T extends Prisma.Customer$launchNotificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Customer$launchNotificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  returnRequests<T extends Prisma.Customer$returnRequestsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Customer$returnRequestsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  cart<T extends Prisma.Customer$cartArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Customer$cartArgs<ExtArgs>>): Prisma.Prisma__CartClient<runtime.Types.Result.GetResult<Prisma.$CartPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  abandonedCarts<T extends Prisma.Customer$abandonedCartsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Customer$abandonedCartsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2046,6 +3091,145 @@ export type Customer$wishlistItemsArgs<ExtArgs extends runtime.Types.Extensions.
   distinct?: Prisma.WishlistItemScalarFieldEnum | Prisma.WishlistItemScalarFieldEnum[]
 }
 
+/**
+ * Customer.promotionRedemptions
+ */
+export type Customer$promotionRedemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  where?: Prisma.PromotionRedemptionWhereInput
+  orderBy?: Prisma.PromotionRedemptionOrderByWithRelationInput | Prisma.PromotionRedemptionOrderByWithRelationInput[]
+  cursor?: Prisma.PromotionRedemptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PromotionRedemptionScalarFieldEnum | Prisma.PromotionRedemptionScalarFieldEnum[]
+}
+
+/**
+ * Customer.stockNotifications
+ */
+export type Customer$stockNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  where?: Prisma.StockNotificationWhereInput
+  orderBy?: Prisma.StockNotificationOrderByWithRelationInput | Prisma.StockNotificationOrderByWithRelationInput[]
+  cursor?: Prisma.StockNotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.StockNotificationScalarFieldEnum | Prisma.StockNotificationScalarFieldEnum[]
+}
+
+/**
+ * Customer.launchNotifications
+ */
+export type Customer$launchNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  where?: Prisma.LaunchNotificationWhereInput
+  orderBy?: Prisma.LaunchNotificationOrderByWithRelationInput | Prisma.LaunchNotificationOrderByWithRelationInput[]
+  cursor?: Prisma.LaunchNotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.LaunchNotificationScalarFieldEnum | Prisma.LaunchNotificationScalarFieldEnum[]
+}
+
+/**
+ * Customer.returnRequests
+ */
+export type Customer$returnRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestWhereInput
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * Customer.cart
+ */
+export type Customer$cartArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Cart
+   */
+  select?: Prisma.CartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Cart
+   */
+  omit?: Prisma.CartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartInclude<ExtArgs> | null
+  where?: Prisma.CartWhereInput
+}
+
+/**
+ * Customer.abandonedCarts
+ */
+export type Customer$abandonedCartsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  where?: Prisma.AbandonedCartWhereInput
+  orderBy?: Prisma.AbandonedCartOrderByWithRelationInput | Prisma.AbandonedCartOrderByWithRelationInput[]
+  cursor?: Prisma.AbandonedCartWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AbandonedCartScalarFieldEnum | Prisma.AbandonedCartScalarFieldEnum[]
+}
+
 /**
  * Customer without action
  */
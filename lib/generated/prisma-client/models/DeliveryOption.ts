@@ -38,6 +38,7 @@ export type DeliveryOptionMinAggregateOutputType = {
   id: string | null
   name: string | null
   provider: string | null
+  carrier: $Enums.ShipmentProvider | null
   pricingMode: $Enums.DeliveryPricingMode | null
   baseFee: number | null
   baseCurrency: $Enums.Currency | null
@@ -50,6 +51,7 @@ export type DeliveryOptionMaxAggregateOutputType = {
   id: string | null
   name: string | null
   provider: string | null
+  carrier: $Enums.ShipmentProvider | null
   pricingMode: $Enums.DeliveryPricingMode | null
   baseFee: number | null
   baseCurrency: $Enums.Currency | null
@@ -62,6 +64,7 @@ export type DeliveryOptionCountAggregateOutputType = {
   id: number
   name: number
   provider: number
+  carrier: number
   pricingMode: number
   baseFee: number
   baseCurrency: number
@@ -85,6 +88,7 @@ export type DeliveryOptionMinAggregateInputType = {
   id?: true
   name?: true
   provider?: true
+  carrier?: true
   pricingMode?: true
   baseFee?: true
   baseCurrency?: true
@@ -97,6 +101,7 @@ export type DeliveryOptionMaxAggregateInputType = {
   id?: true
   name?: true
   provider?: true
+  carrier?: true
   pricingMode?: true
   baseFee?: true
   baseCurrency?: true
@@ -109,6 +114,7 @@ export type DeliveryOptionCountAggregateInputType = {
   id?: true
   name?: true
   provider?: true
+  carrier?: true
   pricingMode?: true
   baseFee?: true
   baseCurrency?: true
@@ -209,6 +215,7 @@ export type DeliveryOptionGroupByOutputType = {
   id: string
   name: string
   provider: string | null
+  carrier: $Enums.ShipmentProvider | null
   pricingMode: $Enums.DeliveryPricingMode
   baseFee: number | null
   baseCurrency: $Enums.Currency | null
@@ -245,6 +252,7 @@ export type DeliveryOptionWhereInput = {
   id?: Prisma.StringFilter<"DeliveryOption"> | string
   name?: Prisma.StringFilter<"DeliveryOption"> | string
   provider?: Prisma.StringNullableFilter<"DeliveryOption"> | string | null
+  carrier?: Prisma.EnumShipmentProviderNullableFilter<"DeliveryOption"> | $Enums.ShipmentProvider | null
   pricingMode?: Prisma.EnumDeliveryPricingModeFilter<"DeliveryOption"> | $Enums.DeliveryPricingMode
   baseFee?: Prisma.FloatNullableFilter<"DeliveryOption"> | number | null
   baseCurrency?: Prisma.EnumCurrencyNullableFilter<"DeliveryOption"> | $Enums.Currency | null
@@ -253,12 +261,14 @@ export type DeliveryOptionWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"DeliveryOption"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"DeliveryOption"> | Date | string
   orders?: Prisma.OrderListRelationFilter
+  zones?: Prisma.ShippingZoneListRelationFilter
 }
 
 export type DeliveryOptionOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
   provider?: Prisma.SortOrderInput | Prisma.SortOrder
+  carrier?: Prisma.SortOrderInput | Prisma.SortOrder
   pricingMode?: Prisma.SortOrder
   baseFee?: Prisma.SortOrderInput | Prisma.SortOrder
   baseCurrency?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -267,6 +277,7 @@ export type DeliveryOptionOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   orders?: Prisma.OrderOrderByRelationAggregateInput
+  zones?: Prisma.ShippingZoneOrderByRelationAggregateInput
 }
 
 export type DeliveryOptionWhereUniqueInput = Prisma.AtLeast<{
@@ -276,6 +287,7 @@ export type DeliveryOptionWhereUniqueInput = Prisma.AtLeast<{
   NOT?: Prisma.DeliveryOptionWhereInput | Prisma.DeliveryOptionWhereInput[]
   name?: Prisma.StringFilter<"DeliveryOption"> | string
   provider?: Prisma.StringNullableFilter<"DeliveryOption"> | string | null
+  carrier?: Prisma.EnumShipmentProviderNullableFilter<"DeliveryOption"> | $Enums.ShipmentProvider | null
   pricingMode?: Prisma.EnumDeliveryPricingModeFilter<"DeliveryOption"> | $Enums.DeliveryPricingMode
   baseFee?: Prisma.FloatNullableFilter<"DeliveryOption"> | number | null
   baseCurrency?: Prisma.EnumCurrencyNullableFilter<"DeliveryOption"> | $Enums.Currency | null
@@ -284,12 +296,14 @@ export type DeliveryOptionWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"DeliveryOption"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"DeliveryOption"> | Date | string
   orders?: Prisma.OrderListRelationFilter
+  zones?: Prisma.ShippingZoneListRelationFilter
 }, "id">
 
 export type DeliveryOptionOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
   provider?: Prisma.SortOrderInput | Prisma.SortOrder
+  carrier?: Prisma.SortOrderInput | Prisma.SortOrder
   pricingMode?: Prisma.SortOrder
   baseFee?: Prisma.SortOrderInput | Prisma.SortOrder
   baseCurrency?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -311,6 +325,7 @@ export type DeliveryOptionScalarWhereWithAggregatesInput = {
   id?: Prisma.StringWithAggregatesFilter<"DeliveryOption"> | string
   name?: Prisma.StringWithAggregatesFilter<"DeliveryOption"> | string
   provider?: Prisma.StringNullableWithAggregatesFilter<"DeliveryOption"> | string | null
+  carrier?: Prisma.EnumShipmentProviderNullableWithAggregatesFilter<"DeliveryOption"> | $Enums.ShipmentProvider | null
   pricingMode?: Prisma.EnumDeliveryPricingModeWithAggregatesFilter<"DeliveryOption"> | $Enums.DeliveryPricingMode
   baseFee?: Prisma.FloatNullableWithAggregatesFilter<"DeliveryOption"> | number | null
   baseCurrency?: Prisma.EnumCurrencyNullableWithAggregatesFilter<"DeliveryOption"> | $Enums.Currency | null
@@ -324,6 +339,7 @@ export type DeliveryOptionCreateInput = {
   id?: string
   name: string
   provider?: string | null
+  carrier?: $Enums.ShipmentProvider | null
   pricingMode?: $Enums.DeliveryPricingMode
   baseFee?: number | null
   baseCurrency?: $Enums.Currency | null
@@ -332,12 +348,14 @@ export type DeliveryOptionCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   orders?: Prisma.OrderCreateNestedManyWithoutDeliveryOptionInput
+  zones?: Prisma.ShippingZoneCreateNestedManyWithoutDeliveryOptionInput
 }
 
 export type DeliveryOptionUncheckedCreateInput = {
   id?: string
   name: string
   provider?: string | null
+  carrier?: $Enums.ShipmentProvider | null
   pricingMode?: $Enums.DeliveryPricingMode
   baseFee?: number | null
   baseCurrency?: $Enums.Currency | null
@@ -346,12 +364,14 @@ export type DeliveryOptionUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutDeliveryOptionInput
+  zones?: Prisma.ShippingZoneUncheckedCreateNestedManyWithoutDeliveryOptionInput
 }
 
 export type DeliveryOptionUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   provider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableEnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider | null
   pricingMode?: Prisma.EnumDeliveryPricingModeFieldUpdateOperationsInput | $Enums.DeliveryPricingMode
   baseFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   baseCurrency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
@@ -360,12 +380,14 @@ export type DeliveryOptionUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   orders?: Prisma.OrderUpdateManyWithoutDeliveryOptionNestedInput
+  zones?: Prisma.ShippingZoneUpdateManyWithoutDeliveryOptionNestedInput
 }
 
 export type DeliveryOptionUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   provider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableEnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider | null
   pricingMode?: Prisma.EnumDeliveryPricingModeFieldUpdateOperationsInput | $Enums.DeliveryPricingMode
   baseFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   baseCurrency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
@@ -374,12 +396,14 @@ export type DeliveryOptionUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   orders?: Prisma.OrderUncheckedUpdateManyWithoutDeliveryOptionNestedInput
+  zones?: Prisma.ShippingZoneUncheckedUpdateManyWithoutDeliveryOptionNestedInput
 }
 
 export type DeliveryOptionCreateManyInput = {
   id?: string
   name: string
   provider?: string | null
+  carrier?: $Enums.ShipmentProvider | null
   pricingMode?: $Enums.DeliveryPricingMode
   baseFee?: number | null
   baseCurrency?: $Enums.Currency | null
@@ -393,6 +417,7 @@ export type DeliveryOptionUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   provider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableEnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider | null
   pricingMode?: Prisma.EnumDeliveryPricingModeFieldUpdateOperationsInput | $Enums.DeliveryPricingMode
   baseFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   baseCurrency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
@@ -406,6 +431,7 @@ export type DeliveryOptionUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   provider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableEnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider | null
   pricingMode?: Prisma.EnumDeliveryPricingModeFieldUpdateOperationsInput | $Enums.DeliveryPricingMode
   baseFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   baseCurrency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
@@ -419,6 +445,7 @@ export type DeliveryOptionCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
   provider?: Prisma.SortOrder
+  carrier?: Prisma.SortOrder
   pricingMode?: Prisma.SortOrder
   baseFee?: Prisma.SortOrder
   baseCurrency?: Prisma.SortOrder
@@ -436,6 +463,7 @@ export type DeliveryOptionMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
   provider?: Prisma.SortOrder
+  carrier?: Prisma.SortOrder
   pricingMode?: Prisma.SortOrder
   baseFee?: Prisma.SortOrder
   baseCurrency?: Prisma.SortOrder
@@ -448,6 +476,7 @@ export type DeliveryOptionMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
   provider?: Prisma.SortOrder
+  carrier?: Prisma.SortOrder
   pricingMode?: Prisma.SortOrder
   baseFee?: Prisma.SortOrder
   baseCurrency?: Prisma.SortOrder
@@ -460,11 +489,20 @@ export type DeliveryOptionSumOrderByAggregateInput = {
   baseFee?: Prisma.SortOrder
 }
 
+export type DeliveryOptionScalarRelationFilter = {
+  is?: Prisma.DeliveryOptionWhereInput
+  isNot?: Prisma.DeliveryOptionWhereInput
+}
+
 export type DeliveryOptionNullableScalarRelationFilter = {
   is?: Prisma.DeliveryOptionWhereInput | null
   isNot?: Prisma.DeliveryOptionWhereInput | null
 }
 
+export type NullableEnumShipmentProviderFieldUpdateOperationsInput = {
+  set?: $Enums.ShipmentProvider | null
+}
+
 export type EnumDeliveryPricingModeFieldUpdateOperationsInput = {
   set?: $Enums.DeliveryPricingMode
 }
@@ -473,6 +511,20 @@ export type NullableEnumCurrencyFieldUpdateOperationsInput = {
   set?: $Enums.Currency | null
 }
 
+export type DeliveryOptionCreateNestedOneWithoutZonesInput = {
+  create?: Prisma.XOR<Prisma.DeliveryOptionCreateWithoutZonesInput, Prisma.DeliveryOptionUncheckedCreateWithoutZonesInput>
+  connectOrCreate?: Prisma.DeliveryOptionCreateOrConnectWithoutZonesInput
+  connect?: Prisma.DeliveryOptionWhereUniqueInput
+}
+
+export type DeliveryOptionUpdateOneRequiredWithoutZonesNestedInput = {
+  create?: Prisma.XOR<Prisma.DeliveryOptionCreateWithoutZonesInput, Prisma.DeliveryOptionUncheckedCreateWithoutZonesInput>
+  connectOrCreate?: Prisma.DeliveryOptionCreateOrConnectWithoutZonesInput
+  upsert?: Prisma.DeliveryOptionUpsertWithoutZonesInput
+  connect?: Prisma.DeliveryOptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DeliveryOptionUpdateToOneWithWhereWithoutZonesInput, Prisma.DeliveryOptionUpdateWithoutZonesInput>, Prisma.DeliveryOptionUncheckedUpdateWithoutZonesInput>
+}
+
 export type DeliveryOptionCreateNestedOneWithoutOrdersInput = {
   create?: Prisma.XOR<Prisma.DeliveryOptionCreateWithoutOrdersInput, Prisma.DeliveryOptionUncheckedCreateWithoutOrdersInput>
   connectOrCreate?: Prisma.DeliveryOptionCreateOrConnectWithoutOrdersInput
@@ -489,10 +541,87 @@ export type DeliveryOptionUpdateOneWithoutOrdersNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.DeliveryOptionUpdateToOneWithWhereWithoutOrdersInput, Prisma.DeliveryOptionUpdateWithoutOrdersInput>, Prisma.DeliveryOptionUncheckedUpdateWithoutOrdersInput>
 }
 
+export type DeliveryOptionCreateWithoutZonesInput = {
+  id?: string
+  name: string
+  provider?: string | null
+  carrier?: $Enums.ShipmentProvider | null
+  pricingMode?: $Enums.DeliveryPricingMode
+  baseFee?: number | null
+  baseCurrency?: $Enums.Currency | null
+  active?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  orders?: Prisma.OrderCreateNestedManyWithoutDeliveryOptionInput
+}
+
+export type DeliveryOptionUncheckedCreateWithoutZonesInput = {
+  id?: string
+  name: string
+  provider?: string | null
+  carrier?: $Enums.ShipmentProvider | null
+  pricingMode?: $Enums.DeliveryPricingMode
+  baseFee?: number | null
+  baseCurrency?: $Enums.Currency | null
+  active?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutDeliveryOptionInput
+}
+
+export type DeliveryOptionCreateOrConnectWithoutZonesInput = {
+  where: Prisma.DeliveryOptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.DeliveryOptionCreateWithoutZonesInput, Prisma.DeliveryOptionUncheckedCreateWithoutZonesInput>
+}
+
+export type DeliveryOptionUpsertWithoutZonesInput = {
+  update: Prisma.XOR<Prisma.DeliveryOptionUpdateWithoutZonesInput, Prisma.DeliveryOptionUncheckedUpdateWithoutZonesInput>
+  create: Prisma.XOR<Prisma.DeliveryOptionCreateWithoutZonesInput, Prisma.DeliveryOptionUncheckedCreateWithoutZonesInput>
+  where?: Prisma.DeliveryOptionWhereInput
+}
+
+export type DeliveryOptionUpdateToOneWithWhereWithoutZonesInput = {
+  where?: Prisma.DeliveryOptionWhereInput
+  data: Prisma.XOR<Prisma.DeliveryOptionUpdateWithoutZonesInput, Prisma.DeliveryOptionUncheckedUpdateWithoutZonesInput>
+}
+
+export type DeliveryOptionUpdateWithoutZonesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableEnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider | null
+  pricingMode?: Prisma.EnumDeliveryPricingModeFieldUpdateOperationsInput | $Enums.DeliveryPricingMode
+  baseFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  baseCurrency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUpdateManyWithoutDeliveryOptionNestedInput
+}
+
+export type DeliveryOptionUncheckedUpdateWithoutZonesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableEnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider | null
+  pricingMode?: Prisma.EnumDeliveryPricingModeFieldUpdateOperationsInput | $Enums.DeliveryPricingMode
+  baseFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  baseCurrency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutDeliveryOptionNestedInput
+}
+
 export type DeliveryOptionCreateWithoutOrdersInput = {
   id?: string
   name: string
   provider?: string | null
+  carrier?: $Enums.ShipmentProvider | null
   pricingMode?: $Enums.DeliveryPricingMode
   baseFee?: number | null
   baseCurrency?: $Enums.Currency | null
@@ -500,12 +629,14 @@ export type DeliveryOptionCreateWithoutOrdersInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
+  zones?: Prisma.ShippingZoneCreateNestedManyWithoutDeliveryOptionInput
 }
 
 export type DeliveryOptionUncheckedCreateWithoutOrdersInput = {
   id?: string
   name: string
   provider?: string | null
+  carrier?: $Enums.ShipmentProvider | null
   pricingMode?: $Enums.DeliveryPricingMode
   baseFee?: number | null
   baseCurrency?: $Enums.Currency | null
@@ -513,6 +644,7 @@ export type DeliveryOptionUncheckedCreateWithoutOrdersInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
+  zones?: Prisma.ShippingZoneUncheckedCreateNestedManyWithoutDeliveryOptionInput
 }
 
 export type DeliveryOptionCreateOrConnectWithoutOrdersInput = {
@@ -535,6 +667,7 @@ export type DeliveryOptionUpdateWithoutOrdersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   provider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableEnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider | null
   pricingMode?: Prisma.EnumDeliveryPricingModeFieldUpdateOperationsInput | $Enums.DeliveryPricingMode
   baseFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   baseCurrency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
@@ -542,12 +675,14 @@ export type DeliveryOptionUpdateWithoutOrdersInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  zones?: Prisma.ShippingZoneUpdateManyWithoutDeliveryOptionNestedInput
 }
 
 export type DeliveryOptionUncheckedUpdateWithoutOrdersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   provider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableEnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider | null
   pricingMode?: Prisma.EnumDeliveryPricingModeFieldUpdateOperationsInput | $Enums.DeliveryPricingMode
   baseFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   baseCurrency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
@@ -555,6 +690,7 @@ export type DeliveryOptionUncheckedUpdateWithoutOrdersInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  zones?: Prisma.ShippingZoneUncheckedUpdateManyWithoutDeliveryOptionNestedInput
 }
 
 
@@ -564,10 +700,12 @@ export type DeliveryOptionUncheckedUpdateWithoutOrdersInput = {
 
 export type DeliveryOptionCountOutputType = {
   orders: number
+  zones: number
 }
 
 export type DeliveryOptionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   orders?: boolean | DeliveryOptionCountOutputTypeCountOrdersArgs
+  zones?: boolean | DeliveryOptionCountOutputTypeCountZonesArgs
 }
 
 /**
@@ -587,11 +725,19 @@ export type DeliveryOptionCountOutputTypeCountOrdersArgs<ExtArgs extends runtime
   where?: Prisma.OrderWhereInput
 }
 
+/**
+ * DeliveryOptionCountOutputType without action
+ */
+export type DeliveryOptionCountOutputTypeCountZonesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShippingZoneWhereInput
+}
+
 
 export type DeliveryOptionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   name?: boolean
   provider?: boolean
+  carrier?: boolean
   pricingMode?: boolean
   baseFee?: boolean
   baseCurrency?: boolean
@@ -600,6 +746,7 @@ export type DeliveryOptionSelect<ExtArgs extends runtime.Types.Extensions.Intern
   createdAt?: boolean
   updatedAt?: boolean
   orders?: boolean | Prisma.DeliveryOption$ordersArgs<ExtArgs>
+  zones?: boolean | Prisma.DeliveryOption$zonesArgs<ExtArgs>
   _count?: boolean | Prisma.DeliveryOptionCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["deliveryOption"]>
 
@@ -607,6 +754,7 @@ export type DeliveryOptionSelectCreateManyAndReturn<ExtArgs extends runtime.Type
   id?: boolean
   name?: boolean
   provider?: boolean
+  carrier?: boolean
   pricingMode?: boolean
   baseFee?: boolean
   baseCurrency?: boolean
@@ -620,6 +768,7 @@ export type DeliveryOptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Type
   id?: boolean
   name?: boolean
   provider?: boolean
+  carrier?: boolean
   pricingMode?: boolean
   baseFee?: boolean
   baseCurrency?: boolean
@@ -633,6 +782,7 @@ export type DeliveryOptionSelectScalar = {
   id?: boolean
   name?: boolean
   provider?: boolean
+  carrier?: boolean
   pricingMode?: boolean
   baseFee?: boolean
   baseCurrency?: boolean
@@ -642,9 +792,10 @@ export type DeliveryOptionSelectScalar = {
   updatedAt?: boolean
 }
 
-export type DeliveryOptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "provider" | "pricingMode" | "baseFee" | "baseCurrency" | "active" | "metadata" | "createdAt" | "updatedAt", ExtArgs["result"]["deliveryOption"]>
+export type DeliveryOptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "provider" | "carrier" | "pricingMode" | "baseFee" | "baseCurrency" | "active" | "metadata" | "createdAt" | "updatedAt", ExtArgs["result"]["deliveryOption"]>
 export type DeliveryOptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   orders?: boolean | Prisma.DeliveryOption$ordersArgs<ExtArgs>
+  zones?: boolean | Prisma.DeliveryOption$zonesArgs<ExtArgs>
   _count?: boolean | Prisma.DeliveryOptionCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type DeliveryOptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -654,11 +805,13 @@ export type $DeliveryOptionPayload<ExtArgs extends runtime.Types.Extensions.Inte
   name: "DeliveryOption"
   objects: {
     orders: Prisma.$OrderPayload<ExtArgs>[]
+    zones: Prisma.$ShippingZonePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     name: string
     provider: string | null
+    carrier: $Enums.ShipmentProvider | null
     pricingMode: $Enums.DeliveryPricingMode
     baseFee: number | null
     baseCurrency: $Enums.Currency | null
@@ -1061,6 +1214,7 @@ readonly fields: DeliveryOptionFieldRefs;
 export interface Prisma__DeliveryOptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   orders<T extends Prisma.DeliveryOption$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DeliveryOption$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  zones<T extends Prisma.DeliveryOption$zonesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DeliveryOption$zonesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1093,6 +1247,7 @@ export interface DeliveryOptionFieldRefs {
   readonly id: Prisma.FieldRef<"DeliveryOption", 'String'>
   readonly name: Prisma.FieldRef<"DeliveryOption", 'String'>
   readonly provider: Prisma.FieldRef<"DeliveryOption", 'String'>
+  readonly carrier: Prisma.FieldRef<"DeliveryOption", 'ShipmentProvider'>
   readonly pricingMode: Prisma.FieldRef<"DeliveryOption", 'DeliveryPricingMode'>
   readonly baseFee: Prisma.FieldRef<"DeliveryOption", 'Float'>
   readonly baseCurrency: Prisma.FieldRef<"DeliveryOption", 'Currency'>
@@ -1511,6 +1666,30 @@ export type DeliveryOption$ordersArgs<ExtArgs extends runtime.Types.Extensions.I
   distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
 }
 
+/**
+ * DeliveryOption.zones
+ */
+export type DeliveryOption$zonesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  where?: Prisma.ShippingZoneWhereInput
+  orderBy?: Prisma.ShippingZoneOrderByWithRelationInput | Prisma.ShippingZoneOrderByWithRelationInput[]
+  cursor?: Prisma.ShippingZoneWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShippingZoneScalarFieldEnum | Prisma.ShippingZoneScalarFieldEnum[]
+}
+
 /**
  * DeliveryOption without action
  */
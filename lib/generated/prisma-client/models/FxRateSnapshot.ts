@@ -0,0 +1,1350 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `FxRateSnapshot` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model FxRateSnapshot
+ * 
+ */
+export type FxRateSnapshotModel = runtime.Types.Result.DefaultSelection<Prisma.$FxRateSnapshotPayload>
+
+export type AggregateFxRateSnapshot = {
+  _count: FxRateSnapshotCountAggregateOutputType | null
+  _min: FxRateSnapshotMinAggregateOutputType | null
+  _max: FxRateSnapshotMaxAggregateOutputType | null
+}
+
+export type FxRateSnapshotMinAggregateOutputType = {
+  id: string | null
+  base: string | null
+  source: string | null
+  providerUpdatedAt: Date | null
+  fetchedAt: Date | null
+}
+
+export type FxRateSnapshotMaxAggregateOutputType = {
+  id: string | null
+  base: string | null
+  source: string | null
+  providerUpdatedAt: Date | null
+  fetchedAt: Date | null
+}
+
+export type FxRateSnapshotCountAggregateOutputType = {
+  id: number
+  base: number
+  rates: number
+  source: number
+  providerUpdatedAt: number
+  fetchedAt: number
+  _all: number
+}
+
+
+export type FxRateSnapshotMinAggregateInputType = {
+  id?: true
+  base?: true
+  source?: true
+  providerUpdatedAt?: true
+  fetchedAt?: true
+}
+
+export type FxRateSnapshotMaxAggregateInputType = {
+  id?: true
+  base?: true
+  source?: true
+  providerUpdatedAt?: true
+  fetchedAt?: true
+}
+
+export type FxRateSnapshotCountAggregateInputType = {
+  id?: true
+  base?: true
+  rates?: true
+  source?: true
+  providerUpdatedAt?: true
+  fetchedAt?: true
+  _all?: true
+}
+
+export type FxRateSnapshotAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which FxRateSnapshot to aggregate.
+   */
+  where?: Prisma.FxRateSnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FxRateSnapshots to fetch.
+   */
+  orderBy?: Prisma.FxRateSnapshotOrderByWithRelationInput | Prisma.FxRateSnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.FxRateSnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FxRateSnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FxRateSnapshots.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned FxRateSnapshots
+  **/
+  _count?: true | FxRateSnapshotCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: FxRateSnapshotMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: FxRateSnapshotMaxAggregateInputType
+}
+
+export type GetFxRateSnapshotAggregateType<T extends FxRateSnapshotAggregateArgs> = {
+      [P in keyof T & keyof AggregateFxRateSnapshot]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateFxRateSnapshot[P]>
+    : Prisma.GetScalarType<T[P], AggregateFxRateSnapshot[P]>
+}
+
+
+
+
+export type FxRateSnapshotGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FxRateSnapshotWhereInput
+  orderBy?: Prisma.FxRateSnapshotOrderByWithAggregationInput | Prisma.FxRateSnapshotOrderByWithAggregationInput[]
+  by: Prisma.FxRateSnapshotScalarFieldEnum[] | Prisma.FxRateSnapshotScalarFieldEnum
+  having?: Prisma.FxRateSnapshotScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: FxRateSnapshotCountAggregateInputType | true
+  _min?: FxRateSnapshotMinAggregateInputType
+  _max?: FxRateSnapshotMaxAggregateInputType
+}
+
+export type FxRateSnapshotGroupByOutputType = {
+  id: string
+  base: string
+  rates: runtime.JsonValue
+  source: string
+  providerUpdatedAt: Date
+  fetchedAt: Date
+  _count: FxRateSnapshotCountAggregateOutputType | null
+  _min: FxRateSnapshotMinAggregateOutputType | null
+  _max: FxRateSnapshotMaxAggregateOutputType | null
+}
+
+type GetFxRateSnapshotGroupByPayload<T extends FxRateSnapshotGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<FxRateSnapshotGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof FxRateSnapshotGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], FxRateSnapshotGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], FxRateSnapshotGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type FxRateSnapshotWhereInput = {
+  AND?: Prisma.FxRateSnapshotWhereInput | Prisma.FxRateSnapshotWhereInput[]
+  OR?: Prisma.FxRateSnapshotWhereInput[]
+  NOT?: Prisma.FxRateSnapshotWhereInput | Prisma.FxRateSnapshotWhereInput[]
+  id?: Prisma.StringFilter<"FxRateSnapshot"> | string
+  base?: Prisma.StringFilter<"FxRateSnapshot"> | string
+  rates?: Prisma.JsonFilter<"FxRateSnapshot">
+  source?: Prisma.StringFilter<"FxRateSnapshot"> | string
+  providerUpdatedAt?: Prisma.DateTimeFilter<"FxRateSnapshot"> | Date | string
+  fetchedAt?: Prisma.DateTimeFilter<"FxRateSnapshot"> | Date | string
+  orders?: Prisma.OrderListRelationFilter
+}
+
+export type FxRateSnapshotOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  base?: Prisma.SortOrder
+  rates?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  providerUpdatedAt?: Prisma.SortOrder
+  fetchedAt?: Prisma.SortOrder
+  orders?: Prisma.OrderOrderByRelationAggregateInput
+}
+
+export type FxRateSnapshotWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.FxRateSnapshotWhereInput | Prisma.FxRateSnapshotWhereInput[]
+  OR?: Prisma.FxRateSnapshotWhereInput[]
+  NOT?: Prisma.FxRateSnapshotWhereInput | Prisma.FxRateSnapshotWhereInput[]
+  base?: Prisma.StringFilter<"FxRateSnapshot"> | string
+  rates?: Prisma.JsonFilter<"FxRateSnapshot">
+  source?: Prisma.StringFilter<"FxRateSnapshot"> | string
+  providerUpdatedAt?: Prisma.DateTimeFilter<"FxRateSnapshot"> | Date | string
+  fetchedAt?: Prisma.DateTimeFilter<"FxRateSnapshot"> | Date | string
+  orders?: Prisma.OrderListRelationFilter
+}, "id">
+
+export type FxRateSnapshotOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  base?: Prisma.SortOrder
+  rates?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  providerUpdatedAt?: Prisma.SortOrder
+  fetchedAt?: Prisma.SortOrder
+  _count?: Prisma.FxRateSnapshotCountOrderByAggregateInput
+  _max?: Prisma.FxRateSnapshotMaxOrderByAggregateInput
+  _min?: Prisma.FxRateSnapshotMinOrderByAggregateInput
+}
+
+export type FxRateSnapshotScalarWhereWithAggregatesInput = {
+  AND?: Prisma.FxRateSnapshotScalarWhereWithAggregatesInput | Prisma.FxRateSnapshotScalarWhereWithAggregatesInput[]
+  OR?: Prisma.FxRateSnapshotScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.FxRateSnapshotScalarWhereWithAggregatesInput | Prisma.FxRateSnapshotScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"FxRateSnapshot"> | string
+  base?: Prisma.StringWithAggregatesFilter<"FxRateSnapshot"> | string
+  rates?: Prisma.JsonWithAggregatesFilter<"FxRateSnapshot">
+  source?: Prisma.StringWithAggregatesFilter<"FxRateSnapshot"> | string
+  providerUpdatedAt?: Prisma.DateTimeWithAggregatesFilter<"FxRateSnapshot"> | Date | string
+  fetchedAt?: Prisma.DateTimeWithAggregatesFilter<"FxRateSnapshot"> | Date | string
+}
+
+export type FxRateSnapshotCreateInput = {
+  id?: string
+  base: string
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source: string
+  providerUpdatedAt: Date | string
+  fetchedAt?: Date | string
+  orders?: Prisma.OrderCreateNestedManyWithoutFxSnapshotInput
+}
+
+export type FxRateSnapshotUncheckedCreateInput = {
+  id?: string
+  base: string
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source: string
+  providerUpdatedAt: Date | string
+  fetchedAt?: Date | string
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutFxSnapshotInput
+}
+
+export type FxRateSnapshotUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  base?: Prisma.StringFieldUpdateOperationsInput | string
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  providerUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fetchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUpdateManyWithoutFxSnapshotNestedInput
+}
+
+export type FxRateSnapshotUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  base?: Prisma.StringFieldUpdateOperationsInput | string
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  providerUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fetchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutFxSnapshotNestedInput
+}
+
+export type FxRateSnapshotCreateManyInput = {
+  id?: string
+  base: string
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source: string
+  providerUpdatedAt: Date | string
+  fetchedAt?: Date | string
+}
+
+export type FxRateSnapshotUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  base?: Prisma.StringFieldUpdateOperationsInput | string
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  providerUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fetchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FxRateSnapshotUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  base?: Prisma.StringFieldUpdateOperationsInput | string
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  providerUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fetchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FxRateSnapshotNullableScalarRelationFilter = {
+  is?: Prisma.FxRateSnapshotWhereInput | null
+  isNot?: Prisma.FxRateSnapshotWhereInput | null
+}
+
+export type FxRateSnapshotCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  base?: Prisma.SortOrder
+  rates?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  providerUpdatedAt?: Prisma.SortOrder
+  fetchedAt?: Prisma.SortOrder
+}
+
+export type FxRateSnapshotMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  base?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  providerUpdatedAt?: Prisma.SortOrder
+  fetchedAt?: Prisma.SortOrder
+}
+
+export type FxRateSnapshotMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  base?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  providerUpdatedAt?: Prisma.SortOrder
+  fetchedAt?: Prisma.SortOrder
+}
+
+export type FxRateSnapshotCreateNestedOneWithoutOrdersInput = {
+  create?: Prisma.XOR<Prisma.FxRateSnapshotCreateWithoutOrdersInput, Prisma.FxRateSnapshotUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.FxRateSnapshotCreateOrConnectWithoutOrdersInput
+  connect?: Prisma.FxRateSnapshotWhereUniqueInput
+}
+
+export type FxRateSnapshotUpdateOneWithoutOrdersNestedInput = {
+  create?: Prisma.XOR<Prisma.FxRateSnapshotCreateWithoutOrdersInput, Prisma.FxRateSnapshotUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.FxRateSnapshotCreateOrConnectWithoutOrdersInput
+  upsert?: Prisma.FxRateSnapshotUpsertWithoutOrdersInput
+  disconnect?: Prisma.FxRateSnapshotWhereInput | boolean
+  delete?: Prisma.FxRateSnapshotWhereInput | boolean
+  connect?: Prisma.FxRateSnapshotWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FxRateSnapshotUpdateToOneWithWhereWithoutOrdersInput, Prisma.FxRateSnapshotUpdateWithoutOrdersInput>, Prisma.FxRateSnapshotUncheckedUpdateWithoutOrdersInput>
+}
+
+export type FxRateSnapshotCreateWithoutOrdersInput = {
+  id?: string
+  base: string
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source: string
+  providerUpdatedAt: Date | string
+  fetchedAt?: Date | string
+}
+
+export type FxRateSnapshotUncheckedCreateWithoutOrdersInput = {
+  id?: string
+  base: string
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source: string
+  providerUpdatedAt: Date | string
+  fetchedAt?: Date | string
+}
+
+export type FxRateSnapshotCreateOrConnectWithoutOrdersInput = {
+  where: Prisma.FxRateSnapshotWhereUniqueInput
+  create: Prisma.XOR<Prisma.FxRateSnapshotCreateWithoutOrdersInput, Prisma.FxRateSnapshotUncheckedCreateWithoutOrdersInput>
+}
+
+export type FxRateSnapshotUpsertWithoutOrdersInput = {
+  update: Prisma.XOR<Prisma.FxRateSnapshotUpdateWithoutOrdersInput, Prisma.FxRateSnapshotUncheckedUpdateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.FxRateSnapshotCreateWithoutOrdersInput, Prisma.FxRateSnapshotUncheckedCreateWithoutOrdersInput>
+  where?: Prisma.FxRateSnapshotWhereInput
+}
+
+export type FxRateSnapshotUpdateToOneWithWhereWithoutOrdersInput = {
+  where?: Prisma.FxRateSnapshotWhereInput
+  data: Prisma.XOR<Prisma.FxRateSnapshotUpdateWithoutOrdersInput, Prisma.FxRateSnapshotUncheckedUpdateWithoutOrdersInput>
+}
+
+export type FxRateSnapshotUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  base?: Prisma.StringFieldUpdateOperationsInput | string
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  providerUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fetchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FxRateSnapshotUncheckedUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  base?: Prisma.StringFieldUpdateOperationsInput | string
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  providerUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fetchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type FxRateSnapshotCountOutputType
+ */
+
+export type FxRateSnapshotCountOutputType = {
+  orders: number
+}
+
+export type FxRateSnapshotCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  orders?: boolean | FxRateSnapshotCountOutputTypeCountOrdersArgs
+}
+
+/**
+ * FxRateSnapshotCountOutputType without action
+ */
+export type FxRateSnapshotCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshotCountOutputType
+   */
+  select?: Prisma.FxRateSnapshotCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * FxRateSnapshotCountOutputType without action
+ */
+export type FxRateSnapshotCountOutputTypeCountOrdersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderWhereInput
+}
+
+
+export type FxRateSnapshotSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  base?: boolean
+  rates?: boolean
+  source?: boolean
+  providerUpdatedAt?: boolean
+  fetchedAt?: boolean
+  orders?: boolean | Prisma.FxRateSnapshot$ordersArgs<ExtArgs>
+  _count?: boolean | Prisma.FxRateSnapshotCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["fxRateSnapshot"]>
+
+export type FxRateSnapshotSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  base?: boolean
+  rates?: boolean
+  source?: boolean
+  providerUpdatedAt?: boolean
+  fetchedAt?: boolean
+}, ExtArgs["result"]["fxRateSnapshot"]>
+
+export type FxRateSnapshotSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  base?: boolean
+  rates?: boolean
+  source?: boolean
+  providerUpdatedAt?: boolean
+  fetchedAt?: boolean
+}, ExtArgs["result"]["fxRateSnapshot"]>
+
+export type FxRateSnapshotSelectScalar = {
+  id?: boolean
+  base?: boolean
+  rates?: boolean
+  source?: boolean
+  providerUpdatedAt?: boolean
+  fetchedAt?: boolean
+}
+
+export type FxRateSnapshotOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "base" | "rates" | "source" | "providerUpdatedAt" | "fetchedAt", ExtArgs["result"]["fxRateSnapshot"]>
+export type FxRateSnapshotInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  orders?: boolean | Prisma.FxRateSnapshot$ordersArgs<ExtArgs>
+  _count?: boolean | Prisma.FxRateSnapshotCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type FxRateSnapshotIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type FxRateSnapshotIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $FxRateSnapshotPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "FxRateSnapshot"
+  objects: {
+    orders: Prisma.$OrderPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    base: string
+    rates: runtime.JsonValue
+    source: string
+    providerUpdatedAt: Date
+    fetchedAt: Date
+  }, ExtArgs["result"]["fxRateSnapshot"]>
+  composites: {}
+}
+
+export type FxRateSnapshotGetPayload<S extends boolean | null | undefined | FxRateSnapshotDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload, S>
+
+export type FxRateSnapshotCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<FxRateSnapshotFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: FxRateSnapshotCountAggregateInputType | true
+  }
+
+export interface FxRateSnapshotDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['FxRateSnapshot'], meta: { name: 'FxRateSnapshot' } }
+  /**
+   * Find zero or one FxRateSnapshot that matches the filter.
+   * @param {FxRateSnapshotFindUniqueArgs} args - Arguments to find a FxRateSnapshot
+   * @example
+   * // Get one FxRateSnapshot
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends FxRateSnapshotFindUniqueArgs>(args: Prisma.SelectSubset<T, FxRateSnapshotFindUniqueArgs<ExtArgs>>): Prisma.Prisma__FxRateSnapshotClient<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one FxRateSnapshot that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {FxRateSnapshotFindUniqueOrThrowArgs} args - Arguments to find a FxRateSnapshot
+   * @example
+   * // Get one FxRateSnapshot
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends FxRateSnapshotFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, FxRateSnapshotFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__FxRateSnapshotClient<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first FxRateSnapshot that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FxRateSnapshotFindFirstArgs} args - Arguments to find a FxRateSnapshot
+   * @example
+   * // Get one FxRateSnapshot
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends FxRateSnapshotFindFirstArgs>(args?: Prisma.SelectSubset<T, FxRateSnapshotFindFirstArgs<ExtArgs>>): Prisma.Prisma__FxRateSnapshotClient<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first FxRateSnapshot that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FxRateSnapshotFindFirstOrThrowArgs} args - Arguments to find a FxRateSnapshot
+   * @example
+   * // Get one FxRateSnapshot
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends FxRateSnapshotFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, FxRateSnapshotFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__FxRateSnapshotClient<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more FxRateSnapshots that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FxRateSnapshotFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all FxRateSnapshots
+   * const fxRateSnapshots = await prisma.fxRateSnapshot.findMany()
+   * 
+   * // Get first 10 FxRateSnapshots
+   * const fxRateSnapshots = await prisma.fxRateSnapshot.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const fxRateSnapshotWithIdOnly = await prisma.fxRateSnapshot.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends FxRateSnapshotFindManyArgs>(args?: Prisma.SelectSubset<T, FxRateSnapshotFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a FxRateSnapshot.
+   * @param {FxRateSnapshotCreateArgs} args - Arguments to create a FxRateSnapshot.
+   * @example
+   * // Create one FxRateSnapshot
+   * const FxRateSnapshot = await prisma.fxRateSnapshot.create({
+   *   data: {
+   *     // ... data to create a FxRateSnapshot
+   *   }
+   * })
+   * 
+   */
+  create<T extends FxRateSnapshotCreateArgs>(args: Prisma.SelectSubset<T, FxRateSnapshotCreateArgs<ExtArgs>>): Prisma.Prisma__FxRateSnapshotClient<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many FxRateSnapshots.
+   * @param {FxRateSnapshotCreateManyArgs} args - Arguments to create many FxRateSnapshots.
+   * @example
+   * // Create many FxRateSnapshots
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends FxRateSnapshotCreateManyArgs>(args?: Prisma.SelectSubset<T, FxRateSnapshotCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many FxRateSnapshots and returns the data saved in the database.
+   * @param {FxRateSnapshotCreateManyAndReturnArgs} args - Arguments to create many FxRateSnapshots.
+   * @example
+   * // Create many FxRateSnapshots
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many FxRateSnapshots and only return the `id`
+   * const fxRateSnapshotWithIdOnly = await prisma.fxRateSnapshot.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends FxRateSnapshotCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, FxRateSnapshotCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a FxRateSnapshot.
+   * @param {FxRateSnapshotDeleteArgs} args - Arguments to delete one FxRateSnapshot.
+   * @example
+   * // Delete one FxRateSnapshot
+   * const FxRateSnapshot = await prisma.fxRateSnapshot.delete({
+   *   where: {
+   *     // ... filter to delete one FxRateSnapshot
+   *   }
+   * })
+   * 
+   */
+  delete<T extends FxRateSnapshotDeleteArgs>(args: Prisma.SelectSubset<T, FxRateSnapshotDeleteArgs<ExtArgs>>): Prisma.Prisma__FxRateSnapshotClient<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one FxRateSnapshot.
+   * @param {FxRateSnapshotUpdateArgs} args - Arguments to update one FxRateSnapshot.
+   * @example
+   * // Update one FxRateSnapshot
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends FxRateSnapshotUpdateArgs>(args: Prisma.SelectSubset<T, FxRateSnapshotUpdateArgs<ExtArgs>>): Prisma.Prisma__FxRateSnapshotClient<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more FxRateSnapshots.
+   * @param {FxRateSnapshotDeleteManyArgs} args - Arguments to filter FxRateSnapshots to delete.
+   * @example
+   * // Delete a few FxRateSnapshots
+   * const { count } = await prisma.fxRateSnapshot.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends FxRateSnapshotDeleteManyArgs>(args?: Prisma.SelectSubset<T, FxRateSnapshotDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more FxRateSnapshots.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FxRateSnapshotUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many FxRateSnapshots
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends FxRateSnapshotUpdateManyArgs>(args: Prisma.SelectSubset<T, FxRateSnapshotUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more FxRateSnapshots and returns the data updated in the database.
+   * @param {FxRateSnapshotUpdateManyAndReturnArgs} args - Arguments to update many FxRateSnapshots.
+   * @example
+   * // Update many FxRateSnapshots
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more FxRateSnapshots and only return the `id`
+   * const fxRateSnapshotWithIdOnly = await prisma.fxRateSnapshot.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends FxRateSnapshotUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, FxRateSnapshotUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one FxRateSnapshot.
+   * @param {FxRateSnapshotUpsertArgs} args - Arguments to update or create a FxRateSnapshot.
+   * @example
+   * // Update or create a FxRateSnapshot
+   * const fxRateSnapshot = await prisma.fxRateSnapshot.upsert({
+   *   create: {
+   *     // ... data to create a FxRateSnapshot
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the FxRateSnapshot we want to update
+   *   }
+   * })
+   */
+  upsert<T extends FxRateSnapshotUpsertArgs>(args: Prisma.SelectSubset<T, FxRateSnapshotUpsertArgs<ExtArgs>>): Prisma.Prisma__FxRateSnapshotClient<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of FxRateSnapshots.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FxRateSnapshotCountArgs} args - Arguments to filter FxRateSnapshots to count.
+   * @example
+   * // Count the number of FxRateSnapshots
+   * const count = await prisma.fxRateSnapshot.count({
+   *   where: {
+   *     // ... the filter for the FxRateSnapshots we want to count
+   *   }
+   * })
+  **/
+  count<T extends FxRateSnapshotCountArgs>(
+    args?: Prisma.Subset<T, FxRateSnapshotCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], FxRateSnapshotCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a FxRateSnapshot.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FxRateSnapshotAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends FxRateSnapshotAggregateArgs>(args: Prisma.Subset<T, FxRateSnapshotAggregateArgs>): Prisma.PrismaPromise<GetFxRateSnapshotAggregateType<T>>
+
+  /**
+   * Group by FxRateSnapshot.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FxRateSnapshotGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends FxRateSnapshotGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: FxRateSnapshotGroupByArgs['orderBy'] }
+      : { orderBy?: FxRateSnapshotGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, FxRateSnapshotGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetFxRateSnapshotGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the FxRateSnapshot model
+ */
+readonly fields: FxRateSnapshotFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for FxRateSnapshot.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__FxRateSnapshotClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  orders<T extends Prisma.FxRateSnapshot$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FxRateSnapshot$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the FxRateSnapshot model
+ */
+export interface FxRateSnapshotFieldRefs {
+  readonly id: Prisma.FieldRef<"FxRateSnapshot", 'String'>
+  readonly base: Prisma.FieldRef<"FxRateSnapshot", 'String'>
+  readonly rates: Prisma.FieldRef<"FxRateSnapshot", 'Json'>
+  readonly source: Prisma.FieldRef<"FxRateSnapshot", 'String'>
+  readonly providerUpdatedAt: Prisma.FieldRef<"FxRateSnapshot", 'DateTime'>
+  readonly fetchedAt: Prisma.FieldRef<"FxRateSnapshot", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * FxRateSnapshot findUnique
+ */
+export type FxRateSnapshotFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which FxRateSnapshot to fetch.
+   */
+  where: Prisma.FxRateSnapshotWhereUniqueInput
+}
+
+/**
+ * FxRateSnapshot findUniqueOrThrow
+ */
+export type FxRateSnapshotFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which FxRateSnapshot to fetch.
+   */
+  where: Prisma.FxRateSnapshotWhereUniqueInput
+}
+
+/**
+ * FxRateSnapshot findFirst
+ */
+export type FxRateSnapshotFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which FxRateSnapshot to fetch.
+   */
+  where?: Prisma.FxRateSnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FxRateSnapshots to fetch.
+   */
+  orderBy?: Prisma.FxRateSnapshotOrderByWithRelationInput | Prisma.FxRateSnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for FxRateSnapshots.
+   */
+  cursor?: Prisma.FxRateSnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FxRateSnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FxRateSnapshots.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of FxRateSnapshots.
+   */
+  distinct?: Prisma.FxRateSnapshotScalarFieldEnum | Prisma.FxRateSnapshotScalarFieldEnum[]
+}
+
+/**
+ * FxRateSnapshot findFirstOrThrow
+ */
+export type FxRateSnapshotFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which FxRateSnapshot to fetch.
+   */
+  where?: Prisma.FxRateSnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FxRateSnapshots to fetch.
+   */
+  orderBy?: Prisma.FxRateSnapshotOrderByWithRelationInput | Prisma.FxRateSnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for FxRateSnapshots.
+   */
+  cursor?: Prisma.FxRateSnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FxRateSnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FxRateSnapshots.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of FxRateSnapshots.
+   */
+  distinct?: Prisma.FxRateSnapshotScalarFieldEnum | Prisma.FxRateSnapshotScalarFieldEnum[]
+}
+
+/**
+ * FxRateSnapshot findMany
+ */
+export type FxRateSnapshotFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which FxRateSnapshots to fetch.
+   */
+  where?: Prisma.FxRateSnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FxRateSnapshots to fetch.
+   */
+  orderBy?: Prisma.FxRateSnapshotOrderByWithRelationInput | Prisma.FxRateSnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing FxRateSnapshots.
+   */
+  cursor?: Prisma.FxRateSnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FxRateSnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FxRateSnapshots.
+   */
+  skip?: number
+  distinct?: Prisma.FxRateSnapshotScalarFieldEnum | Prisma.FxRateSnapshotScalarFieldEnum[]
+}
+
+/**
+ * FxRateSnapshot create
+ */
+export type FxRateSnapshotCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  /**
+   * The data needed to create a FxRateSnapshot.
+   */
+  data: Prisma.XOR<Prisma.FxRateSnapshotCreateInput, Prisma.FxRateSnapshotUncheckedCreateInput>
+}
+
+/**
+ * FxRateSnapshot createMany
+ */
+export type FxRateSnapshotCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many FxRateSnapshots.
+   */
+  data: Prisma.FxRateSnapshotCreateManyInput | Prisma.FxRateSnapshotCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * FxRateSnapshot createManyAndReturn
+ */
+export type FxRateSnapshotCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * The data used to create many FxRateSnapshots.
+   */
+  data: Prisma.FxRateSnapshotCreateManyInput | Prisma.FxRateSnapshotCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * FxRateSnapshot update
+ */
+export type FxRateSnapshotUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  /**
+   * The data needed to update a FxRateSnapshot.
+   */
+  data: Prisma.XOR<Prisma.FxRateSnapshotUpdateInput, Prisma.FxRateSnapshotUncheckedUpdateInput>
+  /**
+   * Choose, which FxRateSnapshot to update.
+   */
+  where: Prisma.FxRateSnapshotWhereUniqueInput
+}
+
+/**
+ * FxRateSnapshot updateMany
+ */
+export type FxRateSnapshotUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update FxRateSnapshots.
+   */
+  data: Prisma.XOR<Prisma.FxRateSnapshotUpdateManyMutationInput, Prisma.FxRateSnapshotUncheckedUpdateManyInput>
+  /**
+   * Filter which FxRateSnapshots to update
+   */
+  where?: Prisma.FxRateSnapshotWhereInput
+  /**
+   * Limit how many FxRateSnapshots to update.
+   */
+  limit?: number
+}
+
+/**
+ * FxRateSnapshot updateManyAndReturn
+ */
+export type FxRateSnapshotUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * The data used to update FxRateSnapshots.
+   */
+  data: Prisma.XOR<Prisma.FxRateSnapshotUpdateManyMutationInput, Prisma.FxRateSnapshotUncheckedUpdateManyInput>
+  /**
+   * Filter which FxRateSnapshots to update
+   */
+  where?: Prisma.FxRateSnapshotWhereInput
+  /**
+   * Limit how many FxRateSnapshots to update.
+   */
+  limit?: number
+}
+
+/**
+ * FxRateSnapshot upsert
+ */
+export type FxRateSnapshotUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  /**
+   * The filter to search for the FxRateSnapshot to update in case it exists.
+   */
+  where: Prisma.FxRateSnapshotWhereUniqueInput
+  /**
+   * In case the FxRateSnapshot found by the `where` argument doesn't exist, create a new FxRateSnapshot with this data.
+   */
+  create: Prisma.XOR<Prisma.FxRateSnapshotCreateInput, Prisma.FxRateSnapshotUncheckedCreateInput>
+  /**
+   * In case the FxRateSnapshot was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.FxRateSnapshotUpdateInput, Prisma.FxRateSnapshotUncheckedUpdateInput>
+}
+
+/**
+ * FxRateSnapshot delete
+ */
+export type FxRateSnapshotDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  /**
+   * Filter which FxRateSnapshot to delete.
+   */
+  where: Prisma.FxRateSnapshotWhereUniqueInput
+}
+
+/**
+ * FxRateSnapshot deleteMany
+ */
+export type FxRateSnapshotDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which FxRateSnapshots to delete
+   */
+  where?: Prisma.FxRateSnapshotWhereInput
+  /**
+   * Limit how many FxRateSnapshots to delete.
+   */
+  limit?: number
+}
+
+/**
+ * FxRateSnapshot.orders
+ */
+export type FxRateSnapshot$ordersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  where?: Prisma.OrderWhereInput
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  cursor?: Prisma.OrderWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
+}
+
+/**
+ * FxRateSnapshot without action
+ */
+export type FxRateSnapshotDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+}
@@ -0,0 +1,1608 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `LaunchNotification` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model LaunchNotification
+ * 
+ */
+export type LaunchNotificationModel = runtime.Types.Result.DefaultSelection<Prisma.$LaunchNotificationPayload>
+
+export type AggregateLaunchNotification = {
+  _count: LaunchNotificationCountAggregateOutputType | null
+  _min: LaunchNotificationMinAggregateOutputType | null
+  _max: LaunchNotificationMaxAggregateOutputType | null
+}
+
+export type LaunchNotificationMinAggregateOutputType = {
+  id: string | null
+  productId: string | null
+  email: string | null
+  customerId: string | null
+  token: string | null
+  notifiedAt: Date | null
+  unsubscribedAt: Date | null
+  createdAt: Date | null
+}
+
+export type LaunchNotificationMaxAggregateOutputType = {
+  id: string | null
+  productId: string | null
+  email: string | null
+  customerId: string | null
+  token: string | null
+  notifiedAt: Date | null
+  unsubscribedAt: Date | null
+  createdAt: Date | null
+}
+
+export type LaunchNotificationCountAggregateOutputType = {
+  id: number
+  productId: number
+  email: number
+  customerId: number
+  token: number
+  notifiedAt: number
+  unsubscribedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type LaunchNotificationMinAggregateInputType = {
+  id?: true
+  productId?: true
+  email?: true
+  customerId?: true
+  token?: true
+  notifiedAt?: true
+  unsubscribedAt?: true
+  createdAt?: true
+}
+
+export type LaunchNotificationMaxAggregateInputType = {
+  id?: true
+  productId?: true
+  email?: true
+  customerId?: true
+  token?: true
+  notifiedAt?: true
+  unsubscribedAt?: true
+  createdAt?: true
+}
+
+export type LaunchNotificationCountAggregateInputType = {
+  id?: true
+  productId?: true
+  email?: true
+  customerId?: true
+  token?: true
+  notifiedAt?: true
+  unsubscribedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type LaunchNotificationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LaunchNotification to aggregate.
+   */
+  where?: Prisma.LaunchNotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LaunchNotifications to fetch.
+   */
+  orderBy?: Prisma.LaunchNotificationOrderByWithRelationInput | Prisma.LaunchNotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.LaunchNotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LaunchNotifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LaunchNotifications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned LaunchNotifications
+  **/
+  _count?: true | LaunchNotificationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: LaunchNotificationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: LaunchNotificationMaxAggregateInputType
+}
+
+export type GetLaunchNotificationAggregateType<T extends LaunchNotificationAggregateArgs> = {
+      [P in keyof T & keyof AggregateLaunchNotification]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateLaunchNotification[P]>
+    : Prisma.GetScalarType<T[P], AggregateLaunchNotification[P]>
+}
+
+
+
+
+export type LaunchNotificationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LaunchNotificationWhereInput
+  orderBy?: Prisma.LaunchNotificationOrderByWithAggregationInput | Prisma.LaunchNotificationOrderByWithAggregationInput[]
+  by: Prisma.LaunchNotificationScalarFieldEnum[] | Prisma.LaunchNotificationScalarFieldEnum
+  having?: Prisma.LaunchNotificationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: LaunchNotificationCountAggregateInputType | true
+  _min?: LaunchNotificationMinAggregateInputType
+  _max?: LaunchNotificationMaxAggregateInputType
+}
+
+export type LaunchNotificationGroupByOutputType = {
+  id: string
+  productId: string
+  email: string
+  customerId: string | null
+  token: string
+  notifiedAt: Date | null
+  unsubscribedAt: Date | null
+  createdAt: Date
+  _count: LaunchNotificationCountAggregateOutputType | null
+  _min: LaunchNotificationMinAggregateOutputType | null
+  _max: LaunchNotificationMaxAggregateOutputType | null
+}
+
+type GetLaunchNotificationGroupByPayload<T extends LaunchNotificationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<LaunchNotificationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof LaunchNotificationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], LaunchNotificationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], LaunchNotificationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type LaunchNotificationWhereInput = {
+  AND?: Prisma.LaunchNotificationWhereInput | Prisma.LaunchNotificationWhereInput[]
+  OR?: Prisma.LaunchNotificationWhereInput[]
+  NOT?: Prisma.LaunchNotificationWhereInput | Prisma.LaunchNotificationWhereInput[]
+  id?: Prisma.StringFilter<"LaunchNotification"> | string
+  productId?: Prisma.StringFilter<"LaunchNotification"> | string
+  email?: Prisma.StringFilter<"LaunchNotification"> | string
+  customerId?: Prisma.StringNullableFilter<"LaunchNotification"> | string | null
+  token?: Prisma.StringFilter<"LaunchNotification"> | string
+  notifiedAt?: Prisma.DateTimeNullableFilter<"LaunchNotification"> | Date | string | null
+  unsubscribedAt?: Prisma.DateTimeNullableFilter<"LaunchNotification"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"LaunchNotification"> | Date | string
+  product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+}
+
+export type LaunchNotificationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  product?: Prisma.ProductOrderByWithRelationInput
+  customer?: Prisma.CustomerOrderByWithRelationInput
+}
+
+export type LaunchNotificationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  token?: string
+  productId_email?: Prisma.LaunchNotificationProductIdEmailCompoundUniqueInput
+  AND?: Prisma.LaunchNotificationWhereInput | Prisma.LaunchNotificationWhereInput[]
+  OR?: Prisma.LaunchNotificationWhereInput[]
+  NOT?: Prisma.LaunchNotificationWhereInput | Prisma.LaunchNotificationWhereInput[]
+  productId?: Prisma.StringFilter<"LaunchNotification"> | string
+  email?: Prisma.StringFilter<"LaunchNotification"> | string
+  customerId?: Prisma.StringNullableFilter<"LaunchNotification"> | string | null
+  notifiedAt?: Prisma.DateTimeNullableFilter<"LaunchNotification"> | Date | string | null
+  unsubscribedAt?: Prisma.DateTimeNullableFilter<"LaunchNotification"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"LaunchNotification"> | Date | string
+  product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+}, "id" | "token" | "productId_email">
+
+export type LaunchNotificationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.LaunchNotificationCountOrderByAggregateInput
+  _max?: Prisma.LaunchNotificationMaxOrderByAggregateInput
+  _min?: Prisma.LaunchNotificationMinOrderByAggregateInput
+}
+
+export type LaunchNotificationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.LaunchNotificationScalarWhereWithAggregatesInput | Prisma.LaunchNotificationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.LaunchNotificationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.LaunchNotificationScalarWhereWithAggregatesInput | Prisma.LaunchNotificationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"LaunchNotification"> | string
+  productId?: Prisma.StringWithAggregatesFilter<"LaunchNotification"> | string
+  email?: Prisma.StringWithAggregatesFilter<"LaunchNotification"> | string
+  customerId?: Prisma.StringNullableWithAggregatesFilter<"LaunchNotification"> | string | null
+  token?: Prisma.StringWithAggregatesFilter<"LaunchNotification"> | string
+  notifiedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"LaunchNotification"> | Date | string | null
+  unsubscribedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"LaunchNotification"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"LaunchNotification"> | Date | string
+}
+
+export type LaunchNotificationCreateInput = {
+  id?: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+  product: Prisma.ProductCreateNestedOneWithoutLaunchNotificationsInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutLaunchNotificationsInput
+}
+
+export type LaunchNotificationUncheckedCreateInput = {
+  id?: string
+  productId: string
+  email: string
+  customerId?: string | null
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LaunchNotificationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  product?: Prisma.ProductUpdateOneRequiredWithoutLaunchNotificationsNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutLaunchNotificationsNestedInput
+}
+
+export type LaunchNotificationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LaunchNotificationCreateManyInput = {
+  id?: string
+  productId: string
+  email: string
+  customerId?: string | null
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LaunchNotificationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LaunchNotificationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LaunchNotificationListRelationFilter = {
+  every?: Prisma.LaunchNotificationWhereInput
+  some?: Prisma.LaunchNotificationWhereInput
+  none?: Prisma.LaunchNotificationWhereInput
+}
+
+export type LaunchNotificationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type LaunchNotificationProductIdEmailCompoundUniqueInput = {
+  productId: string
+  email: string
+}
+
+export type LaunchNotificationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LaunchNotificationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LaunchNotificationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LaunchNotificationCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutCustomerInput, Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput> | Prisma.LaunchNotificationCreateWithoutCustomerInput[] | Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.LaunchNotificationCreateOrConnectWithoutCustomerInput | Prisma.LaunchNotificationCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.LaunchNotificationCreateManyCustomerInputEnvelope
+  connect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+}
+
+export type LaunchNotificationUncheckedCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutCustomerInput, Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput> | Prisma.LaunchNotificationCreateWithoutCustomerInput[] | Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.LaunchNotificationCreateOrConnectWithoutCustomerInput | Prisma.LaunchNotificationCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.LaunchNotificationCreateManyCustomerInputEnvelope
+  connect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+}
+
+export type LaunchNotificationUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutCustomerInput, Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput> | Prisma.LaunchNotificationCreateWithoutCustomerInput[] | Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.LaunchNotificationCreateOrConnectWithoutCustomerInput | Prisma.LaunchNotificationCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.LaunchNotificationUpsertWithWhereUniqueWithoutCustomerInput | Prisma.LaunchNotificationUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.LaunchNotificationCreateManyCustomerInputEnvelope
+  set?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  disconnect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  delete?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  connect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  update?: Prisma.LaunchNotificationUpdateWithWhereUniqueWithoutCustomerInput | Prisma.LaunchNotificationUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.LaunchNotificationUpdateManyWithWhereWithoutCustomerInput | Prisma.LaunchNotificationUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.LaunchNotificationScalarWhereInput | Prisma.LaunchNotificationScalarWhereInput[]
+}
+
+export type LaunchNotificationUncheckedUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutCustomerInput, Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput> | Prisma.LaunchNotificationCreateWithoutCustomerInput[] | Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.LaunchNotificationCreateOrConnectWithoutCustomerInput | Prisma.LaunchNotificationCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.LaunchNotificationUpsertWithWhereUniqueWithoutCustomerInput | Prisma.LaunchNotificationUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.LaunchNotificationCreateManyCustomerInputEnvelope
+  set?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  disconnect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  delete?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  connect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  update?: Prisma.LaunchNotificationUpdateWithWhereUniqueWithoutCustomerInput | Prisma.LaunchNotificationUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.LaunchNotificationUpdateManyWithWhereWithoutCustomerInput | Prisma.LaunchNotificationUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.LaunchNotificationScalarWhereInput | Prisma.LaunchNotificationScalarWhereInput[]
+}
+
+export type LaunchNotificationCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutProductInput, Prisma.LaunchNotificationUncheckedCreateWithoutProductInput> | Prisma.LaunchNotificationCreateWithoutProductInput[] | Prisma.LaunchNotificationUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.LaunchNotificationCreateOrConnectWithoutProductInput | Prisma.LaunchNotificationCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.LaunchNotificationCreateManyProductInputEnvelope
+  connect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+}
+
+export type LaunchNotificationUncheckedCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutProductInput, Prisma.LaunchNotificationUncheckedCreateWithoutProductInput> | Prisma.LaunchNotificationCreateWithoutProductInput[] | Prisma.LaunchNotificationUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.LaunchNotificationCreateOrConnectWithoutProductInput | Prisma.LaunchNotificationCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.LaunchNotificationCreateManyProductInputEnvelope
+  connect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+}
+
+export type LaunchNotificationUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutProductInput, Prisma.LaunchNotificationUncheckedCreateWithoutProductInput> | Prisma.LaunchNotificationCreateWithoutProductInput[] | Prisma.LaunchNotificationUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.LaunchNotificationCreateOrConnectWithoutProductInput | Prisma.LaunchNotificationCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.LaunchNotificationUpsertWithWhereUniqueWithoutProductInput | Prisma.LaunchNotificationUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.LaunchNotificationCreateManyProductInputEnvelope
+  set?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  disconnect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  delete?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  connect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  update?: Prisma.LaunchNotificationUpdateWithWhereUniqueWithoutProductInput | Prisma.LaunchNotificationUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.LaunchNotificationUpdateManyWithWhereWithoutProductInput | Prisma.LaunchNotificationUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.LaunchNotificationScalarWhereInput | Prisma.LaunchNotificationScalarWhereInput[]
+}
+
+export type LaunchNotificationUncheckedUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutProductInput, Prisma.LaunchNotificationUncheckedCreateWithoutProductInput> | Prisma.LaunchNotificationCreateWithoutProductInput[] | Prisma.LaunchNotificationUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.LaunchNotificationCreateOrConnectWithoutProductInput | Prisma.LaunchNotificationCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.LaunchNotificationUpsertWithWhereUniqueWithoutProductInput | Prisma.LaunchNotificationUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.LaunchNotificationCreateManyProductInputEnvelope
+  set?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  disconnect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  delete?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  connect?: Prisma.LaunchNotificationWhereUniqueInput | Prisma.LaunchNotificationWhereUniqueInput[]
+  update?: Prisma.LaunchNotificationUpdateWithWhereUniqueWithoutProductInput | Prisma.LaunchNotificationUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.LaunchNotificationUpdateManyWithWhereWithoutProductInput | Prisma.LaunchNotificationUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.LaunchNotificationScalarWhereInput | Prisma.LaunchNotificationScalarWhereInput[]
+}
+
+export type LaunchNotificationCreateWithoutCustomerInput = {
+  id?: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+  product: Prisma.ProductCreateNestedOneWithoutLaunchNotificationsInput
+}
+
+export type LaunchNotificationUncheckedCreateWithoutCustomerInput = {
+  id?: string
+  productId: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LaunchNotificationCreateOrConnectWithoutCustomerInput = {
+  where: Prisma.LaunchNotificationWhereUniqueInput
+  create: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutCustomerInput, Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput>
+}
+
+export type LaunchNotificationCreateManyCustomerInputEnvelope = {
+  data: Prisma.LaunchNotificationCreateManyCustomerInput | Prisma.LaunchNotificationCreateManyCustomerInput[]
+  skipDuplicates?: boolean
+}
+
+export type LaunchNotificationUpsertWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.LaunchNotificationWhereUniqueInput
+  update: Prisma.XOR<Prisma.LaunchNotificationUpdateWithoutCustomerInput, Prisma.LaunchNotificationUncheckedUpdateWithoutCustomerInput>
+  create: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutCustomerInput, Prisma.LaunchNotificationUncheckedCreateWithoutCustomerInput>
+}
+
+export type LaunchNotificationUpdateWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.LaunchNotificationWhereUniqueInput
+  data: Prisma.XOR<Prisma.LaunchNotificationUpdateWithoutCustomerInput, Prisma.LaunchNotificationUncheckedUpdateWithoutCustomerInput>
+}
+
+export type LaunchNotificationUpdateManyWithWhereWithoutCustomerInput = {
+  where: Prisma.LaunchNotificationScalarWhereInput
+  data: Prisma.XOR<Prisma.LaunchNotificationUpdateManyMutationInput, Prisma.LaunchNotificationUncheckedUpdateManyWithoutCustomerInput>
+}
+
+export type LaunchNotificationScalarWhereInput = {
+  AND?: Prisma.LaunchNotificationScalarWhereInput | Prisma.LaunchNotificationScalarWhereInput[]
+  OR?: Prisma.LaunchNotificationScalarWhereInput[]
+  NOT?: Prisma.LaunchNotificationScalarWhereInput | Prisma.LaunchNotificationScalarWhereInput[]
+  id?: Prisma.StringFilter<"LaunchNotification"> | string
+  productId?: Prisma.StringFilter<"LaunchNotification"> | string
+  email?: Prisma.StringFilter<"LaunchNotification"> | string
+  customerId?: Prisma.StringNullableFilter<"LaunchNotification"> | string | null
+  token?: Prisma.StringFilter<"LaunchNotification"> | string
+  notifiedAt?: Prisma.DateTimeNullableFilter<"LaunchNotification"> | Date | string | null
+  unsubscribedAt?: Prisma.DateTimeNullableFilter<"LaunchNotification"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"LaunchNotification"> | Date | string
+}
+
+export type LaunchNotificationCreateWithoutProductInput = {
+  id?: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+  customer?: Prisma.CustomerCreateNestedOneWithoutLaunchNotificationsInput
+}
+
+export type LaunchNotificationUncheckedCreateWithoutProductInput = {
+  id?: string
+  email: string
+  customerId?: string | null
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LaunchNotificationCreateOrConnectWithoutProductInput = {
+  where: Prisma.LaunchNotificationWhereUniqueInput
+  create: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutProductInput, Prisma.LaunchNotificationUncheckedCreateWithoutProductInput>
+}
+
+export type LaunchNotificationCreateManyProductInputEnvelope = {
+  data: Prisma.LaunchNotificationCreateManyProductInput | Prisma.LaunchNotificationCreateManyProductInput[]
+  skipDuplicates?: boolean
+}
+
+export type LaunchNotificationUpsertWithWhereUniqueWithoutProductInput = {
+  where: Prisma.LaunchNotificationWhereUniqueInput
+  update: Prisma.XOR<Prisma.LaunchNotificationUpdateWithoutProductInput, Prisma.LaunchNotificationUncheckedUpdateWithoutProductInput>
+  create: Prisma.XOR<Prisma.LaunchNotificationCreateWithoutProductInput, Prisma.LaunchNotificationUncheckedCreateWithoutProductInput>
+}
+
+export type LaunchNotificationUpdateWithWhereUniqueWithoutProductInput = {
+  where: Prisma.LaunchNotificationWhereUniqueInput
+  data: Prisma.XOR<Prisma.LaunchNotificationUpdateWithoutProductInput, Prisma.LaunchNotificationUncheckedUpdateWithoutProductInput>
+}
+
+export type LaunchNotificationUpdateManyWithWhereWithoutProductInput = {
+  where: Prisma.LaunchNotificationScalarWhereInput
+  data: Prisma.XOR<Prisma.LaunchNotificationUpdateManyMutationInput, Prisma.LaunchNotificationUncheckedUpdateManyWithoutProductInput>
+}
+
+export type LaunchNotificationCreateManyCustomerInput = {
+  id?: string
+  productId: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LaunchNotificationUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  product?: Prisma.ProductUpdateOneRequiredWithoutLaunchNotificationsNestedInput
+}
+
+export type LaunchNotificationUncheckedUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LaunchNotificationUncheckedUpdateManyWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LaunchNotificationCreateManyProductInput = {
+  id?: string
+  email: string
+  customerId?: string | null
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LaunchNotificationUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.CustomerUpdateOneWithoutLaunchNotificationsNestedInput
+}
+
+export type LaunchNotificationUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LaunchNotificationUncheckedUpdateManyWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type LaunchNotificationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  productId?: boolean
+  email?: boolean
+  customerId?: boolean
+  token?: boolean
+  notifiedAt?: boolean
+  unsubscribedAt?: boolean
+  createdAt?: boolean
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.LaunchNotification$customerArgs<ExtArgs>
+}, ExtArgs["result"]["launchNotification"]>
+
+export type LaunchNotificationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  productId?: boolean
+  email?: boolean
+  customerId?: boolean
+  token?: boolean
+  notifiedAt?: boolean
+  unsubscribedAt?: boolean
+  createdAt?: boolean
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.LaunchNotification$customerArgs<ExtArgs>
+}, ExtArgs["result"]["launchNotification"]>
+
+export type LaunchNotificationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  productId?: boolean
+  email?: boolean
+  customerId?: boolean
+  token?: boolean
+  notifiedAt?: boolean
+  unsubscribedAt?: boolean
+  createdAt?: boolean
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.LaunchNotification$customerArgs<ExtArgs>
+}, ExtArgs["result"]["launchNotification"]>
+
+export type LaunchNotificationSelectScalar = {
+  id?: boolean
+  productId?: boolean
+  email?: boolean
+  customerId?: boolean
+  token?: boolean
+  notifiedAt?: boolean
+  unsubscribedAt?: boolean
+  createdAt?: boolean
+}
+
+export type LaunchNotificationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "productId" | "email" | "customerId" | "token" | "notifiedAt" | "unsubscribedAt" | "createdAt", ExtArgs["result"]["launchNotification"]>
+export type LaunchNotificationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.LaunchNotification$customerArgs<ExtArgs>
+}
+export type LaunchNotificationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.LaunchNotification$customerArgs<ExtArgs>
+}
+export type LaunchNotificationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.LaunchNotification$customerArgs<ExtArgs>
+}
+
+export type $LaunchNotificationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "LaunchNotification"
+  objects: {
+    product: Prisma.$ProductPayload<ExtArgs>
+    customer: Prisma.$CustomerPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    productId: string
+    email: string
+    customerId: string | null
+    token: string
+    notifiedAt: Date | null
+    unsubscribedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["launchNotification"]>
+  composites: {}
+}
+
+export type LaunchNotificationGetPayload<S extends boolean | null | undefined | LaunchNotificationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload, S>
+
+export type LaunchNotificationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<LaunchNotificationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: LaunchNotificationCountAggregateInputType | true
+  }
+
+export interface LaunchNotificationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['LaunchNotification'], meta: { name: 'LaunchNotification' } }
+  /**
+   * Find zero or one LaunchNotification that matches the filter.
+   * @param {LaunchNotificationFindUniqueArgs} args - Arguments to find a LaunchNotification
+   * @example
+   * // Get one LaunchNotification
+   * const launchNotification = await prisma.launchNotification.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends LaunchNotificationFindUniqueArgs>(args: Prisma.SelectSubset<T, LaunchNotificationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__LaunchNotificationClient<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one LaunchNotification that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {LaunchNotificationFindUniqueOrThrowArgs} args - Arguments to find a LaunchNotification
+   * @example
+   * // Get one LaunchNotification
+   * const launchNotification = await prisma.launchNotification.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends LaunchNotificationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, LaunchNotificationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__LaunchNotificationClient<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LaunchNotification that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LaunchNotificationFindFirstArgs} args - Arguments to find a LaunchNotification
+   * @example
+   * // Get one LaunchNotification
+   * const launchNotification = await prisma.launchNotification.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends LaunchNotificationFindFirstArgs>(args?: Prisma.SelectSubset<T, LaunchNotificationFindFirstArgs<ExtArgs>>): Prisma.Prisma__LaunchNotificationClient<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LaunchNotification that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LaunchNotificationFindFirstOrThrowArgs} args - Arguments to find a LaunchNotification
+   * @example
+   * // Get one LaunchNotification
+   * const launchNotification = await prisma.launchNotification.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends LaunchNotificationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, LaunchNotificationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__LaunchNotificationClient<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more LaunchNotifications that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LaunchNotificationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all LaunchNotifications
+   * const launchNotifications = await prisma.launchNotification.findMany()
+   * 
+   * // Get first 10 LaunchNotifications
+   * const launchNotifications = await prisma.launchNotification.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const launchNotificationWithIdOnly = await prisma.launchNotification.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends LaunchNotificationFindManyArgs>(args?: Prisma.SelectSubset<T, LaunchNotificationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a LaunchNotification.
+   * @param {LaunchNotificationCreateArgs} args - Arguments to create a LaunchNotification.
+   * @example
+   * // Create one LaunchNotification
+   * const LaunchNotification = await prisma.launchNotification.create({
+   *   data: {
+   *     // ... data to create a LaunchNotification
+   *   }
+   * })
+   * 
+   */
+  create<T extends LaunchNotificationCreateArgs>(args: Prisma.SelectSubset<T, LaunchNotificationCreateArgs<ExtArgs>>): Prisma.Prisma__LaunchNotificationClient<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many LaunchNotifications.
+   * @param {LaunchNotificationCreateManyArgs} args - Arguments to create many LaunchNotifications.
+   * @example
+   * // Create many LaunchNotifications
+   * const launchNotification = await prisma.launchNotification.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends LaunchNotificationCreateManyArgs>(args?: Prisma.SelectSubset<T, LaunchNotificationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many LaunchNotifications and returns the data saved in the database.
+   * @param {LaunchNotificationCreateManyAndReturnArgs} args - Arguments to create many LaunchNotifications.
+   * @example
+   * // Create many LaunchNotifications
+   * const launchNotification = await prisma.launchNotification.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many LaunchNotifications and only return the `id`
+   * const launchNotificationWithIdOnly = await prisma.launchNotification.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends LaunchNotificationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, LaunchNotificationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a LaunchNotification.
+   * @param {LaunchNotificationDeleteArgs} args - Arguments to delete one LaunchNotification.
+   * @example
+   * // Delete one LaunchNotification
+   * const LaunchNotification = await prisma.launchNotification.delete({
+   *   where: {
+   *     // ... filter to delete one LaunchNotification
+   *   }
+   * })
+   * 
+   */
+  delete<T extends LaunchNotificationDeleteArgs>(args: Prisma.SelectSubset<T, LaunchNotificationDeleteArgs<ExtArgs>>): Prisma.Prisma__LaunchNotificationClient<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one LaunchNotification.
+   * @param {LaunchNotificationUpdateArgs} args - Arguments to update one LaunchNotification.
+   * @example
+   * // Update one LaunchNotification
+   * const launchNotification = await prisma.launchNotification.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends LaunchNotificationUpdateArgs>(args: Prisma.SelectSubset<T, LaunchNotificationUpdateArgs<ExtArgs>>): Prisma.Prisma__LaunchNotificationClient<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more LaunchNotifications.
+   * @param {LaunchNotificationDeleteManyArgs} args - Arguments to filter LaunchNotifications to delete.
+   * @example
+   * // Delete a few LaunchNotifications
+   * const { count } = await prisma.launchNotification.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends LaunchNotificationDeleteManyArgs>(args?: Prisma.SelectSubset<T, LaunchNotificationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LaunchNotifications.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LaunchNotificationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many LaunchNotifications
+   * const launchNotification = await prisma.launchNotification.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends LaunchNotificationUpdateManyArgs>(args: Prisma.SelectSubset<T, LaunchNotificationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LaunchNotifications and returns the data updated in the database.
+   * @param {LaunchNotificationUpdateManyAndReturnArgs} args - Arguments to update many LaunchNotifications.
+   * @example
+   * // Update many LaunchNotifications
+   * const launchNotification = await prisma.launchNotification.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more LaunchNotifications and only return the `id`
+   * const launchNotificationWithIdOnly = await prisma.launchNotification.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends LaunchNotificationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, LaunchNotificationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one LaunchNotification.
+   * @param {LaunchNotificationUpsertArgs} args - Arguments to update or create a LaunchNotification.
+   * @example
+   * // Update or create a LaunchNotification
+   * const launchNotification = await prisma.launchNotification.upsert({
+   *   create: {
+   *     // ... data to create a LaunchNotification
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the LaunchNotification we want to update
+   *   }
+   * })
+   */
+  upsert<T extends LaunchNotificationUpsertArgs>(args: Prisma.SelectSubset<T, LaunchNotificationUpsertArgs<ExtArgs>>): Prisma.Prisma__LaunchNotificationClient<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of LaunchNotifications.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LaunchNotificationCountArgs} args - Arguments to filter LaunchNotifications to count.
+   * @example
+   * // Count the number of LaunchNotifications
+   * const count = await prisma.launchNotification.count({
+   *   where: {
+   *     // ... the filter for the LaunchNotifications we want to count
+   *   }
+   * })
+  **/
+  count<T extends LaunchNotificationCountArgs>(
+    args?: Prisma.Subset<T, LaunchNotificationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], LaunchNotificationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a LaunchNotification.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LaunchNotificationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends LaunchNotificationAggregateArgs>(args: Prisma.Subset<T, LaunchNotificationAggregateArgs>): Prisma.PrismaPromise<GetLaunchNotificationAggregateType<T>>
+
+  /**
+   * Group by LaunchNotification.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LaunchNotificationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends LaunchNotificationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: LaunchNotificationGroupByArgs['orderBy'] }
+      : { orderBy?: LaunchNotificationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, LaunchNotificationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLaunchNotificationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the LaunchNotification model
+ */
+readonly fields: LaunchNotificationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for LaunchNotification.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__LaunchNotificationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  product<T extends Prisma.ProductDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProductDefaultArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  customer<T extends Prisma.LaunchNotification$customerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.LaunchNotification$customerArgs<ExtArgs>>): Prisma.Prisma__CustomerClient<runtime.Types.Result.GetResult<Prisma.$CustomerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the LaunchNotification model
+ */
+export interface LaunchNotificationFieldRefs {
+  readonly id: Prisma.FieldRef<"LaunchNotification", 'String'>
+  readonly productId: Prisma.FieldRef<"LaunchNotification", 'String'>
+  readonly email: Prisma.FieldRef<"LaunchNotification", 'String'>
+  readonly customerId: Prisma.FieldRef<"LaunchNotification", 'String'>
+  readonly token: Prisma.FieldRef<"LaunchNotification", 'String'>
+  readonly notifiedAt: Prisma.FieldRef<"LaunchNotification", 'DateTime'>
+  readonly unsubscribedAt: Prisma.FieldRef<"LaunchNotification", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"LaunchNotification", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * LaunchNotification findUnique
+ */
+export type LaunchNotificationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which LaunchNotification to fetch.
+   */
+  where: Prisma.LaunchNotificationWhereUniqueInput
+}
+
+/**
+ * LaunchNotification findUniqueOrThrow
+ */
+export type LaunchNotificationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which LaunchNotification to fetch.
+   */
+  where: Prisma.LaunchNotificationWhereUniqueInput
+}
+
+/**
+ * LaunchNotification findFirst
+ */
+export type LaunchNotificationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which LaunchNotification to fetch.
+   */
+  where?: Prisma.LaunchNotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LaunchNotifications to fetch.
+   */
+  orderBy?: Prisma.LaunchNotificationOrderByWithRelationInput | Prisma.LaunchNotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LaunchNotifications.
+   */
+  cursor?: Prisma.LaunchNotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LaunchNotifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LaunchNotifications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LaunchNotifications.
+   */
+  distinct?: Prisma.LaunchNotificationScalarFieldEnum | Prisma.LaunchNotificationScalarFieldEnum[]
+}
+
+/**
+ * LaunchNotification findFirstOrThrow
+ */
+export type LaunchNotificationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which LaunchNotification to fetch.
+   */
+  where?: Prisma.LaunchNotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LaunchNotifications to fetch.
+   */
+  orderBy?: Prisma.LaunchNotificationOrderByWithRelationInput | Prisma.LaunchNotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LaunchNotifications.
+   */
+  cursor?: Prisma.LaunchNotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LaunchNotifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LaunchNotifications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LaunchNotifications.
+   */
+  distinct?: Prisma.LaunchNotificationScalarFieldEnum | Prisma.LaunchNotificationScalarFieldEnum[]
+}
+
+/**
+ * LaunchNotification findMany
+ */
+export type LaunchNotificationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which LaunchNotifications to fetch.
+   */
+  where?: Prisma.LaunchNotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LaunchNotifications to fetch.
+   */
+  orderBy?: Prisma.LaunchNotificationOrderByWithRelationInput | Prisma.LaunchNotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing LaunchNotifications.
+   */
+  cursor?: Prisma.LaunchNotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LaunchNotifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LaunchNotifications.
+   */
+  skip?: number
+  distinct?: Prisma.LaunchNotificationScalarFieldEnum | Prisma.LaunchNotificationScalarFieldEnum[]
+}
+
+/**
+ * LaunchNotification create
+ */
+export type LaunchNotificationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a LaunchNotification.
+   */
+  data: Prisma.XOR<Prisma.LaunchNotificationCreateInput, Prisma.LaunchNotificationUncheckedCreateInput>
+}
+
+/**
+ * LaunchNotification createMany
+ */
+export type LaunchNotificationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many LaunchNotifications.
+   */
+  data: Prisma.LaunchNotificationCreateManyInput | Prisma.LaunchNotificationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * LaunchNotification createManyAndReturn
+ */
+export type LaunchNotificationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * The data used to create many LaunchNotifications.
+   */
+  data: Prisma.LaunchNotificationCreateManyInput | Prisma.LaunchNotificationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * LaunchNotification update
+ */
+export type LaunchNotificationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a LaunchNotification.
+   */
+  data: Prisma.XOR<Prisma.LaunchNotificationUpdateInput, Prisma.LaunchNotificationUncheckedUpdateInput>
+  /**
+   * Choose, which LaunchNotification to update.
+   */
+  where: Prisma.LaunchNotificationWhereUniqueInput
+}
+
+/**
+ * LaunchNotification updateMany
+ */
+export type LaunchNotificationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update LaunchNotifications.
+   */
+  data: Prisma.XOR<Prisma.LaunchNotificationUpdateManyMutationInput, Prisma.LaunchNotificationUncheckedUpdateManyInput>
+  /**
+   * Filter which LaunchNotifications to update
+   */
+  where?: Prisma.LaunchNotificationWhereInput
+  /**
+   * Limit how many LaunchNotifications to update.
+   */
+  limit?: number
+}
+
+/**
+ * LaunchNotification updateManyAndReturn
+ */
+export type LaunchNotificationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * The data used to update LaunchNotifications.
+   */
+  data: Prisma.XOR<Prisma.LaunchNotificationUpdateManyMutationInput, Prisma.LaunchNotificationUncheckedUpdateManyInput>
+  /**
+   * Filter which LaunchNotifications to update
+   */
+  where?: Prisma.LaunchNotificationWhereInput
+  /**
+   * Limit how many LaunchNotifications to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * LaunchNotification upsert
+ */
+export type LaunchNotificationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the LaunchNotification to update in case it exists.
+   */
+  where: Prisma.LaunchNotificationWhereUniqueInput
+  /**
+   * In case the LaunchNotification found by the `where` argument doesn't exist, create a new LaunchNotification with this data.
+   */
+  create: Prisma.XOR<Prisma.LaunchNotificationCreateInput, Prisma.LaunchNotificationUncheckedCreateInput>
+  /**
+   * In case the LaunchNotification was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.LaunchNotificationUpdateInput, Prisma.LaunchNotificationUncheckedUpdateInput>
+}
+
+/**
+ * LaunchNotification delete
+ */
+export type LaunchNotificationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  /**
+   * Filter which LaunchNotification to delete.
+   */
+  where: Prisma.LaunchNotificationWhereUniqueInput
+}
+
+/**
+ * LaunchNotification deleteMany
+ */
+export type LaunchNotificationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LaunchNotifications to delete
+   */
+  where?: Prisma.LaunchNotificationWhereInput
+  /**
+   * Limit how many LaunchNotifications to delete.
+   */
+  limit?: number
+}
+
+/**
+ * LaunchNotification.customer
+ */
+export type LaunchNotification$customerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Customer
+   */
+  select?: Prisma.CustomerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Customer
+   */
+  omit?: Prisma.CustomerOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomerInclude<ExtArgs> | null
+  where?: Prisma.CustomerWhereInput
+}
+
+/**
+ * LaunchNotification without action
+ */
+export type LaunchNotificationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+}
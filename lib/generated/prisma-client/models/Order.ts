@@ -30,12 +30,16 @@ export type OrderAvgAggregateOutputType = {
   totalAmount: number | null
   totalNGN: number | null
   deliveryFee: number | null
+  discountAmount: number | null
+  fxRateToNGN: number | null
 }
 
 export type OrderSumAggregateOutputType = {
   totalAmount: number | null
   totalNGN: number | null
   deliveryFee: number | null
+  discountAmount: number | null
+  fxRateToNGN: number | null
 }
 
 export type OrderMinAggregateOutputType = {
@@ -58,6 +62,11 @@ export type OrderMinAggregateOutputType = {
   refundReason: string | null
   refundTransactionId: string | null
   refundStatus: $Enums.RefundStatus | null
+  promotionId: string | null
+  discountCode: string | null
+  discountAmount: number | null
+  fxRateToNGN: number | null
+  fxSnapshotId: string | null
 }
 
 export type OrderMaxAggregateOutputType = {
@@ -80,6 +89,11 @@ export type OrderMaxAggregateOutputType = {
   refundReason: string | null
   refundTransactionId: string | null
   refundStatus: $Enums.RefundStatus | null
+  promotionId: string | null
+  discountCode: string | null
+  discountAmount: number | null
+  fxRateToNGN: number | null
+  fxSnapshotId: string | null
 }
 
 export type OrderCountAggregateOutputType = {
@@ -104,6 +118,12 @@ export type OrderCountAggregateOutputType = {
   refundReason: number
   refundTransactionId: number
   refundStatus: number
+  promotionId: number
+  discountCode: number
+  discountAmount: number
+  discountDetails: number
+  fxRateToNGN: number
+  fxSnapshotId: number
   _all: number
 }
 
@@ -112,12 +132,16 @@ export type OrderAvgAggregateInputType = {
   totalAmount?: true
   totalNGN?: true
   deliveryFee?: true
+  discountAmount?: true
+  fxRateToNGN?: true
 }
 
 export type OrderSumAggregateInputType = {
   totalAmount?: true
   totalNGN?: true
   deliveryFee?: true
+  discountAmount?: true
+  fxRateToNGN?: true
 }
 
 export type OrderMinAggregateInputType = {
@@ -140,6 +164,11 @@ export type OrderMinAggregateInputType = {
   refundReason?: true
   refundTransactionId?: true
   refundStatus?: true
+  promotionId?: true
+  discountCode?: true
+  discountAmount?: true
+  fxRateToNGN?: true
+  fxSnapshotId?: true
 }
 
 export type OrderMaxAggregateInputType = {
@@ -162,6 +191,11 @@ export type OrderMaxAggregateInputType = {
   refundReason?: true
   refundTransactionId?: true
   refundStatus?: true
+  promotionId?: true
+  discountCode?: true
+  discountAmount?: true
+  fxRateToNGN?: true
+  fxSnapshotId?: true
 }
 
 export type OrderCountAggregateInputType = {
@@ -186,6 +220,12 @@ export type OrderCountAggregateInputType = {
   refundReason?: true
   refundTransactionId?: true
   refundStatus?: true
+  promotionId?: true
+  discountCode?: true
+  discountAmount?: true
+  discountDetails?: true
+  fxRateToNGN?: true
+  fxSnapshotId?: true
   _all?: true
 }
 
@@ -297,6 +337,12 @@ export type OrderGroupByOutputType = {
   refundReason: string | null
   refundTransactionId: string | null
   refundStatus: $Enums.RefundStatus | null
+  promotionId: string | null
+  discountCode: string | null
+  discountAmount: number
+  discountDetails: runtime.JsonValue | null
+  fxRateToNGN: number | null
+  fxSnapshotId: string | null
   _count: OrderCountAggregateOutputType | null
   _avg: OrderAvgAggregateOutputType | null
   _sum: OrderSumAggregateOutputType | null
@@ -344,13 +390,27 @@ export type OrderWhereInput = {
   refundReason?: Prisma.StringNullableFilter<"Order"> | string | null
   refundTransactionId?: Prisma.StringNullableFilter<"Order"> | string | null
   refundStatus?: Prisma.EnumRefundStatusNullableFilter<"Order"> | $Enums.RefundStatus | null
+  promotionId?: Prisma.StringNullableFilter<"Order"> | string | null
+  discountCode?: Prisma.StringNullableFilter<"Order"> | string | null
+  discountAmount?: Prisma.FloatFilter<"Order"> | number
+  discountDetails?: Prisma.JsonNullableFilter<"Order">
+  fxRateToNGN?: Prisma.FloatNullableFilter<"Order"> | number | null
+  fxSnapshotId?: Prisma.StringNullableFilter<"Order"> | string | null
   offlineSale?: Prisma.XOR<Prisma.OfflineSaleNullableScalarRelationFilter, Prisma.OfflineSaleWhereInput> | null
   customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
   deliveryOption?: Prisma.XOR<Prisma.DeliveryOptionNullableScalarRelationFilter, Prisma.DeliveryOptionWhereInput> | null
   staff?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
   items?: Prisma.OrderItemListRelationFilter
   receiptEmailStatus?: Prisma.XOR<Prisma.ReceiptEmailStatusNullableScalarRelationFilter, Prisma.ReceiptEmailStatusWhereInput> | null
-  shipment?: Prisma.XOR<Prisma.ShipmentNullableScalarRelationFilter, Prisma.ShipmentWhereInput> | null
+  promotion?: Prisma.XOR<Prisma.PromotionNullableScalarRelationFilter, Prisma.PromotionWhereInput> | null
+  promotionRedemption?: Prisma.XOR<Prisma.PromotionRedemptionNullableScalarRelationFilter, Prisma.PromotionRedemptionWhereInput> | null
+  fxSnapshot?: Prisma.XOR<Prisma.FxRateSnapshotNullableScalarRelationFilter, Prisma.FxRateSnapshotWhereInput> | null
+  refunds?: Prisma.OrderRefundListRelationFilter
+  returns?: Prisma.ReturnRequestListRelationFilter
+  replacementFor?: Prisma.XOR<Prisma.ReturnRequestNullableScalarRelationFilter, Prisma.ReturnRequestWhereInput> | null
+  abandonedCart?: Prisma.XOR<Prisma.AbandonedCartNullableScalarRelationFilter, Prisma.AbandonedCartWhereInput> | null
+  pickup?: Prisma.XOR<Prisma.OrderPickupNullableScalarRelationFilter, Prisma.OrderPickupWhereInput> | null
+  shipments?: Prisma.ShipmentListRelationFilter
 }
 
 export type OrderOrderByWithRelationInput = {
@@ -375,13 +435,27 @@ export type OrderOrderByWithRelationInput = {
   refundReason?: Prisma.SortOrderInput | Prisma.SortOrder
   refundTransactionId?: Prisma.SortOrderInput | Prisma.SortOrder
   refundStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  promotionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  discountDetails?: Prisma.SortOrderInput | Prisma.SortOrder
+  fxRateToNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  fxSnapshotId?: Prisma.SortOrderInput | Prisma.SortOrder
   offlineSale?: Prisma.OfflineSaleOrderByWithRelationInput
   customer?: Prisma.CustomerOrderByWithRelationInput
   deliveryOption?: Prisma.DeliveryOptionOrderByWithRelationInput
   staff?: Prisma.StaffOrderByWithRelationInput
   items?: Prisma.OrderItemOrderByRelationAggregateInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusOrderByWithRelationInput
-  shipment?: Prisma.ShipmentOrderByWithRelationInput
+  promotion?: Prisma.PromotionOrderByWithRelationInput
+  promotionRedemption?: Prisma.PromotionRedemptionOrderByWithRelationInput
+  fxSnapshot?: Prisma.FxRateSnapshotOrderByWithRelationInput
+  refunds?: Prisma.OrderRefundOrderByRelationAggregateInput
+  returns?: Prisma.ReturnRequestOrderByRelationAggregateInput
+  replacementFor?: Prisma.ReturnRequestOrderByWithRelationInput
+  abandonedCart?: Prisma.AbandonedCartOrderByWithRelationInput
+  pickup?: Prisma.OrderPickupOrderByWithRelationInput
+  shipments?: Prisma.ShipmentOrderByRelationAggregateInput
 }
 
 export type OrderWhereUniqueInput = Prisma.AtLeast<{
@@ -409,13 +483,27 @@ export type OrderWhereUniqueInput = Prisma.AtLeast<{
   refundReason?: Prisma.StringNullableFilter<"Order"> | string | null
   refundTransactionId?: Prisma.StringNullableFilter<"Order"> | string | null
   refundStatus?: Prisma.EnumRefundStatusNullableFilter<"Order"> | $Enums.RefundStatus | null
+  promotionId?: Prisma.StringNullableFilter<"Order"> | string | null
+  discountCode?: Prisma.StringNullableFilter<"Order"> | string | null
+  discountAmount?: Prisma.FloatFilter<"Order"> | number
+  discountDetails?: Prisma.JsonNullableFilter<"Order">
+  fxRateToNGN?: Prisma.FloatNullableFilter<"Order"> | number | null
+  fxSnapshotId?: Prisma.StringNullableFilter<"Order"> | string | null
   offlineSale?: Prisma.XOR<Prisma.OfflineSaleNullableScalarRelationFilter, Prisma.OfflineSaleWhereInput> | null
   customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
   deliveryOption?: Prisma.XOR<Prisma.DeliveryOptionNullableScalarRelationFilter, Prisma.DeliveryOptionWhereInput> | null
   staff?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
   items?: Prisma.OrderItemListRelationFilter
   receiptEmailStatus?: Prisma.XOR<Prisma.ReceiptEmailStatusNullableScalarRelationFilter, Prisma.ReceiptEmailStatusWhereInput> | null
-  shipment?: Prisma.XOR<Prisma.ShipmentNullableScalarRelationFilter, Prisma.ShipmentWhereInput> | null
+  promotion?: Prisma.XOR<Prisma.PromotionNullableScalarRelationFilter, Prisma.PromotionWhereInput> | null
+  promotionRedemption?: Prisma.XOR<Prisma.PromotionRedemptionNullableScalarRelationFilter, Prisma.PromotionRedemptionWhereInput> | null
+  fxSnapshot?: Prisma.XOR<Prisma.FxRateSnapshotNullableScalarRelationFilter, Prisma.FxRateSnapshotWhereInput> | null
+  refunds?: Prisma.OrderRefundListRelationFilter
+  returns?: Prisma.ReturnRequestListRelationFilter
+  replacementFor?: Prisma.XOR<Prisma.ReturnRequestNullableScalarRelationFilter, Prisma.ReturnRequestWhereInput> | null
+  abandonedCart?: Prisma.XOR<Prisma.AbandonedCartNullableScalarRelationFilter, Prisma.AbandonedCartWhereInput> | null
+  pickup?: Prisma.XOR<Prisma.OrderPickupNullableScalarRelationFilter, Prisma.OrderPickupWhereInput> | null
+  shipments?: Prisma.ShipmentListRelationFilter
 }, "id" | "paymentReference">
 
 export type OrderOrderByWithAggregationInput = {
@@ -440,6 +528,12 @@ export type OrderOrderByWithAggregationInput = {
   refundReason?: Prisma.SortOrderInput | Prisma.SortOrder
   refundTransactionId?: Prisma.SortOrderInput | Prisma.SortOrder
   refundStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  promotionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  discountDetails?: Prisma.SortOrderInput | Prisma.SortOrder
+  fxRateToNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  fxSnapshotId?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.OrderCountOrderByAggregateInput
   _avg?: Prisma.OrderAvgOrderByAggregateInput
   _max?: Prisma.OrderMaxOrderByAggregateInput
@@ -472,6 +566,12 @@ export type OrderScalarWhereWithAggregatesInput = {
   refundReason?: Prisma.StringNullableWithAggregatesFilter<"Order"> | string | null
   refundTransactionId?: Prisma.StringNullableWithAggregatesFilter<"Order"> | string | null
   refundStatus?: Prisma.EnumRefundStatusNullableWithAggregatesFilter<"Order"> | $Enums.RefundStatus | null
+  promotionId?: Prisma.StringNullableWithAggregatesFilter<"Order"> | string | null
+  discountCode?: Prisma.StringNullableWithAggregatesFilter<"Order"> | string | null
+  discountAmount?: Prisma.FloatWithAggregatesFilter<"Order"> | number
+  discountDetails?: Prisma.JsonNullableWithAggregatesFilter<"Order">
+  fxRateToNGN?: Prisma.FloatNullableWithAggregatesFilter<"Order"> | number | null
+  fxSnapshotId?: Prisma.StringNullableWithAggregatesFilter<"Order"> | string | null
 }
 
 export type OrderCreateInput = {
@@ -493,13 +593,25 @@ export type OrderCreateInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
   offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
   customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
   deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
   staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
   items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
 }
 
 export type OrderUncheckedCreateInput = {
@@ -524,10 +636,22 @@ export type OrderUncheckedCreateInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
   offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
   items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
 }
 
 export type OrderUpdateInput = {
@@ -549,13 +673,25 @@ export type OrderUpdateInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
   customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
   deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
   staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
   items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
 }
 
 export type OrderUncheckedUpdateInput = {
@@ -580,10 +716,22 @@ export type OrderUncheckedUpdateInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
   items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
 }
 
 export type OrderCreateManyInput = {
@@ -608,6 +756,12 @@ export type OrderCreateManyInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
 }
 
 export type OrderUpdateManyMutationInput = {
@@ -629,6 +783,10 @@ export type OrderUpdateManyMutationInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
 }
 
 export type OrderUncheckedUpdateManyInput = {
@@ -653,6 +811,12 @@ export type OrderUncheckedUpdateManyInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type OrderListRelationFilter = {
@@ -687,12 +851,20 @@ export type OrderCountOrderByAggregateInput = {
   refundReason?: Prisma.SortOrder
   refundTransactionId?: Prisma.SortOrder
   refundStatus?: Prisma.SortOrder
+  promotionId?: Prisma.SortOrder
+  discountCode?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  discountDetails?: Prisma.SortOrder
+  fxRateToNGN?: Prisma.SortOrder
+  fxSnapshotId?: Prisma.SortOrder
 }
 
 export type OrderAvgOrderByAggregateInput = {
   totalAmount?: Prisma.SortOrder
   totalNGN?: Prisma.SortOrder
   deliveryFee?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  fxRateToNGN?: Prisma.SortOrder
 }
 
 export type OrderMaxOrderByAggregateInput = {
@@ -715,6 +887,11 @@ export type OrderMaxOrderByAggregateInput = {
   refundReason?: Prisma.SortOrder
   refundTransactionId?: Prisma.SortOrder
   refundStatus?: Prisma.SortOrder
+  promotionId?: Prisma.SortOrder
+  discountCode?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  fxRateToNGN?: Prisma.SortOrder
+  fxSnapshotId?: Prisma.SortOrder
 }
 
 export type OrderMinOrderByAggregateInput = {
@@ -737,12 +914,19 @@ export type OrderMinOrderByAggregateInput = {
   refundReason?: Prisma.SortOrder
   refundTransactionId?: Prisma.SortOrder
   refundStatus?: Prisma.SortOrder
+  promotionId?: Prisma.SortOrder
+  discountCode?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  fxRateToNGN?: Prisma.SortOrder
+  fxSnapshotId?: Prisma.SortOrder
 }
 
 export type OrderSumOrderByAggregateInput = {
   totalAmount?: Prisma.SortOrder
   totalNGN?: Prisma.SortOrder
   deliveryFee?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  fxRateToNGN?: Prisma.SortOrder
 }
 
 export type OrderScalarRelationFilter = {
@@ -750,6 +934,11 @@ export type OrderScalarRelationFilter = {
   isNot?: Prisma.OrderWhereInput
 }
 
+export type OrderNullableScalarRelationFilter = {
+  is?: Prisma.OrderWhereInput | null
+  isNot?: Prisma.OrderWhereInput | null
+}
+
 export type OrderCreateNestedManyWithoutCustomerInput = {
   create?: Prisma.XOR<Prisma.OrderCreateWithoutCustomerInput, Prisma.OrderUncheckedCreateWithoutCustomerInput> | Prisma.OrderCreateWithoutCustomerInput[] | Prisma.OrderUncheckedCreateWithoutCustomerInput[]
   connectOrCreate?: Prisma.OrderCreateOrConnectWithoutCustomerInput | Prisma.OrderCreateOrConnectWithoutCustomerInput[]
@@ -906,6 +1095,20 @@ export type OrderUpdateOneRequiredWithoutItemsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutItemsInput, Prisma.OrderUpdateWithoutItemsInput>, Prisma.OrderUncheckedUpdateWithoutItemsInput>
 }
 
+export type OrderCreateNestedOneWithoutRefundsInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutRefundsInput, Prisma.OrderUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutRefundsInput
+  connect?: Prisma.OrderWhereUniqueInput
+}
+
+export type OrderUpdateOneRequiredWithoutRefundsNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutRefundsInput, Prisma.OrderUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutRefundsInput
+  upsert?: Prisma.OrderUpsertWithoutRefundsInput
+  connect?: Prisma.OrderWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutRefundsInput, Prisma.OrderUpdateWithoutRefundsInput>, Prisma.OrderUncheckedUpdateWithoutRefundsInput>
+}
+
 export type OrderCreateNestedOneWithoutOfflineSaleInput = {
   create?: Prisma.XOR<Prisma.OrderCreateWithoutOfflineSaleInput, Prisma.OrderUncheckedCreateWithoutOfflineSaleInput>
   connectOrCreate?: Prisma.OrderCreateOrConnectWithoutOfflineSaleInput
@@ -920,6 +1123,22 @@ export type OrderUpdateOneRequiredWithoutOfflineSaleNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutOfflineSaleInput, Prisma.OrderUpdateWithoutOfflineSaleInput>, Prisma.OrderUncheckedUpdateWithoutOfflineSaleInput>
 }
 
+export type OrderCreateNestedOneWithoutAbandonedCartInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutAbandonedCartInput, Prisma.OrderUncheckedCreateWithoutAbandonedCartInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutAbandonedCartInput
+  connect?: Prisma.OrderWhereUniqueInput
+}
+
+export type OrderUpdateOneWithoutAbandonedCartNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutAbandonedCartInput, Prisma.OrderUncheckedCreateWithoutAbandonedCartInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutAbandonedCartInput
+  upsert?: Prisma.OrderUpsertWithoutAbandonedCartInput
+  disconnect?: Prisma.OrderWhereInput | boolean
+  delete?: Prisma.OrderWhereInput | boolean
+  connect?: Prisma.OrderWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutAbandonedCartInput, Prisma.OrderUpdateWithoutAbandonedCartInput>, Prisma.OrderUncheckedUpdateWithoutAbandonedCartInput>
+}
+
 export type OrderCreateNestedOneWithoutReceiptEmailStatusInput = {
   create?: Prisma.XOR<Prisma.OrderCreateWithoutReceiptEmailStatusInput, Prisma.OrderUncheckedCreateWithoutReceiptEmailStatusInput>
   connectOrCreate?: Prisma.OrderCreateOrConnectWithoutReceiptEmailStatusInput
@@ -934,18 +1153,160 @@ export type OrderUpdateOneRequiredWithoutReceiptEmailStatusNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutReceiptEmailStatusInput, Prisma.OrderUpdateWithoutReceiptEmailStatusInput>, Prisma.OrderUncheckedUpdateWithoutReceiptEmailStatusInput>
 }
 
-export type OrderCreateNestedOneWithoutShipmentInput = {
-  create?: Prisma.XOR<Prisma.OrderCreateWithoutShipmentInput, Prisma.OrderUncheckedCreateWithoutShipmentInput>
-  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutShipmentInput
+export type OrderCreateNestedOneWithoutReturnsInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutReturnsInput, Prisma.OrderUncheckedCreateWithoutReturnsInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutReturnsInput
+  connect?: Prisma.OrderWhereUniqueInput
+}
+
+export type OrderCreateNestedOneWithoutReplacementForInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutReplacementForInput, Prisma.OrderUncheckedCreateWithoutReplacementForInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutReplacementForInput
+  connect?: Prisma.OrderWhereUniqueInput
+}
+
+export type OrderUpdateOneRequiredWithoutReturnsNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutReturnsInput, Prisma.OrderUncheckedCreateWithoutReturnsInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutReturnsInput
+  upsert?: Prisma.OrderUpsertWithoutReturnsInput
+  connect?: Prisma.OrderWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutReturnsInput, Prisma.OrderUpdateWithoutReturnsInput>, Prisma.OrderUncheckedUpdateWithoutReturnsInput>
+}
+
+export type OrderUpdateOneWithoutReplacementForNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutReplacementForInput, Prisma.OrderUncheckedCreateWithoutReplacementForInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutReplacementForInput
+  upsert?: Prisma.OrderUpsertWithoutReplacementForInput
+  disconnect?: Prisma.OrderWhereInput | boolean
+  delete?: Prisma.OrderWhereInput | boolean
+  connect?: Prisma.OrderWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutReplacementForInput, Prisma.OrderUpdateWithoutReplacementForInput>, Prisma.OrderUncheckedUpdateWithoutReplacementForInput>
+}
+
+export type OrderCreateNestedManyWithoutPromotionInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutPromotionInput, Prisma.OrderUncheckedCreateWithoutPromotionInput> | Prisma.OrderCreateWithoutPromotionInput[] | Prisma.OrderUncheckedCreateWithoutPromotionInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutPromotionInput | Prisma.OrderCreateOrConnectWithoutPromotionInput[]
+  createMany?: Prisma.OrderCreateManyPromotionInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUncheckedCreateNestedManyWithoutPromotionInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutPromotionInput, Prisma.OrderUncheckedCreateWithoutPromotionInput> | Prisma.OrderCreateWithoutPromotionInput[] | Prisma.OrderUncheckedCreateWithoutPromotionInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutPromotionInput | Prisma.OrderCreateOrConnectWithoutPromotionInput[]
+  createMany?: Prisma.OrderCreateManyPromotionInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUpdateManyWithoutPromotionNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutPromotionInput, Prisma.OrderUncheckedCreateWithoutPromotionInput> | Prisma.OrderCreateWithoutPromotionInput[] | Prisma.OrderUncheckedCreateWithoutPromotionInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutPromotionInput | Prisma.OrderCreateOrConnectWithoutPromotionInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutPromotionInput | Prisma.OrderUpsertWithWhereUniqueWithoutPromotionInput[]
+  createMany?: Prisma.OrderCreateManyPromotionInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutPromotionInput | Prisma.OrderUpdateWithWhereUniqueWithoutPromotionInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutPromotionInput | Prisma.OrderUpdateManyWithWhereWithoutPromotionInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+}
+
+export type OrderUncheckedUpdateManyWithoutPromotionNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutPromotionInput, Prisma.OrderUncheckedCreateWithoutPromotionInput> | Prisma.OrderCreateWithoutPromotionInput[] | Prisma.OrderUncheckedCreateWithoutPromotionInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutPromotionInput | Prisma.OrderCreateOrConnectWithoutPromotionInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutPromotionInput | Prisma.OrderUpsertWithWhereUniqueWithoutPromotionInput[]
+  createMany?: Prisma.OrderCreateManyPromotionInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutPromotionInput | Prisma.OrderUpdateWithWhereUniqueWithoutPromotionInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutPromotionInput | Prisma.OrderUpdateManyWithWhereWithoutPromotionInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+}
+
+export type OrderCreateNestedOneWithoutPromotionRedemptionInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutPromotionRedemptionInput, Prisma.OrderUncheckedCreateWithoutPromotionRedemptionInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutPromotionRedemptionInput
+  connect?: Prisma.OrderWhereUniqueInput
+}
+
+export type OrderUpdateOneRequiredWithoutPromotionRedemptionNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutPromotionRedemptionInput, Prisma.OrderUncheckedCreateWithoutPromotionRedemptionInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutPromotionRedemptionInput
+  upsert?: Prisma.OrderUpsertWithoutPromotionRedemptionInput
+  connect?: Prisma.OrderWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutPromotionRedemptionInput, Prisma.OrderUpdateWithoutPromotionRedemptionInput>, Prisma.OrderUncheckedUpdateWithoutPromotionRedemptionInput>
+}
+
+export type OrderCreateNestedOneWithoutShipmentsInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutShipmentsInput, Prisma.OrderUncheckedCreateWithoutShipmentsInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutShipmentsInput
+  connect?: Prisma.OrderWhereUniqueInput
+}
+
+export type OrderUpdateOneRequiredWithoutShipmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutShipmentsInput, Prisma.OrderUncheckedCreateWithoutShipmentsInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutShipmentsInput
+  upsert?: Prisma.OrderUpsertWithoutShipmentsInput
+  connect?: Prisma.OrderWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutShipmentsInput, Prisma.OrderUpdateWithoutShipmentsInput>, Prisma.OrderUncheckedUpdateWithoutShipmentsInput>
+}
+
+export type OrderCreateNestedOneWithoutPickupInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutPickupInput, Prisma.OrderUncheckedCreateWithoutPickupInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutPickupInput
   connect?: Prisma.OrderWhereUniqueInput
 }
 
-export type OrderUpdateOneRequiredWithoutShipmentNestedInput = {
-  create?: Prisma.XOR<Prisma.OrderCreateWithoutShipmentInput, Prisma.OrderUncheckedCreateWithoutShipmentInput>
-  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutShipmentInput
-  upsert?: Prisma.OrderUpsertWithoutShipmentInput
+export type OrderUpdateOneRequiredWithoutPickupNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutPickupInput, Prisma.OrderUncheckedCreateWithoutPickupInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutPickupInput
+  upsert?: Prisma.OrderUpsertWithoutPickupInput
   connect?: Prisma.OrderWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutShipmentInput, Prisma.OrderUpdateWithoutShipmentInput>, Prisma.OrderUncheckedUpdateWithoutShipmentInput>
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutPickupInput, Prisma.OrderUpdateWithoutPickupInput>, Prisma.OrderUncheckedUpdateWithoutPickupInput>
+}
+
+export type OrderCreateNestedManyWithoutFxSnapshotInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFxSnapshotInput, Prisma.OrderUncheckedCreateWithoutFxSnapshotInput> | Prisma.OrderCreateWithoutFxSnapshotInput[] | Prisma.OrderUncheckedCreateWithoutFxSnapshotInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFxSnapshotInput | Prisma.OrderCreateOrConnectWithoutFxSnapshotInput[]
+  createMany?: Prisma.OrderCreateManyFxSnapshotInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUncheckedCreateNestedManyWithoutFxSnapshotInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFxSnapshotInput, Prisma.OrderUncheckedCreateWithoutFxSnapshotInput> | Prisma.OrderCreateWithoutFxSnapshotInput[] | Prisma.OrderUncheckedCreateWithoutFxSnapshotInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFxSnapshotInput | Prisma.OrderCreateOrConnectWithoutFxSnapshotInput[]
+  createMany?: Prisma.OrderCreateManyFxSnapshotInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUpdateManyWithoutFxSnapshotNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFxSnapshotInput, Prisma.OrderUncheckedCreateWithoutFxSnapshotInput> | Prisma.OrderCreateWithoutFxSnapshotInput[] | Prisma.OrderUncheckedCreateWithoutFxSnapshotInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFxSnapshotInput | Prisma.OrderCreateOrConnectWithoutFxSnapshotInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutFxSnapshotInput | Prisma.OrderUpsertWithWhereUniqueWithoutFxSnapshotInput[]
+  createMany?: Prisma.OrderCreateManyFxSnapshotInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutFxSnapshotInput | Prisma.OrderUpdateWithWhereUniqueWithoutFxSnapshotInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutFxSnapshotInput | Prisma.OrderUpdateManyWithWhereWithoutFxSnapshotInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+}
+
+export type OrderUncheckedUpdateManyWithoutFxSnapshotNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFxSnapshotInput, Prisma.OrderUncheckedCreateWithoutFxSnapshotInput> | Prisma.OrderCreateWithoutFxSnapshotInput[] | Prisma.OrderUncheckedCreateWithoutFxSnapshotInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFxSnapshotInput | Prisma.OrderCreateOrConnectWithoutFxSnapshotInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutFxSnapshotInput | Prisma.OrderUpsertWithWhereUniqueWithoutFxSnapshotInput[]
+  createMany?: Prisma.OrderCreateManyFxSnapshotInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutFxSnapshotInput | Prisma.OrderUpdateWithWhereUniqueWithoutFxSnapshotInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutFxSnapshotInput | Prisma.OrderUpdateManyWithWhereWithoutFxSnapshotInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
 }
 
 export type OrderCreateWithoutCustomerInput = {
@@ -967,12 +1328,24 @@ export type OrderCreateWithoutCustomerInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
   offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
   deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
   staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
   items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
 }
 
 export type OrderUncheckedCreateWithoutCustomerInput = {
@@ -996,10 +1369,22 @@ export type OrderUncheckedCreateWithoutCustomerInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
   offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
   items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
 }
 
 export type OrderCreateOrConnectWithoutCustomerInput = {
@@ -1053,6 +1438,12 @@ export type OrderScalarWhereInput = {
   refundReason?: Prisma.StringNullableFilter<"Order"> | string | null
   refundTransactionId?: Prisma.StringNullableFilter<"Order"> | string | null
   refundStatus?: Prisma.EnumRefundStatusNullableFilter<"Order"> | $Enums.RefundStatus | null
+  promotionId?: Prisma.StringNullableFilter<"Order"> | string | null
+  discountCode?: Prisma.StringNullableFilter<"Order"> | string | null
+  discountAmount?: Prisma.FloatFilter<"Order"> | number
+  discountDetails?: Prisma.JsonNullableFilter<"Order">
+  fxRateToNGN?: Prisma.FloatNullableFilter<"Order"> | number | null
+  fxSnapshotId?: Prisma.StringNullableFilter<"Order"> | string | null
 }
 
 export type OrderCreateWithoutStaffInput = {
@@ -1074,12 +1465,24 @@ export type OrderCreateWithoutStaffInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
   offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
   customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
   deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
   items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
 }
 
 export type OrderUncheckedCreateWithoutStaffInput = {
@@ -1103,10 +1506,22 @@ export type OrderUncheckedCreateWithoutStaffInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
   offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
   items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
 }
 
 export type OrderCreateOrConnectWithoutStaffInput = {
@@ -1154,12 +1569,24 @@ export type OrderCreateWithoutDeliveryOptionInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
   offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
   customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
   staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
   items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
 }
 
 export type OrderUncheckedCreateWithoutDeliveryOptionInput = {
@@ -1183,10 +1610,22 @@ export type OrderUncheckedCreateWithoutDeliveryOptionInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
   offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
   items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
 }
 
 export type OrderCreateOrConnectWithoutDeliveryOptionInput = {
@@ -1234,12 +1673,24 @@ export type OrderCreateWithoutItemsInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
   offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
   customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
   deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
   staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
 }
 
 export type OrderUncheckedCreateWithoutItemsInput = {
@@ -1264,9 +1715,21 @@ export type OrderUncheckedCreateWithoutItemsInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
   offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
 }
 
 export type OrderCreateOrConnectWithoutItemsInput = {
@@ -1304,12 +1767,24 @@ export type OrderUpdateWithoutItemsInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
   customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
   deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
   staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
 }
 
 export type OrderUncheckedUpdateWithoutItemsInput = {
@@ -1334,9 +1809,193 @@ export type OrderUncheckedUpdateWithoutItemsInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderCreateWithoutRefundsInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: $Enums.OrderChannel
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
+  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
+  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutRefundsInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutRefundsInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutRefundsInput, Prisma.OrderUncheckedCreateWithoutRefundsInput>
+}
+
+export type OrderUpsertWithoutRefundsInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutRefundsInput, Prisma.OrderUncheckedUpdateWithoutRefundsInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutRefundsInput, Prisma.OrderUncheckedCreateWithoutRefundsInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutRefundsInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutRefundsInput, Prisma.OrderUncheckedUpdateWithoutRefundsInput>
+}
+
+export type OrderUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
 }
 
 export type OrderCreateWithoutOfflineSaleInput = {
@@ -1358,12 +2017,24 @@ export type OrderCreateWithoutOfflineSaleInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
   customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
   deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
   staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
   items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
 }
 
 export type OrderUncheckedCreateWithoutOfflineSaleInput = {
@@ -1388,9 +2059,21 @@ export type OrderUncheckedCreateWithoutOfflineSaleInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
   items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
-  shipment?: Prisma.ShipmentUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
 }
 
 export type OrderCreateOrConnectWithoutOfflineSaleInput = {
@@ -1428,12 +2111,24 @@ export type OrderUpdateWithoutOfflineSaleInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
   deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
   staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
   items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
 }
 
 export type OrderUncheckedUpdateWithoutOfflineSaleInput = {
@@ -1458,12 +2153,24 @@ export type OrderUncheckedUpdateWithoutOfflineSaleInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderCreateWithoutReceiptEmailStatusInput = {
+export type OrderCreateWithoutAbandonedCartInput = {
   id?: string
   status?: $Enums.OrderStatus
   currency: $Enums.Currency
@@ -1482,15 +2189,1400 @@ export type OrderCreateWithoutReceiptEmailStatusInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
   offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
   customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
   deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
   staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
   items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
-  shipment?: Prisma.ShipmentCreateNestedOneWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutAbandonedCartInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutAbandonedCartInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutAbandonedCartInput, Prisma.OrderUncheckedCreateWithoutAbandonedCartInput>
+}
+
+export type OrderUpsertWithoutAbandonedCartInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutAbandonedCartInput, Prisma.OrderUncheckedUpdateWithoutAbandonedCartInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutAbandonedCartInput, Prisma.OrderUncheckedCreateWithoutAbandonedCartInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutAbandonedCartInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutAbandonedCartInput, Prisma.OrderUncheckedUpdateWithoutAbandonedCartInput>
+}
+
+export type OrderUpdateWithoutAbandonedCartInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutAbandonedCartInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderCreateWithoutReceiptEmailStatusInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: $Enums.OrderChannel
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
+  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
+  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutReceiptEmailStatusInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutReceiptEmailStatusInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutReceiptEmailStatusInput, Prisma.OrderUncheckedCreateWithoutReceiptEmailStatusInput>
+}
+
+export type OrderUpsertWithoutReceiptEmailStatusInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutReceiptEmailStatusInput, Prisma.OrderUncheckedUpdateWithoutReceiptEmailStatusInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutReceiptEmailStatusInput, Prisma.OrderUncheckedCreateWithoutReceiptEmailStatusInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutReceiptEmailStatusInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutReceiptEmailStatusInput, Prisma.OrderUncheckedUpdateWithoutReceiptEmailStatusInput>
+}
+
+export type OrderUpdateWithoutReceiptEmailStatusInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutReceiptEmailStatusInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderCreateWithoutReturnsInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: $Enums.OrderChannel
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
+  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
+  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutReturnsInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutReturnsInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutReturnsInput, Prisma.OrderUncheckedCreateWithoutReturnsInput>
+}
+
+export type OrderCreateWithoutReplacementForInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: $Enums.OrderChannel
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
+  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
+  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutReplacementForInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutReplacementForInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutReplacementForInput, Prisma.OrderUncheckedCreateWithoutReplacementForInput>
+}
+
+export type OrderUpsertWithoutReturnsInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutReturnsInput, Prisma.OrderUncheckedUpdateWithoutReturnsInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutReturnsInput, Prisma.OrderUncheckedCreateWithoutReturnsInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutReturnsInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutReturnsInput, Prisma.OrderUncheckedUpdateWithoutReturnsInput>
+}
+
+export type OrderUpdateWithoutReturnsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutReturnsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUpsertWithoutReplacementForInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutReplacementForInput, Prisma.OrderUncheckedUpdateWithoutReplacementForInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutReplacementForInput, Prisma.OrderUncheckedCreateWithoutReplacementForInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutReplacementForInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutReplacementForInput, Prisma.OrderUncheckedUpdateWithoutReplacementForInput>
+}
+
+export type OrderUpdateWithoutReplacementForInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutReplacementForInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderCreateWithoutPromotionInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: $Enums.OrderChannel
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
+  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
+  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutPromotionInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutPromotionInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutPromotionInput, Prisma.OrderUncheckedCreateWithoutPromotionInput>
+}
+
+export type OrderCreateManyPromotionInputEnvelope = {
+  data: Prisma.OrderCreateManyPromotionInput | Prisma.OrderCreateManyPromotionInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderUpsertWithWhereUniqueWithoutPromotionInput = {
+  where: Prisma.OrderWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutPromotionInput, Prisma.OrderUncheckedUpdateWithoutPromotionInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutPromotionInput, Prisma.OrderUncheckedCreateWithoutPromotionInput>
+}
+
+export type OrderUpdateWithWhereUniqueWithoutPromotionInput = {
+  where: Prisma.OrderWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutPromotionInput, Prisma.OrderUncheckedUpdateWithoutPromotionInput>
+}
+
+export type OrderUpdateManyWithWhereWithoutPromotionInput = {
+  where: Prisma.OrderScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateManyMutationInput, Prisma.OrderUncheckedUpdateManyWithoutPromotionInput>
+}
+
+export type OrderCreateWithoutPromotionRedemptionInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: $Enums.OrderChannel
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
+  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
+  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutPromotionRedemptionInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutPromotionRedemptionInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutPromotionRedemptionInput, Prisma.OrderUncheckedCreateWithoutPromotionRedemptionInput>
+}
+
+export type OrderUpsertWithoutPromotionRedemptionInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutPromotionRedemptionInput, Prisma.OrderUncheckedUpdateWithoutPromotionRedemptionInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutPromotionRedemptionInput, Prisma.OrderUncheckedCreateWithoutPromotionRedemptionInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutPromotionRedemptionInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutPromotionRedemptionInput, Prisma.OrderUncheckedUpdateWithoutPromotionRedemptionInput>
+}
+
+export type OrderUpdateWithoutPromotionRedemptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutPromotionRedemptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderCreateWithoutShipmentsInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: $Enums.OrderChannel
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
+  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
+  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutShipmentsInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutShipmentsInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutShipmentsInput, Prisma.OrderUncheckedCreateWithoutShipmentsInput>
+}
+
+export type OrderUpsertWithoutShipmentsInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutShipmentsInput, Prisma.OrderUncheckedUpdateWithoutShipmentsInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutShipmentsInput, Prisma.OrderUncheckedCreateWithoutShipmentsInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutShipmentsInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutShipmentsInput, Prisma.OrderUncheckedUpdateWithoutShipmentsInput>
+}
+
+export type OrderUpdateWithoutShipmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutShipmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+}
+
+export type OrderCreateWithoutPickupInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: $Enums.OrderChannel
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
+  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
+  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  fxSnapshot?: Prisma.FxRateSnapshotCreateNestedOneWithoutOrdersInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutPickupInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutPickupInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutPickupInput, Prisma.OrderUncheckedCreateWithoutPickupInput>
+}
+
+export type OrderUpsertWithoutPickupInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutPickupInput, Prisma.OrderUncheckedUpdateWithoutPickupInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutPickupInput, Prisma.OrderUncheckedCreateWithoutPickupInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutPickupInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutPickupInput, Prisma.OrderUncheckedUpdateWithoutPickupInput>
+}
+
+export type OrderUpdateWithoutPickupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutPickupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderCreateWithoutFxSnapshotInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: $Enums.OrderChannel
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
+  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
+  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  promotion?: Prisma.PromotionCreateNestedOneWithoutOrdersInput
+  promotionRedemption?: Prisma.PromotionRedemptionCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutFxSnapshotInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  currency: $Enums.Currency
+  totalAmount: number
+  totalNGN: number
+  paymentMethod: string
+  paymentReference?: string | null
+  paymentProviderId?: string | null
+  paymentVerified?: boolean
+  createdAt?: Date | string
+  customerId?: string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
+  channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
+  deliveryFee?: number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Date | string | null
+  refundReason?: string | null
+  refundTransactionId?: string | null
+  refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutOrderInput
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderInput
+  replacementFor?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedCreateNestedOneWithoutOrderInput
+  pickup?: Prisma.OrderPickupUncheckedCreateNestedOneWithoutOrderInput
+  shipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutFxSnapshotInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutFxSnapshotInput, Prisma.OrderUncheckedCreateWithoutFxSnapshotInput>
+}
+
+export type OrderCreateManyFxSnapshotInputEnvelope = {
+  data: Prisma.OrderCreateManyFxSnapshotInput | Prisma.OrderCreateManyFxSnapshotInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderUpsertWithWhereUniqueWithoutFxSnapshotInput = {
+  where: Prisma.OrderWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutFxSnapshotInput, Prisma.OrderUncheckedUpdateWithoutFxSnapshotInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutFxSnapshotInput, Prisma.OrderUncheckedCreateWithoutFxSnapshotInput>
+}
+
+export type OrderUpdateWithWhereUniqueWithoutFxSnapshotInput = {
+  where: Prisma.OrderWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutFxSnapshotInput, Prisma.OrderUncheckedUpdateWithoutFxSnapshotInput>
 }
 
-export type OrderUncheckedCreateWithoutReceiptEmailStatusInput = {
+export type OrderUpdateManyWithWhereWithoutFxSnapshotInput = {
+  where: Prisma.OrderScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateManyMutationInput, Prisma.OrderUncheckedUpdateManyWithoutFxSnapshotInput>
+}
+
+export type OrderCreateManyCustomerInput = {
   id?: string
   status?: $Enums.OrderStatus
   currency: $Enums.Currency
@@ -1501,7 +3593,6 @@ export type OrderUncheckedCreateWithoutReceiptEmailStatusInput = {
   paymentProviderId?: string | null
   paymentVerified?: boolean
   createdAt?: Date | string
-  customerId?: string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   staffId?: string | null
   channel?: $Enums.OrderChannel
@@ -1512,28 +3603,15 @@ export type OrderUncheckedCreateWithoutReceiptEmailStatusInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
-  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
-  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
-  shipment?: Prisma.ShipmentUncheckedCreateNestedOneWithoutOrderInput
-}
-
-export type OrderCreateOrConnectWithoutReceiptEmailStatusInput = {
-  where: Prisma.OrderWhereUniqueInput
-  create: Prisma.XOR<Prisma.OrderCreateWithoutReceiptEmailStatusInput, Prisma.OrderUncheckedCreateWithoutReceiptEmailStatusInput>
-}
-
-export type OrderUpsertWithoutReceiptEmailStatusInput = {
-  update: Prisma.XOR<Prisma.OrderUpdateWithoutReceiptEmailStatusInput, Prisma.OrderUncheckedUpdateWithoutReceiptEmailStatusInput>
-  create: Prisma.XOR<Prisma.OrderCreateWithoutReceiptEmailStatusInput, Prisma.OrderUncheckedCreateWithoutReceiptEmailStatusInput>
-  where?: Prisma.OrderWhereInput
-}
-
-export type OrderUpdateToOneWithWhereWithoutReceiptEmailStatusInput = {
-  where?: Prisma.OrderWhereInput
-  data: Prisma.XOR<Prisma.OrderUpdateWithoutReceiptEmailStatusInput, Prisma.OrderUncheckedUpdateWithoutReceiptEmailStatusInput>
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
 }
 
-export type OrderUpdateWithoutReceiptEmailStatusInput = {
+export type OrderUpdateWithoutCustomerInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1552,15 +3630,27 @@ export type OrderUpdateWithoutReceiptEmailStatusInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
-  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
   deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
   staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
   items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUpdateOneWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderUncheckedUpdateWithoutReceiptEmailStatusInput = {
+export type OrderUncheckedUpdateWithoutCustomerInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1571,7 +3661,6 @@ export type OrderUncheckedUpdateWithoutReceiptEmailStatusInput = {
   paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
@@ -1582,39 +3671,54 @@ export type OrderUncheckedUpdateWithoutReceiptEmailStatusInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
   items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUncheckedUpdateOneWithoutOrderNestedInput
+  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderCreateWithoutShipmentInput = {
-  id?: string
-  status?: $Enums.OrderStatus
-  currency: $Enums.Currency
-  totalAmount: number
-  totalNGN: number
-  paymentMethod: string
-  paymentReference?: string | null
-  paymentProviderId?: string | null
-  paymentVerified?: boolean
-  createdAt?: Date | string
+export type OrderUncheckedUpdateManyWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  channel?: $Enums.OrderChannel
-  deliveryFee?: number | null
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  refundedAt?: Date | string | null
-  refundReason?: string | null
-  refundTransactionId?: string | null
-  refundStatus?: $Enums.RefundStatus | null
-  offlineSale?: Prisma.OfflineSaleCreateNestedOneWithoutOrderInput
-  customer?: Prisma.CustomerCreateNestedOneWithoutOrdersInput
-  deliveryOption?: Prisma.DeliveryOptionCreateNestedOneWithoutOrdersInput
-  staff?: Prisma.StaffCreateNestedOneWithoutOrdersInput
-  items?: Prisma.OrderItemCreateNestedManyWithoutOrderInput
-  receiptEmailStatus?: Prisma.ReceiptEmailStatusCreateNestedOneWithoutOrderInput
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
-export type OrderUncheckedCreateWithoutShipmentInput = {
+export type OrderCreateManyStaffInput = {
   id?: string
   status?: $Enums.OrderStatus
   currency: $Enums.Currency
@@ -1627,7 +3731,6 @@ export type OrderUncheckedCreateWithoutShipmentInput = {
   createdAt?: Date | string
   customerId?: string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  staffId?: string | null
   channel?: $Enums.OrderChannel
   deliveryOptionId?: string | null
   deliveryFee?: number | null
@@ -1636,28 +3739,15 @@ export type OrderUncheckedCreateWithoutShipmentInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
-  offlineSale?: Prisma.OfflineSaleUncheckedCreateNestedOneWithoutOrderInput
-  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutOrderInput
-  receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedCreateNestedOneWithoutOrderInput
-}
-
-export type OrderCreateOrConnectWithoutShipmentInput = {
-  where: Prisma.OrderWhereUniqueInput
-  create: Prisma.XOR<Prisma.OrderCreateWithoutShipmentInput, Prisma.OrderUncheckedCreateWithoutShipmentInput>
-}
-
-export type OrderUpsertWithoutShipmentInput = {
-  update: Prisma.XOR<Prisma.OrderUpdateWithoutShipmentInput, Prisma.OrderUncheckedUpdateWithoutShipmentInput>
-  create: Prisma.XOR<Prisma.OrderCreateWithoutShipmentInput, Prisma.OrderUncheckedCreateWithoutShipmentInput>
-  where?: Prisma.OrderWhereInput
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
 }
 
-export type OrderUpdateToOneWithWhereWithoutShipmentInput = {
-  where?: Prisma.OrderWhereInput
-  data: Prisma.XOR<Prisma.OrderUpdateWithoutShipmentInput, Prisma.OrderUncheckedUpdateWithoutShipmentInput>
-}
-
-export type OrderUpdateWithoutShipmentInput = {
+export type OrderUpdateWithoutStaffInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1676,15 +3766,27 @@ export type OrderUpdateWithoutShipmentInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
   customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
   deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
-  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
   items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderUncheckedUpdateWithoutShipmentInput = {
+export type OrderUncheckedUpdateWithoutStaffInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1697,7 +3799,6 @@ export type OrderUncheckedUpdateWithoutShipmentInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
   deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1706,12 +3807,54 @@ export type OrderUncheckedUpdateWithoutShipmentInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
   items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderCreateManyCustomerInput = {
+export type OrderUncheckedUpdateManyWithoutStaffInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalNGN?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type OrderCreateManyDeliveryOptionInput = {
   id?: string
   status?: $Enums.OrderStatus
   currency: $Enums.Currency
@@ -1722,19 +3865,25 @@ export type OrderCreateManyCustomerInput = {
   paymentProviderId?: string | null
   paymentVerified?: boolean
   createdAt?: Date | string
+  customerId?: string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   staffId?: string | null
   channel?: $Enums.OrderChannel
-  deliveryOptionId?: string | null
   deliveryFee?: number | null
   deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   refundedAt?: Date | string | null
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
 }
 
-export type OrderUpdateWithoutCustomerInput = {
+export type OrderUpdateWithoutDeliveryOptionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1753,15 +3902,27 @@ export type OrderUpdateWithoutCustomerInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
-  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
   staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
   items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderUncheckedUpdateWithoutCustomerInput = {
+export type OrderUncheckedUpdateWithoutDeliveryOptionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1772,23 +3933,35 @@ export type OrderUncheckedUpdateWithoutCustomerInput = {
   paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
-  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
   items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderUncheckedUpdateManyWithoutCustomerInput = {
+export type OrderUncheckedUpdateManyWithoutDeliveryOptionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1799,19 +3972,25 @@ export type OrderUncheckedUpdateManyWithoutCustomerInput = {
   paymentProviderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
-  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
-export type OrderCreateManyStaffInput = {
+export type OrderCreateManyPromotionInput = {
   id?: string
   status?: $Enums.OrderStatus
   currency: $Enums.Currency
@@ -1824,6 +4003,7 @@ export type OrderCreateManyStaffInput = {
   createdAt?: Date | string
   customerId?: string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: string | null
   channel?: $Enums.OrderChannel
   deliveryOptionId?: string | null
   deliveryFee?: number | null
@@ -1832,9 +4012,14 @@ export type OrderCreateManyStaffInput = {
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
+  fxSnapshotId?: string | null
 }
 
-export type OrderUpdateWithoutStaffInput = {
+export type OrderUpdateWithoutPromotionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1853,15 +4038,27 @@ export type OrderUpdateWithoutStaffInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
   customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
   deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
   items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  fxSnapshot?: Prisma.FxRateSnapshotUpdateOneWithoutOrdersNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderUncheckedUpdateWithoutStaffInput = {
+export type OrderUncheckedUpdateWithoutPromotionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1874,6 +4071,7 @@ export type OrderUncheckedUpdateWithoutStaffInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
   deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1882,13 +4080,24 @@ export type OrderUncheckedUpdateWithoutStaffInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
   items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderUncheckedUpdateManyWithoutStaffInput = {
+export type OrderUncheckedUpdateManyWithoutPromotionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1901,6 +4110,7 @@ export type OrderUncheckedUpdateManyWithoutStaffInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
   deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1909,9 +4119,14 @@ export type OrderUncheckedUpdateManyWithoutStaffInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  fxSnapshotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
-export type OrderCreateManyDeliveryOptionInput = {
+export type OrderCreateManyFxSnapshotInput = {
   id?: string
   status?: $Enums.OrderStatus
   currency: $Enums.Currency
@@ -1926,15 +4141,21 @@ export type OrderCreateManyDeliveryOptionInput = {
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   staffId?: string | null
   channel?: $Enums.OrderChannel
+  deliveryOptionId?: string | null
   deliveryFee?: number | null
   deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   refundedAt?: Date | string | null
   refundReason?: string | null
   refundTransactionId?: string | null
   refundStatus?: $Enums.RefundStatus | null
+  promotionId?: string | null
+  discountCode?: string | null
+  discountAmount?: number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: number | null
 }
 
-export type OrderUpdateWithoutDeliveryOptionInput = {
+export type OrderUpdateWithoutFxSnapshotInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1953,15 +4174,27 @@ export type OrderUpdateWithoutDeliveryOptionInput = {
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   offlineSale?: Prisma.OfflineSaleUpdateOneWithoutOrderNestedInput
   customer?: Prisma.CustomerUpdateOneWithoutOrdersNestedInput
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneWithoutOrdersNestedInput
   staff?: Prisma.StaffUpdateOneWithoutOrdersNestedInput
   items?: Prisma.OrderItemUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUpdateOneWithoutOrderNestedInput
+  promotion?: Prisma.PromotionUpdateOneWithoutOrdersNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderUncheckedUpdateWithoutDeliveryOptionInput = {
+export type OrderUncheckedUpdateWithoutFxSnapshotInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -1976,19 +4209,31 @@ export type OrderUncheckedUpdateWithoutDeliveryOptionInput = {
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   offlineSale?: Prisma.OfflineSaleUncheckedUpdateOneWithoutOrderNestedInput
   items?: Prisma.OrderItemUncheckedUpdateManyWithoutOrderNestedInput
   receiptEmailStatus?: Prisma.ReceiptEmailStatusUncheckedUpdateOneWithoutOrderNestedInput
-  shipment?: Prisma.ShipmentUncheckedUpdateOneWithoutOrderNestedInput
+  promotionRedemption?: Prisma.PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutOrderNestedInput
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput
+  replacementFor?: Prisma.ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput
+  abandonedCart?: Prisma.AbandonedCartUncheckedUpdateOneWithoutOrderNestedInput
+  pickup?: Prisma.OrderPickupUncheckedUpdateOneWithoutOrderNestedInput
+  shipments?: Prisma.ShipmentUncheckedUpdateManyWithoutOrderNestedInput
 }
 
-export type OrderUncheckedUpdateManyWithoutDeliveryOptionInput = {
+export type OrderUncheckedUpdateManyWithoutFxSnapshotInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
@@ -2003,12 +4248,18 @@ export type OrderUncheckedUpdateManyWithoutDeliveryOptionInput = {
   guestInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   channel?: Prisma.EnumOrderChannelFieldUpdateOperationsInput | $Enums.OrderChannel
+  deliveryOptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deliveryFee?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   deliveryDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   refundedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   refundReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   refundStatus?: Prisma.NullableEnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus | null
+  promotionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  discountDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  fxRateToNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
 }
 
 
@@ -2018,10 +4269,16 @@ export type OrderUncheckedUpdateManyWithoutDeliveryOptionInput = {
 
 export type OrderCountOutputType = {
   items: number
+  refunds: number
+  returns: number
+  shipments: number
 }
 
 export type OrderCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   items?: boolean | OrderCountOutputTypeCountItemsArgs
+  refunds?: boolean | OrderCountOutputTypeCountRefundsArgs
+  returns?: boolean | OrderCountOutputTypeCountReturnsArgs
+  shipments?: boolean | OrderCountOutputTypeCountShipmentsArgs
 }
 
 /**
@@ -2041,6 +4298,27 @@ export type OrderCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.Ext
   where?: Prisma.OrderItemWhereInput
 }
 
+/**
+ * OrderCountOutputType without action
+ */
+export type OrderCountOutputTypeCountRefundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderRefundWhereInput
+}
+
+/**
+ * OrderCountOutputType without action
+ */
+export type OrderCountOutputTypeCountReturnsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+/**
+ * OrderCountOutputType without action
+ */
+export type OrderCountOutputTypeCountShipmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShipmentWhereInput
+}
+
 
 export type OrderSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -2064,13 +4342,27 @@ export type OrderSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   refundReason?: boolean
   refundTransactionId?: boolean
   refundStatus?: boolean
+  promotionId?: boolean
+  discountCode?: boolean
+  discountAmount?: boolean
+  discountDetails?: boolean
+  fxRateToNGN?: boolean
+  fxSnapshotId?: boolean
   offlineSale?: boolean | Prisma.Order$offlineSaleArgs<ExtArgs>
   customer?: boolean | Prisma.Order$customerArgs<ExtArgs>
   deliveryOption?: boolean | Prisma.Order$deliveryOptionArgs<ExtArgs>
   staff?: boolean | Prisma.Order$staffArgs<ExtArgs>
   items?: boolean | Prisma.Order$itemsArgs<ExtArgs>
   receiptEmailStatus?: boolean | Prisma.Order$receiptEmailStatusArgs<ExtArgs>
-  shipment?: boolean | Prisma.Order$shipmentArgs<ExtArgs>
+  promotion?: boolean | Prisma.Order$promotionArgs<ExtArgs>
+  promotionRedemption?: boolean | Prisma.Order$promotionRedemptionArgs<ExtArgs>
+  fxSnapshot?: boolean | Prisma.Order$fxSnapshotArgs<ExtArgs>
+  refunds?: boolean | Prisma.Order$refundsArgs<ExtArgs>
+  returns?: boolean | Prisma.Order$returnsArgs<ExtArgs>
+  replacementFor?: boolean | Prisma.Order$replacementForArgs<ExtArgs>
+  abandonedCart?: boolean | Prisma.Order$abandonedCartArgs<ExtArgs>
+  pickup?: boolean | Prisma.Order$pickupArgs<ExtArgs>
+  shipments?: boolean | Prisma.Order$shipmentsArgs<ExtArgs>
   _count?: boolean | Prisma.OrderCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["order"]>
 
@@ -2096,9 +4388,17 @@ export type OrderSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensi
   refundReason?: boolean
   refundTransactionId?: boolean
   refundStatus?: boolean
+  promotionId?: boolean
+  discountCode?: boolean
+  discountAmount?: boolean
+  discountDetails?: boolean
+  fxRateToNGN?: boolean
+  fxSnapshotId?: boolean
   customer?: boolean | Prisma.Order$customerArgs<ExtArgs>
   deliveryOption?: boolean | Prisma.Order$deliveryOptionArgs<ExtArgs>
   staff?: boolean | Prisma.Order$staffArgs<ExtArgs>
+  promotion?: boolean | Prisma.Order$promotionArgs<ExtArgs>
+  fxSnapshot?: boolean | Prisma.Order$fxSnapshotArgs<ExtArgs>
 }, ExtArgs["result"]["order"]>
 
 export type OrderSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -2123,9 +4423,17 @@ export type OrderSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensi
   refundReason?: boolean
   refundTransactionId?: boolean
   refundStatus?: boolean
+  promotionId?: boolean
+  discountCode?: boolean
+  discountAmount?: boolean
+  discountDetails?: boolean
+  fxRateToNGN?: boolean
+  fxSnapshotId?: boolean
   customer?: boolean | Prisma.Order$customerArgs<ExtArgs>
   deliveryOption?: boolean | Prisma.Order$deliveryOptionArgs<ExtArgs>
   staff?: boolean | Prisma.Order$staffArgs<ExtArgs>
+  promotion?: boolean | Prisma.Order$promotionArgs<ExtArgs>
+  fxSnapshot?: boolean | Prisma.Order$fxSnapshotArgs<ExtArgs>
 }, ExtArgs["result"]["order"]>
 
 export type OrderSelectScalar = {
@@ -2150,9 +4458,15 @@ export type OrderSelectScalar = {
   refundReason?: boolean
   refundTransactionId?: boolean
   refundStatus?: boolean
+  promotionId?: boolean
+  discountCode?: boolean
+  discountAmount?: boolean
+  discountDetails?: boolean
+  fxRateToNGN?: boolean
+  fxSnapshotId?: boolean
 }
 
-export type OrderOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "status" | "currency" | "totalAmount" | "totalNGN" | "paymentMethod" | "paymentReference" | "paymentProviderId" | "paymentVerified" | "createdAt" | "customerId" | "guestInfo" | "staffId" | "channel" | "deliveryOptionId" | "deliveryFee" | "deliveryDetails" | "refundedAt" | "refundReason" | "refundTransactionId" | "refundStatus", ExtArgs["result"]["order"]>
+export type OrderOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "status" | "currency" | "totalAmount" | "totalNGN" | "paymentMethod" | "paymentReference" | "paymentProviderId" | "paymentVerified" | "createdAt" | "customerId" | "guestInfo" | "staffId" | "channel" | "deliveryOptionId" | "deliveryFee" | "deliveryDetails" | "refundedAt" | "refundReason" | "refundTransactionId" | "refundStatus" | "promotionId" | "discountCode" | "discountAmount" | "discountDetails" | "fxRateToNGN" | "fxSnapshotId", ExtArgs["result"]["order"]>
 export type OrderInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   offlineSale?: boolean | Prisma.Order$offlineSaleArgs<ExtArgs>
   customer?: boolean | Prisma.Order$customerArgs<ExtArgs>
@@ -2160,18 +4474,30 @@ export type OrderInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   staff?: boolean | Prisma.Order$staffArgs<ExtArgs>
   items?: boolean | Prisma.Order$itemsArgs<ExtArgs>
   receiptEmailStatus?: boolean | Prisma.Order$receiptEmailStatusArgs<ExtArgs>
-  shipment?: boolean | Prisma.Order$shipmentArgs<ExtArgs>
+  promotion?: boolean | Prisma.Order$promotionArgs<ExtArgs>
+  promotionRedemption?: boolean | Prisma.Order$promotionRedemptionArgs<ExtArgs>
+  fxSnapshot?: boolean | Prisma.Order$fxSnapshotArgs<ExtArgs>
+  refunds?: boolean | Prisma.Order$refundsArgs<ExtArgs>
+  returns?: boolean | Prisma.Order$returnsArgs<ExtArgs>
+  replacementFor?: boolean | Prisma.Order$replacementForArgs<ExtArgs>
+  abandonedCart?: boolean | Prisma.Order$abandonedCartArgs<ExtArgs>
+  pickup?: boolean | Prisma.Order$pickupArgs<ExtArgs>
+  shipments?: boolean | Prisma.Order$shipmentsArgs<ExtArgs>
   _count?: boolean | Prisma.OrderCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type OrderIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   customer?: boolean | Prisma.Order$customerArgs<ExtArgs>
   deliveryOption?: boolean | Prisma.Order$deliveryOptionArgs<ExtArgs>
   staff?: boolean | Prisma.Order$staffArgs<ExtArgs>
+  promotion?: boolean | Prisma.Order$promotionArgs<ExtArgs>
+  fxSnapshot?: boolean | Prisma.Order$fxSnapshotArgs<ExtArgs>
 }
 export type OrderIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   customer?: boolean | Prisma.Order$customerArgs<ExtArgs>
   deliveryOption?: boolean | Prisma.Order$deliveryOptionArgs<ExtArgs>
   staff?: boolean | Prisma.Order$staffArgs<ExtArgs>
+  promotion?: boolean | Prisma.Order$promotionArgs<ExtArgs>
+  fxSnapshot?: boolean | Prisma.Order$fxSnapshotArgs<ExtArgs>
 }
 
 export type $OrderPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -2183,7 +4509,15 @@ export type $OrderPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
     staff: Prisma.$StaffPayload<ExtArgs> | null
     items: Prisma.$OrderItemPayload<ExtArgs>[]
     receiptEmailStatus: Prisma.$ReceiptEmailStatusPayload<ExtArgs> | null
-    shipment: Prisma.$ShipmentPayload<ExtArgs> | null
+    promotion: Prisma.$PromotionPayload<ExtArgs> | null
+    promotionRedemption: Prisma.$PromotionRedemptionPayload<ExtArgs> | null
+    fxSnapshot: Prisma.$FxRateSnapshotPayload<ExtArgs> | null
+    refunds: Prisma.$OrderRefundPayload<ExtArgs>[]
+    returns: Prisma.$ReturnRequestPayload<ExtArgs>[]
+    replacementFor: Prisma.$ReturnRequestPayload<ExtArgs> | null
+    abandonedCart: Prisma.$AbandonedCartPayload<ExtArgs> | null
+    pickup: Prisma.$OrderPickupPayload<ExtArgs> | null
+    shipments: Prisma.$ShipmentPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -2207,6 +4541,12 @@ export type $OrderPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
     refundReason: string | null
     refundTransactionId: string | null
     refundStatus: $Enums.RefundStatus | null
+    promotionId: string | null
+    discountCode: string | null
+    discountAmount: number
+    discountDetails: runtime.JsonValue | null
+    fxRateToNGN: number | null
+    fxSnapshotId: string | null
   }, ExtArgs["result"]["order"]>
   composites: {}
 }
@@ -2607,7 +4947,15 @@ export interface Prisma__OrderClient<T, Null = never, ExtArgs extends runtime.Ty
   staff<T extends Prisma.Order$staffArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$staffArgs<ExtArgs>>): Prisma.Prisma__StaffClient<runtime.Types.Result.GetResult<Prisma.$StaffPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   items<T extends Prisma.Order$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   receiptEmailStatus<T extends Prisma.Order$receiptEmailStatusArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$receiptEmailStatusArgs<ExtArgs>>): Prisma.Prisma__ReceiptEmailStatusClient<runtime.Types.Result.GetResult<Prisma.$ReceiptEmailStatusPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-  shipment<T extends Prisma.Order$shipmentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$shipmentArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  promotion<T extends Prisma.Order$promotionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$promotionArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  promotionRedemption<T extends Prisma.Order$promotionRedemptionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$promotionRedemptionArgs<ExtArgs>>): Prisma.Prisma__PromotionRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  fxSnapshot<T extends Prisma.Order$fxSnapshotArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$fxSnapshotArgs<ExtArgs>>): Prisma.Prisma__FxRateSnapshotClient<runtime.Types.Result.GetResult<Prisma.$FxRateSnapshotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  refunds<T extends Prisma.Order$refundsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$refundsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  returns<T extends Prisma.Order$returnsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$returnsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  replacementFor<T extends Prisma.Order$replacementForArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$replacementForArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  abandonedCart<T extends Prisma.Order$abandonedCartArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$abandonedCartArgs<ExtArgs>>): Prisma.Prisma__AbandonedCartClient<runtime.Types.Result.GetResult<Prisma.$AbandonedCartPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  pickup<T extends Prisma.Order$pickupArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$pickupArgs<ExtArgs>>): Prisma.Prisma__OrderPickupClient<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  shipments<T extends Prisma.Order$shipmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$shipmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2658,6 +5006,12 @@ export interface OrderFieldRefs {
   readonly refundReason: Prisma.FieldRef<"Order", 'String'>
   readonly refundTransactionId: Prisma.FieldRef<"Order", 'String'>
   readonly refundStatus: Prisma.FieldRef<"Order", 'RefundStatus'>
+  readonly promotionId: Prisma.FieldRef<"Order", 'String'>
+  readonly discountCode: Prisma.FieldRef<"Order", 'String'>
+  readonly discountAmount: Prisma.FieldRef<"Order", 'Float'>
+  readonly discountDetails: Prisma.FieldRef<"Order", 'Json'>
+  readonly fxRateToNGN: Prisma.FieldRef<"Order", 'Float'>
+  readonly fxSnapshotId: Prisma.FieldRef<"Order", 'String'>
 }
     
 
@@ -3173,9 +5527,171 @@ export type Order$receiptEmailStatusArgs<ExtArgs extends runtime.Types.Extension
 }
 
 /**
- * Order.shipment
+ * Order.promotion
+ */
+export type Order$promotionArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  where?: Prisma.PromotionWhereInput
+}
+
+/**
+ * Order.promotionRedemption
+ */
+export type Order$promotionRedemptionArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  where?: Prisma.PromotionRedemptionWhereInput
+}
+
+/**
+ * Order.fxSnapshot
+ */
+export type Order$fxSnapshotArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FxRateSnapshot
+   */
+  select?: Prisma.FxRateSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FxRateSnapshot
+   */
+  omit?: Prisma.FxRateSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FxRateSnapshotInclude<ExtArgs> | null
+  where?: Prisma.FxRateSnapshotWhereInput
+}
+
+/**
+ * Order.refunds
+ */
+export type Order$refundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  where?: Prisma.OrderRefundWhereInput
+  orderBy?: Prisma.OrderRefundOrderByWithRelationInput | Prisma.OrderRefundOrderByWithRelationInput[]
+  cursor?: Prisma.OrderRefundWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderRefundScalarFieldEnum | Prisma.OrderRefundScalarFieldEnum[]
+}
+
+/**
+ * Order.returns
+ */
+export type Order$returnsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestWhereInput
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * Order.replacementFor
+ */
+export type Order$replacementForArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+/**
+ * Order.abandonedCart
+ */
+export type Order$abandonedCartArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AbandonedCart
+   */
+  select?: Prisma.AbandonedCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AbandonedCart
+   */
+  omit?: Prisma.AbandonedCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AbandonedCartInclude<ExtArgs> | null
+  where?: Prisma.AbandonedCartWhereInput
+}
+
+/**
+ * Order.pickup
+ */
+export type Order$pickupArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  where?: Prisma.OrderPickupWhereInput
+}
+
+/**
+ * Order.shipments
  */
-export type Order$shipmentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+export type Order$shipmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   /**
    * Select specific fields to fetch from the Shipment
    */
@@ -3189,6 +5705,11 @@ export type Order$shipmentArgs<ExtArgs extends runtime.Types.Extensions.Internal
    */
   include?: Prisma.ShipmentInclude<ExtArgs> | null
   where?: Prisma.ShipmentWhereInput
+  orderBy?: Prisma.ShipmentOrderByWithRelationInput | Prisma.ShipmentOrderByWithRelationInput[]
+  cursor?: Prisma.ShipmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShipmentScalarFieldEnum | Prisma.ShipmentScalarFieldEnum[]
 }
 
 /**
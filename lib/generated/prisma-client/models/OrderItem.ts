@@ -29,12 +29,16 @@ export type AggregateOrderItem = {
 export type OrderItemAvgAggregateOutputType = {
   quantity: number | null
   lineTotal: number | null
+  unitPrice: number | null
+  compareAtPrice: number | null
   sizeModFee: number | null
 }
 
 export type OrderItemSumAggregateOutputType = {
   quantity: number | null
   lineTotal: number | null
+  unitPrice: number | null
+  compareAtPrice: number | null
   sizeModFee: number | null
 }
 
@@ -43,11 +47,14 @@ export type OrderItemMinAggregateOutputType = {
   orderId: string | null
   variantId: string | null
   name: string | null
+  sku: string | null
   image: string | null
   category: string | null
   quantity: number | null
   currency: $Enums.Currency | null
   lineTotal: number | null
+  unitPrice: number | null
+  compareAtPrice: number | null
   color: string | null
   size: string | null
   hasSizeMod: boolean | null
@@ -59,11 +66,14 @@ export type OrderItemMaxAggregateOutputType = {
   orderId: string | null
   variantId: string | null
   name: string | null
+  sku: string | null
   image: string | null
   category: string | null
   quantity: number | null
   currency: $Enums.Currency | null
   lineTotal: number | null
+  unitPrice: number | null
+  compareAtPrice: number | null
   color: string | null
   size: string | null
   hasSizeMod: boolean | null
@@ -75,11 +85,14 @@ export type OrderItemCountAggregateOutputType = {
   orderId: number
   variantId: number
   name: number
+  sku: number
   image: number
   category: number
   quantity: number
   currency: number
   lineTotal: number
+  unitPrice: number
+  compareAtPrice: number
   color: number
   size: number
   hasSizeMod: number
@@ -92,12 +105,16 @@ export type OrderItemCountAggregateOutputType = {
 export type OrderItemAvgAggregateInputType = {
   quantity?: true
   lineTotal?: true
+  unitPrice?: true
+  compareAtPrice?: true
   sizeModFee?: true
 }
 
 export type OrderItemSumAggregateInputType = {
   quantity?: true
   lineTotal?: true
+  unitPrice?: true
+  compareAtPrice?: true
   sizeModFee?: true
 }
 
@@ -106,11 +123,14 @@ export type OrderItemMinAggregateInputType = {
   orderId?: true
   variantId?: true
   name?: true
+  sku?: true
   image?: true
   category?: true
   quantity?: true
   currency?: true
   lineTotal?: true
+  unitPrice?: true
+  compareAtPrice?: true
   color?: true
   size?: true
   hasSizeMod?: true
@@ -122,11 +142,14 @@ export type OrderItemMaxAggregateInputType = {
   orderId?: true
   variantId?: true
   name?: true
+  sku?: true
   image?: true
   category?: true
   quantity?: true
   currency?: true
   lineTotal?: true
+  unitPrice?: true
+  compareAtPrice?: true
   color?: true
   size?: true
   hasSizeMod?: true
@@ -138,11 +161,14 @@ export type OrderItemCountAggregateInputType = {
   orderId?: true
   variantId?: true
   name?: true
+  sku?: true
   image?: true
   category?: true
   quantity?: true
   currency?: true
   lineTotal?: true
+  unitPrice?: true
+  compareAtPrice?: true
   color?: true
   size?: true
   hasSizeMod?: true
@@ -242,11 +268,14 @@ export type OrderItemGroupByOutputType = {
   orderId: string
   variantId: string
   name: string
+  sku: string | null
   image: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice: number | null
+  compareAtPrice: number | null
   color: string
   size: string
   hasSizeMod: boolean
@@ -282,11 +311,14 @@ export type OrderItemWhereInput = {
   orderId?: Prisma.StringFilter<"OrderItem"> | string
   variantId?: Prisma.StringFilter<"OrderItem"> | string
   name?: Prisma.StringFilter<"OrderItem"> | string
+  sku?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   image?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   category?: Prisma.StringFilter<"OrderItem"> | string
   quantity?: Prisma.IntFilter<"OrderItem"> | number
   currency?: Prisma.EnumCurrencyFilter<"OrderItem"> | $Enums.Currency
   lineTotal?: Prisma.FloatFilter<"OrderItem"> | number
+  unitPrice?: Prisma.FloatNullableFilter<"OrderItem"> | number | null
+  compareAtPrice?: Prisma.FloatNullableFilter<"OrderItem"> | number | null
   color?: Prisma.StringFilter<"OrderItem"> | string
   size?: Prisma.StringFilter<"OrderItem"> | string
   hasSizeMod?: Prisma.BoolFilter<"OrderItem"> | boolean
@@ -294,6 +326,9 @@ export type OrderItemWhereInput = {
   customSize?: Prisma.JsonNullableFilter<"OrderItem">
   order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
   variant?: Prisma.XOR<Prisma.VariantScalarRelationFilter, Prisma.VariantWhereInput>
+  refundItems?: Prisma.OrderRefundItemListRelationFilter
+  returnItems?: Prisma.ReturnRequestItemListRelationFilter
+  shipmentItems?: Prisma.ShipmentItemListRelationFilter
 }
 
 export type OrderItemOrderByWithRelationInput = {
@@ -301,11 +336,14 @@ export type OrderItemOrderByWithRelationInput = {
   orderId?: Prisma.SortOrder
   variantId?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  sku?: Prisma.SortOrderInput | Prisma.SortOrder
   image?: Prisma.SortOrderInput | Prisma.SortOrder
   category?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   lineTotal?: Prisma.SortOrder
+  unitPrice?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtPrice?: Prisma.SortOrderInput | Prisma.SortOrder
   color?: Prisma.SortOrder
   size?: Prisma.SortOrder
   hasSizeMod?: Prisma.SortOrder
@@ -313,6 +351,9 @@ export type OrderItemOrderByWithRelationInput = {
   customSize?: Prisma.SortOrderInput | Prisma.SortOrder
   order?: Prisma.OrderOrderByWithRelationInput
   variant?: Prisma.VariantOrderByWithRelationInput
+  refundItems?: Prisma.OrderRefundItemOrderByRelationAggregateInput
+  returnItems?: Prisma.ReturnRequestItemOrderByRelationAggregateInput
+  shipmentItems?: Prisma.ShipmentItemOrderByRelationAggregateInput
 }
 
 export type OrderItemWhereUniqueInput = Prisma.AtLeast<{
@@ -323,11 +364,14 @@ export type OrderItemWhereUniqueInput = Prisma.AtLeast<{
   orderId?: Prisma.StringFilter<"OrderItem"> | string
   variantId?: Prisma.StringFilter<"OrderItem"> | string
   name?: Prisma.StringFilter<"OrderItem"> | string
+  sku?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   image?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   category?: Prisma.StringFilter<"OrderItem"> | string
   quantity?: Prisma.IntFilter<"OrderItem"> | number
   currency?: Prisma.EnumCurrencyFilter<"OrderItem"> | $Enums.Currency
   lineTotal?: Prisma.FloatFilter<"OrderItem"> | number
+  unitPrice?: Prisma.FloatNullableFilter<"OrderItem"> | number | null
+  compareAtPrice?: Prisma.FloatNullableFilter<"OrderItem"> | number | null
   color?: Prisma.StringFilter<"OrderItem"> | string
   size?: Prisma.StringFilter<"OrderItem"> | string
   hasSizeMod?: Prisma.BoolFilter<"OrderItem"> | boolean
@@ -335,6 +379,9 @@ export type OrderItemWhereUniqueInput = Prisma.AtLeast<{
   customSize?: Prisma.JsonNullableFilter<"OrderItem">
   order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
   variant?: Prisma.XOR<Prisma.VariantScalarRelationFilter, Prisma.VariantWhereInput>
+  refundItems?: Prisma.OrderRefundItemListRelationFilter
+  returnItems?: Prisma.ReturnRequestItemListRelationFilter
+  shipmentItems?: Prisma.ShipmentItemListRelationFilter
 }, "id">
 
 export type OrderItemOrderByWithAggregationInput = {
@@ -342,11 +389,14 @@ export type OrderItemOrderByWithAggregationInput = {
   orderId?: Prisma.SortOrder
   variantId?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  sku?: Prisma.SortOrderInput | Prisma.SortOrder
   image?: Prisma.SortOrderInput | Prisma.SortOrder
   category?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   lineTotal?: Prisma.SortOrder
+  unitPrice?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtPrice?: Prisma.SortOrderInput | Prisma.SortOrder
   color?: Prisma.SortOrder
   size?: Prisma.SortOrder
   hasSizeMod?: Prisma.SortOrder
@@ -367,11 +417,14 @@ export type OrderItemScalarWhereWithAggregatesInput = {
   orderId?: Prisma.StringWithAggregatesFilter<"OrderItem"> | string
   variantId?: Prisma.StringWithAggregatesFilter<"OrderItem"> | string
   name?: Prisma.StringWithAggregatesFilter<"OrderItem"> | string
+  sku?: Prisma.StringNullableWithAggregatesFilter<"OrderItem"> | string | null
   image?: Prisma.StringNullableWithAggregatesFilter<"OrderItem"> | string | null
   category?: Prisma.StringWithAggregatesFilter<"OrderItem"> | string
   quantity?: Prisma.IntWithAggregatesFilter<"OrderItem"> | number
   currency?: Prisma.EnumCurrencyWithAggregatesFilter<"OrderItem"> | $Enums.Currency
   lineTotal?: Prisma.FloatWithAggregatesFilter<"OrderItem"> | number
+  unitPrice?: Prisma.FloatNullableWithAggregatesFilter<"OrderItem"> | number | null
+  compareAtPrice?: Prisma.FloatNullableWithAggregatesFilter<"OrderItem"> | number | null
   color?: Prisma.StringWithAggregatesFilter<"OrderItem"> | string
   size?: Prisma.StringWithAggregatesFilter<"OrderItem"> | string
   hasSizeMod?: Prisma.BoolWithAggregatesFilter<"OrderItem"> | boolean
@@ -382,11 +435,14 @@ export type OrderItemScalarWhereWithAggregatesInput = {
 export type OrderItemCreateInput = {
   id?: string
   name: string
+  sku?: string | null
   image?: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
   color: string
   size: string
   hasSizeMod?: boolean
@@ -394,6 +450,9 @@ export type OrderItemCreateInput = {
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   order: Prisma.OrderCreateNestedOneWithoutItemsInput
   variant: Prisma.VariantCreateNestedOneWithoutOrderItemsInput
+  refundItems?: Prisma.OrderRefundItemCreateNestedManyWithoutOrderItemInput
+  returnItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemUncheckedCreateInput = {
@@ -401,26 +460,35 @@ export type OrderItemUncheckedCreateInput = {
   orderId: string
   variantId: string
   name: string
+  sku?: string | null
   image?: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
   color: string
   size: string
   hasSizeMod?: boolean
   sizeModFee?: number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedCreateNestedManyWithoutOrderItemInput
+  returnItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -428,6 +496,9 @@ export type OrderItemUpdateInput = {
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
   variant?: Prisma.VariantUpdateOneRequiredWithoutOrderItemsNestedInput
+  refundItems?: Prisma.OrderRefundItemUpdateManyWithoutOrderItemNestedInput
+  returnItems?: Prisma.ReturnRequestItemUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateInput = {
@@ -435,16 +506,22 @@ export type OrderItemUncheckedUpdateInput = {
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
   variantId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
   sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedUpdateManyWithoutOrderItemNestedInput
+  returnItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemCreateManyInput = {
@@ -452,11 +529,14 @@ export type OrderItemCreateManyInput = {
   orderId: string
   variantId: string
   name: string
+  sku?: string | null
   image?: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
   color: string
   size: string
   hasSizeMod?: boolean
@@ -467,11 +547,14 @@ export type OrderItemCreateManyInput = {
 export type OrderItemUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -484,11 +567,14 @@ export type OrderItemUncheckedUpdateManyInput = {
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
   variantId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -511,11 +597,14 @@ export type OrderItemCountOrderByAggregateInput = {
   orderId?: Prisma.SortOrder
   variantId?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  sku?: Prisma.SortOrder
   image?: Prisma.SortOrder
   category?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   lineTotal?: Prisma.SortOrder
+  unitPrice?: Prisma.SortOrder
+  compareAtPrice?: Prisma.SortOrder
   color?: Prisma.SortOrder
   size?: Prisma.SortOrder
   hasSizeMod?: Prisma.SortOrder
@@ -526,6 +615,8 @@ export type OrderItemCountOrderByAggregateInput = {
 export type OrderItemAvgOrderByAggregateInput = {
   quantity?: Prisma.SortOrder
   lineTotal?: Prisma.SortOrder
+  unitPrice?: Prisma.SortOrder
+  compareAtPrice?: Prisma.SortOrder
   sizeModFee?: Prisma.SortOrder
 }
 
@@ -534,11 +625,14 @@ export type OrderItemMaxOrderByAggregateInput = {
   orderId?: Prisma.SortOrder
   variantId?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  sku?: Prisma.SortOrder
   image?: Prisma.SortOrder
   category?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   lineTotal?: Prisma.SortOrder
+  unitPrice?: Prisma.SortOrder
+  compareAtPrice?: Prisma.SortOrder
   color?: Prisma.SortOrder
   size?: Prisma.SortOrder
   hasSizeMod?: Prisma.SortOrder
@@ -550,11 +644,14 @@ export type OrderItemMinOrderByAggregateInput = {
   orderId?: Prisma.SortOrder
   variantId?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  sku?: Prisma.SortOrder
   image?: Prisma.SortOrder
   category?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   lineTotal?: Prisma.SortOrder
+  unitPrice?: Prisma.SortOrder
+  compareAtPrice?: Prisma.SortOrder
   color?: Prisma.SortOrder
   size?: Prisma.SortOrder
   hasSizeMod?: Prisma.SortOrder
@@ -564,9 +661,16 @@ export type OrderItemMinOrderByAggregateInput = {
 export type OrderItemSumOrderByAggregateInput = {
   quantity?: Prisma.SortOrder
   lineTotal?: Prisma.SortOrder
+  unitPrice?: Prisma.SortOrder
+  compareAtPrice?: Prisma.SortOrder
   sizeModFee?: Prisma.SortOrder
 }
 
+export type OrderItemScalarRelationFilter = {
+  is?: Prisma.OrderItemWhereInput
+  isNot?: Prisma.OrderItemWhereInput
+}
+
 export type OrderItemCreateNestedManyWithoutVariantInput = {
   create?: Prisma.XOR<Prisma.OrderItemCreateWithoutVariantInput, Prisma.OrderItemUncheckedCreateWithoutVariantInput> | Prisma.OrderItemCreateWithoutVariantInput[] | Prisma.OrderItemUncheckedCreateWithoutVariantInput[]
   connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutVariantInput | Prisma.OrderItemCreateOrConnectWithoutVariantInput[]
@@ -651,36 +755,90 @@ export type OrderItemUncheckedUpdateManyWithoutOrderNestedInput = {
   deleteMany?: Prisma.OrderItemScalarWhereInput | Prisma.OrderItemScalarWhereInput[]
 }
 
+export type OrderItemCreateNestedOneWithoutRefundItemsInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutRefundItemsInput, Prisma.OrderItemUncheckedCreateWithoutRefundItemsInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutRefundItemsInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+}
+
+export type OrderItemUpdateOneRequiredWithoutRefundItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutRefundItemsInput, Prisma.OrderItemUncheckedCreateWithoutRefundItemsInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutRefundItemsInput
+  upsert?: Prisma.OrderItemUpsertWithoutRefundItemsInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderItemUpdateToOneWithWhereWithoutRefundItemsInput, Prisma.OrderItemUpdateWithoutRefundItemsInput>, Prisma.OrderItemUncheckedUpdateWithoutRefundItemsInput>
+}
+
+export type OrderItemCreateNestedOneWithoutReturnItemsInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutReturnItemsInput, Prisma.OrderItemUncheckedCreateWithoutReturnItemsInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutReturnItemsInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+}
+
+export type OrderItemUpdateOneRequiredWithoutReturnItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutReturnItemsInput, Prisma.OrderItemUncheckedCreateWithoutReturnItemsInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutReturnItemsInput
+  upsert?: Prisma.OrderItemUpsertWithoutReturnItemsInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderItemUpdateToOneWithWhereWithoutReturnItemsInput, Prisma.OrderItemUpdateWithoutReturnItemsInput>, Prisma.OrderItemUncheckedUpdateWithoutReturnItemsInput>
+}
+
+export type OrderItemCreateNestedOneWithoutShipmentItemsInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentItemsInput, Prisma.OrderItemUncheckedCreateWithoutShipmentItemsInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutShipmentItemsInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+}
+
+export type OrderItemUpdateOneRequiredWithoutShipmentItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentItemsInput, Prisma.OrderItemUncheckedCreateWithoutShipmentItemsInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutShipmentItemsInput
+  upsert?: Prisma.OrderItemUpsertWithoutShipmentItemsInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderItemUpdateToOneWithWhereWithoutShipmentItemsInput, Prisma.OrderItemUpdateWithoutShipmentItemsInput>, Prisma.OrderItemUncheckedUpdateWithoutShipmentItemsInput>
+}
+
 export type OrderItemCreateWithoutVariantInput = {
   id?: string
   name: string
+  sku?: string | null
   image?: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
   color: string
   size: string
   hasSizeMod?: boolean
   sizeModFee?: number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  refundItems?: Prisma.OrderRefundItemCreateNestedManyWithoutOrderItemInput
+  returnItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemUncheckedCreateWithoutVariantInput = {
   id?: string
   orderId: string
   name: string
+  sku?: string | null
   image?: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
   color: string
   size: string
   hasSizeMod?: boolean
   sizeModFee?: number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedCreateNestedManyWithoutOrderItemInput
+  returnItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemCreateOrConnectWithoutVariantInput = {
@@ -717,11 +875,14 @@ export type OrderItemScalarWhereInput = {
   orderId?: Prisma.StringFilter<"OrderItem"> | string
   variantId?: Prisma.StringFilter<"OrderItem"> | string
   name?: Prisma.StringFilter<"OrderItem"> | string
+  sku?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   image?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   category?: Prisma.StringFilter<"OrderItem"> | string
   quantity?: Prisma.IntFilter<"OrderItem"> | number
   currency?: Prisma.EnumCurrencyFilter<"OrderItem"> | $Enums.Currency
   lineTotal?: Prisma.FloatFilter<"OrderItem"> | number
+  unitPrice?: Prisma.FloatNullableFilter<"OrderItem"> | number | null
+  compareAtPrice?: Prisma.FloatNullableFilter<"OrderItem"> | number | null
   color?: Prisma.StringFilter<"OrderItem"> | string
   size?: Prisma.StringFilter<"OrderItem"> | string
   hasSizeMod?: Prisma.BoolFilter<"OrderItem"> | boolean
@@ -732,33 +893,45 @@ export type OrderItemScalarWhereInput = {
 export type OrderItemCreateWithoutOrderInput = {
   id?: string
   name: string
+  sku?: string | null
   image?: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
   color: string
   size: string
   hasSizeMod?: boolean
   sizeModFee?: number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   variant: Prisma.VariantCreateNestedOneWithoutOrderItemsInput
+  refundItems?: Prisma.OrderRefundItemCreateNestedManyWithoutOrderItemInput
+  returnItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemUncheckedCreateWithoutOrderInput = {
   id?: string
   variantId: string
   name: string
+  sku?: string | null
   image?: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
   color: string
   size: string
   hasSizeMod?: boolean
   sizeModFee?: number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedCreateNestedManyWithoutOrderItemInput
+  returnItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemCreateOrConnectWithoutOrderInput = {
@@ -787,15 +960,330 @@ export type OrderItemUpdateManyWithWhereWithoutOrderInput = {
   data: Prisma.XOR<Prisma.OrderItemUpdateManyMutationInput, Prisma.OrderItemUncheckedUpdateManyWithoutOrderInput>
 }
 
+export type OrderItemCreateWithoutRefundItemsInput = {
+  id?: string
+  name: string
+  sku?: string | null
+  image?: string | null
+  category: string
+  quantity: number
+  currency: $Enums.Currency
+  lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
+  color: string
+  size: string
+  hasSizeMod?: boolean
+  sizeModFee?: number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  variant: Prisma.VariantCreateNestedOneWithoutOrderItemsInput
+  returnItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemUncheckedCreateWithoutRefundItemsInput = {
+  id?: string
+  orderId: string
+  variantId: string
+  name: string
+  sku?: string | null
+  image?: string | null
+  category: string
+  quantity: number
+  currency: $Enums.Currency
+  lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
+  color: string
+  size: string
+  hasSizeMod?: boolean
+  sizeModFee?: number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  returnItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemCreateOrConnectWithoutRefundItemsInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutRefundItemsInput, Prisma.OrderItemUncheckedCreateWithoutRefundItemsInput>
+}
+
+export type OrderItemUpsertWithoutRefundItemsInput = {
+  update: Prisma.XOR<Prisma.OrderItemUpdateWithoutRefundItemsInput, Prisma.OrderItemUncheckedUpdateWithoutRefundItemsInput>
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutRefundItemsInput, Prisma.OrderItemUncheckedCreateWithoutRefundItemsInput>
+  where?: Prisma.OrderItemWhereInput
+}
+
+export type OrderItemUpdateToOneWithWhereWithoutRefundItemsInput = {
+  where?: Prisma.OrderItemWhereInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateWithoutRefundItemsInput, Prisma.OrderItemUncheckedUpdateWithoutRefundItemsInput>
+}
+
+export type OrderItemUpdateWithoutRefundItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  variant?: Prisma.VariantUpdateOneRequiredWithoutOrderItemsNestedInput
+  returnItems?: Prisma.ReturnRequestItemUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateWithoutRefundItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  returnItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemCreateWithoutReturnItemsInput = {
+  id?: string
+  name: string
+  sku?: string | null
+  image?: string | null
+  category: string
+  quantity: number
+  currency: $Enums.Currency
+  lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
+  color: string
+  size: string
+  hasSizeMod?: boolean
+  sizeModFee?: number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  variant: Prisma.VariantCreateNestedOneWithoutOrderItemsInput
+  refundItems?: Prisma.OrderRefundItemCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemUncheckedCreateWithoutReturnItemsInput = {
+  id?: string
+  orderId: string
+  variantId: string
+  name: string
+  sku?: string | null
+  image?: string | null
+  category: string
+  quantity: number
+  currency: $Enums.Currency
+  lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
+  color: string
+  size: string
+  hasSizeMod?: boolean
+  sizeModFee?: number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedCreateNestedManyWithoutOrderItemInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemCreateOrConnectWithoutReturnItemsInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutReturnItemsInput, Prisma.OrderItemUncheckedCreateWithoutReturnItemsInput>
+}
+
+export type OrderItemUpsertWithoutReturnItemsInput = {
+  update: Prisma.XOR<Prisma.OrderItemUpdateWithoutReturnItemsInput, Prisma.OrderItemUncheckedUpdateWithoutReturnItemsInput>
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutReturnItemsInput, Prisma.OrderItemUncheckedCreateWithoutReturnItemsInput>
+  where?: Prisma.OrderItemWhereInput
+}
+
+export type OrderItemUpdateToOneWithWhereWithoutReturnItemsInput = {
+  where?: Prisma.OrderItemWhereInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateWithoutReturnItemsInput, Prisma.OrderItemUncheckedUpdateWithoutReturnItemsInput>
+}
+
+export type OrderItemUpdateWithoutReturnItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  variant?: Prisma.VariantUpdateOneRequiredWithoutOrderItemsNestedInput
+  refundItems?: Prisma.OrderRefundItemUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateWithoutReturnItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemCreateWithoutShipmentItemsInput = {
+  id?: string
+  name: string
+  sku?: string | null
+  image?: string | null
+  category: string
+  quantity: number
+  currency: $Enums.Currency
+  lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
+  color: string
+  size: string
+  hasSizeMod?: boolean
+  sizeModFee?: number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  variant: Prisma.VariantCreateNestedOneWithoutOrderItemsInput
+  refundItems?: Prisma.OrderRefundItemCreateNestedManyWithoutOrderItemInput
+  returnItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemUncheckedCreateWithoutShipmentItemsInput = {
+  id?: string
+  orderId: string
+  variantId: string
+  name: string
+  sku?: string | null
+  image?: string | null
+  category: string
+  quantity: number
+  currency: $Enums.Currency
+  lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
+  color: string
+  size: string
+  hasSizeMod?: boolean
+  sizeModFee?: number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedCreateNestedManyWithoutOrderItemInput
+  returnItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemCreateOrConnectWithoutShipmentItemsInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentItemsInput, Prisma.OrderItemUncheckedCreateWithoutShipmentItemsInput>
+}
+
+export type OrderItemUpsertWithoutShipmentItemsInput = {
+  update: Prisma.XOR<Prisma.OrderItemUpdateWithoutShipmentItemsInput, Prisma.OrderItemUncheckedUpdateWithoutShipmentItemsInput>
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentItemsInput, Prisma.OrderItemUncheckedCreateWithoutShipmentItemsInput>
+  where?: Prisma.OrderItemWhereInput
+}
+
+export type OrderItemUpdateToOneWithWhereWithoutShipmentItemsInput = {
+  where?: Prisma.OrderItemWhereInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateWithoutShipmentItemsInput, Prisma.OrderItemUncheckedUpdateWithoutShipmentItemsInput>
+}
+
+export type OrderItemUpdateWithoutShipmentItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  variant?: Prisma.VariantUpdateOneRequiredWithoutOrderItemsNestedInput
+  refundItems?: Prisma.OrderRefundItemUpdateManyWithoutOrderItemNestedInput
+  returnItems?: Prisma.ReturnRequestItemUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateWithoutShipmentItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
+  customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedUpdateManyWithoutOrderItemNestedInput
+  returnItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutOrderItemNestedInput
+}
+
 export type OrderItemCreateManyVariantInput = {
   id?: string
   orderId: string
   name: string
+  sku?: string | null
   image?: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
   color: string
   size: string
   hasSizeMod?: boolean
@@ -806,44 +1294,59 @@ export type OrderItemCreateManyVariantInput = {
 export type OrderItemUpdateWithoutVariantInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
   sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  refundItems?: Prisma.OrderRefundItemUpdateManyWithoutOrderItemNestedInput
+  returnItems?: Prisma.ReturnRequestItemUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateWithoutVariantInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
   sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedUpdateManyWithoutOrderItemNestedInput
+  returnItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateManyWithoutVariantInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -855,11 +1358,14 @@ export type OrderItemCreateManyOrderInput = {
   id?: string
   variantId: string
   name: string
+  sku?: string | null
   image?: string | null
   category: string
   quantity: number
   currency: $Enums.Currency
   lineTotal: number
+  unitPrice?: number | null
+  compareAtPrice?: number | null
   color: string
   size: string
   hasSizeMod?: boolean
@@ -870,44 +1376,59 @@ export type OrderItemCreateManyOrderInput = {
 export type OrderItemUpdateWithoutOrderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
   sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   variant?: Prisma.VariantUpdateOneRequiredWithoutOrderItemsNestedInput
+  refundItems?: Prisma.OrderRefundItemUpdateManyWithoutOrderItemNestedInput
+  returnItems?: Prisma.ReturnRequestItemUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateWithoutOrderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   variantId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
   sizeModFee?: Prisma.FloatFieldUpdateOperationsInput | number
   customSize?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundItems?: Prisma.OrderRefundItemUncheckedUpdateManyWithoutOrderItemNestedInput
+  returnItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutOrderItemNestedInput
+  shipmentItems?: Prisma.ShipmentItemUncheckedUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateManyWithoutOrderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   variantId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   category?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
   lineTotal?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   color?: Prisma.StringFieldUpdateOperationsInput | string
   size?: Prisma.StringFieldUpdateOperationsInput | string
   hasSizeMod?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -916,17 +1437,67 @@ export type OrderItemUncheckedUpdateManyWithoutOrderInput = {
 }
 
 
+/**
+ * Count Type OrderItemCountOutputType
+ */
+
+export type OrderItemCountOutputType = {
+  refundItems: number
+  returnItems: number
+  shipmentItems: number
+}
+
+export type OrderItemCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refundItems?: boolean | OrderItemCountOutputTypeCountRefundItemsArgs
+  returnItems?: boolean | OrderItemCountOutputTypeCountReturnItemsArgs
+  shipmentItems?: boolean | OrderItemCountOutputTypeCountShipmentItemsArgs
+}
+
+/**
+ * OrderItemCountOutputType without action
+ */
+export type OrderItemCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemCountOutputType
+   */
+  select?: Prisma.OrderItemCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * OrderItemCountOutputType without action
+ */
+export type OrderItemCountOutputTypeCountRefundItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderRefundItemWhereInput
+}
+
+/**
+ * OrderItemCountOutputType without action
+ */
+export type OrderItemCountOutputTypeCountReturnItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestItemWhereInput
+}
+
+/**
+ * OrderItemCountOutputType without action
+ */
+export type OrderItemCountOutputTypeCountShipmentItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShipmentItemWhereInput
+}
+
 
 export type OrderItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   orderId?: boolean
   variantId?: boolean
   name?: boolean
+  sku?: boolean
   image?: boolean
   category?: boolean
   quantity?: boolean
   currency?: boolean
   lineTotal?: boolean
+  unitPrice?: boolean
+  compareAtPrice?: boolean
   color?: boolean
   size?: boolean
   hasSizeMod?: boolean
@@ -934,6 +1505,10 @@ export type OrderItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArg
   customSize?: boolean
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
   variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+  refundItems?: boolean | Prisma.OrderItem$refundItemsArgs<ExtArgs>
+  returnItems?: boolean | Prisma.OrderItem$returnItemsArgs<ExtArgs>
+  shipmentItems?: boolean | Prisma.OrderItem$shipmentItemsArgs<ExtArgs>
+  _count?: boolean | Prisma.OrderItemCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["orderItem"]>
 
 export type OrderItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -941,11 +1516,14 @@ export type OrderItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ext
   orderId?: boolean
   variantId?: boolean
   name?: boolean
+  sku?: boolean
   image?: boolean
   category?: boolean
   quantity?: boolean
   currency?: boolean
   lineTotal?: boolean
+  unitPrice?: boolean
+  compareAtPrice?: boolean
   color?: boolean
   size?: boolean
   hasSizeMod?: boolean
@@ -960,11 +1538,14 @@ export type OrderItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ext
   orderId?: boolean
   variantId?: boolean
   name?: boolean
+  sku?: boolean
   image?: boolean
   category?: boolean
   quantity?: boolean
   currency?: boolean
   lineTotal?: boolean
+  unitPrice?: boolean
+  compareAtPrice?: boolean
   color?: boolean
   size?: boolean
   hasSizeMod?: boolean
@@ -979,11 +1560,14 @@ export type OrderItemSelectScalar = {
   orderId?: boolean
   variantId?: boolean
   name?: boolean
+  sku?: boolean
   image?: boolean
   category?: boolean
   quantity?: boolean
   currency?: boolean
   lineTotal?: boolean
+  unitPrice?: boolean
+  compareAtPrice?: boolean
   color?: boolean
   size?: boolean
   hasSizeMod?: boolean
@@ -991,10 +1575,14 @@ export type OrderItemSelectScalar = {
   customSize?: boolean
 }
 
-export type OrderItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "variantId" | "name" | "image" | "category" | "quantity" | "currency" | "lineTotal" | "color" | "size" | "hasSizeMod" | "sizeModFee" | "customSize", ExtArgs["result"]["orderItem"]>
+export type OrderItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "variantId" | "name" | "sku" | "image" | "category" | "quantity" | "currency" | "lineTotal" | "unitPrice" | "compareAtPrice" | "color" | "size" | "hasSizeMod" | "sizeModFee" | "customSize", ExtArgs["result"]["orderItem"]>
 export type OrderItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
   variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+  refundItems?: boolean | Prisma.OrderItem$refundItemsArgs<ExtArgs>
+  returnItems?: boolean | Prisma.OrderItem$returnItemsArgs<ExtArgs>
+  shipmentItems?: boolean | Prisma.OrderItem$shipmentItemsArgs<ExtArgs>
+  _count?: boolean | Prisma.OrderItemCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type OrderItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
@@ -1010,17 +1598,23 @@ export type $OrderItemPayload<ExtArgs extends runtime.Types.Extensions.InternalA
   objects: {
     order: Prisma.$OrderPayload<ExtArgs>
     variant: Prisma.$VariantPayload<ExtArgs>
+    refundItems: Prisma.$OrderRefundItemPayload<ExtArgs>[]
+    returnItems: Prisma.$ReturnRequestItemPayload<ExtArgs>[]
+    shipmentItems: Prisma.$ShipmentItemPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     orderId: string
     variantId: string
     name: string
+    sku: string | null
     image: string | null
     category: string
     quantity: number
     currency: $Enums.Currency
     lineTotal: number
+    unitPrice: number | null
+    compareAtPrice: number | null
     color: string
     size: string
     hasSizeMod: boolean
@@ -1422,6 +2016,9 @@ export interface Prisma__OrderItemClient<T, Null = never, ExtArgs extends runtim
   readonly [Symbol.toStringTag]: "PrismaPromise"
   order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   variant<T extends Prisma.VariantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.VariantDefaultArgs<ExtArgs>>): Prisma.Prisma__VariantClient<runtime.Types.Result.GetResult<Prisma.$VariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  refundItems<T extends Prisma.OrderItem$refundItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItem$refundItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  returnItems<T extends Prisma.OrderItem$returnItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItem$returnItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  shipmentItems<T extends Prisma.OrderItem$shipmentItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItem$shipmentItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1455,11 +2052,14 @@ export interface OrderItemFieldRefs {
   readonly orderId: Prisma.FieldRef<"OrderItem", 'String'>
   readonly variantId: Prisma.FieldRef<"OrderItem", 'String'>
   readonly name: Prisma.FieldRef<"OrderItem", 'String'>
+  readonly sku: Prisma.FieldRef<"OrderItem", 'String'>
   readonly image: Prisma.FieldRef<"OrderItem", 'String'>
   readonly category: Prisma.FieldRef<"OrderItem", 'String'>
   readonly quantity: Prisma.FieldRef<"OrderItem", 'Int'>
   readonly currency: Prisma.FieldRef<"OrderItem", 'Currency'>
   readonly lineTotal: Prisma.FieldRef<"OrderItem", 'Float'>
+  readonly unitPrice: Prisma.FieldRef<"OrderItem", 'Float'>
+  readonly compareAtPrice: Prisma.FieldRef<"OrderItem", 'Float'>
   readonly color: Prisma.FieldRef<"OrderItem", 'String'>
   readonly size: Prisma.FieldRef<"OrderItem", 'String'>
   readonly hasSizeMod: Prisma.FieldRef<"OrderItem", 'Boolean'>
@@ -1860,6 +2460,78 @@ export type OrderItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Int
   limit?: number
 }
 
+/**
+ * OrderItem.refundItems
+ */
+export type OrderItem$refundItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  where?: Prisma.OrderRefundItemWhereInput
+  orderBy?: Prisma.OrderRefundItemOrderByWithRelationInput | Prisma.OrderRefundItemOrderByWithRelationInput[]
+  cursor?: Prisma.OrderRefundItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderRefundItemScalarFieldEnum | Prisma.OrderRefundItemScalarFieldEnum[]
+}
+
+/**
+ * OrderItem.returnItems
+ */
+export type OrderItem$returnItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestItemWhereInput
+  orderBy?: Prisma.ReturnRequestItemOrderByWithRelationInput | Prisma.ReturnRequestItemOrderByWithRelationInput[]
+  cursor?: Prisma.ReturnRequestItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReturnRequestItemScalarFieldEnum | Prisma.ReturnRequestItemScalarFieldEnum[]
+}
+
+/**
+ * OrderItem.shipmentItems
+ */
+export type OrderItem$shipmentItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  where?: Prisma.ShipmentItemWhereInput
+  orderBy?: Prisma.ShipmentItemOrderByWithRelationInput | Prisma.ShipmentItemOrderByWithRelationInput[]
+  cursor?: Prisma.ShipmentItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShipmentItemScalarFieldEnum | Prisma.ShipmentItemScalarFieldEnum[]
+}
+
 /**
  * OrderItem without action
  */
@@ -0,0 +1,1839 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OrderPickup` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model OrderPickup
+ * 
+ */
+export type OrderPickupModel = runtime.Types.Result.DefaultSelection<Prisma.$OrderPickupPayload>
+
+export type AggregateOrderPickup = {
+  _count: OrderPickupCountAggregateOutputType | null
+  _avg: OrderPickupAvgAggregateOutputType | null
+  _sum: OrderPickupSumAggregateOutputType | null
+  _min: OrderPickupMinAggregateOutputType | null
+  _max: OrderPickupMaxAggregateOutputType | null
+}
+
+export type OrderPickupAvgAggregateOutputType = {
+  failedAttempts: number | null
+}
+
+export type OrderPickupSumAggregateOutputType = {
+  failedAttempts: number | null
+}
+
+export type OrderPickupMinAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  locationId: string | null
+  codeHash: string | null
+  failedAttempts: number | null
+  readyAt: Date | null
+  collectedAt: Date | null
+  collectedById: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type OrderPickupMaxAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  locationId: string | null
+  codeHash: string | null
+  failedAttempts: number | null
+  readyAt: Date | null
+  collectedAt: Date | null
+  collectedById: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type OrderPickupCountAggregateOutputType = {
+  id: number
+  orderId: number
+  locationId: number
+  codeHash: number
+  failedAttempts: number
+  readyAt: number
+  collectedAt: number
+  collectedById: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type OrderPickupAvgAggregateInputType = {
+  failedAttempts?: true
+}
+
+export type OrderPickupSumAggregateInputType = {
+  failedAttempts?: true
+}
+
+export type OrderPickupMinAggregateInputType = {
+  id?: true
+  orderId?: true
+  locationId?: true
+  codeHash?: true
+  failedAttempts?: true
+  readyAt?: true
+  collectedAt?: true
+  collectedById?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type OrderPickupMaxAggregateInputType = {
+  id?: true
+  orderId?: true
+  locationId?: true
+  codeHash?: true
+  failedAttempts?: true
+  readyAt?: true
+  collectedAt?: true
+  collectedById?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type OrderPickupCountAggregateInputType = {
+  id?: true
+  orderId?: true
+  locationId?: true
+  codeHash?: true
+  failedAttempts?: true
+  readyAt?: true
+  collectedAt?: true
+  collectedById?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type OrderPickupAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OrderPickup to aggregate.
+   */
+  where?: Prisma.OrderPickupWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderPickups to fetch.
+   */
+  orderBy?: Prisma.OrderPickupOrderByWithRelationInput | Prisma.OrderPickupOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OrderPickupWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderPickups from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderPickups.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OrderPickups
+  **/
+  _count?: true | OrderPickupCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OrderPickupAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OrderPickupSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OrderPickupMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OrderPickupMaxAggregateInputType
+}
+
+export type GetOrderPickupAggregateType<T extends OrderPickupAggregateArgs> = {
+      [P in keyof T & keyof AggregateOrderPickup]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOrderPickup[P]>
+    : Prisma.GetScalarType<T[P], AggregateOrderPickup[P]>
+}
+
+
+
+
+export type OrderPickupGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderPickupWhereInput
+  orderBy?: Prisma.OrderPickupOrderByWithAggregationInput | Prisma.OrderPickupOrderByWithAggregationInput[]
+  by: Prisma.OrderPickupScalarFieldEnum[] | Prisma.OrderPickupScalarFieldEnum
+  having?: Prisma.OrderPickupScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OrderPickupCountAggregateInputType | true
+  _avg?: OrderPickupAvgAggregateInputType
+  _sum?: OrderPickupSumAggregateInputType
+  _min?: OrderPickupMinAggregateInputType
+  _max?: OrderPickupMaxAggregateInputType
+}
+
+export type OrderPickupGroupByOutputType = {
+  id: string
+  orderId: string
+  locationId: string
+  codeHash: string | null
+  failedAttempts: number
+  readyAt: Date | null
+  collectedAt: Date | null
+  collectedById: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: OrderPickupCountAggregateOutputType | null
+  _avg: OrderPickupAvgAggregateOutputType | null
+  _sum: OrderPickupSumAggregateOutputType | null
+  _min: OrderPickupMinAggregateOutputType | null
+  _max: OrderPickupMaxAggregateOutputType | null
+}
+
+type GetOrderPickupGroupByPayload<T extends OrderPickupGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OrderPickupGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OrderPickupGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OrderPickupGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OrderPickupGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OrderPickupWhereInput = {
+  AND?: Prisma.OrderPickupWhereInput | Prisma.OrderPickupWhereInput[]
+  OR?: Prisma.OrderPickupWhereInput[]
+  NOT?: Prisma.OrderPickupWhereInput | Prisma.OrderPickupWhereInput[]
+  id?: Prisma.StringFilter<"OrderPickup"> | string
+  orderId?: Prisma.StringFilter<"OrderPickup"> | string
+  locationId?: Prisma.StringFilter<"OrderPickup"> | string
+  codeHash?: Prisma.StringNullableFilter<"OrderPickup"> | string | null
+  failedAttempts?: Prisma.IntFilter<"OrderPickup"> | number
+  readyAt?: Prisma.DateTimeNullableFilter<"OrderPickup"> | Date | string | null
+  collectedAt?: Prisma.DateTimeNullableFilter<"OrderPickup"> | Date | string | null
+  collectedById?: Prisma.StringNullableFilter<"OrderPickup"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OrderPickup"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"OrderPickup"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  location?: Prisma.XOR<Prisma.PickupLocationScalarRelationFilter, Prisma.PickupLocationWhereInput>
+  collectedBy?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+}
+
+export type OrderPickupOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  locationId?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  failedAttempts?: Prisma.SortOrder
+  readyAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  collectedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  collectedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  order?: Prisma.OrderOrderByWithRelationInput
+  location?: Prisma.PickupLocationOrderByWithRelationInput
+  collectedBy?: Prisma.StaffOrderByWithRelationInput
+}
+
+export type OrderPickupWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  orderId?: string
+  AND?: Prisma.OrderPickupWhereInput | Prisma.OrderPickupWhereInput[]
+  OR?: Prisma.OrderPickupWhereInput[]
+  NOT?: Prisma.OrderPickupWhereInput | Prisma.OrderPickupWhereInput[]
+  locationId?: Prisma.StringFilter<"OrderPickup"> | string
+  codeHash?: Prisma.StringNullableFilter<"OrderPickup"> | string | null
+  failedAttempts?: Prisma.IntFilter<"OrderPickup"> | number
+  readyAt?: Prisma.DateTimeNullableFilter<"OrderPickup"> | Date | string | null
+  collectedAt?: Prisma.DateTimeNullableFilter<"OrderPickup"> | Date | string | null
+  collectedById?: Prisma.StringNullableFilter<"OrderPickup"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OrderPickup"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"OrderPickup"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  location?: Prisma.XOR<Prisma.PickupLocationScalarRelationFilter, Prisma.PickupLocationWhereInput>
+  collectedBy?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+}, "id" | "orderId">
+
+export type OrderPickupOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  locationId?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  failedAttempts?: Prisma.SortOrder
+  readyAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  collectedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  collectedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.OrderPickupCountOrderByAggregateInput
+  _avg?: Prisma.OrderPickupAvgOrderByAggregateInput
+  _max?: Prisma.OrderPickupMaxOrderByAggregateInput
+  _min?: Prisma.OrderPickupMinOrderByAggregateInput
+  _sum?: Prisma.OrderPickupSumOrderByAggregateInput
+}
+
+export type OrderPickupScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OrderPickupScalarWhereWithAggregatesInput | Prisma.OrderPickupScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OrderPickupScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OrderPickupScalarWhereWithAggregatesInput | Prisma.OrderPickupScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"OrderPickup"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"OrderPickup"> | string
+  locationId?: Prisma.StringWithAggregatesFilter<"OrderPickup"> | string
+  codeHash?: Prisma.StringNullableWithAggregatesFilter<"OrderPickup"> | string | null
+  failedAttempts?: Prisma.IntWithAggregatesFilter<"OrderPickup"> | number
+  readyAt?: Prisma.DateTimeNullableWithAggregatesFilter<"OrderPickup"> | Date | string | null
+  collectedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"OrderPickup"> | Date | string | null
+  collectedById?: Prisma.StringNullableWithAggregatesFilter<"OrderPickup"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"OrderPickup"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"OrderPickup"> | Date | string
+}
+
+export type OrderPickupCreateInput = {
+  id?: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutPickupInput
+  location: Prisma.PickupLocationCreateNestedOneWithoutPickupsInput
+  collectedBy?: Prisma.StaffCreateNestedOneWithoutPickupHandoversInput
+}
+
+export type OrderPickupUncheckedCreateInput = {
+  id?: string
+  orderId: string
+  locationId: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  collectedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderPickupUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutPickupNestedInput
+  location?: Prisma.PickupLocationUpdateOneRequiredWithoutPickupsNestedInput
+  collectedBy?: Prisma.StaffUpdateOneWithoutPickupHandoversNestedInput
+}
+
+export type OrderPickupUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  locationId?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderPickupCreateManyInput = {
+  id?: string
+  orderId: string
+  locationId: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  collectedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderPickupUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderPickupUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  locationId?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderPickupListRelationFilter = {
+  every?: Prisma.OrderPickupWhereInput
+  some?: Prisma.OrderPickupWhereInput
+  none?: Prisma.OrderPickupWhereInput
+}
+
+export type OrderPickupOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type OrderPickupNullableScalarRelationFilter = {
+  is?: Prisma.OrderPickupWhereInput | null
+  isNot?: Prisma.OrderPickupWhereInput | null
+}
+
+export type OrderPickupCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  locationId?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrder
+  failedAttempts?: Prisma.SortOrder
+  readyAt?: Prisma.SortOrder
+  collectedAt?: Prisma.SortOrder
+  collectedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OrderPickupAvgOrderByAggregateInput = {
+  failedAttempts?: Prisma.SortOrder
+}
+
+export type OrderPickupMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  locationId?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrder
+  failedAttempts?: Prisma.SortOrder
+  readyAt?: Prisma.SortOrder
+  collectedAt?: Prisma.SortOrder
+  collectedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OrderPickupMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  locationId?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrder
+  failedAttempts?: Prisma.SortOrder
+  readyAt?: Prisma.SortOrder
+  collectedAt?: Prisma.SortOrder
+  collectedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OrderPickupSumOrderByAggregateInput = {
+  failedAttempts?: Prisma.SortOrder
+}
+
+export type OrderPickupCreateNestedManyWithoutCollectedByInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutCollectedByInput, Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput> | Prisma.OrderPickupCreateWithoutCollectedByInput[] | Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput[]
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutCollectedByInput | Prisma.OrderPickupCreateOrConnectWithoutCollectedByInput[]
+  createMany?: Prisma.OrderPickupCreateManyCollectedByInputEnvelope
+  connect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+}
+
+export type OrderPickupUncheckedCreateNestedManyWithoutCollectedByInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutCollectedByInput, Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput> | Prisma.OrderPickupCreateWithoutCollectedByInput[] | Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput[]
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutCollectedByInput | Prisma.OrderPickupCreateOrConnectWithoutCollectedByInput[]
+  createMany?: Prisma.OrderPickupCreateManyCollectedByInputEnvelope
+  connect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+}
+
+export type OrderPickupUpdateManyWithoutCollectedByNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutCollectedByInput, Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput> | Prisma.OrderPickupCreateWithoutCollectedByInput[] | Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput[]
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutCollectedByInput | Prisma.OrderPickupCreateOrConnectWithoutCollectedByInput[]
+  upsert?: Prisma.OrderPickupUpsertWithWhereUniqueWithoutCollectedByInput | Prisma.OrderPickupUpsertWithWhereUniqueWithoutCollectedByInput[]
+  createMany?: Prisma.OrderPickupCreateManyCollectedByInputEnvelope
+  set?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  disconnect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  delete?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  connect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  update?: Prisma.OrderPickupUpdateWithWhereUniqueWithoutCollectedByInput | Prisma.OrderPickupUpdateWithWhereUniqueWithoutCollectedByInput[]
+  updateMany?: Prisma.OrderPickupUpdateManyWithWhereWithoutCollectedByInput | Prisma.OrderPickupUpdateManyWithWhereWithoutCollectedByInput[]
+  deleteMany?: Prisma.OrderPickupScalarWhereInput | Prisma.OrderPickupScalarWhereInput[]
+}
+
+export type OrderPickupUncheckedUpdateManyWithoutCollectedByNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutCollectedByInput, Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput> | Prisma.OrderPickupCreateWithoutCollectedByInput[] | Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput[]
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutCollectedByInput | Prisma.OrderPickupCreateOrConnectWithoutCollectedByInput[]
+  upsert?: Prisma.OrderPickupUpsertWithWhereUniqueWithoutCollectedByInput | Prisma.OrderPickupUpsertWithWhereUniqueWithoutCollectedByInput[]
+  createMany?: Prisma.OrderPickupCreateManyCollectedByInputEnvelope
+  set?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  disconnect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  delete?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  connect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  update?: Prisma.OrderPickupUpdateWithWhereUniqueWithoutCollectedByInput | Prisma.OrderPickupUpdateWithWhereUniqueWithoutCollectedByInput[]
+  updateMany?: Prisma.OrderPickupUpdateManyWithWhereWithoutCollectedByInput | Prisma.OrderPickupUpdateManyWithWhereWithoutCollectedByInput[]
+  deleteMany?: Prisma.OrderPickupScalarWhereInput | Prisma.OrderPickupScalarWhereInput[]
+}
+
+export type OrderPickupCreateNestedOneWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutOrderInput, Prisma.OrderPickupUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutOrderInput
+  connect?: Prisma.OrderPickupWhereUniqueInput
+}
+
+export type OrderPickupUncheckedCreateNestedOneWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutOrderInput, Prisma.OrderPickupUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutOrderInput
+  connect?: Prisma.OrderPickupWhereUniqueInput
+}
+
+export type OrderPickupUpdateOneWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutOrderInput, Prisma.OrderPickupUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutOrderInput
+  upsert?: Prisma.OrderPickupUpsertWithoutOrderInput
+  disconnect?: Prisma.OrderPickupWhereInput | boolean
+  delete?: Prisma.OrderPickupWhereInput | boolean
+  connect?: Prisma.OrderPickupWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderPickupUpdateToOneWithWhereWithoutOrderInput, Prisma.OrderPickupUpdateWithoutOrderInput>, Prisma.OrderPickupUncheckedUpdateWithoutOrderInput>
+}
+
+export type OrderPickupUncheckedUpdateOneWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutOrderInput, Prisma.OrderPickupUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutOrderInput
+  upsert?: Prisma.OrderPickupUpsertWithoutOrderInput
+  disconnect?: Prisma.OrderPickupWhereInput | boolean
+  delete?: Prisma.OrderPickupWhereInput | boolean
+  connect?: Prisma.OrderPickupWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderPickupUpdateToOneWithWhereWithoutOrderInput, Prisma.OrderPickupUpdateWithoutOrderInput>, Prisma.OrderPickupUncheckedUpdateWithoutOrderInput>
+}
+
+export type OrderPickupCreateNestedManyWithoutLocationInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutLocationInput, Prisma.OrderPickupUncheckedCreateWithoutLocationInput> | Prisma.OrderPickupCreateWithoutLocationInput[] | Prisma.OrderPickupUncheckedCreateWithoutLocationInput[]
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutLocationInput | Prisma.OrderPickupCreateOrConnectWithoutLocationInput[]
+  createMany?: Prisma.OrderPickupCreateManyLocationInputEnvelope
+  connect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+}
+
+export type OrderPickupUncheckedCreateNestedManyWithoutLocationInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutLocationInput, Prisma.OrderPickupUncheckedCreateWithoutLocationInput> | Prisma.OrderPickupCreateWithoutLocationInput[] | Prisma.OrderPickupUncheckedCreateWithoutLocationInput[]
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutLocationInput | Prisma.OrderPickupCreateOrConnectWithoutLocationInput[]
+  createMany?: Prisma.OrderPickupCreateManyLocationInputEnvelope
+  connect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+}
+
+export type OrderPickupUpdateManyWithoutLocationNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutLocationInput, Prisma.OrderPickupUncheckedCreateWithoutLocationInput> | Prisma.OrderPickupCreateWithoutLocationInput[] | Prisma.OrderPickupUncheckedCreateWithoutLocationInput[]
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutLocationInput | Prisma.OrderPickupCreateOrConnectWithoutLocationInput[]
+  upsert?: Prisma.OrderPickupUpsertWithWhereUniqueWithoutLocationInput | Prisma.OrderPickupUpsertWithWhereUniqueWithoutLocationInput[]
+  createMany?: Prisma.OrderPickupCreateManyLocationInputEnvelope
+  set?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  disconnect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  delete?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  connect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  update?: Prisma.OrderPickupUpdateWithWhereUniqueWithoutLocationInput | Prisma.OrderPickupUpdateWithWhereUniqueWithoutLocationInput[]
+  updateMany?: Prisma.OrderPickupUpdateManyWithWhereWithoutLocationInput | Prisma.OrderPickupUpdateManyWithWhereWithoutLocationInput[]
+  deleteMany?: Prisma.OrderPickupScalarWhereInput | Prisma.OrderPickupScalarWhereInput[]
+}
+
+export type OrderPickupUncheckedUpdateManyWithoutLocationNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderPickupCreateWithoutLocationInput, Prisma.OrderPickupUncheckedCreateWithoutLocationInput> | Prisma.OrderPickupCreateWithoutLocationInput[] | Prisma.OrderPickupUncheckedCreateWithoutLocationInput[]
+  connectOrCreate?: Prisma.OrderPickupCreateOrConnectWithoutLocationInput | Prisma.OrderPickupCreateOrConnectWithoutLocationInput[]
+  upsert?: Prisma.OrderPickupUpsertWithWhereUniqueWithoutLocationInput | Prisma.OrderPickupUpsertWithWhereUniqueWithoutLocationInput[]
+  createMany?: Prisma.OrderPickupCreateManyLocationInputEnvelope
+  set?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  disconnect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  delete?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  connect?: Prisma.OrderPickupWhereUniqueInput | Prisma.OrderPickupWhereUniqueInput[]
+  update?: Prisma.OrderPickupUpdateWithWhereUniqueWithoutLocationInput | Prisma.OrderPickupUpdateWithWhereUniqueWithoutLocationInput[]
+  updateMany?: Prisma.OrderPickupUpdateManyWithWhereWithoutLocationInput | Prisma.OrderPickupUpdateManyWithWhereWithoutLocationInput[]
+  deleteMany?: Prisma.OrderPickupScalarWhereInput | Prisma.OrderPickupScalarWhereInput[]
+}
+
+export type OrderPickupCreateWithoutCollectedByInput = {
+  id?: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutPickupInput
+  location: Prisma.PickupLocationCreateNestedOneWithoutPickupsInput
+}
+
+export type OrderPickupUncheckedCreateWithoutCollectedByInput = {
+  id?: string
+  orderId: string
+  locationId: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderPickupCreateOrConnectWithoutCollectedByInput = {
+  where: Prisma.OrderPickupWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderPickupCreateWithoutCollectedByInput, Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput>
+}
+
+export type OrderPickupCreateManyCollectedByInputEnvelope = {
+  data: Prisma.OrderPickupCreateManyCollectedByInput | Prisma.OrderPickupCreateManyCollectedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderPickupUpsertWithWhereUniqueWithoutCollectedByInput = {
+  where: Prisma.OrderPickupWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderPickupUpdateWithoutCollectedByInput, Prisma.OrderPickupUncheckedUpdateWithoutCollectedByInput>
+  create: Prisma.XOR<Prisma.OrderPickupCreateWithoutCollectedByInput, Prisma.OrderPickupUncheckedCreateWithoutCollectedByInput>
+}
+
+export type OrderPickupUpdateWithWhereUniqueWithoutCollectedByInput = {
+  where: Prisma.OrderPickupWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderPickupUpdateWithoutCollectedByInput, Prisma.OrderPickupUncheckedUpdateWithoutCollectedByInput>
+}
+
+export type OrderPickupUpdateManyWithWhereWithoutCollectedByInput = {
+  where: Prisma.OrderPickupScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderPickupUpdateManyMutationInput, Prisma.OrderPickupUncheckedUpdateManyWithoutCollectedByInput>
+}
+
+export type OrderPickupScalarWhereInput = {
+  AND?: Prisma.OrderPickupScalarWhereInput | Prisma.OrderPickupScalarWhereInput[]
+  OR?: Prisma.OrderPickupScalarWhereInput[]
+  NOT?: Prisma.OrderPickupScalarWhereInput | Prisma.OrderPickupScalarWhereInput[]
+  id?: Prisma.StringFilter<"OrderPickup"> | string
+  orderId?: Prisma.StringFilter<"OrderPickup"> | string
+  locationId?: Prisma.StringFilter<"OrderPickup"> | string
+  codeHash?: Prisma.StringNullableFilter<"OrderPickup"> | string | null
+  failedAttempts?: Prisma.IntFilter<"OrderPickup"> | number
+  readyAt?: Prisma.DateTimeNullableFilter<"OrderPickup"> | Date | string | null
+  collectedAt?: Prisma.DateTimeNullableFilter<"OrderPickup"> | Date | string | null
+  collectedById?: Prisma.StringNullableFilter<"OrderPickup"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OrderPickup"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"OrderPickup"> | Date | string
+}
+
+export type OrderPickupCreateWithoutOrderInput = {
+  id?: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  location: Prisma.PickupLocationCreateNestedOneWithoutPickupsInput
+  collectedBy?: Prisma.StaffCreateNestedOneWithoutPickupHandoversInput
+}
+
+export type OrderPickupUncheckedCreateWithoutOrderInput = {
+  id?: string
+  locationId: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  collectedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderPickupCreateOrConnectWithoutOrderInput = {
+  where: Prisma.OrderPickupWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderPickupCreateWithoutOrderInput, Prisma.OrderPickupUncheckedCreateWithoutOrderInput>
+}
+
+export type OrderPickupUpsertWithoutOrderInput = {
+  update: Prisma.XOR<Prisma.OrderPickupUpdateWithoutOrderInput, Prisma.OrderPickupUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.OrderPickupCreateWithoutOrderInput, Prisma.OrderPickupUncheckedCreateWithoutOrderInput>
+  where?: Prisma.OrderPickupWhereInput
+}
+
+export type OrderPickupUpdateToOneWithWhereWithoutOrderInput = {
+  where?: Prisma.OrderPickupWhereInput
+  data: Prisma.XOR<Prisma.OrderPickupUpdateWithoutOrderInput, Prisma.OrderPickupUncheckedUpdateWithoutOrderInput>
+}
+
+export type OrderPickupUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  location?: Prisma.PickupLocationUpdateOneRequiredWithoutPickupsNestedInput
+  collectedBy?: Prisma.StaffUpdateOneWithoutPickupHandoversNestedInput
+}
+
+export type OrderPickupUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  locationId?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderPickupCreateWithoutLocationInput = {
+  id?: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutPickupInput
+  collectedBy?: Prisma.StaffCreateNestedOneWithoutPickupHandoversInput
+}
+
+export type OrderPickupUncheckedCreateWithoutLocationInput = {
+  id?: string
+  orderId: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  collectedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderPickupCreateOrConnectWithoutLocationInput = {
+  where: Prisma.OrderPickupWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderPickupCreateWithoutLocationInput, Prisma.OrderPickupUncheckedCreateWithoutLocationInput>
+}
+
+export type OrderPickupCreateManyLocationInputEnvelope = {
+  data: Prisma.OrderPickupCreateManyLocationInput | Prisma.OrderPickupCreateManyLocationInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderPickupUpsertWithWhereUniqueWithoutLocationInput = {
+  where: Prisma.OrderPickupWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderPickupUpdateWithoutLocationInput, Prisma.OrderPickupUncheckedUpdateWithoutLocationInput>
+  create: Prisma.XOR<Prisma.OrderPickupCreateWithoutLocationInput, Prisma.OrderPickupUncheckedCreateWithoutLocationInput>
+}
+
+export type OrderPickupUpdateWithWhereUniqueWithoutLocationInput = {
+  where: Prisma.OrderPickupWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderPickupUpdateWithoutLocationInput, Prisma.OrderPickupUncheckedUpdateWithoutLocationInput>
+}
+
+export type OrderPickupUpdateManyWithWhereWithoutLocationInput = {
+  where: Prisma.OrderPickupScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderPickupUpdateManyMutationInput, Prisma.OrderPickupUncheckedUpdateManyWithoutLocationInput>
+}
+
+export type OrderPickupCreateManyCollectedByInput = {
+  id?: string
+  orderId: string
+  locationId: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderPickupUpdateWithoutCollectedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutPickupNestedInput
+  location?: Prisma.PickupLocationUpdateOneRequiredWithoutPickupsNestedInput
+}
+
+export type OrderPickupUncheckedUpdateWithoutCollectedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  locationId?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderPickupUncheckedUpdateManyWithoutCollectedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  locationId?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderPickupCreateManyLocationInput = {
+  id?: string
+  orderId: string
+  codeHash?: string | null
+  failedAttempts?: number
+  readyAt?: Date | string | null
+  collectedAt?: Date | string | null
+  collectedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderPickupUpdateWithoutLocationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutPickupNestedInput
+  collectedBy?: Prisma.StaffUpdateOneWithoutPickupHandoversNestedInput
+}
+
+export type OrderPickupUncheckedUpdateWithoutLocationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderPickupUncheckedUpdateManyWithoutLocationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failedAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  readyAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  collectedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type OrderPickupSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  locationId?: boolean
+  codeHash?: boolean
+  failedAttempts?: boolean
+  readyAt?: boolean
+  collectedAt?: boolean
+  collectedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  location?: boolean | Prisma.PickupLocationDefaultArgs<ExtArgs>
+  collectedBy?: boolean | Prisma.OrderPickup$collectedByArgs<ExtArgs>
+}, ExtArgs["result"]["orderPickup"]>
+
+export type OrderPickupSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  locationId?: boolean
+  codeHash?: boolean
+  failedAttempts?: boolean
+  readyAt?: boolean
+  collectedAt?: boolean
+  collectedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  location?: boolean | Prisma.PickupLocationDefaultArgs<ExtArgs>
+  collectedBy?: boolean | Prisma.OrderPickup$collectedByArgs<ExtArgs>
+}, ExtArgs["result"]["orderPickup"]>
+
+export type OrderPickupSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  locationId?: boolean
+  codeHash?: boolean
+  failedAttempts?: boolean
+  readyAt?: boolean
+  collectedAt?: boolean
+  collectedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  location?: boolean | Prisma.PickupLocationDefaultArgs<ExtArgs>
+  collectedBy?: boolean | Prisma.OrderPickup$collectedByArgs<ExtArgs>
+}, ExtArgs["result"]["orderPickup"]>
+
+export type OrderPickupSelectScalar = {
+  id?: boolean
+  orderId?: boolean
+  locationId?: boolean
+  codeHash?: boolean
+  failedAttempts?: boolean
+  readyAt?: boolean
+  collectedAt?: boolean
+  collectedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type OrderPickupOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "locationId" | "codeHash" | "failedAttempts" | "readyAt" | "collectedAt" | "collectedById" | "createdAt" | "updatedAt", ExtArgs["result"]["orderPickup"]>
+export type OrderPickupInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  location?: boolean | Prisma.PickupLocationDefaultArgs<ExtArgs>
+  collectedBy?: boolean | Prisma.OrderPickup$collectedByArgs<ExtArgs>
+}
+export type OrderPickupIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  location?: boolean | Prisma.PickupLocationDefaultArgs<ExtArgs>
+  collectedBy?: boolean | Prisma.OrderPickup$collectedByArgs<ExtArgs>
+}
+export type OrderPickupIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  location?: boolean | Prisma.PickupLocationDefaultArgs<ExtArgs>
+  collectedBy?: boolean | Prisma.OrderPickup$collectedByArgs<ExtArgs>
+}
+
+export type $OrderPickupPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OrderPickup"
+  objects: {
+    order: Prisma.$OrderPayload<ExtArgs>
+    location: Prisma.$PickupLocationPayload<ExtArgs>
+    collectedBy: Prisma.$StaffPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    orderId: string
+    locationId: string
+    codeHash: string | null
+    failedAttempts: number
+    readyAt: Date | null
+    collectedAt: Date | null
+    collectedById: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["orderPickup"]>
+  composites: {}
+}
+
+export type OrderPickupGetPayload<S extends boolean | null | undefined | OrderPickupDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload, S>
+
+export type OrderPickupCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OrderPickupFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OrderPickupCountAggregateInputType | true
+  }
+
+export interface OrderPickupDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OrderPickup'], meta: { name: 'OrderPickup' } }
+  /**
+   * Find zero or one OrderPickup that matches the filter.
+   * @param {OrderPickupFindUniqueArgs} args - Arguments to find a OrderPickup
+   * @example
+   * // Get one OrderPickup
+   * const orderPickup = await prisma.orderPickup.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OrderPickupFindUniqueArgs>(args: Prisma.SelectSubset<T, OrderPickupFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OrderPickupClient<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OrderPickup that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OrderPickupFindUniqueOrThrowArgs} args - Arguments to find a OrderPickup
+   * @example
+   * // Get one OrderPickup
+   * const orderPickup = await prisma.orderPickup.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OrderPickupFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OrderPickupFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderPickupClient<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OrderPickup that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderPickupFindFirstArgs} args - Arguments to find a OrderPickup
+   * @example
+   * // Get one OrderPickup
+   * const orderPickup = await prisma.orderPickup.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OrderPickupFindFirstArgs>(args?: Prisma.SelectSubset<T, OrderPickupFindFirstArgs<ExtArgs>>): Prisma.Prisma__OrderPickupClient<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OrderPickup that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderPickupFindFirstOrThrowArgs} args - Arguments to find a OrderPickup
+   * @example
+   * // Get one OrderPickup
+   * const orderPickup = await prisma.orderPickup.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OrderPickupFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OrderPickupFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderPickupClient<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OrderPickups that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderPickupFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OrderPickups
+   * const orderPickups = await prisma.orderPickup.findMany()
+   * 
+   * // Get first 10 OrderPickups
+   * const orderPickups = await prisma.orderPickup.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const orderPickupWithIdOnly = await prisma.orderPickup.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OrderPickupFindManyArgs>(args?: Prisma.SelectSubset<T, OrderPickupFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OrderPickup.
+   * @param {OrderPickupCreateArgs} args - Arguments to create a OrderPickup.
+   * @example
+   * // Create one OrderPickup
+   * const OrderPickup = await prisma.orderPickup.create({
+   *   data: {
+   *     // ... data to create a OrderPickup
+   *   }
+   * })
+   * 
+   */
+  create<T extends OrderPickupCreateArgs>(args: Prisma.SelectSubset<T, OrderPickupCreateArgs<ExtArgs>>): Prisma.Prisma__OrderPickupClient<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OrderPickups.
+   * @param {OrderPickupCreateManyArgs} args - Arguments to create many OrderPickups.
+   * @example
+   * // Create many OrderPickups
+   * const orderPickup = await prisma.orderPickup.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OrderPickupCreateManyArgs>(args?: Prisma.SelectSubset<T, OrderPickupCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OrderPickups and returns the data saved in the database.
+   * @param {OrderPickupCreateManyAndReturnArgs} args - Arguments to create many OrderPickups.
+   * @example
+   * // Create many OrderPickups
+   * const orderPickup = await prisma.orderPickup.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OrderPickups and only return the `id`
+   * const orderPickupWithIdOnly = await prisma.orderPickup.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OrderPickupCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OrderPickupCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OrderPickup.
+   * @param {OrderPickupDeleteArgs} args - Arguments to delete one OrderPickup.
+   * @example
+   * // Delete one OrderPickup
+   * const OrderPickup = await prisma.orderPickup.delete({
+   *   where: {
+   *     // ... filter to delete one OrderPickup
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OrderPickupDeleteArgs>(args: Prisma.SelectSubset<T, OrderPickupDeleteArgs<ExtArgs>>): Prisma.Prisma__OrderPickupClient<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OrderPickup.
+   * @param {OrderPickupUpdateArgs} args - Arguments to update one OrderPickup.
+   * @example
+   * // Update one OrderPickup
+   * const orderPickup = await prisma.orderPickup.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OrderPickupUpdateArgs>(args: Prisma.SelectSubset<T, OrderPickupUpdateArgs<ExtArgs>>): Prisma.Prisma__OrderPickupClient<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OrderPickups.
+   * @param {OrderPickupDeleteManyArgs} args - Arguments to filter OrderPickups to delete.
+   * @example
+   * // Delete a few OrderPickups
+   * const { count } = await prisma.orderPickup.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OrderPickupDeleteManyArgs>(args?: Prisma.SelectSubset<T, OrderPickupDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OrderPickups.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderPickupUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OrderPickups
+   * const orderPickup = await prisma.orderPickup.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OrderPickupUpdateManyArgs>(args: Prisma.SelectSubset<T, OrderPickupUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OrderPickups and returns the data updated in the database.
+   * @param {OrderPickupUpdateManyAndReturnArgs} args - Arguments to update many OrderPickups.
+   * @example
+   * // Update many OrderPickups
+   * const orderPickup = await prisma.orderPickup.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OrderPickups and only return the `id`
+   * const orderPickupWithIdOnly = await prisma.orderPickup.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OrderPickupUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OrderPickupUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OrderPickup.
+   * @param {OrderPickupUpsertArgs} args - Arguments to update or create a OrderPickup.
+   * @example
+   * // Update or create a OrderPickup
+   * const orderPickup = await prisma.orderPickup.upsert({
+   *   create: {
+   *     // ... data to create a OrderPickup
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OrderPickup we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OrderPickupUpsertArgs>(args: Prisma.SelectSubset<T, OrderPickupUpsertArgs<ExtArgs>>): Prisma.Prisma__OrderPickupClient<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OrderPickups.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderPickupCountArgs} args - Arguments to filter OrderPickups to count.
+   * @example
+   * // Count the number of OrderPickups
+   * const count = await prisma.orderPickup.count({
+   *   where: {
+   *     // ... the filter for the OrderPickups we want to count
+   *   }
+   * })
+  **/
+  count<T extends OrderPickupCountArgs>(
+    args?: Prisma.Subset<T, OrderPickupCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OrderPickupCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OrderPickup.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderPickupAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OrderPickupAggregateArgs>(args: Prisma.Subset<T, OrderPickupAggregateArgs>): Prisma.PrismaPromise<GetOrderPickupAggregateType<T>>
+
+  /**
+   * Group by OrderPickup.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderPickupGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OrderPickupGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OrderPickupGroupByArgs['orderBy'] }
+      : { orderBy?: OrderPickupGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OrderPickupGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOrderPickupGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OrderPickup model
+ */
+readonly fields: OrderPickupFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OrderPickup.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OrderPickupClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  location<T extends Prisma.PickupLocationDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PickupLocationDefaultArgs<ExtArgs>>): Prisma.Prisma__PickupLocationClient<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  collectedBy<T extends Prisma.OrderPickup$collectedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderPickup$collectedByArgs<ExtArgs>>): Prisma.Prisma__StaffClient<runtime.Types.Result.GetResult<Prisma.$StaffPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OrderPickup model
+ */
+export interface OrderPickupFieldRefs {
+  readonly id: Prisma.FieldRef<"OrderPickup", 'String'>
+  readonly orderId: Prisma.FieldRef<"OrderPickup", 'String'>
+  readonly locationId: Prisma.FieldRef<"OrderPickup", 'String'>
+  readonly codeHash: Prisma.FieldRef<"OrderPickup", 'String'>
+  readonly failedAttempts: Prisma.FieldRef<"OrderPickup", 'Int'>
+  readonly readyAt: Prisma.FieldRef<"OrderPickup", 'DateTime'>
+  readonly collectedAt: Prisma.FieldRef<"OrderPickup", 'DateTime'>
+  readonly collectedById: Prisma.FieldRef<"OrderPickup", 'String'>
+  readonly createdAt: Prisma.FieldRef<"OrderPickup", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"OrderPickup", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OrderPickup findUnique
+ */
+export type OrderPickupFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderPickup to fetch.
+   */
+  where: Prisma.OrderPickupWhereUniqueInput
+}
+
+/**
+ * OrderPickup findUniqueOrThrow
+ */
+export type OrderPickupFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderPickup to fetch.
+   */
+  where: Prisma.OrderPickupWhereUniqueInput
+}
+
+/**
+ * OrderPickup findFirst
+ */
+export type OrderPickupFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderPickup to fetch.
+   */
+  where?: Prisma.OrderPickupWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderPickups to fetch.
+   */
+  orderBy?: Prisma.OrderPickupOrderByWithRelationInput | Prisma.OrderPickupOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OrderPickups.
+   */
+  cursor?: Prisma.OrderPickupWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderPickups from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderPickups.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OrderPickups.
+   */
+  distinct?: Prisma.OrderPickupScalarFieldEnum | Prisma.OrderPickupScalarFieldEnum[]
+}
+
+/**
+ * OrderPickup findFirstOrThrow
+ */
+export type OrderPickupFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderPickup to fetch.
+   */
+  where?: Prisma.OrderPickupWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderPickups to fetch.
+   */
+  orderBy?: Prisma.OrderPickupOrderByWithRelationInput | Prisma.OrderPickupOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OrderPickups.
+   */
+  cursor?: Prisma.OrderPickupWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderPickups from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderPickups.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OrderPickups.
+   */
+  distinct?: Prisma.OrderPickupScalarFieldEnum | Prisma.OrderPickupScalarFieldEnum[]
+}
+
+/**
+ * OrderPickup findMany
+ */
+export type OrderPickupFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderPickups to fetch.
+   */
+  where?: Prisma.OrderPickupWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderPickups to fetch.
+   */
+  orderBy?: Prisma.OrderPickupOrderByWithRelationInput | Prisma.OrderPickupOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OrderPickups.
+   */
+  cursor?: Prisma.OrderPickupWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderPickups from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderPickups.
+   */
+  skip?: number
+  distinct?: Prisma.OrderPickupScalarFieldEnum | Prisma.OrderPickupScalarFieldEnum[]
+}
+
+/**
+ * OrderPickup create
+ */
+export type OrderPickupCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  /**
+   * The data needed to create a OrderPickup.
+   */
+  data: Prisma.XOR<Prisma.OrderPickupCreateInput, Prisma.OrderPickupUncheckedCreateInput>
+}
+
+/**
+ * OrderPickup createMany
+ */
+export type OrderPickupCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OrderPickups.
+   */
+  data: Prisma.OrderPickupCreateManyInput | Prisma.OrderPickupCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * OrderPickup createManyAndReturn
+ */
+export type OrderPickupCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * The data used to create many OrderPickups.
+   */
+  data: Prisma.OrderPickupCreateManyInput | Prisma.OrderPickupCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OrderPickup update
+ */
+export type OrderPickupUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  /**
+   * The data needed to update a OrderPickup.
+   */
+  data: Prisma.XOR<Prisma.OrderPickupUpdateInput, Prisma.OrderPickupUncheckedUpdateInput>
+  /**
+   * Choose, which OrderPickup to update.
+   */
+  where: Prisma.OrderPickupWhereUniqueInput
+}
+
+/**
+ * OrderPickup updateMany
+ */
+export type OrderPickupUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OrderPickups.
+   */
+  data: Prisma.XOR<Prisma.OrderPickupUpdateManyMutationInput, Prisma.OrderPickupUncheckedUpdateManyInput>
+  /**
+   * Filter which OrderPickups to update
+   */
+  where?: Prisma.OrderPickupWhereInput
+  /**
+   * Limit how many OrderPickups to update.
+   */
+  limit?: number
+}
+
+/**
+ * OrderPickup updateManyAndReturn
+ */
+export type OrderPickupUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * The data used to update OrderPickups.
+   */
+  data: Prisma.XOR<Prisma.OrderPickupUpdateManyMutationInput, Prisma.OrderPickupUncheckedUpdateManyInput>
+  /**
+   * Filter which OrderPickups to update
+   */
+  where?: Prisma.OrderPickupWhereInput
+  /**
+   * Limit how many OrderPickups to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OrderPickup upsert
+ */
+export type OrderPickupUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  /**
+   * The filter to search for the OrderPickup to update in case it exists.
+   */
+  where: Prisma.OrderPickupWhereUniqueInput
+  /**
+   * In case the OrderPickup found by the `where` argument doesn't exist, create a new OrderPickup with this data.
+   */
+  create: Prisma.XOR<Prisma.OrderPickupCreateInput, Prisma.OrderPickupUncheckedCreateInput>
+  /**
+   * In case the OrderPickup was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OrderPickupUpdateInput, Prisma.OrderPickupUncheckedUpdateInput>
+}
+
+/**
+ * OrderPickup delete
+ */
+export type OrderPickupDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  /**
+   * Filter which OrderPickup to delete.
+   */
+  where: Prisma.OrderPickupWhereUniqueInput
+}
+
+/**
+ * OrderPickup deleteMany
+ */
+export type OrderPickupDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OrderPickups to delete
+   */
+  where?: Prisma.OrderPickupWhereInput
+  /**
+   * Limit how many OrderPickups to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OrderPickup.collectedBy
+ */
+export type OrderPickup$collectedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Staff
+   */
+  select?: Prisma.StaffSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Staff
+   */
+  omit?: Prisma.StaffOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StaffInclude<ExtArgs> | null
+  where?: Prisma.StaffWhereInput
+}
+
+/**
+ * OrderPickup without action
+ */
+export type OrderPickupDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+}
@@ -0,0 +1,2279 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OrderRefund` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model OrderRefund
+ * 
+ */
+export type OrderRefundModel = runtime.Types.Result.DefaultSelection<Prisma.$OrderRefundPayload>
+
+export type AggregateOrderRefund = {
+  _count: OrderRefundCountAggregateOutputType | null
+  _avg: OrderRefundAvgAggregateOutputType | null
+  _sum: OrderRefundSumAggregateOutputType | null
+  _min: OrderRefundMinAggregateOutputType | null
+  _max: OrderRefundMaxAggregateOutputType | null
+}
+
+export type OrderRefundAvgAggregateOutputType = {
+  amount: number | null
+  amountNGN: number | null
+}
+
+export type OrderRefundSumAggregateOutputType = {
+  amount: number | null
+  amountNGN: number | null
+}
+
+export type OrderRefundMinAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  amount: number | null
+  currency: $Enums.Currency | null
+  amountNGN: number | null
+  reason: string | null
+  status: $Enums.RefundStatus | null
+  provider: string | null
+  providerRefundId: string | null
+  failureReason: string | null
+  processedAt: Date | null
+  creditNoteSentAt: Date | null
+  staffId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type OrderRefundMaxAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  amount: number | null
+  currency: $Enums.Currency | null
+  amountNGN: number | null
+  reason: string | null
+  status: $Enums.RefundStatus | null
+  provider: string | null
+  providerRefundId: string | null
+  failureReason: string | null
+  processedAt: Date | null
+  creditNoteSentAt: Date | null
+  staffId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type OrderRefundCountAggregateOutputType = {
+  id: number
+  orderId: number
+  amount: number
+  currency: number
+  amountNGN: number
+  reason: number
+  status: number
+  provider: number
+  providerRefundId: number
+  failureReason: number
+  processedAt: number
+  creditNoteSentAt: number
+  staffId: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type OrderRefundAvgAggregateInputType = {
+  amount?: true
+  amountNGN?: true
+}
+
+export type OrderRefundSumAggregateInputType = {
+  amount?: true
+  amountNGN?: true
+}
+
+export type OrderRefundMinAggregateInputType = {
+  id?: true
+  orderId?: true
+  amount?: true
+  currency?: true
+  amountNGN?: true
+  reason?: true
+  status?: true
+  provider?: true
+  providerRefundId?: true
+  failureReason?: true
+  processedAt?: true
+  creditNoteSentAt?: true
+  staffId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type OrderRefundMaxAggregateInputType = {
+  id?: true
+  orderId?: true
+  amount?: true
+  currency?: true
+  amountNGN?: true
+  reason?: true
+  status?: true
+  provider?: true
+  providerRefundId?: true
+  failureReason?: true
+  processedAt?: true
+  creditNoteSentAt?: true
+  staffId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type OrderRefundCountAggregateInputType = {
+  id?: true
+  orderId?: true
+  amount?: true
+  currency?: true
+  amountNGN?: true
+  reason?: true
+  status?: true
+  provider?: true
+  providerRefundId?: true
+  failureReason?: true
+  processedAt?: true
+  creditNoteSentAt?: true
+  staffId?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type OrderRefundAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OrderRefund to aggregate.
+   */
+  where?: Prisma.OrderRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderRefunds to fetch.
+   */
+  orderBy?: Prisma.OrderRefundOrderByWithRelationInput | Prisma.OrderRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OrderRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderRefunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OrderRefunds
+  **/
+  _count?: true | OrderRefundCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OrderRefundAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OrderRefundSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OrderRefundMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OrderRefundMaxAggregateInputType
+}
+
+export type GetOrderRefundAggregateType<T extends OrderRefundAggregateArgs> = {
+      [P in keyof T & keyof AggregateOrderRefund]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOrderRefund[P]>
+    : Prisma.GetScalarType<T[P], AggregateOrderRefund[P]>
+}
+
+
+
+
+export type OrderRefundGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderRefundWhereInput
+  orderBy?: Prisma.OrderRefundOrderByWithAggregationInput | Prisma.OrderRefundOrderByWithAggregationInput[]
+  by: Prisma.OrderRefundScalarFieldEnum[] | Prisma.OrderRefundScalarFieldEnum
+  having?: Prisma.OrderRefundScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OrderRefundCountAggregateInputType | true
+  _avg?: OrderRefundAvgAggregateInputType
+  _sum?: OrderRefundSumAggregateInputType
+  _min?: OrderRefundMinAggregateInputType
+  _max?: OrderRefundMaxAggregateInputType
+}
+
+export type OrderRefundGroupByOutputType = {
+  id: string
+  orderId: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason: string | null
+  status: $Enums.RefundStatus
+  provider: string
+  providerRefundId: string | null
+  failureReason: string | null
+  processedAt: Date | null
+  creditNoteSentAt: Date | null
+  staffId: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: OrderRefundCountAggregateOutputType | null
+  _avg: OrderRefundAvgAggregateOutputType | null
+  _sum: OrderRefundSumAggregateOutputType | null
+  _min: OrderRefundMinAggregateOutputType | null
+  _max: OrderRefundMaxAggregateOutputType | null
+}
+
+type GetOrderRefundGroupByPayload<T extends OrderRefundGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OrderRefundGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OrderRefundGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OrderRefundGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OrderRefundGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OrderRefundWhereInput = {
+  AND?: Prisma.OrderRefundWhereInput | Prisma.OrderRefundWhereInput[]
+  OR?: Prisma.OrderRefundWhereInput[]
+  NOT?: Prisma.OrderRefundWhereInput | Prisma.OrderRefundWhereInput[]
+  id?: Prisma.StringFilter<"OrderRefund"> | string
+  orderId?: Prisma.StringFilter<"OrderRefund"> | string
+  amount?: Prisma.FloatFilter<"OrderRefund"> | number
+  currency?: Prisma.EnumCurrencyFilter<"OrderRefund"> | $Enums.Currency
+  amountNGN?: Prisma.FloatFilter<"OrderRefund"> | number
+  reason?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  status?: Prisma.EnumRefundStatusFilter<"OrderRefund"> | $Enums.RefundStatus
+  provider?: Prisma.StringFilter<"OrderRefund"> | string
+  providerRefundId?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  failureReason?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"OrderRefund"> | Date | string | null
+  creditNoteSentAt?: Prisma.DateTimeNullableFilter<"OrderRefund"> | Date | string | null
+  staffId?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OrderRefund"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"OrderRefund"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  staff?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+  items?: Prisma.OrderRefundItemListRelationFilter
+  returnRequest?: Prisma.XOR<Prisma.ReturnRequestNullableScalarRelationFilter, Prisma.ReturnRequestWhereInput> | null
+}
+
+export type OrderRefundOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  amountNGN?: Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  failureReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  creditNoteSentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  staffId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  order?: Prisma.OrderOrderByWithRelationInput
+  staff?: Prisma.StaffOrderByWithRelationInput
+  items?: Prisma.OrderRefundItemOrderByRelationAggregateInput
+  returnRequest?: Prisma.ReturnRequestOrderByWithRelationInput
+}
+
+export type OrderRefundWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  providerRefundId?: string
+  AND?: Prisma.OrderRefundWhereInput | Prisma.OrderRefundWhereInput[]
+  OR?: Prisma.OrderRefundWhereInput[]
+  NOT?: Prisma.OrderRefundWhereInput | Prisma.OrderRefundWhereInput[]
+  orderId?: Prisma.StringFilter<"OrderRefund"> | string
+  amount?: Prisma.FloatFilter<"OrderRefund"> | number
+  currency?: Prisma.EnumCurrencyFilter<"OrderRefund"> | $Enums.Currency
+  amountNGN?: Prisma.FloatFilter<"OrderRefund"> | number
+  reason?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  status?: Prisma.EnumRefundStatusFilter<"OrderRefund"> | $Enums.RefundStatus
+  provider?: Prisma.StringFilter<"OrderRefund"> | string
+  failureReason?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"OrderRefund"> | Date | string | null
+  creditNoteSentAt?: Prisma.DateTimeNullableFilter<"OrderRefund"> | Date | string | null
+  staffId?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OrderRefund"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"OrderRefund"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  staff?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+  items?: Prisma.OrderRefundItemListRelationFilter
+  returnRequest?: Prisma.XOR<Prisma.ReturnRequestNullableScalarRelationFilter, Prisma.ReturnRequestWhereInput> | null
+}, "id" | "providerRefundId">
+
+export type OrderRefundOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  amountNGN?: Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  failureReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  creditNoteSentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  staffId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.OrderRefundCountOrderByAggregateInput
+  _avg?: Prisma.OrderRefundAvgOrderByAggregateInput
+  _max?: Prisma.OrderRefundMaxOrderByAggregateInput
+  _min?: Prisma.OrderRefundMinOrderByAggregateInput
+  _sum?: Prisma.OrderRefundSumOrderByAggregateInput
+}
+
+export type OrderRefundScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OrderRefundScalarWhereWithAggregatesInput | Prisma.OrderRefundScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OrderRefundScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OrderRefundScalarWhereWithAggregatesInput | Prisma.OrderRefundScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"OrderRefund"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"OrderRefund"> | string
+  amount?: Prisma.FloatWithAggregatesFilter<"OrderRefund"> | number
+  currency?: Prisma.EnumCurrencyWithAggregatesFilter<"OrderRefund"> | $Enums.Currency
+  amountNGN?: Prisma.FloatWithAggregatesFilter<"OrderRefund"> | number
+  reason?: Prisma.StringNullableWithAggregatesFilter<"OrderRefund"> | string | null
+  status?: Prisma.EnumRefundStatusWithAggregatesFilter<"OrderRefund"> | $Enums.RefundStatus
+  provider?: Prisma.StringWithAggregatesFilter<"OrderRefund"> | string
+  providerRefundId?: Prisma.StringNullableWithAggregatesFilter<"OrderRefund"> | string | null
+  failureReason?: Prisma.StringNullableWithAggregatesFilter<"OrderRefund"> | string | null
+  processedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"OrderRefund"> | Date | string | null
+  creditNoteSentAt?: Prisma.DateTimeNullableWithAggregatesFilter<"OrderRefund"> | Date | string | null
+  staffId?: Prisma.StringNullableWithAggregatesFilter<"OrderRefund"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"OrderRefund"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"OrderRefund"> | Date | string
+}
+
+export type OrderRefundCreateInput = {
+  id?: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutRefundsInput
+  staff?: Prisma.StaffCreateNestedOneWithoutRefundsInput
+  items?: Prisma.OrderRefundItemCreateNestedManyWithoutRefundInput
+  returnRequest?: Prisma.ReturnRequestCreateNestedOneWithoutRefundInput
+}
+
+export type OrderRefundUncheckedCreateInput = {
+  id?: string
+  orderId: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  staffId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.OrderRefundItemUncheckedCreateNestedManyWithoutRefundInput
+  returnRequest?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type OrderRefundUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutRefundsNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutRefundsNestedInput
+  items?: Prisma.OrderRefundItemUpdateManyWithoutRefundNestedInput
+  returnRequest?: Prisma.ReturnRequestUpdateOneWithoutRefundNestedInput
+}
+
+export type OrderRefundUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.OrderRefundItemUncheckedUpdateManyWithoutRefundNestedInput
+  returnRequest?: Prisma.ReturnRequestUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type OrderRefundCreateManyInput = {
+  id?: string
+  orderId: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  staffId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderRefundUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderRefundUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderRefundListRelationFilter = {
+  every?: Prisma.OrderRefundWhereInput
+  some?: Prisma.OrderRefundWhereInput
+  none?: Prisma.OrderRefundWhereInput
+}
+
+export type OrderRefundOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type OrderRefundCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  amountNGN?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  creditNoteSentAt?: Prisma.SortOrder
+  staffId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OrderRefundAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+  amountNGN?: Prisma.SortOrder
+}
+
+export type OrderRefundMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  amountNGN?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  creditNoteSentAt?: Prisma.SortOrder
+  staffId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OrderRefundMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  amountNGN?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  creditNoteSentAt?: Prisma.SortOrder
+  staffId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OrderRefundSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+  amountNGN?: Prisma.SortOrder
+}
+
+export type OrderRefundScalarRelationFilter = {
+  is?: Prisma.OrderRefundWhereInput
+  isNot?: Prisma.OrderRefundWhereInput
+}
+
+export type OrderRefundNullableScalarRelationFilter = {
+  is?: Prisma.OrderRefundWhereInput | null
+  isNot?: Prisma.OrderRefundWhereInput | null
+}
+
+export type OrderRefundCreateNestedManyWithoutStaffInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutStaffInput, Prisma.OrderRefundUncheckedCreateWithoutStaffInput> | Prisma.OrderRefundCreateWithoutStaffInput[] | Prisma.OrderRefundUncheckedCreateWithoutStaffInput[]
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutStaffInput | Prisma.OrderRefundCreateOrConnectWithoutStaffInput[]
+  createMany?: Prisma.OrderRefundCreateManyStaffInputEnvelope
+  connect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+}
+
+export type OrderRefundUncheckedCreateNestedManyWithoutStaffInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutStaffInput, Prisma.OrderRefundUncheckedCreateWithoutStaffInput> | Prisma.OrderRefundCreateWithoutStaffInput[] | Prisma.OrderRefundUncheckedCreateWithoutStaffInput[]
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutStaffInput | Prisma.OrderRefundCreateOrConnectWithoutStaffInput[]
+  createMany?: Prisma.OrderRefundCreateManyStaffInputEnvelope
+  connect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+}
+
+export type OrderRefundUpdateManyWithoutStaffNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutStaffInput, Prisma.OrderRefundUncheckedCreateWithoutStaffInput> | Prisma.OrderRefundCreateWithoutStaffInput[] | Prisma.OrderRefundUncheckedCreateWithoutStaffInput[]
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutStaffInput | Prisma.OrderRefundCreateOrConnectWithoutStaffInput[]
+  upsert?: Prisma.OrderRefundUpsertWithWhereUniqueWithoutStaffInput | Prisma.OrderRefundUpsertWithWhereUniqueWithoutStaffInput[]
+  createMany?: Prisma.OrderRefundCreateManyStaffInputEnvelope
+  set?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  disconnect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  delete?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  connect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  update?: Prisma.OrderRefundUpdateWithWhereUniqueWithoutStaffInput | Prisma.OrderRefundUpdateWithWhereUniqueWithoutStaffInput[]
+  updateMany?: Prisma.OrderRefundUpdateManyWithWhereWithoutStaffInput | Prisma.OrderRefundUpdateManyWithWhereWithoutStaffInput[]
+  deleteMany?: Prisma.OrderRefundScalarWhereInput | Prisma.OrderRefundScalarWhereInput[]
+}
+
+export type OrderRefundUncheckedUpdateManyWithoutStaffNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutStaffInput, Prisma.OrderRefundUncheckedCreateWithoutStaffInput> | Prisma.OrderRefundCreateWithoutStaffInput[] | Prisma.OrderRefundUncheckedCreateWithoutStaffInput[]
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutStaffInput | Prisma.OrderRefundCreateOrConnectWithoutStaffInput[]
+  upsert?: Prisma.OrderRefundUpsertWithWhereUniqueWithoutStaffInput | Prisma.OrderRefundUpsertWithWhereUniqueWithoutStaffInput[]
+  createMany?: Prisma.OrderRefundCreateManyStaffInputEnvelope
+  set?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  disconnect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  delete?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  connect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  update?: Prisma.OrderRefundUpdateWithWhereUniqueWithoutStaffInput | Prisma.OrderRefundUpdateWithWhereUniqueWithoutStaffInput[]
+  updateMany?: Prisma.OrderRefundUpdateManyWithWhereWithoutStaffInput | Prisma.OrderRefundUpdateManyWithWhereWithoutStaffInput[]
+  deleteMany?: Prisma.OrderRefundScalarWhereInput | Prisma.OrderRefundScalarWhereInput[]
+}
+
+export type OrderRefundCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutOrderInput, Prisma.OrderRefundUncheckedCreateWithoutOrderInput> | Prisma.OrderRefundCreateWithoutOrderInput[] | Prisma.OrderRefundUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutOrderInput | Prisma.OrderRefundCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.OrderRefundCreateManyOrderInputEnvelope
+  connect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+}
+
+export type OrderRefundUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutOrderInput, Prisma.OrderRefundUncheckedCreateWithoutOrderInput> | Prisma.OrderRefundCreateWithoutOrderInput[] | Prisma.OrderRefundUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutOrderInput | Prisma.OrderRefundCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.OrderRefundCreateManyOrderInputEnvelope
+  connect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+}
+
+export type OrderRefundUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutOrderInput, Prisma.OrderRefundUncheckedCreateWithoutOrderInput> | Prisma.OrderRefundCreateWithoutOrderInput[] | Prisma.OrderRefundUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutOrderInput | Prisma.OrderRefundCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.OrderRefundUpsertWithWhereUniqueWithoutOrderInput | Prisma.OrderRefundUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.OrderRefundCreateManyOrderInputEnvelope
+  set?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  disconnect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  delete?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  connect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  update?: Prisma.OrderRefundUpdateWithWhereUniqueWithoutOrderInput | Prisma.OrderRefundUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.OrderRefundUpdateManyWithWhereWithoutOrderInput | Prisma.OrderRefundUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.OrderRefundScalarWhereInput | Prisma.OrderRefundScalarWhereInput[]
+}
+
+export type OrderRefundUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutOrderInput, Prisma.OrderRefundUncheckedCreateWithoutOrderInput> | Prisma.OrderRefundCreateWithoutOrderInput[] | Prisma.OrderRefundUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutOrderInput | Prisma.OrderRefundCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.OrderRefundUpsertWithWhereUniqueWithoutOrderInput | Prisma.OrderRefundUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.OrderRefundCreateManyOrderInputEnvelope
+  set?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  disconnect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  delete?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  connect?: Prisma.OrderRefundWhereUniqueInput | Prisma.OrderRefundWhereUniqueInput[]
+  update?: Prisma.OrderRefundUpdateWithWhereUniqueWithoutOrderInput | Prisma.OrderRefundUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.OrderRefundUpdateManyWithWhereWithoutOrderInput | Prisma.OrderRefundUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.OrderRefundScalarWhereInput | Prisma.OrderRefundScalarWhereInput[]
+}
+
+export type EnumRefundStatusFieldUpdateOperationsInput = {
+  set?: $Enums.RefundStatus
+}
+
+export type OrderRefundCreateNestedOneWithoutItemsInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutItemsInput, Prisma.OrderRefundUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutItemsInput
+  connect?: Prisma.OrderRefundWhereUniqueInput
+}
+
+export type OrderRefundUpdateOneRequiredWithoutItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutItemsInput, Prisma.OrderRefundUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutItemsInput
+  upsert?: Prisma.OrderRefundUpsertWithoutItemsInput
+  connect?: Prisma.OrderRefundWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderRefundUpdateToOneWithWhereWithoutItemsInput, Prisma.OrderRefundUpdateWithoutItemsInput>, Prisma.OrderRefundUncheckedUpdateWithoutItemsInput>
+}
+
+export type OrderRefundCreateNestedOneWithoutReturnRequestInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutReturnRequestInput, Prisma.OrderRefundUncheckedCreateWithoutReturnRequestInput>
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutReturnRequestInput
+  connect?: Prisma.OrderRefundWhereUniqueInput
+}
+
+export type OrderRefundUpdateOneWithoutReturnRequestNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundCreateWithoutReturnRequestInput, Prisma.OrderRefundUncheckedCreateWithoutReturnRequestInput>
+  connectOrCreate?: Prisma.OrderRefundCreateOrConnectWithoutReturnRequestInput
+  upsert?: Prisma.OrderRefundUpsertWithoutReturnRequestInput
+  disconnect?: Prisma.OrderRefundWhereInput | boolean
+  delete?: Prisma.OrderRefundWhereInput | boolean
+  connect?: Prisma.OrderRefundWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderRefundUpdateToOneWithWhereWithoutReturnRequestInput, Prisma.OrderRefundUpdateWithoutReturnRequestInput>, Prisma.OrderRefundUncheckedUpdateWithoutReturnRequestInput>
+}
+
+export type OrderRefundCreateWithoutStaffInput = {
+  id?: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutRefundsInput
+  items?: Prisma.OrderRefundItemCreateNestedManyWithoutRefundInput
+  returnRequest?: Prisma.ReturnRequestCreateNestedOneWithoutRefundInput
+}
+
+export type OrderRefundUncheckedCreateWithoutStaffInput = {
+  id?: string
+  orderId: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.OrderRefundItemUncheckedCreateNestedManyWithoutRefundInput
+  returnRequest?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type OrderRefundCreateOrConnectWithoutStaffInput = {
+  where: Prisma.OrderRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderRefundCreateWithoutStaffInput, Prisma.OrderRefundUncheckedCreateWithoutStaffInput>
+}
+
+export type OrderRefundCreateManyStaffInputEnvelope = {
+  data: Prisma.OrderRefundCreateManyStaffInput | Prisma.OrderRefundCreateManyStaffInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderRefundUpsertWithWhereUniqueWithoutStaffInput = {
+  where: Prisma.OrderRefundWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderRefundUpdateWithoutStaffInput, Prisma.OrderRefundUncheckedUpdateWithoutStaffInput>
+  create: Prisma.XOR<Prisma.OrderRefundCreateWithoutStaffInput, Prisma.OrderRefundUncheckedCreateWithoutStaffInput>
+}
+
+export type OrderRefundUpdateWithWhereUniqueWithoutStaffInput = {
+  where: Prisma.OrderRefundWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderRefundUpdateWithoutStaffInput, Prisma.OrderRefundUncheckedUpdateWithoutStaffInput>
+}
+
+export type OrderRefundUpdateManyWithWhereWithoutStaffInput = {
+  where: Prisma.OrderRefundScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderRefundUpdateManyMutationInput, Prisma.OrderRefundUncheckedUpdateManyWithoutStaffInput>
+}
+
+export type OrderRefundScalarWhereInput = {
+  AND?: Prisma.OrderRefundScalarWhereInput | Prisma.OrderRefundScalarWhereInput[]
+  OR?: Prisma.OrderRefundScalarWhereInput[]
+  NOT?: Prisma.OrderRefundScalarWhereInput | Prisma.OrderRefundScalarWhereInput[]
+  id?: Prisma.StringFilter<"OrderRefund"> | string
+  orderId?: Prisma.StringFilter<"OrderRefund"> | string
+  amount?: Prisma.FloatFilter<"OrderRefund"> | number
+  currency?: Prisma.EnumCurrencyFilter<"OrderRefund"> | $Enums.Currency
+  amountNGN?: Prisma.FloatFilter<"OrderRefund"> | number
+  reason?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  status?: Prisma.EnumRefundStatusFilter<"OrderRefund"> | $Enums.RefundStatus
+  provider?: Prisma.StringFilter<"OrderRefund"> | string
+  providerRefundId?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  failureReason?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"OrderRefund"> | Date | string | null
+  creditNoteSentAt?: Prisma.DateTimeNullableFilter<"OrderRefund"> | Date | string | null
+  staffId?: Prisma.StringNullableFilter<"OrderRefund"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OrderRefund"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"OrderRefund"> | Date | string
+}
+
+export type OrderRefundCreateWithoutOrderInput = {
+  id?: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  staff?: Prisma.StaffCreateNestedOneWithoutRefundsInput
+  items?: Prisma.OrderRefundItemCreateNestedManyWithoutRefundInput
+  returnRequest?: Prisma.ReturnRequestCreateNestedOneWithoutRefundInput
+}
+
+export type OrderRefundUncheckedCreateWithoutOrderInput = {
+  id?: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  staffId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.OrderRefundItemUncheckedCreateNestedManyWithoutRefundInput
+  returnRequest?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type OrderRefundCreateOrConnectWithoutOrderInput = {
+  where: Prisma.OrderRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderRefundCreateWithoutOrderInput, Prisma.OrderRefundUncheckedCreateWithoutOrderInput>
+}
+
+export type OrderRefundCreateManyOrderInputEnvelope = {
+  data: Prisma.OrderRefundCreateManyOrderInput | Prisma.OrderRefundCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderRefundUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.OrderRefundWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderRefundUpdateWithoutOrderInput, Prisma.OrderRefundUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.OrderRefundCreateWithoutOrderInput, Prisma.OrderRefundUncheckedCreateWithoutOrderInput>
+}
+
+export type OrderRefundUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.OrderRefundWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderRefundUpdateWithoutOrderInput, Prisma.OrderRefundUncheckedUpdateWithoutOrderInput>
+}
+
+export type OrderRefundUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.OrderRefundScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderRefundUpdateManyMutationInput, Prisma.OrderRefundUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type OrderRefundCreateWithoutItemsInput = {
+  id?: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutRefundsInput
+  staff?: Prisma.StaffCreateNestedOneWithoutRefundsInput
+  returnRequest?: Prisma.ReturnRequestCreateNestedOneWithoutRefundInput
+}
+
+export type OrderRefundUncheckedCreateWithoutItemsInput = {
+  id?: string
+  orderId: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  staffId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  returnRequest?: Prisma.ReturnRequestUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type OrderRefundCreateOrConnectWithoutItemsInput = {
+  where: Prisma.OrderRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderRefundCreateWithoutItemsInput, Prisma.OrderRefundUncheckedCreateWithoutItemsInput>
+}
+
+export type OrderRefundUpsertWithoutItemsInput = {
+  update: Prisma.XOR<Prisma.OrderRefundUpdateWithoutItemsInput, Prisma.OrderRefundUncheckedUpdateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.OrderRefundCreateWithoutItemsInput, Prisma.OrderRefundUncheckedCreateWithoutItemsInput>
+  where?: Prisma.OrderRefundWhereInput
+}
+
+export type OrderRefundUpdateToOneWithWhereWithoutItemsInput = {
+  where?: Prisma.OrderRefundWhereInput
+  data: Prisma.XOR<Prisma.OrderRefundUpdateWithoutItemsInput, Prisma.OrderRefundUncheckedUpdateWithoutItemsInput>
+}
+
+export type OrderRefundUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutRefundsNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutRefundsNestedInput
+  returnRequest?: Prisma.ReturnRequestUpdateOneWithoutRefundNestedInput
+}
+
+export type OrderRefundUncheckedUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  returnRequest?: Prisma.ReturnRequestUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type OrderRefundCreateWithoutReturnRequestInput = {
+  id?: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutRefundsInput
+  staff?: Prisma.StaffCreateNestedOneWithoutRefundsInput
+  items?: Prisma.OrderRefundItemCreateNestedManyWithoutRefundInput
+}
+
+export type OrderRefundUncheckedCreateWithoutReturnRequestInput = {
+  id?: string
+  orderId: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  staffId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.OrderRefundItemUncheckedCreateNestedManyWithoutRefundInput
+}
+
+export type OrderRefundCreateOrConnectWithoutReturnRequestInput = {
+  where: Prisma.OrderRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderRefundCreateWithoutReturnRequestInput, Prisma.OrderRefundUncheckedCreateWithoutReturnRequestInput>
+}
+
+export type OrderRefundUpsertWithoutReturnRequestInput = {
+  update: Prisma.XOR<Prisma.OrderRefundUpdateWithoutReturnRequestInput, Prisma.OrderRefundUncheckedUpdateWithoutReturnRequestInput>
+  create: Prisma.XOR<Prisma.OrderRefundCreateWithoutReturnRequestInput, Prisma.OrderRefundUncheckedCreateWithoutReturnRequestInput>
+  where?: Prisma.OrderRefundWhereInput
+}
+
+export type OrderRefundUpdateToOneWithWhereWithoutReturnRequestInput = {
+  where?: Prisma.OrderRefundWhereInput
+  data: Prisma.XOR<Prisma.OrderRefundUpdateWithoutReturnRequestInput, Prisma.OrderRefundUncheckedUpdateWithoutReturnRequestInput>
+}
+
+export type OrderRefundUpdateWithoutReturnRequestInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutRefundsNestedInput
+  staff?: Prisma.StaffUpdateOneWithoutRefundsNestedInput
+  items?: Prisma.OrderRefundItemUpdateManyWithoutRefundNestedInput
+}
+
+export type OrderRefundUncheckedUpdateWithoutReturnRequestInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.OrderRefundItemUncheckedUpdateManyWithoutRefundNestedInput
+}
+
+export type OrderRefundCreateManyStaffInput = {
+  id?: string
+  orderId: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderRefundUpdateWithoutStaffInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutRefundsNestedInput
+  items?: Prisma.OrderRefundItemUpdateManyWithoutRefundNestedInput
+  returnRequest?: Prisma.ReturnRequestUpdateOneWithoutRefundNestedInput
+}
+
+export type OrderRefundUncheckedUpdateWithoutStaffInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.OrderRefundItemUncheckedUpdateManyWithoutRefundNestedInput
+  returnRequest?: Prisma.ReturnRequestUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type OrderRefundUncheckedUpdateManyWithoutStaffInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderRefundCreateManyOrderInput = {
+  id?: string
+  amount: number
+  currency: $Enums.Currency
+  amountNGN: number
+  reason?: string | null
+  status?: $Enums.RefundStatus
+  provider: string
+  providerRefundId?: string | null
+  failureReason?: string | null
+  processedAt?: Date | string | null
+  creditNoteSentAt?: Date | string | null
+  staffId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderRefundUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  staff?: Prisma.StaffUpdateOneWithoutRefundsNestedInput
+  items?: Prisma.OrderRefundItemUpdateManyWithoutRefundNestedInput
+  returnRequest?: Prisma.ReturnRequestUpdateOneWithoutRefundNestedInput
+}
+
+export type OrderRefundUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.OrderRefundItemUncheckedUpdateManyWithoutRefundNestedInput
+  returnRequest?: Prisma.ReturnRequestUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type OrderRefundUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  amountNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  creditNoteSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type OrderRefundCountOutputType
+ */
+
+export type OrderRefundCountOutputType = {
+  items: number
+}
+
+export type OrderRefundCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | OrderRefundCountOutputTypeCountItemsArgs
+}
+
+/**
+ * OrderRefundCountOutputType without action
+ */
+export type OrderRefundCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundCountOutputType
+   */
+  select?: Prisma.OrderRefundCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * OrderRefundCountOutputType without action
+ */
+export type OrderRefundCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderRefundItemWhereInput
+}
+
+
+export type OrderRefundSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  amount?: boolean
+  currency?: boolean
+  amountNGN?: boolean
+  reason?: boolean
+  status?: boolean
+  provider?: boolean
+  providerRefundId?: boolean
+  failureReason?: boolean
+  processedAt?: boolean
+  creditNoteSentAt?: boolean
+  staffId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  staff?: boolean | Prisma.OrderRefund$staffArgs<ExtArgs>
+  items?: boolean | Prisma.OrderRefund$itemsArgs<ExtArgs>
+  returnRequest?: boolean | Prisma.OrderRefund$returnRequestArgs<ExtArgs>
+  _count?: boolean | Prisma.OrderRefundCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["orderRefund"]>
+
+export type OrderRefundSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  amount?: boolean
+  currency?: boolean
+  amountNGN?: boolean
+  reason?: boolean
+  status?: boolean
+  provider?: boolean
+  providerRefundId?: boolean
+  failureReason?: boolean
+  processedAt?: boolean
+  creditNoteSentAt?: boolean
+  staffId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  staff?: boolean | Prisma.OrderRefund$staffArgs<ExtArgs>
+}, ExtArgs["result"]["orderRefund"]>
+
+export type OrderRefundSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  amount?: boolean
+  currency?: boolean
+  amountNGN?: boolean
+  reason?: boolean
+  status?: boolean
+  provider?: boolean
+  providerRefundId?: boolean
+  failureReason?: boolean
+  processedAt?: boolean
+  creditNoteSentAt?: boolean
+  staffId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  staff?: boolean | Prisma.OrderRefund$staffArgs<ExtArgs>
+}, ExtArgs["result"]["orderRefund"]>
+
+export type OrderRefundSelectScalar = {
+  id?: boolean
+  orderId?: boolean
+  amount?: boolean
+  currency?: boolean
+  amountNGN?: boolean
+  reason?: boolean
+  status?: boolean
+  provider?: boolean
+  providerRefundId?: boolean
+  failureReason?: boolean
+  processedAt?: boolean
+  creditNoteSentAt?: boolean
+  staffId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type OrderRefundOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "amount" | "currency" | "amountNGN" | "reason" | "status" | "provider" | "providerRefundId" | "failureReason" | "processedAt" | "creditNoteSentAt" | "staffId" | "createdAt" | "updatedAt", ExtArgs["result"]["orderRefund"]>
+export type OrderRefundInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  staff?: boolean | Prisma.OrderRefund$staffArgs<ExtArgs>
+  items?: boolean | Prisma.OrderRefund$itemsArgs<ExtArgs>
+  returnRequest?: boolean | Prisma.OrderRefund$returnRequestArgs<ExtArgs>
+  _count?: boolean | Prisma.OrderRefundCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type OrderRefundIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  staff?: boolean | Prisma.OrderRefund$staffArgs<ExtArgs>
+}
+export type OrderRefundIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  staff?: boolean | Prisma.OrderRefund$staffArgs<ExtArgs>
+}
+
+export type $OrderRefundPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OrderRefund"
+  objects: {
+    order: Prisma.$OrderPayload<ExtArgs>
+    staff: Prisma.$StaffPayload<ExtArgs> | null
+    items: Prisma.$OrderRefundItemPayload<ExtArgs>[]
+    returnRequest: Prisma.$ReturnRequestPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    orderId: string
+    amount: number
+    currency: $Enums.Currency
+    amountNGN: number
+    reason: string | null
+    status: $Enums.RefundStatus
+    provider: string
+    providerRefundId: string | null
+    failureReason: string | null
+    processedAt: Date | null
+    creditNoteSentAt: Date | null
+    staffId: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["orderRefund"]>
+  composites: {}
+}
+
+export type OrderRefundGetPayload<S extends boolean | null | undefined | OrderRefundDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload, S>
+
+export type OrderRefundCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OrderRefundFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OrderRefundCountAggregateInputType | true
+  }
+
+export interface OrderRefundDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OrderRefund'], meta: { name: 'OrderRefund' } }
+  /**
+   * Find zero or one OrderRefund that matches the filter.
+   * @param {OrderRefundFindUniqueArgs} args - Arguments to find a OrderRefund
+   * @example
+   * // Get one OrderRefund
+   * const orderRefund = await prisma.orderRefund.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OrderRefundFindUniqueArgs>(args: Prisma.SelectSubset<T, OrderRefundFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OrderRefund that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OrderRefundFindUniqueOrThrowArgs} args - Arguments to find a OrderRefund
+   * @example
+   * // Get one OrderRefund
+   * const orderRefund = await prisma.orderRefund.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OrderRefundFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OrderRefundFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OrderRefund that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundFindFirstArgs} args - Arguments to find a OrderRefund
+   * @example
+   * // Get one OrderRefund
+   * const orderRefund = await prisma.orderRefund.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OrderRefundFindFirstArgs>(args?: Prisma.SelectSubset<T, OrderRefundFindFirstArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OrderRefund that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundFindFirstOrThrowArgs} args - Arguments to find a OrderRefund
+   * @example
+   * // Get one OrderRefund
+   * const orderRefund = await prisma.orderRefund.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OrderRefundFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OrderRefundFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OrderRefunds that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OrderRefunds
+   * const orderRefunds = await prisma.orderRefund.findMany()
+   * 
+   * // Get first 10 OrderRefunds
+   * const orderRefunds = await prisma.orderRefund.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const orderRefundWithIdOnly = await prisma.orderRefund.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OrderRefundFindManyArgs>(args?: Prisma.SelectSubset<T, OrderRefundFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OrderRefund.
+   * @param {OrderRefundCreateArgs} args - Arguments to create a OrderRefund.
+   * @example
+   * // Create one OrderRefund
+   * const OrderRefund = await prisma.orderRefund.create({
+   *   data: {
+   *     // ... data to create a OrderRefund
+   *   }
+   * })
+   * 
+   */
+  create<T extends OrderRefundCreateArgs>(args: Prisma.SelectSubset<T, OrderRefundCreateArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OrderRefunds.
+   * @param {OrderRefundCreateManyArgs} args - Arguments to create many OrderRefunds.
+   * @example
+   * // Create many OrderRefunds
+   * const orderRefund = await prisma.orderRefund.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OrderRefundCreateManyArgs>(args?: Prisma.SelectSubset<T, OrderRefundCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OrderRefunds and returns the data saved in the database.
+   * @param {OrderRefundCreateManyAndReturnArgs} args - Arguments to create many OrderRefunds.
+   * @example
+   * // Create many OrderRefunds
+   * const orderRefund = await prisma.orderRefund.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OrderRefunds and only return the `id`
+   * const orderRefundWithIdOnly = await prisma.orderRefund.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OrderRefundCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OrderRefundCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OrderRefund.
+   * @param {OrderRefundDeleteArgs} args - Arguments to delete one OrderRefund.
+   * @example
+   * // Delete one OrderRefund
+   * const OrderRefund = await prisma.orderRefund.delete({
+   *   where: {
+   *     // ... filter to delete one OrderRefund
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OrderRefundDeleteArgs>(args: Prisma.SelectSubset<T, OrderRefundDeleteArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OrderRefund.
+   * @param {OrderRefundUpdateArgs} args - Arguments to update one OrderRefund.
+   * @example
+   * // Update one OrderRefund
+   * const orderRefund = await prisma.orderRefund.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OrderRefundUpdateArgs>(args: Prisma.SelectSubset<T, OrderRefundUpdateArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OrderRefunds.
+   * @param {OrderRefundDeleteManyArgs} args - Arguments to filter OrderRefunds to delete.
+   * @example
+   * // Delete a few OrderRefunds
+   * const { count } = await prisma.orderRefund.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OrderRefundDeleteManyArgs>(args?: Prisma.SelectSubset<T, OrderRefundDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OrderRefunds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OrderRefunds
+   * const orderRefund = await prisma.orderRefund.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OrderRefundUpdateManyArgs>(args: Prisma.SelectSubset<T, OrderRefundUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OrderRefunds and returns the data updated in the database.
+   * @param {OrderRefundUpdateManyAndReturnArgs} args - Arguments to update many OrderRefunds.
+   * @example
+   * // Update many OrderRefunds
+   * const orderRefund = await prisma.orderRefund.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OrderRefunds and only return the `id`
+   * const orderRefundWithIdOnly = await prisma.orderRefund.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OrderRefundUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OrderRefundUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OrderRefund.
+   * @param {OrderRefundUpsertArgs} args - Arguments to update or create a OrderRefund.
+   * @example
+   * // Update or create a OrderRefund
+   * const orderRefund = await prisma.orderRefund.upsert({
+   *   create: {
+   *     // ... data to create a OrderRefund
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OrderRefund we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OrderRefundUpsertArgs>(args: Prisma.SelectSubset<T, OrderRefundUpsertArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OrderRefunds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundCountArgs} args - Arguments to filter OrderRefunds to count.
+   * @example
+   * // Count the number of OrderRefunds
+   * const count = await prisma.orderRefund.count({
+   *   where: {
+   *     // ... the filter for the OrderRefunds we want to count
+   *   }
+   * })
+  **/
+  count<T extends OrderRefundCountArgs>(
+    args?: Prisma.Subset<T, OrderRefundCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OrderRefundCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OrderRefund.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OrderRefundAggregateArgs>(args: Prisma.Subset<T, OrderRefundAggregateArgs>): Prisma.PrismaPromise<GetOrderRefundAggregateType<T>>
+
+  /**
+   * Group by OrderRefund.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OrderRefundGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OrderRefundGroupByArgs['orderBy'] }
+      : { orderBy?: OrderRefundGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OrderRefundGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOrderRefundGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OrderRefund model
+ */
+readonly fields: OrderRefundFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OrderRefund.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OrderRefundClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  staff<T extends Prisma.OrderRefund$staffArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderRefund$staffArgs<ExtArgs>>): Prisma.Prisma__StaffClient<runtime.Types.Result.GetResult<Prisma.$StaffPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  items<T extends Prisma.OrderRefund$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderRefund$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  returnRequest<T extends Prisma.OrderRefund$returnRequestArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderRefund$returnRequestArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OrderRefund model
+ */
+export interface OrderRefundFieldRefs {
+  readonly id: Prisma.FieldRef<"OrderRefund", 'String'>
+  readonly orderId: Prisma.FieldRef<"OrderRefund", 'String'>
+  readonly amount: Prisma.FieldRef<"OrderRefund", 'Float'>
+  readonly currency: Prisma.FieldRef<"OrderRefund", 'Currency'>
+  readonly amountNGN: Prisma.FieldRef<"OrderRefund", 'Float'>
+  readonly reason: Prisma.FieldRef<"OrderRefund", 'String'>
+  readonly status: Prisma.FieldRef<"OrderRefund", 'RefundStatus'>
+  readonly provider: Prisma.FieldRef<"OrderRefund", 'String'>
+  readonly providerRefundId: Prisma.FieldRef<"OrderRefund", 'String'>
+  readonly failureReason: Prisma.FieldRef<"OrderRefund", 'String'>
+  readonly processedAt: Prisma.FieldRef<"OrderRefund", 'DateTime'>
+  readonly creditNoteSentAt: Prisma.FieldRef<"OrderRefund", 'DateTime'>
+  readonly staffId: Prisma.FieldRef<"OrderRefund", 'String'>
+  readonly createdAt: Prisma.FieldRef<"OrderRefund", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"OrderRefund", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OrderRefund findUnique
+ */
+export type OrderRefundFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefund to fetch.
+   */
+  where: Prisma.OrderRefundWhereUniqueInput
+}
+
+/**
+ * OrderRefund findUniqueOrThrow
+ */
+export type OrderRefundFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefund to fetch.
+   */
+  where: Prisma.OrderRefundWhereUniqueInput
+}
+
+/**
+ * OrderRefund findFirst
+ */
+export type OrderRefundFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefund to fetch.
+   */
+  where?: Prisma.OrderRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderRefunds to fetch.
+   */
+  orderBy?: Prisma.OrderRefundOrderByWithRelationInput | Prisma.OrderRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OrderRefunds.
+   */
+  cursor?: Prisma.OrderRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderRefunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OrderRefunds.
+   */
+  distinct?: Prisma.OrderRefundScalarFieldEnum | Prisma.OrderRefundScalarFieldEnum[]
+}
+
+/**
+ * OrderRefund findFirstOrThrow
+ */
+export type OrderRefundFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefund to fetch.
+   */
+  where?: Prisma.OrderRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderRefunds to fetch.
+   */
+  orderBy?: Prisma.OrderRefundOrderByWithRelationInput | Prisma.OrderRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OrderRefunds.
+   */
+  cursor?: Prisma.OrderRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderRefunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OrderRefunds.
+   */
+  distinct?: Prisma.OrderRefundScalarFieldEnum | Prisma.OrderRefundScalarFieldEnum[]
+}
+
+/**
+ * OrderRefund findMany
+ */
+export type OrderRefundFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefunds to fetch.
+   */
+  where?: Prisma.OrderRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderRefunds to fetch.
+   */
+  orderBy?: Prisma.OrderRefundOrderByWithRelationInput | Prisma.OrderRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OrderRefunds.
+   */
+  cursor?: Prisma.OrderRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderRefunds.
+   */
+  skip?: number
+  distinct?: Prisma.OrderRefundScalarFieldEnum | Prisma.OrderRefundScalarFieldEnum[]
+}
+
+/**
+ * OrderRefund create
+ */
+export type OrderRefundCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  /**
+   * The data needed to create a OrderRefund.
+   */
+  data: Prisma.XOR<Prisma.OrderRefundCreateInput, Prisma.OrderRefundUncheckedCreateInput>
+}
+
+/**
+ * OrderRefund createMany
+ */
+export type OrderRefundCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OrderRefunds.
+   */
+  data: Prisma.OrderRefundCreateManyInput | Prisma.OrderRefundCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * OrderRefund createManyAndReturn
+ */
+export type OrderRefundCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * The data used to create many OrderRefunds.
+   */
+  data: Prisma.OrderRefundCreateManyInput | Prisma.OrderRefundCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OrderRefund update
+ */
+export type OrderRefundUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  /**
+   * The data needed to update a OrderRefund.
+   */
+  data: Prisma.XOR<Prisma.OrderRefundUpdateInput, Prisma.OrderRefundUncheckedUpdateInput>
+  /**
+   * Choose, which OrderRefund to update.
+   */
+  where: Prisma.OrderRefundWhereUniqueInput
+}
+
+/**
+ * OrderRefund updateMany
+ */
+export type OrderRefundUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OrderRefunds.
+   */
+  data: Prisma.XOR<Prisma.OrderRefundUpdateManyMutationInput, Prisma.OrderRefundUncheckedUpdateManyInput>
+  /**
+   * Filter which OrderRefunds to update
+   */
+  where?: Prisma.OrderRefundWhereInput
+  /**
+   * Limit how many OrderRefunds to update.
+   */
+  limit?: number
+}
+
+/**
+ * OrderRefund updateManyAndReturn
+ */
+export type OrderRefundUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * The data used to update OrderRefunds.
+   */
+  data: Prisma.XOR<Prisma.OrderRefundUpdateManyMutationInput, Prisma.OrderRefundUncheckedUpdateManyInput>
+  /**
+   * Filter which OrderRefunds to update
+   */
+  where?: Prisma.OrderRefundWhereInput
+  /**
+   * Limit how many OrderRefunds to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OrderRefund upsert
+ */
+export type OrderRefundUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  /**
+   * The filter to search for the OrderRefund to update in case it exists.
+   */
+  where: Prisma.OrderRefundWhereUniqueInput
+  /**
+   * In case the OrderRefund found by the `where` argument doesn't exist, create a new OrderRefund with this data.
+   */
+  create: Prisma.XOR<Prisma.OrderRefundCreateInput, Prisma.OrderRefundUncheckedCreateInput>
+  /**
+   * In case the OrderRefund was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OrderRefundUpdateInput, Prisma.OrderRefundUncheckedUpdateInput>
+}
+
+/**
+ * OrderRefund delete
+ */
+export type OrderRefundDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  /**
+   * Filter which OrderRefund to delete.
+   */
+  where: Prisma.OrderRefundWhereUniqueInput
+}
+
+/**
+ * OrderRefund deleteMany
+ */
+export type OrderRefundDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OrderRefunds to delete
+   */
+  where?: Prisma.OrderRefundWhereInput
+  /**
+   * Limit how many OrderRefunds to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OrderRefund.staff
+ */
+export type OrderRefund$staffArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Staff
+   */
+  select?: Prisma.StaffSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Staff
+   */
+  omit?: Prisma.StaffOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StaffInclude<ExtArgs> | null
+  where?: Prisma.StaffWhereInput
+}
+
+/**
+ * OrderRefund.items
+ */
+export type OrderRefund$itemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  where?: Prisma.OrderRefundItemWhereInput
+  orderBy?: Prisma.OrderRefundItemOrderByWithRelationInput | Prisma.OrderRefundItemOrderByWithRelationInput[]
+  cursor?: Prisma.OrderRefundItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderRefundItemScalarFieldEnum | Prisma.OrderRefundItemScalarFieldEnum[]
+}
+
+/**
+ * OrderRefund.returnRequest
+ */
+export type OrderRefund$returnRequestArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+/**
+ * OrderRefund without action
+ */
+export type OrderRefundDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+}
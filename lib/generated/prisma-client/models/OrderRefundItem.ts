@@ -0,0 +1,1551 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OrderRefundItem` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model OrderRefundItem
+ * 
+ */
+export type OrderRefundItemModel = runtime.Types.Result.DefaultSelection<Prisma.$OrderRefundItemPayload>
+
+export type AggregateOrderRefundItem = {
+  _count: OrderRefundItemCountAggregateOutputType | null
+  _avg: OrderRefundItemAvgAggregateOutputType | null
+  _sum: OrderRefundItemSumAggregateOutputType | null
+  _min: OrderRefundItemMinAggregateOutputType | null
+  _max: OrderRefundItemMaxAggregateOutputType | null
+}
+
+export type OrderRefundItemAvgAggregateOutputType = {
+  quantity: number | null
+  amount: number | null
+}
+
+export type OrderRefundItemSumAggregateOutputType = {
+  quantity: number | null
+  amount: number | null
+}
+
+export type OrderRefundItemMinAggregateOutputType = {
+  id: string | null
+  refundId: string | null
+  orderItemId: string | null
+  quantity: number | null
+  amount: number | null
+  restock: boolean | null
+}
+
+export type OrderRefundItemMaxAggregateOutputType = {
+  id: string | null
+  refundId: string | null
+  orderItemId: string | null
+  quantity: number | null
+  amount: number | null
+  restock: boolean | null
+}
+
+export type OrderRefundItemCountAggregateOutputType = {
+  id: number
+  refundId: number
+  orderItemId: number
+  quantity: number
+  amount: number
+  restock: number
+  _all: number
+}
+
+
+export type OrderRefundItemAvgAggregateInputType = {
+  quantity?: true
+  amount?: true
+}
+
+export type OrderRefundItemSumAggregateInputType = {
+  quantity?: true
+  amount?: true
+}
+
+export type OrderRefundItemMinAggregateInputType = {
+  id?: true
+  refundId?: true
+  orderItemId?: true
+  quantity?: true
+  amount?: true
+  restock?: true
+}
+
+export type OrderRefundItemMaxAggregateInputType = {
+  id?: true
+  refundId?: true
+  orderItemId?: true
+  quantity?: true
+  amount?: true
+  restock?: true
+}
+
+export type OrderRefundItemCountAggregateInputType = {
+  id?: true
+  refundId?: true
+  orderItemId?: true
+  quantity?: true
+  amount?: true
+  restock?: true
+  _all?: true
+}
+
+export type OrderRefundItemAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OrderRefundItem to aggregate.
+   */
+  where?: Prisma.OrderRefundItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderRefundItems to fetch.
+   */
+  orderBy?: Prisma.OrderRefundItemOrderByWithRelationInput | Prisma.OrderRefundItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OrderRefundItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderRefundItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderRefundItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OrderRefundItems
+  **/
+  _count?: true | OrderRefundItemCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OrderRefundItemAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OrderRefundItemSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OrderRefundItemMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OrderRefundItemMaxAggregateInputType
+}
+
+export type GetOrderRefundItemAggregateType<T extends OrderRefundItemAggregateArgs> = {
+      [P in keyof T & keyof AggregateOrderRefundItem]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOrderRefundItem[P]>
+    : Prisma.GetScalarType<T[P], AggregateOrderRefundItem[P]>
+}
+
+
+
+
+export type OrderRefundItemGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderRefundItemWhereInput
+  orderBy?: Prisma.OrderRefundItemOrderByWithAggregationInput | Prisma.OrderRefundItemOrderByWithAggregationInput[]
+  by: Prisma.OrderRefundItemScalarFieldEnum[] | Prisma.OrderRefundItemScalarFieldEnum
+  having?: Prisma.OrderRefundItemScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OrderRefundItemCountAggregateInputType | true
+  _avg?: OrderRefundItemAvgAggregateInputType
+  _sum?: OrderRefundItemSumAggregateInputType
+  _min?: OrderRefundItemMinAggregateInputType
+  _max?: OrderRefundItemMaxAggregateInputType
+}
+
+export type OrderRefundItemGroupByOutputType = {
+  id: string
+  refundId: string
+  orderItemId: string
+  quantity: number
+  amount: number
+  restock: boolean
+  _count: OrderRefundItemCountAggregateOutputType | null
+  _avg: OrderRefundItemAvgAggregateOutputType | null
+  _sum: OrderRefundItemSumAggregateOutputType | null
+  _min: OrderRefundItemMinAggregateOutputType | null
+  _max: OrderRefundItemMaxAggregateOutputType | null
+}
+
+type GetOrderRefundItemGroupByPayload<T extends OrderRefundItemGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OrderRefundItemGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OrderRefundItemGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OrderRefundItemGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OrderRefundItemGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OrderRefundItemWhereInput = {
+  AND?: Prisma.OrderRefundItemWhereInput | Prisma.OrderRefundItemWhereInput[]
+  OR?: Prisma.OrderRefundItemWhereInput[]
+  NOT?: Prisma.OrderRefundItemWhereInput | Prisma.OrderRefundItemWhereInput[]
+  id?: Prisma.StringFilter<"OrderRefundItem"> | string
+  refundId?: Prisma.StringFilter<"OrderRefundItem"> | string
+  orderItemId?: Prisma.StringFilter<"OrderRefundItem"> | string
+  quantity?: Prisma.IntFilter<"OrderRefundItem"> | number
+  amount?: Prisma.FloatFilter<"OrderRefundItem"> | number
+  restock?: Prisma.BoolFilter<"OrderRefundItem"> | boolean
+  refund?: Prisma.XOR<Prisma.OrderRefundScalarRelationFilter, Prisma.OrderRefundWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+}
+
+export type OrderRefundItemOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  restock?: Prisma.SortOrder
+  refund?: Prisma.OrderRefundOrderByWithRelationInput
+  orderItem?: Prisma.OrderItemOrderByWithRelationInput
+}
+
+export type OrderRefundItemWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.OrderRefundItemWhereInput | Prisma.OrderRefundItemWhereInput[]
+  OR?: Prisma.OrderRefundItemWhereInput[]
+  NOT?: Prisma.OrderRefundItemWhereInput | Prisma.OrderRefundItemWhereInput[]
+  refundId?: Prisma.StringFilter<"OrderRefundItem"> | string
+  orderItemId?: Prisma.StringFilter<"OrderRefundItem"> | string
+  quantity?: Prisma.IntFilter<"OrderRefundItem"> | number
+  amount?: Prisma.FloatFilter<"OrderRefundItem"> | number
+  restock?: Prisma.BoolFilter<"OrderRefundItem"> | boolean
+  refund?: Prisma.XOR<Prisma.OrderRefundScalarRelationFilter, Prisma.OrderRefundWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+}, "id">
+
+export type OrderRefundItemOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  restock?: Prisma.SortOrder
+  _count?: Prisma.OrderRefundItemCountOrderByAggregateInput
+  _avg?: Prisma.OrderRefundItemAvgOrderByAggregateInput
+  _max?: Prisma.OrderRefundItemMaxOrderByAggregateInput
+  _min?: Prisma.OrderRefundItemMinOrderByAggregateInput
+  _sum?: Prisma.OrderRefundItemSumOrderByAggregateInput
+}
+
+export type OrderRefundItemScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OrderRefundItemScalarWhereWithAggregatesInput | Prisma.OrderRefundItemScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OrderRefundItemScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OrderRefundItemScalarWhereWithAggregatesInput | Prisma.OrderRefundItemScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"OrderRefundItem"> | string
+  refundId?: Prisma.StringWithAggregatesFilter<"OrderRefundItem"> | string
+  orderItemId?: Prisma.StringWithAggregatesFilter<"OrderRefundItem"> | string
+  quantity?: Prisma.IntWithAggregatesFilter<"OrderRefundItem"> | number
+  amount?: Prisma.FloatWithAggregatesFilter<"OrderRefundItem"> | number
+  restock?: Prisma.BoolWithAggregatesFilter<"OrderRefundItem"> | boolean
+}
+
+export type OrderRefundItemCreateInput = {
+  id?: string
+  quantity: number
+  amount: number
+  restock?: boolean
+  refund: Prisma.OrderRefundCreateNestedOneWithoutItemsInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutRefundItemsInput
+}
+
+export type OrderRefundItemUncheckedCreateInput = {
+  id?: string
+  refundId: string
+  orderItemId: string
+  quantity: number
+  amount: number
+  restock?: boolean
+}
+
+export type OrderRefundItemUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  refund?: Prisma.OrderRefundUpdateOneRequiredWithoutItemsNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutRefundItemsNestedInput
+}
+
+export type OrderRefundItemUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refundId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type OrderRefundItemCreateManyInput = {
+  id?: string
+  refundId: string
+  orderItemId: string
+  quantity: number
+  amount: number
+  restock?: boolean
+}
+
+export type OrderRefundItemUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type OrderRefundItemUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refundId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type OrderRefundItemListRelationFilter = {
+  every?: Prisma.OrderRefundItemWhereInput
+  some?: Prisma.OrderRefundItemWhereInput
+  none?: Prisma.OrderRefundItemWhereInput
+}
+
+export type OrderRefundItemOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type OrderRefundItemCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  restock?: Prisma.SortOrder
+}
+
+export type OrderRefundItemAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type OrderRefundItemMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  restock?: Prisma.SortOrder
+}
+
+export type OrderRefundItemMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  restock?: Prisma.SortOrder
+}
+
+export type OrderRefundItemSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type OrderRefundItemCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutOrderItemInput, Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput> | Prisma.OrderRefundItemCreateWithoutOrderItemInput[] | Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.OrderRefundItemCreateOrConnectWithoutOrderItemInput | Prisma.OrderRefundItemCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.OrderRefundItemCreateManyOrderItemInputEnvelope
+  connect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+}
+
+export type OrderRefundItemUncheckedCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutOrderItemInput, Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput> | Prisma.OrderRefundItemCreateWithoutOrderItemInput[] | Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.OrderRefundItemCreateOrConnectWithoutOrderItemInput | Prisma.OrderRefundItemCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.OrderRefundItemCreateManyOrderItemInputEnvelope
+  connect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+}
+
+export type OrderRefundItemUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutOrderItemInput, Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput> | Prisma.OrderRefundItemCreateWithoutOrderItemInput[] | Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.OrderRefundItemCreateOrConnectWithoutOrderItemInput | Prisma.OrderRefundItemCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.OrderRefundItemUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.OrderRefundItemUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.OrderRefundItemCreateManyOrderItemInputEnvelope
+  set?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  disconnect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  delete?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  connect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  update?: Prisma.OrderRefundItemUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.OrderRefundItemUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.OrderRefundItemUpdateManyWithWhereWithoutOrderItemInput | Prisma.OrderRefundItemUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.OrderRefundItemScalarWhereInput | Prisma.OrderRefundItemScalarWhereInput[]
+}
+
+export type OrderRefundItemUncheckedUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutOrderItemInput, Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput> | Prisma.OrderRefundItemCreateWithoutOrderItemInput[] | Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.OrderRefundItemCreateOrConnectWithoutOrderItemInput | Prisma.OrderRefundItemCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.OrderRefundItemUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.OrderRefundItemUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.OrderRefundItemCreateManyOrderItemInputEnvelope
+  set?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  disconnect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  delete?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  connect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  update?: Prisma.OrderRefundItemUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.OrderRefundItemUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.OrderRefundItemUpdateManyWithWhereWithoutOrderItemInput | Prisma.OrderRefundItemUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.OrderRefundItemScalarWhereInput | Prisma.OrderRefundItemScalarWhereInput[]
+}
+
+export type OrderRefundItemCreateNestedManyWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutRefundInput, Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput> | Prisma.OrderRefundItemCreateWithoutRefundInput[] | Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput[]
+  connectOrCreate?: Prisma.OrderRefundItemCreateOrConnectWithoutRefundInput | Prisma.OrderRefundItemCreateOrConnectWithoutRefundInput[]
+  createMany?: Prisma.OrderRefundItemCreateManyRefundInputEnvelope
+  connect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+}
+
+export type OrderRefundItemUncheckedCreateNestedManyWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutRefundInput, Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput> | Prisma.OrderRefundItemCreateWithoutRefundInput[] | Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput[]
+  connectOrCreate?: Prisma.OrderRefundItemCreateOrConnectWithoutRefundInput | Prisma.OrderRefundItemCreateOrConnectWithoutRefundInput[]
+  createMany?: Prisma.OrderRefundItemCreateManyRefundInputEnvelope
+  connect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+}
+
+export type OrderRefundItemUpdateManyWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutRefundInput, Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput> | Prisma.OrderRefundItemCreateWithoutRefundInput[] | Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput[]
+  connectOrCreate?: Prisma.OrderRefundItemCreateOrConnectWithoutRefundInput | Prisma.OrderRefundItemCreateOrConnectWithoutRefundInput[]
+  upsert?: Prisma.OrderRefundItemUpsertWithWhereUniqueWithoutRefundInput | Prisma.OrderRefundItemUpsertWithWhereUniqueWithoutRefundInput[]
+  createMany?: Prisma.OrderRefundItemCreateManyRefundInputEnvelope
+  set?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  disconnect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  delete?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  connect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  update?: Prisma.OrderRefundItemUpdateWithWhereUniqueWithoutRefundInput | Prisma.OrderRefundItemUpdateWithWhereUniqueWithoutRefundInput[]
+  updateMany?: Prisma.OrderRefundItemUpdateManyWithWhereWithoutRefundInput | Prisma.OrderRefundItemUpdateManyWithWhereWithoutRefundInput[]
+  deleteMany?: Prisma.OrderRefundItemScalarWhereInput | Prisma.OrderRefundItemScalarWhereInput[]
+}
+
+export type OrderRefundItemUncheckedUpdateManyWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutRefundInput, Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput> | Prisma.OrderRefundItemCreateWithoutRefundInput[] | Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput[]
+  connectOrCreate?: Prisma.OrderRefundItemCreateOrConnectWithoutRefundInput | Prisma.OrderRefundItemCreateOrConnectWithoutRefundInput[]
+  upsert?: Prisma.OrderRefundItemUpsertWithWhereUniqueWithoutRefundInput | Prisma.OrderRefundItemUpsertWithWhereUniqueWithoutRefundInput[]
+  createMany?: Prisma.OrderRefundItemCreateManyRefundInputEnvelope
+  set?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  disconnect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  delete?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  connect?: Prisma.OrderRefundItemWhereUniqueInput | Prisma.OrderRefundItemWhereUniqueInput[]
+  update?: Prisma.OrderRefundItemUpdateWithWhereUniqueWithoutRefundInput | Prisma.OrderRefundItemUpdateWithWhereUniqueWithoutRefundInput[]
+  updateMany?: Prisma.OrderRefundItemUpdateManyWithWhereWithoutRefundInput | Prisma.OrderRefundItemUpdateManyWithWhereWithoutRefundInput[]
+  deleteMany?: Prisma.OrderRefundItemScalarWhereInput | Prisma.OrderRefundItemScalarWhereInput[]
+}
+
+export type OrderRefundItemCreateWithoutOrderItemInput = {
+  id?: string
+  quantity: number
+  amount: number
+  restock?: boolean
+  refund: Prisma.OrderRefundCreateNestedOneWithoutItemsInput
+}
+
+export type OrderRefundItemUncheckedCreateWithoutOrderItemInput = {
+  id?: string
+  refundId: string
+  quantity: number
+  amount: number
+  restock?: boolean
+}
+
+export type OrderRefundItemCreateOrConnectWithoutOrderItemInput = {
+  where: Prisma.OrderRefundItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutOrderItemInput, Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput>
+}
+
+export type OrderRefundItemCreateManyOrderItemInputEnvelope = {
+  data: Prisma.OrderRefundItemCreateManyOrderItemInput | Prisma.OrderRefundItemCreateManyOrderItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderRefundItemUpsertWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.OrderRefundItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderRefundItemUpdateWithoutOrderItemInput, Prisma.OrderRefundItemUncheckedUpdateWithoutOrderItemInput>
+  create: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutOrderItemInput, Prisma.OrderRefundItemUncheckedCreateWithoutOrderItemInput>
+}
+
+export type OrderRefundItemUpdateWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.OrderRefundItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderRefundItemUpdateWithoutOrderItemInput, Prisma.OrderRefundItemUncheckedUpdateWithoutOrderItemInput>
+}
+
+export type OrderRefundItemUpdateManyWithWhereWithoutOrderItemInput = {
+  where: Prisma.OrderRefundItemScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderRefundItemUpdateManyMutationInput, Prisma.OrderRefundItemUncheckedUpdateManyWithoutOrderItemInput>
+}
+
+export type OrderRefundItemScalarWhereInput = {
+  AND?: Prisma.OrderRefundItemScalarWhereInput | Prisma.OrderRefundItemScalarWhereInput[]
+  OR?: Prisma.OrderRefundItemScalarWhereInput[]
+  NOT?: Prisma.OrderRefundItemScalarWhereInput | Prisma.OrderRefundItemScalarWhereInput[]
+  id?: Prisma.StringFilter<"OrderRefundItem"> | string
+  refundId?: Prisma.StringFilter<"OrderRefundItem"> | string
+  orderItemId?: Prisma.StringFilter<"OrderRefundItem"> | string
+  quantity?: Prisma.IntFilter<"OrderRefundItem"> | number
+  amount?: Prisma.FloatFilter<"OrderRefundItem"> | number
+  restock?: Prisma.BoolFilter<"OrderRefundItem"> | boolean
+}
+
+export type OrderRefundItemCreateWithoutRefundInput = {
+  id?: string
+  quantity: number
+  amount: number
+  restock?: boolean
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutRefundItemsInput
+}
+
+export type OrderRefundItemUncheckedCreateWithoutRefundInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+  amount: number
+  restock?: boolean
+}
+
+export type OrderRefundItemCreateOrConnectWithoutRefundInput = {
+  where: Prisma.OrderRefundItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutRefundInput, Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput>
+}
+
+export type OrderRefundItemCreateManyRefundInputEnvelope = {
+  data: Prisma.OrderRefundItemCreateManyRefundInput | Prisma.OrderRefundItemCreateManyRefundInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderRefundItemUpsertWithWhereUniqueWithoutRefundInput = {
+  where: Prisma.OrderRefundItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderRefundItemUpdateWithoutRefundInput, Prisma.OrderRefundItemUncheckedUpdateWithoutRefundInput>
+  create: Prisma.XOR<Prisma.OrderRefundItemCreateWithoutRefundInput, Prisma.OrderRefundItemUncheckedCreateWithoutRefundInput>
+}
+
+export type OrderRefundItemUpdateWithWhereUniqueWithoutRefundInput = {
+  where: Prisma.OrderRefundItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderRefundItemUpdateWithoutRefundInput, Prisma.OrderRefundItemUncheckedUpdateWithoutRefundInput>
+}
+
+export type OrderRefundItemUpdateManyWithWhereWithoutRefundInput = {
+  where: Prisma.OrderRefundItemScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderRefundItemUpdateManyMutationInput, Prisma.OrderRefundItemUncheckedUpdateManyWithoutRefundInput>
+}
+
+export type OrderRefundItemCreateManyOrderItemInput = {
+  id?: string
+  refundId: string
+  quantity: number
+  amount: number
+  restock?: boolean
+}
+
+export type OrderRefundItemUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  refund?: Prisma.OrderRefundUpdateOneRequiredWithoutItemsNestedInput
+}
+
+export type OrderRefundItemUncheckedUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refundId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type OrderRefundItemUncheckedUpdateManyWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refundId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type OrderRefundItemCreateManyRefundInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+  amount: number
+  restock?: boolean
+}
+
+export type OrderRefundItemUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutRefundItemsNestedInput
+}
+
+export type OrderRefundItemUncheckedUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type OrderRefundItemUncheckedUpdateManyWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  restock?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+
+
+export type OrderRefundItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  refundId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  amount?: boolean
+  restock?: boolean
+  refund?: boolean | Prisma.OrderRefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["orderRefundItem"]>
+
+export type OrderRefundItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  refundId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  amount?: boolean
+  restock?: boolean
+  refund?: boolean | Prisma.OrderRefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["orderRefundItem"]>
+
+export type OrderRefundItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  refundId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  amount?: boolean
+  restock?: boolean
+  refund?: boolean | Prisma.OrderRefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["orderRefundItem"]>
+
+export type OrderRefundItemSelectScalar = {
+  id?: boolean
+  refundId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  amount?: boolean
+  restock?: boolean
+}
+
+export type OrderRefundItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "refundId" | "orderItemId" | "quantity" | "amount" | "restock", ExtArgs["result"]["orderRefundItem"]>
+export type OrderRefundItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refund?: boolean | Prisma.OrderRefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}
+export type OrderRefundItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refund?: boolean | Prisma.OrderRefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}
+export type OrderRefundItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refund?: boolean | Prisma.OrderRefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}
+
+export type $OrderRefundItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OrderRefundItem"
+  objects: {
+    refund: Prisma.$OrderRefundPayload<ExtArgs>
+    orderItem: Prisma.$OrderItemPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    refundId: string
+    orderItemId: string
+    quantity: number
+    amount: number
+    restock: boolean
+  }, ExtArgs["result"]["orderRefundItem"]>
+  composites: {}
+}
+
+export type OrderRefundItemGetPayload<S extends boolean | null | undefined | OrderRefundItemDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload, S>
+
+export type OrderRefundItemCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OrderRefundItemFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OrderRefundItemCountAggregateInputType | true
+  }
+
+export interface OrderRefundItemDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OrderRefundItem'], meta: { name: 'OrderRefundItem' } }
+  /**
+   * Find zero or one OrderRefundItem that matches the filter.
+   * @param {OrderRefundItemFindUniqueArgs} args - Arguments to find a OrderRefundItem
+   * @example
+   * // Get one OrderRefundItem
+   * const orderRefundItem = await prisma.orderRefundItem.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OrderRefundItemFindUniqueArgs>(args: Prisma.SelectSubset<T, OrderRefundItemFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OrderRefundItemClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OrderRefundItem that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OrderRefundItemFindUniqueOrThrowArgs} args - Arguments to find a OrderRefundItem
+   * @example
+   * // Get one OrderRefundItem
+   * const orderRefundItem = await prisma.orderRefundItem.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OrderRefundItemFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OrderRefundItemFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderRefundItemClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OrderRefundItem that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundItemFindFirstArgs} args - Arguments to find a OrderRefundItem
+   * @example
+   * // Get one OrderRefundItem
+   * const orderRefundItem = await prisma.orderRefundItem.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OrderRefundItemFindFirstArgs>(args?: Prisma.SelectSubset<T, OrderRefundItemFindFirstArgs<ExtArgs>>): Prisma.Prisma__OrderRefundItemClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OrderRefundItem that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundItemFindFirstOrThrowArgs} args - Arguments to find a OrderRefundItem
+   * @example
+   * // Get one OrderRefundItem
+   * const orderRefundItem = await prisma.orderRefundItem.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OrderRefundItemFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OrderRefundItemFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderRefundItemClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OrderRefundItems that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundItemFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OrderRefundItems
+   * const orderRefundItems = await prisma.orderRefundItem.findMany()
+   * 
+   * // Get first 10 OrderRefundItems
+   * const orderRefundItems = await prisma.orderRefundItem.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const orderRefundItemWithIdOnly = await prisma.orderRefundItem.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OrderRefundItemFindManyArgs>(args?: Prisma.SelectSubset<T, OrderRefundItemFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OrderRefundItem.
+   * @param {OrderRefundItemCreateArgs} args - Arguments to create a OrderRefundItem.
+   * @example
+   * // Create one OrderRefundItem
+   * const OrderRefundItem = await prisma.orderRefundItem.create({
+   *   data: {
+   *     // ... data to create a OrderRefundItem
+   *   }
+   * })
+   * 
+   */
+  create<T extends OrderRefundItemCreateArgs>(args: Prisma.SelectSubset<T, OrderRefundItemCreateArgs<ExtArgs>>): Prisma.Prisma__OrderRefundItemClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OrderRefundItems.
+   * @param {OrderRefundItemCreateManyArgs} args - Arguments to create many OrderRefundItems.
+   * @example
+   * // Create many OrderRefundItems
+   * const orderRefundItem = await prisma.orderRefundItem.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OrderRefundItemCreateManyArgs>(args?: Prisma.SelectSubset<T, OrderRefundItemCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OrderRefundItems and returns the data saved in the database.
+   * @param {OrderRefundItemCreateManyAndReturnArgs} args - Arguments to create many OrderRefundItems.
+   * @example
+   * // Create many OrderRefundItems
+   * const orderRefundItem = await prisma.orderRefundItem.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OrderRefundItems and only return the `id`
+   * const orderRefundItemWithIdOnly = await prisma.orderRefundItem.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OrderRefundItemCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OrderRefundItemCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OrderRefundItem.
+   * @param {OrderRefundItemDeleteArgs} args - Arguments to delete one OrderRefundItem.
+   * @example
+   * // Delete one OrderRefundItem
+   * const OrderRefundItem = await prisma.orderRefundItem.delete({
+   *   where: {
+   *     // ... filter to delete one OrderRefundItem
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OrderRefundItemDeleteArgs>(args: Prisma.SelectSubset<T, OrderRefundItemDeleteArgs<ExtArgs>>): Prisma.Prisma__OrderRefundItemClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OrderRefundItem.
+   * @param {OrderRefundItemUpdateArgs} args - Arguments to update one OrderRefundItem.
+   * @example
+   * // Update one OrderRefundItem
+   * const orderRefundItem = await prisma.orderRefundItem.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OrderRefundItemUpdateArgs>(args: Prisma.SelectSubset<T, OrderRefundItemUpdateArgs<ExtArgs>>): Prisma.Prisma__OrderRefundItemClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OrderRefundItems.
+   * @param {OrderRefundItemDeleteManyArgs} args - Arguments to filter OrderRefundItems to delete.
+   * @example
+   * // Delete a few OrderRefundItems
+   * const { count } = await prisma.orderRefundItem.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OrderRefundItemDeleteManyArgs>(args?: Prisma.SelectSubset<T, OrderRefundItemDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OrderRefundItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundItemUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OrderRefundItems
+   * const orderRefundItem = await prisma.orderRefundItem.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OrderRefundItemUpdateManyArgs>(args: Prisma.SelectSubset<T, OrderRefundItemUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OrderRefundItems and returns the data updated in the database.
+   * @param {OrderRefundItemUpdateManyAndReturnArgs} args - Arguments to update many OrderRefundItems.
+   * @example
+   * // Update many OrderRefundItems
+   * const orderRefundItem = await prisma.orderRefundItem.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OrderRefundItems and only return the `id`
+   * const orderRefundItemWithIdOnly = await prisma.orderRefundItem.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OrderRefundItemUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OrderRefundItemUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OrderRefundItem.
+   * @param {OrderRefundItemUpsertArgs} args - Arguments to update or create a OrderRefundItem.
+   * @example
+   * // Update or create a OrderRefundItem
+   * const orderRefundItem = await prisma.orderRefundItem.upsert({
+   *   create: {
+   *     // ... data to create a OrderRefundItem
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OrderRefundItem we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OrderRefundItemUpsertArgs>(args: Prisma.SelectSubset<T, OrderRefundItemUpsertArgs<ExtArgs>>): Prisma.Prisma__OrderRefundItemClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundItemPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OrderRefundItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundItemCountArgs} args - Arguments to filter OrderRefundItems to count.
+   * @example
+   * // Count the number of OrderRefundItems
+   * const count = await prisma.orderRefundItem.count({
+   *   where: {
+   *     // ... the filter for the OrderRefundItems we want to count
+   *   }
+   * })
+  **/
+  count<T extends OrderRefundItemCountArgs>(
+    args?: Prisma.Subset<T, OrderRefundItemCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OrderRefundItemCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OrderRefundItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundItemAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OrderRefundItemAggregateArgs>(args: Prisma.Subset<T, OrderRefundItemAggregateArgs>): Prisma.PrismaPromise<GetOrderRefundItemAggregateType<T>>
+
+  /**
+   * Group by OrderRefundItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderRefundItemGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OrderRefundItemGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OrderRefundItemGroupByArgs['orderBy'] }
+      : { orderBy?: OrderRefundItemGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OrderRefundItemGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOrderRefundItemGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OrderRefundItem model
+ */
+readonly fields: OrderRefundItemFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OrderRefundItem.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OrderRefundItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  refund<T extends Prisma.OrderRefundDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderRefundDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  orderItem<T extends Prisma.OrderItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItemDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderItemClient<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OrderRefundItem model
+ */
+export interface OrderRefundItemFieldRefs {
+  readonly id: Prisma.FieldRef<"OrderRefundItem", 'String'>
+  readonly refundId: Prisma.FieldRef<"OrderRefundItem", 'String'>
+  readonly orderItemId: Prisma.FieldRef<"OrderRefundItem", 'String'>
+  readonly quantity: Prisma.FieldRef<"OrderRefundItem", 'Int'>
+  readonly amount: Prisma.FieldRef<"OrderRefundItem", 'Float'>
+  readonly restock: Prisma.FieldRef<"OrderRefundItem", 'Boolean'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OrderRefundItem findUnique
+ */
+export type OrderRefundItemFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefundItem to fetch.
+   */
+  where: Prisma.OrderRefundItemWhereUniqueInput
+}
+
+/**
+ * OrderRefundItem findUniqueOrThrow
+ */
+export type OrderRefundItemFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefundItem to fetch.
+   */
+  where: Prisma.OrderRefundItemWhereUniqueInput
+}
+
+/**
+ * OrderRefundItem findFirst
+ */
+export type OrderRefundItemFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefundItem to fetch.
+   */
+  where?: Prisma.OrderRefundItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderRefundItems to fetch.
+   */
+  orderBy?: Prisma.OrderRefundItemOrderByWithRelationInput | Prisma.OrderRefundItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OrderRefundItems.
+   */
+  cursor?: Prisma.OrderRefundItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderRefundItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderRefundItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OrderRefundItems.
+   */
+  distinct?: Prisma.OrderRefundItemScalarFieldEnum | Prisma.OrderRefundItemScalarFieldEnum[]
+}
+
+/**
+ * OrderRefundItem findFirstOrThrow
+ */
+export type OrderRefundItemFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefundItem to fetch.
+   */
+  where?: Prisma.OrderRefundItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderRefundItems to fetch.
+   */
+  orderBy?: Prisma.OrderRefundItemOrderByWithRelationInput | Prisma.OrderRefundItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OrderRefundItems.
+   */
+  cursor?: Prisma.OrderRefundItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderRefundItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderRefundItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OrderRefundItems.
+   */
+  distinct?: Prisma.OrderRefundItemScalarFieldEnum | Prisma.OrderRefundItemScalarFieldEnum[]
+}
+
+/**
+ * OrderRefundItem findMany
+ */
+export type OrderRefundItemFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderRefundItems to fetch.
+   */
+  where?: Prisma.OrderRefundItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderRefundItems to fetch.
+   */
+  orderBy?: Prisma.OrderRefundItemOrderByWithRelationInput | Prisma.OrderRefundItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OrderRefundItems.
+   */
+  cursor?: Prisma.OrderRefundItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderRefundItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderRefundItems.
+   */
+  skip?: number
+  distinct?: Prisma.OrderRefundItemScalarFieldEnum | Prisma.OrderRefundItemScalarFieldEnum[]
+}
+
+/**
+ * OrderRefundItem create
+ */
+export type OrderRefundItemCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  /**
+   * The data needed to create a OrderRefundItem.
+   */
+  data: Prisma.XOR<Prisma.OrderRefundItemCreateInput, Prisma.OrderRefundItemUncheckedCreateInput>
+}
+
+/**
+ * OrderRefundItem createMany
+ */
+export type OrderRefundItemCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OrderRefundItems.
+   */
+  data: Prisma.OrderRefundItemCreateManyInput | Prisma.OrderRefundItemCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * OrderRefundItem createManyAndReturn
+ */
+export type OrderRefundItemCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * The data used to create many OrderRefundItems.
+   */
+  data: Prisma.OrderRefundItemCreateManyInput | Prisma.OrderRefundItemCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OrderRefundItem update
+ */
+export type OrderRefundItemUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  /**
+   * The data needed to update a OrderRefundItem.
+   */
+  data: Prisma.XOR<Prisma.OrderRefundItemUpdateInput, Prisma.OrderRefundItemUncheckedUpdateInput>
+  /**
+   * Choose, which OrderRefundItem to update.
+   */
+  where: Prisma.OrderRefundItemWhereUniqueInput
+}
+
+/**
+ * OrderRefundItem updateMany
+ */
+export type OrderRefundItemUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OrderRefundItems.
+   */
+  data: Prisma.XOR<Prisma.OrderRefundItemUpdateManyMutationInput, Prisma.OrderRefundItemUncheckedUpdateManyInput>
+  /**
+   * Filter which OrderRefundItems to update
+   */
+  where?: Prisma.OrderRefundItemWhereInput
+  /**
+   * Limit how many OrderRefundItems to update.
+   */
+  limit?: number
+}
+
+/**
+ * OrderRefundItem updateManyAndReturn
+ */
+export type OrderRefundItemUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * The data used to update OrderRefundItems.
+   */
+  data: Prisma.XOR<Prisma.OrderRefundItemUpdateManyMutationInput, Prisma.OrderRefundItemUncheckedUpdateManyInput>
+  /**
+   * Filter which OrderRefundItems to update
+   */
+  where?: Prisma.OrderRefundItemWhereInput
+  /**
+   * Limit how many OrderRefundItems to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OrderRefundItem upsert
+ */
+export type OrderRefundItemUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  /**
+   * The filter to search for the OrderRefundItem to update in case it exists.
+   */
+  where: Prisma.OrderRefundItemWhereUniqueInput
+  /**
+   * In case the OrderRefundItem found by the `where` argument doesn't exist, create a new OrderRefundItem with this data.
+   */
+  create: Prisma.XOR<Prisma.OrderRefundItemCreateInput, Prisma.OrderRefundItemUncheckedCreateInput>
+  /**
+   * In case the OrderRefundItem was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OrderRefundItemUpdateInput, Prisma.OrderRefundItemUncheckedUpdateInput>
+}
+
+/**
+ * OrderRefundItem delete
+ */
+export type OrderRefundItemDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+  /**
+   * Filter which OrderRefundItem to delete.
+   */
+  where: Prisma.OrderRefundItemWhereUniqueInput
+}
+
+/**
+ * OrderRefundItem deleteMany
+ */
+export type OrderRefundItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OrderRefundItems to delete
+   */
+  where?: Prisma.OrderRefundItemWhereInput
+  /**
+   * Limit how many OrderRefundItems to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OrderRefundItem without action
+ */
+export type OrderRefundItemDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefundItem
+   */
+  select?: Prisma.OrderRefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefundItem
+   */
+  omit?: Prisma.OrderRefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundItemInclude<ExtArgs> | null
+}
@@ -0,0 +1,1622 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PickupLocation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PickupLocation
+ * 
+ */
+export type PickupLocationModel = runtime.Types.Result.DefaultSelection<Prisma.$PickupLocationPayload>
+
+export type AggregatePickupLocation = {
+  _count: PickupLocationCountAggregateOutputType | null
+  _avg: PickupLocationAvgAggregateOutputType | null
+  _sum: PickupLocationSumAggregateOutputType | null
+  _min: PickupLocationMinAggregateOutputType | null
+  _max: PickupLocationMaxAggregateOutputType | null
+}
+
+export type PickupLocationAvgAggregateOutputType = {
+  prepTimeHours: number | null
+}
+
+export type PickupLocationSumAggregateOutputType = {
+  prepTimeHours: number | null
+}
+
+export type PickupLocationMinAggregateOutputType = {
+  id: string | null
+  name: string | null
+  address: string | null
+  city: string | null
+  state: string | null
+  country: string | null
+  phone: string | null
+  openingHours: string | null
+  prepTimeHours: number | null
+  instructions: string | null
+  active: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PickupLocationMaxAggregateOutputType = {
+  id: string | null
+  name: string | null
+  address: string | null
+  city: string | null
+  state: string | null
+  country: string | null
+  phone: string | null
+  openingHours: string | null
+  prepTimeHours: number | null
+  instructions: string | null
+  active: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PickupLocationCountAggregateOutputType = {
+  id: number
+  name: number
+  address: number
+  city: number
+  state: number
+  country: number
+  phone: number
+  openingHours: number
+  prepTimeHours: number
+  instructions: number
+  active: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PickupLocationAvgAggregateInputType = {
+  prepTimeHours?: true
+}
+
+export type PickupLocationSumAggregateInputType = {
+  prepTimeHours?: true
+}
+
+export type PickupLocationMinAggregateInputType = {
+  id?: true
+  name?: true
+  address?: true
+  city?: true
+  state?: true
+  country?: true
+  phone?: true
+  openingHours?: true
+  prepTimeHours?: true
+  instructions?: true
+  active?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PickupLocationMaxAggregateInputType = {
+  id?: true
+  name?: true
+  address?: true
+  city?: true
+  state?: true
+  country?: true
+  phone?: true
+  openingHours?: true
+  prepTimeHours?: true
+  instructions?: true
+  active?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PickupLocationCountAggregateInputType = {
+  id?: true
+  name?: true
+  address?: true
+  city?: true
+  state?: true
+  country?: true
+  phone?: true
+  openingHours?: true
+  prepTimeHours?: true
+  instructions?: true
+  active?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PickupLocationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PickupLocation to aggregate.
+   */
+  where?: Prisma.PickupLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PickupLocations to fetch.
+   */
+  orderBy?: Prisma.PickupLocationOrderByWithRelationInput | Prisma.PickupLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PickupLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PickupLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PickupLocations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PickupLocations
+  **/
+  _count?: true | PickupLocationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PickupLocationAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PickupLocationSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PickupLocationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PickupLocationMaxAggregateInputType
+}
+
+export type GetPickupLocationAggregateType<T extends PickupLocationAggregateArgs> = {
+      [P in keyof T & keyof AggregatePickupLocation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePickupLocation[P]>
+    : Prisma.GetScalarType<T[P], AggregatePickupLocation[P]>
+}
+
+
+
+
+export type PickupLocationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PickupLocationWhereInput
+  orderBy?: Prisma.PickupLocationOrderByWithAggregationInput | Prisma.PickupLocationOrderByWithAggregationInput[]
+  by: Prisma.PickupLocationScalarFieldEnum[] | Prisma.PickupLocationScalarFieldEnum
+  having?: Prisma.PickupLocationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PickupLocationCountAggregateInputType | true
+  _avg?: PickupLocationAvgAggregateInputType
+  _sum?: PickupLocationSumAggregateInputType
+  _min?: PickupLocationMinAggregateInputType
+  _max?: PickupLocationMaxAggregateInputType
+}
+
+export type PickupLocationGroupByOutputType = {
+  id: string
+  name: string
+  address: string
+  city: string | null
+  state: string | null
+  country: string
+  phone: string | null
+  openingHours: string
+  prepTimeHours: number
+  instructions: string | null
+  active: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: PickupLocationCountAggregateOutputType | null
+  _avg: PickupLocationAvgAggregateOutputType | null
+  _sum: PickupLocationSumAggregateOutputType | null
+  _min: PickupLocationMinAggregateOutputType | null
+  _max: PickupLocationMaxAggregateOutputType | null
+}
+
+type GetPickupLocationGroupByPayload<T extends PickupLocationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PickupLocationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PickupLocationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PickupLocationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PickupLocationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PickupLocationWhereInput = {
+  AND?: Prisma.PickupLocationWhereInput | Prisma.PickupLocationWhereInput[]
+  OR?: Prisma.PickupLocationWhereInput[]
+  NOT?: Prisma.PickupLocationWhereInput | Prisma.PickupLocationWhereInput[]
+  id?: Prisma.StringFilter<"PickupLocation"> | string
+  name?: Prisma.StringFilter<"PickupLocation"> | string
+  address?: Prisma.StringFilter<"PickupLocation"> | string
+  city?: Prisma.StringNullableFilter<"PickupLocation"> | string | null
+  state?: Prisma.StringNullableFilter<"PickupLocation"> | string | null
+  country?: Prisma.StringFilter<"PickupLocation"> | string
+  phone?: Prisma.StringNullableFilter<"PickupLocation"> | string | null
+  openingHours?: Prisma.StringFilter<"PickupLocation"> | string
+  prepTimeHours?: Prisma.IntFilter<"PickupLocation"> | number
+  instructions?: Prisma.StringNullableFilter<"PickupLocation"> | string | null
+  active?: Prisma.BoolFilter<"PickupLocation"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"PickupLocation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PickupLocation"> | Date | string
+  pickups?: Prisma.OrderPickupListRelationFilter
+}
+
+export type PickupLocationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  city?: Prisma.SortOrderInput | Prisma.SortOrder
+  state?: Prisma.SortOrderInput | Prisma.SortOrder
+  country?: Prisma.SortOrder
+  phone?: Prisma.SortOrderInput | Prisma.SortOrder
+  openingHours?: Prisma.SortOrder
+  prepTimeHours?: Prisma.SortOrder
+  instructions?: Prisma.SortOrderInput | Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  pickups?: Prisma.OrderPickupOrderByRelationAggregateInput
+}
+
+export type PickupLocationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.PickupLocationWhereInput | Prisma.PickupLocationWhereInput[]
+  OR?: Prisma.PickupLocationWhereInput[]
+  NOT?: Prisma.PickupLocationWhereInput | Prisma.PickupLocationWhereInput[]
+  name?: Prisma.StringFilter<"PickupLocation"> | string
+  address?: Prisma.StringFilter<"PickupLocation"> | string
+  city?: Prisma.StringNullableFilter<"PickupLocation"> | string | null
+  state?: Prisma.StringNullableFilter<"PickupLocation"> | string | null
+  country?: Prisma.StringFilter<"PickupLocation"> | string
+  phone?: Prisma.StringNullableFilter<"PickupLocation"> | string | null
+  openingHours?: Prisma.StringFilter<"PickupLocation"> | string
+  prepTimeHours?: Prisma.IntFilter<"PickupLocation"> | number
+  instructions?: Prisma.StringNullableFilter<"PickupLocation"> | string | null
+  active?: Prisma.BoolFilter<"PickupLocation"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"PickupLocation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PickupLocation"> | Date | string
+  pickups?: Prisma.OrderPickupListRelationFilter
+}, "id">
+
+export type PickupLocationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  city?: Prisma.SortOrderInput | Prisma.SortOrder
+  state?: Prisma.SortOrderInput | Prisma.SortOrder
+  country?: Prisma.SortOrder
+  phone?: Prisma.SortOrderInput | Prisma.SortOrder
+  openingHours?: Prisma.SortOrder
+  prepTimeHours?: Prisma.SortOrder
+  instructions?: Prisma.SortOrderInput | Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PickupLocationCountOrderByAggregateInput
+  _avg?: Prisma.PickupLocationAvgOrderByAggregateInput
+  _max?: Prisma.PickupLocationMaxOrderByAggregateInput
+  _min?: Prisma.PickupLocationMinOrderByAggregateInput
+  _sum?: Prisma.PickupLocationSumOrderByAggregateInput
+}
+
+export type PickupLocationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PickupLocationScalarWhereWithAggregatesInput | Prisma.PickupLocationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PickupLocationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PickupLocationScalarWhereWithAggregatesInput | Prisma.PickupLocationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PickupLocation"> | string
+  name?: Prisma.StringWithAggregatesFilter<"PickupLocation"> | string
+  address?: Prisma.StringWithAggregatesFilter<"PickupLocation"> | string
+  city?: Prisma.StringNullableWithAggregatesFilter<"PickupLocation"> | string | null
+  state?: Prisma.StringNullableWithAggregatesFilter<"PickupLocation"> | string | null
+  country?: Prisma.StringWithAggregatesFilter<"PickupLocation"> | string
+  phone?: Prisma.StringNullableWithAggregatesFilter<"PickupLocation"> | string | null
+  openingHours?: Prisma.StringWithAggregatesFilter<"PickupLocation"> | string
+  prepTimeHours?: Prisma.IntWithAggregatesFilter<"PickupLocation"> | number
+  instructions?: Prisma.StringNullableWithAggregatesFilter<"PickupLocation"> | string | null
+  active?: Prisma.BoolWithAggregatesFilter<"PickupLocation"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PickupLocation"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"PickupLocation"> | Date | string
+}
+
+export type PickupLocationCreateInput = {
+  id?: string
+  name: string
+  address: string
+  city?: string | null
+  state?: string | null
+  country?: string
+  phone?: string | null
+  openingHours: string
+  prepTimeHours?: number
+  instructions?: string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  pickups?: Prisma.OrderPickupCreateNestedManyWithoutLocationInput
+}
+
+export type PickupLocationUncheckedCreateInput = {
+  id?: string
+  name: string
+  address: string
+  city?: string | null
+  state?: string | null
+  country?: string
+  phone?: string | null
+  openingHours: string
+  prepTimeHours?: number
+  instructions?: string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  pickups?: Prisma.OrderPickupUncheckedCreateNestedManyWithoutLocationInput
+}
+
+export type PickupLocationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.StringFieldUpdateOperationsInput | string
+  city?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  openingHours?: Prisma.StringFieldUpdateOperationsInput | string
+  prepTimeHours?: Prisma.IntFieldUpdateOperationsInput | number
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  pickups?: Prisma.OrderPickupUpdateManyWithoutLocationNestedInput
+}
+
+export type PickupLocationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.StringFieldUpdateOperationsInput | string
+  city?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  openingHours?: Prisma.StringFieldUpdateOperationsInput | string
+  prepTimeHours?: Prisma.IntFieldUpdateOperationsInput | number
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  pickups?: Prisma.OrderPickupUncheckedUpdateManyWithoutLocationNestedInput
+}
+
+export type PickupLocationCreateManyInput = {
+  id?: string
+  name: string
+  address: string
+  city?: string | null
+  state?: string | null
+  country?: string
+  phone?: string | null
+  openingHours: string
+  prepTimeHours?: number
+  instructions?: string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PickupLocationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.StringFieldUpdateOperationsInput | string
+  city?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  openingHours?: Prisma.StringFieldUpdateOperationsInput | string
+  prepTimeHours?: Prisma.IntFieldUpdateOperationsInput | number
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PickupLocationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.StringFieldUpdateOperationsInput | string
+  city?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  openingHours?: Prisma.StringFieldUpdateOperationsInput | string
+  prepTimeHours?: Prisma.IntFieldUpdateOperationsInput | number
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PickupLocationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  city?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
+  openingHours?: Prisma.SortOrder
+  prepTimeHours?: Prisma.SortOrder
+  instructions?: Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PickupLocationAvgOrderByAggregateInput = {
+  prepTimeHours?: Prisma.SortOrder
+}
+
+export type PickupLocationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  city?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
+  openingHours?: Prisma.SortOrder
+  prepTimeHours?: Prisma.SortOrder
+  instructions?: Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PickupLocationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  city?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
+  openingHours?: Prisma.SortOrder
+  prepTimeHours?: Prisma.SortOrder
+  instructions?: Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PickupLocationSumOrderByAggregateInput = {
+  prepTimeHours?: Prisma.SortOrder
+}
+
+export type PickupLocationScalarRelationFilter = {
+  is?: Prisma.PickupLocationWhereInput
+  isNot?: Prisma.PickupLocationWhereInput
+}
+
+export type PickupLocationCreateNestedOneWithoutPickupsInput = {
+  create?: Prisma.XOR<Prisma.PickupLocationCreateWithoutPickupsInput, Prisma.PickupLocationUncheckedCreateWithoutPickupsInput>
+  connectOrCreate?: Prisma.PickupLocationCreateOrConnectWithoutPickupsInput
+  connect?: Prisma.PickupLocationWhereUniqueInput
+}
+
+export type PickupLocationUpdateOneRequiredWithoutPickupsNestedInput = {
+  create?: Prisma.XOR<Prisma.PickupLocationCreateWithoutPickupsInput, Prisma.PickupLocationUncheckedCreateWithoutPickupsInput>
+  connectOrCreate?: Prisma.PickupLocationCreateOrConnectWithoutPickupsInput
+  upsert?: Prisma.PickupLocationUpsertWithoutPickupsInput
+  connect?: Prisma.PickupLocationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PickupLocationUpdateToOneWithWhereWithoutPickupsInput, Prisma.PickupLocationUpdateWithoutPickupsInput>, Prisma.PickupLocationUncheckedUpdateWithoutPickupsInput>
+}
+
+export type PickupLocationCreateWithoutPickupsInput = {
+  id?: string
+  name: string
+  address: string
+  city?: string | null
+  state?: string | null
+  country?: string
+  phone?: string | null
+  openingHours: string
+  prepTimeHours?: number
+  instructions?: string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PickupLocationUncheckedCreateWithoutPickupsInput = {
+  id?: string
+  name: string
+  address: string
+  city?: string | null
+  state?: string | null
+  country?: string
+  phone?: string | null
+  openingHours: string
+  prepTimeHours?: number
+  instructions?: string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PickupLocationCreateOrConnectWithoutPickupsInput = {
+  where: Prisma.PickupLocationWhereUniqueInput
+  create: Prisma.XOR<Prisma.PickupLocationCreateWithoutPickupsInput, Prisma.PickupLocationUncheckedCreateWithoutPickupsInput>
+}
+
+export type PickupLocationUpsertWithoutPickupsInput = {
+  update: Prisma.XOR<Prisma.PickupLocationUpdateWithoutPickupsInput, Prisma.PickupLocationUncheckedUpdateWithoutPickupsInput>
+  create: Prisma.XOR<Prisma.PickupLocationCreateWithoutPickupsInput, Prisma.PickupLocationUncheckedCreateWithoutPickupsInput>
+  where?: Prisma.PickupLocationWhereInput
+}
+
+export type PickupLocationUpdateToOneWithWhereWithoutPickupsInput = {
+  where?: Prisma.PickupLocationWhereInput
+  data: Prisma.XOR<Prisma.PickupLocationUpdateWithoutPickupsInput, Prisma.PickupLocationUncheckedUpdateWithoutPickupsInput>
+}
+
+export type PickupLocationUpdateWithoutPickupsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.StringFieldUpdateOperationsInput | string
+  city?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  openingHours?: Prisma.StringFieldUpdateOperationsInput | string
+  prepTimeHours?: Prisma.IntFieldUpdateOperationsInput | number
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PickupLocationUncheckedUpdateWithoutPickupsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.StringFieldUpdateOperationsInput | string
+  city?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  openingHours?: Prisma.StringFieldUpdateOperationsInput | string
+  prepTimeHours?: Prisma.IntFieldUpdateOperationsInput | number
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type PickupLocationCountOutputType
+ */
+
+export type PickupLocationCountOutputType = {
+  pickups: number
+}
+
+export type PickupLocationCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  pickups?: boolean | PickupLocationCountOutputTypeCountPickupsArgs
+}
+
+/**
+ * PickupLocationCountOutputType without action
+ */
+export type PickupLocationCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocationCountOutputType
+   */
+  select?: Prisma.PickupLocationCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * PickupLocationCountOutputType without action
+ */
+export type PickupLocationCountOutputTypeCountPickupsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderPickupWhereInput
+}
+
+
+export type PickupLocationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  address?: boolean
+  city?: boolean
+  state?: boolean
+  country?: boolean
+  phone?: boolean
+  openingHours?: boolean
+  prepTimeHours?: boolean
+  instructions?: boolean
+  active?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  pickups?: boolean | Prisma.PickupLocation$pickupsArgs<ExtArgs>
+  _count?: boolean | Prisma.PickupLocationCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["pickupLocation"]>
+
+export type PickupLocationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  address?: boolean
+  city?: boolean
+  state?: boolean
+  country?: boolean
+  phone?: boolean
+  openingHours?: boolean
+  prepTimeHours?: boolean
+  instructions?: boolean
+  active?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["pickupLocation"]>
+
+export type PickupLocationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  address?: boolean
+  city?: boolean
+  state?: boolean
+  country?: boolean
+  phone?: boolean
+  openingHours?: boolean
+  prepTimeHours?: boolean
+  instructions?: boolean
+  active?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["pickupLocation"]>
+
+export type PickupLocationSelectScalar = {
+  id?: boolean
+  name?: boolean
+  address?: boolean
+  city?: boolean
+  state?: boolean
+  country?: boolean
+  phone?: boolean
+  openingHours?: boolean
+  prepTimeHours?: boolean
+  instructions?: boolean
+  active?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PickupLocationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "address" | "city" | "state" | "country" | "phone" | "openingHours" | "prepTimeHours" | "instructions" | "active" | "createdAt" | "updatedAt", ExtArgs["result"]["pickupLocation"]>
+export type PickupLocationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  pickups?: boolean | Prisma.PickupLocation$pickupsArgs<ExtArgs>
+  _count?: boolean | Prisma.PickupLocationCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type PickupLocationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type PickupLocationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $PickupLocationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PickupLocation"
+  objects: {
+    pickups: Prisma.$OrderPickupPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    name: string
+    address: string
+    city: string | null
+    state: string | null
+    country: string
+    phone: string | null
+    openingHours: string
+    prepTimeHours: number
+    instructions: string | null
+    active: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["pickupLocation"]>
+  composites: {}
+}
+
+export type PickupLocationGetPayload<S extends boolean | null | undefined | PickupLocationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload, S>
+
+export type PickupLocationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PickupLocationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PickupLocationCountAggregateInputType | true
+  }
+
+export interface PickupLocationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PickupLocation'], meta: { name: 'PickupLocation' } }
+  /**
+   * Find zero or one PickupLocation that matches the filter.
+   * @param {PickupLocationFindUniqueArgs} args - Arguments to find a PickupLocation
+   * @example
+   * // Get one PickupLocation
+   * const pickupLocation = await prisma.pickupLocation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PickupLocationFindUniqueArgs>(args: Prisma.SelectSubset<T, PickupLocationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PickupLocationClient<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PickupLocation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PickupLocationFindUniqueOrThrowArgs} args - Arguments to find a PickupLocation
+   * @example
+   * // Get one PickupLocation
+   * const pickupLocation = await prisma.pickupLocation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PickupLocationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PickupLocationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PickupLocationClient<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PickupLocation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PickupLocationFindFirstArgs} args - Arguments to find a PickupLocation
+   * @example
+   * // Get one PickupLocation
+   * const pickupLocation = await prisma.pickupLocation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PickupLocationFindFirstArgs>(args?: Prisma.SelectSubset<T, PickupLocationFindFirstArgs<ExtArgs>>): Prisma.Prisma__PickupLocationClient<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PickupLocation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PickupLocationFindFirstOrThrowArgs} args - Arguments to find a PickupLocation
+   * @example
+   * // Get one PickupLocation
+   * const pickupLocation = await prisma.pickupLocation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PickupLocationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PickupLocationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PickupLocationClient<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PickupLocations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PickupLocationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PickupLocations
+   * const pickupLocations = await prisma.pickupLocation.findMany()
+   * 
+   * // Get first 10 PickupLocations
+   * const pickupLocations = await prisma.pickupLocation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const pickupLocationWithIdOnly = await prisma.pickupLocation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PickupLocationFindManyArgs>(args?: Prisma.SelectSubset<T, PickupLocationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PickupLocation.
+   * @param {PickupLocationCreateArgs} args - Arguments to create a PickupLocation.
+   * @example
+   * // Create one PickupLocation
+   * const PickupLocation = await prisma.pickupLocation.create({
+   *   data: {
+   *     // ... data to create a PickupLocation
+   *   }
+   * })
+   * 
+   */
+  create<T extends PickupLocationCreateArgs>(args: Prisma.SelectSubset<T, PickupLocationCreateArgs<ExtArgs>>): Prisma.Prisma__PickupLocationClient<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PickupLocations.
+   * @param {PickupLocationCreateManyArgs} args - Arguments to create many PickupLocations.
+   * @example
+   * // Create many PickupLocations
+   * const pickupLocation = await prisma.pickupLocation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PickupLocationCreateManyArgs>(args?: Prisma.SelectSubset<T, PickupLocationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PickupLocations and returns the data saved in the database.
+   * @param {PickupLocationCreateManyAndReturnArgs} args - Arguments to create many PickupLocations.
+   * @example
+   * // Create many PickupLocations
+   * const pickupLocation = await prisma.pickupLocation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PickupLocations and only return the `id`
+   * const pickupLocationWithIdOnly = await prisma.pickupLocation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PickupLocationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PickupLocationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PickupLocation.
+   * @param {PickupLocationDeleteArgs} args - Arguments to delete one PickupLocation.
+   * @example
+   * // Delete one PickupLocation
+   * const PickupLocation = await prisma.pickupLocation.delete({
+   *   where: {
+   *     // ... filter to delete one PickupLocation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PickupLocationDeleteArgs>(args: Prisma.SelectSubset<T, PickupLocationDeleteArgs<ExtArgs>>): Prisma.Prisma__PickupLocationClient<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PickupLocation.
+   * @param {PickupLocationUpdateArgs} args - Arguments to update one PickupLocation.
+   * @example
+   * // Update one PickupLocation
+   * const pickupLocation = await prisma.pickupLocation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PickupLocationUpdateArgs>(args: Prisma.SelectSubset<T, PickupLocationUpdateArgs<ExtArgs>>): Prisma.Prisma__PickupLocationClient<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PickupLocations.
+   * @param {PickupLocationDeleteManyArgs} args - Arguments to filter PickupLocations to delete.
+   * @example
+   * // Delete a few PickupLocations
+   * const { count } = await prisma.pickupLocation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PickupLocationDeleteManyArgs>(args?: Prisma.SelectSubset<T, PickupLocationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PickupLocations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PickupLocationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PickupLocations
+   * const pickupLocation = await prisma.pickupLocation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PickupLocationUpdateManyArgs>(args: Prisma.SelectSubset<T, PickupLocationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PickupLocations and returns the data updated in the database.
+   * @param {PickupLocationUpdateManyAndReturnArgs} args - Arguments to update many PickupLocations.
+   * @example
+   * // Update many PickupLocations
+   * const pickupLocation = await prisma.pickupLocation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PickupLocations and only return the `id`
+   * const pickupLocationWithIdOnly = await prisma.pickupLocation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PickupLocationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PickupLocationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PickupLocation.
+   * @param {PickupLocationUpsertArgs} args - Arguments to update or create a PickupLocation.
+   * @example
+   * // Update or create a PickupLocation
+   * const pickupLocation = await prisma.pickupLocation.upsert({
+   *   create: {
+   *     // ... data to create a PickupLocation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PickupLocation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PickupLocationUpsertArgs>(args: Prisma.SelectSubset<T, PickupLocationUpsertArgs<ExtArgs>>): Prisma.Prisma__PickupLocationClient<runtime.Types.Result.GetResult<Prisma.$PickupLocationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PickupLocations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PickupLocationCountArgs} args - Arguments to filter PickupLocations to count.
+   * @example
+   * // Count the number of PickupLocations
+   * const count = await prisma.pickupLocation.count({
+   *   where: {
+   *     // ... the filter for the PickupLocations we want to count
+   *   }
+   * })
+  **/
+  count<T extends PickupLocationCountArgs>(
+    args?: Prisma.Subset<T, PickupLocationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PickupLocationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PickupLocation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PickupLocationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PickupLocationAggregateArgs>(args: Prisma.Subset<T, PickupLocationAggregateArgs>): Prisma.PrismaPromise<GetPickupLocationAggregateType<T>>
+
+  /**
+   * Group by PickupLocation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PickupLocationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PickupLocationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PickupLocationGroupByArgs['orderBy'] }
+      : { orderBy?: PickupLocationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PickupLocationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPickupLocationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PickupLocation model
+ */
+readonly fields: PickupLocationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PickupLocation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PickupLocationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  pickups<T extends Prisma.PickupLocation$pickupsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PickupLocation$pickupsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PickupLocation model
+ */
+export interface PickupLocationFieldRefs {
+  readonly id: Prisma.FieldRef<"PickupLocation", 'String'>
+  readonly name: Prisma.FieldRef<"PickupLocation", 'String'>
+  readonly address: Prisma.FieldRef<"PickupLocation", 'String'>
+  readonly city: Prisma.FieldRef<"PickupLocation", 'String'>
+  readonly state: Prisma.FieldRef<"PickupLocation", 'String'>
+  readonly country: Prisma.FieldRef<"PickupLocation", 'String'>
+  readonly phone: Prisma.FieldRef<"PickupLocation", 'String'>
+  readonly openingHours: Prisma.FieldRef<"PickupLocation", 'String'>
+  readonly prepTimeHours: Prisma.FieldRef<"PickupLocation", 'Int'>
+  readonly instructions: Prisma.FieldRef<"PickupLocation", 'String'>
+  readonly active: Prisma.FieldRef<"PickupLocation", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"PickupLocation", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"PickupLocation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PickupLocation findUnique
+ */
+export type PickupLocationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which PickupLocation to fetch.
+   */
+  where: Prisma.PickupLocationWhereUniqueInput
+}
+
+/**
+ * PickupLocation findUniqueOrThrow
+ */
+export type PickupLocationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which PickupLocation to fetch.
+   */
+  where: Prisma.PickupLocationWhereUniqueInput
+}
+
+/**
+ * PickupLocation findFirst
+ */
+export type PickupLocationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which PickupLocation to fetch.
+   */
+  where?: Prisma.PickupLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PickupLocations to fetch.
+   */
+  orderBy?: Prisma.PickupLocationOrderByWithRelationInput | Prisma.PickupLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PickupLocations.
+   */
+  cursor?: Prisma.PickupLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PickupLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PickupLocations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PickupLocations.
+   */
+  distinct?: Prisma.PickupLocationScalarFieldEnum | Prisma.PickupLocationScalarFieldEnum[]
+}
+
+/**
+ * PickupLocation findFirstOrThrow
+ */
+export type PickupLocationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which PickupLocation to fetch.
+   */
+  where?: Prisma.PickupLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PickupLocations to fetch.
+   */
+  orderBy?: Prisma.PickupLocationOrderByWithRelationInput | Prisma.PickupLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PickupLocations.
+   */
+  cursor?: Prisma.PickupLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PickupLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PickupLocations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PickupLocations.
+   */
+  distinct?: Prisma.PickupLocationScalarFieldEnum | Prisma.PickupLocationScalarFieldEnum[]
+}
+
+/**
+ * PickupLocation findMany
+ */
+export type PickupLocationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which PickupLocations to fetch.
+   */
+  where?: Prisma.PickupLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PickupLocations to fetch.
+   */
+  orderBy?: Prisma.PickupLocationOrderByWithRelationInput | Prisma.PickupLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PickupLocations.
+   */
+  cursor?: Prisma.PickupLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PickupLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PickupLocations.
+   */
+  skip?: number
+  distinct?: Prisma.PickupLocationScalarFieldEnum | Prisma.PickupLocationScalarFieldEnum[]
+}
+
+/**
+ * PickupLocation create
+ */
+export type PickupLocationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PickupLocation.
+   */
+  data: Prisma.XOR<Prisma.PickupLocationCreateInput, Prisma.PickupLocationUncheckedCreateInput>
+}
+
+/**
+ * PickupLocation createMany
+ */
+export type PickupLocationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PickupLocations.
+   */
+  data: Prisma.PickupLocationCreateManyInput | Prisma.PickupLocationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PickupLocation createManyAndReturn
+ */
+export type PickupLocationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * The data used to create many PickupLocations.
+   */
+  data: Prisma.PickupLocationCreateManyInput | Prisma.PickupLocationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PickupLocation update
+ */
+export type PickupLocationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PickupLocation.
+   */
+  data: Prisma.XOR<Prisma.PickupLocationUpdateInput, Prisma.PickupLocationUncheckedUpdateInput>
+  /**
+   * Choose, which PickupLocation to update.
+   */
+  where: Prisma.PickupLocationWhereUniqueInput
+}
+
+/**
+ * PickupLocation updateMany
+ */
+export type PickupLocationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PickupLocations.
+   */
+  data: Prisma.XOR<Prisma.PickupLocationUpdateManyMutationInput, Prisma.PickupLocationUncheckedUpdateManyInput>
+  /**
+   * Filter which PickupLocations to update
+   */
+  where?: Prisma.PickupLocationWhereInput
+  /**
+   * Limit how many PickupLocations to update.
+   */
+  limit?: number
+}
+
+/**
+ * PickupLocation updateManyAndReturn
+ */
+export type PickupLocationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * The data used to update PickupLocations.
+   */
+  data: Prisma.XOR<Prisma.PickupLocationUpdateManyMutationInput, Prisma.PickupLocationUncheckedUpdateManyInput>
+  /**
+   * Filter which PickupLocations to update
+   */
+  where?: Prisma.PickupLocationWhereInput
+  /**
+   * Limit how many PickupLocations to update.
+   */
+  limit?: number
+}
+
+/**
+ * PickupLocation upsert
+ */
+export type PickupLocationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PickupLocation to update in case it exists.
+   */
+  where: Prisma.PickupLocationWhereUniqueInput
+  /**
+   * In case the PickupLocation found by the `where` argument doesn't exist, create a new PickupLocation with this data.
+   */
+  create: Prisma.XOR<Prisma.PickupLocationCreateInput, Prisma.PickupLocationUncheckedCreateInput>
+  /**
+   * In case the PickupLocation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PickupLocationUpdateInput, Prisma.PickupLocationUncheckedUpdateInput>
+}
+
+/**
+ * PickupLocation delete
+ */
+export type PickupLocationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+  /**
+   * Filter which PickupLocation to delete.
+   */
+  where: Prisma.PickupLocationWhereUniqueInput
+}
+
+/**
+ * PickupLocation deleteMany
+ */
+export type PickupLocationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PickupLocations to delete
+   */
+  where?: Prisma.PickupLocationWhereInput
+  /**
+   * Limit how many PickupLocations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PickupLocation.pickups
+ */
+export type PickupLocation$pickupsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  where?: Prisma.OrderPickupWhereInput
+  orderBy?: Prisma.OrderPickupOrderByWithRelationInput | Prisma.OrderPickupOrderByWithRelationInput[]
+  cursor?: Prisma.OrderPickupWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderPickupScalarFieldEnum | Prisma.OrderPickupScalarFieldEnum[]
+}
+
+/**
+ * PickupLocation without action
+ */
+export type PickupLocationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PickupLocation
+   */
+  select?: Prisma.PickupLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PickupLocation
+   */
+  omit?: Prisma.PickupLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PickupLocationInclude<ExtArgs> | null
+}
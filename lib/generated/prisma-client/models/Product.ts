@@ -31,8 +31,13 @@ export type ProductAvgAggregateOutputType = {
   priceUSD: number | null
   priceEUR: number | null
   priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
   averageRating: number | null
   ratingCount: number | null
+  lowStockThreshold: number | null
 }
 
 export type ProductSumAggregateOutputType = {
@@ -40,8 +45,13 @@ export type ProductSumAggregateOutputType = {
   priceUSD: number | null
   priceEUR: number | null
   priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
   averageRating: number | null
   ratingCount: number | null
+  lowStockThreshold: number | null
 }
 
 export type ProductMinAggregateOutputType = {
@@ -53,11 +63,18 @@ export type ProductMinAggregateOutputType = {
   priceUSD: number | null
   priceEUR: number | null
   priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
   sizeMods: boolean | null
   status: $Enums.ProductStatus | null
+  publishAt: Date | null
+  unpublishAt: Date | null
   videoUrl: string | null
   averageRating: number | null
   ratingCount: number | null
+  lowStockThreshold: number | null
   createdAt: Date | null
 }
 
@@ -70,11 +87,18 @@ export type ProductMaxAggregateOutputType = {
   priceUSD: number | null
   priceEUR: number | null
   priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
   sizeMods: boolean | null
   status: $Enums.ProductStatus | null
+  publishAt: Date | null
+  unpublishAt: Date | null
   videoUrl: string | null
   averageRating: number | null
   ratingCount: number | null
+  lowStockThreshold: number | null
   createdAt: Date | null
 }
 
@@ -88,11 +112,18 @@ export type ProductCountAggregateOutputType = {
   priceUSD: number
   priceEUR: number
   priceGBP: number
+  compareAtNGN: number
+  compareAtUSD: number
+  compareAtEUR: number
+  compareAtGBP: number
   sizeMods: number
   status: number
+  publishAt: number
+  unpublishAt: number
   videoUrl: number
   averageRating: number
   ratingCount: number
+  lowStockThreshold: number
   createdAt: number
   _all: number
 }
@@ -103,8 +134,13 @@ export type ProductAvgAggregateInputType = {
   priceUSD?: true
   priceEUR?: true
   priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
   averageRating?: true
   ratingCount?: true
+  lowStockThreshold?: true
 }
 
 export type ProductSumAggregateInputType = {
@@ -112,8 +148,13 @@ export type ProductSumAggregateInputType = {
   priceUSD?: true
   priceEUR?: true
   priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
   averageRating?: true
   ratingCount?: true
+  lowStockThreshold?: true
 }
 
 export type ProductMinAggregateInputType = {
@@ -125,11 +166,18 @@ export type ProductMinAggregateInputType = {
   priceUSD?: true
   priceEUR?: true
   priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
   sizeMods?: true
   status?: true
+  publishAt?: true
+  unpublishAt?: true
   videoUrl?: true
   averageRating?: true
   ratingCount?: true
+  lowStockThreshold?: true
   createdAt?: true
 }
 
@@ -142,11 +190,18 @@ export type ProductMaxAggregateInputType = {
   priceUSD?: true
   priceEUR?: true
   priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
   sizeMods?: true
   status?: true
+  publishAt?: true
+  unpublishAt?: true
   videoUrl?: true
   averageRating?: true
   ratingCount?: true
+  lowStockThreshold?: true
   createdAt?: true
 }
 
@@ -160,11 +215,18 @@ export type ProductCountAggregateInputType = {
   priceUSD?: true
   priceEUR?: true
   priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
   sizeMods?: true
   status?: true
+  publishAt?: true
+  unpublishAt?: true
   videoUrl?: true
   averageRating?: true
   ratingCount?: true
+  lowStockThreshold?: true
   createdAt?: true
   _all?: true
 }
@@ -265,11 +327,18 @@ export type ProductGroupByOutputType = {
   priceUSD: number | null
   priceEUR: number | null
   priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
   sizeMods: boolean
   status: $Enums.ProductStatus
+  publishAt: Date | null
+  unpublishAt: Date | null
   videoUrl: string | null
   averageRating: number
   ratingCount: number
+  lowStockThreshold: number
   createdAt: Date
   _count: ProductCountAggregateOutputType | null
   _avg: ProductAvgAggregateOutputType | null
@@ -306,16 +375,26 @@ export type ProductWhereInput = {
   priceUSD?: Prisma.FloatNullableFilter<"Product"> | number | null
   priceEUR?: Prisma.FloatNullableFilter<"Product"> | number | null
   priceGBP?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtNGN?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtUSD?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtEUR?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtGBP?: Prisma.FloatNullableFilter<"Product"> | number | null
   sizeMods?: Prisma.BoolFilter<"Product"> | boolean
   status?: Prisma.EnumProductStatusFilter<"Product"> | $Enums.ProductStatus
+  publishAt?: Prisma.DateTimeNullableFilter<"Product"> | Date | string | null
+  unpublishAt?: Prisma.DateTimeNullableFilter<"Product"> | Date | string | null
   videoUrl?: Prisma.StringNullableFilter<"Product"> | string | null
   averageRating?: Prisma.FloatFilter<"Product"> | number
   ratingCount?: Prisma.IntFilter<"Product"> | number
+  lowStockThreshold?: Prisma.IntFilter<"Product"> | number
   createdAt?: Prisma.DateTimeFilter<"Product"> | Date | string
   category?: Prisma.XOR<Prisma.CategoryScalarRelationFilter, Prisma.CategoryWhereInput>
   reviews?: Prisma.ReviewListRelationFilter
   variants?: Prisma.VariantListRelationFilter
   wishlistItems?: Prisma.WishlistItemListRelationFilter
+  launchNotifications?: Prisma.LaunchNotificationListRelationFilter
+  pricingRule?: Prisma.XOR<Prisma.PricingRuleNullableScalarRelationFilter, Prisma.PricingRuleWhereInput> | null
+  cartItems?: Prisma.CartItemListRelationFilter
 }
 
 export type ProductOrderByWithRelationInput = {
@@ -328,16 +407,26 @@ export type ProductOrderByWithRelationInput = {
   priceUSD?: Prisma.SortOrderInput | Prisma.SortOrder
   priceEUR?: Prisma.SortOrderInput | Prisma.SortOrder
   priceGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrderInput | Prisma.SortOrder
   sizeMods?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  publishAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  unpublishAt?: Prisma.SortOrderInput | Prisma.SortOrder
   videoUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   averageRating?: Prisma.SortOrder
   ratingCount?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   category?: Prisma.CategoryOrderByWithRelationInput
   reviews?: Prisma.ReviewOrderByRelationAggregateInput
   variants?: Prisma.VariantOrderByRelationAggregateInput
   wishlistItems?: Prisma.WishlistItemOrderByRelationAggregateInput
+  launchNotifications?: Prisma.LaunchNotificationOrderByRelationAggregateInput
+  pricingRule?: Prisma.PricingRuleOrderByWithRelationInput
+  cartItems?: Prisma.CartItemOrderByRelationAggregateInput
 }
 
 export type ProductWhereUniqueInput = Prisma.AtLeast<{
@@ -353,16 +442,26 @@ export type ProductWhereUniqueInput = Prisma.AtLeast<{
   priceUSD?: Prisma.FloatNullableFilter<"Product"> | number | null
   priceEUR?: Prisma.FloatNullableFilter<"Product"> | number | null
   priceGBP?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtNGN?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtUSD?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtEUR?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtGBP?: Prisma.FloatNullableFilter<"Product"> | number | null
   sizeMods?: Prisma.BoolFilter<"Product"> | boolean
   status?: Prisma.EnumProductStatusFilter<"Product"> | $Enums.ProductStatus
+  publishAt?: Prisma.DateTimeNullableFilter<"Product"> | Date | string | null
+  unpublishAt?: Prisma.DateTimeNullableFilter<"Product"> | Date | string | null
   videoUrl?: Prisma.StringNullableFilter<"Product"> | string | null
   averageRating?: Prisma.FloatFilter<"Product"> | number
   ratingCount?: Prisma.IntFilter<"Product"> | number
+  lowStockThreshold?: Prisma.IntFilter<"Product"> | number
   createdAt?: Prisma.DateTimeFilter<"Product"> | Date | string
   category?: Prisma.XOR<Prisma.CategoryScalarRelationFilter, Prisma.CategoryWhereInput>
   reviews?: Prisma.ReviewListRelationFilter
   variants?: Prisma.VariantListRelationFilter
   wishlistItems?: Prisma.WishlistItemListRelationFilter
+  launchNotifications?: Prisma.LaunchNotificationListRelationFilter
+  pricingRule?: Prisma.XOR<Prisma.PricingRuleNullableScalarRelationFilter, Prisma.PricingRuleWhereInput> | null
+  cartItems?: Prisma.CartItemListRelationFilter
 }, "id">
 
 export type ProductOrderByWithAggregationInput = {
@@ -375,11 +474,18 @@ export type ProductOrderByWithAggregationInput = {
   priceUSD?: Prisma.SortOrderInput | Prisma.SortOrder
   priceEUR?: Prisma.SortOrderInput | Prisma.SortOrder
   priceGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrderInput | Prisma.SortOrder
   sizeMods?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  publishAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  unpublishAt?: Prisma.SortOrderInput | Prisma.SortOrder
   videoUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   averageRating?: Prisma.SortOrder
   ratingCount?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   _count?: Prisma.ProductCountOrderByAggregateInput
   _avg?: Prisma.ProductAvgOrderByAggregateInput
@@ -401,11 +507,18 @@ export type ProductScalarWhereWithAggregatesInput = {
   priceUSD?: Prisma.FloatNullableWithAggregatesFilter<"Product"> | number | null
   priceEUR?: Prisma.FloatNullableWithAggregatesFilter<"Product"> | number | null
   priceGBP?: Prisma.FloatNullableWithAggregatesFilter<"Product"> | number | null
+  compareAtNGN?: Prisma.FloatNullableWithAggregatesFilter<"Product"> | number | null
+  compareAtUSD?: Prisma.FloatNullableWithAggregatesFilter<"Product"> | number | null
+  compareAtEUR?: Prisma.FloatNullableWithAggregatesFilter<"Product"> | number | null
+  compareAtGBP?: Prisma.FloatNullableWithAggregatesFilter<"Product"> | number | null
   sizeMods?: Prisma.BoolWithAggregatesFilter<"Product"> | boolean
   status?: Prisma.EnumProductStatusWithAggregatesFilter<"Product"> | $Enums.ProductStatus
+  publishAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Product"> | Date | string | null
+  unpublishAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Product"> | Date | string | null
   videoUrl?: Prisma.StringNullableWithAggregatesFilter<"Product"> | string | null
   averageRating?: Prisma.FloatWithAggregatesFilter<"Product"> | number
   ratingCount?: Prisma.IntWithAggregatesFilter<"Product"> | number
+  lowStockThreshold?: Prisma.IntWithAggregatesFilter<"Product"> | number
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Product"> | Date | string
 }
 
@@ -418,16 +531,26 @@ export type ProductCreateInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   category: Prisma.CategoryCreateNestedOneWithoutProductsInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutProductInput
   variants?: Prisma.VariantCreateNestedManyWithoutProductInput
   wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateInput = {
@@ -440,15 +563,25 @@ export type ProductUncheckedCreateInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutProductInput
   variants?: Prisma.VariantUncheckedCreateNestedManyWithoutProductInput
   wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleUncheckedCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductUpdateInput = {
@@ -460,16 +593,26 @@ export type ProductUpdateInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   category?: Prisma.CategoryUpdateOneRequiredWithoutProductsNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutProductNestedInput
   variants?: Prisma.VariantUpdateManyWithoutProductNestedInput
   wishlistItems?: Prisma.WishlistItemUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateInput = {
@@ -482,15 +625,25 @@ export type ProductUncheckedUpdateInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutProductNestedInput
   variants?: Prisma.VariantUncheckedUpdateManyWithoutProductNestedInput
   wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUncheckedUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductCreateManyInput = {
@@ -503,11 +656,18 @@ export type ProductCreateManyInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
 }
 
@@ -520,11 +680,18 @@ export type ProductUpdateManyMutationInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -538,11 +705,18 @@ export type ProductUncheckedUpdateManyInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -574,11 +748,18 @@ export type ProductCountOrderByAggregateInput = {
   priceUSD?: Prisma.SortOrder
   priceEUR?: Prisma.SortOrder
   priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
   sizeMods?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  publishAt?: Prisma.SortOrder
+  unpublishAt?: Prisma.SortOrder
   videoUrl?: Prisma.SortOrder
   averageRating?: Prisma.SortOrder
   ratingCount?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -587,8 +768,13 @@ export type ProductAvgOrderByAggregateInput = {
   priceUSD?: Prisma.SortOrder
   priceEUR?: Prisma.SortOrder
   priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
   averageRating?: Prisma.SortOrder
   ratingCount?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
 }
 
 export type ProductMaxOrderByAggregateInput = {
@@ -600,11 +786,18 @@ export type ProductMaxOrderByAggregateInput = {
   priceUSD?: Prisma.SortOrder
   priceEUR?: Prisma.SortOrder
   priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
   sizeMods?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  publishAt?: Prisma.SortOrder
+  unpublishAt?: Prisma.SortOrder
   videoUrl?: Prisma.SortOrder
   averageRating?: Prisma.SortOrder
   ratingCount?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -617,11 +810,18 @@ export type ProductMinOrderByAggregateInput = {
   priceUSD?: Prisma.SortOrder
   priceEUR?: Prisma.SortOrder
   priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
   sizeMods?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  publishAt?: Prisma.SortOrder
+  unpublishAt?: Prisma.SortOrder
   videoUrl?: Prisma.SortOrder
   averageRating?: Prisma.SortOrder
   ratingCount?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -630,8 +830,13 @@ export type ProductSumOrderByAggregateInput = {
   priceUSD?: Prisma.SortOrder
   priceEUR?: Prisma.SortOrder
   priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
   averageRating?: Prisma.SortOrder
   ratingCount?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
 }
 
 export type ProductScalarRelationFilter = {
@@ -639,6 +844,11 @@ export type ProductScalarRelationFilter = {
   isNot?: Prisma.ProductWhereInput
 }
 
+export type ProductNullableScalarRelationFilter = {
+  is?: Prisma.ProductWhereInput | null
+  isNot?: Prisma.ProductWhereInput | null
+}
+
 export type ProductCreateNestedManyWithoutCategoryInput = {
   create?: Prisma.XOR<Prisma.ProductCreateWithoutCategoryInput, Prisma.ProductUncheckedCreateWithoutCategoryInput> | Prisma.ProductCreateWithoutCategoryInput[] | Prisma.ProductUncheckedCreateWithoutCategoryInput[]
   connectOrCreate?: Prisma.ProductCreateOrConnectWithoutCategoryInput | Prisma.ProductCreateOrConnectWithoutCategoryInput[]
@@ -752,6 +962,50 @@ export type ProductUpdateOneRequiredWithoutWishlistItemsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutWishlistItemsInput, Prisma.ProductUpdateWithoutWishlistItemsInput>, Prisma.ProductUncheckedUpdateWithoutWishlistItemsInput>
 }
 
+export type ProductCreateNestedOneWithoutCartItemsInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutCartItemsInput, Prisma.ProductUncheckedCreateWithoutCartItemsInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutCartItemsInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneRequiredWithoutCartItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutCartItemsInput, Prisma.ProductUncheckedCreateWithoutCartItemsInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutCartItemsInput
+  upsert?: Prisma.ProductUpsertWithoutCartItemsInput
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutCartItemsInput, Prisma.ProductUpdateWithoutCartItemsInput>, Prisma.ProductUncheckedUpdateWithoutCartItemsInput>
+}
+
+export type ProductCreateNestedOneWithoutLaunchNotificationsInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutLaunchNotificationsInput, Prisma.ProductUncheckedCreateWithoutLaunchNotificationsInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutLaunchNotificationsInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneRequiredWithoutLaunchNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutLaunchNotificationsInput, Prisma.ProductUncheckedCreateWithoutLaunchNotificationsInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutLaunchNotificationsInput
+  upsert?: Prisma.ProductUpsertWithoutLaunchNotificationsInput
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutLaunchNotificationsInput, Prisma.ProductUpdateWithoutLaunchNotificationsInput>, Prisma.ProductUncheckedUpdateWithoutLaunchNotificationsInput>
+}
+
+export type ProductCreateNestedOneWithoutPricingRuleInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutPricingRuleInput, Prisma.ProductUncheckedCreateWithoutPricingRuleInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutPricingRuleInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneWithoutPricingRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutPricingRuleInput, Prisma.ProductUncheckedCreateWithoutPricingRuleInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutPricingRuleInput
+  upsert?: Prisma.ProductUpsertWithoutPricingRuleInput
+  disconnect?: Prisma.ProductWhereInput | boolean
+  delete?: Prisma.ProductWhereInput | boolean
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutPricingRuleInput, Prisma.ProductUpdateWithoutPricingRuleInput>, Prisma.ProductUncheckedUpdateWithoutPricingRuleInput>
+}
+
 export type ProductCreateWithoutCategoryInput = {
   id?: string
   name: string
@@ -761,15 +1015,25 @@ export type ProductCreateWithoutCategoryInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   reviews?: Prisma.ReviewCreateNestedManyWithoutProductInput
   variants?: Prisma.VariantCreateNestedManyWithoutProductInput
   wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateWithoutCategoryInput = {
@@ -781,15 +1045,25 @@ export type ProductUncheckedCreateWithoutCategoryInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutProductInput
   variants?: Prisma.VariantUncheckedCreateNestedManyWithoutProductInput
   wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleUncheckedCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductCreateOrConnectWithoutCategoryInput = {
@@ -831,11 +1105,18 @@ export type ProductScalarWhereInput = {
   priceUSD?: Prisma.FloatNullableFilter<"Product"> | number | null
   priceEUR?: Prisma.FloatNullableFilter<"Product"> | number | null
   priceGBP?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtNGN?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtUSD?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtEUR?: Prisma.FloatNullableFilter<"Product"> | number | null
+  compareAtGBP?: Prisma.FloatNullableFilter<"Product"> | number | null
   sizeMods?: Prisma.BoolFilter<"Product"> | boolean
   status?: Prisma.EnumProductStatusFilter<"Product"> | $Enums.ProductStatus
+  publishAt?: Prisma.DateTimeNullableFilter<"Product"> | Date | string | null
+  unpublishAt?: Prisma.DateTimeNullableFilter<"Product"> | Date | string | null
   videoUrl?: Prisma.StringNullableFilter<"Product"> | string | null
   averageRating?: Prisma.FloatFilter<"Product"> | number
   ratingCount?: Prisma.IntFilter<"Product"> | number
+  lowStockThreshold?: Prisma.IntFilter<"Product"> | number
   createdAt?: Prisma.DateTimeFilter<"Product"> | Date | string
 }
 
@@ -848,15 +1129,25 @@ export type ProductCreateWithoutVariantsInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   category: Prisma.CategoryCreateNestedOneWithoutProductsInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutProductInput
   wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateWithoutVariantsInput = {
@@ -869,14 +1160,24 @@ export type ProductUncheckedCreateWithoutVariantsInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutProductInput
   wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleUncheckedCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductCreateOrConnectWithoutVariantsInput = {
@@ -904,15 +1205,25 @@ export type ProductUpdateWithoutVariantsInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   category?: Prisma.CategoryUpdateOneRequiredWithoutProductsNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutProductNestedInput
   wishlistItems?: Prisma.WishlistItemUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateWithoutVariantsInput = {
@@ -925,14 +1236,24 @@ export type ProductUncheckedUpdateWithoutVariantsInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutProductNestedInput
   wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUncheckedUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductCreateWithoutReviewsInput = {
@@ -944,15 +1265,25 @@ export type ProductCreateWithoutReviewsInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   category: Prisma.CategoryCreateNestedOneWithoutProductsInput
   variants?: Prisma.VariantCreateNestedManyWithoutProductInput
   wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateWithoutReviewsInput = {
@@ -965,14 +1296,24 @@ export type ProductUncheckedCreateWithoutReviewsInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   variants?: Prisma.VariantUncheckedCreateNestedManyWithoutProductInput
   wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleUncheckedCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductCreateOrConnectWithoutReviewsInput = {
@@ -1000,15 +1341,25 @@ export type ProductUpdateWithoutReviewsInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   category?: Prisma.CategoryUpdateOneRequiredWithoutProductsNestedInput
   variants?: Prisma.VariantUpdateManyWithoutProductNestedInput
   wishlistItems?: Prisma.WishlistItemUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateWithoutReviewsInput = {
@@ -1021,14 +1372,24 @@ export type ProductUncheckedUpdateWithoutReviewsInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   variants?: Prisma.VariantUncheckedUpdateManyWithoutProductNestedInput
   wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUncheckedUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductCreateWithoutWishlistItemsInput = {
@@ -1040,15 +1401,25 @@ export type ProductCreateWithoutWishlistItemsInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   category: Prisma.CategoryCreateNestedOneWithoutProductsInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutProductInput
   variants?: Prisma.VariantCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateWithoutWishlistItemsInput = {
@@ -1061,14 +1432,24 @@ export type ProductUncheckedCreateWithoutWishlistItemsInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutProductInput
   variants?: Prisma.VariantUncheckedCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleUncheckedCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductCreateOrConnectWithoutWishlistItemsInput = {
@@ -1096,15 +1477,25 @@ export type ProductUpdateWithoutWishlistItemsInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   category?: Prisma.CategoryUpdateOneRequiredWithoutProductsNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutProductNestedInput
   variants?: Prisma.VariantUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateWithoutWishlistItemsInput = {
@@ -1117,14 +1508,432 @@ export type ProductUncheckedUpdateWithoutWishlistItemsInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
+  ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutProductNestedInput
+  variants?: Prisma.VariantUncheckedUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUncheckedUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutCartItemsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  images?: Prisma.ProductCreateimagesInput | string[]
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  sizeMods?: boolean
+  status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
+  videoUrl?: string | null
+  averageRating?: number
+  ratingCount?: number
+  lowStockThreshold?: number
+  createdAt?: Date | string
+  category: Prisma.CategoryCreateNestedOneWithoutProductsInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutProductInput
+  variants?: Prisma.VariantCreateNestedManyWithoutProductInput
+  wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleCreateNestedOneWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutCartItemsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  images?: Prisma.ProductCreateimagesInput | string[]
+  categorySlug: string
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  sizeMods?: boolean
+  status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
+  videoUrl?: string | null
+  averageRating?: number
+  ratingCount?: number
+  lowStockThreshold?: number
+  createdAt?: Date | string
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutProductInput
+  variants?: Prisma.VariantUncheckedCreateNestedManyWithoutProductInput
+  wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleUncheckedCreateNestedOneWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutCartItemsInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutCartItemsInput, Prisma.ProductUncheckedCreateWithoutCartItemsInput>
+}
+
+export type ProductUpsertWithoutCartItemsInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutCartItemsInput, Prisma.ProductUncheckedUpdateWithoutCartItemsInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutCartItemsInput, Prisma.ProductUncheckedCreateWithoutCartItemsInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutCartItemsInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutCartItemsInput, Prisma.ProductUncheckedUpdateWithoutCartItemsInput>
+}
+
+export type ProductUpdateWithoutCartItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  images?: Prisma.ProductUpdateimagesInput | string[]
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
+  ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneRequiredWithoutProductsNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutProductNestedInput
+  variants?: Prisma.VariantUpdateManyWithoutProductNestedInput
+  wishlistItems?: Prisma.WishlistItemUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUpdateOneWithoutProductNestedInput
+}
+
+export type ProductUncheckedUpdateWithoutCartItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  images?: Prisma.ProductUpdateimagesInput | string[]
+  categorySlug?: Prisma.StringFieldUpdateOperationsInput | string
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
+  ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutProductNestedInput
+  variants?: Prisma.VariantUncheckedUpdateManyWithoutProductNestedInput
+  wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUncheckedUpdateOneWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutLaunchNotificationsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  images?: Prisma.ProductCreateimagesInput | string[]
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  sizeMods?: boolean
+  status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
+  videoUrl?: string | null
+  averageRating?: number
+  ratingCount?: number
+  lowStockThreshold?: number
+  createdAt?: Date | string
+  category: Prisma.CategoryCreateNestedOneWithoutProductsInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutProductInput
+  variants?: Prisma.VariantCreateNestedManyWithoutProductInput
+  wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutLaunchNotificationsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  images?: Prisma.ProductCreateimagesInput | string[]
+  categorySlug: string
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  sizeMods?: boolean
+  status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
+  videoUrl?: string | null
+  averageRating?: number
+  ratingCount?: number
+  lowStockThreshold?: number
+  createdAt?: Date | string
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutProductInput
+  variants?: Prisma.VariantUncheckedCreateNestedManyWithoutProductInput
+  wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutProductInput
+  pricingRule?: Prisma.PricingRuleUncheckedCreateNestedOneWithoutProductInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutLaunchNotificationsInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutLaunchNotificationsInput, Prisma.ProductUncheckedCreateWithoutLaunchNotificationsInput>
+}
+
+export type ProductUpsertWithoutLaunchNotificationsInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutLaunchNotificationsInput, Prisma.ProductUncheckedUpdateWithoutLaunchNotificationsInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutLaunchNotificationsInput, Prisma.ProductUncheckedCreateWithoutLaunchNotificationsInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutLaunchNotificationsInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutLaunchNotificationsInput, Prisma.ProductUncheckedUpdateWithoutLaunchNotificationsInput>
+}
+
+export type ProductUpdateWithoutLaunchNotificationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  images?: Prisma.ProductUpdateimagesInput | string[]
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
+  ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneRequiredWithoutProductsNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutProductNestedInput
+  variants?: Prisma.VariantUpdateManyWithoutProductNestedInput
+  wishlistItems?: Prisma.WishlistItemUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutProductNestedInput
+}
+
+export type ProductUncheckedUpdateWithoutLaunchNotificationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  images?: Prisma.ProductUpdateimagesInput | string[]
+  categorySlug?: Prisma.StringFieldUpdateOperationsInput | string
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutProductNestedInput
   variants?: Prisma.VariantUncheckedUpdateManyWithoutProductNestedInput
+  wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUncheckedUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutPricingRuleInput = {
+  id?: string
+  name: string
+  description?: string | null
+  images?: Prisma.ProductCreateimagesInput | string[]
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  sizeMods?: boolean
+  status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
+  videoUrl?: string | null
+  averageRating?: number
+  ratingCount?: number
+  lowStockThreshold?: number
+  createdAt?: Date | string
+  category: Prisma.CategoryCreateNestedOneWithoutProductsInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutProductInput
+  variants?: Prisma.VariantCreateNestedManyWithoutProductInput
+  wishlistItems?: Prisma.WishlistItemCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationCreateNestedManyWithoutProductInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutPricingRuleInput = {
+  id?: string
+  name: string
+  description?: string | null
+  images?: Prisma.ProductCreateimagesInput | string[]
+  categorySlug: string
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  sizeMods?: boolean
+  status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
+  videoUrl?: string | null
+  averageRating?: number
+  ratingCount?: number
+  lowStockThreshold?: number
+  createdAt?: Date | string
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutProductInput
+  variants?: Prisma.VariantUncheckedCreateNestedManyWithoutProductInput
+  wishlistItems?: Prisma.WishlistItemUncheckedCreateNestedManyWithoutProductInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedCreateNestedManyWithoutProductInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutPricingRuleInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutPricingRuleInput, Prisma.ProductUncheckedCreateWithoutPricingRuleInput>
+}
+
+export type ProductUpsertWithoutPricingRuleInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutPricingRuleInput, Prisma.ProductUncheckedUpdateWithoutPricingRuleInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutPricingRuleInput, Prisma.ProductUncheckedCreateWithoutPricingRuleInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutPricingRuleInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutPricingRuleInput, Prisma.ProductUncheckedUpdateWithoutPricingRuleInput>
+}
+
+export type ProductUpdateWithoutPricingRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  images?: Prisma.ProductUpdateimagesInput | string[]
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
+  ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneRequiredWithoutProductsNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutProductNestedInput
+  variants?: Prisma.VariantUpdateManyWithoutProductNestedInput
+  wishlistItems?: Prisma.WishlistItemUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutProductNestedInput
+}
+
+export type ProductUncheckedUpdateWithoutPricingRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  images?: Prisma.ProductUpdateimagesInput | string[]
+  categorySlug?: Prisma.StringFieldUpdateOperationsInput | string
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
+  ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutProductNestedInput
+  variants?: Prisma.VariantUncheckedUpdateManyWithoutProductNestedInput
+  wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductCreateManyCategoryInput = {
@@ -1136,11 +1945,18 @@ export type ProductCreateManyCategoryInput = {
   priceUSD?: number | null
   priceEUR?: number | null
   priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   sizeMods?: boolean
   status?: $Enums.ProductStatus
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
   videoUrl?: string | null
   averageRating?: number
   ratingCount?: number
+  lowStockThreshold?: number
   createdAt?: Date | string
 }
 
@@ -1153,15 +1969,25 @@ export type ProductUpdateWithoutCategoryInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   reviews?: Prisma.ReviewUpdateManyWithoutProductNestedInput
   variants?: Prisma.VariantUpdateManyWithoutProductNestedInput
   wishlistItems?: Prisma.WishlistItemUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateWithoutCategoryInput = {
@@ -1173,15 +1999,25 @@ export type ProductUncheckedUpdateWithoutCategoryInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutProductNestedInput
   variants?: Prisma.VariantUncheckedUpdateManyWithoutProductNestedInput
   wishlistItems?: Prisma.WishlistItemUncheckedUpdateManyWithoutProductNestedInput
+  launchNotifications?: Prisma.LaunchNotificationUncheckedUpdateManyWithoutProductNestedInput
+  pricingRule?: Prisma.PricingRuleUncheckedUpdateOneWithoutProductNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateManyWithoutCategoryInput = {
@@ -1193,11 +2029,18 @@ export type ProductUncheckedUpdateManyWithoutCategoryInput = {
   priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   sizeMods?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumProductStatusFieldUpdateOperationsInput | $Enums.ProductStatus
+  publishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unpublishAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   videoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   averageRating?: Prisma.FloatFieldUpdateOperationsInput | number
   ratingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lowStockThreshold?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -1210,12 +2053,16 @@ export type ProductCountOutputType = {
   reviews: number
   variants: number
   wishlistItems: number
+  launchNotifications: number
+  cartItems: number
 }
 
 export type ProductCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   reviews?: boolean | ProductCountOutputTypeCountReviewsArgs
   variants?: boolean | ProductCountOutputTypeCountVariantsArgs
   wishlistItems?: boolean | ProductCountOutputTypeCountWishlistItemsArgs
+  launchNotifications?: boolean | ProductCountOutputTypeCountLaunchNotificationsArgs
+  cartItems?: boolean | ProductCountOutputTypeCountCartItemsArgs
 }
 
 /**
@@ -1249,6 +2096,20 @@ export type ProductCountOutputTypeCountWishlistItemsArgs<ExtArgs extends runtime
   where?: Prisma.WishlistItemWhereInput
 }
 
+/**
+ * ProductCountOutputType without action
+ */
+export type ProductCountOutputTypeCountLaunchNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LaunchNotificationWhereInput
+}
+
+/**
+ * ProductCountOutputType without action
+ */
+export type ProductCountOutputTypeCountCartItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CartItemWhereInput
+}
+
 
 export type ProductSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1260,16 +2121,26 @@ export type ProductSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   priceUSD?: boolean
   priceEUR?: boolean
   priceGBP?: boolean
+  compareAtNGN?: boolean
+  compareAtUSD?: boolean
+  compareAtEUR?: boolean
+  compareAtGBP?: boolean
   sizeMods?: boolean
   status?: boolean
+  publishAt?: boolean
+  unpublishAt?: boolean
   videoUrl?: boolean
   averageRating?: boolean
   ratingCount?: boolean
+  lowStockThreshold?: boolean
   createdAt?: boolean
   category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
   reviews?: boolean | Prisma.Product$reviewsArgs<ExtArgs>
   variants?: boolean | Prisma.Product$variantsArgs<ExtArgs>
   wishlistItems?: boolean | Prisma.Product$wishlistItemsArgs<ExtArgs>
+  launchNotifications?: boolean | Prisma.Product$launchNotificationsArgs<ExtArgs>
+  pricingRule?: boolean | Prisma.Product$pricingRuleArgs<ExtArgs>
+  cartItems?: boolean | Prisma.Product$cartItemsArgs<ExtArgs>
   _count?: boolean | Prisma.ProductCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["product"]>
 
@@ -1283,11 +2154,18 @@ export type ProductSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   priceUSD?: boolean
   priceEUR?: boolean
   priceGBP?: boolean
+  compareAtNGN?: boolean
+  compareAtUSD?: boolean
+  compareAtEUR?: boolean
+  compareAtGBP?: boolean
   sizeMods?: boolean
   status?: boolean
+  publishAt?: boolean
+  unpublishAt?: boolean
   videoUrl?: boolean
   averageRating?: boolean
   ratingCount?: boolean
+  lowStockThreshold?: boolean
   createdAt?: boolean
   category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["product"]>
@@ -1302,11 +2180,18 @@ export type ProductSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   priceUSD?: boolean
   priceEUR?: boolean
   priceGBP?: boolean
+  compareAtNGN?: boolean
+  compareAtUSD?: boolean
+  compareAtEUR?: boolean
+  compareAtGBP?: boolean
   sizeMods?: boolean
   status?: boolean
+  publishAt?: boolean
+  unpublishAt?: boolean
   videoUrl?: boolean
   averageRating?: boolean
   ratingCount?: boolean
+  lowStockThreshold?: boolean
   createdAt?: boolean
   category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["product"]>
@@ -1321,20 +2206,30 @@ export type ProductSelectScalar = {
   priceUSD?: boolean
   priceEUR?: boolean
   priceGBP?: boolean
+  compareAtNGN?: boolean
+  compareAtUSD?: boolean
+  compareAtEUR?: boolean
+  compareAtGBP?: boolean
   sizeMods?: boolean
   status?: boolean
+  publishAt?: boolean
+  unpublishAt?: boolean
   videoUrl?: boolean
   averageRating?: boolean
   ratingCount?: boolean
+  lowStockThreshold?: boolean
   createdAt?: boolean
 }
 
-export type ProductOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "description" | "images" | "categorySlug" | "priceNGN" | "priceUSD" | "priceEUR" | "priceGBP" | "sizeMods" | "status" | "videoUrl" | "averageRating" | "ratingCount" | "createdAt", ExtArgs["result"]["product"]>
+export type ProductOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "description" | "images" | "categorySlug" | "priceNGN" | "priceUSD" | "priceEUR" | "priceGBP" | "compareAtNGN" | "compareAtUSD" | "compareAtEUR" | "compareAtGBP" | "sizeMods" | "status" | "publishAt" | "unpublishAt" | "videoUrl" | "averageRating" | "ratingCount" | "lowStockThreshold" | "createdAt", ExtArgs["result"]["product"]>
 export type ProductInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
   reviews?: boolean | Prisma.Product$reviewsArgs<ExtArgs>
   variants?: boolean | Prisma.Product$variantsArgs<ExtArgs>
   wishlistItems?: boolean | Prisma.Product$wishlistItemsArgs<ExtArgs>
+  launchNotifications?: boolean | Prisma.Product$launchNotificationsArgs<ExtArgs>
+  pricingRule?: boolean | Prisma.Product$pricingRuleArgs<ExtArgs>
+  cartItems?: boolean | Prisma.Product$cartItemsArgs<ExtArgs>
   _count?: boolean | Prisma.ProductCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ProductIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1351,6 +2246,9 @@ export type $ProductPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     reviews: Prisma.$ReviewPayload<ExtArgs>[]
     variants: Prisma.$VariantPayload<ExtArgs>[]
     wishlistItems: Prisma.$WishlistItemPayload<ExtArgs>[]
+    launchNotifications: Prisma.$LaunchNotificationPayload<ExtArgs>[]
+    pricingRule: Prisma.$PricingRulePayload<ExtArgs> | null
+    cartItems: Prisma.$CartItemPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1362,11 +2260,18 @@ export type $ProductPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     priceUSD: number | null
     priceEUR: number | null
     priceGBP: number | null
+    compareAtNGN: number | null
+    compareAtUSD: number | null
+    compareAtEUR: number | null
+    compareAtGBP: number | null
     sizeMods: boolean
     status: $Enums.ProductStatus
+    publishAt: Date | null
+    unpublishAt: Date | null
     videoUrl: string | null
     averageRating: number
     ratingCount: number
+    lowStockThreshold: number
     createdAt: Date
   }, ExtArgs["result"]["product"]>
   composites: {}
@@ -1766,6 +2671,9 @@ export interface Prisma__ProductClient<T, Null = never, ExtArgs extends runtime.
   reviews<T extends Prisma.Product$reviewsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$reviewsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReviewPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   variants<T extends Prisma.Product$variantsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$variantsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VariantPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   wishlistItems<T extends Prisma.Product$wishlistItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$wishlistItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  launchNotifications<T extends Prisma.Product$launchNotificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$launchNotificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LaunchNotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  pricingRule<T extends Prisma.Product$pricingRuleArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$pricingRuleArgs<ExtArgs>>): Prisma.Prisma__PricingRuleClient<runtime.Types.Result.GetResult<Prisma.$PricingRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  cartItems<T extends Prisma.Product$cartItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$cartItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1804,11 +2712,18 @@ export interface ProductFieldRefs {
   readonly priceUSD: Prisma.FieldRef<"Product", 'Float'>
   readonly priceEUR: Prisma.FieldRef<"Product", 'Float'>
   readonly priceGBP: Prisma.FieldRef<"Product", 'Float'>
+  readonly compareAtNGN: Prisma.FieldRef<"Product", 'Float'>
+  readonly compareAtUSD: Prisma.FieldRef<"Product", 'Float'>
+  readonly compareAtEUR: Prisma.FieldRef<"Product", 'Float'>
+  readonly compareAtGBP: Prisma.FieldRef<"Product", 'Float'>
   readonly sizeMods: Prisma.FieldRef<"Product", 'Boolean'>
   readonly status: Prisma.FieldRef<"Product", 'ProductStatus'>
+  readonly publishAt: Prisma.FieldRef<"Product", 'DateTime'>
+  readonly unpublishAt: Prisma.FieldRef<"Product", 'DateTime'>
   readonly videoUrl: Prisma.FieldRef<"Product", 'String'>
   readonly averageRating: Prisma.FieldRef<"Product", 'Float'>
   readonly ratingCount: Prisma.FieldRef<"Product", 'Int'>
+  readonly lowStockThreshold: Prisma.FieldRef<"Product", 'Int'>
   readonly createdAt: Prisma.FieldRef<"Product", 'DateTime'>
 }
     
@@ -2277,6 +3192,73 @@ export type Product$wishlistItemsArgs<ExtArgs extends runtime.Types.Extensions.I
   distinct?: Prisma.WishlistItemScalarFieldEnum | Prisma.WishlistItemScalarFieldEnum[]
 }
 
+/**
+ * Product.launchNotifications
+ */
+export type Product$launchNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LaunchNotification
+   */
+  select?: Prisma.LaunchNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LaunchNotification
+   */
+  omit?: Prisma.LaunchNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LaunchNotificationInclude<ExtArgs> | null
+  where?: Prisma.LaunchNotificationWhereInput
+  orderBy?: Prisma.LaunchNotificationOrderByWithRelationInput | Prisma.LaunchNotificationOrderByWithRelationInput[]
+  cursor?: Prisma.LaunchNotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.LaunchNotificationScalarFieldEnum | Prisma.LaunchNotificationScalarFieldEnum[]
+}
+
+/**
+ * Product.pricingRule
+ */
+export type Product$pricingRuleArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PricingRule
+   */
+  select?: Prisma.PricingRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PricingRule
+   */
+  omit?: Prisma.PricingRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PricingRuleInclude<ExtArgs> | null
+  where?: Prisma.PricingRuleWhereInput
+}
+
+/**
+ * Product.cartItems
+ */
+export type Product$cartItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartItem
+   */
+  select?: Prisma.CartItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartItem
+   */
+  omit?: Prisma.CartItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartItemInclude<ExtArgs> | null
+  where?: Prisma.CartItemWhereInput
+  orderBy?: Prisma.CartItemOrderByWithRelationInput | Prisma.CartItemOrderByWithRelationInput[]
+  cursor?: Prisma.CartItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CartItemScalarFieldEnum | Prisma.CartItemScalarFieldEnum[]
+}
+
 /**
  * Product without action
  */
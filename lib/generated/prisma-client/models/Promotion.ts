@@ -0,0 +1,2295 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Promotion` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Promotion
+ * 
+ */
+export type PromotionModel = runtime.Types.Result.DefaultSelection<Prisma.$PromotionPayload>
+
+export type AggregatePromotion = {
+  _count: PromotionCountAggregateOutputType | null
+  _avg: PromotionAvgAggregateOutputType | null
+  _sum: PromotionSumAggregateOutputType | null
+  _min: PromotionMinAggregateOutputType | null
+  _max: PromotionMaxAggregateOutputType | null
+}
+
+export type PromotionAvgAggregateOutputType = {
+  percentOff: number | null
+  amountOffNGN: number | null
+  amountOffUSD: number | null
+  amountOffEUR: number | null
+  amountOffGBP: number | null
+  buyQuantity: number | null
+  getQuantity: number | null
+  minSpendNGN: number | null
+  minSpendUSD: number | null
+  minSpendEUR: number | null
+  minSpendGBP: number | null
+  usageLimit: number | null
+  usageCount: number | null
+  perCustomerLimit: number | null
+}
+
+export type PromotionSumAggregateOutputType = {
+  percentOff: number | null
+  amountOffNGN: number | null
+  amountOffUSD: number | null
+  amountOffEUR: number | null
+  amountOffGBP: number | null
+  buyQuantity: number | null
+  getQuantity: number | null
+  minSpendNGN: number | null
+  minSpendUSD: number | null
+  minSpendEUR: number | null
+  minSpendGBP: number | null
+  usageLimit: number | null
+  usageCount: number | null
+  perCustomerLimit: number | null
+}
+
+export type PromotionMinAggregateOutputType = {
+  id: string | null
+  code: string | null
+  description: string | null
+  type: $Enums.PromotionType | null
+  percentOff: number | null
+  amountOffNGN: number | null
+  amountOffUSD: number | null
+  amountOffEUR: number | null
+  amountOffGBP: number | null
+  buyQuantity: number | null
+  getQuantity: number | null
+  minSpendNGN: number | null
+  minSpendUSD: number | null
+  minSpendEUR: number | null
+  minSpendGBP: number | null
+  usageLimit: number | null
+  usageCount: number | null
+  perCustomerLimit: number | null
+  startsAt: Date | null
+  endsAt: Date | null
+  active: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PromotionMaxAggregateOutputType = {
+  id: string | null
+  code: string | null
+  description: string | null
+  type: $Enums.PromotionType | null
+  percentOff: number | null
+  amountOffNGN: number | null
+  amountOffUSD: number | null
+  amountOffEUR: number | null
+  amountOffGBP: number | null
+  buyQuantity: number | null
+  getQuantity: number | null
+  minSpendNGN: number | null
+  minSpendUSD: number | null
+  minSpendEUR: number | null
+  minSpendGBP: number | null
+  usageLimit: number | null
+  usageCount: number | null
+  perCustomerLimit: number | null
+  startsAt: Date | null
+  endsAt: Date | null
+  active: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PromotionCountAggregateOutputType = {
+  id: number
+  code: number
+  description: number
+  type: number
+  percentOff: number
+  amountOffNGN: number
+  amountOffUSD: number
+  amountOffEUR: number
+  amountOffGBP: number
+  buyQuantity: number
+  getQuantity: number
+  productIds: number
+  categorySlugs: number
+  minSpendNGN: number
+  minSpendUSD: number
+  minSpendEUR: number
+  minSpendGBP: number
+  usageLimit: number
+  usageCount: number
+  perCustomerLimit: number
+  startsAt: number
+  endsAt: number
+  active: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PromotionAvgAggregateInputType = {
+  percentOff?: true
+  amountOffNGN?: true
+  amountOffUSD?: true
+  amountOffEUR?: true
+  amountOffGBP?: true
+  buyQuantity?: true
+  getQuantity?: true
+  minSpendNGN?: true
+  minSpendUSD?: true
+  minSpendEUR?: true
+  minSpendGBP?: true
+  usageLimit?: true
+  usageCount?: true
+  perCustomerLimit?: true
+}
+
+export type PromotionSumAggregateInputType = {
+  percentOff?: true
+  amountOffNGN?: true
+  amountOffUSD?: true
+  amountOffEUR?: true
+  amountOffGBP?: true
+  buyQuantity?: true
+  getQuantity?: true
+  minSpendNGN?: true
+  minSpendUSD?: true
+  minSpendEUR?: true
+  minSpendGBP?: true
+  usageLimit?: true
+  usageCount?: true
+  perCustomerLimit?: true
+}
+
+export type PromotionMinAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  type?: true
+  percentOff?: true
+  amountOffNGN?: true
+  amountOffUSD?: true
+  amountOffEUR?: true
+  amountOffGBP?: true
+  buyQuantity?: true
+  getQuantity?: true
+  minSpendNGN?: true
+  minSpendUSD?: true
+  minSpendEUR?: true
+  minSpendGBP?: true
+  usageLimit?: true
+  usageCount?: true
+  perCustomerLimit?: true
+  startsAt?: true
+  endsAt?: true
+  active?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PromotionMaxAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  type?: true
+  percentOff?: true
+  amountOffNGN?: true
+  amountOffUSD?: true
+  amountOffEUR?: true
+  amountOffGBP?: true
+  buyQuantity?: true
+  getQuantity?: true
+  minSpendNGN?: true
+  minSpendUSD?: true
+  minSpendEUR?: true
+  minSpendGBP?: true
+  usageLimit?: true
+  usageCount?: true
+  perCustomerLimit?: true
+  startsAt?: true
+  endsAt?: true
+  active?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PromotionCountAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  type?: true
+  percentOff?: true
+  amountOffNGN?: true
+  amountOffUSD?: true
+  amountOffEUR?: true
+  amountOffGBP?: true
+  buyQuantity?: true
+  getQuantity?: true
+  productIds?: true
+  categorySlugs?: true
+  minSpendNGN?: true
+  minSpendUSD?: true
+  minSpendEUR?: true
+  minSpendGBP?: true
+  usageLimit?: true
+  usageCount?: true
+  perCustomerLimit?: true
+  startsAt?: true
+  endsAt?: true
+  active?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PromotionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Promotion to aggregate.
+   */
+  where?: Prisma.PromotionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Promotions to fetch.
+   */
+  orderBy?: Prisma.PromotionOrderByWithRelationInput | Prisma.PromotionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PromotionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Promotions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Promotions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Promotions
+  **/
+  _count?: true | PromotionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PromotionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PromotionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PromotionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PromotionMaxAggregateInputType
+}
+
+export type GetPromotionAggregateType<T extends PromotionAggregateArgs> = {
+      [P in keyof T & keyof AggregatePromotion]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePromotion[P]>
+    : Prisma.GetScalarType<T[P], AggregatePromotion[P]>
+}
+
+
+
+
+export type PromotionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PromotionWhereInput
+  orderBy?: Prisma.PromotionOrderByWithAggregationInput | Prisma.PromotionOrderByWithAggregationInput[]
+  by: Prisma.PromotionScalarFieldEnum[] | Prisma.PromotionScalarFieldEnum
+  having?: Prisma.PromotionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PromotionCountAggregateInputType | true
+  _avg?: PromotionAvgAggregateInputType
+  _sum?: PromotionSumAggregateInputType
+  _min?: PromotionMinAggregateInputType
+  _max?: PromotionMaxAggregateInputType
+}
+
+export type PromotionGroupByOutputType = {
+  id: string
+  code: string
+  description: string | null
+  type: $Enums.PromotionType
+  percentOff: number | null
+  amountOffNGN: number | null
+  amountOffUSD: number | null
+  amountOffEUR: number | null
+  amountOffGBP: number | null
+  buyQuantity: number | null
+  getQuantity: number | null
+  productIds: string[]
+  categorySlugs: string[]
+  minSpendNGN: number | null
+  minSpendUSD: number | null
+  minSpendEUR: number | null
+  minSpendGBP: number | null
+  usageLimit: number | null
+  usageCount: number
+  perCustomerLimit: number | null
+  startsAt: Date | null
+  endsAt: Date | null
+  active: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: PromotionCountAggregateOutputType | null
+  _avg: PromotionAvgAggregateOutputType | null
+  _sum: PromotionSumAggregateOutputType | null
+  _min: PromotionMinAggregateOutputType | null
+  _max: PromotionMaxAggregateOutputType | null
+}
+
+type GetPromotionGroupByPayload<T extends PromotionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PromotionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PromotionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PromotionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PromotionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PromotionWhereInput = {
+  AND?: Prisma.PromotionWhereInput | Prisma.PromotionWhereInput[]
+  OR?: Prisma.PromotionWhereInput[]
+  NOT?: Prisma.PromotionWhereInput | Prisma.PromotionWhereInput[]
+  id?: Prisma.StringFilter<"Promotion"> | string
+  code?: Prisma.StringFilter<"Promotion"> | string
+  description?: Prisma.StringNullableFilter<"Promotion"> | string | null
+  type?: Prisma.EnumPromotionTypeFilter<"Promotion"> | $Enums.PromotionType
+  percentOff?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  amountOffNGN?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  amountOffUSD?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  amountOffEUR?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  amountOffGBP?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  buyQuantity?: Prisma.IntNullableFilter<"Promotion"> | number | null
+  getQuantity?: Prisma.IntNullableFilter<"Promotion"> | number | null
+  productIds?: Prisma.StringNullableListFilter<"Promotion">
+  categorySlugs?: Prisma.StringNullableListFilter<"Promotion">
+  minSpendNGN?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  minSpendUSD?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  minSpendEUR?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  minSpendGBP?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  usageLimit?: Prisma.IntNullableFilter<"Promotion"> | number | null
+  usageCount?: Prisma.IntFilter<"Promotion"> | number
+  perCustomerLimit?: Prisma.IntNullableFilter<"Promotion"> | number | null
+  startsAt?: Prisma.DateTimeNullableFilter<"Promotion"> | Date | string | null
+  endsAt?: Prisma.DateTimeNullableFilter<"Promotion"> | Date | string | null
+  active?: Prisma.BoolFilter<"Promotion"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Promotion"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Promotion"> | Date | string
+  orders?: Prisma.OrderListRelationFilter
+  redemptions?: Prisma.PromotionRedemptionListRelationFilter
+}
+
+export type PromotionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  percentOff?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountOffNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountOffUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountOffEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountOffGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  buyQuantity?: Prisma.SortOrderInput | Prisma.SortOrder
+  getQuantity?: Prisma.SortOrderInput | Prisma.SortOrder
+  productIds?: Prisma.SortOrder
+  categorySlugs?: Prisma.SortOrder
+  minSpendNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  minSpendUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  minSpendEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  minSpendGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  usageLimit?: Prisma.SortOrderInput | Prisma.SortOrder
+  usageCount?: Prisma.SortOrder
+  perCustomerLimit?: Prisma.SortOrderInput | Prisma.SortOrder
+  startsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  endsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  orders?: Prisma.OrderOrderByRelationAggregateInput
+  redemptions?: Prisma.PromotionRedemptionOrderByRelationAggregateInput
+}
+
+export type PromotionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  code?: string
+  AND?: Prisma.PromotionWhereInput | Prisma.PromotionWhereInput[]
+  OR?: Prisma.PromotionWhereInput[]
+  NOT?: Prisma.PromotionWhereInput | Prisma.PromotionWhereInput[]
+  description?: Prisma.StringNullableFilter<"Promotion"> | string | null
+  type?: Prisma.EnumPromotionTypeFilter<"Promotion"> | $Enums.PromotionType
+  percentOff?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  amountOffNGN?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  amountOffUSD?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  amountOffEUR?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  amountOffGBP?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  buyQuantity?: Prisma.IntNullableFilter<"Promotion"> | number | null
+  getQuantity?: Prisma.IntNullableFilter<"Promotion"> | number | null
+  productIds?: Prisma.StringNullableListFilter<"Promotion">
+  categorySlugs?: Prisma.StringNullableListFilter<"Promotion">
+  minSpendNGN?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  minSpendUSD?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  minSpendEUR?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  minSpendGBP?: Prisma.FloatNullableFilter<"Promotion"> | number | null
+  usageLimit?: Prisma.IntNullableFilter<"Promotion"> | number | null
+  usageCount?: Prisma.IntFilter<"Promotion"> | number
+  perCustomerLimit?: Prisma.IntNullableFilter<"Promotion"> | number | null
+  startsAt?: Prisma.DateTimeNullableFilter<"Promotion"> | Date | string | null
+  endsAt?: Prisma.DateTimeNullableFilter<"Promotion"> | Date | string | null
+  active?: Prisma.BoolFilter<"Promotion"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Promotion"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Promotion"> | Date | string
+  orders?: Prisma.OrderListRelationFilter
+  redemptions?: Prisma.PromotionRedemptionListRelationFilter
+}, "id" | "code">
+
+export type PromotionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  percentOff?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountOffNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountOffUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountOffEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountOffGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  buyQuantity?: Prisma.SortOrderInput | Prisma.SortOrder
+  getQuantity?: Prisma.SortOrderInput | Prisma.SortOrder
+  productIds?: Prisma.SortOrder
+  categorySlugs?: Prisma.SortOrder
+  minSpendNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  minSpendUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  minSpendEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  minSpendGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  usageLimit?: Prisma.SortOrderInput | Prisma.SortOrder
+  usageCount?: Prisma.SortOrder
+  perCustomerLimit?: Prisma.SortOrderInput | Prisma.SortOrder
+  startsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  endsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PromotionCountOrderByAggregateInput
+  _avg?: Prisma.PromotionAvgOrderByAggregateInput
+  _max?: Prisma.PromotionMaxOrderByAggregateInput
+  _min?: Prisma.PromotionMinOrderByAggregateInput
+  _sum?: Prisma.PromotionSumOrderByAggregateInput
+}
+
+export type PromotionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PromotionScalarWhereWithAggregatesInput | Prisma.PromotionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PromotionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PromotionScalarWhereWithAggregatesInput | Prisma.PromotionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Promotion"> | string
+  code?: Prisma.StringWithAggregatesFilter<"Promotion"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"Promotion"> | string | null
+  type?: Prisma.EnumPromotionTypeWithAggregatesFilter<"Promotion"> | $Enums.PromotionType
+  percentOff?: Prisma.FloatNullableWithAggregatesFilter<"Promotion"> | number | null
+  amountOffNGN?: Prisma.FloatNullableWithAggregatesFilter<"Promotion"> | number | null
+  amountOffUSD?: Prisma.FloatNullableWithAggregatesFilter<"Promotion"> | number | null
+  amountOffEUR?: Prisma.FloatNullableWithAggregatesFilter<"Promotion"> | number | null
+  amountOffGBP?: Prisma.FloatNullableWithAggregatesFilter<"Promotion"> | number | null
+  buyQuantity?: Prisma.IntNullableWithAggregatesFilter<"Promotion"> | number | null
+  getQuantity?: Prisma.IntNullableWithAggregatesFilter<"Promotion"> | number | null
+  productIds?: Prisma.StringNullableListFilter<"Promotion">
+  categorySlugs?: Prisma.StringNullableListFilter<"Promotion">
+  minSpendNGN?: Prisma.FloatNullableWithAggregatesFilter<"Promotion"> | number | null
+  minSpendUSD?: Prisma.FloatNullableWithAggregatesFilter<"Promotion"> | number | null
+  minSpendEUR?: Prisma.FloatNullableWithAggregatesFilter<"Promotion"> | number | null
+  minSpendGBP?: Prisma.FloatNullableWithAggregatesFilter<"Promotion"> | number | null
+  usageLimit?: Prisma.IntNullableWithAggregatesFilter<"Promotion"> | number | null
+  usageCount?: Prisma.IntWithAggregatesFilter<"Promotion"> | number
+  perCustomerLimit?: Prisma.IntNullableWithAggregatesFilter<"Promotion"> | number | null
+  startsAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Promotion"> | Date | string | null
+  endsAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Promotion"> | Date | string | null
+  active?: Prisma.BoolWithAggregatesFilter<"Promotion"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Promotion"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Promotion"> | Date | string
+}
+
+export type PromotionCreateInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.PromotionType
+  percentOff?: number | null
+  amountOffNGN?: number | null
+  amountOffUSD?: number | null
+  amountOffEUR?: number | null
+  amountOffGBP?: number | null
+  buyQuantity?: number | null
+  getQuantity?: number | null
+  productIds?: Prisma.PromotionCreateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionCreatecategorySlugsInput | string[]
+  minSpendNGN?: number | null
+  minSpendUSD?: number | null
+  minSpendEUR?: number | null
+  minSpendGBP?: number | null
+  usageLimit?: number | null
+  usageCount?: number
+  perCustomerLimit?: number | null
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  orders?: Prisma.OrderCreateNestedManyWithoutPromotionInput
+  redemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutPromotionInput
+}
+
+export type PromotionUncheckedCreateInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.PromotionType
+  percentOff?: number | null
+  amountOffNGN?: number | null
+  amountOffUSD?: number | null
+  amountOffEUR?: number | null
+  amountOffGBP?: number | null
+  buyQuantity?: number | null
+  getQuantity?: number | null
+  productIds?: Prisma.PromotionCreateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionCreatecategorySlugsInput | string[]
+  minSpendNGN?: number | null
+  minSpendUSD?: number | null
+  minSpendEUR?: number | null
+  minSpendGBP?: number | null
+  usageLimit?: number | null
+  usageCount?: number
+  perCustomerLimit?: number | null
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutPromotionInput
+  redemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutPromotionInput
+}
+
+export type PromotionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumPromotionTypeFieldUpdateOperationsInput | $Enums.PromotionType
+  percentOff?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  buyQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  getQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  productIds?: Prisma.PromotionUpdateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionUpdatecategorySlugsInput | string[]
+  minSpendNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  perCustomerLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUpdateManyWithoutPromotionNestedInput
+  redemptions?: Prisma.PromotionRedemptionUpdateManyWithoutPromotionNestedInput
+}
+
+export type PromotionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumPromotionTypeFieldUpdateOperationsInput | $Enums.PromotionType
+  percentOff?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  buyQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  getQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  productIds?: Prisma.PromotionUpdateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionUpdatecategorySlugsInput | string[]
+  minSpendNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  perCustomerLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutPromotionNestedInput
+  redemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutPromotionNestedInput
+}
+
+export type PromotionCreateManyInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.PromotionType
+  percentOff?: number | null
+  amountOffNGN?: number | null
+  amountOffUSD?: number | null
+  amountOffEUR?: number | null
+  amountOffGBP?: number | null
+  buyQuantity?: number | null
+  getQuantity?: number | null
+  productIds?: Prisma.PromotionCreateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionCreatecategorySlugsInput | string[]
+  minSpendNGN?: number | null
+  minSpendUSD?: number | null
+  minSpendEUR?: number | null
+  minSpendGBP?: number | null
+  usageLimit?: number | null
+  usageCount?: number
+  perCustomerLimit?: number | null
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PromotionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumPromotionTypeFieldUpdateOperationsInput | $Enums.PromotionType
+  percentOff?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  buyQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  getQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  productIds?: Prisma.PromotionUpdateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionUpdatecategorySlugsInput | string[]
+  minSpendNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  perCustomerLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromotionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumPromotionTypeFieldUpdateOperationsInput | $Enums.PromotionType
+  percentOff?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  buyQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  getQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  productIds?: Prisma.PromotionUpdateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionUpdatecategorySlugsInput | string[]
+  minSpendNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  perCustomerLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromotionNullableScalarRelationFilter = {
+  is?: Prisma.PromotionWhereInput | null
+  isNot?: Prisma.PromotionWhereInput | null
+}
+
+export type PromotionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  percentOff?: Prisma.SortOrder
+  amountOffNGN?: Prisma.SortOrder
+  amountOffUSD?: Prisma.SortOrder
+  amountOffEUR?: Prisma.SortOrder
+  amountOffGBP?: Prisma.SortOrder
+  buyQuantity?: Prisma.SortOrder
+  getQuantity?: Prisma.SortOrder
+  productIds?: Prisma.SortOrder
+  categorySlugs?: Prisma.SortOrder
+  minSpendNGN?: Prisma.SortOrder
+  minSpendUSD?: Prisma.SortOrder
+  minSpendEUR?: Prisma.SortOrder
+  minSpendGBP?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  usageCount?: Prisma.SortOrder
+  perCustomerLimit?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  endsAt?: Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PromotionAvgOrderByAggregateInput = {
+  percentOff?: Prisma.SortOrder
+  amountOffNGN?: Prisma.SortOrder
+  amountOffUSD?: Prisma.SortOrder
+  amountOffEUR?: Prisma.SortOrder
+  amountOffGBP?: Prisma.SortOrder
+  buyQuantity?: Prisma.SortOrder
+  getQuantity?: Prisma.SortOrder
+  minSpendNGN?: Prisma.SortOrder
+  minSpendUSD?: Prisma.SortOrder
+  minSpendEUR?: Prisma.SortOrder
+  minSpendGBP?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  usageCount?: Prisma.SortOrder
+  perCustomerLimit?: Prisma.SortOrder
+}
+
+export type PromotionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  percentOff?: Prisma.SortOrder
+  amountOffNGN?: Prisma.SortOrder
+  amountOffUSD?: Prisma.SortOrder
+  amountOffEUR?: Prisma.SortOrder
+  amountOffGBP?: Prisma.SortOrder
+  buyQuantity?: Prisma.SortOrder
+  getQuantity?: Prisma.SortOrder
+  minSpendNGN?: Prisma.SortOrder
+  minSpendUSD?: Prisma.SortOrder
+  minSpendEUR?: Prisma.SortOrder
+  minSpendGBP?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  usageCount?: Prisma.SortOrder
+  perCustomerLimit?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  endsAt?: Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PromotionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  percentOff?: Prisma.SortOrder
+  amountOffNGN?: Prisma.SortOrder
+  amountOffUSD?: Prisma.SortOrder
+  amountOffEUR?: Prisma.SortOrder
+  amountOffGBP?: Prisma.SortOrder
+  buyQuantity?: Prisma.SortOrder
+  getQuantity?: Prisma.SortOrder
+  minSpendNGN?: Prisma.SortOrder
+  minSpendUSD?: Prisma.SortOrder
+  minSpendEUR?: Prisma.SortOrder
+  minSpendGBP?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  usageCount?: Prisma.SortOrder
+  perCustomerLimit?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  endsAt?: Prisma.SortOrder
+  active?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PromotionSumOrderByAggregateInput = {
+  percentOff?: Prisma.SortOrder
+  amountOffNGN?: Prisma.SortOrder
+  amountOffUSD?: Prisma.SortOrder
+  amountOffEUR?: Prisma.SortOrder
+  amountOffGBP?: Prisma.SortOrder
+  buyQuantity?: Prisma.SortOrder
+  getQuantity?: Prisma.SortOrder
+  minSpendNGN?: Prisma.SortOrder
+  minSpendUSD?: Prisma.SortOrder
+  minSpendEUR?: Prisma.SortOrder
+  minSpendGBP?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  usageCount?: Prisma.SortOrder
+  perCustomerLimit?: Prisma.SortOrder
+}
+
+export type PromotionScalarRelationFilter = {
+  is?: Prisma.PromotionWhereInput
+  isNot?: Prisma.PromotionWhereInput
+}
+
+export type PromotionCreateNestedOneWithoutOrdersInput = {
+  create?: Prisma.XOR<Prisma.PromotionCreateWithoutOrdersInput, Prisma.PromotionUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.PromotionCreateOrConnectWithoutOrdersInput
+  connect?: Prisma.PromotionWhereUniqueInput
+}
+
+export type PromotionUpdateOneWithoutOrdersNestedInput = {
+  create?: Prisma.XOR<Prisma.PromotionCreateWithoutOrdersInput, Prisma.PromotionUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.PromotionCreateOrConnectWithoutOrdersInput
+  upsert?: Prisma.PromotionUpsertWithoutOrdersInput
+  disconnect?: Prisma.PromotionWhereInput | boolean
+  delete?: Prisma.PromotionWhereInput | boolean
+  connect?: Prisma.PromotionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PromotionUpdateToOneWithWhereWithoutOrdersInput, Prisma.PromotionUpdateWithoutOrdersInput>, Prisma.PromotionUncheckedUpdateWithoutOrdersInput>
+}
+
+export type PromotionCreateproductIdsInput = {
+  set: string[]
+}
+
+export type PromotionCreatecategorySlugsInput = {
+  set: string[]
+}
+
+export type EnumPromotionTypeFieldUpdateOperationsInput = {
+  set?: $Enums.PromotionType
+}
+
+export type PromotionUpdateproductIdsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type PromotionUpdatecategorySlugsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type PromotionCreateNestedOneWithoutRedemptionsInput = {
+  create?: Prisma.XOR<Prisma.PromotionCreateWithoutRedemptionsInput, Prisma.PromotionUncheckedCreateWithoutRedemptionsInput>
+  connectOrCreate?: Prisma.PromotionCreateOrConnectWithoutRedemptionsInput
+  connect?: Prisma.PromotionWhereUniqueInput
+}
+
+export type PromotionUpdateOneRequiredWithoutRedemptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.PromotionCreateWithoutRedemptionsInput, Prisma.PromotionUncheckedCreateWithoutRedemptionsInput>
+  connectOrCreate?: Prisma.PromotionCreateOrConnectWithoutRedemptionsInput
+  upsert?: Prisma.PromotionUpsertWithoutRedemptionsInput
+  connect?: Prisma.PromotionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PromotionUpdateToOneWithWhereWithoutRedemptionsInput, Prisma.PromotionUpdateWithoutRedemptionsInput>, Prisma.PromotionUncheckedUpdateWithoutRedemptionsInput>
+}
+
+export type PromotionCreateWithoutOrdersInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.PromotionType
+  percentOff?: number | null
+  amountOffNGN?: number | null
+  amountOffUSD?: number | null
+  amountOffEUR?: number | null
+  amountOffGBP?: number | null
+  buyQuantity?: number | null
+  getQuantity?: number | null
+  productIds?: Prisma.PromotionCreateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionCreatecategorySlugsInput | string[]
+  minSpendNGN?: number | null
+  minSpendUSD?: number | null
+  minSpendEUR?: number | null
+  minSpendGBP?: number | null
+  usageLimit?: number | null
+  usageCount?: number
+  perCustomerLimit?: number | null
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  redemptions?: Prisma.PromotionRedemptionCreateNestedManyWithoutPromotionInput
+}
+
+export type PromotionUncheckedCreateWithoutOrdersInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.PromotionType
+  percentOff?: number | null
+  amountOffNGN?: number | null
+  amountOffUSD?: number | null
+  amountOffEUR?: number | null
+  amountOffGBP?: number | null
+  buyQuantity?: number | null
+  getQuantity?: number | null
+  productIds?: Prisma.PromotionCreateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionCreatecategorySlugsInput | string[]
+  minSpendNGN?: number | null
+  minSpendUSD?: number | null
+  minSpendEUR?: number | null
+  minSpendGBP?: number | null
+  usageLimit?: number | null
+  usageCount?: number
+  perCustomerLimit?: number | null
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  redemptions?: Prisma.PromotionRedemptionUncheckedCreateNestedManyWithoutPromotionInput
+}
+
+export type PromotionCreateOrConnectWithoutOrdersInput = {
+  where: Prisma.PromotionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromotionCreateWithoutOrdersInput, Prisma.PromotionUncheckedCreateWithoutOrdersInput>
+}
+
+export type PromotionUpsertWithoutOrdersInput = {
+  update: Prisma.XOR<Prisma.PromotionUpdateWithoutOrdersInput, Prisma.PromotionUncheckedUpdateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.PromotionCreateWithoutOrdersInput, Prisma.PromotionUncheckedCreateWithoutOrdersInput>
+  where?: Prisma.PromotionWhereInput
+}
+
+export type PromotionUpdateToOneWithWhereWithoutOrdersInput = {
+  where?: Prisma.PromotionWhereInput
+  data: Prisma.XOR<Prisma.PromotionUpdateWithoutOrdersInput, Prisma.PromotionUncheckedUpdateWithoutOrdersInput>
+}
+
+export type PromotionUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumPromotionTypeFieldUpdateOperationsInput | $Enums.PromotionType
+  percentOff?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  buyQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  getQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  productIds?: Prisma.PromotionUpdateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionUpdatecategorySlugsInput | string[]
+  minSpendNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  perCustomerLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  redemptions?: Prisma.PromotionRedemptionUpdateManyWithoutPromotionNestedInput
+}
+
+export type PromotionUncheckedUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumPromotionTypeFieldUpdateOperationsInput | $Enums.PromotionType
+  percentOff?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  buyQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  getQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  productIds?: Prisma.PromotionUpdateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionUpdatecategorySlugsInput | string[]
+  minSpendNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  perCustomerLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  redemptions?: Prisma.PromotionRedemptionUncheckedUpdateManyWithoutPromotionNestedInput
+}
+
+export type PromotionCreateWithoutRedemptionsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.PromotionType
+  percentOff?: number | null
+  amountOffNGN?: number | null
+  amountOffUSD?: number | null
+  amountOffEUR?: number | null
+  amountOffGBP?: number | null
+  buyQuantity?: number | null
+  getQuantity?: number | null
+  productIds?: Prisma.PromotionCreateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionCreatecategorySlugsInput | string[]
+  minSpendNGN?: number | null
+  minSpendUSD?: number | null
+  minSpendEUR?: number | null
+  minSpendGBP?: number | null
+  usageLimit?: number | null
+  usageCount?: number
+  perCustomerLimit?: number | null
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  orders?: Prisma.OrderCreateNestedManyWithoutPromotionInput
+}
+
+export type PromotionUncheckedCreateWithoutRedemptionsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.PromotionType
+  percentOff?: number | null
+  amountOffNGN?: number | null
+  amountOffUSD?: number | null
+  amountOffEUR?: number | null
+  amountOffGBP?: number | null
+  buyQuantity?: number | null
+  getQuantity?: number | null
+  productIds?: Prisma.PromotionCreateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionCreatecategorySlugsInput | string[]
+  minSpendNGN?: number | null
+  minSpendUSD?: number | null
+  minSpendEUR?: number | null
+  minSpendGBP?: number | null
+  usageLimit?: number | null
+  usageCount?: number
+  perCustomerLimit?: number | null
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  active?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutPromotionInput
+}
+
+export type PromotionCreateOrConnectWithoutRedemptionsInput = {
+  where: Prisma.PromotionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromotionCreateWithoutRedemptionsInput, Prisma.PromotionUncheckedCreateWithoutRedemptionsInput>
+}
+
+export type PromotionUpsertWithoutRedemptionsInput = {
+  update: Prisma.XOR<Prisma.PromotionUpdateWithoutRedemptionsInput, Prisma.PromotionUncheckedUpdateWithoutRedemptionsInput>
+  create: Prisma.XOR<Prisma.PromotionCreateWithoutRedemptionsInput, Prisma.PromotionUncheckedCreateWithoutRedemptionsInput>
+  where?: Prisma.PromotionWhereInput
+}
+
+export type PromotionUpdateToOneWithWhereWithoutRedemptionsInput = {
+  where?: Prisma.PromotionWhereInput
+  data: Prisma.XOR<Prisma.PromotionUpdateWithoutRedemptionsInput, Prisma.PromotionUncheckedUpdateWithoutRedemptionsInput>
+}
+
+export type PromotionUpdateWithoutRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumPromotionTypeFieldUpdateOperationsInput | $Enums.PromotionType
+  percentOff?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  buyQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  getQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  productIds?: Prisma.PromotionUpdateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionUpdatecategorySlugsInput | string[]
+  minSpendNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  perCustomerLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUpdateManyWithoutPromotionNestedInput
+}
+
+export type PromotionUncheckedUpdateWithoutRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumPromotionTypeFieldUpdateOperationsInput | $Enums.PromotionType
+  percentOff?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountOffGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  buyQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  getQuantity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  productIds?: Prisma.PromotionUpdateproductIdsInput | string[]
+  categorySlugs?: Prisma.PromotionUpdatecategorySlugsInput | string[]
+  minSpendNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  minSpendGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  perCustomerLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutPromotionNestedInput
+}
+
+
+/**
+ * Count Type PromotionCountOutputType
+ */
+
+export type PromotionCountOutputType = {
+  orders: number
+  redemptions: number
+}
+
+export type PromotionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  orders?: boolean | PromotionCountOutputTypeCountOrdersArgs
+  redemptions?: boolean | PromotionCountOutputTypeCountRedemptionsArgs
+}
+
+/**
+ * PromotionCountOutputType without action
+ */
+export type PromotionCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionCountOutputType
+   */
+  select?: Prisma.PromotionCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * PromotionCountOutputType without action
+ */
+export type PromotionCountOutputTypeCountOrdersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderWhereInput
+}
+
+/**
+ * PromotionCountOutputType without action
+ */
+export type PromotionCountOutputTypeCountRedemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PromotionRedemptionWhereInput
+}
+
+
+export type PromotionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  percentOff?: boolean
+  amountOffNGN?: boolean
+  amountOffUSD?: boolean
+  amountOffEUR?: boolean
+  amountOffGBP?: boolean
+  buyQuantity?: boolean
+  getQuantity?: boolean
+  productIds?: boolean
+  categorySlugs?: boolean
+  minSpendNGN?: boolean
+  minSpendUSD?: boolean
+  minSpendEUR?: boolean
+  minSpendGBP?: boolean
+  usageLimit?: boolean
+  usageCount?: boolean
+  perCustomerLimit?: boolean
+  startsAt?: boolean
+  endsAt?: boolean
+  active?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  orders?: boolean | Prisma.Promotion$ordersArgs<ExtArgs>
+  redemptions?: boolean | Prisma.Promotion$redemptionsArgs<ExtArgs>
+  _count?: boolean | Prisma.PromotionCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["promotion"]>
+
+export type PromotionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  percentOff?: boolean
+  amountOffNGN?: boolean
+  amountOffUSD?: boolean
+  amountOffEUR?: boolean
+  amountOffGBP?: boolean
+  buyQuantity?: boolean
+  getQuantity?: boolean
+  productIds?: boolean
+  categorySlugs?: boolean
+  minSpendNGN?: boolean
+  minSpendUSD?: boolean
+  minSpendEUR?: boolean
+  minSpendGBP?: boolean
+  usageLimit?: boolean
+  usageCount?: boolean
+  perCustomerLimit?: boolean
+  startsAt?: boolean
+  endsAt?: boolean
+  active?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["promotion"]>
+
+export type PromotionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  percentOff?: boolean
+  amountOffNGN?: boolean
+  amountOffUSD?: boolean
+  amountOffEUR?: boolean
+  amountOffGBP?: boolean
+  buyQuantity?: boolean
+  getQuantity?: boolean
+  productIds?: boolean
+  categorySlugs?: boolean
+  minSpendNGN?: boolean
+  minSpendUSD?: boolean
+  minSpendEUR?: boolean
+  minSpendGBP?: boolean
+  usageLimit?: boolean
+  usageCount?: boolean
+  perCustomerLimit?: boolean
+  startsAt?: boolean
+  endsAt?: boolean
+  active?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["promotion"]>
+
+export type PromotionSelectScalar = {
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  percentOff?: boolean
+  amountOffNGN?: boolean
+  amountOffUSD?: boolean
+  amountOffEUR?: boolean
+  amountOffGBP?: boolean
+  buyQuantity?: boolean
+  getQuantity?: boolean
+  productIds?: boolean
+  categorySlugs?: boolean
+  minSpendNGN?: boolean
+  minSpendUSD?: boolean
+  minSpendEUR?: boolean
+  minSpendGBP?: boolean
+  usageLimit?: boolean
+  usageCount?: boolean
+  perCustomerLimit?: boolean
+  startsAt?: boolean
+  endsAt?: boolean
+  active?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PromotionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "code" | "description" | "type" | "percentOff" | "amountOffNGN" | "amountOffUSD" | "amountOffEUR" | "amountOffGBP" | "buyQuantity" | "getQuantity" | "productIds" | "categorySlugs" | "minSpendNGN" | "minSpendUSD" | "minSpendEUR" | "minSpendGBP" | "usageLimit" | "usageCount" | "perCustomerLimit" | "startsAt" | "endsAt" | "active" | "createdAt" | "updatedAt", ExtArgs["result"]["promotion"]>
+export type PromotionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  orders?: boolean | Prisma.Promotion$ordersArgs<ExtArgs>
+  redemptions?: boolean | Prisma.Promotion$redemptionsArgs<ExtArgs>
+  _count?: boolean | Prisma.PromotionCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type PromotionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type PromotionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $PromotionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Promotion"
+  objects: {
+    orders: Prisma.$OrderPayload<ExtArgs>[]
+    redemptions: Prisma.$PromotionRedemptionPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    code: string
+    description: string | null
+    type: $Enums.PromotionType
+    percentOff: number | null
+    amountOffNGN: number | null
+    amountOffUSD: number | null
+    amountOffEUR: number | null
+    amountOffGBP: number | null
+    buyQuantity: number | null
+    getQuantity: number | null
+    productIds: string[]
+    categorySlugs: string[]
+    minSpendNGN: number | null
+    minSpendUSD: number | null
+    minSpendEUR: number | null
+    minSpendGBP: number | null
+    usageLimit: number | null
+    usageCount: number
+    perCustomerLimit: number | null
+    startsAt: Date | null
+    endsAt: Date | null
+    active: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["promotion"]>
+  composites: {}
+}
+
+export type PromotionGetPayload<S extends boolean | null | undefined | PromotionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PromotionPayload, S>
+
+export type PromotionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PromotionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PromotionCountAggregateInputType | true
+  }
+
+export interface PromotionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Promotion'], meta: { name: 'Promotion' } }
+  /**
+   * Find zero or one Promotion that matches the filter.
+   * @param {PromotionFindUniqueArgs} args - Arguments to find a Promotion
+   * @example
+   * // Get one Promotion
+   * const promotion = await prisma.promotion.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PromotionFindUniqueArgs>(args: Prisma.SelectSubset<T, PromotionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Promotion that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PromotionFindUniqueOrThrowArgs} args - Arguments to find a Promotion
+   * @example
+   * // Get one Promotion
+   * const promotion = await prisma.promotion.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PromotionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PromotionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Promotion that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionFindFirstArgs} args - Arguments to find a Promotion
+   * @example
+   * // Get one Promotion
+   * const promotion = await prisma.promotion.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PromotionFindFirstArgs>(args?: Prisma.SelectSubset<T, PromotionFindFirstArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Promotion that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionFindFirstOrThrowArgs} args - Arguments to find a Promotion
+   * @example
+   * // Get one Promotion
+   * const promotion = await prisma.promotion.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PromotionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PromotionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Promotions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Promotions
+   * const promotions = await prisma.promotion.findMany()
+   * 
+   * // Get first 10 Promotions
+   * const promotions = await prisma.promotion.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const promotionWithIdOnly = await prisma.promotion.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PromotionFindManyArgs>(args?: Prisma.SelectSubset<T, PromotionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Promotion.
+   * @param {PromotionCreateArgs} args - Arguments to create a Promotion.
+   * @example
+   * // Create one Promotion
+   * const Promotion = await prisma.promotion.create({
+   *   data: {
+   *     // ... data to create a Promotion
+   *   }
+   * })
+   * 
+   */
+  create<T extends PromotionCreateArgs>(args: Prisma.SelectSubset<T, PromotionCreateArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Promotions.
+   * @param {PromotionCreateManyArgs} args - Arguments to create many Promotions.
+   * @example
+   * // Create many Promotions
+   * const promotion = await prisma.promotion.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PromotionCreateManyArgs>(args?: Prisma.SelectSubset<T, PromotionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Promotions and returns the data saved in the database.
+   * @param {PromotionCreateManyAndReturnArgs} args - Arguments to create many Promotions.
+   * @example
+   * // Create many Promotions
+   * const promotion = await prisma.promotion.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Promotions and only return the `id`
+   * const promotionWithIdOnly = await prisma.promotion.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PromotionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PromotionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Promotion.
+   * @param {PromotionDeleteArgs} args - Arguments to delete one Promotion.
+   * @example
+   * // Delete one Promotion
+   * const Promotion = await prisma.promotion.delete({
+   *   where: {
+   *     // ... filter to delete one Promotion
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PromotionDeleteArgs>(args: Prisma.SelectSubset<T, PromotionDeleteArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Promotion.
+   * @param {PromotionUpdateArgs} args - Arguments to update one Promotion.
+   * @example
+   * // Update one Promotion
+   * const promotion = await prisma.promotion.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PromotionUpdateArgs>(args: Prisma.SelectSubset<T, PromotionUpdateArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Promotions.
+   * @param {PromotionDeleteManyArgs} args - Arguments to filter Promotions to delete.
+   * @example
+   * // Delete a few Promotions
+   * const { count } = await prisma.promotion.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PromotionDeleteManyArgs>(args?: Prisma.SelectSubset<T, PromotionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Promotions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Promotions
+   * const promotion = await prisma.promotion.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PromotionUpdateManyArgs>(args: Prisma.SelectSubset<T, PromotionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Promotions and returns the data updated in the database.
+   * @param {PromotionUpdateManyAndReturnArgs} args - Arguments to update many Promotions.
+   * @example
+   * // Update many Promotions
+   * const promotion = await prisma.promotion.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Promotions and only return the `id`
+   * const promotionWithIdOnly = await prisma.promotion.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PromotionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PromotionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Promotion.
+   * @param {PromotionUpsertArgs} args - Arguments to update or create a Promotion.
+   * @example
+   * // Update or create a Promotion
+   * const promotion = await prisma.promotion.upsert({
+   *   create: {
+   *     // ... data to create a Promotion
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Promotion we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PromotionUpsertArgs>(args: Prisma.SelectSubset<T, PromotionUpsertArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Promotions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionCountArgs} args - Arguments to filter Promotions to count.
+   * @example
+   * // Count the number of Promotions
+   * const count = await prisma.promotion.count({
+   *   where: {
+   *     // ... the filter for the Promotions we want to count
+   *   }
+   * })
+  **/
+  count<T extends PromotionCountArgs>(
+    args?: Prisma.Subset<T, PromotionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PromotionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Promotion.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PromotionAggregateArgs>(args: Prisma.Subset<T, PromotionAggregateArgs>): Prisma.PrismaPromise<GetPromotionAggregateType<T>>
+
+  /**
+   * Group by Promotion.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PromotionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PromotionGroupByArgs['orderBy'] }
+      : { orderBy?: PromotionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PromotionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPromotionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Promotion model
+ */
+readonly fields: PromotionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Promotion.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PromotionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  orders<T extends Prisma.Promotion$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Promotion$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  redemptions<T extends Prisma.Promotion$redemptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Promotion$redemptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Promotion model
+ */
+export interface PromotionFieldRefs {
+  readonly id: Prisma.FieldRef<"Promotion", 'String'>
+  readonly code: Prisma.FieldRef<"Promotion", 'String'>
+  readonly description: Prisma.FieldRef<"Promotion", 'String'>
+  readonly type: Prisma.FieldRef<"Promotion", 'PromotionType'>
+  readonly percentOff: Prisma.FieldRef<"Promotion", 'Float'>
+  readonly amountOffNGN: Prisma.FieldRef<"Promotion", 'Float'>
+  readonly amountOffUSD: Prisma.FieldRef<"Promotion", 'Float'>
+  readonly amountOffEUR: Prisma.FieldRef<"Promotion", 'Float'>
+  readonly amountOffGBP: Prisma.FieldRef<"Promotion", 'Float'>
+  readonly buyQuantity: Prisma.FieldRef<"Promotion", 'Int'>
+  readonly getQuantity: Prisma.FieldRef<"Promotion", 'Int'>
+  readonly productIds: Prisma.FieldRef<"Promotion", 'String[]'>
+  readonly categorySlugs: Prisma.FieldRef<"Promotion", 'String[]'>
+  readonly minSpendNGN: Prisma.FieldRef<"Promotion", 'Float'>
+  readonly minSpendUSD: Prisma.FieldRef<"Promotion", 'Float'>
+  readonly minSpendEUR: Prisma.FieldRef<"Promotion", 'Float'>
+  readonly minSpendGBP: Prisma.FieldRef<"Promotion", 'Float'>
+  readonly usageLimit: Prisma.FieldRef<"Promotion", 'Int'>
+  readonly usageCount: Prisma.FieldRef<"Promotion", 'Int'>
+  readonly perCustomerLimit: Prisma.FieldRef<"Promotion", 'Int'>
+  readonly startsAt: Prisma.FieldRef<"Promotion", 'DateTime'>
+  readonly endsAt: Prisma.FieldRef<"Promotion", 'DateTime'>
+  readonly active: Prisma.FieldRef<"Promotion", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"Promotion", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Promotion", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Promotion findUnique
+ */
+export type PromotionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  /**
+   * Filter, which Promotion to fetch.
+   */
+  where: Prisma.PromotionWhereUniqueInput
+}
+
+/**
+ * Promotion findUniqueOrThrow
+ */
+export type PromotionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  /**
+   * Filter, which Promotion to fetch.
+   */
+  where: Prisma.PromotionWhereUniqueInput
+}
+
+/**
+ * Promotion findFirst
+ */
+export type PromotionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  /**
+   * Filter, which Promotion to fetch.
+   */
+  where?: Prisma.PromotionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Promotions to fetch.
+   */
+  orderBy?: Prisma.PromotionOrderByWithRelationInput | Prisma.PromotionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Promotions.
+   */
+  cursor?: Prisma.PromotionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Promotions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Promotions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Promotions.
+   */
+  distinct?: Prisma.PromotionScalarFieldEnum | Prisma.PromotionScalarFieldEnum[]
+}
+
+/**
+ * Promotion findFirstOrThrow
+ */
+export type PromotionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  /**
+   * Filter, which Promotion to fetch.
+   */
+  where?: Prisma.PromotionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Promotions to fetch.
+   */
+  orderBy?: Prisma.PromotionOrderByWithRelationInput | Prisma.PromotionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Promotions.
+   */
+  cursor?: Prisma.PromotionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Promotions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Promotions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Promotions.
+   */
+  distinct?: Prisma.PromotionScalarFieldEnum | Prisma.PromotionScalarFieldEnum[]
+}
+
+/**
+ * Promotion findMany
+ */
+export type PromotionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  /**
+   * Filter, which Promotions to fetch.
+   */
+  where?: Prisma.PromotionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Promotions to fetch.
+   */
+  orderBy?: Prisma.PromotionOrderByWithRelationInput | Prisma.PromotionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Promotions.
+   */
+  cursor?: Prisma.PromotionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Promotions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Promotions.
+   */
+  skip?: number
+  distinct?: Prisma.PromotionScalarFieldEnum | Prisma.PromotionScalarFieldEnum[]
+}
+
+/**
+ * Promotion create
+ */
+export type PromotionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Promotion.
+   */
+  data: Prisma.XOR<Prisma.PromotionCreateInput, Prisma.PromotionUncheckedCreateInput>
+}
+
+/**
+ * Promotion createMany
+ */
+export type PromotionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Promotions.
+   */
+  data: Prisma.PromotionCreateManyInput | Prisma.PromotionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Promotion createManyAndReturn
+ */
+export type PromotionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * The data used to create many Promotions.
+   */
+  data: Prisma.PromotionCreateManyInput | Prisma.PromotionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Promotion update
+ */
+export type PromotionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Promotion.
+   */
+  data: Prisma.XOR<Prisma.PromotionUpdateInput, Prisma.PromotionUncheckedUpdateInput>
+  /**
+   * Choose, which Promotion to update.
+   */
+  where: Prisma.PromotionWhereUniqueInput
+}
+
+/**
+ * Promotion updateMany
+ */
+export type PromotionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Promotions.
+   */
+  data: Prisma.XOR<Prisma.PromotionUpdateManyMutationInput, Prisma.PromotionUncheckedUpdateManyInput>
+  /**
+   * Filter which Promotions to update
+   */
+  where?: Prisma.PromotionWhereInput
+  /**
+   * Limit how many Promotions to update.
+   */
+  limit?: number
+}
+
+/**
+ * Promotion updateManyAndReturn
+ */
+export type PromotionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * The data used to update Promotions.
+   */
+  data: Prisma.XOR<Prisma.PromotionUpdateManyMutationInput, Prisma.PromotionUncheckedUpdateManyInput>
+  /**
+   * Filter which Promotions to update
+   */
+  where?: Prisma.PromotionWhereInput
+  /**
+   * Limit how many Promotions to update.
+   */
+  limit?: number
+}
+
+/**
+ * Promotion upsert
+ */
+export type PromotionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Promotion to update in case it exists.
+   */
+  where: Prisma.PromotionWhereUniqueInput
+  /**
+   * In case the Promotion found by the `where` argument doesn't exist, create a new Promotion with this data.
+   */
+  create: Prisma.XOR<Prisma.PromotionCreateInput, Prisma.PromotionUncheckedCreateInput>
+  /**
+   * In case the Promotion was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PromotionUpdateInput, Prisma.PromotionUncheckedUpdateInput>
+}
+
+/**
+ * Promotion delete
+ */
+export type PromotionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+  /**
+   * Filter which Promotion to delete.
+   */
+  where: Prisma.PromotionWhereUniqueInput
+}
+
+/**
+ * Promotion deleteMany
+ */
+export type PromotionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Promotions to delete
+   */
+  where?: Prisma.PromotionWhereInput
+  /**
+   * Limit how many Promotions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Promotion.orders
+ */
+export type Promotion$ordersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  where?: Prisma.OrderWhereInput
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  cursor?: Prisma.OrderWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
+}
+
+/**
+ * Promotion.redemptions
+ */
+export type Promotion$redemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  where?: Prisma.PromotionRedemptionWhereInput
+  orderBy?: Prisma.PromotionRedemptionOrderByWithRelationInput | Prisma.PromotionRedemptionOrderByWithRelationInput[]
+  cursor?: Prisma.PromotionRedemptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PromotionRedemptionScalarFieldEnum | Prisma.PromotionRedemptionScalarFieldEnum[]
+}
+
+/**
+ * Promotion without action
+ */
+export type PromotionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Promotion
+   */
+  select?: Prisma.PromotionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Promotion
+   */
+  omit?: Prisma.PromotionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionInclude<ExtArgs> | null
+}
@@ -0,0 +1,1749 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PromotionRedemption` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PromotionRedemption
+ * 
+ */
+export type PromotionRedemptionModel = runtime.Types.Result.DefaultSelection<Prisma.$PromotionRedemptionPayload>
+
+export type AggregatePromotionRedemption = {
+  _count: PromotionRedemptionCountAggregateOutputType | null
+  _avg: PromotionRedemptionAvgAggregateOutputType | null
+  _sum: PromotionRedemptionSumAggregateOutputType | null
+  _min: PromotionRedemptionMinAggregateOutputType | null
+  _max: PromotionRedemptionMaxAggregateOutputType | null
+}
+
+export type PromotionRedemptionAvgAggregateOutputType = {
+  discountAmount: number | null
+}
+
+export type PromotionRedemptionSumAggregateOutputType = {
+  discountAmount: number | null
+}
+
+export type PromotionRedemptionMinAggregateOutputType = {
+  id: string | null
+  promotionId: string | null
+  orderId: string | null
+  customerId: string | null
+  email: string | null
+  discountAmount: number | null
+  currency: $Enums.Currency | null
+  createdAt: Date | null
+}
+
+export type PromotionRedemptionMaxAggregateOutputType = {
+  id: string | null
+  promotionId: string | null
+  orderId: string | null
+  customerId: string | null
+  email: string | null
+  discountAmount: number | null
+  currency: $Enums.Currency | null
+  createdAt: Date | null
+}
+
+export type PromotionRedemptionCountAggregateOutputType = {
+  id: number
+  promotionId: number
+  orderId: number
+  customerId: number
+  email: number
+  discountAmount: number
+  currency: number
+  createdAt: number
+  _all: number
+}
+
+
+export type PromotionRedemptionAvgAggregateInputType = {
+  discountAmount?: true
+}
+
+export type PromotionRedemptionSumAggregateInputType = {
+  discountAmount?: true
+}
+
+export type PromotionRedemptionMinAggregateInputType = {
+  id?: true
+  promotionId?: true
+  orderId?: true
+  customerId?: true
+  email?: true
+  discountAmount?: true
+  currency?: true
+  createdAt?: true
+}
+
+export type PromotionRedemptionMaxAggregateInputType = {
+  id?: true
+  promotionId?: true
+  orderId?: true
+  customerId?: true
+  email?: true
+  discountAmount?: true
+  currency?: true
+  createdAt?: true
+}
+
+export type PromotionRedemptionCountAggregateInputType = {
+  id?: true
+  promotionId?: true
+  orderId?: true
+  customerId?: true
+  email?: true
+  discountAmount?: true
+  currency?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type PromotionRedemptionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PromotionRedemption to aggregate.
+   */
+  where?: Prisma.PromotionRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromotionRedemptions to fetch.
+   */
+  orderBy?: Prisma.PromotionRedemptionOrderByWithRelationInput | Prisma.PromotionRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PromotionRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromotionRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromotionRedemptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PromotionRedemptions
+  **/
+  _count?: true | PromotionRedemptionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PromotionRedemptionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PromotionRedemptionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PromotionRedemptionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PromotionRedemptionMaxAggregateInputType
+}
+
+export type GetPromotionRedemptionAggregateType<T extends PromotionRedemptionAggregateArgs> = {
+      [P in keyof T & keyof AggregatePromotionRedemption]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePromotionRedemption[P]>
+    : Prisma.GetScalarType<T[P], AggregatePromotionRedemption[P]>
+}
+
+
+
+
+export type PromotionRedemptionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PromotionRedemptionWhereInput
+  orderBy?: Prisma.PromotionRedemptionOrderByWithAggregationInput | Prisma.PromotionRedemptionOrderByWithAggregationInput[]
+  by: Prisma.PromotionRedemptionScalarFieldEnum[] | Prisma.PromotionRedemptionScalarFieldEnum
+  having?: Prisma.PromotionRedemptionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PromotionRedemptionCountAggregateInputType | true
+  _avg?: PromotionRedemptionAvgAggregateInputType
+  _sum?: PromotionRedemptionSumAggregateInputType
+  _min?: PromotionRedemptionMinAggregateInputType
+  _max?: PromotionRedemptionMaxAggregateInputType
+}
+
+export type PromotionRedemptionGroupByOutputType = {
+  id: string
+  promotionId: string
+  orderId: string
+  customerId: string | null
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt: Date
+  _count: PromotionRedemptionCountAggregateOutputType | null
+  _avg: PromotionRedemptionAvgAggregateOutputType | null
+  _sum: PromotionRedemptionSumAggregateOutputType | null
+  _min: PromotionRedemptionMinAggregateOutputType | null
+  _max: PromotionRedemptionMaxAggregateOutputType | null
+}
+
+type GetPromotionRedemptionGroupByPayload<T extends PromotionRedemptionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PromotionRedemptionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PromotionRedemptionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PromotionRedemptionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PromotionRedemptionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PromotionRedemptionWhereInput = {
+  AND?: Prisma.PromotionRedemptionWhereInput | Prisma.PromotionRedemptionWhereInput[]
+  OR?: Prisma.PromotionRedemptionWhereInput[]
+  NOT?: Prisma.PromotionRedemptionWhereInput | Prisma.PromotionRedemptionWhereInput[]
+  id?: Prisma.StringFilter<"PromotionRedemption"> | string
+  promotionId?: Prisma.StringFilter<"PromotionRedemption"> | string
+  orderId?: Prisma.StringFilter<"PromotionRedemption"> | string
+  customerId?: Prisma.StringNullableFilter<"PromotionRedemption"> | string | null
+  email?: Prisma.StringFilter<"PromotionRedemption"> | string
+  discountAmount?: Prisma.FloatFilter<"PromotionRedemption"> | number
+  currency?: Prisma.EnumCurrencyFilter<"PromotionRedemption"> | $Enums.Currency
+  createdAt?: Prisma.DateTimeFilter<"PromotionRedemption"> | Date | string
+  promotion?: Prisma.XOR<Prisma.PromotionScalarRelationFilter, Prisma.PromotionWhereInput>
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+}
+
+export type PromotionRedemptionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  promotionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  email?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  promotion?: Prisma.PromotionOrderByWithRelationInput
+  order?: Prisma.OrderOrderByWithRelationInput
+  customer?: Prisma.CustomerOrderByWithRelationInput
+}
+
+export type PromotionRedemptionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  orderId?: string
+  AND?: Prisma.PromotionRedemptionWhereInput | Prisma.PromotionRedemptionWhereInput[]
+  OR?: Prisma.PromotionRedemptionWhereInput[]
+  NOT?: Prisma.PromotionRedemptionWhereInput | Prisma.PromotionRedemptionWhereInput[]
+  promotionId?: Prisma.StringFilter<"PromotionRedemption"> | string
+  customerId?: Prisma.StringNullableFilter<"PromotionRedemption"> | string | null
+  email?: Prisma.StringFilter<"PromotionRedemption"> | string
+  discountAmount?: Prisma.FloatFilter<"PromotionRedemption"> | number
+  currency?: Prisma.EnumCurrencyFilter<"PromotionRedemption"> | $Enums.Currency
+  createdAt?: Prisma.DateTimeFilter<"PromotionRedemption"> | Date | string
+  promotion?: Prisma.XOR<Prisma.PromotionScalarRelationFilter, Prisma.PromotionWhereInput>
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+}, "id" | "orderId">
+
+export type PromotionRedemptionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  promotionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  email?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.PromotionRedemptionCountOrderByAggregateInput
+  _avg?: Prisma.PromotionRedemptionAvgOrderByAggregateInput
+  _max?: Prisma.PromotionRedemptionMaxOrderByAggregateInput
+  _min?: Prisma.PromotionRedemptionMinOrderByAggregateInput
+  _sum?: Prisma.PromotionRedemptionSumOrderByAggregateInput
+}
+
+export type PromotionRedemptionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PromotionRedemptionScalarWhereWithAggregatesInput | Prisma.PromotionRedemptionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PromotionRedemptionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PromotionRedemptionScalarWhereWithAggregatesInput | Prisma.PromotionRedemptionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PromotionRedemption"> | string
+  promotionId?: Prisma.StringWithAggregatesFilter<"PromotionRedemption"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"PromotionRedemption"> | string
+  customerId?: Prisma.StringNullableWithAggregatesFilter<"PromotionRedemption"> | string | null
+  email?: Prisma.StringWithAggregatesFilter<"PromotionRedemption"> | string
+  discountAmount?: Prisma.FloatWithAggregatesFilter<"PromotionRedemption"> | number
+  currency?: Prisma.EnumCurrencyWithAggregatesFilter<"PromotionRedemption"> | $Enums.Currency
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PromotionRedemption"> | Date | string
+}
+
+export type PromotionRedemptionCreateInput = {
+  id?: string
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+  promotion: Prisma.PromotionCreateNestedOneWithoutRedemptionsInput
+  order: Prisma.OrderCreateNestedOneWithoutPromotionRedemptionInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutPromotionRedemptionsInput
+}
+
+export type PromotionRedemptionUncheckedCreateInput = {
+  id?: string
+  promotionId: string
+  orderId: string
+  customerId?: string | null
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+}
+
+export type PromotionRedemptionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  promotion?: Prisma.PromotionUpdateOneRequiredWithoutRedemptionsNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutPromotionRedemptionNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutPromotionRedemptionsNestedInput
+}
+
+export type PromotionRedemptionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promotionId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromotionRedemptionCreateManyInput = {
+  id?: string
+  promotionId: string
+  orderId: string
+  customerId?: string | null
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+}
+
+export type PromotionRedemptionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromotionRedemptionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promotionId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromotionRedemptionListRelationFilter = {
+  every?: Prisma.PromotionRedemptionWhereInput
+  some?: Prisma.PromotionRedemptionWhereInput
+  none?: Prisma.PromotionRedemptionWhereInput
+}
+
+export type PromotionRedemptionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PromotionRedemptionNullableScalarRelationFilter = {
+  is?: Prisma.PromotionRedemptionWhereInput | null
+  isNot?: Prisma.PromotionRedemptionWhereInput | null
+}
+
+export type PromotionRedemptionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  promotionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PromotionRedemptionAvgOrderByAggregateInput = {
+  discountAmount?: Prisma.SortOrder
+}
+
+export type PromotionRedemptionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  promotionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PromotionRedemptionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  promotionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PromotionRedemptionSumOrderByAggregateInput = {
+  discountAmount?: Prisma.SortOrder
+}
+
+export type PromotionRedemptionCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutCustomerInput, Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput> | Prisma.PromotionRedemptionCreateWithoutCustomerInput[] | Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutCustomerInput | Prisma.PromotionRedemptionCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.PromotionRedemptionCreateManyCustomerInputEnvelope
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+}
+
+export type PromotionRedemptionUncheckedCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutCustomerInput, Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput> | Prisma.PromotionRedemptionCreateWithoutCustomerInput[] | Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutCustomerInput | Prisma.PromotionRedemptionCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.PromotionRedemptionCreateManyCustomerInputEnvelope
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+}
+
+export type PromotionRedemptionUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutCustomerInput, Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput> | Prisma.PromotionRedemptionCreateWithoutCustomerInput[] | Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutCustomerInput | Prisma.PromotionRedemptionCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.PromotionRedemptionUpsertWithWhereUniqueWithoutCustomerInput | Prisma.PromotionRedemptionUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.PromotionRedemptionCreateManyCustomerInputEnvelope
+  set?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  delete?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  update?: Prisma.PromotionRedemptionUpdateWithWhereUniqueWithoutCustomerInput | Prisma.PromotionRedemptionUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.PromotionRedemptionUpdateManyWithWhereWithoutCustomerInput | Prisma.PromotionRedemptionUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.PromotionRedemptionScalarWhereInput | Prisma.PromotionRedemptionScalarWhereInput[]
+}
+
+export type PromotionRedemptionUncheckedUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutCustomerInput, Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput> | Prisma.PromotionRedemptionCreateWithoutCustomerInput[] | Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutCustomerInput | Prisma.PromotionRedemptionCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.PromotionRedemptionUpsertWithWhereUniqueWithoutCustomerInput | Prisma.PromotionRedemptionUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.PromotionRedemptionCreateManyCustomerInputEnvelope
+  set?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  delete?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  update?: Prisma.PromotionRedemptionUpdateWithWhereUniqueWithoutCustomerInput | Prisma.PromotionRedemptionUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.PromotionRedemptionUpdateManyWithWhereWithoutCustomerInput | Prisma.PromotionRedemptionUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.PromotionRedemptionScalarWhereInput | Prisma.PromotionRedemptionScalarWhereInput[]
+}
+
+export type PromotionRedemptionCreateNestedOneWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutOrderInput, Prisma.PromotionRedemptionUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutOrderInput
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput
+}
+
+export type PromotionRedemptionUncheckedCreateNestedOneWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutOrderInput, Prisma.PromotionRedemptionUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutOrderInput
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput
+}
+
+export type PromotionRedemptionUpdateOneWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutOrderInput, Prisma.PromotionRedemptionUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutOrderInput
+  upsert?: Prisma.PromotionRedemptionUpsertWithoutOrderInput
+  disconnect?: Prisma.PromotionRedemptionWhereInput | boolean
+  delete?: Prisma.PromotionRedemptionWhereInput | boolean
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PromotionRedemptionUpdateToOneWithWhereWithoutOrderInput, Prisma.PromotionRedemptionUpdateWithoutOrderInput>, Prisma.PromotionRedemptionUncheckedUpdateWithoutOrderInput>
+}
+
+export type PromotionRedemptionUncheckedUpdateOneWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutOrderInput, Prisma.PromotionRedemptionUncheckedCreateWithoutOrderInput>
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutOrderInput
+  upsert?: Prisma.PromotionRedemptionUpsertWithoutOrderInput
+  disconnect?: Prisma.PromotionRedemptionWhereInput | boolean
+  delete?: Prisma.PromotionRedemptionWhereInput | boolean
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PromotionRedemptionUpdateToOneWithWhereWithoutOrderInput, Prisma.PromotionRedemptionUpdateWithoutOrderInput>, Prisma.PromotionRedemptionUncheckedUpdateWithoutOrderInput>
+}
+
+export type PromotionRedemptionCreateNestedManyWithoutPromotionInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutPromotionInput, Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput> | Prisma.PromotionRedemptionCreateWithoutPromotionInput[] | Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput[]
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutPromotionInput | Prisma.PromotionRedemptionCreateOrConnectWithoutPromotionInput[]
+  createMany?: Prisma.PromotionRedemptionCreateManyPromotionInputEnvelope
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+}
+
+export type PromotionRedemptionUncheckedCreateNestedManyWithoutPromotionInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutPromotionInput, Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput> | Prisma.PromotionRedemptionCreateWithoutPromotionInput[] | Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput[]
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutPromotionInput | Prisma.PromotionRedemptionCreateOrConnectWithoutPromotionInput[]
+  createMany?: Prisma.PromotionRedemptionCreateManyPromotionInputEnvelope
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+}
+
+export type PromotionRedemptionUpdateManyWithoutPromotionNestedInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutPromotionInput, Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput> | Prisma.PromotionRedemptionCreateWithoutPromotionInput[] | Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput[]
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutPromotionInput | Prisma.PromotionRedemptionCreateOrConnectWithoutPromotionInput[]
+  upsert?: Prisma.PromotionRedemptionUpsertWithWhereUniqueWithoutPromotionInput | Prisma.PromotionRedemptionUpsertWithWhereUniqueWithoutPromotionInput[]
+  createMany?: Prisma.PromotionRedemptionCreateManyPromotionInputEnvelope
+  set?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  delete?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  update?: Prisma.PromotionRedemptionUpdateWithWhereUniqueWithoutPromotionInput | Prisma.PromotionRedemptionUpdateWithWhereUniqueWithoutPromotionInput[]
+  updateMany?: Prisma.PromotionRedemptionUpdateManyWithWhereWithoutPromotionInput | Prisma.PromotionRedemptionUpdateManyWithWhereWithoutPromotionInput[]
+  deleteMany?: Prisma.PromotionRedemptionScalarWhereInput | Prisma.PromotionRedemptionScalarWhereInput[]
+}
+
+export type PromotionRedemptionUncheckedUpdateManyWithoutPromotionNestedInput = {
+  create?: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutPromotionInput, Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput> | Prisma.PromotionRedemptionCreateWithoutPromotionInput[] | Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput[]
+  connectOrCreate?: Prisma.PromotionRedemptionCreateOrConnectWithoutPromotionInput | Prisma.PromotionRedemptionCreateOrConnectWithoutPromotionInput[]
+  upsert?: Prisma.PromotionRedemptionUpsertWithWhereUniqueWithoutPromotionInput | Prisma.PromotionRedemptionUpsertWithWhereUniqueWithoutPromotionInput[]
+  createMany?: Prisma.PromotionRedemptionCreateManyPromotionInputEnvelope
+  set?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  delete?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  connect?: Prisma.PromotionRedemptionWhereUniqueInput | Prisma.PromotionRedemptionWhereUniqueInput[]
+  update?: Prisma.PromotionRedemptionUpdateWithWhereUniqueWithoutPromotionInput | Prisma.PromotionRedemptionUpdateWithWhereUniqueWithoutPromotionInput[]
+  updateMany?: Prisma.PromotionRedemptionUpdateManyWithWhereWithoutPromotionInput | Prisma.PromotionRedemptionUpdateManyWithWhereWithoutPromotionInput[]
+  deleteMany?: Prisma.PromotionRedemptionScalarWhereInput | Prisma.PromotionRedemptionScalarWhereInput[]
+}
+
+export type PromotionRedemptionCreateWithoutCustomerInput = {
+  id?: string
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+  promotion: Prisma.PromotionCreateNestedOneWithoutRedemptionsInput
+  order: Prisma.OrderCreateNestedOneWithoutPromotionRedemptionInput
+}
+
+export type PromotionRedemptionUncheckedCreateWithoutCustomerInput = {
+  id?: string
+  promotionId: string
+  orderId: string
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+}
+
+export type PromotionRedemptionCreateOrConnectWithoutCustomerInput = {
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutCustomerInput, Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput>
+}
+
+export type PromotionRedemptionCreateManyCustomerInputEnvelope = {
+  data: Prisma.PromotionRedemptionCreateManyCustomerInput | Prisma.PromotionRedemptionCreateManyCustomerInput[]
+  skipDuplicates?: boolean
+}
+
+export type PromotionRedemptionUpsertWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PromotionRedemptionUpdateWithoutCustomerInput, Prisma.PromotionRedemptionUncheckedUpdateWithoutCustomerInput>
+  create: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutCustomerInput, Prisma.PromotionRedemptionUncheckedCreateWithoutCustomerInput>
+}
+
+export type PromotionRedemptionUpdateWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PromotionRedemptionUpdateWithoutCustomerInput, Prisma.PromotionRedemptionUncheckedUpdateWithoutCustomerInput>
+}
+
+export type PromotionRedemptionUpdateManyWithWhereWithoutCustomerInput = {
+  where: Prisma.PromotionRedemptionScalarWhereInput
+  data: Prisma.XOR<Prisma.PromotionRedemptionUpdateManyMutationInput, Prisma.PromotionRedemptionUncheckedUpdateManyWithoutCustomerInput>
+}
+
+export type PromotionRedemptionScalarWhereInput = {
+  AND?: Prisma.PromotionRedemptionScalarWhereInput | Prisma.PromotionRedemptionScalarWhereInput[]
+  OR?: Prisma.PromotionRedemptionScalarWhereInput[]
+  NOT?: Prisma.PromotionRedemptionScalarWhereInput | Prisma.PromotionRedemptionScalarWhereInput[]
+  id?: Prisma.StringFilter<"PromotionRedemption"> | string
+  promotionId?: Prisma.StringFilter<"PromotionRedemption"> | string
+  orderId?: Prisma.StringFilter<"PromotionRedemption"> | string
+  customerId?: Prisma.StringNullableFilter<"PromotionRedemption"> | string | null
+  email?: Prisma.StringFilter<"PromotionRedemption"> | string
+  discountAmount?: Prisma.FloatFilter<"PromotionRedemption"> | number
+  currency?: Prisma.EnumCurrencyFilter<"PromotionRedemption"> | $Enums.Currency
+  createdAt?: Prisma.DateTimeFilter<"PromotionRedemption"> | Date | string
+}
+
+export type PromotionRedemptionCreateWithoutOrderInput = {
+  id?: string
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+  promotion: Prisma.PromotionCreateNestedOneWithoutRedemptionsInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutPromotionRedemptionsInput
+}
+
+export type PromotionRedemptionUncheckedCreateWithoutOrderInput = {
+  id?: string
+  promotionId: string
+  customerId?: string | null
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+}
+
+export type PromotionRedemptionCreateOrConnectWithoutOrderInput = {
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutOrderInput, Prisma.PromotionRedemptionUncheckedCreateWithoutOrderInput>
+}
+
+export type PromotionRedemptionUpsertWithoutOrderInput = {
+  update: Prisma.XOR<Prisma.PromotionRedemptionUpdateWithoutOrderInput, Prisma.PromotionRedemptionUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutOrderInput, Prisma.PromotionRedemptionUncheckedCreateWithoutOrderInput>
+  where?: Prisma.PromotionRedemptionWhereInput
+}
+
+export type PromotionRedemptionUpdateToOneWithWhereWithoutOrderInput = {
+  where?: Prisma.PromotionRedemptionWhereInput
+  data: Prisma.XOR<Prisma.PromotionRedemptionUpdateWithoutOrderInput, Prisma.PromotionRedemptionUncheckedUpdateWithoutOrderInput>
+}
+
+export type PromotionRedemptionUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  promotion?: Prisma.PromotionUpdateOneRequiredWithoutRedemptionsNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutPromotionRedemptionsNestedInput
+}
+
+export type PromotionRedemptionUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promotionId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromotionRedemptionCreateWithoutPromotionInput = {
+  id?: string
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutPromotionRedemptionInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutPromotionRedemptionsInput
+}
+
+export type PromotionRedemptionUncheckedCreateWithoutPromotionInput = {
+  id?: string
+  orderId: string
+  customerId?: string | null
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+}
+
+export type PromotionRedemptionCreateOrConnectWithoutPromotionInput = {
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutPromotionInput, Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput>
+}
+
+export type PromotionRedemptionCreateManyPromotionInputEnvelope = {
+  data: Prisma.PromotionRedemptionCreateManyPromotionInput | Prisma.PromotionRedemptionCreateManyPromotionInput[]
+  skipDuplicates?: boolean
+}
+
+export type PromotionRedemptionUpsertWithWhereUniqueWithoutPromotionInput = {
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PromotionRedemptionUpdateWithoutPromotionInput, Prisma.PromotionRedemptionUncheckedUpdateWithoutPromotionInput>
+  create: Prisma.XOR<Prisma.PromotionRedemptionCreateWithoutPromotionInput, Prisma.PromotionRedemptionUncheckedCreateWithoutPromotionInput>
+}
+
+export type PromotionRedemptionUpdateWithWhereUniqueWithoutPromotionInput = {
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PromotionRedemptionUpdateWithoutPromotionInput, Prisma.PromotionRedemptionUncheckedUpdateWithoutPromotionInput>
+}
+
+export type PromotionRedemptionUpdateManyWithWhereWithoutPromotionInput = {
+  where: Prisma.PromotionRedemptionScalarWhereInput
+  data: Prisma.XOR<Prisma.PromotionRedemptionUpdateManyMutationInput, Prisma.PromotionRedemptionUncheckedUpdateManyWithoutPromotionInput>
+}
+
+export type PromotionRedemptionCreateManyCustomerInput = {
+  id?: string
+  promotionId: string
+  orderId: string
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+}
+
+export type PromotionRedemptionUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  promotion?: Prisma.PromotionUpdateOneRequiredWithoutRedemptionsNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutPromotionRedemptionNestedInput
+}
+
+export type PromotionRedemptionUncheckedUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promotionId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromotionRedemptionUncheckedUpdateManyWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promotionId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromotionRedemptionCreateManyPromotionInput = {
+  id?: string
+  orderId: string
+  customerId?: string | null
+  email: string
+  discountAmount: number
+  currency: $Enums.Currency
+  createdAt?: Date | string
+}
+
+export type PromotionRedemptionUpdateWithoutPromotionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutPromotionRedemptionNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutPromotionRedemptionsNestedInput
+}
+
+export type PromotionRedemptionUncheckedUpdateWithoutPromotionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromotionRedemptionUncheckedUpdateManyWithoutPromotionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.EnumCurrencyFieldUpdateOperationsInput | $Enums.Currency
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PromotionRedemptionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  promotionId?: boolean
+  orderId?: boolean
+  customerId?: boolean
+  email?: boolean
+  discountAmount?: boolean
+  currency?: boolean
+  createdAt?: boolean
+  promotion?: boolean | Prisma.PromotionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.PromotionRedemption$customerArgs<ExtArgs>
+}, ExtArgs["result"]["promotionRedemption"]>
+
+export type PromotionRedemptionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  promotionId?: boolean
+  orderId?: boolean
+  customerId?: boolean
+  email?: boolean
+  discountAmount?: boolean
+  currency?: boolean
+  createdAt?: boolean
+  promotion?: boolean | Prisma.PromotionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.PromotionRedemption$customerArgs<ExtArgs>
+}, ExtArgs["result"]["promotionRedemption"]>
+
+export type PromotionRedemptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  promotionId?: boolean
+  orderId?: boolean
+  customerId?: boolean
+  email?: boolean
+  discountAmount?: boolean
+  currency?: boolean
+  createdAt?: boolean
+  promotion?: boolean | Prisma.PromotionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.PromotionRedemption$customerArgs<ExtArgs>
+}, ExtArgs["result"]["promotionRedemption"]>
+
+export type PromotionRedemptionSelectScalar = {
+  id?: boolean
+  promotionId?: boolean
+  orderId?: boolean
+  customerId?: boolean
+  email?: boolean
+  discountAmount?: boolean
+  currency?: boolean
+  createdAt?: boolean
+}
+
+export type PromotionRedemptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "promotionId" | "orderId" | "customerId" | "email" | "discountAmount" | "currency" | "createdAt", ExtArgs["result"]["promotionRedemption"]>
+export type PromotionRedemptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  promotion?: boolean | Prisma.PromotionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.PromotionRedemption$customerArgs<ExtArgs>
+}
+export type PromotionRedemptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  promotion?: boolean | Prisma.PromotionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.PromotionRedemption$customerArgs<ExtArgs>
+}
+export type PromotionRedemptionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  promotion?: boolean | Prisma.PromotionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.PromotionRedemption$customerArgs<ExtArgs>
+}
+
+export type $PromotionRedemptionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PromotionRedemption"
+  objects: {
+    promotion: Prisma.$PromotionPayload<ExtArgs>
+    order: Prisma.$OrderPayload<ExtArgs>
+    customer: Prisma.$CustomerPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    promotionId: string
+    orderId: string
+    customerId: string | null
+    email: string
+    discountAmount: number
+    currency: $Enums.Currency
+    createdAt: Date
+  }, ExtArgs["result"]["promotionRedemption"]>
+  composites: {}
+}
+
+export type PromotionRedemptionGetPayload<S extends boolean | null | undefined | PromotionRedemptionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload, S>
+
+export type PromotionRedemptionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PromotionRedemptionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PromotionRedemptionCountAggregateInputType | true
+  }
+
+export interface PromotionRedemptionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PromotionRedemption'], meta: { name: 'PromotionRedemption' } }
+  /**
+   * Find zero or one PromotionRedemption that matches the filter.
+   * @param {PromotionRedemptionFindUniqueArgs} args - Arguments to find a PromotionRedemption
+   * @example
+   * // Get one PromotionRedemption
+   * const promotionRedemption = await prisma.promotionRedemption.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PromotionRedemptionFindUniqueArgs>(args: Prisma.SelectSubset<T, PromotionRedemptionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PromotionRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PromotionRedemption that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PromotionRedemptionFindUniqueOrThrowArgs} args - Arguments to find a PromotionRedemption
+   * @example
+   * // Get one PromotionRedemption
+   * const promotionRedemption = await prisma.promotionRedemption.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PromotionRedemptionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PromotionRedemptionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PromotionRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PromotionRedemption that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionRedemptionFindFirstArgs} args - Arguments to find a PromotionRedemption
+   * @example
+   * // Get one PromotionRedemption
+   * const promotionRedemption = await prisma.promotionRedemption.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PromotionRedemptionFindFirstArgs>(args?: Prisma.SelectSubset<T, PromotionRedemptionFindFirstArgs<ExtArgs>>): Prisma.Prisma__PromotionRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PromotionRedemption that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionRedemptionFindFirstOrThrowArgs} args - Arguments to find a PromotionRedemption
+   * @example
+   * // Get one PromotionRedemption
+   * const promotionRedemption = await prisma.promotionRedemption.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PromotionRedemptionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PromotionRedemptionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PromotionRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PromotionRedemptions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionRedemptionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PromotionRedemptions
+   * const promotionRedemptions = await prisma.promotionRedemption.findMany()
+   * 
+   * // Get first 10 PromotionRedemptions
+   * const promotionRedemptions = await prisma.promotionRedemption.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const promotionRedemptionWithIdOnly = await prisma.promotionRedemption.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PromotionRedemptionFindManyArgs>(args?: Prisma.SelectSubset<T, PromotionRedemptionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PromotionRedemption.
+   * @param {PromotionRedemptionCreateArgs} args - Arguments to create a PromotionRedemption.
+   * @example
+   * // Create one PromotionRedemption
+   * const PromotionRedemption = await prisma.promotionRedemption.create({
+   *   data: {
+   *     // ... data to create a PromotionRedemption
+   *   }
+   * })
+   * 
+   */
+  create<T extends PromotionRedemptionCreateArgs>(args: Prisma.SelectSubset<T, PromotionRedemptionCreateArgs<ExtArgs>>): Prisma.Prisma__PromotionRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PromotionRedemptions.
+   * @param {PromotionRedemptionCreateManyArgs} args - Arguments to create many PromotionRedemptions.
+   * @example
+   * // Create many PromotionRedemptions
+   * const promotionRedemption = await prisma.promotionRedemption.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PromotionRedemptionCreateManyArgs>(args?: Prisma.SelectSubset<T, PromotionRedemptionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PromotionRedemptions and returns the data saved in the database.
+   * @param {PromotionRedemptionCreateManyAndReturnArgs} args - Arguments to create many PromotionRedemptions.
+   * @example
+   * // Create many PromotionRedemptions
+   * const promotionRedemption = await prisma.promotionRedemption.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PromotionRedemptions and only return the `id`
+   * const promotionRedemptionWithIdOnly = await prisma.promotionRedemption.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PromotionRedemptionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PromotionRedemptionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PromotionRedemption.
+   * @param {PromotionRedemptionDeleteArgs} args - Arguments to delete one PromotionRedemption.
+   * @example
+   * // Delete one PromotionRedemption
+   * const PromotionRedemption = await prisma.promotionRedemption.delete({
+   *   where: {
+   *     // ... filter to delete one PromotionRedemption
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PromotionRedemptionDeleteArgs>(args: Prisma.SelectSubset<T, PromotionRedemptionDeleteArgs<ExtArgs>>): Prisma.Prisma__PromotionRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PromotionRedemption.
+   * @param {PromotionRedemptionUpdateArgs} args - Arguments to update one PromotionRedemption.
+   * @example
+   * // Update one PromotionRedemption
+   * const promotionRedemption = await prisma.promotionRedemption.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PromotionRedemptionUpdateArgs>(args: Prisma.SelectSubset<T, PromotionRedemptionUpdateArgs<ExtArgs>>): Prisma.Prisma__PromotionRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PromotionRedemptions.
+   * @param {PromotionRedemptionDeleteManyArgs} args - Arguments to filter PromotionRedemptions to delete.
+   * @example
+   * // Delete a few PromotionRedemptions
+   * const { count } = await prisma.promotionRedemption.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PromotionRedemptionDeleteManyArgs>(args?: Prisma.SelectSubset<T, PromotionRedemptionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PromotionRedemptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionRedemptionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PromotionRedemptions
+   * const promotionRedemption = await prisma.promotionRedemption.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PromotionRedemptionUpdateManyArgs>(args: Prisma.SelectSubset<T, PromotionRedemptionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PromotionRedemptions and returns the data updated in the database.
+   * @param {PromotionRedemptionUpdateManyAndReturnArgs} args - Arguments to update many PromotionRedemptions.
+   * @example
+   * // Update many PromotionRedemptions
+   * const promotionRedemption = await prisma.promotionRedemption.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PromotionRedemptions and only return the `id`
+   * const promotionRedemptionWithIdOnly = await prisma.promotionRedemption.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PromotionRedemptionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PromotionRedemptionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PromotionRedemption.
+   * @param {PromotionRedemptionUpsertArgs} args - Arguments to update or create a PromotionRedemption.
+   * @example
+   * // Update or create a PromotionRedemption
+   * const promotionRedemption = await prisma.promotionRedemption.upsert({
+   *   create: {
+   *     // ... data to create a PromotionRedemption
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PromotionRedemption we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PromotionRedemptionUpsertArgs>(args: Prisma.SelectSubset<T, PromotionRedemptionUpsertArgs<ExtArgs>>): Prisma.Prisma__PromotionRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromotionRedemptionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PromotionRedemptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionRedemptionCountArgs} args - Arguments to filter PromotionRedemptions to count.
+   * @example
+   * // Count the number of PromotionRedemptions
+   * const count = await prisma.promotionRedemption.count({
+   *   where: {
+   *     // ... the filter for the PromotionRedemptions we want to count
+   *   }
+   * })
+  **/
+  count<T extends PromotionRedemptionCountArgs>(
+    args?: Prisma.Subset<T, PromotionRedemptionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PromotionRedemptionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PromotionRedemption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionRedemptionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PromotionRedemptionAggregateArgs>(args: Prisma.Subset<T, PromotionRedemptionAggregateArgs>): Prisma.PrismaPromise<GetPromotionRedemptionAggregateType<T>>
+
+  /**
+   * Group by PromotionRedemption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromotionRedemptionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PromotionRedemptionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PromotionRedemptionGroupByArgs['orderBy'] }
+      : { orderBy?: PromotionRedemptionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PromotionRedemptionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPromotionRedemptionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PromotionRedemption model
+ */
+readonly fields: PromotionRedemptionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PromotionRedemption.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PromotionRedemptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  promotion<T extends Prisma.PromotionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PromotionDefaultArgs<ExtArgs>>): Prisma.Prisma__PromotionClient<runtime.Types.Result.GetResult<Prisma.$PromotionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  customer<T extends Prisma.PromotionRedemption$customerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PromotionRedemption$customerArgs<ExtArgs>>): Prisma.Prisma__CustomerClient<runtime.Types.Result.GetResult<Prisma.$CustomerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PromotionRedemption model
+ */
+export interface PromotionRedemptionFieldRefs {
+  readonly id: Prisma.FieldRef<"PromotionRedemption", 'String'>
+  readonly promotionId: Prisma.FieldRef<"PromotionRedemption", 'String'>
+  readonly orderId: Prisma.FieldRef<"PromotionRedemption", 'String'>
+  readonly customerId: Prisma.FieldRef<"PromotionRedemption", 'String'>
+  readonly email: Prisma.FieldRef<"PromotionRedemption", 'String'>
+  readonly discountAmount: Prisma.FieldRef<"PromotionRedemption", 'Float'>
+  readonly currency: Prisma.FieldRef<"PromotionRedemption", 'Currency'>
+  readonly createdAt: Prisma.FieldRef<"PromotionRedemption", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PromotionRedemption findUnique
+ */
+export type PromotionRedemptionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromotionRedemption to fetch.
+   */
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+}
+
+/**
+ * PromotionRedemption findUniqueOrThrow
+ */
+export type PromotionRedemptionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromotionRedemption to fetch.
+   */
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+}
+
+/**
+ * PromotionRedemption findFirst
+ */
+export type PromotionRedemptionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromotionRedemption to fetch.
+   */
+  where?: Prisma.PromotionRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromotionRedemptions to fetch.
+   */
+  orderBy?: Prisma.PromotionRedemptionOrderByWithRelationInput | Prisma.PromotionRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PromotionRedemptions.
+   */
+  cursor?: Prisma.PromotionRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromotionRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromotionRedemptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PromotionRedemptions.
+   */
+  distinct?: Prisma.PromotionRedemptionScalarFieldEnum | Prisma.PromotionRedemptionScalarFieldEnum[]
+}
+
+/**
+ * PromotionRedemption findFirstOrThrow
+ */
+export type PromotionRedemptionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromotionRedemption to fetch.
+   */
+  where?: Prisma.PromotionRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromotionRedemptions to fetch.
+   */
+  orderBy?: Prisma.PromotionRedemptionOrderByWithRelationInput | Prisma.PromotionRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PromotionRedemptions.
+   */
+  cursor?: Prisma.PromotionRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromotionRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromotionRedemptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PromotionRedemptions.
+   */
+  distinct?: Prisma.PromotionRedemptionScalarFieldEnum | Prisma.PromotionRedemptionScalarFieldEnum[]
+}
+
+/**
+ * PromotionRedemption findMany
+ */
+export type PromotionRedemptionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromotionRedemptions to fetch.
+   */
+  where?: Prisma.PromotionRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromotionRedemptions to fetch.
+   */
+  orderBy?: Prisma.PromotionRedemptionOrderByWithRelationInput | Prisma.PromotionRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PromotionRedemptions.
+   */
+  cursor?: Prisma.PromotionRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromotionRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromotionRedemptions.
+   */
+  skip?: number
+  distinct?: Prisma.PromotionRedemptionScalarFieldEnum | Prisma.PromotionRedemptionScalarFieldEnum[]
+}
+
+/**
+ * PromotionRedemption create
+ */
+export type PromotionRedemptionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PromotionRedemption.
+   */
+  data: Prisma.XOR<Prisma.PromotionRedemptionCreateInput, Prisma.PromotionRedemptionUncheckedCreateInput>
+}
+
+/**
+ * PromotionRedemption createMany
+ */
+export type PromotionRedemptionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PromotionRedemptions.
+   */
+  data: Prisma.PromotionRedemptionCreateManyInput | Prisma.PromotionRedemptionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PromotionRedemption createManyAndReturn
+ */
+export type PromotionRedemptionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * The data used to create many PromotionRedemptions.
+   */
+  data: Prisma.PromotionRedemptionCreateManyInput | Prisma.PromotionRedemptionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PromotionRedemption update
+ */
+export type PromotionRedemptionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PromotionRedemption.
+   */
+  data: Prisma.XOR<Prisma.PromotionRedemptionUpdateInput, Prisma.PromotionRedemptionUncheckedUpdateInput>
+  /**
+   * Choose, which PromotionRedemption to update.
+   */
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+}
+
+/**
+ * PromotionRedemption updateMany
+ */
+export type PromotionRedemptionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PromotionRedemptions.
+   */
+  data: Prisma.XOR<Prisma.PromotionRedemptionUpdateManyMutationInput, Prisma.PromotionRedemptionUncheckedUpdateManyInput>
+  /**
+   * Filter which PromotionRedemptions to update
+   */
+  where?: Prisma.PromotionRedemptionWhereInput
+  /**
+   * Limit how many PromotionRedemptions to update.
+   */
+  limit?: number
+}
+
+/**
+ * PromotionRedemption updateManyAndReturn
+ */
+export type PromotionRedemptionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * The data used to update PromotionRedemptions.
+   */
+  data: Prisma.XOR<Prisma.PromotionRedemptionUpdateManyMutationInput, Prisma.PromotionRedemptionUncheckedUpdateManyInput>
+  /**
+   * Filter which PromotionRedemptions to update
+   */
+  where?: Prisma.PromotionRedemptionWhereInput
+  /**
+   * Limit how many PromotionRedemptions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PromotionRedemption upsert
+ */
+export type PromotionRedemptionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PromotionRedemption to update in case it exists.
+   */
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+  /**
+   * In case the PromotionRedemption found by the `where` argument doesn't exist, create a new PromotionRedemption with this data.
+   */
+  create: Prisma.XOR<Prisma.PromotionRedemptionCreateInput, Prisma.PromotionRedemptionUncheckedCreateInput>
+  /**
+   * In case the PromotionRedemption was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PromotionRedemptionUpdateInput, Prisma.PromotionRedemptionUncheckedUpdateInput>
+}
+
+/**
+ * PromotionRedemption delete
+ */
+export type PromotionRedemptionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter which PromotionRedemption to delete.
+   */
+  where: Prisma.PromotionRedemptionWhereUniqueInput
+}
+
+/**
+ * PromotionRedemption deleteMany
+ */
+export type PromotionRedemptionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PromotionRedemptions to delete
+   */
+  where?: Prisma.PromotionRedemptionWhereInput
+  /**
+   * Limit how many PromotionRedemptions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PromotionRedemption.customer
+ */
+export type PromotionRedemption$customerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Customer
+   */
+  select?: Prisma.CustomerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Customer
+   */
+  omit?: Prisma.CustomerOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomerInclude<ExtArgs> | null
+  where?: Prisma.CustomerWhereInput
+}
+
+/**
+ * PromotionRedemption without action
+ */
+export type PromotionRedemptionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromotionRedemption
+   */
+  select?: Prisma.PromotionRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromotionRedemption
+   */
+  omit?: Prisma.PromotionRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromotionRedemptionInclude<ExtArgs> | null
+}
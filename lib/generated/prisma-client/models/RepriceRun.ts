@@ -0,0 +1,1573 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `RepriceRun` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model RepriceRun
+ * 
+ */
+export type RepriceRunModel = runtime.Types.Result.DefaultSelection<Prisma.$RepriceRunPayload>
+
+export type AggregateRepriceRun = {
+  _count: RepriceRunCountAggregateOutputType | null
+  _avg: RepriceRunAvgAggregateOutputType | null
+  _sum: RepriceRunSumAggregateOutputType | null
+  _min: RepriceRunMinAggregateOutputType | null
+  _max: RepriceRunMaxAggregateOutputType | null
+}
+
+export type RepriceRunAvgAggregateOutputType = {
+  productCount: number | null
+}
+
+export type RepriceRunSumAggregateOutputType = {
+  productCount: number | null
+}
+
+export type RepriceRunMinAggregateOutputType = {
+  id: string | null
+  staffId: string | null
+  scheduled: boolean | null
+  productCount: number | null
+  createdAt: Date | null
+}
+
+export type RepriceRunMaxAggregateOutputType = {
+  id: string | null
+  staffId: string | null
+  scheduled: boolean | null
+  productCount: number | null
+  createdAt: Date | null
+}
+
+export type RepriceRunCountAggregateOutputType = {
+  id: number
+  staffId: number
+  scheduled: number
+  rates: number
+  productCount: number
+  createdAt: number
+  _all: number
+}
+
+
+export type RepriceRunAvgAggregateInputType = {
+  productCount?: true
+}
+
+export type RepriceRunSumAggregateInputType = {
+  productCount?: true
+}
+
+export type RepriceRunMinAggregateInputType = {
+  id?: true
+  staffId?: true
+  scheduled?: true
+  productCount?: true
+  createdAt?: true
+}
+
+export type RepriceRunMaxAggregateInputType = {
+  id?: true
+  staffId?: true
+  scheduled?: true
+  productCount?: true
+  createdAt?: true
+}
+
+export type RepriceRunCountAggregateInputType = {
+  id?: true
+  staffId?: true
+  scheduled?: true
+  rates?: true
+  productCount?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type RepriceRunAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RepriceRun to aggregate.
+   */
+  where?: Prisma.RepriceRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RepriceRuns to fetch.
+   */
+  orderBy?: Prisma.RepriceRunOrderByWithRelationInput | Prisma.RepriceRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RepriceRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RepriceRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RepriceRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RepriceRuns
+  **/
+  _count?: true | RepriceRunCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: RepriceRunAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: RepriceRunSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RepriceRunMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RepriceRunMaxAggregateInputType
+}
+
+export type GetRepriceRunAggregateType<T extends RepriceRunAggregateArgs> = {
+      [P in keyof T & keyof AggregateRepriceRun]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRepriceRun[P]>
+    : Prisma.GetScalarType<T[P], AggregateRepriceRun[P]>
+}
+
+
+
+
+export type RepriceRunGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RepriceRunWhereInput
+  orderBy?: Prisma.RepriceRunOrderByWithAggregationInput | Prisma.RepriceRunOrderByWithAggregationInput[]
+  by: Prisma.RepriceRunScalarFieldEnum[] | Prisma.RepriceRunScalarFieldEnum
+  having?: Prisma.RepriceRunScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RepriceRunCountAggregateInputType | true
+  _avg?: RepriceRunAvgAggregateInputType
+  _sum?: RepriceRunSumAggregateInputType
+  _min?: RepriceRunMinAggregateInputType
+  _max?: RepriceRunMaxAggregateInputType
+}
+
+export type RepriceRunGroupByOutputType = {
+  id: string
+  staffId: string | null
+  scheduled: boolean
+  rates: runtime.JsonValue
+  productCount: number
+  createdAt: Date
+  _count: RepriceRunCountAggregateOutputType | null
+  _avg: RepriceRunAvgAggregateOutputType | null
+  _sum: RepriceRunSumAggregateOutputType | null
+  _min: RepriceRunMinAggregateOutputType | null
+  _max: RepriceRunMaxAggregateOutputType | null
+}
+
+type GetRepriceRunGroupByPayload<T extends RepriceRunGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RepriceRunGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RepriceRunGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RepriceRunGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RepriceRunGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RepriceRunWhereInput = {
+  AND?: Prisma.RepriceRunWhereInput | Prisma.RepriceRunWhereInput[]
+  OR?: Prisma.RepriceRunWhereInput[]
+  NOT?: Prisma.RepriceRunWhereInput | Prisma.RepriceRunWhereInput[]
+  id?: Prisma.StringFilter<"RepriceRun"> | string
+  staffId?: Prisma.StringNullableFilter<"RepriceRun"> | string | null
+  scheduled?: Prisma.BoolFilter<"RepriceRun"> | boolean
+  rates?: Prisma.JsonFilter<"RepriceRun">
+  productCount?: Prisma.IntFilter<"RepriceRun"> | number
+  createdAt?: Prisma.DateTimeFilter<"RepriceRun"> | Date | string
+  staff?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+  changes?: Prisma.PriceChangeListRelationFilter
+}
+
+export type RepriceRunOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  staffId?: Prisma.SortOrderInput | Prisma.SortOrder
+  scheduled?: Prisma.SortOrder
+  rates?: Prisma.SortOrder
+  productCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  staff?: Prisma.StaffOrderByWithRelationInput
+  changes?: Prisma.PriceChangeOrderByRelationAggregateInput
+}
+
+export type RepriceRunWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RepriceRunWhereInput | Prisma.RepriceRunWhereInput[]
+  OR?: Prisma.RepriceRunWhereInput[]
+  NOT?: Prisma.RepriceRunWhereInput | Prisma.RepriceRunWhereInput[]
+  staffId?: Prisma.StringNullableFilter<"RepriceRun"> | string | null
+  scheduled?: Prisma.BoolFilter<"RepriceRun"> | boolean
+  rates?: Prisma.JsonFilter<"RepriceRun">
+  productCount?: Prisma.IntFilter<"RepriceRun"> | number
+  createdAt?: Prisma.DateTimeFilter<"RepriceRun"> | Date | string
+  staff?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+  changes?: Prisma.PriceChangeListRelationFilter
+}, "id">
+
+export type RepriceRunOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  staffId?: Prisma.SortOrderInput | Prisma.SortOrder
+  scheduled?: Prisma.SortOrder
+  rates?: Prisma.SortOrder
+  productCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.RepriceRunCountOrderByAggregateInput
+  _avg?: Prisma.RepriceRunAvgOrderByAggregateInput
+  _max?: Prisma.RepriceRunMaxOrderByAggregateInput
+  _min?: Prisma.RepriceRunMinOrderByAggregateInput
+  _sum?: Prisma.RepriceRunSumOrderByAggregateInput
+}
+
+export type RepriceRunScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RepriceRunScalarWhereWithAggregatesInput | Prisma.RepriceRunScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RepriceRunScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RepriceRunScalarWhereWithAggregatesInput | Prisma.RepriceRunScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"RepriceRun"> | string
+  staffId?: Prisma.StringNullableWithAggregatesFilter<"RepriceRun"> | string | null
+  scheduled?: Prisma.BoolWithAggregatesFilter<"RepriceRun"> | boolean
+  rates?: Prisma.JsonWithAggregatesFilter<"RepriceRun">
+  productCount?: Prisma.IntWithAggregatesFilter<"RepriceRun"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"RepriceRun"> | Date | string
+}
+
+export type RepriceRunCreateInput = {
+  id?: string
+  scheduled?: boolean
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: number
+  createdAt?: Date | string
+  staff?: Prisma.StaffCreateNestedOneWithoutRepriceRunsInput
+  changes?: Prisma.PriceChangeCreateNestedManyWithoutRunInput
+}
+
+export type RepriceRunUncheckedCreateInput = {
+  id?: string
+  staffId?: string | null
+  scheduled?: boolean
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: number
+  createdAt?: Date | string
+  changes?: Prisma.PriceChangeUncheckedCreateNestedManyWithoutRunInput
+}
+
+export type RepriceRunUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  staff?: Prisma.StaffUpdateOneWithoutRepriceRunsNestedInput
+  changes?: Prisma.PriceChangeUpdateManyWithoutRunNestedInput
+}
+
+export type RepriceRunUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changes?: Prisma.PriceChangeUncheckedUpdateManyWithoutRunNestedInput
+}
+
+export type RepriceRunCreateManyInput = {
+  id?: string
+  staffId?: string | null
+  scheduled?: boolean
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: number
+  createdAt?: Date | string
+}
+
+export type RepriceRunUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RepriceRunUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RepriceRunListRelationFilter = {
+  every?: Prisma.RepriceRunWhereInput
+  some?: Prisma.RepriceRunWhereInput
+  none?: Prisma.RepriceRunWhereInput
+}
+
+export type RepriceRunOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RepriceRunCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  staffId?: Prisma.SortOrder
+  scheduled?: Prisma.SortOrder
+  rates?: Prisma.SortOrder
+  productCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RepriceRunAvgOrderByAggregateInput = {
+  productCount?: Prisma.SortOrder
+}
+
+export type RepriceRunMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  staffId?: Prisma.SortOrder
+  scheduled?: Prisma.SortOrder
+  productCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RepriceRunMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  staffId?: Prisma.SortOrder
+  scheduled?: Prisma.SortOrder
+  productCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RepriceRunSumOrderByAggregateInput = {
+  productCount?: Prisma.SortOrder
+}
+
+export type RepriceRunScalarRelationFilter = {
+  is?: Prisma.RepriceRunWhereInput
+  isNot?: Prisma.RepriceRunWhereInput
+}
+
+export type RepriceRunCreateNestedManyWithoutStaffInput = {
+  create?: Prisma.XOR<Prisma.RepriceRunCreateWithoutStaffInput, Prisma.RepriceRunUncheckedCreateWithoutStaffInput> | Prisma.RepriceRunCreateWithoutStaffInput[] | Prisma.RepriceRunUncheckedCreateWithoutStaffInput[]
+  connectOrCreate?: Prisma.RepriceRunCreateOrConnectWithoutStaffInput | Prisma.RepriceRunCreateOrConnectWithoutStaffInput[]
+  createMany?: Prisma.RepriceRunCreateManyStaffInputEnvelope
+  connect?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+}
+
+export type RepriceRunUncheckedCreateNestedManyWithoutStaffInput = {
+  create?: Prisma.XOR<Prisma.RepriceRunCreateWithoutStaffInput, Prisma.RepriceRunUncheckedCreateWithoutStaffInput> | Prisma.RepriceRunCreateWithoutStaffInput[] | Prisma.RepriceRunUncheckedCreateWithoutStaffInput[]
+  connectOrCreate?: Prisma.RepriceRunCreateOrConnectWithoutStaffInput | Prisma.RepriceRunCreateOrConnectWithoutStaffInput[]
+  createMany?: Prisma.RepriceRunCreateManyStaffInputEnvelope
+  connect?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+}
+
+export type RepriceRunUpdateManyWithoutStaffNestedInput = {
+  create?: Prisma.XOR<Prisma.RepriceRunCreateWithoutStaffInput, Prisma.RepriceRunUncheckedCreateWithoutStaffInput> | Prisma.RepriceRunCreateWithoutStaffInput[] | Prisma.RepriceRunUncheckedCreateWithoutStaffInput[]
+  connectOrCreate?: Prisma.RepriceRunCreateOrConnectWithoutStaffInput | Prisma.RepriceRunCreateOrConnectWithoutStaffInput[]
+  upsert?: Prisma.RepriceRunUpsertWithWhereUniqueWithoutStaffInput | Prisma.RepriceRunUpsertWithWhereUniqueWithoutStaffInput[]
+  createMany?: Prisma.RepriceRunCreateManyStaffInputEnvelope
+  set?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+  disconnect?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+  delete?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+  connect?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+  update?: Prisma.RepriceRunUpdateWithWhereUniqueWithoutStaffInput | Prisma.RepriceRunUpdateWithWhereUniqueWithoutStaffInput[]
+  updateMany?: Prisma.RepriceRunUpdateManyWithWhereWithoutStaffInput | Prisma.RepriceRunUpdateManyWithWhereWithoutStaffInput[]
+  deleteMany?: Prisma.RepriceRunScalarWhereInput | Prisma.RepriceRunScalarWhereInput[]
+}
+
+export type RepriceRunUncheckedUpdateManyWithoutStaffNestedInput = {
+  create?: Prisma.XOR<Prisma.RepriceRunCreateWithoutStaffInput, Prisma.RepriceRunUncheckedCreateWithoutStaffInput> | Prisma.RepriceRunCreateWithoutStaffInput[] | Prisma.RepriceRunUncheckedCreateWithoutStaffInput[]
+  connectOrCreate?: Prisma.RepriceRunCreateOrConnectWithoutStaffInput | Prisma.RepriceRunCreateOrConnectWithoutStaffInput[]
+  upsert?: Prisma.RepriceRunUpsertWithWhereUniqueWithoutStaffInput | Prisma.RepriceRunUpsertWithWhereUniqueWithoutStaffInput[]
+  createMany?: Prisma.RepriceRunCreateManyStaffInputEnvelope
+  set?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+  disconnect?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+  delete?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+  connect?: Prisma.RepriceRunWhereUniqueInput | Prisma.RepriceRunWhereUniqueInput[]
+  update?: Prisma.RepriceRunUpdateWithWhereUniqueWithoutStaffInput | Prisma.RepriceRunUpdateWithWhereUniqueWithoutStaffInput[]
+  updateMany?: Prisma.RepriceRunUpdateManyWithWhereWithoutStaffInput | Prisma.RepriceRunUpdateManyWithWhereWithoutStaffInput[]
+  deleteMany?: Prisma.RepriceRunScalarWhereInput | Prisma.RepriceRunScalarWhereInput[]
+}
+
+export type RepriceRunCreateNestedOneWithoutChangesInput = {
+  create?: Prisma.XOR<Prisma.RepriceRunCreateWithoutChangesInput, Prisma.RepriceRunUncheckedCreateWithoutChangesInput>
+  connectOrCreate?: Prisma.RepriceRunCreateOrConnectWithoutChangesInput
+  connect?: Prisma.RepriceRunWhereUniqueInput
+}
+
+export type RepriceRunUpdateOneRequiredWithoutChangesNestedInput = {
+  create?: Prisma.XOR<Prisma.RepriceRunCreateWithoutChangesInput, Prisma.RepriceRunUncheckedCreateWithoutChangesInput>
+  connectOrCreate?: Prisma.RepriceRunCreateOrConnectWithoutChangesInput
+  upsert?: Prisma.RepriceRunUpsertWithoutChangesInput
+  connect?: Prisma.RepriceRunWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RepriceRunUpdateToOneWithWhereWithoutChangesInput, Prisma.RepriceRunUpdateWithoutChangesInput>, Prisma.RepriceRunUncheckedUpdateWithoutChangesInput>
+}
+
+export type RepriceRunCreateWithoutStaffInput = {
+  id?: string
+  scheduled?: boolean
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: number
+  createdAt?: Date | string
+  changes?: Prisma.PriceChangeCreateNestedManyWithoutRunInput
+}
+
+export type RepriceRunUncheckedCreateWithoutStaffInput = {
+  id?: string
+  scheduled?: boolean
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: number
+  createdAt?: Date | string
+  changes?: Prisma.PriceChangeUncheckedCreateNestedManyWithoutRunInput
+}
+
+export type RepriceRunCreateOrConnectWithoutStaffInput = {
+  where: Prisma.RepriceRunWhereUniqueInput
+  create: Prisma.XOR<Prisma.RepriceRunCreateWithoutStaffInput, Prisma.RepriceRunUncheckedCreateWithoutStaffInput>
+}
+
+export type RepriceRunCreateManyStaffInputEnvelope = {
+  data: Prisma.RepriceRunCreateManyStaffInput | Prisma.RepriceRunCreateManyStaffInput[]
+  skipDuplicates?: boolean
+}
+
+export type RepriceRunUpsertWithWhereUniqueWithoutStaffInput = {
+  where: Prisma.RepriceRunWhereUniqueInput
+  update: Prisma.XOR<Prisma.RepriceRunUpdateWithoutStaffInput, Prisma.RepriceRunUncheckedUpdateWithoutStaffInput>
+  create: Prisma.XOR<Prisma.RepriceRunCreateWithoutStaffInput, Prisma.RepriceRunUncheckedCreateWithoutStaffInput>
+}
+
+export type RepriceRunUpdateWithWhereUniqueWithoutStaffInput = {
+  where: Prisma.RepriceRunWhereUniqueInput
+  data: Prisma.XOR<Prisma.RepriceRunUpdateWithoutStaffInput, Prisma.RepriceRunUncheckedUpdateWithoutStaffInput>
+}
+
+export type RepriceRunUpdateManyWithWhereWithoutStaffInput = {
+  where: Prisma.RepriceRunScalarWhereInput
+  data: Prisma.XOR<Prisma.RepriceRunUpdateManyMutationInput, Prisma.RepriceRunUncheckedUpdateManyWithoutStaffInput>
+}
+
+export type RepriceRunScalarWhereInput = {
+  AND?: Prisma.RepriceRunScalarWhereInput | Prisma.RepriceRunScalarWhereInput[]
+  OR?: Prisma.RepriceRunScalarWhereInput[]
+  NOT?: Prisma.RepriceRunScalarWhereInput | Prisma.RepriceRunScalarWhereInput[]
+  id?: Prisma.StringFilter<"RepriceRun"> | string
+  staffId?: Prisma.StringNullableFilter<"RepriceRun"> | string | null
+  scheduled?: Prisma.BoolFilter<"RepriceRun"> | boolean
+  rates?: Prisma.JsonFilter<"RepriceRun">
+  productCount?: Prisma.IntFilter<"RepriceRun"> | number
+  createdAt?: Prisma.DateTimeFilter<"RepriceRun"> | Date | string
+}
+
+export type RepriceRunCreateWithoutChangesInput = {
+  id?: string
+  scheduled?: boolean
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: number
+  createdAt?: Date | string
+  staff?: Prisma.StaffCreateNestedOneWithoutRepriceRunsInput
+}
+
+export type RepriceRunUncheckedCreateWithoutChangesInput = {
+  id?: string
+  staffId?: string | null
+  scheduled?: boolean
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: number
+  createdAt?: Date | string
+}
+
+export type RepriceRunCreateOrConnectWithoutChangesInput = {
+  where: Prisma.RepriceRunWhereUniqueInput
+  create: Prisma.XOR<Prisma.RepriceRunCreateWithoutChangesInput, Prisma.RepriceRunUncheckedCreateWithoutChangesInput>
+}
+
+export type RepriceRunUpsertWithoutChangesInput = {
+  update: Prisma.XOR<Prisma.RepriceRunUpdateWithoutChangesInput, Prisma.RepriceRunUncheckedUpdateWithoutChangesInput>
+  create: Prisma.XOR<Prisma.RepriceRunCreateWithoutChangesInput, Prisma.RepriceRunUncheckedCreateWithoutChangesInput>
+  where?: Prisma.RepriceRunWhereInput
+}
+
+export type RepriceRunUpdateToOneWithWhereWithoutChangesInput = {
+  where?: Prisma.RepriceRunWhereInput
+  data: Prisma.XOR<Prisma.RepriceRunUpdateWithoutChangesInput, Prisma.RepriceRunUncheckedUpdateWithoutChangesInput>
+}
+
+export type RepriceRunUpdateWithoutChangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  staff?: Prisma.StaffUpdateOneWithoutRepriceRunsNestedInput
+}
+
+export type RepriceRunUncheckedUpdateWithoutChangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  staffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RepriceRunCreateManyStaffInput = {
+  id?: string
+  scheduled?: boolean
+  rates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: number
+  createdAt?: Date | string
+}
+
+export type RepriceRunUpdateWithoutStaffInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changes?: Prisma.PriceChangeUpdateManyWithoutRunNestedInput
+}
+
+export type RepriceRunUncheckedUpdateWithoutStaffInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changes?: Prisma.PriceChangeUncheckedUpdateManyWithoutRunNestedInput
+}
+
+export type RepriceRunUncheckedUpdateManyWithoutStaffInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  scheduled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  rates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  productCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type RepriceRunCountOutputType
+ */
+
+export type RepriceRunCountOutputType = {
+  changes: number
+}
+
+export type RepriceRunCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  changes?: boolean | RepriceRunCountOutputTypeCountChangesArgs
+}
+
+/**
+ * RepriceRunCountOutputType without action
+ */
+export type RepriceRunCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRunCountOutputType
+   */
+  select?: Prisma.RepriceRunCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * RepriceRunCountOutputType without action
+ */
+export type RepriceRunCountOutputTypeCountChangesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PriceChangeWhereInput
+}
+
+
+export type RepriceRunSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  staffId?: boolean
+  scheduled?: boolean
+  rates?: boolean
+  productCount?: boolean
+  createdAt?: boolean
+  staff?: boolean | Prisma.RepriceRun$staffArgs<ExtArgs>
+  changes?: boolean | Prisma.RepriceRun$changesArgs<ExtArgs>
+  _count?: boolean | Prisma.RepriceRunCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["repriceRun"]>
+
+export type RepriceRunSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  staffId?: boolean
+  scheduled?: boolean
+  rates?: boolean
+  productCount?: boolean
+  createdAt?: boolean
+  staff?: boolean | Prisma.RepriceRun$staffArgs<ExtArgs>
+}, ExtArgs["result"]["repriceRun"]>
+
+export type RepriceRunSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  staffId?: boolean
+  scheduled?: boolean
+  rates?: boolean
+  productCount?: boolean
+  createdAt?: boolean
+  staff?: boolean | Prisma.RepriceRun$staffArgs<ExtArgs>
+}, ExtArgs["result"]["repriceRun"]>
+
+export type RepriceRunSelectScalar = {
+  id?: boolean
+  staffId?: boolean
+  scheduled?: boolean
+  rates?: boolean
+  productCount?: boolean
+  createdAt?: boolean
+}
+
+export type RepriceRunOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "staffId" | "scheduled" | "rates" | "productCount" | "createdAt", ExtArgs["result"]["repriceRun"]>
+export type RepriceRunInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  staff?: boolean | Prisma.RepriceRun$staffArgs<ExtArgs>
+  changes?: boolean | Prisma.RepriceRun$changesArgs<ExtArgs>
+  _count?: boolean | Prisma.RepriceRunCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type RepriceRunIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  staff?: boolean | Prisma.RepriceRun$staffArgs<ExtArgs>
+}
+export type RepriceRunIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  staff?: boolean | Prisma.RepriceRun$staffArgs<ExtArgs>
+}
+
+export type $RepriceRunPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RepriceRun"
+  objects: {
+    staff: Prisma.$StaffPayload<ExtArgs> | null
+    changes: Prisma.$PriceChangePayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    staffId: string | null
+    scheduled: boolean
+    rates: runtime.JsonValue
+    productCount: number
+    createdAt: Date
+  }, ExtArgs["result"]["repriceRun"]>
+  composites: {}
+}
+
+export type RepriceRunGetPayload<S extends boolean | null | undefined | RepriceRunDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload, S>
+
+export type RepriceRunCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RepriceRunFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RepriceRunCountAggregateInputType | true
+  }
+
+export interface RepriceRunDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RepriceRun'], meta: { name: 'RepriceRun' } }
+  /**
+   * Find zero or one RepriceRun that matches the filter.
+   * @param {RepriceRunFindUniqueArgs} args - Arguments to find a RepriceRun
+   * @example
+   * // Get one RepriceRun
+   * const repriceRun = await prisma.repriceRun.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RepriceRunFindUniqueArgs>(args: Prisma.SelectSubset<T, RepriceRunFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RepriceRunClient<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RepriceRun that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RepriceRunFindUniqueOrThrowArgs} args - Arguments to find a RepriceRun
+   * @example
+   * // Get one RepriceRun
+   * const repriceRun = await prisma.repriceRun.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RepriceRunFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RepriceRunFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RepriceRunClient<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RepriceRun that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RepriceRunFindFirstArgs} args - Arguments to find a RepriceRun
+   * @example
+   * // Get one RepriceRun
+   * const repriceRun = await prisma.repriceRun.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RepriceRunFindFirstArgs>(args?: Prisma.SelectSubset<T, RepriceRunFindFirstArgs<ExtArgs>>): Prisma.Prisma__RepriceRunClient<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RepriceRun that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RepriceRunFindFirstOrThrowArgs} args - Arguments to find a RepriceRun
+   * @example
+   * // Get one RepriceRun
+   * const repriceRun = await prisma.repriceRun.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RepriceRunFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RepriceRunFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RepriceRunClient<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RepriceRuns that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RepriceRunFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RepriceRuns
+   * const repriceRuns = await prisma.repriceRun.findMany()
+   * 
+   * // Get first 10 RepriceRuns
+   * const repriceRuns = await prisma.repriceRun.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const repriceRunWithIdOnly = await prisma.repriceRun.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RepriceRunFindManyArgs>(args?: Prisma.SelectSubset<T, RepriceRunFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RepriceRun.
+   * @param {RepriceRunCreateArgs} args - Arguments to create a RepriceRun.
+   * @example
+   * // Create one RepriceRun
+   * const RepriceRun = await prisma.repriceRun.create({
+   *   data: {
+   *     // ... data to create a RepriceRun
+   *   }
+   * })
+   * 
+   */
+  create<T extends RepriceRunCreateArgs>(args: Prisma.SelectSubset<T, RepriceRunCreateArgs<ExtArgs>>): Prisma.Prisma__RepriceRunClient<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RepriceRuns.
+   * @param {RepriceRunCreateManyArgs} args - Arguments to create many RepriceRuns.
+   * @example
+   * // Create many RepriceRuns
+   * const repriceRun = await prisma.repriceRun.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RepriceRunCreateManyArgs>(args?: Prisma.SelectSubset<T, RepriceRunCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RepriceRuns and returns the data saved in the database.
+   * @param {RepriceRunCreateManyAndReturnArgs} args - Arguments to create many RepriceRuns.
+   * @example
+   * // Create many RepriceRuns
+   * const repriceRun = await prisma.repriceRun.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RepriceRuns and only return the `id`
+   * const repriceRunWithIdOnly = await prisma.repriceRun.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RepriceRunCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RepriceRunCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RepriceRun.
+   * @param {RepriceRunDeleteArgs} args - Arguments to delete one RepriceRun.
+   * @example
+   * // Delete one RepriceRun
+   * const RepriceRun = await prisma.repriceRun.delete({
+   *   where: {
+   *     // ... filter to delete one RepriceRun
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RepriceRunDeleteArgs>(args: Prisma.SelectSubset<T, RepriceRunDeleteArgs<ExtArgs>>): Prisma.Prisma__RepriceRunClient<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RepriceRun.
+   * @param {RepriceRunUpdateArgs} args - Arguments to update one RepriceRun.
+   * @example
+   * // Update one RepriceRun
+   * const repriceRun = await prisma.repriceRun.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RepriceRunUpdateArgs>(args: Prisma.SelectSubset<T, RepriceRunUpdateArgs<ExtArgs>>): Prisma.Prisma__RepriceRunClient<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RepriceRuns.
+   * @param {RepriceRunDeleteManyArgs} args - Arguments to filter RepriceRuns to delete.
+   * @example
+   * // Delete a few RepriceRuns
+   * const { count } = await prisma.repriceRun.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RepriceRunDeleteManyArgs>(args?: Prisma.SelectSubset<T, RepriceRunDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RepriceRuns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RepriceRunUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RepriceRuns
+   * const repriceRun = await prisma.repriceRun.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RepriceRunUpdateManyArgs>(args: Prisma.SelectSubset<T, RepriceRunUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RepriceRuns and returns the data updated in the database.
+   * @param {RepriceRunUpdateManyAndReturnArgs} args - Arguments to update many RepriceRuns.
+   * @example
+   * // Update many RepriceRuns
+   * const repriceRun = await prisma.repriceRun.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RepriceRuns and only return the `id`
+   * const repriceRunWithIdOnly = await prisma.repriceRun.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RepriceRunUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RepriceRunUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RepriceRun.
+   * @param {RepriceRunUpsertArgs} args - Arguments to update or create a RepriceRun.
+   * @example
+   * // Update or create a RepriceRun
+   * const repriceRun = await prisma.repriceRun.upsert({
+   *   create: {
+   *     // ... data to create a RepriceRun
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RepriceRun we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RepriceRunUpsertArgs>(args: Prisma.SelectSubset<T, RepriceRunUpsertArgs<ExtArgs>>): Prisma.Prisma__RepriceRunClient<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RepriceRuns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RepriceRunCountArgs} args - Arguments to filter RepriceRuns to count.
+   * @example
+   * // Count the number of RepriceRuns
+   * const count = await prisma.repriceRun.count({
+   *   where: {
+   *     // ... the filter for the RepriceRuns we want to count
+   *   }
+   * })
+  **/
+  count<T extends RepriceRunCountArgs>(
+    args?: Prisma.Subset<T, RepriceRunCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RepriceRunCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RepriceRun.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RepriceRunAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RepriceRunAggregateArgs>(args: Prisma.Subset<T, RepriceRunAggregateArgs>): Prisma.PrismaPromise<GetRepriceRunAggregateType<T>>
+
+  /**
+   * Group by RepriceRun.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RepriceRunGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RepriceRunGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RepriceRunGroupByArgs['orderBy'] }
+      : { orderBy?: RepriceRunGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RepriceRunGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRepriceRunGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RepriceRun model
+ */
+readonly fields: RepriceRunFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RepriceRun.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RepriceRunClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  staff<T extends Prisma.RepriceRun$staffArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RepriceRun$staffArgs<ExtArgs>>): Prisma.Prisma__StaffClient<runtime.Types.Result.GetResult<Prisma.$StaffPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  changes<T extends Prisma.RepriceRun$changesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RepriceRun$changesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PriceChangePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RepriceRun model
+ */
+export interface RepriceRunFieldRefs {
+  readonly id: Prisma.FieldRef<"RepriceRun", 'String'>
+  readonly staffId: Prisma.FieldRef<"RepriceRun", 'String'>
+  readonly scheduled: Prisma.FieldRef<"RepriceRun", 'Boolean'>
+  readonly rates: Prisma.FieldRef<"RepriceRun", 'Json'>
+  readonly productCount: Prisma.FieldRef<"RepriceRun", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"RepriceRun", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RepriceRun findUnique
+ */
+export type RepriceRunFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  /**
+   * Filter, which RepriceRun to fetch.
+   */
+  where: Prisma.RepriceRunWhereUniqueInput
+}
+
+/**
+ * RepriceRun findUniqueOrThrow
+ */
+export type RepriceRunFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  /**
+   * Filter, which RepriceRun to fetch.
+   */
+  where: Prisma.RepriceRunWhereUniqueInput
+}
+
+/**
+ * RepriceRun findFirst
+ */
+export type RepriceRunFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  /**
+   * Filter, which RepriceRun to fetch.
+   */
+  where?: Prisma.RepriceRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RepriceRuns to fetch.
+   */
+  orderBy?: Prisma.RepriceRunOrderByWithRelationInput | Prisma.RepriceRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RepriceRuns.
+   */
+  cursor?: Prisma.RepriceRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RepriceRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RepriceRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RepriceRuns.
+   */
+  distinct?: Prisma.RepriceRunScalarFieldEnum | Prisma.RepriceRunScalarFieldEnum[]
+}
+
+/**
+ * RepriceRun findFirstOrThrow
+ */
+export type RepriceRunFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  /**
+   * Filter, which RepriceRun to fetch.
+   */
+  where?: Prisma.RepriceRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RepriceRuns to fetch.
+   */
+  orderBy?: Prisma.RepriceRunOrderByWithRelationInput | Prisma.RepriceRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RepriceRuns.
+   */
+  cursor?: Prisma.RepriceRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RepriceRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RepriceRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RepriceRuns.
+   */
+  distinct?: Prisma.RepriceRunScalarFieldEnum | Prisma.RepriceRunScalarFieldEnum[]
+}
+
+/**
+ * RepriceRun findMany
+ */
+export type RepriceRunFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  /**
+   * Filter, which RepriceRuns to fetch.
+   */
+  where?: Prisma.RepriceRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RepriceRuns to fetch.
+   */
+  orderBy?: Prisma.RepriceRunOrderByWithRelationInput | Prisma.RepriceRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RepriceRuns.
+   */
+  cursor?: Prisma.RepriceRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RepriceRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RepriceRuns.
+   */
+  skip?: number
+  distinct?: Prisma.RepriceRunScalarFieldEnum | Prisma.RepriceRunScalarFieldEnum[]
+}
+
+/**
+ * RepriceRun create
+ */
+export type RepriceRunCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  /**
+   * The data needed to create a RepriceRun.
+   */
+  data: Prisma.XOR<Prisma.RepriceRunCreateInput, Prisma.RepriceRunUncheckedCreateInput>
+}
+
+/**
+ * RepriceRun createMany
+ */
+export type RepriceRunCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RepriceRuns.
+   */
+  data: Prisma.RepriceRunCreateManyInput | Prisma.RepriceRunCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RepriceRun createManyAndReturn
+ */
+export type RepriceRunCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * The data used to create many RepriceRuns.
+   */
+  data: Prisma.RepriceRunCreateManyInput | Prisma.RepriceRunCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RepriceRun update
+ */
+export type RepriceRunUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  /**
+   * The data needed to update a RepriceRun.
+   */
+  data: Prisma.XOR<Prisma.RepriceRunUpdateInput, Prisma.RepriceRunUncheckedUpdateInput>
+  /**
+   * Choose, which RepriceRun to update.
+   */
+  where: Prisma.RepriceRunWhereUniqueInput
+}
+
+/**
+ * RepriceRun updateMany
+ */
+export type RepriceRunUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RepriceRuns.
+   */
+  data: Prisma.XOR<Prisma.RepriceRunUpdateManyMutationInput, Prisma.RepriceRunUncheckedUpdateManyInput>
+  /**
+   * Filter which RepriceRuns to update
+   */
+  where?: Prisma.RepriceRunWhereInput
+  /**
+   * Limit how many RepriceRuns to update.
+   */
+  limit?: number
+}
+
+/**
+ * RepriceRun updateManyAndReturn
+ */
+export type RepriceRunUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * The data used to update RepriceRuns.
+   */
+  data: Prisma.XOR<Prisma.RepriceRunUpdateManyMutationInput, Prisma.RepriceRunUncheckedUpdateManyInput>
+  /**
+   * Filter which RepriceRuns to update
+   */
+  where?: Prisma.RepriceRunWhereInput
+  /**
+   * Limit how many RepriceRuns to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RepriceRun upsert
+ */
+export type RepriceRunUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  /**
+   * The filter to search for the RepriceRun to update in case it exists.
+   */
+  where: Prisma.RepriceRunWhereUniqueInput
+  /**
+   * In case the RepriceRun found by the `where` argument doesn't exist, create a new RepriceRun with this data.
+   */
+  create: Prisma.XOR<Prisma.RepriceRunCreateInput, Prisma.RepriceRunUncheckedCreateInput>
+  /**
+   * In case the RepriceRun was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RepriceRunUpdateInput, Prisma.RepriceRunUncheckedUpdateInput>
+}
+
+/**
+ * RepriceRun delete
+ */
+export type RepriceRunDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  /**
+   * Filter which RepriceRun to delete.
+   */
+  where: Prisma.RepriceRunWhereUniqueInput
+}
+
+/**
+ * RepriceRun deleteMany
+ */
+export type RepriceRunDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RepriceRuns to delete
+   */
+  where?: Prisma.RepriceRunWhereInput
+  /**
+   * Limit how many RepriceRuns to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RepriceRun.staff
+ */
+export type RepriceRun$staffArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Staff
+   */
+  select?: Prisma.StaffSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Staff
+   */
+  omit?: Prisma.StaffOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StaffInclude<ExtArgs> | null
+  where?: Prisma.StaffWhereInput
+}
+
+/**
+ * RepriceRun.changes
+ */
+export type RepriceRun$changesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PriceChange
+   */
+  select?: Prisma.PriceChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PriceChange
+   */
+  omit?: Prisma.PriceChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PriceChangeInclude<ExtArgs> | null
+  where?: Prisma.PriceChangeWhereInput
+  orderBy?: Prisma.PriceChangeOrderByWithRelationInput | Prisma.PriceChangeOrderByWithRelationInput[]
+  cursor?: Prisma.PriceChangeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PriceChangeScalarFieldEnum | Prisma.PriceChangeScalarFieldEnum[]
+}
+
+/**
+ * RepriceRun without action
+ */
+export type RepriceRunDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+}
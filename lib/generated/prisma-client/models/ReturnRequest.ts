@@ -0,0 +1,2810 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ReturnRequest` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ReturnRequest
+ * 
+ */
+export type ReturnRequestModel = runtime.Types.Result.DefaultSelection<Prisma.$ReturnRequestPayload>
+
+export type AggregateReturnRequest = {
+  _count: ReturnRequestCountAggregateOutputType | null
+  _min: ReturnRequestMinAggregateOutputType | null
+  _max: ReturnRequestMaxAggregateOutputType | null
+}
+
+export type ReturnRequestMinAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  customerId: string | null
+  status: $Enums.ReturnStatus | null
+  note: string | null
+  staffNote: string | null
+  reviewedById: string | null
+  reviewedAt: Date | null
+  labelOrderId: string | null
+  labelCourierName: string | null
+  labelTrackingUrl: string | null
+  labelTrackingNumber: string | null
+  receivedAt: Date | null
+  refundId: string | null
+  replacementOrderId: string | null
+  resolvedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ReturnRequestMaxAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  customerId: string | null
+  status: $Enums.ReturnStatus | null
+  note: string | null
+  staffNote: string | null
+  reviewedById: string | null
+  reviewedAt: Date | null
+  labelOrderId: string | null
+  labelCourierName: string | null
+  labelTrackingUrl: string | null
+  labelTrackingNumber: string | null
+  receivedAt: Date | null
+  refundId: string | null
+  replacementOrderId: string | null
+  resolvedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ReturnRequestCountAggregateOutputType = {
+  id: number
+  orderId: number
+  customerId: number
+  status: number
+  note: number
+  staffNote: number
+  reviewedById: number
+  reviewedAt: number
+  labelOrderId: number
+  labelCourierName: number
+  labelTrackingUrl: number
+  labelTrackingNumber: number
+  labelResponse: number
+  receivedAt: number
+  refundId: number
+  replacementOrderId: number
+  resolvedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ReturnRequestMinAggregateInputType = {
+  id?: true
+  orderId?: true
+  customerId?: true
+  status?: true
+  note?: true
+  staffNote?: true
+  reviewedById?: true
+  reviewedAt?: true
+  labelOrderId?: true
+  labelCourierName?: true
+  labelTrackingUrl?: true
+  labelTrackingNumber?: true
+  receivedAt?: true
+  refundId?: true
+  replacementOrderId?: true
+  resolvedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ReturnRequestMaxAggregateInputType = {
+  id?: true
+  orderId?: true
+  customerId?: true
+  status?: true
+  note?: true
+  staffNote?: true
+  reviewedById?: true
+  reviewedAt?: true
+  labelOrderId?: true
+  labelCourierName?: true
+  labelTrackingUrl?: true
+  labelTrackingNumber?: true
+  receivedAt?: true
+  refundId?: true
+  replacementOrderId?: true
+  resolvedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ReturnRequestCountAggregateInputType = {
+  id?: true
+  orderId?: true
+  customerId?: true
+  status?: true
+  note?: true
+  staffNote?: true
+  reviewedById?: true
+  reviewedAt?: true
+  labelOrderId?: true
+  labelCourierName?: true
+  labelTrackingUrl?: true
+  labelTrackingNumber?: true
+  labelResponse?: true
+  receivedAt?: true
+  refundId?: true
+  replacementOrderId?: true
+  resolvedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ReturnRequestAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReturnRequest to aggregate.
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequests to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ReturnRequests
+  **/
+  _count?: true | ReturnRequestCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ReturnRequestMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ReturnRequestMaxAggregateInputType
+}
+
+export type GetReturnRequestAggregateType<T extends ReturnRequestAggregateArgs> = {
+      [P in keyof T & keyof AggregateReturnRequest]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateReturnRequest[P]>
+    : Prisma.GetScalarType<T[P], AggregateReturnRequest[P]>
+}
+
+
+
+
+export type ReturnRequestGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestWhereInput
+  orderBy?: Prisma.ReturnRequestOrderByWithAggregationInput | Prisma.ReturnRequestOrderByWithAggregationInput[]
+  by: Prisma.ReturnRequestScalarFieldEnum[] | Prisma.ReturnRequestScalarFieldEnum
+  having?: Prisma.ReturnRequestScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ReturnRequestCountAggregateInputType | true
+  _min?: ReturnRequestMinAggregateInputType
+  _max?: ReturnRequestMaxAggregateInputType
+}
+
+export type ReturnRequestGroupByOutputType = {
+  id: string
+  orderId: string
+  customerId: string | null
+  status: $Enums.ReturnStatus
+  note: string | null
+  staffNote: string | null
+  reviewedById: string | null
+  reviewedAt: Date | null
+  labelOrderId: string | null
+  labelCourierName: string | null
+  labelTrackingUrl: string | null
+  labelTrackingNumber: string | null
+  labelResponse: runtime.JsonValue | null
+  receivedAt: Date | null
+  refundId: string | null
+  replacementOrderId: string | null
+  resolvedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ReturnRequestCountAggregateOutputType | null
+  _min: ReturnRequestMinAggregateOutputType | null
+  _max: ReturnRequestMaxAggregateOutputType | null
+}
+
+type GetReturnRequestGroupByPayload<T extends ReturnRequestGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ReturnRequestGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ReturnRequestGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ReturnRequestGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ReturnRequestGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ReturnRequestWhereInput = {
+  AND?: Prisma.ReturnRequestWhereInput | Prisma.ReturnRequestWhereInput[]
+  OR?: Prisma.ReturnRequestWhereInput[]
+  NOT?: Prisma.ReturnRequestWhereInput | Prisma.ReturnRequestWhereInput[]
+  id?: Prisma.StringFilter<"ReturnRequest"> | string
+  orderId?: Prisma.StringFilter<"ReturnRequest"> | string
+  customerId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  status?: Prisma.EnumReturnStatusFilter<"ReturnRequest"> | $Enums.ReturnStatus
+  note?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  staffNote?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  reviewedById?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  labelOrderId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelCourierName?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelTrackingUrl?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelTrackingNumber?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelResponse?: Prisma.JsonNullableFilter<"ReturnRequest">
+  receivedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  refundId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  replacementOrderId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  resolvedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+  reviewedBy?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+  refund?: Prisma.XOR<Prisma.OrderRefundNullableScalarRelationFilter, Prisma.OrderRefundWhereInput> | null
+  replacementOrder?: Prisma.XOR<Prisma.OrderNullableScalarRelationFilter, Prisma.OrderWhereInput> | null
+  items?: Prisma.ReturnRequestItemListRelationFilter
+}
+
+export type ReturnRequestOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  staffNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelOrderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelCourierName?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelTrackingUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelTrackingNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelResponse?: Prisma.SortOrderInput | Prisma.SortOrder
+  receivedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  refundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  replacementOrderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  order?: Prisma.OrderOrderByWithRelationInput
+  customer?: Prisma.CustomerOrderByWithRelationInput
+  reviewedBy?: Prisma.StaffOrderByWithRelationInput
+  refund?: Prisma.OrderRefundOrderByWithRelationInput
+  replacementOrder?: Prisma.OrderOrderByWithRelationInput
+  items?: Prisma.ReturnRequestItemOrderByRelationAggregateInput
+}
+
+export type ReturnRequestWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  refundId?: string
+  replacementOrderId?: string
+  AND?: Prisma.ReturnRequestWhereInput | Prisma.ReturnRequestWhereInput[]
+  OR?: Prisma.ReturnRequestWhereInput[]
+  NOT?: Prisma.ReturnRequestWhereInput | Prisma.ReturnRequestWhereInput[]
+  orderId?: Prisma.StringFilter<"ReturnRequest"> | string
+  customerId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  status?: Prisma.EnumReturnStatusFilter<"ReturnRequest"> | $Enums.ReturnStatus
+  note?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  staffNote?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  reviewedById?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  labelOrderId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelCourierName?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelTrackingUrl?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelTrackingNumber?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelResponse?: Prisma.JsonNullableFilter<"ReturnRequest">
+  receivedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  resolvedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+  reviewedBy?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+  refund?: Prisma.XOR<Prisma.OrderRefundNullableScalarRelationFilter, Prisma.OrderRefundWhereInput> | null
+  replacementOrder?: Prisma.XOR<Prisma.OrderNullableScalarRelationFilter, Prisma.OrderWhereInput> | null
+  items?: Prisma.ReturnRequestItemListRelationFilter
+}, "id" | "refundId" | "replacementOrderId">
+
+export type ReturnRequestOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  staffNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelOrderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelCourierName?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelTrackingUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelTrackingNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  labelResponse?: Prisma.SortOrderInput | Prisma.SortOrder
+  receivedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  refundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  replacementOrderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ReturnRequestCountOrderByAggregateInput
+  _max?: Prisma.ReturnRequestMaxOrderByAggregateInput
+  _min?: Prisma.ReturnRequestMinOrderByAggregateInput
+}
+
+export type ReturnRequestScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ReturnRequestScalarWhereWithAggregatesInput | Prisma.ReturnRequestScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ReturnRequestScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ReturnRequestScalarWhereWithAggregatesInput | Prisma.ReturnRequestScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ReturnRequest"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"ReturnRequest"> | string
+  customerId?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  status?: Prisma.EnumReturnStatusWithAggregatesFilter<"ReturnRequest"> | $Enums.ReturnStatus
+  note?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  staffNote?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  reviewedById?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ReturnRequest"> | Date | string | null
+  labelOrderId?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  labelCourierName?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  labelTrackingUrl?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  labelTrackingNumber?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  labelResponse?: Prisma.JsonNullableWithAggregatesFilter<"ReturnRequest">
+  receivedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ReturnRequest"> | Date | string | null
+  refundId?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  replacementOrderId?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  resolvedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ReturnRequest"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ReturnRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ReturnRequest"> | Date | string
+}
+
+export type ReturnRequestCreateInput = {
+  id?: string
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutReturnRequestsInput
+  reviewedBy?: Prisma.StaffCreateNestedOneWithoutReviewedReturnsInput
+  refund?: Prisma.OrderRefundCreateNestedOneWithoutReturnRequestInput
+  replacementOrder?: Prisma.OrderCreateNestedOneWithoutReplacementForInput
+  items?: Prisma.ReturnRequestItemCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateInput = {
+  id?: string
+  orderId: string
+  customerId?: string | null
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutReturnRequestsNestedInput
+  reviewedBy?: Prisma.StaffUpdateOneWithoutReviewedReturnsNestedInput
+  refund?: Prisma.OrderRefundUpdateOneWithoutReturnRequestNestedInput
+  replacementOrder?: Prisma.OrderUpdateOneWithoutReplacementForNestedInput
+  items?: Prisma.ReturnRequestItemUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestCreateManyInput = {
+  id?: string
+  orderId: string
+  customerId?: string | null
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReturnRequestUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReturnRequestUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReturnRequestListRelationFilter = {
+  every?: Prisma.ReturnRequestWhereInput
+  some?: Prisma.ReturnRequestWhereInput
+  none?: Prisma.ReturnRequestWhereInput
+}
+
+export type ReturnRequestOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ReturnRequestNullableScalarRelationFilter = {
+  is?: Prisma.ReturnRequestWhereInput | null
+  isNot?: Prisma.ReturnRequestWhereInput | null
+}
+
+export type ReturnRequestCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  staffNote?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  labelOrderId?: Prisma.SortOrder
+  labelCourierName?: Prisma.SortOrder
+  labelTrackingUrl?: Prisma.SortOrder
+  labelTrackingNumber?: Prisma.SortOrder
+  labelResponse?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  replacementOrderId?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReturnRequestMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  staffNote?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  labelOrderId?: Prisma.SortOrder
+  labelCourierName?: Prisma.SortOrder
+  labelTrackingUrl?: Prisma.SortOrder
+  labelTrackingNumber?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  replacementOrderId?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReturnRequestMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  staffNote?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  labelOrderId?: Prisma.SortOrder
+  labelCourierName?: Prisma.SortOrder
+  labelTrackingUrl?: Prisma.SortOrder
+  labelTrackingNumber?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  replacementOrderId?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReturnRequestScalarRelationFilter = {
+  is?: Prisma.ReturnRequestWhereInput
+  isNot?: Prisma.ReturnRequestWhereInput
+}
+
+export type ReturnRequestCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutCustomerInput, Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput> | Prisma.ReturnRequestCreateWithoutCustomerInput[] | Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutCustomerInput | Prisma.ReturnRequestCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.ReturnRequestCreateManyCustomerInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUncheckedCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutCustomerInput, Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput> | Prisma.ReturnRequestCreateWithoutCustomerInput[] | Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutCustomerInput | Prisma.ReturnRequestCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.ReturnRequestCreateManyCustomerInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutCustomerInput, Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput> | Prisma.ReturnRequestCreateWithoutCustomerInput[] | Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutCustomerInput | Prisma.ReturnRequestCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutCustomerInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.ReturnRequestCreateManyCustomerInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutCustomerInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutCustomerInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutCustomerInput, Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput> | Prisma.ReturnRequestCreateWithoutCustomerInput[] | Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutCustomerInput | Prisma.ReturnRequestCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutCustomerInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.ReturnRequestCreateManyCustomerInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutCustomerInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutCustomerInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestCreateNestedManyWithoutReviewedByInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReviewedByInput, Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput> | Prisma.ReturnRequestCreateWithoutReviewedByInput[] | Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutReviewedByInput | Prisma.ReturnRequestCreateOrConnectWithoutReviewedByInput[]
+  createMany?: Prisma.ReturnRequestCreateManyReviewedByInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUncheckedCreateNestedManyWithoutReviewedByInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReviewedByInput, Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput> | Prisma.ReturnRequestCreateWithoutReviewedByInput[] | Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutReviewedByInput | Prisma.ReturnRequestCreateOrConnectWithoutReviewedByInput[]
+  createMany?: Prisma.ReturnRequestCreateManyReviewedByInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUpdateManyWithoutReviewedByNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReviewedByInput, Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput> | Prisma.ReturnRequestCreateWithoutReviewedByInput[] | Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutReviewedByInput | Prisma.ReturnRequestCreateOrConnectWithoutReviewedByInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutReviewedByInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutReviewedByInput[]
+  createMany?: Prisma.ReturnRequestCreateManyReviewedByInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutReviewedByInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutReviewedByInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutReviewedByInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutReviewedByInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutReviewedByNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReviewedByInput, Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput> | Prisma.ReturnRequestCreateWithoutReviewedByInput[] | Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutReviewedByInput | Prisma.ReturnRequestCreateOrConnectWithoutReviewedByInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutReviewedByInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutReviewedByInput[]
+  createMany?: Prisma.ReturnRequestCreateManyReviewedByInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutReviewedByInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutReviewedByInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutReviewedByInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutReviewedByInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput> | Prisma.ReturnRequestCreateWithoutOrderInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestCreateNestedOneWithoutReplacementOrderInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReplacementOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutReplacementOrderInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutReplacementOrderInput
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+}
+
+export type ReturnRequestUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput> | Prisma.ReturnRequestCreateWithoutOrderInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUncheckedCreateNestedOneWithoutReplacementOrderInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReplacementOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutReplacementOrderInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutReplacementOrderInput
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+}
+
+export type ReturnRequestUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput> | Prisma.ReturnRequestCreateWithoutOrderInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestUpdateOneWithoutReplacementOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReplacementOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutReplacementOrderInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutReplacementOrderInput
+  upsert?: Prisma.ReturnRequestUpsertWithoutReplacementOrderInput
+  disconnect?: Prisma.ReturnRequestWhereInput | boolean
+  delete?: Prisma.ReturnRequestWhereInput | boolean
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReturnRequestUpdateToOneWithWhereWithoutReplacementOrderInput, Prisma.ReturnRequestUpdateWithoutReplacementOrderInput>, Prisma.ReturnRequestUncheckedUpdateWithoutReplacementOrderInput>
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput> | Prisma.ReturnRequestCreateWithoutOrderInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestUncheckedUpdateOneWithoutReplacementOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReplacementOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutReplacementOrderInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutReplacementOrderInput
+  upsert?: Prisma.ReturnRequestUpsertWithoutReplacementOrderInput
+  disconnect?: Prisma.ReturnRequestWhereInput | boolean
+  delete?: Prisma.ReturnRequestWhereInput | boolean
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReturnRequestUpdateToOneWithWhereWithoutReplacementOrderInput, Prisma.ReturnRequestUpdateWithoutReplacementOrderInput>, Prisma.ReturnRequestUncheckedUpdateWithoutReplacementOrderInput>
+}
+
+export type ReturnRequestCreateNestedOneWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutRefundInput
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+}
+
+export type ReturnRequestUncheckedCreateNestedOneWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutRefundInput
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+}
+
+export type ReturnRequestUpdateOneWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutRefundInput
+  upsert?: Prisma.ReturnRequestUpsertWithoutRefundInput
+  disconnect?: Prisma.ReturnRequestWhereInput | boolean
+  delete?: Prisma.ReturnRequestWhereInput | boolean
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReturnRequestUpdateToOneWithWhereWithoutRefundInput, Prisma.ReturnRequestUpdateWithoutRefundInput>, Prisma.ReturnRequestUncheckedUpdateWithoutRefundInput>
+}
+
+export type ReturnRequestUncheckedUpdateOneWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutRefundInput
+  upsert?: Prisma.ReturnRequestUpsertWithoutRefundInput
+  disconnect?: Prisma.ReturnRequestWhereInput | boolean
+  delete?: Prisma.ReturnRequestWhereInput | boolean
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReturnRequestUpdateToOneWithWhereWithoutRefundInput, Prisma.ReturnRequestUpdateWithoutRefundInput>, Prisma.ReturnRequestUncheckedUpdateWithoutRefundInput>
+}
+
+export type EnumReturnStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ReturnStatus
+}
+
+export type ReturnRequestCreateNestedOneWithoutItemsInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutItemsInput, Prisma.ReturnRequestUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutItemsInput
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+}
+
+export type ReturnRequestUpdateOneRequiredWithoutItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutItemsInput, Prisma.ReturnRequestUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutItemsInput
+  upsert?: Prisma.ReturnRequestUpsertWithoutItemsInput
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReturnRequestUpdateToOneWithWhereWithoutItemsInput, Prisma.ReturnRequestUpdateWithoutItemsInput>, Prisma.ReturnRequestUncheckedUpdateWithoutItemsInput>
+}
+
+export type ReturnRequestCreateWithoutCustomerInput = {
+  id?: string
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  reviewedBy?: Prisma.StaffCreateNestedOneWithoutReviewedReturnsInput
+  refund?: Prisma.OrderRefundCreateNestedOneWithoutReturnRequestInput
+  replacementOrder?: Prisma.OrderCreateNestedOneWithoutReplacementForInput
+  items?: Prisma.ReturnRequestItemCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutCustomerInput = {
+  id?: string
+  orderId: string
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutCustomerInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutCustomerInput, Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput>
+}
+
+export type ReturnRequestCreateManyCustomerInputEnvelope = {
+  data: Prisma.ReturnRequestCreateManyCustomerInput | Prisma.ReturnRequestCreateManyCustomerInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReturnRequestUpsertWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutCustomerInput, Prisma.ReturnRequestUncheckedUpdateWithoutCustomerInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutCustomerInput, Prisma.ReturnRequestUncheckedCreateWithoutCustomerInput>
+}
+
+export type ReturnRequestUpdateWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutCustomerInput, Prisma.ReturnRequestUncheckedUpdateWithoutCustomerInput>
+}
+
+export type ReturnRequestUpdateManyWithWhereWithoutCustomerInput = {
+  where: Prisma.ReturnRequestScalarWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyWithoutCustomerInput>
+}
+
+export type ReturnRequestScalarWhereInput = {
+  AND?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+  OR?: Prisma.ReturnRequestScalarWhereInput[]
+  NOT?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+  id?: Prisma.StringFilter<"ReturnRequest"> | string
+  orderId?: Prisma.StringFilter<"ReturnRequest"> | string
+  customerId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  status?: Prisma.EnumReturnStatusFilter<"ReturnRequest"> | $Enums.ReturnStatus
+  note?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  staffNote?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  reviewedById?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  labelOrderId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelCourierName?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelTrackingUrl?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelTrackingNumber?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  labelResponse?: Prisma.JsonNullableFilter<"ReturnRequest">
+  receivedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  refundId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  replacementOrderId?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  resolvedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+}
+
+export type ReturnRequestCreateWithoutReviewedByInput = {
+  id?: string
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutReturnRequestsInput
+  refund?: Prisma.OrderRefundCreateNestedOneWithoutReturnRequestInput
+  replacementOrder?: Prisma.OrderCreateNestedOneWithoutReplacementForInput
+  items?: Prisma.ReturnRequestItemCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutReviewedByInput = {
+  id?: string
+  orderId: string
+  customerId?: string | null
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutReviewedByInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReviewedByInput, Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput>
+}
+
+export type ReturnRequestCreateManyReviewedByInputEnvelope = {
+  data: Prisma.ReturnRequestCreateManyReviewedByInput | Prisma.ReturnRequestCreateManyReviewedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReturnRequestUpsertWithWhereUniqueWithoutReviewedByInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutReviewedByInput, Prisma.ReturnRequestUncheckedUpdateWithoutReviewedByInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReviewedByInput, Prisma.ReturnRequestUncheckedCreateWithoutReviewedByInput>
+}
+
+export type ReturnRequestUpdateWithWhereUniqueWithoutReviewedByInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutReviewedByInput, Prisma.ReturnRequestUncheckedUpdateWithoutReviewedByInput>
+}
+
+export type ReturnRequestUpdateManyWithWhereWithoutReviewedByInput = {
+  where: Prisma.ReturnRequestScalarWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyWithoutReviewedByInput>
+}
+
+export type ReturnRequestCreateWithoutOrderInput = {
+  id?: string
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer?: Prisma.CustomerCreateNestedOneWithoutReturnRequestsInput
+  reviewedBy?: Prisma.StaffCreateNestedOneWithoutReviewedReturnsInput
+  refund?: Prisma.OrderRefundCreateNestedOneWithoutReturnRequestInput
+  replacementOrder?: Prisma.OrderCreateNestedOneWithoutReplacementForInput
+  items?: Prisma.ReturnRequestItemCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutOrderInput = {
+  id?: string
+  customerId?: string | null
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutOrderInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput>
+}
+
+export type ReturnRequestCreateManyOrderInputEnvelope = {
+  data: Prisma.ReturnRequestCreateManyOrderInput | Prisma.ReturnRequestCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReturnRequestCreateWithoutReplacementOrderInput = {
+  id?: string
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutReturnRequestsInput
+  reviewedBy?: Prisma.StaffCreateNestedOneWithoutReviewedReturnsInput
+  refund?: Prisma.OrderRefundCreateNestedOneWithoutReturnRequestInput
+  items?: Prisma.ReturnRequestItemCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutReplacementOrderInput = {
+  id?: string
+  orderId: string
+  customerId?: string | null
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutReplacementOrderInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReplacementOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutReplacementOrderInput>
+}
+
+export type ReturnRequestUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutOrderInput, Prisma.ReturnRequestUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput>
+}
+
+export type ReturnRequestUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutOrderInput, Prisma.ReturnRequestUncheckedUpdateWithoutOrderInput>
+}
+
+export type ReturnRequestUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.ReturnRequestScalarWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type ReturnRequestUpsertWithoutReplacementOrderInput = {
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutReplacementOrderInput, Prisma.ReturnRequestUncheckedUpdateWithoutReplacementOrderInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutReplacementOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutReplacementOrderInput>
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+export type ReturnRequestUpdateToOneWithWhereWithoutReplacementOrderInput = {
+  where?: Prisma.ReturnRequestWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutReplacementOrderInput, Prisma.ReturnRequestUncheckedUpdateWithoutReplacementOrderInput>
+}
+
+export type ReturnRequestUpdateWithoutReplacementOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutReturnRequestsNestedInput
+  reviewedBy?: Prisma.StaffUpdateOneWithoutReviewedReturnsNestedInput
+  refund?: Prisma.OrderRefundUpdateOneWithoutReturnRequestNestedInput
+  items?: Prisma.ReturnRequestItemUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutReplacementOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestCreateWithoutRefundInput = {
+  id?: string
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutReturnRequestsInput
+  reviewedBy?: Prisma.StaffCreateNestedOneWithoutReviewedReturnsInput
+  replacementOrder?: Prisma.OrderCreateNestedOneWithoutReplacementForInput
+  items?: Prisma.ReturnRequestItemCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutRefundInput = {
+  id?: string
+  orderId: string
+  customerId?: string | null
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutRefundInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+}
+
+export type ReturnRequestUpsertWithoutRefundInput = {
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutRefundInput, Prisma.ReturnRequestUncheckedUpdateWithoutRefundInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+export type ReturnRequestUpdateToOneWithWhereWithoutRefundInput = {
+  where?: Prisma.ReturnRequestWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutRefundInput, Prisma.ReturnRequestUncheckedUpdateWithoutRefundInput>
+}
+
+export type ReturnRequestUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutReturnRequestsNestedInput
+  reviewedBy?: Prisma.StaffUpdateOneWithoutReviewedReturnsNestedInput
+  replacementOrder?: Prisma.OrderUpdateOneWithoutReplacementForNestedInput
+  items?: Prisma.ReturnRequestItemUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestCreateWithoutItemsInput = {
+  id?: string
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutReturnRequestsInput
+  reviewedBy?: Prisma.StaffCreateNestedOneWithoutReviewedReturnsInput
+  refund?: Prisma.OrderRefundCreateNestedOneWithoutReturnRequestInput
+  replacementOrder?: Prisma.OrderCreateNestedOneWithoutReplacementForInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutItemsInput = {
+  id?: string
+  orderId: string
+  customerId?: string | null
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReturnRequestCreateOrConnectWithoutItemsInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutItemsInput, Prisma.ReturnRequestUncheckedCreateWithoutItemsInput>
+}
+
+export type ReturnRequestUpsertWithoutItemsInput = {
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutItemsInput, Prisma.ReturnRequestUncheckedUpdateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutItemsInput, Prisma.ReturnRequestUncheckedCreateWithoutItemsInput>
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+export type ReturnRequestUpdateToOneWithWhereWithoutItemsInput = {
+  where?: Prisma.ReturnRequestWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutItemsInput, Prisma.ReturnRequestUncheckedUpdateWithoutItemsInput>
+}
+
+export type ReturnRequestUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutReturnRequestsNestedInput
+  reviewedBy?: Prisma.StaffUpdateOneWithoutReviewedReturnsNestedInput
+  refund?: Prisma.OrderRefundUpdateOneWithoutReturnRequestNestedInput
+  replacementOrder?: Prisma.OrderUpdateOneWithoutReplacementForNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReturnRequestCreateManyCustomerInput = {
+  id?: string
+  orderId: string
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReturnRequestUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  reviewedBy?: Prisma.StaffUpdateOneWithoutReviewedReturnsNestedInput
+  refund?: Prisma.OrderRefundUpdateOneWithoutReturnRequestNestedInput
+  replacementOrder?: Prisma.OrderUpdateOneWithoutReplacementForNestedInput
+  items?: Prisma.ReturnRequestItemUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReturnRequestCreateManyReviewedByInput = {
+  id?: string
+  orderId: string
+  customerId?: string | null
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReturnRequestUpdateWithoutReviewedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutReturnRequestsNestedInput
+  refund?: Prisma.OrderRefundUpdateOneWithoutReturnRequestNestedInput
+  replacementOrder?: Prisma.OrderUpdateOneWithoutReplacementForNestedInput
+  items?: Prisma.ReturnRequestItemUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutReviewedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutReviewedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReturnRequestCreateManyOrderInput = {
+  id?: string
+  customerId?: string | null
+  status?: $Enums.ReturnStatus
+  note?: string | null
+  staffNote?: string | null
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  labelOrderId?: string | null
+  labelCourierName?: string | null
+  labelTrackingUrl?: string | null
+  labelTrackingNumber?: string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string | null
+  refundId?: string | null
+  replacementOrderId?: string | null
+  resolvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReturnRequestUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.CustomerUpdateOneWithoutReturnRequestsNestedInput
+  reviewedBy?: Prisma.StaffUpdateOneWithoutReviewedReturnsNestedInput
+  refund?: Prisma.OrderRefundUpdateOneWithoutReturnRequestNestedInput
+  replacementOrder?: Prisma.OrderUpdateOneWithoutReplacementForNestedInput
+  items?: Prisma.ReturnRequestItemUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  staffNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  labelOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelCourierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelTrackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  labelResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  replacementOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ReturnRequestCountOutputType
+ */
+
+export type ReturnRequestCountOutputType = {
+  items: number
+}
+
+export type ReturnRequestCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | ReturnRequestCountOutputTypeCountItemsArgs
+}
+
+/**
+ * ReturnRequestCountOutputType without action
+ */
+export type ReturnRequestCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestCountOutputType
+   */
+  select?: Prisma.ReturnRequestCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ReturnRequestCountOutputType without action
+ */
+export type ReturnRequestCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestItemWhereInput
+}
+
+
+export type ReturnRequestSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  customerId?: boolean
+  status?: boolean
+  note?: boolean
+  staffNote?: boolean
+  reviewedById?: boolean
+  reviewedAt?: boolean
+  labelOrderId?: boolean
+  labelCourierName?: boolean
+  labelTrackingUrl?: boolean
+  labelTrackingNumber?: boolean
+  labelResponse?: boolean
+  receivedAt?: boolean
+  refundId?: boolean
+  replacementOrderId?: boolean
+  resolvedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.ReturnRequest$customerArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.ReturnRequest$reviewedByArgs<ExtArgs>
+  refund?: boolean | Prisma.ReturnRequest$refundArgs<ExtArgs>
+  replacementOrder?: boolean | Prisma.ReturnRequest$replacementOrderArgs<ExtArgs>
+  items?: boolean | Prisma.ReturnRequest$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.ReturnRequestCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["returnRequest"]>
+
+export type ReturnRequestSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  customerId?: boolean
+  status?: boolean
+  note?: boolean
+  staffNote?: boolean
+  reviewedById?: boolean
+  reviewedAt?: boolean
+  labelOrderId?: boolean
+  labelCourierName?: boolean
+  labelTrackingUrl?: boolean
+  labelTrackingNumber?: boolean
+  labelResponse?: boolean
+  receivedAt?: boolean
+  refundId?: boolean
+  replacementOrderId?: boolean
+  resolvedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.ReturnRequest$customerArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.ReturnRequest$reviewedByArgs<ExtArgs>
+  refund?: boolean | Prisma.ReturnRequest$refundArgs<ExtArgs>
+  replacementOrder?: boolean | Prisma.ReturnRequest$replacementOrderArgs<ExtArgs>
+}, ExtArgs["result"]["returnRequest"]>
+
+export type ReturnRequestSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  customerId?: boolean
+  status?: boolean
+  note?: boolean
+  staffNote?: boolean
+  reviewedById?: boolean
+  reviewedAt?: boolean
+  labelOrderId?: boolean
+  labelCourierName?: boolean
+  labelTrackingUrl?: boolean
+  labelTrackingNumber?: boolean
+  labelResponse?: boolean
+  receivedAt?: boolean
+  refundId?: boolean
+  replacementOrderId?: boolean
+  resolvedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.ReturnRequest$customerArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.ReturnRequest$reviewedByArgs<ExtArgs>
+  refund?: boolean | Prisma.ReturnRequest$refundArgs<ExtArgs>
+  replacementOrder?: boolean | Prisma.ReturnRequest$replacementOrderArgs<ExtArgs>
+}, ExtArgs["result"]["returnRequest"]>
+
+export type ReturnRequestSelectScalar = {
+  id?: boolean
+  orderId?: boolean
+  customerId?: boolean
+  status?: boolean
+  note?: boolean
+  staffNote?: boolean
+  reviewedById?: boolean
+  reviewedAt?: boolean
+  labelOrderId?: boolean
+  labelCourierName?: boolean
+  labelTrackingUrl?: boolean
+  labelTrackingNumber?: boolean
+  labelResponse?: boolean
+  receivedAt?: boolean
+  refundId?: boolean
+  replacementOrderId?: boolean
+  resolvedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ReturnRequestOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "customerId" | "status" | "note" | "staffNote" | "reviewedById" | "reviewedAt" | "labelOrderId" | "labelCourierName" | "labelTrackingUrl" | "labelTrackingNumber" | "labelResponse" | "receivedAt" | "refundId" | "replacementOrderId" | "resolvedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["returnRequest"]>
+export type ReturnRequestInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.ReturnRequest$customerArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.ReturnRequest$reviewedByArgs<ExtArgs>
+  refund?: boolean | Prisma.ReturnRequest$refundArgs<ExtArgs>
+  replacementOrder?: boolean | Prisma.ReturnRequest$replacementOrderArgs<ExtArgs>
+  items?: boolean | Prisma.ReturnRequest$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.ReturnRequestCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ReturnRequestIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.ReturnRequest$customerArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.ReturnRequest$reviewedByArgs<ExtArgs>
+  refund?: boolean | Prisma.ReturnRequest$refundArgs<ExtArgs>
+  replacementOrder?: boolean | Prisma.ReturnRequest$replacementOrderArgs<ExtArgs>
+}
+export type ReturnRequestIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.ReturnRequest$customerArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.ReturnRequest$reviewedByArgs<ExtArgs>
+  refund?: boolean | Prisma.ReturnRequest$refundArgs<ExtArgs>
+  replacementOrder?: boolean | Prisma.ReturnRequest$replacementOrderArgs<ExtArgs>
+}
+
+export type $ReturnRequestPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ReturnRequest"
+  objects: {
+    order: Prisma.$OrderPayload<ExtArgs>
+    customer: Prisma.$CustomerPayload<ExtArgs> | null
+    reviewedBy: Prisma.$StaffPayload<ExtArgs> | null
+    refund: Prisma.$OrderRefundPayload<ExtArgs> | null
+    replacementOrder: Prisma.$OrderPayload<ExtArgs> | null
+    items: Prisma.$ReturnRequestItemPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    orderId: string
+    customerId: string | null
+    status: $Enums.ReturnStatus
+    note: string | null
+    staffNote: string | null
+    reviewedById: string | null
+    reviewedAt: Date | null
+    labelOrderId: string | null
+    labelCourierName: string | null
+    labelTrackingUrl: string | null
+    labelTrackingNumber: string | null
+    labelResponse: runtime.JsonValue | null
+    receivedAt: Date | null
+    refundId: string | null
+    replacementOrderId: string | null
+    resolvedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["returnRequest"]>
+  composites: {}
+}
+
+export type ReturnRequestGetPayload<S extends boolean | null | undefined | ReturnRequestDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload, S>
+
+export type ReturnRequestCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ReturnRequestFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ReturnRequestCountAggregateInputType | true
+  }
+
+export interface ReturnRequestDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ReturnRequest'], meta: { name: 'ReturnRequest' } }
+  /**
+   * Find zero or one ReturnRequest that matches the filter.
+   * @param {ReturnRequestFindUniqueArgs} args - Arguments to find a ReturnRequest
+   * @example
+   * // Get one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ReturnRequestFindUniqueArgs>(args: Prisma.SelectSubset<T, ReturnRequestFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ReturnRequest that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ReturnRequestFindUniqueOrThrowArgs} args - Arguments to find a ReturnRequest
+   * @example
+   * // Get one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ReturnRequestFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ReturnRequestFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReturnRequest that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestFindFirstArgs} args - Arguments to find a ReturnRequest
+   * @example
+   * // Get one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ReturnRequestFindFirstArgs>(args?: Prisma.SelectSubset<T, ReturnRequestFindFirstArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReturnRequest that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestFindFirstOrThrowArgs} args - Arguments to find a ReturnRequest
+   * @example
+   * // Get one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ReturnRequestFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ReturnRequestFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ReturnRequests that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ReturnRequests
+   * const returnRequests = await prisma.returnRequest.findMany()
+   * 
+   * // Get first 10 ReturnRequests
+   * const returnRequests = await prisma.returnRequest.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const returnRequestWithIdOnly = await prisma.returnRequest.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ReturnRequestFindManyArgs>(args?: Prisma.SelectSubset<T, ReturnRequestFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ReturnRequest.
+   * @param {ReturnRequestCreateArgs} args - Arguments to create a ReturnRequest.
+   * @example
+   * // Create one ReturnRequest
+   * const ReturnRequest = await prisma.returnRequest.create({
+   *   data: {
+   *     // ... data to create a ReturnRequest
+   *   }
+   * })
+   * 
+   */
+  create<T extends ReturnRequestCreateArgs>(args: Prisma.SelectSubset<T, ReturnRequestCreateArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ReturnRequests.
+   * @param {ReturnRequestCreateManyArgs} args - Arguments to create many ReturnRequests.
+   * @example
+   * // Create many ReturnRequests
+   * const returnRequest = await prisma.returnRequest.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ReturnRequestCreateManyArgs>(args?: Prisma.SelectSubset<T, ReturnRequestCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ReturnRequests and returns the data saved in the database.
+   * @param {ReturnRequestCreateManyAndReturnArgs} args - Arguments to create many ReturnRequests.
+   * @example
+   * // Create many ReturnRequests
+   * const returnRequest = await prisma.returnRequest.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ReturnRequests and only return the `id`
+   * const returnRequestWithIdOnly = await prisma.returnRequest.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ReturnRequestCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ReturnRequestCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ReturnRequest.
+   * @param {ReturnRequestDeleteArgs} args - Arguments to delete one ReturnRequest.
+   * @example
+   * // Delete one ReturnRequest
+   * const ReturnRequest = await prisma.returnRequest.delete({
+   *   where: {
+   *     // ... filter to delete one ReturnRequest
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ReturnRequestDeleteArgs>(args: Prisma.SelectSubset<T, ReturnRequestDeleteArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ReturnRequest.
+   * @param {ReturnRequestUpdateArgs} args - Arguments to update one ReturnRequest.
+   * @example
+   * // Update one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ReturnRequestUpdateArgs>(args: Prisma.SelectSubset<T, ReturnRequestUpdateArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ReturnRequests.
+   * @param {ReturnRequestDeleteManyArgs} args - Arguments to filter ReturnRequests to delete.
+   * @example
+   * // Delete a few ReturnRequests
+   * const { count } = await prisma.returnRequest.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ReturnRequestDeleteManyArgs>(args?: Prisma.SelectSubset<T, ReturnRequestDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReturnRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ReturnRequests
+   * const returnRequest = await prisma.returnRequest.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ReturnRequestUpdateManyArgs>(args: Prisma.SelectSubset<T, ReturnRequestUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReturnRequests and returns the data updated in the database.
+   * @param {ReturnRequestUpdateManyAndReturnArgs} args - Arguments to update many ReturnRequests.
+   * @example
+   * // Update many ReturnRequests
+   * const returnRequest = await prisma.returnRequest.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ReturnRequests and only return the `id`
+   * const returnRequestWithIdOnly = await prisma.returnRequest.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ReturnRequestUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ReturnRequestUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ReturnRequest.
+   * @param {ReturnRequestUpsertArgs} args - Arguments to update or create a ReturnRequest.
+   * @example
+   * // Update or create a ReturnRequest
+   * const returnRequest = await prisma.returnRequest.upsert({
+   *   create: {
+   *     // ... data to create a ReturnRequest
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ReturnRequest we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ReturnRequestUpsertArgs>(args: Prisma.SelectSubset<T, ReturnRequestUpsertArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ReturnRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestCountArgs} args - Arguments to filter ReturnRequests to count.
+   * @example
+   * // Count the number of ReturnRequests
+   * const count = await prisma.returnRequest.count({
+   *   where: {
+   *     // ... the filter for the ReturnRequests we want to count
+   *   }
+   * })
+  **/
+  count<T extends ReturnRequestCountArgs>(
+    args?: Prisma.Subset<T, ReturnRequestCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ReturnRequestCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ReturnRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ReturnRequestAggregateArgs>(args: Prisma.Subset<T, ReturnRequestAggregateArgs>): Prisma.PrismaPromise<GetReturnRequestAggregateType<T>>
+
+  /**
+   * Group by ReturnRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ReturnRequestGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ReturnRequestGroupByArgs['orderBy'] }
+      : { orderBy?: ReturnRequestGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ReturnRequestGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReturnRequestGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ReturnRequest model
+ */
+readonly fields: ReturnRequestFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ReturnRequest.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ReturnRequestClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  customer<T extends Prisma.ReturnRequest$customerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReturnRequest$customerArgs<ExtArgs>>): Prisma.Prisma__CustomerClient<runtime.Types.Result.GetResult<Prisma.$CustomerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  reviewedBy<T extends Prisma.ReturnRequest$reviewedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReturnRequest$reviewedByArgs<ExtArgs>>): Prisma.Prisma__StaffClient<runtime.Types.Result.GetResult<Prisma.$StaffPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  refund<T extends Prisma.ReturnRequest$refundArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReturnRequest$refundArgs<ExtArgs>>): Prisma.Prisma__OrderRefundClient<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  replacementOrder<T extends Prisma.ReturnRequest$replacementOrderArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReturnRequest$replacementOrderArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  items<T extends Prisma.ReturnRequest$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReturnRequest$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ReturnRequest model
+ */
+export interface ReturnRequestFieldRefs {
+  readonly id: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly orderId: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly customerId: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly status: Prisma.FieldRef<"ReturnRequest", 'ReturnStatus'>
+  readonly note: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly staffNote: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly reviewedById: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly reviewedAt: Prisma.FieldRef<"ReturnRequest", 'DateTime'>
+  readonly labelOrderId: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly labelCourierName: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly labelTrackingUrl: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly labelTrackingNumber: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly labelResponse: Prisma.FieldRef<"ReturnRequest", 'Json'>
+  readonly receivedAt: Prisma.FieldRef<"ReturnRequest", 'DateTime'>
+  readonly refundId: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly replacementOrderId: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly resolvedAt: Prisma.FieldRef<"ReturnRequest", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ReturnRequest", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ReturnRequest", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ReturnRequest findUnique
+ */
+export type ReturnRequestFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequest to fetch.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+}
+
+/**
+ * ReturnRequest findUniqueOrThrow
+ */
+export type ReturnRequestFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequest to fetch.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+}
+
+/**
+ * ReturnRequest findFirst
+ */
+export type ReturnRequestFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequest to fetch.
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequests to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReturnRequests.
+   */
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReturnRequests.
+   */
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequest findFirstOrThrow
+ */
+export type ReturnRequestFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequest to fetch.
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequests to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReturnRequests.
+   */
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReturnRequests.
+   */
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequest findMany
+ */
+export type ReturnRequestFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequests to fetch.
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequests to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ReturnRequests.
+   */
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequests.
+   */
+  skip?: number
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequest create
+ */
+export type ReturnRequestCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ReturnRequest.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestCreateInput, Prisma.ReturnRequestUncheckedCreateInput>
+}
+
+/**
+ * ReturnRequest createMany
+ */
+export type ReturnRequestCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ReturnRequests.
+   */
+  data: Prisma.ReturnRequestCreateManyInput | Prisma.ReturnRequestCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReturnRequest createManyAndReturn
+ */
+export type ReturnRequestCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * The data used to create many ReturnRequests.
+   */
+  data: Prisma.ReturnRequestCreateManyInput | Prisma.ReturnRequestCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReturnRequest update
+ */
+export type ReturnRequestUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ReturnRequest.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateInput, Prisma.ReturnRequestUncheckedUpdateInput>
+  /**
+   * Choose, which ReturnRequest to update.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+}
+
+/**
+ * ReturnRequest updateMany
+ */
+export type ReturnRequestUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ReturnRequests.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which ReturnRequests to update
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * Limit how many ReturnRequests to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReturnRequest updateManyAndReturn
+ */
+export type ReturnRequestUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * The data used to update ReturnRequests.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which ReturnRequests to update
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * Limit how many ReturnRequests to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReturnRequest upsert
+ */
+export type ReturnRequestUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ReturnRequest to update in case it exists.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * In case the ReturnRequest found by the `where` argument doesn't exist, create a new ReturnRequest with this data.
+   */
+  create: Prisma.XOR<Prisma.ReturnRequestCreateInput, Prisma.ReturnRequestUncheckedCreateInput>
+  /**
+   * In case the ReturnRequest was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateInput, Prisma.ReturnRequestUncheckedUpdateInput>
+}
+
+/**
+ * ReturnRequest delete
+ */
+export type ReturnRequestDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter which ReturnRequest to delete.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+}
+
+/**
+ * ReturnRequest deleteMany
+ */
+export type ReturnRequestDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReturnRequests to delete
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * Limit how many ReturnRequests to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ReturnRequest.customer
+ */
+export type ReturnRequest$customerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Customer
+   */
+  select?: Prisma.CustomerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Customer
+   */
+  omit?: Prisma.CustomerOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomerInclude<ExtArgs> | null
+  where?: Prisma.CustomerWhereInput
+}
+
+/**
+ * ReturnRequest.reviewedBy
+ */
+export type ReturnRequest$reviewedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Staff
+   */
+  select?: Prisma.StaffSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Staff
+   */
+  omit?: Prisma.StaffOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StaffInclude<ExtArgs> | null
+  where?: Prisma.StaffWhereInput
+}
+
+/**
+ * ReturnRequest.refund
+ */
+export type ReturnRequest$refundArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  where?: Prisma.OrderRefundWhereInput
+}
+
+/**
+ * ReturnRequest.replacementOrder
+ */
+export type ReturnRequest$replacementOrderArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  where?: Prisma.OrderWhereInput
+}
+
+/**
+ * ReturnRequest.items
+ */
+export type ReturnRequest$itemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestItemWhereInput
+  orderBy?: Prisma.ReturnRequestItemOrderByWithRelationInput | Prisma.ReturnRequestItemOrderByWithRelationInput[]
+  cursor?: Prisma.ReturnRequestItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReturnRequestItemScalarFieldEnum | Prisma.ReturnRequestItemScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequest without action
+ */
+export type ReturnRequestDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+}
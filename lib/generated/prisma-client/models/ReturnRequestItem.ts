@@ -0,0 +1,1891 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ReturnRequestItem` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ReturnRequestItem
+ * 
+ */
+export type ReturnRequestItemModel = runtime.Types.Result.DefaultSelection<Prisma.$ReturnRequestItemPayload>
+
+export type AggregateReturnRequestItem = {
+  _count: ReturnRequestItemCountAggregateOutputType | null
+  _avg: ReturnRequestItemAvgAggregateOutputType | null
+  _sum: ReturnRequestItemSumAggregateOutputType | null
+  _min: ReturnRequestItemMinAggregateOutputType | null
+  _max: ReturnRequestItemMaxAggregateOutputType | null
+}
+
+export type ReturnRequestItemAvgAggregateOutputType = {
+  quantity: number | null
+  receivedQty: number | null
+}
+
+export type ReturnRequestItemSumAggregateOutputType = {
+  quantity: number | null
+  receivedQty: number | null
+}
+
+export type ReturnRequestItemMinAggregateOutputType = {
+  id: string | null
+  returnId: string | null
+  orderItemId: string | null
+  quantity: number | null
+  type: $Enums.ReturnType | null
+  reason: string | null
+  exchangeVariantId: string | null
+  receivedQty: number | null
+  restocked: boolean | null
+}
+
+export type ReturnRequestItemMaxAggregateOutputType = {
+  id: string | null
+  returnId: string | null
+  orderItemId: string | null
+  quantity: number | null
+  type: $Enums.ReturnType | null
+  reason: string | null
+  exchangeVariantId: string | null
+  receivedQty: number | null
+  restocked: boolean | null
+}
+
+export type ReturnRequestItemCountAggregateOutputType = {
+  id: number
+  returnId: number
+  orderItemId: number
+  quantity: number
+  type: number
+  reason: number
+  photos: number
+  exchangeVariantId: number
+  receivedQty: number
+  restocked: number
+  _all: number
+}
+
+
+export type ReturnRequestItemAvgAggregateInputType = {
+  quantity?: true
+  receivedQty?: true
+}
+
+export type ReturnRequestItemSumAggregateInputType = {
+  quantity?: true
+  receivedQty?: true
+}
+
+export type ReturnRequestItemMinAggregateInputType = {
+  id?: true
+  returnId?: true
+  orderItemId?: true
+  quantity?: true
+  type?: true
+  reason?: true
+  exchangeVariantId?: true
+  receivedQty?: true
+  restocked?: true
+}
+
+export type ReturnRequestItemMaxAggregateInputType = {
+  id?: true
+  returnId?: true
+  orderItemId?: true
+  quantity?: true
+  type?: true
+  reason?: true
+  exchangeVariantId?: true
+  receivedQty?: true
+  restocked?: true
+}
+
+export type ReturnRequestItemCountAggregateInputType = {
+  id?: true
+  returnId?: true
+  orderItemId?: true
+  quantity?: true
+  type?: true
+  reason?: true
+  photos?: true
+  exchangeVariantId?: true
+  receivedQty?: true
+  restocked?: true
+  _all?: true
+}
+
+export type ReturnRequestItemAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReturnRequestItem to aggregate.
+   */
+  where?: Prisma.ReturnRequestItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequestItems to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestItemOrderByWithRelationInput | Prisma.ReturnRequestItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ReturnRequestItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequestItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequestItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ReturnRequestItems
+  **/
+  _count?: true | ReturnRequestItemCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ReturnRequestItemAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ReturnRequestItemSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ReturnRequestItemMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ReturnRequestItemMaxAggregateInputType
+}
+
+export type GetReturnRequestItemAggregateType<T extends ReturnRequestItemAggregateArgs> = {
+      [P in keyof T & keyof AggregateReturnRequestItem]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateReturnRequestItem[P]>
+    : Prisma.GetScalarType<T[P], AggregateReturnRequestItem[P]>
+}
+
+
+
+
+export type ReturnRequestItemGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestItemWhereInput
+  orderBy?: Prisma.ReturnRequestItemOrderByWithAggregationInput | Prisma.ReturnRequestItemOrderByWithAggregationInput[]
+  by: Prisma.ReturnRequestItemScalarFieldEnum[] | Prisma.ReturnRequestItemScalarFieldEnum
+  having?: Prisma.ReturnRequestItemScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ReturnRequestItemCountAggregateInputType | true
+  _avg?: ReturnRequestItemAvgAggregateInputType
+  _sum?: ReturnRequestItemSumAggregateInputType
+  _min?: ReturnRequestItemMinAggregateInputType
+  _max?: ReturnRequestItemMaxAggregateInputType
+}
+
+export type ReturnRequestItemGroupByOutputType = {
+  id: string
+  returnId: string
+  orderItemId: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos: string[]
+  exchangeVariantId: string | null
+  receivedQty: number | null
+  restocked: boolean
+  _count: ReturnRequestItemCountAggregateOutputType | null
+  _avg: ReturnRequestItemAvgAggregateOutputType | null
+  _sum: ReturnRequestItemSumAggregateOutputType | null
+  _min: ReturnRequestItemMinAggregateOutputType | null
+  _max: ReturnRequestItemMaxAggregateOutputType | null
+}
+
+type GetReturnRequestItemGroupByPayload<T extends ReturnRequestItemGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ReturnRequestItemGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ReturnRequestItemGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ReturnRequestItemGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ReturnRequestItemGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ReturnRequestItemWhereInput = {
+  AND?: Prisma.ReturnRequestItemWhereInput | Prisma.ReturnRequestItemWhereInput[]
+  OR?: Prisma.ReturnRequestItemWhereInput[]
+  NOT?: Prisma.ReturnRequestItemWhereInput | Prisma.ReturnRequestItemWhereInput[]
+  id?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  returnId?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  orderItemId?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  quantity?: Prisma.IntFilter<"ReturnRequestItem"> | number
+  type?: Prisma.EnumReturnTypeFilter<"ReturnRequestItem"> | $Enums.ReturnType
+  reason?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  photos?: Prisma.StringNullableListFilter<"ReturnRequestItem">
+  exchangeVariantId?: Prisma.StringNullableFilter<"ReturnRequestItem"> | string | null
+  receivedQty?: Prisma.IntNullableFilter<"ReturnRequestItem"> | number | null
+  restocked?: Prisma.BoolFilter<"ReturnRequestItem"> | boolean
+  returnRequest?: Prisma.XOR<Prisma.ReturnRequestScalarRelationFilter, Prisma.ReturnRequestWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+  exchangeVariant?: Prisma.XOR<Prisma.VariantNullableScalarRelationFilter, Prisma.VariantWhereInput> | null
+}
+
+export type ReturnRequestItemOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  returnId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  photos?: Prisma.SortOrder
+  exchangeVariantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  receivedQty?: Prisma.SortOrderInput | Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+  returnRequest?: Prisma.ReturnRequestOrderByWithRelationInput
+  orderItem?: Prisma.OrderItemOrderByWithRelationInput
+  exchangeVariant?: Prisma.VariantOrderByWithRelationInput
+}
+
+export type ReturnRequestItemWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ReturnRequestItemWhereInput | Prisma.ReturnRequestItemWhereInput[]
+  OR?: Prisma.ReturnRequestItemWhereInput[]
+  NOT?: Prisma.ReturnRequestItemWhereInput | Prisma.ReturnRequestItemWhereInput[]
+  returnId?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  orderItemId?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  quantity?: Prisma.IntFilter<"ReturnRequestItem"> | number
+  type?: Prisma.EnumReturnTypeFilter<"ReturnRequestItem"> | $Enums.ReturnType
+  reason?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  photos?: Prisma.StringNullableListFilter<"ReturnRequestItem">
+  exchangeVariantId?: Prisma.StringNullableFilter<"ReturnRequestItem"> | string | null
+  receivedQty?: Prisma.IntNullableFilter<"ReturnRequestItem"> | number | null
+  restocked?: Prisma.BoolFilter<"ReturnRequestItem"> | boolean
+  returnRequest?: Prisma.XOR<Prisma.ReturnRequestScalarRelationFilter, Prisma.ReturnRequestWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+  exchangeVariant?: Prisma.XOR<Prisma.VariantNullableScalarRelationFilter, Prisma.VariantWhereInput> | null
+}, "id">
+
+export type ReturnRequestItemOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  returnId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  photos?: Prisma.SortOrder
+  exchangeVariantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  receivedQty?: Prisma.SortOrderInput | Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+  _count?: Prisma.ReturnRequestItemCountOrderByAggregateInput
+  _avg?: Prisma.ReturnRequestItemAvgOrderByAggregateInput
+  _max?: Prisma.ReturnRequestItemMaxOrderByAggregateInput
+  _min?: Prisma.ReturnRequestItemMinOrderByAggregateInput
+  _sum?: Prisma.ReturnRequestItemSumOrderByAggregateInput
+}
+
+export type ReturnRequestItemScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ReturnRequestItemScalarWhereWithAggregatesInput | Prisma.ReturnRequestItemScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ReturnRequestItemScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ReturnRequestItemScalarWhereWithAggregatesInput | Prisma.ReturnRequestItemScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ReturnRequestItem"> | string
+  returnId?: Prisma.StringWithAggregatesFilter<"ReturnRequestItem"> | string
+  orderItemId?: Prisma.StringWithAggregatesFilter<"ReturnRequestItem"> | string
+  quantity?: Prisma.IntWithAggregatesFilter<"ReturnRequestItem"> | number
+  type?: Prisma.EnumReturnTypeWithAggregatesFilter<"ReturnRequestItem"> | $Enums.ReturnType
+  reason?: Prisma.StringWithAggregatesFilter<"ReturnRequestItem"> | string
+  photos?: Prisma.StringNullableListFilter<"ReturnRequestItem">
+  exchangeVariantId?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequestItem"> | string | null
+  receivedQty?: Prisma.IntNullableWithAggregatesFilter<"ReturnRequestItem"> | number | null
+  restocked?: Prisma.BoolWithAggregatesFilter<"ReturnRequestItem"> | boolean
+}
+
+export type ReturnRequestItemCreateInput = {
+  id?: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  receivedQty?: number | null
+  restocked?: boolean
+  returnRequest: Prisma.ReturnRequestCreateNestedOneWithoutItemsInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutReturnItemsInput
+  exchangeVariant?: Prisma.VariantCreateNestedOneWithoutExchangeItemsInput
+}
+
+export type ReturnRequestItemUncheckedCreateInput = {
+  id?: string
+  returnId: string
+  orderItemId: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  exchangeVariantId?: string | null
+  receivedQty?: number | null
+  restocked?: boolean
+}
+
+export type ReturnRequestItemUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  returnRequest?: Prisma.ReturnRequestUpdateOneRequiredWithoutItemsNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutReturnItemsNestedInput
+  exchangeVariant?: Prisma.VariantUpdateOneWithoutExchangeItemsNestedInput
+}
+
+export type ReturnRequestItemUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  exchangeVariantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ReturnRequestItemCreateManyInput = {
+  id?: string
+  returnId: string
+  orderItemId: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  exchangeVariantId?: string | null
+  receivedQty?: number | null
+  restocked?: boolean
+}
+
+export type ReturnRequestItemUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ReturnRequestItemUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  exchangeVariantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ReturnRequestItemListRelationFilter = {
+  every?: Prisma.ReturnRequestItemWhereInput
+  some?: Prisma.ReturnRequestItemWhereInput
+  none?: Prisma.ReturnRequestItemWhereInput
+}
+
+export type ReturnRequestItemOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ReturnRequestItemCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  returnId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  photos?: Prisma.SortOrder
+  exchangeVariantId?: Prisma.SortOrder
+  receivedQty?: Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+}
+
+export type ReturnRequestItemAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  receivedQty?: Prisma.SortOrder
+}
+
+export type ReturnRequestItemMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  returnId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  exchangeVariantId?: Prisma.SortOrder
+  receivedQty?: Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+}
+
+export type ReturnRequestItemMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  returnId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  exchangeVariantId?: Prisma.SortOrder
+  receivedQty?: Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+}
+
+export type ReturnRequestItemSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  receivedQty?: Prisma.SortOrder
+}
+
+export type ReturnRequestItemCreateNestedManyWithoutExchangeVariantInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput, Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput> | Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutExchangeVariantInput | Prisma.ReturnRequestItemCreateOrConnectWithoutExchangeVariantInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyExchangeVariantInputEnvelope
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+}
+
+export type ReturnRequestItemUncheckedCreateNestedManyWithoutExchangeVariantInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput, Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput> | Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutExchangeVariantInput | Prisma.ReturnRequestItemCreateOrConnectWithoutExchangeVariantInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyExchangeVariantInputEnvelope
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+}
+
+export type ReturnRequestItemUpdateManyWithoutExchangeVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput, Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput> | Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutExchangeVariantInput | Prisma.ReturnRequestItemCreateOrConnectWithoutExchangeVariantInput[]
+  upsert?: Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutExchangeVariantInput | Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutExchangeVariantInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyExchangeVariantInputEnvelope
+  set?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  update?: Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutExchangeVariantInput | Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutExchangeVariantInput[]
+  updateMany?: Prisma.ReturnRequestItemUpdateManyWithWhereWithoutExchangeVariantInput | Prisma.ReturnRequestItemUpdateManyWithWhereWithoutExchangeVariantInput[]
+  deleteMany?: Prisma.ReturnRequestItemScalarWhereInput | Prisma.ReturnRequestItemScalarWhereInput[]
+}
+
+export type ReturnRequestItemUncheckedUpdateManyWithoutExchangeVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput, Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput> | Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutExchangeVariantInput | Prisma.ReturnRequestItemCreateOrConnectWithoutExchangeVariantInput[]
+  upsert?: Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutExchangeVariantInput | Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutExchangeVariantInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyExchangeVariantInputEnvelope
+  set?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  update?: Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutExchangeVariantInput | Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutExchangeVariantInput[]
+  updateMany?: Prisma.ReturnRequestItemUpdateManyWithWhereWithoutExchangeVariantInput | Prisma.ReturnRequestItemUpdateManyWithWhereWithoutExchangeVariantInput[]
+  deleteMany?: Prisma.ReturnRequestItemScalarWhereInput | Prisma.ReturnRequestItemScalarWhereInput[]
+}
+
+export type ReturnRequestItemCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutOrderItemInput, Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput> | Prisma.ReturnRequestItemCreateWithoutOrderItemInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutOrderItemInput | Prisma.ReturnRequestItemCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyOrderItemInputEnvelope
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+}
+
+export type ReturnRequestItemUncheckedCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutOrderItemInput, Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput> | Prisma.ReturnRequestItemCreateWithoutOrderItemInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutOrderItemInput | Prisma.ReturnRequestItemCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyOrderItemInputEnvelope
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+}
+
+export type ReturnRequestItemUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutOrderItemInput, Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput> | Prisma.ReturnRequestItemCreateWithoutOrderItemInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutOrderItemInput | Prisma.ReturnRequestItemCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyOrderItemInputEnvelope
+  set?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  update?: Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.ReturnRequestItemUpdateManyWithWhereWithoutOrderItemInput | Prisma.ReturnRequestItemUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.ReturnRequestItemScalarWhereInput | Prisma.ReturnRequestItemScalarWhereInput[]
+}
+
+export type ReturnRequestItemUncheckedUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutOrderItemInput, Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput> | Prisma.ReturnRequestItemCreateWithoutOrderItemInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutOrderItemInput | Prisma.ReturnRequestItemCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyOrderItemInputEnvelope
+  set?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  update?: Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.ReturnRequestItemUpdateManyWithWhereWithoutOrderItemInput | Prisma.ReturnRequestItemUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.ReturnRequestItemScalarWhereInput | Prisma.ReturnRequestItemScalarWhereInput[]
+}
+
+export type ReturnRequestItemCreateNestedManyWithoutReturnRequestInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutReturnRequestInput, Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput> | Prisma.ReturnRequestItemCreateWithoutReturnRequestInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutReturnRequestInput | Prisma.ReturnRequestItemCreateOrConnectWithoutReturnRequestInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyReturnRequestInputEnvelope
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+}
+
+export type ReturnRequestItemUncheckedCreateNestedManyWithoutReturnRequestInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutReturnRequestInput, Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput> | Prisma.ReturnRequestItemCreateWithoutReturnRequestInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutReturnRequestInput | Prisma.ReturnRequestItemCreateOrConnectWithoutReturnRequestInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyReturnRequestInputEnvelope
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+}
+
+export type ReturnRequestItemUpdateManyWithoutReturnRequestNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutReturnRequestInput, Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput> | Prisma.ReturnRequestItemCreateWithoutReturnRequestInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutReturnRequestInput | Prisma.ReturnRequestItemCreateOrConnectWithoutReturnRequestInput[]
+  upsert?: Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutReturnRequestInput | Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutReturnRequestInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyReturnRequestInputEnvelope
+  set?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  update?: Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutReturnRequestInput | Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutReturnRequestInput[]
+  updateMany?: Prisma.ReturnRequestItemUpdateManyWithWhereWithoutReturnRequestInput | Prisma.ReturnRequestItemUpdateManyWithWhereWithoutReturnRequestInput[]
+  deleteMany?: Prisma.ReturnRequestItemScalarWhereInput | Prisma.ReturnRequestItemScalarWhereInput[]
+}
+
+export type ReturnRequestItemUncheckedUpdateManyWithoutReturnRequestNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutReturnRequestInput, Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput> | Prisma.ReturnRequestItemCreateWithoutReturnRequestInput[] | Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput[]
+  connectOrCreate?: Prisma.ReturnRequestItemCreateOrConnectWithoutReturnRequestInput | Prisma.ReturnRequestItemCreateOrConnectWithoutReturnRequestInput[]
+  upsert?: Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutReturnRequestInput | Prisma.ReturnRequestItemUpsertWithWhereUniqueWithoutReturnRequestInput[]
+  createMany?: Prisma.ReturnRequestItemCreateManyReturnRequestInputEnvelope
+  set?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestItemWhereUniqueInput | Prisma.ReturnRequestItemWhereUniqueInput[]
+  update?: Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutReturnRequestInput | Prisma.ReturnRequestItemUpdateWithWhereUniqueWithoutReturnRequestInput[]
+  updateMany?: Prisma.ReturnRequestItemUpdateManyWithWhereWithoutReturnRequestInput | Prisma.ReturnRequestItemUpdateManyWithWhereWithoutReturnRequestInput[]
+  deleteMany?: Prisma.ReturnRequestItemScalarWhereInput | Prisma.ReturnRequestItemScalarWhereInput[]
+}
+
+export type ReturnRequestItemCreatephotosInput = {
+  set: string[]
+}
+
+export type EnumReturnTypeFieldUpdateOperationsInput = {
+  set?: $Enums.ReturnType
+}
+
+export type ReturnRequestItemUpdatephotosInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type ReturnRequestItemCreateWithoutExchangeVariantInput = {
+  id?: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  receivedQty?: number | null
+  restocked?: boolean
+  returnRequest: Prisma.ReturnRequestCreateNestedOneWithoutItemsInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutReturnItemsInput
+}
+
+export type ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput = {
+  id?: string
+  returnId: string
+  orderItemId: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  receivedQty?: number | null
+  restocked?: boolean
+}
+
+export type ReturnRequestItemCreateOrConnectWithoutExchangeVariantInput = {
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput, Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput>
+}
+
+export type ReturnRequestItemCreateManyExchangeVariantInputEnvelope = {
+  data: Prisma.ReturnRequestItemCreateManyExchangeVariantInput | Prisma.ReturnRequestItemCreateManyExchangeVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReturnRequestItemUpsertWithWhereUniqueWithoutExchangeVariantInput = {
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReturnRequestItemUpdateWithoutExchangeVariantInput, Prisma.ReturnRequestItemUncheckedUpdateWithoutExchangeVariantInput>
+  create: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutExchangeVariantInput, Prisma.ReturnRequestItemUncheckedCreateWithoutExchangeVariantInput>
+}
+
+export type ReturnRequestItemUpdateWithWhereUniqueWithoutExchangeVariantInput = {
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReturnRequestItemUpdateWithoutExchangeVariantInput, Prisma.ReturnRequestItemUncheckedUpdateWithoutExchangeVariantInput>
+}
+
+export type ReturnRequestItemUpdateManyWithWhereWithoutExchangeVariantInput = {
+  where: Prisma.ReturnRequestItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestItemUpdateManyMutationInput, Prisma.ReturnRequestItemUncheckedUpdateManyWithoutExchangeVariantInput>
+}
+
+export type ReturnRequestItemScalarWhereInput = {
+  AND?: Prisma.ReturnRequestItemScalarWhereInput | Prisma.ReturnRequestItemScalarWhereInput[]
+  OR?: Prisma.ReturnRequestItemScalarWhereInput[]
+  NOT?: Prisma.ReturnRequestItemScalarWhereInput | Prisma.ReturnRequestItemScalarWhereInput[]
+  id?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  returnId?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  orderItemId?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  quantity?: Prisma.IntFilter<"ReturnRequestItem"> | number
+  type?: Prisma.EnumReturnTypeFilter<"ReturnRequestItem"> | $Enums.ReturnType
+  reason?: Prisma.StringFilter<"ReturnRequestItem"> | string
+  photos?: Prisma.StringNullableListFilter<"ReturnRequestItem">
+  exchangeVariantId?: Prisma.StringNullableFilter<"ReturnRequestItem"> | string | null
+  receivedQty?: Prisma.IntNullableFilter<"ReturnRequestItem"> | number | null
+  restocked?: Prisma.BoolFilter<"ReturnRequestItem"> | boolean
+}
+
+export type ReturnRequestItemCreateWithoutOrderItemInput = {
+  id?: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  receivedQty?: number | null
+  restocked?: boolean
+  returnRequest: Prisma.ReturnRequestCreateNestedOneWithoutItemsInput
+  exchangeVariant?: Prisma.VariantCreateNestedOneWithoutExchangeItemsInput
+}
+
+export type ReturnRequestItemUncheckedCreateWithoutOrderItemInput = {
+  id?: string
+  returnId: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  exchangeVariantId?: string | null
+  receivedQty?: number | null
+  restocked?: boolean
+}
+
+export type ReturnRequestItemCreateOrConnectWithoutOrderItemInput = {
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutOrderItemInput, Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput>
+}
+
+export type ReturnRequestItemCreateManyOrderItemInputEnvelope = {
+  data: Prisma.ReturnRequestItemCreateManyOrderItemInput | Prisma.ReturnRequestItemCreateManyOrderItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReturnRequestItemUpsertWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReturnRequestItemUpdateWithoutOrderItemInput, Prisma.ReturnRequestItemUncheckedUpdateWithoutOrderItemInput>
+  create: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutOrderItemInput, Prisma.ReturnRequestItemUncheckedCreateWithoutOrderItemInput>
+}
+
+export type ReturnRequestItemUpdateWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReturnRequestItemUpdateWithoutOrderItemInput, Prisma.ReturnRequestItemUncheckedUpdateWithoutOrderItemInput>
+}
+
+export type ReturnRequestItemUpdateManyWithWhereWithoutOrderItemInput = {
+  where: Prisma.ReturnRequestItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestItemUpdateManyMutationInput, Prisma.ReturnRequestItemUncheckedUpdateManyWithoutOrderItemInput>
+}
+
+export type ReturnRequestItemCreateWithoutReturnRequestInput = {
+  id?: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  receivedQty?: number | null
+  restocked?: boolean
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutReturnItemsInput
+  exchangeVariant?: Prisma.VariantCreateNestedOneWithoutExchangeItemsInput
+}
+
+export type ReturnRequestItemUncheckedCreateWithoutReturnRequestInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  exchangeVariantId?: string | null
+  receivedQty?: number | null
+  restocked?: boolean
+}
+
+export type ReturnRequestItemCreateOrConnectWithoutReturnRequestInput = {
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutReturnRequestInput, Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput>
+}
+
+export type ReturnRequestItemCreateManyReturnRequestInputEnvelope = {
+  data: Prisma.ReturnRequestItemCreateManyReturnRequestInput | Prisma.ReturnRequestItemCreateManyReturnRequestInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReturnRequestItemUpsertWithWhereUniqueWithoutReturnRequestInput = {
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReturnRequestItemUpdateWithoutReturnRequestInput, Prisma.ReturnRequestItemUncheckedUpdateWithoutReturnRequestInput>
+  create: Prisma.XOR<Prisma.ReturnRequestItemCreateWithoutReturnRequestInput, Prisma.ReturnRequestItemUncheckedCreateWithoutReturnRequestInput>
+}
+
+export type ReturnRequestItemUpdateWithWhereUniqueWithoutReturnRequestInput = {
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReturnRequestItemUpdateWithoutReturnRequestInput, Prisma.ReturnRequestItemUncheckedUpdateWithoutReturnRequestInput>
+}
+
+export type ReturnRequestItemUpdateManyWithWhereWithoutReturnRequestInput = {
+  where: Prisma.ReturnRequestItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestItemUpdateManyMutationInput, Prisma.ReturnRequestItemUncheckedUpdateManyWithoutReturnRequestInput>
+}
+
+export type ReturnRequestItemCreateManyExchangeVariantInput = {
+  id?: string
+  returnId: string
+  orderItemId: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  receivedQty?: number | null
+  restocked?: boolean
+}
+
+export type ReturnRequestItemUpdateWithoutExchangeVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  returnRequest?: Prisma.ReturnRequestUpdateOneRequiredWithoutItemsNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutReturnItemsNestedInput
+}
+
+export type ReturnRequestItemUncheckedUpdateWithoutExchangeVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ReturnRequestItemUncheckedUpdateManyWithoutExchangeVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ReturnRequestItemCreateManyOrderItemInput = {
+  id?: string
+  returnId: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  exchangeVariantId?: string | null
+  receivedQty?: number | null
+  restocked?: boolean
+}
+
+export type ReturnRequestItemUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  returnRequest?: Prisma.ReturnRequestUpdateOneRequiredWithoutItemsNestedInput
+  exchangeVariant?: Prisma.VariantUpdateOneWithoutExchangeItemsNestedInput
+}
+
+export type ReturnRequestItemUncheckedUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  exchangeVariantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ReturnRequestItemUncheckedUpdateManyWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  exchangeVariantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ReturnRequestItemCreateManyReturnRequestInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+  type: $Enums.ReturnType
+  reason: string
+  photos?: Prisma.ReturnRequestItemCreatephotosInput | string[]
+  exchangeVariantId?: string | null
+  receivedQty?: number | null
+  restocked?: boolean
+}
+
+export type ReturnRequestItemUpdateWithoutReturnRequestInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutReturnItemsNestedInput
+  exchangeVariant?: Prisma.VariantUpdateOneWithoutExchangeItemsNestedInput
+}
+
+export type ReturnRequestItemUncheckedUpdateWithoutReturnRequestInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  exchangeVariantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ReturnRequestItemUncheckedUpdateManyWithoutReturnRequestInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumReturnTypeFieldUpdateOperationsInput | $Enums.ReturnType
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestItemUpdatephotosInput | string[]
+  exchangeVariantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedQty?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+
+
+export type ReturnRequestItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  returnId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  type?: boolean
+  reason?: boolean
+  photos?: boolean
+  exchangeVariantId?: boolean
+  receivedQty?: boolean
+  restocked?: boolean
+  returnRequest?: boolean | Prisma.ReturnRequestDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  exchangeVariant?: boolean | Prisma.ReturnRequestItem$exchangeVariantArgs<ExtArgs>
+}, ExtArgs["result"]["returnRequestItem"]>
+
+export type ReturnRequestItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  returnId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  type?: boolean
+  reason?: boolean
+  photos?: boolean
+  exchangeVariantId?: boolean
+  receivedQty?: boolean
+  restocked?: boolean
+  returnRequest?: boolean | Prisma.ReturnRequestDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  exchangeVariant?: boolean | Prisma.ReturnRequestItem$exchangeVariantArgs<ExtArgs>
+}, ExtArgs["result"]["returnRequestItem"]>
+
+export type ReturnRequestItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  returnId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  type?: boolean
+  reason?: boolean
+  photos?: boolean
+  exchangeVariantId?: boolean
+  receivedQty?: boolean
+  restocked?: boolean
+  returnRequest?: boolean | Prisma.ReturnRequestDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  exchangeVariant?: boolean | Prisma.ReturnRequestItem$exchangeVariantArgs<ExtArgs>
+}, ExtArgs["result"]["returnRequestItem"]>
+
+export type ReturnRequestItemSelectScalar = {
+  id?: boolean
+  returnId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  type?: boolean
+  reason?: boolean
+  photos?: boolean
+  exchangeVariantId?: boolean
+  receivedQty?: boolean
+  restocked?: boolean
+}
+
+export type ReturnRequestItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "returnId" | "orderItemId" | "quantity" | "type" | "reason" | "photos" | "exchangeVariantId" | "receivedQty" | "restocked", ExtArgs["result"]["returnRequestItem"]>
+export type ReturnRequestItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  returnRequest?: boolean | Prisma.ReturnRequestDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  exchangeVariant?: boolean | Prisma.ReturnRequestItem$exchangeVariantArgs<ExtArgs>
+}
+export type ReturnRequestItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  returnRequest?: boolean | Prisma.ReturnRequestDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  exchangeVariant?: boolean | Prisma.ReturnRequestItem$exchangeVariantArgs<ExtArgs>
+}
+export type ReturnRequestItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  returnRequest?: boolean | Prisma.ReturnRequestDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  exchangeVariant?: boolean | Prisma.ReturnRequestItem$exchangeVariantArgs<ExtArgs>
+}
+
+export type $ReturnRequestItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ReturnRequestItem"
+  objects: {
+    returnRequest: Prisma.$ReturnRequestPayload<ExtArgs>
+    orderItem: Prisma.$OrderItemPayload<ExtArgs>
+    exchangeVariant: Prisma.$VariantPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    returnId: string
+    orderItemId: string
+    quantity: number
+    type: $Enums.ReturnType
+    reason: string
+    photos: string[]
+    exchangeVariantId: string | null
+    receivedQty: number | null
+    restocked: boolean
+  }, ExtArgs["result"]["returnRequestItem"]>
+  composites: {}
+}
+
+export type ReturnRequestItemGetPayload<S extends boolean | null | undefined | ReturnRequestItemDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload, S>
+
+export type ReturnRequestItemCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ReturnRequestItemFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ReturnRequestItemCountAggregateInputType | true
+  }
+
+export interface ReturnRequestItemDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ReturnRequestItem'], meta: { name: 'ReturnRequestItem' } }
+  /**
+   * Find zero or one ReturnRequestItem that matches the filter.
+   * @param {ReturnRequestItemFindUniqueArgs} args - Arguments to find a ReturnRequestItem
+   * @example
+   * // Get one ReturnRequestItem
+   * const returnRequestItem = await prisma.returnRequestItem.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ReturnRequestItemFindUniqueArgs>(args: Prisma.SelectSubset<T, ReturnRequestItemFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestItemClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ReturnRequestItem that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ReturnRequestItemFindUniqueOrThrowArgs} args - Arguments to find a ReturnRequestItem
+   * @example
+   * // Get one ReturnRequestItem
+   * const returnRequestItem = await prisma.returnRequestItem.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ReturnRequestItemFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ReturnRequestItemFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestItemClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReturnRequestItem that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestItemFindFirstArgs} args - Arguments to find a ReturnRequestItem
+   * @example
+   * // Get one ReturnRequestItem
+   * const returnRequestItem = await prisma.returnRequestItem.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ReturnRequestItemFindFirstArgs>(args?: Prisma.SelectSubset<T, ReturnRequestItemFindFirstArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestItemClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReturnRequestItem that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestItemFindFirstOrThrowArgs} args - Arguments to find a ReturnRequestItem
+   * @example
+   * // Get one ReturnRequestItem
+   * const returnRequestItem = await prisma.returnRequestItem.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ReturnRequestItemFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ReturnRequestItemFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestItemClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ReturnRequestItems that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestItemFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ReturnRequestItems
+   * const returnRequestItems = await prisma.returnRequestItem.findMany()
+   * 
+   * // Get first 10 ReturnRequestItems
+   * const returnRequestItems = await prisma.returnRequestItem.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const returnRequestItemWithIdOnly = await prisma.returnRequestItem.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ReturnRequestItemFindManyArgs>(args?: Prisma.SelectSubset<T, ReturnRequestItemFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ReturnRequestItem.
+   * @param {ReturnRequestItemCreateArgs} args - Arguments to create a ReturnRequestItem.
+   * @example
+   * // Create one ReturnRequestItem
+   * const ReturnRequestItem = await prisma.returnRequestItem.create({
+   *   data: {
+   *     // ... data to create a ReturnRequestItem
+   *   }
+   * })
+   * 
+   */
+  create<T extends ReturnRequestItemCreateArgs>(args: Prisma.SelectSubset<T, ReturnRequestItemCreateArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestItemClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ReturnRequestItems.
+   * @param {ReturnRequestItemCreateManyArgs} args - Arguments to create many ReturnRequestItems.
+   * @example
+   * // Create many ReturnRequestItems
+   * const returnRequestItem = await prisma.returnRequestItem.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ReturnRequestItemCreateManyArgs>(args?: Prisma.SelectSubset<T, ReturnRequestItemCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ReturnRequestItems and returns the data saved in the database.
+   * @param {ReturnRequestItemCreateManyAndReturnArgs} args - Arguments to create many ReturnRequestItems.
+   * @example
+   * // Create many ReturnRequestItems
+   * const returnRequestItem = await prisma.returnRequestItem.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ReturnRequestItems and only return the `id`
+   * const returnRequestItemWithIdOnly = await prisma.returnRequestItem.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ReturnRequestItemCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ReturnRequestItemCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ReturnRequestItem.
+   * @param {ReturnRequestItemDeleteArgs} args - Arguments to delete one ReturnRequestItem.
+   * @example
+   * // Delete one ReturnRequestItem
+   * const ReturnRequestItem = await prisma.returnRequestItem.delete({
+   *   where: {
+   *     // ... filter to delete one ReturnRequestItem
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ReturnRequestItemDeleteArgs>(args: Prisma.SelectSubset<T, ReturnRequestItemDeleteArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestItemClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ReturnRequestItem.
+   * @param {ReturnRequestItemUpdateArgs} args - Arguments to update one ReturnRequestItem.
+   * @example
+   * // Update one ReturnRequestItem
+   * const returnRequestItem = await prisma.returnRequestItem.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ReturnRequestItemUpdateArgs>(args: Prisma.SelectSubset<T, ReturnRequestItemUpdateArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestItemClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ReturnRequestItems.
+   * @param {ReturnRequestItemDeleteManyArgs} args - Arguments to filter ReturnRequestItems to delete.
+   * @example
+   * // Delete a few ReturnRequestItems
+   * const { count } = await prisma.returnRequestItem.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ReturnRequestItemDeleteManyArgs>(args?: Prisma.SelectSubset<T, ReturnRequestItemDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReturnRequestItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestItemUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ReturnRequestItems
+   * const returnRequestItem = await prisma.returnRequestItem.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ReturnRequestItemUpdateManyArgs>(args: Prisma.SelectSubset<T, ReturnRequestItemUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReturnRequestItems and returns the data updated in the database.
+   * @param {ReturnRequestItemUpdateManyAndReturnArgs} args - Arguments to update many ReturnRequestItems.
+   * @example
+   * // Update many ReturnRequestItems
+   * const returnRequestItem = await prisma.returnRequestItem.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ReturnRequestItems and only return the `id`
+   * const returnRequestItemWithIdOnly = await prisma.returnRequestItem.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ReturnRequestItemUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ReturnRequestItemUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ReturnRequestItem.
+   * @param {ReturnRequestItemUpsertArgs} args - Arguments to update or create a ReturnRequestItem.
+   * @example
+   * // Update or create a ReturnRequestItem
+   * const returnRequestItem = await prisma.returnRequestItem.upsert({
+   *   create: {
+   *     // ... data to create a ReturnRequestItem
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ReturnRequestItem we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ReturnRequestItemUpsertArgs>(args: Prisma.SelectSubset<T, ReturnRequestItemUpsertArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestItemClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ReturnRequestItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestItemCountArgs} args - Arguments to filter ReturnRequestItems to count.
+   * @example
+   * // Count the number of ReturnRequestItems
+   * const count = await prisma.returnRequestItem.count({
+   *   where: {
+   *     // ... the filter for the ReturnRequestItems we want to count
+   *   }
+   * })
+  **/
+  count<T extends ReturnRequestItemCountArgs>(
+    args?: Prisma.Subset<T, ReturnRequestItemCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ReturnRequestItemCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ReturnRequestItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestItemAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ReturnRequestItemAggregateArgs>(args: Prisma.Subset<T, ReturnRequestItemAggregateArgs>): Prisma.PrismaPromise<GetReturnRequestItemAggregateType<T>>
+
+  /**
+   * Group by ReturnRequestItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestItemGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ReturnRequestItemGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ReturnRequestItemGroupByArgs['orderBy'] }
+      : { orderBy?: ReturnRequestItemGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ReturnRequestItemGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReturnRequestItemGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ReturnRequestItem model
+ */
+readonly fields: ReturnRequestItemFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ReturnRequestItem.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ReturnRequestItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  returnRequest<T extends Prisma.ReturnRequestDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReturnRequestDefaultArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  orderItem<T extends Prisma.OrderItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItemDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderItemClient<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  exchangeVariant<T extends Prisma.ReturnRequestItem$exchangeVariantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReturnRequestItem$exchangeVariantArgs<ExtArgs>>): Prisma.Prisma__VariantClient<runtime.Types.Result.GetResult<Prisma.$VariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ReturnRequestItem model
+ */
+export interface ReturnRequestItemFieldRefs {
+  readonly id: Prisma.FieldRef<"ReturnRequestItem", 'String'>
+  readonly returnId: Prisma.FieldRef<"ReturnRequestItem", 'String'>
+  readonly orderItemId: Prisma.FieldRef<"ReturnRequestItem", 'String'>
+  readonly quantity: Prisma.FieldRef<"ReturnRequestItem", 'Int'>
+  readonly type: Prisma.FieldRef<"ReturnRequestItem", 'ReturnType'>
+  readonly reason: Prisma.FieldRef<"ReturnRequestItem", 'String'>
+  readonly photos: Prisma.FieldRef<"ReturnRequestItem", 'String[]'>
+  readonly exchangeVariantId: Prisma.FieldRef<"ReturnRequestItem", 'String'>
+  readonly receivedQty: Prisma.FieldRef<"ReturnRequestItem", 'Int'>
+  readonly restocked: Prisma.FieldRef<"ReturnRequestItem", 'Boolean'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ReturnRequestItem findUnique
+ */
+export type ReturnRequestItemFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequestItem to fetch.
+   */
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+}
+
+/**
+ * ReturnRequestItem findUniqueOrThrow
+ */
+export type ReturnRequestItemFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequestItem to fetch.
+   */
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+}
+
+/**
+ * ReturnRequestItem findFirst
+ */
+export type ReturnRequestItemFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequestItem to fetch.
+   */
+  where?: Prisma.ReturnRequestItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequestItems to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestItemOrderByWithRelationInput | Prisma.ReturnRequestItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReturnRequestItems.
+   */
+  cursor?: Prisma.ReturnRequestItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequestItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequestItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReturnRequestItems.
+   */
+  distinct?: Prisma.ReturnRequestItemScalarFieldEnum | Prisma.ReturnRequestItemScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequestItem findFirstOrThrow
+ */
+export type ReturnRequestItemFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequestItem to fetch.
+   */
+  where?: Prisma.ReturnRequestItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequestItems to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestItemOrderByWithRelationInput | Prisma.ReturnRequestItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReturnRequestItems.
+   */
+  cursor?: Prisma.ReturnRequestItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequestItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequestItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReturnRequestItems.
+   */
+  distinct?: Prisma.ReturnRequestItemScalarFieldEnum | Prisma.ReturnRequestItemScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequestItem findMany
+ */
+export type ReturnRequestItemFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequestItems to fetch.
+   */
+  where?: Prisma.ReturnRequestItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequestItems to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestItemOrderByWithRelationInput | Prisma.ReturnRequestItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ReturnRequestItems.
+   */
+  cursor?: Prisma.ReturnRequestItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequestItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequestItems.
+   */
+  skip?: number
+  distinct?: Prisma.ReturnRequestItemScalarFieldEnum | Prisma.ReturnRequestItemScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequestItem create
+ */
+export type ReturnRequestItemCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ReturnRequestItem.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestItemCreateInput, Prisma.ReturnRequestItemUncheckedCreateInput>
+}
+
+/**
+ * ReturnRequestItem createMany
+ */
+export type ReturnRequestItemCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ReturnRequestItems.
+   */
+  data: Prisma.ReturnRequestItemCreateManyInput | Prisma.ReturnRequestItemCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReturnRequestItem createManyAndReturn
+ */
+export type ReturnRequestItemCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * The data used to create many ReturnRequestItems.
+   */
+  data: Prisma.ReturnRequestItemCreateManyInput | Prisma.ReturnRequestItemCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReturnRequestItem update
+ */
+export type ReturnRequestItemUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ReturnRequestItem.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestItemUpdateInput, Prisma.ReturnRequestItemUncheckedUpdateInput>
+  /**
+   * Choose, which ReturnRequestItem to update.
+   */
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+}
+
+/**
+ * ReturnRequestItem updateMany
+ */
+export type ReturnRequestItemUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ReturnRequestItems.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestItemUpdateManyMutationInput, Prisma.ReturnRequestItemUncheckedUpdateManyInput>
+  /**
+   * Filter which ReturnRequestItems to update
+   */
+  where?: Prisma.ReturnRequestItemWhereInput
+  /**
+   * Limit how many ReturnRequestItems to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReturnRequestItem updateManyAndReturn
+ */
+export type ReturnRequestItemUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * The data used to update ReturnRequestItems.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestItemUpdateManyMutationInput, Prisma.ReturnRequestItemUncheckedUpdateManyInput>
+  /**
+   * Filter which ReturnRequestItems to update
+   */
+  where?: Prisma.ReturnRequestItemWhereInput
+  /**
+   * Limit how many ReturnRequestItems to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReturnRequestItem upsert
+ */
+export type ReturnRequestItemUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ReturnRequestItem to update in case it exists.
+   */
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+  /**
+   * In case the ReturnRequestItem found by the `where` argument doesn't exist, create a new ReturnRequestItem with this data.
+   */
+  create: Prisma.XOR<Prisma.ReturnRequestItemCreateInput, Prisma.ReturnRequestItemUncheckedCreateInput>
+  /**
+   * In case the ReturnRequestItem was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ReturnRequestItemUpdateInput, Prisma.ReturnRequestItemUncheckedUpdateInput>
+}
+
+/**
+ * ReturnRequestItem delete
+ */
+export type ReturnRequestItemDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  /**
+   * Filter which ReturnRequestItem to delete.
+   */
+  where: Prisma.ReturnRequestItemWhereUniqueInput
+}
+
+/**
+ * ReturnRequestItem deleteMany
+ */
+export type ReturnRequestItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReturnRequestItems to delete
+   */
+  where?: Prisma.ReturnRequestItemWhereInput
+  /**
+   * Limit how many ReturnRequestItems to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ReturnRequestItem.exchangeVariant
+ */
+export type ReturnRequestItem$exchangeVariantArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Variant
+   */
+  select?: Prisma.VariantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Variant
+   */
+  omit?: Prisma.VariantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantInclude<ExtArgs> | null
+  where?: Prisma.VariantWhereInput
+}
+
+/**
+ * ReturnRequestItem without action
+ */
+export type ReturnRequestItemDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+}
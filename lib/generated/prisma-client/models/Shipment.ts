@@ -477,6 +477,8 @@ export type ShipmentWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
   order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  events?: Prisma.ShipmentEventListRelationFilter
+  items?: Prisma.ShipmentItemListRelationFilter
 }
 
 export type ShipmentOrderByWithRelationInput = {
@@ -517,15 +519,17 @@ export type ShipmentOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   order?: Prisma.OrderOrderByWithRelationInput
+  events?: Prisma.ShipmentEventOrderByRelationAggregateInput
+  items?: Prisma.ShipmentItemOrderByRelationAggregateInput
 }
 
 export type ShipmentWhereUniqueInput = Prisma.AtLeast<{
   id?: string
-  orderId?: string
   provider_externalOrderId?: Prisma.ShipmentProviderExternalOrderIdCompoundUniqueInput
   AND?: Prisma.ShipmentWhereInput | Prisma.ShipmentWhereInput[]
   OR?: Prisma.ShipmentWhereInput[]
   NOT?: Prisma.ShipmentWhereInput | Prisma.ShipmentWhereInput[]
+  orderId?: Prisma.StringFilter<"Shipment"> | string
   provider?: Prisma.EnumShipmentProviderFilter<"Shipment"> | $Enums.ShipmentProvider
   status?: Prisma.EnumShipmentStatusFilter<"Shipment"> | $Enums.ShipmentStatus
   externalOrderId?: Prisma.StringNullableFilter<"Shipment"> | string | null
@@ -561,7 +565,9 @@ export type ShipmentWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
   order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
-}, "id" | "orderId" | "provider_externalOrderId">
+  events?: Prisma.ShipmentEventListRelationFilter
+  items?: Prisma.ShipmentItemListRelationFilter
+}, "id" | "provider_externalOrderId">
 
 export type ShipmentOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -685,7 +691,9 @@ export type ShipmentCreateInput = {
   cancelReason?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
-  order: Prisma.OrderCreateNestedOneWithoutShipmentInput
+  order: Prisma.OrderCreateNestedOneWithoutShipmentsInput
+  events?: Prisma.ShipmentEventCreateNestedManyWithoutShipmentInput
+  items?: Prisma.ShipmentItemCreateNestedManyWithoutShipmentInput
 }
 
 export type ShipmentUncheckedCreateInput = {
@@ -725,6 +733,8 @@ export type ShipmentUncheckedCreateInput = {
   cancelReason?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  events?: Prisma.ShipmentEventUncheckedCreateNestedManyWithoutShipmentInput
+  items?: Prisma.ShipmentItemUncheckedCreateNestedManyWithoutShipmentInput
 }
 
 export type ShipmentUpdateInput = {
@@ -763,7 +773,9 @@ export type ShipmentUpdateInput = {
   cancelReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  order?: Prisma.OrderUpdateOneRequiredWithoutShipmentNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutShipmentsNestedInput
+  events?: Prisma.ShipmentEventUpdateManyWithoutShipmentNestedInput
+  items?: Prisma.ShipmentItemUpdateManyWithoutShipmentNestedInput
 }
 
 export type ShipmentUncheckedUpdateInput = {
@@ -803,6 +815,8 @@ export type ShipmentUncheckedUpdateInput = {
   cancelReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  events?: Prisma.ShipmentEventUncheckedUpdateManyWithoutShipmentNestedInput
+  items?: Prisma.ShipmentItemUncheckedUpdateManyWithoutShipmentNestedInput
 }
 
 export type ShipmentCreateManyInput = {
@@ -921,9 +935,14 @@ export type ShipmentUncheckedUpdateManyInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
-export type ShipmentNullableScalarRelationFilter = {
-  is?: Prisma.ShipmentWhereInput | null
-  isNot?: Prisma.ShipmentWhereInput | null
+export type ShipmentListRelationFilter = {
+  every?: Prisma.ShipmentWhereInput
+  some?: Prisma.ShipmentWhereInput
+  none?: Prisma.ShipmentWhereInput
+}
+
+export type ShipmentOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
 }
 
 export type ShipmentProviderExternalOrderIdCompoundUniqueInput = {
@@ -1062,36 +1081,51 @@ export type ShipmentSumOrderByAggregateInput = {
   receiverAddressCode?: Prisma.SortOrder
 }
 
-export type ShipmentCreateNestedOneWithoutOrderInput = {
-  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput>
-  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput
-  connect?: Prisma.ShipmentWhereUniqueInput
+export type ShipmentScalarRelationFilter = {
+  is?: Prisma.ShipmentWhereInput
+  isNot?: Prisma.ShipmentWhereInput
 }
 
-export type ShipmentUncheckedCreateNestedOneWithoutOrderInput = {
-  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput>
-  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput
-  connect?: Prisma.ShipmentWhereUniqueInput
+export type ShipmentCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput> | Prisma.ShipmentCreateWithoutOrderInput[] | Prisma.ShipmentUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput | Prisma.ShipmentCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.ShipmentCreateManyOrderInputEnvelope
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
 }
 
-export type ShipmentUpdateOneWithoutOrderNestedInput = {
-  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput>
-  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput
-  upsert?: Prisma.ShipmentUpsertWithoutOrderInput
-  disconnect?: Prisma.ShipmentWhereInput | boolean
-  delete?: Prisma.ShipmentWhereInput | boolean
-  connect?: Prisma.ShipmentWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.ShipmentUpdateToOneWithWhereWithoutOrderInput, Prisma.ShipmentUpdateWithoutOrderInput>, Prisma.ShipmentUncheckedUpdateWithoutOrderInput>
+export type ShipmentUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput> | Prisma.ShipmentCreateWithoutOrderInput[] | Prisma.ShipmentUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput | Prisma.ShipmentCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.ShipmentCreateManyOrderInputEnvelope
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
 }
 
-export type ShipmentUncheckedUpdateOneWithoutOrderNestedInput = {
-  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput>
-  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput
-  upsert?: Prisma.ShipmentUpsertWithoutOrderInput
-  disconnect?: Prisma.ShipmentWhereInput | boolean
-  delete?: Prisma.ShipmentWhereInput | boolean
-  connect?: Prisma.ShipmentWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.ShipmentUpdateToOneWithWhereWithoutOrderInput, Prisma.ShipmentUpdateWithoutOrderInput>, Prisma.ShipmentUncheckedUpdateWithoutOrderInput>
+export type ShipmentUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput> | Prisma.ShipmentCreateWithoutOrderInput[] | Prisma.ShipmentUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput | Prisma.ShipmentCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.ShipmentUpsertWithWhereUniqueWithoutOrderInput | Prisma.ShipmentUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.ShipmentCreateManyOrderInputEnvelope
+  set?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  delete?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  update?: Prisma.ShipmentUpdateWithWhereUniqueWithoutOrderInput | Prisma.ShipmentUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.ShipmentUpdateManyWithWhereWithoutOrderInput | Prisma.ShipmentUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
+}
+
+export type ShipmentUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput> | Prisma.ShipmentCreateWithoutOrderInput[] | Prisma.ShipmentUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput | Prisma.ShipmentCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.ShipmentUpsertWithWhereUniqueWithoutOrderInput | Prisma.ShipmentUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.ShipmentCreateManyOrderInputEnvelope
+  set?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  delete?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  update?: Prisma.ShipmentUpdateWithWhereUniqueWithoutOrderInput | Prisma.ShipmentUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.ShipmentUpdateManyWithWhereWithoutOrderInput | Prisma.ShipmentUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
 }
 
 export type EnumShipmentProviderFieldUpdateOperationsInput = {
@@ -1102,18 +1136,38 @@ export type EnumShipmentStatusFieldUpdateOperationsInput = {
   set?: $Enums.ShipmentStatus
 }
 
-export type NullableIntFieldUpdateOperationsInput = {
-  set?: number | null
-  increment?: number
-  decrement?: number
-  multiply?: number
-  divide?: number
-}
-
 export type NullableBoolFieldUpdateOperationsInput = {
   set?: boolean | null
 }
 
+export type ShipmentCreateNestedOneWithoutItemsInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutItemsInput, Prisma.ShipmentUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutItemsInput
+  connect?: Prisma.ShipmentWhereUniqueInput
+}
+
+export type ShipmentUpdateOneRequiredWithoutItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutItemsInput, Prisma.ShipmentUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutItemsInput
+  upsert?: Prisma.ShipmentUpsertWithoutItemsInput
+  connect?: Prisma.ShipmentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShipmentUpdateToOneWithWhereWithoutItemsInput, Prisma.ShipmentUpdateWithoutItemsInput>, Prisma.ShipmentUncheckedUpdateWithoutItemsInput>
+}
+
+export type ShipmentCreateNestedOneWithoutEventsInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutEventsInput, Prisma.ShipmentUncheckedCreateWithoutEventsInput>
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutEventsInput
+  connect?: Prisma.ShipmentWhereUniqueInput
+}
+
+export type ShipmentUpdateOneRequiredWithoutEventsNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutEventsInput, Prisma.ShipmentUncheckedCreateWithoutEventsInput>
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutEventsInput
+  upsert?: Prisma.ShipmentUpsertWithoutEventsInput
+  connect?: Prisma.ShipmentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShipmentUpdateToOneWithWhereWithoutEventsInput, Prisma.ShipmentUpdateWithoutEventsInput>, Prisma.ShipmentUncheckedUpdateWithoutEventsInput>
+}
+
 export type ShipmentCreateWithoutOrderInput = {
   id?: string
   provider: $Enums.ShipmentProvider
@@ -1150,6 +1204,8 @@ export type ShipmentCreateWithoutOrderInput = {
   cancelReason?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  events?: Prisma.ShipmentEventCreateNestedManyWithoutShipmentInput
+  items?: Prisma.ShipmentItemCreateNestedManyWithoutShipmentInput
 }
 
 export type ShipmentUncheckedCreateWithoutOrderInput = {
@@ -1188,6 +1244,8 @@ export type ShipmentUncheckedCreateWithoutOrderInput = {
   cancelReason?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  events?: Prisma.ShipmentEventUncheckedCreateNestedManyWithoutShipmentInput
+  items?: Prisma.ShipmentItemUncheckedCreateNestedManyWithoutShipmentInput
 }
 
 export type ShipmentCreateOrConnectWithoutOrderInput = {
@@ -1195,15 +1253,457 @@ export type ShipmentCreateOrConnectWithoutOrderInput = {
   create: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput>
 }
 
-export type ShipmentUpsertWithoutOrderInput = {
+export type ShipmentCreateManyOrderInputEnvelope = {
+  data: Prisma.ShipmentCreateManyOrderInput | Prisma.ShipmentCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShipmentUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.ShipmentWhereUniqueInput
   update: Prisma.XOR<Prisma.ShipmentUpdateWithoutOrderInput, Prisma.ShipmentUncheckedUpdateWithoutOrderInput>
   create: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput>
+}
+
+export type ShipmentUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShipmentUpdateWithoutOrderInput, Prisma.ShipmentUncheckedUpdateWithoutOrderInput>
+}
+
+export type ShipmentUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.ShipmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ShipmentUpdateManyMutationInput, Prisma.ShipmentUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type ShipmentScalarWhereInput = {
+  AND?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
+  OR?: Prisma.ShipmentScalarWhereInput[]
+  NOT?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
+  id?: Prisma.StringFilter<"Shipment"> | string
+  orderId?: Prisma.StringFilter<"Shipment"> | string
+  provider?: Prisma.EnumShipmentProviderFilter<"Shipment"> | $Enums.ShipmentProvider
+  status?: Prisma.EnumShipmentStatusFilter<"Shipment"> | $Enums.ShipmentStatus
+  externalOrderId?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  requestToken?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  serviceCode?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  courierName?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  courierId?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  currency?: Prisma.EnumCurrencyNullableFilter<"Shipment"> | $Enums.Currency | null
+  amount?: Prisma.FloatNullableFilter<"Shipment"> | number | null
+  labelUrl?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  airwayBill?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  trackingUrl?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  trackingNumber?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  deliveryEtaText?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  pickupEtaText?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  weightKg?: Prisma.FloatNullableFilter<"Shipment"> | number | null
+  pieces?: Prisma.IntNullableFilter<"Shipment"> | number | null
+  lengthCm?: Prisma.FloatNullableFilter<"Shipment"> | number | null
+  widthCm?: Prisma.FloatNullableFilter<"Shipment"> | number | null
+  heightCm?: Prisma.FloatNullableFilter<"Shipment"> | number | null
+  boxSizeId?: Prisma.IntNullableFilter<"Shipment"> | number | null
+  insuranceCode?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  isCodLabel?: Prisma.BoolNullableFilter<"Shipment"> | boolean | null
+  senderAddressCode?: Prisma.IntNullableFilter<"Shipment"> | number | null
+  receiverAddressCode?: Prisma.IntNullableFilter<"Shipment"> | number | null
+  senderAddressJson?: Prisma.JsonNullableFilter<"Shipment">
+  receiverAddressJson?: Prisma.JsonNullableFilter<"Shipment">
+  rawRequest?: Prisma.JsonNullableFilter<"Shipment">
+  rawResponse?: Prisma.JsonNullableFilter<"Shipment">
+  rawCancel?: Prisma.JsonNullableFilter<"Shipment">
+  cancelledAt?: Prisma.DateTimeNullableFilter<"Shipment"> | Date | string | null
+  cancelReason?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
+}
+
+export type ShipmentCreateWithoutItemsInput = {
+  id?: string
+  provider: $Enums.ShipmentProvider
+  status?: $Enums.ShipmentStatus
+  externalOrderId?: string | null
+  requestToken?: string | null
+  serviceCode?: string | null
+  courierName?: string | null
+  courierId?: string | null
+  currency?: $Enums.Currency | null
+  amount?: number | null
+  labelUrl?: string | null
+  airwayBill?: string | null
+  trackingUrl?: string | null
+  trackingNumber?: string | null
+  deliveryEtaText?: string | null
+  pickupEtaText?: string | null
+  weightKg?: number | null
+  pieces?: number | null
+  lengthCm?: number | null
+  widthCm?: number | null
+  heightCm?: number | null
+  boxSizeId?: number | null
+  insuranceCode?: string | null
+  isCodLabel?: boolean | null
+  senderAddressCode?: number | null
+  receiverAddressCode?: number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Date | string | null
+  cancelReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutShipmentsInput
+  events?: Prisma.ShipmentEventCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentUncheckedCreateWithoutItemsInput = {
+  id?: string
+  orderId: string
+  provider: $Enums.ShipmentProvider
+  status?: $Enums.ShipmentStatus
+  externalOrderId?: string | null
+  requestToken?: string | null
+  serviceCode?: string | null
+  courierName?: string | null
+  courierId?: string | null
+  currency?: $Enums.Currency | null
+  amount?: number | null
+  labelUrl?: string | null
+  airwayBill?: string | null
+  trackingUrl?: string | null
+  trackingNumber?: string | null
+  deliveryEtaText?: string | null
+  pickupEtaText?: string | null
+  weightKg?: number | null
+  pieces?: number | null
+  lengthCm?: number | null
+  widthCm?: number | null
+  heightCm?: number | null
+  boxSizeId?: number | null
+  insuranceCode?: string | null
+  isCodLabel?: boolean | null
+  senderAddressCode?: number | null
+  receiverAddressCode?: number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Date | string | null
+  cancelReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  events?: Prisma.ShipmentEventUncheckedCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentCreateOrConnectWithoutItemsInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutItemsInput, Prisma.ShipmentUncheckedCreateWithoutItemsInput>
+}
+
+export type ShipmentUpsertWithoutItemsInput = {
+  update: Prisma.XOR<Prisma.ShipmentUpdateWithoutItemsInput, Prisma.ShipmentUncheckedUpdateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutItemsInput, Prisma.ShipmentUncheckedCreateWithoutItemsInput>
   where?: Prisma.ShipmentWhereInput
 }
 
-export type ShipmentUpdateToOneWithWhereWithoutOrderInput = {
+export type ShipmentUpdateToOneWithWhereWithoutItemsInput = {
   where?: Prisma.ShipmentWhereInput
-  data: Prisma.XOR<Prisma.ShipmentUpdateWithoutOrderInput, Prisma.ShipmentUncheckedUpdateWithoutOrderInput>
+  data: Prisma.XOR<Prisma.ShipmentUpdateWithoutItemsInput, Prisma.ShipmentUncheckedUpdateWithoutItemsInput>
+}
+
+export type ShipmentUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider
+  status?: Prisma.EnumShipmentStatusFieldUpdateOperationsInput | $Enums.ShipmentStatus
+  externalOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requestToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  labelUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  airwayBill?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pickupEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  pieces?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lengthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  widthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  boxSizeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  insuranceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isCodLabel?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  senderAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  receiverAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutShipmentsNestedInput
+  events?: Prisma.ShipmentEventUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider
+  status?: Prisma.EnumShipmentStatusFieldUpdateOperationsInput | $Enums.ShipmentStatus
+  externalOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requestToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  labelUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  airwayBill?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pickupEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  pieces?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lengthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  widthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  boxSizeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  insuranceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isCodLabel?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  senderAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  receiverAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  events?: Prisma.ShipmentEventUncheckedUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentCreateWithoutEventsInput = {
+  id?: string
+  provider: $Enums.ShipmentProvider
+  status?: $Enums.ShipmentStatus
+  externalOrderId?: string | null
+  requestToken?: string | null
+  serviceCode?: string | null
+  courierName?: string | null
+  courierId?: string | null
+  currency?: $Enums.Currency | null
+  amount?: number | null
+  labelUrl?: string | null
+  airwayBill?: string | null
+  trackingUrl?: string | null
+  trackingNumber?: string | null
+  deliveryEtaText?: string | null
+  pickupEtaText?: string | null
+  weightKg?: number | null
+  pieces?: number | null
+  lengthCm?: number | null
+  widthCm?: number | null
+  heightCm?: number | null
+  boxSizeId?: number | null
+  insuranceCode?: string | null
+  isCodLabel?: boolean | null
+  senderAddressCode?: number | null
+  receiverAddressCode?: number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Date | string | null
+  cancelReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutShipmentsInput
+  items?: Prisma.ShipmentItemCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentUncheckedCreateWithoutEventsInput = {
+  id?: string
+  orderId: string
+  provider: $Enums.ShipmentProvider
+  status?: $Enums.ShipmentStatus
+  externalOrderId?: string | null
+  requestToken?: string | null
+  serviceCode?: string | null
+  courierName?: string | null
+  courierId?: string | null
+  currency?: $Enums.Currency | null
+  amount?: number | null
+  labelUrl?: string | null
+  airwayBill?: string | null
+  trackingUrl?: string | null
+  trackingNumber?: string | null
+  deliveryEtaText?: string | null
+  pickupEtaText?: string | null
+  weightKg?: number | null
+  pieces?: number | null
+  lengthCm?: number | null
+  widthCm?: number | null
+  heightCm?: number | null
+  boxSizeId?: number | null
+  insuranceCode?: string | null
+  isCodLabel?: boolean | null
+  senderAddressCode?: number | null
+  receiverAddressCode?: number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Date | string | null
+  cancelReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.ShipmentItemUncheckedCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentCreateOrConnectWithoutEventsInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutEventsInput, Prisma.ShipmentUncheckedCreateWithoutEventsInput>
+}
+
+export type ShipmentUpsertWithoutEventsInput = {
+  update: Prisma.XOR<Prisma.ShipmentUpdateWithoutEventsInput, Prisma.ShipmentUncheckedUpdateWithoutEventsInput>
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutEventsInput, Prisma.ShipmentUncheckedCreateWithoutEventsInput>
+  where?: Prisma.ShipmentWhereInput
+}
+
+export type ShipmentUpdateToOneWithWhereWithoutEventsInput = {
+  where?: Prisma.ShipmentWhereInput
+  data: Prisma.XOR<Prisma.ShipmentUpdateWithoutEventsInput, Prisma.ShipmentUncheckedUpdateWithoutEventsInput>
+}
+
+export type ShipmentUpdateWithoutEventsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider
+  status?: Prisma.EnumShipmentStatusFieldUpdateOperationsInput | $Enums.ShipmentStatus
+  externalOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requestToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  labelUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  airwayBill?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pickupEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  pieces?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lengthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  widthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  boxSizeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  insuranceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isCodLabel?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  senderAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  receiverAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutShipmentsNestedInput
+  items?: Prisma.ShipmentItemUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateWithoutEventsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider
+  status?: Prisma.EnumShipmentStatusFieldUpdateOperationsInput | $Enums.ShipmentStatus
+  externalOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requestToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  labelUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  airwayBill?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pickupEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  pieces?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lengthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  widthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  boxSizeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  insuranceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isCodLabel?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  senderAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  receiverAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.ShipmentItemUncheckedUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentCreateManyOrderInput = {
+  id?: string
+  provider: $Enums.ShipmentProvider
+  status?: $Enums.ShipmentStatus
+  externalOrderId?: string | null
+  requestToken?: string | null
+  serviceCode?: string | null
+  courierName?: string | null
+  courierId?: string | null
+  currency?: $Enums.Currency | null
+  amount?: number | null
+  labelUrl?: string | null
+  airwayBill?: string | null
+  trackingUrl?: string | null
+  trackingNumber?: string | null
+  deliveryEtaText?: string | null
+  pickupEtaText?: string | null
+  weightKg?: number | null
+  pieces?: number | null
+  lengthCm?: number | null
+  widthCm?: number | null
+  heightCm?: number | null
+  boxSizeId?: number | null
+  insuranceCode?: string | null
+  isCodLabel?: boolean | null
+  senderAddressCode?: number | null
+  receiverAddressCode?: number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Date | string | null
+  cancelReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
 }
 
 export type ShipmentUpdateWithoutOrderInput = {
@@ -1242,6 +1742,8 @@ export type ShipmentUpdateWithoutOrderInput = {
   cancelReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  events?: Prisma.ShipmentEventUpdateManyWithoutShipmentNestedInput
+  items?: Prisma.ShipmentItemUpdateManyWithoutShipmentNestedInput
 }
 
 export type ShipmentUncheckedUpdateWithoutOrderInput = {
@@ -1280,9 +1782,87 @@ export type ShipmentUncheckedUpdateWithoutOrderInput = {
   cancelReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  events?: Prisma.ShipmentEventUncheckedUpdateManyWithoutShipmentNestedInput
+  items?: Prisma.ShipmentItemUncheckedUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumShipmentProviderFieldUpdateOperationsInput | $Enums.ShipmentProvider
+  status?: Prisma.EnumShipmentStatusFieldUpdateOperationsInput | $Enums.ShipmentStatus
+  externalOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requestToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  courierId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableEnumCurrencyFieldUpdateOperationsInput | $Enums.Currency | null
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  labelUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  airwayBill?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pickupEtaText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  pieces?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lengthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  widthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  boxSizeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  insuranceCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isCodLabel?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  senderAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  receiverAddressCode?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  senderAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  receiverAddressJson?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawRequest?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawResponse?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rawCancel?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
+/**
+ * Count Type ShipmentCountOutputType
+ */
+
+export type ShipmentCountOutputType = {
+  events: number
+  items: number
+}
+
+export type ShipmentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  events?: boolean | ShipmentCountOutputTypeCountEventsArgs
+  items?: boolean | ShipmentCountOutputTypeCountItemsArgs
+}
+
+/**
+ * ShipmentCountOutputType without action
+ */
+export type ShipmentCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentCountOutputType
+   */
+  select?: Prisma.ShipmentCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ShipmentCountOutputType without action
+ */
+export type ShipmentCountOutputTypeCountEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShipmentEventWhereInput
+}
+
+/**
+ * ShipmentCountOutputType without action
+ */
+export type ShipmentCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShipmentItemWhereInput
+}
+
 
 export type ShipmentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1322,6 +1902,9 @@ export type ShipmentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   createdAt?: boolean
   updatedAt?: boolean
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  events?: boolean | Prisma.Shipment$eventsArgs<ExtArgs>
+  items?: boolean | Prisma.Shipment$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.ShipmentCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["shipment"]>
 
 export type ShipmentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1446,6 +2029,9 @@ export type ShipmentSelectScalar = {
 export type ShipmentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "provider" | "status" | "externalOrderId" | "requestToken" | "serviceCode" | "courierName" | "courierId" | "currency" | "amount" | "labelUrl" | "airwayBill" | "trackingUrl" | "trackingNumber" | "deliveryEtaText" | "pickupEtaText" | "weightKg" | "pieces" | "lengthCm" | "widthCm" | "heightCm" | "boxSizeId" | "insuranceCode" | "isCodLabel" | "senderAddressCode" | "receiverAddressCode" | "senderAddressJson" | "receiverAddressJson" | "rawRequest" | "rawResponse" | "rawCancel" | "cancelledAt" | "cancelReason" | "createdAt" | "updatedAt", ExtArgs["result"]["shipment"]>
 export type ShipmentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  events?: boolean | Prisma.Shipment$eventsArgs<ExtArgs>
+  items?: boolean | Prisma.Shipment$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.ShipmentCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ShipmentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
@@ -1458,6 +2044,8 @@ export type $ShipmentPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
   name: "Shipment"
   objects: {
     order: Prisma.$OrderPayload<ExtArgs>
+    events: Prisma.$ShipmentEventPayload<ExtArgs>[]
+    items: Prisma.$ShipmentItemPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1891,6 +2479,8 @@ readonly fields: ShipmentFieldRefs;
 export interface Prisma__ShipmentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  events<T extends Prisma.Shipment$eventsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Shipment$eventsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  items<T extends Prisma.Shipment$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Shipment$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2351,6 +2941,54 @@ export type ShipmentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inte
   limit?: number
 }
 
+/**
+ * Shipment.events
+ */
+export type Shipment$eventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  where?: Prisma.ShipmentEventWhereInput
+  orderBy?: Prisma.ShipmentEventOrderByWithRelationInput | Prisma.ShipmentEventOrderByWithRelationInput[]
+  cursor?: Prisma.ShipmentEventWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShipmentEventScalarFieldEnum | Prisma.ShipmentEventScalarFieldEnum[]
+}
+
+/**
+ * Shipment.items
+ */
+export type Shipment$itemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  where?: Prisma.ShipmentItemWhereInput
+  orderBy?: Prisma.ShipmentItemOrderByWithRelationInput | Prisma.ShipmentItemOrderByWithRelationInput[]
+  cursor?: Prisma.ShipmentItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShipmentItemScalarFieldEnum | Prisma.ShipmentItemScalarFieldEnum[]
+}
+
 /**
  * Shipment without action
  */
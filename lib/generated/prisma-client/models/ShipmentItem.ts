@@ -0,0 +1,1469 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShipmentItem` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ShipmentItem
+ * 
+ */
+export type ShipmentItemModel = runtime.Types.Result.DefaultSelection<Prisma.$ShipmentItemPayload>
+
+export type AggregateShipmentItem = {
+  _count: ShipmentItemCountAggregateOutputType | null
+  _avg: ShipmentItemAvgAggregateOutputType | null
+  _sum: ShipmentItemSumAggregateOutputType | null
+  _min: ShipmentItemMinAggregateOutputType | null
+  _max: ShipmentItemMaxAggregateOutputType | null
+}
+
+export type ShipmentItemAvgAggregateOutputType = {
+  quantity: number | null
+}
+
+export type ShipmentItemSumAggregateOutputType = {
+  quantity: number | null
+}
+
+export type ShipmentItemMinAggregateOutputType = {
+  id: string | null
+  shipmentId: string | null
+  orderItemId: string | null
+  quantity: number | null
+}
+
+export type ShipmentItemMaxAggregateOutputType = {
+  id: string | null
+  shipmentId: string | null
+  orderItemId: string | null
+  quantity: number | null
+}
+
+export type ShipmentItemCountAggregateOutputType = {
+  id: number
+  shipmentId: number
+  orderItemId: number
+  quantity: number
+  _all: number
+}
+
+
+export type ShipmentItemAvgAggregateInputType = {
+  quantity?: true
+}
+
+export type ShipmentItemSumAggregateInputType = {
+  quantity?: true
+}
+
+export type ShipmentItemMinAggregateInputType = {
+  id?: true
+  shipmentId?: true
+  orderItemId?: true
+  quantity?: true
+}
+
+export type ShipmentItemMaxAggregateInputType = {
+  id?: true
+  shipmentId?: true
+  orderItemId?: true
+  quantity?: true
+}
+
+export type ShipmentItemCountAggregateInputType = {
+  id?: true
+  shipmentId?: true
+  orderItemId?: true
+  quantity?: true
+  _all?: true
+}
+
+export type ShipmentItemAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShipmentItem to aggregate.
+   */
+  where?: Prisma.ShipmentItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShipmentItems to fetch.
+   */
+  orderBy?: Prisma.ShipmentItemOrderByWithRelationInput | Prisma.ShipmentItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShipmentItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShipmentItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShipmentItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShipmentItems
+  **/
+  _count?: true | ShipmentItemCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ShipmentItemAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ShipmentItemSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShipmentItemMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShipmentItemMaxAggregateInputType
+}
+
+export type GetShipmentItemAggregateType<T extends ShipmentItemAggregateArgs> = {
+      [P in keyof T & keyof AggregateShipmentItem]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShipmentItem[P]>
+    : Prisma.GetScalarType<T[P], AggregateShipmentItem[P]>
+}
+
+
+
+
+export type ShipmentItemGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShipmentItemWhereInput
+  orderBy?: Prisma.ShipmentItemOrderByWithAggregationInput | Prisma.ShipmentItemOrderByWithAggregationInput[]
+  by: Prisma.ShipmentItemScalarFieldEnum[] | Prisma.ShipmentItemScalarFieldEnum
+  having?: Prisma.ShipmentItemScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShipmentItemCountAggregateInputType | true
+  _avg?: ShipmentItemAvgAggregateInputType
+  _sum?: ShipmentItemSumAggregateInputType
+  _min?: ShipmentItemMinAggregateInputType
+  _max?: ShipmentItemMaxAggregateInputType
+}
+
+export type ShipmentItemGroupByOutputType = {
+  id: string
+  shipmentId: string
+  orderItemId: string
+  quantity: number
+  _count: ShipmentItemCountAggregateOutputType | null
+  _avg: ShipmentItemAvgAggregateOutputType | null
+  _sum: ShipmentItemSumAggregateOutputType | null
+  _min: ShipmentItemMinAggregateOutputType | null
+  _max: ShipmentItemMaxAggregateOutputType | null
+}
+
+type GetShipmentItemGroupByPayload<T extends ShipmentItemGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShipmentItemGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShipmentItemGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShipmentItemGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShipmentItemGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShipmentItemWhereInput = {
+  AND?: Prisma.ShipmentItemWhereInput | Prisma.ShipmentItemWhereInput[]
+  OR?: Prisma.ShipmentItemWhereInput[]
+  NOT?: Prisma.ShipmentItemWhereInput | Prisma.ShipmentItemWhereInput[]
+  id?: Prisma.StringFilter<"ShipmentItem"> | string
+  shipmentId?: Prisma.StringFilter<"ShipmentItem"> | string
+  orderItemId?: Prisma.StringFilter<"ShipmentItem"> | string
+  quantity?: Prisma.IntFilter<"ShipmentItem"> | number
+  shipment?: Prisma.XOR<Prisma.ShipmentScalarRelationFilter, Prisma.ShipmentWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+}
+
+export type ShipmentItemOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  shipment?: Prisma.ShipmentOrderByWithRelationInput
+  orderItem?: Prisma.OrderItemOrderByWithRelationInput
+}
+
+export type ShipmentItemWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  shipmentId_orderItemId?: Prisma.ShipmentItemShipmentIdOrderItemIdCompoundUniqueInput
+  AND?: Prisma.ShipmentItemWhereInput | Prisma.ShipmentItemWhereInput[]
+  OR?: Prisma.ShipmentItemWhereInput[]
+  NOT?: Prisma.ShipmentItemWhereInput | Prisma.ShipmentItemWhereInput[]
+  shipmentId?: Prisma.StringFilter<"ShipmentItem"> | string
+  orderItemId?: Prisma.StringFilter<"ShipmentItem"> | string
+  quantity?: Prisma.IntFilter<"ShipmentItem"> | number
+  shipment?: Prisma.XOR<Prisma.ShipmentScalarRelationFilter, Prisma.ShipmentWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+}, "id" | "shipmentId_orderItemId">
+
+export type ShipmentItemOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  _count?: Prisma.ShipmentItemCountOrderByAggregateInput
+  _avg?: Prisma.ShipmentItemAvgOrderByAggregateInput
+  _max?: Prisma.ShipmentItemMaxOrderByAggregateInput
+  _min?: Prisma.ShipmentItemMinOrderByAggregateInput
+  _sum?: Prisma.ShipmentItemSumOrderByAggregateInput
+}
+
+export type ShipmentItemScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShipmentItemScalarWhereWithAggregatesInput | Prisma.ShipmentItemScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShipmentItemScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShipmentItemScalarWhereWithAggregatesInput | Prisma.ShipmentItemScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShipmentItem"> | string
+  shipmentId?: Prisma.StringWithAggregatesFilter<"ShipmentItem"> | string
+  orderItemId?: Prisma.StringWithAggregatesFilter<"ShipmentItem"> | string
+  quantity?: Prisma.IntWithAggregatesFilter<"ShipmentItem"> | number
+}
+
+export type ShipmentItemCreateInput = {
+  id?: string
+  quantity: number
+  shipment: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutShipmentItemsInput
+}
+
+export type ShipmentItemUncheckedCreateInput = {
+  id?: string
+  shipmentId: string
+  orderItemId: string
+  quantity: number
+}
+
+export type ShipmentItemUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipment?: Prisma.ShipmentUpdateOneRequiredWithoutItemsNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutShipmentItemsNestedInput
+}
+
+export type ShipmentItemUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type ShipmentItemCreateManyInput = {
+  id?: string
+  shipmentId: string
+  orderItemId: string
+  quantity: number
+}
+
+export type ShipmentItemUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type ShipmentItemUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type ShipmentItemListRelationFilter = {
+  every?: Prisma.ShipmentItemWhereInput
+  some?: Prisma.ShipmentItemWhereInput
+  none?: Prisma.ShipmentItemWhereInput
+}
+
+export type ShipmentItemOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ShipmentItemShipmentIdOrderItemIdCompoundUniqueInput = {
+  shipmentId: string
+  orderItemId: string
+}
+
+export type ShipmentItemCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+}
+
+export type ShipmentItemAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type ShipmentItemMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+}
+
+export type ShipmentItemMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+}
+
+export type ShipmentItemSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type ShipmentItemCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.ShipmentItemCreateWithoutOrderItemInput, Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput> | Prisma.ShipmentItemCreateWithoutOrderItemInput[] | Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ShipmentItemCreateOrConnectWithoutOrderItemInput | Prisma.ShipmentItemCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.ShipmentItemCreateManyOrderItemInputEnvelope
+  connect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+}
+
+export type ShipmentItemUncheckedCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.ShipmentItemCreateWithoutOrderItemInput, Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput> | Prisma.ShipmentItemCreateWithoutOrderItemInput[] | Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ShipmentItemCreateOrConnectWithoutOrderItemInput | Prisma.ShipmentItemCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.ShipmentItemCreateManyOrderItemInputEnvelope
+  connect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+}
+
+export type ShipmentItemUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentItemCreateWithoutOrderItemInput, Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput> | Prisma.ShipmentItemCreateWithoutOrderItemInput[] | Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ShipmentItemCreateOrConnectWithoutOrderItemInput | Prisma.ShipmentItemCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.ShipmentItemUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.ShipmentItemUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.ShipmentItemCreateManyOrderItemInputEnvelope
+  set?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  delete?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  connect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  update?: Prisma.ShipmentItemUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.ShipmentItemUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.ShipmentItemUpdateManyWithWhereWithoutOrderItemInput | Prisma.ShipmentItemUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.ShipmentItemScalarWhereInput | Prisma.ShipmentItemScalarWhereInput[]
+}
+
+export type ShipmentItemUncheckedUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentItemCreateWithoutOrderItemInput, Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput> | Prisma.ShipmentItemCreateWithoutOrderItemInput[] | Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ShipmentItemCreateOrConnectWithoutOrderItemInput | Prisma.ShipmentItemCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.ShipmentItemUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.ShipmentItemUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.ShipmentItemCreateManyOrderItemInputEnvelope
+  set?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  delete?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  connect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  update?: Prisma.ShipmentItemUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.ShipmentItemUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.ShipmentItemUpdateManyWithWhereWithoutOrderItemInput | Prisma.ShipmentItemUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.ShipmentItemScalarWhereInput | Prisma.ShipmentItemScalarWhereInput[]
+}
+
+export type ShipmentItemCreateNestedManyWithoutShipmentInput = {
+  create?: Prisma.XOR<Prisma.ShipmentItemCreateWithoutShipmentInput, Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput> | Prisma.ShipmentItemCreateWithoutShipmentInput[] | Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.ShipmentItemCreateOrConnectWithoutShipmentInput | Prisma.ShipmentItemCreateOrConnectWithoutShipmentInput[]
+  createMany?: Prisma.ShipmentItemCreateManyShipmentInputEnvelope
+  connect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+}
+
+export type ShipmentItemUncheckedCreateNestedManyWithoutShipmentInput = {
+  create?: Prisma.XOR<Prisma.ShipmentItemCreateWithoutShipmentInput, Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput> | Prisma.ShipmentItemCreateWithoutShipmentInput[] | Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.ShipmentItemCreateOrConnectWithoutShipmentInput | Prisma.ShipmentItemCreateOrConnectWithoutShipmentInput[]
+  createMany?: Prisma.ShipmentItemCreateManyShipmentInputEnvelope
+  connect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+}
+
+export type ShipmentItemUpdateManyWithoutShipmentNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentItemCreateWithoutShipmentInput, Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput> | Prisma.ShipmentItemCreateWithoutShipmentInput[] | Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.ShipmentItemCreateOrConnectWithoutShipmentInput | Prisma.ShipmentItemCreateOrConnectWithoutShipmentInput[]
+  upsert?: Prisma.ShipmentItemUpsertWithWhereUniqueWithoutShipmentInput | Prisma.ShipmentItemUpsertWithWhereUniqueWithoutShipmentInput[]
+  createMany?: Prisma.ShipmentItemCreateManyShipmentInputEnvelope
+  set?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  delete?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  connect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  update?: Prisma.ShipmentItemUpdateWithWhereUniqueWithoutShipmentInput | Prisma.ShipmentItemUpdateWithWhereUniqueWithoutShipmentInput[]
+  updateMany?: Prisma.ShipmentItemUpdateManyWithWhereWithoutShipmentInput | Prisma.ShipmentItemUpdateManyWithWhereWithoutShipmentInput[]
+  deleteMany?: Prisma.ShipmentItemScalarWhereInput | Prisma.ShipmentItemScalarWhereInput[]
+}
+
+export type ShipmentItemUncheckedUpdateManyWithoutShipmentNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentItemCreateWithoutShipmentInput, Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput> | Prisma.ShipmentItemCreateWithoutShipmentInput[] | Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.ShipmentItemCreateOrConnectWithoutShipmentInput | Prisma.ShipmentItemCreateOrConnectWithoutShipmentInput[]
+  upsert?: Prisma.ShipmentItemUpsertWithWhereUniqueWithoutShipmentInput | Prisma.ShipmentItemUpsertWithWhereUniqueWithoutShipmentInput[]
+  createMany?: Prisma.ShipmentItemCreateManyShipmentInputEnvelope
+  set?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  delete?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  connect?: Prisma.ShipmentItemWhereUniqueInput | Prisma.ShipmentItemWhereUniqueInput[]
+  update?: Prisma.ShipmentItemUpdateWithWhereUniqueWithoutShipmentInput | Prisma.ShipmentItemUpdateWithWhereUniqueWithoutShipmentInput[]
+  updateMany?: Prisma.ShipmentItemUpdateManyWithWhereWithoutShipmentInput | Prisma.ShipmentItemUpdateManyWithWhereWithoutShipmentInput[]
+  deleteMany?: Prisma.ShipmentItemScalarWhereInput | Prisma.ShipmentItemScalarWhereInput[]
+}
+
+export type ShipmentItemCreateWithoutOrderItemInput = {
+  id?: string
+  quantity: number
+  shipment: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+}
+
+export type ShipmentItemUncheckedCreateWithoutOrderItemInput = {
+  id?: string
+  shipmentId: string
+  quantity: number
+}
+
+export type ShipmentItemCreateOrConnectWithoutOrderItemInput = {
+  where: Prisma.ShipmentItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShipmentItemCreateWithoutOrderItemInput, Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput>
+}
+
+export type ShipmentItemCreateManyOrderItemInputEnvelope = {
+  data: Prisma.ShipmentItemCreateManyOrderItemInput | Prisma.ShipmentItemCreateManyOrderItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShipmentItemUpsertWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.ShipmentItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShipmentItemUpdateWithoutOrderItemInput, Prisma.ShipmentItemUncheckedUpdateWithoutOrderItemInput>
+  create: Prisma.XOR<Prisma.ShipmentItemCreateWithoutOrderItemInput, Prisma.ShipmentItemUncheckedCreateWithoutOrderItemInput>
+}
+
+export type ShipmentItemUpdateWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.ShipmentItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShipmentItemUpdateWithoutOrderItemInput, Prisma.ShipmentItemUncheckedUpdateWithoutOrderItemInput>
+}
+
+export type ShipmentItemUpdateManyWithWhereWithoutOrderItemInput = {
+  where: Prisma.ShipmentItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ShipmentItemUpdateManyMutationInput, Prisma.ShipmentItemUncheckedUpdateManyWithoutOrderItemInput>
+}
+
+export type ShipmentItemScalarWhereInput = {
+  AND?: Prisma.ShipmentItemScalarWhereInput | Prisma.ShipmentItemScalarWhereInput[]
+  OR?: Prisma.ShipmentItemScalarWhereInput[]
+  NOT?: Prisma.ShipmentItemScalarWhereInput | Prisma.ShipmentItemScalarWhereInput[]
+  id?: Prisma.StringFilter<"ShipmentItem"> | string
+  shipmentId?: Prisma.StringFilter<"ShipmentItem"> | string
+  orderItemId?: Prisma.StringFilter<"ShipmentItem"> | string
+  quantity?: Prisma.IntFilter<"ShipmentItem"> | number
+}
+
+export type ShipmentItemCreateWithoutShipmentInput = {
+  id?: string
+  quantity: number
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutShipmentItemsInput
+}
+
+export type ShipmentItemUncheckedCreateWithoutShipmentInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+}
+
+export type ShipmentItemCreateOrConnectWithoutShipmentInput = {
+  where: Prisma.ShipmentItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShipmentItemCreateWithoutShipmentInput, Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput>
+}
+
+export type ShipmentItemCreateManyShipmentInputEnvelope = {
+  data: Prisma.ShipmentItemCreateManyShipmentInput | Prisma.ShipmentItemCreateManyShipmentInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShipmentItemUpsertWithWhereUniqueWithoutShipmentInput = {
+  where: Prisma.ShipmentItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShipmentItemUpdateWithoutShipmentInput, Prisma.ShipmentItemUncheckedUpdateWithoutShipmentInput>
+  create: Prisma.XOR<Prisma.ShipmentItemCreateWithoutShipmentInput, Prisma.ShipmentItemUncheckedCreateWithoutShipmentInput>
+}
+
+export type ShipmentItemUpdateWithWhereUniqueWithoutShipmentInput = {
+  where: Prisma.ShipmentItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShipmentItemUpdateWithoutShipmentInput, Prisma.ShipmentItemUncheckedUpdateWithoutShipmentInput>
+}
+
+export type ShipmentItemUpdateManyWithWhereWithoutShipmentInput = {
+  where: Prisma.ShipmentItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ShipmentItemUpdateManyMutationInput, Prisma.ShipmentItemUncheckedUpdateManyWithoutShipmentInput>
+}
+
+export type ShipmentItemCreateManyOrderItemInput = {
+  id?: string
+  shipmentId: string
+  quantity: number
+}
+
+export type ShipmentItemUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipment?: Prisma.ShipmentUpdateOneRequiredWithoutItemsNestedInput
+}
+
+export type ShipmentItemUncheckedUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type ShipmentItemUncheckedUpdateManyWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type ShipmentItemCreateManyShipmentInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+}
+
+export type ShipmentItemUpdateWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutShipmentItemsNestedInput
+}
+
+export type ShipmentItemUncheckedUpdateWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type ShipmentItemUncheckedUpdateManyWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+
+
+export type ShipmentItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shipmentId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shipmentItem"]>
+
+export type ShipmentItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shipmentId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shipmentItem"]>
+
+export type ShipmentItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shipmentId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shipmentItem"]>
+
+export type ShipmentItemSelectScalar = {
+  id?: boolean
+  shipmentId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+}
+
+export type ShipmentItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "shipmentId" | "orderItemId" | "quantity", ExtArgs["result"]["shipmentItem"]>
+export type ShipmentItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}
+export type ShipmentItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}
+export type ShipmentItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}
+
+export type $ShipmentItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShipmentItem"
+  objects: {
+    shipment: Prisma.$ShipmentPayload<ExtArgs>
+    orderItem: Prisma.$OrderItemPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    shipmentId: string
+    orderItemId: string
+    quantity: number
+  }, ExtArgs["result"]["shipmentItem"]>
+  composites: {}
+}
+
+export type ShipmentItemGetPayload<S extends boolean | null | undefined | ShipmentItemDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload, S>
+
+export type ShipmentItemCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShipmentItemFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShipmentItemCountAggregateInputType | true
+  }
+
+export interface ShipmentItemDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShipmentItem'], meta: { name: 'ShipmentItem' } }
+  /**
+   * Find zero or one ShipmentItem that matches the filter.
+   * @param {ShipmentItemFindUniqueArgs} args - Arguments to find a ShipmentItem
+   * @example
+   * // Get one ShipmentItem
+   * const shipmentItem = await prisma.shipmentItem.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShipmentItemFindUniqueArgs>(args: Prisma.SelectSubset<T, ShipmentItemFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShipmentItemClient<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShipmentItem that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShipmentItemFindUniqueOrThrowArgs} args - Arguments to find a ShipmentItem
+   * @example
+   * // Get one ShipmentItem
+   * const shipmentItem = await prisma.shipmentItem.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShipmentItemFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShipmentItemFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShipmentItemClient<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShipmentItem that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentItemFindFirstArgs} args - Arguments to find a ShipmentItem
+   * @example
+   * // Get one ShipmentItem
+   * const shipmentItem = await prisma.shipmentItem.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShipmentItemFindFirstArgs>(args?: Prisma.SelectSubset<T, ShipmentItemFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShipmentItemClient<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShipmentItem that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentItemFindFirstOrThrowArgs} args - Arguments to find a ShipmentItem
+   * @example
+   * // Get one ShipmentItem
+   * const shipmentItem = await prisma.shipmentItem.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShipmentItemFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShipmentItemFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShipmentItemClient<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShipmentItems that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentItemFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShipmentItems
+   * const shipmentItems = await prisma.shipmentItem.findMany()
+   * 
+   * // Get first 10 ShipmentItems
+   * const shipmentItems = await prisma.shipmentItem.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shipmentItemWithIdOnly = await prisma.shipmentItem.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShipmentItemFindManyArgs>(args?: Prisma.SelectSubset<T, ShipmentItemFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShipmentItem.
+   * @param {ShipmentItemCreateArgs} args - Arguments to create a ShipmentItem.
+   * @example
+   * // Create one ShipmentItem
+   * const ShipmentItem = await prisma.shipmentItem.create({
+   *   data: {
+   *     // ... data to create a ShipmentItem
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShipmentItemCreateArgs>(args: Prisma.SelectSubset<T, ShipmentItemCreateArgs<ExtArgs>>): Prisma.Prisma__ShipmentItemClient<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShipmentItems.
+   * @param {ShipmentItemCreateManyArgs} args - Arguments to create many ShipmentItems.
+   * @example
+   * // Create many ShipmentItems
+   * const shipmentItem = await prisma.shipmentItem.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShipmentItemCreateManyArgs>(args?: Prisma.SelectSubset<T, ShipmentItemCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShipmentItems and returns the data saved in the database.
+   * @param {ShipmentItemCreateManyAndReturnArgs} args - Arguments to create many ShipmentItems.
+   * @example
+   * // Create many ShipmentItems
+   * const shipmentItem = await prisma.shipmentItem.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShipmentItems and only return the `id`
+   * const shipmentItemWithIdOnly = await prisma.shipmentItem.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShipmentItemCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShipmentItemCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShipmentItem.
+   * @param {ShipmentItemDeleteArgs} args - Arguments to delete one ShipmentItem.
+   * @example
+   * // Delete one ShipmentItem
+   * const ShipmentItem = await prisma.shipmentItem.delete({
+   *   where: {
+   *     // ... filter to delete one ShipmentItem
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShipmentItemDeleteArgs>(args: Prisma.SelectSubset<T, ShipmentItemDeleteArgs<ExtArgs>>): Prisma.Prisma__ShipmentItemClient<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShipmentItem.
+   * @param {ShipmentItemUpdateArgs} args - Arguments to update one ShipmentItem.
+   * @example
+   * // Update one ShipmentItem
+   * const shipmentItem = await prisma.shipmentItem.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShipmentItemUpdateArgs>(args: Prisma.SelectSubset<T, ShipmentItemUpdateArgs<ExtArgs>>): Prisma.Prisma__ShipmentItemClient<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShipmentItems.
+   * @param {ShipmentItemDeleteManyArgs} args - Arguments to filter ShipmentItems to delete.
+   * @example
+   * // Delete a few ShipmentItems
+   * const { count } = await prisma.shipmentItem.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShipmentItemDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShipmentItemDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShipmentItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentItemUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShipmentItems
+   * const shipmentItem = await prisma.shipmentItem.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShipmentItemUpdateManyArgs>(args: Prisma.SelectSubset<T, ShipmentItemUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShipmentItems and returns the data updated in the database.
+   * @param {ShipmentItemUpdateManyAndReturnArgs} args - Arguments to update many ShipmentItems.
+   * @example
+   * // Update many ShipmentItems
+   * const shipmentItem = await prisma.shipmentItem.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShipmentItems and only return the `id`
+   * const shipmentItemWithIdOnly = await prisma.shipmentItem.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShipmentItemUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShipmentItemUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShipmentItem.
+   * @param {ShipmentItemUpsertArgs} args - Arguments to update or create a ShipmentItem.
+   * @example
+   * // Update or create a ShipmentItem
+   * const shipmentItem = await prisma.shipmentItem.upsert({
+   *   create: {
+   *     // ... data to create a ShipmentItem
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShipmentItem we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShipmentItemUpsertArgs>(args: Prisma.SelectSubset<T, ShipmentItemUpsertArgs<ExtArgs>>): Prisma.Prisma__ShipmentItemClient<runtime.Types.Result.GetResult<Prisma.$ShipmentItemPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShipmentItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentItemCountArgs} args - Arguments to filter ShipmentItems to count.
+   * @example
+   * // Count the number of ShipmentItems
+   * const count = await prisma.shipmentItem.count({
+   *   where: {
+   *     // ... the filter for the ShipmentItems we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShipmentItemCountArgs>(
+    args?: Prisma.Subset<T, ShipmentItemCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShipmentItemCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShipmentItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentItemAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShipmentItemAggregateArgs>(args: Prisma.Subset<T, ShipmentItemAggregateArgs>): Prisma.PrismaPromise<GetShipmentItemAggregateType<T>>
+
+  /**
+   * Group by ShipmentItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentItemGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShipmentItemGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShipmentItemGroupByArgs['orderBy'] }
+      : { orderBy?: ShipmentItemGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShipmentItemGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShipmentItemGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShipmentItem model
+ */
+readonly fields: ShipmentItemFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShipmentItem.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShipmentItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  shipment<T extends Prisma.ShipmentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShipmentDefaultArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  orderItem<T extends Prisma.OrderItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItemDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderItemClient<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShipmentItem model
+ */
+export interface ShipmentItemFieldRefs {
+  readonly id: Prisma.FieldRef<"ShipmentItem", 'String'>
+  readonly shipmentId: Prisma.FieldRef<"ShipmentItem", 'String'>
+  readonly orderItemId: Prisma.FieldRef<"ShipmentItem", 'String'>
+  readonly quantity: Prisma.FieldRef<"ShipmentItem", 'Int'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShipmentItem findUnique
+ */
+export type ShipmentItemFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentItem to fetch.
+   */
+  where: Prisma.ShipmentItemWhereUniqueInput
+}
+
+/**
+ * ShipmentItem findUniqueOrThrow
+ */
+export type ShipmentItemFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentItem to fetch.
+   */
+  where: Prisma.ShipmentItemWhereUniqueInput
+}
+
+/**
+ * ShipmentItem findFirst
+ */
+export type ShipmentItemFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentItem to fetch.
+   */
+  where?: Prisma.ShipmentItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShipmentItems to fetch.
+   */
+  orderBy?: Prisma.ShipmentItemOrderByWithRelationInput | Prisma.ShipmentItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShipmentItems.
+   */
+  cursor?: Prisma.ShipmentItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShipmentItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShipmentItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShipmentItems.
+   */
+  distinct?: Prisma.ShipmentItemScalarFieldEnum | Prisma.ShipmentItemScalarFieldEnum[]
+}
+
+/**
+ * ShipmentItem findFirstOrThrow
+ */
+export type ShipmentItemFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentItem to fetch.
+   */
+  where?: Prisma.ShipmentItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShipmentItems to fetch.
+   */
+  orderBy?: Prisma.ShipmentItemOrderByWithRelationInput | Prisma.ShipmentItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShipmentItems.
+   */
+  cursor?: Prisma.ShipmentItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShipmentItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShipmentItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShipmentItems.
+   */
+  distinct?: Prisma.ShipmentItemScalarFieldEnum | Prisma.ShipmentItemScalarFieldEnum[]
+}
+
+/**
+ * ShipmentItem findMany
+ */
+export type ShipmentItemFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentItems to fetch.
+   */
+  where?: Prisma.ShipmentItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShipmentItems to fetch.
+   */
+  orderBy?: Prisma.ShipmentItemOrderByWithRelationInput | Prisma.ShipmentItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShipmentItems.
+   */
+  cursor?: Prisma.ShipmentItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShipmentItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShipmentItems.
+   */
+  skip?: number
+  distinct?: Prisma.ShipmentItemScalarFieldEnum | Prisma.ShipmentItemScalarFieldEnum[]
+}
+
+/**
+ * ShipmentItem create
+ */
+export type ShipmentItemCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShipmentItem.
+   */
+  data: Prisma.XOR<Prisma.ShipmentItemCreateInput, Prisma.ShipmentItemUncheckedCreateInput>
+}
+
+/**
+ * ShipmentItem createMany
+ */
+export type ShipmentItemCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShipmentItems.
+   */
+  data: Prisma.ShipmentItemCreateManyInput | Prisma.ShipmentItemCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShipmentItem createManyAndReturn
+ */
+export type ShipmentItemCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShipmentItems.
+   */
+  data: Prisma.ShipmentItemCreateManyInput | Prisma.ShipmentItemCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShipmentItem update
+ */
+export type ShipmentItemUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShipmentItem.
+   */
+  data: Prisma.XOR<Prisma.ShipmentItemUpdateInput, Prisma.ShipmentItemUncheckedUpdateInput>
+  /**
+   * Choose, which ShipmentItem to update.
+   */
+  where: Prisma.ShipmentItemWhereUniqueInput
+}
+
+/**
+ * ShipmentItem updateMany
+ */
+export type ShipmentItemUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShipmentItems.
+   */
+  data: Prisma.XOR<Prisma.ShipmentItemUpdateManyMutationInput, Prisma.ShipmentItemUncheckedUpdateManyInput>
+  /**
+   * Filter which ShipmentItems to update
+   */
+  where?: Prisma.ShipmentItemWhereInput
+  /**
+   * Limit how many ShipmentItems to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShipmentItem updateManyAndReturn
+ */
+export type ShipmentItemUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * The data used to update ShipmentItems.
+   */
+  data: Prisma.XOR<Prisma.ShipmentItemUpdateManyMutationInput, Prisma.ShipmentItemUncheckedUpdateManyInput>
+  /**
+   * Filter which ShipmentItems to update
+   */
+  where?: Prisma.ShipmentItemWhereInput
+  /**
+   * Limit how many ShipmentItems to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShipmentItem upsert
+ */
+export type ShipmentItemUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShipmentItem to update in case it exists.
+   */
+  where: Prisma.ShipmentItemWhereUniqueInput
+  /**
+   * In case the ShipmentItem found by the `where` argument doesn't exist, create a new ShipmentItem with this data.
+   */
+  create: Prisma.XOR<Prisma.ShipmentItemCreateInput, Prisma.ShipmentItemUncheckedCreateInput>
+  /**
+   * In case the ShipmentItem was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShipmentItemUpdateInput, Prisma.ShipmentItemUncheckedUpdateInput>
+}
+
+/**
+ * ShipmentItem delete
+ */
+export type ShipmentItemDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+  /**
+   * Filter which ShipmentItem to delete.
+   */
+  where: Prisma.ShipmentItemWhereUniqueInput
+}
+
+/**
+ * ShipmentItem deleteMany
+ */
+export type ShipmentItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShipmentItems to delete
+   */
+  where?: Prisma.ShipmentItemWhereInput
+  /**
+   * Limit how many ShipmentItems to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShipmentItem without action
+ */
+export type ShipmentItemDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentItem
+   */
+  select?: Prisma.ShipmentItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentItem
+   */
+  omit?: Prisma.ShipmentItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentItemInclude<ExtArgs> | null
+}
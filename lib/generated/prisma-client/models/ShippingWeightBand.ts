@@ -0,0 +1,1484 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShippingWeightBand` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ShippingWeightBand
+ * 
+ */
+export type ShippingWeightBandModel = runtime.Types.Result.DefaultSelection<Prisma.$ShippingWeightBandPayload>
+
+export type AggregateShippingWeightBand = {
+  _count: ShippingWeightBandCountAggregateOutputType | null
+  _avg: ShippingWeightBandAvgAggregateOutputType | null
+  _sum: ShippingWeightBandSumAggregateOutputType | null
+  _min: ShippingWeightBandMinAggregateOutputType | null
+  _max: ShippingWeightBandMaxAggregateOutputType | null
+}
+
+export type ShippingWeightBandAvgAggregateOutputType = {
+  maxWeightKg: number | null
+  feeNGN: number | null
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+}
+
+export type ShippingWeightBandSumAggregateOutputType = {
+  maxWeightKg: number | null
+  feeNGN: number | null
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+}
+
+export type ShippingWeightBandMinAggregateOutputType = {
+  id: string | null
+  zoneId: string | null
+  maxWeightKg: number | null
+  feeNGN: number | null
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+}
+
+export type ShippingWeightBandMaxAggregateOutputType = {
+  id: string | null
+  zoneId: string | null
+  maxWeightKg: number | null
+  feeNGN: number | null
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+}
+
+export type ShippingWeightBandCountAggregateOutputType = {
+  id: number
+  zoneId: number
+  maxWeightKg: number
+  feeNGN: number
+  feeUSD: number
+  feeEUR: number
+  feeGBP: number
+  _all: number
+}
+
+
+export type ShippingWeightBandAvgAggregateInputType = {
+  maxWeightKg?: true
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+}
+
+export type ShippingWeightBandSumAggregateInputType = {
+  maxWeightKg?: true
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+}
+
+export type ShippingWeightBandMinAggregateInputType = {
+  id?: true
+  zoneId?: true
+  maxWeightKg?: true
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+}
+
+export type ShippingWeightBandMaxAggregateInputType = {
+  id?: true
+  zoneId?: true
+  maxWeightKg?: true
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+}
+
+export type ShippingWeightBandCountAggregateInputType = {
+  id?: true
+  zoneId?: true
+  maxWeightKg?: true
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+  _all?: true
+}
+
+export type ShippingWeightBandAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShippingWeightBand to aggregate.
+   */
+  where?: Prisma.ShippingWeightBandWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingWeightBands to fetch.
+   */
+  orderBy?: Prisma.ShippingWeightBandOrderByWithRelationInput | Prisma.ShippingWeightBandOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShippingWeightBandWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingWeightBands from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingWeightBands.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShippingWeightBands
+  **/
+  _count?: true | ShippingWeightBandCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ShippingWeightBandAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ShippingWeightBandSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShippingWeightBandMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShippingWeightBandMaxAggregateInputType
+}
+
+export type GetShippingWeightBandAggregateType<T extends ShippingWeightBandAggregateArgs> = {
+      [P in keyof T & keyof AggregateShippingWeightBand]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShippingWeightBand[P]>
+    : Prisma.GetScalarType<T[P], AggregateShippingWeightBand[P]>
+}
+
+
+
+
+export type ShippingWeightBandGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShippingWeightBandWhereInput
+  orderBy?: Prisma.ShippingWeightBandOrderByWithAggregationInput | Prisma.ShippingWeightBandOrderByWithAggregationInput[]
+  by: Prisma.ShippingWeightBandScalarFieldEnum[] | Prisma.ShippingWeightBandScalarFieldEnum
+  having?: Prisma.ShippingWeightBandScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShippingWeightBandCountAggregateInputType | true
+  _avg?: ShippingWeightBandAvgAggregateInputType
+  _sum?: ShippingWeightBandSumAggregateInputType
+  _min?: ShippingWeightBandMinAggregateInputType
+  _max?: ShippingWeightBandMaxAggregateInputType
+}
+
+export type ShippingWeightBandGroupByOutputType = {
+  id: string
+  zoneId: string
+  maxWeightKg: number
+  feeNGN: number
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+  _count: ShippingWeightBandCountAggregateOutputType | null
+  _avg: ShippingWeightBandAvgAggregateOutputType | null
+  _sum: ShippingWeightBandSumAggregateOutputType | null
+  _min: ShippingWeightBandMinAggregateOutputType | null
+  _max: ShippingWeightBandMaxAggregateOutputType | null
+}
+
+type GetShippingWeightBandGroupByPayload<T extends ShippingWeightBandGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShippingWeightBandGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShippingWeightBandGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShippingWeightBandGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShippingWeightBandGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShippingWeightBandWhereInput = {
+  AND?: Prisma.ShippingWeightBandWhereInput | Prisma.ShippingWeightBandWhereInput[]
+  OR?: Prisma.ShippingWeightBandWhereInput[]
+  NOT?: Prisma.ShippingWeightBandWhereInput | Prisma.ShippingWeightBandWhereInput[]
+  id?: Prisma.StringFilter<"ShippingWeightBand"> | string
+  zoneId?: Prisma.StringFilter<"ShippingWeightBand"> | string
+  maxWeightKg?: Prisma.FloatFilter<"ShippingWeightBand"> | number
+  feeNGN?: Prisma.FloatFilter<"ShippingWeightBand"> | number
+  feeUSD?: Prisma.FloatNullableFilter<"ShippingWeightBand"> | number | null
+  feeEUR?: Prisma.FloatNullableFilter<"ShippingWeightBand"> | number | null
+  feeGBP?: Prisma.FloatNullableFilter<"ShippingWeightBand"> | number | null
+  zone?: Prisma.XOR<Prisma.ShippingZoneScalarRelationFilter, Prisma.ShippingZoneWhereInput>
+}
+
+export type ShippingWeightBandOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  maxWeightKg?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  feeEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  feeGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  zone?: Prisma.ShippingZoneOrderByWithRelationInput
+}
+
+export type ShippingWeightBandWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  zoneId_maxWeightKg?: Prisma.ShippingWeightBandZoneIdMaxWeightKgCompoundUniqueInput
+  AND?: Prisma.ShippingWeightBandWhereInput | Prisma.ShippingWeightBandWhereInput[]
+  OR?: Prisma.ShippingWeightBandWhereInput[]
+  NOT?: Prisma.ShippingWeightBandWhereInput | Prisma.ShippingWeightBandWhereInput[]
+  zoneId?: Prisma.StringFilter<"ShippingWeightBand"> | string
+  maxWeightKg?: Prisma.FloatFilter<"ShippingWeightBand"> | number
+  feeNGN?: Prisma.FloatFilter<"ShippingWeightBand"> | number
+  feeUSD?: Prisma.FloatNullableFilter<"ShippingWeightBand"> | number | null
+  feeEUR?: Prisma.FloatNullableFilter<"ShippingWeightBand"> | number | null
+  feeGBP?: Prisma.FloatNullableFilter<"ShippingWeightBand"> | number | null
+  zone?: Prisma.XOR<Prisma.ShippingZoneScalarRelationFilter, Prisma.ShippingZoneWhereInput>
+}, "id" | "zoneId_maxWeightKg">
+
+export type ShippingWeightBandOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  maxWeightKg?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  feeEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  feeGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.ShippingWeightBandCountOrderByAggregateInput
+  _avg?: Prisma.ShippingWeightBandAvgOrderByAggregateInput
+  _max?: Prisma.ShippingWeightBandMaxOrderByAggregateInput
+  _min?: Prisma.ShippingWeightBandMinOrderByAggregateInput
+  _sum?: Prisma.ShippingWeightBandSumOrderByAggregateInput
+}
+
+export type ShippingWeightBandScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShippingWeightBandScalarWhereWithAggregatesInput | Prisma.ShippingWeightBandScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShippingWeightBandScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShippingWeightBandScalarWhereWithAggregatesInput | Prisma.ShippingWeightBandScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShippingWeightBand"> | string
+  zoneId?: Prisma.StringWithAggregatesFilter<"ShippingWeightBand"> | string
+  maxWeightKg?: Prisma.FloatWithAggregatesFilter<"ShippingWeightBand"> | number
+  feeNGN?: Prisma.FloatWithAggregatesFilter<"ShippingWeightBand"> | number
+  feeUSD?: Prisma.FloatNullableWithAggregatesFilter<"ShippingWeightBand"> | number | null
+  feeEUR?: Prisma.FloatNullableWithAggregatesFilter<"ShippingWeightBand"> | number | null
+  feeGBP?: Prisma.FloatNullableWithAggregatesFilter<"ShippingWeightBand"> | number | null
+}
+
+export type ShippingWeightBandCreateInput = {
+  id?: string
+  maxWeightKg: number
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+  zone: Prisma.ShippingZoneCreateNestedOneWithoutWeightBandsInput
+}
+
+export type ShippingWeightBandUncheckedCreateInput = {
+  id?: string
+  zoneId: string
+  maxWeightKg: number
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+}
+
+export type ShippingWeightBandUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  maxWeightKg?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  zone?: Prisma.ShippingZoneUpdateOneRequiredWithoutWeightBandsNestedInput
+}
+
+export type ShippingWeightBandUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  zoneId?: Prisma.StringFieldUpdateOperationsInput | string
+  maxWeightKg?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+}
+
+export type ShippingWeightBandCreateManyInput = {
+  id?: string
+  zoneId: string
+  maxWeightKg: number
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+}
+
+export type ShippingWeightBandUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  maxWeightKg?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+}
+
+export type ShippingWeightBandUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  zoneId?: Prisma.StringFieldUpdateOperationsInput | string
+  maxWeightKg?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+}
+
+export type ShippingWeightBandListRelationFilter = {
+  every?: Prisma.ShippingWeightBandWhereInput
+  some?: Prisma.ShippingWeightBandWhereInput
+  none?: Prisma.ShippingWeightBandWhereInput
+}
+
+export type ShippingWeightBandOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ShippingWeightBandZoneIdMaxWeightKgCompoundUniqueInput = {
+  zoneId: string
+  maxWeightKg: number
+}
+
+export type ShippingWeightBandCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  maxWeightKg?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+}
+
+export type ShippingWeightBandAvgOrderByAggregateInput = {
+  maxWeightKg?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+}
+
+export type ShippingWeightBandMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  maxWeightKg?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+}
+
+export type ShippingWeightBandMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  maxWeightKg?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+}
+
+export type ShippingWeightBandSumOrderByAggregateInput = {
+  maxWeightKg?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+}
+
+export type ShippingWeightBandCreateNestedManyWithoutZoneInput = {
+  create?: Prisma.XOR<Prisma.ShippingWeightBandCreateWithoutZoneInput, Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput> | Prisma.ShippingWeightBandCreateWithoutZoneInput[] | Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput[]
+  connectOrCreate?: Prisma.ShippingWeightBandCreateOrConnectWithoutZoneInput | Prisma.ShippingWeightBandCreateOrConnectWithoutZoneInput[]
+  createMany?: Prisma.ShippingWeightBandCreateManyZoneInputEnvelope
+  connect?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+}
+
+export type ShippingWeightBandUncheckedCreateNestedManyWithoutZoneInput = {
+  create?: Prisma.XOR<Prisma.ShippingWeightBandCreateWithoutZoneInput, Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput> | Prisma.ShippingWeightBandCreateWithoutZoneInput[] | Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput[]
+  connectOrCreate?: Prisma.ShippingWeightBandCreateOrConnectWithoutZoneInput | Prisma.ShippingWeightBandCreateOrConnectWithoutZoneInput[]
+  createMany?: Prisma.ShippingWeightBandCreateManyZoneInputEnvelope
+  connect?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+}
+
+export type ShippingWeightBandUpdateManyWithoutZoneNestedInput = {
+  create?: Prisma.XOR<Prisma.ShippingWeightBandCreateWithoutZoneInput, Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput> | Prisma.ShippingWeightBandCreateWithoutZoneInput[] | Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput[]
+  connectOrCreate?: Prisma.ShippingWeightBandCreateOrConnectWithoutZoneInput | Prisma.ShippingWeightBandCreateOrConnectWithoutZoneInput[]
+  upsert?: Prisma.ShippingWeightBandUpsertWithWhereUniqueWithoutZoneInput | Prisma.ShippingWeightBandUpsertWithWhereUniqueWithoutZoneInput[]
+  createMany?: Prisma.ShippingWeightBandCreateManyZoneInputEnvelope
+  set?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+  disconnect?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+  delete?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+  connect?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+  update?: Prisma.ShippingWeightBandUpdateWithWhereUniqueWithoutZoneInput | Prisma.ShippingWeightBandUpdateWithWhereUniqueWithoutZoneInput[]
+  updateMany?: Prisma.ShippingWeightBandUpdateManyWithWhereWithoutZoneInput | Prisma.ShippingWeightBandUpdateManyWithWhereWithoutZoneInput[]
+  deleteMany?: Prisma.ShippingWeightBandScalarWhereInput | Prisma.ShippingWeightBandScalarWhereInput[]
+}
+
+export type ShippingWeightBandUncheckedUpdateManyWithoutZoneNestedInput = {
+  create?: Prisma.XOR<Prisma.ShippingWeightBandCreateWithoutZoneInput, Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput> | Prisma.ShippingWeightBandCreateWithoutZoneInput[] | Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput[]
+  connectOrCreate?: Prisma.ShippingWeightBandCreateOrConnectWithoutZoneInput | Prisma.ShippingWeightBandCreateOrConnectWithoutZoneInput[]
+  upsert?: Prisma.ShippingWeightBandUpsertWithWhereUniqueWithoutZoneInput | Prisma.ShippingWeightBandUpsertWithWhereUniqueWithoutZoneInput[]
+  createMany?: Prisma.ShippingWeightBandCreateManyZoneInputEnvelope
+  set?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+  disconnect?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+  delete?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+  connect?: Prisma.ShippingWeightBandWhereUniqueInput | Prisma.ShippingWeightBandWhereUniqueInput[]
+  update?: Prisma.ShippingWeightBandUpdateWithWhereUniqueWithoutZoneInput | Prisma.ShippingWeightBandUpdateWithWhereUniqueWithoutZoneInput[]
+  updateMany?: Prisma.ShippingWeightBandUpdateManyWithWhereWithoutZoneInput | Prisma.ShippingWeightBandUpdateManyWithWhereWithoutZoneInput[]
+  deleteMany?: Prisma.ShippingWeightBandScalarWhereInput | Prisma.ShippingWeightBandScalarWhereInput[]
+}
+
+export type ShippingWeightBandCreateWithoutZoneInput = {
+  id?: string
+  maxWeightKg: number
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+}
+
+export type ShippingWeightBandUncheckedCreateWithoutZoneInput = {
+  id?: string
+  maxWeightKg: number
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+}
+
+export type ShippingWeightBandCreateOrConnectWithoutZoneInput = {
+  where: Prisma.ShippingWeightBandWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShippingWeightBandCreateWithoutZoneInput, Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput>
+}
+
+export type ShippingWeightBandCreateManyZoneInputEnvelope = {
+  data: Prisma.ShippingWeightBandCreateManyZoneInput | Prisma.ShippingWeightBandCreateManyZoneInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShippingWeightBandUpsertWithWhereUniqueWithoutZoneInput = {
+  where: Prisma.ShippingWeightBandWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShippingWeightBandUpdateWithoutZoneInput, Prisma.ShippingWeightBandUncheckedUpdateWithoutZoneInput>
+  create: Prisma.XOR<Prisma.ShippingWeightBandCreateWithoutZoneInput, Prisma.ShippingWeightBandUncheckedCreateWithoutZoneInput>
+}
+
+export type ShippingWeightBandUpdateWithWhereUniqueWithoutZoneInput = {
+  where: Prisma.ShippingWeightBandWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShippingWeightBandUpdateWithoutZoneInput, Prisma.ShippingWeightBandUncheckedUpdateWithoutZoneInput>
+}
+
+export type ShippingWeightBandUpdateManyWithWhereWithoutZoneInput = {
+  where: Prisma.ShippingWeightBandScalarWhereInput
+  data: Prisma.XOR<Prisma.ShippingWeightBandUpdateManyMutationInput, Prisma.ShippingWeightBandUncheckedUpdateManyWithoutZoneInput>
+}
+
+export type ShippingWeightBandScalarWhereInput = {
+  AND?: Prisma.ShippingWeightBandScalarWhereInput | Prisma.ShippingWeightBandScalarWhereInput[]
+  OR?: Prisma.ShippingWeightBandScalarWhereInput[]
+  NOT?: Prisma.ShippingWeightBandScalarWhereInput | Prisma.ShippingWeightBandScalarWhereInput[]
+  id?: Prisma.StringFilter<"ShippingWeightBand"> | string
+  zoneId?: Prisma.StringFilter<"ShippingWeightBand"> | string
+  maxWeightKg?: Prisma.FloatFilter<"ShippingWeightBand"> | number
+  feeNGN?: Prisma.FloatFilter<"ShippingWeightBand"> | number
+  feeUSD?: Prisma.FloatNullableFilter<"ShippingWeightBand"> | number | null
+  feeEUR?: Prisma.FloatNullableFilter<"ShippingWeightBand"> | number | null
+  feeGBP?: Prisma.FloatNullableFilter<"ShippingWeightBand"> | number | null
+}
+
+export type ShippingWeightBandCreateManyZoneInput = {
+  id?: string
+  maxWeightKg: number
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+}
+
+export type ShippingWeightBandUpdateWithoutZoneInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  maxWeightKg?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+}
+
+export type ShippingWeightBandUncheckedUpdateWithoutZoneInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  maxWeightKg?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+}
+
+export type ShippingWeightBandUncheckedUpdateManyWithoutZoneInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  maxWeightKg?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+}
+
+
+
+export type ShippingWeightBandSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  zoneId?: boolean
+  maxWeightKg?: boolean
+  feeNGN?: boolean
+  feeUSD?: boolean
+  feeEUR?: boolean
+  feeGBP?: boolean
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shippingWeightBand"]>
+
+export type ShippingWeightBandSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  zoneId?: boolean
+  maxWeightKg?: boolean
+  feeNGN?: boolean
+  feeUSD?: boolean
+  feeEUR?: boolean
+  feeGBP?: boolean
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shippingWeightBand"]>
+
+export type ShippingWeightBandSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  zoneId?: boolean
+  maxWeightKg?: boolean
+  feeNGN?: boolean
+  feeUSD?: boolean
+  feeEUR?: boolean
+  feeGBP?: boolean
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shippingWeightBand"]>
+
+export type ShippingWeightBandSelectScalar = {
+  id?: boolean
+  zoneId?: boolean
+  maxWeightKg?: boolean
+  feeNGN?: boolean
+  feeUSD?: boolean
+  feeEUR?: boolean
+  feeGBP?: boolean
+}
+
+export type ShippingWeightBandOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "zoneId" | "maxWeightKg" | "feeNGN" | "feeUSD" | "feeEUR" | "feeGBP", ExtArgs["result"]["shippingWeightBand"]>
+export type ShippingWeightBandInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}
+export type ShippingWeightBandIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}
+export type ShippingWeightBandIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}
+
+export type $ShippingWeightBandPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShippingWeightBand"
+  objects: {
+    zone: Prisma.$ShippingZonePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    zoneId: string
+    maxWeightKg: number
+    feeNGN: number
+    feeUSD: number | null
+    feeEUR: number | null
+    feeGBP: number | null
+  }, ExtArgs["result"]["shippingWeightBand"]>
+  composites: {}
+}
+
+export type ShippingWeightBandGetPayload<S extends boolean | null | undefined | ShippingWeightBandDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload, S>
+
+export type ShippingWeightBandCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShippingWeightBandFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShippingWeightBandCountAggregateInputType | true
+  }
+
+export interface ShippingWeightBandDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShippingWeightBand'], meta: { name: 'ShippingWeightBand' } }
+  /**
+   * Find zero or one ShippingWeightBand that matches the filter.
+   * @param {ShippingWeightBandFindUniqueArgs} args - Arguments to find a ShippingWeightBand
+   * @example
+   * // Get one ShippingWeightBand
+   * const shippingWeightBand = await prisma.shippingWeightBand.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShippingWeightBandFindUniqueArgs>(args: Prisma.SelectSubset<T, ShippingWeightBandFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShippingWeightBandClient<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShippingWeightBand that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShippingWeightBandFindUniqueOrThrowArgs} args - Arguments to find a ShippingWeightBand
+   * @example
+   * // Get one ShippingWeightBand
+   * const shippingWeightBand = await prisma.shippingWeightBand.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShippingWeightBandFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShippingWeightBandFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShippingWeightBandClient<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShippingWeightBand that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingWeightBandFindFirstArgs} args - Arguments to find a ShippingWeightBand
+   * @example
+   * // Get one ShippingWeightBand
+   * const shippingWeightBand = await prisma.shippingWeightBand.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShippingWeightBandFindFirstArgs>(args?: Prisma.SelectSubset<T, ShippingWeightBandFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShippingWeightBandClient<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShippingWeightBand that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingWeightBandFindFirstOrThrowArgs} args - Arguments to find a ShippingWeightBand
+   * @example
+   * // Get one ShippingWeightBand
+   * const shippingWeightBand = await prisma.shippingWeightBand.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShippingWeightBandFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShippingWeightBandFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShippingWeightBandClient<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShippingWeightBands that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingWeightBandFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShippingWeightBands
+   * const shippingWeightBands = await prisma.shippingWeightBand.findMany()
+   * 
+   * // Get first 10 ShippingWeightBands
+   * const shippingWeightBands = await prisma.shippingWeightBand.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shippingWeightBandWithIdOnly = await prisma.shippingWeightBand.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShippingWeightBandFindManyArgs>(args?: Prisma.SelectSubset<T, ShippingWeightBandFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShippingWeightBand.
+   * @param {ShippingWeightBandCreateArgs} args - Arguments to create a ShippingWeightBand.
+   * @example
+   * // Create one ShippingWeightBand
+   * const ShippingWeightBand = await prisma.shippingWeightBand.create({
+   *   data: {
+   *     // ... data to create a ShippingWeightBand
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShippingWeightBandCreateArgs>(args: Prisma.SelectSubset<T, ShippingWeightBandCreateArgs<ExtArgs>>): Prisma.Prisma__ShippingWeightBandClient<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShippingWeightBands.
+   * @param {ShippingWeightBandCreateManyArgs} args - Arguments to create many ShippingWeightBands.
+   * @example
+   * // Create many ShippingWeightBands
+   * const shippingWeightBand = await prisma.shippingWeightBand.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShippingWeightBandCreateManyArgs>(args?: Prisma.SelectSubset<T, ShippingWeightBandCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShippingWeightBands and returns the data saved in the database.
+   * @param {ShippingWeightBandCreateManyAndReturnArgs} args - Arguments to create many ShippingWeightBands.
+   * @example
+   * // Create many ShippingWeightBands
+   * const shippingWeightBand = await prisma.shippingWeightBand.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShippingWeightBands and only return the `id`
+   * const shippingWeightBandWithIdOnly = await prisma.shippingWeightBand.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShippingWeightBandCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShippingWeightBandCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShippingWeightBand.
+   * @param {ShippingWeightBandDeleteArgs} args - Arguments to delete one ShippingWeightBand.
+   * @example
+   * // Delete one ShippingWeightBand
+   * const ShippingWeightBand = await prisma.shippingWeightBand.delete({
+   *   where: {
+   *     // ... filter to delete one ShippingWeightBand
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShippingWeightBandDeleteArgs>(args: Prisma.SelectSubset<T, ShippingWeightBandDeleteArgs<ExtArgs>>): Prisma.Prisma__ShippingWeightBandClient<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShippingWeightBand.
+   * @param {ShippingWeightBandUpdateArgs} args - Arguments to update one ShippingWeightBand.
+   * @example
+   * // Update one ShippingWeightBand
+   * const shippingWeightBand = await prisma.shippingWeightBand.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShippingWeightBandUpdateArgs>(args: Prisma.SelectSubset<T, ShippingWeightBandUpdateArgs<ExtArgs>>): Prisma.Prisma__ShippingWeightBandClient<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShippingWeightBands.
+   * @param {ShippingWeightBandDeleteManyArgs} args - Arguments to filter ShippingWeightBands to delete.
+   * @example
+   * // Delete a few ShippingWeightBands
+   * const { count } = await prisma.shippingWeightBand.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShippingWeightBandDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShippingWeightBandDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShippingWeightBands.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingWeightBandUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShippingWeightBands
+   * const shippingWeightBand = await prisma.shippingWeightBand.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShippingWeightBandUpdateManyArgs>(args: Prisma.SelectSubset<T, ShippingWeightBandUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShippingWeightBands and returns the data updated in the database.
+   * @param {ShippingWeightBandUpdateManyAndReturnArgs} args - Arguments to update many ShippingWeightBands.
+   * @example
+   * // Update many ShippingWeightBands
+   * const shippingWeightBand = await prisma.shippingWeightBand.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShippingWeightBands and only return the `id`
+   * const shippingWeightBandWithIdOnly = await prisma.shippingWeightBand.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShippingWeightBandUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShippingWeightBandUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShippingWeightBand.
+   * @param {ShippingWeightBandUpsertArgs} args - Arguments to update or create a ShippingWeightBand.
+   * @example
+   * // Update or create a ShippingWeightBand
+   * const shippingWeightBand = await prisma.shippingWeightBand.upsert({
+   *   create: {
+   *     // ... data to create a ShippingWeightBand
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShippingWeightBand we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShippingWeightBandUpsertArgs>(args: Prisma.SelectSubset<T, ShippingWeightBandUpsertArgs<ExtArgs>>): Prisma.Prisma__ShippingWeightBandClient<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShippingWeightBands.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingWeightBandCountArgs} args - Arguments to filter ShippingWeightBands to count.
+   * @example
+   * // Count the number of ShippingWeightBands
+   * const count = await prisma.shippingWeightBand.count({
+   *   where: {
+   *     // ... the filter for the ShippingWeightBands we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShippingWeightBandCountArgs>(
+    args?: Prisma.Subset<T, ShippingWeightBandCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShippingWeightBandCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShippingWeightBand.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingWeightBandAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShippingWeightBandAggregateArgs>(args: Prisma.Subset<T, ShippingWeightBandAggregateArgs>): Prisma.PrismaPromise<GetShippingWeightBandAggregateType<T>>
+
+  /**
+   * Group by ShippingWeightBand.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingWeightBandGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShippingWeightBandGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShippingWeightBandGroupByArgs['orderBy'] }
+      : { orderBy?: ShippingWeightBandGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShippingWeightBandGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShippingWeightBandGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShippingWeightBand model
+ */
+readonly fields: ShippingWeightBandFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShippingWeightBand.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShippingWeightBandClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  zone<T extends Prisma.ShippingZoneDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShippingZoneDefaultArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShippingWeightBand model
+ */
+export interface ShippingWeightBandFieldRefs {
+  readonly id: Prisma.FieldRef<"ShippingWeightBand", 'String'>
+  readonly zoneId: Prisma.FieldRef<"ShippingWeightBand", 'String'>
+  readonly maxWeightKg: Prisma.FieldRef<"ShippingWeightBand", 'Float'>
+  readonly feeNGN: Prisma.FieldRef<"ShippingWeightBand", 'Float'>
+  readonly feeUSD: Prisma.FieldRef<"ShippingWeightBand", 'Float'>
+  readonly feeEUR: Prisma.FieldRef<"ShippingWeightBand", 'Float'>
+  readonly feeGBP: Prisma.FieldRef<"ShippingWeightBand", 'Float'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShippingWeightBand findUnique
+ */
+export type ShippingWeightBandFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingWeightBand to fetch.
+   */
+  where: Prisma.ShippingWeightBandWhereUniqueInput
+}
+
+/**
+ * ShippingWeightBand findUniqueOrThrow
+ */
+export type ShippingWeightBandFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingWeightBand to fetch.
+   */
+  where: Prisma.ShippingWeightBandWhereUniqueInput
+}
+
+/**
+ * ShippingWeightBand findFirst
+ */
+export type ShippingWeightBandFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingWeightBand to fetch.
+   */
+  where?: Prisma.ShippingWeightBandWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingWeightBands to fetch.
+   */
+  orderBy?: Prisma.ShippingWeightBandOrderByWithRelationInput | Prisma.ShippingWeightBandOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShippingWeightBands.
+   */
+  cursor?: Prisma.ShippingWeightBandWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingWeightBands from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingWeightBands.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShippingWeightBands.
+   */
+  distinct?: Prisma.ShippingWeightBandScalarFieldEnum | Prisma.ShippingWeightBandScalarFieldEnum[]
+}
+
+/**
+ * ShippingWeightBand findFirstOrThrow
+ */
+export type ShippingWeightBandFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingWeightBand to fetch.
+   */
+  where?: Prisma.ShippingWeightBandWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingWeightBands to fetch.
+   */
+  orderBy?: Prisma.ShippingWeightBandOrderByWithRelationInput | Prisma.ShippingWeightBandOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShippingWeightBands.
+   */
+  cursor?: Prisma.ShippingWeightBandWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingWeightBands from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingWeightBands.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShippingWeightBands.
+   */
+  distinct?: Prisma.ShippingWeightBandScalarFieldEnum | Prisma.ShippingWeightBandScalarFieldEnum[]
+}
+
+/**
+ * ShippingWeightBand findMany
+ */
+export type ShippingWeightBandFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingWeightBands to fetch.
+   */
+  where?: Prisma.ShippingWeightBandWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingWeightBands to fetch.
+   */
+  orderBy?: Prisma.ShippingWeightBandOrderByWithRelationInput | Prisma.ShippingWeightBandOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShippingWeightBands.
+   */
+  cursor?: Prisma.ShippingWeightBandWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingWeightBands from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingWeightBands.
+   */
+  skip?: number
+  distinct?: Prisma.ShippingWeightBandScalarFieldEnum | Prisma.ShippingWeightBandScalarFieldEnum[]
+}
+
+/**
+ * ShippingWeightBand create
+ */
+export type ShippingWeightBandCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShippingWeightBand.
+   */
+  data: Prisma.XOR<Prisma.ShippingWeightBandCreateInput, Prisma.ShippingWeightBandUncheckedCreateInput>
+}
+
+/**
+ * ShippingWeightBand createMany
+ */
+export type ShippingWeightBandCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShippingWeightBands.
+   */
+  data: Prisma.ShippingWeightBandCreateManyInput | Prisma.ShippingWeightBandCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShippingWeightBand createManyAndReturn
+ */
+export type ShippingWeightBandCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShippingWeightBands.
+   */
+  data: Prisma.ShippingWeightBandCreateManyInput | Prisma.ShippingWeightBandCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShippingWeightBand update
+ */
+export type ShippingWeightBandUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShippingWeightBand.
+   */
+  data: Prisma.XOR<Prisma.ShippingWeightBandUpdateInput, Prisma.ShippingWeightBandUncheckedUpdateInput>
+  /**
+   * Choose, which ShippingWeightBand to update.
+   */
+  where: Prisma.ShippingWeightBandWhereUniqueInput
+}
+
+/**
+ * ShippingWeightBand updateMany
+ */
+export type ShippingWeightBandUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShippingWeightBands.
+   */
+  data: Prisma.XOR<Prisma.ShippingWeightBandUpdateManyMutationInput, Prisma.ShippingWeightBandUncheckedUpdateManyInput>
+  /**
+   * Filter which ShippingWeightBands to update
+   */
+  where?: Prisma.ShippingWeightBandWhereInput
+  /**
+   * Limit how many ShippingWeightBands to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShippingWeightBand updateManyAndReturn
+ */
+export type ShippingWeightBandUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * The data used to update ShippingWeightBands.
+   */
+  data: Prisma.XOR<Prisma.ShippingWeightBandUpdateManyMutationInput, Prisma.ShippingWeightBandUncheckedUpdateManyInput>
+  /**
+   * Filter which ShippingWeightBands to update
+   */
+  where?: Prisma.ShippingWeightBandWhereInput
+  /**
+   * Limit how many ShippingWeightBands to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShippingWeightBand upsert
+ */
+export type ShippingWeightBandUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShippingWeightBand to update in case it exists.
+   */
+  where: Prisma.ShippingWeightBandWhereUniqueInput
+  /**
+   * In case the ShippingWeightBand found by the `where` argument doesn't exist, create a new ShippingWeightBand with this data.
+   */
+  create: Prisma.XOR<Prisma.ShippingWeightBandCreateInput, Prisma.ShippingWeightBandUncheckedCreateInput>
+  /**
+   * In case the ShippingWeightBand was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShippingWeightBandUpdateInput, Prisma.ShippingWeightBandUncheckedUpdateInput>
+}
+
+/**
+ * ShippingWeightBand delete
+ */
+export type ShippingWeightBandDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  /**
+   * Filter which ShippingWeightBand to delete.
+   */
+  where: Prisma.ShippingWeightBandWhereUniqueInput
+}
+
+/**
+ * ShippingWeightBand deleteMany
+ */
+export type ShippingWeightBandDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShippingWeightBands to delete
+   */
+  where?: Prisma.ShippingWeightBandWhereInput
+  /**
+   * Limit how many ShippingWeightBands to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShippingWeightBand without action
+ */
+export type ShippingWeightBandDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+}
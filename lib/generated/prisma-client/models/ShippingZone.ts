@@ -0,0 +1,1920 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShippingZone` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ShippingZone
+ * 
+ */
+export type ShippingZoneModel = runtime.Types.Result.DefaultSelection<Prisma.$ShippingZonePayload>
+
+export type AggregateShippingZone = {
+  _count: ShippingZoneCountAggregateOutputType | null
+  _avg: ShippingZoneAvgAggregateOutputType | null
+  _sum: ShippingZoneSumAggregateOutputType | null
+  _min: ShippingZoneMinAggregateOutputType | null
+  _max: ShippingZoneMaxAggregateOutputType | null
+}
+
+export type ShippingZoneAvgAggregateOutputType = {
+  feeNGN: number | null
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+  freeOverNGN: number | null
+  freeOverUSD: number | null
+  freeOverEUR: number | null
+  freeOverGBP: number | null
+}
+
+export type ShippingZoneSumAggregateOutputType = {
+  feeNGN: number | null
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+  freeOverNGN: number | null
+  freeOverUSD: number | null
+  freeOverEUR: number | null
+  freeOverGBP: number | null
+}
+
+export type ShippingZoneMinAggregateOutputType = {
+  id: string | null
+  deliveryOptionId: string | null
+  name: string | null
+  feeNGN: number | null
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+  freeOverNGN: number | null
+  freeOverUSD: number | null
+  freeOverEUR: number | null
+  freeOverGBP: number | null
+  active: boolean | null
+}
+
+export type ShippingZoneMaxAggregateOutputType = {
+  id: string | null
+  deliveryOptionId: string | null
+  name: string | null
+  feeNGN: number | null
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+  freeOverNGN: number | null
+  freeOverUSD: number | null
+  freeOverEUR: number | null
+  freeOverGBP: number | null
+  active: boolean | null
+}
+
+export type ShippingZoneCountAggregateOutputType = {
+  id: number
+  deliveryOptionId: number
+  name: number
+  countries: number
+  states: number
+  feeNGN: number
+  feeUSD: number
+  feeEUR: number
+  feeGBP: number
+  freeOverNGN: number
+  freeOverUSD: number
+  freeOverEUR: number
+  freeOverGBP: number
+  active: number
+  _all: number
+}
+
+
+export type ShippingZoneAvgAggregateInputType = {
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+  freeOverNGN?: true
+  freeOverUSD?: true
+  freeOverEUR?: true
+  freeOverGBP?: true
+}
+
+export type ShippingZoneSumAggregateInputType = {
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+  freeOverNGN?: true
+  freeOverUSD?: true
+  freeOverEUR?: true
+  freeOverGBP?: true
+}
+
+export type ShippingZoneMinAggregateInputType = {
+  id?: true
+  deliveryOptionId?: true
+  name?: true
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+  freeOverNGN?: true
+  freeOverUSD?: true
+  freeOverEUR?: true
+  freeOverGBP?: true
+  active?: true
+}
+
+export type ShippingZoneMaxAggregateInputType = {
+  id?: true
+  deliveryOptionId?: true
+  name?: true
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+  freeOverNGN?: true
+  freeOverUSD?: true
+  freeOverEUR?: true
+  freeOverGBP?: true
+  active?: true
+}
+
+export type ShippingZoneCountAggregateInputType = {
+  id?: true
+  deliveryOptionId?: true
+  name?: true
+  countries?: true
+  states?: true
+  feeNGN?: true
+  feeUSD?: true
+  feeEUR?: true
+  feeGBP?: true
+  freeOverNGN?: true
+  freeOverUSD?: true
+  freeOverEUR?: true
+  freeOverGBP?: true
+  active?: true
+  _all?: true
+}
+
+export type ShippingZoneAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShippingZone to aggregate.
+   */
+  where?: Prisma.ShippingZoneWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingZones to fetch.
+   */
+  orderBy?: Prisma.ShippingZoneOrderByWithRelationInput | Prisma.ShippingZoneOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShippingZoneWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingZones from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingZones.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShippingZones
+  **/
+  _count?: true | ShippingZoneCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ShippingZoneAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ShippingZoneSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShippingZoneMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShippingZoneMaxAggregateInputType
+}
+
+export type GetShippingZoneAggregateType<T extends ShippingZoneAggregateArgs> = {
+      [P in keyof T & keyof AggregateShippingZone]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShippingZone[P]>
+    : Prisma.GetScalarType<T[P], AggregateShippingZone[P]>
+}
+
+
+
+
+export type ShippingZoneGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShippingZoneWhereInput
+  orderBy?: Prisma.ShippingZoneOrderByWithAggregationInput | Prisma.ShippingZoneOrderByWithAggregationInput[]
+  by: Prisma.ShippingZoneScalarFieldEnum[] | Prisma.ShippingZoneScalarFieldEnum
+  having?: Prisma.ShippingZoneScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShippingZoneCountAggregateInputType | true
+  _avg?: ShippingZoneAvgAggregateInputType
+  _sum?: ShippingZoneSumAggregateInputType
+  _min?: ShippingZoneMinAggregateInputType
+  _max?: ShippingZoneMaxAggregateInputType
+}
+
+export type ShippingZoneGroupByOutputType = {
+  id: string
+  deliveryOptionId: string
+  name: string
+  countries: string[]
+  states: string[]
+  feeNGN: number
+  feeUSD: number | null
+  feeEUR: number | null
+  feeGBP: number | null
+  freeOverNGN: number | null
+  freeOverUSD: number | null
+  freeOverEUR: number | null
+  freeOverGBP: number | null
+  active: boolean
+  _count: ShippingZoneCountAggregateOutputType | null
+  _avg: ShippingZoneAvgAggregateOutputType | null
+  _sum: ShippingZoneSumAggregateOutputType | null
+  _min: ShippingZoneMinAggregateOutputType | null
+  _max: ShippingZoneMaxAggregateOutputType | null
+}
+
+type GetShippingZoneGroupByPayload<T extends ShippingZoneGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShippingZoneGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShippingZoneGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShippingZoneGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShippingZoneGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShippingZoneWhereInput = {
+  AND?: Prisma.ShippingZoneWhereInput | Prisma.ShippingZoneWhereInput[]
+  OR?: Prisma.ShippingZoneWhereInput[]
+  NOT?: Prisma.ShippingZoneWhereInput | Prisma.ShippingZoneWhereInput[]
+  id?: Prisma.StringFilter<"ShippingZone"> | string
+  deliveryOptionId?: Prisma.StringFilter<"ShippingZone"> | string
+  name?: Prisma.StringFilter<"ShippingZone"> | string
+  countries?: Prisma.StringNullableListFilter<"ShippingZone">
+  states?: Prisma.StringNullableListFilter<"ShippingZone">
+  feeNGN?: Prisma.FloatFilter<"ShippingZone"> | number
+  feeUSD?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  feeEUR?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  feeGBP?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverNGN?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverUSD?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverEUR?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverGBP?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  active?: Prisma.BoolFilter<"ShippingZone"> | boolean
+  deliveryOption?: Prisma.XOR<Prisma.DeliveryOptionScalarRelationFilter, Prisma.DeliveryOptionWhereInput>
+  weightBands?: Prisma.ShippingWeightBandListRelationFilter
+}
+
+export type ShippingZoneOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  deliveryOptionId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  countries?: Prisma.SortOrder
+  states?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  feeEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  feeGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  freeOverNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  freeOverUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  freeOverEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  freeOverGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  active?: Prisma.SortOrder
+  deliveryOption?: Prisma.DeliveryOptionOrderByWithRelationInput
+  weightBands?: Prisma.ShippingWeightBandOrderByRelationAggregateInput
+}
+
+export type ShippingZoneWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ShippingZoneWhereInput | Prisma.ShippingZoneWhereInput[]
+  OR?: Prisma.ShippingZoneWhereInput[]
+  NOT?: Prisma.ShippingZoneWhereInput | Prisma.ShippingZoneWhereInput[]
+  deliveryOptionId?: Prisma.StringFilter<"ShippingZone"> | string
+  name?: Prisma.StringFilter<"ShippingZone"> | string
+  countries?: Prisma.StringNullableListFilter<"ShippingZone">
+  states?: Prisma.StringNullableListFilter<"ShippingZone">
+  feeNGN?: Prisma.FloatFilter<"ShippingZone"> | number
+  feeUSD?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  feeEUR?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  feeGBP?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverNGN?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverUSD?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverEUR?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverGBP?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  active?: Prisma.BoolFilter<"ShippingZone"> | boolean
+  deliveryOption?: Prisma.XOR<Prisma.DeliveryOptionScalarRelationFilter, Prisma.DeliveryOptionWhereInput>
+  weightBands?: Prisma.ShippingWeightBandListRelationFilter
+}, "id">
+
+export type ShippingZoneOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  deliveryOptionId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  countries?: Prisma.SortOrder
+  states?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  feeEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  feeGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  freeOverNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  freeOverUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  freeOverEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  freeOverGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  active?: Prisma.SortOrder
+  _count?: Prisma.ShippingZoneCountOrderByAggregateInput
+  _avg?: Prisma.ShippingZoneAvgOrderByAggregateInput
+  _max?: Prisma.ShippingZoneMaxOrderByAggregateInput
+  _min?: Prisma.ShippingZoneMinOrderByAggregateInput
+  _sum?: Prisma.ShippingZoneSumOrderByAggregateInput
+}
+
+export type ShippingZoneScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShippingZoneScalarWhereWithAggregatesInput | Prisma.ShippingZoneScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShippingZoneScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShippingZoneScalarWhereWithAggregatesInput | Prisma.ShippingZoneScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShippingZone"> | string
+  deliveryOptionId?: Prisma.StringWithAggregatesFilter<"ShippingZone"> | string
+  name?: Prisma.StringWithAggregatesFilter<"ShippingZone"> | string
+  countries?: Prisma.StringNullableListFilter<"ShippingZone">
+  states?: Prisma.StringNullableListFilter<"ShippingZone">
+  feeNGN?: Prisma.FloatWithAggregatesFilter<"ShippingZone"> | number
+  feeUSD?: Prisma.FloatNullableWithAggregatesFilter<"ShippingZone"> | number | null
+  feeEUR?: Prisma.FloatNullableWithAggregatesFilter<"ShippingZone"> | number | null
+  feeGBP?: Prisma.FloatNullableWithAggregatesFilter<"ShippingZone"> | number | null
+  freeOverNGN?: Prisma.FloatNullableWithAggregatesFilter<"ShippingZone"> | number | null
+  freeOverUSD?: Prisma.FloatNullableWithAggregatesFilter<"ShippingZone"> | number | null
+  freeOverEUR?: Prisma.FloatNullableWithAggregatesFilter<"ShippingZone"> | number | null
+  freeOverGBP?: Prisma.FloatNullableWithAggregatesFilter<"ShippingZone"> | number | null
+  active?: Prisma.BoolWithAggregatesFilter<"ShippingZone"> | boolean
+}
+
+export type ShippingZoneCreateInput = {
+  id?: string
+  name: string
+  countries?: Prisma.ShippingZoneCreatecountriesInput | string[]
+  states?: Prisma.ShippingZoneCreatestatesInput | string[]
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+  freeOverNGN?: number | null
+  freeOverUSD?: number | null
+  freeOverEUR?: number | null
+  freeOverGBP?: number | null
+  active?: boolean
+  deliveryOption: Prisma.DeliveryOptionCreateNestedOneWithoutZonesInput
+  weightBands?: Prisma.ShippingWeightBandCreateNestedManyWithoutZoneInput
+}
+
+export type ShippingZoneUncheckedCreateInput = {
+  id?: string
+  deliveryOptionId: string
+  name: string
+  countries?: Prisma.ShippingZoneCreatecountriesInput | string[]
+  states?: Prisma.ShippingZoneCreatestatesInput | string[]
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+  freeOverNGN?: number | null
+  freeOverUSD?: number | null
+  freeOverEUR?: number | null
+  freeOverGBP?: number | null
+  active?: boolean
+  weightBands?: Prisma.ShippingWeightBandUncheckedCreateNestedManyWithoutZoneInput
+}
+
+export type ShippingZoneUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  countries?: Prisma.ShippingZoneUpdatecountriesInput | string[]
+  states?: Prisma.ShippingZoneUpdatestatesInput | string[]
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneRequiredWithoutZonesNestedInput
+  weightBands?: Prisma.ShippingWeightBandUpdateManyWithoutZoneNestedInput
+}
+
+export type ShippingZoneUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  deliveryOptionId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  countries?: Prisma.ShippingZoneUpdatecountriesInput | string[]
+  states?: Prisma.ShippingZoneUpdatestatesInput | string[]
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  weightBands?: Prisma.ShippingWeightBandUncheckedUpdateManyWithoutZoneNestedInput
+}
+
+export type ShippingZoneCreateManyInput = {
+  id?: string
+  deliveryOptionId: string
+  name: string
+  countries?: Prisma.ShippingZoneCreatecountriesInput | string[]
+  states?: Prisma.ShippingZoneCreatestatesInput | string[]
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+  freeOverNGN?: number | null
+  freeOverUSD?: number | null
+  freeOverEUR?: number | null
+  freeOverGBP?: number | null
+  active?: boolean
+}
+
+export type ShippingZoneUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  countries?: Prisma.ShippingZoneUpdatecountriesInput | string[]
+  states?: Prisma.ShippingZoneUpdatestatesInput | string[]
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ShippingZoneUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  deliveryOptionId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  countries?: Prisma.ShippingZoneUpdatecountriesInput | string[]
+  states?: Prisma.ShippingZoneUpdatestatesInput | string[]
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ShippingZoneListRelationFilter = {
+  every?: Prisma.ShippingZoneWhereInput
+  some?: Prisma.ShippingZoneWhereInput
+  none?: Prisma.ShippingZoneWhereInput
+}
+
+export type ShippingZoneOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ShippingZoneCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  deliveryOptionId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  countries?: Prisma.SortOrder
+  states?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+  freeOverNGN?: Prisma.SortOrder
+  freeOverUSD?: Prisma.SortOrder
+  freeOverEUR?: Prisma.SortOrder
+  freeOverGBP?: Prisma.SortOrder
+  active?: Prisma.SortOrder
+}
+
+export type ShippingZoneAvgOrderByAggregateInput = {
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+  freeOverNGN?: Prisma.SortOrder
+  freeOverUSD?: Prisma.SortOrder
+  freeOverEUR?: Prisma.SortOrder
+  freeOverGBP?: Prisma.SortOrder
+}
+
+export type ShippingZoneMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  deliveryOptionId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+  freeOverNGN?: Prisma.SortOrder
+  freeOverUSD?: Prisma.SortOrder
+  freeOverEUR?: Prisma.SortOrder
+  freeOverGBP?: Prisma.SortOrder
+  active?: Prisma.SortOrder
+}
+
+export type ShippingZoneMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  deliveryOptionId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+  freeOverNGN?: Prisma.SortOrder
+  freeOverUSD?: Prisma.SortOrder
+  freeOverEUR?: Prisma.SortOrder
+  freeOverGBP?: Prisma.SortOrder
+  active?: Prisma.SortOrder
+}
+
+export type ShippingZoneSumOrderByAggregateInput = {
+  feeNGN?: Prisma.SortOrder
+  feeUSD?: Prisma.SortOrder
+  feeEUR?: Prisma.SortOrder
+  feeGBP?: Prisma.SortOrder
+  freeOverNGN?: Prisma.SortOrder
+  freeOverUSD?: Prisma.SortOrder
+  freeOverEUR?: Prisma.SortOrder
+  freeOverGBP?: Prisma.SortOrder
+}
+
+export type ShippingZoneScalarRelationFilter = {
+  is?: Prisma.ShippingZoneWhereInput
+  isNot?: Prisma.ShippingZoneWhereInput
+}
+
+export type ShippingZoneCreateNestedManyWithoutDeliveryOptionInput = {
+  create?: Prisma.XOR<Prisma.ShippingZoneCreateWithoutDeliveryOptionInput, Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput> | Prisma.ShippingZoneCreateWithoutDeliveryOptionInput[] | Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput[]
+  connectOrCreate?: Prisma.ShippingZoneCreateOrConnectWithoutDeliveryOptionInput | Prisma.ShippingZoneCreateOrConnectWithoutDeliveryOptionInput[]
+  createMany?: Prisma.ShippingZoneCreateManyDeliveryOptionInputEnvelope
+  connect?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+}
+
+export type ShippingZoneUncheckedCreateNestedManyWithoutDeliveryOptionInput = {
+  create?: Prisma.XOR<Prisma.ShippingZoneCreateWithoutDeliveryOptionInput, Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput> | Prisma.ShippingZoneCreateWithoutDeliveryOptionInput[] | Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput[]
+  connectOrCreate?: Prisma.ShippingZoneCreateOrConnectWithoutDeliveryOptionInput | Prisma.ShippingZoneCreateOrConnectWithoutDeliveryOptionInput[]
+  createMany?: Prisma.ShippingZoneCreateManyDeliveryOptionInputEnvelope
+  connect?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+}
+
+export type ShippingZoneUpdateManyWithoutDeliveryOptionNestedInput = {
+  create?: Prisma.XOR<Prisma.ShippingZoneCreateWithoutDeliveryOptionInput, Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput> | Prisma.ShippingZoneCreateWithoutDeliveryOptionInput[] | Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput[]
+  connectOrCreate?: Prisma.ShippingZoneCreateOrConnectWithoutDeliveryOptionInput | Prisma.ShippingZoneCreateOrConnectWithoutDeliveryOptionInput[]
+  upsert?: Prisma.ShippingZoneUpsertWithWhereUniqueWithoutDeliveryOptionInput | Prisma.ShippingZoneUpsertWithWhereUniqueWithoutDeliveryOptionInput[]
+  createMany?: Prisma.ShippingZoneCreateManyDeliveryOptionInputEnvelope
+  set?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+  disconnect?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+  delete?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+  connect?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+  update?: Prisma.ShippingZoneUpdateWithWhereUniqueWithoutDeliveryOptionInput | Prisma.ShippingZoneUpdateWithWhereUniqueWithoutDeliveryOptionInput[]
+  updateMany?: Prisma.ShippingZoneUpdateManyWithWhereWithoutDeliveryOptionInput | Prisma.ShippingZoneUpdateManyWithWhereWithoutDeliveryOptionInput[]
+  deleteMany?: Prisma.ShippingZoneScalarWhereInput | Prisma.ShippingZoneScalarWhereInput[]
+}
+
+export type ShippingZoneUncheckedUpdateManyWithoutDeliveryOptionNestedInput = {
+  create?: Prisma.XOR<Prisma.ShippingZoneCreateWithoutDeliveryOptionInput, Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput> | Prisma.ShippingZoneCreateWithoutDeliveryOptionInput[] | Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput[]
+  connectOrCreate?: Prisma.ShippingZoneCreateOrConnectWithoutDeliveryOptionInput | Prisma.ShippingZoneCreateOrConnectWithoutDeliveryOptionInput[]
+  upsert?: Prisma.ShippingZoneUpsertWithWhereUniqueWithoutDeliveryOptionInput | Prisma.ShippingZoneUpsertWithWhereUniqueWithoutDeliveryOptionInput[]
+  createMany?: Prisma.ShippingZoneCreateManyDeliveryOptionInputEnvelope
+  set?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+  disconnect?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+  delete?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+  connect?: Prisma.ShippingZoneWhereUniqueInput | Prisma.ShippingZoneWhereUniqueInput[]
+  update?: Prisma.ShippingZoneUpdateWithWhereUniqueWithoutDeliveryOptionInput | Prisma.ShippingZoneUpdateWithWhereUniqueWithoutDeliveryOptionInput[]
+  updateMany?: Prisma.ShippingZoneUpdateManyWithWhereWithoutDeliveryOptionInput | Prisma.ShippingZoneUpdateManyWithWhereWithoutDeliveryOptionInput[]
+  deleteMany?: Prisma.ShippingZoneScalarWhereInput | Prisma.ShippingZoneScalarWhereInput[]
+}
+
+export type ShippingZoneCreatecountriesInput = {
+  set: string[]
+}
+
+export type ShippingZoneCreatestatesInput = {
+  set: string[]
+}
+
+export type ShippingZoneUpdatecountriesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type ShippingZoneUpdatestatesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type ShippingZoneCreateNestedOneWithoutWeightBandsInput = {
+  create?: Prisma.XOR<Prisma.ShippingZoneCreateWithoutWeightBandsInput, Prisma.ShippingZoneUncheckedCreateWithoutWeightBandsInput>
+  connectOrCreate?: Prisma.ShippingZoneCreateOrConnectWithoutWeightBandsInput
+  connect?: Prisma.ShippingZoneWhereUniqueInput
+}
+
+export type ShippingZoneUpdateOneRequiredWithoutWeightBandsNestedInput = {
+  create?: Prisma.XOR<Prisma.ShippingZoneCreateWithoutWeightBandsInput, Prisma.ShippingZoneUncheckedCreateWithoutWeightBandsInput>
+  connectOrCreate?: Prisma.ShippingZoneCreateOrConnectWithoutWeightBandsInput
+  upsert?: Prisma.ShippingZoneUpsertWithoutWeightBandsInput
+  connect?: Prisma.ShippingZoneWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShippingZoneUpdateToOneWithWhereWithoutWeightBandsInput, Prisma.ShippingZoneUpdateWithoutWeightBandsInput>, Prisma.ShippingZoneUncheckedUpdateWithoutWeightBandsInput>
+}
+
+export type ShippingZoneCreateWithoutDeliveryOptionInput = {
+  id?: string
+  name: string
+  countries?: Prisma.ShippingZoneCreatecountriesInput | string[]
+  states?: Prisma.ShippingZoneCreatestatesInput | string[]
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+  freeOverNGN?: number | null
+  freeOverUSD?: number | null
+  freeOverEUR?: number | null
+  freeOverGBP?: number | null
+  active?: boolean
+  weightBands?: Prisma.ShippingWeightBandCreateNestedManyWithoutZoneInput
+}
+
+export type ShippingZoneUncheckedCreateWithoutDeliveryOptionInput = {
+  id?: string
+  name: string
+  countries?: Prisma.ShippingZoneCreatecountriesInput | string[]
+  states?: Prisma.ShippingZoneCreatestatesInput | string[]
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+  freeOverNGN?: number | null
+  freeOverUSD?: number | null
+  freeOverEUR?: number | null
+  freeOverGBP?: number | null
+  active?: boolean
+  weightBands?: Prisma.ShippingWeightBandUncheckedCreateNestedManyWithoutZoneInput
+}
+
+export type ShippingZoneCreateOrConnectWithoutDeliveryOptionInput = {
+  where: Prisma.ShippingZoneWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShippingZoneCreateWithoutDeliveryOptionInput, Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput>
+}
+
+export type ShippingZoneCreateManyDeliveryOptionInputEnvelope = {
+  data: Prisma.ShippingZoneCreateManyDeliveryOptionInput | Prisma.ShippingZoneCreateManyDeliveryOptionInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShippingZoneUpsertWithWhereUniqueWithoutDeliveryOptionInput = {
+  where: Prisma.ShippingZoneWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShippingZoneUpdateWithoutDeliveryOptionInput, Prisma.ShippingZoneUncheckedUpdateWithoutDeliveryOptionInput>
+  create: Prisma.XOR<Prisma.ShippingZoneCreateWithoutDeliveryOptionInput, Prisma.ShippingZoneUncheckedCreateWithoutDeliveryOptionInput>
+}
+
+export type ShippingZoneUpdateWithWhereUniqueWithoutDeliveryOptionInput = {
+  where: Prisma.ShippingZoneWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShippingZoneUpdateWithoutDeliveryOptionInput, Prisma.ShippingZoneUncheckedUpdateWithoutDeliveryOptionInput>
+}
+
+export type ShippingZoneUpdateManyWithWhereWithoutDeliveryOptionInput = {
+  where: Prisma.ShippingZoneScalarWhereInput
+  data: Prisma.XOR<Prisma.ShippingZoneUpdateManyMutationInput, Prisma.ShippingZoneUncheckedUpdateManyWithoutDeliveryOptionInput>
+}
+
+export type ShippingZoneScalarWhereInput = {
+  AND?: Prisma.ShippingZoneScalarWhereInput | Prisma.ShippingZoneScalarWhereInput[]
+  OR?: Prisma.ShippingZoneScalarWhereInput[]
+  NOT?: Prisma.ShippingZoneScalarWhereInput | Prisma.ShippingZoneScalarWhereInput[]
+  id?: Prisma.StringFilter<"ShippingZone"> | string
+  deliveryOptionId?: Prisma.StringFilter<"ShippingZone"> | string
+  name?: Prisma.StringFilter<"ShippingZone"> | string
+  countries?: Prisma.StringNullableListFilter<"ShippingZone">
+  states?: Prisma.StringNullableListFilter<"ShippingZone">
+  feeNGN?: Prisma.FloatFilter<"ShippingZone"> | number
+  feeUSD?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  feeEUR?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  feeGBP?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverNGN?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverUSD?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverEUR?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  freeOverGBP?: Prisma.FloatNullableFilter<"ShippingZone"> | number | null
+  active?: Prisma.BoolFilter<"ShippingZone"> | boolean
+}
+
+export type ShippingZoneCreateWithoutWeightBandsInput = {
+  id?: string
+  name: string
+  countries?: Prisma.ShippingZoneCreatecountriesInput | string[]
+  states?: Prisma.ShippingZoneCreatestatesInput | string[]
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+  freeOverNGN?: number | null
+  freeOverUSD?: number | null
+  freeOverEUR?: number | null
+  freeOverGBP?: number | null
+  active?: boolean
+  deliveryOption: Prisma.DeliveryOptionCreateNestedOneWithoutZonesInput
+}
+
+export type ShippingZoneUncheckedCreateWithoutWeightBandsInput = {
+  id?: string
+  deliveryOptionId: string
+  name: string
+  countries?: Prisma.ShippingZoneCreatecountriesInput | string[]
+  states?: Prisma.ShippingZoneCreatestatesInput | string[]
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+  freeOverNGN?: number | null
+  freeOverUSD?: number | null
+  freeOverEUR?: number | null
+  freeOverGBP?: number | null
+  active?: boolean
+}
+
+export type ShippingZoneCreateOrConnectWithoutWeightBandsInput = {
+  where: Prisma.ShippingZoneWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShippingZoneCreateWithoutWeightBandsInput, Prisma.ShippingZoneUncheckedCreateWithoutWeightBandsInput>
+}
+
+export type ShippingZoneUpsertWithoutWeightBandsInput = {
+  update: Prisma.XOR<Prisma.ShippingZoneUpdateWithoutWeightBandsInput, Prisma.ShippingZoneUncheckedUpdateWithoutWeightBandsInput>
+  create: Prisma.XOR<Prisma.ShippingZoneCreateWithoutWeightBandsInput, Prisma.ShippingZoneUncheckedCreateWithoutWeightBandsInput>
+  where?: Prisma.ShippingZoneWhereInput
+}
+
+export type ShippingZoneUpdateToOneWithWhereWithoutWeightBandsInput = {
+  where?: Prisma.ShippingZoneWhereInput
+  data: Prisma.XOR<Prisma.ShippingZoneUpdateWithoutWeightBandsInput, Prisma.ShippingZoneUncheckedUpdateWithoutWeightBandsInput>
+}
+
+export type ShippingZoneUpdateWithoutWeightBandsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  countries?: Prisma.ShippingZoneUpdatecountriesInput | string[]
+  states?: Prisma.ShippingZoneUpdatestatesInput | string[]
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deliveryOption?: Prisma.DeliveryOptionUpdateOneRequiredWithoutZonesNestedInput
+}
+
+export type ShippingZoneUncheckedUpdateWithoutWeightBandsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  deliveryOptionId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  countries?: Prisma.ShippingZoneUpdatecountriesInput | string[]
+  states?: Prisma.ShippingZoneUpdatestatesInput | string[]
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+export type ShippingZoneCreateManyDeliveryOptionInput = {
+  id?: string
+  name: string
+  countries?: Prisma.ShippingZoneCreatecountriesInput | string[]
+  states?: Prisma.ShippingZoneCreatestatesInput | string[]
+  feeNGN: number
+  feeUSD?: number | null
+  feeEUR?: number | null
+  feeGBP?: number | null
+  freeOverNGN?: number | null
+  freeOverUSD?: number | null
+  freeOverEUR?: number | null
+  freeOverGBP?: number | null
+  active?: boolean
+}
+
+export type ShippingZoneUpdateWithoutDeliveryOptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  countries?: Prisma.ShippingZoneUpdatecountriesInput | string[]
+  states?: Prisma.ShippingZoneUpdatestatesInput | string[]
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  weightBands?: Prisma.ShippingWeightBandUpdateManyWithoutZoneNestedInput
+}
+
+export type ShippingZoneUncheckedUpdateWithoutDeliveryOptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  countries?: Prisma.ShippingZoneUpdatecountriesInput | string[]
+  states?: Prisma.ShippingZoneUpdatestatesInput | string[]
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  weightBands?: Prisma.ShippingWeightBandUncheckedUpdateManyWithoutZoneNestedInput
+}
+
+export type ShippingZoneUncheckedUpdateManyWithoutDeliveryOptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  countries?: Prisma.ShippingZoneUpdatecountriesInput | string[]
+  states?: Prisma.ShippingZoneUpdatestatesInput | string[]
+  feeNGN?: Prisma.FloatFieldUpdateOperationsInput | number
+  feeUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  feeGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  freeOverGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+
+/**
+ * Count Type ShippingZoneCountOutputType
+ */
+
+export type ShippingZoneCountOutputType = {
+  weightBands: number
+}
+
+export type ShippingZoneCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  weightBands?: boolean | ShippingZoneCountOutputTypeCountWeightBandsArgs
+}
+
+/**
+ * ShippingZoneCountOutputType without action
+ */
+export type ShippingZoneCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZoneCountOutputType
+   */
+  select?: Prisma.ShippingZoneCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ShippingZoneCountOutputType without action
+ */
+export type ShippingZoneCountOutputTypeCountWeightBandsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShippingWeightBandWhereInput
+}
+
+
+export type ShippingZoneSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  deliveryOptionId?: boolean
+  name?: boolean
+  countries?: boolean
+  states?: boolean
+  feeNGN?: boolean
+  feeUSD?: boolean
+  feeEUR?: boolean
+  feeGBP?: boolean
+  freeOverNGN?: boolean
+  freeOverUSD?: boolean
+  freeOverEUR?: boolean
+  freeOverGBP?: boolean
+  active?: boolean
+  deliveryOption?: boolean | Prisma.DeliveryOptionDefaultArgs<ExtArgs>
+  weightBands?: boolean | Prisma.ShippingZone$weightBandsArgs<ExtArgs>
+  _count?: boolean | Prisma.ShippingZoneCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shippingZone"]>
+
+export type ShippingZoneSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  deliveryOptionId?: boolean
+  name?: boolean
+  countries?: boolean
+  states?: boolean
+  feeNGN?: boolean
+  feeUSD?: boolean
+  feeEUR?: boolean
+  feeGBP?: boolean
+  freeOverNGN?: boolean
+  freeOverUSD?: boolean
+  freeOverEUR?: boolean
+  freeOverGBP?: boolean
+  active?: boolean
+  deliveryOption?: boolean | Prisma.DeliveryOptionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shippingZone"]>
+
+export type ShippingZoneSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  deliveryOptionId?: boolean
+  name?: boolean
+  countries?: boolean
+  states?: boolean
+  feeNGN?: boolean
+  feeUSD?: boolean
+  feeEUR?: boolean
+  feeGBP?: boolean
+  freeOverNGN?: boolean
+  freeOverUSD?: boolean
+  freeOverEUR?: boolean
+  freeOverGBP?: boolean
+  active?: boolean
+  deliveryOption?: boolean | Prisma.DeliveryOptionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shippingZone"]>
+
+export type ShippingZoneSelectScalar = {
+  id?: boolean
+  deliveryOptionId?: boolean
+  name?: boolean
+  countries?: boolean
+  states?: boolean
+  feeNGN?: boolean
+  feeUSD?: boolean
+  feeEUR?: boolean
+  feeGBP?: boolean
+  freeOverNGN?: boolean
+  freeOverUSD?: boolean
+  freeOverEUR?: boolean
+  freeOverGBP?: boolean
+  active?: boolean
+}
+
+export type ShippingZoneOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "deliveryOptionId" | "name" | "countries" | "states" | "feeNGN" | "feeUSD" | "feeEUR" | "feeGBP" | "freeOverNGN" | "freeOverUSD" | "freeOverEUR" | "freeOverGBP" | "active", ExtArgs["result"]["shippingZone"]>
+export type ShippingZoneInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  deliveryOption?: boolean | Prisma.DeliveryOptionDefaultArgs<ExtArgs>
+  weightBands?: boolean | Prisma.ShippingZone$weightBandsArgs<ExtArgs>
+  _count?: boolean | Prisma.ShippingZoneCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ShippingZoneIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  deliveryOption?: boolean | Prisma.DeliveryOptionDefaultArgs<ExtArgs>
+}
+export type ShippingZoneIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  deliveryOption?: boolean | Prisma.DeliveryOptionDefaultArgs<ExtArgs>
+}
+
+export type $ShippingZonePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShippingZone"
+  objects: {
+    deliveryOption: Prisma.$DeliveryOptionPayload<ExtArgs>
+    weightBands: Prisma.$ShippingWeightBandPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    deliveryOptionId: string
+    name: string
+    countries: string[]
+    states: string[]
+    feeNGN: number
+    feeUSD: number | null
+    feeEUR: number | null
+    feeGBP: number | null
+    freeOverNGN: number | null
+    freeOverUSD: number | null
+    freeOverEUR: number | null
+    freeOverGBP: number | null
+    active: boolean
+  }, ExtArgs["result"]["shippingZone"]>
+  composites: {}
+}
+
+export type ShippingZoneGetPayload<S extends boolean | null | undefined | ShippingZoneDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload, S>
+
+export type ShippingZoneCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShippingZoneFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShippingZoneCountAggregateInputType | true
+  }
+
+export interface ShippingZoneDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShippingZone'], meta: { name: 'ShippingZone' } }
+  /**
+   * Find zero or one ShippingZone that matches the filter.
+   * @param {ShippingZoneFindUniqueArgs} args - Arguments to find a ShippingZone
+   * @example
+   * // Get one ShippingZone
+   * const shippingZone = await prisma.shippingZone.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShippingZoneFindUniqueArgs>(args: Prisma.SelectSubset<T, ShippingZoneFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShippingZone that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShippingZoneFindUniqueOrThrowArgs} args - Arguments to find a ShippingZone
+   * @example
+   * // Get one ShippingZone
+   * const shippingZone = await prisma.shippingZone.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShippingZoneFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShippingZoneFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShippingZone that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingZoneFindFirstArgs} args - Arguments to find a ShippingZone
+   * @example
+   * // Get one ShippingZone
+   * const shippingZone = await prisma.shippingZone.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShippingZoneFindFirstArgs>(args?: Prisma.SelectSubset<T, ShippingZoneFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShippingZone that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingZoneFindFirstOrThrowArgs} args - Arguments to find a ShippingZone
+   * @example
+   * // Get one ShippingZone
+   * const shippingZone = await prisma.shippingZone.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShippingZoneFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShippingZoneFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShippingZones that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingZoneFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShippingZones
+   * const shippingZones = await prisma.shippingZone.findMany()
+   * 
+   * // Get first 10 ShippingZones
+   * const shippingZones = await prisma.shippingZone.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shippingZoneWithIdOnly = await prisma.shippingZone.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShippingZoneFindManyArgs>(args?: Prisma.SelectSubset<T, ShippingZoneFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShippingZone.
+   * @param {ShippingZoneCreateArgs} args - Arguments to create a ShippingZone.
+   * @example
+   * // Create one ShippingZone
+   * const ShippingZone = await prisma.shippingZone.create({
+   *   data: {
+   *     // ... data to create a ShippingZone
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShippingZoneCreateArgs>(args: Prisma.SelectSubset<T, ShippingZoneCreateArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShippingZones.
+   * @param {ShippingZoneCreateManyArgs} args - Arguments to create many ShippingZones.
+   * @example
+   * // Create many ShippingZones
+   * const shippingZone = await prisma.shippingZone.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShippingZoneCreateManyArgs>(args?: Prisma.SelectSubset<T, ShippingZoneCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShippingZones and returns the data saved in the database.
+   * @param {ShippingZoneCreateManyAndReturnArgs} args - Arguments to create many ShippingZones.
+   * @example
+   * // Create many ShippingZones
+   * const shippingZone = await prisma.shippingZone.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShippingZones and only return the `id`
+   * const shippingZoneWithIdOnly = await prisma.shippingZone.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShippingZoneCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShippingZoneCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShippingZone.
+   * @param {ShippingZoneDeleteArgs} args - Arguments to delete one ShippingZone.
+   * @example
+   * // Delete one ShippingZone
+   * const ShippingZone = await prisma.shippingZone.delete({
+   *   where: {
+   *     // ... filter to delete one ShippingZone
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShippingZoneDeleteArgs>(args: Prisma.SelectSubset<T, ShippingZoneDeleteArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShippingZone.
+   * @param {ShippingZoneUpdateArgs} args - Arguments to update one ShippingZone.
+   * @example
+   * // Update one ShippingZone
+   * const shippingZone = await prisma.shippingZone.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShippingZoneUpdateArgs>(args: Prisma.SelectSubset<T, ShippingZoneUpdateArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShippingZones.
+   * @param {ShippingZoneDeleteManyArgs} args - Arguments to filter ShippingZones to delete.
+   * @example
+   * // Delete a few ShippingZones
+   * const { count } = await prisma.shippingZone.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShippingZoneDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShippingZoneDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShippingZones.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingZoneUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShippingZones
+   * const shippingZone = await prisma.shippingZone.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShippingZoneUpdateManyArgs>(args: Prisma.SelectSubset<T, ShippingZoneUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShippingZones and returns the data updated in the database.
+   * @param {ShippingZoneUpdateManyAndReturnArgs} args - Arguments to update many ShippingZones.
+   * @example
+   * // Update many ShippingZones
+   * const shippingZone = await prisma.shippingZone.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShippingZones and only return the `id`
+   * const shippingZoneWithIdOnly = await prisma.shippingZone.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShippingZoneUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShippingZoneUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShippingZone.
+   * @param {ShippingZoneUpsertArgs} args - Arguments to update or create a ShippingZone.
+   * @example
+   * // Update or create a ShippingZone
+   * const shippingZone = await prisma.shippingZone.upsert({
+   *   create: {
+   *     // ... data to create a ShippingZone
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShippingZone we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShippingZoneUpsertArgs>(args: Prisma.SelectSubset<T, ShippingZoneUpsertArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShippingZones.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingZoneCountArgs} args - Arguments to filter ShippingZones to count.
+   * @example
+   * // Count the number of ShippingZones
+   * const count = await prisma.shippingZone.count({
+   *   where: {
+   *     // ... the filter for the ShippingZones we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShippingZoneCountArgs>(
+    args?: Prisma.Subset<T, ShippingZoneCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShippingZoneCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShippingZone.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingZoneAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShippingZoneAggregateArgs>(args: Prisma.Subset<T, ShippingZoneAggregateArgs>): Prisma.PrismaPromise<GetShippingZoneAggregateType<T>>
+
+  /**
+   * Group by ShippingZone.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingZoneGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShippingZoneGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShippingZoneGroupByArgs['orderBy'] }
+      : { orderBy?: ShippingZoneGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShippingZoneGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShippingZoneGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShippingZone model
+ */
+readonly fields: ShippingZoneFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShippingZone.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShippingZoneClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  deliveryOption<T extends Prisma.DeliveryOptionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DeliveryOptionDefaultArgs<ExtArgs>>): Prisma.Prisma__DeliveryOptionClient<runtime.Types.Result.GetResult<Prisma.$DeliveryOptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  weightBands<T extends Prisma.ShippingZone$weightBandsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShippingZone$weightBandsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingWeightBandPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShippingZone model
+ */
+export interface ShippingZoneFieldRefs {
+  readonly id: Prisma.FieldRef<"ShippingZone", 'String'>
+  readonly deliveryOptionId: Prisma.FieldRef<"ShippingZone", 'String'>
+  readonly name: Prisma.FieldRef<"ShippingZone", 'String'>
+  readonly countries: Prisma.FieldRef<"ShippingZone", 'String[]'>
+  readonly states: Prisma.FieldRef<"ShippingZone", 'String[]'>
+  readonly feeNGN: Prisma.FieldRef<"ShippingZone", 'Float'>
+  readonly feeUSD: Prisma.FieldRef<"ShippingZone", 'Float'>
+  readonly feeEUR: Prisma.FieldRef<"ShippingZone", 'Float'>
+  readonly feeGBP: Prisma.FieldRef<"ShippingZone", 'Float'>
+  readonly freeOverNGN: Prisma.FieldRef<"ShippingZone", 'Float'>
+  readonly freeOverUSD: Prisma.FieldRef<"ShippingZone", 'Float'>
+  readonly freeOverEUR: Prisma.FieldRef<"ShippingZone", 'Float'>
+  readonly freeOverGBP: Prisma.FieldRef<"ShippingZone", 'Float'>
+  readonly active: Prisma.FieldRef<"ShippingZone", 'Boolean'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShippingZone findUnique
+ */
+export type ShippingZoneFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingZone to fetch.
+   */
+  where: Prisma.ShippingZoneWhereUniqueInput
+}
+
+/**
+ * ShippingZone findUniqueOrThrow
+ */
+export type ShippingZoneFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingZone to fetch.
+   */
+  where: Prisma.ShippingZoneWhereUniqueInput
+}
+
+/**
+ * ShippingZone findFirst
+ */
+export type ShippingZoneFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingZone to fetch.
+   */
+  where?: Prisma.ShippingZoneWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingZones to fetch.
+   */
+  orderBy?: Prisma.ShippingZoneOrderByWithRelationInput | Prisma.ShippingZoneOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShippingZones.
+   */
+  cursor?: Prisma.ShippingZoneWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingZones from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingZones.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShippingZones.
+   */
+  distinct?: Prisma.ShippingZoneScalarFieldEnum | Prisma.ShippingZoneScalarFieldEnum[]
+}
+
+/**
+ * ShippingZone findFirstOrThrow
+ */
+export type ShippingZoneFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingZone to fetch.
+   */
+  where?: Prisma.ShippingZoneWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingZones to fetch.
+   */
+  orderBy?: Prisma.ShippingZoneOrderByWithRelationInput | Prisma.ShippingZoneOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShippingZones.
+   */
+  cursor?: Prisma.ShippingZoneWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingZones from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingZones.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShippingZones.
+   */
+  distinct?: Prisma.ShippingZoneScalarFieldEnum | Prisma.ShippingZoneScalarFieldEnum[]
+}
+
+/**
+ * ShippingZone findMany
+ */
+export type ShippingZoneFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingZones to fetch.
+   */
+  where?: Prisma.ShippingZoneWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingZones to fetch.
+   */
+  orderBy?: Prisma.ShippingZoneOrderByWithRelationInput | Prisma.ShippingZoneOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShippingZones.
+   */
+  cursor?: Prisma.ShippingZoneWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingZones from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingZones.
+   */
+  skip?: number
+  distinct?: Prisma.ShippingZoneScalarFieldEnum | Prisma.ShippingZoneScalarFieldEnum[]
+}
+
+/**
+ * ShippingZone create
+ */
+export type ShippingZoneCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShippingZone.
+   */
+  data: Prisma.XOR<Prisma.ShippingZoneCreateInput, Prisma.ShippingZoneUncheckedCreateInput>
+}
+
+/**
+ * ShippingZone createMany
+ */
+export type ShippingZoneCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShippingZones.
+   */
+  data: Prisma.ShippingZoneCreateManyInput | Prisma.ShippingZoneCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShippingZone createManyAndReturn
+ */
+export type ShippingZoneCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShippingZones.
+   */
+  data: Prisma.ShippingZoneCreateManyInput | Prisma.ShippingZoneCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShippingZone update
+ */
+export type ShippingZoneUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShippingZone.
+   */
+  data: Prisma.XOR<Prisma.ShippingZoneUpdateInput, Prisma.ShippingZoneUncheckedUpdateInput>
+  /**
+   * Choose, which ShippingZone to update.
+   */
+  where: Prisma.ShippingZoneWhereUniqueInput
+}
+
+/**
+ * ShippingZone updateMany
+ */
+export type ShippingZoneUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShippingZones.
+   */
+  data: Prisma.XOR<Prisma.ShippingZoneUpdateManyMutationInput, Prisma.ShippingZoneUncheckedUpdateManyInput>
+  /**
+   * Filter which ShippingZones to update
+   */
+  where?: Prisma.ShippingZoneWhereInput
+  /**
+   * Limit how many ShippingZones to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShippingZone updateManyAndReturn
+ */
+export type ShippingZoneUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * The data used to update ShippingZones.
+   */
+  data: Prisma.XOR<Prisma.ShippingZoneUpdateManyMutationInput, Prisma.ShippingZoneUncheckedUpdateManyInput>
+  /**
+   * Filter which ShippingZones to update
+   */
+  where?: Prisma.ShippingZoneWhereInput
+  /**
+   * Limit how many ShippingZones to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShippingZone upsert
+ */
+export type ShippingZoneUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShippingZone to update in case it exists.
+   */
+  where: Prisma.ShippingZoneWhereUniqueInput
+  /**
+   * In case the ShippingZone found by the `where` argument doesn't exist, create a new ShippingZone with this data.
+   */
+  create: Prisma.XOR<Prisma.ShippingZoneCreateInput, Prisma.ShippingZoneUncheckedCreateInput>
+  /**
+   * In case the ShippingZone was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShippingZoneUpdateInput, Prisma.ShippingZoneUncheckedUpdateInput>
+}
+
+/**
+ * ShippingZone delete
+ */
+export type ShippingZoneDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+  /**
+   * Filter which ShippingZone to delete.
+   */
+  where: Prisma.ShippingZoneWhereUniqueInput
+}
+
+/**
+ * ShippingZone deleteMany
+ */
+export type ShippingZoneDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShippingZones to delete
+   */
+  where?: Prisma.ShippingZoneWhereInput
+  /**
+   * Limit how many ShippingZones to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShippingZone.weightBands
+ */
+export type ShippingZone$weightBandsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingWeightBand
+   */
+  select?: Prisma.ShippingWeightBandSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingWeightBand
+   */
+  omit?: Prisma.ShippingWeightBandOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingWeightBandInclude<ExtArgs> | null
+  where?: Prisma.ShippingWeightBandWhereInput
+  orderBy?: Prisma.ShippingWeightBandOrderByWithRelationInput | Prisma.ShippingWeightBandOrderByWithRelationInput[]
+  cursor?: Prisma.ShippingWeightBandWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShippingWeightBandScalarFieldEnum | Prisma.ShippingWeightBandScalarFieldEnum[]
+}
+
+/**
+ * ShippingZone without action
+ */
+export type ShippingZoneDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingZone
+   */
+  select?: Prisma.ShippingZoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingZone
+   */
+  omit?: Prisma.ShippingZoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingZoneInclude<ExtArgs> | null
+}
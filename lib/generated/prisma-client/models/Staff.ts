@@ -316,6 +316,12 @@ export type StaffWhereInput = {
   lastLogin?: Prisma.DateTimeNullableFilter<"Staff"> | Date | string | null
   offlineSales?: Prisma.OfflineSaleListRelationFilter
   orders?: Prisma.OrderListRelationFilter
+  refunds?: Prisma.OrderRefundListRelationFilter
+  inventoryMovements?: Prisma.InventoryMovementListRelationFilter
+  auditLogs?: Prisma.AuditLogListRelationFilter
+  reviewedReturns?: Prisma.ReturnRequestListRelationFilter
+  repriceRuns?: Prisma.RepriceRunListRelationFilter
+  pickupHandovers?: Prisma.OrderPickupListRelationFilter
 }
 
 export type StaffOrderByWithRelationInput = {
@@ -343,6 +349,12 @@ export type StaffOrderByWithRelationInput = {
   lastLogin?: Prisma.SortOrderInput | Prisma.SortOrder
   offlineSales?: Prisma.OfflineSaleOrderByRelationAggregateInput
   orders?: Prisma.OrderOrderByRelationAggregateInput
+  refunds?: Prisma.OrderRefundOrderByRelationAggregateInput
+  inventoryMovements?: Prisma.InventoryMovementOrderByRelationAggregateInput
+  auditLogs?: Prisma.AuditLogOrderByRelationAggregateInput
+  reviewedReturns?: Prisma.ReturnRequestOrderByRelationAggregateInput
+  repriceRuns?: Prisma.RepriceRunOrderByRelationAggregateInput
+  pickupHandovers?: Prisma.OrderPickupOrderByRelationAggregateInput
 }
 
 export type StaffWhereUniqueInput = Prisma.AtLeast<{
@@ -373,6 +385,12 @@ export type StaffWhereUniqueInput = Prisma.AtLeast<{
   lastLogin?: Prisma.DateTimeNullableFilter<"Staff"> | Date | string | null
   offlineSales?: Prisma.OfflineSaleListRelationFilter
   orders?: Prisma.OrderListRelationFilter
+  refunds?: Prisma.OrderRefundListRelationFilter
+  inventoryMovements?: Prisma.InventoryMovementListRelationFilter
+  auditLogs?: Prisma.AuditLogListRelationFilter
+  reviewedReturns?: Prisma.ReturnRequestListRelationFilter
+  repriceRuns?: Prisma.RepriceRunListRelationFilter
+  pickupHandovers?: Prisma.OrderPickupListRelationFilter
 }, "id" | "email">
 
 export type StaffOrderByWithAggregationInput = {
@@ -456,6 +474,12 @@ export type StaffCreateInput = {
   lastLogin?: Date | string | null
   offlineSales?: Prisma.OfflineSaleCreateNestedManyWithoutStaffInput
   orders?: Prisma.OrderCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupCreateNestedManyWithoutCollectedByInput
 }
 
 export type StaffUncheckedCreateInput = {
@@ -483,6 +507,12 @@ export type StaffUncheckedCreateInput = {
   lastLogin?: Date | string | null
   offlineSales?: Prisma.OfflineSaleUncheckedCreateNestedManyWithoutStaffInput
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunUncheckedCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedCreateNestedManyWithoutCollectedByInput
 }
 
 export type StaffUpdateInput = {
@@ -510,6 +540,12 @@ export type StaffUpdateInput = {
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   offlineSales?: Prisma.OfflineSaleUpdateManyWithoutStaffNestedInput
   orders?: Prisma.OrderUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUpdateManyWithoutCollectedByNestedInput
 }
 
 export type StaffUncheckedUpdateInput = {
@@ -537,6 +573,12 @@ export type StaffUncheckedUpdateInput = {
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   offlineSales?: Prisma.OfflineSaleUncheckedUpdateManyWithoutStaffNestedInput
   orders?: Prisma.OrderUncheckedUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUncheckedUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedUpdateManyWithoutCollectedByNestedInput
 }
 
 export type StaffCreateManyInput = {
@@ -734,21 +776,981 @@ export type StaffUpdateOneWithoutOrdersNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.StaffUpdateToOneWithWhereWithoutOrdersInput, Prisma.StaffUpdateWithoutOrdersInput>, Prisma.StaffUncheckedUpdateWithoutOrdersInput>
 }
 
+export type StaffCreateNestedOneWithoutRefundsInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutRefundsInput, Prisma.StaffUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutRefundsInput
+  connect?: Prisma.StaffWhereUniqueInput
+}
+
+export type StaffUpdateOneWithoutRefundsNestedInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutRefundsInput, Prisma.StaffUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutRefundsInput
+  upsert?: Prisma.StaffUpsertWithoutRefundsInput
+  disconnect?: Prisma.StaffWhereInput | boolean
+  delete?: Prisma.StaffWhereInput | boolean
+  connect?: Prisma.StaffWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.StaffUpdateToOneWithWhereWithoutRefundsInput, Prisma.StaffUpdateWithoutRefundsInput>, Prisma.StaffUncheckedUpdateWithoutRefundsInput>
+}
+
 export type StaffCreateNestedOneWithoutOfflineSalesInput = {
   create?: Prisma.XOR<Prisma.StaffCreateWithoutOfflineSalesInput, Prisma.StaffUncheckedCreateWithoutOfflineSalesInput>
   connectOrCreate?: Prisma.StaffCreateOrConnectWithoutOfflineSalesInput
   connect?: Prisma.StaffWhereUniqueInput
 }
 
-export type StaffUpdateOneRequiredWithoutOfflineSalesNestedInput = {
-  create?: Prisma.XOR<Prisma.StaffCreateWithoutOfflineSalesInput, Prisma.StaffUncheckedCreateWithoutOfflineSalesInput>
-  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutOfflineSalesInput
-  upsert?: Prisma.StaffUpsertWithoutOfflineSalesInput
-  connect?: Prisma.StaffWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.StaffUpdateToOneWithWhereWithoutOfflineSalesInput, Prisma.StaffUpdateWithoutOfflineSalesInput>, Prisma.StaffUncheckedUpdateWithoutOfflineSalesInput>
+export type StaffUpdateOneRequiredWithoutOfflineSalesNestedInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutOfflineSalesInput, Prisma.StaffUncheckedCreateWithoutOfflineSalesInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutOfflineSalesInput
+  upsert?: Prisma.StaffUpsertWithoutOfflineSalesInput
+  connect?: Prisma.StaffWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.StaffUpdateToOneWithWhereWithoutOfflineSalesInput, Prisma.StaffUpdateWithoutOfflineSalesInput>, Prisma.StaffUncheckedUpdateWithoutOfflineSalesInput>
+}
+
+export type StaffCreateNestedOneWithoutInventoryMovementsInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutInventoryMovementsInput, Prisma.StaffUncheckedCreateWithoutInventoryMovementsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutInventoryMovementsInput
+  connect?: Prisma.StaffWhereUniqueInput
+}
+
+export type StaffUpdateOneWithoutInventoryMovementsNestedInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutInventoryMovementsInput, Prisma.StaffUncheckedCreateWithoutInventoryMovementsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutInventoryMovementsInput
+  upsert?: Prisma.StaffUpsertWithoutInventoryMovementsInput
+  disconnect?: Prisma.StaffWhereInput | boolean
+  delete?: Prisma.StaffWhereInput | boolean
+  connect?: Prisma.StaffWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.StaffUpdateToOneWithWhereWithoutInventoryMovementsInput, Prisma.StaffUpdateWithoutInventoryMovementsInput>, Prisma.StaffUncheckedUpdateWithoutInventoryMovementsInput>
+}
+
+export type StaffCreateNestedOneWithoutAuditLogsInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutAuditLogsInput, Prisma.StaffUncheckedCreateWithoutAuditLogsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutAuditLogsInput
+  connect?: Prisma.StaffWhereUniqueInput
+}
+
+export type StaffUpdateOneWithoutAuditLogsNestedInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutAuditLogsInput, Prisma.StaffUncheckedCreateWithoutAuditLogsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutAuditLogsInput
+  upsert?: Prisma.StaffUpsertWithoutAuditLogsInput
+  disconnect?: Prisma.StaffWhereInput | boolean
+  delete?: Prisma.StaffWhereInput | boolean
+  connect?: Prisma.StaffWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.StaffUpdateToOneWithWhereWithoutAuditLogsInput, Prisma.StaffUpdateWithoutAuditLogsInput>, Prisma.StaffUncheckedUpdateWithoutAuditLogsInput>
+}
+
+export type StaffCreateNestedOneWithoutReviewedReturnsInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutReviewedReturnsInput, Prisma.StaffUncheckedCreateWithoutReviewedReturnsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutReviewedReturnsInput
+  connect?: Prisma.StaffWhereUniqueInput
+}
+
+export type StaffUpdateOneWithoutReviewedReturnsNestedInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutReviewedReturnsInput, Prisma.StaffUncheckedCreateWithoutReviewedReturnsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutReviewedReturnsInput
+  upsert?: Prisma.StaffUpsertWithoutReviewedReturnsInput
+  disconnect?: Prisma.StaffWhereInput | boolean
+  delete?: Prisma.StaffWhereInput | boolean
+  connect?: Prisma.StaffWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.StaffUpdateToOneWithWhereWithoutReviewedReturnsInput, Prisma.StaffUpdateWithoutReviewedReturnsInput>, Prisma.StaffUncheckedUpdateWithoutReviewedReturnsInput>
+}
+
+export type StaffCreateNestedOneWithoutRepriceRunsInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutRepriceRunsInput, Prisma.StaffUncheckedCreateWithoutRepriceRunsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutRepriceRunsInput
+  connect?: Prisma.StaffWhereUniqueInput
+}
+
+export type StaffUpdateOneWithoutRepriceRunsNestedInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutRepriceRunsInput, Prisma.StaffUncheckedCreateWithoutRepriceRunsInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutRepriceRunsInput
+  upsert?: Prisma.StaffUpsertWithoutRepriceRunsInput
+  disconnect?: Prisma.StaffWhereInput | boolean
+  delete?: Prisma.StaffWhereInput | boolean
+  connect?: Prisma.StaffWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.StaffUpdateToOneWithWhereWithoutRepriceRunsInput, Prisma.StaffUpdateWithoutRepriceRunsInput>, Prisma.StaffUncheckedUpdateWithoutRepriceRunsInput>
+}
+
+export type StaffCreateNestedOneWithoutPickupHandoversInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutPickupHandoversInput, Prisma.StaffUncheckedCreateWithoutPickupHandoversInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutPickupHandoversInput
+  connect?: Prisma.StaffWhereUniqueInput
+}
+
+export type StaffUpdateOneWithoutPickupHandoversNestedInput = {
+  create?: Prisma.XOR<Prisma.StaffCreateWithoutPickupHandoversInput, Prisma.StaffUncheckedCreateWithoutPickupHandoversInput>
+  connectOrCreate?: Prisma.StaffCreateOrConnectWithoutPickupHandoversInput
+  upsert?: Prisma.StaffUpsertWithoutPickupHandoversInput
+  disconnect?: Prisma.StaffWhereInput | boolean
+  delete?: Prisma.StaffWhereInput | boolean
+  connect?: Prisma.StaffWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.StaffUpdateToOneWithWhereWithoutPickupHandoversInput, Prisma.StaffUpdateWithoutPickupHandoversInput>, Prisma.StaffUncheckedUpdateWithoutPickupHandoversInput>
+}
+
+export type StaffCreateWithoutOrdersInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffUncheckedCreateWithoutOrdersInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunUncheckedCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffCreateOrConnectWithoutOrdersInput = {
+  where: Prisma.StaffWhereUniqueInput
+  create: Prisma.XOR<Prisma.StaffCreateWithoutOrdersInput, Prisma.StaffUncheckedCreateWithoutOrdersInput>
+}
+
+export type StaffUpsertWithoutOrdersInput = {
+  update: Prisma.XOR<Prisma.StaffUpdateWithoutOrdersInput, Prisma.StaffUncheckedUpdateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutOrdersInput, Prisma.StaffUncheckedCreateWithoutOrdersInput>
+  where?: Prisma.StaffWhereInput
+}
+
+export type StaffUpdateToOneWithWhereWithoutOrdersInput = {
+  where?: Prisma.StaffWhereInput
+  data: Prisma.XOR<Prisma.StaffUpdateWithoutOrdersInput, Prisma.StaffUncheckedUpdateWithoutOrdersInput>
+}
+
+export type StaffUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffUncheckedUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUncheckedUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffCreateWithoutRefundsInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffUncheckedCreateWithoutRefundsInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunUncheckedCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffCreateOrConnectWithoutRefundsInput = {
+  where: Prisma.StaffWhereUniqueInput
+  create: Prisma.XOR<Prisma.StaffCreateWithoutRefundsInput, Prisma.StaffUncheckedCreateWithoutRefundsInput>
+}
+
+export type StaffUpsertWithoutRefundsInput = {
+  update: Prisma.XOR<Prisma.StaffUpdateWithoutRefundsInput, Prisma.StaffUncheckedUpdateWithoutRefundsInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutRefundsInput, Prisma.StaffUncheckedCreateWithoutRefundsInput>
+  where?: Prisma.StaffWhereInput
+}
+
+export type StaffUpdateToOneWithWhereWithoutRefundsInput = {
+  where?: Prisma.StaffWhereInput
+  data: Prisma.XOR<Prisma.StaffUpdateWithoutRefundsInput, Prisma.StaffUncheckedUpdateWithoutRefundsInput>
+}
+
+export type StaffUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffUncheckedUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUncheckedUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffCreateWithoutOfflineSalesInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  orders?: Prisma.OrderCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffUncheckedCreateWithoutOfflineSalesInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunUncheckedCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffCreateOrConnectWithoutOfflineSalesInput = {
+  where: Prisma.StaffWhereUniqueInput
+  create: Prisma.XOR<Prisma.StaffCreateWithoutOfflineSalesInput, Prisma.StaffUncheckedCreateWithoutOfflineSalesInput>
+}
+
+export type StaffUpsertWithoutOfflineSalesInput = {
+  update: Prisma.XOR<Prisma.StaffUpdateWithoutOfflineSalesInput, Prisma.StaffUncheckedUpdateWithoutOfflineSalesInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutOfflineSalesInput, Prisma.StaffUncheckedCreateWithoutOfflineSalesInput>
+  where?: Prisma.StaffWhereInput
+}
+
+export type StaffUpdateToOneWithWhereWithoutOfflineSalesInput = {
+  where?: Prisma.StaffWhereInput
+  data: Prisma.XOR<Prisma.StaffUpdateWithoutOfflineSalesInput, Prisma.StaffUncheckedUpdateWithoutOfflineSalesInput>
+}
+
+export type StaffUpdateWithoutOfflineSalesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffUncheckedUpdateWithoutOfflineSalesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUncheckedUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffCreateWithoutInventoryMovementsInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffUncheckedCreateWithoutInventoryMovementsInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunUncheckedCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffCreateOrConnectWithoutInventoryMovementsInput = {
+  where: Prisma.StaffWhereUniqueInput
+  create: Prisma.XOR<Prisma.StaffCreateWithoutInventoryMovementsInput, Prisma.StaffUncheckedCreateWithoutInventoryMovementsInput>
+}
+
+export type StaffUpsertWithoutInventoryMovementsInput = {
+  update: Prisma.XOR<Prisma.StaffUpdateWithoutInventoryMovementsInput, Prisma.StaffUncheckedUpdateWithoutInventoryMovementsInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutInventoryMovementsInput, Prisma.StaffUncheckedCreateWithoutInventoryMovementsInput>
+  where?: Prisma.StaffWhereInput
+}
+
+export type StaffUpdateToOneWithWhereWithoutInventoryMovementsInput = {
+  where?: Prisma.StaffWhereInput
+  data: Prisma.XOR<Prisma.StaffUpdateWithoutInventoryMovementsInput, Prisma.StaffUncheckedUpdateWithoutInventoryMovementsInput>
+}
+
+export type StaffUpdateWithoutInventoryMovementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffUncheckedUpdateWithoutInventoryMovementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUncheckedUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffCreateWithoutAuditLogsInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffUncheckedCreateWithoutAuditLogsInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunUncheckedCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffCreateOrConnectWithoutAuditLogsInput = {
+  where: Prisma.StaffWhereUniqueInput
+  create: Prisma.XOR<Prisma.StaffCreateWithoutAuditLogsInput, Prisma.StaffUncheckedCreateWithoutAuditLogsInput>
+}
+
+export type StaffUpsertWithoutAuditLogsInput = {
+  update: Prisma.XOR<Prisma.StaffUpdateWithoutAuditLogsInput, Prisma.StaffUncheckedUpdateWithoutAuditLogsInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutAuditLogsInput, Prisma.StaffUncheckedCreateWithoutAuditLogsInput>
+  where?: Prisma.StaffWhereInput
+}
+
+export type StaffUpdateToOneWithWhereWithoutAuditLogsInput = {
+  where?: Prisma.StaffWhereInput
+  data: Prisma.XOR<Prisma.StaffUpdateWithoutAuditLogsInput, Prisma.StaffUncheckedUpdateWithoutAuditLogsInput>
+}
+
+export type StaffUpdateWithoutAuditLogsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffUncheckedUpdateWithoutAuditLogsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUncheckedUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffCreateWithoutReviewedReturnsInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutStaffInput
+  repriceRuns?: Prisma.RepriceRunCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupCreateNestedManyWithoutCollectedByInput
 }
 
-export type StaffCreateWithoutOrdersInput = {
+export type StaffUncheckedCreateWithoutReviewedReturnsInput = {
+  id?: string
+  firstName: string
+  middleName?: string | null
+  lastName: string
+  email: string
+  phone: string
+  passwordHash: string
+  jobRoles?: Prisma.StaffCreatejobRolesInput | $Enums.JobRole[]
+  access: $Enums.UserRole
+  createdAt?: Date | string
+  emailVerified?: boolean
+  dateOfBirth?: Date | string | null
+  dateOfEmployment?: Date | string | null
+  dateOfResignation?: Date | string | null
+  address?: string | null
+  emailPersonal?: string | null
+  guarantorName?: string | null
+  guarantorAddress?: string | null
+  guarantorPhone?: string | null
+  resetToken?: string | null
+  resetTokenExpiry?: string | null
+  lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutStaffInput
+  repriceRuns?: Prisma.RepriceRunUncheckedCreateNestedManyWithoutStaffInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedCreateNestedManyWithoutCollectedByInput
+}
+
+export type StaffCreateOrConnectWithoutReviewedReturnsInput = {
+  where: Prisma.StaffWhereUniqueInput
+  create: Prisma.XOR<Prisma.StaffCreateWithoutReviewedReturnsInput, Prisma.StaffUncheckedCreateWithoutReviewedReturnsInput>
+}
+
+export type StaffUpsertWithoutReviewedReturnsInput = {
+  update: Prisma.XOR<Prisma.StaffUpdateWithoutReviewedReturnsInput, Prisma.StaffUncheckedUpdateWithoutReviewedReturnsInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutReviewedReturnsInput, Prisma.StaffUncheckedCreateWithoutReviewedReturnsInput>
+  where?: Prisma.StaffWhereInput
+}
+
+export type StaffUpdateToOneWithWhereWithoutReviewedReturnsInput = {
+  where?: Prisma.StaffWhereInput
+  data: Prisma.XOR<Prisma.StaffUpdateWithoutReviewedReturnsInput, Prisma.StaffUncheckedUpdateWithoutReviewedReturnsInput>
+}
+
+export type StaffUpdateWithoutReviewedReturnsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutStaffNestedInput
+  repriceRuns?: Prisma.RepriceRunUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffUncheckedUpdateWithoutReviewedReturnsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  jobRoles?: Prisma.StaffUpdatejobRolesInput | $Enums.JobRole[]
+  access?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfEmployment?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  dateOfResignation?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailPersonal?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  guarantorPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutStaffNestedInput
+  repriceRuns?: Prisma.RepriceRunUncheckedUpdateManyWithoutStaffNestedInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedUpdateManyWithoutCollectedByNestedInput
+}
+
+export type StaffCreateWithoutRepriceRunsInput = {
   id?: string
   firstName: string
   middleName?: string | null
@@ -772,9 +1774,15 @@ export type StaffCreateWithoutOrdersInput = {
   resetTokenExpiry?: string | null
   lastLogin?: Date | string | null
   offlineSales?: Prisma.OfflineSaleCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestCreateNestedManyWithoutReviewedByInput
+  pickupHandovers?: Prisma.OrderPickupCreateNestedManyWithoutCollectedByInput
 }
 
-export type StaffUncheckedCreateWithoutOrdersInput = {
+export type StaffUncheckedCreateWithoutRepriceRunsInput = {
   id?: string
   firstName: string
   middleName?: string | null
@@ -798,25 +1806,31 @@ export type StaffUncheckedCreateWithoutOrdersInput = {
   resetTokenExpiry?: string | null
   lastLogin?: Date | string | null
   offlineSales?: Prisma.OfflineSaleUncheckedCreateNestedManyWithoutStaffInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutReviewedByInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedCreateNestedManyWithoutCollectedByInput
 }
 
-export type StaffCreateOrConnectWithoutOrdersInput = {
+export type StaffCreateOrConnectWithoutRepriceRunsInput = {
   where: Prisma.StaffWhereUniqueInput
-  create: Prisma.XOR<Prisma.StaffCreateWithoutOrdersInput, Prisma.StaffUncheckedCreateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutRepriceRunsInput, Prisma.StaffUncheckedCreateWithoutRepriceRunsInput>
 }
 
-export type StaffUpsertWithoutOrdersInput = {
-  update: Prisma.XOR<Prisma.StaffUpdateWithoutOrdersInput, Prisma.StaffUncheckedUpdateWithoutOrdersInput>
-  create: Prisma.XOR<Prisma.StaffCreateWithoutOrdersInput, Prisma.StaffUncheckedCreateWithoutOrdersInput>
+export type StaffUpsertWithoutRepriceRunsInput = {
+  update: Prisma.XOR<Prisma.StaffUpdateWithoutRepriceRunsInput, Prisma.StaffUncheckedUpdateWithoutRepriceRunsInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutRepriceRunsInput, Prisma.StaffUncheckedCreateWithoutRepriceRunsInput>
   where?: Prisma.StaffWhereInput
 }
 
-export type StaffUpdateToOneWithWhereWithoutOrdersInput = {
+export type StaffUpdateToOneWithWhereWithoutRepriceRunsInput = {
   where?: Prisma.StaffWhereInput
-  data: Prisma.XOR<Prisma.StaffUpdateWithoutOrdersInput, Prisma.StaffUncheckedUpdateWithoutOrdersInput>
+  data: Prisma.XOR<Prisma.StaffUpdateWithoutRepriceRunsInput, Prisma.StaffUncheckedUpdateWithoutRepriceRunsInput>
 }
 
-export type StaffUpdateWithoutOrdersInput = {
+export type StaffUpdateWithoutRepriceRunsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -840,9 +1854,15 @@ export type StaffUpdateWithoutOrdersInput = {
   resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   offlineSales?: Prisma.OfflineSaleUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUpdateManyWithoutReviewedByNestedInput
+  pickupHandovers?: Prisma.OrderPickupUpdateManyWithoutCollectedByNestedInput
 }
 
-export type StaffUncheckedUpdateWithoutOrdersInput = {
+export type StaffUncheckedUpdateWithoutRepriceRunsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -866,9 +1886,15 @@ export type StaffUncheckedUpdateWithoutOrdersInput = {
   resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   offlineSales?: Prisma.OfflineSaleUncheckedUpdateManyWithoutStaffNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutReviewedByNestedInput
+  pickupHandovers?: Prisma.OrderPickupUncheckedUpdateManyWithoutCollectedByNestedInput
 }
 
-export type StaffCreateWithoutOfflineSalesInput = {
+export type StaffCreateWithoutPickupHandoversInput = {
   id?: string
   firstName: string
   middleName?: string | null
@@ -891,10 +1917,16 @@ export type StaffCreateWithoutOfflineSalesInput = {
   resetToken?: string | null
   resetTokenExpiry?: string | null
   lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleCreateNestedManyWithoutStaffInput
   orders?: Prisma.OrderCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunCreateNestedManyWithoutStaffInput
 }
 
-export type StaffUncheckedCreateWithoutOfflineSalesInput = {
+export type StaffUncheckedCreateWithoutPickupHandoversInput = {
   id?: string
   firstName: string
   middleName?: string | null
@@ -917,26 +1949,32 @@ export type StaffUncheckedCreateWithoutOfflineSalesInput = {
   resetToken?: string | null
   resetTokenExpiry?: string | null
   lastLogin?: Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedCreateNestedManyWithoutStaffInput
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutStaffInput
+  refunds?: Prisma.OrderRefundUncheckedCreateNestedManyWithoutStaffInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutStaffInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutStaffInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutReviewedByInput
+  repriceRuns?: Prisma.RepriceRunUncheckedCreateNestedManyWithoutStaffInput
 }
 
-export type StaffCreateOrConnectWithoutOfflineSalesInput = {
+export type StaffCreateOrConnectWithoutPickupHandoversInput = {
   where: Prisma.StaffWhereUniqueInput
-  create: Prisma.XOR<Prisma.StaffCreateWithoutOfflineSalesInput, Prisma.StaffUncheckedCreateWithoutOfflineSalesInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutPickupHandoversInput, Prisma.StaffUncheckedCreateWithoutPickupHandoversInput>
 }
 
-export type StaffUpsertWithoutOfflineSalesInput = {
-  update: Prisma.XOR<Prisma.StaffUpdateWithoutOfflineSalesInput, Prisma.StaffUncheckedUpdateWithoutOfflineSalesInput>
-  create: Prisma.XOR<Prisma.StaffCreateWithoutOfflineSalesInput, Prisma.StaffUncheckedCreateWithoutOfflineSalesInput>
+export type StaffUpsertWithoutPickupHandoversInput = {
+  update: Prisma.XOR<Prisma.StaffUpdateWithoutPickupHandoversInput, Prisma.StaffUncheckedUpdateWithoutPickupHandoversInput>
+  create: Prisma.XOR<Prisma.StaffCreateWithoutPickupHandoversInput, Prisma.StaffUncheckedCreateWithoutPickupHandoversInput>
   where?: Prisma.StaffWhereInput
 }
 
-export type StaffUpdateToOneWithWhereWithoutOfflineSalesInput = {
+export type StaffUpdateToOneWithWhereWithoutPickupHandoversInput = {
   where?: Prisma.StaffWhereInput
-  data: Prisma.XOR<Prisma.StaffUpdateWithoutOfflineSalesInput, Prisma.StaffUncheckedUpdateWithoutOfflineSalesInput>
+  data: Prisma.XOR<Prisma.StaffUpdateWithoutPickupHandoversInput, Prisma.StaffUncheckedUpdateWithoutPickupHandoversInput>
 }
 
-export type StaffUpdateWithoutOfflineSalesInput = {
+export type StaffUpdateWithoutPickupHandoversInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -959,10 +1997,16 @@ export type StaffUpdateWithoutOfflineSalesInput = {
   resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUpdateManyWithoutStaffNestedInput
   orders?: Prisma.OrderUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUpdateManyWithoutStaffNestedInput
 }
 
-export type StaffUncheckedUpdateWithoutOfflineSalesInput = {
+export type StaffUncheckedUpdateWithoutPickupHandoversInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   middleName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -985,7 +2029,13 @@ export type StaffUncheckedUpdateWithoutOfflineSalesInput = {
   resetToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   resetTokenExpiry?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineSales?: Prisma.OfflineSaleUncheckedUpdateManyWithoutStaffNestedInput
   orders?: Prisma.OrderUncheckedUpdateManyWithoutStaffNestedInput
+  refunds?: Prisma.OrderRefundUncheckedUpdateManyWithoutStaffNestedInput
+  inventoryMovements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutStaffNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutStaffNestedInput
+  reviewedReturns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutReviewedByNestedInput
+  repriceRuns?: Prisma.RepriceRunUncheckedUpdateManyWithoutStaffNestedInput
 }
 
 
@@ -996,11 +2046,23 @@ export type StaffUncheckedUpdateWithoutOfflineSalesInput = {
 export type StaffCountOutputType = {
   offlineSales: number
   orders: number
+  refunds: number
+  inventoryMovements: number
+  auditLogs: number
+  reviewedReturns: number
+  repriceRuns: number
+  pickupHandovers: number
 }
 
 export type StaffCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   offlineSales?: boolean | StaffCountOutputTypeCountOfflineSalesArgs
   orders?: boolean | StaffCountOutputTypeCountOrdersArgs
+  refunds?: boolean | StaffCountOutputTypeCountRefundsArgs
+  inventoryMovements?: boolean | StaffCountOutputTypeCountInventoryMovementsArgs
+  auditLogs?: boolean | StaffCountOutputTypeCountAuditLogsArgs
+  reviewedReturns?: boolean | StaffCountOutputTypeCountReviewedReturnsArgs
+  repriceRuns?: boolean | StaffCountOutputTypeCountRepriceRunsArgs
+  pickupHandovers?: boolean | StaffCountOutputTypeCountPickupHandoversArgs
 }
 
 /**
@@ -1027,6 +2089,48 @@ export type StaffCountOutputTypeCountOrdersArgs<ExtArgs extends runtime.Types.Ex
   where?: Prisma.OrderWhereInput
 }
 
+/**
+ * StaffCountOutputType without action
+ */
+export type StaffCountOutputTypeCountRefundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderRefundWhereInput
+}
+
+/**
+ * StaffCountOutputType without action
+ */
+export type StaffCountOutputTypeCountInventoryMovementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryMovementWhereInput
+}
+
+/**
+ * StaffCountOutputType without action
+ */
+export type StaffCountOutputTypeCountAuditLogsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AuditLogWhereInput
+}
+
+/**
+ * StaffCountOutputType without action
+ */
+export type StaffCountOutputTypeCountReviewedReturnsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+/**
+ * StaffCountOutputType without action
+ */
+export type StaffCountOutputTypeCountRepriceRunsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RepriceRunWhereInput
+}
+
+/**
+ * StaffCountOutputType without action
+ */
+export type StaffCountOutputTypeCountPickupHandoversArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderPickupWhereInput
+}
+
 
 export type StaffSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1053,6 +2157,12 @@ export type StaffSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   lastLogin?: boolean
   offlineSales?: boolean | Prisma.Staff$offlineSalesArgs<ExtArgs>
   orders?: boolean | Prisma.Staff$ordersArgs<ExtArgs>
+  refunds?: boolean | Prisma.Staff$refundsArgs<ExtArgs>
+  inventoryMovements?: boolean | Prisma.Staff$inventoryMovementsArgs<ExtArgs>
+  auditLogs?: boolean | Prisma.Staff$auditLogsArgs<ExtArgs>
+  reviewedReturns?: boolean | Prisma.Staff$reviewedReturnsArgs<ExtArgs>
+  repriceRuns?: boolean | Prisma.Staff$repriceRunsArgs<ExtArgs>
+  pickupHandovers?: boolean | Prisma.Staff$pickupHandoversArgs<ExtArgs>
   _count?: boolean | Prisma.StaffCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["staff"]>
 
@@ -1135,6 +2245,12 @@ export type StaffOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = ru
 export type StaffInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   offlineSales?: boolean | Prisma.Staff$offlineSalesArgs<ExtArgs>
   orders?: boolean | Prisma.Staff$ordersArgs<ExtArgs>
+  refunds?: boolean | Prisma.Staff$refundsArgs<ExtArgs>
+  inventoryMovements?: boolean | Prisma.Staff$inventoryMovementsArgs<ExtArgs>
+  auditLogs?: boolean | Prisma.Staff$auditLogsArgs<ExtArgs>
+  reviewedReturns?: boolean | Prisma.Staff$reviewedReturnsArgs<ExtArgs>
+  repriceRuns?: boolean | Prisma.Staff$repriceRunsArgs<ExtArgs>
+  pickupHandovers?: boolean | Prisma.Staff$pickupHandoversArgs<ExtArgs>
   _count?: boolean | Prisma.StaffCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type StaffIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -1145,6 +2261,12 @@ export type $StaffPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
   objects: {
     offlineSales: Prisma.$OfflineSalePayload<ExtArgs>[]
     orders: Prisma.$OrderPayload<ExtArgs>[]
+    refunds: Prisma.$OrderRefundPayload<ExtArgs>[]
+    inventoryMovements: Prisma.$InventoryMovementPayload<ExtArgs>[]
+    auditLogs: Prisma.$AuditLogPayload<ExtArgs>[]
+    reviewedReturns: Prisma.$ReturnRequestPayload<ExtArgs>[]
+    repriceRuns: Prisma.$RepriceRunPayload<ExtArgs>[]
+    pickupHandovers: Prisma.$OrderPickupPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1565,6 +2687,12 @@ export interface Prisma__StaffClient<T, Null = never, ExtArgs extends runtime.Ty
   readonly [Symbol.toStringTag]: "PrismaPromise"
   offlineSales<T extends Prisma.Staff$offlineSalesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Staff$offlineSalesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OfflineSalePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   orders<T extends Prisma.Staff$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Staff$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  refunds<T extends Prisma.Staff$refundsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Staff$refundsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderRefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  inventoryMovements<T extends Prisma.Staff$inventoryMovementsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Staff$inventoryMovementsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  auditLogs<T extends Prisma.Staff$auditLogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Staff$auditLogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AuditLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  reviewedReturns<T extends Prisma.Staff$reviewedReturnsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Staff$reviewedReturnsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  repriceRuns<T extends Prisma.Staff$repriceRunsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Staff$repriceRunsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RepriceRunPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  pickupHandovers<T extends Prisma.Staff$pickupHandoversArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Staff$pickupHandoversArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPickupPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2051,6 +3179,150 @@ export type Staff$ordersArgs<ExtArgs extends runtime.Types.Extensions.InternalAr
   distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
 }
 
+/**
+ * Staff.refunds
+ */
+export type Staff$refundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderRefund
+   */
+  select?: Prisma.OrderRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderRefund
+   */
+  omit?: Prisma.OrderRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderRefundInclude<ExtArgs> | null
+  where?: Prisma.OrderRefundWhereInput
+  orderBy?: Prisma.OrderRefundOrderByWithRelationInput | Prisma.OrderRefundOrderByWithRelationInput[]
+  cursor?: Prisma.OrderRefundWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderRefundScalarFieldEnum | Prisma.OrderRefundScalarFieldEnum[]
+}
+
+/**
+ * Staff.inventoryMovements
+ */
+export type Staff$inventoryMovementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  where?: Prisma.InventoryMovementWhereInput
+  orderBy?: Prisma.InventoryMovementOrderByWithRelationInput | Prisma.InventoryMovementOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryMovementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryMovementScalarFieldEnum | Prisma.InventoryMovementScalarFieldEnum[]
+}
+
+/**
+ * Staff.auditLogs
+ */
+export type Staff$auditLogsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditLog
+   */
+  select?: Prisma.AuditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditLog
+   */
+  omit?: Prisma.AuditLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditLogInclude<ExtArgs> | null
+  where?: Prisma.AuditLogWhereInput
+  orderBy?: Prisma.AuditLogOrderByWithRelationInput | Prisma.AuditLogOrderByWithRelationInput[]
+  cursor?: Prisma.AuditLogWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AuditLogScalarFieldEnum | Prisma.AuditLogScalarFieldEnum[]
+}
+
+/**
+ * Staff.reviewedReturns
+ */
+export type Staff$reviewedReturnsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestWhereInput
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * Staff.repriceRuns
+ */
+export type Staff$repriceRunsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RepriceRun
+   */
+  select?: Prisma.RepriceRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RepriceRun
+   */
+  omit?: Prisma.RepriceRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RepriceRunInclude<ExtArgs> | null
+  where?: Prisma.RepriceRunWhereInput
+  orderBy?: Prisma.RepriceRunOrderByWithRelationInput | Prisma.RepriceRunOrderByWithRelationInput[]
+  cursor?: Prisma.RepriceRunWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RepriceRunScalarFieldEnum | Prisma.RepriceRunScalarFieldEnum[]
+}
+
+/**
+ * Staff.pickupHandovers
+ */
+export type Staff$pickupHandoversArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderPickup
+   */
+  select?: Prisma.OrderPickupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderPickup
+   */
+  omit?: Prisma.OrderPickupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderPickupInclude<ExtArgs> | null
+  where?: Prisma.OrderPickupWhereInput
+  orderBy?: Prisma.OrderPickupOrderByWithRelationInput | Prisma.OrderPickupOrderByWithRelationInput[]
+  cursor?: Prisma.OrderPickupWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderPickupScalarFieldEnum | Prisma.OrderPickupScalarFieldEnum[]
+}
+
 /**
  * Staff without action
  */
@@ -0,0 +1,1608 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `StockNotification` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model StockNotification
+ * 
+ */
+export type StockNotificationModel = runtime.Types.Result.DefaultSelection<Prisma.$StockNotificationPayload>
+
+export type AggregateStockNotification = {
+  _count: StockNotificationCountAggregateOutputType | null
+  _min: StockNotificationMinAggregateOutputType | null
+  _max: StockNotificationMaxAggregateOutputType | null
+}
+
+export type StockNotificationMinAggregateOutputType = {
+  id: string | null
+  variantId: string | null
+  email: string | null
+  customerId: string | null
+  token: string | null
+  notifiedAt: Date | null
+  unsubscribedAt: Date | null
+  createdAt: Date | null
+}
+
+export type StockNotificationMaxAggregateOutputType = {
+  id: string | null
+  variantId: string | null
+  email: string | null
+  customerId: string | null
+  token: string | null
+  notifiedAt: Date | null
+  unsubscribedAt: Date | null
+  createdAt: Date | null
+}
+
+export type StockNotificationCountAggregateOutputType = {
+  id: number
+  variantId: number
+  email: number
+  customerId: number
+  token: number
+  notifiedAt: number
+  unsubscribedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type StockNotificationMinAggregateInputType = {
+  id?: true
+  variantId?: true
+  email?: true
+  customerId?: true
+  token?: true
+  notifiedAt?: true
+  unsubscribedAt?: true
+  createdAt?: true
+}
+
+export type StockNotificationMaxAggregateInputType = {
+  id?: true
+  variantId?: true
+  email?: true
+  customerId?: true
+  token?: true
+  notifiedAt?: true
+  unsubscribedAt?: true
+  createdAt?: true
+}
+
+export type StockNotificationCountAggregateInputType = {
+  id?: true
+  variantId?: true
+  email?: true
+  customerId?: true
+  token?: true
+  notifiedAt?: true
+  unsubscribedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type StockNotificationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which StockNotification to aggregate.
+   */
+  where?: Prisma.StockNotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StockNotifications to fetch.
+   */
+  orderBy?: Prisma.StockNotificationOrderByWithRelationInput | Prisma.StockNotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.StockNotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StockNotifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StockNotifications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned StockNotifications
+  **/
+  _count?: true | StockNotificationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: StockNotificationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: StockNotificationMaxAggregateInputType
+}
+
+export type GetStockNotificationAggregateType<T extends StockNotificationAggregateArgs> = {
+      [P in keyof T & keyof AggregateStockNotification]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateStockNotification[P]>
+    : Prisma.GetScalarType<T[P], AggregateStockNotification[P]>
+}
+
+
+
+
+export type StockNotificationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StockNotificationWhereInput
+  orderBy?: Prisma.StockNotificationOrderByWithAggregationInput | Prisma.StockNotificationOrderByWithAggregationInput[]
+  by: Prisma.StockNotificationScalarFieldEnum[] | Prisma.StockNotificationScalarFieldEnum
+  having?: Prisma.StockNotificationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: StockNotificationCountAggregateInputType | true
+  _min?: StockNotificationMinAggregateInputType
+  _max?: StockNotificationMaxAggregateInputType
+}
+
+export type StockNotificationGroupByOutputType = {
+  id: string
+  variantId: string
+  email: string
+  customerId: string | null
+  token: string
+  notifiedAt: Date | null
+  unsubscribedAt: Date | null
+  createdAt: Date
+  _count: StockNotificationCountAggregateOutputType | null
+  _min: StockNotificationMinAggregateOutputType | null
+  _max: StockNotificationMaxAggregateOutputType | null
+}
+
+type GetStockNotificationGroupByPayload<T extends StockNotificationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<StockNotificationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof StockNotificationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], StockNotificationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], StockNotificationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type StockNotificationWhereInput = {
+  AND?: Prisma.StockNotificationWhereInput | Prisma.StockNotificationWhereInput[]
+  OR?: Prisma.StockNotificationWhereInput[]
+  NOT?: Prisma.StockNotificationWhereInput | Prisma.StockNotificationWhereInput[]
+  id?: Prisma.StringFilter<"StockNotification"> | string
+  variantId?: Prisma.StringFilter<"StockNotification"> | string
+  email?: Prisma.StringFilter<"StockNotification"> | string
+  customerId?: Prisma.StringNullableFilter<"StockNotification"> | string | null
+  token?: Prisma.StringFilter<"StockNotification"> | string
+  notifiedAt?: Prisma.DateTimeNullableFilter<"StockNotification"> | Date | string | null
+  unsubscribedAt?: Prisma.DateTimeNullableFilter<"StockNotification"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"StockNotification"> | Date | string
+  variant?: Prisma.XOR<Prisma.VariantScalarRelationFilter, Prisma.VariantWhereInput>
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+}
+
+export type StockNotificationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  variant?: Prisma.VariantOrderByWithRelationInput
+  customer?: Prisma.CustomerOrderByWithRelationInput
+}
+
+export type StockNotificationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  token?: string
+  variantId_email?: Prisma.StockNotificationVariantIdEmailCompoundUniqueInput
+  AND?: Prisma.StockNotificationWhereInput | Prisma.StockNotificationWhereInput[]
+  OR?: Prisma.StockNotificationWhereInput[]
+  NOT?: Prisma.StockNotificationWhereInput | Prisma.StockNotificationWhereInput[]
+  variantId?: Prisma.StringFilter<"StockNotification"> | string
+  email?: Prisma.StringFilter<"StockNotification"> | string
+  customerId?: Prisma.StringNullableFilter<"StockNotification"> | string | null
+  notifiedAt?: Prisma.DateTimeNullableFilter<"StockNotification"> | Date | string | null
+  unsubscribedAt?: Prisma.DateTimeNullableFilter<"StockNotification"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"StockNotification"> | Date | string
+  variant?: Prisma.XOR<Prisma.VariantScalarRelationFilter, Prisma.VariantWhereInput>
+  customer?: Prisma.XOR<Prisma.CustomerNullableScalarRelationFilter, Prisma.CustomerWhereInput> | null
+}, "id" | "token" | "variantId_email">
+
+export type StockNotificationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.StockNotificationCountOrderByAggregateInput
+  _max?: Prisma.StockNotificationMaxOrderByAggregateInput
+  _min?: Prisma.StockNotificationMinOrderByAggregateInput
+}
+
+export type StockNotificationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.StockNotificationScalarWhereWithAggregatesInput | Prisma.StockNotificationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.StockNotificationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.StockNotificationScalarWhereWithAggregatesInput | Prisma.StockNotificationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"StockNotification"> | string
+  variantId?: Prisma.StringWithAggregatesFilter<"StockNotification"> | string
+  email?: Prisma.StringWithAggregatesFilter<"StockNotification"> | string
+  customerId?: Prisma.StringNullableWithAggregatesFilter<"StockNotification"> | string | null
+  token?: Prisma.StringWithAggregatesFilter<"StockNotification"> | string
+  notifiedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"StockNotification"> | Date | string | null
+  unsubscribedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"StockNotification"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"StockNotification"> | Date | string
+}
+
+export type StockNotificationCreateInput = {
+  id?: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+  variant: Prisma.VariantCreateNestedOneWithoutNotificationsInput
+  customer?: Prisma.CustomerCreateNestedOneWithoutStockNotificationsInput
+}
+
+export type StockNotificationUncheckedCreateInput = {
+  id?: string
+  variantId: string
+  email: string
+  customerId?: string | null
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type StockNotificationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variant?: Prisma.VariantUpdateOneRequiredWithoutNotificationsNestedInput
+  customer?: Prisma.CustomerUpdateOneWithoutStockNotificationsNestedInput
+}
+
+export type StockNotificationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockNotificationCreateManyInput = {
+  id?: string
+  variantId: string
+  email: string
+  customerId?: string | null
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type StockNotificationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockNotificationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockNotificationListRelationFilter = {
+  every?: Prisma.StockNotificationWhereInput
+  some?: Prisma.StockNotificationWhereInput
+  none?: Prisma.StockNotificationWhereInput
+}
+
+export type StockNotificationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type StockNotificationVariantIdEmailCompoundUniqueInput = {
+  variantId: string
+  email: string
+}
+
+export type StockNotificationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type StockNotificationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type StockNotificationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrder
+  unsubscribedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type StockNotificationCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.StockNotificationCreateWithoutCustomerInput, Prisma.StockNotificationUncheckedCreateWithoutCustomerInput> | Prisma.StockNotificationCreateWithoutCustomerInput[] | Prisma.StockNotificationUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.StockNotificationCreateOrConnectWithoutCustomerInput | Prisma.StockNotificationCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.StockNotificationCreateManyCustomerInputEnvelope
+  connect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+}
+
+export type StockNotificationUncheckedCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.StockNotificationCreateWithoutCustomerInput, Prisma.StockNotificationUncheckedCreateWithoutCustomerInput> | Prisma.StockNotificationCreateWithoutCustomerInput[] | Prisma.StockNotificationUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.StockNotificationCreateOrConnectWithoutCustomerInput | Prisma.StockNotificationCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.StockNotificationCreateManyCustomerInputEnvelope
+  connect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+}
+
+export type StockNotificationUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.StockNotificationCreateWithoutCustomerInput, Prisma.StockNotificationUncheckedCreateWithoutCustomerInput> | Prisma.StockNotificationCreateWithoutCustomerInput[] | Prisma.StockNotificationUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.StockNotificationCreateOrConnectWithoutCustomerInput | Prisma.StockNotificationCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.StockNotificationUpsertWithWhereUniqueWithoutCustomerInput | Prisma.StockNotificationUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.StockNotificationCreateManyCustomerInputEnvelope
+  set?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  disconnect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  delete?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  connect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  update?: Prisma.StockNotificationUpdateWithWhereUniqueWithoutCustomerInput | Prisma.StockNotificationUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.StockNotificationUpdateManyWithWhereWithoutCustomerInput | Prisma.StockNotificationUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.StockNotificationScalarWhereInput | Prisma.StockNotificationScalarWhereInput[]
+}
+
+export type StockNotificationUncheckedUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.StockNotificationCreateWithoutCustomerInput, Prisma.StockNotificationUncheckedCreateWithoutCustomerInput> | Prisma.StockNotificationCreateWithoutCustomerInput[] | Prisma.StockNotificationUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.StockNotificationCreateOrConnectWithoutCustomerInput | Prisma.StockNotificationCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.StockNotificationUpsertWithWhereUniqueWithoutCustomerInput | Prisma.StockNotificationUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.StockNotificationCreateManyCustomerInputEnvelope
+  set?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  disconnect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  delete?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  connect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  update?: Prisma.StockNotificationUpdateWithWhereUniqueWithoutCustomerInput | Prisma.StockNotificationUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.StockNotificationUpdateManyWithWhereWithoutCustomerInput | Prisma.StockNotificationUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.StockNotificationScalarWhereInput | Prisma.StockNotificationScalarWhereInput[]
+}
+
+export type StockNotificationCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.StockNotificationCreateWithoutVariantInput, Prisma.StockNotificationUncheckedCreateWithoutVariantInput> | Prisma.StockNotificationCreateWithoutVariantInput[] | Prisma.StockNotificationUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.StockNotificationCreateOrConnectWithoutVariantInput | Prisma.StockNotificationCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.StockNotificationCreateManyVariantInputEnvelope
+  connect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+}
+
+export type StockNotificationUncheckedCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.StockNotificationCreateWithoutVariantInput, Prisma.StockNotificationUncheckedCreateWithoutVariantInput> | Prisma.StockNotificationCreateWithoutVariantInput[] | Prisma.StockNotificationUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.StockNotificationCreateOrConnectWithoutVariantInput | Prisma.StockNotificationCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.StockNotificationCreateManyVariantInputEnvelope
+  connect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+}
+
+export type StockNotificationUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.StockNotificationCreateWithoutVariantInput, Prisma.StockNotificationUncheckedCreateWithoutVariantInput> | Prisma.StockNotificationCreateWithoutVariantInput[] | Prisma.StockNotificationUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.StockNotificationCreateOrConnectWithoutVariantInput | Prisma.StockNotificationCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.StockNotificationUpsertWithWhereUniqueWithoutVariantInput | Prisma.StockNotificationUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.StockNotificationCreateManyVariantInputEnvelope
+  set?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  disconnect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  delete?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  connect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  update?: Prisma.StockNotificationUpdateWithWhereUniqueWithoutVariantInput | Prisma.StockNotificationUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.StockNotificationUpdateManyWithWhereWithoutVariantInput | Prisma.StockNotificationUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.StockNotificationScalarWhereInput | Prisma.StockNotificationScalarWhereInput[]
+}
+
+export type StockNotificationUncheckedUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.StockNotificationCreateWithoutVariantInput, Prisma.StockNotificationUncheckedCreateWithoutVariantInput> | Prisma.StockNotificationCreateWithoutVariantInput[] | Prisma.StockNotificationUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.StockNotificationCreateOrConnectWithoutVariantInput | Prisma.StockNotificationCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.StockNotificationUpsertWithWhereUniqueWithoutVariantInput | Prisma.StockNotificationUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.StockNotificationCreateManyVariantInputEnvelope
+  set?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  disconnect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  delete?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  connect?: Prisma.StockNotificationWhereUniqueInput | Prisma.StockNotificationWhereUniqueInput[]
+  update?: Prisma.StockNotificationUpdateWithWhereUniqueWithoutVariantInput | Prisma.StockNotificationUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.StockNotificationUpdateManyWithWhereWithoutVariantInput | Prisma.StockNotificationUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.StockNotificationScalarWhereInput | Prisma.StockNotificationScalarWhereInput[]
+}
+
+export type StockNotificationCreateWithoutCustomerInput = {
+  id?: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+  variant: Prisma.VariantCreateNestedOneWithoutNotificationsInput
+}
+
+export type StockNotificationUncheckedCreateWithoutCustomerInput = {
+  id?: string
+  variantId: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type StockNotificationCreateOrConnectWithoutCustomerInput = {
+  where: Prisma.StockNotificationWhereUniqueInput
+  create: Prisma.XOR<Prisma.StockNotificationCreateWithoutCustomerInput, Prisma.StockNotificationUncheckedCreateWithoutCustomerInput>
+}
+
+export type StockNotificationCreateManyCustomerInputEnvelope = {
+  data: Prisma.StockNotificationCreateManyCustomerInput | Prisma.StockNotificationCreateManyCustomerInput[]
+  skipDuplicates?: boolean
+}
+
+export type StockNotificationUpsertWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.StockNotificationWhereUniqueInput
+  update: Prisma.XOR<Prisma.StockNotificationUpdateWithoutCustomerInput, Prisma.StockNotificationUncheckedUpdateWithoutCustomerInput>
+  create: Prisma.XOR<Prisma.StockNotificationCreateWithoutCustomerInput, Prisma.StockNotificationUncheckedCreateWithoutCustomerInput>
+}
+
+export type StockNotificationUpdateWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.StockNotificationWhereUniqueInput
+  data: Prisma.XOR<Prisma.StockNotificationUpdateWithoutCustomerInput, Prisma.StockNotificationUncheckedUpdateWithoutCustomerInput>
+}
+
+export type StockNotificationUpdateManyWithWhereWithoutCustomerInput = {
+  where: Prisma.StockNotificationScalarWhereInput
+  data: Prisma.XOR<Prisma.StockNotificationUpdateManyMutationInput, Prisma.StockNotificationUncheckedUpdateManyWithoutCustomerInput>
+}
+
+export type StockNotificationScalarWhereInput = {
+  AND?: Prisma.StockNotificationScalarWhereInput | Prisma.StockNotificationScalarWhereInput[]
+  OR?: Prisma.StockNotificationScalarWhereInput[]
+  NOT?: Prisma.StockNotificationScalarWhereInput | Prisma.StockNotificationScalarWhereInput[]
+  id?: Prisma.StringFilter<"StockNotification"> | string
+  variantId?: Prisma.StringFilter<"StockNotification"> | string
+  email?: Prisma.StringFilter<"StockNotification"> | string
+  customerId?: Prisma.StringNullableFilter<"StockNotification"> | string | null
+  token?: Prisma.StringFilter<"StockNotification"> | string
+  notifiedAt?: Prisma.DateTimeNullableFilter<"StockNotification"> | Date | string | null
+  unsubscribedAt?: Prisma.DateTimeNullableFilter<"StockNotification"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"StockNotification"> | Date | string
+}
+
+export type StockNotificationCreateWithoutVariantInput = {
+  id?: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+  customer?: Prisma.CustomerCreateNestedOneWithoutStockNotificationsInput
+}
+
+export type StockNotificationUncheckedCreateWithoutVariantInput = {
+  id?: string
+  email: string
+  customerId?: string | null
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type StockNotificationCreateOrConnectWithoutVariantInput = {
+  where: Prisma.StockNotificationWhereUniqueInput
+  create: Prisma.XOR<Prisma.StockNotificationCreateWithoutVariantInput, Prisma.StockNotificationUncheckedCreateWithoutVariantInput>
+}
+
+export type StockNotificationCreateManyVariantInputEnvelope = {
+  data: Prisma.StockNotificationCreateManyVariantInput | Prisma.StockNotificationCreateManyVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type StockNotificationUpsertWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.StockNotificationWhereUniqueInput
+  update: Prisma.XOR<Prisma.StockNotificationUpdateWithoutVariantInput, Prisma.StockNotificationUncheckedUpdateWithoutVariantInput>
+  create: Prisma.XOR<Prisma.StockNotificationCreateWithoutVariantInput, Prisma.StockNotificationUncheckedCreateWithoutVariantInput>
+}
+
+export type StockNotificationUpdateWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.StockNotificationWhereUniqueInput
+  data: Prisma.XOR<Prisma.StockNotificationUpdateWithoutVariantInput, Prisma.StockNotificationUncheckedUpdateWithoutVariantInput>
+}
+
+export type StockNotificationUpdateManyWithWhereWithoutVariantInput = {
+  where: Prisma.StockNotificationScalarWhereInput
+  data: Prisma.XOR<Prisma.StockNotificationUpdateManyMutationInput, Prisma.StockNotificationUncheckedUpdateManyWithoutVariantInput>
+}
+
+export type StockNotificationCreateManyCustomerInput = {
+  id?: string
+  variantId: string
+  email: string
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type StockNotificationUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variant?: Prisma.VariantUpdateOneRequiredWithoutNotificationsNestedInput
+}
+
+export type StockNotificationUncheckedUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockNotificationUncheckedUpdateManyWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockNotificationCreateManyVariantInput = {
+  id?: string
+  email: string
+  customerId?: string | null
+  token?: string
+  notifiedAt?: Date | string | null
+  unsubscribedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type StockNotificationUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.CustomerUpdateOneWithoutStockNotificationsNestedInput
+}
+
+export type StockNotificationUncheckedUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockNotificationUncheckedUpdateManyWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  unsubscribedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type StockNotificationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  variantId?: boolean
+  email?: boolean
+  customerId?: boolean
+  token?: boolean
+  notifiedAt?: boolean
+  unsubscribedAt?: boolean
+  createdAt?: boolean
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.StockNotification$customerArgs<ExtArgs>
+}, ExtArgs["result"]["stockNotification"]>
+
+export type StockNotificationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  variantId?: boolean
+  email?: boolean
+  customerId?: boolean
+  token?: boolean
+  notifiedAt?: boolean
+  unsubscribedAt?: boolean
+  createdAt?: boolean
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.StockNotification$customerArgs<ExtArgs>
+}, ExtArgs["result"]["stockNotification"]>
+
+export type StockNotificationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  variantId?: boolean
+  email?: boolean
+  customerId?: boolean
+  token?: boolean
+  notifiedAt?: boolean
+  unsubscribedAt?: boolean
+  createdAt?: boolean
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.StockNotification$customerArgs<ExtArgs>
+}, ExtArgs["result"]["stockNotification"]>
+
+export type StockNotificationSelectScalar = {
+  id?: boolean
+  variantId?: boolean
+  email?: boolean
+  customerId?: boolean
+  token?: boolean
+  notifiedAt?: boolean
+  unsubscribedAt?: boolean
+  createdAt?: boolean
+}
+
+export type StockNotificationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "variantId" | "email" | "customerId" | "token" | "notifiedAt" | "unsubscribedAt" | "createdAt", ExtArgs["result"]["stockNotification"]>
+export type StockNotificationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.StockNotification$customerArgs<ExtArgs>
+}
+export type StockNotificationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.StockNotification$customerArgs<ExtArgs>
+}
+export type StockNotificationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.StockNotification$customerArgs<ExtArgs>
+}
+
+export type $StockNotificationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "StockNotification"
+  objects: {
+    variant: Prisma.$VariantPayload<ExtArgs>
+    customer: Prisma.$CustomerPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    variantId: string
+    email: string
+    customerId: string | null
+    token: string
+    notifiedAt: Date | null
+    unsubscribedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["stockNotification"]>
+  composites: {}
+}
+
+export type StockNotificationGetPayload<S extends boolean | null | undefined | StockNotificationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload, S>
+
+export type StockNotificationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<StockNotificationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: StockNotificationCountAggregateInputType | true
+  }
+
+export interface StockNotificationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['StockNotification'], meta: { name: 'StockNotification' } }
+  /**
+   * Find zero or one StockNotification that matches the filter.
+   * @param {StockNotificationFindUniqueArgs} args - Arguments to find a StockNotification
+   * @example
+   * // Get one StockNotification
+   * const stockNotification = await prisma.stockNotification.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends StockNotificationFindUniqueArgs>(args: Prisma.SelectSubset<T, StockNotificationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__StockNotificationClient<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one StockNotification that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {StockNotificationFindUniqueOrThrowArgs} args - Arguments to find a StockNotification
+   * @example
+   * // Get one StockNotification
+   * const stockNotification = await prisma.stockNotification.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends StockNotificationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, StockNotificationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__StockNotificationClient<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first StockNotification that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockNotificationFindFirstArgs} args - Arguments to find a StockNotification
+   * @example
+   * // Get one StockNotification
+   * const stockNotification = await prisma.stockNotification.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends StockNotificationFindFirstArgs>(args?: Prisma.SelectSubset<T, StockNotificationFindFirstArgs<ExtArgs>>): Prisma.Prisma__StockNotificationClient<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first StockNotification that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockNotificationFindFirstOrThrowArgs} args - Arguments to find a StockNotification
+   * @example
+   * // Get one StockNotification
+   * const stockNotification = await prisma.stockNotification.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends StockNotificationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, StockNotificationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__StockNotificationClient<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more StockNotifications that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockNotificationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all StockNotifications
+   * const stockNotifications = await prisma.stockNotification.findMany()
+   * 
+   * // Get first 10 StockNotifications
+   * const stockNotifications = await prisma.stockNotification.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const stockNotificationWithIdOnly = await prisma.stockNotification.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends StockNotificationFindManyArgs>(args?: Prisma.SelectSubset<T, StockNotificationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a StockNotification.
+   * @param {StockNotificationCreateArgs} args - Arguments to create a StockNotification.
+   * @example
+   * // Create one StockNotification
+   * const StockNotification = await prisma.stockNotification.create({
+   *   data: {
+   *     // ... data to create a StockNotification
+   *   }
+   * })
+   * 
+   */
+  create<T extends StockNotificationCreateArgs>(args: Prisma.SelectSubset<T, StockNotificationCreateArgs<ExtArgs>>): Prisma.Prisma__StockNotificationClient<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many StockNotifications.
+   * @param {StockNotificationCreateManyArgs} args - Arguments to create many StockNotifications.
+   * @example
+   * // Create many StockNotifications
+   * const stockNotification = await prisma.stockNotification.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends StockNotificationCreateManyArgs>(args?: Prisma.SelectSubset<T, StockNotificationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many StockNotifications and returns the data saved in the database.
+   * @param {StockNotificationCreateManyAndReturnArgs} args - Arguments to create many StockNotifications.
+   * @example
+   * // Create many StockNotifications
+   * const stockNotification = await prisma.stockNotification.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many StockNotifications and only return the `id`
+   * const stockNotificationWithIdOnly = await prisma.stockNotification.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends StockNotificationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, StockNotificationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a StockNotification.
+   * @param {StockNotificationDeleteArgs} args - Arguments to delete one StockNotification.
+   * @example
+   * // Delete one StockNotification
+   * const StockNotification = await prisma.stockNotification.delete({
+   *   where: {
+   *     // ... filter to delete one StockNotification
+   *   }
+   * })
+   * 
+   */
+  delete<T extends StockNotificationDeleteArgs>(args: Prisma.SelectSubset<T, StockNotificationDeleteArgs<ExtArgs>>): Prisma.Prisma__StockNotificationClient<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one StockNotification.
+   * @param {StockNotificationUpdateArgs} args - Arguments to update one StockNotification.
+   * @example
+   * // Update one StockNotification
+   * const stockNotification = await prisma.stockNotification.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends StockNotificationUpdateArgs>(args: Prisma.SelectSubset<T, StockNotificationUpdateArgs<ExtArgs>>): Prisma.Prisma__StockNotificationClient<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more StockNotifications.
+   * @param {StockNotificationDeleteManyArgs} args - Arguments to filter StockNotifications to delete.
+   * @example
+   * // Delete a few StockNotifications
+   * const { count } = await prisma.stockNotification.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends StockNotificationDeleteManyArgs>(args?: Prisma.SelectSubset<T, StockNotificationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more StockNotifications.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockNotificationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many StockNotifications
+   * const stockNotification = await prisma.stockNotification.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends StockNotificationUpdateManyArgs>(args: Prisma.SelectSubset<T, StockNotificationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more StockNotifications and returns the data updated in the database.
+   * @param {StockNotificationUpdateManyAndReturnArgs} args - Arguments to update many StockNotifications.
+   * @example
+   * // Update many StockNotifications
+   * const stockNotification = await prisma.stockNotification.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more StockNotifications and only return the `id`
+   * const stockNotificationWithIdOnly = await prisma.stockNotification.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends StockNotificationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, StockNotificationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one StockNotification.
+   * @param {StockNotificationUpsertArgs} args - Arguments to update or create a StockNotification.
+   * @example
+   * // Update or create a StockNotification
+   * const stockNotification = await prisma.stockNotification.upsert({
+   *   create: {
+   *     // ... data to create a StockNotification
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the StockNotification we want to update
+   *   }
+   * })
+   */
+  upsert<T extends StockNotificationUpsertArgs>(args: Prisma.SelectSubset<T, StockNotificationUpsertArgs<ExtArgs>>): Prisma.Prisma__StockNotificationClient<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of StockNotifications.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockNotificationCountArgs} args - Arguments to filter StockNotifications to count.
+   * @example
+   * // Count the number of StockNotifications
+   * const count = await prisma.stockNotification.count({
+   *   where: {
+   *     // ... the filter for the StockNotifications we want to count
+   *   }
+   * })
+  **/
+  count<T extends StockNotificationCountArgs>(
+    args?: Prisma.Subset<T, StockNotificationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], StockNotificationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a StockNotification.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockNotificationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends StockNotificationAggregateArgs>(args: Prisma.Subset<T, StockNotificationAggregateArgs>): Prisma.PrismaPromise<GetStockNotificationAggregateType<T>>
+
+  /**
+   * Group by StockNotification.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockNotificationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends StockNotificationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: StockNotificationGroupByArgs['orderBy'] }
+      : { orderBy?: StockNotificationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, StockNotificationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetStockNotificationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the StockNotification model
+ */
+readonly fields: StockNotificationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for StockNotification.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__StockNotificationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  variant<T extends Prisma.VariantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.VariantDefaultArgs<ExtArgs>>): Prisma.Prisma__VariantClient<runtime.Types.Result.GetResult<Prisma.$VariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  customer<T extends Prisma.StockNotification$customerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.StockNotification$customerArgs<ExtArgs>>): Prisma.Prisma__CustomerClient<runtime.Types.Result.GetResult<Prisma.$CustomerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the StockNotification model
+ */
+export interface StockNotificationFieldRefs {
+  readonly id: Prisma.FieldRef<"StockNotification", 'String'>
+  readonly variantId: Prisma.FieldRef<"StockNotification", 'String'>
+  readonly email: Prisma.FieldRef<"StockNotification", 'String'>
+  readonly customerId: Prisma.FieldRef<"StockNotification", 'String'>
+  readonly token: Prisma.FieldRef<"StockNotification", 'String'>
+  readonly notifiedAt: Prisma.FieldRef<"StockNotification", 'DateTime'>
+  readonly unsubscribedAt: Prisma.FieldRef<"StockNotification", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"StockNotification", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * StockNotification findUnique
+ */
+export type StockNotificationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockNotification to fetch.
+   */
+  where: Prisma.StockNotificationWhereUniqueInput
+}
+
+/**
+ * StockNotification findUniqueOrThrow
+ */
+export type StockNotificationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockNotification to fetch.
+   */
+  where: Prisma.StockNotificationWhereUniqueInput
+}
+
+/**
+ * StockNotification findFirst
+ */
+export type StockNotificationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockNotification to fetch.
+   */
+  where?: Prisma.StockNotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StockNotifications to fetch.
+   */
+  orderBy?: Prisma.StockNotificationOrderByWithRelationInput | Prisma.StockNotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for StockNotifications.
+   */
+  cursor?: Prisma.StockNotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StockNotifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StockNotifications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of StockNotifications.
+   */
+  distinct?: Prisma.StockNotificationScalarFieldEnum | Prisma.StockNotificationScalarFieldEnum[]
+}
+
+/**
+ * StockNotification findFirstOrThrow
+ */
+export type StockNotificationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockNotification to fetch.
+   */
+  where?: Prisma.StockNotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StockNotifications to fetch.
+   */
+  orderBy?: Prisma.StockNotificationOrderByWithRelationInput | Prisma.StockNotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for StockNotifications.
+   */
+  cursor?: Prisma.StockNotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StockNotifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StockNotifications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of StockNotifications.
+   */
+  distinct?: Prisma.StockNotificationScalarFieldEnum | Prisma.StockNotificationScalarFieldEnum[]
+}
+
+/**
+ * StockNotification findMany
+ */
+export type StockNotificationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockNotifications to fetch.
+   */
+  where?: Prisma.StockNotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StockNotifications to fetch.
+   */
+  orderBy?: Prisma.StockNotificationOrderByWithRelationInput | Prisma.StockNotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing StockNotifications.
+   */
+  cursor?: Prisma.StockNotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StockNotifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StockNotifications.
+   */
+  skip?: number
+  distinct?: Prisma.StockNotificationScalarFieldEnum | Prisma.StockNotificationScalarFieldEnum[]
+}
+
+/**
+ * StockNotification create
+ */
+export type StockNotificationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a StockNotification.
+   */
+  data: Prisma.XOR<Prisma.StockNotificationCreateInput, Prisma.StockNotificationUncheckedCreateInput>
+}
+
+/**
+ * StockNotification createMany
+ */
+export type StockNotificationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many StockNotifications.
+   */
+  data: Prisma.StockNotificationCreateManyInput | Prisma.StockNotificationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * StockNotification createManyAndReturn
+ */
+export type StockNotificationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * The data used to create many StockNotifications.
+   */
+  data: Prisma.StockNotificationCreateManyInput | Prisma.StockNotificationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * StockNotification update
+ */
+export type StockNotificationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a StockNotification.
+   */
+  data: Prisma.XOR<Prisma.StockNotificationUpdateInput, Prisma.StockNotificationUncheckedUpdateInput>
+  /**
+   * Choose, which StockNotification to update.
+   */
+  where: Prisma.StockNotificationWhereUniqueInput
+}
+
+/**
+ * StockNotification updateMany
+ */
+export type StockNotificationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update StockNotifications.
+   */
+  data: Prisma.XOR<Prisma.StockNotificationUpdateManyMutationInput, Prisma.StockNotificationUncheckedUpdateManyInput>
+  /**
+   * Filter which StockNotifications to update
+   */
+  where?: Prisma.StockNotificationWhereInput
+  /**
+   * Limit how many StockNotifications to update.
+   */
+  limit?: number
+}
+
+/**
+ * StockNotification updateManyAndReturn
+ */
+export type StockNotificationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * The data used to update StockNotifications.
+   */
+  data: Prisma.XOR<Prisma.StockNotificationUpdateManyMutationInput, Prisma.StockNotificationUncheckedUpdateManyInput>
+  /**
+   * Filter which StockNotifications to update
+   */
+  where?: Prisma.StockNotificationWhereInput
+  /**
+   * Limit how many StockNotifications to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * StockNotification upsert
+ */
+export type StockNotificationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the StockNotification to update in case it exists.
+   */
+  where: Prisma.StockNotificationWhereUniqueInput
+  /**
+   * In case the StockNotification found by the `where` argument doesn't exist, create a new StockNotification with this data.
+   */
+  create: Prisma.XOR<Prisma.StockNotificationCreateInput, Prisma.StockNotificationUncheckedCreateInput>
+  /**
+   * In case the StockNotification was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.StockNotificationUpdateInput, Prisma.StockNotificationUncheckedUpdateInput>
+}
+
+/**
+ * StockNotification delete
+ */
+export type StockNotificationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  /**
+   * Filter which StockNotification to delete.
+   */
+  where: Prisma.StockNotificationWhereUniqueInput
+}
+
+/**
+ * StockNotification deleteMany
+ */
+export type StockNotificationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which StockNotifications to delete
+   */
+  where?: Prisma.StockNotificationWhereInput
+  /**
+   * Limit how many StockNotifications to delete.
+   */
+  limit?: number
+}
+
+/**
+ * StockNotification.customer
+ */
+export type StockNotification$customerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Customer
+   */
+  select?: Prisma.CustomerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Customer
+   */
+  omit?: Prisma.CustomerOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomerInclude<ExtArgs> | null
+  where?: Prisma.CustomerWhereInput
+}
+
+/**
+ * StockNotification without action
+ */
+export type StockNotificationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+}
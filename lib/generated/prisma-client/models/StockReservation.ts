@@ -0,0 +1,1528 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `StockReservation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model StockReservation
+ * 
+ */
+export type StockReservationModel = runtime.Types.Result.DefaultSelection<Prisma.$StockReservationPayload>
+
+export type AggregateStockReservation = {
+  _count: StockReservationCountAggregateOutputType | null
+  _avg: StockReservationAvgAggregateOutputType | null
+  _sum: StockReservationSumAggregateOutputType | null
+  _min: StockReservationMinAggregateOutputType | null
+  _max: StockReservationMaxAggregateOutputType | null
+}
+
+export type StockReservationAvgAggregateOutputType = {
+  quantity: number | null
+}
+
+export type StockReservationSumAggregateOutputType = {
+  quantity: number | null
+}
+
+export type StockReservationMinAggregateOutputType = {
+  id: string | null
+  reference: string | null
+  variantId: string | null
+  quantity: number | null
+  status: $Enums.ReservationStatus | null
+  expiresAt: Date | null
+  orderId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type StockReservationMaxAggregateOutputType = {
+  id: string | null
+  reference: string | null
+  variantId: string | null
+  quantity: number | null
+  status: $Enums.ReservationStatus | null
+  expiresAt: Date | null
+  orderId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type StockReservationCountAggregateOutputType = {
+  id: number
+  reference: number
+  variantId: number
+  quantity: number
+  status: number
+  expiresAt: number
+  orderId: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type StockReservationAvgAggregateInputType = {
+  quantity?: true
+}
+
+export type StockReservationSumAggregateInputType = {
+  quantity?: true
+}
+
+export type StockReservationMinAggregateInputType = {
+  id?: true
+  reference?: true
+  variantId?: true
+  quantity?: true
+  status?: true
+  expiresAt?: true
+  orderId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type StockReservationMaxAggregateInputType = {
+  id?: true
+  reference?: true
+  variantId?: true
+  quantity?: true
+  status?: true
+  expiresAt?: true
+  orderId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type StockReservationCountAggregateInputType = {
+  id?: true
+  reference?: true
+  variantId?: true
+  quantity?: true
+  status?: true
+  expiresAt?: true
+  orderId?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type StockReservationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which StockReservation to aggregate.
+   */
+  where?: Prisma.StockReservationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StockReservations to fetch.
+   */
+  orderBy?: Prisma.StockReservationOrderByWithRelationInput | Prisma.StockReservationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.StockReservationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StockReservations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StockReservations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned StockReservations
+  **/
+  _count?: true | StockReservationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: StockReservationAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: StockReservationSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: StockReservationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: StockReservationMaxAggregateInputType
+}
+
+export type GetStockReservationAggregateType<T extends StockReservationAggregateArgs> = {
+      [P in keyof T & keyof AggregateStockReservation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateStockReservation[P]>
+    : Prisma.GetScalarType<T[P], AggregateStockReservation[P]>
+}
+
+
+
+
+export type StockReservationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StockReservationWhereInput
+  orderBy?: Prisma.StockReservationOrderByWithAggregationInput | Prisma.StockReservationOrderByWithAggregationInput[]
+  by: Prisma.StockReservationScalarFieldEnum[] | Prisma.StockReservationScalarFieldEnum
+  having?: Prisma.StockReservationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: StockReservationCountAggregateInputType | true
+  _avg?: StockReservationAvgAggregateInputType
+  _sum?: StockReservationSumAggregateInputType
+  _min?: StockReservationMinAggregateInputType
+  _max?: StockReservationMaxAggregateInputType
+}
+
+export type StockReservationGroupByOutputType = {
+  id: string
+  reference: string
+  variantId: string
+  quantity: number
+  status: $Enums.ReservationStatus
+  expiresAt: Date
+  orderId: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: StockReservationCountAggregateOutputType | null
+  _avg: StockReservationAvgAggregateOutputType | null
+  _sum: StockReservationSumAggregateOutputType | null
+  _min: StockReservationMinAggregateOutputType | null
+  _max: StockReservationMaxAggregateOutputType | null
+}
+
+type GetStockReservationGroupByPayload<T extends StockReservationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<StockReservationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof StockReservationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], StockReservationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], StockReservationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type StockReservationWhereInput = {
+  AND?: Prisma.StockReservationWhereInput | Prisma.StockReservationWhereInput[]
+  OR?: Prisma.StockReservationWhereInput[]
+  NOT?: Prisma.StockReservationWhereInput | Prisma.StockReservationWhereInput[]
+  id?: Prisma.StringFilter<"StockReservation"> | string
+  reference?: Prisma.StringFilter<"StockReservation"> | string
+  variantId?: Prisma.StringFilter<"StockReservation"> | string
+  quantity?: Prisma.IntFilter<"StockReservation"> | number
+  status?: Prisma.EnumReservationStatusFilter<"StockReservation"> | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFilter<"StockReservation"> | Date | string
+  orderId?: Prisma.StringNullableFilter<"StockReservation"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"StockReservation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"StockReservation"> | Date | string
+  variant?: Prisma.XOR<Prisma.VariantScalarRelationFilter, Prisma.VariantWhereInput>
+}
+
+export type StockReservationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  reference?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  orderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  variant?: Prisma.VariantOrderByWithRelationInput
+}
+
+export type StockReservationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.StockReservationWhereInput | Prisma.StockReservationWhereInput[]
+  OR?: Prisma.StockReservationWhereInput[]
+  NOT?: Prisma.StockReservationWhereInput | Prisma.StockReservationWhereInput[]
+  reference?: Prisma.StringFilter<"StockReservation"> | string
+  variantId?: Prisma.StringFilter<"StockReservation"> | string
+  quantity?: Prisma.IntFilter<"StockReservation"> | number
+  status?: Prisma.EnumReservationStatusFilter<"StockReservation"> | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFilter<"StockReservation"> | Date | string
+  orderId?: Prisma.StringNullableFilter<"StockReservation"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"StockReservation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"StockReservation"> | Date | string
+  variant?: Prisma.XOR<Prisma.VariantScalarRelationFilter, Prisma.VariantWhereInput>
+}, "id">
+
+export type StockReservationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  reference?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  orderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.StockReservationCountOrderByAggregateInput
+  _avg?: Prisma.StockReservationAvgOrderByAggregateInput
+  _max?: Prisma.StockReservationMaxOrderByAggregateInput
+  _min?: Prisma.StockReservationMinOrderByAggregateInput
+  _sum?: Prisma.StockReservationSumOrderByAggregateInput
+}
+
+export type StockReservationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.StockReservationScalarWhereWithAggregatesInput | Prisma.StockReservationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.StockReservationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.StockReservationScalarWhereWithAggregatesInput | Prisma.StockReservationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"StockReservation"> | string
+  reference?: Prisma.StringWithAggregatesFilter<"StockReservation"> | string
+  variantId?: Prisma.StringWithAggregatesFilter<"StockReservation"> | string
+  quantity?: Prisma.IntWithAggregatesFilter<"StockReservation"> | number
+  status?: Prisma.EnumReservationStatusWithAggregatesFilter<"StockReservation"> | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"StockReservation"> | Date | string
+  orderId?: Prisma.StringNullableWithAggregatesFilter<"StockReservation"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"StockReservation"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"StockReservation"> | Date | string
+}
+
+export type StockReservationCreateInput = {
+  id?: string
+  reference: string
+  quantity: number
+  status?: $Enums.ReservationStatus
+  expiresAt: Date | string
+  orderId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variant: Prisma.VariantCreateNestedOneWithoutReservationsInput
+}
+
+export type StockReservationUncheckedCreateInput = {
+  id?: string
+  reference: string
+  variantId: string
+  quantity: number
+  status?: $Enums.ReservationStatus
+  expiresAt: Date | string
+  orderId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StockReservationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reference?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumReservationStatusFieldUpdateOperationsInput | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variant?: Prisma.VariantUpdateOneRequiredWithoutReservationsNestedInput
+}
+
+export type StockReservationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reference?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumReservationStatusFieldUpdateOperationsInput | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockReservationCreateManyInput = {
+  id?: string
+  reference: string
+  variantId: string
+  quantity: number
+  status?: $Enums.ReservationStatus
+  expiresAt: Date | string
+  orderId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StockReservationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reference?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumReservationStatusFieldUpdateOperationsInput | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockReservationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reference?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumReservationStatusFieldUpdateOperationsInput | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockReservationListRelationFilter = {
+  every?: Prisma.StockReservationWhereInput
+  some?: Prisma.StockReservationWhereInput
+  none?: Prisma.StockReservationWhereInput
+}
+
+export type StockReservationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type StockReservationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  reference?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type StockReservationAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type StockReservationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  reference?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type StockReservationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  reference?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type StockReservationSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type StockReservationCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.StockReservationCreateWithoutVariantInput, Prisma.StockReservationUncheckedCreateWithoutVariantInput> | Prisma.StockReservationCreateWithoutVariantInput[] | Prisma.StockReservationUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.StockReservationCreateOrConnectWithoutVariantInput | Prisma.StockReservationCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.StockReservationCreateManyVariantInputEnvelope
+  connect?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+}
+
+export type StockReservationUncheckedCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.StockReservationCreateWithoutVariantInput, Prisma.StockReservationUncheckedCreateWithoutVariantInput> | Prisma.StockReservationCreateWithoutVariantInput[] | Prisma.StockReservationUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.StockReservationCreateOrConnectWithoutVariantInput | Prisma.StockReservationCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.StockReservationCreateManyVariantInputEnvelope
+  connect?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+}
+
+export type StockReservationUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.StockReservationCreateWithoutVariantInput, Prisma.StockReservationUncheckedCreateWithoutVariantInput> | Prisma.StockReservationCreateWithoutVariantInput[] | Prisma.StockReservationUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.StockReservationCreateOrConnectWithoutVariantInput | Prisma.StockReservationCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.StockReservationUpsertWithWhereUniqueWithoutVariantInput | Prisma.StockReservationUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.StockReservationCreateManyVariantInputEnvelope
+  set?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+  disconnect?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+  delete?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+  connect?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+  update?: Prisma.StockReservationUpdateWithWhereUniqueWithoutVariantInput | Prisma.StockReservationUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.StockReservationUpdateManyWithWhereWithoutVariantInput | Prisma.StockReservationUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.StockReservationScalarWhereInput | Prisma.StockReservationScalarWhereInput[]
+}
+
+export type StockReservationUncheckedUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.StockReservationCreateWithoutVariantInput, Prisma.StockReservationUncheckedCreateWithoutVariantInput> | Prisma.StockReservationCreateWithoutVariantInput[] | Prisma.StockReservationUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.StockReservationCreateOrConnectWithoutVariantInput | Prisma.StockReservationCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.StockReservationUpsertWithWhereUniqueWithoutVariantInput | Prisma.StockReservationUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.StockReservationCreateManyVariantInputEnvelope
+  set?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+  disconnect?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+  delete?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+  connect?: Prisma.StockReservationWhereUniqueInput | Prisma.StockReservationWhereUniqueInput[]
+  update?: Prisma.StockReservationUpdateWithWhereUniqueWithoutVariantInput | Prisma.StockReservationUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.StockReservationUpdateManyWithWhereWithoutVariantInput | Prisma.StockReservationUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.StockReservationScalarWhereInput | Prisma.StockReservationScalarWhereInput[]
+}
+
+export type EnumReservationStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ReservationStatus
+}
+
+export type StockReservationCreateWithoutVariantInput = {
+  id?: string
+  reference: string
+  quantity: number
+  status?: $Enums.ReservationStatus
+  expiresAt: Date | string
+  orderId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StockReservationUncheckedCreateWithoutVariantInput = {
+  id?: string
+  reference: string
+  quantity: number
+  status?: $Enums.ReservationStatus
+  expiresAt: Date | string
+  orderId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StockReservationCreateOrConnectWithoutVariantInput = {
+  where: Prisma.StockReservationWhereUniqueInput
+  create: Prisma.XOR<Prisma.StockReservationCreateWithoutVariantInput, Prisma.StockReservationUncheckedCreateWithoutVariantInput>
+}
+
+export type StockReservationCreateManyVariantInputEnvelope = {
+  data: Prisma.StockReservationCreateManyVariantInput | Prisma.StockReservationCreateManyVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type StockReservationUpsertWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.StockReservationWhereUniqueInput
+  update: Prisma.XOR<Prisma.StockReservationUpdateWithoutVariantInput, Prisma.StockReservationUncheckedUpdateWithoutVariantInput>
+  create: Prisma.XOR<Prisma.StockReservationCreateWithoutVariantInput, Prisma.StockReservationUncheckedCreateWithoutVariantInput>
+}
+
+export type StockReservationUpdateWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.StockReservationWhereUniqueInput
+  data: Prisma.XOR<Prisma.StockReservationUpdateWithoutVariantInput, Prisma.StockReservationUncheckedUpdateWithoutVariantInput>
+}
+
+export type StockReservationUpdateManyWithWhereWithoutVariantInput = {
+  where: Prisma.StockReservationScalarWhereInput
+  data: Prisma.XOR<Prisma.StockReservationUpdateManyMutationInput, Prisma.StockReservationUncheckedUpdateManyWithoutVariantInput>
+}
+
+export type StockReservationScalarWhereInput = {
+  AND?: Prisma.StockReservationScalarWhereInput | Prisma.StockReservationScalarWhereInput[]
+  OR?: Prisma.StockReservationScalarWhereInput[]
+  NOT?: Prisma.StockReservationScalarWhereInput | Prisma.StockReservationScalarWhereInput[]
+  id?: Prisma.StringFilter<"StockReservation"> | string
+  reference?: Prisma.StringFilter<"StockReservation"> | string
+  variantId?: Prisma.StringFilter<"StockReservation"> | string
+  quantity?: Prisma.IntFilter<"StockReservation"> | number
+  status?: Prisma.EnumReservationStatusFilter<"StockReservation"> | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFilter<"StockReservation"> | Date | string
+  orderId?: Prisma.StringNullableFilter<"StockReservation"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"StockReservation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"StockReservation"> | Date | string
+}
+
+export type StockReservationCreateManyVariantInput = {
+  id?: string
+  reference: string
+  quantity: number
+  status?: $Enums.ReservationStatus
+  expiresAt: Date | string
+  orderId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StockReservationUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reference?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumReservationStatusFieldUpdateOperationsInput | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockReservationUncheckedUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reference?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumReservationStatusFieldUpdateOperationsInput | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StockReservationUncheckedUpdateManyWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reference?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumReservationStatusFieldUpdateOperationsInput | $Enums.ReservationStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type StockReservationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  reference?: boolean
+  variantId?: boolean
+  quantity?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  orderId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["stockReservation"]>
+
+export type StockReservationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  reference?: boolean
+  variantId?: boolean
+  quantity?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  orderId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["stockReservation"]>
+
+export type StockReservationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  reference?: boolean
+  variantId?: boolean
+  quantity?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  orderId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["stockReservation"]>
+
+export type StockReservationSelectScalar = {
+  id?: boolean
+  reference?: boolean
+  variantId?: boolean
+  quantity?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  orderId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type StockReservationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "reference" | "variantId" | "quantity" | "status" | "expiresAt" | "orderId" | "createdAt" | "updatedAt", ExtArgs["result"]["stockReservation"]>
+export type StockReservationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+}
+export type StockReservationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+}
+export type StockReservationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  variant?: boolean | Prisma.VariantDefaultArgs<ExtArgs>
+}
+
+export type $StockReservationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "StockReservation"
+  objects: {
+    variant: Prisma.$VariantPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    reference: string
+    variantId: string
+    quantity: number
+    status: $Enums.ReservationStatus
+    expiresAt: Date
+    orderId: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["stockReservation"]>
+  composites: {}
+}
+
+export type StockReservationGetPayload<S extends boolean | null | undefined | StockReservationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$StockReservationPayload, S>
+
+export type StockReservationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<StockReservationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: StockReservationCountAggregateInputType | true
+  }
+
+export interface StockReservationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['StockReservation'], meta: { name: 'StockReservation' } }
+  /**
+   * Find zero or one StockReservation that matches the filter.
+   * @param {StockReservationFindUniqueArgs} args - Arguments to find a StockReservation
+   * @example
+   * // Get one StockReservation
+   * const stockReservation = await prisma.stockReservation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends StockReservationFindUniqueArgs>(args: Prisma.SelectSubset<T, StockReservationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__StockReservationClient<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one StockReservation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {StockReservationFindUniqueOrThrowArgs} args - Arguments to find a StockReservation
+   * @example
+   * // Get one StockReservation
+   * const stockReservation = await prisma.stockReservation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends StockReservationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, StockReservationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__StockReservationClient<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first StockReservation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockReservationFindFirstArgs} args - Arguments to find a StockReservation
+   * @example
+   * // Get one StockReservation
+   * const stockReservation = await prisma.stockReservation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends StockReservationFindFirstArgs>(args?: Prisma.SelectSubset<T, StockReservationFindFirstArgs<ExtArgs>>): Prisma.Prisma__StockReservationClient<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first StockReservation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockReservationFindFirstOrThrowArgs} args - Arguments to find a StockReservation
+   * @example
+   * // Get one StockReservation
+   * const stockReservation = await prisma.stockReservation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends StockReservationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, StockReservationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__StockReservationClient<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more StockReservations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockReservationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all StockReservations
+   * const stockReservations = await prisma.stockReservation.findMany()
+   * 
+   * // Get first 10 StockReservations
+   * const stockReservations = await prisma.stockReservation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const stockReservationWithIdOnly = await prisma.stockReservation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends StockReservationFindManyArgs>(args?: Prisma.SelectSubset<T, StockReservationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a StockReservation.
+   * @param {StockReservationCreateArgs} args - Arguments to create a StockReservation.
+   * @example
+   * // Create one StockReservation
+   * const StockReservation = await prisma.stockReservation.create({
+   *   data: {
+   *     // ... data to create a StockReservation
+   *   }
+   * })
+   * 
+   */
+  create<T extends StockReservationCreateArgs>(args: Prisma.SelectSubset<T, StockReservationCreateArgs<ExtArgs>>): Prisma.Prisma__StockReservationClient<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many StockReservations.
+   * @param {StockReservationCreateManyArgs} args - Arguments to create many StockReservations.
+   * @example
+   * // Create many StockReservations
+   * const stockReservation = await prisma.stockReservation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends StockReservationCreateManyArgs>(args?: Prisma.SelectSubset<T, StockReservationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many StockReservations and returns the data saved in the database.
+   * @param {StockReservationCreateManyAndReturnArgs} args - Arguments to create many StockReservations.
+   * @example
+   * // Create many StockReservations
+   * const stockReservation = await prisma.stockReservation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many StockReservations and only return the `id`
+   * const stockReservationWithIdOnly = await prisma.stockReservation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends StockReservationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, StockReservationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a StockReservation.
+   * @param {StockReservationDeleteArgs} args - Arguments to delete one StockReservation.
+   * @example
+   * // Delete one StockReservation
+   * const StockReservation = await prisma.stockReservation.delete({
+   *   where: {
+   *     // ... filter to delete one StockReservation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends StockReservationDeleteArgs>(args: Prisma.SelectSubset<T, StockReservationDeleteArgs<ExtArgs>>): Prisma.Prisma__StockReservationClient<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one StockReservation.
+   * @param {StockReservationUpdateArgs} args - Arguments to update one StockReservation.
+   * @example
+   * // Update one StockReservation
+   * const stockReservation = await prisma.stockReservation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends StockReservationUpdateArgs>(args: Prisma.SelectSubset<T, StockReservationUpdateArgs<ExtArgs>>): Prisma.Prisma__StockReservationClient<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more StockReservations.
+   * @param {StockReservationDeleteManyArgs} args - Arguments to filter StockReservations to delete.
+   * @example
+   * // Delete a few StockReservations
+   * const { count } = await prisma.stockReservation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends StockReservationDeleteManyArgs>(args?: Prisma.SelectSubset<T, StockReservationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more StockReservations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockReservationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many StockReservations
+   * const stockReservation = await prisma.stockReservation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends StockReservationUpdateManyArgs>(args: Prisma.SelectSubset<T, StockReservationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more StockReservations and returns the data updated in the database.
+   * @param {StockReservationUpdateManyAndReturnArgs} args - Arguments to update many StockReservations.
+   * @example
+   * // Update many StockReservations
+   * const stockReservation = await prisma.stockReservation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more StockReservations and only return the `id`
+   * const stockReservationWithIdOnly = await prisma.stockReservation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends StockReservationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, StockReservationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one StockReservation.
+   * @param {StockReservationUpsertArgs} args - Arguments to update or create a StockReservation.
+   * @example
+   * // Update or create a StockReservation
+   * const stockReservation = await prisma.stockReservation.upsert({
+   *   create: {
+   *     // ... data to create a StockReservation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the StockReservation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends StockReservationUpsertArgs>(args: Prisma.SelectSubset<T, StockReservationUpsertArgs<ExtArgs>>): Prisma.Prisma__StockReservationClient<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of StockReservations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockReservationCountArgs} args - Arguments to filter StockReservations to count.
+   * @example
+   * // Count the number of StockReservations
+   * const count = await prisma.stockReservation.count({
+   *   where: {
+   *     // ... the filter for the StockReservations we want to count
+   *   }
+   * })
+  **/
+  count<T extends StockReservationCountArgs>(
+    args?: Prisma.Subset<T, StockReservationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], StockReservationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a StockReservation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockReservationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends StockReservationAggregateArgs>(args: Prisma.Subset<T, StockReservationAggregateArgs>): Prisma.PrismaPromise<GetStockReservationAggregateType<T>>
+
+  /**
+   * Group by StockReservation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StockReservationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends StockReservationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: StockReservationGroupByArgs['orderBy'] }
+      : { orderBy?: StockReservationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, StockReservationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetStockReservationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the StockReservation model
+ */
+readonly fields: StockReservationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for StockReservation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__StockReservationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  variant<T extends Prisma.VariantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.VariantDefaultArgs<ExtArgs>>): Prisma.Prisma__VariantClient<runtime.Types.Result.GetResult<Prisma.$VariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the StockReservation model
+ */
+export interface StockReservationFieldRefs {
+  readonly id: Prisma.FieldRef<"StockReservation", 'String'>
+  readonly reference: Prisma.FieldRef<"StockReservation", 'String'>
+  readonly variantId: Prisma.FieldRef<"StockReservation", 'String'>
+  readonly quantity: Prisma.FieldRef<"StockReservation", 'Int'>
+  readonly status: Prisma.FieldRef<"StockReservation", 'ReservationStatus'>
+  readonly expiresAt: Prisma.FieldRef<"StockReservation", 'DateTime'>
+  readonly orderId: Prisma.FieldRef<"StockReservation", 'String'>
+  readonly createdAt: Prisma.FieldRef<"StockReservation", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"StockReservation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * StockReservation findUnique
+ */
+export type StockReservationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockReservation to fetch.
+   */
+  where: Prisma.StockReservationWhereUniqueInput
+}
+
+/**
+ * StockReservation findUniqueOrThrow
+ */
+export type StockReservationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockReservation to fetch.
+   */
+  where: Prisma.StockReservationWhereUniqueInput
+}
+
+/**
+ * StockReservation findFirst
+ */
+export type StockReservationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockReservation to fetch.
+   */
+  where?: Prisma.StockReservationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StockReservations to fetch.
+   */
+  orderBy?: Prisma.StockReservationOrderByWithRelationInput | Prisma.StockReservationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for StockReservations.
+   */
+  cursor?: Prisma.StockReservationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StockReservations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StockReservations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of StockReservations.
+   */
+  distinct?: Prisma.StockReservationScalarFieldEnum | Prisma.StockReservationScalarFieldEnum[]
+}
+
+/**
+ * StockReservation findFirstOrThrow
+ */
+export type StockReservationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockReservation to fetch.
+   */
+  where?: Prisma.StockReservationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StockReservations to fetch.
+   */
+  orderBy?: Prisma.StockReservationOrderByWithRelationInput | Prisma.StockReservationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for StockReservations.
+   */
+  cursor?: Prisma.StockReservationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StockReservations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StockReservations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of StockReservations.
+   */
+  distinct?: Prisma.StockReservationScalarFieldEnum | Prisma.StockReservationScalarFieldEnum[]
+}
+
+/**
+ * StockReservation findMany
+ */
+export type StockReservationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  /**
+   * Filter, which StockReservations to fetch.
+   */
+  where?: Prisma.StockReservationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StockReservations to fetch.
+   */
+  orderBy?: Prisma.StockReservationOrderByWithRelationInput | Prisma.StockReservationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing StockReservations.
+   */
+  cursor?: Prisma.StockReservationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StockReservations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StockReservations.
+   */
+  skip?: number
+  distinct?: Prisma.StockReservationScalarFieldEnum | Prisma.StockReservationScalarFieldEnum[]
+}
+
+/**
+ * StockReservation create
+ */
+export type StockReservationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a StockReservation.
+   */
+  data: Prisma.XOR<Prisma.StockReservationCreateInput, Prisma.StockReservationUncheckedCreateInput>
+}
+
+/**
+ * StockReservation createMany
+ */
+export type StockReservationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many StockReservations.
+   */
+  data: Prisma.StockReservationCreateManyInput | Prisma.StockReservationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * StockReservation createManyAndReturn
+ */
+export type StockReservationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * The data used to create many StockReservations.
+   */
+  data: Prisma.StockReservationCreateManyInput | Prisma.StockReservationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * StockReservation update
+ */
+export type StockReservationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a StockReservation.
+   */
+  data: Prisma.XOR<Prisma.StockReservationUpdateInput, Prisma.StockReservationUncheckedUpdateInput>
+  /**
+   * Choose, which StockReservation to update.
+   */
+  where: Prisma.StockReservationWhereUniqueInput
+}
+
+/**
+ * StockReservation updateMany
+ */
+export type StockReservationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update StockReservations.
+   */
+  data: Prisma.XOR<Prisma.StockReservationUpdateManyMutationInput, Prisma.StockReservationUncheckedUpdateManyInput>
+  /**
+   * Filter which StockReservations to update
+   */
+  where?: Prisma.StockReservationWhereInput
+  /**
+   * Limit how many StockReservations to update.
+   */
+  limit?: number
+}
+
+/**
+ * StockReservation updateManyAndReturn
+ */
+export type StockReservationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * The data used to update StockReservations.
+   */
+  data: Prisma.XOR<Prisma.StockReservationUpdateManyMutationInput, Prisma.StockReservationUncheckedUpdateManyInput>
+  /**
+   * Filter which StockReservations to update
+   */
+  where?: Prisma.StockReservationWhereInput
+  /**
+   * Limit how many StockReservations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * StockReservation upsert
+ */
+export type StockReservationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the StockReservation to update in case it exists.
+   */
+  where: Prisma.StockReservationWhereUniqueInput
+  /**
+   * In case the StockReservation found by the `where` argument doesn't exist, create a new StockReservation with this data.
+   */
+  create: Prisma.XOR<Prisma.StockReservationCreateInput, Prisma.StockReservationUncheckedCreateInput>
+  /**
+   * In case the StockReservation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.StockReservationUpdateInput, Prisma.StockReservationUncheckedUpdateInput>
+}
+
+/**
+ * StockReservation delete
+ */
+export type StockReservationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  /**
+   * Filter which StockReservation to delete.
+   */
+  where: Prisma.StockReservationWhereUniqueInput
+}
+
+/**
+ * StockReservation deleteMany
+ */
+export type StockReservationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which StockReservations to delete
+   */
+  where?: Prisma.StockReservationWhereInput
+  /**
+   * Limit how many StockReservations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * StockReservation without action
+ */
+export type StockReservationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+}
@@ -29,11 +29,29 @@ export type AggregateVariant = {
 export type VariantAvgAggregateOutputType = {
   stock: number | null
   weight: number | null
+  lowStockThreshold: number | null
+  priceNGN: number | null
+  priceUSD: number | null
+  priceEUR: number | null
+  priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
 }
 
 export type VariantSumAggregateOutputType = {
   stock: number | null
   weight: number | null
+  lowStockThreshold: number | null
+  priceNGN: number | null
+  priceUSD: number | null
+  priceEUR: number | null
+  priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
 }
 
 export type VariantMinAggregateOutputType = {
@@ -43,6 +61,17 @@ export type VariantMinAggregateOutputType = {
   size: string | null
   stock: number | null
   weight: number | null
+  lowStockThreshold: number | null
+  sku: string | null
+  barcode: string | null
+  priceNGN: number | null
+  priceUSD: number | null
+  priceEUR: number | null
+  priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
   createdAt: Date | null
 }
 
@@ -53,6 +82,17 @@ export type VariantMaxAggregateOutputType = {
   size: string | null
   stock: number | null
   weight: number | null
+  lowStockThreshold: number | null
+  sku: string | null
+  barcode: string | null
+  priceNGN: number | null
+  priceUSD: number | null
+  priceEUR: number | null
+  priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
   createdAt: Date | null
 }
 
@@ -63,6 +103,17 @@ export type VariantCountAggregateOutputType = {
   size: number
   stock: number
   weight: number
+  lowStockThreshold: number
+  sku: number
+  barcode: number
+  priceNGN: number
+  priceUSD: number
+  priceEUR: number
+  priceGBP: number
+  compareAtNGN: number
+  compareAtUSD: number
+  compareAtEUR: number
+  compareAtGBP: number
   createdAt: number
   _all: number
 }
@@ -71,11 +122,29 @@ export type VariantCountAggregateOutputType = {
 export type VariantAvgAggregateInputType = {
   stock?: true
   weight?: true
+  lowStockThreshold?: true
+  priceNGN?: true
+  priceUSD?: true
+  priceEUR?: true
+  priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
 }
 
 export type VariantSumAggregateInputType = {
   stock?: true
   weight?: true
+  lowStockThreshold?: true
+  priceNGN?: true
+  priceUSD?: true
+  priceEUR?: true
+  priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
 }
 
 export type VariantMinAggregateInputType = {
@@ -85,6 +154,17 @@ export type VariantMinAggregateInputType = {
   size?: true
   stock?: true
   weight?: true
+  lowStockThreshold?: true
+  sku?: true
+  barcode?: true
+  priceNGN?: true
+  priceUSD?: true
+  priceEUR?: true
+  priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
   createdAt?: true
 }
 
@@ -95,6 +175,17 @@ export type VariantMaxAggregateInputType = {
   size?: true
   stock?: true
   weight?: true
+  lowStockThreshold?: true
+  sku?: true
+  barcode?: true
+  priceNGN?: true
+  priceUSD?: true
+  priceEUR?: true
+  priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
   createdAt?: true
 }
 
@@ -105,6 +196,17 @@ export type VariantCountAggregateInputType = {
   size?: true
   stock?: true
   weight?: true
+  lowStockThreshold?: true
+  sku?: true
+  barcode?: true
+  priceNGN?: true
+  priceUSD?: true
+  priceEUR?: true
+  priceGBP?: true
+  compareAtNGN?: true
+  compareAtUSD?: true
+  compareAtEUR?: true
+  compareAtGBP?: true
   createdAt?: true
   _all?: true
 }
@@ -202,6 +304,17 @@ export type VariantGroupByOutputType = {
   size: string
   stock: number
   weight: number | null
+  lowStockThreshold: number | null
+  sku: string | null
+  barcode: string | null
+  priceNGN: number | null
+  priceUSD: number | null
+  priceEUR: number | null
+  priceGBP: number | null
+  compareAtNGN: number | null
+  compareAtUSD: number | null
+  compareAtEUR: number | null
+  compareAtGBP: number | null
   createdAt: Date
   _count: VariantCountAggregateOutputType | null
   _avg: VariantAvgAggregateOutputType | null
@@ -235,8 +348,23 @@ export type VariantWhereInput = {
   size?: Prisma.StringFilter<"Variant"> | string
   stock?: Prisma.IntFilter<"Variant"> | number
   weight?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  lowStockThreshold?: Prisma.IntNullableFilter<"Variant"> | number | null
+  sku?: Prisma.StringNullableFilter<"Variant"> | string | null
+  barcode?: Prisma.StringNullableFilter<"Variant"> | string | null
+  priceNGN?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  priceUSD?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  priceEUR?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  priceGBP?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtNGN?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtUSD?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtEUR?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtGBP?: Prisma.FloatNullableFilter<"Variant"> | number | null
   createdAt?: Prisma.DateTimeFilter<"Variant"> | Date | string
   orderItems?: Prisma.OrderItemListRelationFilter
+  reservations?: Prisma.StockReservationListRelationFilter
+  movements?: Prisma.InventoryMovementListRelationFilter
+  notifications?: Prisma.StockNotificationListRelationFilter
+  exchangeItems?: Prisma.ReturnRequestItemListRelationFilter
   product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
 }
 
@@ -247,13 +375,30 @@ export type VariantOrderByWithRelationInput = {
   size?: Prisma.SortOrder
   stock?: Prisma.SortOrder
   weight?: Prisma.SortOrderInput | Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrderInput | Prisma.SortOrder
+  sku?: Prisma.SortOrderInput | Prisma.SortOrder
+  barcode?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   orderItems?: Prisma.OrderItemOrderByRelationAggregateInput
+  reservations?: Prisma.StockReservationOrderByRelationAggregateInput
+  movements?: Prisma.InventoryMovementOrderByRelationAggregateInput
+  notifications?: Prisma.StockNotificationOrderByRelationAggregateInput
+  exchangeItems?: Prisma.ReturnRequestItemOrderByRelationAggregateInput
   product?: Prisma.ProductOrderByWithRelationInput
 }
 
 export type VariantWhereUniqueInput = Prisma.AtLeast<{
   id?: string
+  sku?: string
+  barcode?: string
   product_color_size?: Prisma.VariantProduct_color_sizeCompoundUniqueInput
   AND?: Prisma.VariantWhereInput | Prisma.VariantWhereInput[]
   OR?: Prisma.VariantWhereInput[]
@@ -263,10 +408,23 @@ export type VariantWhereUniqueInput = Prisma.AtLeast<{
   size?: Prisma.StringFilter<"Variant"> | string
   stock?: Prisma.IntFilter<"Variant"> | number
   weight?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  lowStockThreshold?: Prisma.IntNullableFilter<"Variant"> | number | null
+  priceNGN?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  priceUSD?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  priceEUR?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  priceGBP?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtNGN?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtUSD?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtEUR?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtGBP?: Prisma.FloatNullableFilter<"Variant"> | number | null
   createdAt?: Prisma.DateTimeFilter<"Variant"> | Date | string
   orderItems?: Prisma.OrderItemListRelationFilter
+  reservations?: Prisma.StockReservationListRelationFilter
+  movements?: Prisma.InventoryMovementListRelationFilter
+  notifications?: Prisma.StockNotificationListRelationFilter
+  exchangeItems?: Prisma.ReturnRequestItemListRelationFilter
   product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
-}, "id" | "product_color_size">
+}, "id" | "sku" | "barcode" | "product_color_size">
 
 export type VariantOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -275,6 +433,17 @@ export type VariantOrderByWithAggregationInput = {
   size?: Prisma.SortOrder
   stock?: Prisma.SortOrder
   weight?: Prisma.SortOrderInput | Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrderInput | Prisma.SortOrder
+  sku?: Prisma.SortOrderInput | Prisma.SortOrder
+  barcode?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceGBP?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrderInput | Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   _count?: Prisma.VariantCountOrderByAggregateInput
   _avg?: Prisma.VariantAvgOrderByAggregateInput
@@ -293,6 +462,17 @@ export type VariantScalarWhereWithAggregatesInput = {
   size?: Prisma.StringWithAggregatesFilter<"Variant"> | string
   stock?: Prisma.IntWithAggregatesFilter<"Variant"> | number
   weight?: Prisma.FloatNullableWithAggregatesFilter<"Variant"> | number | null
+  lowStockThreshold?: Prisma.IntNullableWithAggregatesFilter<"Variant"> | number | null
+  sku?: Prisma.StringNullableWithAggregatesFilter<"Variant"> | string | null
+  barcode?: Prisma.StringNullableWithAggregatesFilter<"Variant"> | string | null
+  priceNGN?: Prisma.FloatNullableWithAggregatesFilter<"Variant"> | number | null
+  priceUSD?: Prisma.FloatNullableWithAggregatesFilter<"Variant"> | number | null
+  priceEUR?: Prisma.FloatNullableWithAggregatesFilter<"Variant"> | number | null
+  priceGBP?: Prisma.FloatNullableWithAggregatesFilter<"Variant"> | number | null
+  compareAtNGN?: Prisma.FloatNullableWithAggregatesFilter<"Variant"> | number | null
+  compareAtUSD?: Prisma.FloatNullableWithAggregatesFilter<"Variant"> | number | null
+  compareAtEUR?: Prisma.FloatNullableWithAggregatesFilter<"Variant"> | number | null
+  compareAtGBP?: Prisma.FloatNullableWithAggregatesFilter<"Variant"> | number | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Variant"> | Date | string
 }
 
@@ -302,8 +482,23 @@ export type VariantCreateInput = {
   size: string
   stock: number
   weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   createdAt?: Date | string
   orderItems?: Prisma.OrderItemCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutExchangeVariantInput
   product: Prisma.ProductCreateNestedOneWithoutVariantsInput
 }
 
@@ -314,8 +509,23 @@ export type VariantUncheckedCreateInput = {
   size: string
   stock: number
   weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   createdAt?: Date | string
   orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationUncheckedCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutExchangeVariantInput
 }
 
 export type VariantUpdateInput = {
@@ -324,8 +534,23 @@ export type VariantUpdateInput = {
   size?: Prisma.StringFieldUpdateOperationsInput | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
   weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   orderItems?: Prisma.OrderItemUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUpdateManyWithoutExchangeVariantNestedInput
   product?: Prisma.ProductUpdateOneRequiredWithoutVariantsNestedInput
 }
 
@@ -336,8 +561,23 @@ export type VariantUncheckedUpdateInput = {
   size?: Prisma.StringFieldUpdateOperationsInput | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
   weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUncheckedUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutExchangeVariantNestedInput
 }
 
 export type VariantCreateManyInput = {
@@ -347,6 +587,17 @@ export type VariantCreateManyInput = {
   size: string
   stock: number
   weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   createdAt?: Date | string
 }
 
@@ -356,6 +607,17 @@ export type VariantUpdateManyMutationInput = {
   size?: Prisma.StringFieldUpdateOperationsInput | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
   weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -366,6 +628,17 @@ export type VariantUncheckedUpdateManyInput = {
   size?: Prisma.StringFieldUpdateOperationsInput | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
   weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -392,12 +665,32 @@ export type VariantCountOrderByAggregateInput = {
   size?: Prisma.SortOrder
   stock?: Prisma.SortOrder
   weight?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
+  sku?: Prisma.SortOrder
+  barcode?: Prisma.SortOrder
+  priceNGN?: Prisma.SortOrder
+  priceUSD?: Prisma.SortOrder
+  priceEUR?: Prisma.SortOrder
+  priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
 export type VariantAvgOrderByAggregateInput = {
   stock?: Prisma.SortOrder
   weight?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
+  priceNGN?: Prisma.SortOrder
+  priceUSD?: Prisma.SortOrder
+  priceEUR?: Prisma.SortOrder
+  priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
 }
 
 export type VariantMaxOrderByAggregateInput = {
@@ -407,6 +700,17 @@ export type VariantMaxOrderByAggregateInput = {
   size?: Prisma.SortOrder
   stock?: Prisma.SortOrder
   weight?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
+  sku?: Prisma.SortOrder
+  barcode?: Prisma.SortOrder
+  priceNGN?: Prisma.SortOrder
+  priceUSD?: Prisma.SortOrder
+  priceEUR?: Prisma.SortOrder
+  priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -417,12 +721,32 @@ export type VariantMinOrderByAggregateInput = {
   size?: Prisma.SortOrder
   stock?: Prisma.SortOrder
   weight?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
+  sku?: Prisma.SortOrder
+  barcode?: Prisma.SortOrder
+  priceNGN?: Prisma.SortOrder
+  priceUSD?: Prisma.SortOrder
+  priceEUR?: Prisma.SortOrder
+  priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
 export type VariantSumOrderByAggregateInput = {
   stock?: Prisma.SortOrder
   weight?: Prisma.SortOrder
+  lowStockThreshold?: Prisma.SortOrder
+  priceNGN?: Prisma.SortOrder
+  priceUSD?: Prisma.SortOrder
+  priceEUR?: Prisma.SortOrder
+  priceGBP?: Prisma.SortOrder
+  compareAtNGN?: Prisma.SortOrder
+  compareAtUSD?: Prisma.SortOrder
+  compareAtEUR?: Prisma.SortOrder
+  compareAtGBP?: Prisma.SortOrder
 }
 
 export type VariantScalarRelationFilter = {
@@ -430,6 +754,11 @@ export type VariantScalarRelationFilter = {
   isNot?: Prisma.VariantWhereInput
 }
 
+export type VariantNullableScalarRelationFilter = {
+  is?: Prisma.VariantWhereInput | null
+  isNot?: Prisma.VariantWhereInput | null
+}
+
 export type VariantCreateNestedManyWithoutProductInput = {
   create?: Prisma.XOR<Prisma.VariantCreateWithoutProductInput, Prisma.VariantUncheckedCreateWithoutProductInput> | Prisma.VariantCreateWithoutProductInput[] | Prisma.VariantUncheckedCreateWithoutProductInput[]
   connectOrCreate?: Prisma.VariantCreateOrConnectWithoutProductInput | Prisma.VariantCreateOrConnectWithoutProductInput[]
@@ -472,6 +801,14 @@ export type VariantUncheckedUpdateManyWithoutProductNestedInput = {
   deleteMany?: Prisma.VariantScalarWhereInput | Prisma.VariantScalarWhereInput[]
 }
 
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
 export type VariantCreateNestedOneWithoutOrderItemsInput = {
   create?: Prisma.XOR<Prisma.VariantCreateWithoutOrderItemsInput, Prisma.VariantUncheckedCreateWithoutOrderItemsInput>
   connectOrCreate?: Prisma.VariantCreateOrConnectWithoutOrderItemsInput
@@ -486,14 +823,87 @@ export type VariantUpdateOneRequiredWithoutOrderItemsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.VariantUpdateToOneWithWhereWithoutOrderItemsInput, Prisma.VariantUpdateWithoutOrderItemsInput>, Prisma.VariantUncheckedUpdateWithoutOrderItemsInput>
 }
 
+export type VariantCreateNestedOneWithoutReservationsInput = {
+  create?: Prisma.XOR<Prisma.VariantCreateWithoutReservationsInput, Prisma.VariantUncheckedCreateWithoutReservationsInput>
+  connectOrCreate?: Prisma.VariantCreateOrConnectWithoutReservationsInput
+  connect?: Prisma.VariantWhereUniqueInput
+}
+
+export type VariantUpdateOneRequiredWithoutReservationsNestedInput = {
+  create?: Prisma.XOR<Prisma.VariantCreateWithoutReservationsInput, Prisma.VariantUncheckedCreateWithoutReservationsInput>
+  connectOrCreate?: Prisma.VariantCreateOrConnectWithoutReservationsInput
+  upsert?: Prisma.VariantUpsertWithoutReservationsInput
+  connect?: Prisma.VariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.VariantUpdateToOneWithWhereWithoutReservationsInput, Prisma.VariantUpdateWithoutReservationsInput>, Prisma.VariantUncheckedUpdateWithoutReservationsInput>
+}
+
+export type VariantCreateNestedOneWithoutMovementsInput = {
+  create?: Prisma.XOR<Prisma.VariantCreateWithoutMovementsInput, Prisma.VariantUncheckedCreateWithoutMovementsInput>
+  connectOrCreate?: Prisma.VariantCreateOrConnectWithoutMovementsInput
+  connect?: Prisma.VariantWhereUniqueInput
+}
+
+export type VariantUpdateOneRequiredWithoutMovementsNestedInput = {
+  create?: Prisma.XOR<Prisma.VariantCreateWithoutMovementsInput, Prisma.VariantUncheckedCreateWithoutMovementsInput>
+  connectOrCreate?: Prisma.VariantCreateOrConnectWithoutMovementsInput
+  upsert?: Prisma.VariantUpsertWithoutMovementsInput
+  connect?: Prisma.VariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.VariantUpdateToOneWithWhereWithoutMovementsInput, Prisma.VariantUpdateWithoutMovementsInput>, Prisma.VariantUncheckedUpdateWithoutMovementsInput>
+}
+
+export type VariantCreateNestedOneWithoutNotificationsInput = {
+  create?: Prisma.XOR<Prisma.VariantCreateWithoutNotificationsInput, Prisma.VariantUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.VariantCreateOrConnectWithoutNotificationsInput
+  connect?: Prisma.VariantWhereUniqueInput
+}
+
+export type VariantUpdateOneRequiredWithoutNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.VariantCreateWithoutNotificationsInput, Prisma.VariantUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.VariantCreateOrConnectWithoutNotificationsInput
+  upsert?: Prisma.VariantUpsertWithoutNotificationsInput
+  connect?: Prisma.VariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.VariantUpdateToOneWithWhereWithoutNotificationsInput, Prisma.VariantUpdateWithoutNotificationsInput>, Prisma.VariantUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type VariantCreateNestedOneWithoutExchangeItemsInput = {
+  create?: Prisma.XOR<Prisma.VariantCreateWithoutExchangeItemsInput, Prisma.VariantUncheckedCreateWithoutExchangeItemsInput>
+  connectOrCreate?: Prisma.VariantCreateOrConnectWithoutExchangeItemsInput
+  connect?: Prisma.VariantWhereUniqueInput
+}
+
+export type VariantUpdateOneWithoutExchangeItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.VariantCreateWithoutExchangeItemsInput, Prisma.VariantUncheckedCreateWithoutExchangeItemsInput>
+  connectOrCreate?: Prisma.VariantCreateOrConnectWithoutExchangeItemsInput
+  upsert?: Prisma.VariantUpsertWithoutExchangeItemsInput
+  disconnect?: Prisma.VariantWhereInput | boolean
+  delete?: Prisma.VariantWhereInput | boolean
+  connect?: Prisma.VariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.VariantUpdateToOneWithWhereWithoutExchangeItemsInput, Prisma.VariantUpdateWithoutExchangeItemsInput>, Prisma.VariantUncheckedUpdateWithoutExchangeItemsInput>
+}
+
 export type VariantCreateWithoutProductInput = {
   id?: string
   color: string
   size: string
   stock: number
   weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   createdAt?: Date | string
   orderItems?: Prisma.OrderItemCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutExchangeVariantInput
 }
 
 export type VariantUncheckedCreateWithoutProductInput = {
@@ -502,8 +912,23 @@ export type VariantUncheckedCreateWithoutProductInput = {
   size: string
   stock: number
   weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   createdAt?: Date | string
   orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationUncheckedCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutExchangeVariantInput
 }
 
 export type VariantCreateOrConnectWithoutProductInput = {
@@ -542,6 +967,17 @@ export type VariantScalarWhereInput = {
   size?: Prisma.StringFilter<"Variant"> | string
   stock?: Prisma.IntFilter<"Variant"> | number
   weight?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  lowStockThreshold?: Prisma.IntNullableFilter<"Variant"> | number | null
+  sku?: Prisma.StringNullableFilter<"Variant"> | string | null
+  barcode?: Prisma.StringNullableFilter<"Variant"> | string | null
+  priceNGN?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  priceUSD?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  priceEUR?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  priceGBP?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtNGN?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtUSD?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtEUR?: Prisma.FloatNullableFilter<"Variant"> | number | null
+  compareAtGBP?: Prisma.FloatNullableFilter<"Variant"> | number | null
   createdAt?: Prisma.DateTimeFilter<"Variant"> | Date | string
 }
 
@@ -551,7 +987,22 @@ export type VariantCreateWithoutOrderItemsInput = {
   size: string
   stock: number
   weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   createdAt?: Date | string
+  reservations?: Prisma.StockReservationCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutExchangeVariantInput
   product: Prisma.ProductCreateNestedOneWithoutVariantsInput
 }
 
@@ -562,7 +1013,22 @@ export type VariantUncheckedCreateWithoutOrderItemsInput = {
   size: string
   stock: number
   weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   createdAt?: Date | string
+  reservations?: Prisma.StockReservationUncheckedCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutExchangeVariantInput
 }
 
 export type VariantCreateOrConnectWithoutOrderItemsInput = {
@@ -587,7 +1053,22 @@ export type VariantUpdateWithoutOrderItemsInput = {
   size?: Prisma.StringFieldUpdateOperationsInput | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
   weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reservations?: Prisma.StockReservationUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUpdateManyWithoutExchangeVariantNestedInput
   product?: Prisma.ProductUpdateOneRequiredWithoutVariantsNestedInput
 }
 
@@ -598,7 +1079,486 @@ export type VariantUncheckedUpdateWithoutOrderItemsInput = {
   size?: Prisma.StringFieldUpdateOperationsInput | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
   weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reservations?: Prisma.StockReservationUncheckedUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutExchangeVariantNestedInput
+}
+
+export type VariantCreateWithoutReservationsInput = {
+  id?: string
+  color: string
+  size: string
+  stock: number
+  weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  createdAt?: Date | string
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutExchangeVariantInput
+  product: Prisma.ProductCreateNestedOneWithoutVariantsInput
+}
+
+export type VariantUncheckedCreateWithoutReservationsInput = {
+  id?: string
+  productId: string
+  color: string
+  size: string
+  stock: number
+  weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  createdAt?: Date | string
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutExchangeVariantInput
+}
+
+export type VariantCreateOrConnectWithoutReservationsInput = {
+  where: Prisma.VariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.VariantCreateWithoutReservationsInput, Prisma.VariantUncheckedCreateWithoutReservationsInput>
+}
+
+export type VariantUpsertWithoutReservationsInput = {
+  update: Prisma.XOR<Prisma.VariantUpdateWithoutReservationsInput, Prisma.VariantUncheckedUpdateWithoutReservationsInput>
+  create: Prisma.XOR<Prisma.VariantCreateWithoutReservationsInput, Prisma.VariantUncheckedCreateWithoutReservationsInput>
+  where?: Prisma.VariantWhereInput
+}
+
+export type VariantUpdateToOneWithWhereWithoutReservationsInput = {
+  where?: Prisma.VariantWhereInput
+  data: Prisma.XOR<Prisma.VariantUpdateWithoutReservationsInput, Prisma.VariantUncheckedUpdateWithoutReservationsInput>
+}
+
+export type VariantUpdateWithoutReservationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItems?: Prisma.OrderItemUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUpdateManyWithoutExchangeVariantNestedInput
+  product?: Prisma.ProductUpdateOneRequiredWithoutVariantsNestedInput
+}
+
+export type VariantUncheckedUpdateWithoutReservationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutExchangeVariantNestedInput
+}
+
+export type VariantCreateWithoutMovementsInput = {
+  id?: string
+  color: string
+  size: string
+  stock: number
+  weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  createdAt?: Date | string
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutExchangeVariantInput
+  product: Prisma.ProductCreateNestedOneWithoutVariantsInput
+}
+
+export type VariantUncheckedCreateWithoutMovementsInput = {
+  id?: string
+  productId: string
+  color: string
+  size: string
+  stock: number
+  weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  createdAt?: Date | string
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationUncheckedCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutExchangeVariantInput
+}
+
+export type VariantCreateOrConnectWithoutMovementsInput = {
+  where: Prisma.VariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.VariantCreateWithoutMovementsInput, Prisma.VariantUncheckedCreateWithoutMovementsInput>
+}
+
+export type VariantUpsertWithoutMovementsInput = {
+  update: Prisma.XOR<Prisma.VariantUpdateWithoutMovementsInput, Prisma.VariantUncheckedUpdateWithoutMovementsInput>
+  create: Prisma.XOR<Prisma.VariantCreateWithoutMovementsInput, Prisma.VariantUncheckedCreateWithoutMovementsInput>
+  where?: Prisma.VariantWhereInput
+}
+
+export type VariantUpdateToOneWithWhereWithoutMovementsInput = {
+  where?: Prisma.VariantWhereInput
+  data: Prisma.XOR<Prisma.VariantUpdateWithoutMovementsInput, Prisma.VariantUncheckedUpdateWithoutMovementsInput>
+}
+
+export type VariantUpdateWithoutMovementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItems?: Prisma.OrderItemUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUpdateManyWithoutExchangeVariantNestedInput
+  product?: Prisma.ProductUpdateOneRequiredWithoutVariantsNestedInput
+}
+
+export type VariantUncheckedUpdateWithoutMovementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUncheckedUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutExchangeVariantNestedInput
+}
+
+export type VariantCreateWithoutNotificationsInput = {
+  id?: string
+  color: string
+  size: string
+  stock: number
+  weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  createdAt?: Date | string
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemCreateNestedManyWithoutExchangeVariantInput
+  product: Prisma.ProductCreateNestedOneWithoutVariantsInput
+}
+
+export type VariantUncheckedCreateWithoutNotificationsInput = {
+  id?: string
+  productId: string
+  color: string
+  size: string
+  stock: number
+  weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  createdAt?: Date | string
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationUncheckedCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutVariantInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedCreateNestedManyWithoutExchangeVariantInput
+}
+
+export type VariantCreateOrConnectWithoutNotificationsInput = {
+  where: Prisma.VariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.VariantCreateWithoutNotificationsInput, Prisma.VariantUncheckedCreateWithoutNotificationsInput>
+}
+
+export type VariantUpsertWithoutNotificationsInput = {
+  update: Prisma.XOR<Prisma.VariantUpdateWithoutNotificationsInput, Prisma.VariantUncheckedUpdateWithoutNotificationsInput>
+  create: Prisma.XOR<Prisma.VariantCreateWithoutNotificationsInput, Prisma.VariantUncheckedCreateWithoutNotificationsInput>
+  where?: Prisma.VariantWhereInput
+}
+
+export type VariantUpdateToOneWithWhereWithoutNotificationsInput = {
+  where?: Prisma.VariantWhereInput
+  data: Prisma.XOR<Prisma.VariantUpdateWithoutNotificationsInput, Prisma.VariantUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type VariantUpdateWithoutNotificationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItems?: Prisma.OrderItemUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUpdateManyWithoutExchangeVariantNestedInput
+  product?: Prisma.ProductUpdateOneRequiredWithoutVariantsNestedInput
+}
+
+export type VariantUncheckedUpdateWithoutNotificationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUncheckedUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutExchangeVariantNestedInput
+}
+
+export type VariantCreateWithoutExchangeItemsInput = {
+  id?: string
+  color: string
+  size: string
+  stock: number
+  weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  createdAt?: Date | string
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationCreateNestedManyWithoutVariantInput
+  product: Prisma.ProductCreateNestedOneWithoutVariantsInput
+}
+
+export type VariantUncheckedCreateWithoutExchangeItemsInput = {
+  id?: string
+  productId: string
+  color: string
+  size: string
+  stock: number
+  weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
+  createdAt?: Date | string
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutVariantInput
+  reservations?: Prisma.StockReservationUncheckedCreateNestedManyWithoutVariantInput
+  movements?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutVariantInput
+  notifications?: Prisma.StockNotificationUncheckedCreateNestedManyWithoutVariantInput
+}
+
+export type VariantCreateOrConnectWithoutExchangeItemsInput = {
+  where: Prisma.VariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.VariantCreateWithoutExchangeItemsInput, Prisma.VariantUncheckedCreateWithoutExchangeItemsInput>
+}
+
+export type VariantUpsertWithoutExchangeItemsInput = {
+  update: Prisma.XOR<Prisma.VariantUpdateWithoutExchangeItemsInput, Prisma.VariantUncheckedUpdateWithoutExchangeItemsInput>
+  create: Prisma.XOR<Prisma.VariantCreateWithoutExchangeItemsInput, Prisma.VariantUncheckedCreateWithoutExchangeItemsInput>
+  where?: Prisma.VariantWhereInput
+}
+
+export type VariantUpdateToOneWithWhereWithoutExchangeItemsInput = {
+  where?: Prisma.VariantWhereInput
+  data: Prisma.XOR<Prisma.VariantUpdateWithoutExchangeItemsInput, Prisma.VariantUncheckedUpdateWithoutExchangeItemsInput>
+}
+
+export type VariantUpdateWithoutExchangeItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItems?: Prisma.OrderItemUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUpdateManyWithoutVariantNestedInput
+  product?: Prisma.ProductUpdateOneRequiredWithoutVariantsNestedInput
+}
+
+export type VariantUncheckedUpdateWithoutExchangeItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.StringFieldUpdateOperationsInput | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUncheckedUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutVariantNestedInput
 }
 
 export type VariantCreateManyProductInput = {
@@ -607,6 +1567,17 @@ export type VariantCreateManyProductInput = {
   size: string
   stock: number
   weight?: number | null
+  lowStockThreshold?: number | null
+  sku?: string | null
+  barcode?: string | null
+  priceNGN?: number | null
+  priceUSD?: number | null
+  priceEUR?: number | null
+  priceGBP?: number | null
+  compareAtNGN?: number | null
+  compareAtUSD?: number | null
+  compareAtEUR?: number | null
+  compareAtGBP?: number | null
   createdAt?: Date | string
 }
 
@@ -616,8 +1587,23 @@ export type VariantUpdateWithoutProductInput = {
   size?: Prisma.StringFieldUpdateOperationsInput | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
   weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   orderItems?: Prisma.OrderItemUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUpdateManyWithoutExchangeVariantNestedInput
 }
 
 export type VariantUncheckedUpdateWithoutProductInput = {
@@ -626,8 +1612,23 @@ export type VariantUncheckedUpdateWithoutProductInput = {
   size?: Prisma.StringFieldUpdateOperationsInput | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
   weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutVariantNestedInput
+  reservations?: Prisma.StockReservationUncheckedUpdateManyWithoutVariantNestedInput
+  movements?: Prisma.InventoryMovementUncheckedUpdateManyWithoutVariantNestedInput
+  notifications?: Prisma.StockNotificationUncheckedUpdateManyWithoutVariantNestedInput
+  exchangeItems?: Prisma.ReturnRequestItemUncheckedUpdateManyWithoutExchangeVariantNestedInput
 }
 
 export type VariantUncheckedUpdateManyWithoutProductInput = {
@@ -636,6 +1637,17 @@ export type VariantUncheckedUpdateManyWithoutProductInput = {
   size?: Prisma.StringFieldUpdateOperationsInput | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
   weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  lowStockThreshold?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priceNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  priceGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtNGN?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtUSD?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtEUR?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  compareAtGBP?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -646,10 +1658,18 @@ export type VariantUncheckedUpdateManyWithoutProductInput = {
 
 export type VariantCountOutputType = {
   orderItems: number
+  reservations: number
+  movements: number
+  notifications: number
+  exchangeItems: number
 }
 
 export type VariantCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   orderItems?: boolean | VariantCountOutputTypeCountOrderItemsArgs
+  reservations?: boolean | VariantCountOutputTypeCountReservationsArgs
+  movements?: boolean | VariantCountOutputTypeCountMovementsArgs
+  notifications?: boolean | VariantCountOutputTypeCountNotificationsArgs
+  exchangeItems?: boolean | VariantCountOutputTypeCountExchangeItemsArgs
 }
 
 /**
@@ -669,6 +1689,34 @@ export type VariantCountOutputTypeCountOrderItemsArgs<ExtArgs extends runtime.Ty
   where?: Prisma.OrderItemWhereInput
 }
 
+/**
+ * VariantCountOutputType without action
+ */
+export type VariantCountOutputTypeCountReservationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StockReservationWhereInput
+}
+
+/**
+ * VariantCountOutputType without action
+ */
+export type VariantCountOutputTypeCountMovementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryMovementWhereInput
+}
+
+/**
+ * VariantCountOutputType without action
+ */
+export type VariantCountOutputTypeCountNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StockNotificationWhereInput
+}
+
+/**
+ * VariantCountOutputType without action
+ */
+export type VariantCountOutputTypeCountExchangeItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestItemWhereInput
+}
+
 
 export type VariantSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -677,8 +1725,23 @@ export type VariantSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   size?: boolean
   stock?: boolean
   weight?: boolean
+  lowStockThreshold?: boolean
+  sku?: boolean
+  barcode?: boolean
+  priceNGN?: boolean
+  priceUSD?: boolean
+  priceEUR?: boolean
+  priceGBP?: boolean
+  compareAtNGN?: boolean
+  compareAtUSD?: boolean
+  compareAtEUR?: boolean
+  compareAtGBP?: boolean
   createdAt?: boolean
   orderItems?: boolean | Prisma.Variant$orderItemsArgs<ExtArgs>
+  reservations?: boolean | Prisma.Variant$reservationsArgs<ExtArgs>
+  movements?: boolean | Prisma.Variant$movementsArgs<ExtArgs>
+  notifications?: boolean | Prisma.Variant$notificationsArgs<ExtArgs>
+  exchangeItems?: boolean | Prisma.Variant$exchangeItemsArgs<ExtArgs>
   product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
   _count?: boolean | Prisma.VariantCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["variant"]>
@@ -690,6 +1753,17 @@ export type VariantSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   size?: boolean
   stock?: boolean
   weight?: boolean
+  lowStockThreshold?: boolean
+  sku?: boolean
+  barcode?: boolean
+  priceNGN?: boolean
+  priceUSD?: boolean
+  priceEUR?: boolean
+  priceGBP?: boolean
+  compareAtNGN?: boolean
+  compareAtUSD?: boolean
+  compareAtEUR?: boolean
+  compareAtGBP?: boolean
   createdAt?: boolean
   product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["variant"]>
@@ -701,6 +1775,17 @@ export type VariantSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   size?: boolean
   stock?: boolean
   weight?: boolean
+  lowStockThreshold?: boolean
+  sku?: boolean
+  barcode?: boolean
+  priceNGN?: boolean
+  priceUSD?: boolean
+  priceEUR?: boolean
+  priceGBP?: boolean
+  compareAtNGN?: boolean
+  compareAtUSD?: boolean
+  compareAtEUR?: boolean
+  compareAtGBP?: boolean
   createdAt?: boolean
   product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["variant"]>
@@ -712,12 +1797,27 @@ export type VariantSelectScalar = {
   size?: boolean
   stock?: boolean
   weight?: boolean
+  lowStockThreshold?: boolean
+  sku?: boolean
+  barcode?: boolean
+  priceNGN?: boolean
+  priceUSD?: boolean
+  priceEUR?: boolean
+  priceGBP?: boolean
+  compareAtNGN?: boolean
+  compareAtUSD?: boolean
+  compareAtEUR?: boolean
+  compareAtGBP?: boolean
   createdAt?: boolean
 }
 
-export type VariantOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "productId" | "color" | "size" | "stock" | "weight" | "createdAt", ExtArgs["result"]["variant"]>
+export type VariantOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "productId" | "color" | "size" | "stock" | "weight" | "lowStockThreshold" | "sku" | "barcode" | "priceNGN" | "priceUSD" | "priceEUR" | "priceGBP" | "compareAtNGN" | "compareAtUSD" | "compareAtEUR" | "compareAtGBP" | "createdAt", ExtArgs["result"]["variant"]>
 export type VariantInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   orderItems?: boolean | Prisma.Variant$orderItemsArgs<ExtArgs>
+  reservations?: boolean | Prisma.Variant$reservationsArgs<ExtArgs>
+  movements?: boolean | Prisma.Variant$movementsArgs<ExtArgs>
+  notifications?: boolean | Prisma.Variant$notificationsArgs<ExtArgs>
+  exchangeItems?: boolean | Prisma.Variant$exchangeItemsArgs<ExtArgs>
   product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
   _count?: boolean | Prisma.VariantCountOutputTypeDefaultArgs<ExtArgs>
 }
@@ -732,6 +1832,10 @@ export type $VariantPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
   name: "Variant"
   objects: {
     orderItems: Prisma.$OrderItemPayload<ExtArgs>[]
+    reservations: Prisma.$StockReservationPayload<ExtArgs>[]
+    movements: Prisma.$InventoryMovementPayload<ExtArgs>[]
+    notifications: Prisma.$StockNotificationPayload<ExtArgs>[]
+    exchangeItems: Prisma.$ReturnRequestItemPayload<ExtArgs>[]
     product: Prisma.$ProductPayload<ExtArgs>
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
@@ -741,6 +1845,17 @@ export type $VariantPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     size: string
     stock: number
     weight: number | null
+    lowStockThreshold: number | null
+    sku: string | null
+    barcode: string | null
+    priceNGN: number | null
+    priceUSD: number | null
+    priceEUR: number | null
+    priceGBP: number | null
+    compareAtNGN: number | null
+    compareAtUSD: number | null
+    compareAtEUR: number | null
+    compareAtGBP: number | null
     createdAt: Date
   }, ExtArgs["result"]["variant"]>
   composites: {}
@@ -1137,6 +2252,10 @@ readonly fields: VariantFieldRefs;
 export interface Prisma__VariantClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   orderItems<T extends Prisma.Variant$orderItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Variant$orderItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  reservations<T extends Prisma.Variant$reservationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Variant$reservationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockReservationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  movements<T extends Prisma.Variant$movementsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Variant$movementsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  notifications<T extends Prisma.Variant$notificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Variant$notificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockNotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  exchangeItems<T extends Prisma.Variant$exchangeItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Variant$exchangeItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   product<T extends Prisma.ProductDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProductDefaultArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
@@ -1173,6 +2292,17 @@ export interface VariantFieldRefs {
   readonly size: Prisma.FieldRef<"Variant", 'String'>
   readonly stock: Prisma.FieldRef<"Variant", 'Int'>
   readonly weight: Prisma.FieldRef<"Variant", 'Float'>
+  readonly lowStockThreshold: Prisma.FieldRef<"Variant", 'Int'>
+  readonly sku: Prisma.FieldRef<"Variant", 'String'>
+  readonly barcode: Prisma.FieldRef<"Variant", 'String'>
+  readonly priceNGN: Prisma.FieldRef<"Variant", 'Float'>
+  readonly priceUSD: Prisma.FieldRef<"Variant", 'Float'>
+  readonly priceEUR: Prisma.FieldRef<"Variant", 'Float'>
+  readonly priceGBP: Prisma.FieldRef<"Variant", 'Float'>
+  readonly compareAtNGN: Prisma.FieldRef<"Variant", 'Float'>
+  readonly compareAtUSD: Prisma.FieldRef<"Variant", 'Float'>
+  readonly compareAtEUR: Prisma.FieldRef<"Variant", 'Float'>
+  readonly compareAtGBP: Prisma.FieldRef<"Variant", 'Float'>
   readonly createdAt: Prisma.FieldRef<"Variant", 'DateTime'>
 }
     
@@ -1593,6 +2723,102 @@ export type Variant$orderItemsArgs<ExtArgs extends runtime.Types.Extensions.Inte
   distinct?: Prisma.OrderItemScalarFieldEnum | Prisma.OrderItemScalarFieldEnum[]
 }
 
+/**
+ * Variant.reservations
+ */
+export type Variant$reservationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockReservation
+   */
+  select?: Prisma.StockReservationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockReservation
+   */
+  omit?: Prisma.StockReservationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockReservationInclude<ExtArgs> | null
+  where?: Prisma.StockReservationWhereInput
+  orderBy?: Prisma.StockReservationOrderByWithRelationInput | Prisma.StockReservationOrderByWithRelationInput[]
+  cursor?: Prisma.StockReservationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.StockReservationScalarFieldEnum | Prisma.StockReservationScalarFieldEnum[]
+}
+
+/**
+ * Variant.movements
+ */
+export type Variant$movementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  where?: Prisma.InventoryMovementWhereInput
+  orderBy?: Prisma.InventoryMovementOrderByWithRelationInput | Prisma.InventoryMovementOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryMovementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryMovementScalarFieldEnum | Prisma.InventoryMovementScalarFieldEnum[]
+}
+
+/**
+ * Variant.notifications
+ */
+export type Variant$notificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockNotification
+   */
+  select?: Prisma.StockNotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockNotification
+   */
+  omit?: Prisma.StockNotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockNotificationInclude<ExtArgs> | null
+  where?: Prisma.StockNotificationWhereInput
+  orderBy?: Prisma.StockNotificationOrderByWithRelationInput | Prisma.StockNotificationOrderByWithRelationInput[]
+  cursor?: Prisma.StockNotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.StockNotificationScalarFieldEnum | Prisma.StockNotificationScalarFieldEnum[]
+}
+
+/**
+ * Variant.exchangeItems
+ */
+export type Variant$exchangeItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestItem
+   */
+  select?: Prisma.ReturnRequestItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequestItem
+   */
+  omit?: Prisma.ReturnRequestItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestItemInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestItemWhereInput
+  orderBy?: Prisma.ReturnRequestItemOrderByWithRelationInput | Prisma.ReturnRequestItemOrderByWithRelationInput[]
+  cursor?: Prisma.ReturnRequestItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReturnRequestItemScalarFieldEnum | Prisma.ReturnRequestItemScalarFieldEnum[]
+}
+
 /**
  * Variant without action
  */
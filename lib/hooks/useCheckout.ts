@@ -41,20 +41,13 @@ export interface CreateOrderPayload {
   customer: CustomerPayload;
   paymentMethod: string;
   currency: string;
-  deliveryFee: number;
   timestamp: string;
-  deliveryOptionId?: string;
   paymentReference: string;
   /**
-   * Total that Paystack was charged in NGN (major units),
-   * same value the UI shows as "≈ ₦X via Paystack".
+   * Signed quote from POST /api/checkout/quote. The server takes delivery,
+   * discount and the Paystack amount from it, not from this payload.
    */
-  totalInNaira?: number;
-  /**
-   * Paystack transaction fee (gateway charge) included inside totalInNaira,
-   * in NGN (major units). Used for transparent display (e.g. receipts).
-   */
-  paystackFeeInNaira?: number;
+  quoteId: string;
   // shipping is accepted by the backend; left as any to avoid tight coupling
   // with the Shipbubble types in the API route.
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -16,11 +16,25 @@ export interface DeliveryOption {
   id: string;
   name: string;
   provider?: string | null;
-  pricingMode: "FIXED" | "EXTERNAL";
+  pricingMode: "FIXED" | "EXTERNAL" | "PICKUP";
   baseFee?: number | null; // may be null for EXTERNAL
   baseCurrency?: "NGN" | "USD" | "EUR" | "GBP" | null;
   active: boolean;
   metadata?: any;
+  /** Fee from the shipping zone covering the destination (FIXED only). */
+  fee?: number | null;
+  feeCurrency?: "NGN" | "USD" | "EUR" | "GBP" | null;
+  freeShipping?: boolean;
+  zoneName?: string | null;
+}
+
+/** Where the cart is going, for zone-priced delivery options. */
+export interface DeliveryDestination {
+  country: CountryData | null | undefined;
+  state?: string | null;
+  currency: "NGN" | "USD" | "EUR" | "GBP";
+  weightKg?: number;
+  subtotal?: number;
 }
 
 /* ---------------------------- Small utilities ---------------------------- */
@@ -186,7 +200,13 @@ export function useCountryState(
 
 /* --------------------- Delivery options (schema-aligned) --------------------- */
 
-export function useDeliveryOptions(countryName: string | undefined | null) {
+export function useDeliveryOptions({
+  country,
+  state,
+  currency,
+  weightKg = 0,
+  subtotal = 0,
+}: DeliveryDestination) {
   const [deliveryOptions, setDeliveryOptions] = useState<DeliveryOption[]>([]);
   const [selectedDeliveryOption, setSelectedDeliveryOption] =
     useState<DeliveryOption | null>(null);
@@ -195,12 +215,18 @@ export function useDeliveryOptions(countryName: string | undefined | null) {
     let cancelled = false;
 
     async function loadOptions() {
-      if (!countryName) return;
+      if (!country?.name) return;
 
       try {
-        const res = await fetch(
-          `/api/delivery-options?country=${encodeURIComponent(countryName)}`
-        );
+        const params = new URLSearchParams({
+          country: country.name,
+          countryIso2: country.iso2,
+          currency,
+          weightKg: String(weightKg),
+          subtotal: String(subtotal),
+        });
+        if (state) params.set("state", state);
+        const res = await fetch(`/api/delivery-options?${params}`);
         if (!res.ok) throw new Error("Failed to load delivery options");
 
         const data: DeliveryOption[] = await res.json();
@@ -227,18 +253,23 @@ export function useDeliveryOptions(countryName: string | undefined | null) {
     return () => {
       cancelled = true;
     };
-  }, [countryName]);
+  }, [country?.name, country?.iso2, state, currency, weightKg, subtotal]);
 
+  // Zone-resolved fee when the option has zones, else its flat base fee.
+  // May be in another currency than the cart (zone NGN fallback / baseCurrency).
   const deliveryFee =
-    selectedDeliveryOption?.baseFee != null
-      ? selectedDeliveryOption.baseFee
-      : 0;
+    selectedDeliveryOption?.fee ?? selectedDeliveryOption?.baseFee ?? 0;
+  const deliveryFeeCurrency =
+    selectedDeliveryOption?.feeCurrency ??
+    selectedDeliveryOption?.baseCurrency ??
+    "NGN";
 
   return {
     deliveryOptions,
     selectedDeliveryOption,
     setSelectedDeliveryOption,
     deliveryFee,
+    deliveryFeeCurrency,
   };
 }
 
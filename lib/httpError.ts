@@ -0,0 +1,11 @@
+// lib/httpError.ts
+// Base class for lib errors whose message is safe to return with their status.
+
+export class HttpError extends Error {
+  public statusCode: number;
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = "HttpError";
+    this.statusCode = statusCode;
+  }
+}
@@ -0,0 +1,90 @@
+// lib/inventory.ts
+// Every Variant.stock change goes through here and leaves an InventoryMovement row.
+
+import { prisma } from "@/lib/db";
+import type { InventoryReason, Prisma } from "@/lib/generated/prisma-client/client";
+import { HttpError } from "@/lib/httpError";
+
+export class InventoryError extends HttpError {
+  name = "InventoryError";
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface StockChange {
+  variantId: string;
+  delta: number;
+  reason: InventoryReason;
+  orderId?: string | null;
+  staffId?: string | null;
+  note?: string | null;
+}
+
+/** Apply a signed stock change and log it. Returns the new balance. */
+export async function adjustStock(db: Db, change: StockChange): Promise<number> {
+  const delta = Math.trunc(change.delta);
+  if (delta === 0) {
+    const v = await db.variant.findUniqueOrThrow({
+      where: { id: change.variantId },
+      select: { stock: true },
+    });
+    return v.stock;
+  }
+
+  const { stock } = await db.variant.update({
+    where: { id: change.variantId },
+    data: { stock: { increment: delta } },
+    select: { stock: true },
+  });
+  if (change.reason === "Adjustment" && stock < 0) {
+    throw new InventoryError("Adjustment would take stock below zero");
+  }
+
+  await db.inventoryMovement.create({
+    data: {
+      variantId: change.variantId,
+      delta,
+      reason: change.reason,
+      balance: stock,
+      orderId: change.orderId ?? null,
+      staffId: change.staffId ?? null,
+      note: change.note ?? null,
+    },
+  });
+  return stock;
+}
+
+/** Set an absolute stock level (product edits), logging the difference. */
+export async function setStock(
+  db: Db,
+  change: Omit<StockChange, "delta" | "reason"> & { stock: number }
+): Promise<number> {
+  const current = await db.variant.findUniqueOrThrow({
+    where: { id: change.variantId },
+    select: { stock: true },
+  });
+  return adjustStock(db, {
+    ...change,
+    delta: change.stock - current.stock,
+    reason: "Adjustment",
+  });
+}
+
+/** Log the opening balance of a freshly created variant. */
+export async function recordInitialStock(
+  db: Db,
+  variant: { id: string; stock: number },
+  staffId?: string | null
+): Promise<void> {
+  if (variant.stock === 0) return;
+  await db.inventoryMovement.create({
+    data: {
+      variantId: variant.id,
+      delta: variant.stock,
+      reason: "Adjustment",
+      balance: variant.stock,
+      staffId: staffId ?? null,
+      note: "Initial stock",
+    },
+  });
+}
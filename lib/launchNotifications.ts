@@ -0,0 +1,137 @@
+// lib/launchNotifications.ts
+// "Notify me" sign-ups on coming-soon products and the launch emails.
+
+import { prisma } from "@/lib/db";
+import { sendLaunchEmail } from "@/lib/mail";
+import { liveProductWhere, productAvailability } from "@/lib/productSchedule";
+import { NOTIFY_BATCH_SIZE } from "@/lib/stockNotifications";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class LaunchNotificationError extends HttpError {
+  name = "LaunchNotificationError";
+}
+
+export interface LaunchNotificationInput {
+  productId: string;
+  email: string;
+  customerId?: string | null;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Record (or re-arm) a launch sign-up for a coming-soon product. */
+export async function subscribeToLaunch(input: LaunchNotificationInput) {
+  const email = (input.email || "").trim().toLowerCase();
+  if (!EMAIL_RE.test(email)) {
+    throw new LaunchNotificationError("Enter a valid email address");
+  }
+  if (!input.productId) throw new LaunchNotificationError("Missing product");
+
+  const product = await prisma.product.findUnique({
+    where: { id: input.productId },
+    select: { id: true, status: true, publishAt: true, unpublishAt: true },
+  });
+  const availability = product ? productAvailability(product) : "unpublished";
+  if (availability === "live") {
+    throw new LaunchNotificationError("This item is already available", 409);
+  }
+  if (!product || availability !== "coming_soon") {
+    throw new LaunchNotificationError("Product not found", 404);
+  }
+
+  return prisma.launchNotification.upsert({
+    where: { productId_email: { productId: product.id, email } },
+    create: {
+      productId: product.id,
+      email,
+      customerId: input.customerId ?? null,
+    },
+    update: {
+      notifiedAt: null,
+      unsubscribedAt: null,
+      ...(input.customerId && { customerId: input.customerId }),
+    },
+    select: { id: true, productId: true, email: true, createdAt: true },
+  });
+}
+
+/** Opt out via the token from the email. Returns false for unknown tokens. */
+export async function unsubscribeFromLaunch(token: string): Promise<boolean> {
+  if (!token) return false;
+  const { count } = await prisma.launchNotification.updateMany({
+    where: { token, unsubscribedAt: null },
+    data: { unsubscribedAt: new Date() },
+  });
+  if (count > 0) return true;
+  return (await prisma.launchNotification.count({ where: { token } })) > 0;
+}
+
+/**
+ * Email pending sign-ups whose product is now live, optionally limited to
+ * `productIds`. Never throws for individual send failures.
+ */
+export async function flushLaunchNotifications(
+  productIds?: string[]
+): Promise<{ sent: number; failed: number }> {
+  if (productIds && productIds.length === 0) return { sent: 0, failed: 0 };
+
+  const baseUrl = process.env.NEXTAUTH_URL ?? "http://localhost:3000";
+  const failedIds: string[] = [];
+  let sent = 0;
+
+  for (;;) {
+    const batch = await prisma.launchNotification.findMany({
+      where: {
+        notifiedAt: null,
+        unsubscribedAt: null,
+        ...(failedIds.length > 0 && { id: { notIn: failedIds } }),
+        ...(productIds && { productId: { in: productIds } }),
+        product: liveProductWhere(),
+      },
+      orderBy: { createdAt: "asc" },
+      take: NOTIFY_BATCH_SIZE,
+      include: { product: { select: { id: true, name: true, images: true } } },
+    });
+    if (batch.length === 0) break;
+
+    const results = await Promise.allSettled(
+      batch.map((n) =>
+        sendLaunchEmail({
+          to: n.email,
+          productName: n.product.name,
+          image: n.product.images[0] ?? null,
+          productUrl: `${baseUrl}/product/${n.product.id}`,
+          unsubscribeUrl: `${baseUrl}/launch-alerts/unsubscribe?token=${n.token}`,
+        })
+      )
+    );
+
+    const sentIds: string[] = [];
+    results.forEach((r, i) => {
+      if (r.status === "fulfilled") {
+        sentIds.push(batch[i].id);
+      } else {
+        failedIds.push(batch[i].id);
+        console.warn(`[launchNotifications] send to ${batch[i].email} failed:`, r.reason);
+      }
+    });
+    if (sentIds.length > 0) {
+      await prisma.launchNotification.updateMany({
+        where: { id: { in: sentIds } },
+        data: { notifiedAt: new Date() },
+      });
+      sent += sentIds.length;
+    }
+    if (batch.length < NOTIFY_BATCH_SIZE) break;
+  }
+
+  return { sent, failed: failedIds.length };
+}
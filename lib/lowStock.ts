@@ -0,0 +1,135 @@
+// lib/lowStock.ts
+// Low-stock detection for the admin "Low stock" view and the daily digest.
+
+import { prisma } from "@/lib/db";
+import { escapeHtml, sendGenericEmail } from "@/lib/mail";
+
+export interface LowStockRow {
+  variantId: string;
+  productId: string;
+  productName: string;
+  image: string | null;
+  color: string;
+  size: string;
+  stock: number;
+  threshold: number;
+  thresholdSource: "variant" | "product";
+  soldInWindow: number;
+  dailyVelocity: number;
+  daysOfCover: number | null;
+}
+
+export const VELOCITY_WINDOW_DAYS = 30;
+
+const round2 = (n: number) => +n.toFixed(2);
+
+/** Variants at or under their threshold, lowest cover first. */
+export async function listLowStock(days = VELOCITY_WINDOW_DAYS): Promise<LowStockRow[]> {
+  const variants = await prisma.variant.findMany({
+    where: { product: { status: { not: "Archived" } } },
+    select: {
+      id: true,
+      color: true,
+      size: true,
+      stock: true,
+      lowStockThreshold: true,
+      product: {
+        select: { id: true, name: true, images: true, lowStockThreshold: true },
+      },
+    },
+  });
+
+  const low = variants.filter(
+    (v) => v.stock <= (v.lowStockThreshold ?? v.product.lowStockThreshold)
+  );
+  if (low.length === 0) return [];
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const sales = await prisma.orderItem.groupBy({
+    by: ["variantId"],
+    where: {
+      variantId: { in: low.map((v) => v.id) },
+      order: { status: { not: "Cancelled" }, createdAt: { gte: since } },
+    },
+    _sum: { quantity: true },
+  });
+  const soldMap = new Map(sales.map((s) => [s.variantId, s._sum.quantity ?? 0]));
+
+  const rows = low.map((v): LowStockRow => {
+    const soldInWindow = soldMap.get(v.id) ?? 0;
+    const dailyVelocity = soldInWindow / days;
+    return {
+      variantId: v.id,
+      productId: v.product.id,
+      productName: v.product.name,
+      image: v.product.images[0] ?? null,
+      color: v.color,
+      size: v.size,
+      stock: v.stock,
+      threshold: v.lowStockThreshold ?? v.product.lowStockThreshold,
+      thresholdSource: v.lowStockThreshold != null ? "variant" : "product",
+      soldInWindow,
+      dailyVelocity: round2(dailyVelocity),
+      daysOfCover: dailyVelocity > 0 ? round2(Math.max(v.stock, 0) / dailyVelocity) : null,
+    };
+  });
+
+  return rows.sort(
+    (a, b) =>
+      (a.daysOfCover ?? Number.POSITIVE_INFINITY) -
+        (b.daysOfCover ?? Number.POSITIVE_INFINITY) || a.stock - b.stock
+  );
+}
+
+/**
+ * Email the current low-stock list to every ProductAdmin.
+ * Returns what was sent; nothing is sent when no variant is low.
+ */
+export async function sendLowStockDigest(): Promise<{ recipients: number; variants: number }> {
+  const rows = await listLowStock();
+  if (rows.length === 0) return { recipients: 0, variants: 0 };
+
+  const staff = await prisma.staff.findMany({
+    where: { access: "ProductAdmin", dateOfResignation: null },
+    select: { email: true },
+  });
+  const to = staff.map((s) => s.email).filter(Boolean);
+  if (to.length === 0) return { recipients: 0, variants: rows.length };
+
+  const baseUrl = process.env.NEXTAUTH_URL ?? "http://localhost:3000";
+  const bodyHtml = `
+    <table width="100%" cellpadding="6" cellspacing="0" style="border-collapse:collapse;font-size:13px">
+      <tr style="text-align:left;border-bottom:1px solid #e5e7eb">
+        <th>Product</th><th>Variant</th><th align="right">Stock</th>
+        <th align="right">Threshold</th><th align="right">Sold (${VELOCITY_WINDOW_DAYS}d)</th>
+        <th align="right">Days left</th>
+      </tr>
+      ${rows
+        .map(
+          (r) => `
+      <tr style="border-bottom:1px solid #f3f4f6">
+        <td>${escapeHtml(r.productName)}<br/><small style="color:#6b7280">${escapeHtml(r.productId)}</small></td>
+        <td>${escapeHtml([r.color, r.size].filter(Boolean).join(" / ")) || "—"}</td>
+        <td align="right" style="font-family:monospace;${r.stock <= 0 ? "color:#b91c1c" : ""}">${r.stock}</td>
+        <td align="right" style="font-family:monospace">${r.threshold}</td>
+        <td align="right" style="font-family:monospace">${r.soldInWindow}</td>
+        <td align="right" style="font-family:monospace">${r.daysOfCover ?? "—"}</td>
+      </tr>`
+        )
+        .join("")}
+    </table>
+  `;
+
+  await sendGenericEmail({
+    to,
+    subject: `Low stock: ${rows.length} variant${rows.length === 1 ? "" : "s"} need reordering`,
+    title: "Daily Low-Stock Digest",
+    intro: `${rows.length} variant${rows.length === 1 ? " is" : "s are"} at or below the reorder threshold.`,
+    bodyHtml,
+    button: { label: "Open Low Stock", url: `${baseUrl}/admin/low-stock` },
+    preheader: `${rows.length} variants are running low.`,
+    from: "no-reply",
+  });
+
+  return { recipients: to.length, variants: rows.length };
+}
@@ -210,6 +210,16 @@ function withEnvelope(
 
 /* ---------- Templated HTML (brand shell) ---------- */
 
+/** Escape customer- or staff-entered text before it goes into email HTML. */
+export function escapeHtml(v: unknown): string {
+  return String(v ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 interface RenderEmailOptions {
   title: string;
   intro?: string;
@@ -505,13 +515,17 @@ export async function sendStatusEmail(params: {
   name: string;
   orderId: string;
   status: string;
+  /** Latest carrier update, e.g. "In transit — Ikeja, Lagos". */
+  detail?: string;
+  /** Tracking page; the button links here instead of the account page. */
+  trackUrl?: string;
 }) {
   const e = (params.to || "").trim();
   if (!e || !extractAddress(e)) {
     throw new Error("[sendStatusEmail] invalid recipient email");
   }
 
-  const { name, orderId, status } = params;
+  const { name, orderId, status, detail, trackUrl } = params;
   const baseUrl = process.env.NEXTAUTH_URL ?? "http://localhost:3000";
 
   await sendGenericEmail({
@@ -520,14 +534,303 @@ export async function sendStatusEmail(params: {
     subject: `Your order ${orderId} Status: ${status}`,
     title: `Order ${orderId} — ${status}`,
     intro: `Hi ${name},`,
-    bodyHtml: `<p style="margin:0;font-family:${BRAND_FONT_STACK};">Your order <strong>${orderId}</strong> has been <strong>${status}</strong>.</p>`,
-    button: { label: "View Your Orders", url: `${baseUrl}/account` },
+    bodyHtml: `<p style="margin:0;font-family:${BRAND_FONT_STACK};">Your order <strong>${orderId}</strong> has been <strong>${status}</strong>.</p>${
+      detail ? `<p style="margin:12px 0 0;font-family:${BRAND_FONT_STACK};color:${MUTED_COLOR};">Latest update: ${detail}</p>` : ""
+    }`,
+    button: trackUrl
+      ? { label: "Track Your Order", url: trackUrl }
+      : { label: "View Your Orders", url: `${baseUrl}/account` },
     preheader: `Your order has been ${status}`,
     footerNote:
       "Questions about your order? Visit your Marobi account or contact our support team from the website.",
   });
 }
 
+// Store pickup ready — shipping@, carries the collection code
+export async function sendPickupReadyEmail(params: {
+  to: string;
+  name: string;
+  orderId: string;
+  code: string;
+  location: {
+    name: string;
+    address: string;
+    openingHours: string;
+    phone?: string | null;
+    instructions?: string | null;
+  };
+}) {
+  const e = (params.to || "").trim();
+  if (!e || !extractAddress(e)) {
+    throw new Error("[sendPickupReadyEmail] invalid recipient email");
+  }
+
+  const { name, orderId, code, location } = params;
+  const baseUrl = process.env.NEXTAUTH_URL ?? "http://localhost:3000";
+  const p = `margin:12px 0 0;font-family:${BRAND_FONT_STACK};`;
+
+  await sendGenericEmail({
+    from: "shipping",
+    to: e,
+    subject: `Your order ${orderId} is ready for pickup`,
+    title: `Order ${orderId} — Ready for Pickup`,
+    intro: `Hi ${name},`,
+    bodyHtml: `
+      <p style="margin:0;font-family:${BRAND_FONT_STACK};">Your order <strong>${orderId}</strong> is ready to collect from <strong>${location.name}</strong>.</p>
+      <p style="${p}">Show this collection code at the counter:</p>
+      <p style="margin:8px 0 0;font-family:${BRAND_FONT_STACK};font-size:28px;font-weight:700;letter-spacing:6px;">${code}</p>
+      <p style="${p}">${location.address}<br/><span style="color:${MUTED_COLOR};">Opening hours: ${location.openingHours}</span>${
+        location.phone ? `<br/><span style="color:${MUTED_COLOR};">Phone: ${location.phone}</span>` : ""
+      }</p>${location.instructions ? `<p style="${p}color:${MUTED_COLOR};">${location.instructions}</p>` : ""}
+    `,
+    button: { label: "View Your Order", url: `${baseUrl}/account/orders/${encodeURIComponent(orderId)}` },
+    preheader: `Collection code for order ${orderId}`,
+    footerNote:
+      "Only share this code with the person collecting your order. Questions? Contact our support team from the website.",
+  });
+}
+
+// Refund credit note — info@ so replies reach the support inbox
+export async function sendCreditNoteEmail(params: {
+  to: string;
+  name: string;
+  orderId: string;
+  creditNoteNumber: string;
+  issuedAt: Date;
+  currency: string;
+  amount: number;
+  reason?: string | null;
+  lines: Array<{ name: string; variant?: string; quantity: number; amount: number }>;
+}) {
+  const e = (params.to || "").trim();
+  if (!e || !extractAddress(e)) {
+    throw new Error("[sendCreditNoteEmail] invalid recipient email");
+  }
+
+  const { name, orderId, creditNoteNumber, issuedAt, currency, amount, reason, lines } =
+    params;
+  const money = (n: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).format(n);
+  const cell = `padding:8px 0;border-bottom:1px solid #e5e7eb;font-family:${BRAND_FONT_STACK};`;
+
+  const linesHtml = lines.length
+    ? lines
+        .map(
+          (l) => `
+        <tr>
+          <td style="${cell}">${l.name}${
+            l.variant
+              ? `<br/><span style="font-size:12px;color:${MUTED_COLOR};">${l.variant}</span>`
+              : ""
+          }</td>
+          <td style="${cell}text-align:center;">${l.quantity}</td>
+          <td style="${cell}text-align:right;">${money(l.amount)}</td>
+        </tr>`
+        )
+        .join("")
+    : `<tr><td colspan="3" style="${cell}">Order balance (incl. delivery)</td></tr>`;
+
+  await sendGenericEmail({
+    from: "info",
+    to: e,
+    subject: `Credit note ${creditNoteNumber} for order ${orderId}`,
+    title: `Credit Note ${creditNoteNumber}`,
+    intro: `Hi ${name}, we've refunded part or all of your order <strong>${orderId}</strong>.`,
+    bodyHtml: `
+      <p style="margin:0 0 12px;font-size:13px;color:${MUTED_COLOR};font-family:${BRAND_FONT_STACK};">
+        Issued ${issuedAt.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" })}${
+          reason ? ` • Reason: ${reason}` : ""
+        }
+      </p>
+      <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="border-collapse:collapse;font-size:14px;">
+        <tr>
+          <th align="left" style="${cell}">Item</th>
+          <th style="${cell}text-align:center;">Qty</th>
+          <th style="${cell}text-align:right;">Amount</th>
+        </tr>
+        ${linesHtml}
+        <tr>
+          <td colspan="2" style="padding:12px 0 0;font-weight:700;font-family:${BRAND_FONT_STACK};">Total refunded</td>
+          <td style="padding:12px 0 0;text-align:right;font-weight:700;font-family:${BRAND_FONT_STACK};">${money(amount)}</td>
+        </tr>
+      </table>
+      <p style="margin:18px 0 0;font-family:${BRAND_FONT_STACK};">
+        Card refunds can take 5–10 working days to appear on your statement, depending on your bank.
+      </p>
+    `,
+    preheader: `Refund of ${money(amount)} for order ${orderId}`,
+    footerNote:
+      "Questions about this refund? Reply to this email and our team will help.",
+  });
+}
+
+// Back-in-stock alert — no-reply, always carries an unsubscribe link
+export async function sendBackInStockEmail(params: {
+  to: string;
+  productName: string;
+  variant?: string;
+  image?: string | null;
+  productUrl: string;
+  unsubscribeUrl: string;
+}) {
+  const e = (params.to || "").trim();
+  if (!e || !extractAddress(e)) {
+    throw new Error("[sendBackInStockEmail] invalid recipient email");
+  }
+
+  const { productName, variant, image, productUrl, unsubscribeUrl } = params;
+  const label = variant ? `${productName} (${variant})` : productName;
+
+  await sendGenericEmail({
+    from: "no-reply",
+    to: e,
+    subject: `Back in stock: ${label}`,
+    title: "It's Back in Stock",
+    intro: `Good news — <strong>${label}</strong> is available again.`,
+    bodyHtml: `
+      ${
+        image
+          ? `<img src="${image}" alt="${productName}" width="200" style="display:block;margin:0 0 16px;border-radius:6px;max-width:100%;" />`
+          : ""
+      }
+      <p style="margin:0;font-family:${BRAND_FONT_STACK};">
+        Stock is limited, so we can't hold it for you — order soon if you'd like one.
+      </p>
+    `,
+    button: { label: "Shop Now", url: productUrl },
+    preheader: `${label} is back in stock`,
+    footerNote: `You asked us to tell you when this item was restocked. <a href="${unsubscribeUrl}" style="color:${MUTED_COLOR};">Unsubscribe</a> from this alert.`,
+  });
+}
+
+// Drop launch — sent to "notify me" sign-ups from a coming-soon page
+export async function sendLaunchEmail(params: {
+  to: string;
+  productName: string;
+  image?: string | null;
+  productUrl: string;
+  unsubscribeUrl: string;
+}) {
+  const e = (params.to || "").trim();
+  if (!e || !extractAddress(e)) {
+    throw new Error("[sendLaunchEmail] invalid recipient email");
+  }
+
+  const { productName, image, productUrl, unsubscribeUrl } = params;
+
+  await sendGenericEmail({
+    from: "no-reply",
+    to: e,
+    subject: `Now available: ${productName}`,
+    title: "It's Here",
+    intro: `<strong>${productName}</strong> has just launched.`,
+    bodyHtml: `
+      ${
+        image
+          ? `<img src="${image}" alt="${productName}" width="200" style="display:block;margin:0 0 16px;border-radius:6px;max-width:100%;" />`
+          : ""
+      }
+      <p style="margin:0;font-family:${BRAND_FONT_STACK};">
+        Drops sell out quickly, so order soon if you'd like one.
+      </p>
+    `,
+    button: { label: "Shop Now", url: productUrl },
+    preheader: `${productName} is now available`,
+    footerNote: `You asked us to tell you when this item launched. <a href="${unsubscribeUrl}" style="color:${MUTED_COLOR};">Unsubscribe</a> from this alert.`,
+  });
+}
+
+// Abandoned cart reminder — step 1..3 of the sequence, always unsubscribable
+export async function sendAbandonedCartEmail(params: {
+  to: string;
+  step: number;
+  items: { name: string; variant?: string; quantity: number; price: string; image?: string | null }[];
+  subtotal: string;
+  restoreUrl: string;
+  unsubscribeUrl: string;
+}) {
+  const e = (params.to || "").trim();
+  if (!e || !extractAddress(e)) {
+    throw new Error("[sendAbandonedCartEmail] invalid recipient email");
+  }
+
+  const { step, items, subtotal, restoreUrl, unsubscribeUrl } = params;
+  const copy =
+    step <= 1
+      ? { subject: "You left something in your bag", title: "Still Thinking It Over?", intro: "You left these pieces in your bag — we've saved them for you." }
+      : step === 2
+        ? { subject: "Your bag is waiting", title: "Your Bag Is Waiting", intro: "The pieces you picked are still in your bag, but stock moves quickly." }
+        : { subject: "Last reminder: your saved bag", title: "Last Reminder", intro: "This is the last time we'll remind you about the pieces in your bag." };
+
+  const rows = items
+    .map(
+      (it) => `
+        <tr>
+          <td style="padding:8px 0;width:64px;vertical-align:top;">
+            ${it.image ? `<img src="${it.image}" alt="${it.name}" width="56" style="display:block;border-radius:4px;" />` : ""}
+          </td>
+          <td style="padding:8px 8px;font-family:${BRAND_FONT_STACK};vertical-align:top;">
+            <strong>${it.name}</strong>${it.variant ? `<br /><span style="color:${MUTED_COLOR};font-size:12px;">${it.variant}</span>` : ""}
+            <br /><span style="color:${MUTED_COLOR};font-size:12px;">Qty ${it.quantity}</span>
+          </td>
+          <td style="padding:8px 0;font-family:${BRAND_FONT_STACK};text-align:right;vertical-align:top;white-space:nowrap;">${it.price}</td>
+        </tr>`
+    )
+    .join("");
+
+  await sendGenericEmail({
+    from: "no-reply",
+    to: e,
+    subject: copy.subject,
+    title: copy.title,
+    intro: copy.intro,
+    bodyHtml: `
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;margin:0 0 12px;">
+        ${rows}
+      </table>
+      <p style="margin:0;font-family:${BRAND_FONT_STACK};text-align:right;">
+        Subtotal: <strong>${subtotal}</strong>
+      </p>
+    `,
+    button: { label: "Return to Your Bag", url: restoreUrl },
+    preheader: copy.intro,
+    footerNote: `You're receiving this because you started a checkout on our website. <a href="${unsubscribeUrl}" style="color:${MUTED_COLOR};">Unsubscribe</a> from cart reminders.`,
+  });
+}
+
+// Return / exchange request updates — shipping@ handles returns
+export async function sendReturnUpdateEmail(params: {
+  to: string;
+  name: string;
+  orderId: string;
+  headline: string;
+  message: string;
+  trackingUrl?: string | null;
+}) {
+  const e = (params.to || "").trim();
+  if (!e || !extractAddress(e)) {
+    throw new Error("[sendReturnUpdateEmail] invalid recipient email");
+  }
+
+  const { name, orderId, headline, message, trackingUrl } = params;
+  const baseUrl = process.env.NEXTAUTH_URL ?? "http://localhost:3000";
+
+  await sendGenericEmail({
+    from: "shipping",
+    to: e,
+    subject: `Your return for order ${orderId}: ${headline}`,
+    title: `Return ${headline}`,
+    intro: `Hi ${name},`,
+    bodyHtml: `<p style="margin:0;font-family:${BRAND_FONT_STACK};">${message}</p>`,
+    button: trackingUrl
+      ? { label: "Track Return Parcel", url: trackingUrl }
+      : { label: "View Your Order", url: `${baseUrl}/account/orders/${encodeURIComponent(orderId)}` },
+    preheader: `Return for order ${orderId}: ${headline}`,
+    footerNote:
+      "Questions about your return? Visit your Marobi account or contact our support team from the website.",
+  });
+}
+
 /* ---------- Receipt sending (shared renderer + PDF) ---------- */
 
 function computeBackoffSeconds(attempts: number) {
@@ -6,6 +6,7 @@
 //  - Custom measurements
 //  - Courier name (Shipbubble or legacy delivery options)
 //  - Transaction / Paystack fee in the totals
+//  - Discount code line in the totals (when the order used one)
 // Uses Montserrat from /public/fonts if available, with sensible fallbacks.
 
 import PDFDocument from "pdfkit/js/pdfkit.standalone.js";
@@ -78,6 +79,8 @@ export async function generateInvoicePDF({
     }>;
     paymentMethod: string;
     totalAmount?: number; // items subtotal
+    discountCode?: string | null;
+    discountAmount?: number | null; // items + shipping discount
     deliveryDetails?: any;
     deliveryOption?: { name?: string | null } | null;
   };
@@ -168,7 +171,9 @@ export async function generateInvoicePDF({
       0
   );
 
-  const total = +(subtotal + shipping + gatewayFee).toFixed(2);
+  const discount = Number(order.discountAmount ?? 0);
+
+  const total = +(subtotal + shipping - discount + gatewayFee).toFixed(2);
 
   const chunks: Buffer[] = [];
   const bufferPromise = new Promise<Buffer>((resolve, reject) => {
@@ -382,7 +387,7 @@ export async function generateInvoicePDF({
 
   /* ---------- Totals ---------- */
 
-  ensureSpace(110);
+  ensureSpace(128);
   y += 8;
 
   doc
@@ -415,6 +420,12 @@ export async function generateInvoicePDF({
 
   row("Subtotal:", subtotal);
   row("Shipping:", shipping);
+  if (discount > 0) {
+    row(
+      order.discountCode ? `Discount (${order.discountCode}):` : "Discount:",
+      `-${money(discount)}`
+    );
+  }
   row("Paystack Transaction Fee:", gatewayFee);
   row("Total:", total, true);
 
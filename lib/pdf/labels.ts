@@ -0,0 +1,79 @@
+// lib/pdf/labels.ts
+// A4 sheet of QR variant labels (3 × 8 grid), set in the built-in Helvetica.
+
+import PDFDocument from "pdfkit/js/pdfkit.standalone.js";
+import QRCode from "qrcode";
+import type { VariantLabel } from "@/lib/variantLabels";
+
+const COLUMNS = 3;
+const ROWS = 8;
+const MARGIN = 24;
+const PAD = 6;
+
+export async function generateVariantLabelsPDF(labels: VariantLabel[]): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN, autoFirstPage: false });
+
+  const chunks: Buffer[] = [];
+  const bufferPromise = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (c: Buffer) => chunks.push(c));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // Same code → same QR image; stock copies repeat codes a lot
+  const qrCache = new Map<string, Buffer>();
+  const qrFor = async (code: string) => {
+    let buf = qrCache.get(code);
+    if (!buf) {
+      const dataURL = await QRCode.toDataURL(code, { margin: 0, width: 160 });
+      buf = Buffer.from(dataURL.split(",")[1], "base64");
+      qrCache.set(code, buf);
+    }
+    return buf;
+  };
+
+  const perPage = COLUMNS * ROWS;
+
+  for (let i = 0; i < labels.length; i++) {
+    const slot = i % perPage;
+    if (slot === 0) doc.addPage();
+
+    const cellW = (doc.page.width - MARGIN * 2) / COLUMNS;
+    const cellH = (doc.page.height - MARGIN * 2) / ROWS;
+    const x = MARGIN + (slot % COLUMNS) * cellW;
+    const y = MARGIN + Math.floor(slot / COLUMNS) * cellH;
+
+    const label = labels[i];
+    const qrSize = cellH - PAD * 2;
+
+    // Light cut guide
+    doc.lineWidth(0.25).strokeColor("#d1d5db").rect(x, y, cellW, cellH).stroke();
+
+    doc.image(await qrFor(label.code), x + PAD, y + PAD, { width: qrSize, height: qrSize });
+
+    const textX = x + PAD * 2 + qrSize;
+    const textW = cellW - qrSize - PAD * 3;
+    const variant = [label.color, label.size].filter(Boolean).join(" / ");
+
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(8)
+      .fillColor("#111")
+      .text(label.productName, textX, y + PAD, { width: textW, height: 30, ellipsis: true });
+
+    doc.font("Helvetica").fontSize(7.5).fillColor("#374151");
+    if (variant) doc.text(variant, { width: textW, height: 20, ellipsis: true });
+    if (label.priceNGN != null) {
+      doc.text(`NGN ${label.priceNGN.toLocaleString("en-NG")}`, { width: textW });
+    }
+
+    doc
+      .font("Helvetica")
+      .fontSize(6.5)
+      .fillColor("#6b7280")
+      .text(label.code, textX, y + cellH - PAD - 9, { width: textW, lineBreak: false, ellipsis: true });
+  }
+
+  doc.end();
+  return bufferPromise;
+}
@@ -0,0 +1,71 @@
+// lib/permissions.ts
+// Staff permission matrix, shared by lib/withPermission.ts and the admin sidebar.
+// Keep it free of server-only imports.
+
+import type { UserRole } from "@/lib/generated/prisma-client/client";
+
+export const CAPABILITIES = [
+  "products.manage",    // products, variants, categories, inventory, low stock
+  "media.upload",       // Cloudinary uploads
+  "reviews.moderate",   // review listing / deletion
+  "orders.view",        // order lists, refund history
+  "orders.fulfil",      // status changes, shipping labels
+  "orders.refund",      // refunds & credit notes
+  "returns.manage",     // return / exchange requests (review, label, receive)
+  "sales.log",          // offline (in-store) sales
+  "customers.view",     // customer lists & search
+  "customers.manage",   // deleting customer accounts
+  "promotions.manage",  // discount codes & automatic promotions
+  "payments.reconcile", // orphan payments / Paystack reconciliation
+  "staff.manage",       // staff accounts & roles
+  "settings.manage",    // store settings (hero slides, size chart)
+  "audit.view",         // staff action audit log
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+export type StaffRole = UserRole;
+
+const MATRIX: Record<StaffRole, readonly Capability[]> = {
+  SuperAdmin: CAPABILITIES,
+  ProductAdmin: [
+    "products.manage",
+    "media.upload",
+    "reviews.moderate",
+    "promotions.manage",
+    "settings.manage",
+    "orders.view",
+  ],
+  OrderAdmin: [
+    "orders.view",
+    "orders.fulfil",
+    "orders.refund",
+    "returns.manage",
+    "sales.log",
+    "customers.view",
+    "customers.manage",
+    "promotions.manage",
+    "payments.reconcile",
+  ],
+  DispatchUser: ["orders.view", "orders.fulfil", "returns.manage"],
+  SupportUser: ["orders.view", "returns.manage", "customers.view", "reviews.moderate"],
+};
+
+export function isStaffRole(role: unknown): role is StaffRole {
+  return typeof role === "string" && Object.prototype.hasOwnProperty.call(MATRIX, role);
+}
+
+/** Does `role` hold `capability` (or any of them, when given a list)? */
+export function can(
+  role: string | null | undefined,
+  capability: Capability | readonly Capability[]
+): boolean {
+  if (!isStaffRole(role)) return false;
+  const wanted = typeof capability === "string" ? [capability] : capability;
+  return wanted.some((c) => MATRIX[role].includes(c));
+}
+
+/** Everything `role` may do (empty for customers / unknown roles). */
+export function capabilitiesFor(role: string | null | undefined): Capability[] {
+  return isStaffRole(role) ? [...MATRIX[role]] : [];
+}
@@ -0,0 +1,369 @@
+// lib/pickup.ts
+// Store pickup: checkout locations, collection codes and the counter hand-over check.
+
+import crypto from "crypto";
+import { prisma } from "@/lib/db";
+import {
+  DeliveryPricingMode,
+  OrderStatus,
+  type PickupLocation,
+} from "@/lib/generated/prisma-client/client";
+import { recordAudit } from "@/lib/audit";
+import { sendPickupReadyEmail } from "@/lib/mail";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class PickupError extends HttpError {
+  name = "PickupError";
+}
+
+export const MAX_CODE_ATTEMPTS = 5;
+
+/** What checkout shows for a location. */
+export interface PublicPickupLocation {
+  id: string;
+  name: string;
+  address: string;
+  city: string | null;
+  state: string | null;
+  country: string;
+  phone: string | null;
+  openingHours: string;
+  prepTimeHours: number;
+  instructions: string | null;
+}
+
+export interface PickupOffer {
+  deliveryOption: {
+    id: string;
+    name: string;
+    baseFee: number | null;
+    baseCurrency: string | null;
+  } | null;
+  locations: PublicPickupLocation[];
+}
+
+const DEFAULT_OPTION_NAME = "Store pickup";
+
+/* -------------------------------------------------------------------------- */
+/*                                    Helpers                                 */
+/* -------------------------------------------------------------------------- */
+
+function getSecret(): string {
+  const secret = process.env.PICKUP_CODE_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("Missing PICKUP_CODE_SECRET in environment");
+  return secret;
+}
+
+function hashCode(orderId: string, code: string): string {
+  return crypto.createHmac("sha256", getSecret()).update(`pickup:${orderId}:${code}`).digest("hex");
+}
+
+function generateCode(): string {
+  return String(crypto.randomInt(0, 1_000_000)).padStart(6, "0");
+}
+
+function recipientOf(order: {
+  customer: { email: string; firstName: string; lastName: string } | null;
+  guestInfo: unknown;
+}): { to: string; name: string } | null {
+  if (order.customer) {
+    return {
+      to: order.customer.email,
+      name: `${order.customer.firstName} ${order.customer.lastName}`.trim(),
+    };
+  }
+  if (order.guestInfo && typeof order.guestInfo === "object") {
+    const gi = order.guestInfo as { firstName?: string; lastName?: string; email?: string };
+    if (!gi.email) return null;
+    return { to: gi.email, name: `${gi.firstName ?? ""} ${gi.lastName ?? ""}`.trim() };
+  }
+  return null;
+}
+
+function toPublic(l: PickupLocation): PublicPickupLocation {
+  return {
+    id: l.id,
+    name: l.name,
+    address: l.address,
+    city: l.city,
+    state: l.state,
+    country: l.country,
+    phone: l.phone,
+    openingHours: l.openingHours,
+    prepTimeHours: l.prepTimeHours,
+    instructions: l.instructions,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Public API                               */
+/* -------------------------------------------------------------------------- */
+
+/** One-line address for tables, emails and deliveryDetails snapshots. */
+export function formatPickupAddress(l: {
+  address: string;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+}): string {
+  return [l.address, l.city, l.state, l.country]
+    .map((p) => (p || "").trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * True for orders collected in person: an OrderPickup row, a PICKUP delivery
+ * option, or a walk-in offline sale logged as "PICKUP: ...".
+ */
+export function isPickupOrder(order: {
+  pickup?: unknown;
+  deliveryOption?: { pricingMode: DeliveryPricingMode } | null;
+  deliveryDetails?: unknown;
+}): boolean {
+  if (order.pickup) return true;
+  if (order.deliveryOption?.pricingMode === DeliveryPricingMode.PICKUP) return true;
+  return (
+    typeof order.deliveryDetails === "string" &&
+    order.deliveryDetails.trim().toUpperCase().startsWith("PICKUP")
+  );
+}
+
+/**
+ * Validate a location body from the settings page. With `partial`, missing
+ * fields are left out (PATCH); otherwise name, address and openingHours are
+ * required.
+ */
+export function parsePickupLocationInput(body: any, partial = false) {
+  const data: {
+    name?: string;
+    address?: string;
+    city?: string | null;
+    state?: string | null;
+    country?: string;
+    phone?: string | null;
+    openingHours?: string;
+    prepTimeHours?: number;
+    instructions?: string | null;
+    active?: boolean;
+  } = {};
+
+  for (const key of ["name", "address", "openingHours"] as const) {
+    if (body?.[key] === undefined && partial) continue;
+    const v = typeof body?.[key] === "string" ? body[key].trim() : "";
+    if (!v) throw new PickupError(`${key} is required`);
+    data[key] = v;
+  }
+  for (const key of ["city", "state", "phone", "instructions"] as const) {
+    if (body?.[key] === undefined) continue;
+    data[key] = typeof body[key] === "string" && body[key].trim() ? body[key].trim() : null;
+  }
+  if (body?.country !== undefined) {
+    const v = typeof body.country === "string" ? body.country.trim() : "";
+    if (!v) throw new PickupError("country cannot be empty");
+    data.country = v;
+  }
+  if (body?.prepTimeHours !== undefined) {
+    const n = Number(body.prepTimeHours);
+    if (!Number.isInteger(n) || n < 0 || n > 24 * 30) {
+      throw new PickupError("prepTimeHours must be a whole number of hours (0–720)");
+    }
+    data.prepTimeHours = n;
+  }
+  if (body?.active !== undefined) data.active = !!body.active;
+
+  return data;
+}
+
+/**
+ * Table summary for a pickup order: the store and where the hand-over is at,
+ * or "In-person Pickup • Note: …" for walk-in offline sales.
+ */
+export function describePickup(
+  deliveryDetails: unknown,
+  pickup: { readyAt: Date | null; collectedAt: Date | null; location: { name: string } } | null
+): string {
+  if (pickup) {
+    const stage = pickup.collectedAt
+      ? `Collected ${pickup.collectedAt.toLocaleDateString()}`
+      : pickup.readyAt
+      ? "Ready, awaiting collection"
+      : "Preparing";
+    return `Pickup at ${pickup.location.name} • ${stage}`;
+  }
+  const s = typeof deliveryDetails === "string" ? deliveryDetails.trim() : "";
+  const note = s.includes(":") ? s.slice(s.indexOf(":") + 1).trim() : "";
+  return note ? `In-person Pickup • Note: ${note}` : "In-person Pickup";
+}
+
+/** The store pickup option and its open locations, for checkout. */
+export async function getPickupOffer(): Promise<PickupOffer> {
+  const option = await prisma.deliveryOption.findFirst({
+    where: { active: true, pricingMode: DeliveryPricingMode.PICKUP },
+    orderBy: { createdAt: "asc" },
+  });
+  if (!option) return { deliveryOption: null, locations: [] };
+
+  const locations = await prisma.pickupLocation.findMany({
+    where: { active: true },
+    orderBy: { name: "asc" },
+  });
+
+  return {
+    deliveryOption: {
+      id: option.id,
+      name: option.name,
+      baseFee: option.baseFee,
+      baseCurrency: option.baseCurrency,
+    },
+    locations: locations.map(toPublic),
+  };
+}
+
+/** The PICKUP delivery option, created (free, active) the first time it is needed. */
+export async function ensurePickupOption() {
+  const existing = await prisma.deliveryOption.findFirst({
+    where: { pricingMode: DeliveryPricingMode.PICKUP },
+    orderBy: { createdAt: "asc" },
+  });
+  if (existing) return existing;
+
+  return prisma.deliveryOption.create({
+    data: {
+      name: DEFAULT_OPTION_NAME,
+      pricingMode: DeliveryPricingMode.PICKUP,
+      baseFee: 0,
+      baseCurrency: "NGN",
+      active: true,
+    },
+  });
+}
+
+/**
+ * Issue a collection code, move the order to ReadyForPickup and email the
+ * code. Calling it again replaces the code (and unlocks a locked one).
+ */
+export async function markReadyForPickup(orderId: string, staffId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      status: true,
+      guestInfo: true,
+      customer: { select: { email: true, firstName: true, lastName: true } },
+      pickup: { include: { location: true } },
+    },
+  });
+  if (!order) throw new PickupError("Order not found", 404);
+  if (!order.pickup) throw new PickupError("This order is not a store pickup order");
+  if (order.pickup.collectedAt) throw new PickupError("This order has already been collected", 409);
+  if (order.status === OrderStatus.Cancelled) {
+    throw new PickupError("Cancelled orders cannot be marked ready", 409);
+  }
+
+  const recipient = recipientOf(order);
+  if (!recipient) throw new PickupError("Order has no customer email to send the code to", 422);
+
+  const code = generateCode();
+  const readyAt = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    await tx.orderPickup.update({
+      where: { orderId },
+      data: { codeHash: hashCode(orderId, code), failedAttempts: 0, readyAt },
+    });
+    if (order.status !== OrderStatus.ReadyForPickup) {
+      await tx.order.update({
+        where: { id: orderId },
+        data: { status: OrderStatus.ReadyForPickup },
+      });
+      await recordAudit(tx, {
+        staffId,
+        action: "StatusChange",
+        entityType: "Order",
+        entityId: orderId,
+        before: { status: order.status },
+        after: { status: OrderStatus.ReadyForPickup },
+      });
+    }
+  });
+
+  const { location } = order.pickup;
+  let emailed = true;
+  try {
+    await sendPickupReadyEmail({
+      to: recipient.to,
+      name: recipient.name || "there",
+      orderId,
+      code,
+      location: {
+        name: location.name,
+        address: formatPickupAddress(location),
+        openingHours: location.openingHours,
+        phone: location.phone,
+        instructions: location.instructions,
+      },
+    });
+  } catch (err) {
+    emailed = false;
+    console.warn(`[pickup] ready email failed for order ${orderId}:`, err);
+  }
+
+  return { readyAt, emailed, email: recipient.to };
+}
+
+/** Check the customer's code and hand the order over. */
+export async function collectPickup(orderId: string, code: string, staffId: string) {
+  const pickup = await prisma.orderPickup.findUnique({
+    where: { orderId },
+    include: { order: { select: { status: true } } },
+  });
+  if (!pickup) throw new PickupError("This order is not a store pickup order", 404);
+  if (pickup.collectedAt) throw new PickupError("This order has already been collected", 409);
+  if (!pickup.codeHash || pickup.order.status !== OrderStatus.ReadyForPickup) {
+    throw new PickupError("Mark the order ready for pickup first", 409);
+  }
+  if (pickup.failedAttempts >= MAX_CODE_ATTEMPTS) {
+    throw new PickupError("Too many wrong codes. Issue a new code to the customer.", 423);
+  }
+
+  const given = Buffer.from(hashCode(orderId, code.replace(/\s+/g, "")), "hex");
+  const expected = Buffer.from(pickup.codeHash, "hex");
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    await prisma.orderPickup.update({
+      where: { orderId },
+      data: { failedAttempts: { increment: 1 } },
+    });
+    const left = MAX_CODE_ATTEMPTS - pickup.failedAttempts - 1;
+    throw new PickupError(
+      left > 0 ? `Wrong collection code (${left} tries left)` : "Wrong collection code. The code is now locked.",
+      422
+    );
+  }
+
+  const collectedAt = new Date();
+  await prisma.$transaction(async (tx) => {
+    await tx.orderPickup.update({
+      where: { orderId },
+      data: { collectedAt, collectedById: staffId, codeHash: null },
+    });
+    await tx.order.update({
+      where: { id: orderId },
+      data: { status: OrderStatus.Delivered },
+    });
+    await recordAudit(tx, {
+      staffId,
+      action: "StatusChange",
+      entityType: "Order",
+      entityId: orderId,
+      before: { status: pickup.order.status },
+      after: { status: OrderStatus.Delivered, pickupCollectedAt: collectedAt },
+    });
+  });
+
+  return { collectedAt };
+}
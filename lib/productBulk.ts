@@ -0,0 +1,317 @@
+// lib/productBulk.ts
+// Bulk status, category, price and stock changes from the admin products table.
+
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { recordAudit, productSnapshot } from "@/lib/audit";
+import { adjustStock, setStock } from "@/lib/inventory";
+import { flushStockNotifications } from "@/lib/stockNotifications";
+import { DERIVED_CURRENCIES, getStorePricingRule } from "@/lib/fxPricing";
+import type { Prisma } from "@/lib/generated/prisma-client/client";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class ProductBulkError extends HttpError {
+  name = "ProductBulkError";
+}
+
+export const MAX_BULK_PRODUCTS = 500;
+
+const CURRENCIES = ["NGN", "USD", "EUR", "GBP"] as const;
+type Currency = (typeof CURRENCIES)[number];
+
+const PRICE_FIELDS = (cur: Currency) => [`price${cur}`, `compareAt${cur}`] as const;
+
+export const BulkProductAction = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("status"),
+    status: z.enum(["Draft", "Published", "Archived"]),
+  }),
+  z.object({
+    type: z.literal("category"),
+    categorySlug: z.string().trim().min(1, "Choose a category"),
+  }),
+  z.object({
+    type: z.literal("price"),
+    mode: z.enum(["percent", "fixed"]), // percent: +10 = 10% up; fixed: amount added
+    changes: z
+      .partialRecord(z.enum(CURRENCIES), z.number().finite())
+      .refine((c) => Object.values(c).some((v) => v != null && v !== 0), "Enter at least one change"),
+  }),
+  z.object({
+    type: z.literal("stock"),
+    mode: z.enum(["set", "adjust"]), // set: every variant to quantity; adjust: add quantity
+    quantity: z.number().int(),
+  }),
+]);
+
+export type BulkProductActionData = z.infer<typeof BulkProductAction>;
+
+export const BulkProductRequest = z.object({
+  ids: z
+    .array(z.string().min(1))
+    .min(1, "Select at least one product")
+    .max(MAX_BULK_PRODUCTS, `At most ${MAX_BULK_PRODUCTS} products at a time`),
+  action: BulkProductAction,
+});
+
+export interface BulkProductResult {
+  updated: number;
+  unchanged: number;
+  skipped: { id: string; name: string | null; reason: string }[];
+  /** Fresh table values for every product that was not skipped. */
+  products: {
+    id: string;
+    status: "Draft" | "Published" | "Archived";
+    category: string;
+    price: Record<Currency, number>;
+    stockTotal: number;
+  }[];
+}
+
+type Db = Prisma.TransactionClient;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+const BULK_SELECT = {
+  id: true,
+  name: true,
+  status: true,
+  categorySlug: true,
+  priceNGN: true,
+  priceUSD: true,
+  priceEUR: true,
+  priceGBP: true,
+  compareAtNGN: true,
+  compareAtUSD: true,
+  compareAtEUR: true,
+  compareAtGBP: true,
+  pricingRule: { select: { enabled: true } },
+  variants: {
+    select: {
+      id: true,
+      stock: true,
+      weight: true,
+      priceNGN: true,
+      priceUSD: true,
+      priceEUR: true,
+      priceGBP: true,
+      compareAtNGN: true,
+      compareAtUSD: true,
+      compareAtEUR: true,
+      compareAtGBP: true,
+    },
+  },
+} satisfies Prisma.ProductSelect;
+
+type PricedRow = Record<`${"price" | "compareAt"}${Currency}`, number | null>;
+
+type BulkProduct = Prisma.ProductGetPayload<{ select: typeof BULK_SELECT }>;
+
+/**
+ * Apply the action to one product. Returns a skip reason, or null when the
+ * product was (or already is) in the requested state.
+ */
+async function applyToProduct(
+  db: Db,
+  p: BulkProduct,
+  action: BulkProductActionData,
+  staffId: string,
+  restocked: string[],
+  storeRuleEnabled: boolean
+): Promise<string | null> {
+  switch (action.type) {
+    case "status": {
+      if (action.status === "Published") {
+        if (p.variants.length === 0) return "Has no variants";
+        if (p.variants.some((v) => v.weight == null)) return "Weight is required to publish";
+        restocked.push(...p.variants.filter((v) => v.stock > 0).map((v) => v.id));
+      }
+      await db.product.update({ where: { id: p.id }, data: { status: action.status } });
+      return null;
+    }
+
+    case "category": {
+      await db.product.update({ where: { id: p.id }, data: { categorySlug: action.categorySlug } });
+      return null;
+    }
+
+    case "price": {
+      // Derived currencies on a rule-priced product are rewritten by the next reprice
+      const ruled = p.pricingRule ? p.pricingRule.enabled : storeRuleEnabled;
+      const derived = DERIVED_CURRENCIES.filter((cur) => action.changes[cur]);
+      if (ruled && derived.length > 0) {
+        return `${derived.join(" / ")} prices follow the FX pricing rule — change NGN instead`;
+      }
+
+      // Base, compare-at and per-variant override prices all move together
+      const bump = (row: PricedRow) => {
+        const data: Partial<PricedRow> = {};
+        for (const cur of CURRENCIES) {
+          const by = action.changes[cur];
+          if (!by) continue;
+          for (const field of PRICE_FIELDS(cur)) {
+            const current = row[field];
+            if (current == null) continue;
+            const next = round2(action.mode === "percent" ? current * (1 + by / 100) : current + by);
+            if (next <= 0) return `${cur} price would drop to ${next}`;
+            data[field] = next;
+          }
+        }
+        return data;
+      };
+
+      const productData = bump(p);
+      if (typeof productData === "string") return productData;
+      const variantData = p.variants.map((v) => ({ id: v.id, data: bump(v) }));
+      for (const v of variantData) {
+        if (typeof v.data === "string") return v.data;
+      }
+
+      await db.product.update({ where: { id: p.id }, data: productData });
+      for (const v of variantData) {
+        if (typeof v.data === "object" && Object.keys(v.data).length > 0) {
+          await db.variant.update({ where: { id: v.id }, data: v.data });
+        }
+      }
+      return null;
+    }
+
+    case "stock": {
+      if (p.variants.length === 0) return "Has no variants";
+      if (action.mode === "set" && action.quantity < 0) return "Stock cannot be negative";
+      if (action.mode === "adjust" && p.variants.some((v) => v.stock + action.quantity < 0)) {
+        return "Adjustment would take stock below zero";
+      }
+      for (const v of p.variants) {
+        const stock =
+          action.mode === "set"
+            ? await setStock(db, { variantId: v.id, stock: action.quantity, staffId, note: "Bulk edit" })
+            : await adjustStock(db, {
+                variantId: v.id,
+                delta: action.quantity,
+                reason: "Adjustment",
+                staffId,
+                note: "Bulk edit",
+              });
+        if (v.stock <= 0 && stock > 0) restocked.push(v.id);
+      }
+      return null;
+    }
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Run one bulk action over the given products and summarise the outcome. */
+export async function runBulkProductAction(
+  ids: string[],
+  action: BulkProductActionData,
+  staffId: string
+): Promise<BulkProductResult> {
+  const uniqueIds = [...new Set(ids)];
+
+  if (action.type === "category") {
+    const category = await prisma.category.findUnique({
+      where: { slug: action.categorySlug },
+      select: { isActive: true },
+    });
+    if (!category) throw new ProductBulkError("Category not found", 404);
+    if (!category.isActive) throw new ProductBulkError("Category is not active");
+  }
+
+  const storeRuleEnabled =
+    action.type === "price" ? (await getStorePricingRule()).enabled : false;
+
+  const restocked: string[] = [];
+  const result = await prisma.$transaction(
+    async (tx) => {
+      const found = await tx.product.findMany({ where: { id: { in: uniqueIds } }, select: BULK_SELECT });
+      const byId = new Map(found.map((p) => [p.id, p]));
+
+      const skipped: BulkProductResult["skipped"] = [];
+      let updated = 0;
+      let unchanged = 0;
+
+      for (const id of uniqueIds) {
+        const p = byId.get(id);
+        if (!p) {
+          skipped.push({ id, name: null, reason: "Product not found" });
+          continue;
+        }
+
+        const before = await productSnapshot(tx, id);
+        const reason = await applyToProduct(tx, p, action, staffId, restocked, storeRuleEnabled);
+        if (reason) {
+          skipped.push({ id, name: p.name, reason });
+          continue;
+        }
+
+        const logged = await recordAudit(tx, {
+          staffId,
+          action: action.type === "status" ? "StatusChange" : "Update",
+          entityType: "Product",
+          entityId: id,
+          before,
+          after: await productSnapshot(tx, id),
+        });
+        if (logged) updated++;
+        else unchanged++;
+      }
+
+      const skippedIds = new Set(skipped.map((s) => s.id));
+      const fresh = await tx.product.findMany({
+        where: { id: { in: uniqueIds.filter((id) => !skippedIds.has(id)) } },
+        select: {
+          id: true,
+          status: true,
+          category: { select: { name: true } },
+          priceNGN: true,
+          priceUSD: true,
+          priceEUR: true,
+          priceGBP: true,
+          variants: { select: { stock: true } },
+        },
+      });
+
+      return {
+        updated,
+        unchanged,
+        skipped,
+        products: fresh.map((p) => ({
+          id: p.id,
+          status: p.status,
+          category: p.category.name,
+          price: {
+            NGN: p.priceNGN ?? 0,
+            USD: p.priceUSD ?? 0,
+            EUR: p.priceEUR ?? 0,
+            GBP: p.priceGBP ?? 0,
+          },
+          stockTotal: p.variants.reduce((sum, v) => sum + v.stock, 0),
+        })),
+      };
+    },
+    { timeout: 60_000 }
+  );
+
+  // Restocked or newly published variants → back-in-stock emails (best-effort)
+  if (restocked.length > 0) {
+    try {
+      await flushStockNotifications(restocked);
+    } catch (err) {
+      console.warn("[productBulk] back-in-stock emails failed:", err);
+    }
+  }
+
+  return result;
+}
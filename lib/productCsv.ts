@@ -0,0 +1,643 @@
+// lib/productCsv.ts
+// Catalogue CSV export and bulk import for the product management page.
+
+import Papa from "papaparse";
+import { prisma } from "@/lib/db";
+import { ProductPayload, compareAtData, type ProductPayloadData } from "@/lib/productPayload";
+import { PRICE_CURRENCIES } from "@/lib/variantPricing";
+import {
+  PRODUCT_SNAPSHOT_SELECT,
+  productSnapshot,
+  recordAudit,
+  toProductSnapshot,
+  variantLabel,
+  variantSnapshot,
+} from "@/lib/audit";
+import { recordInitialStock, setStock } from "@/lib/inventory";
+import { flushStockNotifications } from "@/lib/stockNotifications";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class ProductImportError extends HttpError {
+  name = "ProductImportError";
+}
+
+export const PRODUCT_CSV_COLUMNS = [
+  "id",
+  "name",
+  "category",
+  "status",
+  "description",
+  "priceNGN",
+  "priceUSD",
+  "priceEUR",
+  "priceGBP",
+  "compareAtNGN",
+  "compareAtUSD",
+  "compareAtEUR",
+  "compareAtGBP",
+  "sizeMods",
+  "weight",
+  "images",
+  "videoUrl",
+  "color",
+  "size",
+  "stock",
+  "sku",
+  "barcode",
+  "variantPriceNGN",
+  "variantPriceUSD",
+  "variantPriceEUR",
+  "variantPriceGBP",
+  "variantCompareAtNGN",
+  "variantCompareAtUSD",
+  "variantCompareAtEUR",
+  "variantCompareAtGBP",
+] as const;
+
+type ProductCsvColumn = (typeof PRODUCT_CSV_COLUMNS)[number];
+type CsvRow = Partial<Record<ProductCsvColumn, string>>;
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportRowError {
+  row: number; // 1-based spreadsheet row (header = 1)
+  message: string;
+}
+
+export interface ImportChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PlannedProduct {
+  id: string | null; // null = will be created
+  name: string;
+  action: "create" | "update" | "unchanged";
+  rows: number[];
+  variantCount: number;
+  changes: ImportChange[];
+  errors: ImportRowError[];
+}
+
+export interface ImportPlan {
+  products: PlannedProduct[];
+  errors: ImportRowError[]; // every row error, including per-product ones
+  summary: { create: number; update: number; unchanged: number; errors: number };
+}
+
+interface PlannedVariant {
+  color: string;
+  size: string;
+  stock: number;
+  weight: number | null;
+  sku: string | null;
+  barcode: string | null;
+  priceNGN: number | null;
+  priceUSD: number | null;
+  priceEUR: number | null;
+  priceGBP: number | null;
+  compareAtNGN: number | null;
+  compareAtUSD: number | null;
+  compareAtEUR: number | null;
+  compareAtGBP: number | null;
+}
+
+/** Plan entry plus what the commit step needs. */
+interface PlanEntry extends PlannedProduct {
+  payload: ProductPayloadData | null;
+  variants: PlannedVariant[];
+}
+
+/** Columns that describe the product rather than one variant (weight is per variant). */
+const PRODUCT_FIELDS = [
+  "name",
+  "category",
+  "status",
+  "description",
+  "priceNGN",
+  "priceUSD",
+  "priceEUR",
+  "priceGBP",
+  "compareAtNGN",
+  "compareAtUSD",
+  "compareAtEUR",
+  "compareAtGBP",
+  "sizeMods",
+  "images",
+  "videoUrl",
+] as const satisfies readonly ProductCsvColumn[];
+
+const REQUIRED_COLUMNS: ProductCsvColumn[] = [
+  "id",
+  "name",
+  "category",
+  "status",
+  "priceNGN",
+  "priceUSD",
+  "priceEUR",
+  "priceGBP",
+  "weight",
+  "color",
+  "size",
+  "stock",
+];
+
+const IMAGE_SEPARATOR = "|";
+
+const VARIANT_PRICE_COLUMNS = {
+  priceNGN: "variantPriceNGN",
+  priceUSD: "variantPriceUSD",
+  priceEUR: "variantPriceEUR",
+  priceGBP: "variantPriceGBP",
+  compareAtNGN: "variantCompareAtNGN",
+  compareAtUSD: "variantCompareAtUSD",
+  compareAtEUR: "variantCompareAtEUR",
+  compareAtGBP: "variantCompareAtGBP",
+} as const satisfies Record<string, ProductCsvColumn>;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Blank → NaN so the schema reports it as missing. */
+const num = (v?: string) => (v == null || v.trim() === "" ? NaN : Number(v.replace(/\s/g, "")));
+
+const bool = (v?: string) => ["true", "yes", "y", "1"].includes((v ?? "").trim().toLowerCase());
+
+const normalizeStatus = (v?: string) => {
+  const s = (v ?? "").trim().toLowerCase();
+  return s ? s[0].toUpperCase() + s.slice(1) : "";
+};
+
+function formatProductIdFromSerial(serial: bigint | number): string {
+  const n = typeof serial === "bigint" ? Number(serial) : serial;
+  return `M-PROD-${String(n).padStart(3, "0")}`;
+}
+
+function parseRows(text: string): { rows: { line: number; row: CsvRow }[]; errors: ImportRowError[] } {
+  const result = Papa.parse<CsvRow>(text.replace(/^\uFEFF/, ""), {
+    header: true,
+    skipEmptyLines: "greedy",
+    delimitersToGuess: [",", ";", "\t"],
+    transformHeader: (h) => h.trim(),
+    transform: (v) => v.trim(),
+  });
+
+  const fields = result.meta.fields ?? [];
+  const missing = REQUIRED_COLUMNS.filter((c) => !fields.includes(c));
+  if (missing.length > 0) {
+    throw new ProductImportError(`Missing column(s): ${missing.join(", ")}`);
+  }
+  if (result.data.length > MAX_IMPORT_ROWS) {
+    throw new ProductImportError(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+  }
+
+  return {
+    rows: result.data.map((row, i) => ({ line: i + 2, row })),
+    errors: result.errors.map((e) => ({ row: (e.row ?? 0) + 2, message: e.message })),
+  };
+}
+
+/** Field-level diff between two product snapshots (variants per label). */
+function diffSnapshots(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ImportChange[] {
+  const changes: ImportChange[] = [];
+  for (const key of Object.keys(after)) {
+    if (key === "variants") continue;
+    if (JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)) {
+      changes.push({ field: key, before: before[key] ?? null, after: after[key] ?? null });
+    }
+  }
+  const bv = (before.variants ?? {}) as Record<string, unknown>;
+  const av = (after.variants ?? {}) as Record<string, unknown>;
+  for (const label of Object.keys(av)) {
+    if (JSON.stringify(bv[label] ?? null) !== JSON.stringify(av[label])) {
+      changes.push({ field: `variant ${label}`, before: bv[label] ?? null, after: av[label] });
+    }
+  }
+  return changes;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Planning                                 */
+/* -------------------------------------------------------------------------- */
+
+async function buildPlan(text: string): Promise<{ plan: ImportPlan; entries: PlanEntry[] }> {
+  const { rows, errors: parseErrors } = parseRows(text);
+  const looseErrors: ImportRowError[] = [...parseErrors];
+
+  // 1) Group rows into products
+  const groups = new Map<string, { line: number; row: CsvRow }[]>();
+  for (const r of rows) {
+    const id = r.row.id ?? "";
+    const name = r.row.name ?? "";
+    if (!id && !name) {
+      looseErrors.push({ row: r.line, message: "Row needs an id or a name" });
+      continue;
+    }
+    const key = id || `new:${name.toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+
+  // 2) Look up categories and existing products in bulk
+  const ids = [...groups.keys()].filter((k) => !k.startsWith("new:"));
+  const slugs = [...new Set(rows.map((r) => r.row.category ?? "").filter(Boolean))];
+  const [categories, existing] = await Promise.all([
+    prisma.category.findMany({
+      where: { slug: { in: slugs } },
+      select: { slug: true, isActive: true },
+    }),
+    prisma.product.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, ...PRODUCT_SNAPSHOT_SELECT },
+    }),
+  ]);
+  const categoryBySlug = new Map(categories.map((c) => [c.slug, c]));
+  const existingById = new Map(existing.map(({ id, ...p }) => [id, toProductSnapshot(p)]));
+
+  // SKUs / barcodes must be unique across the file and the catalogue
+  const skus = [...new Set(rows.map((r) => r.row.sku ?? "").filter(Boolean))];
+  const barcodes = [...new Set(rows.map((r) => r.row.barcode ?? "").filter(Boolean))];
+  const codeOwners = await prisma.variant.findMany({
+    where: { OR: [{ sku: { in: skus } }, { barcode: { in: barcodes } }] },
+    select: { productId: true, color: true, size: true, sku: true, barcode: true },
+  });
+  const ownerOf = (field: "sku" | "barcode", code: string) =>
+    codeOwners.find((v) => v[field] === code);
+  const codeLines = new Map<string, number>();
+
+  // 3) Validate and diff each product
+  const entries: PlanEntry[] = [];
+  for (const [key, group] of groups) {
+    const id = key.startsWith("new:") ? null : key;
+    const first = group[0];
+    const errors: ImportRowError[] = [];
+
+    // Product columns: first non-blank value wins; a different value later is an error
+    const fields = {} as Record<(typeof PRODUCT_FIELDS)[number], string>;
+    for (const f of PRODUCT_FIELDS) {
+      const withValue = group.filter((r) => (r.row[f] ?? "") !== "");
+      fields[f] = withValue[0]?.row[f] ?? "";
+      for (const r of withValue.slice(1)) {
+        if (r.row[f] !== fields[f]) {
+          errors.push({ row: r.line, message: `${f} differs from line ${withValue[0].line}` });
+        }
+      }
+    }
+
+    // Weight is per variant; the product default is the first one given
+    const defaultWeight = group.find((r) => (r.row.weight ?? "") !== "")?.row.weight;
+
+    // Variants
+    const variants: PlannedVariant[] = [];
+    const seen = new Map<string, number>();
+    for (const r of group) {
+      const color = r.row.color ?? "";
+      const size = r.row.size ?? "";
+      const stockRaw = r.row.stock ?? "";
+      if (!color && !size && !stockRaw) continue; // product without variants
+
+      const stock = num(stockRaw);
+      if (!Number.isInteger(stock) || stock < 0) {
+        errors.push({ row: r.line, message: "stock must be a whole number ≥ 0" });
+        continue;
+      }
+      const label = variantLabel({ color, size });
+      if (seen.has(label)) {
+        errors.push({ row: r.line, message: `${label} already listed on line ${seen.get(label)}` });
+        continue;
+      }
+      seen.set(label, r.line);
+      const weight = num(r.row.weight);
+
+      const prices = {} as Pick<PlannedVariant, keyof typeof VARIANT_PRICE_COLUMNS>;
+      for (const [field, column] of Object.entries(VARIANT_PRICE_COLUMNS)) {
+        const raw = r.row[column] ?? "";
+        const value = num(raw);
+        if (raw && !(value > 0)) {
+          errors.push({ row: r.line, message: `${column} must be a number > 0 (or blank)` });
+        }
+        prices[field as keyof typeof VARIANT_PRICE_COLUMNS] = value > 0 ? value : null;
+      }
+
+      const codes = { sku: r.row.sku || null, barcode: r.row.barcode || null };
+      for (const field of ["sku", "barcode"] as const) {
+        const code = codes[field];
+        if (!code) continue;
+        const dupLine = codeLines.get(`${field}:${code}`);
+        const owner = ownerOf(field, code);
+        if (dupLine) {
+          errors.push({ row: r.line, message: `${field} ${code} already used on line ${dupLine}` });
+        } else if (owner && (owner.productId !== id || owner.color !== color || owner.size !== size)) {
+          errors.push({
+            row: r.line,
+            message: `${field} ${code} already belongs to ${owner.productId} (${variantLabel(owner)})`,
+          });
+        }
+        codeLines.set(`${field}:${code}`, r.line);
+      }
+
+      variants.push({
+        color,
+        size,
+        stock,
+        weight: Number.isFinite(weight) ? weight : null,
+        ...codes,
+        ...prices,
+      });
+    }
+
+    // Same payload ProductForm sends
+    const colors = [...new Set(variants.map((v) => v.color).filter(Boolean))];
+    const candidate = {
+      name: fields.name,
+      category: fields.category,
+      description: fields.description || null,
+      price: {
+        NGN: num(fields.priceNGN),
+        USD: num(fields.priceUSD),
+        EUR: num(fields.priceEUR),
+        GBP: num(fields.priceGBP),
+      },
+      // Only the currencies given; blank means no sale price
+      compareAt: Object.fromEntries(
+        PRICE_CURRENCIES.filter((c) => fields[`compareAt${c}`] !== "").map((c) => [
+          c,
+          num(fields[`compareAt${c}`]),
+        ])
+      ),
+      status: normalizeStatus(fields.status),
+      sizeMods: bool(fields.sizeMods),
+      colors,
+      sizeStocks: colors.length
+        ? {}
+        : Object.fromEntries(variants.map((v) => [v.size, String(v.stock)])),
+      customSizes: [],
+      images: fields.images
+        .split(IMAGE_SEPARATOR)
+        .map((s) => s.trim())
+        .filter(Boolean),
+      videoUrl: fields.videoUrl || null,
+      weight: num(defaultWeight),
+      colorSizeStocks: colors.length
+        ? variants.reduce<Record<string, Record<string, string>>>((acc, v) => {
+            (acc[v.color] ??= {})[v.size] = String(v.stock);
+            return acc;
+          }, {})
+        : undefined,
+    };
+
+    const parsed = ProductPayload.safeParse(candidate);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const path = issue.path.join(".").replace(/^(price|compareAt)\./, "$1");
+        errors.push({ row: first.line, message: path ? `${path}: ${issue.message}` : issue.message });
+      }
+    }
+
+    const category = categoryBySlug.get(fields.category);
+    if (fields.category && !category) {
+      errors.push({ row: first.line, message: `Category '${fields.category}' not found` });
+    } else if (category && !category.isActive) {
+      errors.push({ row: first.line, message: `Category '${fields.category}' is not active` });
+    }
+
+    const before = id ? existingById.get(id) : null;
+    if (id && !before) {
+      errors.push({
+        row: first.line,
+        message: `Unknown product id ${id} — leave id blank to create a new product`,
+      });
+    }
+
+    let changes: ImportChange[] = [];
+    if (before && parsed.success) {
+      const p = parsed.data;
+      const after = {
+        name: p.name,
+        categorySlug: p.category,
+        description: p.description ?? null,
+        images: p.images,
+        priceNGN: p.price.NGN,
+        priceUSD: p.price.USD,
+        priceEUR: p.price.EUR,
+        priceGBP: p.price.GBP,
+        ...compareAtData(p.compareAt),
+        sizeMods: p.sizeMods,
+        status: p.status,
+        videoUrl: p.videoUrl ?? null,
+        variants: Object.fromEntries(
+          variants.map(({ color, size, ...v }) => [
+            variantLabel({ color, size }),
+            variantSnapshot({ ...v, weight: v.weight ?? p.weight }),
+          ])
+        ),
+      };
+      changes = diffSnapshots(before, after);
+    }
+
+    entries.push({
+      id,
+      name: fields.name || id || "",
+      action: !id ? "create" : changes.length > 0 ? "update" : "unchanged",
+      rows: group.map((r) => r.line),
+      variantCount: variants.length,
+      changes,
+      errors,
+      payload: errors.length === 0 && parsed.success ? parsed.data : null,
+      variants,
+    });
+  }
+
+  const allErrors = [...looseErrors, ...entries.flatMap((e) => e.errors)].sort(
+    (a, b) => a.row - b.row
+  );
+  const valid = entries.filter((e) => e.errors.length === 0);
+
+  return {
+    entries,
+    plan: {
+      products: entries.map(({ payload, variants, ...p }) => p),
+      errors: allErrors,
+      summary: {
+        create: valid.filter((e) => e.action === "create").length,
+        update: valid.filter((e) => e.action === "update").length,
+        unchanged: valid.filter((e) => e.action === "unchanged").length,
+        errors: allErrors.length,
+      },
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Dry run: what importing `text` would do, without writing anything. */
+export async function planProductImport(text: string): Promise<ImportPlan> {
+  return (await buildPlan(text)).plan;
+}
+
+/** Re-plan `text` and write it. Refuses (422) while any row has an error. */
+export async function applyProductImport(text: string, staffId: string) {
+  const { plan, entries } = await buildPlan(text);
+  if (plan.errors.length > 0) {
+    throw new ProductImportError(
+      `The file has ${plan.errors.length} error(s) — fix them and try again`,
+      422
+    );
+  }
+
+  const created: string[] = [];
+  const updated: string[] = [];
+  const restocked: string[] = [];
+
+  for (const entry of entries) {
+    const p = entry.payload;
+    if (!p || entry.action === "unchanged") continue;
+
+    const productData = {
+      name: p.name,
+      description: p.description ?? null,
+      images: p.images,
+      priceNGN: p.price.NGN,
+      priceUSD: p.price.USD,
+      priceEUR: p.price.EUR,
+      priceGBP: p.price.GBP,
+      ...compareAtData(p.compareAt),
+      sizeMods: p.sizeMods,
+      status: p.status,
+      videoUrl: p.videoUrl ?? null,
+    };
+
+    if (entry.action === "create") {
+      const id = await prisma.$transaction(async (tx) => {
+        const serial = await tx.productSerial.create({ data: {} });
+        const product = await tx.product.create({
+          data: {
+            id: formatProductIdFromSerial(serial.id),
+            ...productData,
+            category: { connect: { slug: p.category } },
+            variants: {
+              create: entry.variants.map((v) => ({ ...v, weight: v.weight ?? p.weight })),
+            },
+          },
+          select: { id: true, variants: { select: { id: true, stock: true } } },
+        });
+        for (const v of product.variants) {
+          await recordInitialStock(tx, v, staffId);
+        }
+        await recordAudit(tx, {
+          staffId,
+          action: "Create",
+          entityType: "Product",
+          entityId: product.id,
+          after: await productSnapshot(tx, product.id),
+        });
+        return product.id;
+      });
+      created.push(id);
+      continue;
+    }
+
+    const productId = entry.id!;
+    await prisma.$transaction(async (tx) => {
+      const before = await productSnapshot(tx, productId);
+      await tx.product.update({
+        where: { id: productId },
+        data: { ...productData, categorySlug: p.category },
+      });
+
+      for (const { stock, ...v } of entry.variants) {
+        const details = { ...v, weight: v.weight ?? p.weight };
+        const current = await tx.variant.findUnique({
+          where: { product_color_size: { productId, color: v.color, size: v.size } },
+          select: { id: true, stock: true },
+        });
+        if (current) {
+          await tx.variant.update({ where: { id: current.id }, data: details });
+          await setStock(tx, { variantId: current.id, stock, staffId, note: "CSV import" });
+          if (current.stock <= 0 && stock > 0) restocked.push(current.id);
+        } else {
+          const variant = await tx.variant.create({ data: { productId, stock, ...details } });
+          await recordInitialStock(tx, variant, staffId);
+        }
+      }
+
+      await recordAudit(tx, {
+        staffId,
+        action: "Update",
+        entityType: "Product",
+        entityId: productId,
+        before,
+        after: await productSnapshot(tx, productId),
+      });
+    });
+    updated.push(productId);
+  }
+
+  // Restocked variants → back-in-stock emails (best-effort)
+  try {
+    await flushStockNotifications(restocked);
+  } catch (err) {
+    console.warn("[productCsv] back-in-stock emails failed:", err);
+  }
+
+  return { created, updated, unchanged: plan.summary.unchanged };
+}
+
+/** The whole catalogue, one row per variant, oldest product first. */
+export async function productsToCsv(): Promise<string> {
+  const products = await prisma.product.findMany({
+    orderBy: { createdAt: "asc" },
+    select: { id: true, ...PRODUCT_SNAPSHOT_SELECT },
+  });
+
+  const data = products.flatMap((p) => {
+    const base = [
+      p.id,
+      p.name,
+      p.categorySlug,
+      p.status,
+      p.description ?? "",
+      p.priceNGN ?? "",
+      p.priceUSD ?? "",
+      p.priceEUR ?? "",
+      p.priceGBP ?? "",
+      p.compareAtNGN ?? "",
+      p.compareAtUSD ?? "",
+      p.compareAtEUR ?? "",
+      p.compareAtGBP ?? "",
+      p.sizeMods ? "true" : "false",
+    ];
+    const media = [p.images.join(IMAGE_SEPARATOR), p.videoUrl ?? ""];
+    if (p.variants.length === 0) return [[...base, "", ...media, ...Array<string>(13).fill("")]];
+    return p.variants.map((v) => [
+      ...base,
+      v.weight ?? "",
+      ...media,
+      v.color,
+      v.size,
+      v.stock,
+      v.sku ?? "",
+      v.barcode ?? "",
+      v.priceNGN ?? "",
+      v.priceUSD ?? "",
+      v.priceEUR ?? "",
+      v.priceGBP ?? "",
+      v.compareAtNGN ?? "",
+      v.compareAtUSD ?? "",
+      v.compareAtEUR ?? "",
+      v.compareAtGBP ?? "",
+    ]);
+  });
+
+  return "\uFEFF" + Papa.unparse({ fields: [...PRODUCT_CSV_COLUMNS], data });
+}
@@ -0,0 +1,118 @@
+// lib/productPayload.ts
+// Product create payload schema, shared by ProductForm, the CSV import and PUT /api/products/[id].
+
+import { z } from "zod";
+import { PRICE_CURRENCIES } from "@/lib/variantPricing";
+import { PricingRuleInput } from "@/lib/fxPricing";
+
+/** Compare-at ("was") prices per currency; a missing currency has no sale price. */
+export const CompareAtPrices = z.partialRecord(
+  z.enum(PRICE_CURRENCIES),
+  z.number().positive("Compare-at price must be > 0")
+);
+
+/** Compare-at columns (`{ NGN }` → `compareAtNGN`); missing → null. */
+export function compareAtData(c: z.infer<typeof CompareAtPrices> | null | undefined) {
+  return {
+    compareAtNGN: c?.NGN ?? null,
+    compareAtUSD: c?.USD ?? null,
+    compareAtEUR: c?.EUR ?? null,
+    compareAtGBP: c?.GBP ?? null,
+  };
+}
+
+/** SKU, barcode, price and compare-at overrides for one colour/size (ProductForm "Variant details"). */
+export const VariantDetail = z.object({
+  color: z.string(),
+  size: z.string(),
+  sku: z.string().trim().max(64, "SKU is too long").nullish(),
+  barcode: z.string().trim().max(64, "Barcode is too long").nullish(),
+  prices: z.partialRecord(z.enum(PRICE_CURRENCIES), z.number().positive("Variant price must be > 0")).optional(),
+  compareAt: CompareAtPrices.optional(),
+});
+
+export const VariantDetails = z.array(VariantDetail).superRefine((details, ctx) => {
+  for (const field of ["sku", "barcode"] as const) {
+    const seen = new Set<string>();
+    for (const d of details) {
+      const code = d[field];
+      if (!code) continue;
+      if (seen.has(code)) ctx.addIssue({ code: "custom", message: `Duplicate ${field} ${code}` });
+      seen.add(code);
+    }
+  }
+});
+
+export type VariantDetailData = z.infer<typeof VariantDetail>;
+
+/** Variant columns for one detail entry: blank SKU/barcode → null, missing price / compare-at → product's. */
+export function variantDetailData(d: VariantDetailData | undefined) {
+  return {
+    sku: d?.sku || null,
+    barcode: d?.barcode || null,
+    priceNGN: d?.prices?.NGN ?? null,
+    priceUSD: d?.prices?.USD ?? null,
+    priceEUR: d?.prices?.EUR ?? null,
+    priceGBP: d?.prices?.GBP ?? null,
+    ...compareAtData(d?.compareAt),
+  };
+}
+
+const ScheduleDate = z.iso.datetime({ offset: true, message: "Invalid date" }).nullish();
+
+const scheduleInOrder = (s: { publishAt?: string | null; unpublishAt?: string | null }) =>
+  !s.publishAt || !s.unpublishAt || new Date(s.unpublishAt) > new Date(s.publishAt);
+
+const SCHEDULE_ORDER_ISSUE = {
+  message: "Unpublish time must be after the publish time",
+  path: ["unpublishAt"],
+};
+
+/** Drop schedule (ProductForm "Schedule"): ISO timestamps, null clears. */
+export const ProductScheduleInput = z
+  .object({ publishAt: ScheduleDate, unpublishAt: ScheduleDate })
+  .refine(scheduleInOrder, SCHEDULE_ORDER_ISSUE);
+
+/** Product columns for a schedule; missing or null → not scheduled. */
+export function productScheduleData(s: { publishAt?: string | null; unpublishAt?: string | null }) {
+  return {
+    publishAt: s.publishAt ? new Date(s.publishAt) : null,
+    unpublishAt: s.unpublishAt ? new Date(s.unpublishAt) : null,
+  };
+}
+
+export const ProductPayload = z.object({
+  id: z.string().optional(), // accepted but ignored
+  name: z.string().min(1, "Product name is required"),
+  category: z.string().min(1, "Category (slug) is required"),
+  description: z.string().optional().nullable(),
+  price: z.object({
+    NGN: z.number(),
+    USD: z.number(),
+    EUR: z.number(),
+    GBP: z.number(),
+  }),
+  status: z.enum(["Draft", "Published", "Archived"]),
+  sizeMods: z.boolean(),
+  colors: z.array(z.string()),
+  sizeStocks: z.record(z.string(), z.string()), // { "S": "10", "M": "5" } – used when NO colors or as fallback
+  customSizes: z.array(z.string()), // accepted for future use
+  images: z.array(z.string()),
+  videoUrl: z.string().url().optional().nullable(),
+  weight: z.number().min(0.0001, "Weight must be > 0"),
+  // Optional: per-color, per-size stock matrix
+  colorSizeStocks: z
+    .record(z.string(), z.record(z.string(), z.string()))
+    .optional(),
+  // Optional: compare-at ("was") prices; the item shows as on sale when above its price
+  compareAt: CompareAtPrices.optional(),
+  // Optional: SKU / barcode / price overrides per colour+size
+  variantDetails: VariantDetails.optional(),
+  // Optional: drop schedule (only applies while Published)
+  publishAt: ScheduleDate,
+  unpublishAt: ScheduleDate,
+  // Optional: FX pricing rule; null / missing = follow the store-wide rule
+  pricingRule: PricingRuleInput.nullish(),
+}).refine(scheduleInOrder, SCHEDULE_ORDER_ISSUE);
+
+export type ProductPayloadData = z.infer<typeof ProductPayload>;
@@ -0,0 +1,35 @@
+// lib/productSchedule.ts
+// Scheduled publishing for collection drops.
+
+import type { Prisma } from "@/lib/generated/prisma-client/client";
+
+export type ProductAvailability = "live" | "coming_soon" | "ended" | "unpublished";
+
+export interface ProductSchedule {
+  status: "Draft" | "Published" | "Archived";
+  publishAt: Date | string | null;
+  unpublishAt: Date | string | null;
+}
+
+const time = (d: Date | string | null) => (d == null ? null : new Date(d).getTime());
+
+/** Prisma filter for products the storefront may list or sell right now. */
+export function liveProductWhere(now = new Date()): Prisma.ProductWhereInput {
+  return {
+    status: "Published",
+    AND: [
+      { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+      { OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] },
+    ],
+  };
+}
+
+/** Where a product stands against its schedule at `now`. */
+export function productAvailability(p: ProductSchedule, now = new Date()): ProductAvailability {
+  if (p.status !== "Published") return "unpublished";
+  const publishAt = time(p.publishAt);
+  const unpublishAt = time(p.unpublishAt);
+  if (unpublishAt != null && unpublishAt <= now.getTime()) return "ended";
+  if (publishAt != null && publishAt > now.getTime()) return "coming_soon";
+  return "live";
+}
@@ -1,4 +1,10 @@
 import { prisma } from "./db";
+import {
+  compareAtPrices,
+  variantPriceOverrides,
+  type PriceOverrides,
+} from "./variantPricing";
+import { liveProductWhere, type ProductSchedule } from "./productSchedule";
 
 export interface Product {
   id: string;
@@ -7,11 +13,14 @@ export interface Product {
   images: string[];
   category: string;
   prices: Record<"NGN" | "USD" | "EUR" | "GBP", number>;
+  compareAt?: PriceOverrides; // "was" prices; on sale where above `prices`
   variants: Array<{
     color: string;
     size: string;
     inStock: number;
     weight?: number; // kg per variant
+    prices?: PriceOverrides; // per-variant overrides of `prices`
+    compareAt?: PriceOverrides; // per-variant overrides of `compareAt`
   }>;
   sizeMods: boolean;
   videoUrl: string | null;
@@ -25,8 +34,13 @@ export interface Review {
   createdAt: Date;
 }
 
-/** 1️⃣ Fetch one product by ID */
-export async function getProductById(id: string): Promise<Product | null> {
+/**
+ * 1️⃣ Fetch one product by ID, whatever its status; `schedule` lets the
+ * product page tell live, coming-soon and ended drops apart.
+ */
+export async function getProductById(
+  id: string
+): Promise<(Product & { schedule: ProductSchedule }) | null> {
   const p = await prisma.product.findUnique({
     where: { id },
     include: { variants: true },
@@ -44,14 +58,22 @@ export async function getProductById(id: string): Promise<Product | null> {
       EUR: p.priceEUR ?? 0,
       GBP: p.priceGBP ?? 0,
     },
+    compareAt: compareAtPrices(p),
     variants: p.variants.map((v) => ({
       color: v.color,
       size: v.size,
       inStock: v.stock,
       weight: v.weight ?? 0,
+      prices: variantPriceOverrides(v),
+      compareAt: compareAtPrices(v),
     })),
     sizeMods: p.sizeMods,
     videoUrl: p.videoUrl,
+    schedule: {
+      status: p.status,
+      publishAt: p.publishAt,
+      unpublishAt: p.unpublishAt,
+    },
   };
 }
 
@@ -62,7 +84,7 @@ export async function getProductsByCategory(
   const rows = await prisma.product.findMany({
     where: {
       categorySlug,
-      status: "Published",
+      ...liveProductWhere(),
     },
     take: limit,
     include: { variants: { take: 1 } },
@@ -80,11 +102,14 @@ export async function getProductsByCategory(
       EUR: p.priceEUR ?? 0,
       GBP: p.priceGBP ?? 0,
     },
+    compareAt: compareAtPrices(p),
     variants: p.variants.map((v) => ({
       color: v.color,
       size: v.size,
       inStock: v.stock,
       weight: (v as any).weight ?? 0,
+      prices: variantPriceOverrides(v),
+      compareAt: compareAtPrices(v),
     })),
     sizeMods: p.sizeMods,
     videoUrl: p.videoUrl,
@@ -112,9 +137,7 @@ export async function getReviewsByProduct(
 // Fetch all published products with at least one image (for carousel ads)
 export async function getAdProducts(limit = 10): Promise<Product[]> {
   const rows = await prisma.product.findMany({
-    where: {
-      status: "Published",
-    },
+    where: liveProductWhere(),
     orderBy: { createdAt: "desc" },
     take: limit,
     include: { variants: true },
@@ -133,11 +156,14 @@ export async function getAdProducts(limit = 10): Promise<Product[]> {
         EUR: p.priceEUR ?? 0,
         GBP: p.priceGBP ?? 0,
       },
+      compareAt: compareAtPrices(p),
       variants: p.variants.map((v: any) => ({
         color: v.color,
         size: v.size,
         inStock: v.stock,
         weight: v.weight ?? 0,
+        prices: variantPriceOverrides(v),
+        compareAt: compareAtPrices(v),
       })),
       sizeMods: p.sizeMods,
       videoUrl: p.videoUrl,
@@ -146,7 +172,7 @@ export async function getAdProducts(limit = 10): Promise<Product[]> {
 
 export async function getAllProducts(): Promise<Product[]> {
   const rows = await prisma.product.findMany({
-    where: { status: "Published" },
+    where: liveProductWhere(),
     include: { variants: true },
     orderBy: { createdAt: "desc" },
   });
@@ -162,11 +188,47 @@ export async function getAllProducts(): Promise<Product[]> {
       EUR: p.priceEUR ?? 0,
       GBP: p.priceGBP ?? 0,
     },
+    compareAt: compareAtPrices(p),
     variants: p.variants.map((v: any) => ({
       color: v.color,
       size: v.size,
       inStock: v.stock,
       weight: v.weight ?? 0,
+      prices: variantPriceOverrides(v),
+      compareAt: compareAtPrices(v),
+    })),
+    sizeMods: p.sizeMods,
+    videoUrl: p.videoUrl,
+  }));
+}
+
+/** Live products by id (cart revalidation); ids that are missing or not live are left out. */
+export async function getLiveProductsByIds(ids: string[]): Promise<Product[]> {
+  if (ids.length === 0) return [];
+  const rows = await prisma.product.findMany({
+    where: { id: { in: ids }, ...liveProductWhere() },
+    include: { variants: true },
+  });
+  return rows.map((p) => ({
+    id: p.id,
+    name: p.name,
+    description: p.description ?? "",
+    images: p.images,
+    category: p.categorySlug,
+    prices: {
+      NGN: p.priceNGN ?? 0,
+      USD: p.priceUSD ?? 0,
+      EUR: p.priceEUR ?? 0,
+      GBP: p.priceGBP ?? 0,
+    },
+    compareAt: compareAtPrices(p),
+    variants: p.variants.map((v) => ({
+      color: v.color,
+      size: v.size,
+      inStock: v.stock,
+      weight: v.weight ?? 0,
+      prices: variantPriceOverrides(v),
+      compareAt: compareAtPrices(v),
     })),
     sizeMods: p.sizeMods,
     videoUrl: p.videoUrl,
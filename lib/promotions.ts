@@ -0,0 +1,409 @@
+// lib/promotions.ts
+// Discount codes, priced the same way by online checkout, offline sales and code validation.
+
+import { z } from "zod";
+import type {
+  Currency,
+  Prisma,
+  Promotion,
+  PrismaClient,
+} from "@/lib/generated/prisma-client/client";
+import { HttpError } from "@/lib/httpError";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class PromotionError extends HttpError {
+  name = "PromotionError";
+}
+
+/** One priced cart line, as computed by the caller. */
+export interface PromotionLine {
+  productId: string;
+  categorySlug: string;
+  quantity: number;
+  /** Line total in the order currency (including size-mod fees). */
+  lineTotal: number;
+}
+
+export interface PromotionResult {
+  promotionId: string;
+  code: string;
+  type: Promotion["type"];
+  description: string | null;
+  itemsDiscount: number;
+  shippingDiscount: number;
+  /** itemsDiscount + shippingDiscount */
+  discountAmount: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+export function normalizePromoCode(code: unknown): string {
+  return String(code ?? "")
+    .trim()
+    .toUpperCase();
+}
+
+const round2 = (n: number) => +n.toFixed(2);
+
+function amountForCurrency(
+  promo: Promotion,
+  prefix: "amountOff" | "minSpend",
+  currency: Currency
+): number | null {
+  const v = promo[`${prefix}${currency}` as keyof Promotion];
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function isLineEligible(promo: Promotion, line: PromotionLine): boolean {
+  if (promo.productIds.length === 0 && promo.categorySlugs.length === 0) {
+    return true;
+  }
+  return (
+    promo.productIds.includes(line.productId) ||
+    promo.categorySlugs.includes(line.categorySlug)
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Discount calculation                          */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Pure pricing of a promotion against a cart.
+ * Does NOT check dates, caps or per-customer limits — see resolvePromotion.
+ */
+export function computePromotionDiscount(
+  promo: Promotion,
+  {
+    currency,
+    lines,
+    deliveryFee = 0,
+  }: { currency: Currency; lines: PromotionLine[]; deliveryFee?: number }
+): Omit<PromotionResult, "promotionId" | "code" | "type" | "description"> {
+  const subtotal = lines.reduce((s, l) => s + (l.lineTotal || 0), 0);
+
+  const minSpend = amountForCurrency(promo, "minSpend", currency);
+  if (minSpend !== null && subtotal < minSpend) {
+    throw new PromotionError(
+      `This code requires a minimum spend of ${minSpend.toLocaleString()} ${currency}`
+    );
+  }
+
+  const eligible = lines.filter((l) => isLineEligible(promo, l));
+  const eligibleSubtotal = eligible.reduce((s, l) => s + (l.lineTotal || 0), 0);
+
+  let itemsDiscount = 0;
+  let shippingDiscount = 0;
+
+  switch (promo.type) {
+    case "PERCENTAGE": {
+      const pct = Math.min(Math.max(promo.percentOff ?? 0, 0), 100);
+      itemsDiscount = (eligibleSubtotal * pct) / 100;
+      break;
+    }
+    case "FIXED_AMOUNT": {
+      const off = amountForCurrency(promo, "amountOff", currency);
+      if (off === null) {
+        throw new PromotionError(`This code is not available in ${currency}`);
+      }
+      itemsDiscount = Math.min(off, eligibleSubtotal);
+      break;
+    }
+    case "FREE_SHIPPING": {
+      if (eligible.length === 0) break;
+      shippingDiscount = Math.max(deliveryFee || 0, 0);
+      break;
+    }
+    case "BUY_X_GET_Y": {
+      const buy = promo.buyQuantity ?? 0;
+      const get = promo.getQuantity ?? 0;
+      if (buy <= 0 || get <= 0) break;
+
+      // Expand to unit prices, most expensive first.
+      const units: number[] = [];
+      for (const l of eligible) {
+        const unit = l.quantity > 0 ? l.lineTotal / l.quantity : 0;
+        for (let i = 0; i < l.quantity; i++) units.push(unit);
+      }
+      units.sort((a, b) => b - a);
+
+      const group = buy + get;
+      for (let start = 0; start + group <= units.length; start += group) {
+        for (let i = start + buy; i < start + group; i++) {
+          itemsDiscount += units[i];
+        }
+      }
+      break;
+    }
+  }
+
+  itemsDiscount = round2(Math.min(itemsDiscount, subtotal));
+  shippingDiscount = round2(shippingDiscount);
+
+  if (itemsDiscount <= 0 && shippingDiscount <= 0) {
+    throw new PromotionError(
+      promo.type === "FREE_SHIPPING"
+        ? "This code only applies once a delivery fee is selected"
+        : "This code does not apply to the items in your cart"
+    );
+  }
+
+  return {
+    itemsDiscount,
+    shippingDiscount,
+    discountAmount: round2(itemsDiscount + shippingDiscount),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                          Validation against the DB                         */
+/* -------------------------------------------------------------------------- */
+
+async function countCustomerRedemptions(
+  db: Db,
+  promotionId: string,
+  customerId: string | null | undefined,
+  email: string | null | undefined
+): Promise<number> {
+  const or: Prisma.PromotionRedemptionWhereInput[] = [];
+  if (customerId) or.push({ customerId });
+  if (email) or.push({ email: email.trim().toLowerCase() });
+  if (or.length === 0) return 0;
+  return db.promotionRedemption.count({ where: { promotionId, OR: or } });
+}
+
+/**
+ * Look up a code and price it against the cart.
+ * Throws PromotionError with a customer-facing message when it can't be used.
+ */
+export async function resolvePromotion(
+  db: Db,
+  {
+    code,
+    currency,
+    lines,
+    deliveryFee = 0,
+    customerId,
+    email,
+    now = new Date(),
+  }: {
+    code: string;
+    currency: Currency;
+    lines: PromotionLine[];
+    deliveryFee?: number;
+    customerId?: string | null;
+    email?: string | null;
+    now?: Date;
+  }
+): Promise<PromotionResult> {
+  const normalized = normalizePromoCode(code);
+  if (!normalized) throw new PromotionError("Enter a discount code");
+
+  const promo = await db.promotion.findUnique({ where: { code: normalized } });
+  if (!promo || !promo.active) {
+    throw new PromotionError("This discount code is not valid");
+  }
+  if (promo.startsAt && promo.startsAt > now) {
+    throw new PromotionError("This discount code is not active yet");
+  }
+  if (promo.endsAt && promo.endsAt < now) {
+    throw new PromotionError("This discount code has expired");
+  }
+  if (promo.usageLimit !== null && promo.usageCount >= promo.usageLimit) {
+    throw new PromotionError("This discount code has reached its usage limit");
+  }
+  if (promo.perCustomerLimit !== null) {
+    const used = await countCustomerRedemptions(db, promo.id, customerId, email);
+    if (used >= promo.perCustomerLimit) {
+      throw new PromotionError("You have already used this discount code");
+    }
+  }
+
+  const priced = computePromotionDiscount(promo, {
+    currency,
+    lines,
+    deliveryFee,
+  });
+
+  return {
+    promotionId: promo.id,
+    code: promo.code,
+    type: promo.type,
+    description: promo.description,
+    ...priced,
+  };
+}
+
+/**
+ * Record a redemption inside the order transaction.
+ * Enforces the global and per-customer caps atomically so two concurrent
+ * checkouts can't both take the last use.
+ */
+export async function redeemPromotion(
+  tx: Prisma.TransactionClient,
+  {
+    promotion,
+    orderId,
+    customerId,
+    email,
+    currency,
+  }: {
+    promotion: PromotionResult;
+    orderId: string;
+    customerId?: string | null;
+    email: string;
+    currency: Currency;
+  }
+): Promise<void> {
+  const promo = await tx.promotion.findUnique({
+    where: { id: promotion.promotionId },
+    select: { usageLimit: true, perCustomerLimit: true },
+  });
+  if (!promo) throw new PromotionError("This discount code is not valid");
+
+  const { count } = await tx.promotion.updateMany({
+    where: {
+      id: promotion.promotionId,
+      ...(promo.usageLimit !== null
+        ? { usageCount: { lt: promo.usageLimit } }
+        : {}),
+    },
+    data: { usageCount: { increment: 1 } },
+  });
+  if (count === 0) {
+    throw new PromotionError("This discount code has reached its usage limit");
+  }
+
+  if (promo.perCustomerLimit !== null) {
+    const used = await countCustomerRedemptions(
+      tx,
+      promotion.promotionId,
+      customerId,
+      email
+    );
+    if (used >= promo.perCustomerLimit) {
+      throw new PromotionError("You have already used this discount code");
+    }
+  }
+
+  await tx.promotionRedemption.create({
+    data: {
+      promotionId: promotion.promotionId,
+      orderId,
+      customerId: customerId ?? null,
+      email: email.trim().toLowerCase(),
+      discountAmount: promotion.discountAmount,
+      currency,
+    },
+  });
+}
+
+/**
+ * Order.totalNGN for a discounted order: the NGN items total less the items
+ * discount, pro rata. totalAmount stays the pre-discount items subtotal that
+ * receipts print above the discount line.
+ */
+export function netItemsNGN(itemsNGN: number, itemsSubtotal: number, itemsDiscount = 0): number {
+  if (itemsSubtotal <= 0 || itemsDiscount <= 0) return Math.round(itemsNGN);
+  return Math.round(itemsNGN * Math.max(0, 1 - itemsDiscount / itemsSubtotal));
+}
+
+/** Snapshot persisted on Order.discountDetails. */
+export function promotionSnapshot(p: PromotionResult) {
+  return {
+    code: p.code,
+    type: p.type,
+    description: p.description,
+    itemsDiscount: p.itemsDiscount,
+    shippingDiscount: p.shippingDiscount,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Admin payload (zod)                           */
+/* -------------------------------------------------------------------------- */
+
+const money = z.number().min(0).nullable().optional();
+
+export const PromotionPayload = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3, "Code must be at least 3 characters")
+      .max(32)
+      .regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, - or _ only"),
+    description: z.string().nullable().optional(),
+    type: z.enum(["PERCENTAGE", "FIXED_AMOUNT", "FREE_SHIPPING", "BUY_X_GET_Y"]),
+    percentOff: z.number().gt(0).max(100).nullable().optional(),
+    amountOff: z
+      .object({ NGN: money, USD: money, EUR: money, GBP: money })
+      .partial()
+      .optional(),
+    buyQuantity: z.number().int().min(1).nullable().optional(),
+    getQuantity: z.number().int().min(1).nullable().optional(),
+    productIds: z.array(z.string()).default([]),
+    categorySlugs: z.array(z.string()).default([]),
+    minSpend: z
+      .object({ NGN: money, USD: money, EUR: money, GBP: money })
+      .partial()
+      .optional(),
+    usageLimit: z.number().int().min(1).nullable().optional(),
+    perCustomerLimit: z.number().int().min(1).nullable().optional(),
+    startsAt: z.coerce.date().nullable().optional(),
+    endsAt: z.coerce.date().nullable().optional(),
+    active: z.boolean().default(true),
+  })
+  .superRefine((v, ctx) => {
+    if (v.type === "PERCENTAGE" && !v.percentOff) {
+      ctx.addIssue({ code: "custom", path: ["percentOff"], message: "Percentage is required" });
+    }
+    if (
+      v.type === "FIXED_AMOUNT" &&
+      !Object.values(v.amountOff ?? {}).some((n) => typeof n === "number" && n > 0)
+    ) {
+      ctx.addIssue({ code: "custom", path: ["amountOff"], message: "Set an amount for at least one currency" });
+    }
+    if (v.type === "BUY_X_GET_Y" && (!v.buyQuantity || !v.getQuantity)) {
+      ctx.addIssue({ code: "custom", path: ["buyQuantity"], message: "Buy and get quantities are required" });
+    }
+    if (v.startsAt && v.endsAt && v.endsAt <= v.startsAt) {
+      ctx.addIssue({ code: "custom", path: ["endsAt"], message: "End date must be after start date" });
+    }
+  });
+
+export type PromotionPayloadInput = z.infer<typeof PromotionPayload>;
+
+/** Map the admin payload to Prisma columns (unused type-specific fields are cleared). */
+export function toPromotionData(v: PromotionPayloadInput) {
+  return {
+    code: normalizePromoCode(v.code),
+    description: v.description?.trim() || null,
+    type: v.type,
+    percentOff: v.type === "PERCENTAGE" ? v.percentOff ?? null : null,
+    amountOffNGN: v.type === "FIXED_AMOUNT" ? v.amountOff?.NGN ?? null : null,
+    amountOffUSD: v.type === "FIXED_AMOUNT" ? v.amountOff?.USD ?? null : null,
+    amountOffEUR: v.type === "FIXED_AMOUNT" ? v.amountOff?.EUR ?? null : null,
+    amountOffGBP: v.type === "FIXED_AMOUNT" ? v.amountOff?.GBP ?? null : null,
+    buyQuantity: v.type === "BUY_X_GET_Y" ? v.buyQuantity ?? null : null,
+    getQuantity: v.type === "BUY_X_GET_Y" ? v.getQuantity ?? null : null,
+    productIds: v.productIds,
+    categorySlugs: v.categorySlugs,
+    minSpendNGN: v.minSpend?.NGN ?? null,
+    minSpendUSD: v.minSpend?.USD ?? null,
+    minSpendEUR: v.minSpend?.EUR ?? null,
+    minSpendGBP: v.minSpend?.GBP ?? null,
+    usageLimit: v.usageLimit ?? null,
+    perCustomerLimit: v.perCustomerLimit ?? null,
+    startsAt: v.startsAt ?? null,
+    endsAt: v.endsAt ?? null,
+    active: v.active,
+  };
+}
@@ -7,9 +7,14 @@
 // Updates:
 //  • Cleaner header with compact logo and NO extra “Marobi” text beside it.
 //  • Always show courier name. You can override via args.shipping.courierName.
-//    Otherwise we fall back to order.shipment, deliveryDetails, then deliveryOption.
+//    Otherwise we fall back to the order's latest shipment, deliveryDetails, then deliveryOption.
 //  • Tighter table + spacing so it looks polished in Gmail/Yahoo/Outlook.
 //  • Uses inline width attribute on <img> for better email-client consistency.
+//  • Prints the discount code line (order.discountCode / order.discountAmount) when present.
+//  • Prints the variant SKU under each item when the order line has one.
+//  • Prints "Sale: X each (was Y)" when the line was sold below its compare-at price.
+//  • Packing slips can be printed per parcel: pass that parcel's items on
+//    order.items and args.parcel to print "Parcel n of m" and its tracking number.
 
 const BRAND_NAME = "Marobi";
 const BRAND_COLOR = "#043927";
@@ -44,6 +49,12 @@ interface RenderReceiptArgs {
   };
   /** Optional gateway / Paystack transaction fee (in the same currency). */
   transactionFee?: number;
+  /** Packing slip only: the parcel being packed when the order ships in several. */
+  parcel?: {
+    number: number;
+    of: number;
+    trackingNumber?: string | null;
+  };
 }
 
 /** Format money with symbol and thousands separators. */
@@ -88,8 +99,12 @@ function parseDeliveryDetails(raw: any): any {
 
 /** Best-effort courier name extraction. */
 function getCourierNameFromOrder(order: AnyOrder): string | null {
-  // 1) Shipment row (new schema)
-  const s = order?.shipment || {};
+  // 1) Shipment row (new schema): the latest live parcel
+  const shipments = Array.isArray(order?.shipments) ? order.shipments : [];
+  const s =
+    order?.shipment ||
+    [...shipments].reverse().find((x: any) => x?.status !== "CANCELLED") ||
+    {};
   const shipCandidates = [
     s.courierName,
     s.courier_name, // defensive alias
@@ -141,7 +156,12 @@ export function renderReceiptHTML({
       0
   );
 
-  const total = +(subtotal + shipFee + txFee).toFixed(2);
+  const discount = Number(order.discountAmount ?? 0);
+  const discountLabel = order.discountCode
+    ? `Discount (${escapeHtml(order.discountCode)})`
+    : "Discount";
+
+  const total = +(subtotal + shipFee - discount + txFee).toFixed(2);
 
   // Priority: explicit shipping override -> order-derived
   const courierName =
@@ -153,6 +173,7 @@ export function renderReceiptHTML({
   const symbolSubtotal = moneyLabel(currency, subtotal);
   const symbolShipping = moneyLabel(currency, shipFee);
   const symbolTx = moneyLabel(currency, txFee);
+  const symbolDiscount = `−${moneyLabel(currency, discount)}`;
 
   const orderDate = safeDate(order.createdAt);
   const orderId = order.id || "";
@@ -259,17 +280,24 @@ export function renderReceiptHTML({
                 const parts: string[] = [];
                 if (it?.color) parts.push(`Color: ${it.color}`);
                 if (it?.size) parts.push(`Size: ${it.size}`);
+                if (it?.sku) parts.push(`SKU: ${escapeHtml(it.sku)}`);
                 const sub = parts.join(" • ");
                 const lineTotal = moneyLabel(currency, it?.lineTotal ?? 0);
                 const sizeModLine =
                   it?.hasSizeMod && it?.sizeModFee
                     ? `<div class="item-sub" style="color:#92400e;">+5% size-mod fee included</div>`
                     : "";
+                // Price as charged at the time, not the current catalogue
+                const saleLine =
+                  it?.unitPrice != null && it?.compareAtPrice > it.unitPrice
+                    ? `<div class="item-sub" style="color:#b91c1c;">Sale: ${moneyLabel(currency, it.unitPrice)} each (was ${moneyLabel(currency, it.compareAtPrice)})</div>`
+                    : "";
                 return `
                 <tr>
                   <td>
                     <div class="item-name">${it?.name || ""}</div>
                     ${sub ? `<div class="item-sub">${sub}</div>` : ""}
+                    ${saleLine}
                     ${sizeModLine}
                   </td>
                   <td>${it?.quantity ?? ""}</td>
@@ -284,6 +312,11 @@ export function renderReceiptHTML({
         <div class="totals">
           <div class="totals-row"><span>Subtotal</span><span>${symbolSubtotal}</span></div>
           <div class="totals-row"><span>Shipping</span><span>${symbolShipping}</span></div>
+          ${
+            discount > 0
+              ? `<div class="totals-row"><span>${discountLabel}</span><span>${symbolDiscount}</span></div>`
+              : ""
+          }
           <div class="totals-row"><span>Paystack Transaction Fee</span><span>${symbolTx}</span></div>
           <div class="totals-row" style="margin-top:6px;"><span><strong>Total</strong></span><span class="total-amount">${symbolTotal}</span></div>
         </div>
@@ -365,6 +398,7 @@ export function renderPackingSlipHTML({
   assetBaseUrl,
   shipping,
   transactionFee, // unused
+  parcel,
 }: RenderReceiptArgs): string {
   const fullName = `${recipient.firstName || ""} ${
     recipient.lastName || ""
@@ -378,6 +412,7 @@ export function renderPackingSlipHTML({
       const qty = item?.quantity ?? 1;
       const color = item?.color ? escapeHtml(item.color) : "";
       const size = item?.size ? escapeHtml(item.size) : "";
+      const sku = item?.sku ? escapeHtml(item.sku) : "";
       const hasSizeMod = !!item?.hasSizeMod;
       const customSize =
         item?.customSize && typeof item.customSize === "object"
@@ -387,7 +422,7 @@ export function renderPackingSlipHTML({
           : "";
 
       const variant =
-        [color && `Color: ${color}`, size && `Size: ${size}`]
+        [color && `Color: ${color}`, size && `Size: ${size}`, sku && `SKU: ${sku}`]
           .filter(Boolean)
           .join(" • ") || "";
 
@@ -618,6 +653,8 @@ export function renderPackingSlipHTML({
           <div><strong>Order:</strong> ${escapeHtml(orderId)}</div>
           ${createdAt ? `<div><strong>Date:</strong> ${escapeHtml(createdAt)}</div>` : ""}
           ${order.paymentMethod ? `<div><strong>Payment:</strong> ${escapeHtml(order.paymentMethod)}</div>` : ""}
+          ${parcel ? `<div><strong>Parcel:</strong> ${parcel.number} of ${parcel.of}</div>` : ""}
+          ${parcel?.trackingNumber ? `<div><strong>Tracking:</strong> ${escapeHtml(parcel.trackingNumber)}</div>` : ""}
         </div>
       </div>
 
@@ -0,0 +1,423 @@
+// lib/refunds.ts
+// Full and per-line order refunds, for the admin refund endpoint and the Paystack webhook.
+
+import { prisma } from "@/lib/db";
+import type { Currency } from "@/lib/generated/prisma-client/client";
+import { refundTransaction, toLowestDenomination, PaystackError } from "@/lib/paystack";
+import { sendCreditNoteEmail } from "@/lib/mail";
+import { adjustStock } from "@/lib/inventory";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class RefundError extends HttpError {
+  name = "RefundError";
+}
+
+export interface RefundLineInput {
+  orderItemId: string;
+  quantity: number;
+  restock?: boolean;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+const round2 = (n: number) => +n.toFixed(2);
+
+const orderInclude = {
+  items: true,
+  customer: { select: { firstName: true, lastName: true, email: true } },
+  refunds: {
+    where: { status: { not: "Failed" as const } },
+    include: { items: true },
+  },
+};
+
+function recipientFor(order: {
+  customer: { firstName: string; lastName: string; email: string } | null;
+  guestInfo: unknown;
+}): { to: string; name: string } | null {
+  if (order.customer) {
+    return {
+      to: order.customer.email,
+      name: `${order.customer.firstName} ${order.customer.lastName}`.trim(),
+    };
+  }
+  if (order.guestInfo && typeof order.guestInfo === "object") {
+    const gi = order.guestInfo as { firstName?: string; lastName?: string; email?: string };
+    if (gi.email) {
+      return { to: gi.email, name: `${gi.firstName ?? ""} ${gi.lastName ?? ""}`.trim() };
+    }
+  }
+  return null;
+}
+
+/** Share of the items subtotal that was actually paid after item discounts. */
+function itemsPaidRatio(order: {
+  items: { lineTotal: number }[];
+  discountDetails: unknown;
+}): number {
+  const subtotal = order.items.reduce((s, it) => s + it.lineTotal, 0);
+  const itemsDiscount = Number((order.discountDetails as any)?.itemsDiscount ?? 0);
+  if (subtotal <= 0 || !Number.isFinite(itemsDiscount) || itemsDiscount <= 0) return 1;
+  return Math.max(0, 1 - itemsDiscount / subtotal);
+}
+
+/**
+ * Convert an amount in the order currency to NGN at the rate the customer
+ * paid. Orders placed before that rate was stored fall back to the ratio of
+ * their NGN mirror to the items total actually paid.
+ */
+function toNGN(
+  order: {
+    currency: Currency;
+    totalAmount: number;
+    totalNGN: number;
+    fxRateToNGN: number | null;
+    items: { lineTotal: number }[];
+    discountDetails: unknown;
+  },
+  amount: number
+) {
+  if (order.currency === "NGN") return round2(amount);
+  if (order.fxRateToNGN && order.fxRateToNGN > 0) return round2(amount * order.fxRateToNGN);
+  const paidItems = order.totalAmount * itemsPaidRatio(order);
+  if (paidItems <= 0) return round2(amount);
+  return round2(amount * (order.totalNGN / paidItems));
+}
+
+function isPaystackOrder(order: {
+  channel: string;
+  paymentReference: string | null;
+}): boolean {
+  return order.channel === "ONLINE" && !!order.paymentReference;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Create a refund                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Refund a whole order (`full: true`) or selected lines. `returnRequestId`
+ * links the refund to a return as it is recorded, before any money moves.
+ * Throws RefundError for anything the admin can fix (bad quantities, nothing
+ * left to refund, Paystack rejecting the refund).
+ */
+export async function createOrderRefund({
+  orderId,
+  full,
+  lines,
+  reason,
+  staffId,
+  returnRequestId,
+}: {
+  orderId: string;
+  full: boolean;
+  lines: RefundLineInput[];
+  reason?: string | null;
+  staffId?: string | null;
+  returnRequestId?: string | null;
+}) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: orderInclude,
+  });
+  if (!order) throw new RefundError("Order not found", 404);
+
+  const pending = order.refunds.find((r) => r.status === "Pending");
+  if (pending) {
+    throw new RefundError("A refund for this order is still pending", 409);
+  }
+
+  // Quantities already refunded per line
+  const refundedQty = new Map<string, number>();
+  for (const r of order.refunds) {
+    for (const it of r.items) {
+      refundedQty.set(it.orderItemId, (refundedQty.get(it.orderItemId) ?? 0) + it.quantity);
+    }
+  }
+  const refundedSoFar = order.refunds.reduce((s, r) => s + r.amount, 0);
+  const paidTotal =
+    order.totalAmount + (order.deliveryFee ?? 0) - (order.discountAmount ?? 0);
+  const balance = round2(paidTotal - refundedSoFar);
+  if (balance <= 0) throw new RefundError("This order has already been fully refunded");
+
+  const restockByItem = new Map(lines.map((l) => [l.orderItemId, !!l.restock]));
+  const ratio = itemsPaidRatio(order);
+
+  let selected: { orderItemId: string; variantId: string; quantity: number; amount: number; restock: boolean }[];
+  if (full) {
+    selected = order.items
+      .map((it) => {
+        const qty = it.quantity - (refundedQty.get(it.id) ?? 0);
+        return {
+          orderItemId: it.id,
+          variantId: it.variantId,
+          quantity: qty,
+          amount: round2((it.lineTotal / it.quantity) * qty * ratio),
+          restock: restockByItem.get(it.id) ?? false,
+        };
+      })
+      .filter((l) => l.quantity > 0);
+  } else {
+    if (lines.length === 0) throw new RefundError("Select at least one item to refund");
+    selected = lines.map((l) => {
+      const it = order.items.find((i) => i.id === l.orderItemId);
+      if (!it) throw new RefundError(`Item ${l.orderItemId} is not part of this order`);
+      const remaining = it.quantity - (refundedQty.get(it.id) ?? 0);
+      if (!Number.isInteger(l.quantity) || l.quantity < 1 || l.quantity > remaining) {
+        throw new RefundError(`Invalid refund quantity for ${it.name} (max ${remaining})`);
+      }
+      return {
+        orderItemId: it.id,
+        variantId: it.variantId,
+        quantity: l.quantity,
+        amount: round2((it.lineTotal / it.quantity) * l.quantity * ratio),
+        restock: !!l.restock,
+      };
+    });
+  }
+
+  const amount = full
+    ? balance
+    : Math.min(round2(selected.reduce((s, l) => s + l.amount, 0)), balance);
+  if (amount <= 0) throw new RefundError("Nothing left to refund on the selected items");
+
+  const canRestock = order.status !== "Cancelled";
+  const viaPaystack = isPaystackOrder(order);
+  const amountNGN = toNGN(order, amount);
+
+  // 1) Record the refund first so a crash after the Paystack call is traceable
+  const refund = await prisma.orderRefund.create({
+    data: {
+      orderId: order.id,
+      amount,
+      currency: order.currency,
+      amountNGN,
+      reason: reason || null,
+      status: viaPaystack ? "Pending" : "Completed",
+      provider: viaPaystack ? "paystack" : "manual",
+      processedAt: viaPaystack ? null : new Date(),
+      staffId: staffId || null,
+      ...(returnRequestId && { returnRequest: { connect: { id: returnRequestId } } }),
+      items: {
+        create: selected.map((l) => ({
+          orderItemId: l.orderItemId,
+          quantity: l.quantity,
+          amount: l.amount,
+          restock: canRestock && l.restock,
+        })),
+      },
+    },
+  });
+
+  // 2) Ask Paystack to move the money
+  let providerRefundId: string | null = null;
+  if (viaPaystack) {
+    try {
+      const data = await refundTransaction({
+        transaction: order.paymentReference!,
+        amount: toLowestDenomination(amountNGN),
+        metadata: { orderId: order.id, refundId: refund.id, reason: reason || undefined },
+      });
+      providerRefundId = data?.id != null ? String(data.id) : null;
+    } catch (err: any) {
+      const msg = err instanceof PaystackError ? err.message : "Paystack refund failed";
+      await prisma.orderRefund.update({
+        where: { id: refund.id },
+        data: { status: "Failed", failureReason: msg.slice(0, 500) },
+      });
+      throw new RefundError(msg, 502);
+    }
+  }
+
+  // 3) Restock + order-level refund summary
+  const updated = await prisma.$transaction(async (tx) => {
+    if (canRestock) {
+      for (const l of selected) {
+        if (!l.restock) continue;
+        await adjustStock(tx, {
+          variantId: l.variantId,
+          delta: l.quantity,
+          reason: "Restock",
+          orderId: order.id,
+          staffId,
+          note: `Refund ${refund.id}`,
+        });
+      }
+    }
+
+    await tx.order.update({
+      where: { id: order.id },
+      data: {
+        refundStatus: viaPaystack ? "Pending" : "Completed",
+        refundReason: reason || order.refundReason,
+        refundTransactionId: providerRefundId ?? order.refundTransactionId,
+        ...(viaPaystack ? {} : { refundedAt: new Date() }),
+      },
+    });
+
+    return tx.orderRefund.update({
+      where: { id: refund.id },
+      data: { providerRefundId },
+      include: { items: true },
+    });
+  });
+
+  if (!viaPaystack) await sendCreditNote(updated.id);
+
+  return updated;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           Webhook status updates                           */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Apply a Paystack `refund.processed` / `refund.failed` event.
+ * Matches on the Paystack refund id when present, otherwise on the original
+ * transaction reference (+ amount) of a Pending refund.
+ * Returns false when no matching refund exists.
+ */
+export async function applyRefundWebhook({
+  providerRefundId,
+  transactionReference,
+  amountLowest,
+  processed,
+  failureReason,
+}: {
+  providerRefundId?: string | null;
+  transactionReference?: string | null;
+  amountLowest?: number | null;
+  processed: boolean;
+  failureReason?: string | null;
+}): Promise<boolean> {
+  let refund = providerRefundId
+    ? await prisma.orderRefund.findUnique({
+        where: { providerRefundId },
+        include: { items: { include: { orderItem: { select: { variantId: true } } } } },
+      })
+    : null;
+
+  if (!refund && transactionReference) {
+    const candidates = await prisma.orderRefund.findMany({
+      where: {
+        status: "Pending",
+        provider: "paystack",
+        order: { paymentReference: transactionReference },
+      },
+      orderBy: { createdAt: "asc" },
+      include: { items: { include: { orderItem: { select: { variantId: true } } } } },
+    });
+    refund =
+      candidates.find(
+        (r) => amountLowest != null && toLowestDenomination(r.amountNGN) === amountLowest
+      ) ??
+      candidates[0] ??
+      null;
+  }
+
+  if (!refund) return false;
+  if (refund.status !== "Pending") return true; // already settled
+
+  if (processed) {
+    await prisma.$transaction([
+      prisma.orderRefund.update({
+        where: { id: refund.id },
+        data: { status: "Completed", processedAt: new Date() },
+      }),
+      prisma.order.update({
+        where: { id: refund.orderId },
+        data: { refundStatus: "Completed", refundedAt: new Date() },
+      }),
+    ]);
+    await sendCreditNote(refund.id);
+    return true;
+  }
+
+  // Units restocked by this refund may already have sold again, so only take
+  // back what is on hand and note the shortfall rather than failing the update.
+  await prisma.$transaction(async (tx) => {
+    let shortfall = 0;
+    for (const it of refund!.items) {
+      if (!it.restock) continue;
+      const [{ stock }] = await tx.$queryRaw<{ stock: number }[]>`
+        SELECT "stock" FROM "Variant" WHERE "id" = ${it.orderItem.variantId} FOR UPDATE`;
+      const reverted = Math.min(it.quantity, Math.max(stock, 0));
+      shortfall += it.quantity - reverted;
+      await adjustStock(tx, {
+        variantId: it.orderItem.variantId,
+        delta: -reverted,
+        reason: "Adjustment",
+        orderId: refund!.orderId,
+        note: `Refund ${refund!.id} failed; restock reverted`,
+      });
+    }
+    const reason =
+      (failureReason || "Refund failed at Paystack") +
+      (shortfall > 0 ? `; ${shortfall} restocked unit(s) already sold, stock not reverted` : "");
+    await tx.orderRefund.update({
+      where: { id: refund!.id },
+      data: { status: "Failed", failureReason: reason.slice(0, 500) },
+    });
+    await tx.order.update({
+      where: { id: refund!.orderId },
+      data: { refundStatus: "Failed" },
+    });
+  });
+  return true;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Credit note                                */
+/* -------------------------------------------------------------------------- */
+
+/** Best-effort credit note email; sent once per completed refund. */
+async function sendCreditNote(refundId: string): Promise<void> {
+  const refund = await prisma.orderRefund.findUnique({
+    where: { id: refundId },
+    include: {
+      items: { include: { orderItem: { select: { name: true, color: true, size: true } } } },
+      order: {
+        select: {
+          id: true,
+          guestInfo: true,
+          customer: { select: { firstName: true, lastName: true, email: true } },
+        },
+      },
+    },
+  });
+  if (!refund || refund.status !== "Completed" || refund.creditNoteSentAt) return;
+
+  const recipient = recipientFor(refund.order);
+  if (!recipient) return;
+
+  try {
+    await sendCreditNoteEmail({
+      to: recipient.to,
+      name: recipient.name || "Customer",
+      orderId: refund.order.id,
+      creditNoteNumber: `CN-${refund.id.slice(-8).toUpperCase()}`,
+      issuedAt: refund.processedAt ?? new Date(),
+      currency: refund.currency,
+      amount: refund.amount,
+      reason: refund.reason,
+      lines: refund.items.map((it) => ({
+        name: it.orderItem.name,
+        variant: [it.orderItem.color, it.orderItem.size].filter(Boolean).join(" / "),
+        quantity: it.quantity,
+        amount: it.amount,
+      })),
+    });
+    await prisma.orderRefund.update({
+      where: { id: refund.id },
+      data: { creditNoteSentAt: new Date() },
+    });
+  } catch (err) {
+    console.warn(`⚠️ Failed to send credit note for refund ${refund.id}:`, err);
+  }
+}
@@ -0,0 +1,740 @@
+// lib/returns.ts
+// Returns and size exchanges (RMA) for delivered orders.
+
+import { prisma } from "@/lib/db";
+import type {
+  Prisma,
+  ReturnStatus,
+  ReturnType,
+} from "@/lib/generated/prisma-client/client";
+import { adjustStock } from "@/lib/inventory";
+import { createOrderRefund, RefundError } from "@/lib/refunds";
+import { recordAudit } from "@/lib/audit";
+import { escapeHtml, sendReturnUpdateEmail } from "@/lib/mail";
+import {
+  buildSingleLineAddress,
+  chooseBestRate,
+  createShipmentLabelExact,
+  fetchRatesExact,
+  getOriginAddressCode,
+  normalizeRates,
+  SHIPBUBBLE_CATEGORY_ID,
+  validateAddressExact,
+} from "@/lib/shipping/shipbubble";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class ReturnError extends HttpError {
+  name = "ReturnError";
+}
+
+export interface ReturnItemInput {
+  orderItemId: string;
+  quantity: number;
+  type: ReturnType;
+  reason: string;
+  photos?: string[];
+  exchangeVariantId?: string | null;
+}
+
+export interface ReceivedItemInput {
+  id: string;
+  receivedQty: number;
+  restock: boolean;
+}
+
+export const RETURN_WINDOW_DAYS = 30;
+export const MAX_PHOTOS_PER_ITEM = 5;
+export const RETURN_STATUSES: ReturnStatus[] = [
+  "Requested",
+  "Approved",
+  "Rejected",
+  "LabelCreated",
+  "Received",
+  "Completed",
+];
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const PHOTO_URL_RE = /^https:\/\/res\.cloudinary\.com\//;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+const returnInclude = {
+  items: {
+    include: {
+      orderItem: true,
+      exchangeVariant: { select: { id: true, color: true, size: true, stock: true } },
+    },
+  },
+  order: {
+    select: {
+      id: true,
+      status: true,
+      currency: true,
+      channel: true,
+      createdAt: true,
+      customerId: true,
+      guestInfo: true,
+      deliveryOptionId: true,
+      customer: {
+        select: {
+          firstName: true,
+          lastName: true,
+          email: true,
+          phone: true,
+          deliveryAddress: true,
+          state: true,
+          country: true,
+        },
+      },
+    },
+  },
+  reviewedBy: { select: { firstName: true, lastName: true } },
+  refund: { select: { id: true, amount: true, currency: true, status: true } },
+} satisfies Prisma.ReturnRequestInclude;
+
+type ReturnWithDetails = Prisma.ReturnRequestGetPayload<{ include: typeof returnInclude }>;
+
+/** Format sequential numeric serial into branded order id: M-ORD-001, 002, ... */
+function formatOrderIdFromSerial(serial: bigint | number): string {
+  const n = typeof serial === "bigint" ? Number(serial) : serial;
+  return `M-ORD-${String(n).padStart(3, "0")}`;
+}
+
+/** Name, email, phone and address of whoever placed the order. */
+function contactFor(order: ReturnWithDetails["order"]) {
+  if (order.customer) {
+    return {
+      name: `${order.customer.firstName} ${order.customer.lastName}`.trim(),
+      email: order.customer.email,
+      phone: order.customer.phone,
+      address: order.customer.deliveryAddress,
+      state: order.customer.state,
+      country: order.customer.country,
+    };
+  }
+  const gi = (order.guestInfo ?? {}) as {
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+    phone?: string;
+    deliveryAddress?: string | null;
+    state?: string | null;
+    country?: string | null;
+  };
+  if (!gi.email) return null;
+  return {
+    name: `${gi.firstName ?? ""} ${gi.lastName ?? ""}`.trim(),
+    email: gi.email,
+    phone: gi.phone ?? "",
+    address: gi.deliveryAddress ?? null,
+    state: gi.state ?? null,
+    country: gi.country ?? null,
+  };
+}
+
+async function loadReturn(db: Db, id: string): Promise<ReturnWithDetails> {
+  const rma = await db.returnRequest.findUnique({ where: { id }, include: returnInclude });
+  if (!rma) throw new ReturnError("Return request not found", 404);
+  return rma;
+}
+
+/** Move `id` from one of `from` to `to`; 409 when someone else got there first. */
+async function transition(
+  db: Db,
+  id: string,
+  from: ReturnStatus[],
+  data: Prisma.ReturnRequestUncheckedUpdateManyInput & { status: ReturnStatus }
+) {
+  const { count } = await db.returnRequest.updateMany({
+    where: { id, status: { in: from } },
+    data,
+  });
+  if (count === 0) {
+    throw new ReturnError("This return has changed since you opened it — refresh and try again", 409);
+  }
+}
+
+/** Best-effort customer update; never throws. */
+async function notifyCustomer(
+  rma: ReturnWithDetails,
+  headline: string,
+  message: string,
+  trackingUrl?: string | null
+) {
+  const contact = contactFor(rma.order);
+  if (!contact) return;
+  try {
+    await sendReturnUpdateEmail({
+      to: contact.email,
+      name: escapeHtml(contact.name || "Customer"),
+      orderId: rma.orderId,
+      headline,
+      message,
+      trackingUrl,
+    });
+  } catch (err) {
+    console.warn(`⚠️ Failed to send return update for ${rma.id}:`, err);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Eligibility                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Quantity still returnable per OrderItem id: bought, minus refunds made
+ * outside a return, minus lines in non-rejected returns (what actually
+ * arrived, once a return has been received).
+ */
+export async function returnableQuantities(
+  db: Db,
+  orderId: string
+): Promise<Map<string, number>> {
+  const items = await db.orderItem.findMany({
+    where: { orderId },
+    select: {
+      id: true,
+      quantity: true,
+      refundItems: {
+        where: { refund: { status: { not: "Failed" }, returnRequest: { is: null } } },
+        select: { quantity: true },
+      },
+      returnItems: {
+        where: {
+          returnRequest: { status: { not: "Rejected" } },
+        },
+        select: { quantity: true, receivedQty: true, returnRequest: { select: { status: true } } },
+      },
+    },
+  });
+
+  return new Map(
+    items.map((it) => {
+      const refunded = it.refundItems.reduce((s, r) => s + r.quantity, 0);
+      const inReturns = it.returnItems.reduce(
+        (s, r) =>
+          s +
+          (r.returnRequest.status === "Received" || r.returnRequest.status === "Completed"
+            ? r.receivedQty ?? 0
+            : r.quantity),
+        0
+      );
+      return [it.id, Math.max(it.quantity - refunded - inReturns, 0)];
+    })
+  );
+}
+
+/** Why an order can't be returned, or null when it can. */
+export function returnIneligibility(order: { status: string; createdAt: Date }): string | null {
+  if (order.status !== "Delivered") return "Only delivered orders can be returned";
+  const cutoff = order.createdAt.getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  if (Date.now() > cutoff) {
+    return `Returns are accepted within ${RETURN_WINDOW_DAYS} days of purchase`;
+  }
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Customer request                             */
+/* -------------------------------------------------------------------------- */
+
+/** Open a return / exchange request for lines of the customer's own order. */
+export async function createReturnRequest({
+  orderId,
+  customerId,
+  items,
+  note,
+}: {
+  orderId: string;
+  customerId: string;
+  items: ReturnItemInput[];
+  note?: string | null;
+}) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      status: true,
+      createdAt: true,
+      customerId: true,
+      items: { select: { id: true, name: true, variantId: true, color: true, variant: { select: { productId: true } } } },
+    },
+  });
+  if (!order || order.customerId !== customerId) {
+    throw new ReturnError("Order not found", 404);
+  }
+  const ineligible = returnIneligibility(order);
+  if (ineligible) throw new ReturnError(ineligible);
+
+  const lines = items.filter((l) => l.quantity > 0);
+  if (lines.length === 0) throw new ReturnError("Select at least one item to return");
+
+  const returnable = await returnableQuantities(prisma, order.id);
+  const seen = new Set<string>();
+
+  for (const l of lines) {
+    const it = order.items.find((i) => i.id === l.orderItemId);
+    if (!it) throw new ReturnError(`Item ${l.orderItemId} is not part of this order`);
+    if (seen.has(it.id)) throw new ReturnError(`${it.name} is listed more than once`);
+    seen.add(it.id);
+
+    const max = returnable.get(it.id) ?? 0;
+    if (!Number.isInteger(l.quantity) || l.quantity > max) {
+      throw new ReturnError(`Invalid return quantity for ${it.name} (max ${max})`);
+    }
+    if (l.type !== "Refund" && l.type !== "Exchange") {
+      throw new ReturnError(`Choose a refund or an exchange for ${it.name}`);
+    }
+    if (!l.reason?.trim()) throw new ReturnError(`Tell us why you're returning ${it.name}`);
+
+    const photos = l.photos ?? [];
+    if (photos.length > MAX_PHOTOS_PER_ITEM) {
+      throw new ReturnError(`Up to ${MAX_PHOTOS_PER_ITEM} photos per item`);
+    }
+    if (photos.some((p) => !PHOTO_URL_RE.test(p))) {
+      throw new ReturnError("Photos must be uploaded through the store");
+    }
+
+    if (l.type === "Exchange") {
+      const target = l.exchangeVariantId
+        ? await prisma.variant.findUnique({
+            where: { id: l.exchangeVariantId },
+            select: { id: true, productId: true, color: true },
+          })
+        : null;
+      if (
+        !target ||
+        target.id === it.variantId ||
+        target.productId !== it.variant.productId ||
+        target.color !== it.color
+      ) {
+        throw new ReturnError(`Choose a different size to exchange ${it.name} for`);
+      }
+    }
+  }
+
+  return prisma.returnRequest.create({
+    data: {
+      orderId: order.id,
+      customerId,
+      note: note?.trim().slice(0, 1000) || null,
+      items: {
+        create: lines.map((l) => ({
+          orderItemId: l.orderItemId,
+          quantity: l.quantity,
+          type: l.type,
+          reason: l.reason.trim().slice(0, 500),
+          photos: l.photos ?? [],
+          exchangeVariantId: l.type === "Exchange" ? l.exchangeVariantId : null,
+        })),
+      },
+    },
+    include: { items: true },
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Staff workflow                               */
+/* -------------------------------------------------------------------------- */
+
+/** Newest-first list for the admin, optionally filtered by status. */
+export async function listReturnRequests(status?: ReturnStatus) {
+  return prisma.returnRequest.findMany({
+    where: status ? { status } : {},
+    orderBy: { createdAt: "desc" },
+    take: 200,
+    include: {
+      items: { select: { quantity: true, type: true } },
+      order: {
+        select: {
+          id: true,
+          guestInfo: true,
+          customer: { select: { firstName: true, lastName: true, email: true } },
+        },
+      },
+    },
+  });
+}
+
+export async function getReturnRequest(id: string) {
+  return loadReturn(prisma, id);
+}
+
+/** Approve or reject a new request. */
+export async function reviewReturnRequest(
+  id: string,
+  { approve, note, staffId }: { approve: boolean; note?: string | null; staffId: string }
+) {
+  const staffNote = note?.trim().slice(0, 1000) || null;
+  if (!approve && !staffNote) {
+    throw new ReturnError("Give the customer a reason for rejecting the return");
+  }
+  const status: ReturnStatus = approve ? "Approved" : "Rejected";
+
+  const rma = await prisma.$transaction(async (tx) => {
+    await transition(tx, id, ["Requested"], {
+      status,
+      staffNote,
+      reviewedById: staffId,
+      reviewedAt: new Date(),
+    });
+    await recordAudit(tx, {
+      staffId,
+      action: "StatusChange",
+      entityType: "ReturnRequest",
+      entityId: id,
+      before: { status: "Requested" },
+      after: { status, staffNote },
+    });
+    return loadReturn(tx, id);
+  });
+
+  await notifyCustomer(
+    rma,
+    approve ? "Approved" : "Declined",
+    approve
+      ? `Your return request for order <strong>${rma.orderId}</strong> has been approved. We'll be in touch with how to send the items back.`
+      : `We're unable to accept your return request for order <strong>${rma.orderId}</strong>: ${escapeHtml(staffNote)}`
+  );
+  return rma;
+}
+
+/** Book a Shipbubble pickup from the customer's address back to the store. */
+export async function createReturnLabel(id: string, staffId: string) {
+  const rma = await loadReturn(prisma, id);
+  if (rma.status !== "Approved") {
+    throw new ReturnError("A return label can only be created for an approved return", 409);
+  }
+
+  const contact = contactFor(rma.order);
+  if (!contact?.address || !contact.phone) {
+    throw new ReturnError("The customer has no delivery address or phone on file");
+  }
+
+  const variants = await prisma.variant.findMany({
+    where: { id: { in: rma.items.map((i) => i.orderItem.variantId) } },
+    select: { id: true, weight: true },
+  });
+  const weightOf = new Map(variants.map((v) => [v.id, v.weight ?? 0.5]));
+
+  let label;
+  try {
+    const [sender, receiverCode] = await Promise.all([
+      validateAddressExact({
+        name: contact.name,
+        email: contact.email,
+        phone: contact.phone,
+        address: buildSingleLineAddress(contact),
+      }),
+      getOriginAddressCode(),
+    ]);
+
+    const pickup = new Date();
+    pickup.setDate(pickup.getDate() + 1);
+
+    const raw = await fetchRatesExact({
+      sender_address_code: Number(sender.address_code),
+      reciever_address_code: receiverCode,
+      pickup_date: pickup.toISOString().slice(0, 10),
+      category_id: SHIPBUBBLE_CATEGORY_ID,
+      package_items: rma.items.map((i) => ({
+        name: i.orderItem.name,
+        description: `Return ${rma.id}`,
+        unit_weight: weightOf.get(i.orderItem.variantId) ?? 0.5,
+        unit_amount: i.orderItem.lineTotal / i.orderItem.quantity,
+        quantity: i.quantity,
+      })),
+      delivery_instructions: `Customer return for order ${rma.orderId}`,
+    });
+    const rate = chooseBestRate(normalizeRates(raw), "cheapest");
+    if (!raw?.request_token || !rate) {
+      throw new ReturnError("No courier can collect from this address", 502);
+    }
+
+    const resp = await createShipmentLabelExact({
+      requestToken: String(raw.request_token),
+      serviceCode: rate.serviceCode,
+      courierId: rate.courierId,
+    });
+    label = {
+      labelOrderId: resp.data?.order_id ? String(resp.data.order_id) : null,
+      labelCourierName: rate.courierName,
+      labelTrackingUrl: resp.data?.tracking_url ? String(resp.data.tracking_url) : null,
+      labelTrackingNumber: resp.data?.tracking_number ? String(resp.data.tracking_number) : null,
+      labelResponse: resp as unknown as Prisma.InputJsonValue,
+    };
+  } catch (err: any) {
+    if (err instanceof ReturnError) throw err;
+    throw new ReturnError(err?.shipbubble?.message || err?.message || "Shipbubble label failed", 502);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await transition(tx, id, ["Approved"], { status: "LabelCreated", ...label });
+    await recordAudit(tx, {
+      staffId,
+      action: "StatusChange",
+      entityType: "ReturnRequest",
+      entityId: id,
+      before: { status: "Approved" },
+      after: {
+        status: "LabelCreated",
+        labelCourierName: label.labelCourierName,
+        labelTrackingNumber: label.labelTrackingNumber,
+      },
+    });
+    return loadReturn(tx, id);
+  });
+
+  await notifyCustomer(
+    updated,
+    "Pickup Booked",
+    `${escapeHtml(label.labelCourierName)} will collect your return for order <strong>${updated.orderId}</strong>. Please have the items packed and ready.`,
+    label.labelTrackingUrl
+  );
+  return updated;
+}
+
+/** Record what arrived back and restock the lines that can be resold. */
+export async function receiveReturn(
+  id: string,
+  { items, staffId }: { items: ReceivedItemInput[]; staffId: string }
+) {
+  const rma = await prisma.$transaction(async (tx) => {
+    const current = await loadReturn(tx, id);
+    if (current.status !== "Approved" && current.status !== "LabelCreated") {
+      throw new ReturnError("Only approved returns can be received", 409);
+    }
+
+    const received = current.items.map((it) => {
+      const input = items.find((i) => i.id === it.id);
+      const qty = input ? input.receivedQty : 0;
+      if (!Number.isInteger(qty) || qty < 0 || qty > it.quantity) {
+        throw new ReturnError(`Invalid received quantity for ${it.orderItem.name} (max ${it.quantity})`);
+      }
+      return { item: it, qty, restock: !!input?.restock && qty > 0 };
+    });
+
+    await transition(tx, id, [current.status], { status: "Received", receivedAt: new Date() });
+
+    for (const r of received) {
+      await tx.returnRequestItem.update({
+        where: { id: r.item.id },
+        data: { receivedQty: r.qty, restocked: r.restock },
+      });
+      if (r.restock) {
+        await adjustStock(tx, {
+          variantId: r.item.orderItem.variantId,
+          delta: r.qty,
+          reason: "Return",
+          orderId: current.orderId,
+          staffId,
+          note: `Return ${id}`,
+        });
+      }
+    }
+
+    await recordAudit(tx, {
+      staffId,
+      action: "StatusChange",
+      entityType: "ReturnRequest",
+      entityId: id,
+      before: { status: current.status },
+      after: {
+        status: "Received",
+        received: Object.fromEntries(
+          received.map((r) => [
+            r.item.orderItem.name,
+            { quantity: r.qty, restocked: r.restock },
+          ])
+        ),
+      },
+    });
+    return loadReturn(tx, id);
+  });
+
+  await notifyCustomer(
+    rma,
+    "Received",
+    `We've received the items you sent back from order <strong>${rma.orderId}</strong> and are processing your return.`
+  );
+  return rma;
+}
+
+/**
+ * Refund the received Refund lines and send out the received Exchange lines
+ * as a replacement order. `canRefund` is whether the acting staff member may
+ * issue refunds (orders.refund).
+ */
+export async function resolveReturn(
+  id: string,
+  { staffId, canRefund }: { staffId: string; canRefund: boolean }
+) {
+  const rma = await loadReturn(prisma, id);
+  if (rma.status !== "Received") {
+    throw new ReturnError("Only received returns can be completed", 409);
+  }
+
+  const refundLines = rma.items.filter((i) => i.type === "Refund" && (i.receivedQty ?? 0) > 0);
+  const exchangeLines = rma.items.filter((i) => i.type === "Exchange" && (i.receivedQty ?? 0) > 0);
+  // A refund already linked by an earlier attempt is never issued twice
+  const needsRefund = refundLines.length > 0 && !rma.refundId;
+  if (needsRefund && !canRefund) {
+    throw new ReturnError("You don't have permission to issue refunds", 403);
+  }
+  for (const l of exchangeLines) {
+    if (!l.exchangeVariant) {
+      throw new ReturnError(`The exchange size for ${l.orderItem.name} no longer exists`, 409);
+    }
+    if (l.exchangeVariant.stock < l.receivedQty!) {
+      throw new ReturnError(
+        `${l.orderItem.name} in ${l.exchangeVariant.size} is out of stock — restock it or refund instead`,
+        409
+      );
+    }
+  }
+
+  // Claim the request so a double submit can't refund twice
+  const { count } = await prisma.returnRequest.updateMany({
+    where: { id, status: "Received", resolvedAt: null },
+    data: { resolvedAt: new Date() },
+  });
+  if (count === 0) throw new ReturnError("This return is already being completed", 409);
+
+  let refundId = rma.refundId;
+  try {
+    if (needsRefund) {
+      const refund = await createOrderRefund({
+        orderId: rma.orderId,
+        full: false,
+        lines: refundLines.map((l) => ({
+          orderItemId: l.orderItemId,
+          quantity: l.receivedQty!,
+          restock: false,
+        })),
+        reason: `Return ${rma.id}`,
+        staffId,
+        returnRequestId: rma.id,
+      });
+      refundId = refund.id;
+    }
+  } catch (err) {
+    // A refund Paystack rejected stays Failed and must not block a retry
+    await prisma.returnRequest.update({
+      where: { id },
+      data: { resolvedAt: null, ...(needsRefund && { refundId: null }) },
+    });
+    if (err instanceof RefundError) throw new ReturnError(err.message, err.statusCode);
+    throw err;
+  }
+
+  const completeReturn = () =>
+    prisma.$transaction(async (tx) => {
+      let replacementOrderId: string | null = null;
+
+      if (exchangeLines.length > 0) {
+        for (const l of exchangeLines) {
+          const [{ stock }] = await tx.$queryRaw<{ stock: number }[]>`
+            SELECT "stock" FROM "Variant" WHERE "id" = ${l.exchangeVariant!.id} FOR UPDATE`;
+          if (stock < l.receivedQty!) {
+            throw new ReturnError(
+              `${l.orderItem.name} in ${l.exchangeVariant!.size} is out of stock — restock it and complete the return again`,
+              409
+            );
+          }
+        }
+
+        const serial = await tx.orderSerial.create({ data: {} });
+        replacementOrderId = formatOrderIdFromSerial(serial.id);
+
+        await tx.order.create({
+          data: {
+            id: replacementOrderId,
+            status: "Processing",
+            currency: rma.order.currency,
+            totalAmount: 0,
+            totalNGN: 0,
+            paymentMethod: "Exchange",
+            paymentVerified: true,
+            customerId: rma.order.customerId,
+            ...(rma.order.guestInfo != null && {
+              guestInfo: rma.order.guestInfo as Prisma.InputJsonValue,
+            }),
+            staffId,
+            channel: rma.order.channel,
+            deliveryOptionId: rma.order.deliveryOptionId,
+            deliveryFee: 0,
+            deliveryDetails: { exchangeFor: { orderId: rma.orderId, returnId: rma.id } },
+            items: {
+              create: exchangeLines.map((l) => ({
+                variantId: l.exchangeVariant!.id,
+                name: l.orderItem.name,
+                image: l.orderItem.image,
+                category: l.orderItem.category,
+                quantity: l.receivedQty!,
+                currency: rma.order.currency,
+                lineTotal: 0,
+                color: l.exchangeVariant!.color,
+                size: l.exchangeVariant!.size,
+              })),
+            },
+          },
+        });
+
+        for (const l of exchangeLines) {
+          await adjustStock(tx, {
+            variantId: l.exchangeVariant!.id,
+            delta: -l.receivedQty!,
+            reason: "Sale",
+            orderId: replacementOrderId,
+            staffId,
+            note: `Exchange for return ${rma.id}`,
+          });
+        }
+      }
+
+      await transition(tx, id, ["Received"], {
+        status: "Completed",
+        refundId,
+        replacementOrderId,
+      });
+      await recordAudit(tx, {
+        staffId,
+        action: "Resolve",
+        entityType: "ReturnRequest",
+        entityId: id,
+        before: { status: "Received" },
+        after: { status: "Completed", refundId, replacementOrderId },
+      });
+      return loadReturn(tx, id);
+    });
+
+  let updated: ReturnWithDetails;
+  try {
+    updated = await completeReturn();
+  } catch (err) {
+    // The refund (if any) stays linked, so completing again only retries this part
+    await prisma.returnRequest.update({ where: { id }, data: { resolvedAt: null } });
+    throw err;
+  }
+
+  const outcomes = [
+    refundId && "your refund has been issued",
+    updated.replacementOrderId &&
+      `your replacement is on its way as order <strong>${updated.replacementOrderId}</strong>`,
+  ].filter(Boolean);
+  await notifyCustomer(
+    updated,
+    "Completed",
+    outcomes.length > 0
+      ? `Your return for order <strong>${updated.orderId}</strong> is complete — ${outcomes.join(" and ")}.`
+      : `Your return for order <strong>${updated.orderId}</strong> has been closed.`
+  );
+  return updated;
+}
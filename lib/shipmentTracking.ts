@@ -0,0 +1,268 @@
+// lib/shipmentTracking.ts
+// Shipment tracking history: carrier events, per-parcel customer timelines and shipped emails.
+
+import { prisma } from "@/lib/db";
+import type { ShipmentStatus } from "@/lib/generated/prisma-client/client";
+import type { TrackingUpdate } from "@/lib/shipping/carriers";
+import { sendStatusEmail } from "@/lib/mail";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export type TrackingSource = "webhook" | "poll";
+
+export interface TrackingEvent {
+  id: string;
+  status: ShipmentStatus;
+  label: string;
+  description: string | null;
+  location: string | null;
+  occurredAt: string;
+}
+
+export interface TrackingTimeline {
+  shipmentId: string;
+  /** 1-based position among the order's parcels, and how many there are. */
+  parcel: { number: number; of: number };
+  items: { name: string; quantity: number }[];
+  status: ShipmentStatus;
+  label: string;
+  courierName: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  deliveryEtaText: string | null;
+  events: TrackingEvent[];
+}
+
+const STATUS_LABELS: Record<ShipmentStatus, string> = {
+  REQUESTED: "Shipment requested",
+  LABEL_CREATED: "Label created",
+  IN_TRANSIT: "In transit",
+  DELIVERED: "Delivered",
+  CANCELLED: "Cancelled",
+  FAILED: "Delivery failed",
+};
+
+/** Shipment states that warrant an email, and the wording used in it. */
+const NOTIFY_STATUSES: Partial<Record<ShipmentStatus, string>> = {
+  IN_TRANSIT: "Shipped",
+  DELIVERED: "Delivered",
+  CANCELLED: "Cancelled",
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    Helpers                                 */
+/* -------------------------------------------------------------------------- */
+
+/** "picked_up" → "Picked up" */
+function humanize(providerStatus: string): string {
+  const s = providerStatus.replace(/[_-]+/g, " ").trim().toLowerCase();
+  return s ? s[0].toUpperCase() + s.slice(1) : "";
+}
+
+function eventLabel(status: ShipmentStatus, providerStatus: string): string {
+  // Provider statuses are finer-grained (picked_up vs in_transit); prefer them.
+  return humanize(providerStatus) || STATUS_LABELS[status];
+}
+
+function recipientOf(order: {
+  customer: { email: string; firstName: string; lastName: string } | null;
+  guestInfo: unknown;
+}): { to: string; name: string } | null {
+  if (order.customer) {
+    return {
+      to: order.customer.email,
+      name: `${order.customer.firstName} ${order.customer.lastName}`.trim(),
+    };
+  }
+  if (order.guestInfo && typeof order.guestInfo === "object") {
+    const gi = order.guestInfo as { firstName?: string; lastName?: string; email?: string };
+    if (!gi.email) return null;
+    return { to: gi.email, name: `${gi.firstName ?? ""} ${gi.lastName ?? ""}`.trim() };
+  }
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Public API                               */
+/* -------------------------------------------------------------------------- */
+
+export function shipmentStatusLabel(status: ShipmentStatus): string {
+  return STATUS_LABELS[status];
+}
+
+/**
+ * Append carrier updates to a shipment's history. Returns how many new
+ * events were stored.
+ */
+export async function recordShipmentEvents(
+  shipmentId: string,
+  updates: TrackingUpdate[],
+  source: TrackingSource
+): Promise<number> {
+  if (!updates.length) return 0;
+
+  const latest = await prisma.shipmentEvent.findFirst({
+    where: { shipmentId },
+    orderBy: [{ occurredAt: "desc" }, { createdAt: "desc" }],
+    select: { providerStatus: true },
+  });
+
+  const now = new Date();
+  const data = updates
+    .filter((u) => u.occurredAt || u.providerStatus !== latest?.providerStatus)
+    .map((u) => ({
+      shipmentId,
+      status: u.status,
+      providerStatus: u.providerStatus,
+      description: u.description ?? null,
+      location: u.location ?? null,
+      occurredAt: u.occurredAt ?? now,
+      source,
+    }));
+  if (!data.length) return 0;
+
+  const { count } = await prisma.shipmentEvent.createMany({ data, skipDuplicates: true });
+  return count;
+}
+
+/** One timeline per parcel of an order (oldest parcel first), newest event first. */
+export async function getTrackingTimelines(orderId: string): Promise<TrackingTimeline[]> {
+  const shipments = await prisma.shipment.findMany({
+    where: { orderId, status: { not: "CANCELLED" } },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      status: true,
+      courierName: true,
+      trackingNumber: true,
+      trackingUrl: true,
+      deliveryEtaText: true,
+      items: { select: { quantity: true, orderItem: { select: { name: true } } } },
+      events: {
+        orderBy: [{ occurredAt: "desc" }, { createdAt: "desc" }],
+        select: {
+          id: true,
+          status: true,
+          providerStatus: true,
+          description: true,
+          location: true,
+          occurredAt: true,
+        },
+      },
+    },
+  });
+
+  return shipments.map((shipment, i) => ({
+    shipmentId: shipment.id,
+    parcel: { number: i + 1, of: shipments.length },
+    items: shipment.items.map((it) => ({ name: it.orderItem.name, quantity: it.quantity })),
+    status: shipment.status,
+    label: STATUS_LABELS[shipment.status],
+    courierName: shipment.courierName,
+    trackingNumber: shipment.trackingNumber,
+    trackingUrl: shipment.trackingUrl,
+    deliveryEtaText: shipment.deliveryEtaText,
+    events: shipment.events.map((e) => ({
+      id: e.id,
+      status: e.status,
+      label: eventLabel(e.status, e.providerStatus),
+      description: e.description,
+      location: e.location,
+      occurredAt: e.occurredAt.toISOString(),
+    })),
+  }));
+}
+
+/**
+ * The order behind a public tracking lookup, or null when the id is unknown
+ * or the email does not belong to it. Both cases look the same to callers.
+ */
+export async function findTrackableOrder(orderId: string, email: string) {
+  const e = email.trim().toLowerCase();
+  if (!orderId || !e) return null;
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      status: true,
+      createdAt: true,
+      guestInfo: true,
+      customer: { select: { email: true, firstName: true, lastName: true } },
+    },
+  });
+  if (!order) return null;
+
+  const owner = recipientOf(order);
+  if (!owner || owner.to.trim().toLowerCase() !== e) return null;
+  return { id: order.id, status: order.status, createdAt: order.createdAt };
+}
+
+/**
+ * Email the shopper when a shipment moves into a customer-visible state.
+ * Callers pass the previous status so a repeated update does not re-send.
+ * Orders shipping in several parcels say which parcel the email is about.
+ */
+export async function notifyShipmentStatus(
+  shipmentId: string,
+  previous: ShipmentStatus,
+  next: ShipmentStatus
+): Promise<void> {
+  const status = NOTIFY_STATUSES[next];
+  if (!status || previous === next) return;
+
+  try {
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      select: {
+        orderId: true,
+        events: {
+          orderBy: [{ occurredAt: "desc" }, { createdAt: "desc" }],
+          take: 1,
+          select: { status: true, providerStatus: true, location: true },
+        },
+        order: {
+          select: {
+            guestInfo: true,
+            customer: { select: { email: true, firstName: true, lastName: true } },
+            shipments: {
+              where: { status: { not: "CANCELLED" } },
+              orderBy: { createdAt: "asc" },
+              select: { id: true },
+            },
+          },
+        },
+      },
+    });
+    if (!shipment) return;
+    const { orderId } = shipment;
+    const recipient = recipientOf(shipment.order);
+    if (!recipient) return;
+
+    const parcels = shipment.order.shipments;
+    const number = parcels.findIndex((p) => p.id === shipmentId) + 1;
+    const last = shipment.events[0];
+    const detail =
+      [
+        parcels.length > 1 && number > 0 ? `Parcel ${number} of ${parcels.length}` : null,
+        last ? eventLabel(last.status, last.providerStatus) : null,
+        last?.location,
+      ]
+        .filter(Boolean)
+        .join(" — ") || undefined;
+    const baseUrl = process.env.NEXTAUTH_URL ?? "http://localhost:3000";
+
+    await sendStatusEmail({
+      to: recipient.to,
+      name: recipient.name || "there",
+      orderId,
+      status,
+      detail,
+      trackUrl: `${baseUrl}/track/${encodeURIComponent(orderId)}?email=${encodeURIComponent(recipient.to)}`,
+    });
+  } catch (err) {
+    console.warn(`[shipmentTracking] status email failed for shipment ${shipmentId}:`, err);
+  }
+}
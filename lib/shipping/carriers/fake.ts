@@ -0,0 +1,203 @@
+// lib/shipping/carriers/fake.ts
+// Local carrier for development and tests: no network, deterministic prices, in-memory labels.
+
+import crypto from "crypto";
+import { ShipmentProvider, ShipmentStatus } from "@/lib/generated/prisma-client/client";
+import { CarrierError, type ShippingCarrier, type TrackingResult } from "./types";
+
+interface FakeLabel {
+  externalOrderId: string;
+  orderId: string;
+  serviceCode: string;
+  createdAt: number;
+  cancelledAt: number | null;
+}
+
+const ORIGIN_COUNTRY = (process.env.SHIPBUBBLE_ORIGIN_COUNTRY || "NG").trim().toUpperCase();
+const STEP_MS = Number(process.env.FAKE_CARRIER_STEP_MS || 60_000);
+
+const PER_KG_NGN = 3500;
+const ZONE_MULTIPLIER = { regional: 1.25, international: 1.75 } as const;
+
+const SERVICES = [
+  { serviceCode: "fake_standard", courierName: "Fake Standard", multiplier: 1, etaDays: 3 },
+  { serviceCode: "fake_express", courierName: "Fake Express", multiplier: 1.6, etaDays: 1 },
+];
+
+const PROGRESSION = ["label_created", "picked_up", "in_transit", "delivered"] as const;
+
+// Kept on globalThis so labels survive dev hot reloads (same trick as lib/db.ts).
+const globalForFake = globalThis as unknown as { __FAKE_CARRIER_LABELS__?: Map<string, FakeLabel> };
+const labels = (globalForFake.__FAKE_CARRIER_LABELS__ ??= new Map<string, FakeLabel>());
+
+/* -------------------------------------------------------------------------- */
+/*                                    Helpers                                 */
+/* -------------------------------------------------------------------------- */
+
+function mapFakeStatus(s: string): ShipmentStatus {
+  switch (s) {
+    case "cancelled":
+      return ShipmentStatus.CANCELLED;
+    case "delivered":
+      return ShipmentStatus.DELIVERED;
+    case "picked_up":
+    case "in_transit":
+      return ShipmentStatus.IN_TRANSIT;
+    case "failed":
+      return ShipmentStatus.FAILED;
+    default:
+      return ShipmentStatus.LABEL_CREATED;
+  }
+}
+
+function labelState(label: FakeLabel, now = Date.now()): TrackingResult {
+  const steps = label.cancelledAt
+    ? ["label_created", "cancelled"]
+    : PROGRESSION.slice(
+        0,
+        Math.min(PROGRESSION.length, 1 + Math.floor((now - label.createdAt) / STEP_MS))
+      );
+  const providerStatus = steps[steps.length - 1];
+
+  return {
+    status: mapFakeStatus(providerStatus),
+    providerStatus,
+    courierName: SERVICES.find((s) => s.serviceCode === label.serviceCode)?.courierName ?? null,
+    trackingUrl: null,
+    trackingNumber: label.externalOrderId.toUpperCase(),
+    updates: steps.map((s, i) => ({
+      status: mapFakeStatus(s),
+      providerStatus: s,
+      occurredAt: new Date(
+        s === "cancelled" && label.cancelledAt ? label.cancelledAt : label.createdAt + i * STEP_MS
+      ),
+      location: s === "label_created" ? "Origin hub" : s === "delivered" ? "Destination" : "Sorting centre",
+    })),
+    raw: label,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    Adapter                                 */
+/* -------------------------------------------------------------------------- */
+
+export const fakeCarrier: ShippingCarrier = {
+  provider: ShipmentProvider.FAKE,
+  name: "Fake carrier",
+  detailsKey: "fake",
+
+  async getRates(request) {
+    const destCountry = (request.destination.country || ORIGIN_COUNTRY).trim().toUpperCase();
+    const zone = destCountry === ORIGIN_COUNTRY ? "regional" : "international";
+    const billable = Math.max(request.totalWeightKg, 0.5);
+    const requestToken = `fake_rt_${crypto.randomBytes(8).toString("hex")}`;
+
+    return {
+      requestToken,
+      rates: SERVICES.map((s) => ({
+        courierId: s.serviceCode,
+        courierName: s.courierName,
+        serviceCode: s.serviceCode,
+        fee: Math.round(PER_KG_NGN * billable * ZONE_MULTIPLIER[zone] * s.multiplier),
+        currency: "NGN",
+        eta: `${s.etaDays + (zone === "international" ? 4 : 0)} working days`,
+        raw: { zone, billable },
+      })),
+      box: null,
+    };
+  },
+
+  async validateAddress(party) {
+    if (!party.address.trim()) throw new CarrierError("Address is required");
+    const formattedAddress = [party.address, party.city, party.state, party.country]
+      .map((p) => (p || "").trim())
+      .filter(Boolean)
+      .join(", ");
+    return {
+      addressCode: crypto.createHash("sha1").update(formattedAddress).digest("hex").slice(0, 10),
+      formattedAddress,
+      countryCode: (party.country || ORIGIN_COUNTRY).trim().toUpperCase().slice(0, 2),
+      state: party.state || null,
+      city: party.city || null,
+    };
+  },
+
+  async createLabel(input) {
+    if (!SERVICES.some((s) => s.serviceCode === input.serviceCode)) {
+      throw new CarrierError(`Unknown fake carrier service "${input.serviceCode}"`);
+    }
+    const externalOrderId = `fk_${crypto.randomBytes(6).toString("hex")}`;
+    const label: FakeLabel = {
+      externalOrderId,
+      orderId: input.orderId,
+      serviceCode: input.serviceCode,
+      createdAt: Date.now(),
+      cancelledAt: null,
+    };
+    labels.set(externalOrderId, label);
+
+    return {
+      externalOrderId,
+      trackingUrl: null,
+      trackingNumber: externalOrderId.toUpperCase(),
+      labelUrl: null,
+      raw: label,
+    };
+  },
+
+  async cancelLabel(externalOrderId) {
+    const label = labels.get(externalOrderId);
+    if (!label) throw new CarrierError("Label not found", 404);
+    if (labelState(label).status === ShipmentStatus.DELIVERED) {
+      throw new CarrierError("Delivered shipments cannot be cancelled");
+    }
+    label.cancelledAt = Date.now();
+  },
+
+  async track(externalOrderId) {
+    const label = labels.get(externalOrderId);
+    return label ? labelState(label) : null;
+  },
+
+  parseWebhook(rawBody, headers) {
+    const secret = process.env.FAKE_CARRIER_WEBHOOK_SECRET || "";
+    if (secret && headers.get("x-fake-carrier-secret") !== secret) return null;
+
+    let payload: {
+      order_id?: string;
+      status?: string;
+      event?: string;
+      datetime?: string;
+      location?: string;
+    };
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return null;
+    }
+    if (!payload.order_id || !payload.status) return null;
+
+    const providerStatus = payload.status.toLowerCase();
+    const status = mapFakeStatus(providerStatus);
+    const externalOrderId = String(payload.order_id);
+    return {
+      event: payload.event || "status.changed",
+      externalOrderId,
+      status,
+      providerStatus,
+      courierName: null,
+      trackingUrl: null,
+      trackingNumber: externalOrderId.toUpperCase(),
+      updates: [
+        {
+          status,
+          providerStatus,
+          occurredAt: payload.datetime ? new Date(payload.datetime) : null,
+          location: payload.location ?? null,
+        },
+      ],
+      cancelReason: status === ShipmentStatus.CANCELLED ? "Cancelled via webhook" : null,
+      raw: payload,
+    };
+  },
+};
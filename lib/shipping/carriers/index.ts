@@ -0,0 +1,59 @@
+// lib/shipping/carriers/index.ts
+// Carrier registry: an order ships with its latest live Shipment's carrier, else its
+// DeliveryOption's, else SHIPPING_DEFAULT_CARRIER (Shipbubble).
+
+import { ShipmentProvider } from "@/lib/generated/prisma-client/client";
+import { shipbubbleCarrier } from "./shipbubble";
+import { fakeCarrier } from "./fake";
+import { CarrierError, type ShippingCarrier } from "./types";
+
+export * from "./types";
+
+const CARRIERS: Record<ShipmentProvider, ShippingCarrier> = {
+  SHIPBUBBLE: shipbubbleCarrier,
+  FAKE: fakeCarrier,
+};
+
+function isEnabled(provider: ShipmentProvider): boolean {
+  if (provider !== ShipmentProvider.FAKE) return true;
+  return process.env.NODE_ENV !== "production" || process.env.FAKE_CARRIER_ENABLED === "1";
+}
+
+/** Carriers that can be picked for a delivery option in this environment. */
+export function availableCarriers(): ShippingCarrier[] {
+  return Object.values(CARRIERS).filter((c) => isEnabled(c.provider));
+}
+
+export function getCarrier(provider: ShipmentProvider): ShippingCarrier {
+  const carrier = CARRIERS[provider];
+  if (!carrier) throw new CarrierError(`Unknown shipping carrier "${provider}"`);
+  if (!isEnabled(provider)) {
+    throw new CarrierError(`${carrier.name} is disabled in production`);
+  }
+  return carrier;
+}
+
+/** Look up a carrier by URL segment ("shipbubble", "fake"); null if unknown. */
+export function findCarrier(key: string): ShippingCarrier | null {
+  const k = key.trim().toLowerCase();
+  const carrier = Object.values(CARRIERS).find((c) => c.detailsKey === k);
+  return carrier && isEnabled(carrier.provider) ? carrier : null;
+}
+
+export function defaultCarrier(): ShippingCarrier {
+  const configured = (process.env.SHIPPING_DEFAULT_CARRIER || "").trim().toUpperCase();
+  return configured in CARRIERS
+    ? getCarrier(configured as ShipmentProvider)
+    : shipbubbleCarrier;
+}
+
+export function carrierForOrder(order: {
+  /** The order's live shipments, oldest first. */
+  shipments?: { provider: ShipmentProvider }[];
+  deliveryOption?: { carrier: ShipmentProvider | null } | null;
+}): ShippingCarrier {
+  const latest = order.shipments?.[order.shipments.length - 1];
+  if (latest) return getCarrier(latest.provider);
+  if (order.deliveryOption?.carrier) return getCarrier(order.deliveryOption.carrier);
+  return defaultCarrier();
+}
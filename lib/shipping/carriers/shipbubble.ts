@@ -0,0 +1,317 @@
+// lib/shipping/carriers/shipbubble.ts
+// ShippingCarrier adapter over the Shipbubble client in lib/shipping/shipbubble.ts.
+
+import crypto from "crypto";
+import { ShipmentProvider } from "@/lib/generated/prisma-client/client";
+import {
+  buildSingleLineAddress,
+  cancelShipmentLabel,
+  createShipmentLabelExact,
+  fetchBoxes,
+  fetchCourierIntegrations,
+  fetchRatesExact,
+  fetchRatesForSelected,
+  getOriginAddressCode,
+  listShipmentsByIds,
+  mapShipbubbleStatus,
+  pickBoxForWeight,
+  validateAddressExact,
+  SHIPBUBBLE_CATEGORY_ID,
+  type BoxSize,
+  type FetchRatesBody,
+  type PackageItem,
+  type RatesRespRaw,
+} from "@/lib/shipping/shipbubble";
+import type {
+  CarrierParty,
+  CarrierWebhookEvent,
+  ShippingCarrier,
+  TrackingResult,
+  TrackingUpdate,
+} from "./types";
+
+/** Shipbubble payload fields we read tracking from (webhook or list item). */
+interface ShipbubbleTrackingPayload {
+  status?: string;
+  tracking_url?: string;
+  courier?: { name?: string; tracking_code?: string; [k: string]: any };
+  package_status?: Array<{
+    status?: string;
+    datetime?: string;
+    location?: string;
+    description?: string;
+    message?: string;
+  }>;
+  [k: string]: any;
+}
+
+const DEFAULT_INSTRUCTIONS = "Handle with care";
+
+// Client’s courier policy (by human names)
+const LAGOS_NAMES = ["Stallion King", "Dellyman", "Fez Delivery"];
+const NIGERIA_OUTSIDE_LAGOS_NAMES = ["Fez Delivery", "Red star", "GIG Logistics"];
+
+/* -------------------------------------------------------------------------- */
+/*                                    Helpers                                 */
+/* -------------------------------------------------------------------------- */
+
+const includesCI = (hay?: string, needle?: string) =>
+  (hay || "").toLowerCase().includes((needle || "").toLowerCase());
+
+function isoDatePlus(days: number) {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function parseDate(v?: string | null): Date | null {
+  if (!v) return null;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function clean(v?: string | null): string | null {
+  const s = (v ?? "").trim();
+  return s ? s.slice(0, 500) : null;
+}
+
+function validateParty(party: CarrierParty) {
+  return validateAddressExact({
+    name: party.name,
+    email: party.email,
+    phone: party.phone,
+    address: buildSingleLineAddress(party),
+  });
+}
+
+/** Rates for the couriers we offer on this route, or all when none match. */
+async function fetchRatesForPolicy(names: string[] | null, body: FetchRatesBody): Promise<RatesRespRaw> {
+  if (!names) return fetchRatesExact(body);
+
+  const integrations = await fetchCourierIntegrations();
+  const selectedCodes = integrations
+    .filter((c) => names.some((n) => includesCI(c.name, n)))
+    .map((c) => c.service_code)
+    .filter(Boolean);
+
+  return selectedCodes.length > 0
+    ? fetchRatesForSelected(selectedCodes.join(","), body)
+    : fetchRatesExact(body);
+}
+
+/**
+ * Updates carried by a Shipbubble payload: each package_status entry, plus
+ * the current status when the history does not include it yet.
+ */
+function trackingUpdates(payload: ShipbubbleTrackingPayload): TrackingUpdate[] {
+  const updates: TrackingUpdate[] = [];
+  for (const p of payload.package_status ?? []) {
+    const providerStatus = clean(p.status)?.toLowerCase();
+    if (!providerStatus) continue;
+    updates.push({
+      status: mapShipbubbleStatus(providerStatus),
+      providerStatus,
+      occurredAt: parseDate(p.datetime),
+      location: clean(p.location),
+      description: clean(p.description ?? p.message),
+    });
+  }
+
+  const current = clean(payload.status)?.toLowerCase();
+  if (current && !updates.some((u) => u.providerStatus === current)) {
+    updates.push({ status: mapShipbubbleStatus(current), providerStatus: current });
+  }
+  return updates;
+}
+
+function toTrackingResult(payload: ShipbubbleTrackingPayload): TrackingResult {
+  const providerStatus = (payload.status || "").toLowerCase();
+  return {
+    status: mapShipbubbleStatus(providerStatus),
+    providerStatus,
+    courierName: payload.courier?.name || null,
+    trackingUrl: payload.tracking_url || null,
+    trackingNumber: payload.courier?.tracking_code || payload.tracking_code || null,
+    updates: trackingUpdates(payload),
+    raw: payload,
+  };
+}
+
+function verifySignature(raw: string, headerSig: string | null): boolean {
+  const secret = process.env.SHIPBUBBLE_WEBHOOK_SECRET || "";
+  if (!secret || !headerSig) return false;
+  const expected = crypto
+    .createHmac("sha512", secret)
+    .update(raw, "utf8")
+    .digest("hex");
+  try {
+    return crypto.timingSafeEqual(
+      Buffer.from(expected, "hex"),
+      Buffer.from(headerSig, "hex")
+    );
+  } catch {
+    return false;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    Adapter                                 */
+/* -------------------------------------------------------------------------- */
+
+export const shipbubbleCarrier: ShippingCarrier = {
+  provider: ShipmentProvider.SHIPBUBBLE,
+  name: "Shipbubble",
+  detailsKey: "shipbubble",
+
+  async getRates(request) {
+    const pickupDays = Math.min(Math.max(request.pickupDaysFromNow ?? 1, 0), 7);
+
+    // Origin is resolved per call; Shipbubble is the source of truth.
+    const originCode = await getOriginAddressCode();
+    const validated = await validateParty(request.destination);
+
+    const countryCode = (validated.country_code || validated.country || "").toUpperCase();
+    const stateName = (validated.state || validated.state_code || "").toString();
+    const cityName = (validated.city || validated.city_code || "").toString();
+    const isNigeria = countryCode === "NG";
+    const isLagos =
+      isNigeria && (includesCI(stateName, "Lagos") || includesCI(cityName, "Lagos"));
+
+    const boxes = await fetchBoxes().catch(() => [] as BoxSize[]);
+    const chosen = pickBoxForWeight(request.totalWeightKg, boxes);
+
+    const package_items: PackageItem[] = request.items.length
+      ? request.items.map((it) => ({
+          name: it.name,
+          description: it.description ?? "Cart item",
+          unit_weight: it.unitWeightKg,
+          unit_amount: it.unitAmount,
+          quantity: it.quantity,
+        }))
+      : [
+          {
+            name: "Cart items",
+            description: "Consolidated package",
+            unit_weight: Math.max(request.totalWeightKg, 0.1),
+            unit_amount: Math.max(request.totalValue, 0),
+            quantity: 1,
+          },
+        ];
+
+    const raw = await fetchRatesForPolicy(
+      isLagos ? LAGOS_NAMES : isNigeria ? NIGERIA_OUTSIDE_LAGOS_NAMES : null,
+      {
+        sender_address_code: originCode,
+        reciever_address_code: validated.address_code,
+        pickup_date: isoDatePlus(pickupDays),
+        category_id: SHIPBUBBLE_CATEGORY_ID,
+        package_items,
+        ...(chosen
+          ? {
+              package_dimension: {
+                length: Number(chosen.length),
+                width: Number(chosen.width),
+                height: Number(chosen.height),
+              },
+            }
+          : {}),
+        delivery_instructions: DEFAULT_INSTRUCTIONS,
+      }
+    );
+
+    return {
+      requestToken: raw?.request_token ? String(raw.request_token) : null,
+      rates: (raw?.couriers || []).map((c) => ({
+        courierId: c?.courier_id != null ? String(c.courier_id) : null,
+        courierName: String(c?.courier_name || ""),
+        serviceCode: String(c?.service_code || ""),
+        fee: Number(c?.total || 0),
+        currency: String(c?.currency || "NGN"),
+        eta: String(c?.delivery_eta || c?.pickup_eta || ""),
+        raw: c,
+      })),
+      box: chosen
+        ? {
+            name: chosen.name,
+            length: chosen.length,
+            width: chosen.width,
+            height: chosen.height,
+            maxWeight: chosen.max_weight,
+          }
+        : null,
+    };
+  },
+
+  async validateAddress(party) {
+    const v = await validateParty(party);
+    return {
+      addressCode: String(v.address_code),
+      formattedAddress: v.formatted_address,
+      countryCode: (v.country_code || "").toUpperCase() || null,
+      state: v.state || null,
+      city: v.city || null,
+      raw: v,
+    };
+  },
+
+  async createLabel(input) {
+    const resp = await createShipmentLabelExact({
+      requestToken: input.requestToken,
+      serviceCode: input.serviceCode,
+      courierId: input.courierId,
+      insuranceCode: input.insuranceCode,
+      isCodLabel: input.isCodLabel,
+    });
+
+    const data = (resp as any)?.data ?? {};
+    const trackingNumber = data.tracking_number ?? data.trackingNo;
+    return {
+      externalOrderId: data.order_id ? String(data.order_id) : null,
+      trackingUrl: data.tracking_url ? String(data.tracking_url) : null,
+      trackingNumber: trackingNumber ? String(trackingNumber) : null,
+      labelUrl: data.waybill_document ? String(data.waybill_document) : null,
+      raw: resp,
+    };
+  },
+
+  async cancelLabel(externalOrderId) {
+    await cancelShipmentLabel(externalOrderId);
+  },
+
+  async track(externalOrderId, opts = {}) {
+    const list = await listShipmentsByIds([externalOrderId], opts);
+    const remote = list.find((r) => String(r.order_id) === String(externalOrderId));
+    return remote ? toTrackingResult(remote) : null;
+  },
+
+  parseWebhook(rawBody, headers) {
+    if (!verifySignature(rawBody, headers.get("x-ship-signature"))) {
+      console.warn("[Shipbubble Webhook] signature verification failed");
+      return null;
+    }
+
+    let payload: ShipbubbleTrackingPayload & { event?: string; order_id?: string };
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      console.error("[Shipbubble Webhook] invalid JSON");
+      return null;
+    }
+    if (!payload.order_id) {
+      console.warn("[Shipbubble Webhook] missing order_id");
+      return null;
+    }
+
+    const result = toTrackingResult(payload);
+    const event: CarrierWebhookEvent = {
+      ...result,
+      event: payload.event || "unknown",
+      externalOrderId: String(payload.order_id),
+      cancelReason:
+        result.providerStatus === "cancelled"
+          ? payload.cancel_reason || payload.message || "Cancelled via webhook"
+          : null,
+    };
+    return event;
+  },
+};
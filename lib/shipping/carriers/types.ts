@@ -0,0 +1,151 @@
+// lib/shipping/carriers/types.ts
+// The contract every shipping carrier adapter implements.
+
+import type {
+  ShipmentProvider,
+  ShipmentStatus,
+} from "@/lib/generated/prisma-client/client";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class CarrierError extends HttpError {
+  name = "CarrierError";
+}
+
+/** A person + address as entered at checkout or in the offline sale form. */
+export interface CarrierParty {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  city?: string;
+  state?: string;
+  country?: string;
+}
+
+export interface ValidatedAddress {
+  /** The carrier's handle for this address (Shipbubble: address_code). */
+  addressCode: string;
+  formattedAddress: string;
+  countryCode: string | null;
+  state: string | null;
+  city: string | null;
+  raw?: unknown;
+}
+
+export interface ParcelItem {
+  name: string;
+  description?: string;
+  unitWeightKg: number;
+  unitAmount: number;
+  quantity: number;
+}
+
+export interface RateRequest {
+  destination: CarrierParty;
+  items: ParcelItem[];
+  totalWeightKg: number;
+  totalValue: number;
+  /** 0–7; defaults to tomorrow. */
+  pickupDaysFromNow?: number;
+}
+
+export interface CarrierRate {
+  courierId: string | null;
+  courierName: string;
+  serviceCode: string;
+  fee: number;
+  currency: string;
+  eta: string;
+  raw?: unknown;
+}
+
+export interface ParcelBox {
+  name: string;
+  length: number;
+  width: number;
+  height: number;
+  maxWeight: number;
+}
+
+export interface RateQuote {
+  /** Token a label must be bought against; null when the carrier has none. */
+  requestToken: string | null;
+  rates: CarrierRate[];
+  box: ParcelBox | null;
+}
+
+export interface CreateLabelInput {
+  orderId: string;
+  requestToken: string;
+  serviceCode: string;
+  courierId: string;
+  insuranceCode?: string;
+  isCodLabel?: boolean;
+}
+
+export interface CarrierLabel {
+  externalOrderId: string | null;
+  trackingUrl: string | null;
+  trackingNumber: string | null;
+  labelUrl: string | null;
+  raw: unknown;
+}
+
+/** One carrier update, before it is stored as a ShipmentEvent. */
+export interface TrackingUpdate {
+  status: ShipmentStatus;
+  providerStatus: string;
+  occurredAt?: Date | null;
+  location?: string | null;
+  description?: string | null;
+}
+
+export interface TrackingResult {
+  status: ShipmentStatus;
+  providerStatus: string;
+  courierName: string | null;
+  trackingUrl: string | null;
+  trackingNumber: string | null;
+  updates: TrackingUpdate[];
+  raw: unknown;
+}
+
+export interface CarrierWebhookEvent extends TrackingResult {
+  event: string;
+  externalOrderId: string;
+  /** Set when the carrier reports a cancellation. */
+  cancelReason: string | null;
+}
+
+export interface TrackOptions {
+  timeoutMs?: number;
+  retry?: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Interface                                 */
+/* -------------------------------------------------------------------------- */
+
+export interface ShippingCarrier {
+  readonly provider: ShipmentProvider;
+  /** Human name for admin screens and errors. */
+  readonly name: string;
+  /** Key this carrier's snapshot lives under in Order.deliveryDetails. */
+  readonly detailsKey: string;
+
+  getRates(request: RateRequest): Promise<RateQuote>;
+  validateAddress(party: CarrierParty): Promise<ValidatedAddress>;
+  createLabel(input: CreateLabelInput): Promise<CarrierLabel>;
+  cancelLabel(externalOrderId: string): Promise<void>;
+  /** Current state of a label; null when the carrier does not know it. */
+  track(externalOrderId: string, opts?: TrackOptions): Promise<TrackingResult | null>;
+  /**
+   * Verify and normalise a webhook delivery. Returns null for deliveries that
+   * should be acknowledged and ignored (bad signature, no order id).
+   */
+  parseWebhook(rawBody: string, headers: Headers): CarrierWebhookEvent | null;
+}
@@ -0,0 +1,91 @@
+// lib/shipping/rates.ts
+// Request parsing and signed response shaping for the checkout rates endpoints.
+
+import { signShippingRate } from "@/lib/checkoutQuote";
+import type { ParcelItem, RateQuote, RateRequest, ShippingCarrier } from "@/lib/shipping/carriers";
+import { HttpError } from "@/lib/httpError";
+
+export class RateRequestError extends HttpError {
+  name = "RateRequestError";
+}
+
+/** Validate the rates body ({ destination, total_weight_kg, items, ... }). */
+export function parseRateRequest(body: any): RateRequest {
+  const dest = body?.destination;
+  const totalWeightKg = Number(body?.total_weight_kg || 0);
+
+  if (!dest?.address || !dest?.name || !dest?.email || !dest?.phone) {
+    throw new RateRequestError(
+      "destination { name, email, phone, address } are required for rates lookup"
+    );
+  }
+  if (!totalWeightKg || totalWeightKg <= 0) {
+    throw new RateRequestError("total_weight_kg must be > 0");
+  }
+
+  const itemsFromClient = Array.isArray(body?.items) ? body.items : [];
+  const items: ParcelItem[] = itemsFromClient.map((it: any) => ({
+    name: String(it?.name ?? "Item"),
+    description: String(it?.description ?? "Cart item"),
+    unitWeightKg: Number(it?.unitWeightKG ?? it?.unit_weight ?? 0.5) || 0.5,
+    unitAmount: Number(it?.unitAmount ?? it?.unit_amount ?? 0),
+    quantity: Number(it?.quantity ?? 1) || 1,
+  }));
+
+  return {
+    destination: {
+      name: String(dest.name),
+      email: String(dest.email),
+      phone: String(dest.phone),
+      address: String(dest.address),
+      city: dest.city ? String(dest.city) : undefined,
+      state: dest.state ? String(dest.state) : undefined,
+      country: dest.country ? String(dest.country) : undefined,
+    },
+    items,
+    totalWeightKg,
+    totalValue: Number(body?.total_value || 0),
+    pickupDaysFromNow: Number(body?.pickup_days_from_now ?? 1) || 0,
+  };
+}
+
+/** ✅ Canonical rates response shape (client & server agree forever) */
+export function toRatesResponse(carrier: ShippingCarrier, quote: RateQuote) {
+  const { requestToken } = quote;
+
+  const rates = quote.rates.map((r) => ({
+    courierId: r.courierId,         // ✅ canonical
+    courierCode: r.courierId,       // ✅ kept for backward compatibility
+    courierName: r.courierName,
+    serviceCode: r.serviceCode,
+    fee: r.fee,
+    currency: r.currency,
+    eta: r.eta,
+    raw: r.raw,
+    signature: requestToken
+      ? signShippingRate({
+          requestToken,
+          serviceCode: r.serviceCode,
+          courierId: r.courierId,
+          fee: r.fee,
+          currency: r.currency,
+        })
+      : null,
+  }));
+
+  return {
+    carrier: carrier.provider,
+    rates,
+    requestToken,                 // ✅ canonical
+    request_token: requestToken,  // ✅ kept for backward compatibility
+    box_used: quote.box
+      ? {
+          name: quote.box.name,
+          length: quote.box.length,
+          width: quote.box.width,
+          height: quote.box.height,
+          max_weight: quote.box.maxWeight,
+        }
+      : null,
+  };
+}
@@ -250,6 +250,101 @@ export async function validateAddressExact(
   }
 }
 
+/* ─────────────────────────── Address lines & store origin ─────────────────────────── */
+
+/** Normalize country strings for address lines (e.g. "NG" -> "Nigeria"). */
+function normalizeCountryForAddress(country: string | undefined | null) {
+  const raw = (country || "").trim();
+  if (!raw) return "";
+  const upper = raw.toUpperCase();
+  if (/^[A-Z]{2}$/.test(upper)) {
+    if (upper === "NG") return "Nigeria";
+    return raw;
+  }
+  return raw;
+}
+
+/** Avoid "Lagos, Lagos" in `"city, state"` when they are the same. */
+function pushCityState(parts: string[], city?: string | null, state?: string | null) {
+  const c = (city || "").trim();
+  const s = (state || "").trim();
+  if (c && s && c.toLowerCase() !== s.toLowerCase()) {
+    parts.push(c, s);
+  } else if (c) {
+    parts.push(c);
+  } else if (s) {
+    parts.push(s);
+  }
+}
+
+/** Build the single-line "street, city, state, country" string Shipbubble likes. */
+export function buildSingleLineAddress(a: {
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+}): string {
+  const parts: string[] = [];
+  const base = (a.address || "").trim();
+  const country = normalizeCountryForAddress(a.country);
+
+  if (base) parts.push(base);
+  pushCityState(parts, a.city, a.state);
+  if (country) parts.push(country);
+
+  return parts.join(", ");
+}
+
+export const SHIPBUBBLE_CATEGORY_ID = Number(process.env.SHIPBUBBLE_CATEGORY_ID || "90097994");
+
+const ORIGIN_ENV = {
+  name: process.env.SHIPBUBBLE_ORIGIN_NAME || "",
+  email: process.env.SHIPBUBBLE_ORIGIN_EMAIL || "",
+  phone: process.env.SHIPBUBBLE_ORIGIN_PHONE || "",
+  street: process.env.SHIPBUBBLE_ORIGIN_STREET || "",
+  city: process.env.SHIPBUBBLE_ORIGIN_CITY || "",
+  state: process.env.SHIPBUBBLE_ORIGIN_STATE || "",
+  country: process.env.SHIPBUBBLE_ORIGIN_COUNTRY || "",
+};
+
+function originEnvIsSane(): boolean {
+  return Object.values(ORIGIN_ENV).every((v) => v.trim() !== "");
+}
+
+/**
+ * Resolve the store (SHIPBUBBLE_ORIGIN_*) address code on every call via
+ * /shipping/address/validate — no memory cache. Throws if validation fails
+ * or address_code is missing.
+ */
+export async function getOriginAddressCode(): Promise<number> {
+  if (!originEnvIsSane()) {
+    throw new Error(
+      "Shipbubble origin env is incomplete. Check SHIPBUBBLE_ORIGIN_* variables."
+    );
+  }
+
+  const validated = await validateAddressExact({
+    name: ORIGIN_ENV.name,
+    email: ORIGIN_ENV.email,
+    phone: ORIGIN_ENV.phone,
+    address: buildSingleLineAddress({
+      address: ORIGIN_ENV.street,
+      city: ORIGIN_ENV.city,
+      state: ORIGIN_ENV.state,
+      country: ORIGIN_ENV.country,
+    }),
+  });
+  const code = Number(validated?.address_code || 0);
+
+  if (!code || Number.isNaN(code)) {
+    throw new Error(
+      "Shipbubble could not validate the origin address. Please review the SHIPBUBBLE_ORIGIN_* values."
+    );
+  }
+
+  return code;
+}
+
 /* ─────────────────────────────── Boxes (GET) ─────────────────────────────── */
 
 export type BoxSize = {
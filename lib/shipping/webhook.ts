@@ -0,0 +1,90 @@
+// lib/shipping/webhook.ts
+// Shared carrier webhook handling: applies a verified delivery to its Shipment and order.
+
+import { NextResponse } from "next/server";
+import crypto from "crypto";
+import prisma from "@/lib/db";
+import { ShipmentStatus } from "@/lib/generated/prisma-client/client";
+import { syncOrderFulfilmentStatus } from "@/lib/fulfilment";
+import { notifyShipmentStatus, recordShipmentEvents } from "@/lib/shipmentTracking";
+import type { ShippingCarrier } from "@/lib/shipping/carriers";
+
+export async function handleCarrierWebhook(carrier: ShippingCarrier, req: Request) {
+  const tag = `[${carrier.name} Webhook]`;
+
+  // 1) Verify + normalise on the raw body
+  const raw = await req.text();
+  const payload = carrier.parseWebhook(raw, req.headers);
+  if (!payload) {
+    // Return 200 to avoid noisy retries, but ignore content.
+    return NextResponse.json({ received: true }, { status: 200 });
+  }
+
+  // 2) Record webhook (idempotent-ish)
+  const eventHash = crypto.createHash("sha256").update(raw, "utf8").digest("hex");
+  try {
+    await prisma.webhookEvent.create({
+      data: {
+        provider: carrier.provider,
+        eventId: eventHash,
+        payload: payload.raw as any,
+      },
+    });
+  } catch {
+    // duplicate — ignore
+  }
+
+  try {
+    const where = {
+      provider_externalOrderId: {
+        provider: carrier.provider,
+        externalOrderId: payload.externalOrderId,
+      },
+    };
+
+    // Find existing shipment by external order id
+    const existing = await prisma.shipment.findUnique({
+      where,
+      select: { id: true, orderId: true, status: true },
+    });
+
+    // If we can’t find a Shipment linked to this externalId, just acknowledge.
+    // (The label may have been created outside our flow.)
+    if (!existing?.orderId) {
+      console.warn(`${tag} Shipment not found for externalId:`, payload.externalOrderId);
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+
+    const cancelled = payload.status === ShipmentStatus.CANCELLED;
+    const updated = await prisma.shipment.update({
+      where,
+      data: {
+        status: payload.status,
+        courierName: payload.courierName || undefined,
+        trackingUrl: payload.trackingUrl || undefined,
+        trackingNumber: payload.trackingNumber || undefined,
+        ...(cancelled
+          ? {
+              cancelledAt: new Date(),
+              cancelReason: payload.cancelReason || "Cancelled via webhook",
+              rawCancel: payload.raw as any,
+            }
+          : { rawResponse: payload.raw as any }),
+      },
+      select: { id: true, orderId: true, status: true },
+    });
+
+    // Append to the tracking history (duplicates are skipped)
+    await recordShipmentEvents(updated.id, payload.updates, "webhook");
+
+    // A cancelled parcel frees its items rather than cancelling the order
+    await syncOrderFulfilmentStatus(prisma, updated.orderId);
+    await notifyShipmentStatus(updated.id, existing.status, updated.status);
+
+    return NextResponse.json({ received: true }, { status: 200 });
+  } catch (err) {
+    console.error(`${tag} handler error:`, err);
+    // Still reply 200 to stop noisy retries; the error is logged.
+    return NextResponse.json({ received: true }, { status: 200 });
+  }
+}
@@ -0,0 +1,244 @@
+// lib/shipping/zones.ts
+// Delivery options and their shipping zones, as managed under Store Settings.
+
+import { z } from "zod";
+import type {
+  Currency,
+  DeliveryOption,
+  ShippingWeightBand,
+  ShippingZone,
+} from "@/lib/generated/prisma-client/client";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export type ZoneWithBands = ShippingZone & { weightBands: ShippingWeightBand[] };
+
+export type DeliveryOptionWithZones = DeliveryOption & { zones: ZoneWithBands[] };
+
+export interface DeliveryDestination {
+  countryIso2?: string | null;
+  state?: string | null;
+}
+
+export interface ResolvedDeliveryFee {
+  /** null when the option has no zones and charges its baseFee. */
+  zoneId: string | null;
+  zoneName: string | null;
+  fee: number;
+  /** Currency `fee` is in; differs from the order currency on NGN fallback. */
+  currency: Currency;
+  freeShipping: boolean;
+}
+
+/** Prisma include that loads what resolveDeliveryFee needs. */
+export const DELIVERY_OPTION_ZONES_INCLUDE = {
+  zones: {
+    orderBy: { name: "asc" },
+    include: { weightBands: { orderBy: { maxWeightKg: "asc" } } },
+  },
+} as const;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+const normalize = (s: string | null | undefined) => (s ?? "").trim().toLowerCase();
+
+function amountFor<T extends ShippingZone | ShippingWeightBand>(
+  row: T,
+  prefix: "fee" | "freeOver",
+  currency: Currency
+): number | null {
+  const v = row[`${prefix}${currency}` as keyof T];
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function feeFor(row: ShippingZone | ShippingWeightBand, currency: Currency) {
+  const own = amountFor(row, "fee", currency);
+  return own !== null
+    ? { fee: own, currency }
+    : { fee: row.feeNGN, currency: "NGN" as Currency };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Resolution                                */
+/* -------------------------------------------------------------------------- */
+
+/** The active zone covering a destination, state-specific zones first. */
+export function findZone<Z extends ShippingZone>(
+  zones: Z[],
+  { countryIso2, state }: DeliveryDestination
+): Z | null {
+  const country = (countryIso2 ?? "").trim().toUpperCase();
+  if (!country) return null;
+
+  const inCountry = zones.filter((z) => z.active && z.countries.includes(country));
+  const wanted = normalize(state);
+  return (
+    (wanted && inCountry.find((z) => z.states.some((s) => normalize(s) === wanted))) ||
+    inCountry.find((z) => z.states.length === 0) ||
+    null
+  );
+}
+
+/**
+ * What a FIXED option charges for a cart going to `destination`.
+ * Returns null when the option has zones and none covers the destination.
+ */
+export function resolveDeliveryFee(
+  option: DeliveryOptionWithZones,
+  {
+    currency,
+    weightKg = 0,
+    subtotal = 0,
+    ...destination
+  }: DeliveryDestination & { currency: Currency; weightKg?: number; subtotal?: number }
+): ResolvedDeliveryFee | null {
+  if (option.zones.length === 0) {
+    return {
+      zoneId: null,
+      zoneName: null,
+      fee: option.baseFee ?? 0,
+      currency: option.baseCurrency ?? "NGN",
+      freeShipping: false,
+    };
+  }
+
+  const zone = findZone(option.zones, destination);
+  if (!zone) return null;
+
+  const freeOver = amountFor(zone, "freeOver", currency);
+  if (freeOver !== null && subtotal >= freeOver) {
+    return { zoneId: zone.id, zoneName: zone.name, fee: 0, currency, freeShipping: true };
+  }
+
+  const band = [...zone.weightBands]
+    .sort((a, b) => a.maxWeightKg - b.maxWeightKg)
+    .find((b) => weightKg <= b.maxWeightKg);
+
+  return {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    ...feeFor(band ?? zone, currency),
+    freeShipping: false,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Admin payload (zod)                           */
+/* -------------------------------------------------------------------------- */
+
+const money = z.number().min(0).nullable().optional();
+const fees = z
+  .object({
+    NGN: z.number({ message: "Zones and weight bands need an NGN fee" }).min(0),
+    USD: money,
+    EUR: money,
+    GBP: money,
+  })
+  .strict();
+
+const WeightBandPayload = z.object({
+  maxWeightKg: z.number().gt(0, "Max weight must be above 0"),
+  fee: fees,
+});
+
+const ZonePayload = z.object({
+  name: z.string().trim().min(1, "Zone name is required").max(80),
+  countries: z
+    .array(z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Use ISO2 country codes"))
+    .min(1, "Pick at least one country"),
+  states: z.array(z.string().trim().min(1)).default([]),
+  fee: fees,
+  freeOver: z
+    .object({ NGN: money, USD: money, EUR: money, GBP: money })
+    .partial()
+    .optional(),
+  weightBands: z.array(WeightBandPayload).max(20).default([]),
+  active: z.boolean().default(true),
+});
+
+export const DeliveryOptionPayload = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(80),
+    provider: z.string().trim().max(80).nullable().optional(),
+    carrier: z.enum(["SHIPBUBBLE", "FAKE"]).nullable().optional(),
+    pricingMode: z.enum(["FIXED", "EXTERNAL", "PICKUP"]),
+    baseFee: money,
+    baseCurrency: z.enum(["NGN", "USD", "EUR", "GBP"]).nullable().optional(),
+    active: z.boolean().default(true),
+    zones: z.array(ZonePayload).max(50).default([]),
+  })
+  .superRefine((v, ctx) => {
+    if (v.pricingMode !== "FIXED" && v.zones.length > 0) {
+      ctx.addIssue({ code: "custom", path: ["zones"], message: "Only fixed-price options use zones" });
+    }
+    v.zones.forEach((zone, i) => {
+      const weights = zone.weightBands.map((b) => b.maxWeightKg);
+      if (new Set(weights).size !== weights.length) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["zones", i, "weightBands"],
+          message: `${zone.name}: weight bands need different max weights`,
+        });
+      }
+    });
+  });
+
+export type DeliveryOptionPayloadInput = z.infer<typeof DeliveryOptionPayload>;
+
+/** Map the admin payload to DeliveryOption columns (zones are written separately). */
+export function toDeliveryOptionData(v: DeliveryOptionPayloadInput) {
+  return {
+    name: v.name,
+    provider: v.provider?.trim() || null,
+    carrier: v.carrier ?? null,
+    pricingMode: v.pricingMode,
+    baseFee: v.pricingMode === "EXTERNAL" ? null : v.baseFee ?? null,
+    baseCurrency: v.pricingMode === "EXTERNAL" ? null : v.baseCurrency ?? null,
+    active: v.active,
+  };
+}
+
+/** Nested create for an option's zones and their weight bands. */
+export function toZonesCreate(v: DeliveryOptionPayloadInput) {
+  return v.zones.map((z) => ({
+    name: z.name,
+    countries: [...new Set(z.countries)],
+    states: [...new Set(z.states)],
+    feeNGN: z.fee.NGN,
+    feeUSD: z.fee.USD ?? null,
+    feeEUR: z.fee.EUR ?? null,
+    feeGBP: z.fee.GBP ?? null,
+    freeOverNGN: z.freeOver?.NGN ?? null,
+    freeOverUSD: z.freeOver?.USD ?? null,
+    freeOverEUR: z.freeOver?.EUR ?? null,
+    freeOverGBP: z.freeOver?.GBP ?? null,
+    active: z.active,
+    weightBands: {
+      create: z.weightBands.map((b) => ({
+        maxWeightKg: b.maxWeightKg,
+        feeNGN: b.fee.NGN,
+        feeUSD: b.fee.USD ?? null,
+        feeEUR: b.fee.EUR ?? null,
+        feeGBP: b.fee.GBP ?? null,
+      })),
+    },
+  }));
+}
+
+/**
+ * Audit snapshot of an option: zones are rewritten on every save, so their
+ * ids are left out to keep unchanged zones out of the diff.
+ */
+export function deliveryOptionSnapshot({ zones, ...option }: DeliveryOptionWithZones) {
+  return {
+    ...option,
+    zones: zones.map(({ id: _id, deliveryOptionId: _opt, weightBands, ...zone }) => ({
+      ...zone,
+      weightBands: weightBands.map(({ id: _bandId, zoneId: _zoneId, ...band }) => band),
+    })),
+  };
+}
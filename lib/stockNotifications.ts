@@ -0,0 +1,158 @@
+// lib/stockNotifications.ts
+// "Notify me" sign-ups for sold-out variants and the back-in-stock emails.
+
+import { prisma } from "@/lib/db";
+import { sendBackInStockEmail } from "@/lib/mail";
+import { liveProductWhere, productAvailability } from "@/lib/productSchedule";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class StockNotificationError extends HttpError {
+  name = "StockNotificationError";
+}
+
+export interface StockNotificationInput {
+  productId: string;
+  color?: string;
+  size?: string;
+  email: string;
+  customerId?: string | null;
+}
+
+export const NOTIFY_BATCH_SIZE = 50;
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Record (or re-arm) a back-in-stock sign-up for one variant. */
+export async function subscribeToRestock(input: StockNotificationInput) {
+  const email = (input.email || "").trim().toLowerCase();
+  if (!EMAIL_RE.test(email)) {
+    throw new StockNotificationError("Enter a valid email address");
+  }
+  if (!input.productId) throw new StockNotificationError("Missing product");
+
+  const variant = await prisma.variant.findUnique({
+    where: {
+      product_color_size: {
+        productId: input.productId,
+        color: input.color ?? "",
+        size: input.size ?? "",
+      },
+    },
+    select: {
+      id: true,
+      stock: true,
+      product: { select: { status: true, publishAt: true, unpublishAt: true } },
+    },
+  });
+  if (!variant || productAvailability(variant.product) !== "live") {
+    throw new StockNotificationError("Variant not found", 404);
+  }
+  if (variant.stock > 0) {
+    throw new StockNotificationError("This item is in stock", 409);
+  }
+
+  return prisma.stockNotification.upsert({
+    where: { variantId_email: { variantId: variant.id, email } },
+    create: {
+      variantId: variant.id,
+      email,
+      customerId: input.customerId ?? null,
+    },
+    update: {
+      notifiedAt: null,
+      unsubscribedAt: null,
+      ...(input.customerId && { customerId: input.customerId }),
+    },
+    select: { id: true, variantId: true, email: true, createdAt: true },
+  });
+}
+
+/** Opt out via the token from the email. Returns false for unknown tokens. */
+export async function unsubscribeFromRestock(token: string): Promise<boolean> {
+  if (!token) return false;
+  const { count } = await prisma.stockNotification.updateMany({
+    where: { token, unsubscribedAt: null },
+    data: { unsubscribedAt: new Date() },
+  });
+  if (count > 0) return true;
+  return (await prisma.stockNotification.count({ where: { token } })) > 0;
+}
+
+/**
+ * Email pending sign-ups whose variant is back in stock, optionally limited
+ * to `variantIds`. Never throws for individual send failures.
+ */
+export async function flushStockNotifications(
+  variantIds?: string[]
+): Promise<{ sent: number; failed: number }> {
+  if (variantIds && variantIds.length === 0) return { sent: 0, failed: 0 };
+
+  const baseUrl = process.env.NEXTAUTH_URL ?? "http://localhost:3000";
+  const failedIds: string[] = [];
+  let sent = 0;
+
+  for (;;) {
+    const batch = await prisma.stockNotification.findMany({
+      where: {
+        notifiedAt: null,
+        unsubscribedAt: null,
+        ...(failedIds.length > 0 && { id: { notIn: failedIds } }),
+        ...(variantIds && { variantId: { in: variantIds } }),
+        variant: { stock: { gt: 0 }, product: liveProductWhere() },
+      },
+      orderBy: { createdAt: "asc" },
+      take: NOTIFY_BATCH_SIZE,
+      include: {
+        variant: {
+          select: {
+            color: true,
+            size: true,
+            product: { select: { id: true, name: true, images: true } },
+          },
+        },
+      },
+    });
+    if (batch.length === 0) break;
+
+    const results = await Promise.allSettled(
+      batch.map((n) =>
+        sendBackInStockEmail({
+          to: n.email,
+          productName: n.variant.product.name,
+          variant: [n.variant.color, n.variant.size].filter(Boolean).join(" / ") || undefined,
+          image: n.variant.product.images[0] ?? null,
+          productUrl: `${baseUrl}/product/${n.variant.product.id}`,
+          unsubscribeUrl: `${baseUrl}/stock-alerts/unsubscribe?token=${n.token}`,
+        })
+      )
+    );
+
+    const sentIds: string[] = [];
+    results.forEach((r, i) => {
+      if (r.status === "fulfilled") {
+        sentIds.push(batch[i].id);
+      } else {
+        failedIds.push(batch[i].id);
+        console.warn(`[stockNotifications] send to ${batch[i].email} failed:`, r.reason);
+      }
+    });
+    if (sentIds.length > 0) {
+      await prisma.stockNotification.updateMany({
+        where: { id: { in: sentIds } },
+        data: { notifiedAt: new Date() },
+      });
+      sent += sentIds.length;
+    }
+    if (batch.length < NOTIFY_BATCH_SIZE) break;
+  }
+
+  return { sent, failed: failedIds.length };
+}
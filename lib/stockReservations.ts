@@ -0,0 +1,256 @@
+// lib/stockReservations.ts
+// Short-lived stock holds keyed by the Paystack reference, so the last unit can't sell twice.
+
+import crypto from "crypto";
+import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma-client/client";
+import { adjustStock } from "@/lib/inventory";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class ReservationError extends HttpError {
+  name = "ReservationError";
+}
+
+export interface ReservationItemInput {
+  productId: string;
+  color?: string;
+  size?: string;
+  quantity: number;
+}
+
+export const RESERVATION_TTL_MS =
+  Math.max(Number(process.env.STOCK_RESERVATION_MINUTES) || 15, 1) * 60 * 1000;
+
+/** Most lines, and units per line, a checkout cart may hold. */
+export const MAX_CART_LINES = 50;
+export const MAX_LINE_QUANTITY = 99;
+
+/** Most units a single hold may take across all its lines. */
+export const MAX_HOLD_UNITS = 200;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+function getSecret(): string {
+  const secret = process.env.STOCK_RESERVATION_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("Missing STOCK_RESERVATION_SECRET in environment");
+  return secret;
+}
+
+/** Token handed back with a hold; needed to replace or release it. */
+export function reservationToken(reference: string): string {
+  return crypto
+    .createHmac("sha256", getSecret())
+    .update(`stock-reservation:${reference}`)
+    .digest("base64url");
+}
+
+function verifyToken(reference: string, token: string | null | undefined): boolean {
+  const a = Buffer.from(token || "");
+  const b = Buffer.from(reservationToken(reference));
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function activeHoldWhere(at: Date): Prisma.StockReservationWhereInput {
+  return { status: "Active", expiresAt: { gt: at } };
+}
+
+/** Same variant lookup as the order route ("N/A" means "any"). */
+function variantWhere(i: { productId: string; color?: string; size?: string }) {
+  const where: Record<string, any> = { productId: i.productId };
+  if (i.color && i.color !== "N/A") where.color = i.color;
+  if (i.size && i.size !== "N/A") where.size = i.size;
+  return where;
+}
+
+/** Row-lock variants so concurrent reservations/orders serialize per variant. */
+async function lockVariants(tx: Prisma.TransactionClient, variantIds: string[]) {
+  for (const id of [...new Set(variantIds)].sort()) {
+    await tx.$queryRaw`SELECT "id" FROM "Variant" WHERE "id" = ${id} FOR UPDATE`;
+  }
+}
+
+/**
+ * Units held per variant by active reservations, optionally ignoring one
+ * reference (the caller's own holds).
+ */
+export async function heldQuantities(
+  db: Prisma.TransactionClient | typeof prisma,
+  variantIds: string[],
+  opts: { excludeReference?: string; at?: Date } = {}
+): Promise<Map<string, number>> {
+  const held = new Map<string, number>();
+  if (variantIds.length === 0) return held;
+  const rows = await db.stockReservation.groupBy({
+    by: ["variantId"],
+    where: {
+      variantId: { in: variantIds },
+      ...activeHoldWhere(opts.at ?? new Date()),
+      ...(opts.excludeReference && { reference: { not: opts.excludeReference } }),
+    },
+    _sum: { quantity: true },
+  });
+  for (const r of rows) held.set(r.variantId, r._sum.quantity ?? 0);
+  return held;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Hold the cart for `reference` until the returned `expiresAt`. Replacing an
+ * active hold needs its `token`. Throws ReservationError (409) when a line
+ * isn't available.
+ */
+export async function reserveStock(
+  reference: string,
+  items: ReservationItemInput[],
+  token?: string | null
+): Promise<{ reference: string; expiresAt: Date; token: string }> {
+  if (!reference) throw new ReservationError("Missing payment reference");
+  if (items.length === 0) throw new ReservationError("No items to reserve");
+  if (items.length > MAX_CART_LINES) {
+    throw new ReservationError(`A hold covers at most ${MAX_CART_LINES} lines`);
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + RESERVATION_TTL_MS);
+
+  await prisma.stockReservation.updateMany({
+    where: { status: "Active", expiresAt: { lte: now } },
+    data: { status: "Expired" },
+  });
+
+  const wanted = new Map<string, { quantity: number; name: string }>();
+  for (const i of items) {
+    const quantity = Math.floor(Number(i.quantity));
+    if (!i.productId || !Number.isFinite(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+      throw new ReservationError("Invalid cart item");
+    }
+    const variant = await prisma.variant.findFirst({
+      where: variantWhere(i),
+      include: { product: { select: { name: true } } },
+    });
+    if (!variant) {
+      throw new ReservationError(`Variant not found: ${i.productId} ${i.color}/${i.size}`);
+    }
+    const prev = wanted.get(variant.id);
+    wanted.set(variant.id, {
+      quantity: (prev?.quantity ?? 0) + quantity,
+      name: variant.product.name,
+    });
+  }
+  const units = [...wanted.values()].reduce((sum, w) => sum + w.quantity, 0);
+  if (units > MAX_HOLD_UNITS) {
+    throw new ReservationError(`A hold covers at most ${MAX_HOLD_UNITS} units`);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.stockReservation.count({
+      where: { reference, ...activeHoldWhere(now) },
+    });
+    if (existing > 0 && !verifyToken(reference, token)) {
+      throw new ReservationError("Reference is already held", 403);
+    }
+
+    const variantIds = [...wanted.keys()];
+    await lockVariants(tx, variantIds);
+
+    const variants = await tx.variant.findMany({
+      where: { id: { in: variantIds } },
+      select: { id: true, stock: true },
+    });
+    const held = await heldQuantities(tx, variantIds, { excludeReference: reference, at: now });
+
+    for (const v of variants) {
+      const { quantity, name } = wanted.get(v.id)!;
+      if (v.stock - (held.get(v.id) ?? 0) < quantity) {
+        throw new ReservationError(`Insufficient stock for ${name}`, 409);
+      }
+    }
+
+    await tx.stockReservation.updateMany({
+      where: { reference, status: "Active" },
+      data: { status: "Released" },
+    });
+    await tx.stockReservation.createMany({
+      data: variantIds.map((variantId) => ({
+        reference,
+        variantId,
+        quantity: wanted.get(variantId)!.quantity,
+        expiresAt,
+      })),
+    });
+  });
+
+  return { reference, expiresAt, token: reservationToken(reference) };
+}
+
+/** Drop the holds for `reference` (popup closed / payment abandoned). */
+export async function releaseReservation(reference: string, token: string | null): Promise<number> {
+  if (!verifyToken(reference, token)) throw new ReservationError("Invalid reservation token", 403);
+  const { count } = await prisma.stockReservation.updateMany({
+    where: { reference, status: "Active" },
+    data: { status: "Released" },
+  });
+  return count;
+}
+
+/**
+ * Inside the order transaction: lock the variants, convert this reference's
+ * active holds and decrement stock. Lines not covered by a hold must fit in
+ * stock left after everyone else's holds. Throws ReservationError (409).
+ */
+export async function convertReservation(
+  tx: Prisma.TransactionClient,
+  reference: string,
+  orderId: string,
+  lines: { variantId: string; quantity: number; name: string }[]
+): Promise<void> {
+  const now = new Date();
+  const variantIds = lines.map((l) => l.variantId);
+  await lockVariants(tx, variantIds);
+
+  const own = await tx.stockReservation.findMany({
+    where: { reference, variantId: { in: variantIds }, ...activeHoldWhere(now) },
+    select: { variantId: true, quantity: true },
+  });
+  const reserved = new Map<string, number>();
+  for (const r of own) reserved.set(r.variantId, (reserved.get(r.variantId) ?? 0) + r.quantity);
+  const othersHeld = await heldQuantities(tx, variantIds, { excludeReference: reference, at: now });
+
+  for (const l of lines) {
+    const covered = Math.min(reserved.get(l.variantId) ?? 0, l.quantity);
+    reserved.set(l.variantId, (reserved.get(l.variantId) ?? 0) - covered);
+    const extra = l.quantity - covered;
+
+    const variant = await tx.variant.findUniqueOrThrow({
+      where: { id: l.variantId },
+      select: { stock: true },
+    });
+    if (
+      variant.stock < l.quantity ||
+      (extra > 0 && variant.stock - covered - (othersHeld.get(l.variantId) ?? 0) < extra)
+    ) {
+      throw new ReservationError(`Insufficient stock for ${l.name}`, 409);
+    }
+
+    await adjustStock(tx, {
+      variantId: l.variantId,
+      delta: -l.quantity,
+      reason: "Sale",
+      orderId,
+    });
+  }
+
+  await tx.stockReservation.updateMany({
+    where: { reference, status: "Active" },
+    data: { status: "Converted", orderId },
+  });
+}
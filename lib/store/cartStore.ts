@@ -2,6 +2,7 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import type { Product } from "@/lib/products";
+import { variantSaleInfo, variantUnitPrice, type SaleInfo } from "@/lib/variantPricing";
 
 export type Currency = "NGN" | "USD" | "EUR" | "GBP";
 
@@ -20,6 +21,8 @@ export interface CartItem {
 
 interface CartStoreState {
   items: CartItem[];
+  /** Customer whose server cart `items` mirror; null for a guest cart. */
+  syncedCustomerId: string | null;
   addToCart: (item: CartItem) => void;
   removeFromCart: (
     productId: string,
@@ -38,6 +41,8 @@ interface CartStoreState {
   ) => void;
   clearCart: () => void;
   clear: () => void;
+  /** Swap in the server cart (see CartSync); null customer = back to a guest cart. */
+  replaceFromServer: (items: CartItem[], customerId: string | null) => void;
   totalItems: () => number;
   totalDistinctItems: () => number;
   totalAmount: () => number;
@@ -63,6 +68,33 @@ function getVariantStock(product: Product, color: string, size: string) {
   return 0;
 }
 
+/**
+ * Current unit price of a cart line in `currency`: the variant's override,
+ * else the product price, else the price stored when the line was added.
+ */
+export function cartItemUnitPrice(
+  item: Pick<CartItem, "product" | "color" | "size" | "price">,
+  currency: Currency
+): number {
+  const fromCatalogue = variantUnitPrice(item.product, item.color, item.size, currency);
+  if (fromCatalogue) return fromCatalogue;
+
+  // Older persisted carts may hold raw prisma fields (priceNGN, …)
+  const p = item.product as any;
+  const raw = p?.[`price${currency}`] ?? p?.priceNGN ?? p?.priceUSD ?? p?.priceEUR ?? p?.priceGBP;
+  if (typeof raw === "number" && raw) return raw;
+
+  return item.price || 0;
+}
+
+/** Compare-at ("was") price of a cart line, or null when it isn't on sale. */
+export function cartItemSale(
+  item: Pick<CartItem, "product" | "color" | "size">,
+  currency: Currency
+): SaleInfo | null {
+  return variantSaleInfo(item.product, item.color, item.size, currency);
+}
+
 function ensureCurrency(items: CartItem[]): CartItem[] {
   return (items || []).map((ci) => ({ ...ci, currency: ci.currency || "NGN" }));
 }
@@ -71,6 +103,7 @@ export const useCartStore = create<CartStoreState>()(
   persist(
     (set, get) => ({
       items: [],
+      syncedCustomerId: null,
 
       addToCart: (item) => {
         const { product, color, size, quantity, price, hasSizeMod, customMods,
@@ -182,6 +215,8 @@ export const useCartStore = create<CartStoreState>()(
 
       clearCart: () => set({ items: [] }),
       clear: () => set({ items: [] }),
+      replaceFromServer: (items, customerId) =>
+        set({ items: ensureCurrency(items), syncedCustomerId: customerId }),
 
       totalItems: () => get().items.reduce((s, it) => s + it.quantity, 0),
       totalDistinctItems: () => get().items.length,
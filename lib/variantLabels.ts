@@ -0,0 +1,130 @@
+// lib/variantLabels.ts
+// Printable QR labels for variants and the scan lookup used by the log-sale form.
+
+import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma-client/client";
+import { HttpError } from "@/lib/httpError";
+
+/* -------------------------------------------------------------------------- */
+/*                                Types & errors                              */
+/* -------------------------------------------------------------------------- */
+
+export class VariantLabelError extends HttpError {
+  name = "VariantLabelError";
+}
+
+export const MAX_LABEL_PRODUCTS = 200;
+export const MAX_LABELS = 1000;
+
+export type LabelCopies = "one" | "stock";
+
+export interface VariantLabel {
+  code: string;
+  productName: string;
+  color: string;
+  size: string;
+  /** Effective NGN unit price (variant override, else product price). */
+  priceNGN: number | null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Helpers                                  */
+/* -------------------------------------------------------------------------- */
+
+/** The value a variant's label encodes. */
+export function variantLabelCode(v: { id: string; sku: string | null; barcode: string | null }): string {
+  return v.sku || v.barcode || v.id;
+}
+
+const LOOKUP_SELECT = {
+  id: true,
+  name: true,
+  sizeMods: true,
+  images: true,
+  priceNGN: true,
+  priceUSD: true,
+  priceEUR: true,
+  priceGBP: true,
+  variants: {
+    select: {
+      id: true,
+      color: true,
+      size: true,
+      stock: true,
+      sku: true,
+      barcode: true,
+      priceNGN: true,
+    },
+  },
+} satisfies Prisma.ProductSelect;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Public API                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Labels for every variant of the given products, in the order given. */
+export async function loadVariantLabels(
+  productIds: string[],
+  copies: LabelCopies
+): Promise<VariantLabel[]> {
+  const ids = [...new Set(productIds)];
+  if (ids.length === 0) throw new VariantLabelError("Select at least one product");
+  if (ids.length > MAX_LABEL_PRODUCTS) {
+    throw new VariantLabelError(`At most ${MAX_LABEL_PRODUCTS} products at a time`);
+  }
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      name: true,
+      priceNGN: true,
+      variants: {
+        select: { id: true, color: true, size: true, stock: true, sku: true, barcode: true, priceNGN: true },
+        orderBy: [{ color: "asc" }, { size: "asc" }],
+      },
+    },
+  });
+  const byId = new Map(products.map((p) => [p.id, p]));
+
+  const labels: VariantLabel[] = [];
+  for (const id of ids) {
+    const p = byId.get(id);
+    if (!p) continue;
+    for (const v of p.variants) {
+      const count = copies === "stock" ? Math.max(v.stock, 0) : 1;
+      for (let i = 0; i < count; i++) {
+        labels.push({
+          code: variantLabelCode(v),
+          productName: p.name,
+          color: v.color,
+          size: v.size,
+          priceNGN: v.priceNGN ?? p.priceNGN,
+        });
+      }
+      if (labels.length > MAX_LABELS) {
+        throw new VariantLabelError(`That is more than ${MAX_LABELS} labels; select fewer products`);
+      }
+    }
+  }
+
+  if (labels.length === 0) throw new VariantLabelError("Nothing to print", 404);
+  return labels;
+}
+
+/**
+ * The product and variant a scanned code belongs to (SKU, barcode or variant
+ * id), or null when nothing matches.
+ */
+export async function findVariantByCode(raw: string) {
+  const code = raw.trim();
+  if (!code) return null;
+
+  const variant = await prisma.variant.findFirst({
+    where: { OR: [{ sku: code }, { barcode: code }, { id: code }] },
+    select: { id: true, product: { select: LOOKUP_SELECT } },
+  });
+  if (!variant) return null;
+
+  return { variantId: variant.id, product: variant.product };
+}
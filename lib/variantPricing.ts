@@ -0,0 +1,131 @@
+// lib/variantPricing.ts
+// Per-variant price overrides and compare-at ("was") prices.
+
+export const PRICE_CURRENCIES = ["NGN", "USD", "EUR", "GBP"] as const;
+export type PriceCurrency = (typeof PRICE_CURRENCIES)[number];
+
+export type PriceOverrides = Partial<Record<PriceCurrency, number>>;
+
+type PriceFields = {
+  priceNGN?: number | null;
+  priceUSD?: number | null;
+  priceEUR?: number | null;
+  priceGBP?: number | null;
+};
+
+type CompareAtFields = {
+  compareAtNGN?: number | null;
+  compareAtUSD?: number | null;
+  compareAtEUR?: number | null;
+  compareAtGBP?: number | null;
+};
+
+export interface SaleInfo {
+  compareAt: number;
+  /** Whole percent off the compare-at price (at least 1). */
+  percentOff: number;
+}
+
+/** Overrides set on a variant row (`priceNGN` → `{ NGN }`); unset currencies are left out. */
+export function variantPriceOverrides(v: PriceFields): PriceOverrides {
+  const out: PriceOverrides = {};
+  for (const c of PRICE_CURRENCIES) {
+    const value = v[`price${c}`];
+    if (typeof value === "number") out[c] = value;
+  }
+  return out;
+}
+
+/** Compare-at prices set on a row (`compareAtNGN` → `{ NGN }`); works for products and variants. */
+export function compareAtPrices(v: CompareAtFields): PriceOverrides {
+  const out: PriceOverrides = {};
+  for (const c of PRICE_CURRENCIES) {
+    const value = v[`compareAt${c}`];
+    if (typeof value === "number") out[c] = value;
+  }
+  return out;
+}
+
+/** Sale badge data for a price, or null when `compareAt` is not above it. */
+export function saleInfo(price: number, compareAt: number | null | undefined): SaleInfo | null {
+  if (typeof compareAt !== "number" || !(price > 0) || compareAt <= price) return null;
+  return { compareAt, percentOff: Math.max(1, Math.round((1 - price / compareAt) * 100)) };
+}
+
+/** Unit price from DB rows: the variant override, else the product price (0 when neither is set). */
+export function resolveUnitPrice(
+  product: PriceFields,
+  variant: PriceFields | null | undefined,
+  currency: PriceCurrency
+): number {
+  const override = variant?.[`price${currency}`];
+  if (typeof override === "number") return override;
+  const base = product[`price${currency}`];
+  return typeof base === "number" ? base : 0;
+}
+
+/** Compare-at price from DB rows (variant, else product), or null when not on sale. */
+export function resolveCompareAt(
+  product: PriceFields & CompareAtFields,
+  variant: (PriceFields & CompareAtFields) | null | undefined,
+  currency: PriceCurrency
+): number | null {
+  const own = variant?.[`compareAt${currency}`];
+  const compareAt = typeof own === "number" ? own : product[`compareAt${currency}`];
+  return saleInfo(resolveUnitPrice(product, variant, currency), compareAt)?.compareAt ?? null;
+}
+
+/**
+ * Unit price from a mapped storefront product (`prices` + `variants[].prices`)
+ * for the chosen colour/size. Returns undefined when the product carries no
+ * price for the currency at all.
+ */
+export function variantUnitPrice(
+  product: {
+    prices?: Partial<Record<PriceCurrency, number>>;
+    variants?: { color: string; size: string; prices?: PriceOverrides }[];
+  },
+  color: string,
+  size: string,
+  currency: PriceCurrency
+): number | undefined {
+  const variant = product.variants?.find((v) => v.color === color && v.size === size);
+  const override = variant?.prices?.[currency];
+  if (typeof override === "number") return override;
+  const base = product.prices?.[currency];
+  return typeof base === "number" ? base : undefined;
+}
+
+/**
+ * Sale info from a mapped storefront product (`compareAt` + `variants[].compareAt`)
+ * for the chosen colour/size; with no variant chosen, the product-level prices.
+ */
+export function variantSaleInfo(
+  product: {
+    prices?: Partial<Record<PriceCurrency, number>>;
+    compareAt?: PriceOverrides;
+    variants?: { color: string; size: string; prices?: PriceOverrides; compareAt?: PriceOverrides }[];
+  },
+  color: string,
+  size: string,
+  currency: PriceCurrency
+): SaleInfo | null {
+  const variant = product.variants?.find((v) => v.color === color && v.size === size);
+  const price = variantUnitPrice(product, color, size, currency);
+  if (price == null) return null;
+  return saleInfo(price, variant?.compareAt?.[currency] ?? product.compareAt?.[currency]);
+}
+
+/** Is the product, or any of its variants, on sale in `currency`? (Sale filter, card badge) */
+export function productOnSale(
+  product: {
+    prices?: Partial<Record<PriceCurrency, number>>;
+    compareAt?: PriceOverrides;
+    variants?: { color: string; size: string; prices?: PriceOverrides; compareAt?: PriceOverrides }[];
+  },
+  currency: PriceCurrency
+): boolean {
+  const base = product.prices?.[currency];
+  if (typeof base === "number" && saleInfo(base, product.compareAt?.[currency])) return true;
+  return (product.variants ?? []).some((v) => !!variantSaleInfo(product, v.color, v.size, currency));
+}
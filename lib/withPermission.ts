@@ -0,0 +1,33 @@
+// lib/withPermission.ts
+import { NextResponse } from "next/server";
+import type { Session } from "next-auth";
+import { getAdminSession } from "./getAdminSession";
+import { can, type Capability } from "./permissions";
+
+type RouteHandler<R extends Request, C> = (
+  req: R,
+  ctx: C,
+  session: Session
+) => Promise<Response> | Response;
+
+/**
+ * Wraps an API route handler so it only runs for staff whose role holds
+ * `capability` (or any of them, when given a list). Not signed in as staff →
+ * 401; signed in without the capability → 403. The handler receives the
+ * staff session as its third argument.
+ */
+export function withPermission<R extends Request, C>(
+  capability: Capability | readonly Capability[],
+  handler: RouteHandler<R, C>
+) {
+  return async (req: R, ctx: C): Promise<Response> => {
+    const session = await getAdminSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!can(session.user.role, capability)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return handler(req, ctx, session);
+  };
+}
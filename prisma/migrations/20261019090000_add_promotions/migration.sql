@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "PromotionType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING', 'BUY_X_GET_Y');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "discountCode" TEXT,
+ADD COLUMN     "discountDetails" JSONB,
+ADD COLUMN     "promotionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "PromotionType" NOT NULL,
+    "percentOff" DOUBLE PRECISION,
+    "amountOffNGN" DOUBLE PRECISION,
+    "amountOffUSD" DOUBLE PRECISION,
+    "amountOffEUR" DOUBLE PRECISION,
+    "amountOffGBP" DOUBLE PRECISION,
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "productIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "categorySlugs" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "minSpendNGN" DOUBLE PRECISION,
+    "minSpendUSD" DOUBLE PRECISION,
+    "minSpendEUR" DOUBLE PRECISION,
+    "minSpendGBP" DOUBLE PRECISION,
+    "usageLimit" INTEGER,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "perCustomerLimit" INTEGER,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PromotionRedemption" (
+    "id" TEXT NOT NULL,
+    "promotionId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "customerId" TEXT,
+    "email" TEXT NOT NULL,
+    "discountAmount" DOUBLE PRECISION NOT NULL,
+    "currency" "Currency" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromotionRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Promotion_code_key" ON "Promotion"("code");
+
+-- CreateIndex
+CREATE INDEX "Promotion_active_startsAt_endsAt_idx" ON "Promotion"("active", "startsAt", "endsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromotionRedemption_orderId_key" ON "PromotionRedemption"("orderId");
+
+-- CreateIndex
+CREATE INDEX "PromotionRedemption_promotionId_customerId_idx" ON "PromotionRedemption"("promotionId", "customerId");
+
+-- CreateIndex
+CREATE INDEX "PromotionRedemption_promotionId_email_idx" ON "PromotionRedemption"("promotionId", "email");
+
+-- CreateIndex
+CREATE INDEX "Order_promotionId_idx" ON "Order"("promotionId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionRedemption" ADD CONSTRAINT "PromotionRedemption_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionRedemption" ADD CONSTRAINT "PromotionRedemption_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionRedemption" ADD CONSTRAINT "PromotionRedemption_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
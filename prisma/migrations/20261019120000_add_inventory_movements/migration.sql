@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "InventoryReason" AS ENUM ('Sale', 'Cancel', 'Restock', 'Adjustment', 'Return');
+
+-- CreateTable
+CREATE TABLE "InventoryMovement" (
+    "id" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "reason" "InventoryReason" NOT NULL,
+    "balance" INTEGER NOT NULL,
+    "orderId" TEXT,
+    "staffId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_variantId_createdAt_idx" ON "InventoryMovement"("variantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_orderId_idx" ON "InventoryMovement"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "Staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "lowStockThreshold" INTEGER NOT NULL DEFAULT 5;
+
+-- AlterTable
+ALTER TABLE "Variant" ADD COLUMN     "lowStockThreshold" INTEGER;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "StockNotification" (
+    "id" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "customerId" TEXT,
+    "token" TEXT NOT NULL,
+    "notifiedAt" TIMESTAMP(3),
+    "unsubscribedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockNotification_token_key" ON "StockNotification"("token");
+
+-- CreateIndex
+CREATE INDEX "StockNotification_variantId_notifiedAt_idx" ON "StockNotification"("variantId", "notifiedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockNotification_variantId_email_key" ON "StockNotification"("variantId", "email");
+
+-- AddForeignKey
+ALTER TABLE "StockNotification" ADD CONSTRAINT "StockNotification_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockNotification" ADD CONSTRAINT "StockNotification_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
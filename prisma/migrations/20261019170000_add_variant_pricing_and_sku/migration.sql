@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "sku" TEXT;
+
+-- AlterTable
+ALTER TABLE "Variant" ADD COLUMN     "barcode" TEXT,
+ADD COLUMN     "priceEUR" DOUBLE PRECISION,
+ADD COLUMN     "priceGBP" DOUBLE PRECISION,
+ADD COLUMN     "priceNGN" DOUBLE PRECISION,
+ADD COLUMN     "priceUSD" DOUBLE PRECISION,
+ADD COLUMN     "sku" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Variant_sku_key" ON "Variant"("sku");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Variant_barcode_key" ON "Variant"("barcode");
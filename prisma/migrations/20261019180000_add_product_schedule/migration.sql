@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "LaunchNotification" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "customerId" TEXT,
+    "token" TEXT NOT NULL,
+    "notifiedAt" TIMESTAMP(3),
+    "unsubscribedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LaunchNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Product_status_publishAt_idx" ON "Product"("status", "publishAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LaunchNotification_token_key" ON "LaunchNotification"("token");
+
+-- CreateIndex
+CREATE INDEX "LaunchNotification_productId_notifiedAt_idx" ON "LaunchNotification"("productId", "notifiedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LaunchNotification_productId_email_key" ON "LaunchNotification"("productId", "email");
+
+-- AddForeignKey
+ALTER TABLE "LaunchNotification" ADD CONSTRAINT "LaunchNotification_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LaunchNotification" ADD CONSTRAINT "LaunchNotification_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
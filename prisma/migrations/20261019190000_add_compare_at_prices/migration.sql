@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "compareAtPrice" DOUBLE PRECISION,
+ADD COLUMN     "unitPrice" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "compareAtEUR" DOUBLE PRECISION,
+ADD COLUMN     "compareAtGBP" DOUBLE PRECISION,
+ADD COLUMN     "compareAtNGN" DOUBLE PRECISION,
+ADD COLUMN     "compareAtUSD" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Variant" ADD COLUMN     "compareAtEUR" DOUBLE PRECISION,
+ADD COLUMN     "compareAtGBP" DOUBLE PRECISION,
+ADD COLUMN     "compareAtNGN" DOUBLE PRECISION,
+ADD COLUMN     "compareAtUSD" DOUBLE PRECISION;
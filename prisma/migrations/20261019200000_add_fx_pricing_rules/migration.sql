@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "PriceRounding" AS ENUM ('None', 'Whole', 'NinetyNine', 'NearestFive');
+
+-- CreateTable
+CREATE TABLE "PricingRule" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "markupPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "rounding" "PriceRounding" NOT NULL DEFAULT 'None',
+    "autoReprice" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PricingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RepriceRun" (
+    "id" TEXT NOT NULL,
+    "staffId" TEXT,
+    "scheduled" BOOLEAN NOT NULL DEFAULT false,
+    "rates" JSONB NOT NULL,
+    "productCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RepriceRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PriceChange" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "field" TEXT NOT NULL,
+    "currency" "Currency" NOT NULL,
+    "oldPrice" DOUBLE PRECISION,
+    "newPrice" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PricingRule_productId_key" ON "PricingRule"("productId");
+
+-- CreateIndex
+CREATE INDEX "RepriceRun_createdAt_idx" ON "RepriceRun"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "PriceChange_runId_idx" ON "PriceChange"("runId");
+
+-- CreateIndex
+CREATE INDEX "PriceChange_productId_createdAt_idx" ON "PriceChange"("productId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PricingRule" ADD CONSTRAINT "PricingRule_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RepriceRun" ADD CONSTRAINT "RepriceRun_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "Staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceChange" ADD CONSTRAINT "PriceChange_runId_fkey" FOREIGN KEY ("runId") REFERENCES "RepriceRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "fxRateToNGN" DOUBLE PRECISION,
+ADD COLUMN     "fxSnapshotId" TEXT;
+
+-- CreateTable
+CREATE TABLE "FxRateSnapshot" (
+    "id" TEXT NOT NULL,
+    "base" TEXT NOT NULL,
+    "rates" JSONB NOT NULL,
+    "source" TEXT NOT NULL,
+    "providerUpdatedAt" TIMESTAMP(3) NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FxRateSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FxRateSnapshot_base_fetchedAt_idx" ON "FxRateSnapshot"("base", "fetchedAt");
+
+-- CreateIndex
+CREATE INDEX "FxRateSnapshot_fetchedAt_idx" ON "FxRateSnapshot"("fetchedAt");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_fxSnapshotId_fkey" FOREIGN KEY ("fxSnapshotId") REFERENCES "FxRateSnapshot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "AbandonedCartStatus" AS ENUM ('Open', 'Converted', 'Recovered', 'Unsubscribed', 'Expired');
+
+-- CreateTable
+CREATE TABLE "AbandonedCart" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "customerId" TEXT,
+    "currency" "Currency" NOT NULL DEFAULT 'NGN',
+    "items" JSONB NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "status" "AbandonedCartStatus" NOT NULL DEFAULT 'Open',
+    "activityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "remindersSent" INTEGER NOT NULL DEFAULT 0,
+    "lastRemindedAt" TIMESTAMP(3),
+    "restoredAt" TIMESTAMP(3),
+    "orderId" TEXT,
+    "orderTotalNGN" INTEGER,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AbandonedCart_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AbandonedCart_orderId_key" ON "AbandonedCart"("orderId");
+
+-- CreateIndex
+CREATE INDEX "AbandonedCart_status_activityAt_idx" ON "AbandonedCart"("status", "activityAt");
+
+-- CreateIndex
+CREATE INDEX "AbandonedCart_email_status_idx" ON "AbandonedCart"("email", "status");
+
+-- CreateIndex
+CREATE INDEX "AbandonedCart_createdAt_idx" ON "AbandonedCart"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AbandonedCart" ADD CONSTRAINT "AbandonedCart_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AbandonedCart" ADD CONSTRAINT "AbandonedCart_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
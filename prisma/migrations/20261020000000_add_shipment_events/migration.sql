@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ShipmentEvent" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "status" "ShipmentStatus" NOT NULL,
+    "providerStatus" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShipmentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShipmentEvent_shipmentId_occurredAt_idx" ON "ShipmentEvent"("shipmentId", "occurredAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentEvent_shipmentId_providerStatus_occurredAt_key" ON "ShipmentEvent"("shipmentId", "providerStatus", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentEvent" ADD CONSTRAINT "ShipmentEvent_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ShipmentProvider" ADD VALUE 'FAKE';
+
+-- AlterTable
+ALTER TABLE "DeliveryOption" ADD COLUMN     "carrier" "ShipmentProvider";
@@ -0,0 +1,58 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'ReadyForPickup' BEFORE 'Shipped';
+
+-- AlterEnum
+ALTER TYPE "DeliveryPricingMode" ADD VALUE 'PICKUP';
+
+-- CreateTable
+CREATE TABLE "PickupLocation" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "city" TEXT,
+    "state" TEXT,
+    "country" TEXT NOT NULL DEFAULT 'Nigeria',
+    "phone" TEXT,
+    "openingHours" TEXT NOT NULL,
+    "prepTimeHours" INTEGER NOT NULL DEFAULT 24,
+    "instructions" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PickupLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderPickup" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "codeHash" TEXT,
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "readyAt" TIMESTAMP(3),
+    "collectedAt" TIMESTAMP(3),
+    "collectedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderPickup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PickupLocation_active_idx" ON "PickupLocation"("active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderPickup_orderId_key" ON "OrderPickup"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderPickup_locationId_collectedAt_idx" ON "OrderPickup"("locationId", "collectedAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderPickup" ADD CONSTRAINT "OrderPickup_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderPickup" ADD CONSTRAINT "OrderPickup_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "PickupLocation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderPickup" ADD CONSTRAINT "OrderPickup_collectedById_fkey" FOREIGN KEY ("collectedById") REFERENCES "Staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "deliveryOptionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "countries" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "states" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "feeNGN" DOUBLE PRECISION NOT NULL,
+    "feeUSD" DOUBLE PRECISION,
+    "feeEUR" DOUBLE PRECISION,
+    "feeGBP" DOUBLE PRECISION,
+    "freeOverNGN" DOUBLE PRECISION,
+    "freeOverUSD" DOUBLE PRECISION,
+    "freeOverEUR" DOUBLE PRECISION,
+    "freeOverGBP" DOUBLE PRECISION,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingWeightBand" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "maxWeightKg" DOUBLE PRECISION NOT NULL,
+    "feeNGN" DOUBLE PRECISION NOT NULL,
+    "feeUSD" DOUBLE PRECISION,
+    "feeEUR" DOUBLE PRECISION,
+    "feeGBP" DOUBLE PRECISION,
+
+    CONSTRAINT "ShippingWeightBand_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingZone_deliveryOptionId_active_idx" ON "ShippingZone"("deliveryOptionId", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShippingWeightBand_zoneId_maxWeightKg_key" ON "ShippingWeightBand"("zoneId", "maxWeightKg");
+
+-- AddForeignKey
+ALTER TABLE "ShippingZone" ADD CONSTRAINT "ShippingZone_deliveryOptionId_fkey" FOREIGN KEY ("deliveryOptionId") REFERENCES "DeliveryOption"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingWeightBand" ADD CONSTRAINT "ShippingWeightBand_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PartiallyShipped' BEFORE 'Shipped';
+ALTER TYPE "OrderStatus" ADD VALUE 'PartiallyDelivered' BEFORE 'Delivered';
+
+-- DropIndex
+DROP INDEX "Shipment_orderId_key";
+
+-- CreateTable
+CREATE TABLE "ShipmentItem" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "ShipmentItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Shipment_orderId_idx" ON "Shipment"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentItem_shipmentId_orderItemId_key" ON "ShipmentItem"("shipmentId", "orderItemId");
+
+-- CreateIndex
+CREATE INDEX "ShipmentItem_orderItemId_idx" ON "ShipmentItem"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentItem" ADD CONSTRAINT "ShipmentItem_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShipmentItem" ADD CONSTRAINT "ShipmentItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing shipments carried the whole order
+INSERT INTO "ShipmentItem" ("id", "shipmentId", "orderItemId", "quantity")
+SELECT md5(s."id" || ':' || oi."id"), s."id", oi."id", oi."quantity"
+FROM "Shipment" s
+JOIN "OrderItem" oi ON oi."orderId" = s."orderId";
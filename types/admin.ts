@@ -21,9 +21,18 @@ export interface AdminCustomerOrderProduct {
 
 export interface AdminCustomerOrder {
   id: string;
-  status: "Processing" | "Shipped" | "Delivered" | "Cancelled";
+  status:
+    | "Processing"
+    | "ReadyForPickup"
+    | "PartiallyShipped"
+    | "Shipped"
+    | "PartiallyDelivered"
+    | "Delivered"
+    | "Cancelled";
   currency: "NGN" | "USD" | "EUR" | "GBP";
+  /** Items subtotal in the order currency, before any discount. */
   totalAmount: number;
+  /** NGN revenue for the items, net of the items discount. */
   totalNGN: number;
   createdAt: string;
   paymentMethod: string;
@@ -2,7 +2,14 @@ export type OrderChannel = "ONLINE" | "OFFLINE";
 
 export type OrderRow = {
   id: string;
-  status: "Processing" | "Shipped" | "Delivered" | "Cancelled";
+  status:
+    | "Processing"
+    | "ReadyForPickup"
+    | "PartiallyShipped"
+    | "Shipped"
+    | "PartiallyDelivered"
+    | "Delivered"
+    | "Cancelled";
   currency: "NGN" | "USD" | "EUR" | "GBP";
   totalAmount: number;
   totalNGN: number;
@@ -12,16 +19,21 @@ export type OrderRow = {
   products: Array<{
     id: string;
     name: string;
+    sku?: string | null;
     image: string;
     category: string;
     color: string;
     size: string;
     quantity: number;
     lineTotal: number;
+    /** Unit price as charged and the compare-at price then, when on sale (null on older orders). */
+    unitPrice?: number | null;
+    compareAtPrice?: number | null;
     priceNGN: number;
     hasSizeMod?: boolean;
     sizeModFee?: number;
     customSize?: Record<string, string> | null;
+    refundedQuantity?: number;
   }>;
 
   customer: {
@@ -37,13 +49,39 @@ export type OrderRow = {
     id: string;
     name: string;
     provider: string | null;
-    type: "COURIER";
+    type: "COURIER" | "PICKUP";
   } | null;
   deliveryFee: number | null;
   deliveryDetails: string | null;
+  discountCode?: string | null;
+  discountAmount?: number;
+  refundStatus?: "Pending" | "Completed" | "Failed" | null;
+  refundedAmount?: number;
+
+  /** Store pickup progress (null for shipped orders and walk-in sales). */
+  pickup?: {
+    locationName: string;
+    readyAt: string | null;
+    collectedAt: string | null;
+  } | null;
 
   // 🔽 NEW fields for UI logic
   hasShipbubbleLabel?: boolean;
   shipbubbleOrderId?: string | null;
   shipbubbleTrackingUrl?: string | null;
+
+  /** Parcels the order ships in, oldest first (cancelled ones included). */
+  shipments?: OrderShipmentRow[];
+};
+
+export type OrderShipmentRow = {
+  id: string;
+  status: "REQUESTED" | "LABEL_CREATED" | "IN_TRANSIT" | "DELIVERED" | "CANCELLED" | "FAILED";
+  courierName: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  labelUrl: string | null;
+  createdAt: string;
+  /** Quantities of `products[].id` in this parcel. */
+  items: Array<{ orderItemId: string; quantity: number }>;
 };
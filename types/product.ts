@@ -19,12 +19,37 @@ export type ProductPrice = {
  */
 export type ColorSizeStocks = Record<string, Record<string, string>>;
 
+/**
+ * Optional SKU / barcode and per-currency price and compare-at overrides for
+ * one color/size. A missing price or compare-at means the product's applies.
+ */
+export interface VariantDetail {
+  color: string;
+  size: string;
+  sku: string | null;
+  barcode: string | null;
+  prices: Partial<ProductPrice>;
+  compareAt?: Partial<ProductPrice>;
+}
+
+export type PriceRounding = "None" | "Whole" | "NinetyNine" | "NearestFive";
+
+/** FX pricing for one product: USD / EUR / GBP derived from NGN. */
+export interface ProductPricingRule {
+  /** false = prices are typed by hand, even when the store rule is on. */
+  enabled: boolean;
+  markupPercent: number;
+  rounding: PriceRounding;
+}
+
 export interface ProductPayload {
   id?: string;
   name: string;
   category: string;
   description: string;
   price: ProductPrice;
+  /** Compare-at ("was") prices; shown as a sale when above `price`. */
+  compareAt?: Partial<ProductPrice>;
   status: ProductStatus;
   sizeMods: boolean;
   colors: string[];
@@ -44,4 +69,11 @@ export interface ProductPayload {
    * uses this to create variants.
    */
   colorSizeStocks?: ColorSizeStocks;
+  /** SKU / barcode / price overrides per variant (edit form sends all). */
+  variantDetails?: VariantDetail[];
+  /** Drop schedule (ISO); only applies while Published. null = none. */
+  publishAt?: string | null;
+  unpublishAt?: string | null;
+  /** Own FX pricing rule; null = follow the store-wide rule. */
+  pricingRule?: ProductPricingRule | null;
 }